@@ -0,0 +1,211 @@
+-- CreateEnum
+CREATE TYPE "PayType" AS ENUM ('HOURLY', 'SALARY');
+
+-- CreateEnum
+CREATE TYPE "PayrollLineCategory" AS ENUM ('EARNING', 'PRE_TAX_DEDUCTION', 'TAX', 'POST_TAX_DEDUCTION');
+
+-- CreateEnum
+CREATE TYPE "PayrollLineCalculation" AS ENUM ('FLAT', 'PERCENT_OF_GROSS', 'PER_HOUR');
+
+-- CreateEnum
+CREATE TYPE "PayPeriodStatus" AS ENUM ('OPEN', 'PROCESSING', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "PayRunStatus" AS ENUM ('DRAFT', 'CALCULATED', 'FINALIZED', 'VOID');
+
+-- AlterTable
+ALTER TABLE "employee_hr_profiles" ADD COLUMN     "overtimeExempt" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "payCurrency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "payRate" DOUBLE PRECISION,
+ADD COLUMN     "payType" "PayType";
+
+-- CreateTable
+CREATE TABLE "hr_payroll_line_definitions" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "category" "PayrollLineCategory" NOT NULL,
+    "calculation" "PayrollLineCalculation" NOT NULL DEFAULT 'FLAT',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "employeeTypes" "EmployeeType"[] DEFAULT ARRAY[]::"EmployeeType"[],
+    "employeeHrProfileId" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_payroll_line_definitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_pay_periods" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "payDate" TIMESTAMP(3) NOT NULL,
+    "status" "PayPeriodStatus" NOT NULL DEFAULT 'OPEN',
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_pay_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_pay_runs" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "payPeriodId" TEXT NOT NULL,
+    "status" "PayRunStatus" NOT NULL DEFAULT 'DRAFT',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "employeeCount" INTEGER NOT NULL DEFAULT 0,
+    "totalGross" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalDeductions" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalNet" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "calculatedAt" TIMESTAMP(3),
+    "finalizedAt" TIMESTAMP(3),
+    "finalizedById" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "voidedById" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_pay_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_pay_run_entries" (
+    "id" TEXT NOT NULL,
+    "payRunId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "regularHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "overtimeHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "paidTimeOffHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "unpaidTimeOffHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "grossPay" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalDeductions" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "netPay" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "earnings" JSONB NOT NULL,
+    "deductions" JSONB NOT NULL,
+    "warnings" JSONB,
+    "sourceSummary" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_pay_run_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_pay_stubs" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "payRunId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "stubNumber" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "payDate" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "payType" "PayType" NOT NULL,
+    "payRate" DOUBLE PRECISION NOT NULL,
+    "regularHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "overtimeHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "paidTimeOffHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "unpaidTimeOffHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "grossPay" DOUBLE PRECISION NOT NULL,
+    "totalDeductions" DOUBLE PRECISION NOT NULL,
+    "netPay" DOUBLE PRECISION NOT NULL,
+    "earnings" JSONB NOT NULL,
+    "deductions" JSONB NOT NULL,
+    "yearToDate" JSONB NOT NULL,
+    "employeeSnapshot" JSONB NOT NULL,
+    "employerSnapshot" JSONB NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hr_pay_stubs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hr_payroll_line_definitions_businessId_idx" ON "hr_payroll_line_definitions"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_payroll_line_definitions_employeeHrProfileId_idx" ON "hr_payroll_line_definitions"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_payroll_line_definitions_isActive_idx" ON "hr_payroll_line_definitions"("isActive");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_periods_businessId_idx" ON "hr_pay_periods"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_periods_status_idx" ON "hr_pay_periods"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_pay_periods_businessId_startDate_endDate_key" ON "hr_pay_periods"("businessId", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_runs_businessId_idx" ON "hr_pay_runs"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_runs_payPeriodId_idx" ON "hr_pay_runs"("payPeriodId");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_runs_status_idx" ON "hr_pay_runs"("status");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_run_entries_businessId_idx" ON "hr_pay_run_entries"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_run_entries_employeeHrProfileId_idx" ON "hr_pay_run_entries"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_pay_run_entries_payRunId_employeeHrProfileId_key" ON "hr_pay_run_entries"("payRunId", "employeeHrProfileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_pay_stubs_stubNumber_key" ON "hr_pay_stubs"("stubNumber");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_stubs_businessId_idx" ON "hr_pay_stubs"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_stubs_payRunId_idx" ON "hr_pay_stubs"("payRunId");
+
+-- CreateIndex
+CREATE INDEX "hr_pay_stubs_employeeHrProfileId_payDate_idx" ON "hr_pay_stubs"("employeeHrProfileId", "payDate");
+
+-- AddForeignKey
+ALTER TABLE "hr_payroll_line_definitions" ADD CONSTRAINT "hr_payroll_line_definitions_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_payroll_line_definitions" ADD CONSTRAINT "hr_payroll_line_definitions_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_periods" ADD CONSTRAINT "hr_pay_periods_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_runs" ADD CONSTRAINT "hr_pay_runs_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_runs" ADD CONSTRAINT "hr_pay_runs_payPeriodId_fkey" FOREIGN KEY ("payPeriodId") REFERENCES "hr_pay_periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_run_entries" ADD CONSTRAINT "hr_pay_run_entries_payRunId_fkey" FOREIGN KEY ("payRunId") REFERENCES "hr_pay_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_run_entries" ADD CONSTRAINT "hr_pay_run_entries_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_stubs" ADD CONSTRAINT "hr_pay_stubs_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_stubs" ADD CONSTRAINT "hr_pay_stubs_payRunId_fkey" FOREIGN KEY ("payRunId") REFERENCES "hr_pay_runs"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_pay_stubs" ADD CONSTRAINT "hr_pay_stubs_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
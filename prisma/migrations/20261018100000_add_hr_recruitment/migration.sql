@@ -0,0 +1,194 @@
+-- CreateEnum
+CREATE TYPE "JobRequisitionStatus" AS ENUM ('DRAFT', 'OPEN', 'ON_HOLD', 'CLOSED', 'FILLED');
+
+-- CreateEnum
+CREATE TYPE "RecruitmentStageType" AS ENUM ('APPLIED', 'SCREENING', 'INTERVIEW', 'OFFER', 'HIRED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "JobApplicationStatus" AS ENUM ('ACTIVE', 'HIRED', 'REJECTED', 'WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "InterviewStatus" AS ENUM ('SCHEDULED', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "hr_job_requisitions" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "employmentType" "EmployeeType" NOT NULL DEFAULT 'FULL_TIME',
+    "salaryMin" DOUBLE PRECISION,
+    "salaryMax" DOUBLE PRECISION,
+    "salaryCurrency" TEXT NOT NULL DEFAULT 'USD',
+    "openings" INTEGER NOT NULL DEFAULT 1,
+    "status" "JobRequisitionStatus" NOT NULL DEFAULT 'DRAFT',
+    "isPublic" BOOLEAN NOT NULL DEFAULT true,
+    "publishedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "hiringManagerId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_job_requisitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_recruitment_stages" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "RecruitmentStageType" NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_recruitment_stages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_candidates" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "linkedinUrl" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_candidates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_job_applications" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "requisitionId" TEXT NOT NULL,
+    "candidateId" TEXT NOT NULL,
+    "stageId" TEXT,
+    "status" "JobApplicationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "source" TEXT,
+    "coverLetter" TEXT,
+    "resumeFileId" TEXT,
+    "rejectedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "hiredAt" TIMESTAMP(3),
+    "hiredById" TEXT,
+    "employeeHrProfileId" TEXT,
+    "onboardingJourneyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_job_applications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_interviews" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endAt" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "location" TEXT,
+    "meetingLink" TEXT,
+    "interviewerIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "calendarEventId" TEXT,
+    "status" "InterviewStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "rating" INTEGER,
+    "feedback" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_interviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hr_job_requisitions_businessId_idx" ON "hr_job_requisitions"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_job_requisitions_positionId_idx" ON "hr_job_requisitions"("positionId");
+
+-- CreateIndex
+CREATE INDEX "hr_job_requisitions_status_idx" ON "hr_job_requisitions"("status");
+
+-- CreateIndex
+CREATE INDEX "hr_recruitment_stages_businessId_idx" ON "hr_recruitment_stages"("businessId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_recruitment_stages_businessId_name_key" ON "hr_recruitment_stages"("businessId", "name");
+
+-- CreateIndex
+CREATE INDEX "hr_candidates_businessId_idx" ON "hr_candidates"("businessId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_candidates_businessId_email_key" ON "hr_candidates"("businessId", "email");
+
+-- CreateIndex
+CREATE INDEX "hr_job_applications_businessId_idx" ON "hr_job_applications"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_job_applications_candidateId_idx" ON "hr_job_applications"("candidateId");
+
+-- CreateIndex
+CREATE INDEX "hr_job_applications_stageId_idx" ON "hr_job_applications"("stageId");
+
+-- CreateIndex
+CREATE INDEX "hr_job_applications_status_idx" ON "hr_job_applications"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_job_applications_requisitionId_candidateId_key" ON "hr_job_applications"("requisitionId", "candidateId");
+
+-- CreateIndex
+CREATE INDEX "hr_interviews_businessId_idx" ON "hr_interviews"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_interviews_applicationId_idx" ON "hr_interviews"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "hr_interviews_startAt_idx" ON "hr_interviews"("startAt");
+
+-- AddForeignKey
+ALTER TABLE "hr_job_requisitions" ADD CONSTRAINT "hr_job_requisitions_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_job_requisitions" ADD CONSTRAINT "hr_job_requisitions_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "positions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_recruitment_stages" ADD CONSTRAINT "hr_recruitment_stages_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_candidates" ADD CONSTRAINT "hr_candidates_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_job_applications" ADD CONSTRAINT "hr_job_applications_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_job_applications" ADD CONSTRAINT "hr_job_applications_requisitionId_fkey" FOREIGN KEY ("requisitionId") REFERENCES "hr_job_requisitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_job_applications" ADD CONSTRAINT "hr_job_applications_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "hr_candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_job_applications" ADD CONSTRAINT "hr_job_applications_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "hr_recruitment_stages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_job_applications" ADD CONSTRAINT "hr_job_applications_resumeFileId_fkey" FOREIGN KEY ("resumeFileId") REFERENCES "files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_interviews" ADD CONSTRAINT "hr_interviews_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_interviews" ADD CONSTRAINT "hr_interviews_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "hr_job_applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_interviews" ADD CONSTRAINT "hr_interviews_calendarEventId_fkey" FOREIGN KEY ("calendarEventId") REFERENCES "events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
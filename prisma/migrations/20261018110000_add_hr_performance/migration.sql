@@ -0,0 +1,235 @@
+-- CreateEnum
+CREATE TYPE "PerformanceCycleStatus" AS ENUM ('DRAFT', 'ACTIVE', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "PerformanceReviewStatus" AS ENUM ('IN_PROGRESS', 'AWAITING_CALIBRATION', 'COMPLETED', 'INCOMPLETE');
+
+-- CreateEnum
+CREATE TYPE "PerformanceReviewerType" AS ENUM ('SELF', 'MANAGER', 'PEER');
+
+-- CreateEnum
+CREATE TYPE "PerformanceSubmissionStatus" AS ENUM ('PENDING', 'DRAFT', 'SUBMITTED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "PerformanceGoalType" AS ENUM ('GOAL', 'OBJECTIVE', 'KEY_RESULT');
+
+-- CreateEnum
+CREATE TYPE "PerformanceGoalStatus" AS ENUM ('NOT_STARTED', 'ON_TRACK', 'AT_RISK', 'OFF_TRACK', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "hr_performance_rating_scales" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "levels" JSONB NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_performance_rating_scales_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_performance_questionnaires" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "ratingScaleId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "questions" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_performance_questionnaires_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_performance_review_cycles" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "questionnaireId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "includeSelfReview" BOOLEAN NOT NULL DEFAULT true,
+    "includeManagerReview" BOOLEAN NOT NULL DEFAULT true,
+    "includePeerReview" BOOLEAN NOT NULL DEFAULT false,
+    "peerReviewerCount" INTEGER NOT NULL DEFAULT 2,
+    "departmentIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "tierIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "PerformanceCycleStatus" NOT NULL DEFAULT 'DRAFT',
+    "launchedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_performance_review_cycles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_performance_reviews" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "cycleId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "employeePositionId" TEXT NOT NULL,
+    "departmentId" TEXT,
+    "tierId" TEXT,
+    "managerPositionId" TEXT,
+    "status" "PerformanceReviewStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "proposedRating" DOUBLE PRECISION,
+    "calibratedRating" DOUBLE PRECISION,
+    "finalRating" DOUBLE PRECISION,
+    "calibrationNote" TEXT,
+    "summary" TEXT,
+    "calibratedById" TEXT,
+    "calibratedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_performance_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_performance_review_submissions" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "reviewerUserId" TEXT NOT NULL,
+    "reviewerType" "PerformanceReviewerType" NOT NULL,
+    "status" "PerformanceSubmissionStatus" NOT NULL DEFAULT 'PENDING',
+    "answers" JSONB,
+    "overallRating" DOUBLE PRECISION,
+    "comments" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_performance_review_submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_performance_goals" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "cycleId" TEXT,
+    "parentGoalId" TEXT,
+    "type" "PerformanceGoalType" NOT NULL DEFAULT 'GOAL',
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "PerformanceGoalStatus" NOT NULL DEFAULT 'NOT_STARTED',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "startValue" DOUBLE PRECISION,
+    "targetValue" DOUBLE PRECISION,
+    "currentValue" DOUBLE PRECISION,
+    "unit" TEXT,
+    "startDate" TIMESTAMP(3),
+    "dueDate" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_performance_goals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hr_performance_rating_scales_businessId_idx" ON "hr_performance_rating_scales"("businessId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_performance_rating_scales_businessId_name_key" ON "hr_performance_rating_scales"("businessId", "name");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_questionnaires_businessId_idx" ON "hr_performance_questionnaires"("businessId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_performance_questionnaires_businessId_name_key" ON "hr_performance_questionnaires"("businessId", "name");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_review_cycles_businessId_idx" ON "hr_performance_review_cycles"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_review_cycles_status_idx" ON "hr_performance_review_cycles"("status");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_reviews_businessId_idx" ON "hr_performance_reviews"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_reviews_employeeHrProfileId_idx" ON "hr_performance_reviews"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_reviews_status_idx" ON "hr_performance_reviews"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_performance_reviews_cycleId_employeeHrProfileId_key" ON "hr_performance_reviews"("cycleId", "employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_review_submissions_businessId_idx" ON "hr_performance_review_submissions"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_review_submissions_reviewerUserId_idx" ON "hr_performance_review_submissions"("reviewerUserId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_review_submissions_status_idx" ON "hr_performance_review_submissions"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_performance_review_submissions_reviewId_reviewerUserId_r_key" ON "hr_performance_review_submissions"("reviewId", "reviewerUserId", "reviewerType");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_goals_businessId_idx" ON "hr_performance_goals"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_goals_employeeHrProfileId_idx" ON "hr_performance_goals"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_goals_cycleId_idx" ON "hr_performance_goals"("cycleId");
+
+-- CreateIndex
+CREATE INDEX "hr_performance_goals_parentGoalId_idx" ON "hr_performance_goals"("parentGoalId");
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_rating_scales" ADD CONSTRAINT "hr_performance_rating_scales_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_questionnaires" ADD CONSTRAINT "hr_performance_questionnaires_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_questionnaires" ADD CONSTRAINT "hr_performance_questionnaires_ratingScaleId_fkey" FOREIGN KEY ("ratingScaleId") REFERENCES "hr_performance_rating_scales"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_review_cycles" ADD CONSTRAINT "hr_performance_review_cycles_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_review_cycles" ADD CONSTRAINT "hr_performance_review_cycles_questionnaireId_fkey" FOREIGN KEY ("questionnaireId") REFERENCES "hr_performance_questionnaires"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_reviews" ADD CONSTRAINT "hr_performance_reviews_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_reviews" ADD CONSTRAINT "hr_performance_reviews_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "hr_performance_review_cycles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_reviews" ADD CONSTRAINT "hr_performance_reviews_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_review_submissions" ADD CONSTRAINT "hr_performance_review_submissions_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "hr_performance_reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_goals" ADD CONSTRAINT "hr_performance_goals_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_goals" ADD CONSTRAINT "hr_performance_goals_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_goals" ADD CONSTRAINT "hr_performance_goals_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "hr_performance_review_cycles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_performance_goals" ADD CONSTRAINT "hr_performance_goals_parentGoalId_fkey" FOREIGN KEY ("parentGoalId") REFERENCES "hr_performance_goals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,261 @@
+-- CreateEnum
+CREATE TYPE "BenefitPlanType" AS ENUM ('MEDICAL', 'DENTAL', 'VISION', 'RETIREMENT', 'LIFE', 'DISABILITY', 'CUSTOM');
+
+-- CreateEnum
+CREATE TYPE "BenefitCoverageLevel" AS ENUM ('EMPLOYEE_ONLY', 'EMPLOYEE_SPOUSE', 'EMPLOYEE_CHILDREN', 'FAMILY');
+
+-- CreateEnum
+CREATE TYPE "BenefitEnrollmentStatus" AS ENUM ('ACTIVE', 'WAIVED', 'ENDED');
+
+-- CreateEnum
+CREATE TYPE "BenefitLifeEventType" AS ENUM ('NEW_HIRE', 'MARRIAGE', 'DIVORCE', 'BIRTH_ADOPTION', 'DEATH_OF_DEPENDENT', 'LOSS_OF_COVERAGE', 'EMPLOYMENT_CHANGE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "BenefitLifeEventStatus" AS ENUM ('PENDING', 'APPROVED', 'DENIED');
+
+-- CreateEnum
+CREATE TYPE "BenefitDependentRelationship" AS ENUM ('SPOUSE', 'DOMESTIC_PARTNER', 'CHILD', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "BenefitBeneficiaryDesignation" AS ENUM ('PRIMARY', 'CONTINGENT');
+
+-- AlterTable
+ALTER TABLE "hr_payroll_line_definitions" ADD COLUMN     "effectiveFrom" TIMESTAMP(3),
+ADD COLUMN     "effectiveTo" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "hr_benefit_plans" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "BenefitPlanType" NOT NULL,
+    "carrier" TEXT,
+    "planCode" TEXT,
+    "description" TEXT,
+    "eligibleEmployeeTypes" "EmployeeType"[] DEFAULT ARRAY[]::"EmployeeType"[],
+    "waitingPeriodDays" INTEGER NOT NULL DEFAULT 0,
+    "coverageCosts" JSONB,
+    "minContributionPercent" DOUBLE PRECISION,
+    "maxContributionPercent" DOUBLE PRECISION,
+    "employerMatchPercent" DOUBLE PRECISION,
+    "employerMatchLimitPercent" DOUBLE PRECISION,
+    "allowsDependents" BOOLEAN NOT NULL DEFAULT true,
+    "requiresBeneficiary" BOOLEAN NOT NULL DEFAULT false,
+    "deductionCode" TEXT NOT NULL,
+    "deductionCategory" "PayrollLineCategory" NOT NULL DEFAULT 'PRE_TAX_DEDUCTION',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_benefit_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_benefit_enrollment_windows" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "coverageStartDate" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_benefit_enrollment_windows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_benefit_life_events" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "type" "BenefitLifeEventType" NOT NULL,
+    "eventDate" TIMESTAMP(3) NOT NULL,
+    "description" TEXT,
+    "status" "BenefitLifeEventStatus" NOT NULL DEFAULT 'PENDING',
+    "enrollmentDeadline" TIMESTAMP(3) NOT NULL,
+    "coverageStartDate" TIMESTAMP(3) NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_benefit_life_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_benefit_dependents" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "relationship" "BenefitDependentRelationship" NOT NULL,
+    "dateOfBirth" TIMESTAMP(3),
+    "gender" TEXT,
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_benefit_dependents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_benefit_beneficiaries" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "planId" TEXT,
+    "dependentId" TEXT,
+    "name" TEXT NOT NULL,
+    "relationship" TEXT NOT NULL,
+    "designation" "BenefitBeneficiaryDesignation" NOT NULL DEFAULT 'PRIMARY',
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_benefit_beneficiaries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_benefit_enrollments" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "employeeHrProfileId" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "windowId" TEXT,
+    "lifeEventId" TEXT,
+    "status" "BenefitEnrollmentStatus" NOT NULL DEFAULT 'ACTIVE',
+    "coverageLevel" "BenefitCoverageLevel",
+    "contributionPercent" DOUBLE PRECISION,
+    "employeeCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "employerCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "coverageStart" TIMESTAMP(3) NOT NULL,
+    "coverageEnd" TIMESTAMP(3),
+    "payrollLineId" TEXT,
+    "electedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hr_benefit_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hr_benefit_covered_dependents" (
+    "id" TEXT NOT NULL,
+    "enrollmentId" TEXT NOT NULL,
+    "dependentId" TEXT NOT NULL,
+
+    CONSTRAINT "hr_benefit_covered_dependents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_plans_businessId_idx" ON "hr_benefit_plans"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_plans_type_idx" ON "hr_benefit_plans"("type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_benefit_plans_businessId_name_key" ON "hr_benefit_plans"("businessId", "name");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_enrollment_windows_businessId_idx" ON "hr_benefit_enrollment_windows"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_enrollment_windows_startDate_endDate_idx" ON "hr_benefit_enrollment_windows"("startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_life_events_businessId_idx" ON "hr_benefit_life_events"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_life_events_employeeHrProfileId_idx" ON "hr_benefit_life_events"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_life_events_status_idx" ON "hr_benefit_life_events"("status");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_dependents_businessId_idx" ON "hr_benefit_dependents"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_dependents_employeeHrProfileId_idx" ON "hr_benefit_dependents"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_beneficiaries_businessId_idx" ON "hr_benefit_beneficiaries"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_beneficiaries_employeeHrProfileId_idx" ON "hr_benefit_beneficiaries"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_beneficiaries_planId_idx" ON "hr_benefit_beneficiaries"("planId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_benefit_enrollments_payrollLineId_key" ON "hr_benefit_enrollments"("payrollLineId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_enrollments_businessId_idx" ON "hr_benefit_enrollments"("businessId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_enrollments_employeeHrProfileId_idx" ON "hr_benefit_enrollments"("employeeHrProfileId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_enrollments_planId_idx" ON "hr_benefit_enrollments"("planId");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_enrollments_status_idx" ON "hr_benefit_enrollments"("status");
+
+-- CreateIndex
+CREATE INDEX "hr_benefit_covered_dependents_dependentId_idx" ON "hr_benefit_covered_dependents"("dependentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hr_benefit_covered_dependents_enrollmentId_dependentId_key" ON "hr_benefit_covered_dependents"("enrollmentId", "dependentId");
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_plans" ADD CONSTRAINT "hr_benefit_plans_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_enrollment_windows" ADD CONSTRAINT "hr_benefit_enrollment_windows_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_life_events" ADD CONSTRAINT "hr_benefit_life_events_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_life_events" ADD CONSTRAINT "hr_benefit_life_events_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_dependents" ADD CONSTRAINT "hr_benefit_dependents_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_beneficiaries" ADD CONSTRAINT "hr_benefit_beneficiaries_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_beneficiaries" ADD CONSTRAINT "hr_benefit_beneficiaries_planId_fkey" FOREIGN KEY ("planId") REFERENCES "hr_benefit_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_beneficiaries" ADD CONSTRAINT "hr_benefit_beneficiaries_dependentId_fkey" FOREIGN KEY ("dependentId") REFERENCES "hr_benefit_dependents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_enrollments" ADD CONSTRAINT "hr_benefit_enrollments_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_enrollments" ADD CONSTRAINT "hr_benefit_enrollments_employeeHrProfileId_fkey" FOREIGN KEY ("employeeHrProfileId") REFERENCES "employee_hr_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_enrollments" ADD CONSTRAINT "hr_benefit_enrollments_planId_fkey" FOREIGN KEY ("planId") REFERENCES "hr_benefit_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_enrollments" ADD CONSTRAINT "hr_benefit_enrollments_windowId_fkey" FOREIGN KEY ("windowId") REFERENCES "hr_benefit_enrollment_windows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_enrollments" ADD CONSTRAINT "hr_benefit_enrollments_lifeEventId_fkey" FOREIGN KEY ("lifeEventId") REFERENCES "hr_benefit_life_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_enrollments" ADD CONSTRAINT "hr_benefit_enrollments_payrollLineId_fkey" FOREIGN KEY ("payrollLineId") REFERENCES "hr_payroll_line_definitions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_covered_dependents" ADD CONSTRAINT "hr_benefit_covered_dependents_enrollmentId_fkey" FOREIGN KEY ("enrollmentId") REFERENCES "hr_benefit_enrollments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hr_benefit_covered_dependents" ADD CONSTRAINT "hr_benefit_covered_dependents_dependentId_fkey" FOREIGN KEY ("dependentId") REFERENCES "hr_benefit_dependents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "AttendanceExceptionType" ADD VALUE 'EARLY_ARRIVAL';
+
+-- AlterTable
+ALTER TABLE "business_stations" ADD COLUMN     "geofenceRadiusMeters" INTEGER,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "job_locations" ADD COLUMN     "geofenceRadiusMeters" INTEGER,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
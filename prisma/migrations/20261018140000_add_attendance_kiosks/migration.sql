@@ -0,0 +1,108 @@
+-- CreateEnum
+CREATE TYPE "AttendanceKioskPunchDirection" AS ENUM ('IN', 'OUT');
+
+-- CreateEnum
+CREATE TYPE "AttendanceKioskPunchStatus" AS ENUM ('ACCEPTED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "attendance_kiosk_devices" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "tokenHint" TEXT NOT NULL,
+    "jobLocationId" TEXT,
+    "requirePhoto" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" TIMESTAMP(3),
+    "lastSeenAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_kiosk_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "attendance_kiosk_credentials" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "employeePositionId" TEXT NOT NULL,
+    "pinHash" TEXT,
+    "badgeNumber" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_kiosk_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "attendance_kiosk_punches" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "clientPunchId" TEXT NOT NULL,
+    "employeePositionId" TEXT,
+    "attendanceRecordId" TEXT,
+    "direction" "AttendanceKioskPunchDirection",
+    "status" "AttendanceKioskPunchStatus" NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "offline" BOOLEAN NOT NULL DEFAULT false,
+    "photoFileId" TEXT,
+    "error" TEXT,
+
+    CONSTRAINT "attendance_kiosk_punches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_kiosk_devices_tokenHash_key" ON "attendance_kiosk_devices"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "attendance_kiosk_devices_businessId_idx" ON "attendance_kiosk_devices"("businessId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_kiosk_credentials_employeePositionId_key" ON "attendance_kiosk_credentials"("employeePositionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_kiosk_credentials_businessId_pinHash_key" ON "attendance_kiosk_credentials"("businessId", "pinHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_kiosk_credentials_businessId_badgeNumber_key" ON "attendance_kiosk_credentials"("businessId", "badgeNumber");
+
+-- CreateIndex
+CREATE INDEX "attendance_kiosk_punches_businessId_occurredAt_idx" ON "attendance_kiosk_punches"("businessId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "attendance_kiosk_punches_employeePositionId_idx" ON "attendance_kiosk_punches"("employeePositionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_kiosk_punches_deviceId_clientPunchId_key" ON "attendance_kiosk_punches"("deviceId", "clientPunchId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_devices" ADD CONSTRAINT "attendance_kiosk_devices_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_devices" ADD CONSTRAINT "attendance_kiosk_devices_jobLocationId_fkey" FOREIGN KEY ("jobLocationId") REFERENCES "job_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_credentials" ADD CONSTRAINT "attendance_kiosk_credentials_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_credentials" ADD CONSTRAINT "attendance_kiosk_credentials_employeePositionId_fkey" FOREIGN KEY ("employeePositionId") REFERENCES "employee_positions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_punches" ADD CONSTRAINT "attendance_kiosk_punches_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_punches" ADD CONSTRAINT "attendance_kiosk_punches_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "attendance_kiosk_devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_punches" ADD CONSTRAINT "attendance_kiosk_punches_employeePositionId_fkey" FOREIGN KEY ("employeePositionId") REFERENCES "employee_positions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_punches" ADD CONSTRAINT "attendance_kiosk_punches_attendanceRecordId_fkey" FOREIGN KEY ("attendanceRecordId") REFERENCES "attendance_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_kiosk_punches" ADD CONSTRAINT "attendance_kiosk_punches_photoFileId_fkey" FOREIGN KEY ("photoFileId") REFERENCES "files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
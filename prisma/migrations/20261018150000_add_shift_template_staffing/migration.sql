@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "shift_templates" ADD COLUMN     "locationId" TEXT,
+ADD COLUMN     "requiredHeadcount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "stationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "shift_templates_stationId_idx" ON "shift_templates"("stationId");
+
+-- AddForeignKey
+ALTER TABLE "shift_templates" ADD CONSTRAINT "shift_templates_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "business_stations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_templates" ADD CONSTRAINT "shift_templates_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "job_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
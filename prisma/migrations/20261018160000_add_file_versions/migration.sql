@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "files" ADD COLUMN     "checksum" TEXT,
+ADD COLUMN     "contentUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "contentUpdatedById" TEXT,
+ADD COLUMN     "versionKeepDays" INTEGER,
+ADD COLUMN     "versionKeepLast" INTEGER,
+ADD COLUMN     "versionNumber" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "file_versions" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "path" TEXT,
+    "checksum" TEXT,
+    "uploadedById" TEXT NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "file_versions_fileId_idx" ON "file_versions"("fileId");
+
+-- CreateIndex
+CREATE INDEX "file_versions_uploadedById_idx" ON "file_versions"("uploadedById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "file_versions_fileId_versionNumber_key" ON "file_versions"("fileId", "versionNumber");
+
+-- AddForeignKey
+ALTER TABLE "file_versions" ADD CONSTRAINT "file_versions_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "file_versions" ADD CONSTRAINT "file_versions_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "drive_share_links" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "fileId" TEXT,
+    "folderId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "passwordHash" TEXT,
+    "allowedDomains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "allowDownload" BOOLEAN NOT NULL DEFAULT true,
+    "maxDownloads" INTEGER,
+    "downloadCount" INTEGER NOT NULL DEFAULT 0,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "trackViews" BOOLEAN NOT NULL DEFAULT true,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drive_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drive_share_links_token_key" ON "drive_share_links"("token");
+
+-- CreateIndex
+CREATE INDEX "drive_share_links_fileId_idx" ON "drive_share_links"("fileId");
+
+-- CreateIndex
+CREATE INDEX "drive_share_links_folderId_idx" ON "drive_share_links"("folderId");
+
+-- CreateIndex
+CREATE INDEX "drive_share_links_createdById_idx" ON "drive_share_links"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "drive_share_links" ADD CONSTRAINT "drive_share_links_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drive_share_links" ADD CONSTRAINT "drive_share_links_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "folders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drive_share_links" ADD CONSTRAINT "drive_share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
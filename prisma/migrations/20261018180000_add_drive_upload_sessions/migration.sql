@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "files" ALTER COLUMN "size" SET DATA TYPE DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "file_versions" ALTER COLUMN "size" SET DATA TYPE DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "drive_upload_sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "totalSize" DOUBLE PRECISION NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "expectedChecksum" TEXT,
+    "folderId" TEXT,
+    "dashboardId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "fileId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drive_upload_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "drive_upload_chunks" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "offset" DOUBLE PRECISION NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "drive_upload_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "drive_upload_sessions_userId_idx" ON "drive_upload_sessions"("userId");
+
+-- CreateIndex
+CREATE INDEX "drive_upload_sessions_status_expiresAt_idx" ON "drive_upload_sessions"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "drive_upload_chunks_sessionId_idx" ON "drive_upload_chunks"("sessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drive_upload_chunks_sessionId_offset_key" ON "drive_upload_chunks"("sessionId", "offset");
+
+-- AddForeignKey
+ALTER TABLE "drive_upload_sessions" ADD CONSTRAINT "drive_upload_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drive_upload_chunks" ADD CONSTRAINT "drive_upload_chunks_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "drive_upload_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "task_attachments" ADD COLUMN "uploadedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "user_profile_photos" ADD COLUMN "size" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "task_attachments_uploadedById_idx" ON "task_attachments"("uploadedById");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "drive_file_contents" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "text" TEXT,
+    "checksum" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "indexedAt" TIMESTAMP(3),
+    "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce("text", ''))) STORED,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drive_file_contents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drive_file_contents_fileId_key" ON "drive_file_contents"("fileId");
+
+-- CreateIndex
+CREATE INDEX "drive_file_contents_status_idx" ON "drive_file_contents"("status");
+
+-- CreateIndex
+CREATE INDEX "drive_file_contents_searchVector_idx" ON "drive_file_contents" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "drive_file_contents" ADD CONSTRAINT "drive_file_contents_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
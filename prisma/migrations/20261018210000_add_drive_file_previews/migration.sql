@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "drive_file_previews" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "variant" TEXT NOT NULL,
+    "sourceVersion" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "path" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "size" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drive_file_previews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drive_file_previews_fileId_variant_key" ON "drive_file_previews"("fileId", "variant");
+
+-- AddForeignKey
+ALTER TABLE "drive_file_previews" ADD CONSTRAINT "drive_file_previews_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,97 @@
+-- CreateEnum
+CREATE TYPE "SharedDriveRole" AS ENUM ('VIEWER', 'CONTRIBUTOR', 'MANAGER');
+
+-- AlterTable
+ALTER TABLE "files" ADD COLUMN "sharedDriveId" TEXT;
+
+-- AlterTable
+ALTER TABLE "folders" ADD COLUMN "sharedDriveId" TEXT;
+
+-- AlterTable
+ALTER TABLE "drive_upload_sessions" ADD COLUMN "sharedDriveId" TEXT;
+
+-- CreateTable
+CREATE TABLE "shared_drives" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shared_drives_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shared_drive_members" (
+    "id" TEXT NOT NULL,
+    "sharedDriveId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "SharedDriveRole" NOT NULL DEFAULT 'CONTRIBUTOR',
+    "addedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shared_drive_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shared_drive_departments" (
+    "id" TEXT NOT NULL,
+    "sharedDriveId" TEXT NOT NULL,
+    "departmentId" TEXT NOT NULL,
+    "role" "SharedDriveRole" NOT NULL DEFAULT 'VIEWER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shared_drive_departments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "files_sharedDriveId_idx" ON "files"("sharedDriveId");
+
+-- CreateIndex
+CREATE INDEX "folders_sharedDriveId_idx" ON "folders"("sharedDriveId");
+
+-- CreateIndex
+CREATE INDEX "shared_drives_businessId_idx" ON "shared_drives"("businessId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shared_drives_businessId_name_key" ON "shared_drives"("businessId", "name");
+
+-- CreateIndex
+CREATE INDEX "shared_drive_members_userId_idx" ON "shared_drive_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shared_drive_members_sharedDriveId_userId_key" ON "shared_drive_members"("sharedDriveId", "userId");
+
+-- CreateIndex
+CREATE INDEX "shared_drive_departments_departmentId_idx" ON "shared_drive_departments"("departmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shared_drive_departments_sharedDriveId_departmentId_key" ON "shared_drive_departments"("sharedDriveId", "departmentId");
+
+-- AddForeignKey
+ALTER TABLE "files" ADD CONSTRAINT "files_sharedDriveId_fkey" FOREIGN KEY ("sharedDriveId") REFERENCES "shared_drives"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "folders" ADD CONSTRAINT "folders_sharedDriveId_fkey" FOREIGN KEY ("sharedDriveId") REFERENCES "shared_drives"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shared_drives" ADD CONSTRAINT "shared_drives_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shared_drives" ADD CONSTRAINT "shared_drives_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shared_drive_members" ADD CONSTRAINT "shared_drive_members_sharedDriveId_fkey" FOREIGN KEY ("sharedDriveId") REFERENCES "shared_drives"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shared_drive_members" ADD CONSTRAINT "shared_drive_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shared_drive_departments" ADD CONSTRAINT "shared_drive_departments_sharedDriveId_fkey" FOREIGN KEY ("sharedDriveId") REFERENCES "shared_drives"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shared_drive_departments" ADD CONSTRAINT "shared_drive_departments_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "app_passwords" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "tokenHint" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "app_passwords_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "drive_dav_locks" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "fileId" TEXT,
+    "folderId" TEXT,
+    "userId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "depth" TEXT NOT NULL,
+    "owner" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "drive_dav_locks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "app_passwords_tokenHash_key" ON "app_passwords"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "app_passwords_userId_idx" ON "app_passwords"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drive_dav_locks_token_key" ON "drive_dav_locks"("token");
+
+-- CreateIndex
+CREATE INDEX "drive_dav_locks_fileId_idx" ON "drive_dav_locks"("fileId");
+
+-- CreateIndex
+CREATE INDEX "drive_dav_locks_folderId_idx" ON "drive_dav_locks"("folderId");
+
+-- CreateIndex
+CREATE INDEX "drive_dav_locks_expiresAt_idx" ON "drive_dav_locks"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "app_passwords" ADD CONSTRAINT "app_passwords_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drive_dav_locks" ADD CONSTRAINT "drive_dav_locks_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drive_dav_locks" ADD CONSTRAINT "drive_dav_locks_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "folders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drive_dav_locks" ADD CONSTRAINT "drive_dav_locks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
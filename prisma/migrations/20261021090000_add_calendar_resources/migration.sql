@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "event_attendees" ADD COLUMN "resourceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "calendar_resources" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "capacity" INTEGER,
+    "amenities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "maxDurationMinutes" INTEGER,
+    "minLeadMinutes" INTEGER,
+    "maxAdvanceDays" INTEGER,
+    "requiresApproval" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_resources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_resources_businessId_name_key" ON "calendar_resources"("businessId", "name");
+
+-- CreateIndex
+CREATE INDEX "calendar_resources_businessId_isActive_idx" ON "calendar_resources"("businessId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "event_attendees_resourceId_idx" ON "event_attendees"("resourceId");
+
+-- AddForeignKey
+ALTER TABLE "calendar_resources" ADD CONSTRAINT "calendar_resources_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "businesses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "calendar_resources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "recurrenceId" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "events_parentEventId_idx" ON "events"("parentEventId");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "calendar_working_hours" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "hours" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_working_hours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_working_hours_userId_key" ON "calendar_working_hours"("userId");
+
+-- AddForeignKey
+ALTER TABLE "calendar_working_hours" ADD CONSTRAINT "calendar_working_hours_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
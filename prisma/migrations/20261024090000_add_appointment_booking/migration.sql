@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "appointment_types" (
+    "id" TEXT NOT NULL,
+    "contextType" "CalendarContextType" NOT NULL,
+    "contextId" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "calendarId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "durationMinutes" INTEGER NOT NULL,
+    "bufferBeforeMinutes" INTEGER NOT NULL DEFAULT 0,
+    "bufferAfterMinutes" INTEGER NOT NULL DEFAULT 0,
+    "minNoticeMinutes" INTEGER NOT NULL DEFAULT 240,
+    "maxAdvanceDays" INTEGER NOT NULL DEFAULT 60,
+    "maxPerDay" INTEGER,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "availability" JSONB NOT NULL,
+    "questions" JSONB NOT NULL DEFAULT '[]',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "appointment_bookings" (
+    "id" TEXT NOT NULL,
+    "appointmentTypeId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "guestName" TEXT NOT NULL,
+    "guestEmail" TEXT NOT NULL,
+    "answers" JSONB NOT NULL DEFAULT '{}',
+    "status" TEXT NOT NULL DEFAULT 'CONFIRMED',
+    "canceledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_bookings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_types_contextType_contextId_idx" ON "appointment_types"("contextType", "contextId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_bookings_eventId_key" ON "appointment_bookings"("eventId");
+
+-- CreateIndex
+CREATE INDEX "appointment_bookings_appointmentTypeId_status_idx" ON "appointment_bookings"("appointmentTypeId", "status");
+
+-- AddForeignKey
+ALTER TABLE "appointment_types" ADD CONSTRAINT "appointment_types_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_types" ADD CONSTRAINT "appointment_types_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_bookings" ADD CONSTRAINT "appointment_bookings_appointmentTypeId_fkey" FOREIGN KEY ("appointmentTypeId") REFERENCES "appointment_types"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_bookings" ADD CONSTRAINT "appointment_bookings_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "activities" ALTER COLUMN "fileId" DROP NOT NULL;
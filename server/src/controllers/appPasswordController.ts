@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import * as appPasswordService from '../services/appPasswordService';
+import { AppPasswordError } from '../services/appPasswordService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+async function sendAppPasswordError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof AppPasswordError) {
+    return res.status(err.status).json({ message: err.message, code: err.code });
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  return res.status(500).json({ message: fallbackMessage });
+}
+
+export async function listAppPasswords(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    const appPasswords = await appPasswordService.listAppPasswords(userId);
+    res.json({ appPasswords });
+  } catch (err) {
+    await sendAppPasswordError(res, err, 'app_password_list', 'Failed to list app passwords');
+  }
+}
+
+// The password is only returned here; afterwards only its last characters are shown
+export async function createAppPassword(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    const { appPassword, password } = await appPasswordService.createAppPassword(userId, req.body?.name);
+    await logger.info('App password created', {
+      operation: 'app_password_create',
+      userId,
+      appPasswordId: appPassword.id
+    });
+    res.status(201).json({ appPassword, password });
+  } catch (err) {
+    await sendAppPasswordError(res, err, 'app_password_create', 'Failed to create app password');
+  }
+}
+
+export async function revokeAppPassword(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    await appPasswordService.revokeAppPassword(userId, req.params.id);
+    await logger.info('App password revoked', {
+      operation: 'app_password_revoke',
+      userId,
+      appPasswordId: req.params.id
+    });
+    res.json({ success: true });
+  } catch (err) {
+    await sendAppPasswordError(res, err, 'app_password_revoke', 'Failed to revoke app password');
+  }
+}
@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import * as appointmentBookingService from '../services/appointmentBookingService';
+import { AppointmentBookingError } from '../services/appointmentBookingService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+async function sendAppointmentError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof AppointmentBookingError) {
+    return res.status(err.status).json({ success: false, error: err.message, code: err.code });
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  return res.status(500).json({ success: false, error: fallbackMessage });
+}
+
+// ---------------------------------------------------------------------------
+// Authenticated appointment type management
+// ---------------------------------------------------------------------------
+
+export async function listAppointmentTypes(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const types = await appointmentBookingService.listAppointmentTypes(userId, req.query);
+    res.json({ success: true, data: types });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_type_list', 'Failed to list appointment types');
+  }
+}
+
+export async function createAppointmentType(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const type = await appointmentBookingService.createAppointmentType(userId, req.body || {});
+    await logger.info('Appointment type created', {
+      operation: 'appointment_type_create',
+      userId,
+      contextType: type.contextType,
+      contextId: type.contextId,
+      appointmentTypeId: type.id
+    });
+    res.status(201).json({ success: true, data: type });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_type_create', 'Failed to create appointment type');
+  }
+}
+
+export async function updateAppointmentType(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const type = await appointmentBookingService.updateAppointmentType(userId, req.params.typeId, req.body || {});
+    res.json({ success: true, data: type });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_type_update', 'Failed to update appointment type');
+  }
+}
+
+export async function archiveAppointmentType(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    await appointmentBookingService.archiveAppointmentType(userId, req.params.typeId);
+    await logger.info('Appointment type archived', {
+      operation: 'appointment_type_archive',
+      userId,
+      appointmentTypeId: req.params.typeId
+    });
+    res.json({ success: true });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_type_archive', 'Failed to archive appointment type');
+  }
+}
+
+export async function listAppointmentBookings(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const bookings = await appointmentBookingService.listAppointmentBookings(userId, req.params.typeId);
+    res.json({ success: true, data: bookings });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_booking_list', 'Failed to list bookings');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public booking pages (no authentication; guests manage bookings by token)
+// ---------------------------------------------------------------------------
+
+export async function getBookingPage(req: Request, res: Response) {
+  try {
+    const page = await appointmentBookingService.getBookingPage(req.params.ownerType, req.params.ownerId);
+    res.json({ success: true, data: page });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'booking_page_get', 'Failed to load booking page');
+  }
+}
+
+export async function getPublicSlots(req: Request, res: Response) {
+  try {
+    const slots = await appointmentBookingService.getPublicSlots(req.params.typeId, req.query);
+    res.json({ success: true, data: slots });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'booking_slots_get', 'Failed to load available times');
+  }
+}
+
+export async function bookAppointment(req: Request, res: Response) {
+  try {
+    const result = await appointmentBookingService.bookAppointment(req.params.typeId, req.body || {});
+    await logger.info('Appointment booked', {
+      operation: 'appointment_book',
+      appointmentTypeId: req.params.typeId,
+      bookingId: result.booking.id
+    });
+    res.status(201).json({ success: true, data: result });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_book', 'Failed to book appointment');
+  }
+}
+
+export async function getManagedBooking(req: Request, res: Response) {
+  try {
+    const booking = await appointmentBookingService.getManagedBooking(req.params.token);
+    res.json({ success: true, data: booking });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_booking_get', 'Failed to load booking');
+  }
+}
+
+export async function getRescheduleSlots(req: Request, res: Response) {
+  try {
+    const slots = await appointmentBookingService.getRescheduleSlots(req.params.token, req.query);
+    res.json({ success: true, data: slots });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_booking_slots', 'Failed to load available times');
+  }
+}
+
+export async function rescheduleBooking(req: Request, res: Response) {
+  try {
+    const booking = await appointmentBookingService.rescheduleBooking(req.params.token, req.body || {});
+    await logger.info('Appointment rescheduled', {
+      operation: 'appointment_reschedule',
+      bookingId: booking.id
+    });
+    res.json({ success: true, data: booking });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_reschedule', 'Failed to reschedule booking');
+  }
+}
+
+export async function cancelBooking(req: Request, res: Response) {
+  try {
+    const booking = await appointmentBookingService.cancelBooking(req.params.token);
+    await logger.info('Appointment canceled', {
+      operation: 'appointment_cancel',
+      bookingId: booking.id
+    });
+    res.json({ success: true, data: booking });
+  } catch (err) {
+    await sendAppointmentError(res, err, 'appointment_cancel', 'Failed to cancel booking');
+  }
+}
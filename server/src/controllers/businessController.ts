@@ -1003,7 +1003,8 @@ export const getBusinessAnalytics = async (req: Request, res: Response) => {
       dashboardCount,
       fileCount,
       conversationCount,
-      storageUsed
+      storageUsed,
+      versionStorageUsed
     ] = await Promise.all([
       // Member count
       prisma.businessMember.count({
@@ -1070,6 +1071,24 @@ export const getBusinessAnalytics = async (req: Request, res: Response) => {
           size: true
         }
       }),
+      // Prior file versions count toward storage too
+      prisma.fileVersion.aggregate({
+        where: {
+          file: {
+            user: {
+              businesses: {
+                some: {
+                  businessId: id,
+                  isActive: true
+                }
+              }
+            }
+          }
+        },
+        _sum: {
+          size: true
+        }
+      }),
 
     ]);
 
@@ -1079,7 +1098,7 @@ export const getBusinessAnalytics = async (req: Request, res: Response) => {
       dashboardCount,
       fileCount,
       conversationCount,
-      storageUsed: storageUsed._sum?.size || 0,
+      storageUsed: (storageUsed._sum?.size || 0) + (versionStorageUsed._sum?.size || 0),
       
       // Time range
       timeRange,
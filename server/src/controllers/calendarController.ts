@@ -1,19 +1,32 @@
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
-import { rrulestr } from 'rrule';
-import { getLocalYmd, zonedTimeToUtcFromDate } from '../utils/timezone';
 import { getChatSocketService } from '../services/chatSocketService';
 import { AuditService } from '../services/auditService';
 import { sendCalendarInviteEmail, sendCalendarUpdateEmail, sendCalendarCancelEmail } from '../services/emailService';
 import { createRsvpToken, validateRsvpToken } from '../utils/tokenUtils';
 import { logger } from '../lib/logger';
+import * as calendarResourceService from '../services/calendarResourceService';
+import { ResourceBookingError } from '../services/calendarResourceService';
+import * as calendarSeriesService from '../services/calendarSeriesService';
+import * as calendarFreeBusyService from '../services/calendarFreeBusyService';
+import { FreeBusyError } from '../services/calendarFreeBusyService';
+import * as calendarMeetingFinderService from '../services/calendarMeetingFinderService';
 
 function getUserId(req: Request): string | null {
   const user = (req as AuthenticatedRequest).user;
   return user?.id || null;
 }
 
+// Policy and conflict failures from resource booking; anything else is rethrown
+function sendResourceBookingError(res: Response, err: unknown) {
+  if (err instanceof ResourceBookingError) {
+    return res.status(err.status).json({ error: err.message, code: err.code });
+  }
+  throw err;
+}
+
 export async function listCalendars(req: Request, res: Response) {
   const userId = getUserId(req);
   if (!userId) return res.status(401).json({ error: 'Unauthorized' });
@@ -237,8 +250,10 @@ export async function listEventsInRange(req: Request, res: Response) {
   const eventWhere: any = {
     calendarId: { in: calendarIdList },
     trashedAt: null, // Exclude trashed events
-    OR: [
-      { startAt: { lt: endAt }, endAt: { gt: startAt } }
+    AND: [
+      calendarSeriesService.inRangeWhere(startAt, endAt),
+      // Canceled exceptions only hide the occurrence they replace
+      { OR: [{ parentEventId: null }, { status: { not: 'CANCELED' } }] }
     ]
   };
   
@@ -253,7 +268,7 @@ export async function listEventsInRange(req: Request, res: Response) {
     if (userEmail) {
       const nonScheduleCalendarIds = calendarIdList.filter(id => !scheduleCalendarIds.includes(id));
       
-      eventWhere.AND = [
+      eventWhere.AND.push(
         {
           OR: [
             // Non-Schedule calendars - show all events
@@ -267,7 +282,7 @@ export async function listEventsInRange(req: Request, res: Response) {
             }
           ]
         }
-      ];
+      );
     }
   }
   // If BUSINESS context, show ALL events (no filtering) - default behavior
@@ -276,63 +291,9 @@ export async function listEventsInRange(req: Request, res: Response) {
     where: eventWhere,
     include: { attendees: true, reminders: true, attachments: true }
   });
-  // Handle recurrence expansion with basic exceptions via child events
-  // Child exceptions are modeled as events with parentEventId set to the series parent
-  const exceptionKeySet = new Set<string>();
-  for (const child of events) {
-    if (child.parentEventId) {
-      const key = `${child.parentEventId}|${new Date(child.startAt).toISOString()}`;
-      exceptionKeySet.add(key);
-    }
-  }
-
-  const expanded: Array<Record<string, unknown>> = [];
-  for (const ev of events) {
-    // If this is a child exception or a normal one-off event, include as-is
-    if (!ev.recurrenceRule) {
-      expanded.push({ ...ev, occurrenceStartAt: ev.startAt, occurrenceEndAt: ev.endAt });
-      continue;
-    }
-
-    // Only expand series parents (no parentEventId)
-    if (ev.parentEventId) {
-      // Safety: if a recurring child exists (rare), treat as non-recurring above
-      expanded.push({ ...ev, occurrenceStartAt: ev.startAt, occurrenceEndAt: ev.endAt });
-      continue;
-    }
-
-    // Support RRULE with optional EXDATE by forcing a set when needed
-    // TODO: Timezone/DST: normalize dtstart and between() range using event.timezone
-    const rule = rrulestr(ev.recurrenceRule, { dtstart: new Date(ev.startAt), forceset: /EXDATE/i.test(ev.recurrenceRule) });
-    let occs = (rule as any).between ? (rule as any).between(startAt, endAt, true) : (rule as any).all().filter((d: Date) => d >= startAt && d <= endAt);
-    // Respect recurrenceEndAt if provided
-    if (ev.recurrenceEndAt) {
-      const until = new Date(ev.recurrenceEndAt);
-      occs = occs.filter((d: Date) => d.getTime() <= until.getTime());
-    }
-    const durationMs = new Date(ev.endAt).getTime() - new Date(ev.startAt).getTime();
-    for (const occ of occs) {
-      const occIso = new Date(occ).toISOString();
-      const key = `${ev.id}|${occIso}`;
-      if (exceptionKeySet.has(key)) {
-        // Skip this occurrence because a child exception exists for it
-        continue;
-      }
-      if (ev.allDay && ev.timezone) {
-        // Normalize all-day to local day in event timezone: 00:00 to 23:59 local
-        const ymd = getLocalYmd(new Date(occ), ev.timezone);
-        const startUtc = zonedTimeToUtcFromDate(new Date(ymd.year, ymd.month - 1, ymd.day, 0, 0, 0), ev.timezone);
-        const endUtc = zonedTimeToUtcFromDate(new Date(ymd.year, ymd.month - 1, ymd.day, 23, 59, 59), ev.timezone);
-        expanded.push({ ...ev, occurrenceStartAt: startUtc, occurrenceEndAt: endUtc });
-      } else {
-        expanded.push({
-          ...ev,
-          occurrenceStartAt: occ,
-          occurrenceEndAt: new Date(occ.getTime() + durationMs)
-        });
-      }
-    }
-  }
+  // Series are expanded in their own time zone; exceptions replace the occurrences they stand for
+  const expanded: Array<Record<string, unknown>> = (await calendarSeriesService.expandEvents(events, startAt, endAt))
+    .map(({ event, startAt: occurrenceStartAt, endAt: occurrenceEndAt }) => ({ ...event, occurrenceStartAt, occurrenceEndAt }));
   res.json({ success: true, data: expanded });
   } catch (error: unknown) {
     const err = error as Error;
@@ -468,24 +429,16 @@ export async function checkConflicts(req: Request, res: Response) {
     const endDate = new Date(end as string);
     const calendarIdArray = Array.isArray(calendarIds) ? calendarIds : calendarIds ? [calendarIds] : [];
     
-    // Build conflict query
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const where: any = {
-      startAt: { lt: endDate },
-      endAt: { gt: startDate },
-    };
-    
-    if (calendarIdArray.length > 0) {
-      where.calendarId = { in: calendarIdArray as string[] };
-    }
-    
-    // Add access control
-    where.calendar = {
-      members: { some: { userId } },
-    };
-    
-    const conflicts = await prisma.event.findMany({
-      where,
+    // Same series expansion as listEventsInRange: series that started earlier count, occurrences
+    // stay at their local time across DST changes, and exceptions replace what they stand for
+    const events = await prisma.event.findMany({
+      where: {
+        trashedAt: null,
+        status: { not: 'CANCELED' },
+        calendar: { members: { some: { userId } } },
+        ...(calendarIdArray.length > 0 ? { calendarId: { in: calendarIdArray as string[] } } : {}),
+        AND: [calendarSeriesService.inRangeWhere(startDate, endDate)]
+      },
       select: {
         id: true,
         calendarId: true,
@@ -495,53 +448,13 @@ export async function checkConflicts(req: Request, res: Response) {
         allDay: true,
         timezone: true,
         recurrenceRule: true,
-      },
-      orderBy: { startAt: 'asc' },
-    });
-    
-    // Expand recurring events to check for conflicts
-    const expandedConflicts = [];
-    for (const event of conflicts) {
-      if ((event as any).recurrenceRule) {
-        try {
-          const rule = rrulestr((event as any).recurrenceRule, {
-            dtstart: zonedTimeToUtcFromDate(new Date(event.startAt), event.timezone),
-          });
-          
-          const occurrences = (rule as any).between ? (rule as any).between(startDate, endDate, true) : [];
-          occurrences.forEach((date: Date) => {
-            const eventStart = new Date(date);
-            const eventEnd = new Date(eventStart.getTime() + (new Date(event.endAt).getTime() - new Date(event.startAt).getTime()));
-            
-            if (eventStart < endDate && eventEnd > startDate) {
-              expandedConflicts.push({
-                id: event.id,
-                calendarId: event.calendarId,
-                title: event.title,
-                startAt: eventStart.toISOString(),
-                endAt: eventEnd.toISOString(),
-                allDay: event.allDay,
-                timezone: event.timezone,
-              });
-            }
-          });
-        } catch (error) {
-          await logger.error('Failed to parse recurrence rule for conflict check', {
-            operation: 'calendar_parse_recurrence_conflict',
-            error: {
-              message: error instanceof Error ? error.message : 'Unknown error',
-              stack: error instanceof Error ? error.stack : undefined
-            }
-          });
-          // Add original event if recurrence parsing fails
-          expandedConflicts.push(event);
-        }
-      } else {
-        expandedConflicts.push(event);
+        recurrenceEndAt: true,
+        parentEventId: true
       }
-    }
-    
-    res.json({ success: true, data: expandedConflicts });
+    });
+    const conflicts = calendarSeriesService.toConflicts(await calendarSeriesService.expandEvents(events, startDate, endDate));
+
+    res.json({ success: true, data: conflicts });
     
   } catch (error) {
     await logger.error('Failed to check calendar conflicts', {
@@ -558,7 +471,7 @@ export async function checkConflicts(req: Request, res: Response) {
 export async function createEvent(req: Request, res: Response) {
   const userId = getUserId(req);
   if (!userId) return res.status(401).json({ error: 'Unauthorized' });
-  const { calendarId, title, description, location, onlineMeetingLink, startAt, endAt, allDay, timezone, reminders, attendees, recurrenceRule, recurrenceEndAt } = req.body;
+  const { calendarId, title, description, location, onlineMeetingLink, startAt, endAt, allDay, timezone, reminders, attendees, recurrenceRule, recurrenceEndAt, resourceIds } = req.body;
   if (!calendarId || !title || !startAt || !endAt) return res.status(400).json({ error: 'Missing required fields' });
 
   // Ensure user can write to the calendar
@@ -594,27 +507,44 @@ export async function createEvent(req: Request, res: Response) {
     }
   }
 
-  const event = await prisma.event.create({
-    data: ({
-      calendarId,
-      title,
-      description,
-      location,
-      onlineMeetingLink,
-      startAt: new Date(startAt),
-      endAt: new Date(endAt),
-      allDay: Boolean(allDay),
-      timezone: timezone || 'UTC',
-      recurrenceRule: recurrenceRule || null,
-      recurrenceEndAt: recurrenceEndAt ? new Date(recurrenceEndAt) : null,
-      createdById: userId,
-      attendees: attendees && Array.isArray(attendees)
-        ? { create: attendees.map((a: Record<string, any>) => ({ userId: a.userId, email: a.email, response: a.response || 'NEEDS_ACTION' })) }
-        : { create: [] },
-      reminders: remindersData
-    } as any),
-    include: { attendees: true, reminders: true }
-  });
+  // Rooms and equipment join as attendees once they pass policy and conflict checks
+  let event;
+  try {
+    event = await calendarResourceService.withResourceLock(resourceIds, async (tx) => {
+      const resourceAttendees = await calendarResourceService.prepareResourceAttendees(userId, {
+        resourceIds,
+        startAt: new Date(startAt),
+        endAt: new Date(endAt),
+        timezone: timezone || 'UTC',
+        recurrenceRule: recurrenceRule || null,
+        recurrenceEndAt: recurrenceEndAt ? new Date(recurrenceEndAt) : null
+      }, tx);
+
+      return tx.event.create({
+        data: {
+          calendarId,
+          title,
+          description,
+          location,
+          onlineMeetingLink,
+          startAt: new Date(startAt),
+          endAt: new Date(endAt),
+          allDay: Boolean(allDay),
+          timezone: timezone || 'UTC',
+          recurrenceRule: recurrenceRule || null,
+          recurrenceEndAt: recurrenceEndAt ? new Date(recurrenceEndAt) : null,
+          createdById: userId,
+          attendees: attendees && Array.isArray(attendees)
+            ? { create: [...attendees.filter((a: Record<string, any>) => !a.resourceId).map((a: Record<string, any>) => ({ userId: a.userId, email: a.email, response: a.response || 'NEEDS_ACTION' })), ...resourceAttendees] }
+            : { create: resourceAttendees },
+          reminders: remindersData
+        },
+        include: { attendees: true, reminders: true }
+      });
+    });
+  } catch (err) {
+    return sendResourceBookingError(res, err);
+  }
   res.status(201).json({ success: true, data: event });
   // Audit: event created
   try {
@@ -720,63 +650,219 @@ export async function updateEvent(req: Request, res: Response) {
     }
   }
 
-  // Handle edit scope for recurring events: THIS occurrence vs SERIES
-  const editMode = (data.editMode as 'THIS' | 'SERIES' | undefined) || 'SERIES';
+  // Edit scope for recurring series: THIS occurrence, this and FOLLOWING (splits the series) or the whole SERIES
+  let editMode = calendarSeriesService.parseEditScope(data.editMode);
   const occurrenceStartAt = data.occurrenceStartAt ? new Date(data.occurrenceStartAt) : null;
+  const isSeries = Boolean(ev.recurrenceRule) && !ev.parentEventId;
+  // "This and following" from the first occurrence is the whole series
+  if (editMode === 'FOLLOWING' && occurrenceStartAt && occurrenceStartAt <= ev.startAt) editMode = 'SERIES';
+  const requestedResourceIds: string[] | null = Array.isArray(data.resourceIds)
+    ? data.resourceIds.filter((resourceId: unknown): resourceId is string => typeof resourceId === 'string')
+    : null;
+  const people: Array<{ userId: string | null; email: string | null; response: string }> | null = Array.isArray(data.attendees)
+    ? data.attendees
+      .filter((a: Record<string, any>) => !a.resourceId)
+      .map((a: Record<string, any>) => ({ userId: a.userId || null, email: a.email || null, response: a.response || 'NEEDS_ACTION' }))
+    : null;
 
-  if ((ev as any).recurrenceRule && editMode === 'THIS' && occurrenceStartAt) {
-    // Create an exception child for this single occurrence
-    const parentDurationMs = new Date(ev.endAt).getTime() - new Date(ev.startAt).getTime();
-    const childStart = data.startAt ? new Date(data.startAt) : occurrenceStartAt;
-    const childEnd = data.endAt ? new Date(data.endAt) : new Date(childStart.getTime() + parentDurationMs);
-
-    const child = await prisma.event.create({
-      data: ({
-        calendarId: ev.calendarId,
-        title: data.title ?? ev.title,
-        description: data.description ?? ev.description,
-        location: data.location ?? ev.location,
-        onlineMeetingLink: data.onlineMeetingLink ?? ev.onlineMeetingLink,
-        startAt: childStart,
-        endAt: childEnd,
-        allDay: typeof data.allDay === 'boolean' ? Boolean(data.allDay) : ev.allDay,
-        timezone: data.timezone || ev.timezone || 'UTC',
-        status: ev.status,
-        parentEventId: ev.id,
-        createdById: userId,
-      } as any),
-      include: { attendees: true, reminders: true, attachments: true }
-    });
-    // Note: Parent recurrence occurrence at occurrenceStartAt will be suppressed
-    // in listEventsInRange by exceptionKeySet logic
+  if (isSeries && editMode === 'THIS' && occurrenceStartAt) {
+    // An exception event replaces the occurrence; editing it again updates that exception
+    const existing = await calendarSeriesService.findException(ev.id, occurrenceStartAt);
+    const base = existing ?? ev;
+    const parentDurationMs = ev.endAt.getTime() - ev.startAt.getTime();
+    const childStart = data.startAt ? new Date(data.startAt) : existing?.startAt ?? occurrenceStartAt;
+    const childEnd = data.endAt ? new Date(data.endAt) : existing?.endAt ?? new Date(childStart.getTime() + parentDurationMs);
+
+    // The exception takes over the series' resources unless the request names its own
+    const childResourceIds = requestedResourceIds ?? await calendarResourceService.getEventResourceIds(base.id);
+    const seriesPeople = people ?? (existing ? null : await prisma.eventAttendee.findMany({
+      where: { eventId: ev.id, resourceId: null },
+      select: { userId: true, email: true, response: true }
+    }));
+
+    const fields = {
+      title: data.title ?? base.title,
+      description: data.description ?? base.description,
+      location: data.location ?? base.location,
+      onlineMeetingLink: data.onlineMeetingLink ?? base.onlineMeetingLink,
+      startAt: childStart,
+      endAt: childEnd,
+      allDay: typeof data.allDay === 'boolean' ? Boolean(data.allDay) : base.allDay,
+      timezone: data.timezone || base.timezone || 'UTC',
+      recurrenceId: occurrenceStartAt,
+    } satisfies Prisma.EventUncheckedUpdateInput;
+    let child;
+    try {
+      child = await calendarResourceService.withResourceLock(childResourceIds, async (tx) => {
+        const childResources = await calendarResourceService.prepareResourceAttendees(userId, {
+          resourceIds: childResourceIds,
+          startAt: childStart,
+          endAt: childEnd,
+          timezone: data.timezone || base.timezone,
+          excludeEventId: ev.id
+        }, tx);
+
+        if (existing) {
+          await tx.event.update({ where: { id: existing.id }, data: fields });
+          await calendarResourceService.syncEventResources(existing.id, childResources.map(r => r.resourceId), childResources, tx);
+          if (people) {
+            await tx.eventAttendee.deleteMany({ where: { eventId: existing.id, resourceId: null } });
+            await tx.eventAttendee.createMany({ data: people.map(p => ({ eventId: existing.id, ...p })) });
+          }
+          return tx.event.findUnique({ where: { id: existing.id }, include: { attendees: true, reminders: true, attachments: true } });
+        }
+        return tx.event.create({
+          data: {
+            ...fields,
+            calendarId: ev.calendarId,
+            status: ev.status,
+            parentEventId: ev.id,
+            createdById: userId,
+            attendees: { create: [...(seriesPeople ?? []), ...childResources] },
+          },
+          include: { attendees: true, reminders: true, attachments: true }
+        });
+      });
+    } catch (err) {
+      return sendResourceBookingError(res, err);
+    }
+    // listEventsInRange skips the series occurrence at recurrenceId in favor of the exception
     return res.json({ success: true, data: child });
   }
 
+  const changes: calendarSeriesService.SeriesChanges = {
+    title: data.title,
+    description: data.description,
+    location: data.location,
+    onlineMeetingLink: data.onlineMeetingLink,
+    startAt: data.startAt ? new Date(data.startAt) : undefined,
+    endAt: data.endAt ? new Date(data.endAt) : undefined,
+    allDay: typeof data.allDay === 'boolean' ? data.allDay : undefined,
+    timezone: data.timezone || undefined,
+    // Resending the series' own rule leaves it (and its COUNT) alone
+    recurrenceRule: data.recurrenceRule !== undefined && (data.recurrenceRule || null) !== ev.recurrenceRule
+      ? data.recurrenceRule || null
+      : undefined,
+    recurrenceEndAt: data.recurrenceEndAt ? new Date(data.recurrenceEndAt) : undefined,
+    attendees: people ?? undefined,
+  };
+
+  if (isSeries && editMode === 'FOLLOWING' && occurrenceStartAt) {
+    const timing = calendarSeriesService.splitTiming(ev, occurrenceStartAt, changes);
+    const splitResourceIds = requestedResourceIds ?? await calendarResourceService.getEventResourceIds(ev.id);
+    let created;
+    try {
+      created = await calendarResourceService.withResourceLock(splitResourceIds, async (tx) => {
+        const splitResources = await calendarResourceService.prepareResourceAttendees(userId, {
+          resourceIds: splitResourceIds,
+          startAt: timing.startAt,
+          endAt: timing.endAt,
+          timezone: changes.timezone || ev.timezone,
+          recurrenceRule: timing.recurrenceRule,
+          recurrenceEndAt: timing.recurrenceEndAt,
+          excludeEventId: ev.id
+        }, tx);
+        return calendarSeriesService.splitSeries(userId, ev, occurrenceStartAt, changes, splitResources, tx);
+      });
+    } catch (err) {
+      return sendResourceBookingError(res, err);
+    }
+    res.json({ success: true, data: created });
+    try {
+      await AuditService.logBlockIdAction(userId, 'CALENDAR_EVENT_UPDATED', `Event series split: ${created.title}`, {
+        eventId: ev.id,
+        newEventId: created.id,
+      });
+    } catch {}
+    try {
+      const members = await prisma.calendarMember.findMany({ where: { calendarId: ev.calendarId }, select: { userId: true } });
+      const socket = getChatSocketService();
+      for (const m of members) {
+        socket.broadcastToUser(m.userId, 'calendar_event', { type: 'event', action: 'updated', event: { id: ev.id } });
+        socket.broadcastToUser(m.userId, 'calendar_event', { type: 'event', action: 'created', event: created });
+      }
+    } catch (e) {
+      await logger.error('Failed to broadcast calendar series split', {
+        operation: 'calendar_broadcast_update',
+        error: {
+          message: e instanceof Error ? e.message : 'Unknown error',
+          stack: e instanceof Error ? e.stack : undefined
+        }
+      });
+    }
+    return;
+  }
+
+  // Editing the series from one of its occurrences shifts every occurrence by the same amount
+  if (isSeries && occurrenceStartAt && changes.startAt) {
+    const durationMs = (changes.endAt ?? ev.endAt).getTime() - changes.startAt.getTime();
+    changes.startAt = new Date(ev.startAt.getTime() + changes.startAt.getTime() - occurrenceStartAt.getTime());
+    changes.endAt = new Date(changes.startAt.getTime() + durationMs);
+  }
+
+  // Resources are re-checked when the time changes; otherwise only newly added ones are
+  const nextStart = changes.startAt ?? ev.startAt;
+  const nextEnd = changes.endAt ?? ev.endAt;
+  const nextRule = changes.recurrenceRule !== undefined ? changes.recurrenceRule : ev.recurrenceRule;
+  const nextRuleEnd = changes.recurrenceEndAt ?? ev.recurrenceEndAt;
+  const timingChanged = nextStart.getTime() !== ev.startAt.getTime()
+    || nextEnd.getTime() !== ev.endAt.getTime()
+    || nextRule !== ev.recurrenceRule
+    || (nextRuleEnd?.getTime() ?? null) !== (ev.recurrenceEndAt?.getTime() ?? null)
+    || (changes.timezone !== undefined && changes.timezone !== ev.timezone);
+  const currentResourceIds = await calendarResourceService.getEventResourceIds(id);
+  const nextResourceIds: string[] = requestedResourceIds ?? currentResourceIds;
+  const checkedResourceIds = timingChanged
+    ? nextResourceIds
+    : nextResourceIds.filter(resourceId => !currentResourceIds.includes(resourceId));
+
   // Default: update the event (series or one-off)
-  const updated = await prisma.event.update({
-    where: { id },
-    data: ({
-      title: data.title,
-      description: data.description,
-      location: data.location,
-      onlineMeetingLink: data.onlineMeetingLink,
-      startAt: data.startAt ? new Date(data.startAt) : undefined,
-      endAt: data.endAt ? new Date(data.endAt) : undefined,
-      allDay: data.allDay,
-      timezone: data.timezone,
-      recurrenceRule: data.recurrenceRule,
-      recurrenceEndAt: data.recurrenceEndAt ? new Date(data.recurrenceEndAt) : undefined,
-    } as any),
-    include: { attendees: true, reminders: true, attachments: true }
-  });
+  try {
+    await calendarResourceService.withResourceLock(checkedResourceIds, async (tx) => {
+      const checkedResources = await calendarResourceService.prepareResourceAttendees(userId, {
+        resourceIds: checkedResourceIds,
+        startAt: nextStart,
+        endAt: nextEnd,
+        timezone: changes.timezone || ev.timezone,
+        recurrenceRule: nextRule,
+        recurrenceEndAt: nextRuleEnd,
+        excludeEventId: id
+      }, tx);
 
-  // Replace attendees if provided
-  if (Array.isArray(data.attendees)) {
-    await prisma.eventAttendee.deleteMany({ where: { eventId: id } });
-    if (data.attendees.length > 0) {
-      await prisma.eventAttendee.createMany({
-        data: data.attendees.map((a: Record<string, any>) => ({ eventId: id, userId: a.userId || null, email: a.email || null, response: a.response || 'NEEDS_ACTION' }))
+      await tx.event.update({
+        where: { id },
+        data: {
+          title: changes.title,
+          description: changes.description,
+          location: changes.location,
+          onlineMeetingLink: changes.onlineMeetingLink,
+          startAt: changes.startAt,
+          endAt: changes.endAt,
+          allDay: changes.allDay,
+          timezone: changes.timezone,
+          recurrenceRule: changes.recurrenceRule,
+          recurrenceEndAt: changes.recurrenceEndAt,
+        },
       });
+
+      if (Array.isArray(data.resourceIds) || checkedResources.length > 0) {
+        await calendarResourceService.syncEventResources(id, nextResourceIds, checkedResources, tx);
+      }
+    });
+  } catch (err) {
+    return sendResourceBookingError(res, err);
+  }
+
+  // Exceptions are keyed by the occurrence they replace, so moving the series orphans them
+  if (isSeries && calendarSeriesService.movesOccurrences(ev, changes)) {
+    await calendarSeriesService.dropExceptions(ev.id);
+  }
+
+  // Replace attendees if provided; resources are managed through resourceIds
+  if (people) {
+    await prisma.eventAttendee.deleteMany({ where: { eventId: id, resourceId: null } });
+    if (people.length > 0) {
+      await prisma.eventAttendee.createMany({ data: people.map(p => ({ eventId: id, ...p })) });
     }
   }
   const refreshed = await prisma.event.findUnique({ where: { id }, include: { attendees: true, reminders: true, attachments: true } });
@@ -858,8 +944,8 @@ export async function deleteEvent(req: Request, res: Response) {
   const userId = getUserId(req);
   if (!userId) return res.status(401).json({ error: 'Unauthorized' });
   const { id } = req.params;
-  const editMode = req.query.editMode as 'THIS' | 'SERIES' | undefined;
-  const occurrenceStartAt = typeof req.query.occurrenceStartAt === 'string' ? req.query.occurrenceStartAt : undefined;
+  const editMode = calendarSeriesService.parseEditScope(req.query.editMode);
+  const occurrenceStartAt = typeof req.query.occurrenceStartAt === 'string' ? new Date(req.query.occurrenceStartAt) : null;
   const ev = await prisma.event.findFirst({ 
     where: { 
       id,
@@ -878,28 +964,34 @@ export async function deleteEvent(req: Request, res: Response) {
     }
   }
 
-  // Delete only this occurrence by creating a canceled exception child
-  if ((ev as any).recurrenceRule && editMode === 'THIS' && occurrenceStartAt) {
+  const isSeries = Boolean(ev.recurrenceRule) && !ev.parentEventId;
+
+  // Delete only this occurrence: its exception (new or existing) becomes a canceled one
+  if (isSeries && editMode === 'THIS' && occurrenceStartAt) {
     try {
-      const occStart = new Date(occurrenceStartAt);
-      const durationMs = new Date(ev.endAt).getTime() - new Date(ev.startAt).getTime();
-      const occEnd = new Date(occStart.getTime() + durationMs);
-      await prisma.event.create({
-        data: ({
-          calendarId: ev.calendarId,
-          title: ev.title,
-          description: ev.description,
-          location: ev.location,
-          onlineMeetingLink: ev.onlineMeetingLink,
-          startAt: occStart,
-          endAt: occEnd,
-          allDay: ev.allDay,
-          timezone: ev.timezone,
-          status: 'CANCELED',
-          parentEventId: ev.id,
-          createdById: userId,
-        } as any)
-      });
+      const existing = await calendarSeriesService.findException(ev.id, occurrenceStartAt);
+      if (existing) {
+        await prisma.event.update({ where: { id: existing.id }, data: { status: 'CANCELED', recurrenceId: occurrenceStartAt } });
+      } else {
+        const durationMs = ev.endAt.getTime() - ev.startAt.getTime();
+        await prisma.event.create({
+          data: {
+            calendarId: ev.calendarId,
+            title: ev.title,
+            description: ev.description,
+            location: ev.location,
+            onlineMeetingLink: ev.onlineMeetingLink,
+            startAt: occurrenceStartAt,
+            endAt: new Date(occurrenceStartAt.getTime() + durationMs),
+            allDay: ev.allDay,
+            timezone: ev.timezone,
+            status: 'CANCELED',
+            parentEventId: ev.id,
+            recurrenceId: occurrenceStartAt,
+            createdById: userId,
+          }
+        });
+      }
       return res.json({ success: true });
     } catch (e) {
       await logger.error('Failed to create canceled exception child', {
@@ -913,6 +1005,31 @@ export async function deleteEvent(req: Request, res: Response) {
     }
   }
 
+  // Delete this and following occurrences: the series ends before this one
+  if (isSeries && editMode === 'FOLLOWING' && occurrenceStartAt && occurrenceStartAt > ev.startAt) {
+    await calendarSeriesService.endSeriesBefore(ev, occurrenceStartAt);
+    res.json({ success: true });
+    try {
+      await AuditService.logBlockIdAction(userId, 'CALENDAR_EVENT_UPDATED', `Event series ended: ${ev.title}`, { eventId: id });
+    } catch {}
+    try {
+      const members = await prisma.calendarMember.findMany({ where: { calendarId: ev.calendarId }, select: { userId: true } });
+      const socket = getChatSocketService();
+      for (const m of members) {
+        socket.broadcastToUser(m.userId, 'calendar_event', { type: 'event', action: 'updated', event: { id } });
+      }
+    } catch (e) {
+      await logger.error('Failed to broadcast calendar series end', {
+        operation: 'calendar_broadcast_update',
+        error: {
+          message: e instanceof Error ? e.message : 'Unknown error',
+          stack: e instanceof Error ? e.stack : undefined
+        }
+      });
+    }
+    return;
+  }
+
   // Move event to trash instead of hard delete
   await prisma.event.update({
     where: { id },
@@ -1467,164 +1584,17 @@ export async function exportIcsEvents(req: Request, res: Response) {
 }
 
 export async function getFreeBusy(req: Request, res: Response) {
+  const userId = getUserId(req);
+  if (!userId) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
   try {
-    const { start, end, calendarIds, attendeeEmails } = req.query;
-    const userId = getUserId(req);
-    
-    if (!userId || !start || !end) {
-      return res.status(400).json({ success: false, message: 'Missing required parameters' });
-    }
-    
-    const startDate = new Date(start as string);
-    const endDate = new Date(end as string);
-    const calendarIdArray = Array.isArray(calendarIds) ? calendarIds : calendarIds ? [calendarIds] : [];
-    const attendeeEmailArray = Array.isArray(attendeeEmails) ? attendeeEmails : attendeeEmails ? [attendeeEmails] : [];
-    
-    // Get busy times from specified calendars
-    const busyTimes = [];
-    
-    if (calendarIdArray.length > 0) {
-      const events = await prisma.event.findMany({
-        where: {
-          calendarId: { in: calendarIdArray as string[] },
-          startAt: { lt: endDate },
-          endAt: { gt: startDate },
-        },
-        select: {
-          startAt: true,
-          endAt: true,
-          allDay: true,
-          timezone: true,
-          recurrenceRule: true,
-        },
-      });
-      
-      // Expand recurring events and add to busy times
-      for (const event of events) {
-        if (event.recurrenceRule) {
-          try {
-            const rule = rrulestr(event.recurrenceRule, {
-              dtstart: zonedTimeToUtcFromDate(new Date(event.startAt), event.timezone),
-            });
-            
-            const occurrences = (rule as any).between ? (rule as any).between(startDate, endDate, true) : [];
-            occurrences.forEach((date: Date) => {
-              const eventStart = new Date(date);
-              const eventEnd = new Date(eventStart.getTime() + (new Date(event.endAt).getTime() - new Date(event.startAt).getTime()));
-              busyTimes.push({
-                startAt: eventStart.toISOString(),
-                endAt: eventEnd.toISOString(),
-              });
-            });
-          } catch (error) {
-            await logger.error('Failed to parse recurrence rule', {
-              operation: 'calendar_parse_recurrence',
-              error: {
-                message: error instanceof Error ? error.message : 'Unknown error',
-                stack: error instanceof Error ? error.stack : undefined
-              }
-            });
-          }
-        } else {
-          busyTimes.push({
-            startAt: event.startAt.toISOString(),
-            endAt: event.endAt.toISOString(),
-          });
-        }
-      }
-    }
-    
-    // Get busy times from attendee calendars (if they have accounts)
-    if (attendeeEmailArray.length > 0) {
-      const attendeeUsers = await prisma.user.findMany({
-        where: { email: { in: attendeeEmailArray as string[] } },
-        select: { id: true, email: true },
-      });
-      
-      for (const user of attendeeUsers) {
-        const userEvents = await prisma.event.findMany({
-          where: {
-            calendar: {
-              members: { some: { userId: user.id } },
-            },
-            startAt: { lt: endDate },
-            endAt: { gt: startDate },
-          },
-          select: {
-            startAt: true,
-            endAt: true,
-            allDay: true,
-            timezone: true,
-            recurrenceRule: true,
-          },
-        });
-        
-        // Expand recurring events for attendees
-        for (const event of userEvents) {
-          if (event.recurrenceRule) {
-            try {
-              const rule = rrulestr(event.recurrenceRule, {
-                dtstart: zonedTimeToUtcFromDate(new Date(event.startAt), event.timezone),
-              });
-              
-              const occurrences = (rule as any).between ? (rule as any).between(startDate, endDate, true) : [];
-              occurrences.forEach((date: Date) => {
-                const eventStart = new Date(date);
-                const eventEnd = new Date(eventStart.getTime() + (new Date(event.endAt).getTime() - new Date(event.startAt).getTime()));
-                busyTimes.push({
-                  startAt: eventStart.toISOString(),
-                  endAt: eventEnd.toISOString(),
-                });
-              });
-            } catch (error) {
-              await logger.error('Failed to parse recurrence rule for attendee', {
-                operation: 'calendar_parse_recurrence_attendee',
-                error: {
-                  message: error instanceof Error ? error.message : 'Unknown error',
-                  stack: error instanceof Error ? error.stack : undefined
-                }
-              });
-            }
-          } else {
-            busyTimes.push({
-              startAt: event.startAt.toISOString(),
-              endAt: event.endAt.toISOString(),
-            });
-          }
-        }
-      }
-    }
-    
-    // Sort busy times by start
-    busyTimes.sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
-    
-    // Merge overlapping busy times
-    const mergedBusyTimes = [];
-    for (const busy of busyTimes) {
-      if (mergedBusyTimes.length === 0) {
-        mergedBusyTimes.push(busy);
-      } else {
-        const last = mergedBusyTimes[mergedBusyTimes.length - 1];
-        if (new Date(busy.startAt) <= new Date(last.endAt)) {
-          // Overlap, merge
-          last.endAt = new Date(Math.max(new Date(last.endAt).getTime(), new Date(busy.endAt).getTime())).toISOString();
-        } else {
-          // No overlap, add new
-          mergedBusyTimes.push(busy);
-        }
-      }
-    }
-    
-    res.json({
-      success: true,
-      data: {
-        start: startDate.toISOString(),
-        end: endDate.toISOString(),
-        busy: mergedBusyTimes,
-      },
-    });
-    
+    // query: start, end, calendarIds[], attendeeEmails[], userIds[]
+    const freeBusy = await calendarFreeBusyService.getFreeBusy(userId, req.query);
+    res.json({ success: true, data: freeBusy });
   } catch (error) {
+    if (error instanceof FreeBusyError) {
+      return res.status(error.status).json({ success: false, message: error.message, code: error.code });
+    }
     await logger.error('Failed to get free-busy', {
       operation: 'calendar_get_free_busy',
       error: {
@@ -1636,3 +1606,40 @@ export async function getFreeBusy(req: Request, res: Response) {
   }
 }
 
+export async function getWorkingHours(req: Request, res: Response) {
+  const userId = getUserId(req);
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  const workingHours = await calendarFreeBusyService.getWorkingHours(userId);
+  res.json({ success: true, data: workingHours });
+}
+
+export async function updateWorkingHours(req: Request, res: Response) {
+  const userId = getUserId(req);
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const workingHours = await calendarFreeBusyService.saveWorkingHours(userId, req.body || {});
+    res.json({ success: true, data: workingHours });
+  } catch (error) {
+    if (error instanceof FreeBusyError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    throw error;
+  }
+}
+
+export async function findMeetingTimes(req: Request, res: Response) {
+  const userId = getUserId(req);
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const result = await calendarMeetingFinderService.findMeetingTimes(userId, req.body || {});
+    res.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof FreeBusyError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    return sendResourceBookingError(res, error);
+  }
+}
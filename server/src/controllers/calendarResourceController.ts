@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import * as calendarResourceService from '../services/calendarResourceService';
+import { ResourceBookingError } from '../services/calendarResourceService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+async function sendResourceError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof ResourceBookingError) {
+    return res.status(err.status).json({ success: false, error: err.message, code: err.code });
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  return res.status(500).json({ success: false, error: fallbackMessage });
+}
+
+export async function listResources(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  const { businessId, includeInactive } = req.query as { businessId?: string; includeInactive?: string };
+  if (!businessId) return res.status(400).json({ success: false, error: 'businessId is required' });
+
+  try {
+    const resources = await calendarResourceService.listResources(userId, businessId, {
+      includeInactive: includeInactive === 'true'
+    });
+    res.json({ success: true, data: resources });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_list', 'Failed to list resources');
+  }
+}
+
+export async function createResource(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const resource = await calendarResourceService.createResource(userId, req.body || {});
+    await logger.info('Calendar resource created', {
+      operation: 'calendar_resource_create',
+      userId,
+      businessId: resource.businessId,
+      resourceId: resource.id
+    });
+    res.status(201).json({ success: true, data: resource });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_create', 'Failed to create resource');
+  }
+}
+
+export async function updateResource(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const resource = await calendarResourceService.updateResource(userId, req.params.resourceId, req.body || {});
+    res.json({ success: true, data: resource });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_update', 'Failed to update resource');
+  }
+}
+
+export async function archiveResource(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    await calendarResourceService.archiveResource(userId, req.params.resourceId);
+    await logger.info('Calendar resource archived', {
+      operation: 'calendar_resource_archive',
+      userId,
+      resourceId: req.params.resourceId
+    });
+    res.json({ success: true });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_archive', 'Failed to archive resource');
+  }
+}
+
+// Resource counterpart of /freebusy: busy intervals per resource, recurring bookings expanded
+export async function getResourceAvailability(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const availability = await calendarResourceService.getAvailability(userId, req.query);
+    res.json({ success: true, data: availability });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_availability', 'Failed to load resource availability');
+  }
+}
+
+export async function listBookings(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const bookings = await calendarResourceService.listBookings(userId, req.query);
+    res.json({ success: true, data: bookings });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_bookings', 'Failed to list bookings');
+  }
+}
+
+export async function approveBooking(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const booking = await calendarResourceService.decideBooking(userId, req.params.bookingId, true);
+    res.json({ success: true, data: booking });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_approve', 'Failed to approve booking');
+  }
+}
+
+export async function declineBooking(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    const booking = await calendarResourceService.decideBooking(userId, req.params.bookingId, false);
+    res.json({ success: true, data: booking });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_decline', 'Failed to decline booking');
+  }
+}
+
+export async function cancelBooking(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  try {
+    await calendarResourceService.cancelBooking(userId, req.params.bookingId);
+    res.json({ success: true });
+  } catch (err) {
+    await sendResourceError(res, err, 'calendar_resource_cancel', 'Failed to cancel booking');
+  }
+}
@@ -28,15 +28,3 @@ export async function exportIcs(req: Request, res: Response) {
   res.send(lines.join('\r\n'));
 }
 
-export async function freeBusy(req: Request, res: Response) {
-  const user = (req as any).user;
-  if (!user) return res.status(401).end();
-  const { start, end, calendarIds } = req.query as { start?: string; end?: string; calendarIds?: string | string[] };
-  if (!start || !end) return res.status(400).json({ error: 'start and end required' });
-  const ids = Array.isArray(calendarIds) ? calendarIds : (calendarIds ? [calendarIds] : []);
-  const allowed = await prisma.calendar.findMany({ where: { id: { in: ids }, members: { some: { userId: user.id } } }, select: { id: true } });
-  const allowedIds = allowed.map(c => c.id);
-  const events = await prisma.event.findMany({ where: { calendarId: { in: allowedIds }, startAt: { lt: new Date(end) }, endAt: { gt: new Date(start) } }, select: { startAt: true, endAt: true } });
-  res.json({ success: true, data: events });
-}
-
@@ -9,6 +9,7 @@ import { Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../lib/logger';
+import { getStorageUsage } from '../services/storageQuotaService';
 import { Prisma } from '@prisma/client';
 
 // Type definitions for AI context responses
@@ -147,7 +148,7 @@ export async function getStorageStatsContext(req: Request, res: Response) {
       documentFiles,
       imageFiles,
       videoFiles,
-      files
+      usage
     ] = await Promise.all([
       prisma.file.count({
         where: { userId, trashedAt: null }
@@ -179,26 +180,24 @@ export async function getStorageStatsContext(req: Request, res: Response) {
           }
         }
       }),
-      prisma.file.findMany({
-        where: { userId, trashedAt: null },
-        select: { size: true }
-      })
+      getStorageUsage({ userId, businessId: null })
     ]);
     
-    // Calculate storage usage from actual files
-    const storageUsed = files.reduce((sum, file) => sum + (file.size || 0), 0);
-    const storageLimit = 10737418240; // 10GB default
-    const percentageUsed = (storageUsed / storageLimit) * 100;
+    // Personal quota usage, counted the same way uploads are enforced
+    const storageUsed = usage.usedBytes;
+    const storageLimit = usage.limitBytes;
+    const percentageUsed = usage.percentageUsed;
     
     // Format for AI consumption
     const context = {
       storage: {
         used: formatFileSize(storageUsed),
         usedBytes: storageUsed,
-        limit: formatFileSize(storageLimit),
+        limit: storageLimit === null ? 'Unlimited' : formatFileSize(storageLimit),
         limitBytes: storageLimit,
         percentageUsed: Math.round(percentageUsed * 100) / 100,
-        available: formatFileSize(storageLimit - storageUsed)
+        available: usage.remainingBytes === null ? 'Unlimited' : formatFileSize(usage.remainingBytes),
+        breakdown: usage.breakdown
       },
       files: {
         total: totalFiles,
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import * as archiveService from '../services/driveArchiveService';
+import { ArchiveError, ArchivePlan } from '../services/driveArchiveService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+async function sendArchiveError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof ArchiveError) {
+    return res.status(err.status).json({ message: err.message, code: err.code });
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  return res.status(500).json({ message: fallbackMessage });
+}
+
+function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// Once streaming starts the status is sent, so failures can only cut the response short
+async function streamArchive(res: Response, userId: string, plan: ArchivePlan, fileName: string, operation: string) {
+  await archiveService.recordArchiveDownload(userId, plan, fileName);
+  res.setHeader('Content-Type', archiveService.ARCHIVE_CONTENT_TYPES.zip);
+  res.setHeader('Content-Disposition', contentDisposition(fileName));
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('X-Archive-Skipped', String(plan.skipped));
+
+  try {
+    const { bytes, missing } = await archiveService.writeArchive(plan, res, 'zip');
+    res.end();
+    await logger.info('Drive archive downloaded', {
+      operation,
+      userId,
+      fileCount: plan.fileIds.length,
+      skipped: plan.skipped,
+      missing,
+      bytes
+    });
+  } catch (err) {
+    await logger.warn('Drive archive download interrupted', {
+      operation,
+      userId,
+      error: { message: err instanceof Error ? err.message : 'Unknown error' }
+    });
+    res.destroy();
+  }
+}
+
+// Download a folder, with its subfolders, as a ZIP
+export async function downloadFolderArchive(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    const { id } = req.params;
+    const folder = await prisma.folder.findUnique({ where: { id }, select: { name: true, trashedAt: true } });
+    if (!folder || folder.trashedAt) return res.status(404).json({ message: 'Folder not found' });
+    if (!(await archiveService.canReadFolderTree(userId, id))) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const plan = await archiveService.planArchive(userId, { folderIds: [id] });
+    await streamArchive(res, userId, plan, archiveService.archiveFileName(folder.name), 'drive_folder_download');
+  } catch (err) {
+    await sendArchiveError(res, err, 'drive_folder_download', 'Failed to download folder');
+  }
+}
+
+// Download a multi-selection of files and folders as one ZIP
+export async function downloadItemsArchive(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  const { fileIds, folderIds, name } = req.body || {};
+  const isIdList = (value: unknown) =>
+    value === undefined || (Array.isArray(value) && value.every((id) => typeof id === 'string'));
+  if (!isIdList(fileIds) || !isIdList(folderIds)) {
+    return res.status(400).json({ message: 'fileIds and folderIds must be arrays of ids' });
+  }
+
+  try {
+    const plan = await archiveService.planArchive(userId, { fileIds, folderIds });
+    if (plan.entries.length === 0) {
+      return res.status(404).json({ message: 'None of the selected items can be downloaded', code: 'nothing_to_download' });
+    }
+    const archiveName = typeof name === 'string' && name.trim() ? name : 'Drive download';
+    await streamArchive(res, userId, plan, archiveService.archiveFileName(archiveName), 'drive_bulk_download');
+  } catch (err) {
+    await sendArchiveError(res, err, 'drive_bulk_download', 'Failed to download items');
+  }
+}
@@ -0,0 +1,429 @@
+import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import * as davService from '../services/driveDavService';
+import { DavError, DavLock, DavNode } from '../services/driveDavService';
+import { storageService } from '../services/storageService';
+import { StorageQuotaExceededError } from '../services/storageQuotaService';
+import { SharedDriveError } from '../services/sharedDriveService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+import {
+  DAV_NS,
+  DavResponse,
+  PropStat,
+  QualifiedName,
+  SUPPORTED_LOCK_XML,
+  ActiveLock,
+  escapeXml,
+  parseIfHeaderTokens,
+  parseLockBody,
+  parsePropfindBody,
+  parseProppatchBody,
+  parseTimeoutHeader,
+  renderActiveLock,
+  renderDavError,
+  renderLockDiscovery,
+  renderMultistatus
+} from '../utils/davXml';
+
+const ALLOWED_METHODS = 'OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, PROPPATCH, MKCOL, COPY, MOVE, LOCK, UNLOCK';
+const XML_TYPE = 'application/xml; charset=utf-8';
+
+// Live properties reported for allprop and propname
+const LIVE_PROPS = [
+  'resourcetype', 'displayname', 'getcontentlength', 'getcontenttype', 'getlastmodified',
+  'creationdate', 'getetag', 'supportedlock', 'lockdiscovery'
+];
+
+async function sendDavError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof DavError) {
+    if (err.status === 423) {
+      return res.status(423).type(XML_TYPE).send(renderDavError(err.code));
+    }
+    return res.status(err.status).type('text/plain').send(err.message);
+  }
+  if (err instanceof StorageQuotaExceededError) {
+    return res.status(507).type('text/plain').send(err.message);
+  }
+  if (err instanceof SharedDriveError) {
+    return res.status(err.status).type('text/plain').send(err.message);
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  if (!res.headersSent) return res.status(500).type('text/plain').send(fallbackMessage);
+}
+
+function davUser(req: Request, res: Response): string | null {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) {
+    res.status(401).type('text/plain').send('Unauthorized');
+    return null;
+  }
+  return userId;
+}
+
+function requestSegments(req: Request, res: Response): string[] | null {
+  const segments = davService.splitDavPath(req.path);
+  if (!segments) {
+    res.status(400).type('text/plain').send('Malformed path');
+    return null;
+  }
+  return segments;
+}
+
+function isCollection(node: DavNode): boolean {
+  return node.kind !== 'file';
+}
+
+function hrefFor(req: Request, node: DavNode): string {
+  const path = node.segments.map((segment) => encodeURIComponent(segment)).join('/');
+  return `${req.baseUrl}/${path}${isCollection(node) && path ? '/' : ''}`;
+}
+
+function submittedTokens(req: Request): string[] {
+  return parseIfHeaderTokens(req.header('if'));
+}
+
+function etagFor(node: DavNode): string | null {
+  if (node.kind !== 'file') return null;
+  const version = node.file.checksum ?? `${node.file.id}-${node.file.updatedAt.getTime()}`;
+  return `"${version}"`;
+}
+
+function timestampsFor(node: DavNode): { created: Date; modified: Date } {
+  if (node.kind === 'file') return { created: node.file.createdAt, modified: node.file.updatedAt };
+  if (node.kind === 'folder') return { created: node.folder.createdAt, modified: node.folder.updatedAt };
+  const created = node.createdAt ?? new Date(0);
+  return { created, modified: created };
+}
+
+function activeLocks(req: Request, node: DavNode, locks: DavLock[]): ActiveLock[] {
+  return locks.map((lock) => ({
+    token: lock.token,
+    scope: lock.scope === 'shared' ? 'shared' : 'exclusive',
+    depth: lock.depth === '0' ? '0' : 'infinity',
+    owner: lock.owner,
+    expiresAt: lock.expiresAt,
+    root: hrefFor(req, node)
+  }));
+}
+
+// XML for a live property, or null when the resource doesn't have it
+function liveProperty(req: Request, node: DavNode, name: string, locks: DavLock[]): string | null {
+  const { created, modified } = timestampsFor(node);
+  switch (name) {
+    case 'resourcetype':
+      return isCollection(node) ? '<d:collection/>' : '';
+    case 'displayname':
+      return escapeXml(node.name);
+    case 'getcontentlength':
+      return node.kind === 'file' ? String(node.file.size) : null;
+    case 'getcontenttype':
+      return node.kind === 'file' ? escapeXml(node.file.type || 'application/octet-stream') : null;
+    case 'getlastmodified':
+      return modified.toUTCString();
+    case 'creationdate':
+      return created.toISOString();
+    case 'getetag':
+      return node.kind === 'file' ? escapeXml(etagFor(node)!) : null;
+    case 'supportedlock':
+      return node.kind === 'file' || node.kind === 'folder' ? SUPPORTED_LOCK_XML : '';
+    case 'lockdiscovery':
+      return activeLocks(req, node, locks).map((lock) => renderActiveLock(lock)).join('');
+    default:
+      return null;
+  }
+}
+
+function propertiesResponse(
+  req: Request,
+  node: DavNode,
+  locks: DavLock[],
+  request: ReturnType<typeof parsePropfindBody>
+): DavResponse {
+  const href = hrefFor(req, node);
+  if (request.type === 'propname') {
+    return { href, propstats: [{ status: 200, props: LIVE_PROPS.map((name) => ({ name: { ns: DAV_NS, name } })) }] };
+  }
+  const requested: QualifiedName[] = request.type === 'prop'
+    ? request.props
+    : LIVE_PROPS.map((name) => ({ ns: DAV_NS, name }));
+  const found: PropStat = { status: 200, props: [] };
+  const missing: PropStat = { status: 404, props: [] };
+  for (const name of requested) {
+    const xml = name.ns === DAV_NS ? liveProperty(req, node, name.name, locks) : null;
+    if (xml === null) {
+      if (request.type === 'prop') missing.props.push({ name });
+    } else {
+      found.props.push({ name, xml });
+    }
+  }
+  return { href, propstats: [found, missing] };
+}
+
+export function davOptions(req: Request, res: Response) {
+  res.setHeader('DAV', '1, 2');
+  res.setHeader('MS-Author-Via', 'DAV');
+  res.setHeader('Allow', ALLOWED_METHODS);
+  res.setHeader('Content-Length', '0');
+  res.status(200).end();
+}
+
+export async function davPropfind(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+
+  const depth = (req.header('depth') ?? 'infinity').toLowerCase();
+  if (depth !== '0' && depth !== '1') {
+    return res.status(403).type(XML_TYPE).send(renderDavError('propfind-finite-depth'));
+  }
+
+  try {
+    const request = parsePropfindBody(typeof req.body === 'string' ? req.body : undefined);
+    const node = await davService.resolvePath(userId, segments);
+    if (!node) return res.status(404).type('text/plain').send('Not found');
+
+    const nodes = depth === '1' ? [node, ...(await davService.listChildren(userId, node))] : [node];
+    const locks = await davService.activeLocksFor(nodes);
+    const body = renderMultistatus(nodes.map((entry, index) => propertiesResponse(req, entry, locks[index], request)));
+    res.status(207).type(XML_TYPE).send(body);
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_propfind', 'Failed to list properties');
+  }
+}
+
+// Dead properties aren't stored; the Windows timestamp properties Explorer sets are accepted and ignored
+export async function davProppatch(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+
+  try {
+    const node = await davService.resolvePath(userId, segments);
+    if (!node) return res.status(404).type('text/plain').send('Not found');
+
+    const names = parseProppatchBody(typeof req.body === 'string' ? req.body : undefined);
+    const ignored = names.filter((name) => name.ns === 'urn:schemas-microsoft-com:' && name.name.startsWith('Win32'));
+    const refused = names.filter((name) => !ignored.includes(name));
+    const propstats: PropStat[] = refused.length > 0
+      ? [
+          { status: 403, props: refused.map((name) => ({ name })) },
+          { status: 424, props: ignored.map((name) => ({ name })) }
+        ]
+      : [{ status: 200, props: ignored.map((name) => ({ name })) }];
+    res.status(207).type(XML_TYPE).send(renderMultistatus([{ href: hrefFor(req, node), propstats }]));
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_proppatch', 'Failed to update properties');
+  }
+}
+
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | 'invalid' | null {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  const start = match[1] ? parseInt(match[1], 10) : Math.max(0, size - parseInt(match[2], 10));
+  const end = match[1] && match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  if (start > end || start >= size) return 'invalid';
+  return { start, end };
+}
+
+function listingHtml(req: Request, node: DavNode, children: DavNode[]): string {
+  const rows = children
+    .map((child) => `<li><a href="${escapeXml(hrefFor(req, child))}">${escapeXml(child.name)}${isCollection(child) ? '/' : ''}</a></li>`)
+    .join('');
+  const title = escapeXml(node.name || 'Drive');
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title></head><body><h1>${title}</h1><ul>${rows}</ul></body></html>`;
+}
+
+// GET and HEAD; collections get a plain HTML listing for browsers
+export async function davGet(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+
+  try {
+    const node = await davService.resolvePath(userId, segments);
+    if (!node) return res.status(404).type('text/plain').send('Not found');
+
+    if (node.kind !== 'file') {
+      const html = listingHtml(req, node, await davService.listChildren(userId, node));
+      res.status(200).type('text/html; charset=utf-8');
+      return req.method === 'HEAD' ? res.end() : res.send(html);
+    }
+
+    const { file } = node;
+    const storagePath = file.path ?? storageService.extractPathFromUrl(file.url);
+    if (!storagePath) return res.status(404).type('text/plain').send('File content not found');
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', etagFor(node)!);
+    res.setHeader('Last-Modified', file.updatedAt.toUTCString());
+    res.setHeader('Content-Type', file.type || 'application/octet-stream');
+
+    const range = parseRange(req.header('range'), file.size);
+    if (range === 'invalid') {
+      res.setHeader('Content-Range', `bytes */${file.size}`);
+      return res.status(416).end();
+    }
+    if (range) {
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+      res.setHeader('Content-Length', String(range.end - range.start + 1));
+      res.status(206);
+    } else {
+      res.setHeader('Content-Length', String(file.size));
+      res.status(200);
+    }
+    if (req.method === 'HEAD' || file.size === 0) return res.end();
+    await pipeline(storageService.createReadStream(storagePath, range ?? undefined), res);
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_get', 'Failed to read file');
+  }
+}
+
+export async function davPut(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+  if (segments.length === 0) return res.status(405).type('text/plain').send('Cannot write here');
+
+  try {
+    const target = await davService.resolveTarget(userId, segments);
+    const { node, created } = await davService.writeFile(userId, target, req, req.header('content-type'), submittedTokens(req));
+    res.setHeader('ETag', etagFor(node)!);
+    res.status(created ? 201 : 204).end();
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_put', 'Failed to store file');
+  }
+}
+
+export async function davMkcol(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+  if (Number(req.header('content-length') ?? 0) > 0 || req.header('transfer-encoding')) {
+    return res.status(415).type('text/plain').send('MKCOL bodies are not supported');
+  }
+  if (segments.length === 0) return res.status(405).type('text/plain').send('Already exists');
+
+  try {
+    const target = await davService.resolveTarget(userId, segments);
+    await davService.createCollection(userId, target, submittedTokens(req));
+    res.status(201).end();
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_mkcol', 'Failed to create folder');
+  }
+}
+
+export async function davDelete(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+
+  try {
+    const node = await davService.resolvePath(userId, segments);
+    if (!node) return res.status(404).type('text/plain').send('Not found');
+    await davService.deleteNode(userId, node, submittedTokens(req));
+    res.status(204).end();
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_delete', 'Failed to delete');
+  }
+}
+
+// Destination header as path segments under this mount, or a status to answer with
+function destinationSegments(req: Request): string[] | number {
+  const header = req.header('destination');
+  if (!header) return 400;
+  let pathname: string;
+  try {
+    pathname = new URL(header, `${req.protocol}://${req.get('host')}`).pathname;
+  } catch {
+    return 400;
+  }
+  if (pathname !== req.baseUrl && !pathname.startsWith(`${req.baseUrl}/`)) return 502;
+  return davService.splitDavPath(pathname.slice(req.baseUrl.length)) ?? 400;
+}
+
+async function transfer(req: Request, res: Response, mode: 'copy' | 'move') {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+  const destination = destinationSegments(req);
+  if (typeof destination === 'number') {
+    return res.status(destination).type('text/plain').send('Invalid Destination header');
+  }
+  if (destination.length === 0) return res.status(403).type('text/plain').send('Invalid destination');
+  const overwrite = (req.header('overwrite') ?? 'T').toUpperCase() !== 'F';
+
+  try {
+    const source = await davService.resolvePath(userId, segments);
+    if (!source) return res.status(404).type('text/plain').send('Not found');
+    const target = await davService.resolveTarget(userId, destination);
+    const tokens = submittedTokens(req);
+    const { replaced } = mode === 'move'
+      ? await davService.moveNode(userId, source, target, overwrite, tokens)
+      : await davService.copyNode(userId, source, target, overwrite, req.header('depth') === '0', tokens);
+    res.status(replaced ? 204 : 201).end();
+  } catch (err) {
+    await sendDavError(res, err, `drive_dav_${mode}`, mode === 'move' ? 'Failed to move' : 'Failed to copy');
+  }
+}
+
+export async function davCopy(req: Request, res: Response) {
+  return transfer(req, res, 'copy');
+}
+
+export async function davMove(req: Request, res: Response) {
+  return transfer(req, res, 'move');
+}
+
+export async function davLock(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+
+  const timeout = parseTimeoutHeader(req.header('timeout'), davService.DEFAULT_LOCK_SECONDS, davService.MAX_LOCK_SECONDS);
+  const depth = req.header('depth') === '0' ? '0' : 'infinity';
+  const tokens = submittedTokens(req);
+
+  try {
+    const lockRequest = parseLockBody(typeof req.body === 'string' ? req.body : undefined);
+    if (!lockRequest) {
+      // No body: refresh a lock named in the If header
+      const node = await davService.resolvePath(userId, segments);
+      if (!node) return res.status(404).type('text/plain').send('Not found');
+      const lock = await davService.refreshLock(userId, node, tokens, timeout);
+      return res.status(200).type(XML_TYPE).send(renderLockDiscovery(activeLocks(req, node, [lock])));
+    }
+
+    const target = await davService.resolveTarget(userId, segments);
+    const { node, lock, created } = await davService.lockNode(userId, target, lockRequest, depth, timeout, tokens);
+    res.setHeader('Lock-Token', `<${lock.token}>`);
+    res.status(created ? 201 : 200).type(XML_TYPE).send(renderLockDiscovery(activeLocks(req, node, [lock])));
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_lock', 'Failed to lock');
+  }
+}
+
+export async function davUnlock(req: Request, res: Response) {
+  const userId = davUser(req, res);
+  const segments = userId && requestSegments(req, res);
+  if (!userId || !segments) return;
+
+  const token = /^<([^>]+)>$/.exec(req.header('lock-token')?.trim() ?? '')?.[1];
+  if (!token) return res.status(400).type('text/plain').send('Lock-Token header is required');
+
+  try {
+    const node = await davService.resolvePath(userId, segments);
+    if (!node) return res.status(404).type('text/plain').send('Not found');
+    await davService.unlockNode(userId, node, token);
+    res.status(204).end();
+  } catch (err) {
+    await sendDavError(res, err, 'drive_dav_unlock', 'Failed to unlock');
+  }
+}
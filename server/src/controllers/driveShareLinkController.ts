@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { storageService } from '../services/storageService';
+import * as shareLinkService from '../services/driveShareLinkService';
+import { ShareLinkAccessError, ShareVisitor } from '../services/driveShareLinkService';
+import { DlpPolicyError } from '../services/driveDlpService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+interface JWTPayload {
+  sub?: string;
+  email?: string;
+}
+
+const buildShareUrl = (token: string) =>
+  `${process.env.NEXT_PUBLIC_APP_URL || process.env.FRONTEND_URL || 'http://localhost:3000'}/share/${token}`;
+
+// Send ShareLinkAccessError and DlpPolicyError with their status, anything else as a 500
+async function sendShareLinkError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof ShareLinkAccessError) {
+    return res.status(err.status).json({ message: err.message, code: err.code });
+  }
+  if (err instanceof DlpPolicyError) {
+    return res.status(err.status).json(err.toResponse());
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  return res.status(500).json({ message: fallbackMessage });
+}
+
+/**
+ * Visitors are anonymous; a signed-in user's bearer token is honoured only to match
+ * domain-restricted links.
+ */
+function getVisitor(req: Request): ShareVisitor {
+  let email: string | null = null;
+  const bearer = req.headers.authorization?.split(' ')[1];
+  if (bearer) {
+    try {
+      email = (jwt.verify(bearer, process.env.JWT_SECRET || '') as JWTPayload).email ?? null;
+    } catch {
+      email = null;
+    }
+  }
+  const headerToken = req.headers['x-share-access'];
+  const accessToken = typeof headerToken === 'string'
+    ? headerToken
+    : typeof req.query.access === 'string' ? req.query.access : undefined;
+
+  return {
+    accessToken,
+    email,
+    ipAddress: req.ip,
+    userAgent: req.headers['user-agent']
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Authenticated link management
+// ---------------------------------------------------------------------------
+
+// Create a share link for a file or folder
+export async function createShareLink(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const { link, item } = await shareLinkService.createShareLink(userId, req.params.itemId, req.body || {});
+    const url = buildShareUrl(link.token);
+    await logger.info('Drive share link created', {
+      operation: 'drive_share_link_create',
+      userId,
+      itemId: req.params.itemId,
+      itemType: item.type,
+      shareLinkId: link.id
+    });
+    res.status(201).json({ link: url, shareLink: { ...link, url } });
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_link_create', 'Failed to create share link');
+  }
+}
+
+// List share links of a file or folder
+export async function listShareLinks(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const links = await shareLinkService.listShareLinks(userId, req.params.itemId);
+    res.json({ links: links.map((link) => ({ ...link, url: buildShareUrl(link.token) })) });
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_link_list', 'Failed to list share links');
+  }
+}
+
+// Change a link's password, expiry, download cap or domain restrictions
+export async function updateShareLink(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const link = await shareLinkService.updateShareLink(userId, req.params.linkId, req.body || {});
+    res.json({ shareLink: { ...link, url: buildShareUrl(link.token) } });
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_link_update', 'Failed to update share link');
+  }
+}
+
+// Revoke a link; it stays listed with its access log
+export async function revokeShareLink(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    await shareLinkService.revokeShareLink(userId, req.params.linkId);
+    res.json({ revoked: true });
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_link_revoke', 'Failed to revoke share link');
+  }
+}
+
+// Access log of a link
+export async function getShareLinkActivity(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const result = await shareLinkService.listShareLinkActivity(userId, req.params.linkId);
+    res.json(result);
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_link_activity', 'Failed to load share link activity');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public access (no account required)
+// ---------------------------------------------------------------------------
+
+// Describe a shared item; folder links also list the requested folder's contents
+export async function getSharedItem(req: Request, res: Response) {
+  const visitor = getVisitor(req);
+  try {
+    const link = await shareLinkService.authorizeShareLink(req.params.token, visitor);
+    const base = {
+      itemType: link.fileId ? 'file' : 'folder',
+      allowDownload: link.allowDownload,
+      downloadsRemaining: link.maxDownloads === null ? null : Math.max(0, link.maxDownloads - link.downloadCount),
+      expiresAt: link.expiresAt
+    };
+
+    if (link.file) {
+      await shareLinkService.recordShareLinkView(link.id);
+      await shareLinkService.recordShareLinkAccess(link, { fileId: link.file.id }, 'share_link_viewed', visitor);
+      const { id, name, type, size, updatedAt } = link.file;
+      return res.json({ ...base, file: { id, name, type, size, updatedAt } });
+    }
+
+    const folderId = typeof req.query.folderId === 'string' ? req.query.folderId : undefined;
+    const contents = await shareLinkService.listSharedFolderContents(link.folderId!, folderId);
+    if (!folderId) {
+      await shareLinkService.recordShareLinkView(link.id);
+    }
+    await shareLinkService.recordShareLinkAccess(link, { folderId: contents.folder?.id }, 'share_link_viewed', visitor);
+    res.json({ ...base, rootFolder: { id: link.folder!.id, name: link.folder!.name }, ...contents });
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_public_view', 'Failed to open share link');
+  }
+}
+
+// Exchange the link password for a short-lived access token
+export async function unlockSharedItem(req: Request, res: Response) {
+  try {
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    const result = await shareLinkService.unlockShareLink(req.params.token, password, getVisitor(req));
+    res.json(result);
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_public_unlock', 'Failed to unlock share link');
+  }
+}
+
+/**
+ * Download a shared file. `?inline=1` previews images and PDFs without counting
+ * against the download cap (also on preview-only links) until the cap is used up;
+ * other types are always sent as counted attachments.
+ */
+export async function downloadSharedFile(req: Request, res: Response) {
+  const visitor = getVisitor(req);
+  try {
+    const link = await shareLinkService.authorizeShareLink(req.params.token, visitor);
+    const fileId = typeof req.query.fileId === 'string' ? req.query.fileId : undefined;
+    const file = await shareLinkService.resolveSharedFile(link, fileId);
+    const inline = (req.query.inline === '1' || req.query.inline === 'true') && shareLinkService.isPreviewableType(file.type);
+
+    if (inline) {
+      if (!shareLinkService.hasDownloadsRemaining(link)) {
+        throw new ShareLinkAccessError(410, 'download_limit_reached', 'This share link has reached its download limit');
+      }
+      await shareLinkService.recordShareLinkAccess(link, { fileId: file.id }, 'share_link_viewed', visitor);
+    } else {
+      await shareLinkService.consumeShareLinkDownload(link);
+      await shareLinkService.recordShareLinkAccess(link, { fileId: file.id }, 'share_link_downloaded', visitor);
+    }
+
+    const storagePath = file.path ?? storageService.extractPathFromUrl(file.url);
+    if (!storagePath) return res.status(404).json({ message: 'File content not found' });
+    const fileBuffer = await storageService.getFileBuffer(storagePath);
+
+    res.setHeader('Content-Type', file.type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename="${file.name}"`);
+    res.setHeader('Content-Length', fileBuffer.length.toString());
+    res.setHeader('Cache-Control', 'private, no-store');
+    // Uploaded content must never be sniffed into, or run as, a page on the API origin
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'");
+    return res.send(fileBuffer);
+  } catch (err) {
+    await sendShareLinkError(res, err, 'drive_share_public_download', 'Failed to download shared file');
+  }
+}
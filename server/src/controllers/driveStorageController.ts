@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import * as storageQuotaService from '../services/storageQuotaService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+// Storage used and remaining: always the user's personal quota, plus ?businessId= for members
+export async function getStorageUsage(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  const businessId = typeof req.query.businessId === 'string' && req.query.businessId ? req.query.businessId : null;
+
+  try {
+    if (businessId) {
+      const membership = await prisma.businessMember.findFirst({
+        where: { businessId, userId, isActive: true },
+        select: { id: true }
+      });
+      if (!membership) {
+        return res.status(403).json({ message: 'Not a member of this business' });
+      }
+    }
+
+    const summary = await storageQuotaService.getStorageSummary(userId, businessId);
+    res.json(summary);
+  } catch (err) {
+    await logger.error('Failed to load storage usage', {
+      operation: 'drive_storage_usage',
+      userId,
+      businessId: businessId ?? undefined,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error',
+        stack: err instanceof Error ? err.stack : undefined
+      }
+    });
+    res.status(500).json({ message: 'Failed to load storage usage' });
+  }
+}
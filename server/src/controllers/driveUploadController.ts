@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import * as uploadService from '../services/driveUploadService';
+import { UploadSessionError } from '../services/driveUploadService';
+import { StorageQuotaExceededError } from '../services/storageQuotaService';
+import { SharedDriveError } from '../services/sharedDriveService';
+import { getChatSocketService } from '../services/chatSocketService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+// Send UploadSessionError, SharedDriveError and StorageQuotaExceededError with their status, anything else as a 500
+async function sendUploadError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof UploadSessionError || err instanceof SharedDriveError) {
+    return res.status(err.status).json({ message: err.message, code: err.code });
+  }
+  if (err instanceof StorageQuotaExceededError) {
+    return res.status(err.status).json(err.toResponse());
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  return res.status(500).json({ message: fallbackMessage });
+}
+
+// Start a resumable upload
+export async function createUploadSession(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const session = await uploadService.createUploadSession(userId, req.body || {});
+    await logger.info('Drive upload session created', {
+      operation: 'drive_upload_session_create',
+      userId,
+      sessionId: session.id,
+      totalSize: session.totalSize,
+      chunkSize: session.chunkSize
+    });
+    res.status(201).json({ session });
+  } catch (err) {
+    await sendUploadError(res, err, 'drive_upload_session_create', 'Failed to start upload');
+  }
+}
+
+// Received ranges and missing chunk offsets, used to resume
+export async function getUploadSession(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const session = await uploadService.getUploadSession(userId, req.params.sessionId);
+    res.json({ session });
+  } catch (err) {
+    await sendUploadError(res, err, 'drive_upload_session_get', 'Failed to load upload session');
+  }
+}
+
+// Store one chunk: raw body at ?offset=, optional X-Chunk-Checksum (SHA-256 hex)
+export async function putUploadChunk(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ message: 'Chunk body must be sent as application/octet-stream' });
+  }
+  try {
+    const offset = Number(req.query.offset);
+    const checksumHeader = req.headers['x-chunk-checksum'];
+    const session = await uploadService.putChunk(
+      userId,
+      req.params.sessionId,
+      offset,
+      req.body,
+      typeof checksumHeader === 'string' ? checksumHeader : undefined
+    );
+    res.json({ session });
+  } catch (err) {
+    await sendUploadError(res, err, 'drive_upload_chunk', 'Failed to store chunk');
+  }
+}
+
+// Assemble the chunks into a Drive file
+export async function completeUploadSession(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const { file, created } = await uploadService.completeUploadSession(userId, req.params.sessionId, req.body?.checksum);
+
+    if (created) {
+      await logger.info('Drive upload session completed', {
+        operation: 'drive_upload_session_complete',
+        userId,
+        sessionId: req.params.sessionId,
+        fileId: file.id,
+        fileSize: file.size
+      });
+      try {
+        getChatSocketService().broadcastDriveEvent(userId, 'drive:item:created', {
+          itemId: file.id,
+          itemType: 'file',
+          dashboardId: file.dashboardId,
+          folderId: file.folderId,
+        });
+      } catch (socketError) {
+        await logger.error('Failed to broadcast drive:item:created event', {
+          operation: 'drive_upload_socket_broadcast',
+          error: {
+            message: socketError instanceof Error ? socketError.message : 'Unknown error',
+            stack: socketError instanceof Error ? socketError.stack : undefined
+          }
+        });
+      }
+    }
+
+    res.status(created ? 201 : 200).json({ file });
+  } catch (err) {
+    await sendUploadError(res, err, 'drive_upload_session_complete', 'Failed to finalize upload');
+  }
+}
+
+// Abandon an upload and discard its chunks
+export async function abortUploadSession(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    await uploadService.abortUploadSession(userId, req.params.sessionId);
+    res.json({ aborted: true });
+  } catch (err) {
+    await sendUploadError(res, err, 'drive_upload_session_abort', 'Failed to abort upload');
+  }
+}
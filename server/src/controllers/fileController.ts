@@ -1,11 +1,22 @@
 import { Request, Response, RequestHandler } from 'express';
 import multer, { FileFilterCallback } from 'multer';
+import { Prisma } from '@prisma/client';
 import path from 'path';
 import fs from 'fs';
 import jwt from 'jsonwebtoken';
 import { getOrCreateChatFilesFolder } from '../services/driveService';
 import { NotificationService } from '../services/notificationService';
 import { storageService } from '../services/storageService';
+import * as fileVersionService from '../services/driveFileVersionService';
+import { queueFileForIndexing } from '../services/driveContentIndexService';
+import * as filePreviewService from '../services/driveFilePreviewService';
+import { PreviewError } from '../services/driveFilePreviewService';
+import * as storageQuotaService from '../services/storageQuotaService';
+import { StorageQuotaExceededError } from '../services/storageQuotaService';
+import * as dlpService from '../services/driveDlpService';
+import { DlpPolicyError } from '../services/driveDlpService';
+import * as sharedDriveService from '../services/sharedDriveService';
+import { SharedDriveError } from '../services/sharedDriveService';
 import { prisma } from '../lib/prisma';
 import { getChatSocketService } from '../services/chatSocketService';
 import { AuthenticatedRequest } from '../middleware/auth';
@@ -92,6 +103,11 @@ export async function listFiles(req: Request, res: Response) {
       return res.status(400).json({ error: 'dashboardId must be a string' });
     }
     
+    const sharedDriveId = req.query.sharedDriveId;
+    if (sharedDriveId && typeof sharedDriveId !== 'string') {
+      return res.status(400).json({ error: 'sharedDriveId must be a string' });
+    }
+    
     const folderIdStr = folderId as string | undefined;
     const starredStr = starred as string | undefined;
     const dashboardIdStr = dashboardId as string | undefined;
@@ -113,13 +129,19 @@ export async function listFiles(req: Request, res: Response) {
     }
     
     // Use raw SQL to include order field in sorting
-    let query = `SELECT * FROM "files" WHERE "userId" = $1`;
+    let query = `SELECT * FROM "files" WHERE "userId" = $1 AND "sharedDriveId" IS NULL`;
     const params = [userId];
     let paramIndex = 2;
     
-    // Dashboard context filtering
-    // When fetching starred items, show across all dashboards (don't filter by dashboardId)
-    if (starredStr === 'true') {
+    if (typeof sharedDriveId === 'string') {
+      // Shared drive contents are listed for every member, regardless of who added them
+      if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+      await sharedDriveService.assertDriveRole(userId, sharedDriveId, 'VIEWER');
+      query = `SELECT * FROM "files" WHERE "sharedDriveId" = $1`;
+      params[0] = sharedDriveId;
+    } else if (starredStr === 'true') {
+      // Dashboard context filtering
+      // When fetching starred items, show across all dashboards (don't filter by dashboardId)
       // Show starred items from all dashboards
       await logger.debug('Starred items requested - showing across all dashboards', {
         operation: 'file_list_starred_all_dashboards'
@@ -166,12 +188,21 @@ export async function listFiles(req: Request, res: Response) {
     const filesWithFullUrls = files.map((file: Record<string, any>) => ({
       ...file,
       // Always use download endpoint for file access (handles both GCS and local storage)
-      url: `${baseUrl}/api/drive/files/${file.id}/download`
+      url: `${baseUrl}/api/drive/files/${file.id}/download`,
+      thumbnailUrl: filePreviewService.thumbnailUrlFor({
+        id: file.id,
+        name: file.name,
+        type: file.type,
+        versionNumber: file.versionNumber
+      })
     }));
     
     // Return array directly to match folders API format
     res.json(filesWithFullUrls);
   } catch (err) {
+    if (err instanceof SharedDriveError) {
+      return res.status(err.status).json({ message: err.message, code: err.code });
+    }
     await logger.error('Failed to list files', {
       operation: 'file_list_files',
       error: {
@@ -225,6 +256,18 @@ export async function uploadFile(req: RequestWithFile, res: Response) {
     }
     
     const { originalname, mimetype, size } = req.file;
+
+    // Shared drive content belongs to the drive's business, not to a dashboard
+    const sharedDriveId = await sharedDriveService.resolveTargetDrive(userId, { folderId, sharedDriveId: req.body.sharedDriveId });
+    if (sharedDriveId) dashboardId = null;
+
+    const scope = sharedDriveId
+      ? await storageQuotaService.resolveSharedDriveScope(userId, sharedDriveId)
+      : await storageQuotaService.resolveDashboardScope(userId, dashboardId);
+    await storageQuotaService.assertStorageAvailable(scope, size);
+
+    // Checksum before uploading, local storage moves the multer temp file away
+    const checksum = fileVersionService.computeChecksum(req.file);
     
     // Generate unique file path
     const fileExtension = path.extname(originalname);
@@ -267,10 +310,13 @@ export async function uploadFile(req: RequestWithFile, res: Response) {
         size,
         url: uploadResult.url,
         path: uploadResult.path,
+        checksum,
         folderId: folderId || null,
         dashboardId: dashboardId || null,
+        sharedDriveId,
       },
     });
+    await queueFileForIndexing(fileRecord.id);
 
     // Create activity record for file upload
     await prisma.activity.create({
@@ -309,6 +355,15 @@ export async function uploadFile(req: RequestWithFile, res: Response) {
 
     res.status(201).json({ file: fileRecord });
   } catch (err) {
+    if (err instanceof StorageQuotaExceededError || err instanceof SharedDriveError) {
+      if (req.file?.path && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+      if (err instanceof SharedDriveError) {
+        return res.status(err.status).json({ message: err.message, code: err.code });
+      }
+      return res.status(err.status).json(err.toResponse());
+    }
     await logger.error('Failed to upload file', {
       operation: 'file_upload',
       error: {
@@ -616,7 +671,7 @@ export async function downloadFile(req: Request, res: Response) {
   }
 }
 
-export async function updateFile(req: Request, res: Response) {
+export async function updateFile(req: RequestWithFile, res: Response) {
   if (!hasUserId(req.user)) {
     res.sendStatus(401);
     return;
@@ -630,29 +685,55 @@ export async function updateFile(req: Request, res: Response) {
     // Get the original file to compare changes
     const originalFile = await prisma.file.findUnique({ where: { id } });
     if (!originalFile) return res.status(404).json({ message: 'File not found' });
-    
-    const file = await prisma.file.updateMany({
-      where: { id, userId },
-      data: { name, folderId },
-    });
-    if (file.count === 0) return res.status(404).json({ message: 'File not found' });
-    const updated = await prisma.file.findUnique({ where: { id } });
+    if (folderId !== undefined) {
+      await sharedDriveService.assertSameDrive(originalFile.sharedDriveId, folderId);
+    }
 
-    // Create activity record for file update
-    await prisma.activity.create({
-      data: {
-        type: 'edit',
-        userId,
-        fileId: id,
-        details: {
-          action: 'file_updated',
-          originalName: originalFile.name,
-          newName: name || originalFile.name,
-          originalFolderId: originalFile.folderId,
-          newFolderId: folderId,
+    // A multipart upload overwrites the content; the previous content is kept as a version
+    if (req.file) {
+      const replaced = await fileVersionService.replaceFileContent(id, userId, req.file);
+      if (replaced.versioned) {
+        await prisma.activity.create({
+          data: {
+            type: 'edit',
+            userId,
+            fileId: id,
+            details: {
+              action: 'file_version_uploaded',
+              fileName: originalFile.name,
+              fileSize: replaced.file.size,
+              fileType: replaced.file.type,
+              previousVersionNumber: originalFile.versionNumber,
+            },
+          },
+        });
+      }
+    }
+
+    if (name !== undefined || folderId !== undefined) {
+      const file = await prisma.file.updateMany({
+        where: { id, ...editableBy(userId) },
+        data: { name, folderId },
+      });
+      if (file.count === 0) return res.status(404).json({ message: 'File not found' });
+
+      // Create activity record for file update
+      await prisma.activity.create({
+        data: {
+          type: 'edit',
+          userId,
+          fileId: id,
+          details: {
+            action: 'file_updated',
+            originalName: originalFile.name,
+            newName: name || originalFile.name,
+            originalFolderId: originalFile.folderId,
+            newFolderId: folderId,
+          },
         },
-      },
-    });
+      });
+    }
+    const updated = await prisma.file.findUnique({ where: { id } });
 
     // Broadcast real-time drive event to owner
     try {
@@ -676,6 +757,19 @@ export async function updateFile(req: Request, res: Response) {
 
     res.json({ file: updated });
   } catch (err) {
+    if (err instanceof StorageQuotaExceededError) {
+      return res.status(err.status).json(err.toResponse());
+    }
+    if (err instanceof SharedDriveError) {
+      return res.status(err.status).json({ message: err.message, code: err.code });
+    }
+    await logger.error('Failed to update file', {
+      operation: 'file_update',
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error',
+        stack: err instanceof Error ? err.stack : undefined
+      }
+    });
     res.status(500).json({ message: 'Failed to update file' });
   }
 }
@@ -695,7 +789,7 @@ export async function deleteFile(req: Request, res: Response) {
     if (!fileToDelete) return res.status(404).json({ message: 'File not found' });
     
     const file = await prisma.file.updateMany({
-      where: { id, userId, trashedAt: null },
+      where: { id, trashedAt: null, ...editableBy(userId) },
       data: { trashedAt: new Date() },
     });
     if (file.count === 0) return res.status(404).json({ message: 'File not found' });
@@ -771,7 +865,7 @@ export async function grantFilePermission(req: Request, res: Response) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
     const { id } = req.params; // file id
-    const { userId, canRead, canWrite } = req.body;
+    const { userId, canRead, canWrite, acknowledgeDlpWarning } = req.body;
     
     // Only owner can grant permissions
     const file = await prisma.file.findUnique({ 
@@ -788,6 +882,13 @@ export async function grantFilePermission(req: Request, res: Response) {
     });
     
     if (!file || file.userId !== ownerId) return res.status(403).json({ message: 'Forbidden' });
+
+    await dlpService.assertShareAllowed({
+      actorId: ownerId,
+      item: { type: 'file', id },
+      target: { type: 'user', userId },
+      acknowledged: acknowledgeDlpWarning === true
+    });
     
     const permission = await prisma.filePermission.upsert({
       where: { fileId_userId: { fileId: id, userId } },
@@ -826,6 +927,9 @@ export async function grantFilePermission(req: Request, res: Response) {
 
     res.status(201).json({ permission });
   } catch (err) {
+    if (err instanceof DlpPolicyError) {
+      return res.status(err.status).json(err.toResponse());
+    }
     res.status(500).json({ message: 'Failed to grant permission' });
   }
 }
@@ -921,11 +1025,15 @@ export async function revokeFilePermission(req: Request, res: Response) {
   }
 }
 
-// Helper: check if user can read a file
+// Helper: check if user can read a file. In a shared drive the drive role replaces ownership.
 async function canReadFile(userId: string, fileId: string): Promise<boolean> {
   const file = await prisma.file.findUnique({ where: { id: fileId } });
   if (!file) return false;
-  if (file.userId === userId) return true;
+  if (file.sharedDriveId) {
+    if (await sharedDriveService.hasDriveRole(userId, file.sharedDriveId, 'VIEWER')) return true;
+  } else if (file.userId === userId) {
+    return true;
+  }
   const perm = await prisma.filePermission.findFirst({ where: { fileId, userId, canRead: true } });
   return !!perm;
 }
@@ -934,11 +1042,20 @@ async function canReadFile(userId: string, fileId: string): Promise<boolean> {
 async function canWriteFile(userId: string, fileId: string): Promise<boolean> {
   const file = await prisma.file.findUnique({ where: { id: fileId } });
   if (!file) return false;
-  if (file.userId === userId) return true;
+  if (file.sharedDriveId) {
+    if (await sharedDriveService.hasDriveRole(userId, file.sharedDriveId, 'CONTRIBUTOR')) return true;
+  } else if (file.userId === userId) {
+    return true;
+  }
   const perm = await prisma.filePermission.findFirst({ where: { fileId, userId, canWrite: true } });
   return !!perm;
 }
 
+// Shared drive items are changed by any contributor, personal ones only by their owner
+function editableBy(userId: string): Prisma.FileWhereInput {
+  return { OR: [{ userId, sharedDriveId: null }, { sharedDriveId: { not: null } }] };
+}
+
 // List trashed files for the user
 export async function listTrashedFiles(req: Request, res: Response) {
   if (!hasUserId(req.user)) {
@@ -1003,6 +1120,10 @@ export async function hardDeleteFile(req: Request, res: Response) {
       return res.status(404).json({ message: 'File not found or not trashed' });
     }
     
+    // Delete prior versions and cached previews from storage before the rows cascade away
+    await fileVersionService.purgeFileVersions(id);
+    await filePreviewService.deleteFilePreviews(id);
+
     // Delete file from storage if path exists
     if (fileToDelete.path) {
       const deleteResult = await storageService.deleteFile(fileToDelete.path);
@@ -1039,6 +1160,276 @@ export async function hardDeleteFile(req: Request, res: Response) {
   }
 } 
 
+// Thumbnail image of a file (?size=small|medium|large), rendered on first request
+export async function getFileThumbnail(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id } = req.params;
+    if (!(await canReadFile(userId, id))) return res.status(403).json({ message: 'Forbidden' });
+    const variant = filePreviewService.parsePreviewVariant(req.query.size);
+    const { buffer, contentType } = await filePreviewService.getThumbnail(id, variant);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Length', buffer.length.toString());
+    // URLs carry the content version, so a cached thumbnail never goes stale
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    return res.send(buffer);
+  } catch (err) {
+    if (err instanceof PreviewError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    await logger.error('Failed to get file thumbnail', {
+      operation: 'file_thumbnail',
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error',
+        stack: err instanceof Error ? err.stack : undefined
+      }
+    });
+    res.status(500).json({ message: 'Failed to get file thumbnail' });
+  }
+}
+
+// Preview description of a file: thumbnail URLs and, for documents, the opening text
+export async function getFilePreview(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id } = req.params;
+    if (!(await canReadFile(userId, id))) return res.status(403).json({ message: 'Forbidden' });
+    const preview = await filePreviewService.getPreviewInfo(id);
+    res.json({ preview });
+  } catch (err) {
+    if (err instanceof PreviewError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    await logger.error('Failed to get file preview', {
+      operation: 'file_preview',
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error',
+        stack: err instanceof Error ? err.stack : undefined
+      }
+    });
+    res.status(500).json({ message: 'Failed to get file preview' });
+  }
+}
+
+// Rescan a file against the classification rules and return its sensitivity
+export async function scanFileForDlp(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id } = req.params;
+    if (!(await canWriteFile(userId, id))) return res.status(403).json({ message: 'Forbidden' });
+    const file = await prisma.file.findUnique({ where: { id }, select: { userId: true, dashboardId: true, sharedDriveId: true } });
+    if (!file || !(await dlpService.isDlpEnabledForItem(file))) {
+      return res.status(403).json({ message: 'Data loss prevention is not enabled', code: 'feature_unavailable' });
+    }
+    const scan = await dlpService.scanFile(id);
+    if (!scan) {
+      return res.status(422).json({ message: 'This file type cannot be scanned', code: 'unsupported' });
+    }
+    const classification = await prisma.dataClassification.findUnique({
+      where: { resourceType_resourceId: { resourceType: 'file', resourceId: id } }
+    });
+    res.json({ scan, classification });
+  } catch (err) {
+    await logger.error('Failed to scan file', {
+      operation: 'file_dlp_scan',
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error',
+        stack: err instanceof Error ? err.stack : undefined
+      }
+    });
+    res.status(500).json({ message: 'Failed to scan file' });
+  }
+}
+
+// Map version service errors to HTTP status codes
+function fileVersionErrorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('must be') || message.includes('unavailable')) return 400;
+  return 500;
+}
+
+// List the version history of a file, current content first
+export async function listFileVersions(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id } = req.params;
+    if (!(await canReadFile(userId, id))) return res.status(403).json({ message: 'Forbidden' });
+    const history = await fileVersionService.listFileVersions(id);
+    res.json(history);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await logger.error('Failed to list file versions', {
+      operation: 'file_version_list',
+      error: { message, stack: err instanceof Error ? err.stack : undefined }
+    });
+    res.status(fileVersionErrorStatus(message)).json({ message: 'Failed to list file versions', error: message });
+  }
+}
+
+// Download the content of a prior version
+export async function downloadFileVersion(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id, versionId } = req.params;
+    if (!(await canReadFile(userId, id))) return res.status(403).json({ message: 'Forbidden' });
+    const version = await fileVersionService.getFileVersion(id, versionId);
+    const storagePath = version.path ?? storageService.extractPathFromUrl(version.url);
+    if (!storagePath) return res.status(404).json({ message: 'File version content not found' });
+
+    const fileBuffer = await storageService.getFileBuffer(storagePath);
+    res.setHeader('Content-Type', version.type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${version.name}"`);
+    res.setHeader('Content-Length', fileBuffer.length.toString());
+    return res.send(fileBuffer);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await logger.error('Failed to download file version', {
+      operation: 'file_version_download',
+      error: { message, stack: err instanceof Error ? err.stack : undefined }
+    });
+    res.status(fileVersionErrorStatus(message)).json({ message: 'Failed to download file version', error: message });
+  }
+}
+
+// Make a prior version the current content
+export async function restoreFileVersion(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id, versionId } = req.params;
+    if (!(await canWriteFile(userId, id))) return res.status(403).json({ message: 'Forbidden' });
+    const { file, restoredVersionNumber } = await fileVersionService.restoreFileVersion(id, versionId, userId);
+
+    await prisma.activity.create({
+      data: {
+        type: 'edit',
+        userId,
+        fileId: id,
+        details: {
+          action: 'file_version_restored',
+          fileName: file.name,
+          fileSize: file.size,
+          restoredVersionNumber,
+        },
+      },
+    });
+
+    try {
+      const socketService = getChatSocketService();
+      socketService.broadcastDriveEvent(file.userId, 'drive:item:updated', {
+        itemId: id,
+        itemType: 'file',
+        dashboardId: file.dashboardId,
+        folderId: file.folderId,
+      });
+    } catch (socketError) {
+      await logger.error('Failed to broadcast drive:item:updated event', {
+        operation: 'file_version_restore_socket_broadcast',
+        error: {
+          message: socketError instanceof Error ? socketError.message : 'Unknown error',
+          stack: socketError instanceof Error ? socketError.stack : undefined
+        }
+      });
+    }
+
+    res.json({ file, restoredVersionNumber });
+  } catch (err) {
+    if (err instanceof StorageQuotaExceededError) {
+      return res.status(err.status).json(err.toResponse());
+    }
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await logger.error('Failed to restore file version', {
+      operation: 'file_version_restore',
+      error: { message, stack: err instanceof Error ? err.stack : undefined }
+    });
+    res.status(fileVersionErrorStatus(message)).json({ message: 'Failed to restore file version', error: message });
+  }
+}
+
+// Permanently delete a prior version and its stored content
+export async function deleteFileVersion(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id, versionId } = req.params;
+    if (!(await canWriteFile(userId, id))) return res.status(403).json({ message: 'Forbidden' });
+    const version = await fileVersionService.deleteFileVersion(id, versionId);
+
+    await prisma.activity.create({
+      data: {
+        type: 'delete',
+        userId,
+        fileId: id,
+        details: {
+          action: 'file_version_deleted',
+          fileName: version.name,
+          fileSize: version.size,
+          versionNumber: version.versionNumber,
+        },
+      },
+    });
+
+    res.json({ deleted: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await logger.error('Failed to delete file version', {
+      operation: 'file_version_delete',
+      error: { message, stack: err instanceof Error ? err.stack : undefined }
+    });
+    res.status(fileVersionErrorStatus(message)).json({ message: 'Failed to delete file version', error: message });
+  }
+}
+
+// Set how many prior versions a file keeps (owner only)
+export async function updateFileVersionRetention(req: Request, res: Response) {
+  if (!hasUserId(req.user)) {
+    res.sendStatus(401);
+    return;
+  }
+  try {
+    const userId = req.user.id;
+    const { id } = req.params;
+    const { keepLast = null, keepDays = null } = req.body;
+    const file = await prisma.file.findUnique({ where: { id } });
+    if (!file || file.userId !== userId) return res.status(403).json({ message: 'Forbidden' });
+    const history = await fileVersionService.updateVersionRetention(id, keepLast, keepDays);
+    res.json(history);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await logger.error('Failed to update file version retention', {
+      operation: 'file_version_retention_update',
+      error: { message, stack: err instanceof Error ? err.stack : undefined }
+    });
+    res.status(fileVersionErrorStatus(message)).json({ message: 'Failed to update version retention', error: message });
+  }
+}
+
 // Toggle the starred status of a file
 export async function toggleFileStarred(req: Request, res: Response) {
   const { id } = req.params;
@@ -1099,6 +1490,7 @@ export async function getSharedItems(req: Request, res: Response) {
       createdAt: Date;
       updatedAt: Date;
       order: number;
+      versionNumber: number;
       user: { id: string; name: string | null; email: string };
       permissions: Array<{ canRead: boolean; canWrite: boolean }>;
     }> = [];
@@ -1194,7 +1586,8 @@ export async function getSharedItems(req: Request, res: Response) {
     // Transform the data to include permission information
     const transformedFiles = sharedFiles.map(file => ({
       ...file,
-      permission: file.permissions[0]?.canWrite ? 'edit' : 'view'
+      permission: file.permissions[0]?.canWrite ? 'edit' : 'view',
+      thumbnailUrl: filePreviewService.thumbnailUrlFor(file)
     }));
 
     const transformedFolders = sharedFolders.map(folder => ({
@@ -1273,19 +1666,26 @@ export async function moveFile(req: Request, res: Response) {
   }
   try {
     const userId = (req as AuthenticatedRequest).user?.id;
+    if (!userId) return res.status(401).json({ message: 'Unauthorized' });
     const { id } = req.params;
     const { targetFolderId } = req.body;
 
-    // Verify the file belongs to the user
+    // Verify the file belongs to the user, or to a shared drive they contribute to
     const file = await prisma.file.findUnique({ where: { id } });
-    if (!file || file.userId !== userId) {
+    const canMove = file && (file.sharedDriveId
+      ? await sharedDriveService.hasDriveRole(req.user.id, file.sharedDriveId, 'CONTRIBUTOR')
+      : file.userId === userId);
+    if (!file || !canMove) {
       return res.status(404).json({ message: 'File not found or access denied' });
     }
 
-    // Verify the target folder exists and belongs to the user (if specified)
+    // Verify the target folder exists and belongs to the user (if specified); shared drive files stay in their drive
     if (targetFolderId) {
       const targetFolder = await prisma.folder.findUnique({ where: { id: targetFolderId } });
-      if (!targetFolder || targetFolder.userId !== userId) {
+      const sameDrive = targetFolder && (file.sharedDriveId
+        ? targetFolder.sharedDriveId === file.sharedDriveId
+        : targetFolder.userId === userId && !targetFolder.sharedDriveId);
+      if (!sameDrive) {
         return res.status(400).json({ message: 'Target folder not found or access denied' });
       }
     }
@@ -5,6 +5,8 @@ import { canReadFolder, canWriteFolder } from './folderPermissionController';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { getChatSocketService } from '../services/chatSocketService';
 import { Prisma } from '@prisma/client';
+import * as sharedDriveService from '../services/sharedDriveService';
+import { SharedDriveError } from '../services/sharedDriveService';
 
 // List folders with dashboard context support
 export async function listFolders(req: Request, res: Response) {
@@ -41,6 +43,11 @@ export async function listFolders(req: Request, res: Response) {
       return res.status(400).json({ error: 'dashboardId must be a string' });
     }
     
+    const sharedDriveId = req.query.sharedDriveId;
+    if (sharedDriveId && typeof sharedDriveId !== 'string') {
+      return res.status(400).json({ error: 'sharedDriveId must be a string' });
+    }
+    
     const parentIdStr = parentId as string | undefined;
     const starredStr = starred as string | undefined;
     const dashboardIdStr = dashboardId as string | undefined;
@@ -49,11 +56,17 @@ export async function listFolders(req: Request, res: Response) {
     // Start with folders owned by the user (we'll add shared folders later if needed)
     const whereConditions: Prisma.FolderWhereInput = {
       userId,
+      sharedDriveId: null,
       trashedAt: null,
     };
 
-    // Dashboard context filtering
-    if (starredStr === 'true') {
+    if (typeof sharedDriveId === 'string') {
+      // Shared drive contents are listed for every member, regardless of who added them
+      await sharedDriveService.assertDriveRole(userId, sharedDriveId, 'VIEWER');
+      delete whereConditions.userId;
+      whereConditions.sharedDriveId = sharedDriveId;
+    } else if (starredStr === 'true') {
+      // Dashboard context filtering
       whereConditions.starred = true;
       // Don't filter by dashboardId when fetching starred items - show across all dashboards
     } else {
@@ -96,7 +109,7 @@ export async function listFolders(req: Request, res: Response) {
         const childCount = await prisma.folder.count({
           where: {
             parentId: folder.id,
-            userId: folder.userId,
+            ...(folder.sharedDriveId ? {} : { userId: folder.userId }),
             trashedAt: null,
           },
         });
@@ -109,6 +122,9 @@ export async function listFolders(req: Request, res: Response) {
     
     res.json(foldersWithChildren);
     } catch (err: unknown) {
+    if (err instanceof SharedDriveError) {
+      return res.status(err.status).json({ message: err.message, code: err.code });
+    }
     const error = err as Error;
     await logger.error('Error in listFolders', {
       operation: 'listFolders',
@@ -121,7 +137,7 @@ export async function listFolders(req: Request, res: Response) {
 export async function createFolder(req: Request, res: Response) {
   try {
     const userId = (req as AuthenticatedRequest).user?.id || (req.user as any).id || (req.user as any).sub;
-    const { name, parentId, dashboardId } = req.body;
+    const { name, parentId, dashboardId, sharedDriveId: requestedDriveId } = req.body;
     if (!name) return res.status(400).json({ message: 'Name is required' });
     
     // If creating in a parent folder, check write permissions
@@ -132,8 +148,17 @@ export async function createFolder(req: Request, res: Response) {
       }
     }
     
+    // Folders in a shared drive belong to the drive, not to a dashboard
+    const sharedDriveId = await sharedDriveService.resolveTargetDrive(userId, { folderId: parentId, sharedDriveId: requestedDriveId });
+    
     const folder = await prisma.folder.create({
-      data: { userId, name, parentId: parentId || null, dashboardId: dashboardId || null },
+      data: {
+        userId,
+        name,
+        parentId: parentId || null,
+        dashboardId: sharedDriveId ? null : dashboardId || null,
+        sharedDriveId,
+      },
     });
 
     // Create activity record for folder creation
@@ -163,6 +188,9 @@ export async function createFolder(req: Request, res: Response) {
 
     res.status(201).json({ folder });
   } catch (err: unknown) {
+    if (err instanceof SharedDriveError) {
+      return res.status(err.status).json({ message: err.message, code: err.code });
+    }
     const error = err as Error;
     await logger.error('Error in createFolder', {
       operation: 'createFolder',
@@ -196,6 +224,9 @@ export async function updateFolder(req: Request, res: Response) {
     // Get folder before update to check if parent changed
     const folderBeforeUpdate = await prisma.folder.findUnique({ where: { id } });
     if (!folderBeforeUpdate) return res.status(404).json({ message: 'Folder not found' });
+    if (parentId !== undefined) {
+      await sharedDriveService.assertSameDrive(folderBeforeUpdate.sharedDriveId, parentId);
+    }
     
     const folder = await prisma.folder.updateMany({
       where: { id },
@@ -238,6 +269,9 @@ export async function updateFolder(req: Request, res: Response) {
     
     res.json({ folder: updated });
   } catch (err: unknown) {
+    if (err instanceof SharedDriveError) {
+      return res.status(err.status).json({ message: err.message, code: err.code });
+    }
     const error = err as Error;
     await logger.error('Error in updateFolder', {
       operation: 'updateFolder',
@@ -349,7 +383,8 @@ export async function getRecentActivity(req: Request, res: Response) {
   try {
     const userId = (req.user as any).id || (req.user as any).sub;
     const activities = await prisma.activity.findMany({
-      where: { userId },
+      // Share link entries without a file belong to the link's own access log
+      where: { userId, fileId: { not: null } },
       orderBy: { timestamp: 'desc' },
       take: 20,
       include: {
@@ -464,6 +499,9 @@ export async function moveFolder(req: Request, res: Response) {
       return res.status(404).json({ message: 'Folder not found' });
     }
 
+    // Shared drive folders stay in their drive, personal ones out of shared drives
+    await sharedDriveService.assertSameDrive(folder.sharedDriveId, targetParentId);
+
     // Verify the target parent folder exists and user has write permissions (if specified)
     if (targetParentId) {
       const canWriteParent = await canWriteFolder(userId, targetParentId);
@@ -522,6 +560,9 @@ export async function moveFolder(req: Request, res: Response) {
 
     res.json({ folder: updatedFolder, message: 'Folder moved successfully' });
   } catch (err: unknown) {
+    if (err instanceof SharedDriveError) {
+      return res.status(err.status).json({ message: err.message, code: err.code });
+    }
     const error = err as Error;
     await logger.error('Error in moveFolder', {
       operation: 'moveFolder',
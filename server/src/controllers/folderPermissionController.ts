@@ -3,6 +3,9 @@ import { prisma } from '../lib/prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { NotificationService } from '../services/notificationService';
 import { logger } from '../lib/logger';
+import * as dlpService from '../services/driveDlpService';
+import { DlpPolicyError } from '../services/driveDlpService';
+import * as sharedDriveService from '../services/sharedDriveService';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function hasUserId(user: any): user is { id: string } {
@@ -53,7 +56,7 @@ export async function grantFolderPermission(req: Request, res: Response) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
     const { id } = req.params; // folder id
-    const { userId, canRead, canWrite } = req.body;
+    const { userId, canRead, canWrite, acknowledgeDlpWarning } = req.body;
     
     // Only owner can grant permissions
     const folder = await prisma.folder.findUnique({ 
@@ -72,6 +75,13 @@ export async function grantFolderPermission(req: Request, res: Response) {
     if (!folder || folder.userId !== ownerId) {
       return res.status(403).json({ message: 'Forbidden' });
     }
+
+    await dlpService.assertShareAllowed({
+      actorId: ownerId,
+      item: { type: 'folder', id },
+      target: { type: 'user', userId },
+      acknowledged: acknowledgeDlpWarning === true
+    });
     
     const permission = await prisma.folderPermission.upsert({
       where: { folderId_userId: { folderId: id, userId } },
@@ -110,6 +120,9 @@ export async function grantFolderPermission(req: Request, res: Response) {
 
     res.status(201).json({ permission });
   } catch (err: unknown) {
+    if (err instanceof DlpPolicyError) {
+      return res.status(err.status).json(err.toResponse());
+    }
     const error = err as Error;
     await logger.error('Failed to grant folder permission', {
       operation: 'folder_grant_permission',
@@ -235,11 +248,15 @@ export async function revokeFolderPermission(req: Request, res: Response) {
   }
 }
 
-// Helper: check if user can read a folder
+// Helper: check if user can read a folder. In a shared drive the drive role replaces ownership.
 export async function canReadFolder(userId: string, folderId: string): Promise<boolean> {
   const folder = await prisma.folder.findUnique({ where: { id: folderId } });
   if (!folder) return false;
-  if (folder.userId === userId) return true;
+  if (folder.sharedDriveId) {
+    if (await sharedDriveService.hasDriveRole(userId, folder.sharedDriveId, 'VIEWER')) return true;
+  } else if (folder.userId === userId) {
+    return true;
+  }
   const perm = await prisma.folderPermission.findFirst({ 
     where: { folderId, userId, canRead: true } 
   });
@@ -250,7 +267,11 @@ export async function canReadFolder(userId: string, folderId: string): Promise<b
 export async function canWriteFolder(userId: string, folderId: string): Promise<boolean> {
   const folder = await prisma.folder.findUnique({ where: { id: folderId } });
   if (!folder) return false;
-  if (folder.userId === userId) return true;
+  if (folder.sharedDriveId) {
+    if (await sharedDriveService.hasDriveRole(userId, folder.sharedDriveId, 'CONTRIBUTOR')) return true;
+  } else if (folder.userId === userId) {
+    return true;
+  }
   const perm = await prisma.folderPermission.findFirst({ 
     where: { folderId, userId, canWrite: true } 
   });
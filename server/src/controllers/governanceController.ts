@@ -324,15 +324,21 @@ export const getPolicyViolations = async (req: Request, res: Response) => {
 
     const skip = (Number(page) - 1) * Number(limit);
 
-    // Note: PolicyViolation model doesn't exist yet, so we'll return empty data
-    // This will be implemented when the model is added to the schema
-    const violations: any[] = [];
-    const total = 0;
+    const [rows, total] = await Promise.all([
+      prisma.policyViolation.findMany({
+        where,
+        include: { policy: { select: { name: true } } },
+        orderBy: { detectedAt: 'desc' },
+        skip,
+        take: Number(limit)
+      }),
+      prisma.policyViolation.count({ where })
+    ]);
 
     res.json({
       success: true,
       data: {
-        violations,
+        violations: rows.map(toViolationResponse),
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -347,6 +353,38 @@ export const getPolicyViolations = async (req: Request, res: Response) => {
   }
 };
 
+// Shape a violation row the way the governance dashboard lists it
+function toViolationResponse(violation: {
+  id: string;
+  policyId: string;
+  policy: { name: string };
+  resourceType: string;
+  resourceId: string;
+  violationType: string;
+  severity: string;
+  message: string;
+  detectedAt: Date;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+  resolutionNotes: string | null;
+}) {
+  return {
+    id: violation.id,
+    policyId: violation.policyId,
+    policyName: violation.policy.name,
+    resourceType: violation.resourceType,
+    resourceId: violation.resourceId,
+    violationType: violation.violationType,
+    severity: violation.severity,
+    description: violation.message,
+    detectedAt: violation.detectedAt,
+    status: violation.resolvedAt ? 'resolved' : 'open',
+    resolutionNotes: violation.resolutionNotes ?? undefined,
+    resolvedAt: violation.resolvedAt ?? undefined,
+    resolvedBy: violation.resolvedBy ?? undefined
+  };
+}
+
 // Resolve a policy violation
 export const resolvePolicyViolation = async (req: Request, res: Response) => {
   try {
@@ -363,18 +401,24 @@ export const resolvePolicyViolation = async (req: Request, res: Response) => {
     const { id } = req.params;
     const { resolutionNotes } = req.body;
 
-    // Note: PolicyViolation model doesn't exist yet, so we'll return a mock response
-    // This will be implemented when the model is added to the schema
-    const violation = {
-      id,
-      resolvedAt: new Date(),
-      resolvedBy: user.id,
-      resolutionNotes
-    };
+    const existing = await prisma.policyViolation.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Policy violation not found' });
+    }
+
+    const violation = await prisma.policyViolation.update({
+      where: { id },
+      data: {
+        resolvedAt: new Date(),
+        resolvedBy: user.id,
+        resolutionNotes: typeof resolutionNotes === 'string' ? resolutionNotes : null
+      },
+      include: { policy: { select: { name: true } } }
+    });
 
     res.json({
       success: true,
-      data: violation
+      data: toViolationResponse(violation)
     });
   } catch (error) {
     console.error('Error resolving policy violation:', error);
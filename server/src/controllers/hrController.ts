@@ -12,10 +12,28 @@ import {
   AttendanceExceptionStatus,
   AttendanceMethod,
   AttendanceRecordStatus,
+  BenefitBeneficiaryDesignation,
+  BenefitCoverageLevel,
+  BenefitDependentRelationship,
+  BenefitEnrollmentStatus,
+  BenefitLifeEventStatus,
+  BenefitLifeEventType,
+  BenefitPlanType,
   EmploymentStatus,
   OnboardingTaskOwnerType,
   OnboardingTaskStatus,
   OnboardingTaskType,
+  InterviewStatus,
+  JobApplicationStatus,
+  JobRequisitionStatus,
+  PayType,
+  PayrollLineCalculation,
+  PayrollLineCategory,
+  PerformanceGoalStatus,
+  PerformanceGoalType,
+  PerformanceReviewStatus,
+  PerformanceReviewerType,
+  RecruitmentStageType,
   TimeOffStatus,
   TimeOffType
 } from '@prisma/client';
@@ -46,14 +64,116 @@ import {
   startOnboardingJourney as startOnboardingJourneyService,
   upsertOnboardingTemplate as upsertOnboardingTemplateService
 } from '../services/hrOnboardingService';
+import {
+  archivePayrollLine,
+  calculatePayRun as calculatePayRunService,
+  createNextPayPeriod,
+  createPayPeriod as createPayPeriodService,
+  createPayRun as createPayRunService,
+  finalizePayRun as finalizePayRunService,
+  getPayrollDashboard as getPayrollDashboardService,
+  getPayRun as getPayRunService,
+  getPayStubForEmployee,
+  listPayPeriods,
+  listPayRuns,
+  listPayStubsForEmployee,
+  listPayrollLines,
+  renderPayStubPdf,
+  upsertPayrollLine,
+  voidPayRun as voidPayRunService
+} from '../services/hrPayrollService';
+import {
+  archiveRecruitmentStage,
+  completeHire,
+  createJobApplication as createJobApplicationService,
+  getApplicationResume,
+  getJobApplication as getJobApplicationService,
+  getJobRequisition as getJobRequisitionService,
+  getPublicJobPosting as getPublicJobPostingService,
+  getRecruitmentDashboard as getRecruitmentDashboardService,
+  listJobApplications,
+  listJobRequisitions,
+  listPublicJobPostings,
+  listRecruitmentStages,
+  moveApplicationToStage,
+  prepareHire,
+  rejectJobApplication as rejectJobApplicationService,
+  scheduleInterview as scheduleInterviewService,
+  updateInterview as updateInterviewService,
+  upsertJobRequisition,
+  upsertRecruitmentStage
+} from '../services/hrRecruitmentService';
+import {
+  addPeerReviewers,
+  calibrateReview,
+  closeReviewCycle,
+  deleteGoal,
+  finalizeReview,
+  getCalibrationReport as getCalibrationReportService,
+  getEmployeePerformanceRecord,
+  getPerformanceDashboard as getPerformanceDashboardService,
+  getReview,
+  getReviewCycle,
+  getReviewerSubmission,
+  launchReviewCycle,
+  listCompletedReviewsForEmployee,
+  listCycleReviews,
+  listGoals,
+  listQuestionnaires,
+  listRatingScales,
+  listReviewCycles,
+  listReviewerTasks,
+  listTeamReviewStatus,
+  saveReviewerSubmission,
+  upsertGoal,
+  upsertQuestionnaire,
+  upsertRatingScale,
+  upsertReviewCycle
+} from '../services/hrPerformanceService';
+import {
+  archiveBenefitPlan,
+  buildBenefitsCensus,
+  endEnrollment,
+  getBenefitsDashboard as getBenefitsDashboardService,
+  getEmployeeBenefitsOverview,
+  listBeneficiaries,
+  listBenefitPlans,
+  listDependents,
+  listEnrollments,
+  listEnrollmentWindows,
+  listLifeEvents,
+  removeDependent,
+  replaceBeneficiaries,
+  reportLifeEvent,
+  reviewLifeEvent,
+  submitElections,
+  upsertBenefitPlan,
+  upsertDependent,
+  upsertEnrollmentWindow
+} from '../services/hrBenefitsService';
 import {
   getOnboardingAnalytics,
   getAttendanceAnalytics,
   getTimeOffAnalytics
 } from '../services/hrAnalyticsService';
+import {
+  createKioskDevice,
+  deactivateKioskDevice,
+  getKioskPunchPhoto,
+  getKioskSession,
+  listKioskCredentials,
+  listKioskDevices,
+  listKioskPunches,
+  rotateKioskDeviceToken,
+  setKioskCredential,
+  submitKioskPunches,
+  updateKioskDevice
+} from '../services/hrAttendanceKioskService';
 import { NotificationService } from '../services/notificationService';
 import { ensureBusinessDashboardForUser } from '../services/dashboardService';
 import { ensureEmployeeDocumentsFolder } from '../services/driveService';
+import { StorageQuotaExceededError } from '../services/storageQuotaService';
+import { resolveTransferDestination, transferBusinessFiles, SharedDriveError } from '../services/sharedDriveService';
 import { getBusinessHRFeatures } from '../middleware/hrFeatureGating';
 
 // ============================================================================
@@ -69,7 +189,11 @@ const employeeUpdateSchema = z.object({
   employeeType: employeeTypeEnum.optional(),
   workLocation: z.string().max(255, 'Work location must be 255 characters or less').optional(),
   emergencyContact: jsonFieldInputSchema,
-  personalInfo: jsonFieldInputSchema
+  personalInfo: jsonFieldInputSchema,
+  payType: z.nativeEnum(PayType).nullable().optional(),
+  payRate: z.number().nonnegative().max(100_000_000).nullable().optional(),
+  payCurrency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  overtimeExempt: z.boolean().optional()
 }).refine((data) => {
   // At least one field must be provided
   return Object.keys(data).some((key) => data[key as keyof typeof data] !== undefined);
@@ -81,13 +205,22 @@ const employeeCreateSchema = z.object({
   employeeType: employeeTypeEnum.optional(),
   workLocation: z.string().max(255, 'Work location must be 255 characters or less').optional(),
   emergencyContact: jsonFieldInputSchema,
-  personalInfo: jsonFieldInputSchema
+  personalInfo: jsonFieldInputSchema,
+  payType: z.nativeEnum(PayType).nullable().optional(),
+  payRate: z.number().nonnegative().max(100_000_000).nullable().optional(),
+  payCurrency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  overtimeExempt: z.boolean().optional()
 });
 
 const employeeTerminationSchema = z.object({
   date: z.string().datetime({ offset: true }).optional(),
   reason: z.string().max(255, 'Reason must be 255 characters or less').optional(),
-  notes: jsonFieldInputSchema
+  notes: jsonFieldInputSchema,
+  // Where the employee's business Drive files go; left in place when omitted
+  driveTransfer: z.discriminatedUnion('target', [
+    z.object({ target: z.literal('shared_drive'), sharedDriveId: z.string().uuid() }),
+    z.object({ target: z.literal('manager') })
+  ]).optional()
 });
 
 const attendancePolicySchema = z.object({
@@ -700,6 +833,120 @@ export const getAdminEmployee = async (req: Request, res: Response) => {
   }
 };
 
+type EmployeeCreateInput = z.infer<typeof employeeCreateSchema>;
+
+/**
+ * Create (or reactivate) the HR profile for an employee position and record
+ * the audit entry. Shared by the admin create endpoint and the recruitment
+ * hire action. Returns null when the position does not belong to the business.
+ */
+const upsertEmployeeProfile = async (
+  businessId: string,
+  actorUserId: string,
+  input: EmployeeCreateInput
+) => {
+  const {
+    employeePositionId,
+    hireDate,
+    employeeType,
+    workLocation,
+    emergencyContact,
+    personalInfo,
+    payType,
+    payRate,
+    payCurrency,
+    overtimeExempt
+  } = input;
+
+  const emergencyContactJson = parseJsonField(emergencyContact, 'emergencyContact');
+  const personalInfoJson = parseJsonField(personalInfo, 'personalInfo');
+
+  const hireDateValue = hireDate ? new Date(hireDate) : undefined;
+  const employeeTypeValue = employeeType ? (employeeType as PrismaEmployeeType) : undefined;
+
+  const position = await prisma.employeePosition.findFirst({
+    where: { id: employeePositionId, businessId },
+    include: { user: { select: { id: true, name: true, email: true } } }
+  });
+  if (!position) {
+    return null;
+  }
+
+  // Get existing HR profile if any (for audit comparison)
+  const existingProfile = await prisma.employeeHRProfile.findUnique({
+    where: { employeePositionId }
+  });
+
+  // Create HR profile if not exists
+  const hrProfile = await prisma.employeeHRProfile.upsert({
+    where: { employeePositionId },
+    create: {
+      employeePositionId,
+      businessId,
+      employmentStatus: 'ACTIVE',
+      ...(hireDateValue ? { hireDate: hireDateValue } : {}),
+      ...(employeeTypeValue ? { employeeType: employeeTypeValue } : {}),
+      ...(workLocation !== undefined ? { workLocation } : {}),
+      ...(emergencyContactJson !== undefined ? {
+        emergencyContact: emergencyContactJson === null ? Prisma.JsonNull : emergencyContactJson
+      } : {}),
+      ...(personalInfoJson !== undefined ? {
+        personalInfo: personalInfoJson === null ? Prisma.JsonNull : personalInfoJson
+      } : {}),
+      ...(payType !== undefined ? { payType } : {}),
+      ...(payRate !== undefined ? { payRate } : {}),
+      ...(payCurrency !== undefined ? { payCurrency } : {}),
+      ...(overtimeExempt !== undefined ? { overtimeExempt } : {})
+    },
+    update: {
+      employmentStatus: 'ACTIVE',
+      ...(hireDate !== undefined ? { hireDate: hireDateValue } : {}),
+      ...(employeeType !== undefined ? { employeeType: employeeTypeValue } : {}),
+      ...(workLocation !== undefined ? { workLocation } : {}),
+      ...(emergencyContact !== undefined ? { emergencyContact: emergencyContactJson ?? Prisma.JsonNull } : {}),
+      ...(personalInfo !== undefined ? { personalInfo: personalInfoJson ?? Prisma.JsonNull } : {}),
+      ...(payType !== undefined ? { payType } : {}),
+      ...(payRate !== undefined ? { payRate } : {}),
+      ...(payCurrency !== undefined ? { payCurrency } : {}),
+      ...(overtimeExempt !== undefined ? { overtimeExempt } : {})
+    }
+  });
+
+  // Ensure position is active
+  await prisma.employeePosition.update({
+    where: { id: employeePositionId },
+    data: {
+      active: true,
+      startDate: hireDate ? new Date(hireDate) : new Date(),
+      endDate: null
+    }
+  });
+
+  const auditChanges: AuditChangeMap = {};
+  recordAuditChange(auditChanges, 'hireDate', existingProfile?.hireDate, hrProfile.hireDate);
+  recordAuditChange(auditChanges, 'employeeType', existingProfile?.employeeType, hrProfile.employeeType);
+  recordAuditChange(auditChanges, 'workLocation', existingProfile?.workLocation, hrProfile.workLocation);
+  recordAuditChange(auditChanges, 'emergencyContact', existingProfile?.emergencyContact, hrProfile.emergencyContact);
+  recordAuditChange(auditChanges, 'personalInfo', existingProfile?.personalInfo, hrProfile.personalInfo);
+  recordAuditChange(auditChanges, 'payType', existingProfile?.payType, hrProfile.payType);
+  recordAuditChange(auditChanges, 'payRate', existingProfile?.payRate, hrProfile.payRate);
+  recordAuditChange(auditChanges, 'payCurrency', existingProfile?.payCurrency, hrProfile.payCurrency);
+  recordAuditChange(auditChanges, 'overtimeExempt', existingProfile?.overtimeExempt, hrProfile.overtimeExempt);
+
+  await logEmployeeAudit({
+    userId: actorUserId,
+    action: existingProfile ? 'HR_EMPLOYEE_UPDATED' : 'HR_EMPLOYEE_CREATED',
+    resourceId: employeePositionId,
+    businessId,
+    employeeUserId: position.userId,
+    employeeName: position.user?.name || position.user?.email || null,
+    changes: auditChanges,
+    force: true
+  });
+
+  return hrProfile;
+};
+
 /**
  * Create new employee
  * Framework: Stub - returns success message
@@ -726,97 +973,19 @@ export const createEmployee = async (req: Request, res: Response) => {
       });
     }
 
-    const { employeePositionId, hireDate, employeeType, workLocation, emergencyContact, personalInfo } = validationResult.data;
-
-    let emergencyContactJson: Prisma.InputJsonValue | null | undefined;
-    let personalInfoJson: Prisma.InputJsonValue | null | undefined;
-
-    try {
-      emergencyContactJson = parseJsonField(emergencyContact, 'emergencyContact');
-      personalInfoJson = parseJsonField(personalInfo, 'personalInfo');
-    } catch (fieldError) {
-      if (fieldError instanceof FieldValidationError) {
-        return res.status(400).json({
-          error: 'Validation failed',
-          details: [{ path: [fieldError.field], message: fieldError.message }]
-        });
-      }
-      throw fieldError;
-    }
-
-    const hireDateValue = hireDate ? new Date(hireDate) : undefined;
-    const employeeTypeValue = employeeType ? (employeeType as PrismaEmployeeType) : undefined;
-
-    const position = await prisma.employeePosition.findFirst({
-      where: { id: employeePositionId, businessId },
-      include: { user: { select: { id: true, name: true, email: true } } }
-    });
-    if (!position) {
+    const hrProfile = await upsertEmployeeProfile(businessId, userId, validationResult.data);
+    if (!hrProfile) {
       return res.status(400).json({ error: 'Invalid employeePositionId for this business' });
     }
 
-    // Get existing HR profile if any (for audit comparison)
-    const existingProfile = await prisma.employeeHRProfile.findUnique({
-      where: { employeePositionId }
-    });
-
-    // Create HR profile if not exists
-    const hrProfile = await prisma.employeeHRProfile.upsert({
-      where: { employeePositionId },
-      create: {
-        employeePositionId,
-        businessId,
-        employmentStatus: 'ACTIVE',
-        ...(hireDateValue ? { hireDate: hireDateValue } : {}),
-        ...(employeeTypeValue ? { employeeType: employeeTypeValue } : {}),
-        ...(workLocation !== undefined ? { workLocation } : {}),
-        ...(emergencyContactJson !== undefined ? {
-          emergencyContact: emergencyContactJson === null ? Prisma.JsonNull : emergencyContactJson
-        } : {}),
-        ...(personalInfoJson !== undefined ? {
-          personalInfo: personalInfoJson === null ? Prisma.JsonNull : personalInfoJson
-        } : {})
-      },
-      update: {
-        employmentStatus: 'ACTIVE',
-        ...(hireDate !== undefined ? { hireDate: hireDateValue } : {}),
-        ...(employeeType !== undefined ? { employeeType: employeeTypeValue } : {}),
-        ...(workLocation !== undefined ? { workLocation } : {}),
-        ...(emergencyContact !== undefined ? { emergencyContact: emergencyContactJson ?? Prisma.JsonNull } : {}),
-        ...(personalInfo !== undefined ? { personalInfo: personalInfoJson ?? Prisma.JsonNull } : {})
-      }
-    });
-
-    // Ensure position is active
-    await prisma.employeePosition.update({
-      where: { id: employeePositionId },
-      data: {
-        active: true,
-        startDate: hireDate ? new Date(hireDate) : new Date(),
-        endDate: null
-      }
-    });
-
-    const auditChanges: AuditChangeMap = {};
-    recordAuditChange(auditChanges, 'hireDate', existingProfile?.hireDate, hrProfile.hireDate);
-    recordAuditChange(auditChanges, 'employeeType', existingProfile?.employeeType, hrProfile.employeeType);
-    recordAuditChange(auditChanges, 'workLocation', existingProfile?.workLocation, hrProfile.workLocation);
-    recordAuditChange(auditChanges, 'emergencyContact', existingProfile?.emergencyContact, hrProfile.emergencyContact);
-    recordAuditChange(auditChanges, 'personalInfo', existingProfile?.personalInfo, hrProfile.personalInfo);
-
-    await logEmployeeAudit({
-      userId,
-      action: existingProfile ? 'HR_EMPLOYEE_UPDATED' : 'HR_EMPLOYEE_CREATED',
-      resourceId: employeePositionId,
-      businessId,
-      employeeUserId: position.userId,
-      employeeName: position.user?.name || position.user?.email || null,
-      changes: auditChanges,
-      force: true
-    });
-
     return res.json({ message: 'Employee profile created', hrProfile });
   } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ path: [error.field], message: error.message }]
+      });
+    }
     console.error('Error creating employee:', error);
     const errorMessage = error instanceof Error ? error.message : 'Failed to create employee';
     res.status(500).json({ error: errorMessage });
@@ -850,7 +1019,17 @@ export const updateEmployee = async (req: Request, res: Response) => {
       });
     }
 
-    const { hireDate, employeeType, workLocation, emergencyContact, personalInfo } = validationResult.data;
+    const {
+      hireDate,
+      employeeType,
+      workLocation,
+      emergencyContact,
+      personalInfo,
+      payType,
+      payRate,
+      payCurrency,
+      overtimeExempt
+    } = validationResult.data;
 
     let emergencyContactJson: Prisma.InputJsonValue | null | undefined;
     let personalInfoJson: Prisma.InputJsonValue | null | undefined;
@@ -896,6 +1075,10 @@ export const updateEmployee = async (req: Request, res: Response) => {
     if (personalInfo !== undefined) {
       updateData.personalInfo = personalInfoJson ?? Prisma.JsonNull;
     }
+    if (payType !== undefined) updateData.payType = payType;
+    if (payRate !== undefined) updateData.payRate = payRate;
+    if (payCurrency !== undefined) updateData.payCurrency = payCurrency;
+    if (overtimeExempt !== undefined) updateData.overtimeExempt = overtimeExempt;
 
     const updated = await prisma.employeeHRProfile.update({
       where: { employeePositionId: id },
@@ -919,6 +1102,18 @@ export const updateEmployee = async (req: Request, res: Response) => {
     if (personalInfo !== undefined) {
       recordAuditChange(changes, 'personalInfo', existingProfile.personalInfo, updated.personalInfo);
     }
+    if (payType !== undefined) {
+      recordAuditChange(changes, 'payType', existingProfile.payType, updated.payType);
+    }
+    if (payRate !== undefined) {
+      recordAuditChange(changes, 'payRate', existingProfile.payRate, updated.payRate);
+    }
+    if (payCurrency !== undefined) {
+      recordAuditChange(changes, 'payCurrency', existingProfile.payCurrency, updated.payCurrency);
+    }
+    if (overtimeExempt !== undefined) {
+      recordAuditChange(changes, 'overtimeExempt', existingProfile.overtimeExempt, updated.overtimeExempt);
+    }
 
     await logEmployeeAudit({
       userId,
@@ -1739,6 +1934,10 @@ export const recordSelfAttendancePunchIn = async (req: Request, res: Response) =
       return res.status(409).json({ error: error.message });
     }
 
+    if (error instanceof Error && error.message.includes('must')) {
+      return res.status(400).json({ error: error.message });
+    }
+
     console.error('Error recording attendance punch-in:', error);
     const message = error instanceof Error ? error.message : 'Failed to record attendance punch-in';
     return res.status(500).json({ error: message });
@@ -1790,6 +1989,10 @@ export const recordSelfAttendancePunchOut = async (req: Request, res: Response)
       return res.status(404).json({ error: error.message });
     }
 
+    if (error instanceof Error && error.message.includes('must')) {
+      return res.status(400).json({ error: error.message });
+    }
+
     console.error('Error recording attendance punch-out:', error);
     const message = error instanceof Error ? error.message : 'Failed to record attendance punch-out';
     return res.status(500).json({ error: message });
@@ -1913,7 +2116,7 @@ export const terminateEmployee = async (req: Request, res: Response) => {
       });
     }
 
-    const { date, reason, notes } = terminationValidation.data;
+    const { date, reason, notes, driveTransfer } = terminationValidation.data;
     const terminationDate = date ? new Date(date) : new Date();
 
     let terminationNotes: Prisma.InputJsonValue | null | undefined;
@@ -1942,6 +2145,19 @@ export const terminateEmployee = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Active employee position not found' });
     }
 
+    // Validate the Drive handover up front so a bad target doesn't leave a half-done termination
+    let driveDestination: Awaited<ReturnType<typeof resolveTransferDestination>> | null = null;
+    if (driveTransfer) {
+      try {
+        driveDestination = await resolveTransferDestination(businessId, employeePosition.id, userId, driveTransfer);
+      } catch (transferError) {
+        if (transferError instanceof SharedDriveError) {
+          return res.status(transferError.status).json({ error: transferError.message, code: transferError.code });
+        }
+        throw transferError;
+      }
+    }
+
     // Ensure HR profile exists
     const hrProfile = employeePosition.hrProfile
       ? employeePosition.hrProfile
@@ -1980,6 +2196,23 @@ export const terminateEmployee = async (req: Request, res: Response) => {
       include: { user: { select: { id: true, name: true, email: true } } }
     });
 
+    // Hand the employee's business files over; the termination stands even if this fails
+    let driveTransferResult: { folderId: string | null; files: number; folders: number } | { error: string } | null = null;
+    if (driveTransfer && driveDestination) {
+      const employeeName = employeePosition.user?.name || employeePosition.user?.email || 'former employee';
+      try {
+        driveTransferResult = await transferBusinessFiles(
+          businessId,
+          employeePosition.userId,
+          driveDestination,
+          `Files from ${employeeName}`
+        );
+      } catch (transferError) {
+        console.error('Error transferring Drive files of terminated employee:', transferError);
+        driveTransferResult = { error: 'Drive files could not be transferred' };
+      }
+    }
+
     const terminationChanges: AuditChangeMap = {};
     recordAuditChange(terminationChanges, 'employmentStatus', hrProfile.employmentStatus, updatedProfile.employmentStatus);
     recordAuditChange(terminationChanges, 'terminationDate', hrProfile.terminationDate, updatedProfile.terminationDate);
@@ -1998,7 +2231,10 @@ export const terminateEmployee = async (req: Request, res: Response) => {
       metadata: {
         terminationDate: terminationDate.toISOString(),
         terminationReason: reason || null,
-        terminationNotes: notes !== undefined ? (terminationNotes ?? null) : undefined
+        terminationNotes: notes !== undefined ? (terminationNotes ?? null) : undefined,
+        driveTransfer: driveTransfer
+          ? { ...driveTransfer, recipientUserId: driveDestination?.userId ?? null, result: driveTransferResult }
+          : undefined
       }
     });
 
@@ -2006,7 +2242,8 @@ export const terminateEmployee = async (req: Request, res: Response) => {
       message: 'Employee terminated; position vacated',
       employeePositionId: employeePosition.id,
       terminationDate,
-      positionVacant: true
+      positionVacant: true,
+      driveTransfer: driveTransferResult
     });
   } catch (error) {
     console.error('Error terminating employee:', error);
@@ -3703,6 +3940,36 @@ export const exportEmployeesCSV = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Export the benefits census for carriers: one row per covered employee and
+ * dependent on the as-of date
+ * GET /api/hr/admin/benefits/census/export?planId=&asOf=YYYY-MM-DD
+ */
+export const exportBenefitsCensusCSV = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const asOfParam = typeof req.query.asOf === 'string' ? req.query.asOf : undefined;
+    if (asOfParam && !dateOnlySchema.safeParse(asOfParam).success) {
+      return res.status(400).json({ error: 'asOf must be a YYYY-MM-DD date' });
+    }
+
+    const { csv, asOf } = await buildBenefitsCensus(businessId, {
+      planId: typeof req.query.planId === 'string' ? req.query.planId : undefined,
+      asOf: asOfParam ? toUtcDate(asOfParam) : undefined
+    });
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="benefits-census-${asOf.toISOString().split('T')[0]}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to export benefits census');
+  }
+};
+
 // ============================================================================
 // ANALYTICS CONTROLLERS
 // ============================================================================
@@ -3776,3 +4043,2638 @@ export const getTimeOffAnalyticsController = async (req: Request, res: Response)
   }
 };
 
+
+// ============================================================================
+// PAYROLL (Enterprise)
+// ============================================================================
+
+const payrollLineSchema = z.object({
+  name: z.string().min(1).max(120),
+  code: z.string().regex(/^[A-Za-z0-9_]{1,32}$/, 'Code must be 1-32 letters, numbers or underscores'),
+  category: z.nativeEnum(PayrollLineCategory),
+  calculation: z.nativeEnum(PayrollLineCalculation).optional(),
+  amount: z.number().nonnegative().max(10_000_000),
+  employeeTypes: z.array(employeeTypeEnum).optional(),
+  employeeHrProfileId: z.string().uuid().optional().nullable(),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+  metadata: jsonFieldInputSchema
+}).refine(
+  (data) => data.calculation !== PayrollLineCalculation.PERCENT_OF_GROSS || data.amount <= 100,
+  { message: 'Percentage lines must be between 0 and 100', path: ['amount'] }
+);
+
+const payPeriodCreateSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format').optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
+  payDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Pay date must be in YYYY-MM-DD format').optional()
+}).refine(
+  (data) => (data.startDate === undefined) === (data.endDate === undefined),
+  { message: 'startDate and endDate must be provided together', path: ['endDate'] }
+);
+
+const payRunCreateSchema = z.object({
+  payPeriodId: z.string().uuid('Invalid pay period ID'),
+  notes: z.string().max(1000).optional().nullable()
+});
+
+const parseSchemaBody = <T extends z.ZodTypeAny>(schema: T, body: unknown, field: string, message: string): z.infer<T> => {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issues = result.error.flatten();
+    throw new FieldValidationError(field, message, {
+      fieldErrors: issues.fieldErrors as Record<string, string[]>,
+      formErrors: issues.formErrors
+    });
+  }
+  return result.data;
+};
+
+const parsePayrollLineBody = (body: unknown, id?: string) => {
+  const payload = parseSchemaBody(payrollLineSchema, body, 'payrollLine', 'Invalid payroll line payload');
+  return {
+    id,
+    name: payload.name,
+    code: payload.code,
+    category: payload.category,
+    calculation: payload.calculation,
+    amount: payload.amount,
+    employeeTypes: payload.employeeTypes as PrismaEmployeeType[] | undefined,
+    employeeHrProfileId: payload.employeeHrProfileId ?? null,
+    sortOrder: payload.sortOrder,
+    isActive: payload.isActive,
+    metadata: parseJsonField(payload.metadata, 'metadata')
+  };
+};
+
+/**
+ * Map payroll service errors (plain Errors) to HTTP responses.
+ */
+const sendPayrollError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof FieldValidationError) {
+    return res.status(400).json({ error: error.message, field: error.field, details: error.details });
+  }
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (
+    message.includes('overlaps') ||
+    message.includes('already') ||
+    message.includes('cannot be') ||
+    message.includes('Only calculated') ||
+    message.includes('no entries') ||
+    message.includes('must be on or after')
+  ) {
+    return res.status(409).json({ error: message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: message });
+};
+
+/**
+ * Payroll dashboard: settings, recent periods and runs
+ * GET /api/hr/admin/payroll
+ */
+export const getPayrollDashboard = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const dashboard = await getPayrollDashboardService(businessId);
+    return res.json(dashboard);
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to fetch payroll dashboard');
+  }
+};
+
+export const getPayrollLines = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const lines = await listPayrollLines(businessId, req.query.includeInactive === 'true');
+    return res.json({ lines });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to fetch payroll lines');
+  }
+};
+
+export const createPayrollLine = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parsePayrollLineBody(req.body);
+    const line = await upsertPayrollLine({ ...payload, businessId });
+    return res.status(201).json({ line });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to create payroll line');
+  }
+};
+
+export const updatePayrollLine = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parsePayrollLineBody(req.body, req.params.id);
+    const line = await upsertPayrollLine({ ...payload, businessId });
+    return res.json({ line });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to update payroll line');
+  }
+};
+
+export const deletePayrollLine = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    await archivePayrollLine(businessId, req.params.id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to archive payroll line');
+  }
+};
+
+export const getPayPeriods = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const periods = await listPayPeriods(businessId);
+    return res.json({ periods });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to fetch pay periods');
+  }
+};
+
+/**
+ * Create a pay period. Without explicit dates the next period is generated
+ * from the configured pay frequency.
+ */
+export const createPayPeriod = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const payload = parseSchemaBody(payPeriodCreateSchema, req.body, 'payPeriod', 'Invalid pay period payload');
+    const period = payload.startDate && payload.endDate
+      ? await createPayPeriodService({
+          businessId,
+          createdById: userId,
+          startDate: new Date(`${payload.startDate}T00:00:00.000Z`),
+          endDate: new Date(`${payload.endDate}T00:00:00.000Z`),
+          payDate: payload.payDate ? new Date(`${payload.payDate}T00:00:00.000Z`) : null
+        })
+      : await createNextPayPeriod(businessId, userId);
+
+    return res.status(201).json({ period });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to create pay period');
+  }
+};
+
+export const getPayRuns = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const runs = await listPayRuns(businessId);
+    return res.json({ runs });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to fetch pay runs');
+  }
+};
+
+export const getPayRun = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payRun = await getPayRunService(businessId, req.params.id);
+    if (!payRun) {
+      return res.status(404).json({ error: 'Pay run not found' });
+    }
+    return res.json({ payRun });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to fetch pay run');
+  }
+};
+
+/**
+ * Create a pay run for a period and calculate it immediately.
+ */
+export const createPayRun = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const payload = parseSchemaBody(payRunCreateSchema, req.body, 'payRun', 'Invalid pay run payload');
+    const result = await createPayRunService({
+      businessId,
+      payPeriodId: payload.payPeriodId,
+      notes: payload.notes ?? null,
+      createdById: userId
+    });
+    return res.status(201).json(result);
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to create pay run');
+  }
+};
+
+export const calculatePayRun = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const result = await calculatePayRunService(businessId, req.params.id);
+    return res.json(result);
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to calculate pay run');
+  }
+};
+
+/**
+ * Finalize a pay run and issue immutable pay stubs.
+ */
+export const finalizePayRun = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const payRun = await finalizePayRunService(businessId, req.params.id, userId);
+    return res.json({ payRun });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to finalize pay run');
+  }
+};
+
+export const voidPayRun = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const payRun = await voidPayRunService(businessId, req.params.id, userId);
+    return res.json({ payRun });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to void pay run');
+  }
+};
+
+/**
+ * List own pay stubs
+ * GET /api/hr/me/pay-stubs
+ */
+export const getMyPayStubs = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.json({ payStubs: [] });
+    }
+
+    const payStubs = await listPayStubsForEmployee(businessId, profile.id);
+    return res.json({ payStubs });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to fetch pay stubs');
+  }
+};
+
+export const getMyPayStub = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    const payStub = profile ? await getPayStubForEmployee(businessId, profile.id, req.params.id) : null;
+    if (!payStub) {
+      return res.status(404).json({ error: 'Pay stub not found' });
+    }
+    return res.json({ payStub });
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to fetch pay stub');
+  }
+};
+
+/**
+ * Download own pay stub as PDF
+ * GET /api/hr/me/pay-stubs/:id/pdf
+ */
+export const downloadMyPayStubPdf = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    const payStub = profile ? await getPayStubForEmployee(businessId, profile.id, req.params.id) : null;
+    if (!payStub) {
+      return res.status(404).json({ error: 'Pay stub not found' });
+    }
+
+    const pdf = renderPayStubPdf(payStub);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="pay-stub-${payStub.stubNumber}.pdf"`);
+    return res.send(pdf);
+  } catch (error) {
+    return sendPayrollError(res, error, 'Failed to download pay stub');
+  }
+};
+
+// ============================================================================
+// RECRUITMENT (APPLICANT TRACKING)
+// ============================================================================
+
+const dateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const optionalText = (max: number) => z.string().trim().max(max).optional().nullable();
+
+const recruitmentStageSchema = z.object({
+  name: z.string().trim().min(1, 'Stage name is required').max(100),
+  type: z.nativeEnum(RecruitmentStageType),
+  order: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional()
+});
+
+const jobRequisitionSchema = z.object({
+  positionId: z.string().uuid('Invalid position ID'),
+  title: z.string().trim().max(200).optional(),
+  description: optionalText(20000),
+  location: optionalText(255),
+  employmentType: employeeTypeEnum.optional(),
+  salaryMin: z.number().nonnegative().nullable().optional(),
+  salaryMax: z.number().nonnegative().nullable().optional(),
+  salaryCurrency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  openings: z.number().int().min(1).max(1000).optional(),
+  status: z.nativeEnum(JobRequisitionStatus).optional(),
+  isPublic: z.boolean().optional(),
+  hiringManagerId: z.string().uuid('Invalid hiring manager ID').nullable().optional(),
+  metadata: jsonFieldInputSchema
+});
+
+const jobApplicationFormSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required').max(100),
+  lastName: z.string().trim().min(1, 'Last name is required').max(100),
+  email: z.string().trim().email('A valid email is required').max(255),
+  phone: optionalText(50),
+  linkedinUrl: z.string().trim().url('LinkedIn URL must be a valid URL').max(500).optional().nullable().or(z.literal('')),
+  coverLetter: optionalText(10000)
+});
+
+const adminJobApplicationSchema = jobApplicationFormSchema.extend({
+  requisitionId: z.string().uuid('Invalid requisition ID'),
+  source: z.string().trim().max(50).optional()
+});
+
+const applicationStageSchema = z.object({
+  stageId: z.string().uuid('Invalid stage ID')
+});
+
+const applicationRejectSchema = z.object({
+  reason: optionalText(500)
+});
+
+const interviewScheduleSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+  startAt: z.string().datetime({ offset: true }),
+  endAt: z.string().datetime({ offset: true }),
+  timezone: z.string().max(64).optional(),
+  location: optionalText(255),
+  meetingLink: z.string().trim().url('Meeting link must be a valid URL').optional().nullable(),
+  interviewerIds: z.array(z.string().uuid('Invalid interviewer ID')).max(20).default([])
+});
+
+const interviewUpdateSchema = z.object({
+  status: z.nativeEnum(InterviewStatus).optional(),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+  feedback: optionalText(10000)
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: 'At least one field must be provided for update'
+});
+
+const hireCandidateSchema = z.object({
+  startDate: dateOnlySchema.optional(),
+  employeeType: employeeTypeEnum.optional(),
+  workLocation: z.string().max(255).optional(),
+  payType: z.nativeEnum(PayType).nullable().optional(),
+  payRate: z.number().nonnegative().max(100_000_000).nullable().optional(),
+  payCurrency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  overtimeExempt: z.boolean().optional(),
+  onboardingTemplateId: z.string().uuid('Invalid onboarding template ID').optional()
+});
+
+/**
+ * Map recruitment service errors to HTTP responses.
+ */
+const sendRecruitmentError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof FieldValidationError) {
+    return res.status(400).json({ error: error.message, field: error.field, details: error.details });
+  }
+  // Applicants see this too, so the business's storage figures stay out of the message
+  if (error instanceof StorageQuotaExceededError) {
+    return res.status(error.status).json({ error: 'The resume could not be saved because storage is full', code: error.code });
+  }
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (
+    message.includes('already') ||
+    message.includes('cannot be') ||
+    message.includes('no longer accepting') ||
+    message.includes('maximum capacity')
+  ) {
+    return res.status(409).json({ error: message });
+  }
+  if (message.includes('must be') || message.includes('must have')) {
+    return res.status(400).json({ error: message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: message });
+};
+
+/**
+ * Recruitment dashboard: requisition counts, pipeline and upcoming interviews
+ * GET /api/hr/admin/recruitment
+ */
+export const getRecruitmentDashboard = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const dashboard = await getRecruitmentDashboardService(businessId);
+    return res.json(dashboard);
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch recruitment dashboard');
+  }
+};
+
+export const getRecruitmentStages = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const stages = await listRecruitmentStages(businessId, req.query.includeInactive === 'true');
+    return res.json({ stages });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch recruitment stages');
+  }
+};
+
+export const createRecruitmentStage = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(recruitmentStageSchema, req.body, 'stage', 'Invalid recruitment stage payload');
+    const stage = await upsertRecruitmentStage({ ...payload, businessId });
+    return res.status(201).json({ stage });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to create recruitment stage');
+  }
+};
+
+export const updateRecruitmentStage = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(recruitmentStageSchema, req.body, 'stage', 'Invalid recruitment stage payload');
+    const stage = await upsertRecruitmentStage({ ...payload, id: req.params.id, businessId });
+    return res.json({ stage });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to update recruitment stage');
+  }
+};
+
+export const deleteRecruitmentStage = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    await archiveRecruitmentStage(businessId, req.params.id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to archive recruitment stage');
+  }
+};
+
+export const getJobRequisitions = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const statusParam = req.query.status;
+    const status = typeof statusParam === 'string' && statusParam in JobRequisitionStatus
+      ? (statusParam as JobRequisitionStatus)
+      : undefined;
+    const requisitions = await listJobRequisitions(businessId, { status });
+    return res.json({ requisitions });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch job requisitions');
+  }
+};
+
+export const getJobRequisition = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const requisition = await getJobRequisitionService(businessId, req.params.id);
+    if (!requisition) {
+      return res.status(404).json({ error: 'Job requisition not found' });
+    }
+    return res.json({ requisition });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch job requisition');
+  }
+};
+
+const parseJobRequisitionBody = (body: unknown) => {
+  const payload = parseSchemaBody(jobRequisitionSchema, body, 'requisition', 'Invalid job requisition payload');
+  return {
+    ...payload,
+    employmentType: payload.employmentType as PrismaEmployeeType | undefined,
+    metadata: parseJsonField(payload.metadata, 'metadata')
+  };
+};
+
+export const createJobRequisition = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseJobRequisitionBody(req.body);
+    const requisition = await upsertJobRequisition({ ...payload, businessId, actorUserId: req.user!.id });
+    return res.status(201).json({ requisition });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to create job requisition');
+  }
+};
+
+export const updateJobRequisition = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseJobRequisitionBody(req.body);
+    const requisition = await upsertJobRequisition({
+      ...payload,
+      id: req.params.id,
+      businessId,
+      actorUserId: req.user!.id
+    });
+    return res.json({ requisition });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to update job requisition');
+  }
+};
+
+export const getJobApplications = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const { requisitionId, stageId, status } = req.query;
+    const applications = await listJobApplications(businessId, {
+      requisitionId: typeof requisitionId === 'string' ? requisitionId : undefined,
+      stageId: typeof stageId === 'string' ? stageId : undefined,
+      status: typeof status === 'string' && status in JobApplicationStatus
+        ? (status as JobApplicationStatus)
+        : undefined
+    });
+    return res.json({ applications });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch job applications');
+  }
+};
+
+export const getJobApplication = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const application = await getJobApplicationService(businessId, req.params.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Job application not found' });
+    }
+    return res.json({ application });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch job application');
+  }
+};
+
+/**
+ * Download an applicant's resume
+ * GET /api/hr/admin/recruitment/applications/:id/resume
+ */
+export const downloadApplicationResume = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const resume = await getApplicationResume(businessId, req.params.id);
+    if (!resume) {
+      return res.status(404).json({ error: 'Resume not found' });
+    }
+
+    res.setHeader('Content-Type', resume.type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${resume.name.replace(/"/g, '')}"`);
+    return res.send(resume.buffer);
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to download resume');
+  }
+};
+
+/**
+ * Add a candidate manually (referrals, sourced candidates)
+ * POST /api/hr/admin/recruitment/applications (multipart, optional "resume" file)
+ */
+export const createJobApplication = async (req: Request & { file?: Express.Multer.File }, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(adminJobApplicationSchema, req.body, 'application', 'Invalid job application payload');
+    const application = await createJobApplicationService({
+      ...payload,
+      linkedinUrl: payload.linkedinUrl || null,
+      source: payload.source ?? 'manual',
+      businessId,
+      resume: req.file
+    });
+    return res.status(201).json({ application });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to create job application');
+  }
+};
+
+export const moveJobApplicationStage = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const { stageId } = parseSchemaBody(applicationStageSchema, req.body, 'stageId', 'Invalid stage');
+    const application = await moveApplicationToStage(businessId, req.params.id, stageId);
+    return res.json({ application });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to move job application');
+  }
+};
+
+export const rejectJobApplication = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const { reason } = parseSchemaBody(applicationRejectSchema, req.body ?? {}, 'reason', 'Invalid rejection payload');
+    const application = await rejectJobApplicationService(businessId, req.params.id, reason);
+    return res.json({ application });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to reject job application');
+  }
+};
+
+/**
+ * Schedule an interview; creates a Recruiting calendar event with the
+ * candidate and interviewers as attendees
+ * POST /api/hr/admin/recruitment/applications/:id/interviews
+ */
+export const scheduleInterview = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(interviewScheduleSchema, req.body, 'interview', 'Invalid interview payload');
+    const interview = await scheduleInterviewService({
+      ...payload,
+      startAt: new Date(payload.startAt),
+      endAt: new Date(payload.endAt),
+      businessId,
+      applicationId: req.params.id,
+      createdById: req.user!.id
+    });
+    return res.status(201).json({ interview });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to schedule interview');
+  }
+};
+
+export const updateInterview = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(interviewUpdateSchema, req.body, 'interview', 'Invalid interview payload');
+    const interview = await updateInterviewService({ ...payload, businessId, interviewId: req.params.id });
+    return res.json({ interview });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to update interview');
+  }
+};
+
+/**
+ * Hire a candidate: assigns the requisition position, creates the HR
+ * profile through the standard employee flow and starts onboarding
+ * POST /api/hr/admin/recruitment/applications/:id/hire
+ */
+export const hireCandidate = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+    const actorUserId = req.user!.id;
+
+    const payload = parseSchemaBody(hireCandidateSchema, req.body ?? {}, 'hire', 'Invalid hire payload');
+    const startDate = payload.startDate ?? new Date().toISOString().slice(0, 10);
+
+    const prepared = await prepareHire({
+      businessId,
+      applicationId: req.params.id,
+      startDate: new Date(startDate),
+      actorUserId
+    });
+
+    const hrProfile = await upsertEmployeeProfile(businessId, actorUserId, {
+      employeePositionId: prepared.employeePositionId,
+      hireDate: startDate,
+      employeeType: payload.employeeType ?? prepared.employeeType,
+      workLocation: payload.workLocation,
+      payType: payload.payType,
+      payRate: payload.payRate,
+      payCurrency: payload.payCurrency,
+      overtimeExempt: payload.overtimeExempt
+    });
+    if (!hrProfile) {
+      return res.status(500).json({ error: 'Failed to create employee profile' });
+    }
+
+    const warnings: string[] = [];
+    let onboardingJourney: Awaited<ReturnType<typeof startOnboardingJourneyService>> | null = null;
+    try {
+      onboardingJourney = await startOnboardingJourneyService({
+        businessId,
+        employeeHrProfileId: hrProfile.id,
+        onboardingTemplateId: payload.onboardingTemplateId,
+        startDate: new Date(startDate),
+        metadata: { source: 'recruitment', applicationId: prepared.applicationId },
+        initiatedByUserId: actorUserId
+      });
+      await deliverOnboardingDocuments({
+        businessId,
+        employeeUserId: prepared.candidateUserId,
+        initiatedByUserId: actorUserId
+      });
+    } catch (onboardingError) {
+      // The hire stands; onboarding can be started manually once a template exists
+      console.error('Error starting onboarding for hired candidate:', onboardingError);
+      warnings.push(onboardingError instanceof Error ? onboardingError.message : 'Onboarding could not be started');
+    }
+
+    const application = await completeHire({
+      businessId,
+      applicationId: prepared.applicationId,
+      employeeHrProfileId: hrProfile.id,
+      onboardingJourneyId: onboardingJourney?.id ?? null,
+      hiredById: actorUserId
+    });
+
+    return res.json({ application, hrProfile, onboardingJourney, warnings });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to hire candidate');
+  }
+};
+
+// ----------------------------------------------------------------------------
+// Public careers page (no authentication)
+// ----------------------------------------------------------------------------
+
+// Postings are only published while the business has HR installed and the
+// recruitment feature enabled
+const isRecruitmentPublished = async (businessId: string): Promise<boolean> => {
+  const installation = await prisma.businessModuleInstallation.findFirst({
+    where: { businessId, moduleId: 'hr', enabled: true },
+    select: { id: true }
+  });
+  if (!installation) {
+    return false;
+  }
+  const { features } = await getBusinessHRFeatures(businessId);
+  return features.recruitment;
+};
+
+/**
+ * GET /api/careers/:businessId/jobs
+ */
+export const getPublicJobPostings = async (req: Request, res: Response) => {
+  try {
+    const { businessId } = req.params;
+    const result = await listPublicJobPostings(businessId);
+    if (!result) {
+      return res.status(404).json({ error: 'Business not found' });
+    }
+    if (!(await isRecruitmentPublished(businessId))) {
+      return res.json({ business: result.business, postings: [] });
+    }
+    return res.json(result);
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch job postings');
+  }
+};
+
+/**
+ * GET /api/careers/:businessId/jobs/:id
+ */
+export const getPublicJobPosting = async (req: Request, res: Response) => {
+  try {
+    const { businessId, id } = req.params;
+    const posting = (await isRecruitmentPublished(businessId))
+      ? await getPublicJobPostingService(businessId, id)
+      : null;
+    if (!posting) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+    return res.json({ posting });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to fetch job posting');
+  }
+};
+
+/**
+ * Apply to a public posting
+ * POST /api/careers/:businessId/jobs/:id/apply (multipart, optional "resume" file)
+ */
+export const submitPublicJobApplication = async (req: Request & { file?: Express.Multer.File }, res: Response) => {
+  try {
+    const { businessId, id } = req.params;
+    if (!(await isRecruitmentPublished(businessId))) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+
+    const payload = parseSchemaBody(jobApplicationFormSchema, req.body, 'application', 'Invalid application');
+    const application = await createJobApplicationService({
+      ...payload,
+      linkedinUrl: payload.linkedinUrl || null,
+      businessId,
+      requisitionId: id,
+      source: 'careers_page',
+      resume: req.file,
+      requirePublicPosting: true
+    });
+    // Candidates only get a confirmation, never pipeline details
+    return res.status(201).json({ success: true, applicationId: application.id });
+  } catch (error) {
+    return sendRecruitmentError(res, error, 'Failed to submit application');
+  }
+};
+
+// ============================================================================
+// PERFORMANCE MANAGEMENT
+// ============================================================================
+
+const ratingScaleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: optionalText(500),
+  levels: z.array(z.object({
+    value: z.number(),
+    label: z.string().trim().min(1, 'Label is required').max(100),
+    description: z.string().trim().max(500).optional()
+  })).min(2, 'At least two levels are required').max(10),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional()
+});
+
+const questionnaireSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: optionalText(500),
+  ratingScaleId: z.string().uuid('Invalid rating scale ID'),
+  questions: z.array(z.object({
+    id: z.string().trim().min(1).max(50),
+    prompt: z.string().trim().min(1, 'Prompt is required').max(500),
+    type: z.enum(['RATING', 'TEXT']),
+    required: z.boolean().optional().default(true),
+    reviewerTypes: z.array(z.nativeEnum(PerformanceReviewerType)).optional()
+  })).min(1, 'At least one question is required').max(50),
+  isActive: z.boolean().optional()
+});
+
+const reviewCycleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(150),
+  description: optionalText(2000),
+  questionnaireId: z.string().uuid('Invalid questionnaire ID'),
+  periodStart: dateOnlySchema,
+  periodEnd: dateOnlySchema,
+  dueDate: dateOnlySchema,
+  includeSelfReview: z.boolean().optional(),
+  includeManagerReview: z.boolean().optional(),
+  includePeerReview: z.boolean().optional(),
+  peerReviewerCount: z.number().int().min(0).max(10).optional(),
+  departmentIds: z.array(z.string().uuid()).optional(),
+  tierIds: z.array(z.string().uuid()).optional()
+});
+
+const peerReviewersSchema = z.object({
+  userIds: z.array(z.string().min(1)).min(1, 'At least one reviewer is required').max(20)
+});
+
+const calibrateReviewSchema = z.object({
+  calibratedRating: z.number(),
+  calibrationNote: optionalText(2000)
+});
+
+const finalizeReviewSchema = z.object({
+  summary: optionalText(5000)
+});
+
+const reviewSubmissionSchema = z.object({
+  answers: z.record(z.object({
+    rating: z.number().optional(),
+    text: z.string().max(5000).optional()
+  })).optional(),
+  overallRating: z.number().nullable().optional(),
+  comments: optionalText(5000),
+  submit: z.boolean().optional()
+});
+
+const performanceGoalSchema = z.object({
+  type: z.nativeEnum(PerformanceGoalType).optional(),
+  title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+  description: optionalText(2000),
+  status: z.nativeEnum(PerformanceGoalStatus).optional(),
+  progress: z.number().int().min(0).max(100).optional(),
+  startValue: z.number().nullable().optional(),
+  targetValue: z.number().nullable().optional(),
+  currentValue: z.number().nullable().optional(),
+  unit: optionalText(30),
+  startDate: dateOnlySchema.nullable().optional(),
+  dueDate: dateOnlySchema.nullable().optional(),
+  cycleId: z.string().uuid().nullable().optional(),
+  parentGoalId: z.string().uuid().nullable().optional()
+});
+
+const adminPerformanceGoalSchema = performanceGoalSchema.extend({
+  employeeHrProfileId: z.string().uuid('Invalid employee ID')
+});
+
+const toUtcDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const toOptionalUtcDate = (value: string | null | undefined) =>
+  value === undefined ? undefined : value === null ? null : toUtcDate(value);
+
+const parseReviewCycleBody = (body: unknown) => {
+  const payload = parseSchemaBody(reviewCycleSchema, body, 'cycle', 'Invalid review cycle payload');
+  return {
+    ...payload,
+    periodStart: toUtcDate(payload.periodStart),
+    periodEnd: toUtcDate(payload.periodEnd),
+    dueDate: toUtcDate(payload.dueDate)
+  };
+};
+
+const withGoalDates = <T extends { startDate?: string | null; dueDate?: string | null }>(payload: T) => ({
+  ...payload,
+  startDate: toOptionalUtcDate(payload.startDate),
+  dueDate: toOptionalUtcDate(payload.dueDate)
+});
+
+/**
+ * Map performance service errors to HTTP responses.
+ */
+const sendPerformanceError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof FieldValidationError) {
+    return res.status(400).json({ error: error.message, field: error.field, details: error.details });
+  }
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (
+    message.includes('already') ||
+    message.includes('cannot be') ||
+    message.includes('can only be') ||
+    message.includes('Only active') ||
+    message.includes('no longer accepting')
+  ) {
+    return res.status(409).json({ error: message });
+  }
+  if (message.includes('must')) {
+    return res.status(400).json({ error: message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: message });
+};
+
+/**
+ * Performance dashboard: active cycles, pending submissions and goal counts
+ * GET /api/hr/admin/performance
+ */
+export const getPerformanceDashboard = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const dashboard = await getPerformanceDashboardService(businessId);
+    return res.json(dashboard);
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to load performance dashboard');
+  }
+};
+
+export const getPerformanceRatingScales = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const ratingScales = await listRatingScales(businessId);
+    return res.json({ ratingScales });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch rating scales');
+  }
+};
+
+export const createPerformanceRatingScale = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(ratingScaleSchema, req.body, 'ratingScale', 'Invalid rating scale payload');
+    const ratingScale = await upsertRatingScale({ ...payload, businessId });
+    return res.status(201).json({ ratingScale });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to create rating scale');
+  }
+};
+
+export const updatePerformanceRatingScale = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(ratingScaleSchema, req.body, 'ratingScale', 'Invalid rating scale payload');
+    const ratingScale = await upsertRatingScale({ ...payload, id: req.params.id, businessId });
+    return res.json({ ratingScale });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to update rating scale');
+  }
+};
+
+export const getPerformanceQuestionnaires = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const questionnaires = await listQuestionnaires(businessId);
+    return res.json({ questionnaires });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch questionnaires');
+  }
+};
+
+export const createPerformanceQuestionnaire = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(questionnaireSchema, req.body, 'questionnaire', 'Invalid questionnaire payload');
+    const questionnaire = await upsertQuestionnaire({ ...payload, businessId });
+    return res.status(201).json({ questionnaire });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to create questionnaire');
+  }
+};
+
+export const updatePerformanceQuestionnaire = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(questionnaireSchema, req.body, 'questionnaire', 'Invalid questionnaire payload');
+    const questionnaire = await upsertQuestionnaire({ ...payload, id: req.params.id, businessId });
+    return res.json({ questionnaire });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to update questionnaire');
+  }
+};
+
+export const getPerformanceCycles = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const cycles = await listReviewCycles(businessId);
+    return res.json({ cycles });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch review cycles');
+  }
+};
+
+/**
+ * Review cycle with its reviews
+ * GET /api/hr/admin/performance/cycles/:id?status=&departmentId=
+ */
+export const getPerformanceCycle = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const statusParam = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (statusParam && !Object.values(PerformanceReviewStatus).includes(statusParam as PerformanceReviewStatus)) {
+      return res.status(400).json({ error: 'Invalid review status' });
+    }
+
+    const cycle = await getReviewCycle(businessId, req.params.id);
+    const reviews = await listCycleReviews(businessId, cycle.id, {
+      status: statusParam as PerformanceReviewStatus | undefined,
+      departmentId: typeof req.query.departmentId === 'string' ? req.query.departmentId : undefined
+    });
+    return res.json({ cycle, reviews });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch review cycle');
+  }
+};
+
+export const createPerformanceCycle = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseReviewCycleBody(req.body);
+    const cycle = await upsertReviewCycle({ ...payload, businessId, actorUserId: req.user!.id });
+    return res.status(201).json({ cycle });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to create review cycle');
+  }
+};
+
+export const updatePerformanceCycle = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseReviewCycleBody(req.body);
+    const cycle = await upsertReviewCycle({ ...payload, id: req.params.id, businessId, actorUserId: req.user!.id });
+    return res.json({ cycle });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to update review cycle');
+  }
+};
+
+/**
+ * Launch a draft cycle: creates reviews and assigns self, manager and peer reviewers
+ * POST /api/hr/admin/performance/cycles/:id/launch
+ */
+export const launchPerformanceCycle = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const cycle = await launchReviewCycle(businessId, req.params.id, req.user!.id);
+    return res.json({ cycle });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to launch review cycle');
+  }
+};
+
+export const closePerformanceCycle = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const cycle = await closeReviewCycle(businessId, req.params.id, req.user!.id);
+    return res.json({ cycle });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to close review cycle');
+  }
+};
+
+/**
+ * Calibration report grouped by department or organizational tier
+ * GET /api/hr/admin/performance/cycles/:id/calibration?groupBy=department|tier
+ */
+export const getPerformanceCalibration = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const groupBy = req.query.groupBy ?? 'department';
+    if (groupBy !== 'department' && groupBy !== 'tier') {
+      return res.status(400).json({ error: 'groupBy must be "department" or "tier"' });
+    }
+
+    const report = await getCalibrationReportService(businessId, req.params.id, groupBy);
+    return res.json(report);
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to build calibration report');
+  }
+};
+
+export const getPerformanceReview = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const review = await getReview(businessId, req.params.id);
+    return res.json({ review });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch performance review');
+  }
+};
+
+export const addPerformancePeerReviewers = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const { userIds } = parseSchemaBody(peerReviewersSchema, req.body, 'userIds', 'Invalid peer reviewers');
+    const review = await addPeerReviewers(businessId, req.params.id, userIds, req.user!.id);
+    return res.json({ review });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to add peer reviewers');
+  }
+};
+
+export const calibratePerformanceReview = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(calibrateReviewSchema, req.body, 'calibratedRating', 'Invalid calibration payload');
+    const review = await calibrateReview(businessId, req.params.id, payload, req.user!.id);
+    return res.json({ review });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to calibrate performance review');
+  }
+};
+
+export const finalizePerformanceReview = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(finalizeReviewSchema, req.body ?? {}, 'summary', 'Invalid review summary');
+    const review = await finalizeReview(businessId, req.params.id, payload, req.user!.id);
+    return res.json({ review });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to finalize performance review');
+  }
+};
+
+/**
+ * Goals across the business
+ * GET /api/hr/admin/performance/goals?employeeHrProfileId=&cycleId=&status=
+ */
+export const getPerformanceGoals = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const statusParam = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (statusParam && !Object.values(PerformanceGoalStatus).includes(statusParam as PerformanceGoalStatus)) {
+      return res.status(400).json({ error: 'Invalid goal status' });
+    }
+
+    const goals = await listGoals(businessId, {
+      employeeHrProfileId: typeof req.query.employeeHrProfileId === 'string' ? req.query.employeeHrProfileId : undefined,
+      cycleId: typeof req.query.cycleId === 'string' ? req.query.cycleId : undefined,
+      status: statusParam as PerformanceGoalStatus | undefined
+    });
+    return res.json({ goals });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch goals');
+  }
+};
+
+export const createPerformanceGoal = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = withGoalDates(parseSchemaBody(adminPerformanceGoalSchema, req.body, 'goal', 'Invalid goal payload'));
+    const profile = await prisma.employeeHRProfile.findFirst({
+      where: { id: payload.employeeHrProfileId, businessId, deletedAt: null },
+      select: { id: true }
+    });
+    if (!profile) {
+      return res.status(404).json({ error: 'Employee HR profile not found' });
+    }
+
+    const goal = await upsertGoal({ ...payload, businessId, actorUserId: req.user!.id });
+    return res.status(201).json({ goal });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to create goal');
+  }
+};
+
+export const updatePerformanceGoal = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const existing = await prisma.performanceGoal.findFirst({
+      where: { id: req.params.id, businessId },
+      select: { employeeHrProfileId: true }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    const payload = withGoalDates(parseSchemaBody(performanceGoalSchema, req.body, 'goal', 'Invalid goal payload'));
+    const goal = await upsertGoal({
+      ...payload,
+      id: req.params.id,
+      businessId,
+      employeeHrProfileId: existing.employeeHrProfileId,
+      actorUserId: req.user!.id
+    });
+    return res.json({ goal });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to update goal');
+  }
+};
+
+export const deletePerformanceGoal = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const existing = await prisma.performanceGoal.findFirst({
+      where: { id: req.params.id, businessId },
+      select: { employeeHrProfileId: true }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    await deleteGoal(businessId, existing.employeeHrProfileId, req.params.id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to delete goal');
+  }
+};
+
+/**
+ * Completed reviews and goals on an employee's HR record
+ * GET /api/hr/admin/employees/:id/performance (id = employee position ID)
+ */
+export const getEmployeePerformance = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const record = await getEmployeePerformanceRecord(businessId, req.params.id);
+    return res.json(record);
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch employee performance');
+  }
+};
+
+/**
+ * Direct reports' review status plus the manager's own pending reviews
+ * GET /api/hr/team/performance/reviews?cycleId=
+ */
+export const getTeamPerformanceReviews = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const { directReportEmployeePositionIds } = await resolveManagerContext(businessId, req.user!.id);
+    const [reviews, tasks] = await Promise.all([
+      listTeamReviewStatus(
+        businessId,
+        directReportEmployeePositionIds,
+        typeof req.query.cycleId === 'string' ? req.query.cycleId : undefined
+      ),
+      listReviewerTasks(businessId, req.user!.id)
+    ]);
+    return res.json({ reviews, tasks });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch team reviews');
+  }
+};
+
+export const getTeamPerformanceGoals = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const { directReportEmployeePositionIds } = await resolveManagerContext(businessId, req.user!.id);
+    if (directReportEmployeePositionIds.length === 0) {
+      return res.json({ goals: [] });
+    }
+    const profiles = await prisma.employeeHRProfile.findMany({
+      where: { businessId, employeePositionId: { in: directReportEmployeePositionIds }, deletedAt: null },
+      select: { id: true }
+    });
+    const goals = await listGoals(businessId, { employeeHrProfileIds: profiles.map((profile) => profile.id) });
+    return res.json({ goals });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch team goals');
+  }
+};
+
+/**
+ * Own completed reviews
+ * GET /api/hr/me/performance/reviews
+ */
+export const getMyPerformanceReviews = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.json({ reviews: [] });
+    }
+
+    const reviews = await listCompletedReviewsForEmployee(businessId, profile.id);
+    return res.json({ reviews });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch performance reviews');
+  }
+};
+
+/**
+ * Reviews the user still has to write (self, manager or peer)
+ * GET /api/hr/me/performance/tasks
+ */
+export const getMyPerformanceTasks = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const tasks = await listReviewerTasks(businessId, req.user!.id);
+    return res.json({ tasks });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch review tasks');
+  }
+};
+
+export const getMyPerformanceSubmission = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const submission = await getReviewerSubmission(businessId, req.user!.id, req.params.id);
+    return res.json({ submission });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch review submission');
+  }
+};
+
+/**
+ * Save a draft or submit a review ({ submit: true })
+ * PUT /api/hr/me/performance/submissions/:id
+ */
+export const saveMyPerformanceSubmission = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(reviewSubmissionSchema, req.body, 'submission', 'Invalid review submission');
+    const submission = await saveReviewerSubmission({
+      ...payload,
+      businessId,
+      submissionId: req.params.id,
+      reviewerUserId: req.user!.id
+    });
+    return res.json({ submission });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to save review submission');
+  }
+};
+
+export const getMyPerformanceGoals = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.json({ goals: [] });
+    }
+
+    const goals = await listGoals(businessId, {
+      employeeHrProfileId: profile.id,
+      cycleId: typeof req.query.cycleId === 'string' ? req.query.cycleId : undefined
+    });
+    return res.json({ goals });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to fetch goals');
+  }
+};
+
+export const createMyPerformanceGoal = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Employee HR profile not found' });
+    }
+
+    const payload = withGoalDates(parseSchemaBody(performanceGoalSchema, req.body, 'goal', 'Invalid goal payload'));
+    const goal = await upsertGoal({ ...payload, businessId, employeeHrProfileId: profile.id, actorUserId: req.user!.id });
+    return res.status(201).json({ goal });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to create goal');
+  }
+};
+
+export const updateMyPerformanceGoal = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    const payload = withGoalDates(parseSchemaBody(performanceGoalSchema, req.body, 'goal', 'Invalid goal payload'));
+    const goal = await upsertGoal({
+      ...payload,
+      id: req.params.id,
+      businessId,
+      employeeHrProfileId: profile.id,
+      actorUserId: req.user!.id
+    });
+    return res.json({ goal });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to update goal');
+  }
+};
+
+export const deleteMyPerformanceGoal = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    await deleteGoal(businessId, profile.id, req.params.id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendPerformanceError(res, error, 'Failed to delete goal');
+  }
+};
+
+// ============================================================================
+// BENEFITS ADMINISTRATION
+// ============================================================================
+
+const coverageCostSchema = z.object({
+  employee: z.number().min(0),
+  employer: z.number().min(0)
+});
+
+const benefitPlanSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(150),
+  type: z.nativeEnum(BenefitPlanType),
+  carrier: optionalText(150),
+  planCode: optionalText(100),
+  description: optionalText(2000),
+  eligibleEmployeeTypes: z.array(z.nativeEnum(PrismaEmployeeType)).optional(),
+  waitingPeriodDays: z.number().int().min(0).max(365).optional(),
+  coverageCosts: z.record(z.nativeEnum(BenefitCoverageLevel), coverageCostSchema).nullable().optional(),
+  minContributionPercent: z.number().min(0).max(100).nullable().optional(),
+  maxContributionPercent: z.number().min(0).max(100).nullable().optional(),
+  employerMatchPercent: z.number().min(0).max(100).nullable().optional(),
+  employerMatchLimitPercent: z.number().min(0).max(100).nullable().optional(),
+  allowsDependents: z.boolean().optional(),
+  requiresBeneficiary: z.boolean().optional(),
+  deductionCode: z.string().trim().min(1, 'Deduction code is required').max(20),
+  deductionCategory: z.enum([PayrollLineCategory.PRE_TAX_DEDUCTION, PayrollLineCategory.POST_TAX_DEDUCTION]).optional(),
+  isActive: z.boolean().optional()
+});
+
+const enrollmentWindowSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(150),
+  startDate: dateOnlySchema,
+  endDate: dateOnlySchema,
+  coverageStartDate: dateOnlySchema,
+  notes: optionalText(2000)
+});
+
+const lifeEventSchema = z.object({
+  type: z.nativeEnum(BenefitLifeEventType),
+  eventDate: dateOnlySchema,
+  description: optionalText(1000)
+});
+
+const adminLifeEventSchema = lifeEventSchema.extend({
+  employeeHrProfileId: z.string().uuid('Invalid employee ID')
+});
+
+const lifeEventReviewSchema = z.object({
+  decision: z.enum(['APPROVED', 'DENIED']),
+  reviewNote: optionalText(1000)
+});
+
+const endEnrollmentSchema = z.object({
+  endDate: dateOnlySchema
+});
+
+const dependentSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required').max(100),
+  lastName: z.string().trim().min(1, 'Last name is required').max(100),
+  relationship: z.nativeEnum(BenefitDependentRelationship),
+  dateOfBirth: dateOnlySchema.nullable().optional(),
+  gender: optionalText(30)
+});
+
+const beneficiariesSchema = z.object({
+  planId: z.string().uuid().nullable().optional(),
+  beneficiaries: z.array(z.object({
+    name: z.string().trim().min(1, 'Name is required').max(200),
+    relationship: z.string().trim().min(1, 'Relationship is required').max(100),
+    designation: z.nativeEnum(BenefitBeneficiaryDesignation),
+    percentage: z.number(),
+    dependentId: z.string().uuid().nullable().optional()
+  })).max(20)
+});
+
+const electionsSchema = z.object({
+  elections: z.array(z.object({
+    planId: z.string().uuid('Invalid plan ID'),
+    waive: z.boolean().optional(),
+    coverageLevel: z.nativeEnum(BenefitCoverageLevel).nullable().optional(),
+    dependentIds: z.array(z.string().uuid()).max(20).optional(),
+    contributionPercent: z.number().min(0).max(100).nullable().optional()
+  })).min(1, 'At least one election is required').max(20)
+});
+
+const parseEnrollmentWindowBody = (body: unknown) => {
+  const payload = parseSchemaBody(enrollmentWindowSchema, body, 'window', 'Invalid enrollment window payload');
+  return {
+    ...payload,
+    startDate: toUtcDate(payload.startDate),
+    endDate: toUtcDate(payload.endDate),
+    coverageStartDate: toUtcDate(payload.coverageStartDate)
+  };
+};
+
+const parseDependentBody = (body: unknown) => {
+  const payload = parseSchemaBody(dependentSchema, body, 'dependent', 'Invalid dependent payload');
+  return { ...payload, dateOfBirth: toOptionalUtcDate(payload.dateOfBirth) ?? null };
+};
+
+/**
+ * Map benefits service errors to HTTP responses.
+ */
+const sendBenefitsError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof FieldValidationError) {
+    return res.status(400).json({ error: error.message, field: error.field, details: error.details });
+  }
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (
+    message.includes('already') ||
+    message.includes('overlaps') ||
+    message.includes('cannot change') ||
+    message.includes('can only be changed') ||
+    message.includes('is covered by')
+  ) {
+    return res.status(409).json({ error: message });
+  }
+  if (
+    message.includes('must') ||
+    message.includes('not eligible') ||
+    message.includes('not offered') ||
+    message.includes('only offers') ||
+    message.includes('does not') ||
+    message.includes('Unknown coverage level') ||
+    message.includes('can only be elected once')
+  ) {
+    return res.status(400).json({ error: message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: message });
+};
+
+/**
+ * Benefits dashboard: enrollment counts and costs per plan, next enrollment
+ * window and pending life events
+ * GET /api/hr/admin/benefits
+ */
+export const getBenefitsDashboard = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const dashboard = await getBenefitsDashboardService(businessId);
+    return res.json(dashboard);
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to load benefits dashboard');
+  }
+};
+
+export const getBenefitPlans = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const plans = await listBenefitPlans(businessId, req.query.includeInactive === 'true');
+    return res.json({ plans });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch benefit plans');
+  }
+};
+
+export const createBenefitPlan = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(benefitPlanSchema, req.body, 'plan', 'Invalid benefit plan payload');
+    const plan = await upsertBenefitPlan({ ...payload, businessId });
+    return res.status(201).json({ plan });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to create benefit plan');
+  }
+};
+
+export const updateBenefitPlan = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(benefitPlanSchema, req.body, 'plan', 'Invalid benefit plan payload');
+    const plan = await upsertBenefitPlan({ ...payload, id: req.params.id, businessId });
+    return res.json({ plan });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to update benefit plan');
+  }
+};
+
+/**
+ * Archive a plan. Existing elections stay in place until they are ended.
+ * DELETE /api/hr/admin/benefits/plans/:id
+ */
+export const deleteBenefitPlan = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    await archiveBenefitPlan(businessId, req.params.id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to archive benefit plan');
+  }
+};
+
+export const getBenefitEnrollmentWindows = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const windows = await listEnrollmentWindows(businessId);
+    return res.json({ windows });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch enrollment windows');
+  }
+};
+
+export const createBenefitEnrollmentWindow = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseEnrollmentWindowBody(req.body);
+    const window = await upsertEnrollmentWindow({ ...payload, businessId, actorUserId: req.user!.id });
+    return res.status(201).json({ window });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to create enrollment window');
+  }
+};
+
+export const updateBenefitEnrollmentWindow = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseEnrollmentWindowBody(req.body);
+    const window = await upsertEnrollmentWindow({
+      ...payload,
+      id: req.params.id,
+      businessId,
+      actorUserId: req.user!.id
+    });
+    return res.json({ window });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to update enrollment window');
+  }
+};
+
+/**
+ * Enrollments across the business
+ * GET /api/hr/admin/benefits/enrollments?planId=&status=&current=true
+ */
+export const getBenefitEnrollments = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const statusParam = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (statusParam && !Object.values(BenefitEnrollmentStatus).includes(statusParam as BenefitEnrollmentStatus)) {
+      return res.status(400).json({ error: 'Invalid enrollment status' });
+    }
+
+    const enrollments = await listEnrollments(businessId, {
+      planId: typeof req.query.planId === 'string' ? req.query.planId : undefined,
+      status: statusParam as BenefitEnrollmentStatus | undefined,
+      currentOnly: req.query.current === 'true'
+    });
+    return res.json({ enrollments });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch benefit enrollments');
+  }
+};
+
+export const endBenefitEnrollment = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(endEnrollmentSchema, req.body, 'endDate', 'Invalid end date');
+    const enrollment = await endEnrollment(businessId, req.params.id, toUtcDate(payload.endDate));
+    return res.json({ enrollment });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to end benefit enrollment');
+  }
+};
+
+export const getBenefitLifeEvents = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const statusParam = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (statusParam && !Object.values(BenefitLifeEventStatus).includes(statusParam as BenefitLifeEventStatus)) {
+      return res.status(400).json({ error: 'Invalid life event status' });
+    }
+
+    const lifeEvents = await listLifeEvents(businessId, {
+      status: statusParam as BenefitLifeEventStatus | undefined,
+      employeeHrProfileId: typeof req.query.employeeHrProfileId === 'string' ? req.query.employeeHrProfileId : undefined
+    });
+    return res.json({ lifeEvents });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch life events');
+  }
+};
+
+/**
+ * Record a life event on an employee's behalf (approved immediately)
+ * POST /api/hr/admin/benefits/life-events
+ */
+export const createBenefitLifeEvent = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(adminLifeEventSchema, req.body, 'lifeEvent', 'Invalid life event payload');
+    const lifeEvent = await reportLifeEvent({
+      ...payload,
+      eventDate: toUtcDate(payload.eventDate),
+      businessId,
+      actorUserId: req.user!.id,
+      approved: true
+    });
+    return res.status(201).json({ lifeEvent });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to record life event');
+  }
+};
+
+export const reviewBenefitLifeEvent = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(lifeEventReviewSchema, req.body, 'decision', 'Invalid life event review');
+    const lifeEvent = await reviewLifeEvent(
+      businessId,
+      req.params.id,
+      payload.decision,
+      payload.reviewNote ?? null,
+      req.user!.id
+    );
+    return res.json({ lifeEvent });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to review life event');
+  }
+};
+
+/**
+ * Own benefits: enrollment period, eligible plans, elections, dependents,
+ * beneficiaries and life events
+ * GET /api/hr/me/benefits
+ */
+export const getMyBenefits = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Employee HR profile not found' });
+    }
+
+    const overview = await getEmployeeBenefitsOverview(businessId, profile.id);
+    return res.json(overview);
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch benefits');
+  }
+};
+
+export const submitMyBenefitElections = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Employee HR profile not found' });
+    }
+
+    const payload = parseSchemaBody(electionsSchema, req.body, 'elections', 'Invalid benefit elections');
+    const enrollments = await submitElections({
+      businessId,
+      employeeHrProfileId: profile.id,
+      elections: payload.elections,
+      actorUserId: req.user!.id
+    });
+    return res.json({ enrollments });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to submit benefit elections');
+  }
+};
+
+export const getMyBenefitDependents = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.json({ dependents: [] });
+    }
+
+    const dependents = await listDependents(businessId, profile.id);
+    return res.json({ dependents });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch dependents');
+  }
+};
+
+export const createMyBenefitDependent = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Employee HR profile not found' });
+    }
+
+    const payload = parseDependentBody(req.body);
+    const dependent = await upsertDependent({ ...payload, businessId, employeeHrProfileId: profile.id });
+    return res.status(201).json({ dependent });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to add dependent');
+  }
+};
+
+export const updateMyBenefitDependent = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Dependent not found' });
+    }
+
+    const payload = parseDependentBody(req.body);
+    const dependent = await upsertDependent({
+      ...payload,
+      id: req.params.id,
+      businessId,
+      employeeHrProfileId: profile.id
+    });
+    return res.json({ dependent });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to update dependent');
+  }
+};
+
+export const deleteMyBenefitDependent = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Dependent not found' });
+    }
+
+    await removeDependent(businessId, profile.id, req.params.id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to remove dependent');
+  }
+};
+
+export const getMyBenefitBeneficiaries = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.json({ beneficiaries: [] });
+    }
+
+    const beneficiaries = await listBeneficiaries(businessId, profile.id);
+    return res.json({ beneficiaries });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch beneficiaries');
+  }
+};
+
+/**
+ * Replace beneficiary designations for one plan (planId null = all plans)
+ * PUT /api/hr/me/benefits/beneficiaries
+ */
+export const updateMyBenefitBeneficiaries = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Employee HR profile not found' });
+    }
+
+    const payload = parseSchemaBody(beneficiariesSchema, req.body, 'beneficiaries', 'Invalid beneficiaries payload');
+    const beneficiaries = await replaceBeneficiaries(
+      businessId,
+      profile.id,
+      payload.planId ?? null,
+      payload.beneficiaries
+    );
+    return res.json({ beneficiaries });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to update beneficiaries');
+  }
+};
+
+export const getMyBenefitLifeEvents = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.json({ lifeEvents: [] });
+    }
+
+    const lifeEvents = await listLifeEvents(businessId, { employeeHrProfileId: profile.id });
+    return res.json({ lifeEvents });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to fetch life events');
+  }
+};
+
+/**
+ * Report a qualifying life event for HR review
+ * POST /api/hr/me/benefits/life-events
+ */
+export const reportMyBenefitLifeEvent = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const profile = await findEmployeeHrProfileByUser(businessId, req.user!.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Employee HR profile not found' });
+    }
+
+    const payload = parseSchemaBody(lifeEventSchema, req.body, 'lifeEvent', 'Invalid life event payload');
+    const lifeEvent = await reportLifeEvent({
+      ...payload,
+      eventDate: toUtcDate(payload.eventDate),
+      businessId,
+      employeeHrProfileId: profile.id,
+      actorUserId: req.user!.id
+    });
+    return res.status(201).json({ lifeEvent });
+  } catch (error) {
+    return sendBenefitsError(res, error, 'Failed to report life event');
+  }
+};
+
+// ============================================================================
+// ATTENDANCE KIOSKS
+// ============================================================================
+
+const kioskDeviceSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  jobLocationId: z.string().uuid('Invalid job location ID').nullable().optional(),
+  requirePhoto: z.boolean().optional(),
+  active: z.boolean().optional()
+});
+
+const kioskCredentialSchema = z.object({
+  pin: z.string().trim().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits').nullable().optional(),
+  badgeNumber: z.string().trim().max(64).nullable().optional()
+});
+
+const kioskPinSchema = z.object({
+  pin: z.string().trim().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits')
+});
+
+const kioskPunchesSchema = z.array(z.object({
+  clientPunchId: z.string().trim().min(1).max(100),
+  pin: z.string().trim().max(8).nullable().optional(),
+  badgeNumber: z.string().trim().max(64).nullable().optional(),
+  occurredAt: z.string().datetime({ offset: true }).nullable().optional(),
+  offline: z.boolean().optional()
+}).refine((punch) => Boolean(punch.pin || punch.badgeNumber), {
+  message: 'A PIN or badge number is required',
+  path: ['pin']
+})).min(1, 'At least one punch is required').max(200);
+
+/**
+ * Map kiosk service errors to HTTP responses.
+ */
+const sendKioskError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof FieldValidationError) {
+    return res.status(400).json({ error: error.message, field: error.field, details: error.details });
+  }
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (message.includes('already')) {
+    return res.status(409).json({ error: message });
+  }
+  if (message.includes('Too many')) {
+    return res.status(429).json({ error: message });
+  }
+  if (message.includes('must')) {
+    return res.status(400).json({ error: message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: message });
+};
+
+/**
+ * List registered kiosk devices
+ * GET /api/hr/admin/attendance/kiosks
+ */
+export const getAttendanceKiosks = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const devices = await listKioskDevices(businessId);
+    return res.json({ devices });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to fetch kiosk devices');
+  }
+};
+
+/**
+ * Register a kiosk device. The device token is only returned here and on rotation.
+ * POST /api/hr/admin/attendance/kiosks
+ */
+export const createAttendanceKiosk = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(kioskDeviceSchema, req.body, 'kiosk', 'Invalid kiosk payload');
+    const result = await createKioskDevice({ ...payload, businessId, createdById: req.user!.id });
+    return res.status(201).json(result);
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to register kiosk device');
+  }
+};
+
+/**
+ * PUT /api/hr/admin/attendance/kiosks/:id
+ */
+export const updateAttendanceKiosk = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(kioskDeviceSchema, req.body, 'kiosk', 'Invalid kiosk payload');
+    const device = await updateKioskDevice(req.params.id, { ...payload, businessId });
+    return res.json({ device });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to update kiosk device');
+  }
+};
+
+/**
+ * Issue a new device token; the kiosk must be paired again
+ * POST /api/hr/admin/attendance/kiosks/:id/rotate-token
+ */
+export const rotateAttendanceKioskToken = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const result = await rotateKioskDeviceToken(businessId, req.params.id);
+    return res.json(result);
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to rotate kiosk token');
+  }
+};
+
+/**
+ * Deactivate a kiosk; punch history is kept
+ * DELETE /api/hr/admin/attendance/kiosks/:id
+ */
+export const deactivateAttendanceKiosk = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const device = await deactivateKioskDevice(businessId, req.params.id);
+    return res.json({ device });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to deactivate kiosk device');
+  }
+};
+
+/**
+ * Employees with their kiosk PIN status and badge number
+ * GET /api/hr/admin/attendance/kiosk-credentials
+ */
+export const getAttendanceKioskCredentials = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const employees = await listKioskCredentials(businessId);
+    return res.json({ employees });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to fetch kiosk credentials');
+  }
+};
+
+/**
+ * PUT /api/hr/admin/attendance/kiosk-credentials/:employeePositionId
+ */
+export const updateAttendanceKioskCredential = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const payload = parseSchemaBody(kioskCredentialSchema, req.body, 'credential', 'Invalid kiosk credential payload');
+    const credential = await setKioskCredential({
+      businessId,
+      employeePositionId: req.params.employeePositionId,
+      pin: payload.pin,
+      badgeNumber: payload.badgeNumber === '' ? null : payload.badgeNumber
+    });
+    return res.json({ credential });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to update kiosk credential');
+  }
+};
+
+/**
+ * Recent kiosk punches, including rejected attempts
+ * GET /api/hr/admin/attendance/kiosk-punches
+ */
+export const getAttendanceKioskPunches = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const { deviceId, limit } = req.query;
+    const punches = await listKioskPunches(businessId, {
+      deviceId: typeof deviceId === 'string' ? deviceId : undefined,
+      limit: typeof limit === 'string' ? Number.parseInt(limit, 10) || undefined : undefined
+    });
+    return res.json({ punches });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to fetch kiosk punches');
+  }
+};
+
+/**
+ * GET /api/hr/admin/attendance/kiosk-punches/:id/photo
+ */
+export const getAttendanceKioskPunchPhoto = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const photo = await getKioskPunchPhoto(businessId, req.params.id);
+    if (!photo) {
+      return res.status(404).json({ error: 'Photo not found' });
+    }
+
+    res.setHeader('Content-Type', photo.type || 'image/jpeg');
+    res.setHeader('Content-Disposition', `inline; filename="${photo.name.replace(/"/g, '')}"`);
+    return res.send(photo.buffer);
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to fetch kiosk photo');
+  }
+};
+
+/**
+ * Employee sets their own kiosk PIN
+ * PUT /api/hr/me/attendance/kiosk-pin
+ */
+export const updateMyAttendanceKioskPin = async (req: Request, res: Response) => {
+  try {
+    const businessId = resolveBusinessId(req);
+    if (!businessId) {
+      return res.status(400).json({ error: 'businessId is required' });
+    }
+
+    const employeePositionId = await findActiveEmployeePositionId(businessId, req.user!.id);
+    if (!employeePositionId) {
+      return res.status(404).json({ error: 'Active employee position not found for this user' });
+    }
+
+    const { pin } = parseSchemaBody(kioskPinSchema, req.body, 'pin', 'Invalid kiosk PIN');
+    await setKioskCredential({ businessId, employeePositionId, pin });
+    return res.json({ success: true });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to update kiosk PIN');
+  }
+};
+
+/**
+ * Kiosk device details for the paired kiosk page
+ * GET /api/attendance-kiosk/session
+ */
+export const getAttendanceKioskSession = async (req: Request, res: Response) => {
+  try {
+    const session = await getKioskSession(req.kioskDevice!);
+    return res.json(session);
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to load kiosk session');
+  }
+};
+
+/**
+ * Record punches from a kiosk: a single live punch or an offline backlog.
+ * Multipart form with a "punches" JSON field and optional "photo:<clientPunchId>" images.
+ * POST /api/attendance-kiosk/punches
+ */
+export const submitAttendanceKioskPunches = async (req: Request, res: Response) => {
+  try {
+    let rawPunches: unknown = req.body?.punches;
+    if (typeof rawPunches === 'string') {
+      try {
+        rawPunches = JSON.parse(rawPunches);
+      } catch {
+        throw new FieldValidationError('punches', 'punches must be valid JSON');
+      }
+    }
+    const punches = parseSchemaBody(kioskPunchesSchema, rawPunches, 'punches', 'Invalid kiosk punches');
+
+    const photos = new Map<string, Express.Multer.File>();
+    const files = Array.isArray(req.files) ? req.files : [];
+    for (const file of files) {
+      photos.set(file.fieldname.slice('photo:'.length), file);
+    }
+
+    const results = await submitKioskPunches(
+      req.kioskDevice!,
+      punches.map((punch) => ({ ...punch, occurredAt: punch.occurredAt ? new Date(punch.occurredAt) : null })),
+      photos
+    );
+    return res.json({ results });
+  } catch (error) {
+    return sendKioskError(res, error, 'Failed to record kiosk punches');
+  }
+};
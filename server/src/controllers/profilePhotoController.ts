@@ -4,6 +4,7 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { storageService } from '../services/storageService';
+import { assertStorageAvailable, StorageQuotaExceededError } from '../services/storageQuotaService';
 import sharp from 'sharp';
 import { logger } from '../lib/logger';
 
@@ -171,6 +172,9 @@ export async function uploadProfilePhoto(req: RequestWithFile, res: Response) {
       return res.status(400).json({ error: 'Failed to process uploaded file' });
     }
 
+    // Profile photos are personal storage; the avatar rendition is small enough to ignore here
+    await assertStorageAvailable({ userId, businessId: null }, req.file.size);
+
     // Upload original file using storage service
     const uploadOriginalResult = await storageService.uploadFile(req.file, uniqueOriginalFilename, {
       makePublic: true,
@@ -214,6 +218,7 @@ export async function uploadProfilePhoto(req: RequestWithFile, res: Response) {
         userId,
         originalUrl,
         avatarUrl,
+        size: req.file.size + avatarBuffer.length,
         crop: cropParams ? (cropParams as unknown as object) : undefined,
         rotation: typeof cropParams?.rotation === 'number' ? Math.round(cropParams.rotation) : undefined,
       },
@@ -269,6 +274,12 @@ export async function uploadProfilePhoto(req: RequestWithFile, res: Response) {
     });
 
   } catch (error: unknown) {
+    if (error instanceof StorageQuotaExceededError) {
+      if (req.file?.path && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+      return res.status(error.status).json({ error: error.message, ...error.toResponse() });
+    }
     const err = error instanceof Error ? error : new Error(String(error));
     const userId = req.user && typeof req.user === 'object' && 'id' in req.user
       ? String((req.user as { id?: string; sub?: string }).id ?? (req.user as { sub?: string }).sub)
@@ -6,9 +6,67 @@ import { Prisma, BusinessRole, SchedulingStrategy, JobFunction, StationType, Sch
 import { getRecommendedSchedulingConfig } from '../services/schedulingRecommendationService';
 import { SchedulingPhilosophyService } from '../services/schedulingPhilosophyService';
 import { getChatSocketService } from '../services/chatSocketService';
+import { generateWeekFromTemplates, MAX_TEMPLATE_HEADCOUNT, normalizeTemplateDays, timeToMinutes } from '../services/shiftTemplateService';
+import { runAutoScheduler } from '../services/schedulingSolverService';
+import {
+  complianceToCsv,
+  coverageToCsv,
+  DEFAULT_COMPLIANCE_RULES,
+  getComplianceReport,
+  getCoverageReport,
+  getLaborCostReport,
+  laborCostToCsv,
+  type ComplianceRules
+} from '../services/schedulingAnalyticsService';
 
 const TIME_FIELD_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
+type GeofenceFields = {
+  latitude?: number | null;
+  longitude?: number | null;
+  geofenceRadiusMeters?: number | null;
+};
+
+/**
+ * Parse the optional geofence fields shared by stations and job locations.
+ * Keys missing from the body are left out so updates only touch what was sent.
+ */
+const parseGeofenceFields = (body: Record<string, unknown>): { data: GeofenceFields } | { error: string } => {
+  const data: GeofenceFields = {};
+  const readNumber = (value: unknown) =>
+    value === null || value === '' ? null : typeof value === 'number' ? value : Number(value);
+
+  if (body.latitude !== undefined) {
+    const latitude = readNumber(body.latitude);
+    if (latitude !== null && (!Number.isFinite(latitude) || latitude < -90 || latitude > 90)) {
+      return { error: 'Latitude must be between -90 and 90' };
+    }
+    data.latitude = latitude;
+  }
+
+  if (body.longitude !== undefined) {
+    const longitude = readNumber(body.longitude);
+    if (longitude !== null && (!Number.isFinite(longitude) || longitude < -180 || longitude > 180)) {
+      return { error: 'Longitude must be between -180 and 180' };
+    }
+    data.longitude = longitude;
+  }
+
+  if ((data.latitude === undefined) !== (data.longitude === undefined) || (data.latitude === null) !== (data.longitude === null)) {
+    return { error: 'Latitude and longitude must be provided together' };
+  }
+
+  if (body.geofenceRadiusMeters !== undefined) {
+    const radius = readNumber(body.geofenceRadiusMeters);
+    if (radius !== null && (!Number.isInteger(radius) || radius <= 0 || radius > 100000)) {
+      return { error: 'Geofence radius must be a whole number of meters between 1 and 100000' };
+    }
+    data.geofenceRadiusMeters = radius;
+  }
+
+  return { data };
+};
+
 // ============================================================================
 // ADMIN - Schedule Management
 // ============================================================================
@@ -442,6 +500,159 @@ export async function deleteSchedule(
   }
 }
 
+type PublishableSchedule = {
+  id: string;
+  businessId: string;
+  shifts: Array<{ id: string; employeePositionId: string | null; startTime: Date; endTime: Date }>;
+};
+
+/**
+ * Mark a schedule published, create expected attendance records when HR is installed,
+ * sync shifts to calendars and broadcast the change. Shared by admin and team publishing.
+ */
+async function markSchedulePublished(schedule: PublishableSchedule, userId: string) {
+  const { id } = schedule;
+
+  // Allow republishing - update publishedAt timestamp and publishedById
+  // This enables admins/managers to make edits and republish
+  const updatedSchedule = await prisma.schedule.update({
+    where: { id },
+    data: {
+      status: 'PUBLISHED',
+      publishedAt: new Date(),
+      publishedById: userId
+    }
+  });
+
+  // Check if HR module is installed and create expected attendance records
+  try {
+    const hrInstallation = await prisma.businessModuleInstallation.findFirst({
+      where: {
+        businessId: schedule.businessId,
+        moduleId: 'hr',
+        enabled: true
+      }
+    });
+
+    if (hrInstallation) {
+      // Create expected attendance records for assigned shifts
+      const assignedShifts = schedule.shifts.filter(s => s.employeePositionId);
+      
+      for (const shift of assignedShifts) {
+        if (!shift.employeePositionId) continue;
+        
+        const shiftStart = new Date(shift.startTime);
+        const shiftEnd = new Date(shift.endTime);
+        const workDate = new Date(shiftStart);
+        workDate.setHours(0, 0, 0, 0);
+        
+        // Check if attendance record already exists for this shift
+        // Query records for this employee/date and check metadata in code
+        const existingRecords = await prisma.attendanceRecord.findMany({
+          where: {
+            businessId: schedule.businessId,
+            employeePositionId: shift.employeePositionId,
+            workDate: workDate
+          }
+        });
+
+        // Check if any record has this shift ID in metadata
+        const existingRecord = existingRecords.find(record => {
+          if (!record.metadata || typeof record.metadata !== 'object') return false;
+          const meta = record.metadata as Record<string, unknown>;
+          return meta.scheduleShiftId === shift.id;
+        });
+
+        if (!existingRecord) {
+          // Create expected attendance record (status = MISSED until employee clocks in)
+          await prisma.attendanceRecord.create({
+            data: {
+              businessId: schedule.businessId,
+              employeePositionId: shift.employeePositionId,
+              workDate: workDate,
+              status: AttendanceRecordStatus.MISSED, // Will be updated to IN_PROGRESS when employee clocks in
+              metadata: {
+                scheduleShiftId: shift.id,
+                scheduleId: schedule.id,
+                expectedStartTime: shiftStart.toISOString(),
+                expectedEndTime: shiftEnd.toISOString(),
+                source: 'scheduling_module'
+              }
+            }
+          });
+        }
+      }
+
+      logger.info('Expected attendance records created', {
+        operation: 'publish_schedule',
+        scheduleId: id,
+        recordsCreated: assignedShifts.length
+      });
+
+      // Sync shifts to calendar
+      try {
+        const { syncScheduleShiftsToCalendar } = await import('../services/hrScheduleService');
+        await syncScheduleShiftsToCalendar(id, schedule.businessId);
+        logger.info('Schedule shifts synced to calendar', {
+          operation: 'publish_schedule',
+          scheduleId: id,
+          shiftCount: schedule.shifts.length
+        });
+      } catch (calendarError) {
+        // Log but don't fail schedule publication if calendar sync fails
+        logger.warn('Failed to sync schedule to calendar', {
+          operation: 'publish_schedule',
+          scheduleId: id,
+          error: {
+            message: calendarError instanceof Error ? calendarError.message : 'Unknown error',
+            stack: calendarError instanceof Error ? calendarError.stack : undefined
+          }
+        });
+      }
+    }
+  } catch (hrError) {
+    // Log but don't fail schedule publication if HR sync fails
+    logger.warn('Failed to sync expected attendance records', {
+      operation: 'publish_schedule',
+      scheduleId: id,
+      error: {
+        message: hrError instanceof Error ? hrError.message : 'Unknown error',
+        stack: hrError instanceof Error ? hrError.stack : undefined
+      }
+    });
+  }
+
+  // TODO: Send notifications to employees about published schedule
+
+  logger.info('Schedule published', {
+    operation: 'publish_schedule',
+    userId,
+    scheduleId: id,
+    shiftCount: schedule.shifts.length
+  });
+
+  // Broadcast schedule published event via WebSocket
+  try {
+    const socketService = getChatSocketService();
+    socketService.broadcastSchedulePublished(
+      schedule.businessId,
+      id,
+      updatedSchedule as unknown as Record<string, unknown>
+    );
+  } catch (socketError) {
+    // Don't fail the request if WebSocket broadcast fails
+    logger.warn('Failed to broadcast schedule published event', {
+      operation: 'publish_schedule_broadcast',
+      error: {
+        message: socketError instanceof Error ? socketError.message : 'Unknown error',
+        stack: socketError instanceof Error ? socketError.stack : undefined
+      }
+    });
+  }
+
+  return updatedSchedule;
+}
+
 export async function publishSchedule(
   req: AuthenticatedRequest,
   res: Response
@@ -483,142 +694,7 @@ export async function publishSchedule(
       return;
     }
 
-    // Allow republishing - update publishedAt timestamp and publishedById
-    // This enables admins/managers to make edits and republish
-    const updatedSchedule = await prisma.schedule.update({
-      where: { id },
-      data: {
-        status: 'PUBLISHED',
-        publishedAt: new Date(),
-        publishedById: user.id
-      }
-    });
-
-    // Check if HR module is installed and create expected attendance records
-    try {
-      const hrInstallation = await prisma.businessModuleInstallation.findFirst({
-        where: {
-          businessId: schedule.businessId,
-          moduleId: 'hr',
-          enabled: true
-        }
-      });
-
-      if (hrInstallation) {
-        // Create expected attendance records for assigned shifts
-        const assignedShifts = schedule.shifts.filter(s => s.employeePositionId);
-        
-        for (const shift of assignedShifts) {
-          if (!shift.employeePositionId) continue;
-          
-          const shiftStart = new Date(shift.startTime);
-          const shiftEnd = new Date(shift.endTime);
-          const workDate = new Date(shiftStart);
-          workDate.setHours(0, 0, 0, 0);
-          
-          // Check if attendance record already exists for this shift
-          // Query records for this employee/date and check metadata in code
-          const existingRecords = await prisma.attendanceRecord.findMany({
-            where: {
-              businessId: schedule.businessId,
-              employeePositionId: shift.employeePositionId,
-              workDate: workDate
-            }
-          });
-
-          // Check if any record has this shift ID in metadata
-          const existingRecord = existingRecords.find(record => {
-            if (!record.metadata || typeof record.metadata !== 'object') return false;
-            const meta = record.metadata as Record<string, unknown>;
-            return meta.scheduleShiftId === shift.id;
-          });
-
-          if (!existingRecord) {
-            // Create expected attendance record (status = MISSED until employee clocks in)
-            await prisma.attendanceRecord.create({
-              data: {
-                businessId: schedule.businessId,
-                employeePositionId: shift.employeePositionId,
-                workDate: workDate,
-                status: AttendanceRecordStatus.MISSED, // Will be updated to IN_PROGRESS when employee clocks in
-                metadata: {
-                  scheduleShiftId: shift.id,
-                  scheduleId: schedule.id,
-                  expectedStartTime: shiftStart.toISOString(),
-                  expectedEndTime: shiftEnd.toISOString(),
-                  source: 'scheduling_module'
-                }
-              }
-            });
-          }
-        }
-
-        logger.info('Expected attendance records created', {
-          operation: 'publish_schedule',
-          scheduleId: id,
-          recordsCreated: assignedShifts.length
-        });
-
-        // Sync shifts to calendar
-        try {
-          const { syncScheduleShiftsToCalendar } = await import('../services/hrScheduleService');
-          await syncScheduleShiftsToCalendar(id, schedule.businessId);
-          logger.info('Schedule shifts synced to calendar', {
-            operation: 'publish_schedule',
-            scheduleId: id,
-            shiftCount: schedule.shifts.length
-          });
-        } catch (calendarError) {
-          // Log but don't fail schedule publication if calendar sync fails
-          logger.warn('Failed to sync schedule to calendar', {
-            operation: 'publish_schedule',
-            scheduleId: id,
-            error: {
-              message: calendarError instanceof Error ? calendarError.message : 'Unknown error',
-              stack: calendarError instanceof Error ? calendarError.stack : undefined
-            }
-          });
-        }
-      }
-    } catch (hrError) {
-      // Log but don't fail schedule publication if HR sync fails
-      logger.warn('Failed to sync expected attendance records', {
-        operation: 'publish_schedule',
-        scheduleId: id,
-        error: {
-          message: hrError instanceof Error ? hrError.message : 'Unknown error',
-          stack: hrError instanceof Error ? hrError.stack : undefined
-        }
-      });
-    }
-
-    // TODO: Send notifications to employees about published schedule
-
-    logger.info('Schedule published', {
-      operation: 'publish_schedule',
-      userId: user.id,
-      scheduleId: id,
-      shiftCount: schedule.shifts.length
-    });
-
-    // Broadcast schedule published event via WebSocket
-    try {
-      const socketService = getChatSocketService();
-      socketService.broadcastSchedulePublished(
-        schedule.businessId,
-        id,
-        updatedSchedule as unknown as Record<string, unknown>
-      );
-    } catch (socketError) {
-      // Don't fail the request if WebSocket broadcast fails
-      logger.warn('Failed to broadcast schedule published event', {
-        operation: 'publish_schedule_broadcast',
-        error: {
-          message: socketError instanceof Error ? socketError.message : 'Unknown error',
-          stack: socketError instanceof Error ? socketError.stack : undefined
-        }
-      });
-    }
+    const updatedSchedule = await markSchedulePublished(schedule, user.id);
 
     res.json({ schedule: updatedSchedule, message: 'Schedule published successfully' });
   } catch (error) {
@@ -1573,31 +1649,110 @@ export async function getShiftById(req: AuthenticatedRequest, res: Response): Pr
 }
 
 // ============================================================================
-// STUB IMPLEMENTATIONS - To be completed in future phases
+// SHIFT TEMPLATES
 // ============================================================================
 
-// Templates
-export async function getShiftTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.json({ templates: [] });
-}
+const SHIFT_TEMPLATE_INCLUDE = {
+  position: { select: { id: true, title: true } },
+  station: { select: { id: true, name: true, stationType: true, color: true } },
+  location: { select: { id: true, name: true } }
+} satisfies Prisma.ShiftTemplateInclude;
 
-export async function getShiftTemplateById(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Shift templates coming in Phase 2' });
-}
+type ShiftTemplateFields = Omit<Prisma.ShiftTemplateUncheckedUpdateInput, 'id' | 'businessId' | 'createdAt' | 'updatedAt'>;
 
-export async function createShiftTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Shift templates coming in Phase 2' });
-}
+/**
+ * Validate shift template fields from a request body. Keys missing from the body
+ * are left out so updates only touch what was sent; creates must send name and times.
+ */
+const parseShiftTemplateFields = async (
+  businessId: string,
+  body: Record<string, unknown>,
+  requireAll: boolean
+): Promise<{ data: ShiftTemplateFields } | { error: string }> => {
+  const data: ShiftTemplateFields = {};
+  const readOptionalId = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+
+  if (body.name !== undefined || requireAll) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return { error: 'Template name is required' };
+    }
+    data.name = body.name.trim();
+  }
 
-export async function updateShiftTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Shift templates coming in Phase 2' });
-}
+  for (const field of ['defaultStartTime', 'defaultEndTime'] as const) {
+    if (body[field] === undefined && !requireAll) continue;
+    const value = typeof body[field] === 'string' ? (body[field] as string).trim() : '';
+    if (!TIME_FIELD_REGEX.test(value)) {
+      const label = field === 'defaultStartTime' ? 'start' : 'end';
+      return { error: `Invalid default ${label} time. Use HH:mm (24-hour format).` };
+    }
+    data[field] = value;
+  }
 
-export async function deleteShiftTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Shift templates coming in Phase 2' });
-}
+  if (body.defaultBreakMinutes !== undefined) {
+    const minutes = body.defaultBreakMinutes === null || body.defaultBreakMinutes === '' ? null : Number(body.defaultBreakMinutes);
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 0 || minutes > 480)) {
+      return { error: 'Break minutes must be a whole number between 0 and 480' };
+    }
+    data.defaultBreakMinutes = minutes;
+  }
 
-export async function getScheduleTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (body.requiredHeadcount !== undefined) {
+    const headcount = Number(body.requiredHeadcount);
+    if (!Number.isInteger(headcount) || headcount < 1 || headcount > MAX_TEMPLATE_HEADCOUNT) {
+      return { error: `Required headcount must be a whole number between 1 and ${MAX_TEMPLATE_HEADCOUNT}` };
+    }
+    data.requiredHeadcount = headcount;
+  }
+
+  if (body.daysOfWeek !== undefined) {
+    if (!Array.isArray(body.daysOfWeek) || body.daysOfWeek.some((day) => typeof day !== 'string')) {
+      return { error: 'daysOfWeek must be an array of day names' };
+    }
+    try {
+      data.daysOfWeek = normalizeTemplateDays(body.daysOfWeek as string[]);
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
+  if (body.description !== undefined) data.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  if (body.color !== undefined) data.color = readOptionalId(body.color);
+  if (body.departmentId !== undefined) data.departmentId = readOptionalId(body.departmentId);
+  if (body.isActive !== undefined) data.isActive = body.isActive === true;
+
+  if (body.positionId !== undefined) {
+    const positionId = readOptionalId(body.positionId);
+    if (positionId && !(await prisma.position.findFirst({ where: { id: positionId, businessId }, select: { id: true } }))) {
+      return { error: 'Position not found for this business' };
+    }
+    data.positionId = positionId;
+  }
+
+  if (body.stationId !== undefined) {
+    const stationId = readOptionalId(body.stationId);
+    if (stationId && !(await prisma.businessStation.findFirst({ where: { id: stationId, businessId }, select: { id: true } }))) {
+      return { error: 'Station not found for this business' };
+    }
+    data.stationId = stationId;
+  }
+
+  if (body.locationId !== undefined) {
+    const locationId = readOptionalId(body.locationId);
+    if (locationId && !(await prisma.jobLocation.findFirst({ where: { id: locationId, businessId }, select: { id: true } }))) {
+      return { error: 'Job location not found for this business' };
+    }
+    data.locationId = locationId;
+  }
+
+  return { data };
+};
+
+/**
+ * GET /api/scheduling/admin/templates
+ * List shift templates for a business
+ */
+export async function getShiftTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
     if (!user) {
@@ -1605,52 +1760,39 @@ export async function getScheduleTemplates(req: AuthenticatedRequest, res: Respo
       return;
     }
 
-    const { businessId } = req.query;
+    const { businessId, includeInactive } = req.query;
 
     if (!businessId || typeof businessId !== 'string') {
       res.status(400).json({ error: 'Business ID is required' });
       return;
     }
 
-    // Verify user has access to this business
-    const member = await prisma.businessMember.findUnique({
-      where: { businessId_userId: { businessId, userId: user.id } },
-    });
-
-    if (!member || !member.isActive) {
-      res.status(403).json({ error: 'Access denied' });
-      return;
-    }
-
-    const templates = await prisma.scheduleTemplate.findMany({
+    const templates = await prisma.shiftTemplate.findMany({
       where: {
         businessId,
-        isActive: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
+        ...(includeInactive === 'true' ? {} : { isActive: true })
       },
-    });
-
-    logger.info('Schedule templates retrieved', {
-      operation: 'get_schedule_templates',
-      userId: user.id,
-      businessId,
-      count: templates.length,
+      include: SHIFT_TEMPLATE_INCLUDE,
+      orderBy: [{ defaultStartTime: 'asc' }, { name: 'asc' }]
     });
 
     res.json({ templates });
   } catch (error: unknown) {
-    const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to get schedule templates', {
-      operation: 'get_schedule_templates',
-      error: { message: err.message, stack: err.stack },
+    const err = error as Error;
+    logger.error('Failed to list shift templates', {
+      operation: 'list_shift_templates',
+      userId: req.user?.id,
+      error: { message: err.message, stack: err.stack }
     });
-    res.status(500).json({ error: 'Failed to retrieve schedule templates' });
+    res.status(500).json({ error: 'Failed to retrieve shift templates' });
   }
 }
 
-export async function getScheduleTemplateById(req: AuthenticatedRequest, res: Response): Promise<void> {
+/**
+ * GET /api/scheduling/admin/templates/:id
+ * Get a specific shift template
+ */
+export async function getShiftTemplateById(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
     if (!user) {
@@ -1659,44 +1801,41 @@ export async function getScheduleTemplateById(req: AuthenticatedRequest, res: Re
     }
 
     const { id } = req.params;
+    const { businessId } = req.query;
 
-    const template = await prisma.scheduleTemplate.findUnique({
-      where: { id },
-    });
-
-    if (!template) {
-      res.status(404).json({ error: 'Template not found' });
+    if (!businessId || typeof businessId !== 'string') {
+      res.status(400).json({ error: 'Business ID is required' });
       return;
     }
 
-    // Verify user has access to this business
-    const member = await prisma.businessMember.findUnique({
-      where: { businessId_userId: { businessId: template.businessId, userId: user.id } },
+    const template = await prisma.shiftTemplate.findFirst({
+      where: { id, businessId },
+      include: SHIFT_TEMPLATE_INCLUDE
     });
 
-    if (!member || !member.isActive) {
-      res.status(403).json({ error: 'Access denied' });
+    if (!template) {
+      res.status(404).json({ error: 'Shift template not found' });
       return;
     }
 
-    logger.info('Schedule template retrieved', {
-      operation: 'get_schedule_template',
-      userId: user.id,
-      templateId: id,
-    });
-
     res.json({ template });
   } catch (error: unknown) {
-    const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to get schedule template', {
-      operation: 'get_schedule_template',
-      error: { message: err.message, stack: err.stack },
+    const err = error as Error;
+    logger.error('Failed to get shift template', {
+      operation: 'get_shift_template',
+      userId: req.user?.id,
+      templateId: req.params.id,
+      error: { message: err.message, stack: err.stack }
     });
-    res.status(500).json({ error: 'Failed to retrieve schedule template' });
+    res.status(500).json({ error: 'Failed to retrieve shift template' });
   }
 }
 
-export async function createScheduleTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+/**
+ * POST /api/scheduling/admin/templates
+ * Create a recurring shift template
+ */
+export async function createShiftTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
     if (!user) {
@@ -1704,128 +1843,57 @@ export async function createScheduleTemplate(req: AuthenticatedRequest, res: Res
       return;
     }
 
-    const { businessId, name, description, scheduleType, templateData, sourceScheduleId } = req.body;
+    const { businessId } = req.body;
 
-    if (!businessId || !name || !scheduleType) {
-      res.status(400).json({ error: 'Missing required fields: businessId, name, scheduleType' });
+    if (!businessId || typeof businessId !== 'string') {
+      res.status(400).json({ error: 'Business ID is required' });
       return;
     }
 
-    // Verify user has access to this business
-    const member = await prisma.businessMember.findUnique({
-      where: { businessId_userId: { businessId, userId: user.id } },
-    });
-
-    if (!member || !member.isActive) {
-      res.status(403).json({ error: 'Access denied' });
+    const fields = await parseShiftTemplateFields(businessId, req.body, true);
+    if ('error' in fields) {
+      res.status(400).json({ error: fields.error });
       return;
     }
 
-    let finalTemplateData: Prisma.InputJsonValue = templateData || {};
-
-    // If creating from an existing schedule, extract the pattern
-    if (sourceScheduleId) {
-      const schedule = await prisma.schedule.findUnique({
-        where: { id: sourceScheduleId },
-        include: {
-          shifts: {
-            include: {
-              position: {
-                select: { id: true, title: true },
-              },
-            },
-            orderBy: {
-              startTime: 'asc',
-            },
-          },
-        },
-      });
-
-      if (!schedule) {
-        res.status(404).json({ error: 'Source schedule not found' });
-        return;
-      }
-
-      if (schedule.businessId !== businessId) {
-        res.status(403).json({ error: 'Schedule does not belong to this business' });
-        return;
-      }
-
-      // Extract shift patterns from the schedule
-      // Convert shifts to template patterns (day of week, time, position, station, etc.)
-      const shiftPatterns = schedule.shifts.map((shift) => {
-        const startTime = new Date(shift.startTime);
-        const endTime = new Date(shift.endTime);
-        const dayOfWeek = startTime.toLocaleDateString('en-US', { weekday: 'long' }).toUpperCase();
-        const startHour = startTime.getHours();
-        const startMinute = startTime.getMinutes();
-        const endHour = endTime.getHours();
-        const endMinute = endTime.getMinutes();
-
-        return {
-          dayOfWeek,
-          startTime: `${String(startHour).padStart(2, '0')}:${String(startMinute).padStart(2, '0')}`,
-          endTime: `${String(endHour).padStart(2, '0')}:${String(endMinute).padStart(2, '0')}`,
-          positionId: shift.positionId || null,
-          positionTitle: shift.position?.title || null,
-          stationName: shift.stationName || null,
-          breakMinutes: shift.breakMinutes || 0,
-          notes: shift.notes || null,
-          color: shift.color || null,
-          minStaffing: shift.minStaffing || 1,
-          maxStaffing: shift.maxStaffing || 1,
-          isOpenShift: shift.isOpenShift || false,
-        };
-      });
-
-      finalTemplateData = {
-        shiftPatterns,
-        sourceScheduleId,
-        sourceScheduleName: schedule.name,
-      };
-    }
-
-    // Check for duplicate name
-    const existing = await prisma.scheduleTemplate.findUnique({
-      where: { businessId_name: { businessId, name } },
+    const duplicate = await prisma.shiftTemplate.findUnique({
+      where: { businessId_name: { businessId, name: fields.data.name as string } }
     });
 
-    if (existing) {
-      res.status(409).json({ error: 'Template with this name already exists' });
+    if (duplicate) {
+      res.status(409).json({ error: 'Shift template with this name already exists' });
       return;
     }
 
-    const template = await prisma.scheduleTemplate.create({
-      data: {
-        businessId,
-        name,
-        description: description || null,
-        scheduleType,
-        templateData: finalTemplateData as Prisma.InputJsonValue,
-        isActive: true,
-      },
+    const template = await prisma.shiftTemplate.create({
+      data: { ...fields.data, businessId } as Prisma.ShiftTemplateUncheckedCreateInput,
+      include: SHIFT_TEMPLATE_INCLUDE
     });
 
-    logger.info('Schedule template created', {
-      operation: 'create_schedule_template',
+    logger.info('Shift template created', {
+      operation: 'create_shift_template',
       userId: user.id,
-      templateId: template.id,
       businessId,
-      sourceScheduleId: sourceScheduleId || null,
+      templateId: template.id
     });
 
     res.status(201).json({ template });
   } catch (error: unknown) {
-    const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to create schedule template', {
-      operation: 'create_schedule_template',
-      error: { message: err.message, stack: err.stack },
+    const err = error as Error;
+    logger.error('Failed to create shift template', {
+      operation: 'create_shift_template',
+      userId: req.user?.id,
+      error: { message: err.message, stack: err.stack }
     });
-    res.status(500).json({ error: 'Failed to create schedule template' });
+    res.status(500).json({ error: 'Failed to create shift template' });
   }
 }
 
-export async function updateScheduleTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+/**
+ * PUT /api/scheduling/admin/templates/:id
+ * Update a shift template
+ */
+export async function updateShiftTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
     if (!user) {
@@ -1834,68 +1902,68 @@ export async function updateScheduleTemplate(req: AuthenticatedRequest, res: Res
     }
 
     const { id } = req.params;
-    const { name, description, scheduleType, templateData, isActive } = req.body;
-
-    const template = await prisma.scheduleTemplate.findUnique({
-      where: { id },
-    });
+    const { businessId } = req.body;
 
-    if (!template) {
-      res.status(404).json({ error: 'Template not found' });
+    if (!businessId || typeof businessId !== 'string') {
+      res.status(400).json({ error: 'Business ID is required' });
       return;
     }
 
-    // Verify user has access to this business
-    const member = await prisma.businessMember.findUnique({
-      where: { businessId_userId: { businessId: template.businessId, userId: user.id } },
-    });
+    const existing = await prisma.shiftTemplate.findFirst({ where: { id, businessId } });
 
-    if (!member || !member.isActive) {
-      res.status(403).json({ error: 'Access denied' });
+    if (!existing) {
+      res.status(404).json({ error: 'Shift template not found' });
       return;
     }
 
-    // Check for duplicate name if name is being changed
-    if (name && name !== template.name) {
-      const existing = await prisma.scheduleTemplate.findUnique({
-        where: { businessId_name: { businessId: template.businessId, name } },
+    const fields = await parseShiftTemplateFields(businessId, req.body, false);
+    if ('error' in fields) {
+      res.status(400).json({ error: fields.error });
+      return;
+    }
+
+    if (fields.data.name && fields.data.name !== existing.name) {
+      const duplicate = await prisma.shiftTemplate.findUnique({
+        where: { businessId_name: { businessId, name: fields.data.name as string } }
       });
 
-      if (existing) {
-        res.status(409).json({ error: 'Template with this name already exists' });
+      if (duplicate) {
+        res.status(409).json({ error: 'Shift template with this name already exists' });
         return;
       }
     }
 
-    const updatedTemplate = await prisma.scheduleTemplate.update({
+    const template = await prisma.shiftTemplate.update({
       where: { id },
-      data: {
-        ...(name && { name }),
-        ...(description !== undefined && { description }),
-        ...(scheduleType && { scheduleType }),
-        ...(templateData && { templateData: templateData as Prisma.InputJsonValue }),
-        ...(isActive !== undefined && { isActive }),
-      },
+      data: fields.data,
+      include: SHIFT_TEMPLATE_INCLUDE
     });
 
-    logger.info('Schedule template updated', {
-      operation: 'update_schedule_template',
+    logger.info('Shift template updated', {
+      operation: 'update_shift_template',
       userId: user.id,
-      templateId: id,
+      businessId,
+      templateId: template.id
     });
 
-    res.json({ template: updatedTemplate });
+    res.json({ template });
   } catch (error: unknown) {
-    const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to update schedule template', {
-      operation: 'update_schedule_template',
-      error: { message: err.message, stack: err.stack },
+    const err = error as Error;
+    logger.error('Failed to update shift template', {
+      operation: 'update_shift_template',
+      userId: req.user?.id,
+      templateId: req.params.id,
+      error: { message: err.message, stack: err.stack }
     });
-    res.status(500).json({ error: 'Failed to update schedule template' });
+    res.status(500).json({ error: 'Failed to update shift template' });
   }
 }
 
-export async function deleteScheduleTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+/**
+ * DELETE /api/scheduling/admin/templates/:id
+ * Delete a shift template. Shifts generated from it keep their details.
+ */
+export async function deleteShiftTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
     if (!user) {
@@ -1904,81 +1972,117 @@ export async function deleteScheduleTemplate(req: AuthenticatedRequest, res: Res
     }
 
     const { id } = req.params;
+    const { businessId } = req.query;
 
-    const template = await prisma.scheduleTemplate.findUnique({
-      where: { id },
-    });
-
-    if (!template) {
-      res.status(404).json({ error: 'Template not found' });
+    if (!businessId || typeof businessId !== 'string') {
+      res.status(400).json({ error: 'Business ID is required' });
       return;
     }
 
-    // Verify user has access to this business
-    const member = await prisma.businessMember.findUnique({
-      where: { businessId_userId: { businessId: template.businessId, userId: user.id } },
-    });
+    const existing = await prisma.shiftTemplate.findFirst({ where: { id, businessId } });
 
-    if (!member || !member.isActive) {
-      res.status(403).json({ error: 'Access denied' });
+    if (!existing) {
+      res.status(404).json({ error: 'Shift template not found' });
       return;
     }
 
-    await prisma.scheduleTemplate.delete({
-      where: { id },
-    });
+    await prisma.shiftTemplate.delete({ where: { id } });
 
-    logger.info('Schedule template deleted', {
-      operation: 'delete_schedule_template',
+    logger.info('Shift template deleted', {
+      operation: 'delete_shift_template',
       userId: user.id,
-      templateId: id,
+      businessId,
+      templateId: id
     });
 
-    res.json({ success: true, message: 'Template deleted successfully' });
+    res.json({ success: true, message: 'Shift template deleted successfully' });
   } catch (error: unknown) {
-    const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to delete schedule template', {
-      operation: 'delete_schedule_template',
-      error: { message: err.message, stack: err.stack },
+    const err = error as Error;
+    logger.error('Failed to delete shift template', {
+      operation: 'delete_shift_template',
+      userId: req.user?.id,
+      templateId: req.params.id,
+      error: { message: err.message, stack: err.stack }
     });
-    res.status(500).json({ error: 'Failed to delete schedule template' });
+    res.status(500).json({ error: 'Failed to delete shift template' });
   }
 }
 
-// Analytics
-export async function getLaborCostAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Analytics coming in Phase 3' });
-}
+/**
+ * POST /api/scheduling/admin/templates/generate-week
+ * Create open shifts for a week from the active shift templates, in a new or existing draft schedule
+ */
+export async function generateWeekFromShiftTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
 
-export async function getCoverageAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Analytics coming in Phase 3' });
-}
+    const { businessId, weekStart, scheduleId, templateIds, name, timezone } = req.body;
 
-export async function getComplianceReports(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Compliance reports coming in Phase 3' });
+    if (!businessId || typeof businessId !== 'string') {
+      res.status(400).json({ error: 'Business ID is required' });
+      return;
+    }
+
+    if (!weekStart || typeof weekStart !== 'string') {
+      res.status(400).json({ error: 'weekStart is required' });
+      return;
+    }
+
+    if (templateIds !== undefined && (!Array.isArray(templateIds) || templateIds.some((value) => typeof value !== 'string'))) {
+      res.status(400).json({ error: 'templateIds must be an array of template IDs' });
+      return;
+    }
+
+    const result = await generateWeekFromTemplates({
+      businessId,
+      userId: user.id,
+      weekStart,
+      scheduleId: typeof scheduleId === 'string' && scheduleId ? scheduleId : undefined,
+      templateIds,
+      name: typeof name === 'string' ? name : undefined,
+      timezone: typeof timezone === 'string' && timezone ? timezone : undefined
+    });
+
+    res.status(result.created > 0 ? 201 : 200).json(result);
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (/not found/i.test(err.message)) {
+      res.status(404).json({ error: err.message });
+      return;
+    }
+    if (/must/i.test(err.message)) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    logger.error('Failed to generate week from shift templates', {
+      operation: 'generate_week_from_templates',
+      userId: req.user?.id,
+      error: { message: err.message, stack: err.stack }
+    });
+    res.status(500).json({ error: 'Failed to generate shifts from templates' });
+  }
 }
 
-/**
- * GET /api/scheduling/admin/availability
- * Get all employee availability for a business (Admin)
- */
-export async function getAllEmployeeAvailability(req: AuthenticatedRequest, res: Response): Promise<void> {
+// ============================================================================
+// STUB IMPLEMENTATIONS - To be completed in future phases
+// ============================================================================
+
+export async function getScheduleTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
-    // Get businessId from middleware or validate from query
-    let businessId: string | undefined = req.businessId;
-    if (!businessId) {
-      const businessIdParam = req.query.businessId;
-      if (businessIdParam && typeof businessIdParam === 'string') {
-        businessId = businessIdParam;
-      } else if (businessIdParam) {
-        res.status(400).json({ error: 'businessId must be a string' });
-        return;
-      }
+    if (!user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
     }
 
-    if (!user || !businessId) {
-      res.status(401).json({ error: 'User not authenticated' });
+    const { businessId } = req.query;
+
+    if (!businessId || typeof businessId !== 'string') {
+      res.status(400).json({ error: 'Business ID is required' });
       return;
     }
 
@@ -1992,264 +2096,764 @@ export async function getAllEmployeeAvailability(req: AuthenticatedRequest, res:
       return;
     }
 
-    // Query all availability records for this business
-    const availability = await prisma.employeeAvailability.findMany({
+    const templates = await prisma.scheduleTemplate.findMany({
       where: {
-        businessId
-      },
-      orderBy: [
-        { employeePositionId: 'asc' },
-        { dayOfWeek: 'asc' },
-        { startTime: 'asc' }
-      ],
-      include: {
-        employeePosition: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true
-              }
-            },
-            position: {
-              select: {
-                id: true,
-                title: true
-              }
-            }
-          }
-        }
-      }
+        businessId,
+        isActive: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
     });
 
-    logger.info('Admin fetched all employee availability', {
-      businessId,
+    logger.info('Schedule templates retrieved', {
+      operation: 'get_schedule_templates',
       userId: user.id,
-      count: availability.length
+      businessId,
+      count: templates.length,
     });
 
-    res.json({ availability });
+    res.json({ templates });
   } catch (error: unknown) {
     const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to fetch all employee availability', {
-      operation: 'get_all_employee_availability',
+    logger.error('Failed to get schedule templates', {
+      operation: 'get_schedule_templates',
       error: { message: err.message, stack: err.stack },
-      businessId: req.businessId || (typeof req.query.businessId === 'string' ? req.query.businessId : undefined)
     });
-    res.status(500).json({ error: 'Failed to fetch availability' });
+    res.status(500).json({ error: 'Failed to retrieve schedule templates' });
   }
 }
 
-export async function updateEmployeeAvailabilityAdmin(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Availability management coming in Phase 2' });
-}
-
-export async function getAllShiftSwapRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.json({ swaps: [] });
-}
-
-/**
- * PUT /api/scheduling/admin/swaps/:id/approve
- * Approve a shift swap request (Admin)
- */
-export async function approveShiftSwapAdmin(req: AuthenticatedRequest, res: Response): Promise<void> {
+export async function getScheduleTemplateById(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
-    // Get businessId from middleware or validate from query
-    let businessId: string | undefined = req.businessId;
-    if (!businessId) {
-      const businessIdParam = req.query.businessId;
-      if (businessIdParam && typeof businessIdParam === 'string') {
-        businessId = businessIdParam;
-      } else if (businessIdParam) {
-        res.status(400).json({ error: 'businessId must be a string' });
-        return;
-      }
-    }
-    const swapId = req.params.id;
-    const { managerNotes } = req.body;
-
-    if (!user || !businessId || !swapId) {
-      res.status(401).json({ error: 'User not authenticated or missing required parameters' });
+    if (!user) {
+      res.status(401).json({ error: 'User not authenticated' });
       return;
     }
 
-    // Get the swap request
-    const swapRequest = await prisma.shiftSwapRequest.findUnique({
-      where: { id: swapId },
-      include: {
-        originalShift: {
-          include: {
-            employeePosition: true
-          }
-        }
-      }
-    });
+    const { id } = req.params;
 
-    if (!swapRequest || swapRequest.businessId !== businessId) {
-      res.status(404).json({ error: 'Swap request not found' });
-      return;
-    }
+    const template = await prisma.scheduleTemplate.findUnique({
+      where: { id },
+    });
 
-    if (swapRequest.status !== 'PENDING') {
-      res.status(400).json({ error: 'Swap request is not pending' });
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
       return;
     }
 
-    // Update swap request status
-    const updatedSwap = await prisma.shiftSwapRequest.update({
-      where: { id: swapId },
-      data: {
-        status: 'APPROVED',
-        approvedById: user.id,
-        approvedAt: new Date(),
-        reason: managerNotes ? `${swapRequest.reason || ''}\n\nAdmin notes: ${managerNotes}` : swapRequest.reason
-      },
-      include: {
-        originalShift: {
-          include: {
-            schedule: {
-              select: {
-                id: true,
-                name: true
-              }
-            },
-            employeePosition: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    name: true,
-                    email: true
-                  }
-                }
-              }
-            }
-          }
-        },
-        requestedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        },
-        requestedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
+    // Verify user has access to this business
+    const member = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId: template.businessId, userId: user.id } },
     });
 
-    // If a specific employee was requested, assign them to the shift
-    if (swapRequest.requestedToId && swapRequest.originalShift.employeePositionId) {
-      // Find the employee position for the requested user
-      const requestedEmployeePosition = await prisma.employeePosition.findFirst({
-        where: {
-          userId: swapRequest.requestedToId,
-          businessId,
-          active: true
-        }
-      });
-
-      if (requestedEmployeePosition) {
-        // Get schedule status before updating shift
-        const schedule = await prisma.schedule.findUnique({
-          where: { id: swapRequest.originalShift.scheduleId },
-          select: { status: true }
-        });
-
-                                                                                                                                                                            await prisma.scheduleShift.update({
-          where: { id: swapRequest.originalShiftId },
-          data: {
-            employeePositionId: requestedEmployeePosition.id,
-            status: 'FILLED'
-          }
-        });
-
-        // Sync to calendar if schedule is published
-        if (schedule?.status === 'PUBLISHED') {
-          try {
-            const { syncSingleShiftToCalendar } = await import('../services/hrScheduleService');
-            await syncSingleShiftToCalendar(swapRequest.originalShiftId, businessId);
-          } catch (calendarError) {
-            // Log but don't fail swap approval if calendar sync fails
-            logger.warn('Failed to sync shift swap to calendar', {
-              operation: 'approve_shift_swap_admin_calendar_sync',
-              shiftId: swapRequest.originalShiftId,
-              swapId,
-              error: {
-                message: calendarError instanceof Error ? calendarError.message : 'Unknown error',
-                stack: calendarError instanceof Error ? calendarError.stack : undefined
-              }
-            });
-          }
-        }
-      }
+    if (!member || !member.isActive) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
     }
 
-    logger.info('Shift swap approved by admin', {
-      operation: 'approve_shift_swap_admin',
+    logger.info('Schedule template retrieved', {
+      operation: 'get_schedule_template',
       userId: user.id,
-      businessId,
-      swapId
+      templateId: id,
     });
 
-    res.json(updatedSwap);
+    res.json({ template });
   } catch (error: unknown) {
     const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to approve shift swap', {
-      operation: 'approve_shift_swap_admin',
-      error: { message: err.message, stack: err.stack }
+    logger.error('Failed to get schedule template', {
+      operation: 'get_schedule_template',
+      error: { message: err.message, stack: err.stack },
     });
-    res.status(500).json({ error: 'Failed to approve shift swap' });
+    res.status(500).json({ error: 'Failed to retrieve schedule template' });
   }
 }
 
-/**
- * PUT /api/scheduling/admin/swaps/:id/deny
- * Deny a shift swap request (Admin)
- */
-export async function denyShiftSwapAdmin(req: AuthenticatedRequest, res: Response): Promise<void> {
+export async function createScheduleTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
-    // Get businessId from middleware or validate from query
-    let businessId: string | undefined = req.businessId;
-    if (!businessId) {
-      const businessIdParam = req.query.businessId;
-      if (businessIdParam && typeof businessIdParam === 'string') {
-        businessId = businessIdParam;
-      } else if (businessIdParam) {
-        res.status(400).json({ error: 'businessId must be a string' });
-        return;
-      }
+    if (!user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
     }
-    const swapId = req.params.id;
-    const { managerNotes } = req.body;
 
-    if (!user || !businessId || !swapId) {
-      res.status(401).json({ error: 'User not authenticated or missing required parameters' });
+    const { businessId, name, description, scheduleType, templateData, sourceScheduleId } = req.body;
+
+    if (!businessId || !name || !scheduleType) {
+      res.status(400).json({ error: 'Missing required fields: businessId, name, scheduleType' });
       return;
     }
 
-    // Get the swap request
-    const swapRequest = await prisma.shiftSwapRequest.findUnique({
-      where: { id: swapId }
+    // Verify user has access to this business
+    const member = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId, userId: user.id } },
     });
 
-    if (!swapRequest || swapRequest.businessId !== businessId) {
-      res.status(404).json({ error: 'Swap request not found' });
+    if (!member || !member.isActive) {
+      res.status(403).json({ error: 'Access denied' });
       return;
     }
 
-    if (swapRequest.status !== 'PENDING') {
-      res.status(400).json({ error: 'Swap request is not pending' });
-      return;
-    }
+    let finalTemplateData: Prisma.InputJsonValue = templateData || {};
+
+    // If creating from an existing schedule, extract the pattern
+    if (sourceScheduleId) {
+      const schedule = await prisma.schedule.findUnique({
+        where: { id: sourceScheduleId },
+        include: {
+          shifts: {
+            include: {
+              position: {
+                select: { id: true, title: true },
+              },
+            },
+            orderBy: {
+              startTime: 'asc',
+            },
+          },
+        },
+      });
+
+      if (!schedule) {
+        res.status(404).json({ error: 'Source schedule not found' });
+        return;
+      }
+
+      if (schedule.businessId !== businessId) {
+        res.status(403).json({ error: 'Schedule does not belong to this business' });
+        return;
+      }
+
+      // Extract shift patterns from the schedule
+      // Convert shifts to template patterns (day of week, time, position, station, etc.)
+      const shiftPatterns = schedule.shifts.map((shift) => {
+        const startTime = new Date(shift.startTime);
+        const endTime = new Date(shift.endTime);
+        const dayOfWeek = startTime.toLocaleDateString('en-US', { weekday: 'long' }).toUpperCase();
+        const startHour = startTime.getHours();
+        const startMinute = startTime.getMinutes();
+        const endHour = endTime.getHours();
+        const endMinute = endTime.getMinutes();
+
+        return {
+          dayOfWeek,
+          startTime: `${String(startHour).padStart(2, '0')}:${String(startMinute).padStart(2, '0')}`,
+          endTime: `${String(endHour).padStart(2, '0')}:${String(endMinute).padStart(2, '0')}`,
+          positionId: shift.positionId || null,
+          positionTitle: shift.position?.title || null,
+          stationName: shift.stationName || null,
+          breakMinutes: shift.breakMinutes || 0,
+          notes: shift.notes || null,
+          color: shift.color || null,
+          minStaffing: shift.minStaffing || 1,
+          maxStaffing: shift.maxStaffing || 1,
+          isOpenShift: shift.isOpenShift || false,
+        };
+      });
+
+      finalTemplateData = {
+        shiftPatterns,
+        sourceScheduleId,
+        sourceScheduleName: schedule.name,
+      };
+    }
+
+    // Check for duplicate name
+    const existing = await prisma.scheduleTemplate.findUnique({
+      where: { businessId_name: { businessId, name } },
+    });
+
+    if (existing) {
+      res.status(409).json({ error: 'Template with this name already exists' });
+      return;
+    }
+
+    const template = await prisma.scheduleTemplate.create({
+      data: {
+        businessId,
+        name,
+        description: description || null,
+        scheduleType,
+        templateData: finalTemplateData as Prisma.InputJsonValue,
+        isActive: true,
+      },
+    });
+
+    logger.info('Schedule template created', {
+      operation: 'create_schedule_template',
+      userId: user.id,
+      templateId: template.id,
+      businessId,
+      sourceScheduleId: sourceScheduleId || null,
+    });
+
+    res.status(201).json({ template });
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to create schedule template', {
+      operation: 'create_schedule_template',
+      error: { message: err.message, stack: err.stack },
+    });
+    res.status(500).json({ error: 'Failed to create schedule template' });
+  }
+}
+
+export async function updateScheduleTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, description, scheduleType, templateData, isActive } = req.body;
+
+    const template = await prisma.scheduleTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    // Verify user has access to this business
+    const member = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId: template.businessId, userId: user.id } },
+    });
+
+    if (!member || !member.isActive) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Check for duplicate name if name is being changed
+    if (name && name !== template.name) {
+      const existing = await prisma.scheduleTemplate.findUnique({
+        where: { businessId_name: { businessId: template.businessId, name } },
+      });
+
+      if (existing) {
+        res.status(409).json({ error: 'Template with this name already exists' });
+        return;
+      }
+    }
+
+    const updatedTemplate = await prisma.scheduleTemplate.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description }),
+        ...(scheduleType && { scheduleType }),
+        ...(templateData && { templateData: templateData as Prisma.InputJsonValue }),
+        ...(isActive !== undefined && { isActive }),
+      },
+    });
+
+    logger.info('Schedule template updated', {
+      operation: 'update_schedule_template',
+      userId: user.id,
+      templateId: id,
+    });
+
+    res.json({ template: updatedTemplate });
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to update schedule template', {
+      operation: 'update_schedule_template',
+      error: { message: err.message, stack: err.stack },
+    });
+    res.status(500).json({ error: 'Failed to update schedule template' });
+  }
+}
+
+export async function deleteScheduleTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const template = await prisma.scheduleTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    // Verify user has access to this business
+    const member = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId: template.businessId, userId: user.id } },
+    });
+
+    if (!member || !member.isActive) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    await prisma.scheduleTemplate.delete({
+      where: { id },
+    });
+
+    logger.info('Schedule template deleted', {
+      operation: 'delete_schedule_template',
+      userId: user.id,
+      templateId: id,
+    });
+
+    res.json({ success: true, message: 'Template deleted successfully' });
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to delete schedule template', {
+      operation: 'delete_schedule_template',
+      error: { message: err.message, stack: err.stack },
+    });
+    res.status(500).json({ error: 'Failed to delete schedule template' });
+  }
+}
+
+// Analytics
+
+/**
+ * Read the shared analytics query (businessId, startDate, endDate, timezone, scheduleId)
+ * and whether the caller asked for a CSV export.
+ */
+const parseAnalyticsQuery = (query: AuthenticatedRequest['query']) => {
+  const read = (key: string) => (typeof query[key] === 'string' && query[key] ? (query[key] as string) : undefined);
+  const businessId = read('businessId');
+  const startDate = read('startDate');
+  const endDate = read('endDate');
+
+  if (!businessId) return { error: 'Business ID is required' };
+  if (!startDate || !endDate) return { error: 'startDate and endDate are required' };
+
+  return {
+    range: { businessId, startDate, endDate, timezone: read('timezone'), scheduleId: read('scheduleId') },
+    csv: read('format') === 'csv'
+  };
+};
+
+const sendAnalyticsCsv = (res: Response, name: string, csv: string) => {
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${name}-${new Date().toISOString().slice(0, 10)}.csv"`);
+  res.send(csv);
+};
+
+const handleAnalyticsError = (req: AuthenticatedRequest, res: Response, error: unknown, operation: string, message: string) => {
+  const err = error as Error;
+  if (/must|invalid time zone/i.test(err.message)) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+  logger.error(`Failed to ${message}`, {
+    operation,
+    userId: req.user?.id,
+    error: { message: err.message, stack: err.stack }
+  });
+  res.status(500).json({ error: `Failed to ${message}` });
+};
+
+/**
+ * GET /api/scheduling/admin/analytics/labor-cost
+ * Scheduled versus actual labor cost by day, station and department (format=csv to export)
+ */
+export async function getLaborCostAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const parsed = parseAnalyticsQuery(req.query);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const report = await getLaborCostReport(parsed.range);
+    if (parsed.csv) {
+      sendAnalyticsCsv(res, 'labor-cost', laborCostToCsv(report));
+      return;
+    }
+    res.json(report);
+  } catch (error: unknown) {
+    handleAnalyticsError(req, res, error, 'get_labor_cost_analytics', 'load labor cost analytics');
+  }
+}
+
+/**
+ * GET /api/scheduling/admin/analytics/coverage
+ * Hourly heatmap of required versus scheduled headcount (format=csv to export)
+ */
+export async function getCoverageAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const parsed = parseAnalyticsQuery(req.query);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const { stationName } = req.query;
+    const report = await getCoverageReport({
+      ...parsed.range,
+      stationName: typeof stationName === 'string' && stationName ? stationName : undefined
+    });
+    if (parsed.csv) {
+      sendAnalyticsCsv(res, 'coverage', coverageToCsv(report));
+      return;
+    }
+    res.json(report);
+  } catch (error: unknown) {
+    handleAnalyticsError(req, res, error, 'get_coverage_analytics', 'load coverage analytics');
+  }
+}
+
+/**
+ * GET /api/scheduling/admin/analytics/compliance
+ * Overtime, split shift, missed break and short-notice violations (format=csv to export).
+ * Thresholds can be overridden with weeklyOvertimeHours, dailyOvertimeHours, splitShiftGapHours,
+ * breakAfterHours, minBreakMinutes and noticeDays.
+ */
+export async function getComplianceReports(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const parsed = parseAnalyticsQuery(req.query);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const rules: Partial<ComplianceRules> = {};
+    for (const key of Object.keys(DEFAULT_COMPLIANCE_RULES) as Array<keyof ComplianceRules>) {
+      const value = req.query[key];
+      if (value === undefined || value === '') continue;
+      const parsedValue = Number(value);
+      if (!Number.isFinite(parsedValue) || parsedValue < 0) {
+        res.status(400).json({ error: `${key} must be a non-negative number` });
+        return;
+      }
+      rules[key] = parsedValue;
+    }
+
+    const report = await getComplianceReport(parsed.range, rules);
+    if (parsed.csv) {
+      sendAnalyticsCsv(res, 'scheduling-compliance', complianceToCsv(report.issues));
+      return;
+    }
+    res.json(report);
+  } catch (error: unknown) {
+    handleAnalyticsError(req, res, error, 'get_compliance_reports', 'load compliance report');
+  }
+}
+
+/**
+ * GET /api/scheduling/admin/availability
+ * Get all employee availability for a business (Admin)
+ */
+export async function getAllEmployeeAvailability(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    // Get businessId from middleware or validate from query
+    let businessId: string | undefined = req.businessId;
+    if (!businessId) {
+      const businessIdParam = req.query.businessId;
+      if (businessIdParam && typeof businessIdParam === 'string') {
+        businessId = businessIdParam;
+      } else if (businessIdParam) {
+        res.status(400).json({ error: 'businessId must be a string' });
+        return;
+      }
+    }
+
+    if (!user || !businessId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    // Verify user has access to this business
+    const member = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId, userId: user.id } },
+    });
+
+    if (!member || !member.isActive) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Query all availability records for this business
+    const availability = await prisma.employeeAvailability.findMany({
+      where: {
+        businessId
+      },
+      orderBy: [
+        { employeePositionId: 'asc' },
+        { dayOfWeek: 'asc' },
+        { startTime: 'asc' }
+      ],
+      include: {
+        employeePosition: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            },
+            position: {
+              select: {
+                id: true,
+                title: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    logger.info('Admin fetched all employee availability', {
+      businessId,
+      userId: user.id,
+      count: availability.length
+    });
+
+    res.json({ availability });
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to fetch all employee availability', {
+      operation: 'get_all_employee_availability',
+      error: { message: err.message, stack: err.stack },
+      businessId: req.businessId || (typeof req.query.businessId === 'string' ? req.query.businessId : undefined)
+    });
+    res.status(500).json({ error: 'Failed to fetch availability' });
+  }
+}
+
+export async function updateEmployeeAvailabilityAdmin(req: AuthenticatedRequest, res: Response): Promise<void> {
+  res.status(501).json({ error: 'Not yet implemented - Availability management coming in Phase 2' });
+}
+
+export async function getAllShiftSwapRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+  res.json({ swaps: [] });
+}
+
+/**
+ * PUT /api/scheduling/admin/swaps/:id/approve
+ * Approve a shift swap request (Admin)
+ */
+export async function approveShiftSwapAdmin(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    // Get businessId from middleware or validate from query
+    let businessId: string | undefined = req.businessId;
+    if (!businessId) {
+      const businessIdParam = req.query.businessId;
+      if (businessIdParam && typeof businessIdParam === 'string') {
+        businessId = businessIdParam;
+      } else if (businessIdParam) {
+        res.status(400).json({ error: 'businessId must be a string' });
+        return;
+      }
+    }
+    const swapId = req.params.id;
+    const { managerNotes } = req.body;
+
+    if (!user || !businessId || !swapId) {
+      res.status(401).json({ error: 'User not authenticated or missing required parameters' });
+      return;
+    }
+
+    // Get the swap request
+    const swapRequest = await prisma.shiftSwapRequest.findUnique({
+      where: { id: swapId },
+      include: {
+        originalShift: {
+          include: {
+            employeePosition: true
+          }
+        }
+      }
+    });
+
+    if (!swapRequest || swapRequest.businessId !== businessId) {
+      res.status(404).json({ error: 'Swap request not found' });
+      return;
+    }
+
+    if (swapRequest.status !== 'PENDING') {
+      res.status(400).json({ error: 'Swap request is not pending' });
+      return;
+    }
+
+    // Update swap request status
+    const updatedSwap = await prisma.shiftSwapRequest.update({
+      where: { id: swapId },
+      data: {
+        status: 'APPROVED',
+        approvedById: user.id,
+        approvedAt: new Date(),
+        reason: managerNotes ? `${swapRequest.reason || ''}\n\nAdmin notes: ${managerNotes}` : swapRequest.reason
+      },
+      include: {
+        originalShift: {
+          include: {
+            schedule: {
+              select: {
+                id: true,
+                name: true
+              }
+            },
+            employeePosition: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    email: true
+                  }
+                }
+              }
+            }
+          }
+        },
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        },
+        requestedTo: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    // If a specific employee was requested, assign them to the shift
+    if (swapRequest.requestedToId && swapRequest.originalShift.employeePositionId) {
+      // Find the employee position for the requested user
+      const requestedEmployeePosition = await prisma.employeePosition.findFirst({
+        where: {
+          userId: swapRequest.requestedToId,
+          businessId,
+          active: true
+        }
+      });
+
+      if (requestedEmployeePosition) {
+        // Get schedule status before updating shift
+        const schedule = await prisma.schedule.findUnique({
+          where: { id: swapRequest.originalShift.scheduleId },
+          select: { status: true }
+        });
+
+                                                                                                                                                                            await prisma.scheduleShift.update({
+          where: { id: swapRequest.originalShiftId },
+          data: {
+            employeePositionId: requestedEmployeePosition.id,
+            status: 'FILLED'
+          }
+        });
+
+        // Sync to calendar if schedule is published
+        if (schedule?.status === 'PUBLISHED') {
+          try {
+            const { syncSingleShiftToCalendar } = await import('../services/hrScheduleService');
+            await syncSingleShiftToCalendar(swapRequest.originalShiftId, businessId);
+          } catch (calendarError) {
+            // Log but don't fail swap approval if calendar sync fails
+            logger.warn('Failed to sync shift swap to calendar', {
+              operation: 'approve_shift_swap_admin_calendar_sync',
+              shiftId: swapRequest.originalShiftId,
+              swapId,
+              error: {
+                message: calendarError instanceof Error ? calendarError.message : 'Unknown error',
+                stack: calendarError instanceof Error ? calendarError.stack : undefined
+              }
+            });
+          }
+        }
+      }
+    }
+
+    logger.info('Shift swap approved by admin', {
+      operation: 'approve_shift_swap_admin',
+      userId: user.id,
+      businessId,
+      swapId
+    });
+
+    res.json(updatedSwap);
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to approve shift swap', {
+      operation: 'approve_shift_swap_admin',
+      error: { message: err.message, stack: err.stack }
+    });
+    res.status(500).json({ error: 'Failed to approve shift swap' });
+  }
+}
+
+/**
+ * PUT /api/scheduling/admin/swaps/:id/deny
+ * Deny a shift swap request (Admin)
+ */
+export async function denyShiftSwapAdmin(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    // Get businessId from middleware or validate from query
+    let businessId: string | undefined = req.businessId;
+    if (!businessId) {
+      const businessIdParam = req.query.businessId;
+      if (businessIdParam && typeof businessIdParam === 'string') {
+        businessId = businessIdParam;
+      } else if (businessIdParam) {
+        res.status(400).json({ error: 'businessId must be a string' });
+        return;
+      }
+    }
+    const swapId = req.params.id;
+    const { managerNotes } = req.body;
+
+    if (!user || !businessId || !swapId) {
+      res.status(401).json({ error: 'User not authenticated or missing required parameters' });
+      return;
+    }
+
+    // Get the swap request
+    const swapRequest = await prisma.shiftSwapRequest.findUnique({
+      where: { id: swapId }
+    });
+
+    if (!swapRequest || swapRequest.businessId !== businessId) {
+      res.status(404).json({ error: 'Swap request not found' });
+      return;
+    }
+
+    if (swapRequest.status !== 'PENDING') {
+      res.status(400).json({ error: 'Swap request is not pending' });
+      return;
+    }
 
     // Update swap request status
     const updatedSwap = await prisma.shiftSwapRequest.update({
@@ -2280,228 +2884,565 @@ export async function denyShiftSwapAdmin(req: AuthenticatedRequest, res: Respons
                 }
               }
             }
-          }
-        },
-        requestedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        },
-        requestedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true
+          }
+        },
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        },
+        requestedTo: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    logger.info('Shift swap denied by admin', {
+      operation: 'deny_shift_swap_admin',
+      userId: user.id,
+      businessId,
+      swapId
+    });
+
+    res.json(updatedSwap);
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to deny shift swap', {
+      operation: 'deny_shift_swap_admin',
+      error: { message: err.message, stack: err.stack }
+    });
+    res.status(500).json({ error: 'Failed to deny shift swap' });
+  }
+}
+
+// Manager Functions
+/**
+ * GET /api/scheduling/team/schedules
+ * Returns schedules for the manager's team
+ * For ADMIN users: returns all schedules (same as admin endpoint)
+ * For MANAGER users: returns schedules with shifts assigned to their direct reports
+ */
+export async function getTeamSchedules(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    // Get businessId from middleware or validate from query
+    let businessId: string | undefined = req.businessId;
+    if (!businessId) {
+      const businessIdParam = req.query.businessId;
+      if (businessIdParam && typeof businessIdParam === 'string') {
+        businessId = businessIdParam;
+      } else if (businessIdParam) {
+        res.status(400).json({ error: 'businessId must be a string' });
+        return;
+      }
+    }
+    const directReportIds = req.directReportIds || [];
+
+    if (!user || !businessId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    // Check if user is ADMIN or has canManage permission
+    const member = await prisma.businessMember.findUnique({
+      where: {
+        businessId_userId: {
+          businessId,
+          userId: user.id,
+        },
+      },
+      select: { role: true, canManage: true },
+    });
+
+    const isAdmin = member?.role === BusinessRole.ADMIN || member?.canManage === true;
+
+    const { status, startDate, endDate } = req.query;
+
+    const where: Prisma.ScheduleWhereInput = {
+      businessId
+    };
+
+    if (
+      status &&
+      typeof status === 'string' &&
+      ['DRAFT', 'PUBLISHED', 'ARCHIVED'].includes(status.toUpperCase())
+    ) {
+      where.status = status.toUpperCase() as ScheduleStatus;
+    }
+
+    if (startDate || endDate) {
+      const dateFilters: Prisma.ScheduleWhereInput[] = [];
+      if (startDate && typeof startDate === 'string') {
+        dateFilters.push({ startDate: { gte: new Date(startDate) } });
+      }
+      if (endDate && typeof endDate === 'string') {
+        dateFilters.push({ endDate: { lte: new Date(endDate) } });
+      }
+      if (dateFilters.length > 0) {
+        where.AND = dateFilters;
+      }
+    }
+
+    // For ADMIN users: return all schedules (same as admin endpoint)
+    // For MANAGER users: filter schedules that have shifts assigned to their direct reports
+    if (!isAdmin && directReportIds.length > 0) {
+      // Filter schedules that have at least one shift assigned to a direct report
+      where.shifts = {
+        some: {
+          employeePositionId: {
+            in: directReportIds
+          }
+        }
+      };
+    }
+
+    const schedules = await prisma.schedule.findMany({
+      where,
+      include: {
+        shifts: {
+          include: {
+            employeePosition: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    email: true
+                  }
+                },
+                position: {
+                  select: {
+                    title: true
+                  }
+                }
+              }
+            },
+            position: {
+              select: {
+                id: true,
+                title: true
+              }
+            }
+          },
+          orderBy: {
+            startTime: 'asc'
           }
         }
+      },
+      orderBy: {
+        startDate: 'desc'
       }
     });
 
-    logger.info('Shift swap denied by admin', {
-      operation: 'deny_shift_swap_admin',
+    // Return schedules with shifts included
+    const schedulesWithShifts = schedules.map(schedule => ({
+      id: schedule.id,
+      businessId: schedule.businessId,
+      name: schedule.name,
+      description: schedule.description,
+      locationId: schedule.locationId,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+      timezone: schedule.timezone,
+      status: schedule.status,
+      publishedAt: schedule.publishedAt,
+      publishedById: schedule.publishedById,
+      templateId: schedule.templateId,
+      metadata: schedule.metadata,
+      createdById: schedule.createdById,
+      createdAt: schedule.createdAt,
+      updatedAt: schedule.updatedAt,
+      shifts: schedule.shifts || []
+    }));
+
+    // Debug: Log shift counts
+    const totalShifts = schedulesWithShifts.reduce((sum, s) => sum + (s.shifts?.length || 0), 0);
+    logger.info('Team schedules retrieved', {
+      operation: 'get_team_schedules',
       userId: user.id,
       businessId,
-      swapId
+      directReportCount: directReportIds.length,
+      scheduleCount: schedulesWithShifts.length,
+      totalShiftCount: totalShifts,
+      schedulesWithShifts: schedulesWithShifts.map(s => ({
+        id: s.id,
+        name: s.name,
+        status: s.status,
+        shiftCount: s.shifts?.length || 0,
+        firstShiftDate: s.shifts?.[0]?.startTime || null
+      }))
     });
 
-    res.json(updatedSwap);
+    res.json({ schedules: schedulesWithShifts });
   } catch (error: unknown) {
     const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to deny shift swap', {
-      operation: 'deny_shift_swap_admin',
+    logger.error('Failed to get team schedules', {
+      operation: 'get_team_schedules',
+      error: { message: err.message, stack: err.stack }
+    });
+    res.status(500).json({ error: 'Failed to retrieve team schedules' });
+  }
+}
+
+/**
+ * Resolve the business and the manager's team (set by checkSchedulingManagerAccess).
+ * Admins and users with canManage get every active employee as their team.
+ */
+const getTeamContext = (req: AuthenticatedRequest) => {
+  const businessIdParam = req.businessId || req.query.businessId || req.body?.businessId;
+  return {
+    businessId: typeof businessIdParam === 'string' ? businessIdParam : undefined,
+    team: new Set(req.directReportIds || [])
+  };
+};
+
+/**
+ * Approved time off overlapping a shift. Requests store inclusive dates at
+ * midnight, so a request still covers shifts later on its end date.
+ */
+const findApprovedTimeOff = (businessId: string, employeePositionId: string, shift: { startTime: Date; endTime: Date }) =>
+  prisma.timeOffRequest.findFirst({
+    where: {
+      businessId,
+      employeePositionId,
+      status: 'APPROVED',
+      startDate: { lt: shift.endTime },
+      endDate: { gt: new Date(shift.startTime.getTime() - 24 * 60 * 60 * 1000) }
+    },
+    select: { id: true }
+  });
+
+const TEAM_SHIFT_INCLUDE = {
+  schedule: { select: { id: true, name: true, status: true } },
+  employeePosition: {
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      position: { select: { id: true, title: true } }
+    }
+  },
+  position: { select: { id: true, title: true } }
+} satisfies Prisma.ScheduleShiftInclude;
+
+/**
+ * POST /api/scheduling/team/schedules/:id/publish
+ * Publish a schedule whose assigned shifts all belong to the manager's team
+ */
+export async function publishTeamSchedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    const { businessId, team } = getTeamContext(req);
+
+    if (!user || !businessId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const schedule = await prisma.schedule.findFirst({
+      where: { id: req.params.id, businessId },
+      include: { shifts: { select: { id: true, employeePositionId: true, startTime: true, endTime: true } } }
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (schedule.shifts.length === 0) {
+      res.status(400).json({ error: 'Cannot publish empty schedule' });
+      return;
+    }
+
+    const assigned = schedule.shifts.filter((shift) => shift.employeePositionId);
+    const outsideTeam = assigned.filter((shift) => !team.has(shift.employeePositionId!));
+    if (outsideTeam.length > 0) {
+      res.status(403).json({
+        error: 'Schedule includes shifts assigned outside your team',
+        outsideShiftCount: outsideTeam.length
+      });
+      return;
+    }
+    if (assigned.length === 0) {
+      res.status(403).json({ error: 'Schedule has no shifts assigned to your team' });
+      return;
+    }
+
+    const updatedSchedule = await markSchedulePublished(schedule, user.id);
+
+    res.json({ schedule: updatedSchedule, message: 'Schedule published successfully' });
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to publish team schedule', {
+      operation: 'publish_team_schedule',
+      userId: req.user?.id,
+      error: { message: err.message, stack: err.stack }
+    });
+    res.status(500).json({ error: 'Failed to publish schedule' });
+  }
+}
+
+/**
+ * GET /api/scheduling/team/shifts/open
+ * Upcoming open shifts the manager can fill from their team: shifts without a required
+ * position, or requiring a position someone on the team holds
+ */
+export async function getOpenShiftsForTeam(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    const { businessId, team } = getTeamContext(req);
+
+    if (!user || !businessId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const { startDate, endDate } = req.query;
+    const from = typeof startDate === 'string' && startDate ? new Date(startDate) : new Date();
+    const to = typeof endDate === 'string' && endDate ? new Date(endDate) : null;
+    if (Number.isNaN(from.getTime()) || (to && Number.isNaN(to.getTime()))) {
+      res.status(400).json({ error: 'startDate and endDate must be valid dates' });
+      return;
+    }
+
+    const teamPositions = await prisma.employeePosition.findMany({
+      where: { id: { in: [...team] } },
+      select: { positionId: true }
+    });
+
+    const shifts = await prisma.scheduleShift.findMany({
+      where: {
+        businessId,
+        employeePositionId: null,
+        status: { not: 'CANCELLED' },
+        endTime: { gte: from },
+        ...(to ? { startTime: { lte: to } } : {}),
+        OR: [{ positionId: null }, { positionId: { in: [...new Set(teamPositions.map((seat) => seat.positionId))] } }]
+      },
+      include: TEAM_SHIFT_INCLUDE,
+      orderBy: { startTime: 'asc' }
+    });
+
+    res.json({ shifts });
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to get open shifts for team', {
+      operation: 'get_open_shifts_for_team',
+      userId: req.user?.id,
+      error: { message: err.message, stack: err.stack }
+    });
+    res.status(500).json({ error: 'Failed to retrieve open shifts' });
+  }
+}
+
+/**
+ * POST /api/scheduling/team/shifts/:id/assign
+ * Assign (or reassign) a shift to a member of the manager's team
+ */
+export async function assignEmployeeToShift(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const user = req.user;
+    const { businessId, team } = getTeamContext(req);
+    const shiftId = req.params.id;
+    const { employeePositionId } = req.body;
+
+    if (!user || !businessId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    if (!employeePositionId || typeof employeePositionId !== 'string') {
+      res.status(400).json({ error: 'employeePositionId is required' });
+      return;
+    }
+
+    if (!team.has(employeePositionId)) {
+      res.status(403).json({ error: 'You can only assign shifts to members of your team' });
+      return;
+    }
+
+    const shift = await prisma.scheduleShift.findFirst({ where: { id: shiftId, businessId } });
+    if (!shift) {
+      res.status(404).json({ error: 'Shift not found' });
+      return;
+    }
+
+    if (shift.employeePositionId && !team.has(shift.employeePositionId)) {
+      res.status(403).json({ error: 'Shift is assigned to someone outside your team' });
+      return;
+    }
+
+    if (shift.status === 'CANCELLED') {
+      res.status(400).json({ error: 'Cannot assign a cancelled shift' });
+      return;
+    }
+
+    if (shift.startTime < new Date()) {
+      res.status(400).json({ error: 'Cannot assign shifts that have already started' });
+      return;
+    }
+
+    if (shift.positionId) {
+      const employee = await prisma.employeePosition.findUnique({
+        where: { id: employeePositionId },
+        select: { positionId: true }
+      });
+      if (employee?.positionId !== shift.positionId) {
+        res.status(400).json({
+          error: 'Employee does not hold the position required for this shift',
+          requiredPositionId: shift.positionId
+        });
+        return;
+      }
+    }
+
+    const [overlappingShift, timeOff] = await Promise.all([
+      prisma.scheduleShift.findFirst({
+        where: {
+          businessId,
+          employeePositionId,
+          id: { not: shift.id },
+          status: { not: 'CANCELLED' },
+          startTime: { lt: shift.endTime },
+          endTime: { gt: shift.startTime }
+        },
+        select: { id: true }
+      }),
+      findApprovedTimeOff(businessId, employeePositionId, shift)
+    ]);
+
+    if (overlappingShift) {
+      res.status(409).json({
+        error: 'Employee is already scheduled during this time',
+        conflictingShiftId: overlappingShift.id
+      });
+      return;
+    }
+
+    if (timeOff) {
+      res.status(409).json({ error: 'Employee has approved time off during this shift', timeOffRequestId: timeOff.id });
+      return;
+    }
+
+    const updatedShift = await prisma.scheduleShift.update({
+      where: { id: shift.id },
+      data: {
+        employeePosition: { connect: { id: employeePositionId } },
+        isOpenShift: false,
+        status: 'SCHEDULED'
+      },
+      include: TEAM_SHIFT_INCLUDE
+    });
+
+    logger.info('Team shift assigned', {
+      operation: 'assign_team_shift',
+      userId: user.id,
+      businessId,
+      shiftId: shift.id,
+      employeePositionId,
+      previousEmployeePositionId: shift.employeePositionId
+    });
+
+    if (updatedShift.schedule.status === 'PUBLISHED') {
+      try {
+        const { syncSingleShiftToCalendar } = await import('../services/hrScheduleService');
+        await syncSingleShiftToCalendar(shift.id, businessId);
+      } catch (calendarError) {
+        logger.warn('Failed to sync team shift assignment to calendar', {
+          operation: 'assign_team_shift_calendar_sync',
+          shiftId: shift.id,
+          businessId,
+          error: {
+            message: calendarError instanceof Error ? calendarError.message : 'Unknown error',
+            stack: calendarError instanceof Error ? calendarError.stack : undefined
+          }
+        });
+      }
+    }
+
+    res.json({ shift: updatedShift });
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : new Error('Unknown error');
+    logger.error('Failed to assign team shift', {
+      operation: 'assign_team_shift',
+      userId: req.user?.id,
       error: { message: err.message, stack: err.stack }
     });
-    res.status(500).json({ error: 'Failed to deny shift swap' });
+    res.status(500).json({ error: 'Failed to assign shift' });
   }
 }
 
-// Manager Functions
 /**
- * GET /api/scheduling/team/schedules
- * Returns schedules for the manager's team
- * For ADMIN users: returns all schedules (same as admin endpoint)
- * For MANAGER users: returns schedules with shifts assigned to their direct reports
+ * GET /api/scheduling/team/availability
+ * Availability and approved time off for each member of the manager's team
  */
-export async function getTeamSchedules(req: AuthenticatedRequest, res: Response): Promise<void> {
+export async function getTeamAvailability(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const user = req.user;
-    // Get businessId from middleware or validate from query
-    let businessId: string | undefined = req.businessId;
-    if (!businessId) {
-      const businessIdParam = req.query.businessId;
-      if (businessIdParam && typeof businessIdParam === 'string') {
-        businessId = businessIdParam;
-      } else if (businessIdParam) {
-        res.status(400).json({ error: 'businessId must be a string' });
-        return;
-      }
-    }
-    const directReportIds = req.directReportIds || [];
+    const { businessId, team } = getTeamContext(req);
 
     if (!user || !businessId) {
       res.status(401).json({ error: 'User not authenticated' });
       return;
     }
 
-    // Check if user is ADMIN or has canManage permission
-    const member = await prisma.businessMember.findUnique({
-      where: {
-        businessId_userId: {
-          businessId,
-          userId: user.id,
-        },
-      },
-      select: { role: true, canManage: true },
-    });
-
-    const isAdmin = member?.role === BusinessRole.ADMIN || member?.canManage === true;
-
-    const { status, startDate, endDate } = req.query;
-
-    const where: Prisma.ScheduleWhereInput = {
-      businessId
-    };
-
-    if (
-      status &&
-      typeof status === 'string' &&
-      ['DRAFT', 'PUBLISHED', 'ARCHIVED'].includes(status.toUpperCase())
-    ) {
-      where.status = status.toUpperCase() as ScheduleStatus;
-    }
-
-    if (startDate || endDate) {
-      const dateFilters: Prisma.ScheduleWhereInput[] = [];
-      if (startDate && typeof startDate === 'string') {
-        dateFilters.push({ startDate: { gte: new Date(startDate) } });
-      }
-      if (endDate && typeof endDate === 'string') {
-        dateFilters.push({ endDate: { lte: new Date(endDate) } });
-      }
-      if (dateFilters.length > 0) {
-        where.AND = dateFilters;
-      }
-    }
-
-    // For ADMIN users: return all schedules (same as admin endpoint)
-    // For MANAGER users: filter schedules that have shifts assigned to their direct reports
-    if (!isAdmin && directReportIds.length > 0) {
-      // Filter schedules that have at least one shift assigned to a direct report
-      where.shifts = {
-        some: {
-          employeePositionId: {
-            in: directReportIds
-          }
-        }
-      };
+    const { startDate, endDate } = req.query;
+    const from = typeof startDate === 'string' && startDate ? new Date(startDate) : new Date();
+    const to = typeof endDate === 'string' && endDate ? new Date(endDate) : null;
+    if (Number.isNaN(from.getTime()) || (to && Number.isNaN(to.getTime()))) {
+      res.status(400).json({ error: 'startDate and endDate must be valid dates' });
+      return;
     }
 
-    const schedules = await prisma.schedule.findMany({
-      where,
+    const members = await prisma.employeePosition.findMany({
+      where: { businessId, id: { in: [...team] }, active: true },
       include: {
-        shifts: {
-          include: {
-            employeePosition: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    name: true,
-                    email: true
-                  }
-                },
-                position: {
-                  select: {
-                    title: true
-                  }
-                }
-              }
-            },
-            position: {
-              select: {
-                id: true,
-                title: true
-              }
-            }
+        user: { select: { id: true, name: true, email: true } },
+        position: { select: { id: true, title: true } },
+        availability: {
+          where: {
+            ...(to ? { effectiveFrom: { lte: to } } : {}),
+            OR: [{ effectiveTo: null }, { effectiveTo: { gte: from } }]
           },
-          orderBy: {
-            startTime: 'asc'
-          }
+          orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+        },
+        timeOffRequests: {
+          where: {
+            status: 'APPROVED',
+            endDate: { gte: from },
+            ...(to ? { startDate: { lte: to } } : {})
+          },
+          select: { id: true, type: true, startDate: true, endDate: true },
+          orderBy: { startDate: 'asc' }
         }
       },
-      orderBy: {
-        startDate: 'desc'
-      }
+      orderBy: { user: { name: 'asc' } }
     });
 
-    // Return schedules with shifts included
-    const schedulesWithShifts = schedules.map(schedule => ({
-      id: schedule.id,
-      businessId: schedule.businessId,
-      name: schedule.name,
-      description: schedule.description,
-      locationId: schedule.locationId,
-      startDate: schedule.startDate,
-      endDate: schedule.endDate,
-      timezone: schedule.timezone,
-      status: schedule.status,
-      publishedAt: schedule.publishedAt,
-      publishedById: schedule.publishedById,
-      templateId: schedule.templateId,
-      metadata: schedule.metadata,
-      createdById: schedule.createdById,
-      createdAt: schedule.createdAt,
-      updatedAt: schedule.updatedAt,
-      shifts: schedule.shifts || []
-    }));
-
-    // Debug: Log shift counts
-    const totalShifts = schedulesWithShifts.reduce((sum, s) => sum + (s.shifts?.length || 0), 0);
-    logger.info('Team schedules retrieved', {
-      operation: 'get_team_schedules',
-      userId: user.id,
-      businessId,
-      directReportCount: directReportIds.length,
-      scheduleCount: schedulesWithShifts.length,
-      totalShiftCount: totalShifts,
-      schedulesWithShifts: schedulesWithShifts.map(s => ({
-        id: s.id,
-        name: s.name,
-        status: s.status,
-        shiftCount: s.shifts?.length || 0,
-        firstShiftDate: s.shifts?.[0]?.startTime || null
+    res.json({
+      team: members.map((member) => ({
+        employeePositionId: member.id,
+        user: member.user,
+        position: member.position,
+        availability: member.availability,
+        timeOff: member.timeOffRequests
       }))
     });
-
-    res.json({ schedules: schedulesWithShifts });
   } catch (error: unknown) {
     const err = error instanceof Error ? error : new Error('Unknown error');
-    logger.error('Failed to get team schedules', {
-      operation: 'get_team_schedules',
+    logger.error('Failed to get team availability', {
+      operation: 'get_team_availability',
+      userId: req.user?.id,
       error: { message: err.message, stack: err.stack }
     });
-    res.status(500).json({ error: 'Failed to retrieve team schedules' });
+    res.status(500).json({ error: 'Failed to retrieve team availability' });
   }
 }
 
-export async function publishTeamSchedule(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Manager features coming in Phase 2' });
-}
-
-export async function getOpenShiftsForTeam(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Open shifts coming in Phase 2' });
-}
-
-export async function assignEmployeeToShift(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Manager features coming in Phase 2' });
-}
-
-export async function getTeamAvailability(req: AuthenticatedRequest, res: Response): Promise<void> {
-  res.status(501).json({ error: 'Not yet implemented - Manager features coming in Phase 2' });
-}
-
 /**
  * GET /api/scheduling/team/swaps/pending
  * Get pending shift swap requests for manager's team
@@ -4090,6 +5031,12 @@ export async function claimOpenShift(req: AuthenticatedRequest, res: Response):
       return;
     }
 
+    const timeOff = await findApprovedTimeOff(businessId, finalEmployeePositionId, shift);
+    if (timeOff) {
+      res.status(409).json({ error: 'You have approved time off during this shift', timeOffRequestId: timeOff.id });
+      return;
+    }
+
     // Assign the shift to the employee
     const updatedShift = await prisma.scheduleShift.update({
       where: { id: shiftId },
@@ -5007,7 +5954,7 @@ export async function generateAISchedule(
 ): Promise<void> {
   try {
     const user = req.user;
-    const { businessId, scheduleId, strategy, constraints } = req.body;
+    const { businessId, scheduleId, strategy, constraints, weekStart, name, timezone } = req.body;
 
     if (!user) {
       res.status(401).json({ success: false, error: 'User not authenticated' });
@@ -5019,11 +5966,6 @@ export async function generateAISchedule(
       return;
     }
 
-    if (!scheduleId || typeof scheduleId !== 'string') {
-      res.status(400).json({ success: false, error: 'Schedule ID is required' });
-      return;
-    }
-
     // Get business configuration
     const business = await prisma.business.findUnique({
       where: { id: businessId },
@@ -5035,6 +5977,84 @@ export async function generateAISchedule(
       return;
     }
 
+    const selectedStrategy = strategy || business.schedulingStrategy || 'AVAILABILITY_FIRST';
+
+    // Auto-generate runs the constraint solver and saves its result into a draft schedule
+    if (selectedStrategy === 'AUTO_GENERATE') {
+      if ((!scheduleId || typeof scheduleId !== 'string') && (!weekStart || typeof weekStart !== 'string')) {
+        res.status(400).json({ success: false, error: 'Schedule ID or weekStart is required' });
+        return;
+      }
+
+      try {
+        const { schedule, result } = await runAutoScheduler({
+          businessId,
+          userId: user.id,
+          scheduleId: typeof scheduleId === 'string' ? scheduleId : undefined,
+          weekStart: typeof weekStart === 'string' ? weekStart : undefined,
+          name: typeof name === 'string' ? name : undefined,
+          timezone: typeof timezone === 'string' ? timezone : undefined,
+          constraints: {
+            budgetLimit: constraints?.budgetLimit !== undefined ? Number(constraints.budgetLimit) : undefined,
+            maxHoursPerEmployee: constraints?.maxHoursPerEmployee !== undefined ? Number(constraints.maxHoursPerEmployee) : undefined,
+            minHoursBetweenShifts: constraints?.minHoursBetweenShifts !== undefined ? Number(constraints.minHoursBetweenShifts) : undefined
+          }
+        });
+
+        const shifts = await prisma.scheduleShift.findMany({
+          where: { id: { in: result.assignments.map(assignment => assignment.slotId) } },
+          include: {
+            employeePosition: {
+              include: {
+                user: { select: { id: true, name: true, email: true } },
+                position: { select: { title: true } }
+              }
+            }
+          },
+          orderBy: { startTime: 'asc' }
+        });
+
+        logger.info('AI schedule generated', {
+          operation: 'generate_ai_schedule',
+          userId: user.id,
+          businessId,
+          scheduleId: schedule.id,
+          strategy: selectedStrategy,
+          shiftsCreated: result.summary.filled,
+          unfilled: result.summary.unfilled
+        });
+
+        res.json({
+          success: true,
+          message: `Filled ${result.summary.filled} of ${result.summary.slots} shifts using ${selectedStrategy} strategy`,
+          schedule,
+          shifts,
+          recommendations: result.assignments.length,
+          created: result.summary.filled,
+          assignments: result.assignments,
+          unfilled: result.unfilled,
+          summary: result.summary
+        });
+      } catch (error: unknown) {
+        const err = error as Error;
+        if (/must|no open shifts|no active shift templates/i.test(err.message)) {
+          res.status(400).json({ success: false, error: err.message });
+          return;
+        }
+        if (/not found/i.test(err.message)) {
+          res.status(404).json({ success: false, error: err.message });
+          return;
+        }
+        throw error;
+      }
+      return;
+    }
+
+    if (!scheduleId || typeof scheduleId !== 'string') {
+      res.status(400).json({ success: false, error: 'Schedule ID is required' });
+      return;
+    }
+
     // Get schedule
     const schedule = await prisma.schedule.findUnique({
       where: { id: scheduleId },
@@ -5094,7 +6114,6 @@ export async function generateAISchedule(
     });
 
     // Prepare philosophy context
-    const selectedStrategy = strategy || business.schedulingStrategy || 'AVAILABILITY_FIRST';
     const selectedMode = business.schedulingMode || 'OTHER';
 
     // Convert to philosophy service format
@@ -5155,6 +6174,15 @@ export async function generateAISchedule(
       };
     });
 
+    // Template-based scheduling staffs the business's recurring shift templates
+    const shiftTemplates = selectedStrategy === 'TEMPLATE_BASED'
+      ? await prisma.shiftTemplate.findMany({
+          where: { businessId, isActive: true },
+          include: { position: { select: { title: true } }, station: true }
+        })
+      : [];
+    const templatesById = new Map(shiftTemplates.map(template => [template.id, template]));
+
     // Generate recommendations
     const recommendations = await SchedulingPhilosophyService.generateRecommendations({
       businessId,
@@ -5162,6 +6190,17 @@ export async function generateAISchedule(
       strategy: selectedStrategy as SchedulingStrategy,
       employees,
       requirements,
+      templates: shiftTemplates.map(template => ({
+        templateId: template.id,
+        name: template.name,
+        daysOfWeek: template.daysOfWeek,
+        startTime: timeToMinutes(template.defaultStartTime),
+        endTime: timeToMinutes(template.defaultEndTime),
+        requiredHeadcount: template.requiredHeadcount,
+        requiredRole: template.position?.title,
+        requiredStation: template.station?.name,
+        priority: template.station?.priority ?? undefined,
+      })),
       constraints: constraints || {},
     });
 
@@ -5190,32 +6229,67 @@ export async function generateAISchedule(
       const endTime = new Date(targetDate);
       endTime.setHours(Math.floor(rec.endTime / 60), rec.endTime % 60, 0, 0);
 
+      const template = rec.shiftTemplateId ? templatesById.get(rec.shiftTemplateId) : undefined;
+
       try {
-        const shift = await prisma.scheduleShift.create({
-          data: {
-            businessId,
-            scheduleId: schedule.id,
-            employeePositionId: rec.employeePositionId,
-            startTime,
-            endTime,
-            breakMinutes: 0,
-            title: 'AI Generated Shift',
-            status: 'SCHEDULED',
-            priority: Math.round(rec.confidence * 10),
-          },
-          include: {
-            employeePosition: {
-              include: {
-                user: {
-                  select: { id: true, name: true, email: true }
-                },
-                position: {
-                  select: { title: true }
-                }
+        // Fill an open shift generated from the same template before adding a new one
+        const openTemplateShift = template
+          ? await prisma.scheduleShift.findFirst({
+              where: {
+                scheduleId: schedule.id,
+                shiftTemplateId: template.id,
+                employeePositionId: null,
+                startTime
+              },
+              select: { id: true }
+            })
+          : null;
+
+        const shiftInclude = {
+          employeePosition: {
+            include: {
+              user: {
+                select: { id: true, name: true, email: true }
+              },
+              position: {
+                select: { title: true }
               }
             }
           }
-        });
+        } satisfies Prisma.ScheduleShiftInclude;
+
+        const shift = openTemplateShift
+          ? await prisma.scheduleShift.update({
+              where: { id: openTemplateShift.id },
+              data: {
+                employeePositionId: rec.employeePositionId,
+                isOpenShift: false,
+                status: 'SCHEDULED',
+              },
+              include: shiftInclude
+            })
+          : await prisma.scheduleShift.create({
+              data: {
+                businessId,
+                scheduleId: schedule.id,
+                employeePositionId: rec.employeePositionId,
+                startTime,
+                endTime,
+                breakMinutes: template?.defaultBreakMinutes ?? 0,
+                title: template?.name ?? 'AI Generated Shift',
+                status: 'SCHEDULED',
+                priority: Math.round(rec.confidence * 10),
+                ...(template && {
+                  shiftTemplateId: template.id,
+                  positionId: template.positionId,
+                  locationId: template.locationId ?? schedule.locationId,
+                  stationName: template.station?.name,
+                  jobFunction: template.station?.jobFunction,
+                  color: template.color ?? template.station?.color,
+                }),
+              },
+              include: shiftInclude
+            });
 
         createdShifts.push(shift);
       } catch (err) {
@@ -5521,6 +6595,12 @@ export async function createBusinessStation(
       return;
     }
 
+    const geofence = parseGeofenceFields(req.body);
+    if ('error' in geofence) {
+      res.status(400).json({ error: geofence.error });
+      return;
+    }
+
     const normalizedStartTime =
       typeof defaultStartTime === 'string' && defaultStartTime.trim() !== ''
         ? defaultStartTime.trim()
@@ -5551,7 +6631,8 @@ export async function createBusinessStation(
         priority: priority ? parseInt(String(priority), 10) : null,
         isActive: true,
         defaultStartTime: normalizedStartTime ?? undefined,
-        defaultEndTime: normalizedEndTime ?? undefined
+        defaultEndTime: normalizedEndTime ?? undefined,
+        ...geofence.data
       } as Prisma.BusinessStationUncheckedCreateInput
     });
 
@@ -5708,6 +6789,13 @@ export async function updateBusinessStation(
     if (priority !== undefined) updateData.priority = priority ? parseInt(String(priority), 10) : null;
     if (isActive !== undefined) updateData.isActive = isActive === true;
 
+    const geofence = parseGeofenceFields(req.body);
+    if ('error' in geofence) {
+      res.status(400).json({ error: geofence.error });
+      return;
+    }
+    Object.assign(updateData, geofence.data);
+
     if (defaultStartTime !== undefined) {
       if (defaultStartTime === null || (typeof defaultStartTime === 'string' && defaultStartTime.trim() === '')) {
         updateData.defaultStartTime = null;
@@ -5944,6 +7032,12 @@ export async function createBusinessJobLocation(
       return;
     }
 
+    const geofence = parseGeofenceFields(req.body);
+    if ('error' in geofence) {
+      res.status(400).json({ error: geofence.error });
+      return;
+    }
+
     // Verify user has admin access
     const member = await prisma.businessMember.findUnique({
       where: {
@@ -5980,7 +7074,8 @@ export async function createBusinessJobLocation(
         phone: phone || null,
         email: email || null,
         notes: notes || null,
-        isActive: true
+        isActive: true,
+        ...geofence.data
       }
     });
 
@@ -6034,6 +7129,12 @@ export async function updateBusinessJobLocation(
       return;
     }
 
+    const geofence = parseGeofenceFields(req.body);
+    if ('error' in geofence) {
+      res.status(400).json({ error: geofence.error });
+      return;
+    }
+
     // Get existing location
     const existing = await prisma.jobLocation.findUnique({
       where: { id }
@@ -6082,7 +7183,8 @@ export async function updateBusinessJobLocation(
         ...(phone !== undefined && { phone: phone || null }),
         ...(email !== undefined && { email: email || null }),
         ...(notes !== undefined && { notes: notes || null }),
-        ...(isActive !== undefined && { isActive })
+        ...(isActive !== undefined && { isActive }),
+        ...geofence.data
       }
     });
 
@@ -4,6 +4,7 @@ import { Prisma } from '@prisma/client';
 import { SearchFilters, SearchResult, SearchProvider } from 'shared/types/search';
 import { logger } from '../lib/logger';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { ContentMatch, searchFileContent } from '../services/driveContentIndexService';
 
 // Helper function to get user from request
 const getUserFromRequest = (req: Request) => {
@@ -240,13 +241,8 @@ async function searchDrive(query: string, userId: string, filters?: SearchFilter
   const pinnedOnly = filters?.pinned === true;
   const driveMimeCategory = filters?.driveMimeCategory;
 
-  // Build file where conditions
+  // Build file where conditions (shared by name and content matches)
   const fileAndConditions: Prisma.FileWhereInput[] = [
-    {
-      OR: [
-        { name: { contains: query, mode: 'insensitive' } },
-      ],
-    },
     { userId: userId },
     { trashedAt: null },
   ];
@@ -303,7 +299,7 @@ async function searchDrive(query: string, userId: string, filters?: SearchFilter
   });
   const files = await prisma.file.findMany({
     where: {
-      AND: fileAndConditions,
+      AND: [{ name: { contains: query, mode: 'insensitive' } }, ...fileAndConditions],
     },
     include: {
       folder: true,
@@ -316,8 +312,41 @@ async function searchDrive(query: string, userId: string, filters?: SearchFilter
     count: files.length
   });
 
+  // Files whose extracted text matches; a failing index must not break name search
+  let contentMatches: ContentMatch[] = [];
+  try {
+    contentMatches = await searchFileContent(userId, query);
+  } catch (error) {
+    await logger.warn('Drive content search failed', {
+      operation: 'search_drive_content_error',
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+  const contentMatchById = new Map(contentMatches.map((match) => [match.fileId, match]));
+  const nameMatchIds = new Set(files.map((file) => file.id));
+  const contentOnlyIds = contentMatches.map((match) => match.fileId).filter((id) => !nameMatchIds.has(id));
+
+  if (contentOnlyIds.length > 0) {
+    const contentFiles = await prisma.file.findMany({
+      where: {
+        AND: [{ id: { in: contentOnlyIds } }, ...fileAndConditions],
+      },
+      include: {
+        folder: true,
+      },
+    });
+    await logger.debug('Drive search content matches found', {
+      operation: 'search_drive_content_found',
+      count: contentFiles.length
+    });
+    files.push(...contentFiles);
+  }
+
   for (const file of files) {
-    const relevanceScore = calculateRelevanceScore(file.name, query);
+    const contentMatch = contentMatchById.get(file.id);
+    const nameScore = nameMatchIds.has(file.id) ? calculateRelevanceScore(file.name, query) : 0;
+    // Content rank is 0-1; a strong content hit ranks alongside a partial name match
+    const relevanceScore = contentMatch ? Math.max(nameScore, 0.5 + 0.4 * contentMatch.rank) : nameScore;
     results.push({
       id: file.id,
       title: file.name,
@@ -334,6 +363,7 @@ async function searchDrive(query: string, userId: string, filters?: SearchFilter
       permissions: [{ type: 'read', granted: true }],
       lastModified: file.updatedAt,
       relevanceScore,
+      ...(contentMatch?.excerpt ? { excerpt: contentMatch.excerpt } : {}),
     });
   }
 
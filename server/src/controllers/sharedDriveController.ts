@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import * as sharedDriveService from '../services/sharedDriveService';
+import { SharedDriveError } from '../services/sharedDriveService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../lib/logger';
+
+async function sendSharedDriveError(res: Response, err: unknown, operation: string, fallbackMessage: string) {
+  if (err instanceof SharedDriveError) {
+    return res.status(err.status).json({ message: err.message, code: err.code });
+  }
+  await logger.error(fallbackMessage, {
+    operation,
+    error: {
+      message: err instanceof Error ? err.message : 'Unknown error',
+      stack: err instanceof Error ? err.stack : undefined
+    }
+  });
+  return res.status(500).json({ message: fallbackMessage });
+}
+
+// List the shared drives of a business the user can open
+export async function listSharedDrives(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  const { businessId } = req.query;
+  if (typeof businessId !== 'string' || !businessId) {
+    return res.status(400).json({ message: 'businessId is required' });
+  }
+
+  try {
+    const drives = await sharedDriveService.listDrives(userId, businessId);
+    res.json({ drives });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_list', 'Failed to list shared drives');
+  }
+}
+
+export async function createSharedDrive(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    const drive = await sharedDriveService.createDrive(userId, req.body || {});
+    await logger.info('Shared drive created', {
+      operation: 'shared_drive_create',
+      userId,
+      sharedDriveId: drive.id,
+      businessId: drive.businessId
+    });
+    res.status(201).json({ drive });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_create', 'Failed to create shared drive');
+  }
+}
+
+export async function getSharedDrive(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    const drive = await sharedDriveService.getDrive(userId, req.params.id);
+    res.json({ drive });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_get', 'Failed to load shared drive');
+  }
+}
+
+export async function updateSharedDrive(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    const drive = await sharedDriveService.updateDrive(userId, req.params.id, req.body || {});
+    res.json({ drive });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_update', 'Failed to update shared drive');
+  }
+}
+
+export async function deleteSharedDrive(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    await sharedDriveService.deleteDrive(userId, req.params.id);
+    await logger.info('Shared drive deleted', { operation: 'shared_drive_delete', userId, sharedDriveId: req.params.id });
+    res.json({ deleted: true });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_delete', 'Failed to delete shared drive');
+  }
+}
+
+// Add a member or change their role
+export async function setSharedDriveMember(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  const { userId: memberId, role } = req.body || {};
+  try {
+    const member = await sharedDriveService.setMember(userId, req.params.id, memberId, role);
+    res.json({ member });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_set_member', 'Failed to update shared drive member');
+  }
+}
+
+export async function removeSharedDriveMember(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    await sharedDriveService.removeMember(userId, req.params.id, req.params.userId);
+    res.json({ removed: true });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_remove_member', 'Failed to remove shared drive member');
+  }
+}
+
+// Grant an org-chart department (and its sub-departments) a role
+export async function setSharedDriveDepartment(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  const { departmentId, role } = req.body || {};
+  try {
+    const department = await sharedDriveService.setDepartmentRole(userId, req.params.id, departmentId, role);
+    res.json({ department });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_set_department', 'Failed to update department access');
+  }
+}
+
+export async function removeSharedDriveDepartment(req: Request, res: Response) {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  if (!userId) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    await sharedDriveService.removeDepartment(userId, req.params.id, req.params.departmentId);
+    res.json({ removed: true });
+  } catch (err) {
+    await sendSharedDriveError(res, err, 'shared_drive_remove_department', 'Failed to remove department access');
+  }
+}
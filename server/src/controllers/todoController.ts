@@ -4,10 +4,12 @@
  */
 
 import { Request, Response } from 'express';
+import fs from 'fs';
 import { prisma } from '../lib/prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../lib/logger';
 import { Prisma } from '@prisma/client';
+import { assertStorageAvailable, StorageQuotaExceededError } from '../services/storageQuotaService';
 import { TodoAIPrioritizationService } from '../services/todoAIPrioritizationService';
 import { TodoSmartSchedulingService } from '../services/todoSmartSchedulingService';
 import { TodoChatIntegrationService } from '../services/todoChatIntegrationService';
@@ -2144,7 +2146,7 @@ export async function completeSubtask(req: Request, res: Response): Promise<void
  * POST /api/todo/tasks/:id/attachments
  * Upload a file attachment to a task
  */
-export async function uploadTaskAttachment(req: Request, res: Response): Promise<void> {
+export async function uploadTaskAttachment(req: Request & { file?: Express.Multer.File }, res: Response): Promise<void> {
   try {
     const userId = (req as AuthenticatedRequest).user?.id;
     if (!userId) {
@@ -2172,12 +2174,15 @@ export async function uploadTaskAttachment(req: Request, res: Response): Promise
     }
 
     // Check if file was uploaded
-    const file = (req as any).file;
+    const file = req.file;
     if (!file) {
       res.status(400).json({ error: 'No file uploaded' });
       return;
     }
 
+    // Business task attachments count against the business, the rest against the uploader
+    await assertStorageAvailable({ userId, businessId: task.businessId }, file.size);
+
     // Import storage service
     const { storageService } = await import('../services/storageService');
     
@@ -2204,6 +2209,7 @@ export async function uploadTaskAttachment(req: Request, res: Response): Promise
         url: uploadResult.url,
         size: file.size,
         mimeType: file.mimetype,
+        uploadedById: userId,
       },
     });
 
@@ -2216,6 +2222,13 @@ export async function uploadTaskAttachment(req: Request, res: Response): Promise
 
     res.status(201).json(attachment);
   } catch (error: unknown) {
+    if (error instanceof StorageQuotaExceededError) {
+      if (req.file?.path) {
+        await fs.promises.rm(req.file.path, { force: true });
+      }
+      res.status(error.status).json({ error: error.message, ...error.toResponse() });
+      return;
+    }
     const err = error as Error;
     await logger.error('Failed to upload task attachment', {
       operation: 'todo_upload_attachment',
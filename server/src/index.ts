@@ -54,6 +54,9 @@ import { seedTodoModuleOnStartup } from './startup/seedTodoModule';
 import { seedSchedulingModuleOnStartup } from './startup/seedSchedulingModule';
 import cron from 'node-cron';
 import { dispatchDueReminders } from './services/reminderService';
+import { autoClockOutOpenRecords } from './services/hrAttendanceService';
+import { cleanupExpiredUploadSessions } from './services/driveUploadService';
+import { processIndexQueue, queueUnindexedFiles } from './services/driveContentIndexService';
 import { AIQueryService } from './services/aiQueryService';
 import { OverageBillingService } from './services/overageBillingService';
 import type { JwtPayload } from 'jsonwebtoken';
@@ -107,6 +110,11 @@ import businessFrontPageRouter from './routes/businessFrontPage';
 import { adminLogsRouter } from './routes/admin-logs';
 import adminPortalTestingRouter from './routes/admin-portal-testing';
 import hrRouter from './routes/hr';
+import careersRouter from './routes/careers';
+import bookingRouter from './routes/booking';
+import attendanceKioskRouter from './routes/attendanceKiosk';
+import driveShareRouter from './routes/driveShare';
+import davRouter from './routes/dav';
 import schedulingRouter from './routes/scheduling';
 import debugModulesRouter from './routes/debug-modules';
 import debugDatabaseRouter from './routes/debug-database';
@@ -164,6 +172,11 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// Drive WebDAV (app password auth). Mounted before the JSON parser, which would consume
+// PUT bodies of .json files, and before CORS, which answers every OPTIONS itself. Transfers
+// can be large, so the request timeout below doesn't apply either.
+app.use('/dav', davRouter);
+
 app.use(express.json());
 app.use(passport.initialize() as express.RequestHandler);
 
@@ -246,7 +259,7 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Authorization', 'Content-Type'],
+  allowedHeaders: ['Authorization', 'Content-Type', 'X-Kiosk-Token'],
 };
 app.use(cors(corsOptions));
 app.options('*', cors(corsOptions));
@@ -862,6 +875,10 @@ app.use('/api/admin/seed', authenticateJWT, adminSeedModulesRouter);
 app.use('/api', moduleAIContextRouter);
 app.use('/api/admin/logs', authenticateJWT, adminLogsRouter);
 app.use('/api/hr', hrRouter); // HR module routes (includes own auth checks)
+app.use('/api/careers', careersRouter); // Public job postings and applications (no auth)
+app.use('/api/booking', bookingRouter); // Public appointment booking pages (manage token auth)
+app.use('/api/attendance-kiosk', attendanceKioskRouter); // Shared time clock devices (device token auth)
+app.use('/api/drive-share', driveShareRouter); // Public Drive share links (link token auth)
 app.use('/api/scheduling', (req, res, next) => {
   // Log ALL requests to scheduling routes for debugging
   console.log('🔍 [INDEX] Request to /api/scheduling - Mount point reached', {
@@ -1218,6 +1235,52 @@ const server = httpServer.listen(port, () => {
     console.error('Failed to schedule reminder dispatcher:', e);
   }
 
+  // Close attendance records left open past their policy's auto clock-out limit
+  try {
+    cron.schedule('*/5 * * * *', async () => {
+      try {
+        await autoClockOutOpenRecords();
+      } catch (error) {
+        console.error('❌ Error running attendance auto clock-out:', error);
+      }
+    });
+  } catch (e) {
+    console.error('Failed to schedule attendance auto clock-out job:', e);
+  }
+
+  // Remove the stored chunks of abandoned resumable Drive uploads
+  try {
+    cron.schedule('15 * * * *', async () => {
+      try {
+        const removed = await cleanupExpiredUploadSessions();
+        if (removed > 0) {
+          console.log(`✅ Removed ${removed} expired Drive upload session(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Error cleaning up Drive upload sessions:', error);
+      }
+    });
+  } catch (e) {
+    console.error('Failed to schedule Drive upload session cleanup job:', e);
+  }
+
+  // Drive content indexing: pick up files not yet indexed and retry pending ones every 5 minutes
+  try {
+    cron.schedule('*/5 * * * *', async () => {
+      try {
+        await queueUnindexedFiles();
+        const indexed = await processIndexQueue();
+        if (indexed > 0) {
+          console.log(`✅ Indexed ${indexed} Drive file(s) for search`);
+        }
+      } catch (error) {
+        console.error('❌ Error indexing Drive file content:', error);
+      }
+    });
+  } catch (e) {
+    console.error('Failed to schedule Drive content indexing job:', e);
+  }
+
   // Reset AI query allowances on the 1st of each month at midnight
   try {
     cron.schedule('0 0 1 * *', async () => {
@@ -0,0 +1,44 @@
+/**
+ * APP PASSWORD AUTHENTICATION
+ *
+ * Desktop WebDAV clients can't do the web sign-in, so they send HTTP Basic
+ * credentials: the account email and an app password created in settings.
+ * Account passwords are never accepted here.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { authenticateAppPassword, parseBasicCredentials } from '../services/appPasswordService';
+import { logger } from '../lib/logger';
+
+export const DAV_REALM = 'Vssyl Drive';
+
+function challenge(res: Response, message: string) {
+  res.setHeader('WWW-Authenticate', `Basic realm="${DAV_REALM}", charset="UTF-8"`);
+  return res.status(401).type('text/plain').send(message);
+}
+
+export async function authenticateAppPasswordBasic(req: Request, res: Response, next: NextFunction) {
+  const credentials = parseBasicCredentials(req.header('authorization'));
+  if (!credentials) {
+    return challenge(res, 'Sign in with your email and an app password');
+  }
+
+  try {
+    const user = await authenticateAppPassword(credentials.username, credentials.password);
+    if (!user) {
+      return challenge(res, 'Email or app password is incorrect');
+    }
+    (req as AuthenticatedRequest).user = user;
+    next();
+  } catch (error) {
+    await logger.error('App password authentication failed', {
+      operation: 'app_password_auth',
+      error: {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined
+      }
+    });
+    return res.status(500).type('text/plain').send('Authentication failed');
+  }
+}
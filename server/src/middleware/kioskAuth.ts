@@ -0,0 +1,46 @@
+/**
+ * ATTENDANCE KIOSK DEVICE AUTHENTICATION
+ *
+ * Shared time clock devices authenticate with a device token sent in the
+ * X-Kiosk-Token header instead of a user session. The token is scoped to one
+ * business and only works while that business has the HR module installed
+ * with clock in/out enabled.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../lib/prisma';
+import { getBusinessHRFeatures } from './hrFeatureGating';
+import { findKioskDeviceByToken } from '../services/hrAttendanceKioskService';
+
+export async function authenticateKioskDevice(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const token = req.header('x-kiosk-token');
+    if (!token) {
+      return res.status(401).json({ error: 'Kiosk token required' });
+    }
+
+    const device = await findKioskDeviceByToken(token);
+    if (!device) {
+      return res.status(401).json({ error: 'Kiosk token is invalid or the device was deactivated' });
+    }
+
+    const installation = await prisma.businessModuleInstallation.findFirst({
+      where: { businessId: device.businessId, moduleId: 'hr', enabled: true },
+      select: { id: true }
+    });
+    const { features } = await getBusinessHRFeatures(device.businessId);
+    if (!installation || !features.attendance.clockInOut) {
+      return res.status(403).json({ error: 'Clock in/out is not enabled for this business' });
+    }
+
+    req.kioskDevice = device;
+    next();
+  } catch (error) {
+    console.error('Kiosk authentication error:', error);
+    return res.status(500).json({ error: 'Kiosk authentication failed' });
+  }
+}
@@ -0,0 +1,19 @@
+import multer from 'multer';
+
+const PHOTO_MIME_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+/**
+ * Kiosk punch photos, one per punch, sent as "photo:<clientPunchId>" fields
+ * (2MB each, up to 50 per offline sync)
+ */
+export const kioskPhotoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024, files: 50 },
+  fileFilter: (req, file, cb) => {
+    if (file.fieldname.startsWith('photo:') && PHOTO_MIME_TYPES.has(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Kiosk photos must be JPEG, PNG or WebP images'));
+    }
+  }
+});
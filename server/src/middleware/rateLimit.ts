@@ -0,0 +1,48 @@
+/**
+ * REQUEST RATE LIMITING
+ *
+ * Fixed-window counters for public endpoints that take guesses (share link
+ * passwords) or write without an account (appointment bookings and changes).
+ * Counters live in process memory, so each server instance limits on its own.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  // Groups requests into one counter; defaults to the client IP
+  key?: (req: Request) => string | undefined;
+  // JSON body sent with the 429, in the calling router's error shape
+  body: Record<string, unknown>;
+}
+
+// Expired windows are swept once the map grows past this many keys
+const SWEEP_THRESHOLD = 10000;
+
+export function createRateLimiter({ windowMs, max, key = (req) => req.ip, body }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    if (windows.size > SWEEP_THRESHOLD) {
+      for (const [windowKey, window] of windows) {
+        if (window.resetAt <= now) windows.delete(windowKey);
+      }
+    }
+
+    const windowKey = key(req) ?? 'unknown';
+    let window = windows.get(windowKey);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(windowKey, window);
+    }
+    window.count += 1;
+
+    if (window.count > max) {
+      res.setHeader('Retry-After', Math.ceil((window.resetAt - now) / 1000).toString());
+      return res.status(429).json(body);
+    }
+    next();
+  };
+}
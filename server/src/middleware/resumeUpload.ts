@@ -0,0 +1,19 @@
+import path from 'path';
+import multer from 'multer';
+
+const RESUME_EXTENSIONS = new Set(['.pdf', '.doc', '.docx', '.odt', '.rtf', '.txt']);
+
+/**
+ * Single "resume" file upload for job applications (10MB, document formats only)
+ */
+export const resumeUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (RESUME_EXTENSIONS.has(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Resume must be a PDF, Word, ODT, RTF or text document'));
+    }
+  }
+});
@@ -3,6 +3,7 @@ import { AuthenticatedRequest as BaseAuthenticatedRequest } from '../middleware/
 import { prisma } from '../lib/prisma';
 import { logger } from '../lib/logger';
 import { BusinessRole, ModuleInstallation } from '@prisma/client';
+import { getManagedEmployeePositionIds } from '../services/schedulingTeamService';
 
 // Extend AuthenticatedRequest to include scheduling-specific properties
 export interface AuthenticatedRequest extends BaseAuthenticatedRequest {
@@ -242,27 +243,17 @@ export const checkSchedulingManagerAccess = async (
       return;
     }
 
-    // For regular managers, get their direct reports
-    // Note: This requires org chart structure with supervisor relationships
-    // For now, we'll allow managers to see their own team based on org chart
-    // TODO: Implement proper org chart hierarchy lookup
-    const directReports = await prisma.employeePosition.findMany({
-      where: {
-        businessId,
-        active: true,
-        // Add org chart hierarchy filtering here when implemented
-      },
-      select: { id: true },
-    });
+    // Regular managers see everyone below them in the org chart
+    const directReportIds = await getManagedEmployeePositionIds(businessId, employeePosition.id);
 
-    if (directReports.length === 0) {
+    if (directReportIds.length === 0) {
       logger.warn(`Permission denied: User ${user.id} has manager role but no direct reports in business ${businessId}`);
       res.status(403).json({ message: 'Forbidden: No direct reports found for manager access' });
       return;
     }
 
     req.employeePositionId = employeePosition.id;
-    req.directReportIds = directReports.map((dr) => dr.id);
+    req.directReportIds = directReportIds;
     next();
   } catch (error: unknown) {
     const err = error as Error;
@@ -0,0 +1,21 @@
+/**
+ * ATTENDANCE KIOSK ROUTES
+ *
+ * Shared time clock devices (AttendanceMethod.HARDWARE). Requests carry a
+ * business-scoped device token in X-Kiosk-Token rather than a user session;
+ * employees identify themselves per punch with a PIN or badge number.
+ */
+
+import express from 'express';
+import { authenticateKioskDevice } from '../middleware/kioskAuth';
+import { kioskPhotoUpload } from '../middleware/kioskPhotoUpload';
+import * as hrController from '../controllers/hrController';
+
+const router: express.Router = express.Router();
+
+router.use(authenticateKioskDevice);
+
+router.get('/session', hrController.getAttendanceKioskSession);
+router.post('/punches', kioskPhotoUpload.any(), hrController.submitAttendanceKioskPunches);
+
+export default router;
@@ -0,0 +1,29 @@
+/**
+ * PUBLIC BOOKING PAGE ROUTES
+ *
+ * Unauthenticated appointment scheduling for users and businesses. Guests
+ * list open slots and book them; the confirmation email carries a manage
+ * token (an RsvpToken on the event) for rescheduling or canceling.
+ */
+
+import express from 'express';
+import * as appointmentBookingController from '../controllers/appointmentBookingController';
+import { createRateLimiter } from '../middleware/rateLimit';
+
+const router: express.Router = express.Router();
+
+// Guests write without an account, so bookings and changes to them are limited per visitor
+const tooManyRequests = { success: false, error: 'Too many booking requests. Try again later', code: 'rate_limited' };
+const bookLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 10, body: tooManyRequests });
+const manageLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 20, body: tooManyRequests });
+
+router.get('/types/:typeId/slots', appointmentBookingController.getPublicSlots); // query: start, end
+router.post('/types/:typeId/book', bookLimiter, appointmentBookingController.bookAppointment);
+router.get('/manage/:token', appointmentBookingController.getManagedBooking);
+router.get('/manage/:token/slots', appointmentBookingController.getRescheduleSlots); // query: start, end
+router.post('/manage/:token/reschedule', manageLimiter, appointmentBookingController.rescheduleBooking);
+router.post('/manage/:token/cancel', manageLimiter, appointmentBookingController.cancelBooking);
+// ownerType: user | business
+router.get('/:ownerType/:ownerId', appointmentBookingController.getBookingPage);
+
+export default router;
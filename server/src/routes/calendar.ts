@@ -12,13 +12,34 @@ import {
   rsvpEvent,
   searchEvents,
   checkConflicts,
-  getFreeBusy
+  getFreeBusy,
+  getWorkingHours,
+  updateWorkingHours,
+  findMeetingTimes
 } from '../controllers/calendarController';
 import {
   getUpcomingEventsContext,
   getTodayScheduleContext,
   checkAvailability
 } from '../controllers/calendarAIContextController';
+import {
+  listResources,
+  createResource,
+  updateResource,
+  archiveResource,
+  getResourceAvailability,
+  listBookings,
+  approveBooking,
+  declineBooking,
+  cancelBooking
+} from '../controllers/calendarResourceController';
+import {
+  listAppointmentTypes,
+  createAppointmentType,
+  updateAppointmentType,
+  archiveAppointmentType,
+  listAppointmentBookings
+} from '../controllers/appointmentBookingController';
 import { authenticateJWT } from '../middleware/auth';
 
 const router: express.Router = express.Router();
@@ -31,7 +52,28 @@ router.delete('/:id', deleteCalendar);
 router.post('/auto-provision', autoProvisionCalendar);
 
 // Free-busy
-router.get('/freebusy', getFreeBusy);
+router.get('/freebusy', getFreeBusy); // query: start, end, calendarIds[], attendeeEmails[], userIds[]
+router.get('/working-hours', getWorkingHours);
+router.put('/working-hours', updateWorkingHours);
+router.post('/find-time', findMeetingTimes); // body: start, end, durationMinutes, attendeeEmails[], userIds[], resourceIds[], constraints
+router.get('/resources/availability', getResourceAvailability); // query: start, end, businessId | resourceIds[]
+
+// Bookable resources (rooms, vehicles, equipment)
+router.get('/resources', listResources);
+router.post('/resources', createResource);
+router.patch('/resources/:resourceId', updateResource);
+router.delete('/resources/:resourceId', archiveResource);
+router.get('/resources/bookings', listBookings); // query: businessId, scope=mine|pending
+router.post('/resources/bookings/:bookingId/approve', approveBooking);
+router.post('/resources/bookings/:bookingId/decline', declineBooking);
+router.delete('/resources/bookings/:bookingId', cancelBooking);
+
+// Appointment types for public booking pages
+router.get('/appointment-types', listAppointmentTypes); // query: contextType=PERSONAL|BUSINESS, contextId
+router.post('/appointment-types', createAppointmentType);
+router.patch('/appointment-types/:typeId', updateAppointmentType);
+router.delete('/appointment-types/:typeId', archiveAppointmentType);
+router.get('/appointment-types/:typeId/bookings', listAppointmentBookings);
 
 // Events
 router.get('/events', listEventsInRange); // query: start, end, contexts[]
@@ -53,10 +95,9 @@ router.get('/events/:id/comments', listComments);
 router.post('/events/:id/comments', addComment);
 router.delete('/events/:id/comments/:commentId', deleteComment);
 
-// Utilities: ICS export and free-busy
+// Utilities: ICS export
 import * as calendarUtils from '../controllers/calendarUtilsController';
 router.get('/export.ics', calendarUtils.exportIcs);
-router.get('/freebusy', calendarUtils.freeBusy);
 
 // Public RSVP endpoint (no auth middleware on router-level, but we validate token inside handler)
 router.get('/rsvp', async (req, res) => {
@@ -0,0 +1,19 @@
+/**
+ * PUBLIC CAREERS ROUTES
+ *
+ * Unauthenticated job postings and applications for a business's
+ * careers page. Postings are only listed while the business has the HR
+ * module installed with the recruitment feature.
+ */
+
+import express from 'express';
+import { resumeUpload } from '../middleware/resumeUpload';
+import * as hrController from '../controllers/hrController';
+
+const router: express.Router = express.Router();
+
+router.get('/:businessId/jobs', hrController.getPublicJobPostings);
+router.get('/:businessId/jobs/:id', hrController.getPublicJobPosting);
+router.post('/:businessId/jobs/:id/apply', resumeUpload.single('resume'), hrController.submitPublicJobApplication);
+
+export default router;
@@ -0,0 +1,33 @@
+/**
+ * DRIVE WEBDAV ROUTES
+ *
+ * WebDAV class 2 access to Drive for desktop clients (Finder, Explorer, rclone...),
+ * authenticated with HTTP Basic and an app password. Mounted outside /api and ahead
+ * of the JSON body parser so PUT bodies stream through untouched.
+ */
+
+import express from 'express';
+import * as driveDavController from '../controllers/driveDavController';
+import { authenticateAppPasswordBasic } from '../middleware/appPasswordAuth';
+
+const router: express.Router = express.Router();
+
+// PROPFIND, PROPPATCH and LOCK carry small XML bodies, whatever content type the client declares
+const xmlBody = express.text({ type: () => true, limit: '64kb' });
+
+router.options('*', driveDavController.davOptions);
+
+router.use(authenticateAppPasswordBasic);
+
+router.propfind('*', xmlBody, driveDavController.davPropfind);
+router.proppatch('*', xmlBody, driveDavController.davProppatch);
+router.get('*', driveDavController.davGet); // Also answers HEAD
+router.put('*', driveDavController.davPut);
+router.mkcol('*', driveDavController.davMkcol);
+router.delete('*', driveDavController.davDelete);
+router.copy('*', driveDavController.davCopy);
+router.move('*', driveDavController.davMove);
+router.lock('*', xmlBody, driveDavController.davLock);
+router.unlock('*', driveDavController.davUnlock);
+
+export default router;
@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import fileRouter from './file';
 import folderRouter from './folder';
 import { getItemActivity, getSharedItems } from '../controllers/fileController';
@@ -7,6 +7,34 @@ import {
   getStorageStatsContext,
   getFileCount 
 } from '../controllers/driveAIContextController';
+import {
+  createShareLink,
+  listShareLinks,
+  updateShareLink,
+  revokeShareLink,
+  getShareLinkActivity
+} from '../controllers/driveShareLinkController';
+import {
+  createUploadSession,
+  getUploadSession,
+  putUploadChunk,
+  completeUploadSession,
+  abortUploadSession
+} from '../controllers/driveUploadController';
+import { getStorageUsage } from '../controllers/driveStorageController';
+import { downloadItemsArchive } from '../controllers/driveArchiveController';
+import {
+  listSharedDrives,
+  createSharedDrive,
+  getSharedDrive,
+  updateSharedDrive,
+  deleteSharedDrive,
+  setSharedDriveMember,
+  removeSharedDriveMember,
+  setSharedDriveDepartment,
+  removeSharedDriveDepartment
+} from '../controllers/sharedDriveController';
+import { MAX_CHUNK_SIZE } from '../services/driveUploadService';
 import { authenticateJWT } from '../middleware/auth';
 
 const driveRouter: Router = Router();
@@ -16,6 +44,42 @@ driveRouter.use('/folders', folderRouter);
 driveRouter.get('/items/:itemId/activity', getItemActivity);
 driveRouter.get('/shared', authenticateJWT, getSharedItems);
 
+// Share links (public access is served by /api/drive-share)
+driveRouter.post('/items/:itemId/share-link', authenticateJWT, createShareLink);
+driveRouter.get('/items/:itemId/share-links', authenticateJWT, listShareLinks);
+driveRouter.put('/share-links/:linkId', authenticateJWT, updateShareLink);
+driveRouter.delete('/share-links/:linkId', authenticateJWT, revokeShareLink);
+driveRouter.get('/share-links/:linkId/activity', authenticateJWT, getShareLinkActivity);
+
+// Resumable uploads: create a session, PUT chunks, then complete
+driveRouter.post('/uploads', authenticateJWT, createUploadSession);
+driveRouter.get('/uploads/:sessionId', authenticateJWT, getUploadSession);
+driveRouter.put(
+  '/uploads/:sessionId/chunks',
+  authenticateJWT,
+  express.raw({ type: '*/*', limit: MAX_CHUNK_SIZE }),
+  putUploadChunk
+);
+driveRouter.post('/uploads/:sessionId/complete', authenticateJWT, completeUploadSession);
+driveRouter.delete('/uploads/:sessionId', authenticateJWT, abortUploadSession);
+
+// Quota usage for the storage meter
+driveRouter.get('/storage', authenticateJWT, getStorageUsage);
+
+// Download selected files and folders as one ZIP
+driveRouter.post('/download', authenticateJWT, downloadItemsArchive);
+
+// Business-owned shared drives and their membership
+driveRouter.get('/shared-drives', authenticateJWT, listSharedDrives);
+driveRouter.post('/shared-drives', authenticateJWT, createSharedDrive);
+driveRouter.get('/shared-drives/:id', authenticateJWT, getSharedDrive);
+driveRouter.patch('/shared-drives/:id', authenticateJWT, updateSharedDrive);
+driveRouter.delete('/shared-drives/:id', authenticateJWT, deleteSharedDrive);
+driveRouter.put('/shared-drives/:id/members', authenticateJWT, setSharedDriveMember);
+driveRouter.delete('/shared-drives/:id/members/:userId', authenticateJWT, removeSharedDriveMember);
+driveRouter.put('/shared-drives/:id/departments', authenticateJWT, setSharedDriveDepartment);
+driveRouter.delete('/shared-drives/:id/departments/:departmentId', authenticateJWT, removeSharedDriveDepartment);
+
 // AI Context Provider Endpoints
 driveRouter.get('/ai/context/recent', authenticateJWT, getRecentFilesContext);
 driveRouter.get('/ai/context/storage', authenticateJWT, getStorageStatsContext);
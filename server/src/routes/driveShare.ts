@@ -0,0 +1,26 @@
+/**
+ * PUBLIC DRIVE SHARE LINK ROUTES
+ *
+ * Unauthenticated access to files and folders through share link tokens.
+ * Password-protected links are unlocked for a short-lived access token,
+ * sent back as the X-Share-Access header or the `access` query parameter.
+ */
+
+import express from 'express';
+import * as driveShareLinkController from '../controllers/driveShareLinkController';
+import { createRateLimiter } from '../middleware/rateLimit';
+
+const router: express.Router = express.Router();
+
+// Password guesses are limited per visitor and per link
+const tooManyAttempts = { message: 'Too many password attempts. Try again later', code: 'too_many_attempts' };
+const unlockLimiters = [
+  createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10, body: tooManyAttempts }),
+  createRateLimiter({ windowMs: 15 * 60 * 1000, max: 30, key: (req) => req.params.token, body: tooManyAttempts })
+];
+
+router.get('/:token', driveShareLinkController.getSharedItem);
+router.post('/:token/unlock', ...unlockLimiters, driveShareLinkController.unlockSharedItem);
+router.get('/:token/download', driveShareLinkController.downloadSharedFile);
+
+export default router;
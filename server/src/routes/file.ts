@@ -1,7 +1,7 @@
 console.log('[DEBUG] fileRouter loaded');
 import express from 'express';
 import { authenticateJWT } from '../middleware/auth';
-import { listFiles, uploadFile, downloadFile, updateFile, deleteFile, multerUploadWithErrorHandling, listFilePermissions, grantFilePermission, updateFilePermission, revokeFilePermission, listTrashedFiles, restoreFile, hardDeleteFile, toggleFileStarred, reorderFiles, moveFile } from '../controllers/fileController';
+import { listFiles, uploadFile, downloadFile, updateFile, deleteFile, multerUploadWithErrorHandling, listFilePermissions, grantFilePermission, updateFilePermission, revokeFilePermission, listTrashedFiles, restoreFile, hardDeleteFile, toggleFileStarred, reorderFiles, moveFile, listFileVersions, downloadFileVersion, restoreFileVersion, deleteFileVersion, updateFileVersionRetention, getFileThumbnail, getFilePreview, scanFileForDlp } from '../controllers/fileController';
 
 const router: express.Router = express.Router();
 
@@ -45,12 +45,36 @@ router.delete('/:id/hard-delete', authenticateJWT, hardDeleteFile);
 // Move a file to a different folder
 router.post('/:id/move', authenticateJWT, moveFile);
 
+// Thumbnail image of a file (?size=small|medium|large)
+router.get('/:id/thumbnail', authenticateJWT, getFileThumbnail);
+
+// Thumbnail URLs and text preview of a file
+router.get('/:id/preview', authenticateJWT, getFilePreview);
+
+// Rescan a file for sensitive content (data loss prevention)
+router.post('/:id/dlp-scan', authenticateJWT, scanFileForDlp);
+
+// List the version history of a file
+router.get('/:id/versions', authenticateJWT, listFileVersions);
+
+// Set the version retention policy of a file
+router.put('/:id/versions/retention', authenticateJWT, updateFileVersionRetention);
+
+// Download a prior version
+router.get('/:id/versions/:versionId/download', authenticateJWT, downloadFileVersion);
+
+// Make a prior version the current content
+router.post('/:id/versions/:versionId/restore', authenticateJWT, restoreFileVersion);
+
+// Permanently delete a prior version
+router.delete('/:id/versions/:versionId', authenticateJWT, deleteFileVersion);
+
 // Generic routes (must come after all specific routes)
 // Download or preview a file
 router.get('/:id', authenticateJWT, downloadFile);
 
-// Update (rename/move) a file
-router.put('/:id', authenticateJWT, updateFile);
+// Update (rename/move) a file, or overwrite its content with a multipart upload
+router.put('/:id', authenticateJWT, multerUploadWithErrorHandling, updateFile);
 
 // Delete a file (move to trash)
 router.delete('/:id', authenticateJWT, deleteFile);
@@ -2,6 +2,7 @@ import express from 'express';
 import { authenticateJWT } from '../middleware/auth';
 import { listFolders, createFolder, updateFolder, deleteFolder, listTrashedFolders, restoreFolder, hardDeleteFolder, getRecentActivity, toggleFolderStarred, reorderFolders, moveFolder } from '../controllers/folderController';
 import { listFolderPermissions, grantFolderPermission, updateFolderPermission, revokeFolderPermission } from '../controllers/folderPermissionController';
+import { downloadFolderArchive } from '../controllers/driveArchiveController';
 
 const router: express.Router = express.Router();
 
@@ -38,6 +39,9 @@ router.post('/reorder/:parentId', authenticateJWT, reorderFolders);
 // Move a folder to a different parent folder
 router.post('/:id/move', authenticateJWT, moveFolder);
 
+// Download a folder and its contents as a ZIP
+router.get('/:id/download', authenticateJWT, downloadFolderArchive);
+
 // Folder permission routes (must come before generic :id routes)
 // List all permissions for a folder
 router.get('/:id/permissions', authenticateJWT, listFolderPermissions);
@@ -26,6 +26,7 @@ import {
   checkHRFeature,
   checkHRModuleInstalled
 } from '../middleware/hrFeatureGating';
+import { resumeUpload } from '../middleware/resumeUpload';
 import * as hrController from '../controllers/hrController';
 
 // Configure multer for CSV uploads
@@ -166,6 +167,62 @@ router.put(
   hrController.updateAttendancePolicy
 );
 
+// Attendance kiosks (shared time clock devices)
+router.get(
+  '/admin/attendance/kiosks',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.getAttendanceKiosks
+);
+router.post(
+  '/admin/attendance/kiosks',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.createAttendanceKiosk
+);
+router.put(
+  '/admin/attendance/kiosks/:id',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.updateAttendanceKiosk
+);
+router.post(
+  '/admin/attendance/kiosks/:id/rotate-token',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.rotateAttendanceKioskToken
+);
+router.delete(
+  '/admin/attendance/kiosks/:id',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.deactivateAttendanceKiosk
+);
+router.get(
+  '/admin/attendance/kiosk-credentials',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.getAttendanceKioskCredentials
+);
+router.put(
+  '/admin/attendance/kiosk-credentials/:employeePositionId',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.updateAttendanceKioskCredential
+);
+router.get(
+  '/admin/attendance/kiosk-punches',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.getAttendanceKioskPunches
+);
+router.get(
+  '/admin/attendance/kiosk-punches/:id/photo',
+  checkHRFeature('attendance.clockInOut'),
+  checkHRAdmin,
+  hrController.getAttendanceKioskPunchPhoto
+);
+
 // ============================================================================
 // ENTERPRISE-ONLY ADMIN ROUTES
 // Route: /api/hr/admin/*
@@ -173,56 +230,97 @@ router.put(
 // ============================================================================
 
 // Payroll (Enterprise only)
-router.get('/admin/payroll', 
+router.get('/admin/payroll',
   checkHRFeature('payroll'),
-  checkHRAdmin, 
-  (req, res) => {
-    res.json({ 
-      message: 'Payroll dashboard - framework stub',
-      tier: req.hrTier,
-      note: 'Feature implementation pending'
-    });
-  }
-);
+  checkHRAdmin,
+  hrController.getPayrollDashboard
+);
+router.get('/admin/payroll/lines', checkHRFeature('payroll'), checkHRAdmin, hrController.getPayrollLines);
+router.post('/admin/payroll/lines', checkHRFeature('payroll'), checkHRAdmin, hrController.createPayrollLine);
+router.put('/admin/payroll/lines/:id', checkHRFeature('payroll'), checkHRAdmin, hrController.updatePayrollLine);
+router.delete('/admin/payroll/lines/:id', checkHRFeature('payroll'), checkHRAdmin, hrController.deletePayrollLine);
+router.get('/admin/payroll/periods', checkHRFeature('payroll'), checkHRAdmin, hrController.getPayPeriods);
+router.post('/admin/payroll/periods', checkHRFeature('payroll'), checkHRAdmin, hrController.createPayPeriod);
+router.get('/admin/payroll/runs', checkHRFeature('payroll'), checkHRAdmin, hrController.getPayRuns);
+router.post('/admin/payroll/runs', checkHRFeature('payroll'), checkHRAdmin, hrController.createPayRun);
+router.get('/admin/payroll/runs/:id', checkHRFeature('payroll'), checkHRAdmin, hrController.getPayRun);
+router.post('/admin/payroll/runs/:id/calculate', checkHRFeature('payroll'), checkHRAdmin, hrController.calculatePayRun);
+router.post('/admin/payroll/runs/:id/finalize', checkHRFeature('payroll'), checkHRAdmin, hrController.finalizePayRun);
+router.post('/admin/payroll/runs/:id/void', checkHRFeature('payroll'), checkHRAdmin, hrController.voidPayRun);
 
 // Recruitment/ATS (Enterprise only)
 router.get('/admin/recruitment',
   checkHRFeature('recruitment'),
   checkHRAdmin,
-  (req, res) => {
-    res.json({ 
-      message: 'Recruitment dashboard - framework stub',
-      tier: req.hrTier,
-      note: 'Feature implementation pending'
-    });
-  }
+  hrController.getRecruitmentDashboard
+);
+router.get('/admin/recruitment/stages', checkHRFeature('recruitment'), checkHRAdmin, hrController.getRecruitmentStages);
+router.post('/admin/recruitment/stages', checkHRFeature('recruitment'), checkHRAdmin, hrController.createRecruitmentStage);
+router.put('/admin/recruitment/stages/:id', checkHRFeature('recruitment'), checkHRAdmin, hrController.updateRecruitmentStage);
+router.delete('/admin/recruitment/stages/:id', checkHRFeature('recruitment'), checkHRAdmin, hrController.deleteRecruitmentStage);
+router.get('/admin/recruitment/requisitions', checkHRFeature('recruitment'), checkHRAdmin, hrController.getJobRequisitions);
+router.post('/admin/recruitment/requisitions', checkHRFeature('recruitment'), checkHRAdmin, hrController.createJobRequisition);
+router.get('/admin/recruitment/requisitions/:id', checkHRFeature('recruitment'), checkHRAdmin, hrController.getJobRequisition);
+router.put('/admin/recruitment/requisitions/:id', checkHRFeature('recruitment'), checkHRAdmin, hrController.updateJobRequisition);
+router.get('/admin/recruitment/applications', checkHRFeature('recruitment'), checkHRAdmin, hrController.getJobApplications);
+router.post('/admin/recruitment/applications',
+  checkHRFeature('recruitment'),
+  checkHRAdmin,
+  resumeUpload.single('resume'),
+  hrController.createJobApplication
 );
+router.get('/admin/recruitment/applications/:id', checkHRFeature('recruitment'), checkHRAdmin, hrController.getJobApplication);
+router.get('/admin/recruitment/applications/:id/resume', checkHRFeature('recruitment'), checkHRAdmin, hrController.downloadApplicationResume);
+router.post('/admin/recruitment/applications/:id/stage', checkHRFeature('recruitment'), checkHRAdmin, hrController.moveJobApplicationStage);
+router.post('/admin/recruitment/applications/:id/reject', checkHRFeature('recruitment'), checkHRAdmin, hrController.rejectJobApplication);
+router.post('/admin/recruitment/applications/:id/interviews', checkHRFeature('recruitment'), checkHRAdmin, hrController.scheduleInterview);
+router.post('/admin/recruitment/applications/:id/hire', checkHRFeature('recruitment'), checkHRAdmin, hrController.hireCandidate);
+router.put('/admin/recruitment/interviews/:id', checkHRFeature('recruitment'), checkHRAdmin, hrController.updateInterview);
 
 // Performance Management (Enterprise only)
 router.get('/admin/performance',
   checkHRFeature('performance'),
   checkHRAdmin,
-  (req, res) => {
-    res.json({ 
-      message: 'Performance management - framework stub',
-      tier: req.hrTier,
-      note: 'Feature implementation pending'
-    });
-  }
-);
+  hrController.getPerformanceDashboard
+);
+router.get('/admin/performance/rating-scales', checkHRFeature('performance'), checkHRAdmin, hrController.getPerformanceRatingScales);
+router.post('/admin/performance/rating-scales', checkHRFeature('performance'), checkHRAdmin, hrController.createPerformanceRatingScale);
+router.put('/admin/performance/rating-scales/:id', checkHRFeature('performance'), checkHRAdmin, hrController.updatePerformanceRatingScale);
+router.get('/admin/performance/questionnaires', checkHRFeature('performance'), checkHRAdmin, hrController.getPerformanceQuestionnaires);
+router.post('/admin/performance/questionnaires', checkHRFeature('performance'), checkHRAdmin, hrController.createPerformanceQuestionnaire);
+router.put('/admin/performance/questionnaires/:id', checkHRFeature('performance'), checkHRAdmin, hrController.updatePerformanceQuestionnaire);
+router.get('/admin/performance/cycles', checkHRFeature('performance'), checkHRAdmin, hrController.getPerformanceCycles);
+router.post('/admin/performance/cycles', checkHRFeature('performance'), checkHRAdmin, hrController.createPerformanceCycle);
+router.get('/admin/performance/cycles/:id', checkHRFeature('performance'), checkHRAdmin, hrController.getPerformanceCycle);
+router.put('/admin/performance/cycles/:id', checkHRFeature('performance'), checkHRAdmin, hrController.updatePerformanceCycle);
+router.post('/admin/performance/cycles/:id/launch', checkHRFeature('performance'), checkHRAdmin, hrController.launchPerformanceCycle);
+router.post('/admin/performance/cycles/:id/close', checkHRFeature('performance'), checkHRAdmin, hrController.closePerformanceCycle);
+router.get('/admin/performance/cycles/:id/calibration', checkHRFeature('performance'), checkHRAdmin, hrController.getPerformanceCalibration);
+router.get('/admin/performance/reviews/:id', checkHRFeature('performance'), checkHRAdmin, hrController.getPerformanceReview);
+router.post('/admin/performance/reviews/:id/peers', checkHRFeature('performance'), checkHRAdmin, hrController.addPerformancePeerReviewers);
+router.post('/admin/performance/reviews/:id/calibrate', checkHRFeature('performance'), checkHRAdmin, hrController.calibratePerformanceReview);
+router.post('/admin/performance/reviews/:id/finalize', checkHRFeature('performance'), checkHRAdmin, hrController.finalizePerformanceReview);
+router.get('/admin/performance/goals', checkHRFeature('performance'), checkHRAdmin, hrController.getPerformanceGoals);
+router.post('/admin/performance/goals', checkHRFeature('performance'), checkHRAdmin, hrController.createPerformanceGoal);
+router.put('/admin/performance/goals/:id', checkHRFeature('performance'), checkHRAdmin, hrController.updatePerformanceGoal);
+router.delete('/admin/performance/goals/:id', checkHRFeature('performance'), checkHRAdmin, hrController.deletePerformanceGoal);
+router.get('/admin/employees/:id/performance', checkHRFeature('performance'), checkHRAdmin, hrController.getEmployeePerformance);
 
 // Benefits Administration (Enterprise only)
-router.get('/admin/benefits',
-  checkHRFeature('benefits'),
-  checkHRAdmin,
-  (req, res) => {
-    res.json({ 
-      message: 'Benefits administration - framework stub',
-      tier: req.hrTier,
-      note: 'Feature implementation pending'
-    });
-  }
-);
+router.get('/admin/benefits', checkHRFeature('benefits'), checkHRAdmin, hrController.getBenefitsDashboard);
+router.get('/admin/benefits/plans', checkHRFeature('benefits'), checkHRAdmin, hrController.getBenefitPlans);
+router.post('/admin/benefits/plans', checkHRFeature('benefits'), checkHRAdmin, hrController.createBenefitPlan);
+router.put('/admin/benefits/plans/:id', checkHRFeature('benefits'), checkHRAdmin, hrController.updateBenefitPlan);
+router.delete('/admin/benefits/plans/:id', checkHRFeature('benefits'), checkHRAdmin, hrController.deleteBenefitPlan);
+router.get('/admin/benefits/windows', checkHRFeature('benefits'), checkHRAdmin, hrController.getBenefitEnrollmentWindows);
+router.post('/admin/benefits/windows', checkHRFeature('benefits'), checkHRAdmin, hrController.createBenefitEnrollmentWindow);
+router.put('/admin/benefits/windows/:id', checkHRFeature('benefits'), checkHRAdmin, hrController.updateBenefitEnrollmentWindow);
+router.get('/admin/benefits/enrollments', checkHRFeature('benefits'), checkHRAdmin, hrController.getBenefitEnrollments);
+router.post('/admin/benefits/enrollments/:id/end', checkHRFeature('benefits'), checkHRAdmin, hrController.endBenefitEnrollment);
+router.get('/admin/benefits/life-events', checkHRFeature('benefits'), checkHRAdmin, hrController.getBenefitLifeEvents);
+router.post('/admin/benefits/life-events', checkHRFeature('benefits'), checkHRAdmin, hrController.createBenefitLifeEvent);
+router.post('/admin/benefits/life-events/:id/review', checkHRFeature('benefits'), checkHRAdmin, hrController.reviewBenefitLifeEvent);
+router.get('/admin/benefits/census/export', checkHRFeature('benefits'), checkHRAdmin, hrController.exportBenefitsCensusCSV);
 
 // ============================================================================
 // MANAGER ROUTES (Team Management)
@@ -271,6 +369,19 @@ router.post(
   hrController.resolveTeamAttendanceException
 );
 
+router.get(
+  '/team/performance/reviews',
+  checkHRFeature('performance'),
+  checkManagerAccess,
+  hrController.getTeamPerformanceReviews
+);
+router.get(
+  '/team/performance/goals',
+  checkHRFeature('performance'),
+  checkManagerAccess,
+  hrController.getTeamPerformanceGoals
+);
+
 // Time-off calendar (admins and managers)
 router.get('/team/time-off/calendar',
   checkManagerAccess,
@@ -308,6 +419,12 @@ router.post(
   checkEmployeeAccess,
   hrController.recordSelfAttendancePunchOut
 );
+router.put(
+  '/me/attendance/kiosk-pin',
+  checkHRFeature('attendance.clockInOut'),
+  checkEmployeeAccess,
+  hrController.updateMyAttendanceKioskPin
+);
 
 // Request time off (framework stub)
 router.post('/me/time-off/request',
@@ -345,17 +462,32 @@ router.post(
   hrController.completeMyOnboardingTask
 );
 
-// View own pay stubs (framework stub)
-router.get('/me/pay-stubs',
-  checkEmployeeAccess,
-  (req, res) => {
-    res.json({ 
-      message: 'Pay stubs - framework stub',
-      payStubs: [],
-      note: 'Feature implementation pending'
-    });
-  }
-);
+// Performance reviews and goals (self-service)
+router.get('/me/performance/reviews', checkHRFeature('performance'), checkEmployeeAccess, hrController.getMyPerformanceReviews);
+router.get('/me/performance/tasks', checkHRFeature('performance'), checkEmployeeAccess, hrController.getMyPerformanceTasks);
+router.get('/me/performance/submissions/:id', checkHRFeature('performance'), checkEmployeeAccess, hrController.getMyPerformanceSubmission);
+router.put('/me/performance/submissions/:id', checkHRFeature('performance'), checkEmployeeAccess, hrController.saveMyPerformanceSubmission);
+router.get('/me/performance/goals', checkHRFeature('performance'), checkEmployeeAccess, hrController.getMyPerformanceGoals);
+router.post('/me/performance/goals', checkHRFeature('performance'), checkEmployeeAccess, hrController.createMyPerformanceGoal);
+router.put('/me/performance/goals/:id', checkHRFeature('performance'), checkEmployeeAccess, hrController.updateMyPerformanceGoal);
+router.delete('/me/performance/goals/:id', checkHRFeature('performance'), checkEmployeeAccess, hrController.deleteMyPerformanceGoal);
+
+// Benefits enrollment, dependents and beneficiaries (self-service)
+router.get('/me/benefits', checkHRFeature('benefits'), checkEmployeeAccess, hrController.getMyBenefits);
+router.post('/me/benefits/elections', checkHRFeature('benefits'), checkEmployeeAccess, hrController.submitMyBenefitElections);
+router.get('/me/benefits/dependents', checkHRFeature('benefits'), checkEmployeeAccess, hrController.getMyBenefitDependents);
+router.post('/me/benefits/dependents', checkHRFeature('benefits'), checkEmployeeAccess, hrController.createMyBenefitDependent);
+router.put('/me/benefits/dependents/:id', checkHRFeature('benefits'), checkEmployeeAccess, hrController.updateMyBenefitDependent);
+router.delete('/me/benefits/dependents/:id', checkHRFeature('benefits'), checkEmployeeAccess, hrController.deleteMyBenefitDependent);
+router.get('/me/benefits/beneficiaries', checkHRFeature('benefits'), checkEmployeeAccess, hrController.getMyBenefitBeneficiaries);
+router.put('/me/benefits/beneficiaries', checkHRFeature('benefits'), checkEmployeeAccess, hrController.updateMyBenefitBeneficiaries);
+router.get('/me/benefits/life-events', checkHRFeature('benefits'), checkEmployeeAccess, hrController.getMyBenefitLifeEvents);
+router.post('/me/benefits/life-events', checkHRFeature('benefits'), checkEmployeeAccess, hrController.reportMyBenefitLifeEvent);
+
+// View own pay stubs (issued stubs stay visible even if payroll is later disabled)
+router.get('/me/pay-stubs', checkEmployeeAccess, hrController.getMyPayStubs);
+router.get('/me/pay-stubs/:id', checkEmployeeAccess, hrController.getMyPayStub);
+router.get('/me/pay-stubs/:id/pdf', checkEmployeeAccess, hrController.downloadMyPayStubPdf);
 
 // ============================================================================
 // AI CONTEXT PROVIDERS (Required for AI integration)
@@ -74,6 +74,7 @@ router.delete('/admin/shifts/:id', checkSchedulingAdmin, schedulingController.de
 // Shift Templates
 router.get('/admin/templates', checkSchedulingAdmin, schedulingController.getShiftTemplates);
 router.post('/admin/templates', checkSchedulingAdmin, schedulingController.createShiftTemplate);
+router.post('/admin/templates/generate-week', checkSchedulingAdmin, schedulingController.generateWeekFromShiftTemplates);
 router.get('/admin/templates/:id', checkSchedulingAdmin, schedulingController.getShiftTemplateById);
 router.put('/admin/templates/:id', checkSchedulingAdmin, schedulingController.updateShiftTemplate);
 router.delete('/admin/templates/:id', checkSchedulingAdmin, schedulingController.deleteShiftTemplate);
@@ -107,6 +108,11 @@ router.post('/admin/job-locations', checkSchedulingAdmin, schedulingController.c
 router.put('/admin/job-locations/:id', checkSchedulingAdmin, schedulingController.updateBusinessJobLocation);
 router.delete('/admin/job-locations/:id', checkSchedulingAdmin, schedulingController.deleteBusinessJobLocation);
 
+// Analytics & Compliance
+router.get('/admin/analytics/labor-cost', checkSchedulingAdmin, schedulingController.getLaborCostAnalytics);
+router.get('/admin/analytics/coverage', checkSchedulingAdmin, schedulingController.getCoverageAnalytics);
+router.get('/admin/analytics/compliance', checkSchedulingAdmin, schedulingController.getComplianceReports);
+
 // Recommendations
 router.get('/recommendations', checkSchedulingAdmin, schedulingController.getSchedulingRecommendations);
 
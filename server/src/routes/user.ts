@@ -1,5 +1,6 @@
 import express from 'express';
 import { searchUsers, getUserPreferenceByKey, setUserPreferenceByKey } from '../controllers/userController';
+import * as appPasswordController from '../controllers/appPasswordController';
 
 const router: express.Router = express.Router();
 
@@ -9,4 +10,9 @@ router.get('/search', searchUsers);
 router.get('/preferences/:key', getUserPreferenceByKey);
 router.put('/preferences/:key', setUserPreferenceByKey);
 
+// App passwords for WebDAV and other clients that can't use the web sign-in
+router.get('/app-passwords', appPasswordController.listAppPasswords);
+router.post('/app-passwords', appPasswordController.createAppPassword);
+router.delete('/app-passwords/:id', appPasswordController.revokeAppPassword);
+
 export default router; 
\ No newline at end of file
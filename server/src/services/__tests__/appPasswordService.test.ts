@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { generateAppPassword, hashAppPassword, parseBasicCredentials } from '../appPasswordService';
+
+describe('appPasswordService', () => {
+  it('stores only a hash and a short hint', () => {
+    const { password, tokenHash, tokenHint } = generateAppPassword();
+    expect(password.startsWith('app_')).toBe(true);
+    expect(tokenHash).toBe(hashAppPassword(password));
+    expect(tokenHash).not.toContain(password);
+    expect(tokenHint).toBe(password.slice(-4));
+  });
+
+  it('parses Basic credentials, keeping colons in the password', () => {
+    const header = `Basic ${Buffer.from('ana@example.com:app_a:b').toString('base64')}`;
+    expect(parseBasicCredentials(header)).toEqual({ username: 'ana@example.com', password: 'app_a:b' });
+  });
+
+  it('rejects missing or malformed headers', () => {
+    expect(parseBasicCredentials(undefined)).toBeNull();
+    expect(parseBasicCredentials('Bearer abc')).toBeNull();
+    expect(parseBasicCredentials(`Basic ${Buffer.from('no-separator').toString('base64')}`)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SlotRules,
+  localDay,
+  normalizeAnswers,
+  normalizeAppointmentTypeInput,
+  normalizeGuest,
+  openSlots
+} from '../appointmentBookingService';
+
+const at = (iso: string) => new Date(iso);
+const span = (start: string, end: string) => ({ startAt: at(start), endAt: at(end) });
+const starts = (slots: Array<{ startAt: Date }>) => slots.map((slot) => slot.startAt.toISOString());
+
+const rules: SlotRules = {
+  durationMinutes: 30,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+  maxPerDay: null,
+  timezone: 'UTC'
+};
+const morning = [span('2030-01-07T09:00:00Z', '2030-01-07T11:00:00Z')];
+const windowStart = at('2030-01-07T00:00:00Z');
+const windowEnd = at('2030-01-08T00:00:00Z');
+
+describe('appointmentBookingService', () => {
+  it('lays out slots inside availability and skips busy time', () => {
+    const busy = [span('2030-01-07T09:30:00Z', '2030-01-07T10:00:00Z')];
+    expect(starts(openSlots(rules, morning, busy, windowStart, windowEnd))).toEqual([
+      '2030-01-07T09:00:00.000Z',
+      '2030-01-07T10:00:00.000Z',
+      '2030-01-07T10:30:00.000Z'
+    ]);
+  });
+
+  it('keeps buffers clear around busy time and honors the notice window', () => {
+    const busy = [span('2030-01-07T10:00:00Z', '2030-01-07T10:30:00Z')];
+    const buffered = { ...rules, bufferBeforeMinutes: 15, bufferAfterMinutes: 15 };
+    expect(starts(openSlots(buffered, morning, busy, windowStart, windowEnd))).toEqual([
+      '2030-01-07T09:00:00.000Z'
+    ]);
+    expect(starts(openSlots(rules, morning, [], at('2030-01-07T09:45:00Z'), windowEnd))).toEqual([
+      '2030-01-07T10:00:00.000Z',
+      '2030-01-07T10:30:00.000Z'
+    ]);
+  });
+
+  it('steps long appointments every 30 minutes and closes full days', () => {
+    const hour = { ...rules, durationMinutes: 60 };
+    expect(starts(openSlots(hour, morning, [], windowStart, windowEnd))).toEqual([
+      '2030-01-07T09:00:00.000Z',
+      '2030-01-07T09:30:00.000Z',
+      '2030-01-07T10:00:00.000Z'
+    ]);
+    const capped = { ...rules, maxPerDay: 2, timezone: 'America/New_York' };
+    // 09:00Z is still 2030-01-07 in New York
+    expect(localDay(at('2030-01-07T09:00:00Z'), 'America/New_York')).toBe('2030-01-07');
+    expect(openSlots(capped, morning, [], windowStart, windowEnd, new Map([['2030-01-07', 2]]))).toEqual([]);
+  });
+
+  it('validates appointment type input', () => {
+    expect(normalizeAppointmentTypeInput({
+      name: ' Intro call ',
+      durationMinutes: 30,
+      timezone: 'Europe/Berlin',
+      availability: [{ day: 1, start: '09:00', end: '12:00' }],
+      questions: [{ label: 'What would you like to discuss?', required: true }],
+      maxPerDay: ''
+    })).toMatchObject({
+      name: 'Intro call',
+      description: null,
+      durationMinutes: 30,
+      timezone: 'Europe/Berlin',
+      maxPerDay: null,
+      questions: [{ id: 'q1', label: 'What would you like to discuss?', required: true }]
+    });
+    expect(normalizeAppointmentTypeInput({ durationMinutes: 45 }, true)).toEqual({ durationMinutes: 45 });
+    expect(() => normalizeAppointmentTypeInput({ durationMinutes: 0 }, true)).toThrow('durationMinutes');
+    expect(() => normalizeAppointmentTypeInput({ timezone: 'UTC', availability: [{ day: 9, start: '09:00', end: '10:00' }] }, true))
+      .toThrow('day must be 0');
+  });
+
+  it('requires answers to required questions and drops unknown ones', () => {
+    const questions = [
+      { id: 'topic', label: 'Topic', required: true },
+      { id: 'phone', label: 'Phone', required: false }
+    ];
+    expect(normalizeAnswers(questions, { topic: ' Pricing ', extra: 'x' })).toEqual({ topic: 'Pricing' });
+    expect(() => normalizeAnswers(questions, { phone: '555' })).toThrow('Please answer "Topic"');
+  });
+
+  it('rejects guest names that would break onto a new invite line', () => {
+    expect(normalizeGuest({ name: ' Ada ', email: 'ada@example.com' })).toEqual({ guestName: 'Ada', guestEmail: 'ada@example.com' });
+    expect(() => normalizeGuest({ name: 'Ada\r\nATTENDEE:MAILTO:x@example.com', email: 'ada@example.com' })).toThrow('single line');
+    expect(() => normalizeGuest({ name: 'Ada', email: 'not-an-email' })).toThrow('valid email');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  invertIntervals,
+  mergeIntervals,
+  normalizeWorkingHours,
+  workingIntervals
+} from '../calendarFreeBusyService';
+
+const at = (iso: string) => new Date(iso);
+const span = (start: string, end: string) => ({ startAt: at(start), endAt: at(end) });
+const iso = (intervals: Array<{ startAt: Date; endAt: Date }>) =>
+  intervals.map((interval) => [interval.startAt.toISOString(), interval.endAt.toISOString()]);
+
+const weekdays = [1, 2, 3, 4, 5].map((day) => ({ day, start: '09:00', end: '17:00' }));
+
+describe('calendarFreeBusyService', () => {
+  it('merges overlapping and touching intervals', () => {
+    expect(iso(mergeIntervals([
+      span('2030-01-07T11:00:00Z', '2030-01-07T12:00:00Z'),
+      span('2030-01-07T09:00:00Z', '2030-01-07T10:00:00Z'),
+      span('2030-01-07T09:30:00Z', '2030-01-07T11:00:00Z'),
+      span('2030-01-07T14:00:00Z', '2030-01-07T15:00:00Z')
+    ]))).toEqual([
+      ['2030-01-07T09:00:00.000Z', '2030-01-07T12:00:00.000Z'],
+      ['2030-01-07T14:00:00.000Z', '2030-01-07T15:00:00.000Z']
+    ]);
+  });
+
+  it('finds the gaps between busy intervals within the window', () => {
+    expect(iso(invertIntervals(
+      [span('2030-01-07T08:00:00Z', '2030-01-07T10:00:00Z'), span('2030-01-07T12:00:00Z', '2030-01-07T13:00:00Z')],
+      at('2030-01-07T09:00:00Z'),
+      at('2030-01-07T17:00:00Z')
+    ))).toEqual([
+      ['2030-01-07T10:00:00.000Z', '2030-01-07T12:00:00.000Z'],
+      ['2030-01-07T13:00:00.000Z', '2030-01-07T17:00:00.000Z']
+    ]);
+  });
+
+  it('lays working hours on the local clock across a DST change', () => {
+    // Berlin moves to summer time on 2030-03-31
+    const hours = { timezone: 'Europe/Berlin', hours: weekdays };
+    expect(iso(workingIntervals(hours, at('2030-03-29T00:00:00Z'), at('2030-04-02T00:00:00Z')))).toEqual([
+      ['2030-03-29T08:00:00.000Z', '2030-03-29T16:00:00.000Z'],
+      ['2030-04-01T07:00:00.000Z', '2030-04-01T15:00:00.000Z']
+    ]);
+  });
+
+  it('clips working hours to the window and runs overnight ranges past midnight', () => {
+    const nights = { timezone: 'UTC', hours: [{ day: 2, start: '22:00', end: '06:00' }] };
+    expect(iso(workingIntervals(nights, at('2030-01-09T00:00:00Z'), at('2030-01-10T00:00:00Z')))).toEqual([
+      ['2030-01-09T00:00:00.000Z', '2030-01-09T06:00:00.000Z']
+    ]);
+  });
+
+  it('validates working hours input', () => {
+    expect(normalizeWorkingHours({ timezone: 'America/Chicago', hours: [{ day: 1, start: '08:30', end: '24:00' }] }))
+      .toEqual({ timezone: 'America/Chicago', hours: [{ day: 1, start: '08:30', end: '24:00' }] });
+    expect(() => normalizeWorkingHours({ timezone: 'Mars/Base', hours: [] })).toThrow('IANA time zone');
+    expect(() => normalizeWorkingHours({ timezone: 'UTC', hours: [{ day: 7, start: '09:00', end: '17:00' }] }))
+      .toThrow('day must be 0');
+    expect(() => normalizeWorkingHours({ timezone: 'UTC', hours: [{ day: 1, start: '9am', end: '17:00' }] }))
+      .toThrow('HH:MM');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { SlotAttendee, SlotOptions, attendeeAvailability, rankSlots } from '../calendarMeetingFinderService';
+
+const at = (iso: string) => new Date(iso);
+const span = (start: string, end: string) => ({ startAt: at(start), endAt: at(end) });
+
+function person(label: string, overrides: Partial<SlotAttendee> = {}): SlotAttendee {
+  return {
+    kind: 'person',
+    id: label,
+    label,
+    status: 'ok',
+    busy: [],
+    workingHours: [span('2030-01-07T09:00:00Z', '2030-01-07T17:00:00Z')],
+    ...overrides
+  };
+}
+
+function options(overrides: Partial<SlotOptions> = {}): SlotOptions {
+  return {
+    start: at('2030-01-07T08:00:00Z'),
+    end: at('2030-01-07T18:00:00Z'),
+    durationMinutes: 60,
+    stepMinutes: 60,
+    timezone: 'UTC',
+    workingHoursOnly: true,
+    bufferMinutes: 0,
+    preferred: [],
+    limit: 3,
+    now: at('2030-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('calendarMeetingFinderService', () => {
+  it('ranks slots everyone can make first, earliest first', () => {
+    const ada = person('ada@example.com', { busy: [span('2030-01-07T09:00:00Z', '2030-01-07T11:00:00Z')] });
+    const bob = person('bob@example.com', { busy: [span('2030-01-07T11:00:00Z', '2030-01-07T12:00:00Z')] });
+    const slots = rankSlots([ada, bob], options());
+    expect(slots.map((slot) => [slot.startAt.toISOString(), slot.unavailableCount])).toEqual([
+      ['2030-01-07T12:00:00.000Z', 0],
+      ['2030-01-07T13:00:00.000Z', 0],
+      ['2030-01-07T14:00:00.000Z', 0]
+    ]);
+  });
+
+  it('prefers slots inside preferred times over earlier ones', () => {
+    const slots = rankSlots([person('ada@example.com')], options({
+      preferred: [span('2030-01-07T14:00:00Z', '2030-01-07T16:00:00Z')]
+    }));
+    expect(slots.map((slot) => [slot.startAt.toISOString(), slot.preferred])).toEqual([
+      ['2030-01-07T14:00:00.000Z', true],
+      ['2030-01-07T15:00:00.000Z', true],
+      ['2030-01-07T09:00:00.000Z', false]
+    ]);
+  });
+
+  it('explains why each attendee is or is not free', () => {
+    const slot = span('2030-01-07T12:00:00Z', '2030-01-07T13:00:00Z');
+    const opts = options({ bufferMinutes: 15 });
+    expect(attendeeAvailability(person('a', { busy: [span('2030-01-07T12:30:00Z', '2030-01-07T14:00:00Z')] }), slot, opts).reason)
+      .toBe('busy');
+    expect(attendeeAvailability(person('b', { busy: [span('2030-01-07T11:00:00Z', '2030-01-07T12:00:00Z')] }), slot, opts).reason)
+      .toBe('back_to_back');
+    expect(attendeeAvailability(person('c', { workingHours: [span('2030-01-07T13:00:00Z', '2030-01-07T21:00:00Z')] }), slot, opts))
+      .toMatchObject({ free: false, reason: 'outside_working_hours' });
+    expect(attendeeAvailability(person('d', { workingHours: null }), slot, opts)).toMatchObject({ free: true, reason: 'free' });
+    expect(attendeeAvailability(person('e', { status: 'hidden' }), slot, opts)).toMatchObject({ free: null, reason: 'hidden' });
+  });
+
+  it('applies resource booking policies instead of working hours', () => {
+    const room: SlotAttendee = {
+      kind: 'resource',
+      id: 'room-1',
+      label: 'Board room',
+      status: 'ok',
+      busy: [],
+      workingHours: null,
+      policy: { name: 'Board room', maxDurationMinutes: 30, minLeadMinutes: null, maxAdvanceDays: null }
+    };
+    expect(attendeeAvailability(room, span('2030-01-07T20:00:00Z', '2030-01-07T21:00:00Z'), options()))
+      .toMatchObject({ free: false, reason: 'booking_policy', detail: 'Board room can be booked for at most 30 minutes' });
+  });
+
+  it('starts candidates on the step in the local time zone and skips past slots', () => {
+    const slots = rankSlots([person('ada@example.com', { workingHours: null })], options({
+      start: at('2030-01-07T08:10:00Z'),
+      end: at('2030-01-07T12:00:00Z'),
+      timezone: 'Asia/Kolkata',
+      now: at('2030-01-07T09:00:00Z')
+    }));
+    // Kolkata is UTC+5:30, so local hours fall on the half hour in UTC
+    expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+      '2030-01-07T09:30:00.000Z',
+      '2030-01-07T10:30:00.000Z'
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BookedEvent,
+  bookingPolicyViolation,
+  eventOccurrences,
+  findConflict,
+  normalizeResourceInput,
+  requestedIntervals
+} from '../calendarResourceService';
+
+const at = (iso: string) => new Date(iso);
+
+function weekly(overrides: Partial<BookedEvent> = {}): BookedEvent {
+  return {
+    id: 'series-1',
+    startAt: at('2030-01-07T09:00:00Z'),
+    endAt: at('2030-01-07T10:00:00Z'),
+    timezone: 'UTC',
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+    recurrenceEndAt: null,
+    parentEventId: null,
+    ...overrides
+  };
+}
+
+const policy = { name: 'Board Room', maxDurationMinutes: 120, minLeadMinutes: 60, maxAdvanceDays: 30 };
+
+describe('calendarResourceService', () => {
+  it('expands a series, including an occurrence that started before the window', () => {
+    const occurrences = eventOccurrences(weekly(), at('2030-01-14T09:30:00Z'), at('2030-01-28T00:00:00Z'));
+    expect(occurrences.map((o) => o.startAt.toISOString())).toEqual([
+      '2030-01-14T09:00:00.000Z',
+      '2030-01-21T09:00:00.000Z'
+    ]);
+  });
+
+  it('skips occurrences replaced by exceptions and stops at the series end', () => {
+    const skip = new Set([at('2030-01-14T09:00:00Z').getTime()]);
+    const occurrences = eventOccurrences(
+      weekly({ recurrenceEndAt: at('2030-01-21T09:00:00Z') }),
+      at('2030-01-01T00:00:00Z'),
+      at('2030-02-28T00:00:00Z'),
+      skip
+    );
+    expect(occurrences.map((o) => o.startAt.toISOString())).toEqual([
+      '2030-01-07T09:00:00.000Z',
+      '2030-01-21T09:00:00.000Z'
+    ]);
+  });
+
+  it('finds the first clash and allows back-to-back bookings', () => {
+    const busy = [{ startAt: at('2030-01-07T10:00:00Z'), endAt: at('2030-01-07T11:00:00Z') }];
+    expect(findConflict([{ startAt: at('2030-01-07T09:00:00Z'), endAt: at('2030-01-07T10:00:00Z') }], busy)).toBeNull();
+    const conflict = findConflict(requestedIntervals(weekly({ recurrenceEndAt: at('2030-03-01T00:00:00Z') })), [
+      { startAt: at('2030-01-21T09:30:00Z'), endAt: at('2030-01-21T09:45:00Z') }
+    ]);
+    expect(conflict?.requested.startAt.toISOString()).toBe('2030-01-21T09:00:00.000Z');
+  });
+
+  it('enforces duration, lead time and advance limits', () => {
+    const now = at('2030-01-01T08:00:00Z');
+    const book = (start: string, end: string) =>
+      bookingPolicyViolation(policy, { startAt: at(start), endAt: at(end) }, now)?.code ?? null;
+    expect(book('2030-01-02T09:00:00Z', '2030-01-02T11:00:00Z')).toBeNull();
+    expect(book('2030-01-02T09:00:00Z', '2030-01-02T11:30:00Z')).toBe('duration_exceeded');
+    expect(book('2030-01-01T08:30:00Z', '2030-01-01T09:00:00Z')).toBe('lead_time_required');
+    expect(book('2030-02-15T09:00:00Z', '2030-02-15T10:00:00Z')).toBe('too_far_ahead');
+    expect(book('2030-01-02T09:00:00Z', '2030-01-02T09:00:00Z')).toBe('invalid_time_range');
+  });
+
+  it('normalizes resource input and leaves absent fields out of updates', () => {
+    expect(normalizeResourceInput({
+      name: ' Van 2 ',
+      type: 'vehicle',
+      capacity: '7',
+      amenities: ['GPS', 'GPS', ' ', 3],
+      maxDurationMinutes: ''
+    })).toMatchObject({ name: 'Van 2', type: 'VEHICLE', capacity: 7, amenities: ['GPS'], maxDurationMinutes: null });
+    expect(normalizeResourceInput({ requiresApproval: true }, true)).toEqual({ requiresApproval: true });
+    expect(() => normalizeResourceInput({ name: 'Desk', type: 'DESK' })).toThrow('Type must be one of');
+    expect(() => normalizeResourceInput({ capacity: -1 }, true)).toThrow('capacity must be a positive whole number');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { expandOccurrences, ruleFromSplit } from '../../utils/recurrence';
+import {
+  SeriesEvent,
+  expandLoadedEvents,
+  movesOccurrences,
+  parseEditScope,
+  splitTiming,
+  toConflicts
+} from '../calendarSeriesService';
+
+const at = (iso: string) => new Date(iso);
+const starts = (occurrences: Array<{ startAt: Date }>) => occurrences.map((o) => o.startAt.toISOString());
+
+// Mondays 9:00-10:00 in New York, across the 2030 spring-forward (March 10)
+function standup(overrides: Partial<SeriesEvent> = {}): SeriesEvent {
+  return {
+    id: 'series-1',
+    calendarId: 'cal-1',
+    title: 'Standup',
+    description: null,
+    location: null,
+    onlineMeetingLink: null,
+    startAt: at('2030-03-04T14:00:00Z'),
+    endAt: at('2030-03-04T15:00:00Z'),
+    allDay: false,
+    timezone: 'America/New_York',
+    status: 'CONFIRMED',
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+    recurrenceEndAt: null,
+    ...overrides
+  };
+}
+
+describe('calendarSeriesService', () => {
+  it('keeps the local time of occurrences across a DST change', () => {
+    const occurrences = expandOccurrences(standup(), at('2030-03-01T00:00:00Z'), at('2030-03-19T00:00:00Z'));
+    expect(starts(occurrences)).toEqual([
+      '2030-03-04T14:00:00.000Z',
+      '2030-03-11T13:00:00.000Z',
+      '2030-03-18T13:00:00.000Z'
+    ]);
+    expect(occurrences[1].endAt.toISOString()).toBe('2030-03-11T14:00:00.000Z');
+  });
+
+  it('applies RDATE and EXDATE in the event time zone', () => {
+    const event = standup({
+      recurrenceRule: [
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'EXDATE;TZID=America/New_York:20300311T090000',
+        'RDATE;TZID=America/New_York:20300313T160000'
+      ].join('\n')
+    });
+    expect(starts(expandOccurrences(event, at('2030-03-05T00:00:00Z'), at('2030-03-19T00:00:00Z')))).toEqual([
+      '2030-03-13T20:00:00.000Z',
+      '2030-03-18T13:00:00.000Z'
+    ]);
+  });
+
+  it('stops at UNTIL and skips occurrences replaced by exceptions', () => {
+    const event = standup({ recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20300318T130000Z' });
+    const skip = new Set([at('2030-03-11T13:00:00Z').getTime()]);
+    expect(starts(expandOccurrences(event, at('2030-03-01T00:00:00Z'), at('2030-04-01T00:00:00Z'), skip))).toEqual([
+      '2030-03-04T14:00:00.000Z',
+      '2030-03-18T13:00:00.000Z'
+    ]);
+  });
+
+  it('carries the remaining COUNT and later dates over to a split series', () => {
+    const event = standup({
+      recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=5\nEXDATE;TZID=America/New_York:20300304T090000,20300325T090000'
+    });
+    expect(ruleFromSplit(event, at('2030-03-18T13:00:00Z'))).toBe(
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=3\nEXDATE;TZID=America/New_York:20300325T090000'
+    );
+  });
+
+  it('starts the new series at the split with the same duration unless changed', () => {
+    const series = standup();
+    expect(splitTiming(series, at('2030-03-18T13:00:00Z'), {})).toEqual({
+      startAt: at('2030-03-18T13:00:00Z'),
+      endAt: at('2030-03-18T14:00:00Z'),
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+      recurrenceEndAt: null
+    });
+    expect(splitTiming(series, at('2030-03-18T13:00:00Z'), { recurrenceRule: 'FREQ=DAILY' }).recurrenceRule).toBe('FREQ=DAILY');
+  });
+
+  it('reports conflicts with a series that started before the window and crossed a DST change', () => {
+    const series = { ...standup(), parentEventId: null };
+    const moved = {
+      ...standup({ id: 'exception-1', title: 'Standup (moved)', recurrenceRule: null }),
+      startAt: at('2030-03-19T13:00:00Z'),
+      endAt: at('2030-03-19T14:00:00Z'),
+      parentEventId: series.id
+    };
+    // The week after spring-forward; the March 18 occurrence was moved to the 19th
+    const exceptionStarts = new Map([[series.id, new Set([at('2030-03-18T13:00:00Z').getTime()])]]);
+    const conflicts = toConflicts(
+      expandLoadedEvents([moved, series], at('2030-03-11T00:00:00Z'), at('2030-03-20T00:00:00Z'), exceptionStarts)
+    );
+    expect(conflicts.map((conflict) => [conflict.id, conflict.startAt.toISOString()])).toEqual([
+      ['series-1', '2030-03-11T13:00:00.000Z'],
+      ['exception-1', '2030-03-19T13:00:00.000Z']
+    ]);
+  });
+
+  it('reads edit scopes and detects changes that move occurrences', () => {
+    expect(parseEditScope('FOLLOWING')).toBe('FOLLOWING');
+    expect(parseEditScope('following')).toBe('SERIES');
+    expect(parseEditScope(undefined)).toBe('SERIES');
+    expect(movesOccurrences(standup(), { title: 'Sync', startAt: at('2030-03-04T14:00:00Z') })).toBe(false);
+    expect(movesOccurrences(standup(), { timezone: 'Europe/Berlin' })).toBe(true);
+    expect(movesOccurrences(standup(), { recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU' })).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { Readable, PassThrough } from 'stream';
+import { describe, it, expect } from 'vitest';
+import { archiveFileName, sanitizeEntryName, uniqueEntryName } from '../driveArchiveService';
+import { createArchiveWriter, crc32 } from '../../utils/archiveStream';
+import { readZipEntries } from '../../utils/documentText';
+
+async function collect(build: (output: PassThrough) => Promise<void>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await build(output);
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+describe('driveArchiveService', () => {
+  it('keeps entry names to a single safe path segment', () => {
+    expect(sanitizeEntryName('../etc/passwd')).toBe('.._etc_passwd');
+    expect(sanitizeEntryName('notes\u0000.txt')).toBe('notes.txt');
+    expect(sanitizeEntryName('..')).toBe('_');
+    expect(archiveFileName('Q3 / Board', 'zip')).toBe('Q3 _ Board.zip');
+  });
+
+  it('numbers duplicate sibling names regardless of case', () => {
+    const taken = new Set<string>();
+    expect(uniqueEntryName('Report.pdf', taken)).toBe('Report.pdf');
+    expect(uniqueEntryName('report.pdf', taken)).toBe('report (1).pdf');
+    expect(uniqueEntryName('Report.pdf', taken)).toBe('Report (2).pdf');
+    expect(uniqueEntryName('.env', taken)).toBe('.env');
+  });
+
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xcbf43926);
+  });
+
+  it('streams a ZIP that keeps folder structure', async () => {
+    const zip = await collect(async (output) => {
+      const writer = createArchiveWriter('zip', output);
+      await writer.addDirectory('Contracts');
+      await writer.addFile('Contracts/msa.txt', Readable.from([Buffer.from('Master '), Buffer.from('agreement')]));
+      await writer.addFile('photo.jpg', Readable.from([Buffer.from('jpeg bytes')]), { compress: false });
+      await writer.finish();
+    });
+
+    const entries = readZipEntries(zip, () => true);
+    expect([...entries.keys()]).toEqual(['Contracts/', 'Contracts/msa.txt', 'photo.jpg']);
+    expect(entries.get('Contracts/msa.txt')!.toString()).toBe('Master agreement');
+    expect(entries.get('photo.jpg')!.toString()).toBe('jpeg bytes');
+  });
+
+  it('writes tar entries in 512 byte blocks and checks the recorded size', async () => {
+    const longName = `${'nested/'.repeat(20)}file.txt`;
+    const tar = await collect(async (output) => {
+      const writer = createArchiveWriter('tar', output);
+      await writer.addFile(longName, Readable.from([Buffer.from('hello')]), { size: 5 });
+      await writer.finish();
+    });
+    expect(tar.length % 512).toBe(0);
+    expect(tar.toString('utf8', 156, 157)).toBe('x');
+    expect(tar.toString('utf8')).toContain(`path=${longName}\n`);
+    expect(tar.toString('utf8')).toContain('hello');
+
+    await expect(collect(async (output) => {
+      await createArchiveWriter('tar', output).addFile('a.txt', Readable.from([Buffer.from('abc')]), { size: 5 });
+    })).rejects.toThrow('smaller than its recorded size');
+  });
+});
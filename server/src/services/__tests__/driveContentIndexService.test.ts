@@ -0,0 +1,100 @@
+import zlib from 'zlib';
+import { describe, it, expect } from 'vitest';
+import { MAX_INDEXED_FILE_BYTES, isIndexableFile, parseHeadline } from '../driveContentIndexService';
+import { extractDocumentText, extractTextOperators } from '../../utils/documentText';
+import { renderTextPdf } from '../../utils/simplePdf';
+
+// Smallest ZIP the extractor reads: deflated local entries plus a central directory
+function buildZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = zlib.deflateRawSync(Buffer.from(content, 'utf8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('driveContentIndexService', () => {
+  it('indexes supported document types under the size limit', () => {
+    expect(isIndexableFile({ name: 'contract.pdf', type: 'application/pdf', size: 1000 })).toBe(true);
+    expect(isIndexableFile({ name: 'notes.md', type: 'application/octet-stream', size: 10 })).toBe(true);
+    expect(isIndexableFile({ name: 'photo.jpg', type: 'image/jpeg', size: 10 })).toBe(false);
+    expect(isIndexableFile({ name: 'huge.pdf', type: 'application/pdf', size: MAX_INDEXED_FILE_BYTES + 1 })).toBe(false);
+  });
+
+  it('turns headline markers into highlight offsets, joining matched phrases', () => {
+    expect(parseHeadline('the \u0002termination\u0003 \u0002clause\u0003 applies')).toEqual({
+      text: 'the termination clause applies',
+      highlights: [{ start: 4, end: 22 }]
+    });
+    expect(parseHeadline('\u0002fee\u0003 is due, late \u0002fee\u0003')).toEqual({
+      text: 'fee is due, late fee',
+      highlights: [{ start: 0, end: 3 }, { start: 17, end: 20 }]
+    });
+  });
+
+  describe('extractDocumentText', () => {
+    it('decodes plain text and CSV', () => {
+      const csv = Buffer.from('﻿name,amount\nAcme,  1200\r\n');
+      expect(extractDocumentText(csv, 'text/csv', 'ledger.csv')).toBe('name,amount\nAcme, 1200');
+      expect(extractDocumentText(Buffer.from('x'), 'image/png', 'a.png')).toBeNull();
+    });
+
+    it('reads text from generated PDFs', () => {
+      const pdf = renderTextPdf([
+        { text: 'Master Services Agreement', bold: true },
+        { text: 'Either party may terminate (with notice) after 30 days.' }
+      ]);
+      const text = extractDocumentText(pdf, 'application/pdf', 'msa.pdf');
+      expect(text).toContain('Master Services Agreement');
+      expect(text).toContain('Either party may terminate (with notice) after 30 days.');
+    });
+
+    it('follows TJ kerning gaps and line moves in content streams', () => {
+      const content = 'BT /F1 12 Tf 72 700 Td [(Gov)-20(erning)-400(law)] TJ 0 -14 Td <00540065007800610073> Tj ET';
+      expect(extractTextOperators(content)).toBe('Governing law\nTexas\n');
+    });
+
+    it('reads paragraphs from docx and shared strings from xlsx', () => {
+      const docx = buildZip({
+        'word/document.xml':
+          '<w:document><w:body><w:p><w:r><w:t>Confidentiality</w:t></w:r></w:p>' +
+          '<w:p><w:r><w:instrText>HYPERLINK</w:instrText><w:t xml:space="preserve">Fees &amp; costs</w:t></w:r></w:p></w:body></w:document>',
+        'word/styles.xml': '<w:styles><w:t>Heading</w:t></w:styles>'
+      });
+      expect(extractDocumentText(docx, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'a.docx'))
+        .toBe('Confidentiality\nFees & costs');
+
+      const xlsx = buildZip({
+        'xl/sharedStrings.xml': '<sst><si><t>Vendor</t></si><si><t>Renewal date</t></si></sst>',
+        'xl/worksheets/sheet1.xml': '<sheetData><row><c t="s"><v>0</v></c><c t="inlineStr"><is><t>Net 30</t></is></c></row></sheetData>'
+      });
+      expect(extractDocumentText(xlsx, '', 'vendors.xlsx')).toBe('Vendor\nRenewal date\n\nNet 30');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignDavNames,
+  contentTypeFor,
+  DavLock,
+  lockConflicts,
+  locksSatisfied,
+  splitDavPath
+} from '../driveDavService';
+import { parseIfHeaderTokens, parseLockBody, parsePropfindBody, parseTimeoutHeader } from '../../utils/davXml';
+
+function lock(overrides: Partial<DavLock>): DavLock {
+  return {
+    id: 'lock-1',
+    token: 'opaquelocktoken:1',
+    fileId: 'file-1',
+    folderId: null,
+    userId: 'user-1',
+    scope: 'exclusive',
+    depth: '0',
+    owner: null,
+    expiresAt: new Date('2030-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('driveDavService', () => {
+  it('decodes path segments and rejects dot segments', () => {
+    expect(splitDavPath('/My%20Drive/Reports/q1.pdf')).toEqual(['My Drive', 'Reports', 'q1.pdf']);
+    expect(splitDavPath('/')).toEqual([]);
+    expect(splitDavPath('/My%20Drive/../x')).toBeNull();
+    expect(splitDavPath('/a%2Fb')).toBeNull();
+    expect(splitDavPath('/%E0%A4%A')).toBeNull();
+  });
+
+  it('makes listing names unique ignoring case, after reserved names', () => {
+    expect(assignDavNames(['report.pdf', 'Report.pdf', 'a/b'])).toEqual(['report.pdf', 'Report (1).pdf', 'a_b']);
+    expect(assignDavNames(['My Drive', 'Sales'], ['My Drive'])).toEqual(['My Drive (1)', 'Sales']);
+  });
+
+  it('falls back to the extension for missing or generic content types', () => {
+    expect(contentTypeFor('notes.txt', undefined)).toBe('text/plain');
+    expect(contentTypeFor('deck.PPTX', 'application/octet-stream')).toContain('presentationml');
+    expect(contentTypeFor('data.bin', 'Image/PNG; charset=binary')).toBe('image/png');
+    expect(contentTypeFor('data.unknown', undefined)).toBe('application/octet-stream');
+  });
+
+  it('lets shared locks coexist but not exclusive ones', () => {
+    expect(lockConflicts('shared', [{ scope: 'shared' }])).toBe(false);
+    expect(lockConflicts('shared', [{ scope: 'exclusive' }])).toBe(true);
+    expect(lockConflicts('exclusive', [{ scope: 'shared' }])).toBe(true);
+    expect(lockConflicts('exclusive', [])).toBe(false);
+  });
+
+  it('requires the holder to submit the token of a covering lock', () => {
+    const exclusive = lock({});
+    expect(locksSatisfied('user-1', [exclusive], ['opaquelocktoken:1'])).toBe(true);
+    expect(locksSatisfied('user-1', [exclusive], [])).toBe(false);
+    expect(locksSatisfied('user-2', [exclusive], ['opaquelocktoken:1'])).toBe(false);
+
+    const mine = lock({ scope: 'shared' });
+    const theirs = lock({ id: 'lock-2', token: 'opaquelocktoken:2', userId: 'user-2', scope: 'shared' });
+    expect(locksSatisfied('user-1', [mine, theirs], ['opaquelocktoken:1'])).toBe(true);
+    expect(locksSatisfied('user-1', [], [])).toBe(true);
+  });
+});
+
+describe('davXml', () => {
+  it('reads requested properties with their namespaces', () => {
+    const body = '<?xml version="1.0"?><D:propfind xmlns:D="DAV:" xmlns:Z="urn:x"><D:prop><D:getetag/><Z:color/></D:prop></D:propfind>';
+    expect(parsePropfindBody(body)).toEqual({
+      type: 'prop',
+      props: [{ ns: 'DAV:', name: 'getetag' }, { ns: 'urn:x', name: 'color' }]
+    });
+    expect(parsePropfindBody('')).toEqual({ type: 'allprop' });
+    expect(parsePropfindBody('<propfind xmlns="DAV:"><propname/></propfind>')).toEqual({ type: 'propname' });
+  });
+
+  it('reads lock scope and owner', () => {
+    const body = '<d:lockinfo xmlns:d="DAV:"><d:lockscope><d:shared/></d:lockscope><d:locktype><d:write/></d:locktype>' +
+      '<d:owner><d:href>mailto:ana@example.com</d:href></d:owner></d:lockinfo>';
+    expect(parseLockBody(body)).toEqual({ scope: 'shared', owner: 'mailto:ana@example.com' });
+    expect(parseLockBody('')).toBeNull();
+  });
+
+  it('parses If and Timeout headers', () => {
+    expect(parseIfHeaderTokens('</dav/a.txt> (<opaquelocktoken:abc> ["etag"])')).toEqual(['opaquelocktoken:abc']);
+    expect(parseTimeoutHeader('Second-600', 3600, 86400)).toBe(600);
+    expect(parseTimeoutHeader('Infinite, Second-4100000000', 3600, 86400)).toBe(86400);
+    expect(parseTimeoutHeader(undefined, 3600, 86400)).toBe(3600);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countBuiltinMatches,
+  highestSensitivity,
+  matchClassificationRules,
+  resolvePolicyAction,
+  DlpPolicyRule
+} from '../driveDlpService';
+
+const rule = (id: string, pattern: string, sensitivity: string) => ({ id, name: id, pattern, sensitivity });
+
+describe('driveDlpService', () => {
+  it('only counts card numbers that pass the Luhn check', () => {
+    expect(countBuiltinMatches('builtin:credit_card', 'Card 4111 1111 1111 1111 on file')).toBe(1);
+    expect(countBuiltinMatches('builtin:credit_card', 'Card 4111-1111-1111-1112 on file')).toBe(0);
+    expect(countBuiltinMatches('builtin:credit_card', 'Order 1234567')).toBe(0);
+  });
+
+  it('validates national IDs and IBANs', () => {
+    expect(countBuiltinMatches('builtin:us_ssn', 'SSN 123-45-6789, not 000-12-3456 or 666-12-3456')).toBe(1);
+    expect(countBuiltinMatches('builtin:iban', 'Pay GB82 WEST 1234 5698 7654 32 today')).toBe(1);
+    expect(countBuiltinMatches('builtin:iban', 'Pay GB83 WEST 1234 5698 7654 32 today')).toBe(0);
+    expect(countBuiltinMatches('builtin:uk_nino', 'NI number AB 12 34 56 C')).toBe(1);
+  });
+
+  it('matches custom regexes case-insensitively and skips invalid ones', () => {
+    const matches = matchClassificationRules('Project ORION budget, project orion roadmap', [
+      rule('codename', 'project orion', 'CONFIDENTIAL'),
+      rule('broken', '(unclosed', 'RESTRICTED'),
+      rule('unknown-level', 'budget', 'TOP_SECRET'),
+      rule('empty', 'x*', 'INTERNAL')
+    ]);
+    expect(matches).toEqual([{ ruleId: 'codename', ruleName: 'codename', sensitivity: 'CONFIDENTIAL', count: 2 }]);
+  });
+
+  it('picks the highest sensitivity', () => {
+    expect(highestSensitivity(['INTERNAL', 'restricted', 'CONFIDENTIAL'])).toBe('RESTRICTED');
+    expect(highestSensitivity([null, 'bogus'])).toBeNull();
+  });
+
+  it('applies the strongest policy action at or below the content sensitivity', () => {
+    const rules: DlpPolicyRule[] = [
+      { type: 'classification', conditions: { sensitivity: 'CONFIDENTIAL' }, actions: { type: 'warn' } },
+      { type: 'classification', conditions: { sensitivity: 'RESTRICTED' }, actions: { type: 'block' } },
+      { type: 'retention', conditions: {}, actions: { type: 'block' } }
+    ];
+    expect(resolvePolicyAction(rules, 'CONFIDENTIAL')?.type).toBe('warn');
+    expect(resolvePolicyAction(rules, 'RESTRICTED')?.type).toBe('block');
+    expect(resolvePolicyAction(rules, 'INTERNAL')).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PreviewError,
+  parsePreviewVariant,
+  previewKindFor,
+  previewStoragePath,
+  thumbnailUrlFor,
+  wrapTextLines
+} from '../driveFilePreviewService';
+
+describe('driveFilePreviewService', () => {
+  it('picks a preview kind from the mime type or extension', () => {
+    expect(previewKindFor('image/png', 'logo.png')).toBe('image');
+    expect(previewKindFor('video/mp4', 'demo.mp4')).toBe('video');
+    expect(previewKindFor('application/pdf', 'report.pdf')).toBe('pdf');
+    expect(previewKindFor('application/octet-stream', 'readme.md')).toBe('text');
+    expect(previewKindFor('application/zip', 'archive.zip')).toBeNull();
+  });
+
+  it('defaults the thumbnail size and rejects unknown sizes', () => {
+    expect(parsePreviewVariant(undefined)).toBe('medium');
+    expect(parsePreviewVariant('large')).toBe('large');
+    expect(() => parsePreviewVariant('huge')).toThrow(PreviewError);
+  });
+
+  it('versions thumbnail urls and only offers them for previewable files', () => {
+    expect(thumbnailUrlFor({ id: 'f1', name: 'a.jpg', type: 'image/jpeg', versionNumber: 3 }, 'small'))
+      .toBe('/api/drive/files/f1/thumbnail?size=small&v=3');
+    expect(thumbnailUrlFor({ id: 'f2', name: 'a.zip', type: 'application/zip' })).toBeNull();
+  });
+
+  it('stores previews beside the original', () => {
+    expect(previewStoragePath('files/u1/photo.jpg', 'f1', 2, 'large')).toBe('files/u1/.previews/f1/v2-large.webp');
+  });
+
+  it('wraps text on word boundaries and caps the line count', () => {
+    expect(wrapTextLines('alpha beta gamma\n\n\ndelta', 11, 10)).toEqual(['alpha beta', 'gamma', '', 'delta']);
+    expect(wrapTextLines('x'.repeat(25), 10, 2)).toEqual(['x'.repeat(10), 'x'.repeat(10)]);
+  });
+});
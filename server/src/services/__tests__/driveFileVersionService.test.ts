@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { describeVersionChange, resolveRetentionPolicy, selectVersionsToPrune } from '../driveFileVersionService';
+
+describe('driveFileVersionService', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const versions = [
+    { id: 'v1', versionNumber: 1, createdAt: daysAgo(120) },
+    { id: 'v3', versionNumber: 3, createdAt: daysAgo(10) },
+    { id: 'v2', versionNumber: 2, createdAt: daysAgo(40) },
+    { id: 'v4', versionNumber: 4, createdAt: daysAgo(1) }
+  ];
+
+  describe('selectVersionsToPrune', () => {
+    it('keeps only the newest N versions', () => {
+      const pruned = selectVersionsToPrune(versions, { keepLast: 2, keepDays: 0 }, now);
+      expect(pruned.map((version) => version.id)).toEqual(['v2', 'v1']);
+    });
+
+    it('drops versions superseded more than keepDays ago', () => {
+      const pruned = selectVersionsToPrune(versions, { keepLast: 0, keepDays: 30 }, now);
+      expect(pruned.map((version) => version.id)).toEqual(['v2', 'v1']);
+    });
+
+    it('applies both limits together', () => {
+      const pruned = selectVersionsToPrune(versions, { keepLast: 3, keepDays: 90 }, now);
+      expect(pruned.map((version) => version.id)).toEqual(['v1']);
+    });
+
+    it('keeps everything when both limits are disabled', () => {
+      expect(selectVersionsToPrune(versions, { keepLast: 0, keepDays: 0 }, now)).toEqual([]);
+    });
+  });
+
+  it('prefers per-file retention overrides over the defaults', () => {
+    expect(resolveRetentionPolicy({ versionKeepLast: 5, versionKeepDays: 0 })).toEqual({ keepLast: 5, keepDays: 0 });
+    expect(resolveRetentionPolicy({ versionKeepLast: null, versionKeepDays: null })).toEqual({ keepLast: 20, keepDays: 90 });
+  });
+
+  describe('describeVersionChange', () => {
+    const older = { name: 'report.pdf', type: 'application/pdf', size: 1000, checksum: 'abc' };
+
+    it('reports size, name and type differences', () => {
+      const change = describeVersionChange(older, { name: 'report-final.pdf', type: 'application/pdf', size: 1500, checksum: 'def' });
+      expect(change).toEqual({ sizeDelta: 500, contentChanged: true, nameChanged: true, typeChanged: false });
+    });
+
+    it('treats matching checksums as unchanged content', () => {
+      expect(describeVersionChange(older, { ...older }).contentChanged).toBe(false);
+    });
+
+    it('treats a missing checksum as changed content', () => {
+      expect(describeVersionChange({ ...older, checksum: null }, older).contentChanged).toBe(true);
+    });
+  });
+});
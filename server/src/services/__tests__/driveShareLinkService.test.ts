@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateShareToken,
+  getLinkBlockReason,
+  hasDownloadsRemaining,
+  isEmailDomainAllowed,
+  isPreviewableType,
+  issueShareAccessToken,
+  normalizeAllowedDomains,
+  verifyShareAccessToken
+} from '../driveShareLinkService';
+
+describe('driveShareLinkService', () => {
+  it('generates unique URL-safe tokens', () => {
+    const first = generateShareToken();
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateShareToken()).not.toBe(first);
+  });
+
+  describe('normalizeAllowedDomains', () => {
+    it('accepts arrays and comma separated strings', () => {
+      expect(normalizeAllowedDomains(['@Example.com', 'client.co.uk', 'example.com'])).toEqual(['example.com', 'client.co.uk']);
+      expect(normalizeAllowedDomains('acme.io, @partner.org')).toEqual(['acme.io', 'partner.org']);
+      expect(normalizeAllowedDomains(null)).toEqual([]);
+    });
+
+    it('rejects values that are not domains', () => {
+      expect(() => normalizeAllowedDomains(['not a domain'])).toThrow('Invalid domain: not a domain');
+      expect(() => normalizeAllowedDomains(['localhost'])).toThrow('Invalid domain');
+    });
+  });
+
+  it('matches visitor emails against allowed domains and their subdomains', () => {
+    expect(isEmailDomainAllowed('anyone@example.com', [])).toBe(true);
+    expect(isEmailDomainAllowed('pat@Example.com', ['example.com'])).toBe(true);
+    expect(isEmailDomainAllowed('pat@eu.example.com', ['example.com'])).toBe(true);
+    expect(isEmailDomainAllowed('pat@badexample.com', ['example.com'])).toBe(false);
+    expect(isEmailDomainAllowed(null, ['example.com'])).toBe(false);
+  });
+
+  it('blocks revoked and expired links', () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    expect(getLinkBlockReason({ revokedAt: null, expiresAt: null }, now)).toBeNull();
+    expect(getLinkBlockReason({ revokedAt: null, expiresAt: new Date('2026-10-19T00:00:00Z') }, now)).toBeNull();
+    expect(getLinkBlockReason({ revokedAt: null, expiresAt: new Date('2026-10-18T11:59:59Z') }, now)).toBe('expired');
+    expect(getLinkBlockReason({ revokedAt: now, expiresAt: null }, now)).toBe('revoked');
+  });
+
+  it('caps downloads only when maxDownloads is set', () => {
+    expect(hasDownloadsRemaining({ maxDownloads: null, downloadCount: 500 })).toBe(true);
+    expect(hasDownloadsRemaining({ maxDownloads: 3, downloadCount: 2 })).toBe(true);
+    expect(hasDownloadsRemaining({ maxDownloads: 3, downloadCount: 3 })).toBe(false);
+  });
+
+  it('previews only images and PDFs that cannot run script', () => {
+    expect(isPreviewableType('image/png')).toBe(true);
+    expect(isPreviewableType('application/pdf; charset=binary')).toBe(true);
+    expect(isPreviewableType('image/svg+xml')).toBe(false);
+    expect(isPreviewableType('text/html')).toBe(false);
+    expect(isPreviewableType(null)).toBe(false);
+  });
+
+  it('issues access tokens bound to a single link', () => {
+    const token = issueShareAccessToken('link-1');
+    expect(verifyShareAccessToken(token, 'link-1')).toBe(true);
+    expect(verifyShareAccessToken(token, 'link-2')).toBe(false);
+    expect(verifyShareAccessToken('garbage', 'link-1')).toBe(false);
+  });
+});
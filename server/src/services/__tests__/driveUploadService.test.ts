@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  computeBufferChecksum,
+  findMissingOffsets,
+  mergeReceivedRanges,
+  normalizeChunkSize,
+  validateChunkPlacement
+} from '../driveUploadService';
+
+const session = { totalSize: 2500, chunkSize: 1000 };
+
+describe('driveUploadService', () => {
+  it('clamps requested chunk sizes to the supported range', () => {
+    expect(normalizeChunkSize(undefined)).toBe(DEFAULT_CHUNK_SIZE);
+    expect(normalizeChunkSize(1)).toBe(MIN_CHUNK_SIZE);
+    expect(normalizeChunkSize(MAX_CHUNK_SIZE * 4)).toBe(MAX_CHUNK_SIZE);
+    expect(() => normalizeChunkSize(-5)).toThrow('chunkSize must be a positive integer');
+  });
+
+  describe('validateChunkPlacement', () => {
+    it('accepts aligned full chunks and a short final chunk', () => {
+      expect(() => validateChunkPlacement(session, { offset: 0, size: 1000 })).not.toThrow();
+      expect(() => validateChunkPlacement(session, { offset: 2000, size: 500 })).not.toThrow();
+    });
+
+    it('rejects unaligned offsets, offsets past the end and wrong sizes', () => {
+      expect(() => validateChunkPlacement(session, { offset: 500, size: 1000 })).toThrow('Offset must be a multiple of 1000');
+      expect(() => validateChunkPlacement(session, { offset: 3000, size: 1000 })).toThrow('past the end');
+      expect(() => validateChunkPlacement(session, { offset: 1000, size: 400 })).toThrow('must be 1000 bytes, got 400');
+      expect(() => validateChunkPlacement(session, { offset: 2000, size: 1000 })).toThrow('must be 500 bytes');
+    });
+  });
+
+  it('merges received chunks into contiguous ranges', () => {
+    expect(mergeReceivedRanges([])).toEqual([]);
+    expect(mergeReceivedRanges([
+      { offset: 2000, size: 500 },
+      { offset: 0, size: 1000 },
+    ])).toEqual([{ start: 0, end: 1000 }, { start: 2000, end: 2500 }]);
+    expect(mergeReceivedRanges([
+      { offset: 1000, size: 1000 },
+      { offset: 0, size: 1000 },
+      { offset: 2000, size: 500 },
+    ])).toEqual([{ start: 0, end: 2500 }]);
+  });
+
+  it('lists the offsets still to be sent', () => {
+    expect(findMissingOffsets(session, [])).toEqual([0, 1000, 2000]);
+    expect(findMissingOffsets(session, [{ offset: 1000, size: 1000 }])).toEqual([0, 2000]);
+    expect(findMissingOffsets({ totalSize: 0, chunkSize: 1000 }, [])).toEqual([]);
+  });
+
+  it('computes SHA-256 checksums of chunk bodies', () => {
+    expect(computeBufferChecksum(Buffer.from('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  generateKioskToken,
+  hashKioskPin,
+  hashKioskToken,
+  normalizeBadgeNumber,
+  normalizeKioskPin,
+  orderKioskPunches,
+  validateKioskPunchTime
+} from '../hrAttendanceKioskService';
+
+describe('hrAttendanceKioskService', () => {
+  beforeAll(() => {
+    process.env.KIOSK_PIN_SECRET = 'test-kiosk-secret';
+  });
+
+  describe('generateKioskToken', () => {
+    it('returns a prefixed token with its hash and hint', () => {
+      const { token, tokenHash, tokenHint } = generateKioskToken();
+      expect(token.startsWith('kiosk_')).toBe(true);
+      expect(tokenHash).toBe(hashKioskToken(token));
+      expect(tokenHint).toBe(token.slice(-4));
+    });
+
+    it('issues a different token each time', () => {
+      expect(generateKioskToken().token).not.toBe(generateKioskToken().token);
+    });
+  });
+
+  describe('kiosk PINs', () => {
+    it('accepts 4 to 8 digits', () => {
+      expect(normalizeKioskPin(' 1234 ')).toBe('1234');
+      expect(normalizeKioskPin('12345678')).toBe('12345678');
+      expect(() => normalizeKioskPin('123')).toThrow('PIN must be 4 to 8 digits');
+      expect(() => normalizeKioskPin('12a4')).toThrow('PIN must be 4 to 8 digits');
+    });
+
+    it('hashes the same PIN differently per business', () => {
+      expect(hashKioskPin('biz-1', '4321')).toBe(hashKioskPin('biz-1', '4321'));
+      expect(hashKioskPin('biz-1', '4321')).not.toBe(hashKioskPin('biz-2', '4321'));
+    });
+  });
+
+  describe('normalizeBadgeNumber', () => {
+    it('strips whitespace and upper-cases scanner input', () => {
+      expect(normalizeBadgeNumber(' ab 0042 ')).toBe('AB0042');
+      expect(() => normalizeBadgeNumber('   ')).toThrow('Badge number must be 1 to 64 characters');
+    });
+  });
+
+  describe('validateKioskPunchTime', () => {
+    const receivedAt = new Date('2026-10-19T12:00:00Z');
+
+    it('accepts live and recently buffered punches', () => {
+      expect(validateKioskPunchTime(new Date('2026-10-19T12:02:00Z'), receivedAt)).toBeNull();
+      expect(validateKioskPunchTime(new Date('2026-10-17T13:00:00Z'), receivedAt)).toBeNull();
+    });
+
+    it('rejects punches from the future or buffered too long', () => {
+      expect(validateKioskPunchTime(new Date('2026-10-19T12:10:00Z'), receivedAt)).toMatch(/future/);
+      expect(validateKioskPunchTime(new Date('2026-10-16T11:00:00Z'), receivedAt)).toMatch(/older than 72 hours/);
+      expect(validateKioskPunchTime(new Date('invalid'), receivedAt)).toBe('Punch time is invalid');
+    });
+  });
+
+  describe('orderKioskPunches', () => {
+    it('replays oldest first and keeps submission order for ties', () => {
+      const punches = [
+        { clientPunchId: 'c', occurredAt: new Date('2026-10-19T17:00:00Z') },
+        { clientPunchId: 'a', occurredAt: new Date('2026-10-19T08:00:00Z') },
+        { clientPunchId: 'b', occurredAt: new Date('2026-10-19T08:00:00Z') }
+      ];
+      expect(orderKioskPunches(punches).map((punch) => punch.clientPunchId)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { AttendanceExceptionType } from '@prisma/client';
+import {
+  distanceInMeters,
+  evaluateGeofence,
+  evaluatePunchTiming,
+  GeofenceSite,
+  parsePunchCoordinates,
+  resolveAutoClockOutTime,
+  resolveTemplateShiftWindow,
+  roundPunchTime,
+  zonedMinutesToUtc
+} from '../hrAttendanceService';
+
+const office: GeofenceSite = {
+  kind: 'JOB_LOCATION',
+  id: 'loc-1',
+  name: 'Downtown Office',
+  latitude: 40.7128,
+  longitude: -74.006,
+  radiusMeters: null
+};
+
+describe('hrAttendanceService', () => {
+  describe('parsePunchCoordinates', () => {
+    it('reads browser geolocation and lat/lng payloads', () => {
+      expect(parsePunchCoordinates({ latitude: 40.7, longitude: -74, accuracy: 12 })).toEqual({
+        latitude: 40.7,
+        longitude: -74,
+        accuracyMeters: 12
+      });
+      expect(parsePunchCoordinates({ lat: '40.7', lng: '-74' })).toEqual({
+        latitude: 40.7,
+        longitude: -74,
+        accuracyMeters: null
+      });
+    });
+
+    it('ignores missing or out-of-range coordinates', () => {
+      expect(parsePunchCoordinates(null)).toBeNull();
+      expect(parsePunchCoordinates({ label: 'Front desk' })).toBeNull();
+      expect(parsePunchCoordinates({ latitude: 95, longitude: 10 })).toBeNull();
+    });
+  });
+
+  describe('distanceInMeters', () => {
+    it('measures one degree of latitude as roughly 111km', () => {
+      const distance = distanceInMeters({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 });
+      expect(distance).toBeGreaterThan(111000);
+      expect(distance).toBeLessThan(111400);
+    });
+  });
+
+  describe('evaluateGeofence', () => {
+    it('passes punches inside the policy radius', () => {
+      const result = evaluateGeofence({ latitude: 40.7129, longitude: -74.006, accuracyMeters: null }, [office], 100);
+      expect(result).toMatchObject({ withinGeofence: true, siteId: 'loc-1', radiusMeters: 100 });
+    });
+
+    it('prefers the site radius over the policy radius', () => {
+      // ~220m north of the office
+      const punch = { latitude: 40.7148, longitude: -74.006, accuracyMeters: null };
+      expect(evaluateGeofence(punch, [office], 100)?.withinGeofence).toBe(false);
+      expect(evaluateGeofence(punch, [{ ...office, radiusMeters: 300 }], 100)?.withinGeofence).toBe(true);
+    });
+
+    it('matches any site and otherwise reports the nearest one', () => {
+      const warehouse: GeofenceSite = { ...office, id: 'loc-2', name: 'Warehouse', latitude: 40.8, longitude: -74.1 };
+      const atWarehouse = { latitude: 40.8, longitude: -74.1, accuracyMeters: null };
+      expect(evaluateGeofence(atWarehouse, [office, warehouse], 100)?.siteId).toBe('loc-2');
+
+      const nearOffice = { latitude: 40.72, longitude: -74.006, accuracyMeters: null };
+      expect(evaluateGeofence(nearOffice, [office, warehouse], 100)).toMatchObject({
+        withinGeofence: false,
+        siteId: 'loc-1'
+      });
+    });
+
+    it('returns null when no site has coordinates', () => {
+      expect(evaluateGeofence({ latitude: 1, longitude: 1, accuracyMeters: null }, [], 100)).toBeNull();
+    });
+  });
+
+  describe('roundPunchTime', () => {
+    it('rounds to the nearest increment', () => {
+      expect(roundPunchTime(new Date('2026-10-19T08:07:00Z'), 15).toISOString()).toBe('2026-10-19T08:00:00.000Z');
+      expect(roundPunchTime(new Date('2026-10-19T08:08:00Z'), 15).toISOString()).toBe('2026-10-19T08:15:00.000Z');
+      expect(roundPunchTime(new Date('2026-10-19T16:52:30Z'), 6).toISOString()).toBe('2026-10-19T16:54:00.000Z');
+    });
+
+    it('leaves the time alone without an increment', () => {
+      const punch = new Date('2026-10-19T08:07:31Z');
+      expect(roundPunchTime(punch, null).getTime()).toBe(punch.getTime());
+      expect(roundPunchTime(punch, 1).getTime()).toBe(punch.getTime());
+    });
+  });
+
+  describe('evaluatePunchTiming', () => {
+    const start = new Date('2026-10-19T09:00:00Z');
+
+    it('allows arrivals within the grace period', () => {
+      expect(evaluatePunchTiming('IN', new Date('2026-10-19T09:05:00Z'), start, 5)).toEqual({
+        varianceMinutes: 5,
+        exceptionType: null
+      });
+      expect(evaluatePunchTiming('IN', new Date('2026-10-19T08:55:00Z'), start, 5).exceptionType).toBeNull();
+    });
+
+    it('flags late and early arrivals outside the grace period', () => {
+      expect(evaluatePunchTiming('IN', new Date('2026-10-19T09:06:00Z'), start, 5)).toEqual({
+        varianceMinutes: 6,
+        exceptionType: AttendanceExceptionType.LATE_ARRIVAL
+      });
+      expect(evaluatePunchTiming('IN', new Date('2026-10-19T08:30:00Z'), start, 5)).toEqual({
+        varianceMinutes: -30,
+        exceptionType: AttendanceExceptionType.EARLY_ARRIVAL
+      });
+    });
+
+    it('flags early departures but not late ones', () => {
+      const end = new Date('2026-10-19T17:00:00Z');
+      expect(evaluatePunchTiming('OUT', new Date('2026-10-19T16:40:00Z'), end, 10).exceptionType).toBe(
+        AttendanceExceptionType.EARLY_DEPARTURE
+      );
+      expect(evaluatePunchTiming('OUT', new Date('2026-10-19T17:45:00Z'), end, 10).exceptionType).toBeNull();
+    });
+  });
+
+  describe('resolveAutoClockOutTime', () => {
+    it('adds the policy limit to the clock-in time', () => {
+      expect(resolveAutoClockOutTime(new Date('2026-10-19T08:00:00Z'), 720)?.toISOString()).toBe(
+        '2026-10-19T20:00:00.000Z'
+      );
+    });
+
+    it('returns null when the policy has no limit', () => {
+      expect(resolveAutoClockOutTime(new Date('2026-10-19T08:00:00Z'), null)).toBeNull();
+      expect(resolveAutoClockOutTime(new Date('2026-10-19T08:00:00Z'), 0)).toBeNull();
+    });
+  });
+
+  describe('zonedMinutesToUtc', () => {
+    it('converts local wall-clock time across a DST change', () => {
+      // New York is UTC-4 in summer and UTC-5 after the first Sunday of November
+      expect(zonedMinutesToUtc({ year: 2026, month: 10, day: 30 }, 9 * 60, 'America/New_York').toISOString()).toBe(
+        '2026-10-30T13:00:00.000Z'
+      );
+      expect(zonedMinutesToUtc({ year: 2026, month: 11, day: 2 }, 9 * 60, 'America/New_York').toISOString()).toBe(
+        '2026-11-02T14:00:00.000Z'
+      );
+    });
+
+    it('falls back to UTC for unknown time zones', () => {
+      expect(zonedMinutesToUtc({ year: 2026, month: 10, day: 19 }, 8 * 60, 'Not/AZone').toISOString()).toBe(
+        '2026-10-19T08:00:00.000Z'
+      );
+    });
+  });
+
+  describe('resolveTemplateShiftWindow', () => {
+    const template = { startMinutes: 9 * 60, endMinutes: 17 * 60, daysOfWeek: ['MONDAY', 'TUESDAY'], timezone: 'America/Chicago' };
+
+    it('returns the shift on a scheduled local day', () => {
+      // Monday 2026-10-19 07:30 in Chicago (UTC-5)
+      expect(resolveTemplateShiftWindow(template, new Date('2026-10-19T12:30:00Z'))).toEqual({
+        start: new Date('2026-10-19T14:00:00Z'),
+        end: new Date('2026-10-19T22:00:00Z')
+      });
+    });
+
+    it('uses the local weekday rather than the UTC one', () => {
+      // Wednesday 01:00 UTC is still Tuesday evening in Chicago
+      expect(resolveTemplateShiftWindow(template, new Date('2026-10-21T01:00:00Z'))?.start).toEqual(
+        new Date('2026-10-20T14:00:00Z')
+      );
+      expect(resolveTemplateShiftWindow(template, new Date('2026-10-21T15:00:00Z'))).toBeNull();
+    });
+  });
+});
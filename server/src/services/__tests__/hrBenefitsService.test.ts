@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BenefitBeneficiaryDesignation,
+  BenefitCoverageLevel,
+  BenefitDependentRelationship,
+  BenefitLifeEventStatus,
+  BenefitLifeEventType,
+  BenefitPlanType,
+  EmployeeType,
+  PayrollLineCalculation,
+  PayrollLineCategory
+} from '@prisma/client';
+import {
+  buildEnrollmentPayrollLine,
+  computeElectionCosts,
+  computeLifeEventDates,
+  isEmployeeTypeEligible,
+  parseCoverageCosts,
+  resolveEnrollmentPeriod,
+  resolvePlanCoverageStart,
+  toCsvRow,
+  validateBeneficiaryAllocations,
+  validateCoverageDependents
+} from '../hrBenefitsService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const { SPOUSE, DOMESTIC_PARTNER, CHILD, OTHER } = BenefitDependentRelationship;
+const { PRIMARY, CONTINGENT } = BenefitBeneficiaryDesignation;
+
+const medicalPlan = {
+  name: 'PPO Medical',
+  type: BenefitPlanType.MEDICAL,
+  coverageCosts: {
+    EMPLOYEE_ONLY: { employee: 45, employer: 180 },
+    FAMILY: { employee: 160, employer: 420 }
+  },
+  allowsDependents: true,
+  minContributionPercent: null,
+  maxContributionPercent: null,
+  deductionCode: 'med',
+  deductionCategory: PayrollLineCategory.PRE_TAX_DEDUCTION
+};
+
+const retirementPlan = {
+  ...medicalPlan,
+  name: '401(k)',
+  type: BenefitPlanType.RETIREMENT,
+  coverageCosts: null,
+  allowsDependents: false,
+  minContributionPercent: 1,
+  maxContributionPercent: 15,
+  deductionCode: '401K'
+};
+
+describe('hrBenefitsService', () => {
+  describe('parseCoverageCosts', () => {
+    it('rounds amounts and defaults missing sides to zero', () => {
+      expect(parseCoverageCosts({ EMPLOYEE_ONLY: { employee: 12.345 } })).toEqual({
+        EMPLOYEE_ONLY: { employee: 12.35, employer: 0 }
+      });
+    });
+
+    it('rejects unknown levels and negative amounts', () => {
+      expect(() => parseCoverageCosts({ EVERYONE: { employee: 1, employer: 1 } })).toThrow('Unknown coverage level');
+      expect(() => parseCoverageCosts({ FAMILY: { employee: -1, employer: 1 } })).toThrow('non-negative');
+    });
+  });
+
+  describe('isEmployeeTypeEligible', () => {
+    it('treats an empty list as all employee types', () => {
+      expect(isEmployeeTypeEligible({ eligibleEmployeeTypes: [] }, null)).toBe(true);
+    });
+
+    it('matches the employee type when the plan restricts eligibility', () => {
+      const plan = { eligibleEmployeeTypes: [EmployeeType.FULL_TIME] };
+      expect(isEmployeeTypeEligible(plan, EmployeeType.FULL_TIME)).toBe(true);
+      expect(isEmployeeTypeEligible(plan, EmployeeType.PART_TIME)).toBe(false);
+      expect(isEmployeeTypeEligible(plan, null)).toBe(false);
+    });
+  });
+
+  describe('resolvePlanCoverageStart', () => {
+    it('waits out the waiting period after hire', () => {
+      expect(resolvePlanCoverageStart({ waitingPeriodDays: 30 }, day('2026-10-10'), day('2026-11-01'))).toEqual(day('2026-11-09'));
+    });
+
+    it('uses the period start once the waiting period has passed', () => {
+      expect(resolvePlanCoverageStart({ waitingPeriodDays: 30 }, day('2025-01-10'), day('2026-01-01'))).toEqual(day('2026-01-01'));
+    });
+  });
+
+  describe('validateCoverageDependents', () => {
+    it('requires dependents to match the coverage level', () => {
+      expect(() => validateCoverageDependents(BenefitCoverageLevel.EMPLOYEE_ONLY, [{ relationship: CHILD }])).toThrow();
+      expect(() => validateCoverageDependents(BenefitCoverageLevel.EMPLOYEE_SPOUSE, [{ relationship: CHILD }])).toThrow();
+      expect(() => validateCoverageDependents(BenefitCoverageLevel.EMPLOYEE_CHILDREN, [{ relationship: SPOUSE }, { relationship: CHILD }])).toThrow();
+      expect(() => validateCoverageDependents(BenefitCoverageLevel.FAMILY, [{ relationship: CHILD }])).toThrow();
+    });
+
+    it('accepts partners and treats other dependents as children', () => {
+      expect(() => validateCoverageDependents(BenefitCoverageLevel.EMPLOYEE_SPOUSE, [{ relationship: DOMESTIC_PARTNER }])).not.toThrow();
+      expect(() => validateCoverageDependents(BenefitCoverageLevel.EMPLOYEE_CHILDREN, [{ relationship: OTHER }])).not.toThrow();
+      expect(() => validateCoverageDependents(BenefitCoverageLevel.FAMILY, [{ relationship: SPOUSE }, { relationship: CHILD }])).not.toThrow();
+    });
+  });
+
+  describe('validateBeneficiaryAllocations', () => {
+    it('requires each designation to total 100%', () => {
+      expect(() => validateBeneficiaryAllocations([
+        { name: 'A', relationship: 'Spouse', designation: PRIMARY, percentage: 60 },
+        { name: 'B', relationship: 'Child', designation: PRIMARY, percentage: 40 },
+        { name: 'C', relationship: 'Sibling', designation: CONTINGENT, percentage: 100 }
+      ])).not.toThrow();
+      expect(() => validateBeneficiaryAllocations([
+        { name: 'A', relationship: 'Spouse', designation: PRIMARY, percentage: 60 }
+      ])).toThrow('add up to 100%');
+    });
+
+    it('requires a primary beneficiary', () => {
+      expect(() => validateBeneficiaryAllocations([
+        { name: 'C', relationship: 'Sibling', designation: CONTINGENT, percentage: 100 }
+      ])).toThrow('primary');
+    });
+  });
+
+  describe('computeLifeEventDates', () => {
+    it('covers births from the event date', () => {
+      const dates = computeLifeEventDates(BenefitLifeEventType.BIRTH_ADOPTION, day('2026-03-14'));
+      expect(dates.coverageStartDate).toEqual(day('2026-03-14'));
+      expect(dates.enrollmentDeadline).toEqual(day('2026-04-13'));
+    });
+
+    it('starts other changes on the first of the next month', () => {
+      const dates = computeLifeEventDates(BenefitLifeEventType.MARRIAGE, day('2026-12-20'));
+      expect(dates.coverageStartDate).toEqual(day('2027-01-01'));
+    });
+  });
+
+  describe('resolveEnrollmentPeriod', () => {
+    const window = {
+      id: 'w1',
+      name: '2027 Open Enrollment',
+      startDate: day('2026-11-01'),
+      endDate: day('2026-11-15'),
+      coverageStartDate: day('2027-01-01')
+    };
+    const lifeEvent = {
+      id: 'e1',
+      type: BenefitLifeEventType.MARRIAGE,
+      status: BenefitLifeEventStatus.APPROVED,
+      enrollmentDeadline: day('2026-11-20'),
+      coverageStartDate: day('2026-12-01')
+    };
+
+    it('prefers an approved life event over open enrollment', () => {
+      expect(resolveEnrollmentPeriod([window], [lifeEvent], day('2026-11-05'))).toMatchObject({
+        source: 'LIFE_EVENT',
+        lifeEventId: 'e1'
+      });
+    });
+
+    it('ignores pending or expired life events', () => {
+      const pending = { ...lifeEvent, status: BenefitLifeEventStatus.PENDING };
+      expect(resolveEnrollmentPeriod([window], [pending], day('2026-11-05'))).toMatchObject({ source: 'WINDOW' });
+      expect(resolveEnrollmentPeriod([], [lifeEvent], day('2026-11-21'))).toBeNull();
+    });
+
+    it('includes the last day of the window', () => {
+      expect(resolveEnrollmentPeriod([window], [], day('2026-11-15'))).toMatchObject({ windowId: 'w1' });
+      expect(resolveEnrollmentPeriod([window], [], day('2026-11-16'))).toBeNull();
+    });
+  });
+
+  describe('computeElectionCosts', () => {
+    it('prices coverage levels from the plan', () => {
+      expect(computeElectionCosts(medicalPlan, { coverageLevel: BenefitCoverageLevel.FAMILY })).toEqual({
+        coverageLevel: BenefitCoverageLevel.FAMILY,
+        contributionPercent: null,
+        employeeCost: 160,
+        employerCost: 420
+      });
+      expect(() => computeElectionCosts(medicalPlan, { coverageLevel: BenefitCoverageLevel.EMPLOYEE_SPOUSE })).toThrow('not offered');
+    });
+
+    it('enforces the retirement contribution range', () => {
+      expect(computeElectionCosts(retirementPlan, { contributionPercent: 6 }).contributionPercent).toBe(6);
+      expect(() => computeElectionCosts(retirementPlan, { contributionPercent: 20 })).toThrow('between 1% and 15%');
+    });
+  });
+
+  describe('buildEnrollmentPayrollLine', () => {
+    it('creates a flat deduction for priced plans', () => {
+      expect(buildEnrollmentPayrollLine(medicalPlan, { employeeCost: 45, contributionPercent: null })).toEqual({
+        name: 'PPO Medical',
+        code: 'MED',
+        category: PayrollLineCategory.PRE_TAX_DEDUCTION,
+        calculation: PayrollLineCalculation.FLAT,
+        amount: 45
+      });
+    });
+
+    it('creates a percent-of-gross deduction for retirement plans', () => {
+      expect(buildEnrollmentPayrollLine(retirementPlan, { employeeCost: 0, contributionPercent: 5 })).toMatchObject({
+        calculation: PayrollLineCalculation.PERCENT_OF_GROSS,
+        amount: 5
+      });
+    });
+
+    it('skips zero-cost elections', () => {
+      expect(buildEnrollmentPayrollLine(medicalPlan, { employeeCost: 0, contributionPercent: null })).toBeNull();
+    });
+  });
+
+  describe('toCsvRow', () => {
+    it('quotes values containing commas, quotes or newlines', () => {
+      expect(toCsvRow(['Smith, Jr.', 'say "hi"', null, 4])).toBe('"Smith, Jr.","say ""hi""",,4');
+    });
+  });
+});
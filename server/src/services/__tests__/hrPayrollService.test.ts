@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { PayType, PayrollLineCalculation, PayrollLineCategory } from '@prisma/client';
+import {
+  calculateEmployeePay,
+  computeNextPayPeriodRange,
+  countTimeOffWorkingDays,
+  isPayrollLineEffective,
+  splitWeeklyOvertime,
+  PayCalculationInput
+} from '../hrPayrollService';
+
+const baseInput: PayCalculationInput = {
+  payType: PayType.HOURLY,
+  payRate: 20,
+  periodsPerYear: 26,
+  regularHours: 0,
+  overtimeHours: 0,
+  paidTimeOffHours: 0,
+  unpaidTimeOffHours: 0,
+  overtimeMultiplier: 1.5,
+  standardHoursPerDay: 8,
+  workingDaysPerWeek: 5,
+  lines: []
+};
+
+describe('hrPayrollService', () => {
+  describe('splitWeeklyOvertime', () => {
+    it('applies the overtime threshold per Monday-start week', () => {
+      // Week 1 (Mon 2026-03-02): 5 x 9h = 45h -> 5h overtime
+      // Week 2 (Mon 2026-03-09): 2 x 8h = 16h -> no overtime
+      const minutesByDay: Record<string, number> = {
+        '2026-03-02': 540,
+        '2026-03-03': 540,
+        '2026-03-04': 540,
+        '2026-03-05': 540,
+        '2026-03-06': 540,
+        '2026-03-09': 480,
+        '2026-03-10': 480
+      };
+
+      expect(splitWeeklyOvertime(minutesByDay, 40)).toEqual({ regularHours: 56, overtimeHours: 5 });
+    });
+  });
+
+  describe('countTimeOffWorkingDays', () => {
+    it('counts only working days inside the pay period', () => {
+      const days = countTimeOffWorkingDays(
+        new Date('2026-03-05T00:00:00Z'), // Thursday
+        new Date('2026-03-10T00:00:00Z'), // Tuesday
+        new Date('2026-03-01T00:00:00Z'),
+        new Date('2026-03-09T00:00:00Z'),
+        5
+      );
+      // Thu, Fri, Mon (weekend skipped, Tue outside period)
+      expect(days).toBe(3);
+    });
+  });
+
+  describe('computeNextPayPeriodRange', () => {
+    it('continues biweekly periods from the previous end date', () => {
+      const range = computeNextPayPeriodRange('BIWEEKLY', new Date('2026-03-15T00:00:00Z'));
+      expect(range.startDate.toISOString()).toBe('2026-03-16T00:00:00.000Z');
+      expect(range.endDate.toISOString()).toBe('2026-03-29T00:00:00.000Z');
+    });
+
+    it('splits semi-monthly periods on the 15th', () => {
+      const range = computeNextPayPeriodRange('SEMIMONTHLY', new Date('2026-02-15T00:00:00Z'));
+      expect(range.startDate.toISOString()).toBe('2026-02-16T00:00:00.000Z');
+      expect(range.endDate.toISOString()).toBe('2026-02-28T00:00:00.000Z');
+    });
+  });
+
+  it('applies lines only while their effective window overlaps the period', () => {
+    const start = new Date('2026-03-01T00:00:00Z');
+    const end = new Date('2026-03-14T00:00:00Z');
+    expect(isPayrollLineEffective({ effectiveFrom: null, effectiveTo: null }, start, end)).toBe(true);
+    expect(isPayrollLineEffective({ effectiveFrom: new Date('2026-03-10T00:00:00Z'), effectiveTo: null }, start, end)).toBe(true);
+    expect(isPayrollLineEffective({ effectiveFrom: new Date('2026-03-15T00:00:00Z'), effectiveTo: null }, start, end)).toBe(false);
+    expect(isPayrollLineEffective({ effectiveFrom: null, effectiveTo: new Date('2026-02-28T00:00:00Z') }, start, end)).toBe(false);
+  });
+
+  describe('calculateEmployeePay', () => {
+    it('pays hourly regular, overtime and paid time off hours', () => {
+      const result = calculateEmployeePay({
+        ...baseInput,
+        regularHours: 72,
+        overtimeHours: 4,
+        paidTimeOffHours: 8
+      });
+
+      expect(result.earnings.map((line) => [line.code, line.amount])).toEqual([
+        ['REGULAR', 1440],
+        ['OVERTIME', 120],
+        ['PTO', 160]
+      ]);
+      expect(result.grossPay).toBe(1720);
+      expect(result.netPay).toBe(1720);
+    });
+
+    it('prorates salary and deducts unpaid time off', () => {
+      const result = calculateEmployeePay({
+        ...baseInput,
+        payType: PayType.SALARY,
+        payRate: 52000,
+        unpaidTimeOffHours: 8
+      });
+
+      // 52,000 / 26 = 2,000; hourly equivalent 52,000 / 2,080 = 25
+      expect(result.grossPay).toBe(1800);
+    });
+
+    it('computes taxes on gross minus pre-tax deductions', () => {
+      const result = calculateEmployeePay({
+        ...baseInput,
+        regularHours: 50,
+        lines: [
+          {
+            code: 'FED_TAX',
+            name: 'Federal tax',
+            category: PayrollLineCategory.TAX,
+            calculation: PayrollLineCalculation.PERCENT_OF_GROSS,
+            amount: 10
+          },
+          {
+            code: '401K',
+            name: '401(k)',
+            category: PayrollLineCategory.PRE_TAX_DEDUCTION,
+            calculation: PayrollLineCalculation.PERCENT_OF_GROSS,
+            amount: 5
+          },
+          {
+            code: 'PARKING',
+            name: 'Parking',
+            category: PayrollLineCategory.POST_TAX_DEDUCTION,
+            calculation: PayrollLineCalculation.FLAT,
+            amount: 25
+          }
+        ]
+      });
+
+      expect(result.grossPay).toBe(1000);
+      expect(result.deductions.map((line) => [line.code, line.amount])).toEqual([
+        ['401K', 50],
+        ['FED_TAX', 95],
+        ['PARKING', 25]
+      ]);
+      expect(result.totalDeductions).toBe(170);
+      expect(result.netPay).toBe(830);
+    });
+
+    it('never lets deductions take net pay below zero', () => {
+      const result = calculateEmployeePay({
+        ...baseInput,
+        regularHours: 2,
+        lines: [
+          {
+            code: 'LOAN',
+            name: 'Loan repayment',
+            category: PayrollLineCategory.POST_TAX_DEDUCTION,
+            calculation: PayrollLineCalculation.FLAT,
+            amount: 100
+          }
+        ]
+      });
+
+      expect(result.totalDeductions).toBe(40);
+      expect(result.netPay).toBe(0);
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+});
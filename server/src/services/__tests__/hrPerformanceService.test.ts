@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PerformanceGoalStatus,
+  PerformanceReviewStatus,
+  PerformanceReviewerType,
+  PerformanceSubmissionStatus
+} from '@prisma/client';
+import {
+  buildCalibrationGroups,
+  computeKeyResultProgress,
+  computeProposedRating,
+  DEFAULT_QUESTIONNAIRE,
+  DEFAULT_RATING_SCALE,
+  isReviewReady,
+  parseRatingLevels,
+  rollUpObjectiveProgress,
+  selectPeerReviewers,
+  validateSubmissionAnswers
+} from '../hrPerformanceService';
+
+const { SELF, MANAGER, PEER } = PerformanceReviewerType;
+const { SUBMITTED, PENDING } = PerformanceSubmissionStatus;
+
+describe('hrPerformanceService', () => {
+  describe('parseRatingLevels', () => {
+    it('sorts levels by value', () => {
+      const levels = parseRatingLevels([
+        { value: 3, label: 'High' },
+        { value: 1, label: 'Low' },
+        { value: 2, label: 'Mid' }
+      ]);
+      expect(levels.map((level) => level.value)).toEqual([1, 2, 3]);
+    });
+
+    it('rejects duplicate values', () => {
+      expect(() => parseRatingLevels([
+        { value: 1, label: 'A' },
+        { value: 1, label: 'B' }
+      ])).toThrow('unique');
+    });
+  });
+
+  describe('validateSubmissionAnswers', () => {
+    const base = {
+      questions: DEFAULT_QUESTIONNAIRE.questions,
+      levels: DEFAULT_RATING_SCALE.levels,
+      reviewerType: MANAGER
+    };
+
+    it('allows partial drafts', () => {
+      const answers = validateSubmissionAnswers({
+        ...base,
+        answers: { results: { rating: 4 } },
+        overallRating: undefined,
+        requireComplete: false
+      });
+      expect(answers).toEqual({ results: { rating: 4 } });
+    });
+
+    it('requires required questions and an overall rating on submit', () => {
+      expect(() => validateSubmissionAnswers({
+        ...base,
+        answers: { results: { rating: 4 }, collaboration: { rating: 3 } },
+        overallRating: 4,
+        requireComplete: true
+      })).toThrow('key strengths');
+
+      expect(() => validateSubmissionAnswers({
+        ...base,
+        answers: { results: { rating: 4 }, collaboration: { rating: 3 }, strengths: { text: 'Ownership' } },
+        overallRating: null,
+        requireComplete: true
+      })).toThrow('Overall rating');
+    });
+
+    it('rejects ratings outside the scale and drops questions for other reviewer types', () => {
+      expect(() => validateSubmissionAnswers({
+        ...base,
+        answers: { results: { rating: 7 } },
+        overallRating: undefined,
+        requireComplete: false
+      })).toThrow('scale values');
+
+      const answers = validateSubmissionAnswers({
+        ...base,
+        answers: { manager_support: { text: 'Self-only question' } },
+        overallRating: undefined,
+        requireComplete: false
+      });
+      expect(answers).toEqual({});
+    });
+  });
+
+  describe('computeProposedRating', () => {
+    it('prefers the manager rating', () => {
+      expect(computeProposedRating([
+        { reviewerType: SELF, status: SUBMITTED, overallRating: 5 },
+        { reviewerType: MANAGER, status: SUBMITTED, overallRating: 3 }
+      ])).toBe(3);
+    });
+
+    it('averages submitted ratings without a manager review', () => {
+      expect(computeProposedRating([
+        { reviewerType: SELF, status: SUBMITTED, overallRating: 4 },
+        { reviewerType: PEER, status: SUBMITTED, overallRating: 3 },
+        { reviewerType: PEER, status: PENDING, overallRating: null }
+      ])).toBe(3.5);
+    });
+  });
+
+  it('treats a review as ready once the manager has submitted', () => {
+    const submissions = [
+      { reviewerType: SELF, status: SUBMITTED },
+      { reviewerType: MANAGER, status: PENDING }
+    ];
+    expect(isReviewReady(submissions, true)).toBe(false);
+    expect(isReviewReady(submissions, false)).toBe(true);
+  });
+
+  describe('goal progress', () => {
+    it('derives key result progress from values', () => {
+      expect(computeKeyResultProgress(10, 20, 15)).toBe(50);
+      expect(computeKeyResultProgress(0, 100, 150)).toBe(100);
+      expect(computeKeyResultProgress(null, 100, null)).toBeNull();
+    });
+
+    it('rolls objectives up from non-cancelled key results', () => {
+      expect(rollUpObjectiveProgress([
+        { progress: 100, status: PerformanceGoalStatus.COMPLETED },
+        { progress: 50, status: PerformanceGoalStatus.ON_TRACK },
+        { progress: 0, status: PerformanceGoalStatus.CANCELLED }
+      ])).toBe(75);
+    });
+  });
+
+  it('spreads peer reviews across the least loaded colleagues', () => {
+    const load = new Map<string, number>([['a', 2]]);
+    expect(selectPeerReviewers(['a', 'b', 'c', 'self'], ['self'], 2, load)).toEqual(['b', 'c']);
+    expect(load.get('b')).toBe(1);
+  });
+
+  it('groups calibration rows with rating distribution', () => {
+    const groups = buildCalibrationGroups([
+      { reviewId: 'r1', groupId: 'eng', status: PerformanceReviewStatus.COMPLETED, proposedRating: 4, calibratedRating: 3, finalRating: 3 },
+      { reviewId: 'r2', groupId: 'eng', status: PerformanceReviewStatus.AWAITING_CALIBRATION, proposedRating: 5, calibratedRating: null, finalRating: null },
+      { reviewId: 'r3', groupId: 'ops', status: PerformanceReviewStatus.IN_PROGRESS, proposedRating: null, calibratedRating: null, finalRating: null }
+    ], DEFAULT_RATING_SCALE.levels);
+
+    const engineering = groups.find((group) => group.groupId === 'eng');
+    expect(engineering).toMatchObject({
+      reviewCount: 2,
+      completedCount: 1,
+      calibratedCount: 1,
+      averageProposedRating: 4.5,
+      averageRating: 4
+    });
+    expect(engineering?.distribution.find((level) => level.value === 3)?.count).toBe(1);
+    expect(engineering?.distribution.find((level) => level.value === 5)?.count).toBe(1);
+    expect(groups.find((group) => group.groupId === 'ops')?.averageRating).toBeNull();
+  });
+});
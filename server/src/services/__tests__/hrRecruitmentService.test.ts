@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { JobRequisitionStatus } from '@prisma/client';
+import {
+  buildInterviewIcs,
+  normalizeCandidateEmail,
+  resolveRequisitionTimestamps
+} from '../hrRecruitmentService';
+
+describe('hrRecruitmentService', () => {
+  describe('resolveRequisitionTimestamps', () => {
+    const now = new Date('2026-05-01T12:00:00Z');
+
+    it('stamps publishedAt the first time a requisition opens', () => {
+      expect(resolveRequisitionTimestamps(null, JobRequisitionStatus.OPEN, now)).toEqual({
+        publishedAt: now,
+        closedAt: null
+      });
+    });
+
+    it('keeps the original publish date and clears closedAt when reopening', () => {
+      const publishedAt = new Date('2026-04-01T00:00:00Z');
+      const result = resolveRequisitionTimestamps(
+        { status: JobRequisitionStatus.CLOSED, publishedAt, closedAt: new Date('2026-04-20T00:00:00Z') },
+        JobRequisitionStatus.OPEN,
+        now
+      );
+      expect(result).toEqual({ publishedAt, closedAt: null });
+    });
+
+    it('stamps closedAt when a requisition is filled', () => {
+      const result = resolveRequisitionTimestamps(
+        { status: JobRequisitionStatus.OPEN, publishedAt: null, closedAt: null },
+        JobRequisitionStatus.FILLED,
+        now
+      );
+      expect(result.closedAt).toEqual(now);
+    });
+  });
+
+  describe('buildInterviewIcs', () => {
+    it('lists every attendee and escapes text fields', () => {
+      const ics = buildInterviewIcs({
+        uid: 'event-1',
+        title: 'Interview: Ada, Lovelace',
+        startAt: new Date('2026-05-04T15:00:00Z'),
+        endAt: new Date('2026-05-04T15:45:00Z'),
+        organizer: { name: 'Hiring Manager', email: 'hm@example.com' },
+        attendeeEmails: ['ada@example.com', 'hm@example.com']
+      });
+
+      const lines = ics.split('\r\n');
+      expect(lines).toContain('METHOD:REQUEST');
+      expect(lines).toContain('DTSTART:20260504T150000Z');
+      expect(lines).toContain('SUMMARY:Interview: Ada\\, Lovelace');
+      expect(lines.filter((line) => line.startsWith('ATTENDEE'))).toHaveLength(2);
+    });
+  });
+
+  it('normalizes candidate emails for de-duplication', () => {
+    expect(normalizeCandidateEmail('  Ada@Example.COM ')).toBe('ada@example.com');
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCoverageHeatmap,
+  complianceToCsv,
+  findComplianceIssues,
+  hourlyRateFor,
+  summarizeLaborCost,
+  DEFAULT_COMPLIANCE_RULES,
+  type AnalyticsAttendance,
+  type AnalyticsShift
+} from '../schedulingAnalyticsService';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+const shift = (id: string, employeePositionId: string | null, start: string, end: string, overrides: Partial<AnalyticsShift> = {}): AnalyticsShift => ({
+  id,
+  scheduleId: 'schedule-1',
+  employeePositionId,
+  start: at(start),
+  end: at(end),
+  breakMinutes: 30,
+  createdAt: at('2026-02-01T00:00'),
+  ...overrides
+});
+
+const punch = (id: string, employeePositionId: string, clockIn: string, clockOut: string): AnalyticsAttendance => ({
+  id,
+  employeePositionId,
+  clockIn: at(clockIn),
+  clockOut: at(clockOut)
+});
+
+const employees = [
+  { employeePositionId: 'ana', name: 'Ana', hourlyRate: 20, departmentName: 'Kitchen' },
+  { employeePositionId: 'ben', name: 'Ben', hourlyRate: null }
+];
+
+describe('schedulingAnalyticsService', () => {
+  it('converts salaried pay to an hourly rate', () => {
+    expect(hourlyRateFor({ payType: 'HOURLY', payRate: 18 })).toBe(18);
+    expect(hourlyRateFor({ payType: 'SALARY', payRate: 52000 })).toBe(25);
+    expect(hourlyRateFor(null)).toBeNull();
+  });
+
+  describe('summarizeLaborCost', () => {
+    it('compares scheduled and actual cost by day, station and department', () => {
+      const shifts = [
+        shift('s1', 'ana', '2026-03-02T08:00', '2026-03-02T16:30', { stationName: 'Grill', departmentName: 'Kitchen' }),
+        shift('s2', null, '2026-03-02T08:00', '2026-03-02T16:30', { stationName: 'Grill' })
+      ];
+      const records = [
+        punch('r1', 'ana', '2026-03-02T07:55', '2026-03-02T17:25'),
+        punch('r2', 'ana', '2026-03-03T10:00', '2026-03-03T12:00')
+      ];
+
+      const report = summarizeLaborCost(shifts, records, employees, 'UTC');
+
+      expect(report.totals).toEqual({
+        scheduledHours: 8,
+        scheduledCost: 160,
+        actualHours: 11.5,
+        actualCost: 230,
+        varianceCost: 70
+      });
+      expect(report.byDay.map((row) => [row.key, row.actualHours])).toEqual([['2026-03-02', 9.5], ['2026-03-03', 2]]);
+      expect(report.byStation.map((row) => row.key)).toEqual(['Grill', 'Unscheduled']);
+      expect(report.byDepartment).toHaveLength(1);
+      expect(report.unmatchedRecords).toBe(1);
+    });
+
+    it('counts employees without a pay rate', () => {
+      const report = summarizeLaborCost([shift('s1', 'ben', '2026-03-02T08:00', '2026-03-02T12:00')], [], employees, 'UTC');
+
+      expect(report.totals.scheduledHours).toBe(3.5);
+      expect(report.totals.scheduledCost).toBe(0);
+      expect(report.employeesWithoutRate).toBe(1);
+    });
+  });
+
+  it('builds an hourly heatmap in the local timezone', () => {
+    // 09:00–11:00 in New York is 14:00–16:00Z in March before DST
+    const report = buildCoverageHeatmap(
+      [
+        shift('s1', 'ana', '2026-03-02T14:00', '2026-03-02T16:00'),
+        shift('s2', null, '2026-03-02T14:00', '2026-03-02T15:00')
+      ],
+      [{ start: at('2026-03-02T15:00'), end: at('2026-03-02T17:00'), headcount: 3 }],
+      '2026-03-02',
+      '2026-03-02',
+      'America/New_York'
+    );
+
+    const cell = (hour: number) => report.cells.find((entry) => entry.hour === hour)!;
+    expect(report.cells).toHaveLength(24);
+    expect(cell(9)).toMatchObject({ required: 2, scheduled: 1, gap: -1 });
+    expect(cell(10)).toMatchObject({ required: 3, scheduled: 1, gap: -2 });
+    expect(cell(11)).toMatchObject({ required: 3, scheduled: 0 });
+    expect(report.understaffedHours).toBe(3);
+  });
+
+  describe('findComplianceIssues', () => {
+    it('flags weekly overtime and split shifts', () => {
+      const week = ['02', '03', '04', '05', '06'].map((day) =>
+        shift(`s${day}`, 'ana', `2026-03-${day}T08:00`, `2026-03-${day}T17:30`)
+      );
+      const split = shift('split', 'ana', '2026-03-06T19:00', '2026-03-06T22:00', { breakMinutes: 0 });
+
+      const issues = findComplianceIssues([...week, split], [], employees, 'UTC');
+
+      expect(issues.map((issue) => [issue.type, issue.date])).toEqual([
+        ['OVERTIME', '2026-03-02'],
+        ['SPLIT_SHIFT', '2026-03-06']
+      ]);
+      expect(issues[0].detail).toBe('48h in the week of 2026-03-02 exceeds 40h');
+    });
+
+    it('flags missed breaks in schedules and punches', () => {
+      const issues = findComplianceIssues(
+        [shift('long', 'ana', '2026-03-02T08:00', '2026-03-02T16:00', { breakMinutes: 0 })],
+        [
+          punch('straight', 'ana', '2026-03-02T08:00', '2026-03-02T16:00'),
+          punch('before-lunch', 'ben', '2026-03-02T08:00', '2026-03-02T12:00'),
+          punch('after-lunch', 'ben', '2026-03-02T12:30', '2026-03-02T16:00')
+        ],
+        employees,
+        'UTC'
+      );
+
+      expect(issues.map((issue) => [issue.type, issue.source, issue.employeeName])).toEqual([
+        ['MISSED_BREAK', 'SCHEDULED', 'Ana'],
+        ['MISSED_BREAK', 'ACTUAL', 'Ana']
+      ]);
+    });
+
+    it('flags shifts published or added with less notice than required', () => {
+      const publishedAt = at('2026-02-20T00:00');
+      const issues = findComplianceIssues(
+        [
+          shift('early', 'ana', '2026-03-10T08:00', '2026-03-10T12:00', { publishedAt }),
+          shift('late', 'ana', '2026-03-02T08:00', '2026-03-02T12:00', { publishedAt }),
+          shift('added', 'ben', '2026-03-10T08:00', '2026-03-10T12:00', { publishedAt, createdAt: at('2026-03-05T00:00') }),
+          shift('draft', 'ben', '2026-03-03T08:00', '2026-03-03T12:00')
+        ],
+        [],
+        employees,
+        'UTC',
+        { ...DEFAULT_COMPLIANCE_RULES, noticeDays: 14 }
+      );
+
+      expect(issues.map((issue) => [issue.shiftId, issue.detail])).toEqual([
+        ['late', 'Published 10 days before the shift (requires 14)'],
+        ['added', 'Added 5 days before the shift (requires 14)']
+      ]);
+      expect(complianceToCsv(issues).split('\n')[1]).toBe(
+        'SHORT_NOTICE,SCHEDULED,Ana,2026-03-02,Published 10 days before the shift (requires 14),late,'
+      );
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { solveSchedule, timeOffWindow, type SolverEmployee, type SolverSlot } from '../schedulingSolverService';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+const slot = (id: string, start: string, end: string, overrides: Partial<SolverSlot> = {}): SolverSlot => {
+  const startDate = at(start);
+  const endDate = at(end);
+  const startMinutes = startDate.getUTCHours() * 60 + startDate.getUTCMinutes();
+  return {
+    id,
+    start: startDate,
+    end: endDate,
+    day: ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'][startDate.getUTCDay()],
+    startMinutes,
+    endMinutes: startMinutes + (endDate.getTime() - startDate.getTime()) / 60000,
+    ...overrides
+  };
+};
+
+const employee = (id: string, overrides: Partial<SolverEmployee> = {}): SolverEmployee => ({
+  employeePositionId: id,
+  name: id,
+  availability: [],
+  timeOff: [],
+  commitments: [],
+  ...overrides
+});
+
+describe('schedulingSolverService', () => {
+  describe('hard constraints', () => {
+    it('respects availability, time off and qualifications', () => {
+      // 2026-03-02 is a Monday
+      const slots = [slot('cook', '2026-03-02T08:00', '2026-03-02T16:00', { requiredStation: 'Grill' })];
+      const result = solveSchedule(slots, [
+        employee('evenings', {
+          stationName: 'Grill',
+          availability: [{ day: 'MONDAY', startMinutes: 16 * 60, endMinutes: 23 * 60, type: 'AVAILABLE' }]
+        }),
+        employee('away', { stationName: 'Grill', timeOff: [{ start: at('2026-03-02T00:00'), end: at('2026-03-03T00:00') }] }),
+        employee('server', { stationName: 'Floor' })
+      ]);
+
+      expect(result.assignments).toHaveLength(0);
+      expect(result.unfilled[0].rejected).toEqual({ unavailable: 1, timeOff: 1, unqualified: 1 });
+      expect(result.unfilled[0].reasons).toContain('1 employee on approved time off');
+    });
+
+    it('blocks the whole last day of a time off request', () => {
+      const slots = [
+        slot('mon', '2026-03-02T08:00', '2026-03-02T16:00'),
+        slot('tue', '2026-03-03T08:00', '2026-03-03T16:00')
+      ];
+      // A one-day request is stored with the same start and end date
+      const dayOff = timeOffWindow({ startDate: at('2026-03-02T00:00'), endDate: at('2026-03-02T00:00') });
+      const result = solveSchedule(slots, [employee('away', { timeOff: [dayOff] })]);
+
+      expect(result.assignments.map((assignment) => assignment.slotId)).toEqual(['tue']);
+      expect(result.unfilled[0].rejected).toEqual({ timeOff: 1 });
+    });
+
+    it('never exceeds weekly hours or books overlapping shifts', () => {
+      const slots = [
+        slot('mon', '2026-03-02T08:00', '2026-03-02T16:00'),
+        slot('mon-late', '2026-03-02T12:00', '2026-03-02T20:00'),
+        slot('tue', '2026-03-03T08:00', '2026-03-03T16:00')
+      ];
+      const result = solveSchedule(slots, [employee('solo', { maxHoursPerWeek: 12 })]);
+
+      expect(result.assignments).toHaveLength(1);
+      expect(result.unfilled).toHaveLength(2);
+      expect(result.summary.hoursByEmployee.solo).toBe(8);
+      expect(result.unfilled.flatMap((gap) => Object.keys(gap.rejected))).toEqual(expect.arrayContaining(['maxHours']));
+    });
+
+    it('enforces the minimum rest between shifts', () => {
+      const slots = [
+        slot('close', '2026-03-02T16:00', '2026-03-02T23:00'),
+        slot('open', '2026-03-03T05:00', '2026-03-03T12:00')
+      ];
+      const result = solveSchedule(slots, [employee('alex')], { minHoursBetweenShifts: 10 });
+
+      expect(result.assignments).toHaveLength(1);
+      expect(result.unfilled[0].rejected).toEqual({ rest: 1 });
+    });
+  });
+
+  it('moves an employee to cover a slot only they can fill', () => {
+    // Both slots have two candidates, so greedy gives "flex" the higher-priority morning
+    // and the bar goes unfilled until repair hands the morning to "backup"
+    const slots = [
+      slot('morning', '2026-03-02T08:00', '2026-03-02T16:00', { priority: 10, positionId: 'crew' }),
+      slot('bar', '2026-03-02T09:00', '2026-03-02T15:00', { requiredStation: 'Bar' })
+    ];
+    const result = solveSchedule(slots, [
+      employee('flex', { positionId: 'crew', stationName: 'Bar' }),
+      employee('backup', { positionId: 'crew' }),
+      employee('booked', { positionId: 'bartender', stationName: 'Bar', commitments: [{ start: at('2026-03-02T10:00'), end: at('2026-03-02T14:00') }] })
+    ]);
+
+    expect(result.summary.unfilled).toBe(0);
+    const bySlot = Object.fromEntries(result.assignments.map((assignment) => [assignment.slotId, assignment.employeePositionId]));
+    expect(bySlot).toEqual({ bar: 'flex', morning: 'backup' });
+  });
+
+  it('spreads hours across equally suited employees', () => {
+    const slots = [
+      slot('mon', '2026-03-02T08:00', '2026-03-02T16:00'),
+      slot('tue', '2026-03-03T08:00', '2026-03-03T16:00')
+    ];
+    const result = solveSchedule(slots, [employee('sam'), employee('busy', { committedHours: 32 }), employee('kim')]);
+
+    expect(result.summary.hoursByEmployee).toEqual({ sam: 8, kim: 8 });
+  });
+
+  it('prefers the cheaper employee for the same shift', () => {
+    const result = solveSchedule(
+      [slot('mon', '2026-03-02T08:00', '2026-03-02T16:00')],
+      [employee('pricey', { hourlyRate: 30 }), employee('cheap', { hourlyRate: 15 })]
+    );
+
+    expect(result.assignments[0].employeePositionId).toBe('cheap');
+    expect(result.summary.laborCost).toBe(120);
+  });
+
+  it('explains each assignment', () => {
+    const result = solveSchedule(
+      [slot('mon', '2026-03-02T08:00', '2026-03-02T16:00', { breakMinutes: 30 })],
+      [
+        employee('pat', {
+          hourlyRate: 20,
+          availability: [{ day: 'MONDAY', startMinutes: 7 * 60, endMinutes: 17 * 60, type: 'PREFERRED' }]
+        })
+      ],
+      { budgetLimit: 100 }
+    );
+
+    const [assignment] = result.assignments;
+    expect(assignment.hours).toBe(7.5);
+    expect(assignment.reasons).toContain('Prefers Monday 08:00–16:00');
+    expect(assignment.reasons).toContain('Only eligible employee');
+    expect(result.summary.overBudget).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { collectTeamSubtree } from '../schedulingTeamService';
+
+// Org chart: GM -> Kitchen Manager -> Cook; GM -> Floor Lead; Host has an explicit approval to Floor Lead
+const seats = [
+  { id: 'gm', positionId: 'pos-gm', reportsToPositionId: null },
+  { id: 'km', positionId: 'pos-km', reportsToPositionId: 'pos-gm' },
+  { id: 'cook-1', positionId: 'pos-cook', reportsToPositionId: 'pos-km' },
+  { id: 'cook-2', positionId: 'pos-cook', reportsToPositionId: 'pos-km' },
+  { id: 'lead', positionId: 'pos-lead', reportsToPositionId: 'pos-gm' },
+  { id: 'host', positionId: 'pos-host', reportsToPositionId: null }
+];
+
+describe('schedulingTeamService', () => {
+  it('follows position reporting lines transitively', () => {
+    expect(collectTeamSubtree('km', { approvals: [], seats }).sort()).toEqual(['cook-1', 'cook-2']);
+    expect(collectTeamSubtree('gm', { approvals: [], seats }).sort()).toEqual(['cook-1', 'cook-2', 'km', 'lead']);
+  });
+
+  it('includes employees linked through the approval hierarchy', () => {
+    const approvals = [{ managerPositionId: 'lead', employeePositionId: 'host' }];
+
+    expect(collectTeamSubtree('lead', { approvals, seats })).toEqual(['host']);
+    expect(collectTeamSubtree('gm', { approvals, seats })).toContain('host');
+  });
+
+  it('ignores inactive seats and never includes the manager', () => {
+    const approvals = [
+      { managerPositionId: 'cook-1', employeePositionId: 'km' },
+      { managerPositionId: 'km', employeePositionId: 'former-employee' }
+    ];
+
+    expect(collectTeamSubtree('km', { approvals, seats }).sort()).toEqual(['cook-1', 'cook-2']);
+    expect(collectTeamSubtree('cook-2', { approvals: [], seats })).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { isSharedDriveRole, resolveDriveRole, roleRank } from '../sharedDriveService';
+
+describe('sharedDriveService', () => {
+  it('ranks roles from viewer to manager', () => {
+    expect(roleRank('VIEWER')).toBeLessThan(roleRank('CONTRIBUTOR'));
+    expect(roleRank('CONTRIBUTOR')).toBeLessThan(roleRank('MANAGER'));
+    expect(roleRank(null)).toBeLessThan(roleRank('VIEWER'));
+  });
+
+  it('only accepts known roles', () => {
+    expect(isSharedDriveRole('MANAGER')).toBe(true);
+    expect(isSharedDriveRole('manager')).toBe(false);
+    expect(isSharedDriveRole(undefined)).toBe(false);
+  });
+
+  it('takes the strongest role from membership and departments', () => {
+    expect(resolveDriveRole({
+      isBusinessMember: true,
+      isBusinessAdmin: false,
+      memberRole: 'VIEWER',
+      departmentRoles: ['CONTRIBUTOR', 'VIEWER']
+    })).toBe('CONTRIBUTOR');
+    expect(resolveDriveRole({ isBusinessMember: true, isBusinessAdmin: false, departmentRoles: ['VIEWER'] })).toBe('VIEWER');
+    expect(resolveDriveRole({ isBusinessMember: true, isBusinessAdmin: false })).toBeNull();
+  });
+
+  it('gives business admins manager access and outsiders none', () => {
+    expect(resolveDriveRole({ isBusinessMember: true, isBusinessAdmin: true })).toBe('MANAGER');
+    expect(resolveDriveRole({ isBusinessMember: false, isBusinessAdmin: false, memberRole: 'MANAGER' })).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTemplateDays, planTemplateWeek, timeToMinutes } from '../shiftTemplateService';
+
+describe('shiftTemplateService', () => {
+  describe('normalizeTemplateDays', () => {
+    it('accepts abbreviations and any casing in week order', () => {
+      expect(normalizeTemplateDays(['fri', 'Monday', 'WED', 'mon'])).toEqual(['MONDAY', 'WEDNESDAY', 'FRIDAY']);
+    });
+
+    it('rejects unknown day names', () => {
+      expect(() => normalizeTemplateDays(['Funday'])).toThrow('Invalid day of week: Funday');
+      expect(() => normalizeTemplateDays(['M'])).toThrow('Invalid day of week: M');
+    });
+  });
+
+  it('converts HH:mm to minutes', () => {
+    expect(timeToMinutes('00:00')).toBe(0);
+    expect(timeToMinutes('17:45')).toBe(17 * 60 + 45);
+  });
+
+  describe('planTemplateWeek', () => {
+    const opening = {
+      id: 'tpl-open',
+      defaultStartTime: '08:00',
+      defaultEndTime: '16:00',
+      daysOfWeek: ['MONDAY', 'WEDNESDAY'],
+      requiredHeadcount: 2
+    };
+
+    it('creates one slot per scheduled day in the schedule timezone', () => {
+      // 2026-03-02 is a Monday; New York is UTC-5 before DST starts
+      const slots = planTemplateWeek([opening], '2026-03-02', 'America/New_York');
+
+      expect(slots).toHaveLength(2);
+      expect(slots.map((slot) => slot.date)).toEqual(['2026-03-02', '2026-03-04']);
+      expect(slots[0].startTime.toISOString()).toBe('2026-03-02T13:00:00.000Z');
+      expect(slots[0].endTime.toISOString()).toBe('2026-03-02T21:00:00.000Z');
+      expect(slots[0].headcount).toBe(2);
+    });
+
+    it('keeps wall-clock times across a DST change', () => {
+      const everyDay = { ...opening, daysOfWeek: [] };
+      const slots = planTemplateWeek([everyDay], '2026-03-05', 'America/New_York');
+
+      expect(slots).toHaveLength(7);
+      // DST starts on 2026-03-08, moving 08:00 local from 13:00Z to 12:00Z
+      expect(slots.find((slot) => slot.date === '2026-03-07')!.startTime.toISOString()).toBe('2026-03-07T13:00:00.000Z');
+      expect(slots.find((slot) => slot.date === '2026-03-09')!.startTime.toISOString()).toBe('2026-03-09T12:00:00.000Z');
+    });
+
+    it('ends overnight shifts on the following day', () => {
+      const closing = { ...opening, id: 'tpl-close', defaultStartTime: '22:00', defaultEndTime: '06:00', daysOfWeek: ['SUN'] };
+      const [slot] = planTemplateWeek([closing], '2026-03-02', 'UTC');
+
+      expect(slot.date).toBe('2026-03-08');
+      expect(slot.startTime.toISOString()).toBe('2026-03-08T22:00:00.000Z');
+      expect(slot.endTime.toISOString()).toBe('2026-03-09T06:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BYTES_PER_GB,
+  StorageQuotaExceededError,
+  StorageUsage,
+  fitsInQuota,
+  formatBytes,
+  storageLimitBytes,
+  sumBreakdown
+} from '../storageQuotaService';
+
+const breakdown = {
+  drive: 600,
+  trash: 100,
+  versions: 200,
+  chat: 50,
+  taskAttachments: 40,
+  profilePhotos: 10
+};
+
+describe('storageQuotaService', () => {
+  it('formats byte counts for messages', () => {
+    expect(formatBytes(0)).toBe('0 B');
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(10 * BYTES_PER_GB)).toBe('10 GB');
+  });
+
+  it('sums every bucket of the breakdown, trash and versions included', () => {
+    expect(sumBreakdown(breakdown)).toBe(1000);
+  });
+
+  it('converts tier limits to bytes, keeping unlimited as null', () => {
+    expect(storageLimitBytes(5)).toBe(5 * BYTES_PER_GB);
+    expect(storageLimitBytes(null)).toBeNull();
+    expect(storageLimitBytes(undefined)).toBeNull();
+  });
+
+  it('allows writes up to the limit exactly', () => {
+    expect(fitsInQuota(900, 100, 1000)).toBe(true);
+    expect(fitsInQuota(900, 101, 1000)).toBe(false);
+    expect(fitsInQuota(5 * BYTES_PER_GB, BYTES_PER_GB, null)).toBe(true);
+  });
+
+  it('describes the shortfall in the 413 response', () => {
+    const usage: StorageUsage = {
+      scope: { userId: 'user-1', businessId: null },
+      tier: 'free',
+      breakdown,
+      usedBytes: 1000,
+      limitBytes: 2048,
+      remainingBytes: 1048,
+      percentageUsed: 48.8
+    };
+    const error = new StorageQuotaExceededError(usage, 4096);
+
+    expect(error.status).toBe(413);
+    expect(error.message).toBe('Not enough storage: this upload needs 4 KB but only 1 KB of 2 KB is available');
+    expect(error.toResponse()).toMatchObject({ code: 'storage_quota_exceeded', incomingBytes: 4096, usage });
+  });
+});
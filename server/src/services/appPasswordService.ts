@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+
+const APP_PASSWORD_PREFIX = 'app_';
+const MAX_NAME_LENGTH = 80;
+export const MAX_APP_PASSWORDS_PER_USER = 20;
+// lastUsedAt is informational; don't write it on every request of a chatty client
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export class AppPasswordError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'AppPasswordError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function hashAppPassword(password: string): string {
+  return crypto.createHash('sha256').update(password.trim()).digest('hex');
+}
+
+/**
+ * New app password. Only the hash is stored; the password is shown to the user once.
+ */
+export function generateAppPassword() {
+  const password = `${APP_PASSWORD_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  return { password, tokenHash: hashAppPassword(password), tokenHint: password.slice(-4) };
+}
+
+/** Username and password from a Basic Authorization header, or null when absent or malformed */
+export function parseBasicCredentials(header: string | undefined): { username: string; password: string } | null {
+  if (!header) return null;
+  const match = /^Basic\s+([A-Za-z0-9+/=]+)\s*$/i.exec(header);
+  if (!match) return null;
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0) return null;
+  return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+const publicFields = { id: true, name: true, tokenHint: true, lastUsedAt: true, createdAt: true } as const;
+
+export async function listAppPasswords(userId: string) {
+  return prisma.appPassword.findMany({
+    where: { userId },
+    select: publicFields,
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+export async function createAppPassword(userId: string, name: unknown) {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new AppPasswordError(400, 'invalid_name', `Name must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+  const count = await prisma.appPassword.count({ where: { userId } });
+  if (count >= MAX_APP_PASSWORDS_PER_USER) {
+    throw new AppPasswordError(409, 'too_many', `You can have at most ${MAX_APP_PASSWORDS_PER_USER} app passwords`);
+  }
+
+  const { password, tokenHash, tokenHint } = generateAppPassword();
+  const appPassword = await prisma.appPassword.create({
+    data: { userId, name: trimmed, tokenHash, tokenHint },
+    select: publicFields
+  });
+  return { appPassword, password };
+}
+
+export async function revokeAppPassword(userId: string, id: string) {
+  const deleted = await prisma.appPassword.deleteMany({ where: { id, userId } });
+  if (deleted.count === 0) throw new AppPasswordError(404, 'not_found', 'App password not found');
+}
+
+/**
+ * The user an app password belongs to. The username must be that user's email, so a
+ * password pasted into the wrong account fails instead of silently working.
+ */
+export async function authenticateAppPassword(username: string, password: string) {
+  const appPassword = await prisma.appPassword.findUnique({
+    where: { tokenHash: hashAppPassword(password) },
+    include: { user: { select: { id: true, email: true, name: true, role: true } } }
+  });
+  if (!appPassword || appPassword.user.email.toLowerCase() !== username.trim().toLowerCase()) {
+    return null;
+  }
+
+  const now = new Date();
+  if (!appPassword.lastUsedAt || now.getTime() - appPassword.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.appPassword.update({ where: { id: appPassword.id }, data: { lastUsedAt: now } });
+  }
+  return appPassword.user;
+}
@@ -0,0 +1,727 @@
+import { CalendarContextType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { createRsvpToken, validateRsvpToken } from '../utils/tokenUtils';
+import { toWallClock } from '../utils/timezone';
+import { escapeIcsText } from '../utils/ics';
+import { sendCalendarCancelEmail, sendCalendarInviteEmail, sendCalendarUpdateEmail } from './emailService';
+import {
+  FreeBusyError,
+  Interval,
+  WorkingHoursRange,
+  eventBusy,
+  normalizeWorkingHours,
+  personBusy,
+  workingIntervals
+} from './calendarFreeBusyService';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_SLOT_WINDOW_DAYS = 31;
+const MAX_NAME_LENGTH = 120;
+const MAX_DURATION_MINUTES = 8 * 60;
+const MAX_BUFFER_MINUTES = 4 * 60;
+const MAX_NOTICE_MINUTES = 30 * 24 * 60;
+const MAX_ADVANCE_DAYS = 365;
+const MAX_PER_DAY = 100;
+const MAX_QUESTIONS = 10;
+const MAX_QUESTION_LENGTH = 200;
+const MAX_ANSWER_LENGTH = 2000;
+// Slots start this often at most, or every `durationMinutes` for shorter appointments
+const MAX_SLOT_STEP_MINUTES = 30;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Raised for appointment requests that can't be served; `status` is the HTTP status to answer with.
+ */
+export class AppointmentBookingError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'AppointmentBookingError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface IntakeQuestion {
+  id: string;
+  label: string;
+  required: boolean;
+}
+
+/** The parts of an appointment type that decide which slots are open */
+export interface SlotRules {
+  durationMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  maxPerDay: number | null;
+  timezone: string;
+}
+
+type AppointmentTypeRow = SlotRules & {
+  id: string;
+  contextType: CalendarContextType;
+  contextId: string;
+  hostId: string;
+  calendarId: string;
+  name: string;
+  description: string | null;
+  location: string | null;
+  minNoticeMinutes: number;
+  maxAdvanceDays: number;
+  availability: unknown;
+  questions: unknown;
+  isActive: boolean;
+};
+
+type BookingRow = {
+  id: string;
+  appointmentTypeId: string;
+  eventId: string;
+  guestName: string;
+  guestEmail: string;
+  answers: unknown;
+  status: string;
+  event: { id: string; title: string; location: string | null; startAt: Date; endAt: Date };
+  appointmentType: AppointmentTypeRow;
+};
+
+/** The calendar day a time falls on in `timeZone`, as YYYY-MM-DD */
+export function localDay(date: Date, timeZone: string): string {
+  return toWallClock(date, timeZone).toISOString().slice(0, 10);
+}
+
+/**
+ * Open slots between `earliest` and `latest` (slot starts). Slots are laid out from the start
+ * of each availability period, must end inside it, and must stay clear of busy time by the
+ * buffers. Days that already have `maxPerDay` bookings (counted in `bookedPerDay` by
+ * `localDay`) are full.
+ */
+export function openSlots(
+  rules: SlotRules,
+  availability: Interval[],
+  busy: Interval[],
+  earliest: Date,
+  latest: Date,
+  bookedPerDay: Map<string, number> = new Map()
+): Interval[] {
+  const durationMs = rules.durationMinutes * MINUTE_MS;
+  const stepMs = Math.min(rules.durationMinutes, MAX_SLOT_STEP_MINUTES) * MINUTE_MS;
+  const slots: Interval[] = [];
+  for (const period of availability) {
+    for (let time = period.startAt.getTime(); time + durationMs <= period.endAt.getTime(); time += stepMs) {
+      const slot = { startAt: new Date(time), endAt: new Date(time + durationMs) };
+      if (slot.startAt < earliest || slot.startAt >= latest) continue;
+      const paddedStart = time - rules.bufferBeforeMinutes * MINUTE_MS;
+      const paddedEnd = time + durationMs + rules.bufferAfterMinutes * MINUTE_MS;
+      if (busy.some((taken) => taken.startAt.getTime() < paddedEnd && taken.endAt.getTime() > paddedStart)) continue;
+      if (rules.maxPerDay && (bookedPerDay.get(localDay(slot.startAt, rules.timezone)) ?? 0) >= rules.maxPerDay) continue;
+      slots.push(slot);
+    }
+  }
+  return slots;
+}
+
+function boundedInt(value: unknown, min: number, max: number, field: string): number {
+  const number = Number(value);
+  if (value === null || value === '' || !Number.isInteger(number) || number < min || number > max) {
+    throw new AppointmentBookingError(400, 'invalid_field', `${field} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' ? value.trim() || null : null;
+}
+
+function normalizeQuestions(value: unknown): IntakeQuestion[] {
+  if (!Array.isArray(value) || value.length > MAX_QUESTIONS) {
+    throw new AppointmentBookingError(400, 'invalid_questions', `questions must be a list of at most ${MAX_QUESTIONS}`);
+  }
+  const questions = value.map((question: { id?: unknown; label?: unknown; required?: unknown }, index) => {
+    const label = typeof question?.label === 'string' ? question.label.trim() : '';
+    if (!label || label.length > MAX_QUESTION_LENGTH) {
+      throw new AppointmentBookingError(400, 'invalid_questions', `Question labels must be 1-${MAX_QUESTION_LENGTH} characters`);
+    }
+    const id = typeof question.id === 'string' && question.id.trim() ? question.id.trim() : `q${index + 1}`;
+    return { id, label, required: question.required === true };
+  });
+  if (new Set(questions.map((question) => question.id)).size !== questions.length) {
+    throw new AppointmentBookingError(400, 'invalid_questions', 'Question ids must be unique');
+  }
+  return questions;
+}
+
+/** Validates create/update input; with `partial`, absent fields are left out */
+export function normalizeAppointmentTypeInput(input: Record<string, unknown>, partial = false): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  const has = (field: string) => !partial || input[field] !== undefined;
+
+  if (has('name')) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new AppointmentBookingError(400, 'invalid_name', `Name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+    data.name = name;
+  }
+  for (const field of ['description', 'location'] as const) {
+    if (has(field)) data[field] = optionalText(input[field]);
+  }
+  if (has('durationMinutes')) data.durationMinutes = boundedInt(input.durationMinutes, 5, MAX_DURATION_MINUTES, 'durationMinutes');
+  for (const field of ['bufferBeforeMinutes', 'bufferAfterMinutes'] as const) {
+    if (input[field] !== undefined) data[field] = boundedInt(input[field], 0, MAX_BUFFER_MINUTES, field);
+  }
+  if (input.minNoticeMinutes !== undefined) {
+    data.minNoticeMinutes = boundedInt(input.minNoticeMinutes, 0, MAX_NOTICE_MINUTES, 'minNoticeMinutes');
+  }
+  if (input.maxAdvanceDays !== undefined) {
+    data.maxAdvanceDays = boundedInt(input.maxAdvanceDays, 1, MAX_ADVANCE_DAYS, 'maxAdvanceDays');
+  }
+  if (input.maxPerDay !== undefined) {
+    data.maxPerDay = input.maxPerDay === null || input.maxPerDay === ''
+      ? null
+      : boundedInt(input.maxPerDay, 1, MAX_PER_DAY, 'maxPerDay');
+  }
+  if (has('timezone') || has('availability')) {
+    try {
+      // Availability rules have the same shape as working hours
+      const rules = normalizeWorkingHours({ timezone: input.timezone, hours: input.availability });
+      data.timezone = rules.timezone;
+      data.availability = rules.hours as unknown as Prisma.InputJsonValue;
+    } catch (err) {
+      if (!(err instanceof FreeBusyError)) throw err;
+      throw new AppointmentBookingError(400, err.code === 'invalid_timezone' ? err.code : 'invalid_availability', err.message);
+    }
+  }
+  if (input.questions !== undefined) data.questions = normalizeQuestions(input.questions) as unknown as Prisma.InputJsonValue;
+  if (input.isActive !== undefined) data.isActive = Boolean(input.isActive);
+  return data;
+}
+
+function hasControlCharacters(value: string): boolean {
+  return Array.from(value).some((char) => char < ' ' || char === '\u007f');
+}
+
+/** Validates the name and email a guest books under */
+export function normalizeGuest(input: Record<string, unknown>): { guestName: string; guestEmail: string } {
+  const guestName = typeof input.name === 'string' ? input.name.trim() : '';
+  const guestEmail = typeof input.email === 'string' ? input.email.trim() : '';
+  if (!guestName || guestName.length > MAX_NAME_LENGTH || hasControlCharacters(guestName)) {
+    throw new AppointmentBookingError(400, 'invalid_name', `Name must be 1-${MAX_NAME_LENGTH} characters on a single line`);
+  }
+  if (!EMAIL_PATTERN.test(guestEmail)) {
+    throw new AppointmentBookingError(400, 'invalid_email', 'Please enter a valid email address');
+  }
+  return { guestName, guestEmail };
+}
+
+/** Checks a guest's intake answers against the questions and keeps only the known ones */
+export function normalizeAnswers(questions: IntakeQuestion[], input: unknown): Record<string, string> {
+  const given = input && typeof input === 'object' ? input as Record<string, unknown> : {};
+  const answers: Record<string, string> = {};
+  for (const question of questions) {
+    const value = typeof given[question.id] === 'string' ? (given[question.id] as string).trim() : '';
+    if (!value && question.required) {
+      throw new AppointmentBookingError(400, 'answer_required', `Please answer "${question.label}"`);
+    }
+    if (value.length > MAX_ANSWER_LENGTH) {
+      throw new AppointmentBookingError(400, 'answer_too_long', `Answers can be at most ${MAX_ANSWER_LENGTH} characters`);
+    }
+    if (value) answers[question.id] = value;
+  }
+  return answers;
+}
+
+// ---------------------------------------------------------------------------
+// Managing appointment types
+// ---------------------------------------------------------------------------
+
+/** A user manages their own page; business admins and managers manage the business page */
+async function canManageContext(userId: string, contextType: CalendarContextType, contextId: string): Promise<boolean> {
+  if (contextType === 'PERSONAL') return contextId === userId;
+  const membership = await prisma.businessMember.findFirst({
+    where: { businessId: contextId, userId, isActive: true },
+    select: { role: true, canManage: true }
+  });
+  return Boolean(membership && (membership.role !== 'EMPLOYEE' || membership.canManage));
+}
+
+async function assertManager(userId: string, contextType: CalendarContextType, contextId: string) {
+  if (!(await canManageContext(userId, contextType, contextId))) {
+    throw new AppointmentBookingError(403, 'forbidden', 'Insufficient permissions: only the page owner or business managers can manage appointment types');
+  }
+}
+
+function parseContext(userId: string, input: Record<string, unknown>): { contextType: CalendarContextType; contextId: string } {
+  if (input.contextType === 'BUSINESS') {
+    if (typeof input.contextId !== 'string' || !input.contextId) {
+      throw new AppointmentBookingError(400, 'invalid_business', 'contextId is required for business appointment types');
+    }
+    return { contextType: 'BUSINESS', contextId: input.contextId };
+  }
+  return { contextType: 'PERSONAL', contextId: userId };
+}
+
+/** A business host must be an active member; a personal page is always hosted by its owner */
+async function resolveHost(contextType: CalendarContextType, contextId: string, hostId: unknown, fallback: string): Promise<string> {
+  if (contextType === 'PERSONAL') return contextId;
+  const candidate = typeof hostId === 'string' && hostId ? hostId : fallback;
+  const member = await prisma.businessMember.findFirst({
+    where: { businessId: contextId, userId: candidate, isActive: true },
+    select: { id: true }
+  });
+  if (!member) throw new AppointmentBookingError(400, 'invalid_host', 'The host must be an active member of the business');
+  return candidate;
+}
+
+/** The calendar bookings go on: the one asked for if it belongs to the page, else the primary one */
+async function resolveCalendar(contextType: CalendarContextType, contextId: string, calendarId: unknown): Promise<string> {
+  const calendar = await prisma.calendar.findFirst({
+    where: {
+      contextType,
+      contextId,
+      ...(typeof calendarId === 'string' && calendarId ? { id: calendarId } : {})
+    },
+    orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+    select: { id: true }
+  });
+  if (!calendar) throw new AppointmentBookingError(400, 'invalid_calendar', 'Bookings need a calendar that belongs to this page');
+  return calendar.id;
+}
+
+async function getTypeOrThrow(typeId: string): Promise<AppointmentTypeRow> {
+  const type = await prisma.appointmentType.findUnique({ where: { id: typeId } });
+  if (!type) throw new AppointmentBookingError(404, 'appointment_type_not_found', 'Appointment type not found');
+  return type;
+}
+
+export async function listAppointmentTypes(userId: string, input: { contextType?: unknown; contextId?: unknown }) {
+  const { contextType, contextId } = parseContext(userId, input);
+  await assertManager(userId, contextType, contextId);
+  return prisma.appointmentType.findMany({
+    where: { contextType, contextId },
+    orderBy: [{ isActive: 'desc' }, { name: 'asc' }]
+  });
+}
+
+export async function createAppointmentType(userId: string, input: Record<string, unknown>) {
+  const { contextType, contextId } = parseContext(userId, input);
+  await assertManager(userId, contextType, contextId);
+  const data = normalizeAppointmentTypeInput(input);
+  return prisma.appointmentType.create({
+    data: {
+      ...data,
+      contextType,
+      contextId,
+      hostId: await resolveHost(contextType, contextId, input.hostId, userId),
+      calendarId: await resolveCalendar(contextType, contextId, input.calendarId),
+      createdById: userId
+    } as Prisma.AppointmentTypeUncheckedCreateInput
+  });
+}
+
+export async function updateAppointmentType(userId: string, typeId: string, input: Record<string, unknown>) {
+  const type = await getTypeOrThrow(typeId);
+  await assertManager(userId, type.contextType, type.contextId);
+  // Time zone and availability are validated together, so an update to one keeps the other
+  const scheduleChanged = input.timezone !== undefined || input.availability !== undefined;
+  const data = normalizeAppointmentTypeInput(
+    scheduleChanged
+      ? { timezone: type.timezone, availability: type.availability, ...input }
+      : input,
+    true
+  );
+  if (input.hostId !== undefined) data.hostId = await resolveHost(type.contextType, type.contextId, input.hostId, type.hostId);
+  if (input.calendarId !== undefined) data.calendarId = await resolveCalendar(type.contextType, type.contextId, input.calendarId);
+  return prisma.appointmentType.update({ where: { id: typeId }, data });
+}
+
+/** Types are deactivated rather than deleted so existing bookings keep their details */
+export async function archiveAppointmentType(userId: string, typeId: string) {
+  const type = await getTypeOrThrow(typeId);
+  await assertManager(userId, type.contextType, type.contextId);
+  return prisma.appointmentType.update({ where: { id: typeId }, data: { isActive: false } });
+}
+
+/** Bookings that haven't ended yet, soonest first */
+export async function listAppointmentBookings(userId: string, typeId: string) {
+  const type = await getTypeOrThrow(typeId);
+  await assertManager(userId, type.contextType, type.contextId);
+  const bookings: Array<Omit<BookingRow, 'appointmentType'>> = await prisma.appointmentBooking.findMany({
+    where: { appointmentTypeId: typeId, event: { endAt: { gte: new Date() } } },
+    include: { event: { select: { id: true, title: true, location: true, startAt: true, endAt: true } } },
+    orderBy: { event: { startAt: 'asc' } }
+  });
+  return bookings.map((booking) => ({
+    id: booking.id,
+    status: booking.status,
+    guestName: booking.guestName,
+    guestEmail: booking.guestEmail,
+    answers: booking.answers,
+    eventId: booking.eventId,
+    startAt: booking.event.startAt,
+    endAt: booking.event.endAt
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Public booking pages
+// ---------------------------------------------------------------------------
+
+function toPublicType(type: AppointmentTypeRow) {
+  return {
+    id: type.id,
+    name: type.name,
+    description: type.description,
+    location: type.location,
+    durationMinutes: type.durationMinutes,
+    timezone: type.timezone,
+    questions: type.questions as IntakeQuestion[]
+  };
+}
+
+function toPublicBooking(booking: BookingRow) {
+  return {
+    id: booking.id,
+    status: booking.status,
+    guestName: booking.guestName,
+    guestEmail: booking.guestEmail,
+    answers: booking.answers as Record<string, string>,
+    startAt: booking.event.startAt,
+    endAt: booking.event.endAt,
+    appointmentType: toPublicType(booking.appointmentType)
+  };
+}
+
+/** A page lists the owner's active appointment types; owners without any have no page */
+export async function getBookingPage(ownerType: string, ownerId: string) {
+  const contextType = ownerType === 'user' ? 'PERSONAL' : ownerType === 'business' ? 'BUSINESS' : null;
+  const types: AppointmentTypeRow[] = contextType
+    ? await prisma.appointmentType.findMany({
+        where: { contextType, contextId: ownerId, isActive: true },
+        orderBy: { name: 'asc' }
+      })
+    : [];
+  const owner: { name: string | null; logo?: string | null } | null = types.length === 0
+    ? null
+    : contextType === 'PERSONAL'
+      ? await prisma.user.findUnique({ where: { id: ownerId }, select: { name: true } })
+      : await prisma.business.findUnique({ where: { id: ownerId }, select: { name: true, logo: true } });
+  if (!owner) throw new AppointmentBookingError(404, 'booking_page_not_found', 'Booking page not found');
+  return {
+    owner: { type: ownerType, id: ownerId, name: owner.name, logo: owner.logo ?? null },
+    appointmentTypes: types.map(toPublicType)
+  };
+}
+
+async function getActiveType(typeId: string): Promise<AppointmentTypeRow> {
+  const type = await prisma.appointmentType.findUnique({ where: { id: typeId } });
+  if (!type || !type.isActive) throw new AppointmentBookingError(404, 'appointment_type_not_found', 'Appointment type not found');
+  return type;
+}
+
+function parseWindow(input: { start?: unknown; end?: unknown }): { start: Date; end: Date } {
+  const start = new Date(String(input.start));
+  const end = new Date(String(input.end));
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    throw new AppointmentBookingError(400, 'invalid_time_range', 'start and end must be valid dates with start before end');
+  }
+  if (end.getTime() - start.getTime() > MAX_SLOT_WINDOW_DAYS * DAY_MS) {
+    throw new AppointmentBookingError(400, 'range_too_large', `Slots can be listed for at most ${MAX_SLOT_WINDOW_DAYS} days`);
+  }
+  return { start, end };
+}
+
+/**
+ * Open slots for a type starting in [start, end), within its notice and advance limits.
+ * `exclude` leaves a booking being rescheduled out of the host's busy time and day counts.
+ */
+async function findOpenSlots(
+  type: AppointmentTypeRow,
+  start: Date,
+  end: Date,
+  exclude?: { bookingId: string; eventId: string },
+  db: Prisma.TransactionClient = prisma
+): Promise<Interval[]> {
+  const now = Date.now();
+  const earliest = new Date(Math.max(start.getTime(), now + type.minNoticeMinutes * MINUTE_MS));
+  const latest = new Date(Math.min(end.getTime(), now + type.maxAdvanceDays * DAY_MS));
+  if (latest <= earliest) return [];
+
+  // Whole local days around the window, so slots line up with the availability rules
+  const from = new Date(earliest.getTime() - DAY_MS);
+  const to = new Date(latest.getTime() + DAY_MS);
+  const host = await db.user.findUnique({ where: { id: type.hostId }, select: { id: true, email: true } });
+  if (!host) return [];
+  const [hostBusy, calendarBusy, bookings] = await Promise.all([
+    personBusy(host, from, to, exclude?.eventId, db),
+    eventBusy({ calendarId: type.calendarId, ...(exclude ? { NOT: { id: exclude.eventId } } : {}) }, from, to, db),
+    type.maxPerDay
+      ? db.appointmentBooking.findMany({
+          where: {
+            appointmentTypeId: type.id,
+            status: 'CONFIRMED',
+            ...(exclude ? { id: { not: exclude.bookingId } } : {}),
+            event: { startAt: { gte: from, lt: to } }
+          },
+          select: { event: { select: { startAt: true } } }
+        })
+      : Promise.resolve([])
+  ]);
+
+  const bookedPerDay = new Map<string, number>();
+  for (const booking of bookings as Array<{ event: { startAt: Date } }>) {
+    const day = localDay(booking.event.startAt, type.timezone);
+    bookedPerDay.set(day, (bookedPerDay.get(day) ?? 0) + 1);
+  }
+  const availability = workingIntervals(
+    { timezone: type.timezone, hours: type.availability as WorkingHoursRange[] },
+    from,
+    to
+  );
+  return openSlots(type, availability, [...hostBusy, ...calendarBusy], earliest, latest, bookedPerDay);
+}
+
+/**
+ * Runs `book` holding row locks on all of the host's appointment types, so checking a slot
+ * and writing the booking can't interleave with another booking of the host's time or of the
+ * same type's daily limit.
+ */
+async function withHostLock<T>(hostId: string, book: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM appointment_types WHERE "hostId" = ${hostId} ORDER BY id FOR UPDATE`;
+    return book(tx);
+  });
+}
+
+/** Re-checks a slot inside the `withHostLock` transaction that books it */
+async function assertSlotOpen(
+  tx: Prisma.TransactionClient,
+  type: AppointmentTypeRow,
+  startAt: Date,
+  exclude?: { bookingId: string; eventId: string }
+) {
+  const slots = await findOpenSlots(type, startAt, new Date(startAt.getTime() + MINUTE_MS), exclude, tx);
+  if (!slots.some((slot) => slot.startAt.getTime() === startAt.getTime())) {
+    throw new AppointmentBookingError(409, 'slot_unavailable', 'That time is no longer available. Please pick another slot.');
+  }
+}
+
+export async function getPublicSlots(typeId: string, input: { start?: unknown; end?: unknown }) {
+  const type = await getActiveType(typeId);
+  const { start, end } = parseWindow(input);
+  return { timezone: type.timezone, durationMinutes: type.durationMinutes, slots: await findOpenSlots(type, start, end) };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function manageUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || process.env.FRONTEND_URL || 'http://localhost:3000'}/book/manage/${token}`;
+}
+
+function icsTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+}
+
+function bookingIcs(
+  method: 'REQUEST' | 'CANCEL',
+  event: { id: string; title: string; location: string | null; startAt: Date; endAt: Date },
+  host: { name: string | null; email: string },
+  guestEmail: string
+): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `METHOD:${method}`,
+    'PRODID:-//Vssyl//Calendar//EN',
+    'BEGIN:VEVENT',
+    `UID:${event.id}`,
+    `DTSTAMP:${icsTime(new Date())}`,
+    // Bumped on every change so calendar apps replace the earlier copy
+    `SEQUENCE:${Math.floor(Date.now() / 1000)}`,
+    `DTSTART:${icsTime(event.startAt)}`,
+    `DTEND:${icsTime(event.endAt)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    `ORGANIZER${host.name ? `;CN=${escapeIcsText(host.name)}` : ''}:MAILTO:${host.email}`,
+    `ATTENDEE;ROLE=REQ-PARTICIPANT:MAILTO:${guestEmail}`,
+    ...(method === 'CANCEL' ? ['STATUS:CANCELLED'] : []),
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\r\n');
+}
+
+type BookingNotice = 'booked' | 'rescheduled' | 'canceled';
+
+/** Tells the guest (with their manage link) and the host; mail failures don't undo the booking */
+async function notifyBooking(notice: BookingNotice, booking: BookingRow, token: string | null) {
+  try {
+    const host = await prisma.user.findUnique({ where: { id: booking.appointmentType.hostId }, select: { name: true, email: true } });
+    if (!host) return;
+    const { timezone } = booking.appointmentType;
+    const when = `${booking.event.startAt.toLocaleString('en-US', { timeZone: timezone, dateStyle: 'full', timeStyle: 'short' })} (${timezone})`;
+    const title = escapeHtml(booking.appointmentType.name);
+    const method = notice === 'canceled' ? 'CANCEL' : 'REQUEST';
+    const send = notice === 'booked' ? sendCalendarInviteEmail : notice === 'rescheduled' ? sendCalendarUpdateEmail : sendCalendarCancelEmail;
+    const subjects: Record<BookingNotice, string> = { booked: 'Confirmed', rescheduled: 'Rescheduled', canceled: 'Canceled' };
+    const manage = token && notice !== 'canceled'
+      ? `<p><a href="${manageUrl(token)}">Reschedule or cancel</a></p>`
+      : '';
+
+    await send({
+      toEmail: booking.guestEmail,
+      subject: `${subjects[notice]}: ${booking.appointmentType.name}`,
+      bodyHtml: `<p>Your appointment <strong>${title}</strong> with ${escapeHtml(host.name || host.email)} is ${notice} for ${when}.</p>${manage}`,
+      icsContent: bookingIcs(method, booking.event, host, booking.guestEmail)
+    });
+    await send({
+      toEmail: host.email,
+      subject: `${subjects[notice]}: ${booking.event.title}`,
+      bodyHtml: `<p><strong>${escapeHtml(booking.guestName)}</strong> (${escapeHtml(booking.guestEmail)}) ${notice} <strong>${title}</strong> for ${when}.</p>`,
+      icsContent: bookingIcs(method, booking.event, host, booking.guestEmail)
+    });
+  } catch (err) {
+    await logger.error('Failed to send appointment booking email', {
+      operation: 'appointment_booking_email',
+      bookingId: booking.id,
+      error: {
+        message: err instanceof Error ? err.message : 'Unknown error',
+        stack: err instanceof Error ? err.stack : undefined
+      }
+    });
+  }
+}
+
+function bookingDescription(type: AppointmentTypeRow, guest: { name: string; email: string }, answers: Record<string, string>): string {
+  const questions = type.questions as IntakeQuestion[];
+  return [
+    `Booked by ${guest.name} (${guest.email})`,
+    ...questions.filter((question) => answers[question.id]).map((question) => `${question.label}: ${answers[question.id]}`),
+    ...(type.description ? ['', type.description] : [])
+  ].join('\n');
+}
+
+const bookingInclude = {
+  event: { select: { id: true, title: true, location: true, startAt: true, endAt: true } },
+  appointmentType: true
+} as const;
+
+/**
+ * Books a slot for a guest: creates the event on the type's calendar with the host and guest
+ * as attendees, and a token the guest uses to reschedule or cancel until the appointment ends.
+ */
+export async function bookAppointment(typeId: string, input: Record<string, unknown>) {
+  const type = await getActiveType(typeId);
+  const { guestName, guestEmail } = normalizeGuest(input);
+  const answers = normalizeAnswers(type.questions as IntakeQuestion[], input.answers);
+  const startAt = new Date(String(input.startAt));
+  if (Number.isNaN(startAt.getTime())) {
+    throw new AppointmentBookingError(400, 'invalid_time_range', 'startAt must be a valid date');
+  }
+
+  const host = await prisma.user.findUnique({ where: { id: type.hostId }, select: { email: true } });
+  const calendar = await prisma.calendar.findUnique({ where: { id: type.calendarId }, select: { defaultReminderMinutes: true } });
+  const endAt = new Date(startAt.getTime() + type.durationMinutes * MINUTE_MS);
+  const booking: BookingRow = await withHostLock(type.hostId, async (tx) => {
+    await assertSlotOpen(tx, type, startAt);
+    return tx.appointmentBooking.create({
+      data: {
+        appointmentType: { connect: { id: type.id } },
+        guestName,
+        guestEmail,
+        answers: answers as Prisma.InputJsonValue,
+        event: {
+          create: {
+            calendar: { connect: { id: type.calendarId } },
+            title: `${type.name} with ${guestName}`,
+            description: bookingDescription(type, { name: guestName, email: guestEmail }, answers),
+            location: type.location,
+            startAt,
+            endAt,
+            timezone: type.timezone,
+            createdById: type.hostId,
+            attendees: {
+              create: [
+                { userId: type.hostId, email: host?.email, response: 'ACCEPTED' },
+                { email: guestEmail, response: 'ACCEPTED' }
+              ]
+            },
+            reminders: { create: [{ method: 'APP', minutesBefore: calendar?.defaultReminderMinutes ?? 10 }] }
+          }
+        }
+      },
+      include: bookingInclude
+    });
+  });
+
+  const token = await createRsvpToken(booking.eventId, guestEmail, 'ACCEPTED', endAt);
+  await notifyBooking('booked', booking, token);
+  return { booking: toPublicBooking(booking), manageToken: token };
+}
+
+async function getBookingByToken(token: string): Promise<BookingRow> {
+  const rsvpToken = await validateRsvpToken(token);
+  const booking: BookingRow | null = rsvpToken
+    ? await prisma.appointmentBooking.findUnique({ where: { eventId: rsvpToken.eventId }, include: bookingInclude })
+    : null;
+  if (!booking || booking.guestEmail.toLowerCase() !== rsvpToken!.attendeeEmail.toLowerCase()) {
+    throw new AppointmentBookingError(404, 'booking_not_found', 'This booking link is invalid or has expired');
+  }
+  return booking;
+}
+
+export async function getManagedBooking(token: string) {
+  return toPublicBooking(await getBookingByToken(token));
+}
+
+/** Open slots for moving a booking; its own time counts as free */
+export async function getRescheduleSlots(token: string, input: { start?: unknown; end?: unknown }) {
+  const booking = await getBookingByToken(token);
+  const { start, end } = parseWindow(input);
+  const slots = await findOpenSlots(booking.appointmentType, start, end, { bookingId: booking.id, eventId: booking.eventId });
+  return { timezone: booking.appointmentType.timezone, durationMinutes: booking.appointmentType.durationMinutes, slots };
+}
+
+export async function rescheduleBooking(token: string, input: { startAt?: unknown }) {
+  const booking = await getBookingByToken(token);
+  if (booking.status === 'CANCELED') {
+    throw new AppointmentBookingError(409, 'booking_canceled', 'This booking has been canceled');
+  }
+  const startAt = new Date(String(input.startAt));
+  if (Number.isNaN(startAt.getTime())) {
+    throw new AppointmentBookingError(400, 'invalid_time_range', 'startAt must be a valid date');
+  }
+
+  const endAt = new Date(startAt.getTime() + booking.appointmentType.durationMinutes * MINUTE_MS);
+  const event = await withHostLock(booking.appointmentType.hostId, async (tx) => {
+    await assertSlotOpen(tx, booking.appointmentType, startAt, { bookingId: booking.id, eventId: booking.eventId });
+    const moved = await tx.event.update({
+      where: { id: booking.eventId },
+      data: { startAt, endAt },
+      select: bookingInclude.event.select
+    });
+    // The manage link stays valid until the appointment ends
+    await tx.rsvpToken.updateMany({ where: { eventId: booking.eventId }, data: { expiresAt: endAt } });
+    return moved;
+  });
+  const moved = { ...booking, event };
+  await notifyBooking('rescheduled', moved, token);
+  return toPublicBooking(moved);
+}
+
+export async function cancelBooking(token: string) {
+  const booking = await getBookingByToken(token);
+  if (booking.status === 'CANCELED') return toPublicBooking(booking);
+  await prisma.$transaction([
+    prisma.appointmentBooking.update({ where: { id: booking.id }, data: { status: 'CANCELED', canceledAt: new Date() } }),
+    prisma.event.update({ where: { id: booking.eventId }, data: { status: 'CANCELED' } })
+  ]);
+  const canceled = { ...booking, status: 'CANCELED' };
+  await notifyBooking('canceled', canceled, null);
+  return toPublicBooking(canceled);
+}
@@ -636,6 +636,15 @@ export class BusinessFrontPageService {
         visible: true,
         order: 5,
         settings: {}
+      },
+      {
+        widgetType: 'job-openings',
+        title: 'Job Openings',
+        description: 'Open positions from HR Recruitment',
+        position: { x: 0, y: 8, width: 12, height: 2 },
+        visible: true,
+        order: 6,
+        settings: {}
       }
     ];
   }
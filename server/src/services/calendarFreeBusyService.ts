@@ -0,0 +1,354 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { fromWallClock, normalizeTimeZone, toWallClock } from '../utils/timezone';
+import { expandEvents, inRangeWhere } from './calendarSeriesService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 62;
+const MAX_PEOPLE = 50;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+
+/**
+ * Raised for free/busy requests that can't be served; `status` is the HTTP status to answer with.
+ */
+export class FreeBusyError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'FreeBusyError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface Interval {
+  startAt: Date;
+  endAt: Date;
+}
+
+/** A working period on one weekday (0 = Sunday), as local "HH:MM" times; an end at or before the start runs past midnight */
+export interface WorkingHoursRange {
+  day: number;
+  start: string;
+  end: string;
+}
+
+export interface WorkingHours {
+  timezone: string;
+  hours: WorkingHoursRange[];
+}
+
+/** Sorts intervals and merges the ones that overlap or touch */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .filter((interval) => interval.endAt > interval.startAt)
+    .sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.startAt <= last.endAt) {
+      if (interval.endAt > last.endAt) last.endAt = interval.endAt;
+    } else {
+      merged.push({ startAt: interval.startAt, endAt: interval.endAt });
+    }
+  }
+  return merged;
+}
+
+/** The gaps in [start, end) not covered by any of the intervals */
+export function invertIntervals(intervals: Interval[], start: Date, end: Date): Interval[] {
+  const gaps: Interval[] = [];
+  let cursor = start;
+  for (const interval of mergeIntervals(intervals)) {
+    if (interval.endAt <= cursor) continue;
+    if (interval.startAt >= end) break;
+    if (interval.startAt > cursor) gaps.push({ startAt: cursor, endAt: interval.startAt });
+    cursor = interval.endAt;
+  }
+  if (cursor < end) gaps.push({ startAt: cursor, endAt: end });
+  return gaps;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Working time in [start, end), in UTC. Each day's hours are laid out on that day's local
+ * wall clock, so 09:00 stays 09:00 local on both sides of a DST change.
+ */
+export function workingIntervals(workingHours: WorkingHours, start: Date, end: Date): Interval[] {
+  const timeZone = normalizeTimeZone(workingHours.timezone);
+  const firstDay = toWallClock(start, timeZone);
+  firstDay.setUTCHours(0, 0, 0, 0);
+  const lastDay = toWallClock(end, timeZone);
+
+  const intervals: Interval[] = [];
+  // Start a day early so a shift that runs past midnight into the window is included
+  for (let day = firstDay.getTime() - DAY_MS; day <= lastDay.getTime(); day += DAY_MS) {
+    const weekday = new Date(day).getUTCDay();
+    for (const range of workingHours.hours) {
+      if (range.day !== weekday) continue;
+      const startMinutes = minutesOf(range.start);
+      let endMinutes = minutesOf(range.end);
+      if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+      intervals.push({
+        startAt: fromWallClock(new Date(day + startMinutes * 60000), timeZone),
+        endAt: fromWallClock(new Date(day + endMinutes * 60000), timeZone)
+      });
+    }
+  }
+  return mergeIntervals(intervals)
+    .map((interval) => ({
+      startAt: interval.startAt < start ? start : interval.startAt,
+      endAt: interval.endAt > end ? end : interval.endAt
+    }))
+    .filter((interval) => interval.endAt > interval.startAt);
+}
+
+export function normalizeWorkingHours(input: { timezone?: unknown; hours?: unknown }): WorkingHours {
+  if (typeof input.timezone !== 'string' || normalizeTimeZone(input.timezone) !== input.timezone) {
+    throw new FreeBusyError(400, 'invalid_timezone', 'timezone must be an IANA time zone such as Europe/Berlin');
+  }
+  if (!Array.isArray(input.hours)) {
+    throw new FreeBusyError(400, 'invalid_working_hours', 'hours must be a list of { day, start, end }');
+  }
+  const hours = input.hours.map((range: { day?: unknown; start?: unknown; end?: unknown }) => {
+    if (!Number.isInteger(range?.day) || (range.day as number) < 0 || (range.day as number) > 6) {
+      throw new FreeBusyError(400, 'invalid_working_hours', 'day must be 0 (Sunday) to 6 (Saturday)');
+    }
+    if (typeof range.start !== 'string' || typeof range.end !== 'string'
+      || !TIME_OF_DAY.test(range.start) || !TIME_OF_DAY.test(range.end) || range.start === range.end) {
+      throw new FreeBusyError(400, 'invalid_working_hours', 'start and end must be different HH:MM times');
+    }
+    return { day: range.day as number, start: range.start, end: range.end };
+  });
+  return { timezone: input.timezone, hours };
+}
+
+export async function getWorkingHours(userId: string): Promise<WorkingHours | null> {
+  const row = await prisma.calendarWorkingHours.findUnique({ where: { userId } });
+  return row ? { timezone: row.timezone, hours: row.hours as unknown as WorkingHoursRange[] } : null;
+}
+
+export async function saveWorkingHours(userId: string, input: { timezone?: unknown; hours?: unknown }) {
+  const workingHours = normalizeWorkingHours(input);
+  await prisma.calendarWorkingHours.upsert({
+    where: { userId },
+    create: { userId, timezone: workingHours.timezone, hours: workingHours.hours as unknown as Prisma.InputJsonValue },
+    update: { timezone: workingHours.timezone, hours: workingHours.hours as unknown as Prisma.InputJsonValue }
+  });
+  return workingHours;
+}
+
+/**
+ * Whether the requester may see a person's free/busy: themselves, people they share an active
+ * business or household with, and people who gave them any role on one of their calendars
+ * (FREE_BUSY included).
+ */
+async function canSeeFreeBusy(requesterId: string, targetId: string): Promise<boolean> {
+  if (requesterId === targetId) return true;
+  const [business, household, calendar] = await Promise.all([
+    prisma.businessMember.findFirst({
+      where: { userId: targetId, isActive: true, business: { members: { some: { userId: requesterId, isActive: true } } } },
+      select: { id: true }
+    }),
+    prisma.householdMember.findFirst({
+      where: { userId: targetId, isActive: true, household: { members: { some: { userId: requesterId, isActive: true } } } },
+      select: { id: true }
+    }),
+    prisma.calendarMember.findFirst({
+      where: {
+        userId: requesterId,
+        calendar: {
+          OR: [
+            { contextType: 'PERSONAL', contextId: targetId },
+            { members: { some: { userId: targetId, role: 'OWNER' } } }
+          ]
+        }
+      },
+      select: { id: true }
+    })
+  ]);
+  return Boolean(business || household || calendar);
+}
+
+const busyEventSelect = {
+  id: true,
+  startAt: true,
+  endAt: true,
+  timezone: true,
+  recurrenceRule: true,
+  recurrenceEndAt: true,
+  parentEventId: true
+} as const;
+
+type BusyEvent = {
+  id: string;
+  startAt: Date;
+  endAt: Date;
+  timezone: string;
+  recurrenceRule: string | null;
+  recurrenceEndAt: Date | null;
+  parentEventId: string | null;
+};
+
+/** Busy time from the events matching `where`, recurrences expanded */
+export async function eventBusy(
+  where: Record<string, unknown>,
+  start: Date,
+  end: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<Interval[]> {
+  const events: BusyEvent[] = await db.event.findMany({
+    where: { trashedAt: null, status: { not: 'CANCELED' }, AND: [inRangeWhere(start, end), where] },
+    select: busyEventSelect
+  });
+  return (await expandEvents(events, start, end, db)).map(({ startAt, endAt }) => ({ startAt, endAt }));
+}
+
+/**
+ * A person's busy time: events on their own calendars and events they haven't declined,
+ * approved time off (whole days, as on the HR calendars) and shifts on published schedules.
+ * `excludeEventId` leaves out one event, such as a booking being rescheduled. Pass `db` to
+ * read inside a transaction.
+ */
+export async function personBusy(
+  user: { id: string; email: string },
+  start: Date,
+  end: Date,
+  excludeEventId?: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<Interval[]> {
+  const [events, timeOff, shifts] = await Promise.all([
+    eventBusy({
+      OR: [
+        { calendar: { contextType: 'PERSONAL', contextId: user.id } },
+        { calendar: { members: { some: { userId: user.id, role: 'OWNER' } } } },
+        { attendees: { some: { OR: [{ userId: user.id }, { email: user.email }], response: { not: 'DECLINED' } } } }
+      ],
+      ...(excludeEventId ? { NOT: { id: excludeEventId } } : {})
+    }, start, end, db),
+    db.timeOffRequest.findMany({
+      where: {
+        status: 'APPROVED',
+        employeePosition: { userId: user.id },
+        startDate: { lt: end },
+        endDate: { gte: new Date(start.getTime() - DAY_MS) }
+      },
+      select: { startDate: true, endDate: true }
+    }),
+    db.scheduleShift.findMany({
+      where: {
+        employeePosition: { userId: user.id },
+        status: { in: ['SCHEDULED', 'FILLED', 'COMPLETED'] },
+        schedule: { status: 'PUBLISHED' },
+        startTime: { lt: end },
+        endTime: { gt: start }
+      },
+      select: { startTime: true, endTime: true }
+    })
+  ]);
+  return [
+    ...events,
+    ...timeOff.map((request: { startDate: Date; endDate: Date }) => ({
+      startAt: request.startDate,
+      endAt: new Date(request.endDate.getTime() + DAY_MS)
+    })),
+    ...shifts.map((shift: { startTime: Date; endTime: Date }) => ({ startAt: shift.startTime, endAt: shift.endTime }))
+  ];
+}
+
+function clip(intervals: Interval[], start: Date, end: Date): Interval[] {
+  return mergeIntervals(intervals)
+    .map((interval) => ({
+      startAt: interval.startAt < start ? start : interval.startAt,
+      endAt: interval.endAt > end ? end : interval.endAt
+    }))
+    .filter((interval) => interval.endAt > interval.startAt);
+}
+
+/** Non-empty, trimmed, de-duplicated strings from a query or body value that may be one string or a list */
+export function queryList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return [...new Set(values.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim()))];
+}
+
+/**
+ * Free/busy for calendars and people over a window. Calendars count if the requester has any
+ * role on them (FREE_BUSY is enough). People are looked up by email or id; those without an
+ * account are `unknown` and those the requester can't see are `hidden`. Busy intervals are
+ * merged, and working hours (when a person has set them) are returned as UTC intervals.
+ */
+export async function getFreeBusy(
+  requesterId: string,
+  input: { start?: unknown; end?: unknown; calendarIds?: unknown; attendeeEmails?: unknown; userIds?: unknown }
+) {
+  const start = new Date(String(input.start));
+  const end = new Date(String(input.end));
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    throw new FreeBusyError(400, 'invalid_time_range', 'start and end must be valid dates with start before end');
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new FreeBusyError(400, 'range_too_large', `Free/busy covers at most ${MAX_RANGE_DAYS} days`);
+  }
+  const emails = queryList(input.attendeeEmails).map((email) => email.toLowerCase());
+  const requestedUserIds = queryList(input.userIds);
+  if (emails.length + requestedUserIds.length > MAX_PEOPLE) {
+    throw new FreeBusyError(400, 'too_many_people', `Free/busy covers at most ${MAX_PEOPLE} people`);
+  }
+
+  const calendars: Array<{ id: string }> = await prisma.calendar.findMany({
+    where: {
+      id: { in: queryList(input.calendarIds) },
+      OR: [{ members: { some: { userId: requesterId } } }, { contextType: 'PERSONAL', contextId: requesterId }]
+    },
+    select: { id: true }
+  });
+  const calendarResults = await Promise.all(calendars.map(async (calendar) => ({
+    calendarId: calendar.id,
+    busy: clip(await eventBusy({ calendarId: calendar.id }, start, end), start, end)
+  })));
+
+  const users: Array<{ id: string; email: string }> = emails.length + requestedUserIds.length > 0
+    ? await prisma.user.findMany({
+        where: {
+          OR: [
+            ...(emails.length > 0 ? [{ email: { in: emails, mode: 'insensitive' as const } }] : []),
+            ...(requestedUserIds.length > 0 ? [{ id: { in: requestedUserIds } }] : [])
+          ]
+        },
+        select: { id: true, email: true }
+      })
+    : [];
+  const people = await Promise.all(users.map(async (user) => {
+    if (!(await canSeeFreeBusy(requesterId, user.id))) {
+      return { userId: user.id, email: user.email, status: 'hidden' as const, timezone: null, busy: [], workingHours: null };
+    }
+    const [busy, workingHours] = await Promise.all([personBusy(user, start, end), getWorkingHours(user.id)]);
+    return {
+      userId: user.id,
+      email: user.email,
+      status: 'ok' as const,
+      timezone: workingHours?.timezone ?? null,
+      busy: clip(busy, start, end),
+      workingHours: workingHours ? workingIntervals(workingHours, start, end) : null
+    };
+  }));
+  const foundEmails = new Set(users.map((user) => user.email.toLowerCase()));
+  const unknown = emails
+    .filter((email) => !foundEmails.has(email))
+    .map((email) => ({ userId: null, email, status: 'unknown' as const, timezone: null, busy: [], workingHours: null }));
+
+  return {
+    start,
+    end,
+    // Everything busy across the calendars and people, for callers that just need one list
+    busy: mergeIntervals([...calendarResults, ...people].flatMap((result) => result.busy)),
+    calendars: calendarResults,
+    people: [...people, ...unknown]
+  };
+}
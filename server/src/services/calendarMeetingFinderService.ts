@@ -0,0 +1,264 @@
+import { prisma } from '../lib/prisma';
+import { normalizeTimeZone, toWallClock } from '../utils/timezone';
+import { BookingPolicy, bookingPolicyViolation, getAvailability } from './calendarResourceService';
+import {
+  FreeBusyError,
+  Interval,
+  getFreeBusy,
+  getWorkingHours,
+  mergeIntervals,
+  normalizeWorkingHours,
+  queryList,
+  workingIntervals
+} from './calendarFreeBusyService';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_WINDOW_DAYS = 31;
+const MAX_DURATION_MINUTES = 8 * 60;
+const DEFAULT_STEP_MINUTES = 30;
+// Gap kept around other meetings when back-to-back slots are avoided
+const DEFAULT_BUFFER_MINUTES = 15;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export type AttendeeReason =
+  | 'free'
+  | 'busy'
+  | 'back_to_back'
+  | 'outside_working_hours'
+  | 'booking_policy'
+  | 'hidden'
+  | 'unknown';
+
+/** A person or resource whose time is weighed when ranking slots */
+export interface SlotAttendee {
+  kind: 'person' | 'resource';
+  id: string | null;
+  label: string;
+  // Hidden and unknown attendees can't be checked, so they don't affect the ranking
+  status: 'ok' | 'hidden' | 'unknown';
+  busy: Interval[];
+  // UTC working intervals, or null when the person hasn't set working hours
+  workingHours: Interval[] | null;
+  policy?: BookingPolicy;
+}
+
+export interface SlotOptions {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  stepMinutes: number;
+  // Candidates start on multiples of the step in this zone's local time
+  timezone: string;
+  workingHoursOnly: boolean;
+  bufferMinutes: number;
+  preferred: Interval[];
+  limit: number;
+  now?: Date;
+}
+
+export interface AttendeeAvailability {
+  kind: 'person' | 'resource';
+  id: string | null;
+  label: string;
+  // null when the attendee's calendar can't be checked
+  free: boolean | null;
+  reason: AttendeeReason;
+  detail?: string;
+}
+
+export interface CandidateSlot {
+  startAt: Date;
+  endAt: Date;
+  preferred: boolean;
+  freeCount: number;
+  unavailableCount: number;
+  attendees: AttendeeAvailability[];
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.startAt < b.endAt && b.startAt < a.endAt;
+}
+
+function within(slot: Interval, intervals: Interval[]): boolean {
+  return intervals.some((interval) => interval.startAt <= slot.startAt && interval.endAt >= slot.endAt);
+}
+
+/** Why an attendee is or isn't free for a slot; busy wins over the softer constraints */
+export function attendeeAvailability(attendee: SlotAttendee, slot: Interval, options: SlotOptions): AttendeeAvailability {
+  const base = { kind: attendee.kind, id: attendee.id, label: attendee.label };
+  if (attendee.status !== 'ok') return { ...base, free: null, reason: attendee.status };
+  if (attendee.busy.some((busy) => overlaps(busy, slot))) return { ...base, free: false, reason: 'busy' };
+
+  if (attendee.policy) {
+    const violation = bookingPolicyViolation(attendee.policy, slot, options.now);
+    if (violation) return { ...base, free: false, reason: 'booking_policy', detail: violation.message };
+    return { ...base, free: true, reason: 'free' };
+  }
+
+  if (options.bufferMinutes > 0) {
+    const padded = {
+      startAt: new Date(slot.startAt.getTime() - options.bufferMinutes * MINUTE_MS),
+      endAt: new Date(slot.endAt.getTime() + options.bufferMinutes * MINUTE_MS)
+    };
+    if (attendee.busy.some((busy) => overlaps(busy, padded))) return { ...base, free: false, reason: 'back_to_back' };
+  }
+  if (options.workingHoursOnly && attendee.workingHours && !within(slot, attendee.workingHours)) {
+    return { ...base, free: false, reason: 'outside_working_hours' };
+  }
+  return { ...base, free: true, reason: 'free' };
+}
+
+/** The first candidate start: the window start rounded up to the step on the local clock */
+function firstCandidate(start: Date, stepMs: number, timeZone: string): Date {
+  const offset = toWallClock(start, timeZone).getTime() - start.getTime();
+  return new Date(Math.ceil((start.getTime() + offset) / stepMs) * stepMs - offset);
+}
+
+/**
+ * Candidate slots in the window, ranked by how few attendees can't make it, then by
+ * whether the slot sits in a preferred time, then by how soon it starts. Slots that have
+ * already started are skipped.
+ */
+export function rankSlots(attendees: SlotAttendee[], options: SlotOptions): CandidateSlot[] {
+  const durationMs = options.durationMinutes * MINUTE_MS;
+  const stepMs = options.stepMinutes * MINUTE_MS;
+  const now = options.now ?? new Date();
+
+  const candidates: CandidateSlot[] = [];
+  for (
+    let time = firstCandidate(options.start, stepMs, normalizeTimeZone(options.timezone)).getTime();
+    time + durationMs <= options.end.getTime();
+    time += stepMs
+  ) {
+    const slot = { startAt: new Date(time), endAt: new Date(time + durationMs) };
+    if (slot.startAt < now) continue;
+    const availability = attendees.map((attendee) => attendeeAvailability(attendee, slot, options));
+    candidates.push({
+      ...slot,
+      preferred: within(slot, options.preferred),
+      freeCount: availability.filter((entry) => entry.free === true).length,
+      unavailableCount: availability.filter((entry) => entry.free === false).length,
+      attendees: availability
+    });
+  }
+
+  return candidates
+    .sort((a, b) => a.unavailableCount - b.unavailableCount
+      || Number(b.preferred) - Number(a.preferred)
+      || a.startAt.getTime() - b.startAt.getTime())
+    .slice(0, options.limit);
+}
+
+function integerInRange(value: unknown, fallback: number, min: number, max: number, field: string): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new FreeBusyError(400, `invalid_${field}`, `${field} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Proposes meeting slots for the requester plus the given people (by email or id) and
+ * resources. Busy time comes from free/busy and resource bookings; `workingHoursOnly`
+ * keeps slots inside everyone's working hours, `avoidBackToBack` keeps a buffer around
+ * their other meetings, and `preferredTimes` ("HH:MM" ranges in `timezone`) ranks slots
+ * inside them first.
+ */
+export async function findMeetingTimes(requesterId: string, input: Record<string, unknown>) {
+  const start = new Date(String(input.start));
+  const end = new Date(String(input.end));
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    throw new FreeBusyError(400, 'invalid_time_range', 'start and end must be valid dates with start before end');
+  }
+  if (end.getTime() - start.getTime() > MAX_WINDOW_DAYS * DAY_MS) {
+    throw new FreeBusyError(400, 'range_too_large', `The meeting finder searches at most ${MAX_WINDOW_DAYS} days`);
+  }
+  const durationMinutes = integerInRange(input.durationMinutes, 30, 5, MAX_DURATION_MINUTES, 'durationMinutes');
+  const stepMinutes = integerInRange(input.stepMinutes, DEFAULT_STEP_MINUTES, 5, 120, 'stepMinutes');
+  const bufferMinutes = input.avoidBackToBack === true
+    ? integerInRange(input.bufferMinutes, DEFAULT_BUFFER_MINUTES, 1, 120, 'bufferMinutes')
+    : 0;
+  const limit = integerInRange(input.limit, DEFAULT_LIMIT, 1, MAX_LIMIT, 'limit');
+
+  const ownHours = await getWorkingHours(requesterId);
+  const timezone = typeof input.timezone === 'string' && input.timezone ? input.timezone : ownHours?.timezone ?? 'UTC';
+  const preferredRanges = Array.isArray(input.preferredTimes) ? input.preferredTimes : [];
+  // Preferred times apply every day, so they reuse the working-hours layout and validation
+  const preferredHours = normalizeWorkingHours({
+    timezone,
+    hours: [0, 1, 2, 3, 4, 5, 6].flatMap((day) =>
+      preferredRanges.map((range: { start?: unknown; end?: unknown }) => ({ day, start: range?.start, end: range?.end })))
+  });
+
+  // Busy time just outside the window still counts toward the back-to-back buffer
+  const busyStart = new Date(start.getTime() - bufferMinutes * MINUTE_MS);
+  const busyEnd = new Date(end.getTime() + bufferMinutes * MINUTE_MS);
+  const userIds = queryList(input.userIds).filter((id) => id !== requesterId);
+  const freeBusy = await getFreeBusy(requesterId, {
+    start: busyStart.toISOString(),
+    end: busyEnd.toISOString(),
+    attendeeEmails: input.attendeeEmails,
+    userIds: [requesterId, ...userIds]
+  });
+
+  const resourceIds = queryList(input.resourceIds);
+  const [availability, resources] = resourceIds.length > 0
+    ? await Promise.all([
+        getAvailability(requesterId, { resourceIds, start: busyStart.toISOString(), end: busyEnd.toISOString() }),
+        prisma.calendarResource.findMany({
+          where: { id: { in: resourceIds }, isActive: true },
+          select: { id: true, name: true, maxDurationMinutes: true, minLeadMinutes: true, maxAdvanceDays: true }
+        }) as Promise<Array<BookingPolicy & { id: string }>>
+      ])
+    : [[], []];
+
+  const people: SlotAttendee[] = freeBusy.people.map((person) => ({
+    kind: 'person',
+    id: person.userId,
+    label: person.email,
+    status: person.status,
+    busy: person.busy,
+    workingHours: person.workingHours
+  }));
+  const resourceAttendees: SlotAttendee[] = resourceIds.map((resourceId) => {
+    const resource = resources.find((candidate) => candidate.id === resourceId);
+    const booked = availability.find((entry) => entry.resourceId === resourceId);
+    if (!resource || !booked) {
+      return { kind: 'resource', id: resourceId, label: resourceId, status: 'unknown', busy: [], workingHours: null };
+    }
+    return {
+      kind: 'resource',
+      id: resourceId,
+      label: resource.name,
+      status: 'ok',
+      busy: mergeIntervals(booked.busy.map(({ startAt, endAt }) => ({ startAt, endAt }))),
+      workingHours: null,
+      policy: resource
+    };
+  });
+  const attendees = [...people, ...resourceAttendees];
+
+  const slots = rankSlots(attendees, {
+    start,
+    end,
+    durationMinutes,
+    stepMinutes,
+    timezone: preferredHours.timezone,
+    workingHoursOnly: input.workingHoursOnly !== false,
+    bufferMinutes,
+    preferred: workingIntervals(preferredHours, start, end),
+    limit
+  });
+
+  return {
+    start,
+    end,
+    durationMinutes,
+    timezone: preferredHours.timezone,
+    attendees: attendees.map(({ kind, id, label, status }) => ({ kind, id, label, status })),
+    slots
+  };
+}
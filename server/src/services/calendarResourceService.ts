@@ -0,0 +1,621 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { expandOccurrences } from '../utils/recurrence';
+import { loadExceptionStarts } from './calendarSeriesService';
+
+export const RESOURCE_TYPES = ['ROOM', 'VEHICLE', 'EQUIPMENT', 'SPACE'] as const;
+export type ResourceType = typeof RESOURCE_TYPES[number];
+
+const MAX_NAME_LENGTH = 120;
+const MAX_AMENITIES = 30;
+// Recurring bookings are checked this far ahead when the series has no end
+const RECURRING_CHECK_DAYS = 365;
+const MAX_AVAILABILITY_DAYS = 62;
+
+/**
+ * Raised for resource requests that can't be served; `status` is the HTTP status to answer with.
+ */
+export class ResourceBookingError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ResourceBookingError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface BookingInterval {
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface BookingPolicy {
+  name: string;
+  maxDurationMinutes: number | null;
+  minLeadMinutes: number | null;
+  maxAdvanceDays: number | null;
+}
+
+/** The event fields needed to work out when a booking holds its resource */
+export interface BookedEvent {
+  id: string;
+  startAt: Date;
+  endAt: Date;
+  timezone: string | null;
+  recurrenceRule: string | null;
+  recurrenceEndAt: Date | null;
+  parentEventId: string | null;
+}
+
+export function isResourceType(value: unknown): value is ResourceType {
+  return typeof value === 'string' && (RESOURCE_TYPES as readonly string[]).includes(value);
+}
+
+function overlaps(a: BookingInterval, b: BookingInterval): boolean {
+  return a.startAt < b.endAt && b.startAt < a.endAt;
+}
+
+/**
+ * Occurrences of an event that overlap the window. A series skips the occurrence starts (ms)
+ * in `skipStarts`, since an exception event (edited or canceled) replaces them.
+ */
+export function eventOccurrences(
+  event: BookedEvent,
+  windowStart: Date,
+  windowEnd: Date,
+  skipStarts: Set<number> = new Set()
+): BookingInterval[] {
+  if (event.parentEventId) {
+    return overlaps(event, { startAt: windowStart, endAt: windowEnd })
+      ? [{ startAt: event.startAt, endAt: event.endAt }]
+      : [];
+  }
+  return expandOccurrences(event, windowStart, windowEnd, skipStarts);
+}
+
+/** First requested interval that collides with a busy one */
+export function findConflict(
+  requested: BookingInterval[],
+  busy: BookingInterval[]
+): { requested: BookingInterval; busy: BookingInterval } | null {
+  for (const wanted of requested) {
+    const hit = busy.find((taken) => overlaps(wanted, taken));
+    if (hit) return { requested: wanted, busy: hit };
+  }
+  return null;
+}
+
+/**
+ * Checks a booking against the resource's policies. Lead time and advance limits apply
+ * to the first occurrence; every occurrence of a series has the same duration.
+ */
+export function bookingPolicyViolation(
+  policy: BookingPolicy,
+  interval: BookingInterval,
+  now: Date = new Date()
+): ResourceBookingError | null {
+  const durationMinutes = (interval.endAt.getTime() - interval.startAt.getTime()) / 60000;
+  if (durationMinutes <= 0) {
+    return new ResourceBookingError(400, 'invalid_time_range', 'Bookings must end after they start');
+  }
+  if (policy.maxDurationMinutes && durationMinutes > policy.maxDurationMinutes) {
+    return new ResourceBookingError(
+      400,
+      'duration_exceeded',
+      `${policy.name} can be booked for at most ${policy.maxDurationMinutes} minutes`
+    );
+  }
+  const leadMinutes = (interval.startAt.getTime() - now.getTime()) / 60000;
+  if (policy.minLeadMinutes && leadMinutes < policy.minLeadMinutes) {
+    return new ResourceBookingError(
+      400,
+      'lead_time_required',
+      `${policy.name} must be booked at least ${policy.minLeadMinutes} minutes in advance`
+    );
+  }
+  if (policy.maxAdvanceDays && leadMinutes > policy.maxAdvanceDays * 24 * 60) {
+    return new ResourceBookingError(
+      400,
+      'too_far_ahead',
+      `${policy.name} can be booked at most ${policy.maxAdvanceDays} days ahead`
+    );
+  }
+  return null;
+}
+
+/** Requested intervals of a (possibly recurring) booking, up to the check horizon */
+export function requestedIntervals(event: Omit<BookedEvent, 'id' | 'parentEventId'>): BookingInterval[] {
+  if (!event.recurrenceRule) return [{ startAt: event.startAt, endAt: event.endAt }];
+  const horizon = new Date(event.startAt.getTime() + RECURRING_CHECK_DAYS * 24 * 60 * 60 * 1000);
+  const windowEnd = event.recurrenceEndAt && event.recurrenceEndAt < horizon ? event.recurrenceEndAt : horizon;
+  const occurrences = eventOccurrences(
+    { ...event, id: 'requested', parentEventId: null },
+    event.startAt,
+    new Date(windowEnd.getTime() + 1)
+  );
+  return occurrences.length > 0 ? occurrences : [{ startAt: event.startAt, endAt: event.endAt }];
+}
+
+async function getBusinessMembership(businessId: string, userId: string) {
+  return prisma.businessMember.findFirst({
+    where: { businessId, userId, isActive: true },
+    select: { role: true, canManage: true }
+  });
+}
+
+/** Business admins and managers set up resources and decide on bookings */
+async function canManageResources(businessId: string, userId: string): Promise<boolean> {
+  const membership = await getBusinessMembership(businessId, userId);
+  return Boolean(membership && (membership.role !== 'EMPLOYEE' || membership.canManage));
+}
+
+async function assertMember(businessId: string, userId: string) {
+  const membership = await getBusinessMembership(businessId, userId);
+  if (!membership) throw new ResourceBookingError(403, 'forbidden', 'Access denied: you are not a member of this business');
+}
+
+async function assertManager(businessId: string, userId: string) {
+  if (!(await canManageResources(businessId, userId))) {
+    throw new ResourceBookingError(403, 'forbidden', 'Insufficient permissions: only business admins and managers can manage resources');
+  }
+}
+
+function optionalPositiveInt(value: unknown, field: string): number | null {
+  if (value === null || value === '' || value === undefined) return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new ResourceBookingError(400, 'invalid_field', `${field} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' ? value.trim() || null : null;
+}
+
+/** Validates create/update input; with `partial`, absent fields are left out */
+export function normalizeResourceInput(input: Record<string, unknown>, partial = false): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  const has = (field: string) => !partial || input[field] !== undefined;
+
+  if (has('name')) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new ResourceBookingError(400, 'invalid_name', `Name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+    data.name = name;
+  }
+  if (has('type')) {
+    const type = typeof input.type === 'string' ? input.type.toUpperCase() : input.type;
+    if (!isResourceType(type)) {
+      throw new ResourceBookingError(400, 'invalid_type', `Type must be one of ${RESOURCE_TYPES.join(', ')}`);
+    }
+    data.type = type;
+  }
+  if (has('amenities')) {
+    const amenities = Array.isArray(input.amenities) ? input.amenities : [];
+    data.amenities = [...new Set(
+      amenities
+        .filter((amenity): amenity is string => typeof amenity === 'string')
+        .map((amenity) => amenity.trim())
+        .filter(Boolean)
+    )].slice(0, MAX_AMENITIES);
+  }
+  for (const field of ['description', 'location'] as const) {
+    if (has(field)) data[field] = optionalText(input[field]);
+  }
+  for (const field of ['capacity', 'maxDurationMinutes', 'minLeadMinutes', 'maxAdvanceDays'] as const) {
+    if (has(field)) data[field] = optionalPositiveInt(input[field], field);
+  }
+  for (const field of ['requiresApproval', 'isActive'] as const) {
+    if (input[field] !== undefined) data[field] = Boolean(input[field]);
+  }
+  return data;
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+}
+
+export async function listResources(userId: string, businessId: string, options: { includeInactive?: boolean } = {}) {
+  await assertMember(businessId, userId);
+  const includeInactive = options.includeInactive && (await canManageResources(businessId, userId));
+  return prisma.calendarResource.findMany({
+    where: { businessId, ...(includeInactive ? {} : { isActive: true }) },
+    orderBy: [{ type: 'asc' }, { name: 'asc' }]
+  });
+}
+
+export async function createResource(userId: string, input: Record<string, unknown>) {
+  if (typeof input.businessId !== 'string') {
+    throw new ResourceBookingError(400, 'invalid_business', 'businessId is required');
+  }
+  await assertManager(input.businessId, userId);
+  try {
+    return await prisma.calendarResource.create({
+      data: {
+        ...normalizeResourceInput(input),
+        businessId: input.businessId,
+        createdById: userId
+      } as Prisma.CalendarResourceUncheckedCreateInput
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new ResourceBookingError(409, 'name_taken', 'A resource with this name already exists');
+    }
+    throw err;
+  }
+}
+
+async function getResourceOrThrow(resourceId: string) {
+  const resource = await prisma.calendarResource.findUnique({ where: { id: resourceId } });
+  if (!resource) throw new ResourceBookingError(404, 'resource_not_found', 'Resource not found');
+  return resource;
+}
+
+export async function updateResource(userId: string, resourceId: string, input: Record<string, unknown>) {
+  const resource = await getResourceOrThrow(resourceId);
+  await assertManager(resource.businessId, userId);
+  try {
+    return await prisma.calendarResource.update({
+      where: { id: resourceId },
+      data: normalizeResourceInput(input, true)
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new ResourceBookingError(409, 'name_taken', 'A resource with this name already exists');
+    }
+    throw err;
+  }
+}
+
+/** Retired resources keep their booking history but can't be booked again */
+export async function archiveResource(userId: string, resourceId: string) {
+  const resource = await getResourceOrThrow(resourceId);
+  await assertManager(resource.businessId, userId);
+  return prisma.calendarResource.update({ where: { id: resourceId }, data: { isActive: false } });
+}
+
+const bookedEventSelect = {
+  id: true,
+  title: true,
+  startAt: true,
+  endAt: true,
+  timezone: true,
+  recurrenceRule: true,
+  recurrenceEndAt: true,
+  parentEventId: true,
+  createdById: true
+} as const;
+
+type ResourceBookingRow = {
+  id: string;
+  resourceId: string | null;
+  response: string | null;
+  event: BookedEvent & { title: string; createdById: string | null };
+};
+
+/**
+ * Bookings that hold any of the resources during the window, pending ones included so two
+ * people can't both wait on approval for the same slot. `excludeEventId` leaves out an event
+ * being rescheduled, along with its exceptions.
+ */
+async function loadBookings(
+  resourceIds: string[],
+  windowStart: Date,
+  windowEnd: Date,
+  excludeEventId?: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  const rows: ResourceBookingRow[] = await db.eventAttendee.findMany({
+    where: {
+      resourceId: { in: resourceIds },
+      response: { not: 'DECLINED' },
+      event: {
+        trashedAt: null,
+        status: { not: 'CANCELED' },
+        startAt: { lt: windowEnd },
+        OR: [
+          { endAt: { gt: windowStart } },
+          { recurrenceRule: { not: null }, OR: [{ recurrenceEndAt: null }, { recurrenceEndAt: { gte: windowStart } }] }
+        ],
+        ...(excludeEventId ? { NOT: [{ id: excludeEventId }, { parentEventId: excludeEventId }] } : {})
+      }
+    },
+    select: { id: true, resourceId: true, response: true, event: { select: bookedEventSelect } }
+  });
+
+  const seriesIds = [...new Set(rows.filter((row) => row.event.recurrenceRule).map((row) => row.event.id))];
+  const exceptionStarts = await loadExceptionStarts(seriesIds, db);
+
+  return rows.flatMap((row) =>
+    eventOccurrences(row.event, windowStart, windowEnd, exceptionStarts.get(row.event.id)).map((occurrence) => ({
+      ...occurrence,
+      bookingId: row.id,
+      resourceId: row.resourceId!,
+      pending: row.response === 'NEEDS_ACTION',
+      event: row.event
+    }))
+  );
+}
+
+/**
+ * Busy time per resource. Event details are only shown to resource managers and to
+ * whoever made the booking; everyone else just sees that the slot is taken.
+ */
+export async function getAvailability(
+  userId: string,
+  input: { businessId?: unknown; resourceIds?: unknown; start?: unknown; end?: unknown }
+) {
+  const start = new Date(String(input.start));
+  const end = new Date(String(input.end));
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    throw new ResourceBookingError(400, 'invalid_time_range', 'start and end must be valid dates with start before end');
+  }
+  if (end.getTime() - start.getTime() > MAX_AVAILABILITY_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ResourceBookingError(400, 'range_too_large', `Availability covers at most ${MAX_AVAILABILITY_DAYS} days`);
+  }
+
+  const requestedIds = Array.isArray(input.resourceIds)
+    ? input.resourceIds.filter((id): id is string => typeof id === 'string')
+    : typeof input.resourceIds === 'string' ? [input.resourceIds] : [];
+  if (typeof input.businessId !== 'string' && requestedIds.length === 0) {
+    throw new ResourceBookingError(400, 'invalid_business', 'businessId or resourceIds is required');
+  }
+
+  const resources: Array<{ id: string; businessId: string }> = await prisma.calendarResource.findMany({
+    where: {
+      isActive: true,
+      ...(typeof input.businessId === 'string' ? { businessId: input.businessId } : {}),
+      ...(requestedIds.length > 0 ? { id: { in: requestedIds } } : {})
+    },
+    select: { id: true, businessId: true }
+  });
+
+  const businessIds = [...new Set(resources.map((resource) => resource.businessId))];
+  const managedBusinessIds = new Set<string>();
+  for (const businessId of businessIds) {
+    await assertMember(businessId, userId);
+    if (await canManageResources(businessId, userId)) managedBusinessIds.add(businessId);
+  }
+  const businessOf = new Map(resources.map((resource) => [resource.id, resource.businessId]));
+
+  const bookings = resources.length > 0
+    ? await loadBookings(resources.map((resource) => resource.id), start, end)
+    : [];
+
+  return resources.map((resource) => ({
+    resourceId: resource.id,
+    busy: bookings
+      .filter((booking) => booking.resourceId === resource.id)
+      .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+      .map((booking) => {
+        const visible = managedBusinessIds.has(businessOf.get(booking.resourceId)!) || booking.event.createdById === userId;
+        return {
+          startAt: booking.startAt,
+          endAt: booking.endAt,
+          status: booking.pending ? 'PENDING' : 'CONFIRMED',
+          ...(visible ? { bookingId: booking.bookingId, eventId: booking.event.id, title: booking.event.title } : {})
+        };
+      })
+  }));
+}
+
+function toResourceIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.filter((id): id is string => typeof id === 'string'))];
+}
+
+/**
+ * Runs `book` in a transaction that holds row locks on the resources, so a conflict check
+ * made through `tx` still holds when the booking is written. Concurrent bookings of the
+ * same resource wait for each other; ids are locked in a fixed order to avoid deadlocks.
+ */
+export async function withResourceLock<T>(
+  resourceIds: unknown,
+  book: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  const ids = toResourceIds(resourceIds).sort();
+  return prisma.$transaction(async (tx) => {
+    if (ids.length > 0) {
+      await tx.$queryRaw`SELECT id FROM calendar_resources WHERE id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE`;
+    }
+    return book(tx);
+  });
+}
+
+/**
+ * Validates that the user may book the resources for the event's time and that none of
+ * them is taken, and returns the attendee rows to store. Bookings by resource managers
+ * skip approval. Throws a 409 `resource_conflict` naming the first clash. Pass the `tx`
+ * of `withResourceLock` and write the attendees through it.
+ */
+export async function prepareResourceAttendees(
+  userId: string,
+  input: {
+    resourceIds: unknown;
+    startAt: Date;
+    endAt: Date;
+    timezone?: string | null;
+    recurrenceRule?: string | null;
+    recurrenceEndAt?: Date | null;
+    excludeEventId?: string;
+    now?: Date;
+  },
+  tx: Prisma.TransactionClient
+): Promise<Array<{ resourceId: string; response: string }>> {
+  const resourceIds = toResourceIds(input.resourceIds);
+  if (resourceIds.length === 0) return [];
+
+  const resources = await tx.calendarResource.findMany({ where: { id: { in: resourceIds } } });
+  if (resources.length !== resourceIds.length) {
+    throw new ResourceBookingError(404, 'resource_not_found', 'Resource not found');
+  }
+
+  const requested = requestedIntervals({
+    startAt: input.startAt,
+    endAt: input.endAt,
+    timezone: input.timezone ?? null,
+    recurrenceRule: input.recurrenceRule ?? null,
+    recurrenceEndAt: input.recurrenceEndAt ?? null
+  });
+  const windowStart = requested[0].startAt;
+  const windowEnd = requested[requested.length - 1].endAt;
+  const bookings = await loadBookings(resourceIds, windowStart, windowEnd, input.excludeEventId, tx);
+
+  const attendees: Array<{ resourceId: string; response: string }> = [];
+  for (const resource of resources) {
+    if (!resource.isActive) {
+      throw new ResourceBookingError(400, 'resource_inactive', `${resource.name} is no longer bookable`);
+    }
+    await assertMember(resource.businessId, userId);
+    const violation = bookingPolicyViolation(resource, { startAt: input.startAt, endAt: input.endAt }, input.now);
+    if (violation) throw violation;
+
+    const conflict = findConflict(requested, bookings.filter((booking) => booking.resourceId === resource.id));
+    if (conflict) {
+      throw new ResourceBookingError(
+        409,
+        'resource_conflict',
+        `${resource.name} is already booked at ${conflict.busy.startAt.toISOString()}`
+      );
+    }
+
+    const autoApproved = !resource.requiresApproval || (await canManageResources(resource.businessId, userId));
+    attendees.push({ resourceId: resource.id, response: autoApproved ? 'ACCEPTED' : 'NEEDS_ACTION' });
+  }
+  return attendees;
+}
+
+/** Resource ids currently booked (and not declined) on an event */
+export async function getEventResourceIds(eventId: string): Promise<string[]> {
+  const rows = await prisma.eventAttendee.findMany({
+    where: { eventId, resourceId: { not: null }, response: { not: 'DECLINED' } },
+    select: { resourceId: true }
+  });
+  return rows.map((row: { resourceId: string | null }) => row.resourceId!);
+}
+
+/**
+ * Sets the resources booked on an event to `resourceIds`. Rows in `checked` were just
+ * validated and are (re)created with their new response, so a moved booking needs
+ * approval again; other kept resources are left as they are. Runs in the `tx` they
+ * were checked in.
+ */
+export async function syncEventResources(
+  eventId: string,
+  resourceIds: string[],
+  checked: Array<{ resourceId: string; response: string }>,
+  tx: Prisma.TransactionClient
+) {
+  await tx.eventAttendee.deleteMany({
+    where: {
+      eventId,
+      resourceId: { not: null },
+      OR: [
+        { resourceId: { notIn: resourceIds } },
+        { resourceId: { in: checked.map((attendee) => attendee.resourceId) } }
+      ]
+    }
+  });
+  await tx.eventAttendee.createMany({
+    data: checked.map((attendee) => ({ eventId, ...attendee }))
+  });
+}
+
+function toBookingSummary(row: {
+  id: string;
+  response: string | null;
+  resource: { id: string; name: string; type: string; location: string | null } | null;
+  event: { id: string; title: string; startAt: Date; endAt: Date; recurrenceRule: string | null; createdById: string | null };
+}) {
+  return {
+    id: row.id,
+    status: row.response === 'NEEDS_ACTION' ? 'PENDING' : row.response === 'DECLINED' ? 'DECLINED' : 'CONFIRMED',
+    resource: row.resource,
+    eventId: row.event.id,
+    title: row.event.title,
+    startAt: row.event.startAt,
+    endAt: row.event.endAt,
+    recurring: Boolean(row.event.recurrenceRule),
+    bookedById: row.event.createdById
+  };
+}
+
+const bookingSelect = {
+  id: true,
+  response: true,
+  resource: { select: { id: true, name: true, type: true, location: true } },
+  event: { select: { id: true, title: true, startAt: true, endAt: true, recurrenceRule: true, createdById: true } }
+} as const;
+
+/**
+ * `mine` lists the user's own upcoming bookings; `pending` lists bookings awaiting
+ * approval, for resource managers.
+ */
+export async function listBookings(userId: string, input: { businessId?: unknown; scope?: unknown }) {
+  if (typeof input.businessId !== 'string') {
+    throw new ResourceBookingError(400, 'invalid_business', 'businessId is required');
+  }
+  const scope = input.scope === 'pending' ? 'pending' : 'mine';
+  if (scope === 'pending') {
+    await assertManager(input.businessId, userId);
+  } else {
+    await assertMember(input.businessId, userId);
+  }
+
+  const rows = await prisma.eventAttendee.findMany({
+    where: {
+      resource: { businessId: input.businessId },
+      ...(scope === 'pending' ? { response: 'NEEDS_ACTION' } : {}),
+      event: {
+        trashedAt: null,
+        status: { not: 'CANCELED' },
+        ...(scope === 'mine' ? { createdById: userId } : {}),
+        OR: [{ endAt: { gt: new Date() } }, { recurrenceRule: { not: null } }]
+      }
+    },
+    select: bookingSelect,
+    orderBy: { event: { startAt: 'asc' } }
+  });
+  return rows.map(toBookingSummary);
+}
+
+async function getBookingOrThrow(bookingId: string) {
+  const booking = await prisma.eventAttendee.findUnique({
+    where: { id: bookingId },
+    select: { ...bookingSelect, resourceId: true }
+  });
+  if (!booking || !booking.resourceId || !booking.resource) {
+    throw new ResourceBookingError(404, 'booking_not_found', 'Booking not found');
+  }
+  return booking;
+}
+
+export async function decideBooking(userId: string, bookingId: string, approve: boolean) {
+  const booking = await getBookingOrThrow(bookingId);
+  const resource = await getResourceOrThrow(booking.resourceId!);
+  await assertManager(resource.businessId, userId);
+  if (booking.response !== 'NEEDS_ACTION') {
+    throw new ResourceBookingError(409, 'already_decided', 'This booking has already been decided');
+  }
+  const updated = await prisma.eventAttendee.update({
+    where: { id: bookingId },
+    data: { response: approve ? 'ACCEPTED' : 'DECLINED' },
+    select: bookingSelect
+  });
+  return toBookingSummary(updated);
+}
+
+/** Releases the resource; the event itself stays on the calendar */
+export async function cancelBooking(userId: string, bookingId: string) {
+  const booking = await getBookingOrThrow(bookingId);
+  const resource = await getResourceOrThrow(booking.resourceId!);
+  if (booking.event.createdById !== userId && !(await canManageResources(resource.businessId, userId))) {
+    throw new ResourceBookingError(403, 'forbidden', 'Insufficient permissions: only the organizer or a resource manager can cancel this booking');
+  }
+  await prisma.eventAttendee.delete({ where: { id: bookingId } });
+}
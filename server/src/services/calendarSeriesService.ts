@@ -0,0 +1,282 @@
+import { EventStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { Occurrence, RecurringEvent, expandOccurrences, ruleFromSplit } from '../utils/recurrence';
+
+// THIS: one occurrence; FOLLOWING: this and later occurrences (splits the series); SERIES: all
+export const EDIT_SCOPES = ['THIS', 'FOLLOWING', 'SERIES'] as const;
+export type EditScope = typeof EDIT_SCOPES[number];
+
+export interface SeriesEvent {
+  id: string;
+  calendarId: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  onlineMeetingLink: string | null;
+  startAt: Date;
+  endAt: Date;
+  allDay: boolean;
+  timezone: string;
+  status: EventStatus;
+  recurrenceRule: string | null;
+  recurrenceEndAt: Date | null;
+}
+
+/** Fields of an update request that apply to the new half of a split series */
+export interface SeriesChanges {
+  title?: string;
+  description?: string | null;
+  location?: string | null;
+  onlineMeetingLink?: string | null;
+  startAt?: Date;
+  endAt?: Date;
+  allDay?: boolean;
+  timezone?: string;
+  recurrenceRule?: string | null;
+  recurrenceEndAt?: Date | null;
+  attendees?: Array<{ userId?: string | null; email?: string | null; response?: string | null }>;
+}
+
+export function parseEditScope(value: unknown): EditScope {
+  return typeof value === 'string' && (EDIT_SCOPES as readonly string[]).includes(value)
+    ? value as EditScope
+    : 'SERIES';
+}
+
+/** The occurrence an exception replaces; exceptions from before recurrenceId existed kept their start */
+export function exceptionOriginalStart(exception: { recurrenceId: Date | null; startAt: Date }): Date {
+  return exception.recurrenceId ?? exception.startAt;
+}
+
+/**
+ * Whether an update moves the occurrences of a series, which orphans its exceptions:
+ * they are keyed by the occurrence start they replace.
+ */
+export function movesOccurrences(series: SeriesEvent, changes: SeriesChanges): boolean {
+  return (changes.startAt !== undefined && changes.startAt.getTime() !== series.startAt.getTime())
+    || (changes.recurrenceRule !== undefined && (changes.recurrenceRule || null) !== series.recurrenceRule)
+    || (changes.timezone !== undefined && changes.timezone !== series.timezone);
+}
+
+/** Start, end and rule of the series that takes over at `splitAt` in a "this and following" edit */
+export function splitTiming(series: SeriesEvent, splitAt: Date, changes: SeriesChanges) {
+  const durationMs = series.endAt.getTime() - series.startAt.getTime();
+  const startAt = changes.startAt ?? splitAt;
+  return {
+    startAt,
+    endAt: changes.endAt ?? new Date(startAt.getTime() + durationMs),
+    recurrenceRule: changes.recurrenceRule !== undefined ? changes.recurrenceRule || null : ruleFromSplit(series, splitAt),
+    recurrenceEndAt: changes.recurrenceEndAt !== undefined ? changes.recurrenceEndAt : series.recurrenceEndAt
+  };
+}
+
+/** Original starts (ms) of the occurrences each series has exceptions for, trashed ones included */
+export async function loadExceptionStarts(
+  seriesIds: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<Map<string, Set<number>>> {
+  const starts = new Map<string, Set<number>>();
+  if (seriesIds.length === 0) return starts;
+  const exceptions: Array<{ parentEventId: string | null; recurrenceId: Date | null; startAt: Date }> =
+    await db.event.findMany({
+      where: { parentEventId: { in: seriesIds } },
+      select: { parentEventId: true, recurrenceId: true, startAt: true }
+    });
+  for (const exception of exceptions) {
+    const set = starts.get(exception.parentEventId!) ?? new Set<number>();
+    set.add(exceptionOriginalStart(exception).getTime());
+    starts.set(exception.parentEventId!, set);
+  }
+  return starts;
+}
+
+/**
+ * Event filter for anything with an occurrence in [start, end): events overlapping it, and
+ * series that started earlier and are still running. Exceptions of a trashed series go with it.
+ */
+export function inRangeWhere(start: Date, end: Date) {
+  return {
+    AND: [
+      {
+        OR: [
+          { startAt: { lt: end }, endAt: { gt: start } },
+          {
+            parentEventId: null,
+            recurrenceRule: { not: null },
+            startAt: { lt: end },
+            OR: [{ recurrenceEndAt: null }, { recurrenceEndAt: { gte: start } }]
+          }
+        ]
+      },
+      { OR: [{ parentEventId: null }, { parentEvent: { trashedAt: null } }] }
+    ]
+  };
+}
+
+/**
+ * Occurrences of the events in [start, end). Series are expanded in their own time zone and
+ * skip the occurrences their exceptions replace; exceptions and one-off events are used as-is.
+ */
+export async function expandEvents<T extends RecurringEvent & { id: string; parentEventId: string | null }>(
+  events: T[],
+  start: Date,
+  end: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<Array<Occurrence & { event: T }>> {
+  const exceptionStarts = await loadExceptionStarts(
+    events.filter((event) => event.recurrenceRule && !event.parentEventId).map((event) => event.id),
+    db
+  );
+  return expandLoadedEvents(events, start, end, exceptionStarts);
+}
+
+/** `expandEvents` with the series' exception starts (from `loadExceptionStarts`) already at hand */
+export function expandLoadedEvents<T extends RecurringEvent & { id: string; parentEventId: string | null }>(
+  events: T[],
+  start: Date,
+  end: Date,
+  exceptionStarts: Map<string, Set<number>>
+): Array<Occurrence & { event: T }> {
+  return events.flatMap((event) => {
+    const occurrences = event.parentEventId
+      ? expandOccurrences({ ...event, recurrenceRule: null }, start, end)
+      : expandOccurrences(event, start, end, exceptionStarts.get(event.id));
+    return occurrences.map((occurrence) => ({ ...occurrence, event }));
+  });
+}
+
+/** Conflict check results: one entry per occurring event, soonest first */
+export function toConflicts<T extends { id: string; calendarId: string; title: string; allDay: boolean; timezone: string }>(
+  occurrences: Array<Occurrence & { event: T }>
+) {
+  return occurrences
+    .map(({ event, startAt, endAt }) => ({
+      id: event.id,
+      calendarId: event.calendarId,
+      title: event.title,
+      startAt,
+      endAt,
+      allDay: event.allDay,
+      timezone: event.timezone
+    }))
+    .sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+}
+
+/** The exception already standing in for an occurrence, if any */
+export async function findException(seriesId: string, occurrenceStartAt: Date) {
+  return prisma.event.findFirst({
+    where: {
+      parentEventId: seriesId,
+      OR: [{ recurrenceId: occurrenceStartAt }, { recurrenceId: null, startAt: occurrenceStartAt }]
+    }
+  });
+}
+
+async function exceptionsFrom(seriesId: string, from: Date) {
+  const exceptions: Array<{ id: string; recurrenceId: Date | null; startAt: Date }> = await prisma.event.findMany({
+    where: { parentEventId: seriesId },
+    select: { id: true, recurrenceId: true, startAt: true }
+  });
+  return exceptions.filter((exception) => exceptionOriginalStart(exception) >= from).map((exception) => exception.id);
+}
+
+// Exceptions that no longer line up with the series' occurrences leave it for the trash;
+// trashed exceptions that stay attached keep hiding the occurrence they replaced
+function orphanedException() {
+  return { parentEventId: null, recurrenceId: null, trashedAt: new Date() };
+}
+
+/** Detaches and trashes the exceptions of a series whose occurrences moved */
+export async function dropExceptions(seriesId: string, from: Date = new Date(0)) {
+  const ids = await exceptionsFrom(seriesId, from);
+  if (ids.length === 0) return;
+  await prisma.event.updateMany({ where: { id: { in: ids } }, data: orphanedException() });
+}
+
+/**
+ * Ends a series just before `splitAt` ("delete this and following"). Exceptions from the
+ * split on go to the trash along with the occurrences they replaced.
+ */
+export async function endSeriesBefore(series: SeriesEvent, splitAt: Date) {
+  const ids = await exceptionsFrom(series.id, splitAt);
+  await prisma.$transaction([
+    prisma.event.update({
+      where: { id: series.id },
+      data: { recurrenceEndAt: new Date(splitAt.getTime() - 1) }
+    }),
+    prisma.event.updateMany({ where: { id: { in: ids } }, data: { trashedAt: new Date() } })
+  ]);
+}
+
+/**
+ * "This and following" edit: the original series ends before `splitAt` and a new series with
+ * the changes starts there. Later exceptions move to the new series when its occurrences stay
+ * where they were; otherwise they no longer line up and are dropped. People and reminders are
+ * copied unless the changes replace them; `resourceAttendees` are the new series' resources,
+ * checked in the resource-locked `tx` the split is written through.
+ */
+export async function splitSeries(
+  userId: string,
+  series: SeriesEvent,
+  splitAt: Date,
+  changes: SeriesChanges,
+  resourceAttendees: Array<{ resourceId: string; response: string }>,
+  tx: Prisma.TransactionClient
+) {
+  const { startAt, endAt, recurrenceRule, recurrenceEndAt } = splitTiming(series, splitAt, changes);
+  const keepsExceptions = startAt.getTime() === splitAt.getTime()
+    && changes.recurrenceRule === undefined
+    && (changes.timezone === undefined || changes.timezone === series.timezone);
+
+  const [people, reminders] = await Promise.all([
+    changes.attendees
+      ? Promise.resolve(changes.attendees)
+      : prisma.eventAttendee.findMany({
+          where: { eventId: series.id, resourceId: null },
+          select: { userId: true, email: true, response: true }
+        }),
+    prisma.reminder.findMany({ where: { eventId: series.id }, select: { method: true, minutesBefore: true } })
+  ]);
+  const followingIds = await exceptionsFrom(series.id, splitAt);
+
+  await tx.event.update({
+    where: { id: series.id },
+    data: { recurrenceEndAt: new Date(splitAt.getTime() - 1) }
+  });
+  const created = await tx.event.create({
+    data: {
+      calendarId: series.calendarId,
+      title: changes.title ?? series.title,
+      description: changes.description !== undefined ? changes.description : series.description,
+      location: changes.location !== undefined ? changes.location : series.location,
+      onlineMeetingLink: changes.onlineMeetingLink !== undefined ? changes.onlineMeetingLink : series.onlineMeetingLink,
+      startAt,
+      endAt,
+      allDay: changes.allDay ?? series.allDay,
+      timezone: changes.timezone || series.timezone,
+      status: series.status,
+      recurrenceRule,
+      recurrenceEndAt,
+      createdById: userId,
+      attendees: {
+        create: [
+          ...people.map((person) => ({
+            userId: person.userId || null,
+            email: person.email || null,
+            response: person.response || 'NEEDS_ACTION'
+          })),
+          ...resourceAttendees
+        ]
+      },
+      reminders: { create: reminders }
+    },
+    include: { attendees: true, reminders: true, attachments: true }
+  });
+  if (followingIds.length > 0) {
+    await tx.event.updateMany({
+      where: { id: { in: followingIds } },
+      data: keepsExceptions ? { parentEventId: created.id } : orphanedException()
+    });
+  }
+  return created;
+}
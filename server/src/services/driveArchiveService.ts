@@ -0,0 +1,350 @@
+import path from 'path';
+import crypto from 'crypto';
+import { Transform, Writable } from 'stream';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { storageService } from './storageService';
+import { ArchiveFormat, createArchiveWriter } from '../utils/archiveStream';
+
+// Upper bounds on what one archive may list; file contents themselves are streamed
+export const MAX_ARCHIVE_ENTRIES = 10_000;
+export const MAX_ARCHIVE_SELECTION = 500;
+
+// Deflating these again costs CPU for no gain
+const COMPRESSED_TYPE = /^(image\/(?!svg|bmp|x-icon)|video\/|audio\/|application\/(zip|gzip|x-7z|x-rar|x-bzip2|x-xz|pdf)|application\/vnd\.openxmlformats)/;
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  tar: 'application/x-tar'
+};
+
+export class ArchiveError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface ArchiveEntry {
+  path: string; // '/'-separated, relative to the archive root
+  kind: 'directory' | 'file';
+  modifiedAt: Date;
+  file?: { id: string; storagePath: string; size: number; type: string };
+}
+
+export interface ArchivePlan {
+  entries: ArchiveEntry[];
+  fileIds: string[];
+  totalBytes: number;
+  skipped: number; // Files and folders left out because the user can't read them
+}
+
+export interface ArchiveSelection {
+  fileIds?: string[];
+  folderIds?: string[];
+}
+
+type FileRow = {
+  id: string;
+  name: string;
+  userId: string;
+  folderId: string | null;
+  path: string | null;
+  url: string;
+  size: number;
+  type: string;
+  updatedAt: Date;
+};
+
+type FolderRow = { id: string; name: string; userId: string; parentId: string | null; updatedAt: Date };
+
+const FILE_SELECT = {
+  id: true, name: true, userId: true, folderId: true, path: true, url: true, size: true, type: true, updatedAt: true
+} as const;
+const FOLDER_SELECT = { id: true, name: true, userId: true, parentId: true, updatedAt: true } as const;
+
+/** A single path segment: no separators, control characters or dot names */
+export function sanitizeEntryName(name: string): string {
+  // eslint-disable-next-line no-control-regex
+  const cleaned = name.replace(/[\u0000-\u001f\u007f]/g, '').replace(/[\\/]/g, '_').trim();
+  if (!cleaned || cleaned === '.' || cleaned === '..') return '_';
+  return cleaned;
+}
+
+/**
+ * Make `name` unique among its siblings by numbering it like "report (1).pdf".
+ * Comparison ignores case so archives extract cleanly on Windows and macOS.
+ */
+export function uniqueEntryName(name: string, taken: Set<string>): string {
+  const extension = path.extname(name);
+  const base = extension ? name.slice(0, -extension.length) : name;
+  let candidate = name;
+  for (let n = 1; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+export function archiveFileName(name: string, format: ArchiveFormat = 'zip'): string {
+  return `${sanitizeEntryName(name)}.${format}`;
+}
+
+/** Owner, or a read grant on the folder or any folder above it */
+export async function canReadFolderTree(userId: string, folderId: string): Promise<boolean> {
+  const folder = await prisma.folder.findUnique({ where: { id: folderId }, select: { userId: true } });
+  if (!folder) return false;
+  if (folder.userId === userId) return true;
+  return hasInheritedFolderGrant(userId, folderId);
+}
+
+async function hasInheritedFolderGrant(userId: string, folderId: string | null): Promise<boolean> {
+  const seen = new Set<string>();
+  let current = folderId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const grant = await prisma.folderPermission.findFirst({
+      where: { folderId: current, userId, canRead: true },
+      select: { id: true }
+    });
+    if (grant) return true;
+    const folder = await prisma.folder.findUnique({ where: { id: current }, select: { parentId: true } });
+    current = folder?.parentId ?? null;
+  }
+  return false;
+}
+
+async function readableFileIds(userId: string, files: FileRow[], grantedFolderIds: Set<string>): Promise<Set<string>> {
+  const readable = new Set<string>();
+  const unresolved: string[] = [];
+  for (const file of files) {
+    if (file.userId === userId || (file.folderId && grantedFolderIds.has(file.folderId))) {
+      readable.add(file.id);
+    } else {
+      unresolved.push(file.id);
+    }
+  }
+  if (unresolved.length > 0) {
+    const permissions = await prisma.filePermission.findMany({
+      where: { userId, canRead: true, fileId: { in: unresolved } },
+      select: { fileId: true }
+    });
+    permissions.forEach((permission) => readable.add(permission.fileId));
+  }
+  return readable;
+}
+
+/**
+ * Resolve a selection of files and folders into archive entries, keeping the folder
+ * structure. Folder grants apply to everything below them; files and folders the user
+ * can't read are left out and counted in `skipped`.
+ */
+export async function planArchive(userId: string, selection: ArchiveSelection): Promise<ArchivePlan> {
+  const fileIds = [...new Set(selection.fileIds ?? [])];
+  const folderIds = [...new Set(selection.folderIds ?? [])];
+  if (fileIds.length + folderIds.length === 0) {
+    throw new ArchiveError(400, 'empty_selection', 'Select at least one file or folder');
+  }
+  if (fileIds.length + folderIds.length > MAX_ARCHIVE_SELECTION) {
+    throw new ArchiveError(400, 'selection_too_large', `Select at most ${MAX_ARCHIVE_SELECTION} items`);
+  }
+
+  const plan: ArchivePlan = { entries: [], fileIds: [], totalBytes: 0, skipped: 0 };
+  const rootNames = new Set<string>();
+
+  const addEntry = (entry: ArchiveEntry) => {
+    if (plan.entries.length >= MAX_ARCHIVE_ENTRIES) {
+      throw new ArchiveError(413, 'too_many_items', `Archives are limited to ${MAX_ARCHIVE_ENTRIES} files and folders`);
+    }
+    plan.entries.push(entry);
+  };
+  const addFile = (file: FileRow, entryPath: string) => {
+    const storagePath = file.path ?? storageService.extractPathFromUrl(file.url);
+    if (!storagePath) {
+      plan.skipped++;
+      return;
+    }
+    addEntry({
+      path: entryPath,
+      kind: 'file',
+      modifiedAt: file.updatedAt,
+      file: { id: file.id, storagePath, size: file.size, type: file.type }
+    });
+    plan.fileIds.push(file.id);
+    plan.totalBytes += file.size;
+  };
+
+  // Selected files go at the top level
+  const selectedFiles = fileIds.length > 0
+    ? await prisma.file.findMany({ where: { id: { in: fileIds }, trashedAt: null }, select: FILE_SELECT })
+    : [];
+  const grantedParents = new Set<string>();
+  for (const file of selectedFiles) {
+    if (file.userId !== userId && file.folderId && await hasInheritedFolderGrant(userId, file.folderId)) {
+      grantedParents.add(file.folderId);
+    }
+  }
+  const readableSelected = await readableFileIds(userId, selectedFiles, grantedParents);
+  plan.skipped += fileIds.length - readableSelected.size;
+  for (const file of selectedFiles) {
+    if (readableSelected.has(file.id)) {
+      addFile(file, uniqueEntryName(sanitizeEntryName(file.name), rootNames));
+    }
+  }
+
+  // Selected folders, then their contents level by level
+  const selectedFolders = folderIds.length > 0
+    ? await prisma.folder.findMany({ where: { id: { in: folderIds }, trashedAt: null }, select: FOLDER_SELECT })
+    : [];
+  plan.skipped += folderIds.length - selectedFolders.length;
+
+  type Pending = { folder: FolderRow; path: string; granted: boolean };
+  let level: Pending[] = [];
+  for (const folder of selectedFolders) {
+    const granted = folder.userId !== userId && await hasInheritedFolderGrant(userId, folder.id);
+    if (folder.userId !== userId && !granted) {
+      plan.skipped++;
+      continue;
+    }
+    level.push({ folder, path: uniqueEntryName(sanitizeEntryName(folder.name), rootNames), granted });
+  }
+
+  const visited = new Set<string>();
+  while (level.length > 0) {
+    level = level.filter((item) => !visited.has(item.folder.id));
+    level.forEach((item) => visited.add(item.folder.id));
+    if (level.length === 0) break;
+
+    const parentIds = level.map((item) => item.folder.id);
+    const [children, files] = await Promise.all([
+      prisma.folder.findMany({
+        where: { parentId: { in: parentIds }, trashedAt: null },
+        select: FOLDER_SELECT,
+        orderBy: { name: 'asc' }
+      }),
+      prisma.file.findMany({
+        where: { folderId: { in: parentIds }, trashedAt: null },
+        select: FILE_SELECT,
+        orderBy: { name: 'asc' }
+      })
+    ]);
+
+    const grantedFolders = new Set(level.filter((item) => item.granted).map((item) => item.folder.id));
+    const readable = await readableFileIds(userId, files, grantedFolders);
+    const childGrants = new Set(
+      (await prisma.folderPermission.findMany({
+        where: { userId, canRead: true, folderId: { in: children.map((child) => child.id) } },
+        select: { folderId: true }
+      })).map((permission) => permission.folderId)
+    );
+
+    const next: Pending[] = [];
+    for (const item of level) {
+      addEntry({ path: item.path, kind: 'directory', modifiedAt: item.folder.updatedAt });
+      const names = new Set<string>();
+
+      for (const child of children.filter((folder) => folder.parentId === item.folder.id)) {
+        const granted = item.granted || childGrants.has(child.id);
+        if (child.userId !== userId && !granted) {
+          plan.skipped++;
+          continue;
+        }
+        next.push({ folder: child, path: `${item.path}/${uniqueEntryName(sanitizeEntryName(child.name), names)}`, granted });
+      }
+      for (const file of files.filter((row) => row.folderId === item.folder.id)) {
+        if (!readable.has(file.id)) {
+          plan.skipped++;
+          continue;
+        }
+        addFile(file, `${item.path}/${uniqueEntryName(sanitizeEntryName(file.name), names)}`);
+      }
+    }
+    level = next;
+  }
+
+  return plan;
+}
+
+/**
+ * Stream the planned entries into `output` as an archive. Files missing from storage
+ * are logged and left out rather than failing the whole download.
+ */
+export async function writeArchive(
+  plan: ArchivePlan,
+  output: Writable,
+  format: ArchiveFormat = 'zip'
+): Promise<{ bytes: number; missing: number }> {
+  const writer = createArchiveWriter(format, output);
+  let missing = 0;
+
+  for (const entry of plan.entries) {
+    if (entry.kind === 'directory' || !entry.file) {
+      await writer.addDirectory(entry.path, entry.modifiedAt);
+      continue;
+    }
+    if (!(await storageService.fileExists(entry.file.storagePath))) {
+      missing++;
+      await logger.warn('Drive file missing from storage, left out of archive', {
+        operation: 'drive_archive_missing_file',
+        fileId: entry.file.id
+      });
+      continue;
+    }
+    await writer.addFile(entry.path, storageService.createReadStream(entry.file.storagePath), {
+      modifiedAt: entry.modifiedAt,
+      size: entry.file.size,
+      compress: !COMPRESSED_TYPE.test(entry.file.type)
+    });
+  }
+
+  await writer.finish();
+  return { bytes: writer.bytesWritten, missing };
+}
+
+/** One download activity per archived file, as single-file downloads record */
+export async function recordArchiveDownload(userId: string, plan: ArchivePlan, archiveName: string): Promise<void> {
+  if (plan.fileIds.length === 0) return;
+  await prisma.activity.createMany({
+    data: plan.fileIds.map((fileId) => ({
+      type: 'download',
+      userId,
+      fileId,
+      details: { action: 'archive_download', archiveName }
+    }))
+  });
+}
+
+/**
+ * Write an archive to storage instead of a response. Resolves with where it was
+ * stored, its size and SHA-256; nothing is left behind if writing fails.
+ */
+export async function storeArchive(plan: ArchivePlan, format: ArchiveFormat, destinationPath: string) {
+  const hash = crypto.createHash('sha256');
+  const archive = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+  const upload = storageService.uploadStream(archive, destinationPath, ARCHIVE_CONTENT_TYPES[format]);
+  // A failed upload also fails the archive writes; the error is surfaced by either await below
+  upload.catch(() => undefined);
+
+  let written: { bytes: number; missing: number };
+  try {
+    written = await writeArchive(plan, archive, format);
+    archive.end();
+  } catch (error) {
+    archive.destroy(error instanceof Error ? error : new Error(String(error)));
+    await upload.catch(() => undefined);
+    await storageService.deleteFile(destinationPath);
+    throw error;
+  }
+  const stored = await upload;
+  return { stored, size: written.bytes, missing: written.missing, checksum: hash.digest('hex') };
+}
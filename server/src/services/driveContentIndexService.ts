@@ -0,0 +1,239 @@
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { storageService } from './storageService';
+import { detectDocumentKind, extractDocumentText } from '../utils/documentText';
+import { classifyFileText } from './driveDlpService';
+import type { SearchExcerpt } from 'shared/types/search';
+
+// Extraction holds the whole file in memory, so larger files stay unindexed
+export const MAX_INDEXED_FILE_BYTES = 50 * 1024 * 1024;
+// to_tsvector rejects vectors over 1MB; very long documents are indexed up to this many characters
+export const MAX_INDEXED_CHARS = 500_000;
+const MAX_ATTEMPTS = 3;
+const BATCH_SIZE = 10;
+const BACKFILL_BATCH_SIZE = 200;
+
+// ts_headline wraps matches in these; extraction strips control characters, so they can't occur in the text
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const HEADLINE_OPTIONS =
+  `StartSel="${MATCH_START}", StopSel="${MATCH_END}", MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface ContentMatch {
+  fileId: string;
+  rank: number; // 0-1, higher is better
+  excerpt: SearchExcerpt | null;
+}
+
+let queueRunning = false;
+
+export function isIndexableFile(file: { name: string; type: string; size: number }): boolean {
+  return file.size <= MAX_INDEXED_FILE_BYTES && detectDocumentKind(file.type, file.name) !== null;
+}
+
+/**
+ * Turn ts_headline output into plain text plus highlight offsets, joining highlights
+ * separated only by whitespace so a matched phrase reads as one.
+ */
+export function parseHeadline(headline: string): SearchExcerpt {
+  let text = '';
+  let start = -1;
+  const highlights: SearchExcerpt['highlights'] = [];
+
+  for (const ch of headline) {
+    if (ch === MATCH_START) {
+      start = text.length;
+    } else if (ch === MATCH_END) {
+      if (start >= 0 && text.length > start) {
+        const previous = highlights[highlights.length - 1];
+        if (previous && /^\s*$/.test(text.slice(previous.end, start))) {
+          previous.end = text.length;
+        } else {
+          highlights.push({ start, end: text.length });
+        }
+      }
+      start = -1;
+    } else {
+      text += ch;
+    }
+  }
+  return { text, highlights };
+}
+
+/**
+ * Mark a file for (re)indexing and kick the queue. Never throws: indexing must not
+ * fail the upload or edit that triggered it.
+ */
+export async function queueFileForIndexing(fileId: string): Promise<void> {
+  try {
+    await prisma.driveFileContent.upsert({
+      where: { fileId },
+      create: { fileId },
+      update: { status: 'pending', attempts: 0, error: null }
+    });
+    setImmediate(() => {
+      void processIndexQueue();
+    });
+  } catch (error) {
+    await logger.error('Failed to queue Drive file for indexing', {
+      operation: 'drive_index_queue',
+      fileId,
+      error: {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined
+      }
+    });
+  }
+}
+
+/** Extract and store the text of one file */
+export async function indexFile(fileId: string): Promise<void> {
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: { id: true, name: true, type: true, size: true, path: true, checksum: true }
+  });
+  if (!file) return;
+
+  if (!file.path || !isIndexableFile(file)) {
+    await prisma.driveFileContent.update({
+      where: { fileId },
+      data: { status: 'unsupported', text: null, checksum: file.checksum, error: null, indexedAt: new Date() }
+    });
+    return;
+  }
+
+  try {
+    const buffer = await storageService.getFileBuffer(file.path);
+    const text = extractDocumentText(buffer, file.type, file.name);
+
+    // Content replaced mid-extraction: leave the row pending so the new content is picked up
+    const current = await prisma.file.findUnique({ where: { id: fileId }, select: { checksum: true } });
+    if (!current || current.checksum !== file.checksum) return;
+
+    await prisma.driveFileContent.update({
+      where: { fileId },
+      data: {
+        status: text === null ? 'unsupported' : 'indexed',
+        text: text === null ? null : text.slice(0, MAX_INDEXED_CHARS),
+        checksum: file.checksum,
+        error: null,
+        indexedAt: new Date()
+      }
+    });
+    if (text !== null) {
+      await classifyIndexedText(fileId, text);
+    }
+  } catch (error) {
+    const row = await prisma.driveFileContent.update({
+      where: { fileId },
+      data: {
+        attempts: { increment: 1 },
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      select: { attempts: true }
+    });
+    if (row.attempts >= MAX_ATTEMPTS) {
+      await prisma.driveFileContent.update({ where: { fileId }, data: { status: 'failed', text: null } });
+    }
+    await logger.warn('Failed to extract Drive file text', {
+      operation: 'drive_index_extract',
+      fileId,
+      attempts: row.attempts,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+}
+
+// Classification is best effort: a failure must not mark the extracted text as failed
+async function classifyIndexedText(fileId: string, text: string): Promise<void> {
+  try {
+    await classifyFileText(fileId, text);
+  } catch (error) {
+    await logger.warn('Failed to classify Drive file text', {
+      operation: 'drive_dlp_scan',
+      fileId,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+}
+
+/**
+ * Queue files the indexer has never seen, e.g. uploaded before indexing existed or
+ * created by flows that don't queue themselves. Unsupported types are settled right away.
+ */
+export async function queueUnindexedFiles(limit = BACKFILL_BATCH_SIZE): Promise<number> {
+  const files = await prisma.file.findMany({
+    where: { content: null },
+    select: { id: true, name: true, type: true, size: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+  if (files.length === 0) return 0;
+
+  await prisma.driveFileContent.createMany({
+    data: files.map((file) => ({
+      fileId: file.id,
+      status: isIndexableFile(file) ? 'pending' : 'unsupported'
+    })),
+    skipDuplicates: true
+  });
+  return files.length;
+}
+
+/** Work through pending files; concurrent calls return immediately while a run is active */
+export async function processIndexQueue(batchSize = BATCH_SIZE): Promise<number> {
+  if (queueRunning) return 0;
+  queueRunning = true;
+  let processed = 0;
+  try {
+    for (;;) {
+      const pending = await prisma.driveFileContent.findMany({
+        where: { status: 'pending', attempts: { lt: MAX_ATTEMPTS } },
+        orderBy: { updatedAt: 'asc' },
+        take: batchSize,
+        select: { fileId: true }
+      });
+      if (pending.length === 0) break;
+
+      for (const { fileId } of pending) {
+        await indexFile(fileId);
+        processed++;
+      }
+    }
+  } finally {
+    queueRunning = false;
+  }
+  return processed;
+}
+
+/**
+ * Files owned by the user whose text matches the query (web-search syntax: quoted
+ * phrases, OR, -exclusions), best first, with a highlighted excerpt.
+ */
+export async function searchFileContent(userId: string, query: string, limit = 20): Promise<ContentMatch[]> {
+  const trimmed = query.trim();
+  if (trimmed.length < 2) return [];
+
+  const rows = await prisma.$queryRaw<Array<{ fileId: string; rank: number; headline: string | null }>>`
+    SELECT m."fileId", m.rank,
+      ts_headline('english', c."text", websearch_to_tsquery('english', ${trimmed}), ${HEADLINE_OPTIONS}) AS headline
+    FROM (
+      SELECT c."fileId", ts_rank_cd(c."searchVector", q, 32) AS rank
+      FROM "drive_file_contents" c
+      JOIN "files" f ON f."id" = c."fileId"
+      CROSS JOIN websearch_to_tsquery('english', ${trimmed}) q
+      WHERE c."searchVector" @@ q
+        AND f."userId" = ${userId}
+        AND f."trashedAt" IS NULL
+      ORDER BY rank DESC
+      LIMIT ${limit}
+    ) m
+    JOIN "drive_file_contents" c ON c."fileId" = m."fileId"
+    ORDER BY m.rank DESC`;
+
+  return rows.map((row) => ({
+    fileId: row.fileId,
+    rank: Number(row.rank),
+    excerpt: row.headline ? parseHeadline(row.headline) : null
+  }));
+}
@@ -0,0 +1,986 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { prisma } from '../lib/prisma';
+import { storageService } from './storageService';
+import { assertStorageAvailable, resolveDashboardScope, resolveSharedDriveScope } from './storageQuotaService';
+import { getDriveRole, roleRank } from './sharedDriveService';
+import { replaceFileContent } from './driveFileVersionService';
+import { queueFileForIndexing } from './driveContentIndexService';
+import { sanitizeEntryName, uniqueEntryName } from './driveArchiveService';
+import type { LockRequest } from '../utils/davXml';
+
+const MB = 1024 * 1024;
+
+export const DAV_MAX_UPLOAD_BYTES = parseInt(process.env.DRIVE_DAV_MAX_UPLOAD_BYTES || String(512 * MB), 10);
+/** Largest folder tree a single COPY duplicates */
+export const MAX_DAV_COPY_ITEMS = 500;
+export const DEFAULT_LOCK_SECONDS = 60 * 60;
+export const MAX_LOCK_SECONDS = 24 * 60 * 60;
+
+export const MY_DRIVE_NAME = 'My Drive';
+export const SHARED_DRIVES_NAME = 'Shared drives';
+export const SHARED_WITH_ME_NAME = 'Shared with me';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.rtf': 'application/rtf'
+};
+
+/**
+ * Raised for WebDAV requests that can't be served; `status` is the HTTP status to answer
+ * with. For 423 the code is the DAV: precondition that failed.
+ */
+export class DavError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'DavError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const FILE_SELECT = {
+  id: true, name: true, userId: true, type: true, size: true, checksum: true, path: true, url: true,
+  folderId: true, dashboardId: true, sharedDriveId: true, createdAt: true, updatedAt: true
+} as const;
+const FOLDER_SELECT = {
+  id: true, name: true, userId: true, parentId: true, dashboardId: true, sharedDriveId: true, createdAt: true, updatedAt: true
+} as const;
+
+export type DavFile = {
+  id: string;
+  name: string;
+  userId: string;
+  type: string;
+  size: number;
+  checksum: string | null;
+  path: string | null;
+  url: string;
+  folderId: string | null;
+  dashboardId: string | null;
+  sharedDriveId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type DavFolder = {
+  id: string;
+  name: string;
+  userId: string;
+  parentId: string | null;
+  dashboardId: string | null;
+  sharedDriveId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Where a new file or folder goes */
+export interface Placement {
+  folderId: string | null;
+  dashboardId: string | null;
+  sharedDriveId: string | null;
+}
+
+export type DavLock = {
+  id: string;
+  token: string;
+  fileId: string | null;
+  folderId: string | null;
+  userId: string;
+  scope: string;
+  depth: string;
+  owner: string | null;
+  expiresAt: Date;
+};
+
+interface NodeBase {
+  name: string;
+  /** Path segments below the mount point */
+  segments: string[];
+}
+
+interface ItemNodeBase extends NodeBase {
+  canWrite: boolean;
+  /** Move to another parent or trash: the owner, or a contributor for shared drive items */
+  canManage: boolean;
+  /** Folders above the item, outermost first; depth-infinity locks on them apply to it */
+  ancestorFolderIds: string[];
+}
+
+/**
+ * A resource in the WebDAV namespace. Drive items are arranged under virtual collections:
+ * My Drive, one entry per dashboard, Shared drives and Shared with me.
+ */
+export type DavNode =
+  | (NodeBase & { kind: 'root' | 'shared-drives' | 'shared-with-me'; createdAt?: Date })
+  | (NodeBase & { kind: 'space'; placement: Placement; canWrite: boolean; createdAt: Date })
+  | (ItemNodeBase & { kind: 'folder'; folder: DavFolder })
+  | (ItemNodeBase & { kind: 'file'; file: DavFile });
+
+export type DavItemNode = Extract<DavNode, { kind: 'folder' | 'file' }>;
+
+export interface DavTarget {
+  parent: DavNode | null;
+  node: DavNode | null;
+  name: string;
+}
+
+/**
+ * Path segments from a request path relative to the mount point, or null when a segment
+ * doesn't decode or is a dot segment.
+ */
+export function splitDavPath(rawPath: string): string[] | null {
+  const segments: string[] = [];
+  for (const raw of rawPath.split('/')) {
+    if (!raw) continue;
+    let segment: string;
+    try {
+      segment = decodeURIComponent(raw);
+    } catch {
+      return null;
+    }
+    if (segment === '.' || segment === '..' || segment.includes('/')) return null;
+    segments.push(segment);
+  }
+  return segments;
+}
+
+/**
+ * Names for a listing, in order: made safe as path segments and unique ignoring case,
+ * so clients on case-insensitive filesystems see every entry. `reserved` names are taken first.
+ */
+export function assignDavNames(names: string[], reserved: string[] = []): string[] {
+  const taken = new Set(reserved.map((name) => name.toLowerCase()));
+  return names.map((name) => uniqueEntryName(sanitizeEntryName(name), taken));
+}
+
+/** The client's Content-Type, or one from the extension when the client sent none or a generic one */
+export function contentTypeFor(name: string, header: string | undefined): string {
+  const declared = header?.split(';')[0].trim().toLowerCase();
+  if (declared && declared !== 'application/octet-stream') return declared;
+  return CONTENT_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/** Whether a lock with this scope can be taken alongside the locks that already cover the resource */
+export function lockConflicts(scope: 'exclusive' | 'shared', existing: Array<Pick<DavLock, 'scope'>>): boolean {
+  if (scope === 'exclusive') return existing.length > 0;
+  return existing.some((lock) => lock.scope === 'exclusive');
+}
+
+/**
+ * Whether the submitted tokens satisfy every lock covering a resource. A lock counts when
+ * its holder submitted its token; other shared locks on the same resource are then
+ * satisfied too.
+ */
+export function locksSatisfied(userId: string, locks: DavLock[], tokens: string[]): boolean {
+  const held = locks.filter((lock) => lock.userId === userId && tokens.includes(lock.token));
+  return locks.every((lock) => held.includes(lock) || (
+    lock.scope === 'shared' &&
+    held.some((own) => own.scope === 'shared' && own.fileId === lock.fileId && own.folderId === lock.folderId)
+  ));
+}
+
+function rootNode(): DavNode {
+  return { kind: 'root', name: '', segments: [] };
+}
+
+function byCreation<T extends { createdAt: Date; id: string }>(a: T, b: T): number {
+  return a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id);
+}
+
+async function folderChain(folderId: string | null): Promise<string[]> {
+  const chain: string[] = [];
+  let current = folderId;
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    const folder = await prisma.folder.findUnique({ where: { id: current }, select: { parentId: true } });
+    current = folder?.parentId ?? null;
+  }
+  return chain;
+}
+
+async function descendantFolderIds(folderId: string): Promise<string[]> {
+  const found = new Set<string>();
+  let frontier = [folderId];
+  while (frontier.length > 0) {
+    const children = await prisma.folder.findMany({ where: { parentId: { in: frontier } }, select: { id: true } });
+    frontier = children.map((child) => child.id).filter((id) => id !== folderId && !found.has(id));
+    frontier.forEach((id) => found.add(id));
+  }
+  return [...found];
+}
+
+async function writeGrants(userId: string, fileIds: string[], folderIds: string[]) {
+  const [files, folders] = await Promise.all([
+    fileIds.length > 0
+      ? prisma.filePermission.findMany({ where: { userId, canWrite: true, fileId: { in: fileIds } }, select: { fileId: true } })
+      : [],
+    folderIds.length > 0
+      ? prisma.folderPermission.findMany({ where: { userId, canWrite: true, folderId: { in: folderIds } }, select: { folderId: true } })
+      : []
+  ]);
+  return new Set([...files.map((grant) => grant.fileId), ...folders.map((grant) => grant.folderId)]);
+}
+
+/**
+ * Nodes for folders and files under one parent. Shared drive items follow the parent's
+ * drive role; personal items are managed by their owner and writable by others through
+ * the parent or their own grant.
+ */
+async function itemNodes(
+  userId: string,
+  parent: { segments: string[]; canWrite: boolean; ancestorFolderIds: string[] },
+  folders: DavFolder[],
+  files: DavFile[],
+  ancestorsOf?: (item: DavFolder | DavFile) => string[]
+): Promise<DavItemNode[]> {
+  folders.sort(byCreation);
+  files.sort(byCreation);
+  const needsGrant = (item: DavFolder | DavFile) => item.sharedDriveId !== null || item.userId !== userId;
+  const granted = parent.canWrite
+    ? new Set<string>()
+    : await writeGrants(
+        userId,
+        files.filter(needsGrant).map((file) => file.id),
+        folders.filter(needsGrant).map((folder) => folder.id)
+      );
+
+  const names = assignDavNames([...folders.map((folder) => folder.name), ...files.map((file) => file.name)]);
+  const access = (item: DavFolder | DavFile) => {
+    if (!needsGrant(item)) return { canWrite: true, canManage: true };
+    return {
+      canWrite: parent.canWrite || granted.has(item.id),
+      canManage: item.sharedDriveId !== null && parent.canWrite
+    };
+  };
+
+  return [
+    ...folders.map((folder, index): DavItemNode => ({
+      kind: 'folder',
+      folder,
+      name: names[index],
+      segments: [...parent.segments, names[index]],
+      ancestorFolderIds: ancestorsOf ? ancestorsOf(folder) : parent.ancestorFolderIds,
+      ...access(folder)
+    })),
+    ...files.map((file, index): DavItemNode => ({
+      kind: 'file',
+      file,
+      name: names[folders.length + index],
+      segments: [...parent.segments, names[folders.length + index]],
+      ancestorFolderIds: ancestorsOf ? ancestorsOf(file) : parent.ancestorFolderIds,
+      ...access(file)
+    }))
+  ];
+}
+
+async function listRoot(userId: string): Promise<DavNode[]> {
+  const dashboards = await prisma.dashboard.findMany({
+    where: { userId },
+    select: { id: true, name: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  });
+  const fixed = [MY_DRIVE_NAME, SHARED_DRIVES_NAME, SHARED_WITH_ME_NAME];
+  const names = assignDavNames(dashboards.map((dashboard) => dashboard.name), fixed);
+  return [
+    {
+      kind: 'space',
+      name: MY_DRIVE_NAME,
+      segments: [MY_DRIVE_NAME],
+      placement: { folderId: null, dashboardId: null, sharedDriveId: null },
+      canWrite: true,
+      createdAt: new Date(0)
+    },
+    ...dashboards.map((dashboard, index): DavNode => ({
+      kind: 'space',
+      name: names[index],
+      segments: [names[index]],
+      placement: { folderId: null, dashboardId: dashboard.id, sharedDriveId: null },
+      canWrite: true,
+      createdAt: dashboard.createdAt
+    })),
+    { kind: 'shared-drives', name: SHARED_DRIVES_NAME, segments: [SHARED_DRIVES_NAME] },
+    { kind: 'shared-with-me', name: SHARED_WITH_ME_NAME, segments: [SHARED_WITH_ME_NAME] }
+  ];
+}
+
+async function listSharedDrives(userId: string, parent: DavNode): Promise<DavNode[]> {
+  const memberships = await prisma.businessMember.findMany({
+    where: { userId, isActive: true },
+    select: { businessId: true }
+  });
+  if (memberships.length === 0) return [];
+  const drives: Array<{ id: string; name: string; createdAt: Date }> = await prisma.sharedDrive.findMany({
+    where: { businessId: { in: memberships.map((membership) => membership.businessId) } },
+    select: { id: true, name: true, createdAt: true },
+    orderBy: [{ name: 'asc' }, { id: 'asc' }]
+  });
+  const roles = await Promise.all(drives.map((drive) => getDriveRole(userId, drive.id)));
+  const visible = drives
+    .map((drive, index) => ({ drive, role: roles[index] }))
+    .filter((entry) => entry.role !== null);
+  const names = assignDavNames(visible.map((entry) => entry.drive.name));
+  return visible.map(({ drive, role }, index): DavNode => ({
+    kind: 'space',
+    name: names[index],
+    segments: [...parent.segments, names[index]],
+    placement: { folderId: null, dashboardId: null, sharedDriveId: drive.id },
+    canWrite: roleRank(role) >= roleRank('CONTRIBUTOR'),
+    createdAt: drive.createdAt
+  }));
+}
+
+async function listSharedWithMe(userId: string, parent: DavNode): Promise<DavNode[]> {
+  const [fileGrants, folderGrants] = await Promise.all([
+    prisma.filePermission.findMany({
+      where: { userId, canRead: true, file: { trashedAt: null, userId: { not: userId } } },
+      select: { file: { select: FILE_SELECT } }
+    }),
+    prisma.folderPermission.findMany({
+      where: { userId, canRead: true, folder: { trashedAt: null, userId: { not: userId } } },
+      select: { folder: { select: FOLDER_SELECT } }
+    })
+  ]);
+  const files = fileGrants.map((grant) => grant.file as DavFile);
+  const folders = folderGrants.map((grant) => grant.folder as DavFolder);
+
+  // These entries sit outside their real tree; locks on their real ancestors still apply
+  const chains = new Map<string, string[]>();
+  for (const item of [...folders.map((folder) => folder.parentId), ...files.map((file) => file.folderId)]) {
+    if (item && !chains.has(item)) chains.set(item, await folderChain(item));
+  }
+  return itemNodes(
+    userId,
+    { segments: parent.segments, canWrite: false, ancestorFolderIds: [] },
+    folders,
+    files,
+    (item) => chains.get(('parentId' in item ? item.parentId : item.folderId) ?? '') ?? []
+  );
+}
+
+/** Children of a collection; files have none. Trashed items are left out. */
+export async function listChildren(userId: string, node: DavNode): Promise<DavNode[]> {
+  switch (node.kind) {
+    case 'root':
+      return listRoot(userId);
+    case 'shared-drives':
+      return listSharedDrives(userId, node);
+    case 'shared-with-me':
+      return listSharedWithMe(userId, node);
+    case 'space': {
+      const { dashboardId, sharedDriveId } = node.placement;
+      const scope = sharedDriveId ? { sharedDriveId } : { userId, dashboardId, sharedDriveId: null };
+      const [folders, files] = await Promise.all([
+        prisma.folder.findMany({ where: { ...scope, parentId: null, trashedAt: null }, select: FOLDER_SELECT }),
+        prisma.file.findMany({ where: { ...scope, folderId: null, trashedAt: null }, select: FILE_SELECT })
+      ]);
+      return itemNodes(userId, { segments: node.segments, canWrite: node.canWrite, ancestorFolderIds: [] }, folders, files);
+    }
+    case 'folder': {
+      const { folder } = node;
+      // In someone else's folder, show their items and the ones this user added
+      const owners = folder.sharedDriveId ? {} : { userId: { in: [...new Set([folder.userId, userId])] } };
+      const [folders, files] = await Promise.all([
+        prisma.folder.findMany({ where: { ...owners, parentId: folder.id, trashedAt: null }, select: FOLDER_SELECT }),
+        prisma.file.findMany({ where: { ...owners, folderId: folder.id, trashedAt: null }, select: FILE_SELECT })
+      ]);
+      return itemNodes(
+        userId,
+        { segments: node.segments, canWrite: node.canWrite, ancestorFolderIds: [...node.ancestorFolderIds, folder.id] },
+        folders,
+        files
+      );
+    }
+    case 'file':
+      return [];
+  }
+}
+
+function findChild(children: DavNode[], name: string): DavNode | null {
+  return children.find((child) => child.name === name) ??
+    children.find((child) => child.name.toLowerCase() === name.toLowerCase()) ??
+    null;
+}
+
+/** The node at a path, or null when any segment doesn't exist or isn't visible to the user */
+export async function resolvePath(userId: string, segments: string[]): Promise<DavNode | null> {
+  let node = rootNode();
+  for (const segment of segments) {
+    const match = findChild(await listChildren(userId, node), segment);
+    if (!match) return null;
+    node = match;
+  }
+  return node;
+}
+
+/** A path split into its parent and last segment; `parent` is null when the parent doesn't exist */
+export async function resolveTarget(userId: string, segments: string[]): Promise<DavTarget> {
+  if (segments.length === 0) return { parent: null, node: rootNode(), name: '' };
+  const name = segments[segments.length - 1];
+  const parent = await resolvePath(userId, segments.slice(0, -1));
+  if (!parent) return { parent: null, node: null, name };
+  return { parent, node: findChild(await listChildren(userId, parent), name), name };
+}
+
+/** Where new items under a collection are stored; virtual collections can't hold items */
+export function placementFor(userId: string, parent: DavNode): Placement {
+  if (parent.kind === 'space') {
+    if (!parent.canWrite) throw new DavError(403, 'forbidden', 'You can only view this shared drive');
+    return parent.placement;
+  }
+  if (parent.kind === 'folder') {
+    if (!parent.canWrite) throw new DavError(403, 'forbidden', 'You do not have permission to change this folder');
+    const { folder } = parent;
+    return {
+      folderId: folder.id,
+      dashboardId: !folder.sharedDriveId && folder.userId === userId ? folder.dashboardId : null,
+      sharedDriveId: folder.sharedDriveId
+    };
+  }
+  throw new DavError(403, 'forbidden', 'Files and folders cannot be created here');
+}
+
+function validateNewName(name: string) {
+  if (!name || sanitizeEntryName(name) !== name) {
+    throw new DavError(400, 'invalid_name', 'Names cannot be empty or contain slashes or control characters');
+  }
+}
+
+function scopeFor(userId: string, placement: Placement) {
+  return placement.sharedDriveId
+    ? resolveSharedDriveScope(userId, placement.sharedDriveId)
+    : resolveDashboardScope(userId, placement.dashboardId);
+}
+
+// ============================================================================
+// LOCKS
+// ============================================================================
+
+/** Unexpired locks on each node, including depth-infinity locks on the folders above it */
+export async function activeLocksFor(nodes: DavNode[], now: Date = new Date()): Promise<DavLock[][]> {
+  const items = nodes.filter((node): node is DavItemNode => node.kind === 'file' || node.kind === 'folder');
+  if (items.length === 0) return nodes.map(() => []);
+  const fileIds = items.flatMap((node) => (node.kind === 'file' ? [node.file.id] : []));
+  const folderIds = new Set(items.flatMap((node) => [
+    ...node.ancestorFolderIds,
+    ...(node.kind === 'folder' ? [node.folder.id] : [])
+  ]));
+  const locks: DavLock[] = await prisma.driveDavLock.findMany({
+    where: {
+      expiresAt: { gt: now },
+      OR: [{ fileId: { in: fileIds } }, { folderId: { in: [...folderIds] } }]
+    }
+  });
+
+  return nodes.map((node) => {
+    if (node.kind !== 'file' && node.kind !== 'folder') return [];
+    return locks.filter((lock) => (
+      (node.kind === 'file' && lock.fileId === node.file.id) ||
+      (node.kind === 'folder' && lock.folderId === node.folder.id) ||
+      (lock.folderId !== null && lock.depth === 'infinity' && node.ancestorFolderIds.includes(lock.folderId))
+    ));
+  });
+}
+
+async function locksBelow(folderId: string, now: Date = new Date()): Promise<DavLock[]> {
+  const descendants = await descendantFolderIds(folderId);
+  return prisma.driveDavLock.findMany({
+    where: {
+      expiresAt: { gt: now },
+      OR: [
+        { folderId: { in: descendants } },
+        { file: { folderId: { in: [folderId, ...descendants] } } }
+      ]
+    }
+  });
+}
+
+/** Locks a write to the node must satisfy; `withMembers` adds locks inside a folder, for DELETE and MOVE */
+async function locksAffecting(node: DavNode, withMembers = false): Promise<DavLock[]> {
+  const [covering] = await activeLocksFor([node]);
+  if (!withMembers || node.kind !== 'folder') return covering;
+  return [...covering, ...(await locksBelow(node.folder.id))];
+}
+
+async function assertUnlocked(userId: string, locks: DavLock[], tokens: string[]) {
+  if (!locksSatisfied(userId, locks, tokens)) {
+    throw new DavError(423, 'lock-token-submitted', 'The resource is locked');
+  }
+}
+
+/**
+ * Lock a file or folder. Locking an unmapped path creates an empty file there, as RFC 4918
+ * requires; `created` reports that.
+ */
+export async function lockNode(
+  userId: string,
+  target: DavTarget,
+  request: LockRequest,
+  depth: '0' | 'infinity',
+  timeoutSeconds: number,
+  tokens: string[]
+): Promise<{ node: DavItemNode; lock: DavLock; created: boolean }> {
+  const now = new Date();
+  await prisma.driveDavLock.deleteMany({ where: { expiresAt: { lte: now } } });
+
+  let node = target.node;
+  let created = false;
+  if (!node) {
+    if (!target.parent) throw new DavError(409, 'conflict', 'The parent collection does not exist');
+    ({ node } = await writeFile(userId, target, Readable.from([]), undefined, tokens));
+    created = true;
+  }
+  if (node.kind !== 'file' && node.kind !== 'folder') {
+    throw new DavError(403, 'forbidden', 'This collection cannot be locked');
+  }
+  if (!node.canWrite) throw new DavError(403, 'forbidden', 'You do not have permission to change this item');
+
+  const existing = await locksAffecting(node, depth === 'infinity');
+  if (lockConflicts(request.scope, existing)) {
+    throw new DavError(423, 'no-conflicting-lock', 'The resource is already locked');
+  }
+  const lock: DavLock = await prisma.driveDavLock.create({
+    data: {
+      token: `opaquelocktoken:${crypto.randomUUID()}`,
+      fileId: node.kind === 'file' ? node.file.id : null,
+      folderId: node.kind === 'folder' ? node.folder.id : null,
+      userId,
+      scope: request.scope,
+      depth: node.kind === 'folder' ? depth : '0',
+      owner: request.owner,
+      expiresAt: new Date(now.getTime() + timeoutSeconds * 1000)
+    }
+  });
+  return { node, lock, created };
+}
+
+/** Extend a lock the user holds on the node, identified by a token from the If header */
+export async function refreshLock(userId: string, node: DavNode, tokens: string[], timeoutSeconds: number): Promise<DavLock> {
+  const [locks] = await activeLocksFor([node]);
+  const held = locks.find((lock) => lock.userId === userId && tokens.includes(lock.token));
+  if (!held) throw new DavError(412, 'lock-token-matches-request-uri', 'No matching lock to refresh');
+  return prisma.driveDavLock.update({
+    where: { id: held.id },
+    data: { expiresAt: new Date(Date.now() + timeoutSeconds * 1000) }
+  });
+}
+
+export async function unlockNode(userId: string, node: DavNode, token: string): Promise<void> {
+  const [locks] = await activeLocksFor([node]);
+  const lock = locks.find((candidate) => candidate.token === token);
+  if (!lock) throw new DavError(409, 'lock-token-matches-request-uri', 'The lock token does not apply to this resource');
+  if (lock.userId !== userId) throw new DavError(403, 'forbidden', 'Only the lock holder can remove this lock');
+  await prisma.driveDavLock.delete({ where: { id: lock.id } });
+}
+
+// ============================================================================
+// CHANGES
+// ============================================================================
+
+// Stream a request body to a temp file, measuring and hashing it on the way
+async function spoolUpload(body: Readable): Promise<{ path: string; size: number; checksum: string }> {
+  const tempPath = path.join(os.tmpdir(), `dav-upload-${crypto.randomUUID()}`);
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > DAV_MAX_UPLOAD_BYTES) {
+        callback(new DavError(413, 'too_large', `Files are limited to ${Math.floor(DAV_MAX_UPLOAD_BYTES / MB)} MB over WebDAV`));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+  try {
+    await pipeline(body, meter, fs.createWriteStream(tempPath));
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  return { path: tempPath, size, checksum: hash.digest('hex') };
+}
+
+function spooledUpload(spooled: { path: string; size: number }, name: string, mimetype: string): Express.Multer.File {
+  // GCS uploads read the buffer, like the memory storage the Drive upload route uses there
+  return {
+    fieldname: 'file',
+    originalname: name,
+    encoding: '7bit',
+    mimetype,
+    size: spooled.size,
+    buffer: storageService.getProvider() === 'gcs' ? fs.readFileSync(spooled.path) : (undefined as never),
+    destination: path.dirname(spooled.path),
+    filename: path.basename(spooled.path),
+    path: spooled.path,
+    stream: undefined as never
+  };
+}
+
+function storageDestination(userId: string, name: string) {
+  return `files/${userId}-${Date.now()}-${Math.round(Math.random() * 1E9)}${path.extname(name)}`;
+}
+
+/**
+ * PUT: replace an existing file's content (keeping the old content as a version) or
+ * create a file under the target's parent.
+ */
+export async function writeFile(
+  userId: string,
+  target: DavTarget,
+  body: Readable,
+  contentType: string | undefined,
+  tokens: string[]
+): Promise<{ node: DavItemNode; created: boolean }> {
+  const { parent, node, name } = target;
+  if (!parent) throw new DavError(409, 'conflict', 'The parent collection does not exist');
+  if (node && node.kind !== 'file') throw new DavError(405, 'collection', 'A collection exists at this path');
+  if (node) {
+    if (!node.canWrite) throw new DavError(403, 'forbidden', 'You do not have permission to change this file');
+    await assertUnlocked(userId, await locksAffecting(node), tokens);
+  } else {
+    validateNewName(name);
+    placementFor(userId, parent);
+    await assertUnlocked(userId, await locksAffecting(parent), tokens);
+  }
+
+  const spooled = await spoolUpload(body);
+  try {
+    if (node) {
+      const upload = spooledUpload(spooled, node.file.name, contentTypeFor(node.file.name, contentType));
+      const { file } = await replaceFileContent(node.file.id, userId, upload);
+      return { node: { ...node, file: { ...node.file, ...file } }, created: false };
+    }
+
+    const placement = placementFor(userId, parent);
+    const mimetype = contentTypeFor(name, contentType);
+    await assertStorageAvailable(await scopeFor(userId, placement), spooled.size);
+    const stored = await storageService.uploadFile(spooledUpload(spooled, name, mimetype), storageDestination(userId, name), {
+      makePublic: true,
+      metadata: { userId, originalName: name }
+    });
+    const file: DavFile = await prisma.$transaction(async (tx) => {
+      const created = await tx.file.create({
+        data: {
+          userId,
+          name,
+          type: mimetype,
+          size: spooled.size,
+          url: stored.url,
+          path: stored.path,
+          checksum: spooled.checksum,
+          ...placement
+        },
+        select: FILE_SELECT
+      });
+      await tx.activity.create({
+        data: {
+          type: 'create',
+          userId,
+          fileId: created.id,
+          details: { action: 'file_uploaded', fileName: name, fileSize: spooled.size, fileType: mimetype, via: 'webdav' }
+        }
+      });
+      return created;
+    });
+    await queueFileForIndexing(file.id);
+    return { node: childNode(parent, { file }), created: true };
+  } finally {
+    fs.rmSync(spooled.path, { force: true });
+  }
+}
+
+// Node for an item the user just created under `parent`
+function childNode(parent: DavNode, item: { file: DavFile } | { folder: DavFolder }): DavItemNode {
+  const name = 'file' in item ? item.file.name : item.folder.name;
+  const base = {
+    name,
+    segments: [...parent.segments, name],
+    canWrite: true,
+    canManage: true,
+    ancestorFolderIds: parent.kind === 'folder' ? [...parent.ancestorFolderIds, parent.folder.id] : []
+  };
+  return 'file' in item ? { kind: 'file', file: item.file, ...base } : { kind: 'folder', folder: item.folder, ...base };
+}
+
+/** MKCOL */
+export async function createCollection(userId: string, target: DavTarget, tokens: string[]): Promise<DavItemNode> {
+  const { parent, node, name } = target;
+  if (!parent) throw new DavError(409, 'conflict', 'The parent collection does not exist');
+  if (node) throw new DavError(405, 'exists', 'Something already exists at this path');
+  validateNewName(name);
+  const placement = placementFor(userId, parent);
+  await assertUnlocked(userId, await locksAffecting(parent), tokens);
+
+  const folder: DavFolder = await prisma.folder.create({
+    data: {
+      userId,
+      name,
+      parentId: placement.folderId,
+      dashboardId: placement.dashboardId,
+      sharedDriveId: placement.sharedDriveId
+    },
+    select: FOLDER_SELECT
+  });
+  return childNode(parent, { folder });
+}
+
+async function trashItem(userId: string, node: DavItemNode) {
+  const trashedAt = new Date();
+  if (node.kind === 'file') {
+    await prisma.$transaction([
+      prisma.file.update({ where: { id: node.file.id }, data: { trashedAt } }),
+      prisma.activity.create({
+        data: {
+          type: 'delete',
+          userId,
+          fileId: node.file.id,
+          details: { action: 'file_moved_to_trash', fileName: node.file.name, fileType: node.file.type, fileSize: node.file.size }
+        }
+      }),
+      prisma.driveDavLock.deleteMany({ where: { fileId: node.file.id } })
+    ]);
+    return;
+  }
+  await prisma.$transaction([
+    prisma.folder.update({ where: { id: node.folder.id }, data: { trashedAt } }),
+    prisma.driveDavLock.deleteMany({ where: { folderId: node.folder.id } })
+  ]);
+}
+
+// Files are trashed by whoever manages them, folders by anyone who can write them (as in the Drive UI)
+function assertCanTrash(node: DavItemNode) {
+  if (node.kind === 'file' ? !node.canManage : !node.canWrite) {
+    throw new DavError(403, 'forbidden', 'You do not have permission to delete this item');
+  }
+}
+
+/** DELETE moves the item to the trash, where it can be restored from the web app */
+export async function deleteNode(userId: string, node: DavNode, tokens: string[]): Promise<void> {
+  if (node.kind !== 'file' && node.kind !== 'folder') {
+    throw new DavError(403, 'forbidden', 'This collection cannot be deleted');
+  }
+  assertCanTrash(node);
+  await assertUnlocked(userId, await locksAffecting(node, true), tokens);
+  await trashItem(userId, node);
+}
+
+function isInside(candidate: DavNode, folderId: string): boolean {
+  return candidate.kind === 'folder' && (candidate.folder.id === folderId || candidate.ancestorFolderIds.includes(folderId));
+}
+
+// Clear the way for a MOVE or COPY destination; true when something was there
+async function prepareDestination(userId: string, source: DavItemNode, destination: DavTarget, overwrite: boolean, tokens: string[]) {
+  const { parent, node } = destination;
+  if (!parent) throw new DavError(409, 'conflict', 'The destination collection does not exist');
+  if (node && (node.kind === 'file' || node.kind === 'folder') &&
+      (node.kind === 'file' ? node.file.id : node.folder.id) === (source.kind === 'file' ? source.file.id : source.folder.id)) {
+    throw new DavError(403, 'same_resource', 'Source and destination are the same');
+  }
+  if (source.kind === 'folder' && isInside(parent, source.folder.id)) {
+    throw new DavError(403, 'into_itself', 'A folder cannot be placed inside itself');
+  }
+  validateNewName(destination.name);
+  placementFor(userId, parent);
+  await assertUnlocked(userId, await locksAffecting(parent), tokens);
+
+  if (!node) return false;
+  if (!overwrite) throw new DavError(412, 'exists', 'The destination exists and Overwrite is F');
+  if (node.kind !== 'file' && node.kind !== 'folder') throw new DavError(403, 'forbidden', 'The destination cannot be replaced');
+  assertCanTrash(node);
+  await assertUnlocked(userId, await locksAffecting(node, true), tokens);
+  await trashItem(userId, node);
+  return true;
+}
+
+/**
+ * MOVE within the same drive. Renaming in place needs write access; moving to another
+ * collection needs the rights to manage the item. Locks on the item don't move with it.
+ */
+export async function moveNode(
+  userId: string,
+  source: DavNode,
+  destination: DavTarget,
+  overwrite: boolean,
+  tokens: string[]
+): Promise<{ replaced: boolean }> {
+  if (source.kind !== 'file' && source.kind !== 'folder') {
+    throw new DavError(403, 'forbidden', 'This collection cannot be moved');
+  }
+  if (!destination.parent) throw new DavError(409, 'conflict', 'The destination collection does not exist');
+  const item = source.kind === 'file' ? source.file : source.folder;
+  const currentFolderId = source.kind === 'file' ? source.file.folderId : source.folder.parentId;
+  const placement = placementFor(userId, destination.parent);
+
+  const sameParent = currentFolderId === placement.folderId &&
+    (placement.folderId !== null || (item.dashboardId === placement.dashboardId && item.sharedDriveId === placement.sharedDriveId));
+  if (sameParent ? !source.canWrite : !source.canManage) {
+    throw new DavError(403, 'forbidden', 'You do not have permission to move this item');
+  }
+  if (item.sharedDriveId !== placement.sharedDriveId) {
+    throw new DavError(403, 'cross_drive', 'Items cannot be moved between shared drives and personal storage');
+  }
+  if (!item.sharedDriveId && destination.parent.kind === 'folder' && destination.parent.folder.userId !== item.userId) {
+    throw new DavError(403, 'cross_owner', "Items can only be moved into their owner's folders");
+  }
+  await assertUnlocked(userId, await locksAffecting(source, true), tokens);
+  const replaced = await prepareDestination(userId, source, destination, overwrite, tokens);
+
+  if (source.kind === 'file') {
+    await prisma.$transaction([
+      prisma.file.update({
+        where: { id: item.id },
+        data: { name: destination.name, folderId: placement.folderId, dashboardId: placement.dashboardId }
+      }),
+      prisma.activity.create({
+        data: {
+          type: 'edit',
+          userId,
+          fileId: item.id,
+          details: sameParent
+            ? { action: 'file_renamed', oldName: item.name, newName: destination.name }
+            : { action: 'file_moved', fileName: item.name, originalFolderId: currentFolderId, newFolderId: placement.folderId }
+        }
+      }),
+      prisma.driveDavLock.deleteMany({ where: { fileId: item.id } })
+    ]);
+    return { replaced };
+  }
+
+  // Contents follow the folder to its new dashboard so the web app lists them there
+  const descendants = item.dashboardId !== placement.dashboardId ? await descendantFolderIds(item.id) : [];
+  await prisma.$transaction([
+    prisma.folder.update({
+      where: { id: item.id },
+      data: { name: destination.name, parentId: placement.folderId, dashboardId: placement.dashboardId }
+    }),
+    prisma.folder.updateMany({ where: { id: { in: descendants } }, data: { dashboardId: placement.dashboardId } }),
+    prisma.file.updateMany({
+      where: { folderId: { in: [item.id, ...descendants] }, userId: item.userId },
+      data: { dashboardId: placement.dashboardId }
+    }),
+    prisma.driveDavLock.deleteMany({ where: { folderId: item.id } })
+  ]);
+  return { replaced };
+}
+
+async function copyFileRecord(userId: string, file: DavFile, name: string, placement: Placement): Promise<void> {
+  const sourcePath = file.path ?? storageService.extractPathFromUrl(file.url);
+  if (!sourcePath) throw new DavError(409, 'missing_content', `The content of ${file.name} could not be found`);
+  const stored = await storageService.copyFile(sourcePath, storageDestination(userId, name));
+  const created = await prisma.file.create({
+    data: {
+      userId,
+      name,
+      type: file.type,
+      size: file.size,
+      url: stored.url,
+      path: stored.path,
+      checksum: file.checksum,
+      ...placement
+    },
+    select: { id: true }
+  });
+  await prisma.activity.create({
+    data: {
+      type: 'create',
+      userId,
+      fileId: created.id,
+      details: { action: 'file_copied', fileName: name, sourceFileId: file.id, fileSize: file.size, fileType: file.type, via: 'webdav' }
+    }
+  });
+  await queueFileForIndexing(created.id);
+}
+
+// Everything visible under a folder, parents before children, capped at MAX_DAV_COPY_ITEMS
+async function collectTree(userId: string, root: DavItemNode): Promise<Array<{ node: DavItemNode; parentIndex: number }>> {
+  const entries: Array<{ node: DavItemNode; parentIndex: number }> = [{ node: root, parentIndex: -1 }];
+  for (let index = 0; index < entries.length; index++) {
+    const { node } = entries[index];
+    if (node.kind !== 'folder') continue;
+    for (const child of await listChildren(userId, node)) {
+      entries.push({ node: child as DavItemNode, parentIndex: index });
+      if (entries.length > MAX_DAV_COPY_ITEMS) {
+        throw new DavError(403, 'too_many_items', `Folders with more than ${MAX_DAV_COPY_ITEMS} items cannot be copied over WebDAV`);
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * COPY creates new items owned by the user. With `shallow` (Depth: 0) a folder is copied
+ * without its contents.
+ */
+export async function copyNode(
+  userId: string,
+  source: DavNode,
+  destination: DavTarget,
+  overwrite: boolean,
+  shallow: boolean,
+  tokens: string[]
+): Promise<{ replaced: boolean }> {
+  if (source.kind !== 'file' && source.kind !== 'folder') {
+    throw new DavError(403, 'forbidden', 'This collection cannot be copied');
+  }
+  if (!destination.parent) throw new DavError(409, 'conflict', 'The destination collection does not exist');
+  const placement = placementFor(userId, destination.parent);
+  const entries = shallow ? [{ node: source, parentIndex: -1 }] : await collectTree(userId, source);
+  const totalBytes = entries.reduce((sum, entry) => sum + (entry.node.kind === 'file' ? entry.node.file.size : 0), 0);
+  await assertStorageAvailable(await scopeFor(userId, placement), totalBytes);
+  const replaced = await prepareDestination(userId, source, destination, overwrite, tokens);
+
+  const placements: Placement[] = [];
+  for (const [index, { node, parentIndex }] of entries.entries()) {
+    const name = index === 0 ? destination.name : node.name;
+    const parentPlacement = parentIndex < 0 ? placement : placements[parentIndex];
+    if (node.kind === 'file') {
+      await copyFileRecord(userId, node.file, name, parentPlacement);
+      placements.push(parentPlacement);
+      continue;
+    }
+    const folder = await prisma.folder.create({
+      data: {
+        userId,
+        name,
+        parentId: parentPlacement.folderId,
+        dashboardId: parentPlacement.dashboardId,
+        sharedDriveId: parentPlacement.sharedDriveId
+      },
+      select: { id: true }
+    });
+    placements.push({ ...parentPlacement, folderId: folder.id });
+  }
+  return { replaced };
+}
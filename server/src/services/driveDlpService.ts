@@ -0,0 +1,411 @@
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { storageService } from './storageService';
+import { FeatureGatingService } from './featureGatingService';
+import { detectDocumentKind, extractDocumentText } from '../utils/documentText';
+
+export const SENSITIVITY_LEVELS = ['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED'] as const;
+export type Sensitivity = typeof SENSITIVITY_LEVELS[number];
+
+// classifiedBy for scan results, so a rescan can replace them without touching manual labels
+export const DLP_CLASSIFIER = 'system:dlp';
+export const DLP_POLICY_NAME = 'Drive data loss prevention';
+
+// Rule patterns that name a validated detector instead of a regex
+export const BUILTIN_DETECTORS = ['builtin:credit_card', 'builtin:us_ssn', 'builtin:iban', 'builtin:uk_nino'] as const;
+
+const MAX_LIVE_SCAN_BYTES = 50 * 1024 * 1024;
+const MAX_MATCHES_PER_RULE = 1000;
+const PROTECTED_SENSITIVITIES: Sensitivity[] = ['CONFIDENTIAL', 'RESTRICTED'];
+
+// What a new DLP policy does until an admin edits it in governance settings
+const DEFAULT_POLICY_RULES: DlpPolicyRule[] = [
+  {
+    type: 'classification',
+    conditions: { resourceType: 'file', sensitivity: 'RESTRICTED' },
+    actions: { type: 'block', message: 'Files classified restricted cannot be shared outside the organization' }
+  },
+  {
+    type: 'classification',
+    conditions: { resourceType: 'file', sensitivity: 'CONFIDENTIAL' },
+    actions: { type: 'warn', message: 'This content is classified confidential' }
+  }
+];
+
+export interface DlpPolicyRule {
+  type: string;
+  conditions: { resourceType?: string; sensitivity?: string };
+  actions: { type: 'block' | 'warn' | 'log' | string; message?: string };
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  ruleName: string;
+  sensitivity: Sensitivity;
+  count: number;
+}
+
+export interface ScanResult {
+  sensitivity: Sensitivity | null;
+  matches: RuleMatch[];
+}
+
+export type ShareTarget = { type: 'user'; userId: string } | { type: 'link' };
+
+export class DlpPolicyError extends Error {
+  readonly status: number;
+  readonly code: 'dlp_blocked' | 'dlp_warning';
+  readonly sensitivity: Sensitivity;
+
+  constructor(status: number, code: 'dlp_blocked' | 'dlp_warning', message: string, sensitivity: Sensitivity) {
+    super(message);
+    this.name = 'DlpPolicyError';
+    this.status = status;
+    this.code = code;
+    this.sensitivity = sensitivity;
+  }
+
+  toResponse() {
+    return { message: this.message, code: this.code, sensitivity: this.sensitivity };
+  }
+}
+
+export function sensitivityRank(value: string | null | undefined): number {
+  return SENSITIVITY_LEVELS.indexOf((value ?? '').toUpperCase() as Sensitivity);
+}
+
+function normalizeSensitivity(value: string): Sensitivity | null {
+  const upper = value.toUpperCase() as Sensitivity;
+  return SENSITIVITY_LEVELS.includes(upper) ? upper : null;
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function passesIbanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/** Count validated matches of a built-in detector; checksums keep look-alike numbers out */
+export function countBuiltinMatches(detector: string, text: string, limit = MAX_MATCHES_PER_RULE): number {
+  let count = 0;
+  const tally = (regex: RegExp, accept: (match: string) => boolean) => {
+    for (const match of text.matchAll(regex)) {
+      if (accept(match[0]) && ++count >= limit) break;
+    }
+    return count;
+  };
+
+  switch (detector) {
+    case 'builtin:credit_card':
+      return tally(/\b(?:\d[ -]?){12,18}\d\b/g, (match) => {
+        const digits = match.replace(/\D/g, '');
+        return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+      });
+    case 'builtin:us_ssn':
+      // Area 000, 666 and 9xx, group 00 and serial 0000 are never issued
+      return tally(/\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g, () => true);
+    case 'builtin:iban':
+      return tally(/\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, (match) => {
+        const iban = match.replace(/ /g, '');
+        return iban.length >= 15 && iban.length <= 34 && passesIbanChecksum(iban);
+      });
+    case 'builtin:uk_nino':
+      return tally(/\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g, () => true);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Match classification rules against document text. Rules are either a built-in
+ * detector (see BUILTIN_DETECTORS) or a case-insensitive regex; invalid regexes are skipped.
+ */
+export function matchClassificationRules(
+  text: string,
+  rules: Array<{ id: string; name: string; pattern: string; sensitivity: string }>
+): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  for (const rule of rules) {
+    const sensitivity = normalizeSensitivity(rule.sensitivity);
+    if (!sensitivity) continue;
+
+    let count = 0;
+    if (rule.pattern.startsWith('builtin:')) {
+      count = countBuiltinMatches(rule.pattern, text);
+    } else {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern, 'gi');
+      } catch {
+        continue;
+      }
+      for (const match of text.matchAll(regex)) {
+        if (match[0] === '') break;
+        if (++count >= MAX_MATCHES_PER_RULE) break;
+      }
+    }
+    if (count > 0) {
+      matches.push({ ruleId: rule.id, ruleName: rule.name, sensitivity, count });
+    }
+  }
+  return matches;
+}
+
+export function highestSensitivity(values: Array<string | null | undefined>): Sensitivity | null {
+  let best: Sensitivity | null = null;
+  for (const value of values) {
+    const normalized = value ? normalizeSensitivity(value) : null;
+    if (normalized && (best === null || sensitivityRank(normalized) > sensitivityRank(best))) {
+      best = normalized;
+    }
+  }
+  return best;
+}
+
+/** The strongest action the policy takes for content at `sensitivity` */
+export function resolvePolicyAction(rules: DlpPolicyRule[], sensitivity: Sensitivity): DlpPolicyRule['actions'] | null {
+  const strength: Record<string, number> = { log: 1, warn: 2, block: 3 };
+  let chosen: DlpPolicyRule['actions'] | null = null;
+  for (const rule of rules) {
+    if (rule.type !== 'classification' || !strength[rule.actions?.type]) continue;
+    if (rule.conditions?.resourceType && rule.conditions.resourceType !== 'file') continue;
+    if (rule.conditions?.sensitivity && sensitivityRank(rule.conditions.sensitivity) > sensitivityRank(sensitivity)) continue;
+    if (!chosen || strength[rule.actions.type] > strength[chosen.type]) {
+      chosen = rule.actions;
+    }
+  }
+  return chosen;
+}
+
+// Shared drive items belong to the drive's business; other items to their dashboard's
+async function businessIdForItem(item: { dashboardId: string | null; sharedDriveId?: string | null }): Promise<string | null> {
+  if (item.sharedDriveId) {
+    const drive = await prisma.sharedDrive.findUnique({ where: { id: item.sharedDriveId }, select: { businessId: true } });
+    return drive?.businessId ?? null;
+  }
+  if (!item.dashboardId) return null;
+  const dashboard = await prisma.dashboard.findUnique({ where: { id: item.dashboardId }, select: { businessId: true } });
+  return dashboard?.businessId ?? null;
+}
+
+async function isDlpEnabled(ownerId: string, businessId: string | null): Promise<boolean> {
+  const access = await FeatureGatingService.checkFeatureAccess(ownerId, 'drive_dlp', businessId ?? undefined);
+  return access.hasAccess;
+}
+
+/** DLP is a paid feature: it applies when the owning business (or the owner, for personal files) has drive_dlp */
+export async function isDlpEnabledForItem(item: {
+  userId: string;
+  dashboardId: string | null;
+  sharedDriveId?: string | null;
+}): Promise<boolean> {
+  return isDlpEnabled(item.userId, await businessIdForItem(item));
+}
+
+/**
+ * Classify a file from its text. Scan results only ever replace earlier scan results
+ * or weaker manual labels; a rescan that finds nothing clears the scan's own label.
+ */
+export async function classifyFileText(fileId: string, text: string): Promise<ScanResult | null> {
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: { userId: true, dashboardId: true, sharedDriveId: true }
+  });
+  if (!file || !(await isDlpEnabledForItem(file))) {
+    return null;
+  }
+
+  const rules = await prisma.classificationRule.findMany({
+    where: { resourceType: 'file', isActive: true },
+    orderBy: { priority: 'desc' }
+  });
+  const matches = matchClassificationRules(text, rules);
+  const sensitivity = highestSensitivity(matches.map((match) => match.sensitivity));
+  const where = { resourceType_resourceId: { resourceType: 'file', resourceId: fileId } };
+  const existing = await prisma.dataClassification.findUnique({ where });
+
+  if (!sensitivity) {
+    if (existing?.classifiedBy === DLP_CLASSIFIER) {
+      await prisma.dataClassification.delete({ where });
+    }
+    return { sensitivity: null, matches };
+  }
+
+  const manualIsStronger = existing && existing.classifiedBy !== DLP_CLASSIFIER &&
+    sensitivityRank(existing.sensitivity) >= sensitivityRank(sensitivity);
+  if (!manualIsStronger) {
+    const notes = `Auto-classified by rule: ${matches.filter((match) => match.sensitivity === sensitivity).map((match) => match.ruleName).join(', ')}`;
+    await prisma.dataClassification.upsert({
+      where,
+      update: { sensitivity, classifiedBy: DLP_CLASSIFIER, classifiedAt: new Date(), notes },
+      create: { resourceType: 'file', resourceId: fileId, sensitivity, classifiedBy: DLP_CLASSIFIER, notes }
+    });
+  }
+  return { sensitivity: manualIsStronger ? highestSensitivity([existing!.sensitivity]) : sensitivity, matches };
+}
+
+/**
+ * Scan a file now, using indexed text when it is current and extracting it otherwise.
+ * Used before sharing files whose indexing hasn't caught up yet, and for manual rescans.
+ */
+export async function scanFile(fileId: string): Promise<ScanResult | null> {
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: { id: true, name: true, type: true, size: true, path: true, url: true, checksum: true, content: true }
+  });
+  if (!file) return null;
+
+  let text: string | null = null;
+  if (file.content?.status === 'indexed' && file.content.checksum === file.checksum) {
+    text = file.content.text ?? '';
+  } else if (detectDocumentKind(file.type, file.name) && file.size <= MAX_LIVE_SCAN_BYTES) {
+    const storagePath = file.path ?? storageService.extractPathFromUrl(file.url);
+    if (storagePath) {
+      text = extractDocumentText(await storageService.getFileBuffer(storagePath), file.type, file.name);
+    }
+  }
+  if (text === null) return null;
+  return classifyFileText(fileId, text);
+}
+
+/** The governance policy DLP enforces, created with default rules on first use */
+export async function ensureDlpPolicy() {
+  return prisma.governancePolicy.upsert({
+    where: { name: DLP_POLICY_NAME },
+    update: {},
+    create: {
+      name: DLP_POLICY_NAME,
+      description: 'Warns about or blocks sharing classified Drive files outside the organization',
+      policyType: 'classification',
+      rules: DEFAULT_POLICY_RULES as unknown as object[],
+      createdBy: DLP_CLASSIFIER
+    }
+  });
+}
+
+async function isExternalShare(businessId: string | null, ownerId: string, target: ShareTarget): Promise<boolean> {
+  if (target.type === 'link') return true;
+  if (!businessId) return target.userId !== ownerId;
+  const member = await prisma.businessMember.findFirst({
+    where: { businessId, userId: target.userId, isActive: true },
+    select: { id: true }
+  });
+  return !member;
+}
+
+async function filesInFolderTree(folderId: string): Promise<string[]> {
+  const fileIds: string[] = [];
+  const seen = new Set<string>();
+  let level = [folderId];
+  while (level.length > 0) {
+    level.forEach((id) => seen.add(id));
+    const [files, children] = await Promise.all([
+      prisma.file.findMany({ where: { folderId: { in: level }, trashedAt: null }, select: { id: true } }),
+      prisma.folder.findMany({ where: { parentId: { in: level }, trashedAt: null }, select: { id: true } })
+    ]);
+    fileIds.push(...files.map((file) => file.id));
+    level = children.map((child) => child.id).filter((id) => !seen.has(id));
+  }
+  return fileIds;
+}
+
+/**
+ * Check an outgoing share against the DLP policy. Sharing inside the owning business
+ * is never restricted. For external shares of confidential content the policy decides:
+ * `block` throws, `warn` throws until the user acknowledges, and every share that goes
+ * ahead despite a rule is recorded as a PolicyViolation.
+ */
+export async function assertShareAllowed(input: {
+  actorId: string;
+  item: { type: 'file' | 'folder'; id: string };
+  target: ShareTarget;
+  acknowledged?: boolean;
+}): Promise<void> {
+  const { actorId, item, target } = input;
+  const record = item.type === 'file'
+    ? await prisma.file.findUnique({ where: { id: item.id }, select: { name: true, userId: true, dashboardId: true, sharedDriveId: true } })
+    : await prisma.folder.findUnique({ where: { id: item.id }, select: { name: true, userId: true, dashboardId: true, sharedDriveId: true } });
+  if (!record) return;
+
+  const businessId = await businessIdForItem(record);
+  if (!(await isExternalShare(businessId, record.userId, target))) return;
+  if (!(await isDlpEnabled(record.userId, businessId))) return;
+
+  const policy = await ensureDlpPolicy();
+  if (!policy.isActive) return;
+
+  let fileIds: string[];
+  if (item.type === 'file') {
+    fileIds = [item.id];
+    // Indexing runs in the background; don't let a just-uploaded file slip through unscanned
+    const content = await prisma.driveFileContent.findUnique({ where: { fileId: item.id }, select: { status: true } });
+    if (!content || content.status === 'pending') {
+      await scanFile(item.id);
+    }
+  } else {
+    fileIds = await filesInFolderTree(item.id);
+  }
+  if (fileIds.length === 0) return;
+
+  const classifications = await prisma.dataClassification.findMany({
+    where: { resourceType: 'file', resourceId: { in: fileIds }, sensitivity: { in: PROTECTED_SENSITIVITIES } },
+    select: { sensitivity: true }
+  });
+  const sensitivity = highestSensitivity(classifications.map((classification) => classification.sensitivity));
+  if (!sensitivity) return;
+
+  const action = resolvePolicyAction(policy.rules as unknown as DlpPolicyRule[], sensitivity);
+  if (!action) return;
+
+  const label = sensitivity.toLowerCase();
+  const message = action.message ||
+    (item.type === 'folder' ? `This folder contains ${label} files` : `This file is classified ${label}`);
+  if (action.type === 'warn' && !input.acknowledged) {
+    throw new DlpPolicyError(409, 'dlp_warning', `${message}. Confirm to share it outside the organization.`, sensitivity);
+  }
+
+  const actor = await prisma.user.findUnique({ where: { id: actorId }, select: { email: true } });
+  const destination = target.type === 'link' ? 'a public link' : `external user ${target.userId}`;
+  const outcome = action.type === 'block' ? 'was blocked from sharing' : 'shared';
+  await prisma.policyViolation.create({
+    data: {
+      policyId: policy.id,
+      resourceType: item.type,
+      resourceId: item.id,
+      violationType: 'access',
+      severity: action.type === 'block' ? (sensitivity === 'RESTRICTED' ? 'critical' : 'high') : action.type === 'warn' ? 'medium' : 'low',
+      message: `${actor?.email ?? actorId} ${outcome} ${sensitivity} ${item.type} "${record.name}" with ${destination}`
+    }
+  });
+  await logger.warn('Drive DLP policy matched an external share', {
+    operation: 'drive_dlp_share',
+    userId: actorId,
+    itemType: item.type,
+    itemId: item.id,
+    sensitivity,
+    action: action.type
+  });
+
+  if (action.type === 'block') {
+    throw new DlpPolicyError(403, 'dlp_blocked', message, sensitivity);
+  }
+}
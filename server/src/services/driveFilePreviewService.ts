@@ -0,0 +1,374 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { pipeline } from 'stream/promises';
+import sharp from 'sharp';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { storageService } from './storageService';
+import { detectDocumentKind, extractDocumentText } from '../utils/documentText';
+
+const execFileAsync = promisify(execFile);
+
+/** Longest edge of each thumbnail rendition, in pixels */
+export const PREVIEW_SIZES = { small: 128, medium: 320, large: 1024 } as const;
+export type PreviewVariant = keyof typeof PREVIEW_SIZES;
+export type PreviewKind = 'image' | 'pdf' | 'video' | 'text';
+
+// Sources above these sizes aren't rendered: images and documents are decoded in memory,
+// videos are copied to a temp file for ffmpeg
+const MAX_IMAGE_SOURCE_BYTES = 100 * 1024 * 1024;
+const MAX_VIDEO_SOURCE_BYTES = 1024 * 1024 * 1024;
+const TOOL_TIMEOUT_MS = 30_000;
+const TEXT_PREVIEW_CHARS = 4000;
+const PREVIEW_CONTENT_TYPE = 'image/webp';
+
+export class PreviewError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'PreviewError';
+  }
+}
+
+interface PreviewSourceFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  path: string | null;
+  url: string;
+  versionNumber: number;
+}
+
+export function previewKindFor(mimeType: string, fileName: string): PreviewKind | null {
+  const type = (mimeType || '').toLowerCase();
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  const documentKind = detectDocumentKind(mimeType, fileName);
+  if (documentKind === 'pdf') return 'pdf';
+  return documentKind ? 'text' : null;
+}
+
+export function parsePreviewVariant(value: unknown): PreviewVariant {
+  if (value === undefined || value === '') return 'medium';
+  if (typeof value === 'string' && value in PREVIEW_SIZES) return value as PreviewVariant;
+  throw new PreviewError(400, `size must be one of ${Object.keys(PREVIEW_SIZES).join(', ')}`);
+}
+
+/**
+ * Thumbnail endpoint for a file, or null when its type has no preview. The version
+ * parameter changes with the content, so browsers never show a stale thumbnail.
+ */
+export function thumbnailUrlFor(
+  file: { id: string; name: string; type: string; versionNumber?: number | null },
+  variant: PreviewVariant = 'medium'
+): string | null {
+  if (!previewKindFor(file.type, file.name)) return null;
+  return `/api/drive/files/${file.id}/thumbnail?size=${variant}&v=${file.versionNumber ?? 1}`;
+}
+
+/** Previews live in a hidden folder beside the original, keyed by content version */
+export function previewStoragePath(sourcePath: string, fileId: string, version: number, variant: PreviewVariant): string {
+  return path.posix.join(path.posix.dirname(sourcePath), '.previews', fileId, `v${version}-${variant}.webp`);
+}
+
+/** Break text into at most `maxLines` lines of `maxChars`, wrapping at spaces where possible */
+export function wrapTextLines(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let rest = paragraph.trimEnd();
+    if (rest === '') {
+      if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+    }
+    while (rest.length > 0) {
+      if (rest.length <= maxChars) {
+        lines.push(rest);
+        break;
+      }
+      const breakAt = rest.lastIndexOf(' ', maxChars);
+      const cut = breakAt > maxChars / 2 ? breakAt : maxChars;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut).trimStart();
+      if (lines.length >= maxLines) break;
+    }
+    if (lines.length >= maxLines) break;
+  }
+  return lines.slice(0, maxLines);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// A page-like card with the opening lines of the document
+function renderTextCard(text: string): Buffer {
+  const width = 768;
+  const height = 1024;
+  const lines = wrapTextLines(text, 52, 34);
+  const rows = lines
+    .map((line, i) => `<text x="48" y="${84 + i * 27}">${escapeXml(line)}</text>`)
+    .join('');
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>` +
+    `<g font-family="Helvetica, Arial, sans-serif" font-size="20" fill="#374151">${rows}</g>` +
+    `</svg>`
+  );
+}
+
+function storagePathOf(file: PreviewSourceFile): string | null {
+  return file.path ?? storageService.extractPathFromUrl(file.url);
+}
+
+async function withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'drive-preview-'));
+  try {
+    return await run(dir);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Run an optional converter; a missing binary means this kind of preview isn't available here
+async function runTool(command: string, args: string[]): Promise<boolean> {
+  try {
+    await execFileAsync(command, args, { timeout: TOOL_TIMEOUT_MS });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+async function renderPdfFirstPage(source: Buffer): Promise<Buffer | null> {
+  return withTempDir(async (dir) => {
+    const input = path.join(dir, 'source.pdf');
+    await fs.promises.writeFile(input, source);
+    const rendered = await runTool('pdftoppm', [
+      '-f', '1', '-l', '1', '-png', '-singlefile', '-scale-to', String(PREVIEW_SIZES.large), input, path.join(dir, 'page')
+    ]);
+    return rendered ? fs.promises.readFile(path.join(dir, 'page.png')) : null;
+  });
+}
+
+async function renderVideoPoster(storagePath: string): Promise<Buffer | null> {
+  return withTempDir(async (dir) => {
+    const input = path.join(dir, 'source');
+    const output = path.join(dir, 'poster.png');
+    await pipeline(storageService.createReadStream(storagePath), fs.createWriteStream(input));
+    // One second in skips black lead-in frames; very short clips fall back to the first frame
+    for (const offset of ['1', '0']) {
+      const rendered = await runTool('ffmpeg', [
+        '-hide_banner', '-loglevel', 'error', '-y', '-ss', offset, '-i', input, '-frames:v', '1', output
+      ]);
+      if (!rendered) return null;
+      if (fs.existsSync(output)) return fs.promises.readFile(output);
+    }
+    return null;
+  });
+}
+
+// An image sharp can read for the file, or null when none can be produced
+async function renderSourceImage(file: PreviewSourceFile, storagePath: string): Promise<Buffer | null> {
+  const kind = previewKindFor(file.type, file.name);
+  if (kind === 'video') {
+    return file.size <= MAX_VIDEO_SOURCE_BYTES ? renderVideoPoster(storagePath) : null;
+  }
+  if (!kind || file.size > MAX_IMAGE_SOURCE_BYTES) return null;
+
+  const source = await storageService.getFileBuffer(storagePath);
+  if (kind === 'image') return source;
+  if (kind === 'pdf') return renderPdfFirstPage(source);
+  const text = extractDocumentText(source, file.type, file.name);
+  return text ? renderTextCard(text.slice(0, TEXT_PREVIEW_CHARS)) : null;
+}
+
+async function loadPreviewSource(fileId: string): Promise<PreviewSourceFile> {
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: { id: true, name: true, type: true, size: true, path: true, url: true, versionNumber: true }
+  });
+  if (!file) throw new PreviewError(404, 'File not found');
+  return file;
+}
+
+async function markUnavailable(fileId: string, variant: PreviewVariant, version: number) {
+  await prisma.driveFilePreview.upsert({
+    where: { fileId_variant: { fileId, variant } },
+    create: { fileId, variant, sourceVersion: version, status: 'unavailable' },
+    update: { sourceVersion: version, status: 'unavailable', path: null, width: null, height: null, size: 0 }
+  });
+}
+
+async function generateThumbnail(file: PreviewSourceFile, variant: PreviewVariant): Promise<Buffer | null> {
+  const storagePath = storagePathOf(file);
+  if (!storagePath) {
+    await markUnavailable(file.id, variant, file.versionNumber);
+    return null;
+  }
+
+  let source: Buffer | null;
+  try {
+    source = await renderSourceImage(file, storagePath);
+  } catch (error) {
+    await logger.warn('Failed to render Drive file preview', {
+      operation: 'drive_preview_render',
+      fileId: file.id,
+      variant,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+    source = null;
+  }
+
+  let rendered: { data: Buffer; info: sharp.OutputInfo } | null = null;
+  if (source) {
+    const size = PREVIEW_SIZES[variant];
+    try {
+      rendered = await sharp(source, { pages: 1 })
+        .rotate()
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      await logger.warn('Failed to resize Drive file preview', {
+        operation: 'drive_preview_resize',
+        fileId: file.id,
+        variant,
+        error: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+  }
+  if (!rendered) {
+    await markUnavailable(file.id, variant, file.versionNumber);
+    return null;
+  }
+
+  const destination = previewStoragePath(storagePath, file.id, file.versionNumber, variant);
+  const upload: Express.Multer.File = {
+    fieldname: 'preview',
+    originalname: path.posix.basename(destination),
+    encoding: '7bit',
+    mimetype: PREVIEW_CONTENT_TYPE,
+    size: rendered.data.length,
+    buffer: rendered.data,
+    destination: '',
+    filename: '',
+    path: '',
+    stream: undefined as never
+  };
+  const stored = await storageService.uploadFile(upload, destination, {
+    makePublic: false,
+    metadata: { fileId: file.id, kind: 'drive-preview', variant }
+  });
+
+  const previous = await prisma.driveFilePreview.findUnique({
+    where: { fileId_variant: { fileId: file.id, variant } },
+    select: { path: true }
+  });
+  await prisma.driveFilePreview.upsert({
+    where: { fileId_variant: { fileId: file.id, variant } },
+    create: {
+      fileId: file.id,
+      variant,
+      sourceVersion: file.versionNumber,
+      status: 'ready',
+      path: stored.path,
+      width: rendered.info.width,
+      height: rendered.info.height,
+      size: rendered.data.length
+    },
+    update: {
+      sourceVersion: file.versionNumber,
+      status: 'ready',
+      path: stored.path,
+      width: rendered.info.width,
+      height: rendered.info.height,
+      size: rendered.data.length
+    }
+  });
+  // The rendition of the previous content version is no longer reachable
+  if (previous?.path && previous.path !== stored.path) {
+    await storageService.deleteFile(previous.path);
+  }
+  return rendered.data;
+}
+
+/**
+ * Thumbnail of the current content, rendered on first request and cached in storage.
+ * Callers must check read access first. Throws PreviewError(404) when none can be made.
+ */
+export async function getThumbnail(fileId: string, variant: PreviewVariant): Promise<{ buffer: Buffer; contentType: string }> {
+  const file = await loadPreviewSource(fileId);
+  if (!previewKindFor(file.type, file.name)) throw new PreviewError(404, 'No preview for this file type');
+
+  const cached = await prisma.driveFilePreview.findUnique({
+    where: { fileId_variant: { fileId, variant } }
+  });
+  if (cached && cached.sourceVersion === file.versionNumber) {
+    if (cached.status === 'unavailable') throw new PreviewError(404, 'Preview unavailable');
+    if (cached.path && (await storageService.fileExists(cached.path))) {
+      return { buffer: await storageService.getFileBuffer(cached.path), contentType: PREVIEW_CONTENT_TYPE };
+    }
+  }
+
+  const buffer = await generateThumbnail(file, variant);
+  if (!buffer) throw new PreviewError(404, 'Preview unavailable');
+  return { buffer, contentType: PREVIEW_CONTENT_TYPE };
+}
+
+/**
+ * What the client can show for a file: thumbnail URLs, plus the opening text of
+ * documents (taken from the search index when available).
+ */
+export async function getPreviewInfo(fileId: string) {
+  const file = await loadPreviewSource(fileId);
+  const kind = previewKindFor(file.type, file.name);
+  const thumbnails = kind
+    ? {
+        small: thumbnailUrlFor(file, 'small'),
+        medium: thumbnailUrlFor(file, 'medium'),
+        large: thumbnailUrlFor(file, 'large')
+      }
+    : null;
+
+  let text: string | null = null;
+  if (kind === 'text' || kind === 'pdf') {
+    const content = await prisma.driveFileContent.findUnique({
+      where: { fileId },
+      select: { status: true, text: true }
+    });
+    if (content?.status === 'indexed') {
+      text = content.text ?? '';
+    } else if (kind === 'text' && file.size <= MAX_IMAGE_SOURCE_BYTES) {
+      const storagePath = storagePathOf(file);
+      if (storagePath) {
+        try {
+          text = extractDocumentText(await storageService.getFileBuffer(storagePath), file.type, file.name);
+        } catch {
+          text = null;
+        }
+      }
+    }
+  }
+
+  return {
+    kind,
+    thumbnails,
+    text: text === null ? null : text.slice(0, TEXT_PREVIEW_CHARS),
+    textTruncated: text !== null && text.length > TEXT_PREVIEW_CHARS
+  };
+}
+
+/** Remove every cached rendition of a file, e.g. when it is permanently deleted */
+export async function deleteFilePreviews(fileId: string): Promise<void> {
+  const previews = await prisma.driveFilePreview.findMany({
+    where: { fileId, path: { not: null } },
+    select: { path: true }
+  });
+  for (const preview of previews) {
+    await storageService.deleteFile(preview.path!);
+  }
+  await prisma.driveFilePreview.deleteMany({ where: { fileId } });
+}
@@ -0,0 +1,346 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { storageService } from './storageService';
+import { assertStorageAvailable, resolveFileScope } from './storageQuotaService';
+import { queueFileForIndexing } from './driveContentIndexService';
+
+/** Defaults used when a file has no retention override; 0 disables the limit */
+export const DEFAULT_VERSION_KEEP_LAST = parseInt(process.env.DRIVE_VERSION_KEEP_LAST || '20', 10);
+export const DEFAULT_VERSION_KEEP_DAYS = parseInt(process.env.DRIVE_VERSION_KEEP_DAYS || '90', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VersionRetentionPolicy {
+  keepLast: number;
+  keepDays: number;
+}
+
+export interface VersionSnapshot {
+  id: string;
+  versionNumber: number;
+  name: string;
+  type: string;
+  size: number;
+  checksum: string | null;
+  createdAt: Date;
+}
+
+export interface VersionChange {
+  sizeDelta: number;
+  contentChanged: boolean;
+  nameChanged: boolean;
+  typeChanged: boolean;
+}
+
+type VersionedFile = {
+  id: string;
+  userId: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  path: string | null;
+  checksum: string | null;
+  versionNumber: number;
+  contentUpdatedById: string | null;
+  contentUpdatedAt: Date | null;
+  createdAt: Date;
+  versionKeepLast: number | null;
+  versionKeepDays: number | null;
+};
+
+/**
+ * SHA-256 of an uploaded file, read from memory (GCS) or the multer temp file (local).
+ */
+export function computeChecksum(upload: Express.Multer.File): string {
+  const content = upload.buffer ?? fs.readFileSync(upload.path);
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function resolveRetentionPolicy(file: Pick<VersionedFile, 'versionKeepLast' | 'versionKeepDays'>): VersionRetentionPolicy {
+  return {
+    keepLast: file.versionKeepLast ?? DEFAULT_VERSION_KEEP_LAST,
+    keepDays: file.versionKeepDays ?? DEFAULT_VERSION_KEEP_DAYS
+  };
+}
+
+/**
+ * Versions that fall outside the policy: beyond the newest `keepLast`, or superseded
+ * more than `keepDays` ago. Either limit is ignored when set to 0.
+ */
+export function selectVersionsToPrune<T extends Pick<VersionSnapshot, 'versionNumber' | 'createdAt'>>(
+  versions: T[],
+  policy: VersionRetentionPolicy,
+  now: Date = new Date()
+): T[] {
+  const cutoff = policy.keepDays > 0 ? now.getTime() - policy.keepDays * DAY_MS : null;
+  return [...versions]
+    .sort((a, b) => b.versionNumber - a.versionNumber)
+    .filter((version, index) =>
+      (policy.keepLast > 0 && index >= policy.keepLast) ||
+      (cutoff !== null && version.createdAt.getTime() < cutoff)
+    );
+}
+
+/**
+ * Describe how `newer` differs from `older`, used as diff metadata in the version list.
+ * Content counts as changed when either checksum is unknown.
+ */
+export function describeVersionChange(
+  older: Pick<VersionSnapshot, 'name' | 'type' | 'size' | 'checksum'>,
+  newer: Pick<VersionSnapshot, 'name' | 'type' | 'size' | 'checksum'>
+): VersionChange {
+  return {
+    sizeDelta: newer.size - older.size,
+    contentChanged: !older.checksum || !newer.checksum || older.checksum !== newer.checksum,
+    nameChanged: older.name !== newer.name,
+    typeChanged: older.type !== newer.type
+  };
+}
+
+async function getVersionedFile(fileId: string): Promise<VersionedFile> {
+  const file = await prisma.file.findUnique({ where: { id: fileId } });
+  if (!file) {
+    throw new Error('File not found');
+  }
+  return file;
+}
+
+/** Record the file's current content as a prior version, inside an open transaction */
+async function snapshotCurrentContent(tx: Prisma.TransactionClient, file: VersionedFile) {
+  return tx.fileVersion.create({
+    data: {
+      fileId: file.id,
+      versionNumber: file.versionNumber,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      url: file.url,
+      path: file.path,
+      checksum: file.checksum,
+      uploadedById: file.contentUpdatedById ?? file.userId,
+      uploadedAt: file.contentUpdatedAt ?? file.createdAt
+    }
+  });
+}
+
+async function deleteStoredVersion(version: { id: string; path: string | null }) {
+  if (!version.path) return;
+  const result = await storageService.deleteFile(version.path);
+  if (!result.success) {
+    await logger.warn('Failed to delete file version from storage', {
+      operation: 'drive_file_version_storage_delete',
+      versionId: version.id,
+      error: { message: result.error || 'Unknown error' }
+    });
+  }
+}
+
+/**
+ * Remove versions outside the file's retention policy, from storage and the database.
+ */
+export async function applyVersionRetention(fileId: string, now: Date = new Date()): Promise<number> {
+  const file = await getVersionedFile(fileId);
+  const versions = await prisma.fileVersion.findMany({
+    where: { fileId },
+    select: { id: true, versionNumber: true, path: true, createdAt: true }
+  });
+
+  const expired = selectVersionsToPrune(versions, resolveRetentionPolicy(file), now);
+  for (const version of expired) {
+    await deleteStoredVersion(version);
+  }
+  if (expired.length > 0) {
+    await prisma.fileVersion.deleteMany({ where: { id: { in: expired.map((version) => version.id) } } });
+  }
+  return expired.length;
+}
+
+// Multer's disk storage leaves a temp file behind when an upload is not stored
+function removeTempUpload(upload: Express.Multer.File) {
+  if (upload.path && fs.existsSync(upload.path)) {
+    fs.unlinkSync(upload.path);
+  }
+}
+
+/**
+ * Replace a file's content with a new upload, keeping the previous content as a version.
+ * The file keeps its name. Returns the file unchanged when the upload has the same
+ * checksum as the current content.
+ */
+export async function replaceFileContent(fileId: string, actorId: string, upload: Express.Multer.File) {
+  const file = await getVersionedFile(fileId);
+  const checksum = computeChecksum(upload);
+
+  if (file.checksum === checksum) {
+    removeTempUpload(upload);
+    return { file, versioned: false };
+  }
+
+  // The current content stays stored as a version, so the whole upload is new storage
+  try {
+    await assertStorageAvailable(await resolveFileScope(fileId), upload.size);
+  } catch (error) {
+    removeTempUpload(upload);
+    throw error;
+  }
+
+  const destination = `files/${file.userId}-${Date.now()}-${Math.round(Math.random() * 1E9)}${path.extname(upload.originalname)}`;
+  const stored = await storageService.uploadFile(upload, destination, {
+    makePublic: true,
+    metadata: { userId: file.userId, originalName: upload.originalname, fileId }
+  });
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await snapshotCurrentContent(tx, file);
+    return tx.file.update({
+      where: { id: fileId },
+      data: {
+        type: upload.mimetype,
+        size: upload.size,
+        url: stored.url,
+        path: stored.path,
+        checksum,
+        versionNumber: file.versionNumber + 1,
+        contentUpdatedById: actorId,
+        contentUpdatedAt: new Date()
+      }
+    });
+  });
+
+  await applyVersionRetention(fileId);
+  await queueFileForIndexing(fileId);
+  return { file: updated, versioned: true };
+}
+
+/**
+ * Current content first, then prior versions newest first, each with what changed
+ * relative to the version before it.
+ */
+export async function listFileVersions(fileId: string) {
+  const file = await getVersionedFile(fileId);
+  const versions = await prisma.fileVersion.findMany({
+    where: { fileId },
+    include: { uploadedBy: { select: { id: true, name: true, email: true } } },
+    orderBy: { versionNumber: 'desc' }
+  });
+  const currentUploaderId = file.contentUpdatedById ?? file.userId;
+  const currentUploader = await prisma.user.findUnique({
+    where: { id: currentUploaderId },
+    select: { id: true, name: true, email: true }
+  });
+
+  const current = {
+    id: null,
+    versionNumber: file.versionNumber,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    checksum: file.checksum,
+    uploadedBy: currentUploader,
+    uploadedAt: file.contentUpdatedAt ?? file.createdAt,
+    isCurrent: true
+  };
+  const entries = [current, ...versions.map((version) => ({ ...version, isCurrent: false }))];
+
+  return {
+    retention: resolveRetentionPolicy(file),
+    versions: entries.map((entry, index) => ({
+      ...entry,
+      changes: entries[index + 1] ? describeVersionChange(entries[index + 1], entry) : null
+    }))
+  };
+}
+
+export async function getFileVersion(fileId: string, versionId: string) {
+  const version = await prisma.fileVersion.findFirst({ where: { id: versionId, fileId } });
+  if (!version) {
+    throw new Error('File version not found');
+  }
+  return version;
+}
+
+/**
+ * Make a prior version current again. The content is copied to a new storage object so
+ * the restored version stays in history, and the content being replaced becomes a version.
+ */
+export async function restoreFileVersion(fileId: string, versionId: string, actorId: string) {
+  const file = await getVersionedFile(fileId);
+  const version = await getFileVersion(fileId, versionId);
+  const sourcePath = version.path ?? storageService.extractPathFromUrl(version.url);
+  if (!sourcePath) {
+    throw new Error('File version content is unavailable');
+  }
+  await assertStorageAvailable(await resolveFileScope(fileId), version.size);
+
+  const destination = `files/${file.userId}-${Date.now()}-${Math.round(Math.random() * 1E9)}${path.extname(version.name)}`;
+  const copied = await storageService.copyFile(sourcePath, destination);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await snapshotCurrentContent(tx, file);
+    return tx.file.update({
+      where: { id: fileId },
+      data: {
+        name: version.name,
+        type: version.type,
+        size: version.size,
+        url: copied.url,
+        path: copied.path,
+        checksum: version.checksum,
+        versionNumber: file.versionNumber + 1,
+        contentUpdatedById: actorId,
+        contentUpdatedAt: new Date()
+      }
+    });
+  });
+
+  await applyVersionRetention(fileId);
+  await queueFileForIndexing(fileId);
+  return { file: updated, restoredVersionNumber: version.versionNumber };
+}
+
+export async function deleteFileVersion(fileId: string, versionId: string) {
+  const version = await getFileVersion(fileId, versionId);
+  await deleteStoredVersion(version);
+  await prisma.fileVersion.delete({ where: { id: version.id } });
+  return version;
+}
+
+/** Remove the stored content of every prior version, before a file is permanently deleted */
+export async function purgeFileVersions(fileId: string) {
+  const versions = await prisma.fileVersion.findMany({ where: { fileId }, select: { id: true, path: true } });
+  for (const version of versions) {
+    await deleteStoredVersion(version);
+  }
+  await prisma.fileVersion.deleteMany({ where: { fileId } });
+}
+
+/**
+ * Set a file's retention override. `null` falls back to the defaults, 0 disables a limit.
+ */
+export async function updateVersionRetention(fileId: string, keepLast: number | null, keepDays: number | null) {
+  for (const value of [keepLast, keepDays]) {
+    if (value !== null && (!Number.isInteger(value) || value < 0)) {
+      throw new Error('Retention values must be non-negative integers');
+    }
+  }
+  await prisma.file.update({
+    where: { id: fileId },
+    data: { versionKeepLast: keepLast, versionKeepDays: keepDays }
+  });
+  await applyVersionRetention(fileId);
+  return listFileVersions(fileId);
+}
+
+/** Bytes held by prior versions of a user's files, which count toward their storage */
+export async function getVersionStorageBytes(userId: string): Promise<number> {
+  const result = await prisma.fileVersion.aggregate({
+    where: { file: { userId } },
+    _sum: { size: true }
+  });
+  return result._sum.size ?? 0;
+}
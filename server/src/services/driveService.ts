@@ -47,4 +47,54 @@ export async function ensureEmployeeDocumentsFolder(userId: string, dashboardId:
   }
 
   return folder;
-}
\ No newline at end of file
+}
+
+export async function ensureRecruitmentFolder(userId: string, dashboardId: string) {
+  let folder = await prisma.folder.findFirst({
+    where: {
+      userId,
+      dashboardId,
+      parentId: null,
+      trashedAt: null,
+      name: 'Recruitment'
+    }
+  });
+
+  if (!folder) {
+    folder = await prisma.folder.create({
+      data: {
+        userId,
+        dashboardId,
+        name: 'Recruitment',
+        parentId: null
+      }
+    });
+  }
+
+  return folder;
+}
+
+export async function ensureAttendancePhotosFolder(userId: string, dashboardId: string) {
+  let folder = await prisma.folder.findFirst({
+    where: {
+      userId,
+      dashboardId,
+      parentId: null,
+      trashedAt: null,
+      name: 'Attendance Photos'
+    }
+  });
+
+  if (!folder) {
+    folder = await prisma.folder.create({
+      data: {
+        userId,
+        dashboardId,
+        name: 'Attendance Photos',
+        parentId: null
+      }
+    });
+  }
+
+  return folder;
+}
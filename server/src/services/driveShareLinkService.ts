@@ -0,0 +1,432 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../lib/prisma';
+import * as dlpService from './driveDlpService';
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const DOMAIN_REGEX = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+const MIN_PASSWORD_LENGTH = 8;
+// Served inline for previews; anything else (HTML, SVG, ...) could run script on our origin
+const PREVIEWABLE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'application/pdf']);
+
+export interface ShareLinkSettingsInput {
+  password?: string | null;
+  allowedDomains?: unknown;
+  allowDownload?: boolean;
+  maxDownloads?: number | null;
+  trackViews?: boolean;
+  expiresAt?: string | null;
+  // Share anyway when the DLP policy only warns about the item's classification
+  acknowledgeDlpWarning?: boolean;
+}
+
+export interface ShareLinkState {
+  revokedAt: Date | null;
+  expiresAt: Date | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+}
+
+export interface ShareVisitor {
+  accessToken?: string;
+  email?: string | null;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Raised for requests a share link cannot serve; `status` is the HTTP status to answer with.
+ */
+export class ShareLinkAccessError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ShareLinkAccessError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+type AccessTokenPayload = {
+  type: 'drive_share';
+  linkId: string;
+};
+
+/** 256 random bits, URL safe */
+export function generateShareToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Lower-case, de-duplicate and validate a domain list. Accepts "@example.com" and
+ * comma separated strings as well as arrays.
+ */
+export function normalizeAllowedDomains(input: unknown): string[] {
+  if (input === undefined || input === null || input === '') return [];
+  const values = Array.isArray(input) ? input : String(input).split(',');
+  const domains = new Set<string>();
+  for (const value of values) {
+    const domain = String(value).trim().toLowerCase().replace(/^@/, '');
+    if (!domain) continue;
+    if (!DOMAIN_REGEX.test(domain)) {
+      throw new ShareLinkAccessError(400, 'invalid_domain', `Invalid domain: ${value}`);
+    }
+    domains.add(domain);
+  }
+  return [...domains];
+}
+
+/** True when the list is empty or the email belongs to one of the domains or their subdomains */
+export function isEmailDomainAllowed(email: string | null | undefined, allowedDomains: string[]): boolean {
+  if (allowedDomains.length === 0) return true;
+  const domain = email?.split('@')[1]?.toLowerCase();
+  if (!domain) return false;
+  return allowedDomains.some((allowed) => domain === allowed || domain.endsWith(`.${allowed}`));
+}
+
+/** Why a link cannot be used at all, or null when it is live */
+export function getLinkBlockReason(link: Pick<ShareLinkState, 'revokedAt' | 'expiresAt'>, now: Date = new Date()): 'revoked' | 'expired' | null {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt.getTime() <= now.getTime()) return 'expired';
+  return null;
+}
+
+export function isPreviewableType(type: string | null | undefined): boolean {
+  return PREVIEWABLE_TYPES.has((type || '').split(';')[0].trim().toLowerCase());
+}
+
+export function hasDownloadsRemaining(link: Pick<ShareLinkState, 'maxDownloads' | 'downloadCount'>): boolean {
+  return link.maxDownloads === null || link.downloadCount < link.maxDownloads;
+}
+
+function jwtSecret(): string {
+  return process.env.JWT_SECRET || '';
+}
+
+/** Short-lived token proving the visitor entered the link's password */
+export function issueShareAccessToken(linkId: string): string {
+  const payload: AccessTokenPayload = { type: 'drive_share', linkId };
+  return jwt.sign(payload, jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+export function verifyShareAccessToken(token: string, linkId: string): boolean {
+  try {
+    const decoded = jwt.verify(token, jwtSecret()) as AccessTokenPayload;
+    return decoded.type === 'drive_share' && decoded.linkId === linkId;
+  } catch {
+    return false;
+  }
+}
+
+async function buildSettings(input: ShareLinkSettingsInput) {
+  const data: {
+    passwordHash?: string | null;
+    allowedDomains?: string[];
+    allowDownload?: boolean;
+    maxDownloads?: number | null;
+    trackViews?: boolean;
+    expiresAt?: Date | null;
+  } = {};
+
+  if (input.password !== undefined) {
+    if (input.password === null || input.password === '') {
+      data.passwordHash = null;
+    } else if (input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new ShareLinkAccessError(400, 'invalid_password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    } else {
+      data.passwordHash = await bcrypt.hash(input.password, 10);
+    }
+  }
+  if (input.allowedDomains !== undefined) {
+    data.allowedDomains = normalizeAllowedDomains(input.allowedDomains);
+  }
+  if (input.allowDownload !== undefined) {
+    data.allowDownload = Boolean(input.allowDownload);
+  }
+  if (input.maxDownloads !== undefined) {
+    if (input.maxDownloads !== null && (!Number.isInteger(input.maxDownloads) || input.maxDownloads < 1)) {
+      throw new ShareLinkAccessError(400, 'invalid_max_downloads', 'maxDownloads must be a positive integer');
+    }
+    data.maxDownloads = input.maxDownloads;
+  }
+  if (input.trackViews !== undefined) {
+    data.trackViews = Boolean(input.trackViews);
+  }
+  if (input.expiresAt !== undefined) {
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+      throw new ShareLinkAccessError(400, 'invalid_expiry', 'expiresAt must be a valid date');
+    }
+    data.expiresAt = expiresAt;
+  }
+  return data;
+}
+
+/** Links are returned without the password hash */
+function toPublicShape<T extends { passwordHash: string | null }>(link: T) {
+  const { passwordHash, ...rest } = link;
+  return { ...rest, hasPassword: !!passwordHash };
+}
+
+async function resolveItem(itemId: string) {
+  const file = await prisma.file.findUnique({ where: { id: itemId } });
+  if (file) return { type: 'file' as const, ownerId: file.userId, fileId: file.id, folderId: null, name: file.name };
+  const folder = await prisma.folder.findUnique({ where: { id: itemId } });
+  if (folder) return { type: 'folder' as const, ownerId: folder.userId, fileId: null, folderId: folder.id, name: folder.name };
+  throw new ShareLinkAccessError(404, 'item_not_found', 'File or folder not found');
+}
+
+/** Owners and users with write permission manage an item's links */
+async function assertCanManage(userId: string, item: { ownerId: string; fileId: string | null; folderId: string | null }) {
+  if (item.ownerId === userId) return;
+  const permission = item.fileId
+    ? await prisma.filePermission.findFirst({ where: { fileId: item.fileId, userId, canWrite: true } })
+    : await prisma.folderPermission.findFirst({ where: { folderId: item.folderId!, userId, canWrite: true } });
+  if (!permission) {
+    throw new ShareLinkAccessError(403, 'forbidden', 'Forbidden');
+  }
+}
+
+async function getManagedLink(userId: string, linkId: string) {
+  const link = await prisma.driveShareLink.findUnique({
+    where: { id: linkId },
+    include: { file: true, folder: true }
+  });
+  if (!link) {
+    throw new ShareLinkAccessError(404, 'link_not_found', 'Share link not found');
+  }
+  await assertCanManage(userId, {
+    ownerId: link.file?.userId ?? link.folder?.userId ?? link.createdById,
+    fileId: link.fileId,
+    folderId: link.folderId
+  });
+  return link;
+}
+
+export async function createShareLink(userId: string, itemId: string, input: ShareLinkSettingsInput) {
+  const item = await resolveItem(itemId);
+  await assertCanManage(userId, item);
+  const settings = await buildSettings(input);
+  await dlpService.assertShareAllowed({
+    actorId: userId,
+    item: { type: item.type, id: (item.fileId ?? item.folderId)! },
+    target: { type: 'link' },
+    acknowledged: input.acknowledgeDlpWarning === true
+  });
+
+  const link = await prisma.driveShareLink.create({
+    data: {
+      ...settings,
+      token: generateShareToken(),
+      fileId: item.fileId,
+      folderId: item.folderId,
+      createdById: userId
+    }
+  });
+  return { link: toPublicShape(link), item };
+}
+
+export async function listShareLinks(userId: string, itemId: string) {
+  const item = await resolveItem(itemId);
+  await assertCanManage(userId, item);
+  const links = await prisma.driveShareLink.findMany({
+    where: item.fileId ? { fileId: item.fileId } : { folderId: item.folderId },
+    include: { createdBy: { select: { id: true, name: true, email: true } } },
+    orderBy: { createdAt: 'desc' }
+  });
+  return links.map(toPublicShape);
+}
+
+export async function updateShareLink(userId: string, linkId: string, input: ShareLinkSettingsInput) {
+  await getManagedLink(userId, linkId);
+  const link = await prisma.driveShareLink.update({
+    where: { id: linkId },
+    data: await buildSettings(input)
+  });
+  return toPublicShape(link);
+}
+
+export async function revokeShareLink(userId: string, linkId: string) {
+  await getManagedLink(userId, linkId);
+  const link = await prisma.driveShareLink.update({
+    where: { id: linkId },
+    data: { revokedAt: new Date() }
+  });
+  return toPublicShape(link);
+}
+
+/** Access log of a link, newest first */
+export async function listShareLinkActivity(userId: string, linkId: string) {
+  const link = await getManagedLink(userId, linkId);
+  const activities = await prisma.activity.findMany({
+    where: { details: { path: ['shareLinkId'], equals: link.id } },
+    include: { file: { select: { id: true, name: true } } },
+    orderBy: { timestamp: 'desc' },
+    take: 200
+  });
+  return {
+    link: toPublicShape(link),
+    activities
+  };
+}
+
+/**
+ * Load a live link by token and check the visitor against its password and domain rules.
+ */
+export async function authorizeShareLink(token: string, visitor: ShareVisitor) {
+  const link = await prisma.driveShareLink.findUnique({
+    where: { token },
+    include: { file: true, folder: true }
+  });
+  if (!link || (link.file && link.file.trashedAt) || (link.folder && link.folder.trashedAt)) {
+    throw new ShareLinkAccessError(404, 'link_not_found', 'Share link not found');
+  }
+  const blocked = getLinkBlockReason(link);
+  if (blocked) {
+    throw new ShareLinkAccessError(410, `link_${blocked}`, `This share link has ${blocked === 'revoked' ? 'been revoked' : 'expired'}`);
+  }
+  if (link.allowedDomains.length > 0) {
+    if (!visitor.email) {
+      throw new ShareLinkAccessError(401, 'sign_in_required', 'Sign in to open this share link');
+    }
+    if (!isEmailDomainAllowed(visitor.email, link.allowedDomains)) {
+      throw new ShareLinkAccessError(403, 'domain_not_allowed', 'Your account is not allowed to open this share link');
+    }
+  }
+  if (link.passwordHash && !(visitor.accessToken && verifyShareAccessToken(visitor.accessToken, link.id))) {
+    throw new ShareLinkAccessError(401, 'password_required', 'This share link is password protected');
+  }
+  return link;
+}
+
+/** Exchange a link password for an access token */
+export async function unlockShareLink(token: string, password: string, visitor: ShareVisitor) {
+  const link = await prisma.driveShareLink.findUnique({ where: { token } });
+  if (!link || getLinkBlockReason(link)) {
+    throw new ShareLinkAccessError(404, 'link_not_found', 'Share link not found');
+  }
+  if (link.passwordHash && (!password || !(await bcrypt.compare(password, link.passwordHash)))) {
+    await recordShareLinkAccess(link, {}, 'share_link_password_failed', visitor);
+    throw new ShareLinkAccessError(401, 'invalid_password', 'Incorrect password');
+  }
+  return { accessToken: issueShareAccessToken(link.id), expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+/** True when `folderId` is the shared folder or one of its descendants */
+export async function isWithinSharedFolder(sharedFolderId: string, folderId: string | null): Promise<boolean> {
+  let current = folderId;
+  const seen = new Set<string>();
+  while (current && !seen.has(current)) {
+    if (current === sharedFolderId) return true;
+    seen.add(current);
+    const folder = await prisma.folder.findUnique({ where: { id: current }, select: { parentId: true } });
+    current = folder?.parentId ?? null;
+  }
+  return false;
+}
+
+/**
+ * Contents of a shared folder, or of a subfolder inside it.
+ */
+export async function listSharedFolderContents(sharedFolderId: string, folderId?: string) {
+  const targetId = folderId || sharedFolderId;
+  if (!(await isWithinSharedFolder(sharedFolderId, targetId))) {
+    throw new ShareLinkAccessError(404, 'item_not_found', 'Folder not found');
+  }
+  const [folder, folders, files] = await Promise.all([
+    prisma.folder.findUnique({ where: { id: targetId }, select: { id: true, name: true, parentId: true } }),
+    prisma.folder.findMany({
+      where: { parentId: targetId, trashedAt: null },
+      select: { id: true, name: true, updatedAt: true },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.file.findMany({
+      where: { folderId: targetId, trashedAt: null },
+      select: { id: true, name: true, type: true, size: true, updatedAt: true },
+      orderBy: { name: 'asc' }
+    })
+  ]);
+  return { folder, folders, files };
+}
+
+/**
+ * Pick the file a request targets: the shared file itself, or a file inside a shared folder.
+ */
+export async function resolveSharedFile(link: { fileId: string | null; folderId: string | null }, fileId?: string) {
+  if (link.fileId) {
+    if (fileId && fileId !== link.fileId) {
+      throw new ShareLinkAccessError(404, 'item_not_found', 'File not found');
+    }
+    const file = await prisma.file.findUnique({ where: { id: link.fileId } });
+    if (!file) throw new ShareLinkAccessError(404, 'item_not_found', 'File not found');
+    return file;
+  }
+  if (!fileId) {
+    throw new ShareLinkAccessError(400, 'file_required', 'fileId is required for folder links');
+  }
+  const file = await prisma.file.findUnique({ where: { id: fileId } });
+  if (!file || file.trashedAt || !(await isWithinSharedFolder(link.folderId!, file.folderId))) {
+    throw new ShareLinkAccessError(404, 'item_not_found', 'File not found');
+  }
+  return file;
+}
+
+/**
+ * Count a download against the link's cap. The conditional update keeps concurrent
+ * downloads from going past `maxDownloads`.
+ */
+export async function consumeShareLinkDownload(link: { id: string; maxDownloads: number | null; allowDownload: boolean }) {
+  if (!link.allowDownload) {
+    throw new ShareLinkAccessError(403, 'download_disabled', 'Downloads are disabled for this share link');
+  }
+  const result = await prisma.driveShareLink.updateMany({
+    where: {
+      id: link.id,
+      ...(link.maxDownloads !== null ? { downloadCount: { lt: link.maxDownloads } } : {})
+    },
+    data: { downloadCount: { increment: 1 }, lastAccessedAt: new Date() }
+  });
+  if (result.count === 0) {
+    throw new ShareLinkAccessError(410, 'download_limit_reached', 'This share link has reached its download limit');
+  }
+}
+
+export async function recordShareLinkView(linkId: string) {
+  await prisma.driveShareLink.update({
+    where: { id: linkId },
+    data: { viewCount: { increment: 1 }, lastAccessedAt: new Date() }
+  });
+}
+
+/**
+ * Write an access log entry to Activity. Entries are attributed to the link creator,
+ * since visitors have no account, and carry the link id for filtering. Folder views
+ * and failed passwords have no file and are logged against the link alone. Failed
+ * passwords are logged even when the link doesn't track views.
+ */
+export async function recordShareLinkAccess(
+  link: { id: string; createdById: string; fileId: string | null; folderId: string | null; trackViews: boolean },
+  target: { fileId?: string; folderId?: string },
+  action: 'share_link_viewed' | 'share_link_downloaded' | 'share_link_password_failed',
+  visitor: ShareVisitor
+) {
+  if (!link.trackViews && action !== 'share_link_password_failed') return;
+  await prisma.activity.create({
+    data: {
+      type: action === 'share_link_downloaded' ? 'download' : 'share',
+      userId: link.createdById,
+      fileId: target.fileId ?? link.fileId,
+      details: {
+        action,
+        shareLinkId: link.id,
+        folderId: target.folderId ?? link.folderId,
+        visitorEmail: visitor.email ?? null,
+        ipAddress: visitor.ipAddress ?? null,
+        userAgent: visitor.userAgent ?? null
+      }
+    }
+  });
+}
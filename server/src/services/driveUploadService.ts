@@ -0,0 +1,385 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { storageService } from './storageService';
+import { assertStorageAvailable, resolveDashboardScope, resolveSharedDriveScope } from './storageQuotaService';
+import { resolveTargetDrive } from './sharedDriveService';
+import { queueFileForIndexing } from './driveContentIndexService';
+
+const MB = 1024 * 1024;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const CHECKSUM_REGEX = /^[a-f0-9]{64}$/;
+
+export const DEFAULT_CHUNK_SIZE = 8 * MB;
+export const MIN_CHUNK_SIZE = 256 * 1024;
+/** Largest chunk body accepted by the chunk endpoint */
+export const MAX_CHUNK_SIZE = 32 * MB;
+export const MAX_UPLOAD_SIZE = parseInt(process.env.DRIVE_MAX_UPLOAD_BYTES || String(50 * 1024 * MB), 10);
+
+// Parts live under a dot directory so local static serving of /uploads never exposes them
+const PARTS_PREFIX = '.upload-sessions';
+
+export interface CreateUploadSessionInput {
+  fileName?: unknown;
+  mimeType?: unknown;
+  size?: unknown;
+  chunkSize?: unknown;
+  checksum?: unknown;
+  folderId?: unknown;
+  dashboardId?: unknown;
+  sharedDriveId?: unknown;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // exclusive
+}
+
+export interface ChunkPlacement {
+  offset: number;
+  size: number;
+}
+
+type SessionShape = {
+  totalSize: number;
+  chunkSize: number;
+};
+
+/**
+ * Raised for requests an upload session cannot serve; `status` is the HTTP status to answer with.
+ */
+export class UploadSessionError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'UploadSessionError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/** Requested chunk size clamped to the supported range; defaults when absent */
+export function normalizeChunkSize(value: unknown): number {
+  if (value === undefined || value === null || value === '') return DEFAULT_CHUNK_SIZE;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new UploadSessionError(400, 'invalid_chunk_size', 'chunkSize must be a positive integer');
+  }
+  return Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, size));
+}
+
+/**
+ * Chunks are aligned to the session's chunk size and only the last one may be shorter,
+ * so a retried chunk always lands on the same offset.
+ */
+export function validateChunkPlacement(session: SessionShape, chunk: ChunkPlacement): void {
+  const { offset, size } = chunk;
+  if (!Number.isInteger(offset) || offset < 0 || offset % session.chunkSize !== 0) {
+    throw new UploadSessionError(400, 'invalid_offset', `Offset must be a multiple of ${session.chunkSize}`);
+  }
+  if (offset >= session.totalSize) {
+    throw new UploadSessionError(400, 'invalid_offset', 'Offset is past the end of the file');
+  }
+  const expected = Math.min(session.chunkSize, session.totalSize - offset);
+  if (size !== expected) {
+    throw new UploadSessionError(400, 'invalid_chunk_size', `Chunk at offset ${offset} must be ${expected} bytes, got ${size}`);
+  }
+}
+
+/** Coalesce received chunks into contiguous byte ranges */
+export function mergeReceivedRanges(chunks: ChunkPlacement[]): ByteRange[] {
+  const sorted = [...chunks].sort((a, b) => a.offset - b.offset);
+  const ranges: ByteRange[] = [];
+  for (const chunk of sorted) {
+    const last = ranges[ranges.length - 1];
+    const end = chunk.offset + chunk.size;
+    if (last && chunk.offset <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start: chunk.offset, end });
+    }
+  }
+  return ranges;
+}
+
+/** Offsets of the chunks still to be sent */
+export function findMissingOffsets(session: SessionShape, chunks: ChunkPlacement[]): number[] {
+  const received = new Set(chunks.map((chunk) => chunk.offset));
+  const missing: number[] = [];
+  for (let offset = 0; offset < session.totalSize; offset += session.chunkSize) {
+    if (!received.has(offset)) missing.push(offset);
+  }
+  return missing;
+}
+
+export function computeBufferChecksum(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+async function hashStream(stream: Readable): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of stream) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+function normalizeChecksum(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const checksum = String(value).trim().toLowerCase();
+  if (!CHECKSUM_REGEX.test(checksum)) {
+    throw new UploadSessionError(400, 'invalid_checksum', 'checksum must be a hex encoded SHA-256 digest');
+  }
+  return checksum;
+}
+
+function optionalId(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value : null;
+}
+
+const partsPrefix = (sessionId: string) => `${PARTS_PREFIX}/${sessionId}`;
+
+// Zero padded so parts sort lexically in byte order
+const partPath = (sessionId: string, offset: number) => `${partsPrefix(sessionId)}/${String(offset).padStart(15, '0')}`;
+
+async function getOwnedSession(userId: string, sessionId: string) {
+  const session = await prisma.driveUploadSession.findUnique({ where: { id: sessionId } });
+  if (!session || session.userId !== userId) {
+    throw new UploadSessionError(404, 'not_found', 'Upload session not found');
+  }
+  return session;
+}
+
+async function describeSession(sessionId: string) {
+  const session = await prisma.driveUploadSession.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: { chunks: { select: { offset: true, size: true } } }
+  });
+  const { chunks, expectedChecksum, ...rest } = session;
+  const receivedRanges = mergeReceivedRanges(chunks);
+  return {
+    ...rest,
+    hasChecksum: expectedChecksum !== null,
+    receivedBytes: receivedRanges.reduce((sum, range) => sum + range.end - range.start, 0),
+    receivedRanges,
+    missingOffsets: session.status === 'active' ? findMissingOffsets(session, chunks) : []
+  };
+}
+
+function resolveUploadScope(userId: string, dashboardId: string | null, sharedDriveId: string | null) {
+  return sharedDriveId ? resolveSharedDriveScope(userId, sharedDriveId) : resolveDashboardScope(userId, dashboardId);
+}
+
+export async function createUploadSession(userId: string, input: CreateUploadSessionInput) {
+  const fileName = typeof input.fileName === 'string' ? input.fileName.trim() : '';
+  if (!fileName) {
+    throw new UploadSessionError(400, 'invalid_name', 'fileName is required');
+  }
+  const totalSize = Number(input.size);
+  if (!Number.isInteger(totalSize) || totalSize < 0) {
+    throw new UploadSessionError(400, 'invalid_size', 'size must be a non-negative integer');
+  }
+  if (totalSize > MAX_UPLOAD_SIZE) {
+    throw new UploadSessionError(413, 'too_large', `Files are limited to ${Math.floor(MAX_UPLOAD_SIZE / MB)} MB`);
+  }
+  const folderId = optionalId(input.folderId);
+  const sharedDriveId = await resolveTargetDrive(userId, { folderId, sharedDriveId: input.sharedDriveId });
+  const dashboardId = sharedDriveId ? null : optionalId(input.dashboardId);
+  // Checked up front so a multi-GB upload is not refused only after all its chunks arrived
+  await assertStorageAvailable(await resolveUploadScope(userId, dashboardId, sharedDriveId), totalSize);
+
+  const session = await prisma.driveUploadSession.create({
+    data: {
+      userId,
+      fileName,
+      mimeType: typeof input.mimeType === 'string' && input.mimeType ? input.mimeType : 'application/octet-stream',
+      totalSize,
+      chunkSize: normalizeChunkSize(input.chunkSize),
+      expectedChecksum: normalizeChecksum(input.checksum),
+      folderId,
+      dashboardId,
+      sharedDriveId,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+    }
+  });
+  return describeSession(session.id);
+}
+
+export async function getUploadSession(userId: string, sessionId: string) {
+  await getOwnedSession(userId, sessionId);
+  return describeSession(sessionId);
+}
+
+/**
+ * Store one chunk. Re-sending a chunk replaces it, so clients can retry blindly after
+ * a dropped connection. `checksum`, when given, must match the chunk body.
+ */
+export async function putChunk(userId: string, sessionId: string, offset: number, data: Buffer, checksum?: string) {
+  const session = await getOwnedSession(userId, sessionId);
+  if (session.status !== 'active') {
+    throw new UploadSessionError(409, 'not_active', `Upload session is ${session.status}`);
+  }
+  if (session.expiresAt < new Date()) {
+    throw new UploadSessionError(410, 'expired', 'Upload session has expired');
+  }
+  validateChunkPlacement(session, { offset, size: data.length });
+
+  const actual = computeBufferChecksum(data);
+  if (checksum && checksum.toLowerCase() !== actual) {
+    throw new UploadSessionError(422, 'checksum_mismatch', `Chunk at offset ${offset} failed checksum verification`);
+  }
+
+  const storagePath = partPath(sessionId, offset);
+  await storageService.writeUploadPart(storagePath, data);
+  await prisma.driveUploadChunk.upsert({
+    where: { sessionId_offset: { sessionId, offset } },
+    create: { sessionId, offset, size: data.length, checksum: actual, path: storagePath },
+    update: { size: data.length, checksum: actual, path: storagePath }
+  });
+  await prisma.driveUploadSession.update({
+    where: { id: sessionId },
+    data: { expiresAt: new Date(Date.now() + SESSION_TTL_MS) }
+  });
+  return describeSession(sessionId);
+}
+
+/**
+ * Assemble the parts into a Drive file and verify its SHA-256. Finalizing a completed
+ * session returns the file it created, so a client can retry after losing the response.
+ */
+export async function completeUploadSession(userId: string, sessionId: string, checksumInput?: unknown) {
+  const session = await getOwnedSession(userId, sessionId);
+  if (session.status === 'completed' && session.fileId) {
+    const file = await prisma.file.findUnique({ where: { id: session.fileId } });
+    if (file) return { file, created: false };
+  }
+  if (session.expiresAt < new Date()) {
+    throw new UploadSessionError(410, 'expired', 'Upload session has expired');
+  }
+
+  const expectedChecksum = normalizeChecksum(checksumInput) ?? session.expectedChecksum;
+  const chunks = await prisma.driveUploadChunk.findMany({
+    where: { sessionId },
+    orderBy: { offset: 'asc' }
+  });
+  const missing = findMissingOffsets(session, chunks);
+  if (missing.length > 0) {
+    throw new UploadSessionError(409, 'incomplete', `${missing.length} chunk(s) have not been received`);
+  }
+  // Other writes may have used up the quota while the chunks were arriving
+  await assertStorageAvailable(await resolveUploadScope(userId, session.dashboardId, session.sharedDriveId), session.totalSize);
+
+  const claimed = await prisma.driveUploadSession.updateMany({
+    where: { id: sessionId, status: 'active' },
+    data: { status: 'finalizing' }
+  });
+  if (claimed.count === 0) {
+    throw new UploadSessionError(409, 'not_active', 'Upload session is already being finalized');
+  }
+
+  const destination = `files/${userId}-${Date.now()}-${Math.round(Math.random() * 1E9)}${path.extname(session.fileName)}`;
+  let stored: Awaited<ReturnType<typeof storageService.composeUploadParts>> | null = null;
+  try {
+    stored = await storageService.composeUploadParts(chunks.map((chunk) => chunk.path), destination, session.mimeType);
+    const checksum = await hashStream(storageService.createReadStream(stored.path));
+
+    if (expectedChecksum && checksum !== expectedChecksum) {
+      await storageService.deleteFile(stored.path);
+      await prisma.driveUploadSession.update({ where: { id: sessionId }, data: { status: 'failed' } });
+      throw new UploadSessionError(422, 'checksum_mismatch', 'Uploaded file failed checksum verification');
+    }
+
+    const file = await prisma.$transaction(async (tx) => {
+      const created = await tx.file.create({
+        data: {
+          userId,
+          name: session.fileName,
+          type: session.mimeType,
+          size: session.totalSize,
+          url: stored!.url,
+          path: stored!.path,
+          checksum,
+          folderId: session.folderId,
+          dashboardId: session.dashboardId,
+          sharedDriveId: session.sharedDriveId
+        }
+      });
+      await tx.activity.create({
+        data: {
+          type: 'create',
+          userId,
+          fileId: created.id,
+          details: {
+            action: 'file_uploaded',
+            fileName: session.fileName,
+            fileSize: session.totalSize,
+            fileType: session.mimeType
+          }
+        }
+      });
+      await tx.driveUploadSession.update({
+        where: { id: sessionId },
+        data: { status: 'completed', fileId: created.id }
+      });
+      return created;
+    });
+
+    await storageService.deleteUploadParts(partsPrefix(sessionId));
+    await prisma.driveUploadChunk.deleteMany({ where: { sessionId } });
+    await queueFileForIndexing(file.id);
+    return { file, created: true };
+  } catch (error) {
+    if (error instanceof UploadSessionError) throw error;
+    // Leave the parts in place so the client can retry finalizing
+    if (stored) {
+      await storageService.deleteFile(stored.path);
+    }
+    await prisma.driveUploadSession.update({ where: { id: sessionId }, data: { status: 'active' } });
+    throw error;
+  }
+}
+
+export async function abortUploadSession(userId: string, sessionId: string) {
+  const session = await getOwnedSession(userId, sessionId);
+  if (session.status === 'completed') {
+    throw new UploadSessionError(409, 'completed', 'Upload session has already completed');
+  }
+  await storageService.deleteUploadParts(partsPrefix(sessionId));
+  await prisma.driveUploadSession.delete({ where: { id: sessionId } });
+}
+
+/**
+ * Delete the parts and records of sessions that expired before finishing, and the records
+ * of completed sessions past their expiry.
+ */
+export async function cleanupExpiredUploadSessions(now: Date = new Date()) {
+  const expired = await prisma.driveUploadSession.findMany({
+    where: { expiresAt: { lt: now } },
+    select: { id: true, status: true }
+  });
+
+  let removed = 0;
+  for (const session of expired) {
+    try {
+      if (session.status !== 'completed') {
+        await storageService.deleteUploadParts(partsPrefix(session.id));
+      }
+      await prisma.driveUploadSession.delete({ where: { id: session.id } });
+      removed++;
+    } catch (error) {
+      await logger.error('Failed to clean up upload session', {
+        operation: 'drive_upload_session_cleanup',
+        sessionId: session.id,
+        error: {
+          message: error instanceof Error ? error.message : 'Unknown error',
+          stack: error instanceof Error ? error.stack : undefined
+        }
+      });
+    }
+  }
+  return removed;
+}
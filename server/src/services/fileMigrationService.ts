@@ -1,5 +1,8 @@
 import { prisma } from '../lib/prisma';
 import { logger } from '../lib/logger';
+import { storageService } from './storageService';
+import { assertStorageAvailable, StorageQuotaExceededError } from './storageQuotaService';
+import { ARCHIVE_CONTENT_TYPES, ArchiveError, archiveFileName, planArchive, storeArchive } from './driveArchiveService';
 
 export interface DashboardFileSummary {
   fileCount: number;
@@ -18,6 +21,14 @@ export type FileHandlingAction =
   | { type: 'move-to-trash'; retentionDays?: number }
   | { type: 'export'; format: 'zip' | 'tar' };
 
+export interface DashboardExportResult {
+  fileId: string; // The archive, saved to the user's main drive
+  fileName: string;
+  downloadUrl: string;
+  exportSize: number;
+  fileCount: number;
+}
+
 /**
  * Get summary of files and folders for a dashboard before deletion
  */
@@ -290,13 +301,14 @@ export async function moveFilesToTrash(
 }
 
 /**
- * Create export archive of dashboard files
+ * Create an archive of a dashboard's files and folders and save it to the user's main
+ * drive, where it survives the dashboard and can be downloaded like any other file.
  */
 export async function createDashboardExport(
   userId: string, 
   dashboardId: string, 
   format: 'zip' | 'tar' = 'zip'
-): Promise<{ exportPath: string; exportSize: number; fileCount: number }> {
+): Promise<DashboardExportResult> {
   try {
     await logger.info('Creating dashboard export', {
       operation: 'file_migration_create_export',
@@ -304,30 +316,33 @@ export async function createDashboardExport(
       dashboardId,
       userId
     });
-    
-    // Get all files for this dashboard
-    const files = await prisma.file.findMany({
-      where: {
-        userId,
-        dashboardId,
-        trashedAt: null
-      },
-      include: {
-        folder: true
-      }
-    });
 
-    // Get all folders for this dashboard
-    const folders = await prisma.folder.findMany({
-      where: {
-        userId,
-        dashboardId,
-        trashedAt: null
-      },
-      include: {
-        parent: true
-      }
+    if (format !== 'zip' && format !== 'tar') {
+      throw new ArchiveError(400, 'invalid_format', 'Export format must be zip or tar');
+    }
+
+    const dashboard = await prisma.dashboard.findFirst({
+      where: { id: dashboardId, userId },
+      select: { name: true }
     });
+    if (!dashboard) {
+      throw new ArchiveError(404, 'dashboard_not_found', 'Dashboard not found');
+    }
+
+    // Top-level items: anything whose parent folder isn't part of this dashboard
+    const [files, folders] = await Promise.all([
+      prisma.file.findMany({
+        where: { userId, dashboardId, trashedAt: null },
+        select: { id: true, folderId: true }
+      }),
+      prisma.folder.findMany({
+        where: { userId, dashboardId, trashedAt: null },
+        select: { id: true, parentId: true }
+      })
+    ]);
+    const folderIds = new Set(folders.map((folder) => folder.id));
+    const rootFolderIds = folders.filter((folder) => !folder.parentId || !folderIds.has(folder.parentId)).map((folder) => folder.id);
+    const rootFileIds = files.filter((file) => !file.folderId || !folderIds.has(file.folderId)).map((file) => file.id);
 
     await logger.debug('Found files and folders for export', {
       operation: 'file_migration_export_found',
@@ -335,30 +350,63 @@ export async function createDashboardExport(
       foldersCount: folders.length
     });
 
-    // TODO: Implement actual ZIP/TAR creation
-    // For now, we'll create a simple export manifest and return basic info
-    
-    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-    const exportPath = `/tmp/dashboard-${dashboardId}-export.${format}`;
-    
-    // Note: In a real implementation, you would:
-    // 1. Create a temporary directory
-    // 2. Recreate the folder structure
-    // 3. Copy files maintaining hierarchy
-    // 4. Create ZIP/TAR archive
-    // 5. Store in uploads directory or cloud storage
-    // 6. Return download URL
-
-    await logger.info('Export prepared', {
-      operation: 'file_migration_export_prepared',
-      filesCount: files.length,
-      totalSize
+    const fileName = archiveFileName(`${dashboard.name} export`, format);
+    const contentType = ARCHIVE_CONTENT_TYPES[format];
+    const plan = rootFolderIds.length + rootFileIds.length > 0
+      ? await planArchive(userId, { fileIds: rootFileIds, folderIds: rootFolderIds })
+      : { entries: [], fileIds: [], totalBytes: 0, skipped: 0 };
+
+    const destination = `files/${userId}-${Date.now()}-${Math.round(Math.random() * 1E9)}.${format}`;
+    const { stored, size, checksum } = await storeArchive(plan, format, destination);
+
+    let exportFile;
+    try {
+      await assertStorageAvailable({ userId, businessId: null }, size);
+      exportFile = await prisma.file.create({
+        data: {
+          userId,
+          name: fileName,
+          type: contentType,
+          size,
+          url: stored.url,
+          path: stored.path,
+          checksum
+        }
+      });
+    } catch (error) {
+      await storageService.deleteFile(stored.path);
+      throw error;
+    }
+
+    await prisma.activity.create({
+      data: {
+        type: 'create',
+        userId,
+        fileId: exportFile.id,
+        details: {
+          action: 'dashboard_exported',
+          dashboardId,
+          fileName,
+          fileSize: size,
+          fileCount: plan.fileIds.length
+        }
+      }
+    });
+
+    await logger.info('Export created', {
+      operation: 'file_migration_export_created',
+      fileId: exportFile.id,
+      filesCount: plan.fileIds.length,
+      skipped: plan.skipped,
+      size
     });
 
     return {
-      exportPath,
-      exportSize: totalSize,
-      fileCount: files.length
+      fileId: exportFile.id,
+      fileName,
+      downloadUrl: `/api/drive/files/${exportFile.id}/download`,
+      exportSize: size,
+      fileCount: plan.fileIds.length
     };
   } catch (error) {
     await logger.error('Failed to create dashboard export', {
@@ -368,6 +416,7 @@ export async function createDashboardExport(
         stack: error instanceof Error ? error.stack : undefined
       }
     });
+    if (error instanceof ArchiveError || error instanceof StorageQuotaExceededError) throw error;
     throw new Error('Failed to create dashboard export');
   }
 }
@@ -0,0 +1,635 @@
+import crypto from 'crypto';
+import {
+  AttendanceKioskPunchDirection,
+  AttendanceKioskPunchStatus,
+  AttendanceMethod,
+  AttendanceRecordStatus,
+  Prisma
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { ensureBusinessDashboardForUser } from './dashboardService';
+import { ensureAttendancePhotosFolder } from './driveService';
+import { storageService } from './storageService';
+import { assertStorageAvailable } from './storageQuotaService';
+import { recordPunchIn, recordPunchOut } from './hrAttendanceService';
+
+const KIOSK_TOKEN_PREFIX = 'kiosk_';
+const MAX_FAILED_ATTEMPTS = 10;
+const LOCKOUT_MINUTES = 5;
+// Unrecognized PINs or badges one batch may contain; the rest wait for the next sync
+const MAX_UNRECOGNIZED_PER_BATCH = 3;
+const UNRECOGNIZED_CREDENTIAL = 'PIN or badge not recognized';
+// Buffered punches older than this are rejected rather than replayed into payroll
+export const MAX_OFFLINE_PUNCH_AGE_HOURS = 72;
+const MAX_CLOCK_SKEW_MINUTES = 5;
+
+export interface KioskDeviceInput {
+  businessId: string;
+  name: string;
+  jobLocationId?: string | null;
+  requirePhoto?: boolean;
+  active?: boolean;
+}
+
+export interface KioskCredentialInput {
+  businessId: string;
+  employeePositionId: string;
+  // undefined leaves the value unchanged, null clears it
+  pin?: string | null;
+  badgeNumber?: string | null;
+}
+
+export interface KioskPunchInput {
+  clientPunchId: string;
+  pin?: string | null;
+  badgeNumber?: string | null;
+  occurredAt?: Date | null;
+  offline?: boolean;
+}
+
+export interface KioskPunchResult {
+  clientPunchId: string;
+  status: AttendanceKioskPunchStatus;
+  direction: AttendanceKioskPunchDirection | null;
+  employeeName: string | null;
+  occurredAt: string;
+  error: string | null;
+}
+
+export type AuthenticatedKioskDevice = NonNullable<Awaited<ReturnType<typeof findKioskDeviceByToken>>>;
+
+// -----------------------------------------------------------------------------
+// Tokens and credentials
+// -----------------------------------------------------------------------------
+
+export function hashKioskToken(token: string): string {
+  return crypto.createHash('sha256').update(token.trim()).digest('hex');
+}
+
+/**
+ * New device token. Only the hash is stored; the token is shown to the admin once.
+ */
+export function generateKioskToken() {
+  const token = `${KIOSK_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashKioskToken(token), tokenHint: token.slice(-4) };
+}
+
+export function normalizeKioskPin(pin: string): string {
+  const trimmed = pin.trim();
+  if (!/^\d{4,8}$/.test(trimmed)) {
+    throw new Error('PIN must be 4 to 8 digits');
+  }
+  return trimmed;
+}
+
+/**
+ * PINs are hashed with a server secret and the business id rather than a random
+ * salt, so the same PIN always hashes the same way and the kiosk can look the
+ * employee up by PIN alone (and the database can keep PINs unique per business).
+ */
+export function hashKioskPin(businessId: string, pin: string): string {
+  const secret = process.env.KIOSK_PIN_SECRET || process.env.JWT_SECRET || '';
+  return crypto.createHmac('sha256', secret).update(`${businessId}:${normalizeKioskPin(pin)}`).digest('hex');
+}
+
+export function normalizeBadgeNumber(badgeNumber: string): string {
+  const normalized = badgeNumber.replace(/\s+/g, '').toUpperCase();
+  if (normalized.length === 0 || normalized.length > 64) {
+    throw new Error('Badge number must be 1 to 64 characters');
+  }
+  return normalized;
+}
+
+/**
+ * Reject punches stamped in the future (beyond a little clock skew) or buffered
+ * for too long. Returns the reason, or null when the time is acceptable.
+ */
+export function validateKioskPunchTime(occurredAt: Date, receivedAt: Date): string | null {
+  if (Number.isNaN(occurredAt.getTime())) {
+    return 'Punch time is invalid';
+  }
+  if (occurredAt.getTime() - receivedAt.getTime() > MAX_CLOCK_SKEW_MINUTES * 60000) {
+    return 'Punch time is in the future; check the kiosk clock';
+  }
+  if (receivedAt.getTime() - occurredAt.getTime() > MAX_OFFLINE_PUNCH_AGE_HOURS * 3600000) {
+    return `Offline punches older than ${MAX_OFFLINE_PUNCH_AGE_HOURS} hours cannot be synced`;
+  }
+  return null;
+}
+
+/**
+ * Replay order for a batch: oldest first, so buffered punches alternate in/out
+ * the same way they did on the device.
+ */
+export function orderKioskPunches<T extends { occurredAt: Date }>(punches: T[]): T[] {
+  return punches
+    .map((punch, index) => ({ punch, index }))
+    .sort((a, b) => a.punch.occurredAt.getTime() - b.punch.occurredAt.getTime() || a.index - b.index)
+    .map(({ punch }) => punch);
+}
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// -----------------------------------------------------------------------------
+// Devices (admin)
+// -----------------------------------------------------------------------------
+
+// Devices as admins see them: the token hash never leaves the server
+const publicDeviceArgs = {
+  include: { jobLocation: { select: { id: true, name: true } } },
+  omit: { tokenHash: true }
+} satisfies Prisma.AttendanceKioskDeviceDefaultArgs;
+
+async function assertJobLocation(businessId: string, jobLocationId?: string | null) {
+  if (!jobLocationId) {
+    return;
+  }
+  const location = await prisma.jobLocation.findFirst({ where: { id: jobLocationId, businessId } });
+  if (!location) {
+    throw new Error('Job location not found');
+  }
+}
+
+export async function listKioskDevices(businessId: string) {
+  return prisma.attendanceKioskDevice.findMany({
+    where: { businessId },
+    orderBy: [{ active: 'desc' }, { name: 'asc' }],
+    ...publicDeviceArgs
+  });
+}
+
+export async function createKioskDevice(input: KioskDeviceInput & { createdById: string }) {
+  await assertJobLocation(input.businessId, input.jobLocationId);
+  const { token, tokenHash, tokenHint } = generateKioskToken();
+
+  const device = await prisma.attendanceKioskDevice.create({
+    data: {
+      businessId: input.businessId,
+      name: input.name.trim(),
+      jobLocationId: input.jobLocationId ?? null,
+      requirePhoto: input.requirePhoto ?? false,
+      createdById: input.createdById,
+      tokenHash,
+      tokenHint
+    },
+    ...publicDeviceArgs
+  });
+
+  logger.info('Attendance kiosk registered', {
+    operation: 'attendance_kiosk_create',
+    businessId: input.businessId,
+    deviceId: device.id
+  });
+
+  return { device, token };
+}
+
+export async function updateKioskDevice(id: string, input: KioskDeviceInput) {
+  const existing = await prisma.attendanceKioskDevice.findFirst({ where: { id, businessId: input.businessId } });
+  if (!existing) {
+    throw new Error('Kiosk device not found');
+  }
+  await assertJobLocation(input.businessId, input.jobLocationId);
+
+  const device = await prisma.attendanceKioskDevice.update({
+    where: { id },
+    data: {
+      name: input.name.trim(),
+      jobLocationId: input.jobLocationId ?? null,
+      ...(input.requirePhoto !== undefined ? { requirePhoto: input.requirePhoto } : {}),
+      ...(input.active !== undefined ? { active: input.active } : {})
+    },
+    ...publicDeviceArgs
+  });
+  return device;
+}
+
+/**
+ * Issue a new token (the old one stops working immediately) and clear any lockout.
+ */
+export async function rotateKioskDeviceToken(businessId: string, id: string) {
+  const existing = await prisma.attendanceKioskDevice.findFirst({ where: { id, businessId } });
+  if (!existing) {
+    throw new Error('Kiosk device not found');
+  }
+  const { token, tokenHash, tokenHint } = generateKioskToken();
+  const device = await prisma.attendanceKioskDevice.update({
+    where: { id },
+    data: { tokenHash, tokenHint, failedAttempts: 0, lockedUntil: null },
+    ...publicDeviceArgs
+  });
+  return { device, token };
+}
+
+export async function deactivateKioskDevice(businessId: string, id: string) {
+  const existing = await prisma.attendanceKioskDevice.findFirst({ where: { id, businessId } });
+  if (!existing) {
+    throw new Error('Kiosk device not found');
+  }
+  const device = await prisma.attendanceKioskDevice.update({
+    where: { id },
+    data: { active: false },
+    ...publicDeviceArgs
+  });
+  return device;
+}
+
+export async function listKioskPunches(businessId: string, { deviceId, limit = 100 }: { deviceId?: string; limit?: number } = {}) {
+  return prisma.attendanceKioskPunch.findMany({
+    where: { businessId, ...(deviceId ? { deviceId } : {}) },
+    orderBy: { occurredAt: 'desc' },
+    take: Math.min(500, Math.max(1, limit)),
+    include: {
+      device: { select: { id: true, name: true } },
+      employeePosition: { select: { id: true, user: { select: { id: true, name: true } } } },
+      photoFile: { select: { id: true, name: true } }
+    }
+  });
+}
+
+export async function getKioskPunchPhoto(businessId: string, punchId: string) {
+  const punch = await prisma.attendanceKioskPunch.findFirst({
+    where: { id: punchId, businessId },
+    select: { photoFile: true }
+  });
+  const file = punch?.photoFile;
+  if (!file || file.trashedAt) {
+    return null;
+  }
+
+  const buffer = await storageService.getFileBuffer(file.path ?? file.url);
+  return { name: file.name, type: file.type, buffer };
+}
+
+// -----------------------------------------------------------------------------
+// Employee credentials
+// -----------------------------------------------------------------------------
+
+export async function listKioskCredentials(businessId: string) {
+  const positions = await prisma.employeePosition.findMany({
+    where: { businessId, active: true },
+    orderBy: { user: { name: 'asc' } },
+    select: {
+      id: true,
+      user: { select: { id: true, name: true, email: true } },
+      position: { select: { id: true, title: true } },
+      kioskCredential: { select: { pinHash: true, badgeNumber: true, updatedAt: true } }
+    }
+  });
+
+  return positions.map(({ kioskCredential, ...position }) => ({
+    ...position,
+    hasPin: Boolean(kioskCredential?.pinHash),
+    badgeNumber: kioskCredential?.badgeNumber ?? null,
+    updatedAt: kioskCredential?.updatedAt ?? null
+  }));
+}
+
+export async function setKioskCredential(input: KioskCredentialInput) {
+  const { businessId, employeePositionId, pin, badgeNumber } = input;
+
+  const position = await prisma.employeePosition.findFirst({
+    where: { id: employeePositionId, businessId, active: true },
+    select: { id: true }
+  });
+  if (!position) {
+    throw new Error('Active employee position not found for this business');
+  }
+
+  const data: { pinHash?: string | null; badgeNumber?: string | null } = {};
+  if (pin !== undefined) {
+    data.pinHash = pin ? hashKioskPin(businessId, pin) : null;
+  }
+  if (badgeNumber !== undefined) {
+    data.badgeNumber = badgeNumber ? normalizeBadgeNumber(badgeNumber) : null;
+  }
+
+  try {
+    const credential = await prisma.attendanceKioskCredential.upsert({
+      where: { employeePositionId },
+      create: { businessId, employeePositionId, ...data },
+      update: data
+    });
+    return {
+      employeePositionId,
+      hasPin: Boolean(credential.pinHash),
+      badgeNumber: credential.badgeNumber
+    };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      // Don't confirm that another employee holds the PIN
+      throw new Error(
+        data.badgeNumber !== undefined && pin === undefined
+          ? 'That badge number is already assigned to another employee'
+          : 'The PIN or badge number must be changed; choose a different one'
+      );
+    }
+    throw error;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Kiosk device session and punches
+// -----------------------------------------------------------------------------
+
+export async function findKioskDeviceByToken(token: string) {
+  if (!token.startsWith(KIOSK_TOKEN_PREFIX)) {
+    return null;
+  }
+  return prisma.attendanceKioskDevice.findFirst({
+    where: { tokenHash: hashKioskToken(token), active: true },
+    include: {
+      business: { select: { id: true, name: true } },
+      jobLocation: { select: { id: true, name: true } }
+    }
+  });
+}
+
+export async function getKioskSession(device: AuthenticatedKioskDevice) {
+  await prisma.attendanceKioskDevice.update({
+    where: { id: device.id },
+    data: { lastSeenAt: new Date() }
+  });
+
+  return {
+    device: {
+      id: device.id,
+      name: device.name,
+      requirePhoto: device.requirePhoto,
+      jobLocation: device.jobLocation
+    },
+    business: device.business,
+    serverTime: new Date().toISOString(),
+    maxOfflineHours: MAX_OFFLINE_PUNCH_AGE_HOURS
+  };
+}
+
+async function findCredential(businessId: string, punch: KioskPunchInput) {
+  let where: Prisma.AttendanceKioskCredentialWhereInput | null = null;
+  try {
+    if (punch.badgeNumber) {
+      where = { businessId, badgeNumber: normalizeBadgeNumber(punch.badgeNumber) };
+    } else if (punch.pin) {
+      where = { businessId, pinHash: hashKioskPin(businessId, punch.pin) };
+    }
+  } catch {
+    return null;
+  }
+  if (!where) {
+    return null;
+  }
+
+  return prisma.attendanceKioskCredential.findFirst({
+    where: { ...where, employeePosition: { active: true } },
+    include: { employeePosition: { select: { id: true, userId: true, user: { select: { name: true } } } } }
+  });
+}
+
+/**
+ * Count an unrecognized PIN or badge, live or buffered, and lock the kiosk once
+ * there are too many. A recognized PIN doesn't clear the count, otherwise
+ * guesses could be interleaved with a known PIN; lockout and token rotation do.
+ * Returns true when this attempt locked the kiosk.
+ */
+async function registerFailedAttempt(device: AuthenticatedKioskDevice): Promise<boolean> {
+  const updated = await prisma.attendanceKioskDevice.update({
+    where: { id: device.id },
+    data: { failedAttempts: { increment: 1 } }
+  });
+  if (updated.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+    await prisma.attendanceKioskDevice.update({
+      where: { id: device.id },
+      data: { failedAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MINUTES * 60000) }
+    });
+    logger.warn('Attendance kiosk locked after repeated unknown PINs', {
+      operation: 'attendance_kiosk_lockout',
+      businessId: device.businessId,
+      deviceId: device.id
+    });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Upload a punch photo into the "Attendance Photos" Drive folder of the admin
+ * who registered the kiosk.
+ */
+async function storePunchPhoto(
+  device: AuthenticatedKioskDevice,
+  employeeName: string,
+  direction: AttendanceKioskPunchDirection,
+  occurredAt: Date,
+  photo: Express.Multer.File
+) {
+  const dashboard = await ensureBusinessDashboardForUser(device.createdById, device.businessId);
+  if (!dashboard) {
+    throw new Error('Failed to prepare attendance photo folder');
+  }
+  await assertStorageAvailable({ userId: device.createdById, businessId: device.businessId }, photo.size);
+  const folder = await ensureAttendancePhotosFolder(device.createdById, dashboard.id);
+
+  const extension = photo.mimetype === 'image/png' ? '.png' : photo.mimetype === 'image/webp' ? '.webp' : '.jpg';
+  const name = `${employeeName} - ${direction === 'IN' ? 'clock in' : 'clock out'} ${occurredAt.toISOString().slice(0, 16).replace('T', ' ')}${extension}`;
+  const destination = `files/attendance/${device.businessId}-${Date.now()}-${Math.round(Math.random() * 1E9)}${extension}`;
+  const upload = await storageService.uploadFile(photo, destination, {
+    makePublic: false,
+    metadata: {
+      userId: device.createdById,
+      originalName: name,
+      folderId: folder.id,
+      dashboardId: dashboard.id,
+      kioskDeviceId: device.id
+    }
+  });
+
+  return prisma.file.create({
+    data: {
+      userId: device.createdById,
+      name,
+      type: photo.mimetype,
+      size: photo.size,
+      url: upload.url,
+      path: upload.path,
+      folderId: folder.id,
+      dashboardId: dashboard.id
+    }
+  });
+}
+
+async function processKioskPunch(
+  device: AuthenticatedKioskDevice,
+  punch: KioskPunchInput & { occurredAt: Date },
+  photo: Express.Multer.File | undefined,
+  receivedAt: Date,
+  batch: { unrecognized: number; locked: boolean }
+): Promise<KioskPunchResult> {
+  const existing = await prisma.attendanceKioskPunch.findUnique({
+    where: { deviceId_clientPunchId: { deviceId: device.id, clientPunchId: punch.clientPunchId } },
+    include: { employeePosition: { select: { user: { select: { name: true } } } } }
+  });
+  if (existing) {
+    return {
+      clientPunchId: existing.clientPunchId,
+      status: existing.status,
+      direction: existing.direction,
+      employeeName: existing.employeePosition?.user.name ?? null,
+      occurredAt: existing.occurredAt.toISOString(),
+      error: existing.error
+    };
+  }
+
+  const base = {
+    businessId: device.businessId,
+    deviceId: device.id,
+    clientPunchId: punch.clientPunchId,
+    occurredAt: punch.occurredAt,
+    offline: punch.offline ?? false
+  };
+
+  const reject = async (error: string, employeePositionId: string | null = null, employeeName: string | null = null) => {
+    await prisma.attendanceKioskPunch.create({
+      data: { ...base, employeePositionId, status: AttendanceKioskPunchStatus.REJECTED, error }
+    });
+    return {
+      clientPunchId: punch.clientPunchId,
+      status: AttendanceKioskPunchStatus.REJECTED,
+      direction: null,
+      employeeName,
+      occurredAt: punch.occurredAt.toISOString(),
+      error
+    };
+  };
+
+  const credential = await findCredential(device.businessId, punch);
+  if (!credential) {
+    // The offline flag comes from the client, so buffered punches count too
+    batch.unrecognized += 1;
+    batch.locked = await registerFailedAttempt(device);
+    return reject(UNRECOGNIZED_CREDENTIAL);
+  }
+
+  const employeePositionId = credential.employeePosition.id;
+  const employeeName = credential.employeePosition.user.name ?? 'Employee';
+
+  const timeError = validateKioskPunchTime(punch.occurredAt, receivedAt);
+  if (timeError) {
+    return reject(timeError, employeePositionId, employeeName);
+  }
+  if (device.requirePhoto && !photo) {
+    return reject('A photo is required to punch at this kiosk', employeePositionId, employeeName);
+  }
+
+  const openRecord = await prisma.attendanceRecord.findFirst({
+    where: { businessId: device.businessId, employeePositionId, status: AttendanceRecordStatus.IN_PROGRESS },
+    select: { id: true }
+  });
+  const direction = openRecord ? AttendanceKioskPunchDirection.OUT : AttendanceKioskPunchDirection.IN;
+
+  const punchParams = {
+    businessId: device.businessId,
+    employeePositionId,
+    method: AttendanceMethod.HARDWARE,
+    source: `kiosk:${device.name}`,
+    occurredAt: punch.occurredAt,
+    metadata: { kiosk: { deviceId: device.id, clientPunchId: punch.clientPunchId, offline: punch.offline ?? false } }
+  };
+
+  let record;
+  try {
+    record = openRecord
+      ? await recordPunchOut({ ...punchParams, recordId: openRecord.id })
+      : await recordPunchIn(punchParams);
+  } catch (error) {
+    return reject(error instanceof Error ? error.message : 'Punch could not be recorded', employeePositionId, employeeName);
+  }
+
+  let photoFileId: string | null = null;
+  if (photo) {
+    try {
+      photoFileId = (await storePunchPhoto(device, employeeName, direction, punch.occurredAt, photo)).id;
+    } catch (error) {
+      // The punch itself is already recorded; keep it and note the missing photo
+      logger.error('Failed to store attendance kiosk photo', {
+        operation: 'attendance_kiosk_photo',
+        businessId: device.businessId,
+        deviceId: device.id,
+        error: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+  }
+
+  try {
+    await prisma.attendanceKioskPunch.create({
+      data: {
+        ...base,
+        employeePositionId,
+        attendanceRecordId: record.id,
+        direction,
+        status: AttendanceKioskPunchStatus.ACCEPTED,
+        photoFileId
+      }
+    });
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error;
+    }
+  }
+
+  return {
+    clientPunchId: punch.clientPunchId,
+    status: AttendanceKioskPunchStatus.ACCEPTED,
+    direction,
+    employeeName,
+    occurredAt: punch.occurredAt.toISOString(),
+    error: null
+  };
+}
+
+/**
+ * Record a batch of kiosk punches: one live punch, or everything the device
+ * buffered while offline. Each punch toggles the employee in or out, replayed
+ * oldest first. Retried punches return their original result.
+ */
+export async function submitKioskPunches(
+  device: AuthenticatedKioskDevice,
+  punches: KioskPunchInput[],
+  photos: Map<string, Express.Multer.File> = new Map()
+): Promise<KioskPunchResult[]> {
+  const receivedAt = new Date();
+
+  if (device.lockedUntil && device.lockedUntil > receivedAt) {
+    throw new Error('Too many unrecognized PINs on this kiosk. Try again in a few minutes');
+  }
+
+  const ordered = orderKioskPunches(
+    punches.map((punch) => ({ ...punch, occurredAt: punch.occurredAt ?? receivedAt }))
+  );
+
+  // Punches left out of the results stay queued on the device and are retried later
+  const batch = { unrecognized: 0, locked: false };
+  const results: KioskPunchResult[] = [];
+  for (const punch of ordered) {
+    if (batch.locked || batch.unrecognized >= MAX_UNRECOGNIZED_PER_BATCH) {
+      break;
+    }
+    results.push(await processKioskPunch(device, punch, photos.get(punch.clientPunchId), receivedAt, batch));
+  }
+
+  await prisma.attendanceKioskDevice.update({
+    where: { id: device.id },
+    data: { lastSeenAt: receivedAt }
+  });
+
+  logger.info('Attendance kiosk punches processed', {
+    operation: 'attendance_kiosk_punch',
+    businessId: device.businessId,
+    deviceId: device.id,
+    accepted: results.filter((result) => result.status === AttendanceKioskPunchStatus.ACCEPTED).length,
+    rejected: results.filter((result) => result.status === AttendanceKioskPunchStatus.REJECTED).length
+  });
+
+  return results;
+}
@@ -1,5 +1,6 @@
 import {
   AttendanceExceptionStatus,
+  AttendanceExceptionType,
   AttendanceMethod,
   AttendanceRecordStatus,
   AttendanceShiftAssignmentStatus,
@@ -25,6 +26,8 @@ export interface RecordPunchParams {
   source?: string | null;
   location?: JsonInput;
   metadata?: JsonInput;
+  // When the punch happened, if earlier than now (kiosk punches buffered while offline)
+  occurredAt?: Date;
 }
 
 export interface ClockOutParams extends RecordPunchParams {
@@ -210,8 +213,564 @@ export async function ensureDefaultAttendancePolicy(businessId: string) {
   });
 }
 
+// -----------------------------------------------------------------------------
+// Policy enforcement (geofence, rounding, grace period, auto clock-out)
+// -----------------------------------------------------------------------------
+
+const DEFAULT_GEOFENCE_RADIUS_METERS = 150;
+// How far ahead of a shift start a punch-in is still matched to that shift
+const SHIFT_MATCH_LOOKAHEAD_MINUTES = 240;
+const POLICY_EXCEPTION_SOURCE = 'attendance-policy';
+const AUTO_CLOCK_OUT_SOURCE = 'auto-clock-out';
+// Punches entered by an admin or the system are not made from the employee's device, and
+// kiosks are registered to a site
+const LOCATION_EXEMPT_METHODS: AttendanceMethod[] = [
+  AttendanceMethod.ADMIN,
+  AttendanceMethod.AUTO,
+  AttendanceMethod.HARDWARE
+];
+
+export type PunchDirection = 'IN' | 'OUT';
+
+export interface PunchCoordinates {
+  latitude: number;
+  longitude: number;
+  accuracyMeters: number | null;
+}
+
+export interface GeofenceSite {
+  kind: 'JOB_LOCATION' | 'STATION';
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number | null;
+}
+
+export interface GeofenceEvaluation {
+  withinGeofence: boolean;
+  siteKind: GeofenceSite['kind'];
+  siteId: string;
+  siteName: string;
+  distanceMeters: number;
+  radiusMeters: number;
+}
+
+export interface PunchTimingEvaluation {
+  varianceMinutes: number;
+  exceptionType: AttendanceExceptionType | null;
+}
+
+export interface ShiftWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Enforcement details stored under `metadata.attendancePolicy` on each record so
+ * punch-out and the auto clock-out job can check against the same expectations.
+ */
+type PolicyEnforcementMetadata = {
+  rawClockInTime?: string;
+  rawClockOutTime?: string;
+  expectedStart?: string | null;
+  expectedEnd?: string | null;
+  scheduleShiftId?: string | null;
+  locationId?: string | null;
+  stationName?: string | null;
+  clockInGeofence?: GeofenceEvaluation | null;
+  clockOutGeofence?: GeofenceEvaluation | null;
+  autoClockedOut?: boolean;
+};
+
+interface PolicyExceptionInput {
+  type: AttendanceExceptionType;
+  details: Prisma.InputJsonValue;
+}
+
+const toFiniteNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read coordinates from a punch location payload. Accepts the browser
+ * geolocation shape (`latitude`/`longitude`/`accuracy`) and `lat`/`lng`.
+ */
+export function parsePunchCoordinates(location: unknown): PunchCoordinates | null {
+  if (!isJsonObject(location)) {
+    return null;
+  }
+
+  const latitude = toFiniteNumber(location.latitude ?? location.lat);
+  const longitude = toFiniteNumber(location.longitude ?? location.lng ?? location.lon);
+
+  if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+
+  return {
+    latitude,
+    longitude,
+    accuracyMeters: toFiniteNumber(location.accuracy ?? location.accuracyMeters)
+  };
+}
+
+/**
+ * Great-circle distance between two points (haversine), in meters.
+ */
+export function distanceInMeters(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const earthRadiusMeters = 6371000;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLng / 2) ** 2;
+  return 2 * earthRadiusMeters * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Check a punch against the candidate sites. The punch passes when it falls
+ * inside any site's radius; the site's own radius wins over the policy radius.
+ * Returns the matching (or nearest) site, or null when no site has coordinates.
+ */
+export function evaluateGeofence(
+  coordinates: PunchCoordinates,
+  sites: GeofenceSite[],
+  policyRadiusMeters?: number | null
+): GeofenceEvaluation | null {
+  const evaluations = sites.map((site) => {
+    const radiusMeters = site.radiusMeters ?? policyRadiusMeters ?? DEFAULT_GEOFENCE_RADIUS_METERS;
+    const distanceMeters = Math.round(distanceInMeters(coordinates, site));
+    return {
+      withinGeofence: distanceMeters <= radiusMeters,
+      siteKind: site.kind,
+      siteId: site.id,
+      siteName: site.name,
+      distanceMeters,
+      radiusMeters
+    };
+  });
+
+  if (evaluations.length === 0) {
+    return null;
+  }
+
+  return (
+    evaluations.find((evaluation) => evaluation.withinGeofence) ??
+    evaluations.reduce((nearest, evaluation) =>
+      evaluation.distanceMeters - evaluation.radiusMeters < nearest.distanceMeters - nearest.radiusMeters
+        ? evaluation
+        : nearest
+    )
+  );
+}
+
+/**
+ * Round a punch to the nearest policy increment (e.g. 15 minutes: 08:07 -> 08:00, 08:08 -> 08:15).
+ */
+export function roundPunchTime(time: Date, incrementMinutes?: number | null): Date {
+  if (!incrementMinutes || incrementMinutes <= 1) {
+    return new Date(time);
+  }
+  const incrementMs = incrementMinutes * 60000;
+  return new Date(Math.round(time.getTime() / incrementMs) * incrementMs);
+}
+
+/**
+ * Compare a punch with the scheduled time. Positive variance means later than
+ * scheduled. Arrivals outside the grace period either way and departures
+ * before the grace period are flagged.
+ */
+export function evaluatePunchTiming(
+  direction: PunchDirection,
+  punchTime: Date,
+  expectedTime: Date,
+  gracePeriodMinutes?: number | null
+): PunchTimingEvaluation {
+  const varianceMinutes = Math.round((punchTime.getTime() - expectedTime.getTime()) / 60000);
+  const grace = Math.max(0, gracePeriodMinutes ?? 0);
+
+  let exceptionType: AttendanceExceptionType | null = null;
+  if (direction === 'IN' && varianceMinutes > grace) {
+    exceptionType = AttendanceExceptionType.LATE_ARRIVAL;
+  } else if (direction === 'IN' && varianceMinutes < -grace) {
+    exceptionType = AttendanceExceptionType.EARLY_ARRIVAL;
+  } else if (direction === 'OUT' && varianceMinutes < -grace) {
+    exceptionType = AttendanceExceptionType.EARLY_DEPARTURE;
+  }
+
+  return { varianceMinutes, exceptionType };
+}
+
+/**
+ * Time at which an open record should be closed automatically, or null when
+ * the policy does not auto clock-out.
+ */
+export function resolveAutoClockOutTime(clockInTime: Date, autoClockOutAfterMinutes?: number | null): Date | null {
+  if (!autoClockOutAfterMinutes || autoClockOutAfterMinutes <= 0) {
+    return null;
+  }
+  return new Date(clockInTime.getTime() + autoClockOutAfterMinutes * 60000);
+}
+
+export const getZonedParts = (at: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'long'
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: get('weekday').toUpperCase()
+  };
+};
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const timeZoneOffsetMs = (at: Date, timeZone: string) => {
+  const parts = getZonedParts(at, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert a local wall-clock time (minutes from midnight on the given local date) to UTC.
+ */
+export function zonedMinutesToUtc(
+  date: { year: number; month: number; day: number },
+  minutes: number,
+  timeZone: string
+): Date {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const firstGuess = wallClock - timeZoneOffsetMs(new Date(wallClock), zone);
+  // Re-check the offset at the guessed instant so DST transitions resolve correctly
+  return new Date(wallClock - timeZoneOffsetMs(new Date(firstGuess), zone));
+}
+
+/**
+ * Scheduled window of a recurring shift template on the local day of `at`,
+ * or null when the template does not run that day.
+ */
+export function resolveTemplateShiftWindow(
+  template: { startMinutes: number; endMinutes: number; daysOfWeek: string[]; timezone?: string | null },
+  at: Date,
+  fallbackTimeZone?: string | null
+): ShiftWindow | null {
+  const candidate = template.timezone || fallbackTimeZone || 'UTC';
+  const timeZone = isValidTimeZone(candidate) ? candidate : 'UTC';
+  const local = getZonedParts(at, timeZone);
+
+  const runsToday =
+    template.daysOfWeek.length === 0 ||
+    template.daysOfWeek.some((day) => day.trim().toUpperCase().slice(0, 3) === local.weekday.slice(0, 3));
+
+  if (!runsToday) {
+    return null;
+  }
+
+  return {
+    start: zonedMinutesToUtc(local, template.startMinutes, timeZone),
+    end: zonedMinutesToUtc(local, template.endMinutes, timeZone)
+  };
+}
+
+const readEnforcementMetadata = (metadata: Prisma.JsonValue | null): PolicyEnforcementMetadata => {
+  if (isJsonObject(metadata) && isJsonObject(metadata.attendancePolicy)) {
+    return metadata.attendancePolicy as PolicyEnforcementMetadata;
+  }
+  return {};
+};
+
+const withEnforcementMetadata = (
+  metadata: JsonInput | Prisma.JsonValue,
+  enforcement: PolicyEnforcementMetadata
+): Prisma.InputJsonValue => {
+  const base = isJsonObject(metadata) ? metadata : metadata == null ? {} : { value: metadata };
+  return { ...base, attendancePolicy: enforcement } as Prisma.InputJsonValue;
+};
+
+/**
+ * Find the shift a punch-in belongs to: a published schedule shift first, then
+ * the employee's recurring attendance shift assignment for the day.
+ */
+async function resolveScheduledShift(businessId: string, employeePositionId: string, at: Date) {
+  const lookahead = new Date(at.getTime() + SHIFT_MATCH_LOOKAHEAD_MINUTES * 60000);
+
+  const scheduleShift = await prisma.scheduleShift.findFirst({
+    where: {
+      businessId,
+      employeePositionId,
+      status: { not: 'CANCELLED' },
+      schedule: { status: 'PUBLISHED' },
+      startTime: { lte: lookahead },
+      endTime: { gte: at }
+    },
+    orderBy: { startTime: 'asc' }
+  });
+
+  if (scheduleShift) {
+    return {
+      window: { start: scheduleShift.startTime, end: scheduleShift.endTime },
+      scheduleShiftId: scheduleShift.id,
+      shiftAssignmentId: null,
+      templatePolicy: null,
+      locationId: scheduleShift.locationId,
+      stationName: scheduleShift.stationName
+    };
+  }
+
+  const assignments = await prisma.attendanceShiftAssignment.findMany({
+    where: {
+      businessId,
+      employeePositionId,
+      status: AttendanceShiftAssignmentStatus.ACTIVE,
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: at } }],
+      shiftTemplate: { isActive: true }
+    },
+    orderBy: [{ isPrimary: 'desc' }, { effectiveFrom: 'desc' }],
+    include: { shiftTemplate: { include: { policy: true } } }
+  });
+
+  for (const assignment of assignments) {
+    const templatePolicy = assignment.shiftTemplate.policy?.active ? assignment.shiftTemplate.policy : null;
+    const window = resolveTemplateShiftWindow(assignment.shiftTemplate, at, templatePolicy?.timezone);
+    if (window && window.end >= at && window.start <= lookahead) {
+      return {
+        window,
+        scheduleShiftId: null,
+        shiftAssignmentId: assignment.id,
+        templatePolicy,
+        locationId: null,
+        stationName: null
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sites a punch is checked against: the shift's job location and station when
+ * they have coordinates, otherwise every geofenced site of the business.
+ */
+async function loadGeofenceSites(
+  businessId: string,
+  shift: { locationId?: string | null; stationName?: string | null }
+): Promise<GeofenceSite[]> {
+  const geofenced = { isActive: true, latitude: { not: null }, longitude: { not: null } };
+
+  const [locations, stations] = await Promise.all([
+    prisma.jobLocation.findMany({
+      where: { businessId, ...geofenced, ...(shift.locationId ? { id: shift.locationId } : {}) }
+    }),
+    prisma.businessStation.findMany({
+      where: { businessId, ...geofenced, ...(shift.stationName ? { name: shift.stationName } : {}) }
+    })
+  ]);
+
+  const toSites = (kind: GeofenceSite['kind'], rows: typeof locations | typeof stations): GeofenceSite[] =>
+    rows.map((row) => ({
+      kind,
+      id: row.id,
+      name: row.name,
+      latitude: row.latitude as number,
+      longitude: row.longitude as number,
+      radiusMeters: row.geofenceRadiusMeters
+    }));
+
+  const sites = [...toSites('JOB_LOCATION', locations), ...toSites('STATION', stations)];
+
+  if (sites.length === 0 && (shift.locationId || shift.stationName)) {
+    return loadGeofenceSites(businessId, {});
+  }
+
+  return sites;
+}
+
+/**
+ * Validate the punch location against the policy. Throws when the policy
+ * requires geolocation and the punch is missing or outside every geofence;
+ * otherwise returns the evaluation so a violation can be flagged.
+ */
+async function enforceGeofence(params: {
+  businessId: string;
+  employeePositionId: string;
+  policy: { id: string; requireGeolocation: boolean; geofenceRadiusMeters: number | null };
+  method: AttendanceMethod;
+  direction: PunchDirection;
+  location: unknown;
+  shift: { locationId?: string | null; stationName?: string | null };
+}): Promise<GeofenceEvaluation | null> {
+  const { businessId, employeePositionId, policy, method, direction, location, shift } = params;
+
+  if (LOCATION_EXEMPT_METHODS.includes(method)) {
+    return null;
+  }
+
+  const coordinates = parsePunchCoordinates(location);
+  if (!coordinates) {
+    if (policy.requireGeolocation) {
+      throw new Error('Location must be shared to punch under this attendance policy');
+    }
+    return null;
+  }
+
+  const sites = await loadGeofenceSites(businessId, shift);
+  const evaluation = evaluateGeofence(coordinates, sites, policy.geofenceRadiusMeters);
+
+  if (evaluation && !evaluation.withinGeofence && policy.requireGeolocation) {
+    await createPolicyExceptions({
+      businessId,
+      employeePositionId,
+      policyId: policy.id,
+      attendanceRecordId: null,
+      exceptions: [
+        {
+          type: AttendanceExceptionType.GEO_VIOLATION,
+          details: { direction, rejected: true, coordinates: { ...coordinates }, ...evaluation }
+        }
+      ]
+    });
+    throw new Error(
+      `Punches must be made within ${evaluation.radiusMeters}m of ${evaluation.siteName} (currently ${evaluation.distanceMeters}m away)`
+    );
+  }
+
+  return evaluation;
+}
+
+/**
+ * Record policy exceptions, flag the attendance record and let the employee's
+ * manager know.
+ */
+async function createPolicyExceptions(params: {
+  businessId: string;
+  employeePositionId: string;
+  policyId: string | null;
+  attendanceRecordId: string | null;
+  exceptions: PolicyExceptionInput[];
+}) {
+  const { businessId, employeePositionId, policyId, attendanceRecordId, exceptions } = params;
+
+  if (exceptions.length === 0) {
+    return [];
+  }
+
+  const created = await prisma.$transaction([
+    ...exceptions.map((exception) =>
+      prisma.attendanceException.create({
+        data: {
+          businessId,
+          employeePositionId,
+          attendanceRecordId,
+          policyId,
+          type: exception.type,
+          detectedSource: POLICY_EXCEPTION_SOURCE,
+          details: exception.details
+        }
+      })
+    ),
+    ...(attendanceRecordId
+      ? [prisma.attendanceRecord.update({ where: { id: attendanceRecordId }, data: { exceptionFlagged: true } })]
+      : [])
+  ]);
+
+  logger.info('Attendance policy exceptions created', {
+    operation: 'attendance_policy_exception',
+    businessId,
+    employeePositionId,
+    attendanceRecordId,
+    types: exceptions.map((exception) => exception.type)
+  });
+
+  try {
+    const position = await prisma.employeePosition.findUnique({
+      where: { id: employeePositionId },
+      include: {
+        user: { select: { id: true, name: true } },
+        position: {
+          include: {
+            reportsTo: {
+              include: {
+                employeePositions: {
+                  where: { businessId, active: true },
+                  select: { userId: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    const managerUserIds = position?.position?.reportsTo?.employeePositions.map((entry) => entry.userId) ?? [];
+    const label = exceptions.map((exception) => exception.type.replace(/_/g, ' ').toLowerCase()).join(', ');
+
+    for (const managerUserId of managerUserIds) {
+      await NotificationService.createNotification({
+        userId: managerUserId,
+        type: 'hr_attendance_exception_created',
+        title: 'Attendance Exception',
+        body: `${position?.user?.name ?? 'An employee'} has a new attendance exception: ${label}.`,
+        data: {
+          businessId,
+          employeePositionId,
+          attendanceRecordId,
+          actionUrl: `/business/${businessId}/workspace/hr/team`
+        }
+      });
+    }
+  } catch (notificationError) {
+    await logger.warn('Failed to send attendance exception notification', {
+      operation: 'attendance_exception_notification_error',
+      businessId,
+      employeePositionId,
+      error: {
+        message: notificationError instanceof Error ? notificationError.message : 'Unknown error'
+      }
+    });
+  }
+
+  return created;
+}
+
 export async function recordPunchIn(params: RecordPunchParams) {
-  const { businessId, employeePositionId, method, source, location, metadata } = params;
+  const { businessId, employeePositionId, method, source, location, metadata, occurredAt } = params;
 
   const position = await prisma.employeePosition.findFirst({
     where: { id: employeePositionId, businessId, active: true },
@@ -231,22 +790,48 @@ export async function recordPunchIn(params: RecordPunchParams) {
     throw new Error('Employee already has an in-progress attendance record');
   }
 
-  const policy = await ensureDefaultAttendancePolicy(businessId);
-  const now = new Date();
+  const now = occurredAt ?? new Date();
+  const shift = await resolveScheduledShift(businessId, employeePositionId, now);
+  const policy = shift?.templatePolicy ?? (await ensureDefaultAttendancePolicy(businessId));
+
+  const geofence = await enforceGeofence({
+    businessId,
+    employeePositionId,
+    policy,
+    method,
+    direction: 'IN',
+    location,
+    shift: shift ?? {}
+  });
+
+  const clockInTime = roundPunchTime(now, policy.roundingIncrementMinutes);
+  const timing = shift ? evaluatePunchTiming('IN', now, shift.window.start, policy.gracePeriodMinutes) : null;
   const workDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
 
+  const enforcement: PolicyEnforcementMetadata = {
+    rawClockInTime: now.toISOString(),
+    expectedStart: shift?.window.start.toISOString() ?? null,
+    expectedEnd: shift?.window.end.toISOString() ?? null,
+    scheduleShiftId: shift?.scheduleShiftId ?? null,
+    locationId: shift?.locationId ?? null,
+    stationName: shift?.stationName ?? null,
+    clockInGeofence: geofence
+  };
+
   const record = await prisma.attendanceRecord.create({
     data: {
       businessId,
       employeePositionId,
-      policyId: policy?.id,
+      policyId: policy.id,
+      shiftAssignmentId: shift?.shiftAssignmentId ?? null,
       workDate,
-      clockInTime: now,
+      clockInTime,
       clockInMethod: method,
       clockInSource: source ?? null,
       clockInLocation: location ?? Prisma.JsonNull,
-      metadata: metadata ?? Prisma.JsonNull,
-      status: AttendanceRecordStatus.IN_PROGRESS
+      metadata: withEnforcementMetadata(metadata, enforcement),
+      status: AttendanceRecordStatus.IN_PROGRESS,
+      varianceMinutes: timing?.varianceMinutes ?? null
     }
   });
 
@@ -258,17 +843,38 @@ export async function recordPunchIn(params: RecordPunchParams) {
     source
   });
 
-  // NOTE: Attendance exceptions are typically created by background jobs or policy enforcement
-  // When exceptions are created, add notification hooks there:
-  // - hr_attendance_exception_created (notify manager)
-  // - hr_attendance_policy_violation (notify manager/employee)
-  // - hr_attendance_missing_punch (notify employee)
+  const exceptions: PolicyExceptionInput[] = [];
+  if (timing?.exceptionType) {
+    exceptions.push({
+      type: timing.exceptionType,
+      details: {
+        expectedStart: enforcement.expectedStart ?? null,
+        punchedAt: now.toISOString(),
+        varianceMinutes: timing.varianceMinutes,
+        gracePeriodMinutes: policy.gracePeriodMinutes ?? 0
+      }
+    });
+  }
+  if (geofence && !geofence.withinGeofence) {
+    exceptions.push({ type: AttendanceExceptionType.GEO_VIOLATION, details: { direction: 'IN', ...geofence } });
+  }
+
+  if (exceptions.length > 0) {
+    await createPolicyExceptions({
+      businessId,
+      employeePositionId,
+      policyId: policy.id,
+      attendanceRecordId: record.id,
+      exceptions
+    });
+    return { ...record, exceptionFlagged: true };
+  }
 
   return record;
 }
 
 export async function recordPunchOut(params: ClockOutParams) {
-  const { businessId, employeePositionId, method, source, location, metadata, recordId } = params;
+  const { businessId, employeePositionId, method, source, location, metadata, recordId, occurredAt } = params;
 
   const record = await prisma.attendanceRecord.findFirst({
     where: {
@@ -277,31 +883,57 @@ export async function recordPunchOut(params: ClockOutParams) {
       status: AttendanceRecordStatus.IN_PROGRESS,
       ...(recordId ? { id: recordId } : {})
     },
-    orderBy: { createdAt: 'desc' }
+    orderBy: { createdAt: 'desc' },
+    include: { policy: true }
   });
 
   if (!record) {
     throw new Error('No in-progress attendance record found to complete');
   }
 
-  const now = new Date();
+  const { policy: recordPolicy, ...recordFields } = record;
+  const policy = recordPolicy ?? (await ensureDefaultAttendancePolicy(businessId));
+  const enforcement = readEnforcementMetadata(record.metadata);
+
+  const geofence = await enforceGeofence({
+    businessId,
+    employeePositionId,
+    policy,
+    method,
+    direction: 'OUT',
+    location,
+    shift: enforcement
+  });
+
+  const now = occurredAt ?? new Date();
+  let clockOutTime = roundPunchTime(now, policy.roundingIncrementMinutes);
   let durationMinutes: number | null = null;
 
   if (record.clockInTime) {
+    if (clockOutTime < record.clockInTime) {
+      clockOutTime = record.clockInTime;
+    }
     durationMinutes = Math.max(
       0,
-      Math.round((now.getTime() - record.clockInTime.getTime()) / 60000)
+      Math.round((clockOutTime.getTime() - record.clockInTime.getTime()) / 60000)
     );
   }
 
+  const expectedEnd = enforcement.expectedEnd ? new Date(enforcement.expectedEnd) : null;
+  const timing = expectedEnd ? evaluatePunchTiming('OUT', now, expectedEnd, policy.gracePeriodMinutes) : null;
+
   const updated = await prisma.attendanceRecord.update({
     where: { id: record.id },
     data: {
-      clockOutTime: now,
+      clockOutTime,
       clockOutMethod: method,
       clockOutSource: source ?? null,
       clockOutLocation: location ?? Prisma.JsonNull,
-      metadata: metadata ?? record.metadata ?? Prisma.JsonNull,
+      metadata: withEnforcementMetadata(metadata ?? recordFields.metadata, {
+        ...enforcement,
+        rawClockOutTime: now.toISOString(),
+        clockOutGeofence: geofence
+      }),
       status: AttendanceRecordStatus.COMPLETED,
       durationMinutes,
       varianceMinutes: record.varianceMinutes ?? null
@@ -316,9 +948,138 @@ export async function recordPunchOut(params: ClockOutParams) {
     source
   });
 
+  const exceptions: PolicyExceptionInput[] = [];
+  if (timing?.exceptionType) {
+    exceptions.push({
+      type: timing.exceptionType,
+      details: {
+        expectedEnd: enforcement.expectedEnd ?? null,
+        punchedAt: now.toISOString(),
+        varianceMinutes: timing.varianceMinutes,
+        gracePeriodMinutes: policy.gracePeriodMinutes ?? 0
+      }
+    });
+  }
+  if (geofence && !geofence.withinGeofence) {
+    exceptions.push({ type: AttendanceExceptionType.GEO_VIOLATION, details: { direction: 'OUT', ...geofence } });
+  }
+
+  if (exceptions.length > 0) {
+    await createPolicyExceptions({
+      businessId,
+      employeePositionId,
+      policyId: policy.id,
+      attendanceRecordId: record.id,
+      exceptions
+    });
+    return { ...updated, exceptionFlagged: true };
+  }
+
   return updated;
 }
 
+/**
+ * Close records left open longer than their policy's auto clock-out limit.
+ * The record is closed at the limit (not at the time the job runs) and a
+ * missed punch exception is raised for the manager to confirm the hours.
+ */
+export async function autoClockOutOpenRecords(asOf: Date = new Date()) {
+  const openRecords = await prisma.attendanceRecord.findMany({
+    where: {
+      status: AttendanceRecordStatus.IN_PROGRESS,
+      clockInTime: { not: null },
+      policy: { autoClockOutAfterMinutes: { gt: 0 } }
+    },
+    include: { policy: true }
+  });
+
+  let closed = 0;
+
+  for (const record of openRecords) {
+    const cutoff = record.clockInTime
+      ? resolveAutoClockOutTime(record.clockInTime, record.policy?.autoClockOutAfterMinutes)
+      : null;
+
+    if (!cutoff || !record.clockInTime || cutoff > asOf) {
+      continue;
+    }
+
+    try {
+      const enforcement = readEnforcementMetadata(record.metadata);
+      // Guard on status so a punch-out that lands mid-run is not overwritten
+      const result = await prisma.attendanceRecord.updateMany({
+        where: { id: record.id, status: AttendanceRecordStatus.IN_PROGRESS },
+        data: {
+          clockOutTime: cutoff,
+          clockOutMethod: AttendanceMethod.AUTO,
+          clockOutSource: AUTO_CLOCK_OUT_SOURCE,
+          status: AttendanceRecordStatus.COMPLETED,
+          durationMinutes: Math.round((cutoff.getTime() - record.clockInTime.getTime()) / 60000),
+          metadata: withEnforcementMetadata(record.metadata, { ...enforcement, autoClockedOut: true })
+        }
+      });
+
+      if (result.count === 0) {
+        continue;
+      }
+
+      await createPolicyExceptions({
+        businessId: record.businessId,
+        employeePositionId: record.employeePositionId,
+        policyId: record.policyId,
+        attendanceRecordId: record.id,
+        exceptions: [
+          {
+            type: AttendanceExceptionType.MISSED_PUNCH,
+            details: {
+              reason: 'AUTO_CLOCK_OUT',
+              clockInTime: record.clockInTime.toISOString(),
+              clockOutTime: cutoff.toISOString(),
+              autoClockOutAfterMinutes: record.policy?.autoClockOutAfterMinutes ?? null
+            }
+          }
+        ]
+      });
+
+      const position = await prisma.employeePosition.findUnique({
+        where: { id: record.employeePositionId },
+        select: { userId: true }
+      });
+      if (position) {
+        await NotificationService.createNotification({
+          userId: position.userId,
+          type: 'hr_attendance_missing_punch',
+          title: 'You Were Clocked Out Automatically',
+          body: `You did not punch out, so your shift was closed after ${record.policy?.autoClockOutAfterMinutes} minutes. Let your manager know if your hours need correcting.`,
+          data: {
+            businessId: record.businessId,
+            attendanceRecordId: record.id,
+            actionUrl: `/business/${record.businessId}/workspace/hr/me`
+          }
+        }).catch(() => undefined);
+      }
+
+      closed += 1;
+    } catch (error) {
+      logger.error('Failed to auto clock-out attendance record', {
+        operation: 'attendance_auto_clock_out',
+        businessId: record.businessId,
+        recordId: record.id,
+        error: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+  }
+
+  if (closed > 0) {
+    logger.info('Auto clock-out closed open attendance records', {
+      operation: 'attendance_auto_clock_out',
+      closed
+    });
+  }
+
+  return closed;
+}
+
 export async function listEmployeeAttendanceRecords(
   businessId: string,
   employeePositionId: string,
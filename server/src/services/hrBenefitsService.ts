@@ -0,0 +1,1225 @@
+import {
+  BenefitBeneficiaryDesignation,
+  BenefitCoverageLevel,
+  BenefitDependentRelationship,
+  BenefitEnrollmentStatus,
+  BenefitLifeEventStatus,
+  BenefitLifeEventType,
+  BenefitPlanType,
+  EmployeeType,
+  PayrollLineCalculation,
+  PayrollLineCategory,
+  Prisma
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { NotificationService } from './notificationService';
+
+export const LIFE_EVENT_ENROLLMENT_DAYS = 30;
+
+export interface CoverageCost {
+  employee: number;
+  employer: number;
+}
+
+export type CoverageCosts = Partial<Record<BenefitCoverageLevel, CoverageCost>>;
+
+export interface BenefitPlanInput {
+  id?: string;
+  businessId: string;
+  name: string;
+  type: BenefitPlanType;
+  carrier?: string | null;
+  planCode?: string | null;
+  description?: string | null;
+  eligibleEmployeeTypes?: EmployeeType[];
+  waitingPeriodDays?: number;
+  coverageCosts?: CoverageCosts | null;
+  minContributionPercent?: number | null;
+  maxContributionPercent?: number | null;
+  employerMatchPercent?: number | null;
+  employerMatchLimitPercent?: number | null;
+  allowsDependents?: boolean;
+  requiresBeneficiary?: boolean;
+  deductionCode: string;
+  deductionCategory?: PayrollLineCategory;
+  isActive?: boolean;
+}
+
+export interface EnrollmentWindowInput {
+  id?: string;
+  businessId: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  coverageStartDate: Date;
+  notes?: string | null;
+  actorUserId: string;
+}
+
+export interface LifeEventInput {
+  businessId: string;
+  employeeHrProfileId: string;
+  type: BenefitLifeEventType;
+  eventDate: Date;
+  description?: string | null;
+  actorUserId: string;
+  // HR-recorded events (e.g. new hires) skip review
+  approved?: boolean;
+}
+
+export interface DependentInput {
+  id?: string;
+  businessId: string;
+  employeeHrProfileId: string;
+  firstName: string;
+  lastName: string;
+  relationship: BenefitDependentRelationship;
+  dateOfBirth?: Date | null;
+  gender?: string | null;
+}
+
+export interface BeneficiaryInput {
+  name: string;
+  relationship: string;
+  designation: BenefitBeneficiaryDesignation;
+  percentage: number;
+  dependentId?: string | null;
+}
+
+export interface ElectionInput {
+  planId: string;
+  waive?: boolean;
+  coverageLevel?: BenefitCoverageLevel | null;
+  dependentIds?: string[];
+  contributionPercent?: number | null;
+}
+
+export type EnrollmentPeriod =
+  | { source: 'WINDOW'; windowId: string; name: string; closesOn: Date; coverageStart: Date }
+  | { source: 'LIFE_EVENT'; lifeEventId: string; name: string; closesOn: Date; coverageStart: Date };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addUtcDays = (date: Date, days: number) => new Date(startOfUtcDay(date).getTime() + days * DAY_MS);
+
+const toDateString = (date: Date | null | undefined) => (date ? date.toISOString().split('T')[0] : '');
+
+const roundCurrency = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const PLAN_TYPE_LABELS: Record<BenefitPlanType, string> = {
+  MEDICAL: 'Medical',
+  DENTAL: 'Dental',
+  VISION: 'Vision',
+  RETIREMENT: 'Retirement',
+  LIFE: 'Life',
+  DISABILITY: 'Disability',
+  CUSTOM: 'Other'
+};
+
+const LIFE_EVENT_LABELS: Record<BenefitLifeEventType, string> = {
+  NEW_HIRE: 'New hire',
+  MARRIAGE: 'Marriage',
+  DIVORCE: 'Divorce',
+  BIRTH_ADOPTION: 'Birth or adoption',
+  DEATH_OF_DEPENDENT: 'Death of a dependent',
+  LOSS_OF_COVERAGE: 'Loss of other coverage',
+  EMPLOYMENT_CHANGE: 'Employment change',
+  OTHER: 'Other life event'
+};
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Validate per-coverage-level costs. Unknown levels and negative amounts are
+ * rejected; amounts are rounded to cents.
+ */
+export function parseCoverageCosts(raw: unknown): CoverageCosts {
+  if (raw === null || raw === undefined) {
+    return {};
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Coverage costs must be an object keyed by coverage level');
+  }
+  const costs: CoverageCosts = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([level, value]) => {
+    if (!(level in BenefitCoverageLevel)) {
+      throw new Error(`Unknown coverage level ${level}`);
+    }
+    const cost = value as Partial<CoverageCost> | null;
+    const employee = Number(cost?.employee ?? 0);
+    const employer = Number(cost?.employer ?? 0);
+    if (!Number.isFinite(employee) || !Number.isFinite(employer) || employee < 0 || employer < 0) {
+      throw new Error(`Costs for ${level} must be non-negative numbers`);
+    }
+    costs[level as BenefitCoverageLevel] = { employee: roundCurrency(employee), employer: roundCurrency(employer) };
+  });
+  return costs;
+}
+
+export function isEmployeeTypeEligible(
+  plan: { eligibleEmployeeTypes: EmployeeType[] },
+  employeeType: EmployeeType | null
+): boolean {
+  if (plan.eligibleEmployeeTypes.length === 0) {
+    return true;
+  }
+  return employeeType !== null && plan.eligibleEmployeeTypes.includes(employeeType);
+}
+
+/**
+ * Coverage starts on the enrollment period's date, or once the plan's waiting
+ * period after hire has passed, whichever is later.
+ */
+export function resolvePlanCoverageStart(
+  plan: { waitingPeriodDays: number },
+  hireDate: Date | null,
+  periodCoverageStart: Date
+): Date {
+  const start = startOfUtcDay(periodCoverageStart);
+  if (!hireDate || plan.waitingPeriodDays <= 0) {
+    return start;
+  }
+  const eligibleFrom = addUtcDays(hireDate, plan.waitingPeriodDays);
+  return eligibleFrom > start ? eligibleFrom : start;
+}
+
+/**
+ * Check that the covered dependents match the coverage level. Dependents with
+ * an OTHER relationship are covered like children.
+ */
+export function validateCoverageDependents(
+  level: BenefitCoverageLevel,
+  dependents: Array<{ relationship: BenefitDependentRelationship }>
+): void {
+  const partners = dependents.filter(
+    (dependent) =>
+      dependent.relationship === BenefitDependentRelationship.SPOUSE ||
+      dependent.relationship === BenefitDependentRelationship.DOMESTIC_PARTNER
+  ).length;
+  const children = dependents.length - partners;
+
+  switch (level) {
+    case BenefitCoverageLevel.EMPLOYEE_ONLY:
+      if (dependents.length > 0) {
+        throw new Error('Employee-only coverage must not include dependents');
+      }
+      return;
+    case BenefitCoverageLevel.EMPLOYEE_SPOUSE:
+      if (partners !== 1 || children > 0) {
+        throw new Error('Employee + spouse coverage must include exactly one spouse or partner');
+      }
+      return;
+    case BenefitCoverageLevel.EMPLOYEE_CHILDREN:
+      if (partners > 0 || children === 0) {
+        throw new Error('Employee + children coverage must include at least one child and no spouse');
+      }
+      return;
+    case BenefitCoverageLevel.FAMILY:
+      if (partners !== 1 || children === 0) {
+        throw new Error('Family coverage must include one spouse or partner and at least one child');
+      }
+  }
+}
+
+/**
+ * Beneficiary shares must be positive and add up to 100% for each
+ * designation (primary / contingent). Contingent beneficiaries need a primary.
+ */
+export function validateBeneficiaryAllocations(beneficiaries: BeneficiaryInput[]): void {
+  if (beneficiaries.length === 0) {
+    return;
+  }
+  const totals = new Map<BenefitBeneficiaryDesignation, number>();
+  beneficiaries.forEach((beneficiary) => {
+    if (!(beneficiary.percentage > 0) || beneficiary.percentage > 100) {
+      throw new Error('Beneficiary percentages must be between 0 and 100');
+    }
+    totals.set(beneficiary.designation, (totals.get(beneficiary.designation) ?? 0) + beneficiary.percentage);
+  });
+  if (!totals.has(BenefitBeneficiaryDesignation.PRIMARY)) {
+    throw new Error('At least one primary beneficiary is required');
+  }
+  totals.forEach((total, designation) => {
+    if (Math.abs(total - 100) > 0.01) {
+      throw new Error(`${designation === BenefitBeneficiaryDesignation.PRIMARY ? 'Primary' : 'Contingent'} beneficiary shares must add up to 100%`);
+    }
+  });
+}
+
+/**
+ * Life events allow changes for 30 days. Births and adoptions (and new hires)
+ * are covered from the event date; other changes start on the first of the
+ * following month.
+ */
+export function computeLifeEventDates(type: BenefitLifeEventType, eventDate: Date) {
+  const event = startOfUtcDay(eventDate);
+  const coverageStartDate =
+    type === BenefitLifeEventType.BIRTH_ADOPTION || type === BenefitLifeEventType.NEW_HIRE
+      ? event
+      : new Date(Date.UTC(event.getUTCFullYear(), event.getUTCMonth() + 1, 1));
+  return {
+    enrollmentDeadline: addUtcDays(event, LIFE_EVENT_ENROLLMENT_DAYS),
+    coverageStartDate
+  };
+}
+
+/**
+ * The enrollment period an employee can currently make elections in. An
+ * approved life event takes precedence over open enrollment.
+ */
+export function resolveEnrollmentPeriod(
+  windows: Array<{ id: string; name: string; startDate: Date; endDate: Date; coverageStartDate: Date }>,
+  lifeEvents: Array<{ id: string; type: BenefitLifeEventType; status: BenefitLifeEventStatus; enrollmentDeadline: Date; coverageStartDate: Date }>,
+  today: Date
+): EnrollmentPeriod | null {
+  const day = startOfUtcDay(today);
+  const lifeEvent = lifeEvents
+    .filter((event) => event.status === BenefitLifeEventStatus.APPROVED && event.enrollmentDeadline >= day)
+    .sort((a, b) => a.enrollmentDeadline.getTime() - b.enrollmentDeadline.getTime())[0];
+  if (lifeEvent) {
+    return {
+      source: 'LIFE_EVENT',
+      lifeEventId: lifeEvent.id,
+      name: LIFE_EVENT_LABELS[lifeEvent.type],
+      closesOn: lifeEvent.enrollmentDeadline,
+      coverageStart: lifeEvent.coverageStartDate
+    };
+  }
+
+  const window = windows
+    .filter((item) => item.startDate <= day && item.endDate >= day)
+    .sort((a, b) => a.endDate.getTime() - b.endDate.getTime())[0];
+  if (window) {
+    return {
+      source: 'WINDOW',
+      windowId: window.id,
+      name: window.name,
+      closesOn: window.endDate,
+      coverageStart: window.coverageStartDate
+    };
+  }
+  return null;
+}
+
+/**
+ * Per-pay-period costs for an election. Retirement plans use a contribution
+ * percentage; other plans price by coverage level.
+ */
+export function computeElectionCosts(
+  plan: {
+    type: BenefitPlanType;
+    coverageCosts: unknown;
+    allowsDependents: boolean;
+    minContributionPercent: number | null;
+    maxContributionPercent: number | null;
+  },
+  election: { coverageLevel?: BenefitCoverageLevel | null; contributionPercent?: number | null }
+): { coverageLevel: BenefitCoverageLevel | null; contributionPercent: number | null; employeeCost: number; employerCost: number } {
+  if (plan.type === BenefitPlanType.RETIREMENT) {
+    const percent = election.contributionPercent;
+    if (percent === null || percent === undefined || !Number.isFinite(percent)) {
+      throw new Error('Retirement elections must include a contribution percentage');
+    }
+    const min = plan.minContributionPercent ?? 0;
+    const max = plan.maxContributionPercent ?? 100;
+    if (percent < min || percent > max) {
+      throw new Error(`Contribution must be between ${min}% and ${max}%`);
+    }
+    return { coverageLevel: null, contributionPercent: percent, employeeCost: 0, employerCost: 0 };
+  }
+
+  const level = election.coverageLevel;
+  if (!level) {
+    throw new Error('Coverage level must be selected');
+  }
+  if (!plan.allowsDependents && level !== BenefitCoverageLevel.EMPLOYEE_ONLY) {
+    throw new Error('This plan only offers employee-only coverage');
+  }
+  const cost = parseCoverageCosts(plan.coverageCosts)[level];
+  if (!cost) {
+    throw new Error(`Coverage level ${level} is not offered by this plan`);
+  }
+  return { coverageLevel: level, contributionPercent: null, employeeCost: cost.employee, employerCost: cost.employer };
+}
+
+/**
+ * Payroll deduction for an election: a flat per-period amount, or a
+ * percentage of gross for retirement contributions. No line for zero cost.
+ */
+export function buildEnrollmentPayrollLine(
+  plan: { name: string; type: BenefitPlanType; deductionCode: string; deductionCategory: PayrollLineCategory },
+  enrollment: { employeeCost: number; contributionPercent: number | null }
+): { name: string; code: string; category: PayrollLineCategory; calculation: PayrollLineCalculation; amount: number } | null {
+  const percentBased = plan.type === BenefitPlanType.RETIREMENT;
+  const amount = percentBased ? enrollment.contributionPercent ?? 0 : enrollment.employeeCost;
+  if (amount <= 0) {
+    return null;
+  }
+  return {
+    name: plan.name,
+    code: plan.deductionCode.trim().toUpperCase(),
+    category: plan.deductionCategory,
+    calculation: percentBased ? PayrollLineCalculation.PERCENT_OF_GROSS : PayrollLineCalculation.FLAT,
+    amount
+  };
+}
+
+export const toCsvRow = (values: Array<string | number | null | undefined>) =>
+  values
+    .map((value) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export async function listBenefitPlans(businessId: string, includeInactive = false) {
+  return prisma.benefitPlan.findMany({
+    where: { businessId, ...(includeInactive ? {} : { isActive: true }) },
+    include: {
+      _count: { select: { enrollments: { where: { status: BenefitEnrollmentStatus.ACTIVE, coverageEnd: null } } } }
+    },
+    orderBy: [{ type: 'asc' }, { name: 'asc' }]
+  });
+}
+
+export async function upsertBenefitPlan(input: BenefitPlanInput) {
+  const { id, businessId } = input;
+
+  if (input.type === BenefitPlanType.RETIREMENT) {
+    const min = input.minContributionPercent ?? 0;
+    const max = input.maxContributionPercent ?? 100;
+    if (min < 0 || max > 100 || min > max) {
+      throw new Error('Contribution range must be between 0% and 100%');
+    }
+  } else if (Object.keys(parseCoverageCosts(input.coverageCosts)).length === 0) {
+    throw new Error('Plan must define costs for at least one coverage level');
+  }
+
+  const data = {
+    name: input.name.trim(),
+    type: input.type,
+    carrier: input.carrier ?? null,
+    planCode: input.planCode ?? null,
+    description: input.description ?? null,
+    eligibleEmployeeTypes: input.eligibleEmployeeTypes ?? [],
+    waitingPeriodDays: input.waitingPeriodDays ?? 0,
+    coverageCosts: input.type === BenefitPlanType.RETIREMENT
+      ? Prisma.JsonNull
+      : (parseCoverageCosts(input.coverageCosts) as Prisma.InputJsonValue),
+    minContributionPercent: input.minContributionPercent ?? null,
+    maxContributionPercent: input.maxContributionPercent ?? null,
+    employerMatchPercent: input.employerMatchPercent ?? null,
+    employerMatchLimitPercent: input.employerMatchLimitPercent ?? null,
+    allowsDependents: input.type === BenefitPlanType.RETIREMENT ? false : input.allowsDependents ?? true,
+    requiresBeneficiary: input.requiresBeneficiary ?? (input.type === BenefitPlanType.LIFE || input.type === BenefitPlanType.RETIREMENT),
+    deductionCode: input.deductionCode.trim().toUpperCase(),
+    deductionCategory: input.deductionCategory ?? PayrollLineCategory.PRE_TAX_DEDUCTION,
+    isActive: input.isActive ?? true
+  };
+
+  const duplicate = await prisma.benefitPlan.findFirst({
+    where: { businessId, name: data.name, ...(id ? { id: { not: id } } : {}) },
+    select: { id: true }
+  });
+  if (duplicate) {
+    throw new Error('A benefit plan with this name already exists');
+  }
+
+  if (id) {
+    const existing = await prisma.benefitPlan.findFirst({ where: { id, businessId }, select: { id: true, type: true } });
+    if (!existing) {
+      throw new Error('Benefit plan not found');
+    }
+    if (existing.type !== data.type) {
+      const enrolled = await prisma.benefitEnrollment.count({ where: { planId: id } });
+      if (enrolled > 0) {
+        throw new Error('Plan type cannot change once employees have enrolled');
+      }
+    }
+    // Price changes apply to new elections; existing elections keep their snapshot costs
+    return prisma.benefitPlan.update({ where: { id }, data });
+  }
+
+  return prisma.benefitPlan.create({ data: { businessId, ...data } });
+}
+
+export async function archiveBenefitPlan(businessId: string, planId: string) {
+  const result = await prisma.benefitPlan.updateMany({
+    where: { id: planId, businessId },
+    data: { isActive: false }
+  });
+  if (result.count === 0) {
+    throw new Error('Benefit plan not found');
+  }
+}
+
+// ============================================================================
+// ENROLLMENT WINDOWS & LIFE EVENTS
+// ============================================================================
+
+export async function listEnrollmentWindows(businessId: string) {
+  return prisma.benefitEnrollmentWindow.findMany({
+    where: { businessId },
+    include: { _count: { select: { enrollments: true } } },
+    orderBy: { startDate: 'desc' }
+  });
+}
+
+export async function upsertEnrollmentWindow(input: EnrollmentWindowInput) {
+  const { id, businessId, actorUserId } = input;
+  const startDate = startOfUtcDay(input.startDate);
+  const endDate = startOfUtcDay(input.endDate);
+  const coverageStartDate = startOfUtcDay(input.coverageStartDate);
+  if (endDate < startDate) {
+    throw new Error('Enrollment window end date must be on or after the start date');
+  }
+  if (coverageStartDate <= startDate) {
+    throw new Error('Coverage start date must be after the enrollment window opens');
+  }
+
+  const overlapping = await prisma.benefitEnrollmentWindow.findFirst({
+    where: {
+      businessId,
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+      ...(id ? { id: { not: id } } : {})
+    },
+    select: { name: true }
+  });
+  if (overlapping) {
+    throw new Error(`Enrollment window overlaps "${overlapping.name}"`);
+  }
+
+  const data = { name: input.name.trim(), startDate, endDate, coverageStartDate, notes: input.notes ?? null };
+
+  if (id) {
+    const existing = await prisma.benefitEnrollmentWindow.findFirst({ where: { id, businessId }, select: { id: true } });
+    if (!existing) {
+      throw new Error('Enrollment window not found');
+    }
+    return prisma.benefitEnrollmentWindow.update({ where: { id }, data });
+  }
+
+  const window = await prisma.benefitEnrollmentWindow.create({
+    data: { businessId, createdById: actorUserId, ...data }
+  });
+  await notifyOpenEnrollment(businessId, window);
+  return window;
+}
+
+async function notifyOpenEnrollment(businessId: string, window: { id: string; name: string; startDate: Date; endDate: Date }) {
+  try {
+    const employees = await prisma.employeePosition.findMany({
+      where: { businessId, active: true, hrProfile: { is: { deletedAt: null, employmentStatus: 'ACTIVE' } } },
+      select: { userId: true },
+      distinct: ['userId']
+    });
+    await Promise.all(employees.map(({ userId }) =>
+      NotificationService.createNotification({
+        userId,
+        type: 'hr_benefits',
+        title: `Open enrollment: ${window.name}`,
+        body: `Review your benefit elections between ${toDateString(window.startDate)} and ${toDateString(window.endDate)}.`,
+        data: {
+          businessId,
+          windowId: window.id,
+          actionUrl: `/business/${businessId}/workspace/hr/benefits`
+        }
+      })
+    ));
+  } catch (error) {
+    logger.error('Failed to send open enrollment notifications', {
+      operation: 'hr_benefits_notify_window',
+      businessId,
+      windowId: window.id,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+}
+
+const lifeEventInclude = {
+  employeeHrProfile: {
+    select: {
+      id: true,
+      employeePosition: { select: { user: { select: { id: true, name: true, email: true } } } }
+    }
+  }
+} satisfies Prisma.BenefitLifeEventInclude;
+
+export async function listLifeEvents(
+  businessId: string,
+  filters: { status?: BenefitLifeEventStatus; employeeHrProfileId?: string } = {}
+) {
+  return prisma.benefitLifeEvent.findMany({
+    where: {
+      businessId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.employeeHrProfileId ? { employeeHrProfileId: filters.employeeHrProfileId } : {})
+    },
+    include: lifeEventInclude,
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+export async function reportLifeEvent(input: LifeEventInput) {
+  const { businessId, employeeHrProfileId, type, actorUserId } = input;
+  const eventDate = startOfUtcDay(input.eventDate);
+  const { enrollmentDeadline, coverageStartDate } = computeLifeEventDates(type, eventDate);
+
+  if (!input.approved && enrollmentDeadline < startOfUtcDay(new Date())) {
+    throw new Error(`Life events must be reported within ${LIFE_EVENT_ENROLLMENT_DAYS} days`);
+  }
+
+  const profile = await prisma.employeeHRProfile.findFirst({
+    where: { id: employeeHrProfileId, businessId, deletedAt: null },
+    select: { id: true }
+  });
+  if (!profile) {
+    throw new Error('Employee HR profile not found');
+  }
+
+  return prisma.benefitLifeEvent.create({
+    data: {
+      businessId,
+      employeeHrProfileId,
+      type,
+      eventDate,
+      description: input.description ?? null,
+      enrollmentDeadline,
+      coverageStartDate,
+      ...(input.approved
+        ? { status: BenefitLifeEventStatus.APPROVED, reviewedById: actorUserId, reviewedAt: new Date() }
+        : {})
+    },
+    include: lifeEventInclude
+  });
+}
+
+export async function reviewLifeEvent(
+  businessId: string,
+  lifeEventId: string,
+  decision: 'APPROVED' | 'DENIED',
+  reviewNote: string | null,
+  actorUserId: string
+) {
+  const event = await prisma.benefitLifeEvent.findFirst({
+    where: { id: lifeEventId, businessId },
+    include: lifeEventInclude
+  });
+  if (!event) {
+    throw new Error('Life event not found');
+  }
+  if (event.status !== BenefitLifeEventStatus.PENDING) {
+    throw new Error('Life event has already been reviewed');
+  }
+
+  const updated = await prisma.benefitLifeEvent.update({
+    where: { id: lifeEventId },
+    data: {
+      status: decision === 'APPROVED' ? BenefitLifeEventStatus.APPROVED : BenefitLifeEventStatus.DENIED,
+      reviewNote,
+      reviewedById: actorUserId,
+      reviewedAt: new Date()
+    },
+    include: lifeEventInclude
+  });
+
+  try {
+    await NotificationService.createNotification({
+      userId: event.employeeHrProfile.employeePosition.user.id,
+      type: 'hr_benefits',
+      title: decision === 'APPROVED' ? 'Life event approved' : 'Life event not approved',
+      body: decision === 'APPROVED'
+        ? `You can update your benefit elections until ${toDateString(event.enrollmentDeadline)}.`
+        : `Your ${LIFE_EVENT_LABELS[event.type].toLowerCase()} request was not approved.${reviewNote ? ` ${reviewNote}` : ''}`,
+      data: {
+        businessId,
+        lifeEventId,
+        actionUrl: `/business/${businessId}/workspace/hr/benefits`
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to send life event notification', {
+      operation: 'hr_benefits_review_life_event',
+      businessId,
+      lifeEventId,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+
+  return updated;
+}
+
+// ============================================================================
+// DEPENDENTS & BENEFICIARIES
+// ============================================================================
+
+export async function listDependents(businessId: string, employeeHrProfileId: string) {
+  return prisma.benefitDependent.findMany({
+    where: { businessId, employeeHrProfileId, deletedAt: null },
+    orderBy: [{ relationship: 'asc' }, { firstName: 'asc' }]
+  });
+}
+
+export async function upsertDependent(input: DependentInput) {
+  const { id, businessId, employeeHrProfileId } = input;
+  const data = {
+    firstName: input.firstName.trim(),
+    lastName: input.lastName.trim(),
+    relationship: input.relationship,
+    dateOfBirth: input.dateOfBirth ?? null,
+    gender: input.gender ?? null
+  };
+
+  if (id) {
+    const existing = await prisma.benefitDependent.findFirst({
+      where: { id, businessId, employeeHrProfileId, deletedAt: null },
+      select: { id: true }
+    });
+    if (!existing) {
+      throw new Error('Dependent not found');
+    }
+    return prisma.benefitDependent.update({ where: { id }, data });
+  }
+
+  return prisma.benefitDependent.create({ data: { businessId, employeeHrProfileId, ...data } });
+}
+
+export async function removeDependent(businessId: string, employeeHrProfileId: string, dependentId: string) {
+  const dependent = await prisma.benefitDependent.findFirst({
+    where: { id: dependentId, businessId, employeeHrProfileId, deletedAt: null },
+    select: { id: true }
+  });
+  if (!dependent) {
+    throw new Error('Dependent not found');
+  }
+
+  const covered = await prisma.benefitCoveredDependent.count({
+    where: {
+      dependentId,
+      enrollment: {
+        status: BenefitEnrollmentStatus.ACTIVE,
+        OR: [{ coverageEnd: null }, { coverageEnd: { gte: startOfUtcDay(new Date()) } }]
+      }
+    }
+  });
+  if (covered > 0) {
+    throw new Error('Dependent is covered by an active enrollment; change the election during enrollment first');
+  }
+
+  await prisma.benefitDependent.update({ where: { id: dependentId }, data: { deletedAt: new Date() } });
+}
+
+export async function listBeneficiaries(businessId: string, employeeHrProfileId: string) {
+  return prisma.benefitBeneficiary.findMany({
+    where: { businessId, employeeHrProfileId },
+    include: { plan: { select: { id: true, name: true, type: true } } },
+    orderBy: [{ planId: 'asc' }, { designation: 'asc' }, { percentage: 'desc' }]
+  });
+}
+
+/**
+ * Replace the beneficiary designations for one plan (or the default set when
+ * planId is null).
+ */
+export async function replaceBeneficiaries(
+  businessId: string,
+  employeeHrProfileId: string,
+  planId: string | null,
+  beneficiaries: BeneficiaryInput[]
+) {
+  validateBeneficiaryAllocations(beneficiaries);
+
+  if (planId) {
+    const plan = await prisma.benefitPlan.findFirst({ where: { id: planId, businessId }, select: { requiresBeneficiary: true } });
+    if (!plan) {
+      throw new Error('Benefit plan not found');
+    }
+    if (!plan.requiresBeneficiary) {
+      throw new Error('This plan does not use beneficiaries');
+    }
+  }
+
+  const dependentIds = beneficiaries.map((beneficiary) => beneficiary.dependentId).filter((value): value is string => Boolean(value));
+  if (dependentIds.length > 0) {
+    const found = await prisma.benefitDependent.count({
+      where: { id: { in: dependentIds }, businessId, employeeHrProfileId, deletedAt: null }
+    });
+    if (found !== new Set(dependentIds).size) {
+      throw new Error('Dependent not found');
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.benefitBeneficiary.deleteMany({ where: { businessId, employeeHrProfileId, planId } }),
+    prisma.benefitBeneficiary.createMany({
+      data: beneficiaries.map((beneficiary) => ({
+        businessId,
+        employeeHrProfileId,
+        planId,
+        dependentId: beneficiary.dependentId ?? null,
+        name: beneficiary.name.trim(),
+        relationship: beneficiary.relationship.trim(),
+        designation: beneficiary.designation,
+        percentage: beneficiary.percentage
+      }))
+    })
+  ]);
+
+  return listBeneficiaries(businessId, employeeHrProfileId);
+}
+
+// ============================================================================
+// ELECTIONS
+// ============================================================================
+
+const enrollmentInclude = {
+  plan: { select: { id: true, name: true, type: true, carrier: true, planCode: true } },
+  dependents: { include: { dependent: true } }
+} satisfies Prisma.BenefitEnrollmentInclude;
+
+async function loadEnrollmentPeriod(businessId: string, employeeHrProfileId: string, today: Date) {
+  const day = startOfUtcDay(today);
+  const [windows, lifeEvents] = await Promise.all([
+    prisma.benefitEnrollmentWindow.findMany({
+      where: { businessId, startDate: { lte: day }, endDate: { gte: day } }
+    }),
+    prisma.benefitLifeEvent.findMany({
+      where: {
+        businessId,
+        employeeHrProfileId,
+        status: BenefitLifeEventStatus.APPROVED,
+        enrollmentDeadline: { gte: day }
+      }
+    })
+  ]);
+  return resolveEnrollmentPeriod(windows, lifeEvents, day);
+}
+
+/**
+ * Everything the employee self-service benefits page needs: the current
+ * enrollment period, eligible plans with their current election, dependents,
+ * beneficiaries and life events.
+ */
+export async function getEmployeeBenefitsOverview(businessId: string, employeeHrProfileId: string, today = new Date()) {
+  const profile = await prisma.employeeHRProfile.findFirst({
+    where: { id: employeeHrProfileId, businessId },
+    select: { id: true, employeeType: true, hireDate: true }
+  });
+  if (!profile) {
+    throw new Error('Employee HR profile not found');
+  }
+
+  const day = startOfUtcDay(today);
+  const [period, plans, enrollments, dependents, beneficiaries, lifeEvents] = await Promise.all([
+    loadEnrollmentPeriod(businessId, employeeHrProfileId, day),
+    prisma.benefitPlan.findMany({ where: { businessId, isActive: true }, orderBy: [{ type: 'asc' }, { name: 'asc' }] }),
+    prisma.benefitEnrollment.findMany({
+      where: {
+        businessId,
+        employeeHrProfileId,
+        status: { in: [BenefitEnrollmentStatus.ACTIVE, BenefitEnrollmentStatus.WAIVED] },
+        OR: [{ coverageEnd: null }, { coverageEnd: { gte: day } }]
+      },
+      include: enrollmentInclude,
+      orderBy: { coverageStart: 'asc' }
+    }),
+    listDependents(businessId, employeeHrProfileId),
+    listBeneficiaries(businessId, employeeHrProfileId),
+    listLifeEvents(businessId, { employeeHrProfileId })
+  ]);
+
+  return {
+    enrollmentPeriod: period,
+    plans: plans
+      .filter((plan) => isEmployeeTypeEligible(plan, profile.employeeType))
+      .map((plan) => ({
+        ...plan,
+        coverageCosts: plan.type === BenefitPlanType.RETIREMENT ? null : parseCoverageCosts(plan.coverageCosts),
+        coverageStart: period ? resolvePlanCoverageStart(plan, profile.hireDate, period.coverageStart) : null
+      })),
+    enrollments,
+    dependents,
+    beneficiaries,
+    lifeEvents
+  };
+}
+
+/**
+ * Record elections (or waivers) during open enrollment or an approved life
+ * event. Each election supersedes the plan's current enrollment from the new
+ * coverage start and creates the matching payroll deduction line.
+ */
+export async function submitElections(params: {
+  businessId: string;
+  employeeHrProfileId: string;
+  elections: ElectionInput[];
+  actorUserId: string;
+  today?: Date;
+}) {
+  const { businessId, employeeHrProfileId, elections, actorUserId } = params;
+  const today = startOfUtcDay(params.today ?? new Date());
+
+  if (new Set(elections.map((election) => election.planId)).size !== elections.length) {
+    throw new Error('Each plan can only be elected once');
+  }
+
+  const profile = await prisma.employeeHRProfile.findFirst({
+    where: { id: employeeHrProfileId, businessId, deletedAt: null },
+    select: { id: true, employeeType: true, hireDate: true }
+  });
+  if (!profile) {
+    throw new Error('Employee HR profile not found');
+  }
+
+  const period = await loadEnrollmentPeriod(businessId, employeeHrProfileId, today);
+  if (!period) {
+    throw new Error('Benefit elections can only be changed during open enrollment or an approved life event');
+  }
+
+  const plans = await prisma.benefitPlan.findMany({
+    where: { businessId, id: { in: elections.map((election) => election.planId) }, isActive: true }
+  });
+  const planMap = new Map(plans.map((plan) => [plan.id, plan]));
+  const dependents = await listDependents(businessId, employeeHrProfileId);
+  const dependentMap = new Map(dependents.map((dependent) => [dependent.id, dependent]));
+
+  // Validate everything before writing
+  const prepared = elections.map((election) => {
+    const plan = planMap.get(election.planId);
+    if (!plan) {
+      throw new Error('Benefit plan not found');
+    }
+    if (!isEmployeeTypeEligible(plan, profile.employeeType)) {
+      throw new Error(`You are not eligible for ${plan.name}`);
+    }
+    const coverageStart = resolvePlanCoverageStart(plan, profile.hireDate, period.coverageStart);
+
+    if (election.waive) {
+      return { plan, coverageStart, waive: true as const, dependentIds: [] as string[], costs: null };
+    }
+
+    const costs = computeElectionCosts(plan, election);
+    const dependentIds = Array.from(new Set(election.dependentIds ?? []));
+    const covered = dependentIds.map((dependentId) => {
+      const dependent = dependentMap.get(dependentId);
+      if (!dependent) {
+        throw new Error('Dependent not found');
+      }
+      return dependent;
+    });
+    if (costs.coverageLevel) {
+      validateCoverageDependents(costs.coverageLevel, covered);
+    } else if (covered.length > 0) {
+      throw new Error(`${plan.name} does not cover dependents`);
+    }
+    return { plan, coverageStart, waive: false as const, dependentIds, costs };
+  });
+
+  const enrollmentIds = await prisma.$transaction(async (tx) => {
+    const created: string[] = [];
+    for (const item of prepared) {
+      const { plan, coverageStart } = item;
+
+      const current = await tx.benefitEnrollment.findMany({
+        where: {
+          employeeHrProfileId,
+          planId: plan.id,
+          status: { in: [BenefitEnrollmentStatus.ACTIVE, BenefitEnrollmentStatus.WAIVED] },
+          OR: [{ coverageEnd: null }, { coverageEnd: { gte: coverageStart } }]
+        },
+        select: { id: true, coverageStart: true, payrollLineId: true }
+      });
+      for (const enrollment of current) {
+        if (enrollment.coverageStart >= coverageStart) {
+          // Superseded before it took effect
+          await tx.benefitEnrollment.delete({ where: { id: enrollment.id } });
+          if (enrollment.payrollLineId) {
+            await tx.payrollLineDefinition.delete({ where: { id: enrollment.payrollLineId } });
+          }
+          continue;
+        }
+        const coverageEnd = addUtcDays(coverageStart, -1);
+        await tx.benefitEnrollment.update({ where: { id: enrollment.id }, data: { coverageEnd } });
+        if (enrollment.payrollLineId) {
+          await tx.payrollLineDefinition.update({ where: { id: enrollment.payrollLineId }, data: { effectiveTo: coverageEnd } });
+        }
+      }
+
+      const enrollment = await tx.benefitEnrollment.create({
+        data: {
+          businessId,
+          employeeHrProfileId,
+          planId: plan.id,
+          windowId: period.source === 'WINDOW' ? period.windowId : null,
+          lifeEventId: period.source === 'LIFE_EVENT' ? period.lifeEventId : null,
+          status: item.waive ? BenefitEnrollmentStatus.WAIVED : BenefitEnrollmentStatus.ACTIVE,
+          coverageLevel: item.costs?.coverageLevel ?? null,
+          contributionPercent: item.costs?.contributionPercent ?? null,
+          employeeCost: item.costs?.employeeCost ?? 0,
+          employerCost: item.costs?.employerCost ?? 0,
+          coverageStart,
+          electedById: actorUserId,
+          dependents: { create: item.dependentIds.map((dependentId) => ({ dependentId })) }
+        }
+      });
+
+      const line = item.costs ? buildEnrollmentPayrollLine(plan, item.costs) : null;
+      if (line) {
+        const payrollLine = await tx.payrollLineDefinition.create({
+          data: {
+            businessId,
+            employeeHrProfileId,
+            ...line,
+            effectiveFrom: coverageStart,
+            metadata: { source: 'benefits', enrollmentId: enrollment.id, planId: plan.id }
+          }
+        });
+        await tx.benefitEnrollment.update({ where: { id: enrollment.id }, data: { payrollLineId: payrollLine.id } });
+      }
+      created.push(enrollment.id);
+    }
+    return created;
+  });
+
+  logger.info('Benefit elections submitted', {
+    operation: 'hr_benefits_submit_elections',
+    businessId,
+    employeeHrProfileId,
+    source: period.source,
+    electionCount: enrollmentIds.length
+  });
+
+  return prisma.benefitEnrollment.findMany({
+    where: { id: { in: enrollmentIds } },
+    include: enrollmentInclude,
+    orderBy: { coverageStart: 'asc' }
+  });
+}
+
+export async function listEnrollments(
+  businessId: string,
+  filters: { planId?: string; status?: BenefitEnrollmentStatus; employeeHrProfileId?: string; currentOnly?: boolean } = {}
+) {
+  const day = startOfUtcDay(new Date());
+  return prisma.benefitEnrollment.findMany({
+    where: {
+      businessId,
+      ...(filters.planId ? { planId: filters.planId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.employeeHrProfileId ? { employeeHrProfileId: filters.employeeHrProfileId } : {}),
+      ...(filters.currentOnly ? { OR: [{ coverageEnd: null }, { coverageEnd: { gte: day } }] } : {})
+    },
+    include: {
+      ...enrollmentInclude,
+      employeeHrProfile: {
+        select: {
+          id: true,
+          employeeType: true,
+          employeePosition: { select: { user: { select: { id: true, name: true, email: true } } } }
+        }
+      }
+    },
+    orderBy: [{ coverageStart: 'desc' }, { createdAt: 'desc' }]
+  });
+}
+
+/**
+ * End an enrollment (e.g. on termination). Coverage and the payroll deduction
+ * stop after endDate.
+ */
+export async function endEnrollment(businessId: string, enrollmentId: string, endDate: Date) {
+  const enrollment = await prisma.benefitEnrollment.findFirst({ where: { id: enrollmentId, businessId } });
+  if (!enrollment) {
+    throw new Error('Benefit enrollment not found');
+  }
+  if (enrollment.status === BenefitEnrollmentStatus.ENDED) {
+    throw new Error('Benefit enrollment has already ended');
+  }
+  const coverageEnd = startOfUtcDay(endDate);
+  if (coverageEnd < enrollment.coverageStart) {
+    throw new Error('End date must be on or after the coverage start date');
+  }
+
+  await prisma.$transaction([
+    prisma.benefitEnrollment.update({
+      where: { id: enrollmentId },
+      data: { status: BenefitEnrollmentStatus.ENDED, coverageEnd }
+    }),
+    ...(enrollment.payrollLineId
+      ? [prisma.payrollLineDefinition.update({ where: { id: enrollment.payrollLineId }, data: { effectiveTo: coverageEnd } })]
+      : [])
+  ]);
+
+  return prisma.benefitEnrollment.findUniqueOrThrow({ where: { id: enrollmentId }, include: enrollmentInclude });
+}
+
+// ============================================================================
+// DASHBOARD & CENSUS
+// ============================================================================
+
+export async function getBenefitsDashboard(businessId: string) {
+  const day = startOfUtcDay(new Date());
+  const [plans, enrollments, windows, pendingLifeEvents] = await Promise.all([
+    prisma.benefitPlan.findMany({ where: { businessId, isActive: true }, select: { id: true, name: true, type: true } }),
+    prisma.benefitEnrollment.findMany({
+      where: {
+        businessId,
+        status: BenefitEnrollmentStatus.ACTIVE,
+        coverageStart: { lte: day },
+        OR: [{ coverageEnd: null }, { coverageEnd: { gte: day } }]
+      },
+      select: { planId: true, employeeCost: true, employerCost: true }
+    }),
+    prisma.benefitEnrollmentWindow.findMany({
+      where: { businessId, endDate: { gte: day } },
+      orderBy: { startDate: 'asc' },
+      take: 1
+    }),
+    prisma.benefitLifeEvent.count({ where: { businessId, status: BenefitLifeEventStatus.PENDING } })
+  ]);
+
+  const byPlan = plans.map((plan) => {
+    const planEnrollments = enrollments.filter((enrollment) => enrollment.planId === plan.id);
+    return {
+      ...plan,
+      typeLabel: PLAN_TYPE_LABELS[plan.type],
+      enrolled: planEnrollments.length,
+      employeeCostPerPeriod: roundCurrency(planEnrollments.reduce((sum, item) => sum + item.employeeCost, 0)),
+      employerCostPerPeriod: roundCurrency(planEnrollments.reduce((sum, item) => sum + item.employerCost, 0))
+    };
+  });
+
+  return {
+    plans: byPlan,
+    activeEnrollments: enrollments.length,
+    employerCostPerPeriod: roundCurrency(byPlan.reduce((sum, plan) => sum + plan.employerCostPerPeriod, 0)),
+    employeeCostPerPeriod: roundCurrency(byPlan.reduce((sum, plan) => sum + plan.employeeCostPerPeriod, 0)),
+    nextWindow: windows[0] ?? null,
+    pendingLifeEvents
+  };
+}
+
+export const CENSUS_HEADERS = [
+  'Employee ID',
+  'Relationship',
+  'Last Name',
+  'First Name',
+  'Date of Birth',
+  'Gender',
+  'Email',
+  'Employee Type',
+  'Hire Date',
+  'Plan',
+  'Plan Type',
+  'Carrier',
+  'Plan Code',
+  'Coverage Level',
+  'Contribution %',
+  'Coverage Start',
+  'Coverage End',
+  'Employee Cost',
+  'Employer Cost'
+];
+
+const splitName = (name: string | null) => {
+  const parts = (name ?? '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) {
+    return { firstName: parts[0] ?? '', lastName: '' };
+  }
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] };
+};
+
+/**
+ * Carrier census: one row per covered person (employee, then dependents) for
+ * every active election on the given date.
+ */
+export async function buildBenefitsCensus(businessId: string, options: { planId?: string; asOf?: Date } = {}) {
+  const asOf = startOfUtcDay(options.asOf ?? new Date());
+  const enrollments = await prisma.benefitEnrollment.findMany({
+    where: {
+      businessId,
+      status: BenefitEnrollmentStatus.ACTIVE,
+      coverageStart: { lte: asOf },
+      OR: [{ coverageEnd: null }, { coverageEnd: { gte: asOf } }],
+      ...(options.planId ? { planId: options.planId } : {})
+    },
+    include: {
+      plan: true,
+      dependents: { include: { dependent: true } },
+      employeeHrProfile: {
+        select: {
+          id: true,
+          employeeType: true,
+          hireDate: true,
+          personalInfo: true,
+          employeePosition: { select: { user: { select: { name: true, email: true } } } }
+        }
+      }
+    },
+    orderBy: [{ plan: { name: 'asc' } }, { coverageStart: 'asc' }]
+  });
+
+  const rows: string[] = [toCsvRow(CENSUS_HEADERS)];
+  enrollments.forEach((enrollment) => {
+    const { employeeHrProfile: profile, plan } = enrollment;
+    const info = (profile.personalInfo ?? {}) as Record<string, unknown>;
+    const fallback = splitName(profile.employeePosition.user.name);
+    const birthday = typeof info.birthday === 'string' ? info.birthday : typeof info.dateOfBirth === 'string' ? info.dateOfBirth : '';
+    const planColumns = [
+      plan.name,
+      PLAN_TYPE_LABELS[plan.type],
+      plan.carrier,
+      plan.planCode,
+      enrollment.coverageLevel,
+      enrollment.contributionPercent
+    ];
+    const coverageColumns = [toDateString(enrollment.coverageStart), toDateString(enrollment.coverageEnd)];
+
+    rows.push(toCsvRow([
+      profile.id,
+      'EMPLOYEE',
+      typeof info.lastName === 'string' ? info.lastName : fallback.lastName,
+      typeof info.firstName === 'string' ? info.firstName : fallback.firstName,
+      birthday,
+      typeof info.gender === 'string' ? info.gender : '',
+      profile.employeePosition.user.email,
+      profile.employeeType,
+      toDateString(profile.hireDate),
+      ...planColumns,
+      ...coverageColumns,
+      enrollment.employeeCost.toFixed(2),
+      enrollment.employerCost.toFixed(2)
+    ]));
+
+    enrollment.dependents.forEach(({ dependent }) => {
+      rows.push(toCsvRow([
+        profile.id,
+        dependent.relationship,
+        dependent.lastName,
+        dependent.firstName,
+        toDateString(dependent.dateOfBirth),
+        dependent.gender,
+        '',
+        '',
+        '',
+        ...planColumns,
+        ...coverageColumns,
+        '',
+        ''
+      ]));
+    });
+  });
+
+  return { csv: rows.join('\n'), asOf, enrollmentCount: enrollments.length };
+}
@@ -11,6 +11,7 @@ import { logger } from '../lib/logger';
 import { ensureBusinessDashboardForUser } from './dashboardService';
 import { ensureEmployeeDocumentsFolder } from './driveService';
 import { storageService } from './storageService';
+import { assertStorageAvailable } from './storageQuotaService';
 import { NotificationService } from './notificationService';
 
 type JsonInput = Prisma.InputJsonValue | null | undefined;
@@ -743,6 +744,7 @@ export async function deliverOnboardingDocuments(params: {
       const storageFileName = `${safeBaseName.toLowerCase().replace(/\s+/g, '-')}-${uniqueSuffix}${extension}`;
       const destinationPath = `files/hr-onboarding/${employeeUserId}/${storageFileName}`;
 
+      await assertStorageAvailable({ userId: employeeUserId, businessId }, sourceFile.size);
       const copyResult = await storageService.copyFile(sourceFile.path, destinationPath);
 
       const finalDisplayName = extension
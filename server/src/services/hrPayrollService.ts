@@ -0,0 +1,1254 @@
+import crypto from 'crypto';
+import {
+  AttendanceRecordStatus,
+  EmployeeType,
+  PayPeriodStatus,
+  PayRunStatus,
+  PayType,
+  PayrollLineCalculation,
+  PayrollLineCategory,
+  Prisma,
+  ShiftStatus,
+  TimeOffStatus,
+  TimeOffType
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { NotificationService } from './notificationService';
+import { renderTextPdf, PdfTextLine } from '../utils/simplePdf';
+
+type JsonInput = Prisma.InputJsonValue | null | undefined;
+
+export type PayPeriodFrequency = 'WEEKLY' | 'BIWEEKLY' | 'SEMIMONTHLY' | 'MONTHLY';
+export type PayrollHoursSource = 'ATTENDANCE' | 'SCHEDULE' | 'ATTENDANCE_WITH_SCHEDULE_FALLBACK';
+
+export interface PayrollSettings {
+  payPeriod: PayPeriodFrequency;
+  payDateOffsetDays: number;
+  hoursSource: PayrollHoursSource;
+  overtimeThresholdHours: number; // Weekly threshold
+  overtimeMultiplier: number;
+  standardHoursPerDay: number;
+  workingDaysPerWeek: number;
+  currency: string;
+}
+
+export interface PayrollLineInput {
+  id?: string;
+  businessId: string;
+  name: string;
+  code: string;
+  category: PayrollLineCategory;
+  calculation?: PayrollLineCalculation;
+  amount: number;
+  employeeTypes?: EmployeeType[];
+  employeeHrProfileId?: string | null;
+  effectiveFrom?: Date | null;
+  effectiveTo?: Date | null;
+  sortOrder?: number;
+  isActive?: boolean;
+  metadata?: JsonInput;
+}
+
+export interface CreatePayPeriodInput {
+  businessId: string;
+  startDate: Date;
+  endDate: Date;
+  payDate?: Date | null;
+  createdById: string;
+}
+
+export interface CreatePayRunInput {
+  businessId: string;
+  payPeriodId: string;
+  createdById: string;
+  notes?: string | null;
+}
+
+export interface PayrollLineConfig {
+  code: string;
+  name: string;
+  category: PayrollLineCategory;
+  calculation: PayrollLineCalculation;
+  amount: number;
+}
+
+export interface PayCalculationInput {
+  payType: PayType;
+  payRate: number;
+  periodsPerYear: number;
+  regularHours: number;
+  overtimeHours: number;
+  paidTimeOffHours: number;
+  unpaidTimeOffHours: number;
+  overtimeMultiplier: number;
+  standardHoursPerDay: number;
+  workingDaysPerWeek: number;
+  lines: PayrollLineConfig[];
+}
+
+export interface PayLineResult {
+  code: string;
+  name: string;
+  category: PayrollLineCategory;
+  hours?: number;
+  rate?: number;
+  amount: number;
+}
+
+export interface PayCalculationResult {
+  earnings: PayLineResult[];
+  deductions: PayLineResult[];
+  grossPay: number;
+  totalDeductions: number;
+  netPay: number;
+  warnings: string[];
+}
+
+const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  payPeriod: 'BIWEEKLY',
+  payDateOffsetDays: 5,
+  hoursSource: 'ATTENDANCE_WITH_SCHEDULE_FALLBACK',
+  overtimeThresholdHours: 40,
+  overtimeMultiplier: 1.5,
+  standardHoursPerDay: 8,
+  workingDaysPerWeek: 5,
+  currency: 'USD'
+};
+
+const PERIODS_PER_YEAR: Record<PayPeriodFrequency, number> = {
+  WEEKLY: 52,
+  BIWEEKLY: 26,
+  SEMIMONTHLY: 24,
+  MONTHLY: 12
+};
+
+const PAID_TIME_OFF_TYPES: TimeOffType[] = [TimeOffType.PTO, TimeOffType.SICK, TimeOffType.PERSONAL];
+const DEDUCTION_ORDER: PayrollLineCategory[] = [
+  PayrollLineCategory.PRE_TAX_DEDUCTION,
+  PayrollLineCategory.TAX,
+  PayrollLineCategory.POST_TAX_DEDUCTION
+];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const jsonOrNull = (value: JsonInput): Prisma.InputJsonValue => {
+  if (value === undefined || value === null) {
+    return Prisma.JsonNull as unknown as Prisma.InputJsonValue;
+  }
+  return value;
+};
+
+export const roundCurrency = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const roundHours = (value: number): number => Math.round(value * 100) / 100;
+
+const toUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const dayKey = (date: Date): string => toUtcDay(date).toISOString().slice(0, 10);
+
+const positiveNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export async function getPayrollSettings(businessId: string): Promise<PayrollSettings> {
+  const settings = await prisma.hRModuleSettings.findUnique({
+    where: { businessId },
+    select: { payrollSettings: true, workWeekSettings: true }
+  });
+
+  const payroll = (settings?.payrollSettings ?? {}) as Record<string, unknown>;
+  const workWeek = (settings?.workWeekSettings ?? {}) as Record<string, unknown>;
+
+  const payPeriod =
+    typeof payroll.payPeriod === 'string' && payroll.payPeriod.toUpperCase() in PERIODS_PER_YEAR
+      ? (payroll.payPeriod.toUpperCase() as PayPeriodFrequency)
+      : DEFAULT_PAYROLL_SETTINGS.payPeriod;
+
+  const hoursSource =
+    payroll.hoursSource === 'ATTENDANCE' ||
+    payroll.hoursSource === 'SCHEDULE' ||
+    payroll.hoursSource === 'ATTENDANCE_WITH_SCHEDULE_FALLBACK'
+      ? payroll.hoursSource
+      : DEFAULT_PAYROLL_SETTINGS.hoursSource;
+
+  return {
+    payPeriod,
+    payDateOffsetDays:
+      typeof payroll.payDateOffsetDays === 'number' && payroll.payDateOffsetDays >= 0
+        ? Math.floor(payroll.payDateOffsetDays)
+        : DEFAULT_PAYROLL_SETTINGS.payDateOffsetDays,
+    hoursSource,
+    overtimeThresholdHours: positiveNumber(
+      payroll.overtimeThresholdHours,
+      DEFAULT_PAYROLL_SETTINGS.overtimeThresholdHours
+    ),
+    overtimeMultiplier: positiveNumber(payroll.overtimeMultiplier, DEFAULT_PAYROLL_SETTINGS.overtimeMultiplier),
+    standardHoursPerDay: positiveNumber(workWeek.hoursPerDay, DEFAULT_PAYROLL_SETTINGS.standardHoursPerDay),
+    workingDaysPerWeek: Math.min(
+      7,
+      Math.floor(positiveNumber(workWeek.daysPerWeek, DEFAULT_PAYROLL_SETTINGS.workingDaysPerWeek))
+    ),
+    currency:
+      typeof payroll.currency === 'string' && payroll.currency.trim().length === 3
+        ? payroll.currency.trim().toUpperCase()
+        : DEFAULT_PAYROLL_SETTINGS.currency
+  };
+}
+
+// ============================================================================
+// PURE CALCULATION HELPERS
+// ============================================================================
+
+/**
+ * Split worked minutes (keyed by UTC day) into regular and overtime hours.
+ * Overtime is evaluated per Monday-start week.
+ */
+export function splitWeeklyOvertime(
+  minutesByDay: Record<string, number>,
+  overtimeThresholdHours: number
+): { regularHours: number; overtimeHours: number } {
+  const minutesByWeek = new Map<string, number>();
+
+  for (const [key, minutes] of Object.entries(minutesByDay)) {
+    const date = new Date(`${key}T00:00:00.000Z`);
+    const mondayOffset = (date.getUTCDay() + 6) % 7;
+    const weekKey = dayKey(addDays(date, -mondayOffset));
+    minutesByWeek.set(weekKey, (minutesByWeek.get(weekKey) ?? 0) + Math.max(0, minutes));
+  }
+
+  const thresholdMinutes = overtimeThresholdHours * 60;
+  let regularMinutes = 0;
+  let overtimeMinutes = 0;
+  for (const minutes of minutesByWeek.values()) {
+    regularMinutes += Math.min(minutes, thresholdMinutes);
+    overtimeMinutes += Math.max(0, minutes - thresholdMinutes);
+  }
+
+  return {
+    regularHours: roundHours(regularMinutes / 60),
+    overtimeHours: roundHours(overtimeMinutes / 60)
+  };
+}
+
+/**
+ * Count working days of a (date-inclusive) time-off request that fall inside the pay period.
+ * Days 1..workingDaysPerWeek counted from Monday are treated as working days.
+ */
+export function countTimeOffWorkingDays(
+  requestStart: Date,
+  requestEnd: Date,
+  periodStart: Date,
+  periodEnd: Date,
+  workingDaysPerWeek: number
+): number {
+  const from = Math.max(toUtcDay(requestStart).getTime(), toUtcDay(periodStart).getTime());
+  const to = Math.min(toUtcDay(requestEnd).getTime(), toUtcDay(periodEnd).getTime());
+  let days = 0;
+  for (let cursor = from; cursor <= to; cursor += DAY_MS) {
+    const mondayIndex = (new Date(cursor).getUTCDay() + 6) % 7;
+    if (mondayIndex < workingDaysPerWeek) {
+      days += 1;
+    }
+  }
+  return days;
+}
+
+/**
+ * Gross-to-net calculation for a single employee.
+ * Earnings lines are applied first; deductions are applied in pre-tax, tax,
+ * post-tax order and never take net pay below zero.
+ */
+export function calculateEmployeePay(input: PayCalculationInput): PayCalculationResult {
+  const earnings: PayLineResult[] = [];
+  const deductions: PayLineResult[] = [];
+  const warnings: string[] = [];
+  const workedHours = input.regularHours + input.overtimeHours;
+
+  if (input.payType === PayType.HOURLY) {
+    earnings.push({
+      code: 'REGULAR',
+      name: 'Regular pay',
+      category: PayrollLineCategory.EARNING,
+      hours: roundHours(input.regularHours),
+      rate: input.payRate,
+      amount: roundCurrency(input.regularHours * input.payRate)
+    });
+    if (input.overtimeHours > 0) {
+      const overtimeRate = roundCurrency(input.payRate * input.overtimeMultiplier);
+      earnings.push({
+        code: 'OVERTIME',
+        name: 'Overtime pay',
+        category: PayrollLineCategory.EARNING,
+        hours: roundHours(input.overtimeHours),
+        rate: overtimeRate,
+        amount: roundCurrency(input.overtimeHours * input.payRate * input.overtimeMultiplier)
+      });
+    }
+    if (input.paidTimeOffHours > 0) {
+      earnings.push({
+        code: 'PTO',
+        name: 'Paid time off',
+        category: PayrollLineCategory.EARNING,
+        hours: roundHours(input.paidTimeOffHours),
+        rate: input.payRate,
+        amount: roundCurrency(input.paidTimeOffHours * input.payRate)
+      });
+    }
+  } else {
+    const periodSalary = roundCurrency(input.payRate / input.periodsPerYear);
+    earnings.push({
+      code: 'SALARY',
+      name: 'Salary',
+      category: PayrollLineCategory.EARNING,
+      amount: periodSalary
+    });
+    if (input.unpaidTimeOffHours > 0) {
+      const annualHours = 52 * input.workingDaysPerWeek * input.standardHoursPerDay;
+      const hourlyEquivalent = input.payRate / annualHours;
+      const unpaidAmount = Math.min(periodSalary, roundCurrency(hourlyEquivalent * input.unpaidTimeOffHours));
+      earnings.push({
+        code: 'UNPAID_LEAVE',
+        name: 'Unpaid time off',
+        category: PayrollLineCategory.EARNING,
+        hours: roundHours(input.unpaidTimeOffHours),
+        rate: roundCurrency(hourlyEquivalent),
+        amount: -unpaidAmount
+      });
+    }
+  }
+
+  const baseEarnings = earnings.reduce((sum, line) => sum + line.amount, 0);
+
+  for (const line of input.lines.filter((item) => item.category === PayrollLineCategory.EARNING)) {
+    let amount = line.amount;
+    if (line.calculation === PayrollLineCalculation.PER_HOUR) {
+      amount = line.amount * workedHours;
+    } else if (line.calculation === PayrollLineCalculation.PERCENT_OF_GROSS) {
+      amount = (baseEarnings * line.amount) / 100;
+    }
+    earnings.push({
+      code: line.code,
+      name: line.name,
+      category: line.category,
+      ...(line.calculation === PayrollLineCalculation.PER_HOUR
+        ? { hours: roundHours(workedHours), rate: line.amount }
+        : {}),
+      amount: roundCurrency(amount)
+    });
+  }
+
+  const grossPay = roundCurrency(Math.max(0, earnings.reduce((sum, line) => sum + line.amount, 0)));
+
+  let totalDeductions = 0;
+  let preTaxTotal = 0;
+  for (const category of DEDUCTION_ORDER) {
+    for (const line of input.lines.filter((item) => item.category === category)) {
+      const taxableBase = category === PayrollLineCategory.TAX ? grossPay - preTaxTotal : grossPay;
+      let amount = line.amount;
+      if (line.calculation === PayrollLineCalculation.PER_HOUR) {
+        amount = line.amount * workedHours;
+      } else if (line.calculation === PayrollLineCalculation.PERCENT_OF_GROSS) {
+        amount = (Math.max(0, taxableBase) * line.amount) / 100;
+      }
+      amount = roundCurrency(Math.max(0, amount));
+
+      const remaining = roundCurrency(grossPay - totalDeductions);
+      if (amount > remaining) {
+        warnings.push(`${line.name} reduced from ${amount.toFixed(2)} to ${remaining.toFixed(2)} to keep net pay at zero`);
+        amount = remaining;
+      }
+
+      deductions.push({ code: line.code, name: line.name, category, amount });
+      totalDeductions = roundCurrency(totalDeductions + amount);
+      if (category === PayrollLineCategory.PRE_TAX_DEDUCTION) {
+        preTaxTotal = roundCurrency(preTaxTotal + amount);
+      }
+    }
+  }
+
+  return {
+    earnings,
+    deductions,
+    grossPay,
+    totalDeductions,
+    netPay: roundCurrency(grossPay - totalDeductions),
+    warnings
+  };
+}
+
+// ============================================================================
+// EARNING / DEDUCTION LINES
+// ============================================================================
+
+/**
+ * Whether a line's optional effective window overlaps the pay period.
+ */
+export function isPayrollLineEffective(
+  line: { effectiveFrom: Date | null; effectiveTo: Date | null },
+  periodStart: Date,
+  periodEnd: Date
+): boolean {
+  if (line.effectiveFrom && line.effectiveFrom > periodEnd) {
+    return false;
+  }
+  return !line.effectiveTo || line.effectiveTo >= periodStart;
+}
+
+export async function listPayrollLines(businessId: string, includeInactive = false) {
+  return prisma.payrollLineDefinition.findMany({
+    where: {
+      businessId,
+      ...(includeInactive ? {} : { isActive: true })
+    },
+    orderBy: [{ category: 'asc' }, { sortOrder: 'asc' }, { createdAt: 'asc' }],
+    include: {
+      employeeHrProfile: {
+        select: {
+          id: true,
+          employeePosition: {
+            select: { user: { select: { id: true, name: true, email: true } } }
+          }
+        }
+      }
+    }
+  });
+}
+
+export async function upsertPayrollLine(input: PayrollLineInput) {
+  const { id, businessId, employeeHrProfileId, metadata, ...rest } = input;
+
+  if (employeeHrProfileId) {
+    const profile = await prisma.employeeHRProfile.findFirst({
+      where: { id: employeeHrProfileId, businessId, deletedAt: null },
+      select: { id: true }
+    });
+    if (!profile) {
+      throw new Error('Employee HR profile not found for payroll line');
+    }
+  }
+
+  const data = {
+    name: rest.name,
+    code: rest.code.trim().toUpperCase(),
+    category: rest.category,
+    calculation: rest.calculation ?? PayrollLineCalculation.FLAT,
+    amount: rest.amount,
+    employeeTypes: rest.employeeTypes ?? [],
+    employeeHrProfileId: employeeHrProfileId ?? null,
+    effectiveFrom: rest.effectiveFrom,
+    effectiveTo: rest.effectiveTo,
+    sortOrder: rest.sortOrder ?? 0,
+    isActive: rest.isActive ?? true,
+    metadata: jsonOrNull(metadata)
+  };
+
+  if (id) {
+    const existing = await prisma.payrollLineDefinition.findFirst({
+      where: { id, businessId },
+      select: { id: true }
+    });
+    if (!existing) {
+      throw new Error('Payroll line not found');
+    }
+    return prisma.payrollLineDefinition.update({ where: { id }, data });
+  }
+
+  return prisma.payrollLineDefinition.create({
+    data: { businessId, ...data }
+  });
+}
+
+export async function archivePayrollLine(businessId: string, lineId: string) {
+  const result = await prisma.payrollLineDefinition.updateMany({
+    where: { id: lineId, businessId },
+    data: { isActive: false }
+  });
+  if (result.count === 0) {
+    throw new Error('Payroll line not found');
+  }
+}
+
+// ============================================================================
+// PAY PERIODS
+// ============================================================================
+
+/**
+ * Compute the period that follows `previousEnd` (or contains `today` when no
+ * period exists yet) for the configured frequency.
+ */
+export function computeNextPayPeriodRange(
+  frequency: PayPeriodFrequency,
+  previousEnd: Date | null,
+  today: Date = new Date()
+): { startDate: Date; endDate: Date } {
+  let start: Date;
+  if (previousEnd) {
+    start = addDays(toUtcDay(previousEnd), 1);
+  } else if (frequency === 'WEEKLY' || frequency === 'BIWEEKLY') {
+    const day = toUtcDay(today);
+    start = addDays(day, -((day.getUTCDay() + 6) % 7));
+  } else if (frequency === 'SEMIMONTHLY' && today.getUTCDate() > 15) {
+    start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 16));
+  } else {
+    start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  }
+
+  let end: Date;
+  switch (frequency) {
+    case 'WEEKLY':
+      end = addDays(start, 6);
+      break;
+    case 'BIWEEKLY':
+      end = addDays(start, 13);
+      break;
+    case 'SEMIMONTHLY':
+      end =
+        start.getUTCDate() <= 15
+          ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 15))
+          : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+      break;
+    case 'MONTHLY':
+    default:
+      end = addDays(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, start.getUTCDate())), -1);
+      break;
+  }
+
+  return { startDate: start, endDate: end };
+}
+
+export async function listPayPeriods(businessId: string, limit = 24) {
+  return prisma.payPeriod.findMany({
+    where: { businessId },
+    orderBy: { startDate: 'desc' },
+    take: limit,
+    include: {
+      payRuns: {
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          status: true,
+          employeeCount: true,
+          totalGross: true,
+          totalNet: true,
+          finalizedAt: true
+        }
+      }
+    }
+  });
+}
+
+export async function createPayPeriod(input: CreatePayPeriodInput) {
+  const startDate = toUtcDay(input.startDate);
+  const endDate = toUtcDay(input.endDate);
+  if (endDate < startDate) {
+    throw new Error('Pay period end date must be on or after the start date');
+  }
+
+  const overlapping = await prisma.payPeriod.findFirst({
+    where: {
+      businessId: input.businessId,
+      startDate: { lte: endDate },
+      endDate: { gte: startDate }
+    },
+    select: { id: true }
+  });
+  if (overlapping) {
+    throw new Error('Pay period overlaps an existing pay period');
+  }
+
+  const settings = await getPayrollSettings(input.businessId);
+
+  return prisma.payPeriod.create({
+    data: {
+      businessId: input.businessId,
+      startDate,
+      endDate,
+      payDate: input.payDate ? toUtcDay(input.payDate) : addDays(endDate, settings.payDateOffsetDays),
+      createdById: input.createdById
+    }
+  });
+}
+
+export async function createNextPayPeriod(businessId: string, createdById: string) {
+  const [settings, latest] = await Promise.all([
+    getPayrollSettings(businessId),
+    prisma.payPeriod.findFirst({
+      where: { businessId },
+      orderBy: { endDate: 'desc' },
+      select: { endDate: true }
+    })
+  ]);
+
+  const range = computeNextPayPeriodRange(settings.payPeriod, latest?.endDate ?? null);
+  return createPayPeriod({ businessId, createdById, ...range });
+}
+
+// ============================================================================
+// HOURS COLLECTION
+// ============================================================================
+
+interface EmployeeHoursSummary {
+  regularHours: number;
+  overtimeHours: number;
+  paidTimeOffHours: number;
+  unpaidTimeOffHours: number;
+  sourceSummary: {
+    attendanceRecords: number;
+    scheduledShifts: number;
+    timeOffRequests: number;
+  };
+}
+
+async function collectEmployeeHours(
+  businessId: string,
+  employeePositionId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  settings: PayrollSettings,
+  overtimeEligible: boolean
+): Promise<EmployeeHoursSummary> {
+  const rangeStart = toUtcDay(periodStart);
+  const rangeEndExclusive = addDays(toUtcDay(periodEnd), 1);
+
+  const [records, shifts, timeOff] = await Promise.all([
+    settings.hoursSource === 'SCHEDULE'
+      ? Promise.resolve([])
+      : prisma.attendanceRecord.findMany({
+          where: {
+            businessId,
+            employeePositionId,
+            status: AttendanceRecordStatus.COMPLETED,
+            workDate: { gte: rangeStart, lt: rangeEndExclusive }
+          },
+          select: { workDate: true, clockInTime: true, clockOutTime: true, durationMinutes: true }
+        }),
+    settings.hoursSource === 'ATTENDANCE'
+      ? Promise.resolve([])
+      : prisma.scheduleShift.findMany({
+          where: {
+            businessId,
+            employeePositionId,
+            status: { in: [ShiftStatus.SCHEDULED, ShiftStatus.FILLED, ShiftStatus.COMPLETED] },
+            schedule: { status: 'PUBLISHED' },
+            startTime: { gte: rangeStart, lt: rangeEndExclusive }
+          },
+          select: { startTime: true, endTime: true, breakMinutes: true }
+        }),
+    prisma.timeOffRequest.findMany({
+      where: {
+        businessId,
+        employeePositionId,
+        status: TimeOffStatus.APPROVED,
+        startDate: { lt: rangeEndExclusive },
+        endDate: { gte: rangeStart }
+      },
+      select: { type: true, startDate: true, endDate: true }
+    })
+  ]);
+
+  const attendanceMinutes: Record<string, number> = {};
+  for (const record of records) {
+    let minutes = record.durationMinutes ?? 0;
+    if (!record.durationMinutes && record.clockInTime && record.clockOutTime) {
+      minutes = Math.round((record.clockOutTime.getTime() - record.clockInTime.getTime()) / 60000);
+    }
+    const key = dayKey(record.workDate);
+    attendanceMinutes[key] = (attendanceMinutes[key] ?? 0) + Math.max(0, minutes);
+  }
+
+  const minutesByDay: Record<string, number> = { ...attendanceMinutes };
+  let scheduledShifts = 0;
+  for (const shift of shifts) {
+    const key = dayKey(shift.startTime);
+    // Fallback mode only uses the schedule for days without attendance punches
+    if (settings.hoursSource === 'ATTENDANCE_WITH_SCHEDULE_FALLBACK' && attendanceMinutes[key] !== undefined) {
+      continue;
+    }
+    const minutes =
+      Math.round((shift.endTime.getTime() - shift.startTime.getTime()) / 60000) - (shift.breakMinutes ?? 0);
+    minutesByDay[key] = (minutesByDay[key] ?? 0) + Math.max(0, minutes);
+    scheduledShifts += 1;
+  }
+
+  let { regularHours, overtimeHours } = splitWeeklyOvertime(minutesByDay, settings.overtimeThresholdHours);
+  if (!overtimeEligible) {
+    regularHours = roundHours(regularHours + overtimeHours);
+    overtimeHours = 0;
+  }
+
+  let paidTimeOffHours = 0;
+  let unpaidTimeOffHours = 0;
+  for (const request of timeOff) {
+    const days = countTimeOffWorkingDays(
+      request.startDate,
+      request.endDate,
+      periodStart,
+      periodEnd,
+      settings.workingDaysPerWeek
+    );
+    const hours = days * settings.standardHoursPerDay;
+    if (PAID_TIME_OFF_TYPES.includes(request.type)) {
+      paidTimeOffHours += hours;
+    } else {
+      unpaidTimeOffHours += hours;
+    }
+  }
+
+  return {
+    regularHours,
+    overtimeHours,
+    paidTimeOffHours: roundHours(paidTimeOffHours),
+    unpaidTimeOffHours: roundHours(unpaidTimeOffHours),
+    sourceSummary: {
+      attendanceRecords: records.length,
+      scheduledShifts,
+      timeOffRequests: timeOff.length
+    }
+  };
+}
+
+// ============================================================================
+// PAY RUNS
+// ============================================================================
+
+const payRunInclude = {
+  payPeriod: true,
+  entries: {
+    orderBy: { createdAt: 'asc' as const },
+    include: {
+      employeeHrProfile: {
+        select: {
+          id: true,
+          payType: true,
+          payRate: true,
+          employeeType: true,
+          employeePosition: {
+            select: {
+              user: { select: { id: true, name: true, email: true } },
+              position: { select: { id: true, title: true } }
+            }
+          }
+        }
+      }
+    }
+  }
+} satisfies Prisma.PayRunInclude;
+
+export async function listPayRuns(businessId: string, limit = 20) {
+  return prisma.payRun.findMany({
+    where: { businessId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: { payPeriod: true }
+  });
+}
+
+export async function getPayRun(businessId: string, payRunId: string) {
+  return prisma.payRun.findFirst({
+    where: { id: payRunId, businessId },
+    include: payRunInclude
+  });
+}
+
+export async function createPayRun(input: CreatePayRunInput) {
+  const period = await prisma.payPeriod.findFirst({
+    where: { id: input.payPeriodId, businessId: input.businessId }
+  });
+  if (!period) {
+    throw new Error('Pay period not found');
+  }
+  if (period.status === PayPeriodStatus.CLOSED) {
+    throw new Error('Pay period is already closed');
+  }
+
+  const activeRun = await prisma.payRun.findFirst({
+    where: {
+      businessId: input.businessId,
+      payPeriodId: period.id,
+      status: { not: PayRunStatus.VOID }
+    },
+    select: { id: true }
+  });
+  if (activeRun) {
+    throw new Error('Pay period already has an active pay run');
+  }
+
+  const settings = await getPayrollSettings(input.businessId);
+  const run = await prisma.payRun.create({
+    data: {
+      businessId: input.businessId,
+      payPeriodId: period.id,
+      currency: settings.currency,
+      createdById: input.createdById,
+      notes: input.notes ?? null
+    }
+  });
+
+  logger.info('Pay run created', {
+    operation: 'hr_payroll_create_run',
+    businessId: input.businessId,
+    payRunId: run.id,
+    payPeriodId: period.id
+  });
+
+  return calculatePayRun(input.businessId, run.id);
+}
+
+/**
+ * (Re)calculate every entry of a draft pay run from the current attendance,
+ * schedule, time-off and compensation data.
+ */
+export async function calculatePayRun(businessId: string, payRunId: string) {
+  const run = await prisma.payRun.findFirst({
+    where: { id: payRunId, businessId },
+    include: { payPeriod: true }
+  });
+  if (!run) {
+    throw new Error('Pay run not found');
+  }
+  if (run.status !== PayRunStatus.DRAFT && run.status !== PayRunStatus.CALCULATED) {
+    throw new Error(`Pay run cannot be recalculated in status ${run.status}`);
+  }
+
+  const { startDate, endDate } = run.payPeriod;
+  const settings = await getPayrollSettings(businessId);
+  const periodsPerYear = PERIODS_PER_YEAR[settings.payPeriod];
+
+  const [profiles, lines] = await Promise.all([
+    prisma.employeeHRProfile.findMany({
+      where: {
+        businessId,
+        deletedAt: null,
+        OR: [{ hireDate: null }, { hireDate: { lte: endDate } }],
+        AND: [{ OR: [{ terminationDate: null }, { terminationDate: { gte: startDate } }] }]
+      },
+      select: {
+        id: true,
+        employeePositionId: true,
+        employeeType: true,
+        payType: true,
+        payRate: true,
+        overtimeExempt: true
+      }
+    }),
+    prisma.payrollLineDefinition.findMany({
+      where: { businessId, isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }]
+    })
+  ]);
+
+  const skipped: string[] = [];
+  const calculatedProfileIds: string[] = [];
+  let totalGross = 0;
+  let totalDeductions = 0;
+  let totalNet = 0;
+
+  for (const profile of profiles) {
+    if (!profile.payType || profile.payRate === null || profile.payRate <= 0) {
+      skipped.push(profile.id);
+      continue;
+    }
+
+    const hours = await collectEmployeeHours(
+      businessId,
+      profile.employeePositionId,
+      startDate,
+      endDate,
+      settings,
+      profile.payType === PayType.HOURLY && !profile.overtimeExempt
+    );
+
+    const applicableLines = lines.filter((line) => {
+      if (!isPayrollLineEffective(line, startDate, endDate)) {
+        return false;
+      }
+      if (line.employeeHrProfileId) {
+        return line.employeeHrProfileId === profile.id;
+      }
+      return (
+        line.employeeTypes.length === 0 ||
+        (profile.employeeType !== null && line.employeeTypes.includes(profile.employeeType))
+      );
+    });
+
+    const result = calculateEmployeePay({
+      payType: profile.payType,
+      payRate: profile.payRate,
+      periodsPerYear,
+      regularHours: hours.regularHours,
+      overtimeHours: hours.overtimeHours,
+      paidTimeOffHours: hours.paidTimeOffHours,
+      unpaidTimeOffHours: hours.unpaidTimeOffHours,
+      overtimeMultiplier: settings.overtimeMultiplier,
+      standardHoursPerDay: settings.standardHoursPerDay,
+      workingDaysPerWeek: settings.workingDaysPerWeek,
+      lines: applicableLines
+    });
+
+    const entryData = {
+      regularHours: hours.regularHours,
+      overtimeHours: hours.overtimeHours,
+      paidTimeOffHours: hours.paidTimeOffHours,
+      unpaidTimeOffHours: hours.unpaidTimeOffHours,
+      grossPay: result.grossPay,
+      totalDeductions: result.totalDeductions,
+      netPay: result.netPay,
+      earnings: result.earnings as unknown as Prisma.InputJsonValue,
+      deductions: result.deductions as unknown as Prisma.InputJsonValue,
+      warnings: jsonOrNull(result.warnings.length > 0 ? result.warnings : null),
+      sourceSummary: hours.sourceSummary
+    };
+
+    await prisma.payRunEntry.upsert({
+      where: { payRunId_employeeHrProfileId: { payRunId, employeeHrProfileId: profile.id } },
+      create: { payRunId, businessId, employeeHrProfileId: profile.id, ...entryData },
+      update: entryData
+    });
+
+    calculatedProfileIds.push(profile.id);
+    totalGross += result.grossPay;
+    totalDeductions += result.totalDeductions;
+    totalNet += result.netPay;
+  }
+
+  await prisma.$transaction([
+    prisma.payRunEntry.deleteMany({
+      where: { payRunId, employeeHrProfileId: { notIn: calculatedProfileIds } }
+    }),
+    prisma.payRun.update({
+      where: { id: payRunId },
+      data: {
+        status: PayRunStatus.CALCULATED,
+        currency: settings.currency,
+        employeeCount: calculatedProfileIds.length,
+        totalGross: roundCurrency(totalGross),
+        totalDeductions: roundCurrency(totalDeductions),
+        totalNet: roundCurrency(totalNet),
+        calculatedAt: new Date()
+      }
+    }),
+    prisma.payPeriod.update({
+      where: { id: run.payPeriodId },
+      data: { status: PayPeriodStatus.PROCESSING }
+    })
+  ]);
+
+  logger.info('Pay run calculated', {
+    operation: 'hr_payroll_calculate_run',
+    businessId,
+    payRunId,
+    employeeCount: calculatedProfileIds.length,
+    skippedCount: skipped.length
+  });
+
+  const payRun = await getPayRun(businessId, payRunId);
+  return { payRun, skippedEmployeeHrProfileIds: skipped };
+}
+
+const buildStubChecksum = (payload: Record<string, unknown>): string =>
+  crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+
+/**
+ * Finalize a calculated pay run: issues one immutable pay stub per entry,
+ * closes the pay period and notifies employees.
+ */
+export async function finalizePayRun(businessId: string, payRunId: string, finalizedById: string) {
+  const run = await prisma.payRun.findFirst({
+    where: { id: payRunId, businessId },
+    include: {
+      payPeriod: true,
+      business: { select: { name: true, ein: true, address: true } },
+      entries: {
+        include: {
+          employeeHrProfile: {
+            select: {
+              id: true,
+              payType: true,
+              payRate: true,
+              employeeType: true,
+              employeePosition: {
+                select: {
+                  userId: true,
+                  user: { select: { name: true, email: true } },
+                  position: {
+                    select: { title: true, department: { select: { name: true } } }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  });
+  if (!run) {
+    throw new Error('Pay run not found');
+  }
+  if (run.status !== PayRunStatus.CALCULATED) {
+    throw new Error('Only calculated pay runs can be finalized');
+  }
+  if (run.entries.length === 0) {
+    throw new Error('Pay run has no entries to finalize');
+  }
+
+  const { payPeriod } = run;
+  const yearStart = new Date(Date.UTC(payPeriod.payDate.getUTCFullYear(), 0, 1));
+  const employerSnapshot = { name: run.business.name, ein: run.business.ein, address: run.business.address ?? null };
+  const stubPrefix = `PS-${dayKey(payPeriod.payDate).replace(/-/g, '')}-${run.id.slice(0, 8).toUpperCase()}`;
+
+  const stubs = await prisma.$transaction(async (tx) => {
+    const created = [];
+    let sequence = 0;
+    for (const entry of run.entries) {
+      sequence += 1;
+      const profile = entry.employeeHrProfile;
+
+      const priorTotals = await tx.payStub.aggregate({
+        where: {
+          businessId,
+          employeeHrProfileId: profile.id,
+          payDate: { gte: yearStart, lte: payPeriod.payDate }
+        },
+        _sum: { grossPay: true, totalDeductions: true, netPay: true }
+      });
+
+      const stubContent = {
+        stubNumber: `${stubPrefix}-${String(sequence).padStart(4, '0')}`,
+        periodStart: payPeriod.startDate.toISOString(),
+        periodEnd: payPeriod.endDate.toISOString(),
+        payDate: payPeriod.payDate.toISOString(),
+        currency: run.currency,
+        payType: profile.payType ?? PayType.HOURLY,
+        payRate: profile.payRate ?? 0,
+        regularHours: entry.regularHours,
+        overtimeHours: entry.overtimeHours,
+        paidTimeOffHours: entry.paidTimeOffHours,
+        unpaidTimeOffHours: entry.unpaidTimeOffHours,
+        grossPay: entry.grossPay,
+        totalDeductions: entry.totalDeductions,
+        netPay: entry.netPay,
+        earnings: entry.earnings as Prisma.InputJsonValue,
+        deductions: entry.deductions as Prisma.InputJsonValue,
+        yearToDate: {
+          grossPay: roundCurrency((priorTotals._sum.grossPay ?? 0) + entry.grossPay),
+          totalDeductions: roundCurrency((priorTotals._sum.totalDeductions ?? 0) + entry.totalDeductions),
+          netPay: roundCurrency((priorTotals._sum.netPay ?? 0) + entry.netPay)
+        },
+        employeeSnapshot: {
+          name: profile.employeePosition.user.name,
+          email: profile.employeePosition.user.email,
+          positionTitle: profile.employeePosition.position.title,
+          departmentName: profile.employeePosition.position.department?.name ?? null,
+          employeeType: profile.employeeType
+        },
+        employerSnapshot
+      };
+
+      const stub = await tx.payStub.create({
+        data: {
+          ...stubContent,
+          periodStart: payPeriod.startDate,
+          periodEnd: payPeriod.endDate,
+          payDate: payPeriod.payDate,
+          businessId,
+          payRunId: run.id,
+          employeeHrProfileId: profile.id,
+          checksum: buildStubChecksum(stubContent)
+        }
+      });
+      created.push({ stub, userId: profile.employeePosition.userId });
+    }
+
+    await tx.payRun.update({
+      where: { id: run.id },
+      data: { status: PayRunStatus.FINALIZED, finalizedAt: new Date(), finalizedById }
+    });
+    await tx.payPeriod.update({
+      where: { id: payPeriod.id },
+      data: { status: PayPeriodStatus.CLOSED }
+    });
+
+    return created;
+  });
+
+  for (const { stub, userId } of stubs) {
+    try {
+      await NotificationService.createNotification({
+        userId,
+        type: 'hr_pay_stub_available',
+        title: 'New Pay Stub Available',
+        body: `Your pay stub for ${dayKey(stub.periodStart)} – ${dayKey(stub.periodEnd)} is ready.`,
+        data: {
+          payStubId: stub.id,
+          businessId,
+          actionUrl: `/business/${businessId}/workspace/hr/me`
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to send pay stub notification', {
+        operation: 'hr_payroll_notify_stub',
+        businessId,
+        payStubId: stub.id,
+        error: { message: error instanceof Error ? error.message : String(error) }
+      });
+    }
+  }
+
+  logger.info('Pay run finalized', {
+    operation: 'hr_payroll_finalize_run',
+    businessId,
+    payRunId,
+    stubCount: stubs.length
+  });
+
+  return getPayRun(businessId, payRunId);
+}
+
+export async function voidPayRun(businessId: string, payRunId: string, voidedById: string) {
+  const run = await prisma.payRun.findFirst({
+    where: { id: payRunId, businessId },
+    select: { id: true, status: true, payPeriodId: true }
+  });
+  if (!run) {
+    throw new Error('Pay run not found');
+  }
+  if (run.status === PayRunStatus.FINALIZED) {
+    throw new Error('Finalized pay runs cannot be voided; issued pay stubs are immutable');
+  }
+  if (run.status === PayRunStatus.VOID) {
+    throw new Error('Pay run is already void');
+  }
+
+  await prisma.$transaction([
+    prisma.payRun.update({
+      where: { id: run.id },
+      data: { status: PayRunStatus.VOID, voidedAt: new Date(), voidedById }
+    }),
+    prisma.payPeriod.update({
+      where: { id: run.payPeriodId },
+      data: { status: PayPeriodStatus.OPEN }
+    })
+  ]);
+
+  return getPayRun(businessId, payRunId);
+}
+
+export async function getPayrollDashboard(businessId: string) {
+  const [settings, periods, runs, employeesWithoutCompensation, activeLines] = await Promise.all([
+    getPayrollSettings(businessId),
+    listPayPeriods(businessId, 6),
+    listPayRuns(businessId, 6),
+    prisma.employeeHRProfile.count({
+      where: {
+        businessId,
+        deletedAt: null,
+        employmentStatus: { not: 'TERMINATED' },
+        OR: [{ payType: null }, { payRate: null }]
+      }
+    }),
+    prisma.payrollLineDefinition.count({ where: { businessId, isActive: true } })
+  ]);
+
+  return { settings, periods, runs, employeesWithoutCompensation, activeLines };
+}
+
+// ============================================================================
+// PAY STUBS
+// ============================================================================
+
+const payStubListSelect = {
+  id: true,
+  stubNumber: true,
+  periodStart: true,
+  periodEnd: true,
+  payDate: true,
+  currency: true,
+  grossPay: true,
+  totalDeductions: true,
+  netPay: true,
+  issuedAt: true
+} satisfies Prisma.PayStubSelect;
+
+export async function listPayStubsForEmployee(businessId: string, employeeHrProfileId: string) {
+  return prisma.payStub.findMany({
+    where: { businessId, employeeHrProfileId },
+    orderBy: { payDate: 'desc' },
+    select: payStubListSelect
+  });
+}
+
+export async function getPayStubForEmployee(businessId: string, employeeHrProfileId: string, payStubId: string) {
+  return prisma.payStub.findFirst({
+    where: { id: payStubId, businessId, employeeHrProfileId }
+  });
+}
+
+type PayStubRecord = NonNullable<Awaited<ReturnType<typeof getPayStubForEmployee>>>;
+
+const formatMoney = (amount: number, currency: string): string =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function renderPayStubPdf(stub: PayStubRecord): Buffer {
+  const employee = (stub.employeeSnapshot ?? {}) as Record<string, unknown>;
+  const employer = (stub.employerSnapshot ?? {}) as Record<string, unknown>;
+  const ytd = (stub.yearToDate ?? {}) as Record<string, number>;
+  const earnings = (Array.isArray(stub.earnings) ? stub.earnings : []) as unknown as PayLineResult[];
+  const deductions = (Array.isArray(stub.deductions) ? stub.deductions : []) as unknown as PayLineResult[];
+  const money = (amount: number) => formatMoney(amount ?? 0, stub.currency);
+
+  const lines: PdfTextLine[] = [
+    { text: String(employer.name ?? 'Employer'), bold: true, size: 16 },
+    { text: `EIN: ${String(employer.ein ?? '-')}` },
+    { text: '' },
+    { text: 'Earnings Statement', bold: true, size: 13 },
+    { text: `Stub #: ${stub.stubNumber}` },
+    { text: `Pay period: ${dayKey(stub.periodStart)} to ${dayKey(stub.periodEnd)}` },
+    { text: `Pay date: ${dayKey(stub.payDate)}` },
+    { text: '' },
+    { text: 'Employee', bold: true, size: 12 },
+    { text: String(employee.name ?? employee.email ?? 'Employee') },
+    { text: [employee.positionTitle, employee.departmentName].filter(Boolean).join(' - ') },
+    {
+      text:
+        stub.payType === PayType.SALARY
+          ? `Salary: ${money(stub.payRate)} / year`
+          : `Hourly rate: ${money(stub.payRate)}`
+    },
+    { text: '' },
+    { text: 'Earnings', bold: true, size: 12 }
+  ];
+
+  for (const line of earnings) {
+    const hours = line.hours !== undefined ? `  ${line.hours.toFixed(2)} h` : '';
+    const rate = line.rate !== undefined ? ` @ ${money(line.rate)}` : '';
+    lines.push({ text: `${line.name}${hours}${rate}: ${money(line.amount)}`, indent: 12 });
+  }
+  lines.push({ text: `Gross pay: ${money(stub.grossPay)}`, bold: true });
+  lines.push({ text: '' });
+  lines.push({ text: 'Deductions', bold: true, size: 12 });
+  if (deductions.length === 0) {
+    lines.push({ text: 'None', indent: 12 });
+  }
+  for (const line of deductions) {
+    lines.push({ text: `${line.name} (${line.code}): ${money(line.amount)}`, indent: 12 });
+  }
+  lines.push({ text: `Total deductions: ${money(stub.totalDeductions)}`, bold: true });
+  lines.push({ text: '' });
+  lines.push({ text: `Net pay: ${money(stub.netPay)}`, bold: true, size: 14 });
+  lines.push({ text: '' });
+  lines.push({ text: 'Year to date', bold: true, size: 12 });
+  lines.push({ text: `Gross: ${money(ytd.grossPay)}`, indent: 12 });
+  lines.push({ text: `Deductions: ${money(ytd.totalDeductions)}`, indent: 12 });
+  lines.push({ text: `Net: ${money(ytd.netPay)}`, indent: 12 });
+  lines.push({ text: '' });
+  lines.push({ text: `Issued ${stub.issuedAt.toISOString()}  |  Checksum ${stub.checksum.slice(0, 16)}`, size: 8 });
+
+  return renderTextPdf(lines, `Pay stub ${stub.stubNumber}`);
+}
@@ -0,0 +1,1582 @@
+import {
+  PerformanceCycleStatus,
+  PerformanceGoalStatus,
+  PerformanceGoalType,
+  PerformanceReviewStatus,
+  PerformanceReviewerType,
+  PerformanceSubmissionStatus,
+  Prisma
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { NotificationService } from './notificationService';
+
+// ManagerApprovalHierarchy.approvalTypes values that make a manager the reviewer
+export const PERFORMANCE_APPROVAL_TYPES = ['performance-review', 'performance_review'];
+
+export interface RatingScaleLevel {
+  value: number;
+  label: string;
+  description?: string;
+}
+
+export type PerformanceQuestionType = 'RATING' | 'TEXT';
+
+export interface PerformanceQuestion {
+  id: string;
+  prompt: string;
+  type: PerformanceQuestionType;
+  required: boolean;
+  reviewerTypes?: PerformanceReviewerType[];
+}
+
+export type SubmissionAnswers = Record<string, { rating?: number; text?: string }>;
+
+export const DEFAULT_RATING_SCALE: { name: string; description: string; levels: RatingScaleLevel[] } = {
+  name: 'Five-point scale',
+  description: 'Standard 1-5 performance rating',
+  levels: [
+    { value: 1, label: 'Needs improvement' },
+    { value: 2, label: 'Partially meets expectations' },
+    { value: 3, label: 'Meets expectations' },
+    { value: 4, label: 'Exceeds expectations' },
+    { value: 5, label: 'Outstanding' }
+  ]
+};
+
+export const DEFAULT_QUESTIONNAIRE: { name: string; description: string; questions: PerformanceQuestion[] } = {
+  name: 'Standard review',
+  description: 'Default questions for self, manager and peer reviews',
+  questions: [
+    { id: 'results', prompt: 'How well were goals and responsibilities delivered this period?', type: 'RATING', required: true },
+    { id: 'collaboration', prompt: 'How effectively does this person collaborate with others?', type: 'RATING', required: true },
+    { id: 'strengths', prompt: 'What are the key strengths shown this period?', type: 'TEXT', required: true },
+    { id: 'growth', prompt: 'What should be the focus for growth next period?', type: 'TEXT', required: false },
+    {
+      id: 'manager_support',
+      prompt: 'What support do you need from your manager?',
+      type: 'TEXT',
+      required: false,
+      reviewerTypes: [PerformanceReviewerType.SELF]
+    }
+  ]
+};
+
+export interface RatingScaleInput {
+  id?: string;
+  businessId: string;
+  name: string;
+  description?: string | null;
+  levels: RatingScaleLevel[];
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface QuestionnaireInput {
+  id?: string;
+  businessId: string;
+  name: string;
+  description?: string | null;
+  ratingScaleId: string;
+  questions: PerformanceQuestion[];
+  isActive?: boolean;
+}
+
+export interface ReviewCycleInput {
+  id?: string;
+  businessId: string;
+  name: string;
+  description?: string | null;
+  questionnaireId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date;
+  includeSelfReview?: boolean;
+  includeManagerReview?: boolean;
+  includePeerReview?: boolean;
+  peerReviewerCount?: number;
+  departmentIds?: string[];
+  tierIds?: string[];
+  actorUserId: string;
+}
+
+export interface SubmissionSaveInput {
+  businessId: string;
+  submissionId: string;
+  reviewerUserId: string;
+  answers?: SubmissionAnswers;
+  overallRating?: number | null;
+  comments?: string | null;
+  submit?: boolean;
+}
+
+export interface GoalInput {
+  id?: string;
+  businessId: string;
+  employeeHrProfileId: string;
+  cycleId?: string | null;
+  parentGoalId?: string | null;
+  type?: PerformanceGoalType;
+  title?: string;
+  description?: string | null;
+  status?: PerformanceGoalStatus;
+  progress?: number;
+  startValue?: number | null;
+  targetValue?: number | null;
+  currentValue?: number | null;
+  unit?: string | null;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  actorUserId: string;
+}
+
+export type CalibrationGroupBy = 'department' | 'tier';
+
+export interface CalibrationRow {
+  reviewId: string;
+  groupId: string | null;
+  status: PerformanceReviewStatus;
+  proposedRating: number | null;
+  calibratedRating: number | null;
+  finalRating: number | null;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+const roundRating = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Validate rating scale levels: at least two, unique numeric values, returned
+ * sorted ascending.
+ */
+export function parseRatingLevels(raw: unknown): RatingScaleLevel[] {
+  if (!Array.isArray(raw) || raw.length < 2) {
+    throw new Error('Rating scale must have at least two levels');
+  }
+  const levels = raw.map((entry) => {
+    const level = entry as Partial<RatingScaleLevel>;
+    if (typeof level.value !== 'number' || !Number.isFinite(level.value) || typeof level.label !== 'string' || !level.label.trim()) {
+      throw new Error('Rating scale levels must have a numeric value and a label');
+    }
+    return {
+      value: level.value,
+      label: level.label.trim(),
+      ...(level.description ? { description: String(level.description) } : {})
+    };
+  });
+  const values = new Set(levels.map((level) => level.value));
+  if (values.size !== levels.length) {
+    throw new Error('Rating scale level values must be unique');
+  }
+  return levels.sort((a, b) => a.value - b.value);
+}
+
+export function parseQuestions(raw: unknown): PerformanceQuestion[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('Questionnaire must have at least one question');
+  }
+  const questions = raw.map((entry) => {
+    const question = entry as Partial<PerformanceQuestion>;
+    if (typeof question.id !== 'string' || !question.id.trim() || typeof question.prompt !== 'string' || !question.prompt.trim()) {
+      throw new Error('Questions must have an id and a prompt');
+    }
+    if (question.type !== 'RATING' && question.type !== 'TEXT') {
+      throw new Error(`Question "${question.prompt}" must be RATING or TEXT`);
+    }
+    const reviewerTypes = Array.isArray(question.reviewerTypes)
+      ? question.reviewerTypes.filter((type): type is PerformanceReviewerType =>
+        Object.values(PerformanceReviewerType).includes(type as PerformanceReviewerType))
+      : undefined;
+    return {
+      id: question.id.trim(),
+      prompt: question.prompt.trim(),
+      type: question.type,
+      required: question.required !== false,
+      ...(reviewerTypes && reviewerTypes.length > 0 ? { reviewerTypes } : {})
+    };
+  });
+  const ids = new Set(questions.map((question) => question.id));
+  if (ids.size !== questions.length) {
+    throw new Error('Question ids must be unique');
+  }
+  return questions;
+}
+
+export const questionsForReviewer = (questions: PerformanceQuestion[], reviewerType: PerformanceReviewerType) =>
+  questions.filter((question) => !question.reviewerTypes || question.reviewerTypes.includes(reviewerType));
+
+/**
+ * Check answers against the questionnaire. Drafts may be partial; submissions
+ * must answer every required question and carry an overall rating.
+ */
+export function validateSubmissionAnswers(params: {
+  questions: PerformanceQuestion[];
+  levels: RatingScaleLevel[];
+  reviewerType: PerformanceReviewerType;
+  answers: SubmissionAnswers;
+  overallRating: number | null | undefined;
+  requireComplete: boolean;
+}): SubmissionAnswers {
+  const { levels, reviewerType, answers, overallRating, requireComplete } = params;
+  const questions = questionsForReviewer(params.questions, reviewerType);
+  const validValues = new Set(levels.map((level) => level.value));
+  const normalized: SubmissionAnswers = {};
+
+  questions.forEach((question) => {
+    const answer = answers[question.id];
+    if (question.type === 'RATING') {
+      if (answer?.rating !== undefined && answer.rating !== null) {
+        if (!validValues.has(answer.rating)) {
+          throw new Error(`Rating for "${question.prompt}" must be one of the scale values`);
+        }
+        normalized[question.id] = { rating: answer.rating };
+      } else if (requireComplete && question.required) {
+        throw new Error(`Answer for "${question.prompt}" must be provided`);
+      }
+    } else {
+      const text = answer?.text?.trim();
+      if (text) {
+        normalized[question.id] = { text };
+      } else if (requireComplete && question.required) {
+        throw new Error(`Answer for "${question.prompt}" must be provided`);
+      }
+    }
+  });
+
+  if (overallRating !== undefined && overallRating !== null && !validValues.has(overallRating)) {
+    throw new Error('Overall rating must be one of the scale values');
+  }
+  if (requireComplete && (overallRating === undefined || overallRating === null)) {
+    throw new Error('Overall rating must be provided');
+  }
+
+  return normalized;
+}
+
+/**
+ * Proposed rating for a review: the manager's overall rating when submitted,
+ * otherwise the average of all submitted overall ratings.
+ */
+export function computeProposedRating(
+  submissions: Array<{ reviewerType: PerformanceReviewerType; status: PerformanceSubmissionStatus; overallRating: number | null }>
+): number | null {
+  const submitted = submissions.filter(
+    (submission) => submission.status === PerformanceSubmissionStatus.SUBMITTED && submission.overallRating !== null
+  );
+  const manager = submitted.find((submission) => submission.reviewerType === PerformanceReviewerType.MANAGER);
+  if (manager) {
+    return manager.overallRating;
+  }
+  if (submitted.length === 0) {
+    return null;
+  }
+  const total = submitted.reduce((sum, submission) => sum + (submission.overallRating as number), 0);
+  return roundRating(total / submitted.length);
+}
+
+/**
+ * A review can be calibrated and finalized once the manager review is in
+ * (or, for cycles without manager reviews, once anything has been submitted).
+ */
+export function isReviewReady(
+  submissions: Array<{ reviewerType: PerformanceReviewerType; status: PerformanceSubmissionStatus }>,
+  includeManagerReview: boolean
+): boolean {
+  const submitted = submissions.filter((submission) => submission.status === PerformanceSubmissionStatus.SUBMITTED);
+  if (includeManagerReview) {
+    return submitted.some((submission) => submission.reviewerType === PerformanceReviewerType.MANAGER);
+  }
+  return submitted.length > 0;
+}
+
+export function computeKeyResultProgress(
+  startValue: number | null | undefined,
+  targetValue: number | null | undefined,
+  currentValue: number | null | undefined
+): number | null {
+  if (targetValue === null || targetValue === undefined || currentValue === null || currentValue === undefined) {
+    return null;
+  }
+  const start = startValue ?? 0;
+  if (targetValue === start) {
+    return currentValue === targetValue ? 100 : 0;
+  }
+  const ratio = (currentValue - start) / (targetValue - start);
+  return Math.max(0, Math.min(100, Math.round(ratio * 100)));
+}
+
+/**
+ * Objective progress is the average of its (non-cancelled) key results.
+ */
+export function rollUpObjectiveProgress(keyResults: Array<{ progress: number; status: PerformanceGoalStatus }>): number | null {
+  const counted = keyResults.filter((keyResult) => keyResult.status !== PerformanceGoalStatus.CANCELLED);
+  if (counted.length === 0) {
+    return null;
+  }
+  return Math.round(counted.reduce((sum, keyResult) => sum + keyResult.progress, 0) / counted.length);
+}
+
+export const effectiveRating = (row: Pick<CalibrationRow, 'proposedRating' | 'calibratedRating' | 'finalRating'>) =>
+  row.finalRating ?? row.calibratedRating ?? row.proposedRating;
+
+const nearestLevel = (levels: RatingScaleLevel[], rating: number) =>
+  levels.reduce((best, level) => (Math.abs(level.value - rating) < Math.abs(best.value - rating) ? level : best), levels[0]);
+
+/**
+ * Group reviews for calibration: counts, average proposed vs. effective
+ * rating and the distribution over scale levels.
+ */
+export function buildCalibrationGroups(rows: CalibrationRow[], levels: RatingScaleLevel[]) {
+  const groups = new Map<string | null, CalibrationRow[]>();
+  rows.forEach((row) => {
+    const bucket = groups.get(row.groupId) ?? [];
+    bucket.push(row);
+    groups.set(row.groupId, bucket);
+  });
+
+  const average = (values: number[]) =>
+    values.length === 0 ? null : roundRating(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+  return Array.from(groups.entries()).map(([groupId, groupRows]) => {
+    const proposed = groupRows.map((row) => row.proposedRating).filter((value): value is number => value !== null);
+    const effective = groupRows.map(effectiveRating).filter((value): value is number => value !== null);
+    const distribution = levels.map((level) => ({ value: level.value, label: level.label, count: 0 }));
+    if (levels.length > 0) {
+      effective.forEach((rating) => {
+        const level = nearestLevel(levels, rating);
+        const entry = distribution.find((item) => item.value === level.value);
+        if (entry) entry.count += 1;
+      });
+    }
+
+    return {
+      groupId,
+      reviewCount: groupRows.length,
+      completedCount: groupRows.filter((row) => row.status === PerformanceReviewStatus.COMPLETED).length,
+      calibratedCount: groupRows.filter((row) => row.calibratedRating !== null).length,
+      averageProposedRating: average(proposed),
+      averageRating: average(effective),
+      distribution
+    };
+  });
+}
+
+/**
+ * Pick peer reviewers, preferring people with the fewest assignments so far
+ * so review load is spread across the team. `load` is updated in place.
+ */
+export function selectPeerReviewers(
+  candidateUserIds: string[],
+  excludeUserIds: string[],
+  count: number,
+  load: Map<string, number>
+): string[] {
+  const excluded = new Set(excludeUserIds);
+  const picked = Array.from(new Set(candidateUserIds))
+    .filter((userId) => !excluded.has(userId))
+    .sort((a, b) => (load.get(a) ?? 0) - (load.get(b) ?? 0) || a.localeCompare(b))
+    .slice(0, Math.max(0, count));
+  picked.forEach((userId) => load.set(userId, (load.get(userId) ?? 0) + 1));
+  return picked;
+}
+
+// ============================================================================
+// RATING SCALES & QUESTIONNAIRES
+// ============================================================================
+
+async function ensurePerformanceDefaults(businessId: string) {
+  const existingScales = await prisma.performanceRatingScale.count({ where: { businessId } });
+  if (existingScales > 0) {
+    return;
+  }
+
+  const scale = await prisma.performanceRatingScale.create({
+    data: {
+      businessId,
+      name: DEFAULT_RATING_SCALE.name,
+      description: DEFAULT_RATING_SCALE.description,
+      levels: DEFAULT_RATING_SCALE.levels as unknown as Prisma.InputJsonValue,
+      isDefault: true
+    }
+  });
+
+  const existingQuestionnaires = await prisma.performanceQuestionnaire.count({ where: { businessId } });
+  if (existingQuestionnaires === 0) {
+    await prisma.performanceQuestionnaire.create({
+      data: {
+        businessId,
+        ratingScaleId: scale.id,
+        name: DEFAULT_QUESTIONNAIRE.name,
+        description: DEFAULT_QUESTIONNAIRE.description,
+        questions: DEFAULT_QUESTIONNAIRE.questions as unknown as Prisma.InputJsonValue
+      }
+    });
+  }
+}
+
+export async function listRatingScales(businessId: string) {
+  await ensurePerformanceDefaults(businessId);
+  return prisma.performanceRatingScale.findMany({
+    where: { businessId },
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+  });
+}
+
+export async function upsertRatingScale(input: RatingScaleInput) {
+  const { id, businessId, name, description, isDefault, isActive } = input;
+  const levels = parseRatingLevels(input.levels);
+
+  if (id) {
+    const existing = await prisma.performanceRatingScale.findFirst({ where: { id, businessId } });
+    if (!existing) {
+      throw new Error('Rating scale not found');
+    }
+    // Changing level values would orphan ratings already given in running cycles
+    const inUse = await prisma.performanceReviewCycle.count({
+      where: { businessId, status: PerformanceCycleStatus.ACTIVE, questionnaire: { ratingScaleId: id } }
+    });
+    const previousValues = parseRatingLevels(existing.levels).map((level) => level.value).join(',');
+    if (inUse > 0 && previousValues !== levels.map((level) => level.value).join(',')) {
+      throw new Error('Rating values cannot be changed while an active review cycle uses this scale');
+    }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (isDefault) {
+      await tx.performanceRatingScale.updateMany({
+        where: { businessId, isDefault: true, ...(id ? { id: { not: id } } : {}) },
+        data: { isDefault: false }
+      });
+    }
+
+    const data = {
+      name: name.trim(),
+      description: description ?? null,
+      levels: levels as unknown as Prisma.InputJsonValue,
+      ...(isDefault !== undefined ? { isDefault } : {}),
+      ...(isActive !== undefined ? { isActive } : {})
+    };
+
+    return id
+      ? tx.performanceRatingScale.update({ where: { id }, data })
+      : tx.performanceRatingScale.create({ data: { businessId, ...data } });
+  });
+}
+
+export async function listQuestionnaires(businessId: string) {
+  await ensurePerformanceDefaults(businessId);
+  return prisma.performanceQuestionnaire.findMany({
+    where: { businessId },
+    include: { ratingScale: true },
+    orderBy: { name: 'asc' }
+  });
+}
+
+export async function upsertQuestionnaire(input: QuestionnaireInput) {
+  const { id, businessId, name, description, ratingScaleId, isActive } = input;
+  const questions = parseQuestions(input.questions);
+
+  const scale = await prisma.performanceRatingScale.findFirst({ where: { id: ratingScaleId, businessId } });
+  if (!scale) {
+    throw new Error('Rating scale not found');
+  }
+
+  const data = {
+    name: name.trim(),
+    description: description ?? null,
+    ratingScaleId,
+    questions: questions as unknown as Prisma.InputJsonValue,
+    ...(isActive !== undefined ? { isActive } : {})
+  };
+
+  if (id) {
+    const existing = await prisma.performanceQuestionnaire.findFirst({ where: { id, businessId } });
+    if (!existing) {
+      throw new Error('Questionnaire not found');
+    }
+    const active = await prisma.performanceReviewCycle.count({
+      where: { businessId, questionnaireId: id, status: PerformanceCycleStatus.ACTIVE }
+    });
+    if (active > 0) {
+      throw new Error('Questionnaire cannot be edited while an active review cycle uses it');
+    }
+    return prisma.performanceQuestionnaire.update({ where: { id }, data, include: { ratingScale: true } });
+  }
+
+  return prisma.performanceQuestionnaire.create({
+    data: { businessId, ...data },
+    include: { ratingScale: true }
+  });
+}
+
+// ============================================================================
+// REVIEW CYCLES
+// ============================================================================
+
+const reviewEmployeeInclude = {
+  employeeHrProfile: {
+    select: {
+      id: true,
+      employeePosition: {
+        select: {
+          id: true,
+          user: { select: { id: true, name: true, email: true, image: true } },
+          position: {
+            select: {
+              id: true,
+              title: true,
+              department: { select: { id: true, name: true } },
+              tier: { select: { id: true, name: true, level: true } }
+            }
+          }
+        }
+      }
+    }
+  }
+} satisfies Prisma.PerformanceReviewInclude;
+
+export async function listReviewCycles(businessId: string) {
+  const cycles = await prisma.performanceReviewCycle.findMany({
+    where: { businessId },
+    include: { questionnaire: { select: { id: true, name: true } } },
+    orderBy: [{ createdAt: 'desc' }]
+  });
+
+  const counts = await prisma.performanceReview.groupBy({
+    by: ['cycleId', 'status'],
+    where: { businessId, cycleId: { in: cycles.map((cycle) => cycle.id) } },
+    _count: { _all: true }
+  });
+
+  return cycles.map((cycle) => {
+    const reviewCounts = Object.fromEntries(
+      Object.values(PerformanceReviewStatus).map((status) => [status, 0])
+    ) as Record<PerformanceReviewStatus, number>;
+    counts
+      .filter((row) => row.cycleId === cycle.id)
+      .forEach((row) => {
+        reviewCounts[row.status] = row._count._all;
+      });
+    return { ...cycle, reviewCounts };
+  });
+}
+
+export async function getReviewCycle(businessId: string, cycleId: string) {
+  const cycle = await prisma.performanceReviewCycle.findFirst({
+    where: { id: cycleId, businessId },
+    include: { questionnaire: { include: { ratingScale: true } } }
+  });
+  if (!cycle) {
+    throw new Error('Review cycle not found');
+  }
+  return cycle;
+}
+
+export async function upsertReviewCycle(input: ReviewCycleInput) {
+  const { id, businessId, questionnaireId, periodStart, periodEnd, dueDate, actorUserId } = input;
+
+  if (periodEnd < periodStart) {
+    throw new Error('Review period end must be on or after the start');
+  }
+
+  const questionnaire = await prisma.performanceQuestionnaire.findFirst({
+    where: { id: questionnaireId, businessId, isActive: true }
+  });
+  if (!questionnaire) {
+    throw new Error('Questionnaire not found');
+  }
+
+  const includeSelfReview = input.includeSelfReview ?? true;
+  const includeManagerReview = input.includeManagerReview ?? true;
+  const includePeerReview = input.includePeerReview ?? false;
+  if (!includeSelfReview && !includeManagerReview && !includePeerReview) {
+    throw new Error('Review cycle must include at least one review type');
+  }
+
+  const data = {
+    name: input.name.trim(),
+    description: input.description ?? null,
+    questionnaireId,
+    periodStart,
+    periodEnd,
+    dueDate,
+    includeSelfReview,
+    includeManagerReview,
+    includePeerReview,
+    peerReviewerCount: input.peerReviewerCount ?? 2,
+    departmentIds: input.departmentIds ?? [],
+    tierIds: input.tierIds ?? []
+  };
+
+  if (id) {
+    const existing = await prisma.performanceReviewCycle.findFirst({ where: { id, businessId } });
+    if (!existing) {
+      throw new Error('Review cycle not found');
+    }
+    if (existing.status === PerformanceCycleStatus.CLOSED) {
+      throw new Error('Closed review cycles cannot be edited');
+    }
+    // Once launched only the descriptive fields and due date can change
+    const updateData = existing.status === PerformanceCycleStatus.DRAFT
+      ? data
+      : { name: data.name, description: data.description, dueDate: data.dueDate };
+    return prisma.performanceReviewCycle.update({ where: { id }, data: updateData });
+  }
+
+  return prisma.performanceReviewCycle.create({
+    data: { businessId, createdById: actorUserId, ...data }
+  });
+}
+
+type ScopedEmployee = {
+  employeePositionId: string;
+  hrProfileId: string;
+  userId: string;
+  positionId: string;
+  reportsToPositionId: string | null;
+  departmentId: string | null;
+  tierId: string;
+};
+
+/**
+ * Resolve each employee's reviewing manager: a 'performance-review' entry in
+ * ManagerApprovalHierarchy (lowest level, primary first) wins; otherwise the
+ * active holder of the position the employee's position reports to.
+ */
+async function resolveReviewManagers(businessId: string, employees: ScopedEmployee[]) {
+  const managers = new Map<string, { employeePositionId: string; userId: string }>();
+  if (employees.length === 0) {
+    return managers;
+  }
+
+  const hierarchy = await prisma.managerApprovalHierarchy.findMany({
+    where: {
+      businessId,
+      active: true,
+      employeePositionId: { in: employees.map((employee) => employee.employeePositionId) },
+      approvalTypes: { hasSome: PERFORMANCE_APPROVAL_TYPES }
+    },
+    include: { managerPosition: { select: { id: true, userId: true, active: true } } },
+    orderBy: [{ approvalLevel: 'asc' }, { isPrimary: 'desc' }]
+  });
+
+  hierarchy.forEach((entry) => {
+    if (!entry.managerPosition.active || managers.has(entry.employeePositionId)) {
+      return;
+    }
+    managers.set(entry.employeePositionId, {
+      employeePositionId: entry.managerPosition.id,
+      userId: entry.managerPosition.userId
+    });
+  });
+
+  const reportsToIds = Array.from(new Set(
+    employees
+      .filter((employee) => !managers.has(employee.employeePositionId) && employee.reportsToPositionId)
+      .map((employee) => employee.reportsToPositionId as string)
+  ));
+  if (reportsToIds.length > 0) {
+    const holders = await prisma.employeePosition.findMany({
+      where: { businessId, active: true, positionId: { in: reportsToIds } },
+      select: { id: true, userId: true, positionId: true },
+      orderBy: { startDate: 'asc' }
+    });
+    employees.forEach((employee) => {
+      if (managers.has(employee.employeePositionId) || !employee.reportsToPositionId) {
+        return;
+      }
+      const holder = holders.find(
+        (candidate) => candidate.positionId === employee.reportsToPositionId && candidate.userId !== employee.userId
+      );
+      if (holder) {
+        managers.set(employee.employeePositionId, { employeePositionId: holder.id, userId: holder.userId });
+      }
+    });
+  }
+
+  // Nobody reviews themselves as manager
+  employees.forEach((employee) => {
+    if (managers.get(employee.employeePositionId)?.userId === employee.userId) {
+      managers.delete(employee.employeePositionId);
+    }
+  });
+
+  return managers;
+}
+
+export async function launchReviewCycle(businessId: string, cycleId: string, actorUserId: string) {
+  const cycle = await getReviewCycle(businessId, cycleId);
+  if (cycle.status !== PerformanceCycleStatus.DRAFT) {
+    throw new Error('Review cycle has already been launched');
+  }
+
+  const assignments = await prisma.employeePosition.findMany({
+    where: {
+      businessId,
+      active: true,
+      hrProfile: { is: { deletedAt: null, employmentStatus: 'ACTIVE' } },
+      ...(cycle.departmentIds.length > 0 || cycle.tierIds.length > 0
+        ? {
+          position: {
+            ...(cycle.departmentIds.length > 0 ? { departmentId: { in: cycle.departmentIds } } : {}),
+            ...(cycle.tierIds.length > 0 ? { tierId: { in: cycle.tierIds } } : {})
+          }
+        }
+        : {})
+    },
+    include: {
+      hrProfile: { select: { id: true } },
+      position: { select: { id: true, reportsToId: true, departmentId: true, tierId: true } }
+    },
+    orderBy: { startDate: 'asc' }
+  });
+
+  // One review per HR profile
+  const employees: ScopedEmployee[] = [];
+  const seenProfiles = new Set<string>();
+  assignments.forEach((assignment) => {
+    if (!assignment.hrProfile || seenProfiles.has(assignment.hrProfile.id)) {
+      return;
+    }
+    seenProfiles.add(assignment.hrProfile.id);
+    employees.push({
+      employeePositionId: assignment.id,
+      hrProfileId: assignment.hrProfile.id,
+      userId: assignment.userId,
+      positionId: assignment.position.id,
+      reportsToPositionId: assignment.position.reportsToId,
+      departmentId: assignment.position.departmentId,
+      tierId: assignment.position.tierId
+    });
+  });
+
+  if (employees.length === 0) {
+    throw new Error('Review cycle must have at least one employee in scope');
+  }
+
+  const managers = cycle.includeManagerReview
+    ? await resolveReviewManagers(businessId, employees)
+    : new Map<string, { employeePositionId: string; userId: string }>();
+
+  // Peers: colleagues sharing a manager, topped up from the same department
+  const peerLoad = new Map<string, number>();
+  const peerAssignments = new Map<string, string[]>();
+  if (cycle.includePeerReview && cycle.peerReviewerCount > 0) {
+    employees.forEach((employee) => {
+      const managerUserId = managers.get(employee.employeePositionId)?.userId;
+      const siblings = employees
+        .filter((other) => other.reportsToPositionId && other.reportsToPositionId === employee.reportsToPositionId)
+        .map((other) => other.userId);
+      const departmentPeers = employees
+        .filter((other) => employee.departmentId && other.departmentId === employee.departmentId)
+        .map((other) => other.userId);
+      const exclude = [employee.userId, ...(managerUserId ? [managerUserId] : [])];
+      const fromSiblings = selectPeerReviewers(siblings, exclude, cycle.peerReviewerCount, peerLoad);
+      const fromDepartment = selectPeerReviewers(
+        departmentPeers,
+        [...exclude, ...fromSiblings],
+        cycle.peerReviewerCount - fromSiblings.length,
+        peerLoad
+      );
+      peerAssignments.set(employee.employeePositionId, [...fromSiblings, ...fromDepartment]);
+    });
+  }
+
+  const now = new Date();
+  const reviewerTaskCounts = new Map<string, number>();
+  const countTask = (userId: string) => reviewerTaskCounts.set(userId, (reviewerTaskCounts.get(userId) ?? 0) + 1);
+
+  await prisma.$transaction(async (tx) => {
+    for (const employee of employees) {
+      const manager = managers.get(employee.employeePositionId);
+      const submissions: Array<{ businessId: string; reviewerUserId: string; reviewerType: PerformanceReviewerType }> = [];
+      if (cycle.includeSelfReview) {
+        submissions.push({ businessId, reviewerUserId: employee.userId, reviewerType: PerformanceReviewerType.SELF });
+      }
+      if (manager) {
+        submissions.push({ businessId, reviewerUserId: manager.userId, reviewerType: PerformanceReviewerType.MANAGER });
+      }
+      (peerAssignments.get(employee.employeePositionId) ?? []).forEach((peerUserId) => {
+        submissions.push({ businessId, reviewerUserId: peerUserId, reviewerType: PerformanceReviewerType.PEER });
+      });
+      submissions.forEach((submission) => countTask(submission.reviewerUserId));
+
+      await tx.performanceReview.create({
+        data: {
+          businessId,
+          cycleId,
+          employeeHrProfileId: employee.hrProfileId,
+          employeePositionId: employee.employeePositionId,
+          departmentId: employee.departmentId,
+          tierId: employee.tierId,
+          managerPositionId: manager?.employeePositionId ?? null,
+          submissions: { create: submissions }
+        }
+      });
+    }
+
+    await tx.performanceReviewCycle.update({
+      where: { id: cycleId },
+      data: { status: PerformanceCycleStatus.ACTIVE, launchedAt: now }
+    });
+  });
+
+  logger.info('Performance review cycle launched', {
+    operation: 'hr_performance_cycle_launch',
+    businessId,
+    cycleId,
+    actorUserId,
+    reviewCount: employees.length,
+    missingManagers: cycle.includeManagerReview
+      ? employees.filter((employee) => !managers.has(employee.employeePositionId)).length
+      : 0
+  });
+
+  await Promise.all(
+    Array.from(reviewerTaskCounts.entries()).map(([userId, count]) =>
+      notifyReviewer(businessId, userId, {
+        title: 'Performance reviews assigned',
+        body: `You have ${count} review${count === 1 ? '' : 's'} to complete for ${cycle.name} by ${cycle.dueDate.toISOString().slice(0, 10)}.`,
+        cycleId
+      })
+    )
+  );
+
+  return getReviewCycle(businessId, cycleId);
+}
+
+async function notifyReviewer(
+  businessId: string,
+  userId: string,
+  payload: { title: string; body: string; cycleId: string }
+) {
+  try {
+    await NotificationService.createNotification({
+      userId,
+      type: 'hr_performance_review',
+      title: payload.title,
+      body: payload.body,
+      data: {
+        businessId,
+        cycleId: payload.cycleId,
+        actionUrl: `/business/${businessId}/workspace/hr/performance`
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to send performance review notification', {
+      operation: 'hr_performance_notify',
+      businessId,
+      userId,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+}
+
+/**
+ * Close a cycle: ready reviews are finalized with their calibrated (or
+ * proposed) rating, the rest are marked INCOMPLETE and open submissions expire.
+ */
+export async function closeReviewCycle(businessId: string, cycleId: string, actorUserId: string) {
+  const cycle = await getReviewCycle(businessId, cycleId);
+  if (cycle.status !== PerformanceCycleStatus.ACTIVE) {
+    throw new Error('Only active review cycles can be closed');
+  }
+
+  const reviews = await prisma.performanceReview.findMany({
+    where: { businessId, cycleId, status: { in: [PerformanceReviewStatus.IN_PROGRESS, PerformanceReviewStatus.AWAITING_CALIBRATION] } },
+    include: { submissions: { select: { reviewerType: true, status: true } } }
+  });
+
+  const now = new Date();
+  await prisma.$transaction(async (tx) => {
+    for (const review of reviews) {
+      const ready = isReviewReady(review.submissions, cycle.includeManagerReview);
+      await tx.performanceReview.update({
+        where: { id: review.id },
+        data: ready
+          ? {
+            status: PerformanceReviewStatus.COMPLETED,
+            finalRating: review.calibratedRating ?? review.proposedRating,
+            completedAt: now
+          }
+          : { status: PerformanceReviewStatus.INCOMPLETE }
+      });
+    }
+
+    await tx.performanceReviewSubmission.updateMany({
+      where: {
+        businessId,
+        review: { cycleId },
+        status: { in: [PerformanceSubmissionStatus.PENDING, PerformanceSubmissionStatus.DRAFT] }
+      },
+      data: { status: PerformanceSubmissionStatus.EXPIRED }
+    });
+
+    await tx.performanceReviewCycle.update({
+      where: { id: cycleId },
+      data: { status: PerformanceCycleStatus.CLOSED, closedAt: now }
+    });
+  });
+
+  logger.info('Performance review cycle closed', {
+    operation: 'hr_performance_cycle_close',
+    businessId,
+    cycleId,
+    actorUserId,
+    reviewCount: reviews.length
+  });
+
+  return getReviewCycle(businessId, cycleId);
+}
+
+// ============================================================================
+// REVIEWS
+// ============================================================================
+
+export async function listCycleReviews(
+  businessId: string,
+  cycleId: string,
+  filters: { status?: PerformanceReviewStatus; departmentId?: string } = {}
+) {
+  return prisma.performanceReview.findMany({
+    where: {
+      businessId,
+      cycleId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.departmentId ? { departmentId: filters.departmentId } : {})
+    },
+    include: {
+      ...reviewEmployeeInclude,
+      submissions: {
+        select: { id: true, reviewerUserId: true, reviewerType: true, status: true, overallRating: true, submittedAt: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+}
+
+export async function getReview(businessId: string, reviewId: string) {
+  const review = await prisma.performanceReview.findFirst({
+    where: { id: reviewId, businessId },
+    include: {
+      ...reviewEmployeeInclude,
+      cycle: { include: { questionnaire: { include: { ratingScale: true } } } },
+      submissions: { orderBy: { reviewerType: 'asc' } }
+    }
+  });
+  if (!review) {
+    throw new Error('Performance review not found');
+  }
+
+  const reviewerIds = Array.from(new Set(review.submissions.map((submission) => submission.reviewerUserId)));
+  const reviewers = await prisma.user.findMany({
+    where: { id: { in: reviewerIds } },
+    select: { id: true, name: true, email: true }
+  });
+  const reviewerMap = new Map(reviewers.map((reviewer) => [reviewer.id, reviewer]));
+
+  return {
+    ...review,
+    submissions: review.submissions.map((submission) => ({
+      ...submission,
+      reviewer: reviewerMap.get(submission.reviewerUserId) ?? null
+    }))
+  };
+}
+
+export async function addPeerReviewers(businessId: string, reviewId: string, userIds: string[], actorUserId: string) {
+  const review = await prisma.performanceReview.findFirst({
+    where: { id: reviewId, businessId },
+    include: {
+      cycle: true,
+      employeeHrProfile: { select: { employeePosition: { select: { userId: true } } } },
+      submissions: { select: { reviewerUserId: true, reviewerType: true } }
+    }
+  });
+  if (!review) {
+    throw new Error('Performance review not found');
+  }
+  if (review.cycle.status !== PerformanceCycleStatus.ACTIVE) {
+    throw new Error('Peer reviewers can only be added while the cycle is active');
+  }
+  if (review.status === PerformanceReviewStatus.COMPLETED || review.status === PerformanceReviewStatus.INCOMPLETE) {
+    throw new Error('Review is already finalized');
+  }
+
+  const employeeUserId = review.employeeHrProfile.employeePosition.userId;
+  const existingPeers = new Set(
+    review.submissions
+      .filter((submission) => submission.reviewerType === PerformanceReviewerType.PEER)
+      .map((submission) => submission.reviewerUserId)
+  );
+  const requested = Array.from(new Set(userIds)).filter((userId) => userId !== employeeUserId && !existingPeers.has(userId));
+  if (requested.length === 0) {
+    return getReview(businessId, reviewId);
+  }
+
+  const members = await prisma.businessMember.findMany({
+    where: { businessId, userId: { in: requested }, isActive: true },
+    select: { userId: true }
+  });
+  if (members.length !== requested.length) {
+    throw new Error('Peer reviewers must be active members of the business');
+  }
+
+  await prisma.performanceReviewSubmission.createMany({
+    data: requested.map((userId) => ({
+      businessId,
+      reviewId,
+      reviewerUserId: userId,
+      reviewerType: PerformanceReviewerType.PEER
+    })),
+    skipDuplicates: true
+  });
+  // A new pending submission re-opens the review for input
+  if (review.status === PerformanceReviewStatus.AWAITING_CALIBRATION) {
+    await prisma.performanceReview.update({ where: { id: reviewId }, data: { status: PerformanceReviewStatus.IN_PROGRESS } });
+  }
+
+  logger.info('Peer reviewers added', {
+    operation: 'hr_performance_add_peers',
+    businessId,
+    reviewId,
+    actorUserId,
+    count: requested.length
+  });
+
+  await Promise.all(
+    requested.map((userId) =>
+      notifyReviewer(businessId, userId, {
+        title: 'Peer review requested',
+        body: `You have been asked to give peer feedback for ${review.cycle.name}.`,
+        cycleId: review.cycleId
+      })
+    )
+  );
+
+  return getReview(businessId, reviewId);
+}
+
+export async function calibrateReview(
+  businessId: string,
+  reviewId: string,
+  input: { calibratedRating: number; calibrationNote?: string | null },
+  actorUserId: string
+) {
+  const review = await getReview(businessId, reviewId);
+  if (review.status === PerformanceReviewStatus.COMPLETED || review.status === PerformanceReviewStatus.INCOMPLETE) {
+    throw new Error('Review is already finalized');
+  }
+  if (!isReviewReady(review.submissions, review.cycle.includeManagerReview)) {
+    throw new Error('Review cannot be calibrated before the manager review is submitted');
+  }
+
+  const levels = parseRatingLevels(review.cycle.questionnaire.ratingScale.levels);
+  const min = levels[0].value;
+  const max = levels[levels.length - 1].value;
+  if (input.calibratedRating < min || input.calibratedRating > max) {
+    throw new Error(`Calibrated rating must be between ${min} and ${max}`);
+  }
+
+  await prisma.performanceReview.update({
+    where: { id: reviewId },
+    data: {
+      calibratedRating: input.calibratedRating,
+      calibrationNote: input.calibrationNote ?? null,
+      calibratedById: actorUserId,
+      calibratedAt: new Date()
+    }
+  });
+
+  return getReview(businessId, reviewId);
+}
+
+export async function finalizeReview(
+  businessId: string,
+  reviewId: string,
+  input: { summary?: string | null },
+  actorUserId: string
+) {
+  const review = await getReview(businessId, reviewId);
+  if (review.status === PerformanceReviewStatus.COMPLETED || review.status === PerformanceReviewStatus.INCOMPLETE) {
+    throw new Error('Review is already finalized');
+  }
+  if (!isReviewReady(review.submissions, review.cycle.includeManagerReview)) {
+    throw new Error('Review cannot be finalized before the manager review is submitted');
+  }
+
+  await prisma.performanceReview.update({
+    where: { id: reviewId },
+    data: {
+      status: PerformanceReviewStatus.COMPLETED,
+      finalRating: review.calibratedRating ?? review.proposedRating,
+      summary: input.summary ?? review.summary,
+      completedAt: new Date()
+    }
+  });
+
+  logger.info('Performance review finalized', {
+    operation: 'hr_performance_review_finalize',
+    businessId,
+    reviewId,
+    actorUserId
+  });
+
+  const employeeUserId = review.employeeHrProfile.employeePosition.user.id;
+  try {
+    await NotificationService.createNotification({
+      userId: employeeUserId,
+      type: 'hr_performance_review',
+      title: 'Performance review completed',
+      body: `Your ${review.cycle.name} review is complete and available on your HR record.`,
+      data: {
+        businessId,
+        reviewId,
+        actionUrl: `/business/${businessId}/workspace/hr/performance`
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to send performance review notification', {
+      operation: 'hr_performance_notify',
+      businessId,
+      userId: employeeUserId,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+
+  return getReview(businessId, reviewId);
+}
+
+// ============================================================================
+// REVIEWER SUBMISSIONS
+// ============================================================================
+
+export async function listReviewerTasks(businessId: string, reviewerUserId: string) {
+  return prisma.performanceReviewSubmission.findMany({
+    where: {
+      businessId,
+      reviewerUserId,
+      status: { in: [PerformanceSubmissionStatus.PENDING, PerformanceSubmissionStatus.DRAFT] },
+      review: { cycle: { status: PerformanceCycleStatus.ACTIVE } }
+    },
+    include: {
+      review: {
+        include: {
+          ...reviewEmployeeInclude,
+          cycle: { select: { id: true, name: true, dueDate: true, periodStart: true, periodEnd: true } }
+        }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+}
+
+export async function getReviewerSubmission(businessId: string, reviewerUserId: string, submissionId: string) {
+  const submission = await prisma.performanceReviewSubmission.findFirst({
+    where: { id: submissionId, businessId, reviewerUserId },
+    include: {
+      review: {
+        include: {
+          ...reviewEmployeeInclude,
+          cycle: { include: { questionnaire: { include: { ratingScale: true } } } }
+        }
+      }
+    }
+  });
+  if (!submission) {
+    throw new Error('Review submission not found');
+  }
+
+  const { questionnaire } = submission.review.cycle;
+  return {
+    ...submission,
+    questions: questionsForReviewer(parseQuestions(questionnaire.questions), submission.reviewerType),
+    ratingLevels: parseRatingLevels(questionnaire.ratingScale.levels)
+  };
+}
+
+export async function saveReviewerSubmission(input: SubmissionSaveInput) {
+  const { businessId, submissionId, reviewerUserId, submit = false } = input;
+  const submission = await getReviewerSubmission(businessId, reviewerUserId, submissionId);
+
+  if (submission.review.cycle.status !== PerformanceCycleStatus.ACTIVE) {
+    throw new Error('Review cycle is no longer accepting submissions');
+  }
+  if (submission.status === PerformanceSubmissionStatus.SUBMITTED || submission.status === PerformanceSubmissionStatus.EXPIRED) {
+    throw new Error('Review submission is already closed');
+  }
+
+  const previousAnswers = (submission.answers as SubmissionAnswers | null) ?? {};
+  const answers = validateSubmissionAnswers({
+    questions: submission.questions,
+    levels: submission.ratingLevels,
+    reviewerType: submission.reviewerType,
+    answers: { ...previousAnswers, ...(input.answers ?? {}) },
+    overallRating: input.overallRating !== undefined ? input.overallRating : submission.overallRating,
+    requireComplete: submit
+  });
+
+  await prisma.performanceReviewSubmission.update({
+    where: { id: submissionId },
+    data: {
+      answers: answers as Prisma.InputJsonValue,
+      ...(input.overallRating !== undefined ? { overallRating: input.overallRating } : {}),
+      ...(input.comments !== undefined ? { comments: input.comments } : {}),
+      status: submit ? PerformanceSubmissionStatus.SUBMITTED : PerformanceSubmissionStatus.DRAFT,
+      submittedAt: submit ? new Date() : null
+    }
+  });
+
+  if (submit) {
+    await refreshReviewProgress(submission.reviewId);
+  }
+
+  return getReviewerSubmission(businessId, reviewerUserId, submissionId);
+}
+
+async function refreshReviewProgress(reviewId: string) {
+  const submissions = await prisma.performanceReviewSubmission.findMany({
+    where: { reviewId },
+    select: { reviewerType: true, status: true, overallRating: true }
+  });
+  const allSubmitted = submissions.every((submission) => submission.status === PerformanceSubmissionStatus.SUBMITTED);
+  await prisma.performanceReview.update({
+    where: { id: reviewId },
+    data: {
+      proposedRating: computeProposedRating(submissions),
+      status: allSubmitted ? PerformanceReviewStatus.AWAITING_CALIBRATION : PerformanceReviewStatus.IN_PROGRESS
+    }
+  });
+}
+
+// ============================================================================
+// EMPLOYEE RECORD & TEAM VIEWS
+// ============================================================================
+
+/**
+ * Completed reviews stored on an employee's HR record. Peer feedback is
+ * returned without reviewer identities.
+ */
+export async function listCompletedReviewsForEmployee(businessId: string, employeeHrProfileId: string) {
+  const reviews = await prisma.performanceReview.findMany({
+    where: { businessId, employeeHrProfileId, status: PerformanceReviewStatus.COMPLETED },
+    include: {
+      cycle: {
+        select: {
+          id: true,
+          name: true,
+          periodStart: true,
+          periodEnd: true,
+          questionnaire: { select: { questions: true, ratingScale: { select: { levels: true } } } }
+        }
+      },
+      submissions: {
+        where: { status: PerformanceSubmissionStatus.SUBMITTED },
+        orderBy: { reviewerType: 'asc' }
+      }
+    },
+    orderBy: { completedAt: 'desc' }
+  });
+
+  return reviews.map((review) => ({
+    id: review.id,
+    cycle: {
+      id: review.cycle.id,
+      name: review.cycle.name,
+      periodStart: review.cycle.periodStart,
+      periodEnd: review.cycle.periodEnd
+    },
+    questions: parseQuestions(review.cycle.questionnaire.questions),
+    ratingLevels: parseRatingLevels(review.cycle.questionnaire.ratingScale.levels),
+    finalRating: review.finalRating,
+    summary: review.summary,
+    completedAt: review.completedAt,
+    submissions: review.submissions.map((submission) => ({
+      id: submission.id,
+      reviewerType: submission.reviewerType,
+      reviewerUserId: submission.reviewerType === PerformanceReviewerType.PEER ? null : submission.reviewerUserId,
+      answers: submission.answers,
+      overallRating: submission.overallRating,
+      comments: submission.comments,
+      submittedAt: submission.submittedAt
+    }))
+  }));
+}
+
+export async function getEmployeePerformanceRecord(businessId: string, employeePositionId: string) {
+  const profile = await prisma.employeeHRProfile.findFirst({
+    where: { businessId, employeePositionId },
+    select: { id: true }
+  });
+  if (!profile) {
+    throw new Error('Employee HR profile not found');
+  }
+
+  const [reviews, goals] = await Promise.all([
+    listCompletedReviewsForEmployee(businessId, profile.id),
+    listGoals(businessId, { employeeHrProfileId: profile.id })
+  ]);
+  return { employeeHrProfileId: profile.id, reviews, goals };
+}
+
+/**
+ * Review status for a manager's direct reports in active (or the given) cycles.
+ * Answers are not included; managers see their own answers via their tasks.
+ */
+export async function listTeamReviewStatus(
+  businessId: string,
+  employeePositionIds: string[],
+  cycleId?: string
+) {
+  if (employeePositionIds.length === 0) {
+    return [];
+  }
+  return prisma.performanceReview.findMany({
+    where: {
+      businessId,
+      employeeHrProfile: { employeePositionId: { in: employeePositionIds } },
+      ...(cycleId ? { cycleId } : { cycle: { status: PerformanceCycleStatus.ACTIVE } })
+    },
+    select: {
+      id: true,
+      status: true,
+      proposedRating: true,
+      finalRating: true,
+      completedAt: true,
+      cycle: { select: { id: true, name: true, dueDate: true, status: true } },
+      employeeHrProfile: reviewEmployeeInclude.employeeHrProfile,
+      submissions: { select: { id: true, reviewerType: true, status: true, submittedAt: true, reviewerUserId: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+}
+
+// ============================================================================
+// GOALS & OKRs
+// ============================================================================
+
+const goalInclude = {
+  keyResults: { orderBy: { createdAt: 'asc' } },
+  cycle: { select: { id: true, name: true } }
+} satisfies Prisma.PerformanceGoalInclude;
+
+export async function listGoals(
+  businessId: string,
+  filters: { employeeHrProfileId?: string; employeeHrProfileIds?: string[]; cycleId?: string; status?: PerformanceGoalStatus } = {}
+) {
+  return prisma.performanceGoal.findMany({
+    where: {
+      businessId,
+      parentGoalId: null,
+      ...(filters.employeeHrProfileId ? { employeeHrProfileId: filters.employeeHrProfileId } : {}),
+      ...(filters.employeeHrProfileIds ? { employeeHrProfileId: { in: filters.employeeHrProfileIds } } : {}),
+      ...(filters.cycleId ? { cycleId: filters.cycleId } : {}),
+      ...(filters.status ? { status: filters.status } : {})
+    },
+    include: {
+      ...goalInclude,
+      employeeHrProfile: reviewEmployeeInclude.employeeHrProfile
+    },
+    orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }]
+  });
+}
+
+async function rollUpParentGoal(parentGoalId: string) {
+  const keyResults = await prisma.performanceGoal.findMany({
+    where: { parentGoalId },
+    select: { progress: true, status: true }
+  });
+  const progress = rollUpObjectiveProgress(keyResults);
+  if (progress !== null) {
+    await prisma.performanceGoal.update({ where: { id: parentGoalId }, data: { progress } });
+  }
+}
+
+export async function upsertGoal(input: GoalInput) {
+  const { id, businessId, employeeHrProfileId, actorUserId } = input;
+
+  const existing = id
+    ? await prisma.performanceGoal.findFirst({ where: { id, businessId, employeeHrProfileId } })
+    : null;
+  if (id && !existing) {
+    throw new Error('Goal not found');
+  }
+
+  const type = input.type ?? existing?.type ?? PerformanceGoalType.GOAL;
+  const parentGoalId = input.parentGoalId !== undefined ? input.parentGoalId : existing?.parentGoalId ?? null;
+  if (type === PerformanceGoalType.KEY_RESULT) {
+    if (!parentGoalId) {
+      throw new Error('Key results must have a parent objective');
+    }
+    const parent = await prisma.performanceGoal.findFirst({ where: { id: parentGoalId, businessId, employeeHrProfileId } });
+    if (!parent) {
+      throw new Error('Parent objective not found');
+    }
+    if (parent.type !== PerformanceGoalType.OBJECTIVE) {
+      throw new Error('Key results must belong to an objective');
+    }
+  } else if (parentGoalId) {
+    throw new Error('Only key results can have a parent objective');
+  }
+
+  if (input.cycleId) {
+    const cycle = await prisma.performanceReviewCycle.findFirst({ where: { id: input.cycleId, businessId } });
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+  }
+
+  const startValue = input.startValue !== undefined ? input.startValue : existing?.startValue ?? null;
+  const targetValue = input.targetValue !== undefined ? input.targetValue : existing?.targetValue ?? null;
+  const currentValue = input.currentValue !== undefined ? input.currentValue : existing?.currentValue ?? null;
+  const status = input.status ?? existing?.status ?? PerformanceGoalStatus.NOT_STARTED;
+
+  // Measured key results derive progress from their values
+  let progress = input.progress ?? existing?.progress ?? 0;
+  const measured = computeKeyResultProgress(startValue, targetValue, currentValue);
+  if (measured !== null) {
+    progress = measured;
+  }
+  if (status === PerformanceGoalStatus.COMPLETED) {
+    progress = 100;
+  }
+  progress = Math.max(0, Math.min(100, Math.round(progress)));
+
+  const completedAt = status === PerformanceGoalStatus.COMPLETED
+    ? existing?.completedAt ?? new Date()
+    : null;
+
+  const data = {
+    type,
+    parentGoalId,
+    cycleId: input.cycleId !== undefined ? input.cycleId : existing?.cycleId ?? null,
+    title: (input.title ?? existing?.title ?? '').trim(),
+    description: input.description !== undefined ? input.description : existing?.description ?? null,
+    status,
+    progress,
+    startValue,
+    targetValue,
+    currentValue,
+    unit: input.unit !== undefined ? input.unit : existing?.unit ?? null,
+    startDate: input.startDate !== undefined ? input.startDate : existing?.startDate ?? null,
+    dueDate: input.dueDate !== undefined ? input.dueDate : existing?.dueDate ?? null,
+    completedAt
+  };
+  if (!data.title) {
+    throw new Error('Goal title must be provided');
+  }
+
+  const goal = existing
+    ? await prisma.performanceGoal.update({ where: { id: existing.id }, data })
+    : await prisma.performanceGoal.create({
+      data: { businessId, employeeHrProfileId, createdById: actorUserId, ...data }
+    });
+
+  if (goal.parentGoalId) {
+    await rollUpParentGoal(goal.parentGoalId);
+  }
+  if (existing?.parentGoalId && existing.parentGoalId !== goal.parentGoalId) {
+    await rollUpParentGoal(existing.parentGoalId);
+  }
+
+  return prisma.performanceGoal.findUniqueOrThrow({ where: { id: goal.id }, include: goalInclude });
+}
+
+export async function deleteGoal(businessId: string, employeeHrProfileId: string, goalId: string) {
+  const goal = await prisma.performanceGoal.findFirst({ where: { id: goalId, businessId, employeeHrProfileId } });
+  if (!goal) {
+    throw new Error('Goal not found');
+  }
+  await prisma.performanceGoal.delete({ where: { id: goalId } });
+  if (goal.parentGoalId) {
+    await rollUpParentGoal(goal.parentGoalId);
+  }
+}
+
+// ============================================================================
+// CALIBRATION & DASHBOARD
+// ============================================================================
+
+export async function getCalibrationReport(businessId: string, cycleId: string, groupBy: CalibrationGroupBy) {
+  const cycle = await getReviewCycle(businessId, cycleId);
+  const levels = parseRatingLevels(cycle.questionnaire.ratingScale.levels);
+
+  const reviews = await prisma.performanceReview.findMany({
+    where: { businessId, cycleId },
+    include: reviewEmployeeInclude,
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const rows: Array<CalibrationRow & { employee: { name: string | null; email: string }; positionTitle: string }> =
+    reviews.map((review) => ({
+      reviewId: review.id,
+      groupId: groupBy === 'department' ? review.departmentId : review.tierId,
+      status: review.status,
+      proposedRating: review.proposedRating,
+      calibratedRating: review.calibratedRating,
+      finalRating: review.finalRating,
+      employee: {
+        name: review.employeeHrProfile.employeePosition.user.name,
+        email: review.employeeHrProfile.employeePosition.user.email
+      },
+      positionTitle: review.employeeHrProfile.employeePosition.position.title
+    }));
+
+  const groupIds = Array.from(new Set(rows.map((row) => row.groupId).filter((value): value is string => Boolean(value))));
+  const names = new Map<string, { name: string; level?: number }>();
+  if (groupBy === 'department') {
+    const departments = await prisma.department.findMany({ where: { businessId, id: { in: groupIds } }, select: { id: true, name: true } });
+    departments.forEach((department) => names.set(department.id, { name: department.name }));
+  } else {
+    const tiers = await prisma.organizationalTier.findMany({
+      where: { businessId, id: { in: groupIds } },
+      select: { id: true, name: true, level: true }
+    });
+    tiers.forEach((tier) => names.set(tier.id, { name: tier.name, level: tier.level }));
+  }
+
+  const groups = buildCalibrationGroups(rows, levels)
+    .map((group) => ({
+      ...group,
+      name: group.groupId ? names.get(group.groupId)?.name ?? 'Unknown' : groupBy === 'department' ? 'No department' : 'No tier',
+      level: group.groupId ? names.get(group.groupId)?.level ?? null : null,
+      reviews: rows.filter((row) => row.groupId === group.groupId)
+    }))
+    .sort((a, b) => (a.level ?? Number.MAX_SAFE_INTEGER) - (b.level ?? Number.MAX_SAFE_INTEGER) || a.name.localeCompare(b.name));
+
+  return {
+    cycle: { id: cycle.id, name: cycle.name, status: cycle.status },
+    groupBy,
+    ratingLevels: levels,
+    overall: buildCalibrationGroups(rows.map((row) => ({ ...row, groupId: null })), levels)[0] ?? null,
+    groups
+  };
+}
+
+export async function getPerformanceDashboard(businessId: string) {
+  const [cycles, goalCounts, pendingSubmissions] = await Promise.all([
+    listReviewCycles(businessId),
+    prisma.performanceGoal.groupBy({
+      by: ['status'],
+      where: { businessId, parentGoalId: null },
+      _count: { _all: true }
+    }),
+    prisma.performanceReviewSubmission.count({
+      where: {
+        businessId,
+        status: { in: [PerformanceSubmissionStatus.PENDING, PerformanceSubmissionStatus.DRAFT] },
+        review: { cycle: { status: PerformanceCycleStatus.ACTIVE } }
+      }
+    })
+  ]);
+
+  return {
+    activeCycles: cycles.filter((cycle) => cycle.status === PerformanceCycleStatus.ACTIVE),
+    draftCycles: cycles.filter((cycle) => cycle.status === PerformanceCycleStatus.DRAFT).length,
+    closedCycles: cycles.filter((cycle) => cycle.status === PerformanceCycleStatus.CLOSED).length,
+    pendingSubmissions,
+    goalsByStatus: Object.fromEntries(goalCounts.map((row) => [row.status, row._count._all]))
+  };
+}
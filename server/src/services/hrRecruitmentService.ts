@@ -0,0 +1,1074 @@
+import path from 'path';
+import {
+  BusinessRole,
+  EmployeeType,
+  InterviewStatus,
+  JobApplicationStatus,
+  JobRequisitionStatus,
+  Prisma,
+  RecruitmentStageType
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { escapeIcsText } from '../utils/ics';
+import { NotificationService } from './notificationService';
+import { ensureBusinessDashboardForUser } from './dashboardService';
+import { ensureRecruitmentFolder } from './driveService';
+import { sendCalendarInviteEmail } from './emailService';
+import { storageService } from './storageService';
+import { assertStorageAvailable } from './storageQuotaService';
+import employeeManagementService from './employeeManagementService';
+
+type JsonInput = Prisma.InputJsonValue | null | undefined;
+
+const RECRUITING_CALENDAR_NAME = 'Recruiting';
+
+export const DEFAULT_RECRUITMENT_STAGES: Array<{ name: string; type: RecruitmentStageType }> = [
+  { name: 'Applied', type: RecruitmentStageType.APPLIED },
+  { name: 'Screening', type: RecruitmentStageType.SCREENING },
+  { name: 'Interview', type: RecruitmentStageType.INTERVIEW },
+  { name: 'Offer', type: RecruitmentStageType.OFFER },
+  { name: 'Hired', type: RecruitmentStageType.HIRED },
+  { name: 'Rejected', type: RecruitmentStageType.REJECTED }
+];
+
+export interface RecruitmentStageInput {
+  id?: string;
+  businessId: string;
+  name: string;
+  type: RecruitmentStageType;
+  order?: number;
+  isActive?: boolean;
+}
+
+export interface JobRequisitionInput {
+  id?: string;
+  businessId: string;
+  positionId: string;
+  title?: string;
+  description?: string | null;
+  location?: string | null;
+  employmentType?: EmployeeType;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string;
+  openings?: number;
+  status?: JobRequisitionStatus;
+  isPublic?: boolean;
+  hiringManagerId?: string | null;
+  metadata?: JsonInput;
+  actorUserId: string;
+}
+
+export interface JobApplicationInput {
+  businessId: string;
+  requisitionId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | null;
+  linkedinUrl?: string | null;
+  coverLetter?: string | null;
+  source?: string;
+  resume?: Express.Multer.File;
+  // Public submissions may only target OPEN, public requisitions
+  requirePublicPosting?: boolean;
+}
+
+export interface ScheduleInterviewInput {
+  businessId: string;
+  applicationId: string;
+  title?: string;
+  startAt: Date;
+  endAt: Date;
+  timezone?: string;
+  location?: string | null;
+  meetingLink?: string | null;
+  interviewerIds: string[];
+  createdById: string;
+}
+
+export interface InterviewUpdateInput {
+  businessId: string;
+  interviewId: string;
+  status?: InterviewStatus;
+  rating?: number | null;
+  feedback?: string | null;
+}
+
+export interface PreparedHire {
+  applicationId: string;
+  candidateUserId: string;
+  employeePositionId: string;
+  employeeType: EmployeeType;
+}
+
+const jsonOrNull = (value: JsonInput) => {
+  if (value === undefined) return undefined;
+  if (value === null) return Prisma.JsonNull;
+  return value;
+};
+
+export const normalizeCandidateEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Publication timestamps for a requisition status change. OPEN stamps
+ * publishedAt the first time; CLOSED/FILLED stamp closedAt; reopening clears it.
+ */
+export function resolveRequisitionTimestamps(
+  previous: { status: JobRequisitionStatus; publishedAt: Date | null; closedAt: Date | null } | null,
+  nextStatus: JobRequisitionStatus,
+  now: Date = new Date()
+): { publishedAt: Date | null; closedAt: Date | null } {
+  let publishedAt = previous?.publishedAt ?? null;
+  let closedAt = previous?.closedAt ?? null;
+
+  if (nextStatus === JobRequisitionStatus.OPEN) {
+    publishedAt = publishedAt ?? now;
+    closedAt = null;
+  } else if (nextStatus === JobRequisitionStatus.CLOSED || nextStatus === JobRequisitionStatus.FILLED) {
+    if (previous?.status !== nextStatus || !closedAt) {
+      closedAt = now;
+    }
+  }
+
+  return { publishedAt, closedAt };
+}
+
+const formatIcsDate = (value: Date) => value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Build the iCalendar REQUEST sent to interview attendees.
+ */
+export function buildInterviewIcs(params: {
+  uid: string;
+  title: string;
+  startAt: Date;
+  endAt: Date;
+  description?: string | null;
+  location?: string | null;
+  organizer?: { name?: string | null; email: string } | null;
+  attendeeEmails: string[];
+  method?: 'REQUEST' | 'CANCEL';
+}): string {
+  const method = params.method ?? 'REQUEST';
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `METHOD:${method}`,
+    'PRODID:-//Vssyl//Calendar//EN',
+    'BEGIN:VEVENT',
+    `UID:${params.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(params.startAt)}`,
+    `DTEND:${formatIcsDate(params.endAt)}`,
+    `SUMMARY:${escapeIcsText(params.title)}`
+  ];
+  if (params.description) lines.push(`DESCRIPTION:${escapeIcsText(params.description)}`);
+  if (params.location) lines.push(`LOCATION:${escapeIcsText(params.location)}`);
+  if (params.organizer?.email) {
+    const cn = params.organizer.name ? `;CN=${escapeIcsText(params.organizer.name)}` : '';
+    lines.push(`ORGANIZER${cn}:MAILTO:${params.organizer.email}`);
+  }
+  for (const email of params.attendeeEmails) {
+    lines.push(`ATTENDEE;ROLE=REQ-PARTICIPANT:MAILTO:${email}`);
+  }
+  if (method === 'CANCEL') lines.push('STATUS:CANCELLED');
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return lines.join('\r\n');
+}
+
+// ============================================================================
+// PIPELINE STAGES
+// ============================================================================
+
+export async function listRecruitmentStages(businessId: string, includeInactive = false) {
+  const existing = await prisma.recruitmentStage.count({ where: { businessId } });
+  if (existing === 0) {
+    await prisma.recruitmentStage.createMany({
+      data: DEFAULT_RECRUITMENT_STAGES.map((stage, index) => ({
+        businessId,
+        name: stage.name,
+        type: stage.type,
+        order: index
+      })),
+      skipDuplicates: true
+    });
+  }
+
+  return prisma.recruitmentStage.findMany({
+    where: { businessId, ...(includeInactive ? {} : { isActive: true }) },
+    orderBy: [{ order: 'asc' }, { createdAt: 'asc' }]
+  });
+}
+
+export async function upsertRecruitmentStage(input: RecruitmentStageInput) {
+  const { id, businessId, name, type, order, isActive } = input;
+
+  if (id) {
+    const stage = await prisma.recruitmentStage.findFirst({ where: { id, businessId } });
+    if (!stage) {
+      throw new Error('Recruitment stage not found');
+    }
+    if (isActive === false || type !== stage.type) {
+      await assertStageCanBeRetired(businessId, stage.id, stage.type);
+    }
+    return prisma.recruitmentStage.update({
+      where: { id },
+      data: {
+        name,
+        type,
+        ...(order !== undefined ? { order } : {}),
+        ...(isActive !== undefined ? { isActive } : {})
+      }
+    });
+  }
+
+  const last = await prisma.recruitmentStage.findFirst({
+    where: { businessId },
+    orderBy: { order: 'desc' },
+    select: { order: true }
+  });
+
+  return prisma.recruitmentStage.create({
+    data: {
+      businessId,
+      name,
+      type,
+      order: order ?? (last ? last.order + 1 : 0),
+      isActive: isActive ?? true
+    }
+  });
+}
+
+export async function archiveRecruitmentStage(businessId: string, stageId: string) {
+  const stage = await prisma.recruitmentStage.findFirst({ where: { id: stageId, businessId } });
+  if (!stage) {
+    throw new Error('Recruitment stage not found');
+  }
+  await assertStageCanBeRetired(businessId, stage.id, stage.type);
+
+  const activeApplications = await prisma.jobApplication.count({
+    where: { stageId, status: JobApplicationStatus.ACTIVE }
+  });
+  if (activeApplications > 0) {
+    throw new Error('Stage cannot be archived while it still has active applications');
+  }
+
+  return prisma.recruitmentStage.update({ where: { id: stageId }, data: { isActive: false } });
+}
+
+// The pipeline always needs an entry stage and the two terminal stages
+async function assertStageCanBeRetired(businessId: string, stageId: string, type: RecruitmentStageType) {
+  const required: RecruitmentStageType[] = [
+    RecruitmentStageType.APPLIED,
+    RecruitmentStageType.HIRED,
+    RecruitmentStageType.REJECTED
+  ];
+  if (!required.includes(type)) {
+    return;
+  }
+  const others = await prisma.recruitmentStage.count({
+    where: { businessId, type, isActive: true, id: { not: stageId } }
+  });
+  if (others === 0) {
+    throw new Error(`The last ${type.toLowerCase()} stage cannot be archived`);
+  }
+}
+
+async function findStageByType(businessId: string, type: RecruitmentStageType) {
+  const stages = await listRecruitmentStages(businessId);
+  return stages.find((stage) => stage.type === type) ?? null;
+}
+
+// ============================================================================
+// REQUISITIONS
+// ============================================================================
+
+const requisitionInclude = {
+  position: {
+    select: {
+      id: true,
+      title: true,
+      department: { select: { id: true, name: true } }
+    }
+  },
+  _count: { select: { applications: true } }
+} satisfies Prisma.JobRequisitionInclude;
+
+export async function listJobRequisitions(businessId: string, filters: { status?: JobRequisitionStatus } = {}) {
+  return prisma.jobRequisition.findMany({
+    where: { businessId, ...(filters.status ? { status: filters.status } : {}) },
+    include: requisitionInclude,
+    orderBy: [{ status: 'asc' }, { createdAt: 'desc' }]
+  });
+}
+
+export async function getJobRequisition(businessId: string, requisitionId: string) {
+  return prisma.jobRequisition.findFirst({
+    where: { id: requisitionId, businessId },
+    include: requisitionInclude
+  });
+}
+
+export async function upsertJobRequisition(input: JobRequisitionInput) {
+  const { id, businessId, positionId, actorUserId } = input;
+
+  const position = await prisma.position.findFirst({
+    where: { id: positionId, businessId },
+    select: { id: true, title: true }
+  });
+  if (!position) {
+    throw new Error('Position not found');
+  }
+
+  if (input.salaryMin != null && input.salaryMax != null && input.salaryMin > input.salaryMax) {
+    throw new Error('Salary minimum cannot be greater than the maximum');
+  }
+
+  if (input.hiringManagerId) {
+    const member = await prisma.businessMember.findFirst({
+      where: { businessId, userId: input.hiringManagerId, isActive: true },
+      select: { id: true }
+    });
+    if (!member) {
+      throw new Error('Hiring manager must be an active business member');
+    }
+  }
+
+  const previous = id
+    ? await prisma.jobRequisition.findFirst({ where: { id, businessId } })
+    : null;
+  if (id && !previous) {
+    throw new Error('Job requisition not found');
+  }
+
+  const status = input.status ?? previous?.status ?? JobRequisitionStatus.DRAFT;
+  const timestamps = resolveRequisitionTimestamps(previous, status);
+
+  const data = {
+    positionId,
+    title: input.title?.trim() || previous?.title || position.title,
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    ...(input.location !== undefined ? { location: input.location } : {}),
+    ...(input.employmentType !== undefined ? { employmentType: input.employmentType } : {}),
+    ...(input.salaryMin !== undefined ? { salaryMin: input.salaryMin } : {}),
+    ...(input.salaryMax !== undefined ? { salaryMax: input.salaryMax } : {}),
+    ...(input.salaryCurrency !== undefined ? { salaryCurrency: input.salaryCurrency } : {}),
+    ...(input.openings !== undefined ? { openings: input.openings } : {}),
+    ...(input.isPublic !== undefined ? { isPublic: input.isPublic } : {}),
+    ...(input.hiringManagerId !== undefined ? { hiringManagerId: input.hiringManagerId } : {}),
+    ...(input.metadata !== undefined ? { metadata: jsonOrNull(input.metadata) } : {}),
+    status,
+    publishedAt: timestamps.publishedAt,
+    closedAt: timestamps.closedAt
+  };
+
+  const requisition = previous
+    ? await prisma.jobRequisition.update({ where: { id: previous.id }, data, include: requisitionInclude })
+    : await prisma.jobRequisition.create({
+        data: { ...data, businessId, createdById: actorUserId },
+        include: requisitionInclude
+      });
+
+  logger.info('Job requisition saved', {
+    operation: previous ? 'hr_recruitment_update_requisition' : 'hr_recruitment_create_requisition',
+    businessId,
+    requisitionId: requisition.id,
+    status
+  });
+
+  return requisition;
+}
+
+// ============================================================================
+// PUBLIC JOB POSTINGS
+// ============================================================================
+
+const publicPostingSelect = {
+  id: true,
+  title: true,
+  description: true,
+  location: true,
+  employmentType: true,
+  salaryMin: true,
+  salaryMax: true,
+  salaryCurrency: true,
+  publishedAt: true,
+  position: {
+    select: {
+      title: true,
+      department: { select: { name: true } }
+    }
+  }
+} satisfies Prisma.JobRequisitionSelect;
+
+const publicPostingWhere = (businessId: string): Prisma.JobRequisitionWhereInput => ({
+  businessId,
+  status: JobRequisitionStatus.OPEN,
+  isPublic: true
+});
+
+export async function listPublicJobPostings(businessId: string) {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { id: true, name: true, logo: true }
+  });
+  if (!business) {
+    return null;
+  }
+
+  const postings = await prisma.jobRequisition.findMany({
+    where: publicPostingWhere(businessId),
+    select: publicPostingSelect,
+    orderBy: { publishedAt: 'desc' }
+  });
+
+  return { business, postings };
+}
+
+export async function getPublicJobPosting(businessId: string, requisitionId: string) {
+  return prisma.jobRequisition.findFirst({
+    where: { ...publicPostingWhere(businessId), id: requisitionId },
+    select: {
+      ...publicPostingSelect,
+      business: { select: { id: true, name: true, logo: true } }
+    }
+  });
+}
+
+// ============================================================================
+// APPLICATIONS
+// ============================================================================
+
+const applicationInclude = {
+  candidate: true,
+  stage: true,
+  requisition: { select: { id: true, title: true, positionId: true, status: true } },
+  resumeFile: { select: { id: true, name: true, type: true, size: true, url: true } },
+  interviews: { orderBy: { startAt: 'asc' } }
+} satisfies Prisma.JobApplicationInclude;
+
+export async function listJobApplications(
+  businessId: string,
+  filters: { requisitionId?: string; stageId?: string; status?: JobApplicationStatus } = {}
+) {
+  return prisma.jobApplication.findMany({
+    where: {
+      businessId,
+      ...(filters.requisitionId ? { requisitionId: filters.requisitionId } : {}),
+      ...(filters.stageId ? { stageId: filters.stageId } : {}),
+      ...(filters.status ? { status: filters.status } : {})
+    },
+    include: applicationInclude,
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+export async function getJobApplication(businessId: string, applicationId: string) {
+  return prisma.jobApplication.findFirst({
+    where: { id: applicationId, businessId },
+    include: applicationInclude
+  });
+}
+
+/**
+ * Upload a resume into the Drive "Recruitment" folder of the requisition
+ * owner (hiring manager, falling back to the requisition creator).
+ */
+async function storeResume(
+  businessId: string,
+  ownerUserId: string,
+  candidateEmail: string,
+  resume: Express.Multer.File
+) {
+  const dashboard = await ensureBusinessDashboardForUser(ownerUserId, businessId);
+  if (!dashboard) {
+    throw new Error('Failed to prepare recruitment workspace');
+  }
+  await assertStorageAvailable({ userId: ownerUserId, businessId }, resume.size);
+  const folder = await ensureRecruitmentFolder(ownerUserId, dashboard.id);
+
+  const extension = path.extname(resume.originalname);
+  const destination = `files/recruitment/${businessId}-${Date.now()}-${Math.round(Math.random() * 1E9)}${extension}`;
+  const upload = await storageService.uploadFile(resume, destination, {
+    makePublic: false,
+    metadata: {
+      userId: ownerUserId,
+      originalName: resume.originalname,
+      folderId: folder.id,
+      dashboardId: dashboard.id,
+      candidateEmail
+    }
+  });
+
+  return prisma.file.create({
+    data: {
+      userId: ownerUserId,
+      name: resume.originalname,
+      type: resume.mimetype,
+      size: resume.size,
+      url: upload.url,
+      path: upload.path,
+      folderId: folder.id,
+      dashboardId: dashboard.id
+    }
+  });
+}
+
+export async function createJobApplication(input: JobApplicationInput) {
+  const { businessId, requisitionId } = input;
+  const email = normalizeCandidateEmail(input.email);
+
+  const requisition = await prisma.jobRequisition.findFirst({
+    where: input.requirePublicPosting
+      ? { ...publicPostingWhere(businessId), id: requisitionId }
+      : { id: requisitionId, businessId },
+    select: { id: true, title: true, status: true, createdById: true, hiringManagerId: true }
+  });
+  if (!requisition) {
+    throw new Error('Job posting not found');
+  }
+  if (requisition.status === JobRequisitionStatus.CLOSED || requisition.status === JobRequisitionStatus.FILLED) {
+    throw new Error('Job requisition is no longer accepting applications');
+  }
+
+  const candidate = await prisma.candidate.upsert({
+    where: { businessId_email: { businessId, email } },
+    create: {
+      businessId,
+      email,
+      firstName: input.firstName.trim(),
+      lastName: input.lastName.trim(),
+      phone: input.phone ?? null,
+      linkedinUrl: input.linkedinUrl ?? null
+    },
+    update: {
+      firstName: input.firstName.trim(),
+      lastName: input.lastName.trim(),
+      ...(input.phone ? { phone: input.phone } : {}),
+      ...(input.linkedinUrl ? { linkedinUrl: input.linkedinUrl } : {})
+    }
+  });
+
+  const existing = await prisma.jobApplication.findUnique({
+    where: { requisitionId_candidateId: { requisitionId, candidateId: candidate.id } },
+    select: { id: true }
+  });
+  if (existing) {
+    throw new Error('Candidate has already applied to this job');
+  }
+
+  const ownerUserId = requisition.hiringManagerId ?? requisition.createdById;
+  const resumeFile = input.resume
+    ? await storeResume(businessId, ownerUserId, email, input.resume)
+    : null;
+
+  const appliedStage = await findStageByType(businessId, RecruitmentStageType.APPLIED);
+
+  const application = await prisma.jobApplication.create({
+    data: {
+      businessId,
+      requisitionId,
+      candidateId: candidate.id,
+      stageId: appliedStage?.id ?? null,
+      source: input.source ?? null,
+      coverLetter: input.coverLetter ?? null,
+      resumeFileId: resumeFile?.id ?? null
+    },
+    include: applicationInclude
+  });
+
+  logger.info('Job application received', {
+    operation: 'hr_recruitment_create_application',
+    businessId,
+    requisitionId,
+    applicationId: application.id,
+    source: input.source
+  });
+
+  try {
+    await NotificationService.createNotification({
+      userId: ownerUserId,
+      type: 'hr_job_application_received',
+      title: 'New Job Application',
+      body: `${candidate.firstName} ${candidate.lastName} applied for ${requisition.title}.`,
+      data: {
+        applicationId: application.id,
+        requisitionId,
+        businessId,
+        actionUrl: `/business/${businessId}/admin/hr/recruitment`
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to send job application notification', {
+      operation: 'hr_recruitment_notify_application',
+      businessId,
+      applicationId: application.id,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+
+  return application;
+}
+
+/**
+ * Resume contents for HR admins, who may not own the underlying Drive file.
+ */
+export async function getApplicationResume(businessId: string, applicationId: string) {
+  const application = await prisma.jobApplication.findFirst({
+    where: { id: applicationId, businessId },
+    select: { resumeFile: true }
+  });
+  const file = application?.resumeFile;
+  if (!file || file.trashedAt) {
+    return null;
+  }
+
+  const storagePath = file.path ?? file.url;
+  const buffer = await storageService.getFileBuffer(storagePath);
+  return { name: file.name, type: file.type, buffer };
+}
+
+export async function moveApplicationToStage(businessId: string, applicationId: string, stageId: string) {
+  const application = await prisma.jobApplication.findFirst({ where: { id: applicationId, businessId } });
+  if (!application) {
+    throw new Error('Job application not found');
+  }
+  if (application.status === JobApplicationStatus.HIRED) {
+    throw new Error('Hired applications cannot be moved');
+  }
+
+  const stage = await prisma.recruitmentStage.findFirst({ where: { id: stageId, businessId, isActive: true } });
+  if (!stage) {
+    throw new Error('Recruitment stage not found');
+  }
+  if (stage.type === RecruitmentStageType.HIRED) {
+    throw new Error('Candidates cannot be moved to a hired stage directly; use the hire action');
+  }
+
+  const rejected = stage.type === RecruitmentStageType.REJECTED;
+  return prisma.jobApplication.update({
+    where: { id: applicationId },
+    data: {
+      stageId,
+      status: rejected ? JobApplicationStatus.REJECTED : JobApplicationStatus.ACTIVE,
+      rejectedAt: rejected ? application.rejectedAt ?? new Date() : null,
+      ...(rejected ? {} : { rejectionReason: null })
+    },
+    include: applicationInclude
+  });
+}
+
+export async function rejectJobApplication(businessId: string, applicationId: string, reason?: string | null) {
+  const application = await prisma.jobApplication.findFirst({ where: { id: applicationId, businessId } });
+  if (!application) {
+    throw new Error('Job application not found');
+  }
+  if (application.status === JobApplicationStatus.HIRED) {
+    throw new Error('Hired applications cannot be rejected');
+  }
+
+  const rejectedStage = await findStageByType(businessId, RecruitmentStageType.REJECTED);
+  return prisma.jobApplication.update({
+    where: { id: applicationId },
+    data: {
+      status: JobApplicationStatus.REJECTED,
+      stageId: rejectedStage?.id ?? application.stageId,
+      rejectedAt: new Date(),
+      rejectionReason: reason ?? null
+    },
+    include: applicationInclude
+  });
+}
+
+// ============================================================================
+// INTERVIEWS
+// ============================================================================
+
+async function ensureRecruitingCalendar(businessId: string, userIds: string[]): Promise<string> {
+  let calendar = await prisma.calendar.findFirst({
+    where: { contextType: 'BUSINESS', contextId: businessId, name: RECRUITING_CALENDAR_NAME, isSystem: true },
+    select: { id: true }
+  });
+
+  if (!calendar) {
+    calendar = await prisma.calendar.create({
+      data: {
+        name: RECRUITING_CALENDAR_NAME,
+        contextType: 'BUSINESS',
+        contextId: businessId,
+        isSystem: true,
+        isDeletable: false,
+        defaultReminderMinutes: 15
+      },
+      select: { id: true }
+    });
+  }
+
+  const calendarId = calendar.id;
+  await Promise.all(
+    userIds.map((userId) => prisma.calendarMember.upsert({
+      where: { calendarId_userId: { calendarId, userId } },
+      create: { calendarId, userId, role: 'EDITOR' },
+      update: {}
+    }))
+  );
+
+  return calendarId;
+}
+
+export async function scheduleInterview(input: ScheduleInterviewInput) {
+  const { businessId, applicationId, startAt, endAt, createdById } = input;
+
+  if (endAt <= startAt) {
+    throw new Error('Interview end time must be after the start time');
+  }
+
+  const application = await prisma.jobApplication.findFirst({
+    where: { id: applicationId, businessId },
+    include: {
+      candidate: true,
+      requisition: { select: { title: true, hiringManagerId: true } },
+      business: { select: { name: true } }
+    }
+  });
+  if (!application) {
+    throw new Error('Job application not found');
+  }
+  if (application.status !== JobApplicationStatus.ACTIVE) {
+    throw new Error('Interviews cannot be scheduled for closed applications');
+  }
+
+  const requestedInterviewers = input.interviewerIds.length > 0
+    ? input.interviewerIds
+    : [application.requisition.hiringManagerId ?? createdById];
+  const interviewers = await prisma.businessMember.findMany({
+    where: { businessId, isActive: true, userId: { in: Array.from(new Set(requestedInterviewers)) } },
+    select: { user: { select: { id: true, name: true, email: true } } }
+  });
+  if (interviewers.length === 0) {
+    throw new Error('At least one interviewer must be an active business member');
+  }
+  const interviewerIds = interviewers.map((member) => member.user.id);
+
+  const candidateName = `${application.candidate.firstName} ${application.candidate.lastName}`;
+  const title = input.title?.trim() || `Interview: ${candidateName} – ${application.requisition.title}`;
+  const calendarId = await ensureRecruitingCalendar(businessId, Array.from(new Set([...interviewerIds, createdById])));
+
+  const interview = await prisma.$transaction(async (tx) => {
+    const event = await tx.event.create({
+      data: {
+        calendarId,
+        title,
+        description: `Interview with ${candidateName} for ${application.requisition.title}.`,
+        location: input.location ?? null,
+        onlineMeetingLink: input.meetingLink ?? null,
+        startAt,
+        endAt,
+        timezone: input.timezone ?? 'UTC',
+        createdById,
+        attendees: {
+          create: [
+            { email: application.candidate.email, response: 'NEEDS_ACTION' },
+            ...interviewerIds.map((userId) => ({ userId, response: 'NEEDS_ACTION' }))
+          ]
+        }
+      }
+    });
+
+    return tx.interview.create({
+      data: {
+        businessId,
+        applicationId,
+        title,
+        startAt,
+        endAt,
+        timezone: input.timezone ?? 'UTC',
+        location: input.location ?? null,
+        meetingLink: input.meetingLink ?? null,
+        interviewerIds,
+        calendarEventId: event.id,
+        createdById
+      }
+    });
+  });
+
+  // Invites are best-effort: the interview is already on the calendar
+  try {
+    const organizer = await prisma.user.findUnique({ where: { id: createdById }, select: { name: true, email: true } });
+    const attendeeEmails = [
+      application.candidate.email,
+      ...interviewers.map((member) => member.user.email)
+    ];
+    const ics = buildInterviewIcs({
+      uid: interview.calendarEventId ?? interview.id,
+      title,
+      startAt,
+      endAt,
+      description: input.meetingLink ? `Join: ${input.meetingLink}` : null,
+      location: input.location ?? input.meetingLink ?? null,
+      organizer,
+      attendeeEmails
+    });
+    for (const email of attendeeEmails) {
+      await sendCalendarInviteEmail({
+        toEmail: email,
+        subject: `Interview: ${application.requisition.title} at ${application.business.name}`,
+        bodyHtml: `<p>You are invited to an interview for <strong>${application.requisition.title}</strong>.</p>`,
+        icsContent: ics
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to send interview invites', {
+      operation: 'hr_recruitment_interview_invites',
+      businessId,
+      interviewId: interview.id,
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+
+  logger.info('Interview scheduled', {
+    operation: 'hr_recruitment_schedule_interview',
+    businessId,
+    applicationId,
+    interviewId: interview.id
+  });
+
+  return interview;
+}
+
+export async function updateInterview(input: InterviewUpdateInput) {
+  const { businessId, interviewId } = input;
+  const interview = await prisma.interview.findFirst({
+    where: { id: interviewId, businessId },
+    include: { application: { include: { candidate: true } } }
+  });
+  if (!interview) {
+    throw new Error('Interview not found');
+  }
+
+  const cancelling = input.status === InterviewStatus.CANCELLED && interview.status !== InterviewStatus.CANCELLED;
+
+  const updated = await prisma.interview.update({
+    where: { id: interviewId },
+    data: {
+      ...(input.status !== undefined ? { status: input.status } : {}),
+      ...(input.rating !== undefined ? { rating: input.rating } : {}),
+      ...(input.feedback !== undefined ? { feedback: input.feedback } : {})
+    }
+  });
+
+  if (cancelling && interview.calendarEventId) {
+    await prisma.event.update({
+      where: { id: interview.calendarEventId },
+      data: { status: 'CANCELED' }
+    });
+
+    try {
+      const ics = buildInterviewIcs({
+        uid: interview.calendarEventId,
+        title: interview.title,
+        startAt: interview.startAt,
+        endAt: interview.endAt,
+        attendeeEmails: [interview.application.candidate.email],
+        method: 'CANCEL'
+      });
+      await sendCalendarInviteEmail({
+        toEmail: interview.application.candidate.email,
+        subject: `Cancelled: ${interview.title}`,
+        bodyHtml: '<p>Your interview has been cancelled. We will be in touch to reschedule if needed.</p>',
+        icsContent: ics
+      });
+    } catch (error) {
+      logger.error('Failed to send interview cancellation', {
+        operation: 'hr_recruitment_interview_cancel',
+        businessId,
+        interviewId,
+        error: { message: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+  }
+
+  return updated;
+}
+
+// ============================================================================
+// HIRING
+// ============================================================================
+
+/**
+ * First half of the hire action: link the candidate to their Vssyl account,
+ * make them a business member and assign them to the requisition's position.
+ * The caller then creates the HR profile and calls completeHire.
+ */
+export async function prepareHire(params: {
+  businessId: string;
+  applicationId: string;
+  startDate: Date;
+  actorUserId: string;
+}): Promise<PreparedHire> {
+  const { businessId, applicationId, startDate, actorUserId } = params;
+
+  const application = await prisma.jobApplication.findFirst({
+    where: { id: applicationId, businessId },
+    include: {
+      candidate: true,
+      requisition: { select: { positionId: true, employmentType: true, status: true } }
+    }
+  });
+  if (!application) {
+    throw new Error('Job application not found');
+  }
+  if (application.status === JobApplicationStatus.HIRED) {
+    throw new Error('Candidate has already been hired for this job');
+  }
+  if (application.requisition.status === JobRequisitionStatus.FILLED) {
+    throw new Error('Job requisition is already filled');
+  }
+
+  const candidateUser = application.candidate.userId
+    ? await prisma.user.findUnique({ where: { id: application.candidate.userId }, select: { id: true } })
+    : await prisma.user.findUnique({ where: { email: application.candidate.email }, select: { id: true } });
+  if (!candidateUser) {
+    throw new Error('Candidate cannot be hired until they have a Vssyl account with their application email');
+  }
+
+  await prisma.businessMember.upsert({
+    where: { businessId_userId: { businessId, userId: candidateUser.id } },
+    create: { businessId, userId: candidateUser.id, role: BusinessRole.EMPLOYEE },
+    update: { isActive: true, leftAt: null }
+  });
+
+  const existingAssignment = await prisma.employeePosition.findFirst({
+    where: { businessId, userId: candidateUser.id, positionId: application.requisition.positionId, active: true },
+    select: { id: true }
+  });
+  const employeePosition = existingAssignment ?? await employeeManagementService.assignEmployeeToPosition({
+    userId: candidateUser.id,
+    positionId: application.requisition.positionId,
+    businessId,
+    assignedById: actorUserId,
+    startDate
+  });
+
+  if (application.candidate.userId !== candidateUser.id) {
+    await prisma.candidate.update({
+      where: { id: application.candidateId },
+      data: { userId: candidateUser.id }
+    });
+  }
+
+  return {
+    applicationId,
+    candidateUserId: candidateUser.id,
+    employeePositionId: employeePosition.id,
+    employeeType: application.requisition.employmentType
+  };
+}
+
+export async function completeHire(params: {
+  businessId: string;
+  applicationId: string;
+  employeeHrProfileId: string;
+  onboardingJourneyId: string | null;
+  hiredById: string;
+}) {
+  const { businessId, applicationId, employeeHrProfileId, onboardingJourneyId, hiredById } = params;
+  const hiredStage = await findStageByType(businessId, RecruitmentStageType.HIRED);
+
+  const application = await prisma.jobApplication.update({
+    where: { id: applicationId },
+    data: {
+      status: JobApplicationStatus.HIRED,
+      stageId: hiredStage?.id ?? undefined,
+      hiredAt: new Date(),
+      hiredById,
+      employeeHrProfileId,
+      onboardingJourneyId
+    },
+    include: applicationInclude
+  });
+
+  const requisition = await prisma.jobRequisition.findUnique({
+    where: { id: application.requisitionId },
+    select: { id: true, openings: true, status: true, publishedAt: true, closedAt: true }
+  });
+  if (requisition) {
+    const hiredCount = await prisma.jobApplication.count({
+      where: { requisitionId: requisition.id, status: JobApplicationStatus.HIRED }
+    });
+    if (hiredCount >= requisition.openings && requisition.status !== JobRequisitionStatus.FILLED) {
+      const timestamps = resolveRequisitionTimestamps(requisition, JobRequisitionStatus.FILLED);
+      await prisma.jobRequisition.update({
+        where: { id: requisition.id },
+        data: { status: JobRequisitionStatus.FILLED, ...timestamps }
+      });
+    }
+  }
+
+  logger.info('Candidate hired', {
+    operation: 'hr_recruitment_hire',
+    businessId,
+    applicationId,
+    employeeHrProfileId,
+    onboardingJourneyId
+  });
+
+  return application;
+}
+
+// ============================================================================
+// DASHBOARD
+// ============================================================================
+
+export async function getRecruitmentDashboard(businessId: string) {
+  const now = new Date();
+  const [stages, requisitions, applicationsByStage, upcomingInterviews, hiresLast30Days] = await Promise.all([
+    listRecruitmentStages(businessId),
+    prisma.jobRequisition.groupBy({
+      by: ['status'],
+      where: { businessId },
+      _count: { _all: true }
+    }),
+    prisma.jobApplication.groupBy({
+      by: ['stageId'],
+      where: { businessId, status: JobApplicationStatus.ACTIVE },
+      _count: { _all: true }
+    }),
+    prisma.interview.findMany({
+      where: { businessId, status: InterviewStatus.SCHEDULED, startAt: { gte: now } },
+      include: {
+        application: {
+          select: {
+            id: true,
+            candidate: { select: { firstName: true, lastName: true } },
+            requisition: { select: { title: true } }
+          }
+        }
+      },
+      orderBy: { startAt: 'asc' },
+      take: 10
+    }),
+    prisma.jobApplication.count({
+      where: { businessId, status: JobApplicationStatus.HIRED, hiredAt: { gte: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000) } }
+    })
+  ]);
+
+  const requisitionCounts = Object.fromEntries(
+    requisitions.map((row) => [row.status, row._count._all])
+  ) as Partial<Record<JobRequisitionStatus, number>>;
+  const stageCounts = new Map(applicationsByStage.map((row) => [row.stageId, row._count._all]));
+
+  return {
+    requisitionCounts,
+    pipeline: stages.map((stage) => ({
+      stageId: stage.id,
+      name: stage.name,
+      type: stage.type,
+      activeApplications: stageCounts.get(stage.id) ?? 0
+    })),
+    upcomingInterviews,
+    hiresLast30Days
+  };
+}
@@ -0,0 +1,699 @@
+import { prisma } from '../lib/prisma';
+import { getZonedParts, zonedMinutesToUtc } from './hrAttendanceService';
+import { toCsvRow } from './hrBenefitsService';
+import { planTemplateWeek } from './shiftTemplateService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_SCHEDULE_TIMEZONE = 'America/New_York';
+const SALARY_HOURS_PER_YEAR = 2080;
+const MAX_REPORT_DAYS = 93;
+
+export const UNASSIGNED_LABEL = 'Unassigned';
+export const UNSCHEDULED_LABEL = 'Unscheduled';
+
+export interface AnalyticsShift {
+  id: string;
+  scheduleId: string;
+  employeePositionId: string | null;
+  start: Date;
+  end: Date;
+  breakMinutes?: number | null;
+  stationName?: string | null;
+  departmentName?: string | null;
+  createdAt: Date;
+  publishedAt?: Date | null;
+}
+
+export interface AnalyticsAttendance {
+  id: string;
+  employeePositionId: string;
+  clockIn: Date;
+  clockOut: Date;
+  durationMinutes?: number | null;
+}
+
+export interface AnalyticsEmployee {
+  employeePositionId: string;
+  name: string;
+  hourlyRate: number | null;
+  departmentName?: string | null;
+}
+
+export interface LaborCostRow {
+  key: string;
+  scheduledHours: number;
+  scheduledCost: number;
+  actualHours: number;
+  actualCost: number;
+  varianceCost: number;
+}
+
+export interface LaborCostReport {
+  totals: Omit<LaborCostRow, 'key'>;
+  byDay: LaborCostRow[];
+  byStation: LaborCostRow[];
+  byDepartment: LaborCostRow[];
+  unmatchedRecords: number;
+  employeesWithoutRate: number;
+}
+
+export interface CoverageRequirement {
+  start: Date;
+  end: Date;
+  headcount: number;
+}
+
+export interface CoverageCell {
+  date: string;
+  hour: number;
+  required: number;
+  scheduled: number;
+  gap: number;
+}
+
+export interface CoverageReport {
+  timezone: string;
+  dates: string[];
+  cells: CoverageCell[];
+  understaffedHours: number;
+  overstaffedHours: number;
+}
+
+export type ComplianceIssueType = 'OVERTIME' | 'SPLIT_SHIFT' | 'MISSED_BREAK' | 'SHORT_NOTICE';
+
+export interface ComplianceIssue {
+  type: ComplianceIssueType;
+  source: 'SCHEDULED' | 'ACTUAL';
+  employeePositionId: string;
+  employeeName: string;
+  date: string;
+  detail: string;
+  shiftId?: string;
+  attendanceRecordId?: string;
+}
+
+export interface ComplianceRules {
+  weeklyOvertimeHours: number;
+  dailyOvertimeHours?: number | null;
+  splitShiftGapHours: number;
+  breakAfterHours: number;
+  minBreakMinutes: number;
+  noticeDays: number;
+}
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRules = {
+  weeklyOvertimeHours: 40,
+  dailyOvertimeHours: null,
+  splitShiftGapHours: 1,
+  breakAfterHours: 6,
+  minBreakMinutes: 30,
+  noticeDays: 14
+};
+
+export interface AnalyticsRange {
+  businessId: string;
+  startDate: string;
+  endDate: string;
+  timezone?: string;
+  scheduleId?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatHours = (hours: number) => `${round2(hours)}h`;
+
+/** Hourly cost for an HR profile; salaried pay is spread over a standard 2080-hour year */
+export function hourlyRateFor(profile?: { payType: string | null; payRate: number | null } | null): number | null {
+  if (!profile?.payRate) return null;
+  if (profile.payType === 'HOURLY') return profile.payRate;
+  if (profile.payType === 'SALARY') return profile.payRate / SALARY_HOURS_PER_YEAR;
+  return null;
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in the given timezone */
+export function localDate(at: Date, timeZone: string): string {
+  const parts = getZonedParts(at, timeZone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const dateParts = (date: string) => {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  return { year, month, day };
+};
+
+/** Monday of the week containing a local date */
+const weekStartOf = (date: string) => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+};
+
+const overlapMs = (aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) =>
+  Math.max(0, Math.min(aEnd.getTime(), bEnd.getTime()) - Math.max(aStart.getTime(), bStart.getTime()));
+
+const scheduledHoursOf = (shift: AnalyticsShift) =>
+  Math.max(0, (shift.end.getTime() - shift.start.getTime()) / HOUR_MS - (shift.breakMinutes ?? 0) / 60);
+
+const actualHoursOf = (record: AnalyticsAttendance) =>
+  (record.durationMinutes ?? Math.round((record.clockOut.getTime() - record.clockIn.getTime()) / 60000)) / 60;
+
+/**
+ * Pair each attendance record with the assigned shift it overlaps most for the same employee.
+ * Records that don't touch any of the employee's shifts map to null.
+ */
+export function matchAttendanceToShifts(
+  shifts: AnalyticsShift[],
+  records: AnalyticsAttendance[]
+): Map<string, AnalyticsShift | null> {
+  const shiftsByEmployee = new Map<string, AnalyticsShift[]>();
+  for (const shift of shifts) {
+    if (!shift.employeePositionId) continue;
+    const list = shiftsByEmployee.get(shift.employeePositionId) ?? [];
+    list.push(shift);
+    shiftsByEmployee.set(shift.employeePositionId, list);
+  }
+
+  const matches = new Map<string, AnalyticsShift | null>();
+  for (const record of records) {
+    let best: AnalyticsShift | null = null;
+    let bestOverlap = 0;
+    for (const shift of shiftsByEmployee.get(record.employeePositionId) ?? []) {
+      const overlap = overlapMs(record.clockIn, record.clockOut, shift.start, shift.end);
+      if (overlap > bestOverlap) {
+        best = shift;
+        bestOverlap = overlap;
+      }
+    }
+    matches.set(record.id, best);
+  }
+  return matches;
+}
+
+/**
+ * Scheduled versus actual labor cost grouped by local day, station and department.
+ * Actual hours follow the shift they were matched to; unmatched punches are grouped as "Unscheduled".
+ */
+export function summarizeLaborCost(
+  shifts: AnalyticsShift[],
+  records: AnalyticsAttendance[],
+  employees: AnalyticsEmployee[],
+  timeZone: string
+): LaborCostReport {
+  const employeesById = new Map(employees.map((employee) => [employee.employeePositionId, employee]));
+  const groups = {
+    byDay: new Map<string, LaborCostRow>(),
+    byStation: new Map<string, LaborCostRow>(),
+    byDepartment: new Map<string, LaborCostRow>()
+  };
+  const totals: LaborCostRow = { key: 'total', scheduledHours: 0, scheduledCost: 0, actualHours: 0, actualCost: 0, varianceCost: 0 };
+
+  const add = (
+    keys: { day: string; station: string; department: string },
+    field: 'scheduled' | 'actual',
+    hours: number,
+    cost: number
+  ) => {
+    const rows = [
+      totals,
+      ...(['byDay', 'byStation', 'byDepartment'] as const).map((group) => {
+        const key = group === 'byDay' ? keys.day : group === 'byStation' ? keys.station : keys.department;
+        let row = groups[group].get(key);
+        if (!row) {
+          row = { key, scheduledHours: 0, scheduledCost: 0, actualHours: 0, actualCost: 0, varianceCost: 0 };
+          groups[group].set(key, row);
+        }
+        return row;
+      })
+    ];
+    for (const row of rows) {
+      row[`${field}Hours`] += hours;
+      row[`${field}Cost`] += cost;
+    }
+  };
+
+  const withoutRate = new Set<string>();
+  const rateOf = (employeePositionId: string) => {
+    const rate = employeesById.get(employeePositionId)?.hourlyRate ?? null;
+    if (rate === null) withoutRate.add(employeePositionId);
+    return rate ?? 0;
+  };
+
+  const keysForShift = (shift: AnalyticsShift) => ({
+    day: localDate(shift.start, timeZone),
+    station: shift.stationName || UNASSIGNED_LABEL,
+    department: shift.departmentName || UNASSIGNED_LABEL
+  });
+
+  for (const shift of shifts) {
+    if (!shift.employeePositionId) continue;
+    const hours = scheduledHoursOf(shift);
+    add(keysForShift(shift), 'scheduled', hours, hours * rateOf(shift.employeePositionId));
+  }
+
+  const matches = matchAttendanceToShifts(shifts, records);
+  let unmatchedRecords = 0;
+  for (const record of records) {
+    const shift = matches.get(record.id);
+    const hours = actualHoursOf(record);
+    if (!shift) unmatchedRecords++;
+    const keys = shift
+      ? keysForShift(shift)
+      : {
+          day: localDate(record.clockIn, timeZone),
+          station: UNSCHEDULED_LABEL,
+          department: employeesById.get(record.employeePositionId)?.departmentName || UNASSIGNED_LABEL
+        };
+    add(keys, 'actual', hours, hours * rateOf(record.employeePositionId));
+  }
+
+  const finish = (row: LaborCostRow): Omit<LaborCostRow, 'key'> => ({
+    scheduledHours: round2(row.scheduledHours),
+    scheduledCost: round2(row.scheduledCost),
+    actualHours: round2(row.actualHours),
+    actualCost: round2(row.actualCost),
+    varianceCost: round2(row.actualCost - row.scheduledCost)
+  });
+  const sorted = (rows: Map<string, LaborCostRow>) =>
+    [...rows.values()].map((row) => ({ key: row.key, ...finish(row) })).sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    totals: finish(totals),
+    byDay: sorted(groups.byDay),
+    byStation: sorted(groups.byStation),
+    byDepartment: sorted(groups.byDepartment),
+    unmatchedRecords,
+    employeesWithoutRate: withoutRate.size
+  };
+}
+
+/**
+ * Hourly heatmap of required versus scheduled headcount for each local day in the range.
+ * A shift or requirement counts toward an hour when it covers at least half of it.
+ * Required headcount is the larger of the requirement windows and the shifts on the schedule,
+ * so open shifts raise the requirement while only assigned shifts count as scheduled.
+ */
+export function buildCoverageHeatmap(
+  shifts: AnalyticsShift[],
+  requirements: CoverageRequirement[],
+  startDate: string,
+  endDate: string,
+  timeZone: string
+): CoverageReport {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+
+  const cells: CoverageCell[] = [];
+  for (const date of dates) {
+    for (let hour = 0; hour < 24; hour++) {
+      const bucketStart = zonedMinutesToUtc(dateParts(date), hour * 60, timeZone);
+      const bucketEnd = zonedMinutesToUtc(dateParts(date), (hour + 1) * 60, timeZone);
+      const half = (bucketEnd.getTime() - bucketStart.getTime()) / 2;
+      // Skipped local hours on DST days have no length
+      if (half <= 0) continue;
+      const covers = (start: Date, end: Date) => overlapMs(start, end, bucketStart, bucketEnd) >= half;
+
+      let seats = 0;
+      let scheduled = 0;
+      for (const shift of shifts) {
+        if (!covers(shift.start, shift.end)) continue;
+        seats++;
+        if (shift.employeePositionId) scheduled++;
+      }
+      const templated = requirements
+        .filter((requirement) => covers(requirement.start, requirement.end))
+        .reduce((sum, requirement) => sum + requirement.headcount, 0);
+      const required = Math.max(seats, templated);
+
+      cells.push({ date, hour, required, scheduled, gap: scheduled - required });
+    }
+  }
+
+  return {
+    timezone: timeZone,
+    dates,
+    cells,
+    understaffedHours: cells.filter((cell) => cell.gap < 0).length,
+    overstaffedHours: cells.filter((cell) => cell.gap > 0).length
+  };
+}
+
+/**
+ * Flag overtime, split shifts, missed breaks and short-notice scheduling.
+ * Scheduled issues come from assigned shifts; actual issues come from attendance punches,
+ * where a break is a clock-out, so one continuous punch past the threshold is a missed break.
+ */
+export function findComplianceIssues(
+  shifts: AnalyticsShift[],
+  records: AnalyticsAttendance[],
+  employees: AnalyticsEmployee[],
+  timeZone: string,
+  rules: ComplianceRules = DEFAULT_COMPLIANCE_RULES
+): ComplianceIssue[] {
+  const nameOf = new Map(employees.map((employee) => [employee.employeePositionId, employee.name]));
+  const issues: ComplianceIssue[] = [];
+  const issue = (entry: Omit<ComplianceIssue, 'employeeName'>) =>
+    issues.push({ ...entry, employeeName: nameOf.get(entry.employeePositionId) ?? 'Unknown employee' });
+
+  const assigned = shifts.filter((shift): shift is AnalyticsShift & { employeePositionId: string } => !!shift.employeePositionId);
+  const worked = [
+    ...assigned.map((shift) => ({
+      source: 'SCHEDULED' as const,
+      employeePositionId: shift.employeePositionId,
+      start: shift.start,
+      end: shift.end,
+      hours: scheduledHoursOf(shift),
+      ref: { shiftId: shift.id }
+    })),
+    ...records.map((record) => ({
+      source: 'ACTUAL' as const,
+      employeePositionId: record.employeePositionId,
+      start: record.clockIn,
+      end: record.clockOut,
+      hours: actualHoursOf(record),
+      ref: { attendanceRecordId: record.id }
+    }))
+  ];
+
+  const weekly = new Map<string, number>();
+  const daily = new Map<string, typeof worked>();
+  for (const entry of worked) {
+    const date = localDate(entry.start, timeZone);
+    const weekKey = `${entry.source}|${entry.employeePositionId}|${weekStartOf(date)}`;
+    weekly.set(weekKey, (weekly.get(weekKey) ?? 0) + entry.hours);
+    const dayKey = `${entry.source}|${entry.employeePositionId}|${date}`;
+    daily.set(dayKey, [...(daily.get(dayKey) ?? []), entry]);
+  }
+
+  for (const [key, hours] of weekly) {
+    if (hours <= rules.weeklyOvertimeHours) continue;
+    const [source, employeePositionId, week] = key.split('|');
+    issue({
+      type: 'OVERTIME',
+      source: source as ComplianceIssue['source'],
+      employeePositionId,
+      date: week,
+      detail: `${formatHours(hours)} in the week of ${week} exceeds ${formatHours(rules.weeklyOvertimeHours)}`
+    });
+  }
+
+  for (const [key, entries] of daily) {
+    const [source, employeePositionId, date] = key.split('|');
+    const dayHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+    if (rules.dailyOvertimeHours && dayHours > rules.dailyOvertimeHours) {
+      issue({
+        type: 'OVERTIME',
+        source: source as ComplianceIssue['source'],
+        employeePositionId,
+        date,
+        detail: `${formatHours(dayHours)} in one day exceeds ${formatHours(rules.dailyOvertimeHours)}`
+      });
+    }
+
+    const ordered = [...entries].sort((a, b) => a.start.getTime() - b.start.getTime());
+    for (let i = 1; i < ordered.length; i++) {
+      const gapHours = (ordered[i].start.getTime() - ordered[i - 1].end.getTime()) / HOUR_MS;
+      // Actual punches split around a short break are a break, not a split shift
+      if (gapHours <= rules.splitShiftGapHours) continue;
+      issue({
+        type: 'SPLIT_SHIFT',
+        source: source as ComplianceIssue['source'],
+        employeePositionId,
+        date,
+        detail: `${formatHours(gapHours)} unpaid gap between shifts`,
+        ...ordered[i].ref
+      });
+    }
+  }
+
+  for (const shift of assigned) {
+    const spanHours = (shift.end.getTime() - shift.start.getTime()) / HOUR_MS;
+    if (spanHours > rules.breakAfterHours && (shift.breakMinutes ?? 0) < rules.minBreakMinutes) {
+      issue({
+        type: 'MISSED_BREAK',
+        source: 'SCHEDULED',
+        employeePositionId: shift.employeePositionId,
+        date: localDate(shift.start, timeZone),
+        detail: `${formatHours(spanHours)} shift scheduled with ${shift.breakMinutes ?? 0} break minutes (needs ${rules.minBreakMinutes})`,
+        shiftId: shift.id
+      });
+    }
+
+    if (!shift.publishedAt) continue;
+    const noticeFrom = shift.createdAt > shift.publishedAt ? shift.createdAt : shift.publishedAt;
+    const noticeDays = (shift.start.getTime() - noticeFrom.getTime()) / DAY_MS;
+    if (noticeDays < rules.noticeDays) {
+      issue({
+        type: 'SHORT_NOTICE',
+        source: 'SCHEDULED',
+        employeePositionId: shift.employeePositionId,
+        date: localDate(shift.start, timeZone),
+        detail: `${shift.createdAt > shift.publishedAt ? 'Added' : 'Published'} ${Math.max(0, Math.floor(noticeDays))} days before the shift (requires ${rules.noticeDays})`,
+        shiftId: shift.id
+      });
+    }
+  }
+
+  for (const record of records) {
+    const hours = actualHoursOf(record);
+    if (hours > rules.breakAfterHours) {
+      issue({
+        type: 'MISSED_BREAK',
+        source: 'ACTUAL',
+        employeePositionId: record.employeePositionId,
+        date: localDate(record.clockIn, timeZone),
+        detail: `Worked ${formatHours(hours)} without clocking out for a break`,
+        attendanceRecordId: record.id
+      });
+    }
+  }
+
+  return issues.sort((a, b) => a.date.localeCompare(b.date) || a.employeeName.localeCompare(b.employeeName));
+}
+
+export function laborCostToCsv(report: LaborCostReport): string {
+  const lines = [toCsvRow(['Dimension', 'Key', 'Scheduled Hours', 'Scheduled Cost', 'Actual Hours', 'Actual Cost', 'Variance Cost'])];
+  const groups = [
+    ['Day', report.byDay],
+    ['Station', report.byStation],
+    ['Department', report.byDepartment]
+  ] as const;
+  for (const [dimension, rows] of groups) {
+    for (const row of rows) {
+      lines.push(toCsvRow([dimension, row.key, row.scheduledHours, row.scheduledCost, row.actualHours, row.actualCost, row.varianceCost]));
+    }
+  }
+  const { totals } = report;
+  lines.push(toCsvRow(['Total', '', totals.scheduledHours, totals.scheduledCost, totals.actualHours, totals.actualCost, totals.varianceCost]));
+  return lines.join('\n');
+}
+
+export function coverageToCsv(report: CoverageReport): string {
+  return [
+    toCsvRow(['Date', 'Hour', 'Required', 'Scheduled', 'Gap']),
+    ...report.cells.map((cell) =>
+      toCsvRow([cell.date, `${String(cell.hour).padStart(2, '0')}:00`, cell.required, cell.scheduled, cell.gap])
+    )
+  ].join('\n');
+}
+
+export function complianceToCsv(issues: ComplianceIssue[]): string {
+  return [
+    toCsvRow(['Type', 'Source', 'Employee', 'Date', 'Detail', 'Shift ID', 'Attendance Record ID']),
+    ...issues.map((entry) =>
+      toCsvRow([entry.type, entry.source, entry.employeeName, entry.date, entry.detail, entry.shiftId, entry.attendanceRecordId])
+    )
+  ].join('\n');
+}
+
+// ============================================================================
+// DATA LOADING
+// ============================================================================
+
+async function resolveRange(range: AnalyticsRange) {
+  for (const [label, value] of [['startDate', range.startDate], ['endDate', range.endDate]]) {
+    if (!DATE_ONLY_REGEX.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new Error(`${label} must be a date in YYYY-MM-DD format`);
+    }
+  }
+  if (range.endDate < range.startDate) {
+    throw new Error('endDate must be on or after startDate');
+  }
+  const days = (Date.parse(range.endDate) - Date.parse(range.startDate)) / DAY_MS + 1;
+  if (days > MAX_REPORT_DAYS) {
+    throw new Error(`Date range must be ${MAX_REPORT_DAYS} days or fewer`);
+  }
+
+  let timeZone = range.timezone;
+  if (!timeZone) {
+    const schedule = await prisma.schedule.findFirst({
+      where: { businessId: range.businessId, ...(range.scheduleId ? { id: range.scheduleId } : {}) },
+      orderBy: { startDate: 'desc' },
+      select: { timezone: true }
+    });
+    timeZone = schedule?.timezone || DEFAULT_SCHEDULE_TIMEZONE;
+  }
+
+  return {
+    timeZone,
+    rangeStart: zonedMinutesToUtc(dateParts(range.startDate), 0, timeZone),
+    rangeEnd: zonedMinutesToUtc(dateParts(addDays(range.endDate, 1)), 0, timeZone)
+  };
+}
+
+async function loadShifts(range: AnalyticsRange, rangeStart: Date, rangeEnd: Date, assignedOnly: boolean) {
+  const shifts = await prisma.scheduleShift.findMany({
+    where: {
+      businessId: range.businessId,
+      status: { not: 'CANCELLED' },
+      startTime: { gte: rangeStart, lt: rangeEnd },
+      ...(range.scheduleId ? { scheduleId: range.scheduleId } : {}),
+      ...(assignedOnly ? { employeePositionId: { not: null } } : {})
+    },
+    include: {
+      schedule: { select: { publishedAt: true, status: true } },
+      position: { select: { department: { select: { name: true } } } }
+    }
+  });
+
+  const departmentIds = [...new Set(shifts.map((shift) => shift.departmentId).filter((id): id is string => !!id))];
+  const departments = departmentIds.length
+    ? await prisma.department.findMany({ where: { id: { in: departmentIds } }, select: { id: true, name: true } })
+    : [];
+  const departmentNames = new Map(departments.map((department) => [department.id, department.name]));
+
+  return shifts.map(
+    (shift): AnalyticsShift => ({
+      id: shift.id,
+      scheduleId: shift.scheduleId,
+      employeePositionId: shift.employeePositionId,
+      start: shift.startTime,
+      end: shift.endTime,
+      breakMinutes: shift.breakMinutes,
+      stationName: shift.stationName,
+      departmentName: (shift.departmentId && departmentNames.get(shift.departmentId)) || shift.position?.department?.name,
+      createdAt: shift.createdAt,
+      publishedAt: shift.schedule.status === 'DRAFT' ? null : shift.schedule.publishedAt
+    })
+  );
+}
+
+async function loadAttendance(businessId: string, rangeStart: Date, rangeEnd: Date): Promise<AnalyticsAttendance[]> {
+  const records = await prisma.attendanceRecord.findMany({
+    where: {
+      businessId,
+      status: { not: 'VOID' },
+      clockInTime: { gte: rangeStart, lt: rangeEnd },
+      clockOutTime: { not: null }
+    },
+    select: { id: true, employeePositionId: true, clockInTime: true, clockOutTime: true, durationMinutes: true }
+  });
+
+  return records.map((record) => ({
+    id: record.id,
+    employeePositionId: record.employeePositionId,
+    clockIn: record.clockInTime!,
+    clockOut: record.clockOutTime!,
+    durationMinutes: record.durationMinutes
+  }));
+}
+
+async function loadEmployees(businessId: string, employeePositionIds: string[]): Promise<AnalyticsEmployee[]> {
+  if (employeePositionIds.length === 0) return [];
+  const employeePositions = await prisma.employeePosition.findMany({
+    where: { businessId, id: { in: employeePositionIds } },
+    include: {
+      user: { select: { name: true, email: true } },
+      position: { select: { department: { select: { name: true } } } },
+      hrProfile: { select: { payType: true, payRate: true } }
+    }
+  });
+
+  return employeePositions.map((ep) => ({
+    employeePositionId: ep.id,
+    name: ep.user.name || ep.user.email,
+    hourlyRate: hourlyRateFor(ep.hrProfile),
+    departmentName: ep.position.department?.name
+  }));
+}
+
+const employeeIdsOf = (shifts: AnalyticsShift[], records: AnalyticsAttendance[]) => [
+  ...new Set([
+    ...shifts.map((shift) => shift.employeePositionId).filter((id): id is string => !!id),
+    ...records.map((record) => record.employeePositionId)
+  ])
+];
+
+export async function getLaborCostReport(range: AnalyticsRange) {
+  const { timeZone, rangeStart, rangeEnd } = await resolveRange(range);
+  const [shifts, records] = await Promise.all([
+    loadShifts(range, rangeStart, rangeEnd, true),
+    loadAttendance(range.businessId, rangeStart, rangeEnd)
+  ]);
+  const employees = await loadEmployees(range.businessId, employeeIdsOf(shifts, records));
+
+  return {
+    startDate: range.startDate,
+    endDate: range.endDate,
+    timezone: timeZone,
+    ...summarizeLaborCost(shifts, records, employees, timeZone)
+  };
+}
+
+export async function getCoverageReport(range: AnalyticsRange & { stationName?: string }) {
+  const { timeZone, rangeStart, rangeEnd } = await resolveRange(range);
+  // Overnight shifts starting the day before still cover the first hours of the range
+  const shifts = (await loadShifts(range, new Date(rangeStart.getTime() - DAY_MS), rangeEnd, false)).filter(
+    (shift) => !range.stationName || shift.stationName === range.stationName
+  );
+
+  const templates = await prisma.shiftTemplate.findMany({
+    where: {
+      businessId: range.businessId,
+      isActive: true,
+      ...(range.stationName ? { station: { name: range.stationName } } : {})
+    },
+    select: { id: true, defaultStartTime: true, defaultEndTime: true, daysOfWeek: true, requiredHeadcount: true }
+  });
+
+  const requirements: CoverageRequirement[] = [];
+  if (templates.length > 0) {
+    for (let weekStart = addDays(range.startDate, -1); weekStart <= range.endDate; weekStart = addDays(weekStart, 7)) {
+      for (const slot of planTemplateWeek(templates, weekStart, timeZone)) {
+        requirements.push({ start: slot.startTime, end: slot.endTime, headcount: slot.headcount });
+      }
+    }
+  }
+
+  return buildCoverageHeatmap(shifts, requirements, range.startDate, range.endDate, timeZone);
+}
+
+export async function getComplianceReport(range: AnalyticsRange, rules: Partial<ComplianceRules> = {}) {
+  const { timeZone, rangeStart, rangeEnd } = await resolveRange(range);
+  const [shifts, records] = await Promise.all([
+    loadShifts(range, rangeStart, rangeEnd, true),
+    loadAttendance(range.businessId, rangeStart, rangeEnd)
+  ]);
+  const employees = await loadEmployees(range.businessId, employeeIdsOf(shifts, records));
+  const appliedRules = { ...DEFAULT_COMPLIANCE_RULES, ...rules };
+  const issues = findComplianceIssues(shifts, records, employees, timeZone, appliedRules);
+
+  const counts: Record<ComplianceIssueType, number> = { OVERTIME: 0, SPLIT_SHIFT: 0, MISSED_BREAK: 0, SHORT_NOTICE: 0 };
+  for (const entry of issues) counts[entry.type]++;
+
+  return {
+    startDate: range.startDate,
+    endDate: range.endDate,
+    timezone: timeZone,
+    rules: appliedRules,
+    counts,
+    issues
+  };
+}
@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
 import { SchedulingMode, SchedulingStrategy, JobFunction, StationType } from '@prisma/client';
+import { solveSchedule, SolverEmployee, SolverSlot } from './schedulingSolverService';
 
 interface EmployeeAvailability {
   employeePositionId: string;
@@ -33,10 +34,29 @@ interface ShiftRequirement {
   minStaffing?: number;
   maxStaffing?: number;
   priority: number; // 1-10, higher = more important
+  templateId?: string;
+}
+
+const WEEK_DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Availability is stored as "MONDAY" while requirements use "Monday"
+const isSameDay = (a: string, b: string) => a.toUpperCase() === b.toUpperCase();
+
+interface TemplatePattern {
+  templateId: string;
+  name: string;
+  daysOfWeek: string[]; // empty = every day
+  startTime: number; // minutes from midnight
+  endTime: number; // minutes from midnight, at or before startTime when overnight
+  requiredHeadcount: number;
+  requiredRole?: string;
+  requiredStation?: string;
+  priority?: number;
 }
 
 interface ScheduleRecommendation {
   shiftId?: string;
+  shiftTemplateId?: string;
   employeePositionId: string;
   day: string;
   startTime: number;
@@ -51,6 +71,7 @@ interface PhilosophyContext {
   strategy: SchedulingStrategy;
   employees: EmployeeAvailability[];
   requirements: ShiftRequirement[];
+  templates?: TemplatePattern[];
   constraints?: {
     budgetLimit?: number;
     maxHoursPerEmployee?: number;
@@ -107,7 +128,7 @@ export class SchedulingPhilosophyService {
     for (const requirement of sortedRequirements) {
       const dayEmployees = context.employees.filter(emp => {
         // Check if employee is available on this day
-        const dayAvailability = emp.availability.find(a => a.day === requirement.day);
+        const dayAvailability = emp.availability.find(a => isSameDay(a.day, requirement.day));
         if (!dayAvailability || !dayAvailability.isAvailable) return false;
 
         // Check if employee has time slot available
@@ -133,8 +154,8 @@ export class SchedulingPhilosophyService {
 
       // Sort by preference score (prefer employees who prefer this day)
       dayEmployees.sort((a, b) => {
-        const aPrefers = a.preferences?.preferredDays?.includes(requirement.day) ? 1 : 0;
-        const bPrefers = b.preferences?.preferredDays?.includes(requirement.day) ? 1 : 0;
+        const aPrefers = a.preferences?.preferredDays?.some(day => isSameDay(day, requirement.day)) ? 1 : 0;
+        const bPrefers = b.preferences?.preferredDays?.some(day => isSameDay(day, requirement.day)) ? 1 : 0;
         if (aPrefers !== bPrefers) return bPrefers - aPrefers;
 
         // Then by current hours (spread hours evenly)
@@ -154,6 +175,7 @@ export class SchedulingPhilosophyService {
         assignedHours[employee.employeePositionId] += shiftHours;
 
         recommendations.push({
+          shiftTemplateId: requirement.templateId,
           employeePositionId: employee.employeePositionId,
           day: requirement.day,
           startTime: requirement.startTime,
@@ -200,7 +222,7 @@ export class SchedulingPhilosophyService {
     for (const requirement of sortedRequirements) {
       const dayEmployees = sortedEmployees.filter(emp => {
         // Check availability
-        const dayAvailability = emp.availability.find(a => a.day === requirement.day);
+        const dayAvailability = emp.availability.find(a => isSameDay(a.day, requirement.day));
         if (!dayAvailability || !dayAvailability.isAvailable) return false;
 
         if (dayAvailability.startTime !== undefined && dayAvailability.endTime !== undefined) {
@@ -282,7 +304,7 @@ export class SchedulingPhilosophyService {
     for (const requirement of sortedRequirements) {
       const dayEmployees = context.employees.filter(emp => {
         // Check availability
-        const dayAvailability = emp.availability.find(a => a.day === requirement.day);
+        const dayAvailability = emp.availability.find(a => isSameDay(a.day, requirement.day));
         if (!dayAvailability || !dayAvailability.isAvailable) return false;
 
         if (dayAvailability.startTime !== undefined && dayAvailability.endTime !== undefined) {
@@ -348,34 +370,118 @@ export class SchedulingPhilosophyService {
 
   /**
    * Template-Based Strategy
-   * Uses existing shift templates and patterns
+   * Staffs each day of the recurring shift templates with their required headcount
    */
   private static templateBasedStrategy(
     context: PhilosophyContext
   ): ScheduleRecommendation[] {
-    // This would integrate with ShiftTemplate model
-    // For now, fall back to availability-first
-    return this.availabilityFirstStrategy(context);
+    if (!context.templates?.length) {
+      return this.availabilityFirstStrategy(context);
+    }
+
+    const requirements = this.templateRequirements(context.templates);
+    const templateNames = new Map(context.templates.map(template => [template.templateId, template.name]));
+
+    return this.availabilityFirstStrategy({ ...context, requirements }).map(rec => ({
+      ...rec,
+      reason: `Fills "${templateNames.get(rec.shiftTemplateId ?? '')}" on ${rec.day}`,
+    }));
+  }
+
+  /**
+   * Expand templates into one requirement per scheduled weekday. Overnight templates
+   * end past 1440 minutes so durations and hour limits stay positive.
+   */
+  private static templateRequirements(templates: TemplatePattern[]): ShiftRequirement[] {
+    return templates.flatMap(template => {
+      const days = template.daysOfWeek.length > 0
+        ? WEEK_DAY_NAMES.filter(day => template.daysOfWeek.some(templateDay => isSameDay(templateDay.slice(0, 3), day.slice(0, 3))))
+        : WEEK_DAY_NAMES;
+      const endTime = template.endTime <= template.startTime ? template.endTime + 24 * 60 : template.endTime;
+
+      return days.map(day => ({
+        day,
+        startTime: template.startTime,
+        endTime,
+        requiredRole: template.requiredRole,
+        requiredStation: template.requiredStation,
+        minStaffing: template.requiredHeadcount,
+        maxStaffing: template.requiredHeadcount,
+        priority: template.priority ?? 5,
+        templateId: template.templateId,
+      }));
+    });
   }
 
   /**
    * Auto-Generate Strategy
-   * AI-powered automatic schedule generation
+   * Runs the constraint solver over the requirements (or templates when provided)
    */
   private static autoGenerateStrategy(
     context: PhilosophyContext
   ): ScheduleRecommendation[] {
-    // This would use a combination of all strategies with AI optimization
-    // For now, use a balanced approach
-    const availabilityRecs = this.availabilityFirstStrategy(context);
-    const budgetRecs = this.budgetFirstStrategy(context);
-    
-    // Merge and optimize
-    return availabilityRecs.map(rec => ({
-      ...rec,
-      confidence: rec.confidence * 0.9, // Slightly lower confidence for auto-generated
-      reason: 'AI-generated optimal assignment',
+    const requirements = context.templates?.length
+      ? this.templateRequirements(context.templates)
+      : context.requirements;
+
+    // Requirements only carry a weekday, so place them on a fixed reference week
+    // (2023-01-01 was a Sunday) to give the solver comparable instants for rest checks
+    const referenceSunday = Date.UTC(2023, 0, 1);
+    const requirementsBySlot = new Map<string, ShiftRequirement>();
+    const slots: SolverSlot[] = requirements.flatMap((requirement, index) => {
+      const dayIndex = WEEK_DAY_NAMES.findIndex(day => isSameDay(day, requirement.day));
+      const dayStart = referenceSunday + Math.max(dayIndex, 0) * 24 * 60 * 60000;
+      return Array.from({ length: requirement.minStaffing || 1 }, (_, seat) => {
+        const id = `${index}:${seat}`;
+        requirementsBySlot.set(id, requirement);
+        return {
+          id,
+          start: new Date(dayStart + requirement.startTime * 60000),
+          end: new Date(dayStart + requirement.endTime * 60000),
+          day: requirement.day.toUpperCase(),
+          startMinutes: requirement.startTime,
+          endMinutes: requirement.endTime,
+          priority: requirement.priority,
+          requiredRole: requirement.requiredRole,
+          requiredStation: requirement.requiredStation,
+          requiredJobFunction: requirement.requiredJobFunction,
+        };
+      });
+    });
+
+    const employees: SolverEmployee[] = context.employees.map(emp => ({
+      employeePositionId: emp.employeePositionId,
+      name: emp.userName,
+      positionTitle: emp.positionTitle,
+      stationName: emp.stationName,
+      jobFunction: emp.jobFunction,
+      hourlyRate: emp.hourlyRate,
+      maxHoursPerWeek: emp.preferences?.maxHoursPerWeek,
+      preferredDays: emp.preferences?.preferredDays?.map(day => day.toUpperCase()),
+      availability: emp.availability.map(entry => ({
+        day: entry.day,
+        startMinutes: entry.startTime,
+        endMinutes: entry.endTime,
+        type: entry.isAvailable ? 'AVAILABLE' as const : 'UNAVAILABLE' as const,
+      })),
+      timeOff: [],
+      commitments: [],
+      committedHours: emp.currentHoursThisWeek,
     }));
+
+    const result = solveSchedule(slots, employees, context.constraints);
+
+    return result.assignments.map(assignment => {
+      const requirement = requirementsBySlot.get(assignment.slotId)!;
+      return {
+        shiftTemplateId: requirement.templateId,
+        employeePositionId: assignment.employeePositionId,
+        day: requirement.day,
+        startTime: requirement.startTime,
+        endTime: requirement.endTime,
+        confidence: 0.9,
+        reason: assignment.reasons.join('; '),
+      };
+    });
   }
 }
-
@@ -0,0 +1,601 @@
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { getZonedParts } from './hrAttendanceService';
+import { generateWeekFromTemplates } from './shiftTemplateService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_MAX_HOURS_PER_WEEK = 40;
+export const DEFAULT_MIN_REST_HOURS = 8;
+
+// Soft-goal weights; coverage is always preferred over any of these
+const COST_WEIGHT = 1;
+const FAIRNESS_WEIGHT = 2;
+const PREFERENCE_WEIGHT = 0.5;
+const OVER_BUDGET_WEIGHT = 5;
+const MAX_IMPROVEMENT_PASSES = 3;
+
+export type SolverRejection = 'unavailable' | 'timeOff' | 'unqualified' | 'overlap' | 'rest' | 'maxHours';
+
+export interface SolverSlot {
+  id: string;
+  start: Date;
+  end: Date;
+  day: string; // "MONDAY" in the schedule's timezone
+  startMinutes: number; // local minutes from midnight
+  endMinutes: number; // local minutes, past 1440 for overnight shifts
+  breakMinutes?: number | null;
+  priority?: number | null;
+  positionId?: string | null;
+  requiredRole?: string | null;
+  requiredStation?: string | null;
+  requiredJobFunction?: string | null;
+  label?: string;
+}
+
+export interface SolverAvailability {
+  day: string;
+  startMinutes?: number;
+  endMinutes?: number;
+  type: 'AVAILABLE' | 'PREFERRED' | 'UNAVAILABLE';
+}
+
+export interface SolverEmployee {
+  employeePositionId: string;
+  name: string;
+  positionId?: string | null;
+  positionTitle?: string | null;
+  stationName?: string | null;
+  jobFunction?: string | null;
+  hourlyRate?: number | null;
+  maxHoursPerWeek?: number | null;
+  preferredDays?: string[];
+  availability: SolverAvailability[];
+  /** Approved time off; `end` is exclusive (see timeOffWindow) */
+  timeOff: Array<{ start: Date; end: Date }>;
+  /** Shifts already assigned outside the solver, checked for overlap and rest */
+  commitments: Array<{ start: Date; end: Date }>;
+  /** Hours already worked this week; defaults to the length of the commitments */
+  committedHours?: number;
+}
+
+export interface SolverConstraints {
+  budgetLimit?: number;
+  maxHoursPerEmployee?: number;
+  minHoursBetweenShifts?: number;
+}
+
+export interface SolverAssignment {
+  slotId: string;
+  employeePositionId: string;
+  employeeName: string;
+  hours: number;
+  cost: number | null;
+  reasons: string[];
+}
+
+export interface SolverUnfilledSlot {
+  slotId: string;
+  label?: string;
+  start: Date;
+  end: Date;
+  rejected: Partial<Record<SolverRejection, number>>;
+  reasons: string[];
+}
+
+export interface SolverResult {
+  assignments: SolverAssignment[];
+  unfilled: SolverUnfilledSlot[];
+  summary: {
+    slots: number;
+    filled: number;
+    unfilled: number;
+    totalHours: number;
+    laborCost: number;
+    budgetLimit: number | null;
+    overBudget: boolean;
+    hoursByEmployee: Record<string, number>;
+  };
+}
+
+const REJECTION_LABELS: Record<SolverRejection, string> = {
+  unavailable: 'not available',
+  timeOff: 'on approved time off',
+  unqualified: 'not qualified for the position or station',
+  overlap: 'already working an overlapping shift',
+  rest: 'would not get the minimum rest between shifts',
+  maxHours: 'would exceed their weekly hour limit'
+};
+
+const formatMinutes = (minutes: number) => {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
+
+const titleCase = (day: string) => day.charAt(0) + day.slice(1).toLowerCase();
+
+const paidHours = (slot: SolverSlot) =>
+  Math.max(0, (slot.end.getTime() - slot.start.getTime()) / HOUR_MS - (slot.breakMinutes ?? 0) / 60);
+
+const overlaps = (a: { start: Date; end: Date }, b: { start: Date; end: Date }) => a.start < b.end && b.start < a.end;
+
+/**
+ * Availability entry that covers the slot, or null when the employee cannot work it.
+ * Employees who have not submitted any availability are treated as available.
+ * Overnight slots only need to be covered until midnight of their start day.
+ */
+const matchAvailability = (
+  employee: SolverEmployee,
+  slot: SolverSlot
+): { entry: SolverAvailability | null; ok: boolean } => {
+  if (employee.availability.length === 0) {
+    return { entry: null, ok: true };
+  }
+
+  const sameDay = employee.availability.filter((entry) => entry.day.toUpperCase() === slot.day);
+  const slotEnd = Math.min(slot.endMinutes, 24 * 60);
+  const covers = (entry: SolverAvailability) =>
+    (entry.startMinutes ?? 0) <= slot.startMinutes && (entry.endMinutes ?? 24 * 60) >= Math.min(slotEnd, 24 * 60 - 1);
+  const blocks = (entry: SolverAvailability) =>
+    (entry.startMinutes ?? 0) < slotEnd && (entry.endMinutes ?? 24 * 60) > slot.startMinutes;
+
+  if (sameDay.some((entry) => entry.type === 'UNAVAILABLE' && blocks(entry))) {
+    return { entry: null, ok: false };
+  }
+
+  const entry =
+    sameDay.find((candidate) => candidate.type === 'PREFERRED' && covers(candidate)) ??
+    sameDay.find((candidate) => candidate.type === 'AVAILABLE' && covers(candidate)) ??
+    null;
+  return { entry, ok: entry !== null };
+};
+
+const isQualified = (employee: SolverEmployee, slot: SolverSlot) => {
+  if (slot.positionId && employee.positionId !== slot.positionId) return false;
+  if (slot.requiredRole && employee.positionTitle !== slot.requiredRole) return false;
+  if (slot.requiredStation && employee.stationName !== slot.requiredStation) return false;
+  if (slot.requiredJobFunction && employee.jobFunction !== slot.requiredJobFunction) return false;
+  return true;
+};
+
+/**
+ * Assign employees to shift slots with a local constraint solver.
+ *
+ * Hard constraints (availability, approved time off, qualifications, overlapping shifts,
+ * minimum rest and weekly hour limits) are never broken. Among feasible employees the
+ * solver minimises a weighted cost of labor spend, uneven hour distribution and missed
+ * preferences. It fills the most constrained slots first, repairs gaps by moving one
+ * employee to free them up, then runs reassignment passes that lower the total cost.
+ */
+/**
+ * Time off requests store inclusive dates at midnight, so the window they block
+ * runs until the end of the last day.
+ */
+export function timeOffWindow(request: { startDate: Date; endDate: Date }): { start: Date; end: Date } {
+  return { start: request.startDate, end: new Date(request.endDate.getTime() + DAY_MS) };
+}
+
+export function solveSchedule(
+  slots: SolverSlot[],
+  employees: SolverEmployee[],
+  constraints: SolverConstraints = {}
+): SolverResult {
+  const minRestMs = (constraints.minHoursBetweenShifts ?? DEFAULT_MIN_REST_HOURS) * HOUR_MS;
+  const budgetLimit = constraints.budgetLimit && constraints.budgetLimit > 0 ? constraints.budgetLimit : null;
+  const knownRates = employees.map((employee) => employee.hourlyRate ?? 0).filter((rate) => rate > 0);
+  const maxRate = knownRates.length > 0 ? Math.max(...knownRates) : 0;
+  const employeesById = new Map(employees.map((employee) => [employee.employeePositionId, employee]));
+  const slotsById = new Map(slots.map((slot) => [slot.id, slot]));
+
+  const maxHoursFor = (employee: SolverEmployee) =>
+    employee.maxHoursPerWeek ?? constraints.maxHoursPerEmployee ?? DEFAULT_MAX_HOURS_PER_WEEK;
+
+  const committedHours = new Map(
+    employees.map((employee) => [
+      employee.employeePositionId,
+      employee.committedHours ??
+        employee.commitments.reduce((total, shift) => total + (shift.end.getTime() - shift.start.getTime()) / HOUR_MS, 0)
+    ])
+  );
+
+  // Static eligibility does not depend on other assignments
+  const staticRejections = new Map<string, Partial<Record<SolverRejection, number>>>();
+  const candidates = new Map<string, SolverEmployee[]>();
+  for (const slot of slots) {
+    const rejected: Partial<Record<SolverRejection, number>> = {};
+    const eligible: SolverEmployee[] = [];
+    for (const employee of employees) {
+      let reason: SolverRejection | null = null;
+      if (!isQualified(employee, slot)) reason = 'unqualified';
+      else if (employee.timeOff.some((off) => off.start < slot.end && off.end > slot.start)) reason = 'timeOff';
+      else if (!matchAvailability(employee, slot).ok) reason = 'unavailable';
+
+      if (reason) rejected[reason] = (rejected[reason] ?? 0) + 1;
+      else eligible.push(employee);
+    }
+    staticRejections.set(slot.id, rejected);
+    candidates.set(slot.id, eligible);
+  }
+
+  // Current solution: slot -> employee, employee -> slots
+  const assignedTo = new Map<string, string>();
+  const slotsOf = new Map<string, Set<string>>(employees.map((employee) => [employee.employeePositionId, new Set()]));
+
+  const hoursOf = (employeeId: string) => {
+    let hours = committedHours.get(employeeId) ?? 0;
+    for (const slotId of slotsOf.get(employeeId) ?? []) hours += paidHours(slotsById.get(slotId)!);
+    return hours;
+  };
+
+  const laborCost = () => {
+    let total = 0;
+    for (const [slotId, employeeId] of assignedTo) {
+      total += paidHours(slotsById.get(slotId)!) * (employeesById.get(employeeId)!.hourlyRate ?? 0);
+    }
+    return total;
+  };
+
+  const assign = (slotId: string, employeeId: string) => {
+    assignedTo.set(slotId, employeeId);
+    slotsOf.get(employeeId)!.add(slotId);
+  };
+
+  const unassign = (slotId: string) => {
+    const employeeId = assignedTo.get(slotId);
+    if (!employeeId) return;
+    assignedTo.delete(slotId);
+    slotsOf.get(employeeId)!.delete(slotId);
+  };
+
+  /** Assigned slots and commitments that stop this employee from also taking `slot` */
+  const dynamicConflict = (employee: SolverEmployee, slot: SolverSlot): { reason: SolverRejection; slotIds: string[] } | null => {
+    const own = [...(slotsOf.get(employee.employeePositionId) ?? [])].map((id) => slotsById.get(id)!);
+    const overlapping = own.filter((other) => overlaps(other, slot));
+    if (overlapping.length > 0 || employee.commitments.some((shift) => overlaps(shift, slot))) {
+      return { reason: 'overlap', slotIds: overlapping.map((other) => other.id) };
+    }
+
+    const tooClose = (other: { start: Date; end: Date }) =>
+      (other.end <= slot.start && slot.start.getTime() - other.end.getTime() < minRestMs) ||
+      (other.start >= slot.end && other.start.getTime() - slot.end.getTime() < minRestMs);
+    const restBlocking = own.filter(tooClose);
+    if (restBlocking.length > 0 || employee.commitments.some(tooClose)) {
+      return { reason: 'rest', slotIds: restBlocking.map((other) => other.id) };
+    }
+
+    if (hoursOf(employee.employeePositionId) + paidHours(slot) > maxHoursFor(employee) + 1e-9) {
+      return { reason: 'maxHours', slotIds: own.map((other) => other.id) };
+    }
+
+    return null;
+  };
+
+  /** Soft cost of giving `slot` to `employee` on top of the current solution */
+  const candidateCost = (employee: SolverEmployee, slot: SolverSlot) => {
+    const hours = paidHours(slot);
+    const rate = employee.hourlyRate ?? 0;
+    const load = (hoursOf(employee.employeePositionId) + hours) / maxHoursFor(employee);
+    const availability = matchAvailability(employee, slot).entry;
+    const prefers =
+      availability?.type === 'PREFERRED' ||
+      (employee.preferredDays ?? []).some((day) => day.toUpperCase() === slot.day);
+
+    let cost = FAIRNESS_WEIGHT * load * load;
+    if (maxRate > 0) cost += COST_WEIGHT * (rate / maxRate);
+    if (!prefers) cost += PREFERENCE_WEIGHT;
+    if (budgetLimit !== null && laborCost() + hours * rate > budgetLimit) cost += OVER_BUDGET_WEIGHT;
+    return cost;
+  };
+
+  const bestCandidate = (slot: SolverSlot, exclude?: string) => {
+    let best: { employee: SolverEmployee; cost: number } | null = null;
+    for (const employee of candidates.get(slot.id) ?? []) {
+      if (employee.employeePositionId === exclude || dynamicConflict(employee, slot)) continue;
+      const cost = candidateCost(employee, slot);
+      if (!best || cost < best.cost) best = { employee, cost };
+    }
+    return best;
+  };
+
+  // 1. Greedy fill, most constrained slots first
+  const order = [...slots].sort(
+    (a, b) =>
+      (candidates.get(a.id)?.length ?? 0) - (candidates.get(b.id)?.length ?? 0) ||
+      (b.priority ?? 5) - (a.priority ?? 5) ||
+      a.start.getTime() - b.start.getTime()
+  );
+  for (const slot of order) {
+    const best = bestCandidate(slot);
+    if (best) assign(slot.id, best.employee.employeePositionId);
+  }
+
+  // 2. Repair: free an eligible employee by handing one of their shifts to someone else
+  for (const slot of order) {
+    if (assignedTo.has(slot.id)) continue;
+    for (const employee of candidates.get(slot.id) ?? []) {
+      const conflict = dynamicConflict(employee, slot);
+      if (!conflict || conflict.slotIds.length !== 1) continue;
+
+      const [blockingId] = conflict.slotIds;
+      unassign(blockingId);
+      if (!dynamicConflict(employee, slot)) {
+        assign(slot.id, employee.employeePositionId);
+        const replacement = bestCandidate(slotsById.get(blockingId)!, employee.employeePositionId);
+        if (replacement) {
+          assign(blockingId, replacement.employee.employeePositionId);
+          break;
+        }
+        unassign(slot.id);
+      }
+      assign(blockingId, employee.employeePositionId);
+    }
+  }
+
+  // 3. Improvement passes: move a shift to another feasible employee when it lowers the cost
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (const slot of order) {
+      const currentId = assignedTo.get(slot.id);
+      if (!currentId) continue;
+
+      unassign(slot.id);
+      const currentCost = candidateCost(employeesById.get(currentId)!, slot);
+      const best = bestCandidate(slot);
+      if (best && best.employee.employeePositionId !== currentId && best.cost < currentCost - 1e-6) {
+        assign(slot.id, best.employee.employeePositionId);
+        improved = true;
+      } else {
+        assign(slot.id, currentId);
+      }
+    }
+    if (!improved) break;
+  }
+
+  // Explain the final solution
+  const assignments: SolverAssignment[] = [];
+  const unfilled: SolverUnfilledSlot[] = [];
+
+  for (const slot of slots) {
+    const employeeId = assignedTo.get(slot.id);
+    if (employeeId) {
+      const employee = employeesById.get(employeeId)!;
+      const hours = paidHours(slot);
+      const availability = matchAvailability(employee, slot).entry;
+      const others = (candidates.get(slot.id)?.length ?? 1) - 1;
+      const reasons = [
+        availability
+          ? `${availability.type === 'PREFERRED' ? 'Prefers' : 'Available'} ${titleCase(slot.day)} ${formatMinutes(slot.startMinutes)}–${formatMinutes(slot.endMinutes)}`
+          : 'No availability on file, treated as available'
+      ];
+      if (slot.positionId || slot.requiredRole || slot.requiredStation || slot.requiredJobFunction) {
+        reasons.push(`Qualified as ${[employee.positionTitle, employee.stationName].filter(Boolean).join(' / ') || 'required'}`);
+      }
+      reasons.push(`${Math.round(hoursOf(employeeId) * 10) / 10}h of ${maxHoursFor(employee)}h weekly limit`);
+      if (employee.hourlyRate) reasons.push(`Costs ${(hours * employee.hourlyRate).toFixed(2)} at ${employee.hourlyRate}/h`);
+      reasons.push(others > 0 ? `Best fit of ${others + 1} eligible employees` : 'Only eligible employee');
+
+      assignments.push({
+        slotId: slot.id,
+        employeePositionId: employeeId,
+        employeeName: employee.name,
+        hours,
+        cost: employee.hourlyRate ? hours * employee.hourlyRate : null,
+        reasons
+      });
+      continue;
+    }
+
+    const rejected = { ...staticRejections.get(slot.id) };
+    for (const employee of candidates.get(slot.id) ?? []) {
+      const conflict = dynamicConflict(employee, slot);
+      if (conflict) rejected[conflict.reason] = (rejected[conflict.reason] ?? 0) + 1;
+    }
+    const reasons =
+      employees.length === 0
+        ? ['No active employees to schedule']
+        : (Object.entries(rejected) as Array<[SolverRejection, number]>).map(
+            ([reason, count]) => `${count} employee${count === 1 ? '' : 's'} ${REJECTION_LABELS[reason]}`
+          );
+
+    unfilled.push({ slotId: slot.id, label: slot.label, start: slot.start, end: slot.end, rejected, reasons });
+  }
+
+  const hoursByEmployee: Record<string, number> = {};
+  for (const assignment of assignments) {
+    hoursByEmployee[assignment.employeePositionId] = (hoursByEmployee[assignment.employeePositionId] ?? 0) + assignment.hours;
+  }
+  const totalCost = laborCost();
+
+  return {
+    assignments,
+    unfilled,
+    summary: {
+      slots: slots.length,
+      filled: assignments.length,
+      unfilled: unfilled.length,
+      totalHours: assignments.reduce((total, assignment) => total + assignment.hours, 0),
+      laborCost: Math.round(totalCost * 100) / 100,
+      budgetLimit,
+      overBudget: budgetLimit !== null && totalCost > budgetLimit,
+      hoursByEmployee
+    }
+  };
+}
+
+const timeToMinutes = (value?: string | null) => {
+  if (!value) return undefined;
+  const [hours, minutes] = value.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+};
+
+export interface AutoScheduleInput {
+  businessId: string;
+  userId: string;
+  scheduleId?: string;
+  weekStart?: string;
+  name?: string;
+  timezone?: string;
+  constraints?: SolverConstraints;
+}
+
+/**
+ * Solve the open shifts of a draft schedule and save the assignments.
+ * Without a schedule, a new draft is created for `weekStart` from the active shift templates.
+ * Unfilled slots stay as open shifts so managers can see the gaps.
+ */
+export async function runAutoScheduler(input: AutoScheduleInput) {
+  let scheduleId = input.scheduleId;
+
+  if (!scheduleId) {
+    if (!input.weekStart) {
+      throw new Error('scheduleId or weekStart must be provided');
+    }
+    const generated = await generateWeekFromTemplates({
+      businessId: input.businessId,
+      userId: input.userId,
+      weekStart: input.weekStart,
+      name: input.name,
+      timezone: input.timezone
+    });
+    scheduleId = generated.schedule.id;
+  }
+
+  const schedule = await prisma.schedule.findFirst({ where: { id: scheduleId, businessId: input.businessId } });
+  if (!schedule) {
+    throw new Error('Schedule not found');
+  }
+  if (schedule.status !== 'DRAFT') {
+    throw new Error('Schedule must be a draft to auto-schedule');
+  }
+
+  const openShiftWhere = {
+    scheduleId: schedule.id,
+    employeePositionId: null,
+    status: { not: 'CANCELLED' as const }
+  };
+  let openShifts = await prisma.scheduleShift.findMany({ where: openShiftWhere, orderBy: { startTime: 'asc' } });
+
+  // An existing draft without open shifts is seeded from the templates for its first week
+  if (openShifts.length === 0 && input.scheduleId) {
+    const start = getZonedParts(schedule.startDate, schedule.timezone);
+    const weekStart = `${start.year}-${String(start.month).padStart(2, '0')}-${String(start.day).padStart(2, '0')}`;
+    const templateCount = await prisma.shiftTemplate.count({ where: { businessId: input.businessId, isActive: true } });
+    if (templateCount > 0) {
+      await generateWeekFromTemplates({ businessId: input.businessId, userId: input.userId, weekStart, scheduleId: schedule.id });
+      openShifts = await prisma.scheduleShift.findMany({ where: openShiftWhere, orderBy: { startTime: 'asc' } });
+    }
+  }
+
+  if (openShifts.length === 0) {
+    throw new Error('Schedule has no open shifts to fill; add shifts or shift templates first');
+  }
+
+  const rangeStart = new Date(Math.min(...openShifts.map((shift) => shift.startTime.getTime())) - 24 * HOUR_MS);
+  const rangeEnd = new Date(Math.max(...openShifts.map((shift) => shift.endTime.getTime())) + 24 * HOUR_MS);
+
+  const [employeePositions, timeOff, commitments] = await Promise.all([
+    prisma.employeePosition.findMany({
+      where: { businessId: input.businessId, active: true },
+      include: {
+        user: { select: { name: true, email: true } },
+        position: { select: { id: true, title: true, jobFunction: true, stationName: true } },
+        hrProfile: { select: { payType: true, payRate: true, deletedAt: true } },
+        availability: {
+          where: {
+            effectiveFrom: { lte: rangeEnd },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gte: rangeStart } }]
+          }
+        }
+      }
+    }),
+    prisma.timeOffRequest.findMany({
+      where: {
+        businessId: input.businessId,
+        status: 'APPROVED',
+        startDate: { lte: rangeEnd },
+        endDate: { gte: rangeStart }
+      },
+      select: { employeePositionId: true, startDate: true, endDate: true }
+    }),
+    prisma.scheduleShift.findMany({
+      where: {
+        businessId: input.businessId,
+        employeePositionId: { not: null },
+        status: { not: 'CANCELLED' },
+        startTime: { lt: rangeEnd },
+        endTime: { gt: rangeStart }
+      },
+      select: { employeePositionId: true, startTime: true, endTime: true }
+    })
+  ]);
+
+  const employees: SolverEmployee[] = employeePositions
+    .filter((ep) => !ep.hrProfile?.deletedAt)
+    .map((ep) => ({
+      employeePositionId: ep.id,
+      name: ep.user.name || ep.user.email,
+      positionId: ep.position.id,
+      positionTitle: ep.position.title,
+      stationName: ep.position.stationName,
+      jobFunction: ep.position.jobFunction,
+      hourlyRate: ep.hrProfile?.payType === 'HOURLY' ? ep.hrProfile.payRate : null,
+      availability: ep.availability.map((entry) => ({
+        day: entry.dayOfWeek,
+        startMinutes: timeToMinutes(entry.startTime),
+        endMinutes: timeToMinutes(entry.endTime),
+        type: entry.availabilityType
+      })),
+      timeOff: timeOff
+        .filter((request) => request.employeePositionId === ep.id)
+        .map(timeOffWindow),
+      commitments: commitments
+        .filter((shift) => shift.employeePositionId === ep.id)
+        .map((shift) => ({ start: shift.startTime, end: shift.endTime }))
+    }));
+
+  const slots: SolverSlot[] = openShifts.map((shift) => {
+    const local = getZonedParts(shift.startTime, schedule.timezone);
+    const startMinutes = local.hour * 60 + local.minute;
+    return {
+      id: shift.id,
+      start: shift.startTime,
+      end: shift.endTime,
+      day: local.weekday,
+      startMinutes,
+      endMinutes: startMinutes + Math.round((shift.endTime.getTime() - shift.startTime.getTime()) / 60000),
+      breakMinutes: shift.breakMinutes,
+      priority: shift.priority,
+      positionId: shift.positionId,
+      requiredStation: shift.stationName,
+      requiredJobFunction: shift.jobFunction,
+      label: shift.title
+    };
+  });
+
+  const result = solveSchedule(slots, employees, input.constraints);
+
+  await prisma.$transaction(
+    result.assignments.map((assignment) =>
+      prisma.scheduleShift.update({
+        where: { id: assignment.slotId },
+        data: {
+          employeePositionId: assignment.employeePositionId,
+          isOpenShift: false,
+          status: 'SCHEDULED'
+        }
+      })
+    )
+  );
+
+  logger.info('Auto-scheduler filled draft schedule', {
+    operation: 'auto_schedule',
+    businessId: input.businessId,
+    scheduleId: schedule.id,
+    slots: result.summary.slots,
+    filled: result.summary.filled,
+    unfilled: result.summary.unfilled
+  });
+
+  return { schedule, result };
+}
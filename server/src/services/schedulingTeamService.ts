@@ -0,0 +1,70 @@
+import { prisma } from '../lib/prisma';
+
+export interface ReportingLinks {
+  /** Active ManagerApprovalHierarchy rows */
+  approvals: Array<{ managerPositionId: string; employeePositionId: string }>;
+  /** Active employee positions with the org-chart position their seat reports to */
+  seats: Array<{ id: string; positionId: string; reportsToPositionId: string | null }>;
+}
+
+/**
+ * Walk everyone below a manager in the org chart. An employee reports to the manager either
+ * through an explicit ManagerApprovalHierarchy entry or because their position reports to the
+ * manager's position; both links are followed transitively. The manager is never included.
+ */
+export function collectTeamSubtree(managerEmployeePositionId: string, links: ReportingLinks): string[] {
+  const seatsById = new Map(links.seats.map((seat) => [seat.id, seat]));
+  const seatsByReportsTo = new Map<string, string[]>();
+  for (const seat of links.seats) {
+    if (!seat.reportsToPositionId) continue;
+    seatsByReportsTo.set(seat.reportsToPositionId, [...(seatsByReportsTo.get(seat.reportsToPositionId) ?? []), seat.id]);
+  }
+  const approvalsByManager = new Map<string, string[]>();
+  for (const approval of links.approvals) {
+    approvalsByManager.set(approval.managerPositionId, [
+      ...(approvalsByManager.get(approval.managerPositionId) ?? []),
+      approval.employeePositionId
+    ]);
+  }
+
+  const visited = new Set([managerEmployeePositionId]);
+  const team: string[] = [];
+  const queue = [managerEmployeePositionId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const positionId = seatsById.get(current)?.positionId;
+    const reports = [
+      ...(approvalsByManager.get(current) ?? []),
+      ...(positionId ? seatsByReportsTo.get(positionId) ?? [] : [])
+    ];
+
+    for (const report of reports) {
+      if (visited.has(report) || !seatsById.has(report)) continue;
+      visited.add(report);
+      team.push(report);
+      queue.push(report);
+    }
+  }
+
+  return team;
+}
+
+/** Active employee positions in a manager's org-chart subtree */
+export async function getManagedEmployeePositionIds(businessId: string, managerEmployeePositionId: string) {
+  const [approvals, seats] = await Promise.all([
+    prisma.managerApprovalHierarchy.findMany({
+      where: { businessId, active: true },
+      select: { managerPositionId: true, employeePositionId: true }
+    }),
+    prisma.employeePosition.findMany({
+      where: { businessId, active: true },
+      select: { id: true, positionId: true, position: { select: { reportsToId: true } } }
+    })
+  ]);
+
+  return collectTeamSubtree(managerEmployeePositionId, {
+    approvals,
+    seats: seats.map((seat) => ({ id: seat.id, positionId: seat.positionId, reportsToPositionId: seat.position.reportsToId }))
+  });
+}
@@ -0,0 +1,437 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const SHARED_DRIVE_ROLES = ['VIEWER', 'CONTRIBUTOR', 'MANAGER'] as const;
+export type SharedDriveRole = typeof SHARED_DRIVE_ROLES[number];
+
+const MAX_NAME_LENGTH = 120;
+
+/**
+ * Raised for shared drive requests that can't be served; `status` is the HTTP status to answer with.
+ */
+export class SharedDriveError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'SharedDriveError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function isSharedDriveRole(value: unknown): value is SharedDriveRole {
+  return typeof value === 'string' && (SHARED_DRIVE_ROLES as readonly string[]).includes(value);
+}
+
+export function roleRank(role: SharedDriveRole | null | undefined): number {
+  return role ? SHARED_DRIVE_ROLES.indexOf(role) : -1;
+}
+
+/**
+ * Effective role from every source of access. Business admins manage every drive of
+ * their business, so a drive can't be locked out when its managers leave.
+ */
+export function resolveDriveRole(input: {
+  isBusinessMember: boolean;
+  isBusinessAdmin: boolean;
+  memberRole?: SharedDriveRole | null;
+  departmentRoles?: SharedDriveRole[];
+}): SharedDriveRole | null {
+  if (!input.isBusinessMember) return null;
+  if (input.isBusinessAdmin) return 'MANAGER';
+  let role: SharedDriveRole | null = input.memberRole ?? null;
+  for (const candidate of input.departmentRoles ?? []) {
+    if (roleRank(candidate) > roleRank(role)) role = candidate;
+  }
+  return role;
+}
+
+async function getBusinessMembership(businessId: string, userId: string) {
+  return prisma.businessMember.findFirst({
+    where: { businessId, userId, isActive: true },
+    select: { role: true, canManage: true }
+  });
+}
+
+/** Departments of the user's active positions, plus the departments above them */
+export async function getUserDepartmentIds(businessId: string, userId: string): Promise<string[]> {
+  const positions = await prisma.employeePosition.findMany({
+    where: { businessId, userId, active: true },
+    select: { position: { select: { departmentId: true } } }
+  });
+  const departmentIds = new Set<string>();
+  let frontier = positions
+    .map((assignment) => assignment.position.departmentId)
+    .filter((id): id is string => Boolean(id));
+  while (frontier.length > 0) {
+    frontier.forEach((id) => departmentIds.add(id));
+    const parents = await prisma.department.findMany({
+      where: { id: { in: frontier }, parentDepartmentId: { not: null } },
+      select: { parentDepartmentId: true }
+    });
+    frontier = parents
+      .map((department) => department.parentDepartmentId!)
+      .filter((id) => !departmentIds.has(id));
+  }
+  return [...departmentIds];
+}
+
+export async function getDriveRole(userId: string, sharedDriveId: string): Promise<SharedDriveRole | null> {
+  const drive = await prisma.sharedDrive.findUnique({ where: { id: sharedDriveId }, select: { businessId: true } });
+  if (!drive) return null;
+  const membership = await getBusinessMembership(drive.businessId, userId);
+  if (!membership) return null;
+
+  const [member, departmentIds] = await Promise.all([
+    prisma.sharedDriveMember.findUnique({
+      where: { sharedDriveId_userId: { sharedDriveId, userId } },
+      select: { role: true }
+    }),
+    getUserDepartmentIds(drive.businessId, userId)
+  ]);
+  const grants = departmentIds.length > 0
+    ? await prisma.sharedDriveDepartment.findMany({
+        where: { sharedDriveId, departmentId: { in: departmentIds } },
+        select: { role: true }
+      })
+    : [];
+
+  return resolveDriveRole({
+    isBusinessMember: true,
+    isBusinessAdmin: membership.role === 'ADMIN' || membership.canManage,
+    memberRole: member?.role as SharedDriveRole | undefined,
+    departmentRoles: grants.map((grant) => grant.role as SharedDriveRole)
+  });
+}
+
+export async function hasDriveRole(userId: string, sharedDriveId: string, minimum: SharedDriveRole): Promise<boolean> {
+  return roleRank(await getDriveRole(userId, sharedDriveId)) >= roleRank(minimum);
+}
+
+export async function assertDriveRole(userId: string, sharedDriveId: string, minimum: SharedDriveRole): Promise<SharedDriveRole> {
+  const drive = await prisma.sharedDrive.findUnique({ where: { id: sharedDriveId }, select: { id: true } });
+  if (!drive) throw new SharedDriveError(404, 'drive_not_found', 'Shared drive not found');
+  const role = await getDriveRole(userId, sharedDriveId);
+  if (roleRank(role) < roleRank(minimum)) {
+    throw new SharedDriveError(403, 'forbidden', 'You do not have access to this shared drive');
+  }
+  return role!;
+}
+
+function normalizeName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new SharedDriveError(400, 'invalid_name', `Name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+}
+
+/** Drives of a business the user can open, with their role in each */
+export async function listDrives(userId: string, businessId: string) {
+  const membership = await getBusinessMembership(businessId, userId);
+  if (!membership) throw new SharedDriveError(403, 'forbidden', 'You are not a member of this business');
+
+  const drives = await prisma.sharedDrive.findMany({
+    where: { businessId },
+    include: { _count: { select: { members: true, departments: true } } },
+    orderBy: { name: 'asc' }
+  });
+  const withRoles = await Promise.all(
+    drives.map(async (drive) => ({ ...drive, role: await getDriveRole(userId, drive.id) }))
+  );
+  return withRoles.filter((drive) => drive.role !== null);
+}
+
+/** Business admins and managers create drives and become their first manager */
+export async function createDrive(userId: string, input: { businessId?: unknown; name?: unknown; description?: unknown }) {
+  if (typeof input.businessId !== 'string') {
+    throw new SharedDriveError(400, 'invalid_business', 'businessId is required');
+  }
+  const membership = await getBusinessMembership(input.businessId, userId);
+  if (!membership || (membership.role === 'EMPLOYEE' && !membership.canManage)) {
+    throw new SharedDriveError(403, 'forbidden', 'Only business admins and managers can create shared drives');
+  }
+
+  try {
+    return await prisma.sharedDrive.create({
+      data: {
+        businessId: input.businessId,
+        name: normalizeName(input.name),
+        description: typeof input.description === 'string' ? input.description.trim() || null : null,
+        createdById: userId,
+        members: { create: { userId, role: 'MANAGER', addedById: userId } }
+      }
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new SharedDriveError(409, 'name_taken', 'A shared drive with this name already exists');
+    }
+    throw err;
+  }
+}
+
+export async function getDrive(userId: string, sharedDriveId: string) {
+  const role = await assertDriveRole(userId, sharedDriveId, 'VIEWER');
+  const drive = await prisma.sharedDrive.findUniqueOrThrow({
+    where: { id: sharedDriveId },
+    include: {
+      members: {
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: 'asc' }
+      },
+      departments: {
+        include: { department: { select: { id: true, name: true } } },
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+  return { ...drive, role };
+}
+
+export async function updateDrive(userId: string, sharedDriveId: string, input: { name?: unknown; description?: unknown }) {
+  await assertDriveRole(userId, sharedDriveId, 'MANAGER');
+  const data: Prisma.SharedDriveUpdateInput = {};
+  if (input.name !== undefined) data.name = normalizeName(input.name);
+  if (input.description !== undefined) {
+    data.description = typeof input.description === 'string' ? input.description.trim() || null : null;
+  }
+  try {
+    return await prisma.sharedDrive.update({ where: { id: sharedDriveId }, data });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new SharedDriveError(409, 'name_taken', 'A shared drive with this name already exists');
+    }
+    throw err;
+  }
+}
+
+/** Only empty drives can be deleted, so business files are never dropped with their drive */
+export async function deleteDrive(userId: string, sharedDriveId: string) {
+  await assertDriveRole(userId, sharedDriveId, 'MANAGER');
+  const [files, folders] = await Promise.all([
+    prisma.file.count({ where: { sharedDriveId } }),
+    prisma.folder.count({ where: { sharedDriveId } })
+  ]);
+  if (files + folders > 0) {
+    throw new SharedDriveError(409, 'drive_not_empty', 'Move or permanently delete the items in this drive first');
+  }
+  await prisma.sharedDrive.delete({ where: { id: sharedDriveId } });
+}
+
+// A drive keeps at least one direct manager besides business admins
+async function assertKeepsManager(sharedDriveId: string, userId: string) {
+  const otherManagers = await prisma.sharedDriveMember.count({
+    where: { sharedDriveId, role: 'MANAGER', userId: { not: userId } }
+  });
+  if (otherManagers === 0) {
+    throw new SharedDriveError(409, 'last_manager', 'A shared drive needs at least one manager');
+  }
+}
+
+export async function setMember(actorId: string, sharedDriveId: string, userId: unknown, role: unknown) {
+  await assertDriveRole(actorId, sharedDriveId, 'MANAGER');
+  if (typeof userId !== 'string') throw new SharedDriveError(400, 'invalid_user', 'userId is required');
+  if (!isSharedDriveRole(role)) throw new SharedDriveError(400, 'invalid_role', 'role must be MANAGER, CONTRIBUTOR or VIEWER');
+
+  const drive = await prisma.sharedDrive.findUniqueOrThrow({ where: { id: sharedDriveId }, select: { businessId: true } });
+  if (!(await getBusinessMembership(drive.businessId, userId))) {
+    throw new SharedDriveError(400, 'not_a_member', 'Only members of the business can be added to its shared drives');
+  }
+  if (role !== 'MANAGER') {
+    const current = await prisma.sharedDriveMember.findUnique({
+      where: { sharedDriveId_userId: { sharedDriveId, userId } },
+      select: { role: true }
+    });
+    if (current?.role === 'MANAGER') await assertKeepsManager(sharedDriveId, userId);
+  }
+
+  return prisma.sharedDriveMember.upsert({
+    where: { sharedDriveId_userId: { sharedDriveId, userId } },
+    update: { role },
+    create: { sharedDriveId, userId, role, addedById: actorId },
+    include: { user: { select: { id: true, name: true, email: true } } }
+  });
+}
+
+/** Removing a member only removes their access; items they created stay in the drive */
+export async function removeMember(actorId: string, sharedDriveId: string, userId: string) {
+  await assertDriveRole(actorId, sharedDriveId, 'MANAGER');
+  const member = await prisma.sharedDriveMember.findUnique({
+    where: { sharedDriveId_userId: { sharedDriveId, userId } },
+    select: { role: true }
+  });
+  if (!member) throw new SharedDriveError(404, 'member_not_found', 'Member not found');
+  if (member.role === 'MANAGER') await assertKeepsManager(sharedDriveId, userId);
+  await prisma.sharedDriveMember.delete({ where: { sharedDriveId_userId: { sharedDriveId, userId } } });
+}
+
+export async function setDepartmentRole(actorId: string, sharedDriveId: string, departmentId: unknown, role: unknown) {
+  await assertDriveRole(actorId, sharedDriveId, 'MANAGER');
+  if (typeof departmentId !== 'string') throw new SharedDriveError(400, 'invalid_department', 'departmentId is required');
+  if (!isSharedDriveRole(role)) throw new SharedDriveError(400, 'invalid_role', 'role must be MANAGER, CONTRIBUTOR or VIEWER');
+
+  const drive = await prisma.sharedDrive.findUniqueOrThrow({ where: { id: sharedDriveId }, select: { businessId: true } });
+  const department = await prisma.department.findFirst({ where: { id: departmentId, businessId: drive.businessId } });
+  if (!department) throw new SharedDriveError(404, 'department_not_found', 'Department not found in this business');
+
+  return prisma.sharedDriveDepartment.upsert({
+    where: { sharedDriveId_departmentId: { sharedDriveId, departmentId } },
+    update: { role },
+    create: { sharedDriveId, departmentId, role },
+    include: { department: { select: { id: true, name: true } } }
+  });
+}
+
+export async function removeDepartment(actorId: string, sharedDriveId: string, departmentId: string) {
+  await assertDriveRole(actorId, sharedDriveId, 'MANAGER');
+  const deleted = await prisma.sharedDriveDepartment.deleteMany({ where: { sharedDriveId, departmentId } });
+  if (deleted.count === 0) throw new SharedDriveError(404, 'department_not_found', 'Department access not found');
+}
+
+/**
+ * Shared drive new content goes to: the drive of the target folder, or the requested
+ * drive at its root. Adding content needs the contributor role.
+ */
+export async function resolveTargetDrive(
+  userId: string,
+  target: { folderId?: string | null; sharedDriveId?: unknown }
+): Promise<string | null> {
+  let sharedDriveId: string | null = null;
+  if (target.folderId) {
+    const folder = await prisma.folder.findUnique({ where: { id: target.folderId }, select: { sharedDriveId: true } });
+    sharedDriveId = folder?.sharedDriveId ?? null;
+  } else if (typeof target.sharedDriveId === 'string' && target.sharedDriveId) {
+    sharedDriveId = target.sharedDriveId;
+  }
+  if (sharedDriveId) await assertDriveRole(userId, sharedDriveId, 'CONTRIBUTOR');
+  return sharedDriveId;
+}
+
+/** Where a target folder lives; moves must stay within one drive (or within personal Drive) */
+export async function assertSameDrive(itemSharedDriveId: string | null, targetFolderId: string | null | undefined) {
+  if (!targetFolderId) return;
+  const target = await prisma.folder.findUnique({ where: { id: targetFolderId }, select: { sharedDriveId: true } });
+  if ((target?.sharedDriveId ?? null) !== itemSharedDriveId) {
+    throw new SharedDriveError(400, 'cross_drive_move', 'Items cannot be moved between a shared drive and another drive');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Offboarding: hand a departing member's business files to the business
+// ---------------------------------------------------------------------------
+
+export type DriveTransferTarget =
+  | { target: 'shared_drive'; sharedDriveId: string }
+  | { target: 'manager' };
+
+export interface DriveTransferDestination {
+  sharedDriveId: string | null;
+  userId: string;
+  dashboardId: string | null;
+}
+
+/**
+ * The manager of an employee: whoever actively holds the position their position reports to.
+ */
+export async function findManagerUserId(businessId: string, employeePositionId: string): Promise<string | null> {
+  const assignment = await prisma.employeePosition.findUnique({
+    where: { id: employeePositionId },
+    select: { position: { select: { reportsToId: true } } }
+  });
+  const reportsToId = assignment?.position.reportsToId;
+  if (!reportsToId) return null;
+  const manager = await prisma.employeePosition.findFirst({
+    where: { businessId, positionId: reportsToId, active: true },
+    orderBy: { startDate: 'asc' },
+    select: { userId: true }
+  });
+  return manager?.userId ?? null;
+}
+
+/**
+ * Check a transfer target before anything changes, so a bad target fails the whole
+ * offboarding request instead of leaving it half done.
+ */
+export async function resolveTransferDestination(
+  businessId: string,
+  employeePositionId: string,
+  actorId: string,
+  input: DriveTransferTarget
+): Promise<DriveTransferDestination> {
+  if (input.target === 'shared_drive') {
+    const drive = await prisma.sharedDrive.findFirst({ where: { id: input.sharedDriveId, businessId }, select: { id: true } });
+    if (!drive) throw new SharedDriveError(400, 'drive_not_found', 'Shared drive not found in this business');
+    return { sharedDriveId: drive.id, userId: actorId, dashboardId: null };
+  }
+
+  const managerId = await findManagerUserId(businessId, employeePositionId);
+  if (!managerId) throw new SharedDriveError(400, 'no_manager', 'This employee has no manager to receive their files');
+  const dashboard = await prisma.dashboard.findFirst({
+    where: { userId: managerId, businessId, trashedAt: null },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true }
+  });
+  if (!dashboard) throw new SharedDriveError(400, 'no_manager_dashboard', 'The manager has no dashboard in this business');
+  return { sharedDriveId: null, userId: managerId, dashboardId: dashboard.id };
+}
+
+/**
+ * Move a user's Drive items in a business into one folder at the destination. Items keep
+ * their structure; in a shared drive the departing user stays recorded as creator, while a
+ * manager becomes the owner outright.
+ */
+export async function transferBusinessFiles(
+  businessId: string,
+  fromUserId: string,
+  destination: DriveTransferDestination,
+  folderName: string
+): Promise<{ folderId: string | null; files: number; folders: number }> {
+  const owned = { userId: fromUserId, sharedDriveId: null, dashboard: { businessId } };
+  const [fileIds, folderIds] = await Promise.all([
+    prisma.file.findMany({ where: owned, select: { id: true } }).then((rows) => rows.map((row) => row.id)),
+    prisma.folder.findMany({ where: owned, select: { id: true } }).then((rows) => rows.map((row) => row.id))
+  ]);
+  if (fileIds.length === 0 && folderIds.length === 0) {
+    return { folderId: null, files: 0, folders: 0 };
+  }
+
+  const placement = destination.sharedDriveId
+    ? { sharedDriveId: destination.sharedDriveId, dashboardId: null }
+    : { userId: destination.userId, dashboardId: destination.dashboardId };
+
+  return prisma.$transaction(async (tx) => {
+    const container = await tx.folder.create({
+      data: {
+        name: folderName,
+        userId: destination.userId,
+        dashboardId: destination.dashboardId,
+        sharedDriveId: destination.sharedDriveId
+      }
+    });
+    // Items whose parent isn't moving go into the container; the rest keep their parents
+    await tx.folder.updateMany({
+      where: { id: { in: folderIds }, OR: [{ parentId: null }, { parentId: { notIn: folderIds } }] },
+      data: { parentId: container.id }
+    });
+    await tx.file.updateMany({
+      where: { id: { in: fileIds }, OR: [{ folderId: null }, { folderId: { notIn: folderIds } }] },
+      data: { folderId: container.id }
+    });
+    await tx.folder.updateMany({ where: { id: { in: folderIds } }, data: { ...placement, starred: false } });
+    await tx.file.updateMany({ where: { id: { in: fileIds } }, data: { ...placement, starred: false } });
+    if (destination.sharedDriveId) {
+      // Collaborators' files inside the moved folders belong to the drive as well
+      await tx.file.updateMany({
+        where: { folderId: { in: folderIds }, sharedDriveId: null },
+        data: { sharedDriveId: destination.sharedDriveId, dashboardId: null }
+      });
+    }
+    return { folderId: container.id, files: fileIds.length, folders: folderIds.length };
+  });
+}
@@ -0,0 +1,219 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { zonedMinutesToUtc } from './hrAttendanceService';
+
+/** Day names in `Date#getUTCDay` order, matching EmployeeAvailability.dayOfWeek */
+export const WEEK_DAYS = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'] as const;
+
+export const MAX_TEMPLATE_HEADCOUNT = 50;
+
+const DEFAULT_SCHEDULE_TIMEZONE = 'America/New_York';
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ShiftTemplatePattern {
+  id: string;
+  defaultStartTime: string;
+  defaultEndTime: string;
+  daysOfWeek: string[];
+  requiredHeadcount: number;
+}
+
+export interface ShiftTemplateSlot {
+  templateId: string;
+  date: string;
+  startTime: Date;
+  endTime: Date;
+  headcount: number;
+}
+
+export interface GenerateWeekInput {
+  businessId: string;
+  userId: string;
+  weekStart: string;
+  scheduleId?: string;
+  templateIds?: string[];
+  name?: string;
+  timezone?: string;
+}
+
+/**
+ * Normalize day names to the upper-case full names used across scheduling.
+ * Accepts abbreviations ("Mon") and any casing, drops duplicates and keeps week order.
+ */
+export function normalizeTemplateDays(days: string[]): string[] {
+  const indexes = new Set<number>();
+  for (const day of days) {
+    const prefix = day.trim().toUpperCase().slice(0, 3);
+    const index = WEEK_DAYS.findIndex((name) => name.startsWith(prefix));
+    if (prefix.length < 3 || index === -1) {
+      throw new Error(`Invalid day of week: ${day}`);
+    }
+    indexes.add(index);
+  }
+  return [...indexes].sort((a, b) => a - b).map((index) => WEEK_DAYS[index]);
+}
+
+export function timeToMinutes(value: string): number {
+  const [hours, minutes] = value.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return {
+    iso: shifted.toISOString().slice(0, 10),
+    parts: { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() },
+    weekday: WEEK_DAYS[shifted.getUTCDay()]
+  };
+};
+
+/**
+ * Expand templates into concrete shift slots for the seven days starting at `weekStart`.
+ * Times are wall-clock in `timeZone`; an end time at or before the start runs past midnight.
+ * Templates without days run every day.
+ */
+export function planTemplateWeek(
+  templates: ShiftTemplatePattern[],
+  weekStart: string,
+  timeZone: string
+): ShiftTemplateSlot[] {
+  const slots: ShiftTemplateSlot[] = [];
+
+  for (let offset = 0; offset < 7; offset++) {
+    const day = addDays(weekStart, offset);
+
+    for (const template of templates) {
+      const days = normalizeTemplateDays(template.daysOfWeek);
+      if (days.length > 0 && !days.includes(day.weekday)) continue;
+
+      const startMinutes = timeToMinutes(template.defaultStartTime);
+      let endMinutes = timeToMinutes(template.defaultEndTime);
+      if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+
+      slots.push({
+        templateId: template.id,
+        date: day.iso,
+        startTime: zonedMinutesToUtc(day.parts, startMinutes, timeZone),
+        endTime: zonedMinutesToUtc(day.parts, endMinutes, timeZone),
+        headcount: template.requiredHeadcount
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Create open shifts in a draft schedule for every template slot in the week.
+ * Re-running only tops up slots that have fewer shifts than the template's headcount,
+ * so existing shifts (assigned or not) are never duplicated or removed.
+ */
+export async function generateWeekFromTemplates(input: GenerateWeekInput) {
+  if (!DATE_ONLY_REGEX.test(input.weekStart) || Number.isNaN(Date.parse(input.weekStart))) {
+    throw new Error('weekStart must be a date in YYYY-MM-DD format');
+  }
+
+  const templates = await prisma.shiftTemplate.findMany({
+    where: {
+      businessId: input.businessId,
+      isActive: true,
+      ...(input.templateIds?.length ? { id: { in: input.templateIds } } : {})
+    },
+    include: { station: true }
+  });
+
+  if (templates.length === 0) {
+    throw new Error('No active shift templates found');
+  }
+
+  let schedule = input.scheduleId
+    ? await prisma.schedule.findFirst({ where: { id: input.scheduleId, businessId: input.businessId } })
+    : null;
+
+  if (input.scheduleId && !schedule) {
+    throw new Error('Schedule not found');
+  }
+  if (schedule && schedule.status !== 'DRAFT') {
+    throw new Error('Schedule must be a draft to generate shifts from templates');
+  }
+
+  const timeZone = schedule?.timezone || input.timezone || DEFAULT_SCHEDULE_TIMEZONE;
+  const slots = planTemplateWeek(templates, input.weekStart, timeZone);
+
+  if (!schedule) {
+    const weekEnd = addDays(input.weekStart, 7);
+    schedule = await prisma.schedule.create({
+      data: {
+        businessId: input.businessId,
+        name: input.name?.trim() || `Week of ${input.weekStart}`,
+        startDate: zonedMinutesToUtc(addDays(input.weekStart, 0).parts, 0, timeZone),
+        endDate: new Date(zonedMinutesToUtc(weekEnd.parts, 0, timeZone).getTime() - 1),
+        timezone: timeZone,
+        createdById: input.userId,
+        status: 'DRAFT'
+      }
+    });
+  }
+
+  const existing = await prisma.scheduleShift.groupBy({
+    by: ['shiftTemplateId', 'startTime'],
+    where: {
+      scheduleId: schedule.id,
+      shiftTemplateId: { in: templates.map((template) => template.id) }
+    },
+    _count: { _all: true }
+  });
+  const existingCounts = new Map(
+    existing.map((group) => [`${group.shiftTemplateId}|${group.startTime.toISOString()}`, group._count._all])
+  );
+
+  const templatesById = new Map(templates.map((template) => [template.id, template]));
+  const data: Prisma.ScheduleShiftCreateManyInput[] = [];
+  let skipped = 0;
+
+  for (const slot of slots) {
+    const template = templatesById.get(slot.templateId)!;
+    const alreadyCreated = existingCounts.get(`${slot.templateId}|${slot.startTime.toISOString()}`) ?? 0;
+    skipped += Math.min(alreadyCreated, slot.headcount);
+
+    for (let i = alreadyCreated; i < slot.headcount; i++) {
+      data.push({
+        scheduleId: schedule.id,
+        businessId: input.businessId,
+        title: template.name,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        breakMinutes: template.defaultBreakMinutes,
+        locationId: template.locationId ?? schedule.locationId,
+        departmentId: template.departmentId,
+        positionId: template.positionId,
+        stationName: template.station?.name,
+        jobFunction: template.station?.jobFunction,
+        color: template.color ?? template.station?.color,
+        isOpenShift: true,
+        minStaffing: slot.headcount,
+        maxStaffing: slot.headcount,
+        priority: template.station?.priority,
+        shiftTemplateId: template.id,
+        status: 'OPEN'
+      });
+    }
+  }
+
+  if (data.length > 0) {
+    await prisma.scheduleShift.createMany({ data });
+  }
+
+  logger.info('Generated schedule week from shift templates', {
+    operation: 'generate_week_from_templates',
+    businessId: input.businessId,
+    scheduleId: schedule.id,
+    templates: templates.length,
+    created: data.length,
+    skipped
+  });
+
+  return { schedule, created: data.length, skipped };
+}
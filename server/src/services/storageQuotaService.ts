@@ -0,0 +1,225 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { UsageTrackingService } from './usageTrackingService';
+
+export const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+const CHAT_FILES_FOLDER = 'Chat Files';
+
+/**
+ * Whose storage a write counts against: a business when the content lives in one of its
+ * dashboards or tasks, otherwise the user personally.
+ */
+export interface StorageScope {
+  userId: string;
+  businessId: string | null;
+}
+
+export interface StorageBreakdown {
+  drive: number;
+  trash: number; // Trashed Drive files still occupy storage until purged
+  versions: number;
+  chat: number;
+  taskAttachments: number;
+  profilePhotos: number;
+}
+
+export interface StorageUsage {
+  scope: StorageScope;
+  tier: string;
+  breakdown: StorageBreakdown;
+  usedBytes: number;
+  limitBytes: number | null; // null means unlimited
+  remainingBytes: number | null;
+  percentageUsed: number;
+}
+
+/**
+ * Raised when a write would take a scope past its storage limit; answered with 413.
+ */
+export class StorageQuotaExceededError extends Error {
+  readonly status = 413;
+  readonly code = 'storage_quota_exceeded';
+  readonly usage: StorageUsage;
+  readonly incomingBytes: number;
+
+  constructor(usage: StorageUsage, incomingBytes: number) {
+    super(
+      `Not enough storage: this upload needs ${formatBytes(incomingBytes)} but only ` +
+      `${formatBytes(usage.remainingBytes ?? 0)} of ${formatBytes(usage.limitBytes ?? 0)} is available`
+    );
+    this.name = 'StorageQuotaExceededError';
+    this.usage = usage;
+    this.incomingBytes = incomingBytes;
+  }
+
+  /** Body of the 413 response */
+  toResponse() {
+    return { message: this.message, code: this.code, usage: this.usage, incomingBytes: this.incomingBytes };
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes <= 0) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  const value = bytes / Math.pow(1024, exponent);
+  return `${Math.round(value * 10) / 10} ${units[exponent]}`;
+}
+
+export function sumBreakdown(breakdown: StorageBreakdown): number {
+  return Object.values(breakdown).reduce((sum, bytes) => sum + bytes, 0);
+}
+
+/** Tier limit in GB (null = unlimited) converted to bytes */
+export function storageLimitBytes(tierLimitGb: number | null | undefined): number | null {
+  return tierLimitGb === null || tierLimitGb === undefined ? null : tierLimitGb * BYTES_PER_GB;
+}
+
+/** True when `incomingBytes` more fits under the limit */
+export function fitsInQuota(usedBytes: number, incomingBytes: number, limitBytes: number | null): boolean {
+  return limitBytes === null || usedBytes + incomingBytes <= limitBytes;
+}
+
+function summarize(scope: StorageScope, tier: string, breakdown: StorageBreakdown, limitBytes: number | null): StorageUsage {
+  const usedBytes = sumBreakdown(breakdown);
+  return {
+    scope,
+    tier,
+    breakdown,
+    usedBytes,
+    limitBytes,
+    remainingBytes: limitBytes === null ? null : Math.max(0, limitBytes - usedBytes),
+    percentageUsed: limitBytes ? Math.min(100, (usedBytes / limitBytes) * 100) : 0
+  };
+}
+
+async function getScopeTier(scope: StorageScope): Promise<string> {
+  const subscription = await prisma.subscription.findFirst({
+    where: scope.businessId
+      ? { businessId: scope.businessId, status: 'active' }
+      : { userId: scope.userId, status: 'active' },
+    orderBy: { createdAt: 'desc' },
+    select: { tier: true }
+  });
+  return subscription?.tier || 'free';
+}
+
+// Drive files a scope owns: a business owns everything in its dashboards and shared drives, a user the rest of theirs
+function fileScopeWhere(scope: StorageScope): Prisma.FileWhereInput {
+  if (scope.businessId) {
+    return {
+      OR: [{ dashboard: { businessId: scope.businessId } }, { sharedDrive: { businessId: scope.businessId } }]
+    };
+  }
+  return {
+    userId: scope.userId,
+    sharedDriveId: null,
+    OR: [{ dashboardId: null }, { dashboard: { businessId: null } }]
+  };
+}
+
+function attachmentScopeWhere(scope: StorageScope): Prisma.TaskAttachmentWhereInput {
+  // Only uploaded attachments take storage; Drive links and external URLs do not
+  const stored: Prisma.TaskAttachmentWhereInput = { fileId: null, url: { not: null } };
+  if (scope.businessId) {
+    return { ...stored, task: { businessId: scope.businessId } };
+  }
+  return {
+    ...stored,
+    task: { businessId: null },
+    // Attachments from before uploaders were recorded count against the task creator
+    OR: [
+      { uploadedById: scope.userId },
+      { uploadedById: null, task: { createdById: scope.userId } }
+    ]
+  };
+}
+
+export async function getStorageBreakdown(scope: StorageScope): Promise<StorageBreakdown> {
+  const files = fileScopeWhere(scope);
+  const chatFolder: Prisma.FileWhereInput = { folder: { name: CHAT_FILES_FOLDER, parentId: null } };
+
+  const [all, trash, chat, versions, attachments, photos] = await Promise.all([
+    prisma.file.aggregate({ where: files, _sum: { size: true } }),
+    prisma.file.aggregate({ where: { AND: [files, { trashedAt: { not: null } }] }, _sum: { size: true } }),
+    scope.businessId
+      ? null
+      : prisma.file.aggregate({ where: { AND: [files, chatFolder, { trashedAt: null }] }, _sum: { size: true } }),
+    prisma.fileVersion.aggregate({ where: { file: files }, _sum: { size: true } }),
+    prisma.taskAttachment.aggregate({ where: attachmentScopeWhere(scope), _sum: { size: true } }),
+    scope.businessId
+      ? null
+      : prisma.userProfilePhoto.aggregate({ where: { userId: scope.userId }, _sum: { size: true } })
+  ]);
+
+  const allBytes = all._sum.size ?? 0;
+  const trashBytes = trash._sum.size ?? 0;
+  const chatBytes = chat?._sum.size ?? 0;
+  return {
+    drive: allBytes - trashBytes - chatBytes,
+    trash: trashBytes,
+    versions: versions._sum.size ?? 0,
+    chat: chatBytes,
+    taskAttachments: attachments._sum.size ?? 0,
+    profilePhotos: photos?._sum.size ?? 0
+  };
+}
+
+export async function getStorageUsage(scope: StorageScope): Promise<StorageUsage> {
+  const [tier, breakdown] = await Promise.all([getScopeTier(scope), getStorageBreakdown(scope)]);
+  const limit = storageLimitBytes(UsageTrackingService.getTierLimits(tier).storage_gb);
+  return summarize(scope, tier, breakdown, limit);
+}
+
+/**
+ * Throw StorageQuotaExceededError unless `incomingBytes` more fits in the scope's quota.
+ */
+export async function assertStorageAvailable(scope: StorageScope, incomingBytes: number): Promise<void> {
+  const usage = await getStorageUsage(scope);
+  if (!fitsInQuota(usage.usedBytes, incomingBytes, usage.limitBytes)) {
+    throw new StorageQuotaExceededError(usage, incomingBytes);
+  }
+}
+
+/** Scope for content stored in a dashboard (null = personal) */
+export async function resolveDashboardScope(userId: string, dashboardId: string | null | undefined): Promise<StorageScope> {
+  if (!dashboardId) return { userId, businessId: null };
+  const dashboard = await prisma.dashboard.findUnique({
+    where: { id: dashboardId },
+    select: { businessId: true }
+  });
+  return { userId, businessId: dashboard?.businessId ?? null };
+}
+
+/** Scope for content stored in a shared drive: always its business */
+export async function resolveSharedDriveScope(userId: string, sharedDriveId: string): Promise<StorageScope> {
+  const drive = await prisma.sharedDrive.findUniqueOrThrow({
+    where: { id: sharedDriveId },
+    select: { businessId: true }
+  });
+  return { userId, businessId: drive.businessId };
+}
+
+/** Scope of an existing Drive file, i.e. where new versions of it are charged */
+export async function resolveFileScope(fileId: string): Promise<StorageScope> {
+  const file = await prisma.file.findUniqueOrThrow({
+    where: { id: fileId },
+    select: {
+      userId: true,
+      dashboard: { select: { businessId: true } },
+      sharedDrive: { select: { businessId: true } }
+    }
+  });
+  return { userId: file.userId, businessId: file.sharedDrive?.businessId ?? file.dashboard?.businessId ?? null };
+}
+
+/**
+ * Storage summary for the Drive meter: the user's personal usage, plus the usage of a
+ * business when one is selected.
+ */
+export async function getStorageSummary(userId: string, businessId?: string | null) {
+  const personal = await getStorageUsage({ userId, businessId: null });
+  const business = businessId ? await getStorageUsage({ userId, businessId }) : null;
+  return { personal, business };
+}
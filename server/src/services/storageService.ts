@@ -1,8 +1,13 @@
 import { Storage, Bucket } from '@google-cloud/storage';
 import path from 'path';
 import fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { logger } from '../lib/logger';
 
+// GCS compose accepts at most 32 source objects per request
+const GCS_MAX_COMPOSE_SOURCES = 32;
+
 export interface StorageConfig {
   provider: 'local' | 'gcs';
   gcs?: {
@@ -367,6 +372,129 @@ export class StorageService {
     }
   }
 
+  /**
+   * Open a read stream over a stored file, for content too large to buffer.
+   * `range` limits it to bytes start..end, both inclusive.
+   */
+  createReadStream(filePath: string, range?: { start: number; end: number }): Readable {
+    if (this.config.provider === 'gcs' && this.bucket) {
+      return this.bucket.file(filePath).createReadStream(range ? { start: range.start, end: range.end } : undefined);
+    }
+    return fs.createReadStream(this.resolveLocalPath(filePath), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  /**
+   * Store the contents of a stream, e.g. a generated archive, without buffering it.
+   */
+  async uploadStream(source: Readable, destinationPath: string, contentType: string): Promise<UploadResult> {
+    if (this.config.provider === 'gcs' && this.bucket) {
+      await pipeline(source, this.bucket.file(destinationPath).createWriteStream({ metadata: { contentType } }));
+      const publicUrl = this.getPublicUrl(destinationPath);
+      return { url: publicUrl, path: destinationPath, publicUrl };
+    }
+
+    const fullPath = this.resolveLocalPath(destinationPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    await pipeline(source, fs.createWriteStream(fullPath));
+    return {
+      url: this.getPublicUrl(destinationPath),
+      path: fullPath
+    };
+  }
+
+  /**
+   * Store one part of a resumable upload. Parts are written under their own prefix
+   * and assembled by composeUploadParts().
+   */
+  async writeUploadPart(partPath: string, data: Buffer): Promise<void> {
+    if (this.config.provider === 'gcs' && this.bucket) {
+      await this.bucket.file(partPath).save(data, { resumable: false });
+      return;
+    }
+    const fullPath = this.resolveLocalPath(partPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, data);
+  }
+
+  /**
+   * Concatenate upload parts, in order, into the destination file. Parts are left in place;
+   * remove them with deleteUploadParts() once the result is verified.
+   */
+  async composeUploadParts(partPaths: string[], destinationPath: string, contentType: string): Promise<UploadResult> {
+    await logger.info('Composing upload parts', {
+      operation: 'storage_compose_parts_start',
+      destinationPath,
+      partCount: partPaths.length,
+      provider: this.config.provider
+    });
+
+    if (this.config.provider === 'gcs' && this.bucket) {
+      const destination = this.bucket.file(destinationPath);
+      if (partPaths.length === 0) {
+        await destination.save(Buffer.alloc(0), { resumable: false, metadata: { contentType } });
+      } else {
+        // Compose in rounds until the sources fit in a single request
+        let sources = partPaths;
+        let round = 0;
+        while (sources.length > GCS_MAX_COMPOSE_SOURCES) {
+          const next: string[] = [];
+          for (let i = 0; i < sources.length; i += GCS_MAX_COMPOSE_SOURCES) {
+            const intermediate = `${path.posix.dirname(partPaths[0])}/compose-${round}-${i / GCS_MAX_COMPOSE_SOURCES}`;
+            await this.bucket.combine(sources.slice(i, i + GCS_MAX_COMPOSE_SOURCES), intermediate);
+            next.push(intermediate);
+          }
+          sources = next;
+          round++;
+        }
+        await this.bucket.combine(sources, destination);
+        await destination.setMetadata({ contentType });
+      }
+
+      const publicUrl = this.getPublicUrl(destinationPath);
+      return { url: publicUrl, path: destinationPath, publicUrl };
+    }
+
+    const fullPath = this.resolveLocalPath(destinationPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    const output = fs.createWriteStream(fullPath);
+    try {
+      for (const partPath of partPaths) {
+        await new Promise<void>((resolve, reject) => {
+          const input = fs.createReadStream(this.resolveLocalPath(partPath));
+          input.on('error', reject);
+          input.on('end', () => resolve());
+          input.pipe(output, { end: false });
+        });
+      }
+    } finally {
+      await new Promise<void>((resolve, reject) => {
+        output.on('error', reject);
+        output.end(() => resolve());
+      });
+    }
+
+    return {
+      url: this.getPublicUrl(destinationPath),
+      path: fullPath
+    };
+  }
+
+  /**
+   * Remove every stored part (and intermediate object) under an upload prefix.
+   */
+  async deleteUploadParts(prefix: string): Promise<void> {
+    if (this.config.provider === 'gcs' && this.bucket) {
+      await this.bucket.deleteFiles({ prefix: `${prefix}/` });
+      return;
+    }
+    await fs.promises.rm(this.resolveLocalPath(prefix), { recursive: true, force: true });
+  }
+
+  private resolveLocalPath(filePath: string): string {
+    const uploadDir = this.config.local?.uploadDir || path.join(__dirname, '../../uploads');
+    return path.isAbsolute(filePath) ? filePath : path.join(uploadDir, filePath);
+  }
+
   private async uploadToGCS(
     file: Express.Multer.File,
     destinationPath: string,
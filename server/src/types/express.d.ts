@@ -1,5 +1,6 @@
 // Extend Express types to include the full Prisma User type
 import { User as PrismaUser } from '@prisma/client';
+import type { AuthenticatedKioskDevice } from '../services/hrAttendanceKioskService';
 
 declare global {
   namespace Express {
@@ -20,6 +21,8 @@ declare global {
         startedAt: Date;
         expiresAt?: Date | null;
       };
+      // Set by authenticateKioskDevice for attendance kiosk routes
+      kioskDevice?: AuthenticatedKioskDevice;
     }
   }
 }
@@ -0,0 +1,363 @@
+// Minimal streaming ZIP and tar writers (no external deps)
+// Entries are written straight to the output as their sources are read, so an archive
+// never has to fit in memory. ZIP entries are deflated with data descriptors (sizes
+// follow the data) and switch to ZIP64 fields past 4 GB; tar uses PAX records for
+// long paths and large files.
+
+import zlib from 'zlib';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export type ArchiveFormat = 'zip' | 'tar';
+
+export interface ArchiveFileOptions {
+  modifiedAt?: Date;
+  size?: number; // Required for tar, where it precedes the data; a hint for ZIP64 otherwise
+  compress?: boolean; // ZIP only; turn off for already-compressed media
+}
+
+export interface ArchiveWriter {
+  addDirectory(name: string, modifiedAt?: Date): Promise<void>;
+  addFile(name: string, source: Readable, options?: ArchiveFileOptions): Promise<void>;
+  finish(): Promise<void>;
+  readonly bytesWritten: number;
+}
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ UINT32_MAX) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ UINT32_MAX) >>> 0;
+}
+
+/** MS-DOS date and time as stored in ZIP headers (local time, 2 second resolution, 1980+) */
+export function toDosDateTime(date: Date): { date: number; time: number } {
+  const year = date.getFullYear();
+  if (year < 1980) return { date: (1 << 5) | 1, time: 0 };
+  return {
+    date: ((Math.min(year, 2107) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  };
+}
+
+export function createArchiveWriter(format: ArchiveFormat, output: Writable): ArchiveWriter {
+  return format === 'tar' ? new TarWriter(output) : new ZipWriter(output);
+}
+
+/** Write with backpressure; rejects if the output closes first (e.g. the client went away) */
+async function writeChunk(output: Writable, chunk: Buffer): Promise<void> {
+  if (output.destroyed || output.writableEnded) {
+    throw new Error('Archive output is closed');
+  }
+  if (output.write(chunk)) return;
+  await new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+      output.off('error', onError);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Archive output is closed'));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    output.on('drain', onDrain);
+    output.on('close', onClose);
+    output.on('error', onError);
+  });
+}
+
+interface ZipEntryRecord {
+  name: Buffer;
+  directory: boolean;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosDate: number;
+  dosTime: number;
+}
+
+class ZipWriter implements ArchiveWriter {
+  private readonly entries: ZipEntryRecord[] = [];
+  private offset = 0;
+  private finished = false;
+
+  constructor(private readonly output: Writable) {}
+
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeChunk(this.output, chunk);
+  }
+
+  async addDirectory(name: string, modifiedAt = new Date()): Promise<void> {
+    const entryName = Buffer.from(name.endsWith('/') ? name : `${name}/`, 'utf8');
+    const { date, time } = toDosDateTime(modifiedAt);
+    const entry: ZipEntryRecord = {
+      name: entryName, directory: true, method: 0, crc: 0, compressedSize: 0, size: 0,
+      offset: this.offset, dosDate: date, dosTime: time
+    };
+    await this.write(this.localHeader(entry, false));
+    this.entries.push(entry);
+  }
+
+  async addFile(name: string, source: Readable, options: ArchiveFileOptions = {}): Promise<void> {
+    const { date, time } = toDosDateTime(options.modifiedAt ?? new Date());
+    const entry: ZipEntryRecord = {
+      name: Buffer.from(name, 'utf8'), directory: false, method: 8, crc: 0, compressedSize: 0, size: 0,
+      offset: this.offset, dosDate: date, dosTime: time
+    };
+    // The local header is written before the size is known; ZIP64 descriptors have to be announced there
+    const zip64 = (options.size ?? 0) >= UINT32_MAX - 1024 * 1024 || this.offset >= UINT32_MAX;
+    await this.write(this.localHeader(entry, zip64));
+
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        entry.crc = crc32(chunk, entry.crc);
+        entry.size += chunk.length;
+        callback(null, chunk);
+      }
+    });
+    const deflate = zlib.createDeflateRaw({ level: options.compress === false ? 0 : 6 });
+    await pipeline(source, counter, deflate, async (compressed: AsyncIterable<Buffer>) => {
+      for await (const chunk of compressed) {
+        entry.compressedSize += chunk.length;
+        await this.write(chunk);
+      }
+    });
+
+    if (!zip64 && (entry.size >= UINT32_MAX || entry.compressedSize >= UINT32_MAX)) {
+      throw new Error(`Archive entry ${name} grew past 4 GB without a size hint`);
+    }
+    await this.write(this.dataDescriptor(entry, zip64));
+    this.entries.push(entry);
+  }
+
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      await this.write(this.centralHeader(entry));
+    }
+    const directorySize = this.offset - directoryOffset;
+
+    const needsZip64 = this.entries.length >= UINT16_MAX || directoryOffset >= UINT32_MAX || directorySize >= UINT32_MAX;
+    if (needsZip64) {
+      const recordOffset = this.offset;
+      const record = Buffer.alloc(56);
+      record.writeUInt32LE(0x06064b50, 0);
+      record.writeBigUInt64LE(44n, 4);
+      record.writeUInt16LE(45, 12);
+      record.writeUInt16LE(45, 14);
+      record.writeBigUInt64LE(BigInt(this.entries.length), 24);
+      record.writeBigUInt64LE(BigInt(this.entries.length), 32);
+      record.writeBigUInt64LE(BigInt(directorySize), 40);
+      record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeBigUInt64LE(BigInt(recordOffset), 8);
+      locator.writeUInt32LE(1, 16);
+      await this.write(Buffer.concat([record, locator]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Math.min(this.entries.length, UINT16_MAX), 8);
+    end.writeUInt16LE(Math.min(this.entries.length, UINT16_MAX), 10);
+    end.writeUInt32LE(Math.min(directorySize, UINT32_MAX), 12);
+    end.writeUInt32LE(Math.min(directoryOffset, UINT32_MAX), 16);
+    await this.write(end);
+  }
+
+  private localHeader(entry: ZipEntryRecord, zip64: boolean): Buffer {
+    const extra = zip64 ? Buffer.alloc(20) : Buffer.alloc(0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(16, 2);
+    }
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(zip64 ? 45 : 20, 4);
+    // Bit 3: sizes and CRC follow the data; bit 11: UTF-8 names
+    header.writeUInt16LE(entry.directory ? 0x0800 : 0x0808, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.dosTime, 10);
+    header.writeUInt16LE(entry.dosDate, 12);
+    if (zip64) {
+      header.writeUInt32LE(UINT32_MAX, 18);
+      header.writeUInt32LE(UINT32_MAX, 22);
+    }
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+    return Buffer.concat([header, entry.name, extra]);
+  }
+
+  private dataDescriptor(entry: ZipEntryRecord, zip64: boolean): Buffer {
+    const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    if (zip64) {
+      descriptor.writeBigUInt64LE(BigInt(entry.compressedSize), 8);
+      descriptor.writeBigUInt64LE(BigInt(entry.size), 16);
+    } else {
+      descriptor.writeUInt32LE(entry.compressedSize, 8);
+      descriptor.writeUInt32LE(entry.size, 12);
+    }
+    return descriptor;
+  }
+
+  private centralHeader(entry: ZipEntryRecord): Buffer {
+    const zip64 = entry.size >= UINT32_MAX || entry.compressedSize >= UINT32_MAX || entry.offset >= UINT32_MAX;
+    const extra = zip64 ? Buffer.alloc(28) : Buffer.alloc(0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(entry.size), 4);
+      extra.writeBigUInt64LE(BigInt(entry.compressedSize), 12);
+      extra.writeBigUInt64LE(BigInt(entry.offset), 20);
+    }
+    const version = zip64 ? 45 : 20;
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE((3 << 8) | version, 4); // Made by Unix, so the external attributes carry modes
+    header.writeUInt16LE(version, 6);
+    header.writeUInt16LE(entry.directory ? 0x0800 : 0x0808, 8);
+    header.writeUInt16LE(entry.method, 10);
+    header.writeUInt16LE(entry.dosTime, 12);
+    header.writeUInt16LE(entry.dosDate, 14);
+    header.writeUInt32LE(entry.crc, 16);
+    header.writeUInt32LE(zip64 ? UINT32_MAX : entry.compressedSize, 20);
+    header.writeUInt32LE(zip64 ? UINT32_MAX : entry.size, 24);
+    header.writeUInt16LE(entry.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE((entry.directory ? (0o40755 << 16) | 0x10 : 0o100644 << 16) >>> 0, 38);
+    header.writeUInt32LE(zip64 ? UINT32_MAX : entry.offset, 42);
+    return Buffer.concat([header, entry.name, extra]);
+  }
+}
+
+const TAR_BLOCK = 512;
+const TAR_MAX_OCTAL_SIZE = 0o77777777777;
+
+/** PAX record: "<length> <key>=<value>\n", where length counts the whole record */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body) + 1;
+  while (String(length).length + Buffer.byteLength(body) !== length) length++;
+  return `${length}${body}`;
+}
+
+class TarWriter implements ArchiveWriter {
+  private written = 0;
+  private finished = false;
+
+  constructor(private readonly output: Writable) {}
+
+  get bytesWritten(): number {
+    return this.written;
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.written += chunk.length;
+    await writeChunk(this.output, chunk);
+  }
+
+  private async pad(length: number): Promise<void> {
+    const remainder = length % TAR_BLOCK;
+    if (remainder > 0) await this.write(Buffer.alloc(TAR_BLOCK - remainder));
+  }
+
+  private header(name: string, type: '0' | '5' | 'x', size: number, mode: number, modifiedAt: Date): Buffer {
+    const block = Buffer.alloc(TAR_BLOCK);
+    block.write(name, 0, 100, 'utf8');
+    block.write(mode.toString(8).padStart(7, '0'), 100, 'ascii');
+    block.write('0000000', 108, 'ascii');
+    block.write('0000000', 116, 'ascii');
+    block.write(Math.min(size, TAR_MAX_OCTAL_SIZE).toString(8).padStart(11, '0'), 124, 'ascii');
+    block.write(Math.max(0, Math.floor(modifiedAt.getTime() / 1000)).toString(8).padStart(11, '0'), 136, 'ascii');
+    block.write(type, 156, 'ascii');
+    block.write('ustar\u000000', 257, 'ascii');
+    block.fill(' ', 148, 156);
+    let checksum = 0;
+    for (const byte of block) checksum += byte;
+    block.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 'ascii');
+    return block;
+  }
+
+  private async writeHeader(name: string, type: '0' | '5', size: number, modifiedAt: Date): Promise<void> {
+    let records = '';
+    if (Buffer.byteLength(name) > 100) records += paxRecord('path', name);
+    if (size > TAR_MAX_OCTAL_SIZE) records += paxRecord('size', String(size));
+    if (records) {
+      const data = Buffer.from(records, 'utf8');
+      await this.write(this.header('PaxHeader', 'x', data.length, 0o644, modifiedAt));
+      await this.write(data);
+      await this.pad(data.length);
+    }
+    // The ustar name field is only a fallback when a PAX path is present
+    let shortName = name;
+    while (Buffer.byteLength(shortName) > 100) shortName = shortName.slice(0, -1);
+    await this.write(this.header(shortName, type, size, type === '5' ? 0o755 : 0o644, modifiedAt));
+  }
+
+  async addDirectory(name: string, modifiedAt = new Date()): Promise<void> {
+    await this.writeHeader(name.endsWith('/') ? name : `${name}/`, '5', 0, modifiedAt);
+  }
+
+  async addFile(name: string, source: Readable, options: ArchiveFileOptions = {}): Promise<void> {
+    if (options.size === undefined) {
+      throw new Error('tar entries need their size up front');
+    }
+    const size = options.size;
+    await this.writeHeader(name, '0', size, options.modifiedAt ?? new Date());
+
+    let received = 0;
+    await pipeline(source, async (chunks: AsyncIterable<Buffer>) => {
+      for await (const chunk of chunks) {
+        received += chunk.length;
+        if (received > size) throw new Error(`Archive entry ${name} is larger than its recorded size`);
+        await this.write(chunk);
+      }
+    });
+    if (received !== size) {
+      throw new Error(`Archive entry ${name} is smaller than its recorded size`);
+    }
+    await this.pad(size);
+  }
+
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+    await this.write(Buffer.alloc(TAR_BLOCK * 2));
+  }
+}
@@ -0,0 +1,241 @@
+// Minimal WebDAV (RFC 4918) XML reading and writing (no external deps)
+// Request bodies are small and shallow (PROPFIND, PROPPATCH, LOCK), so they are read
+// with namespace-aware patterns instead of a full XML parser. Responses use the "d"
+// prefix for the DAV: namespace.
+
+export const DAV_NS = 'DAV:';
+
+export interface QualifiedName {
+  ns: string;
+  name: string;
+}
+
+export type PropfindRequest =
+  | { type: 'allprop' }
+  | { type: 'propname' }
+  | { type: 'prop'; props: QualifiedName[] };
+
+export interface LockRequest {
+  scope: 'exclusive' | 'shared';
+  owner: string | null;
+}
+
+export interface PropStat {
+  status: number;
+  props: Array<{ name: QualifiedName; xml?: string }>;
+}
+
+export interface DavResponse {
+  href: string;
+  status?: number;
+  propstats?: PropStat[];
+}
+
+export interface ActiveLock {
+  token: string;
+  scope: 'exclusive' | 'shared';
+  depth: '0' | 'infinity';
+  owner: string | null;
+  expiresAt: Date;
+  root: string;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  423: 'Locked',
+  424: 'Failed Dependency'
+};
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function statusLine(status: number): string {
+  return `HTTP/1.1 ${status} ${STATUS_TEXT[status] ?? 'Unknown'}`;
+}
+
+// Prefix -> namespace URI for every declaration in the document; '' is the default namespace
+function namespaceMap(xml: string): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const match of xml.matchAll(/xmlns(?::([\w.-]+))?\s*=\s*["']([^"']*)["']/g)) {
+    map.set(match[1] ?? '', match[2]);
+  }
+  return map;
+}
+
+function qualify(tag: string, namespaces: Map<string, string>): QualifiedName {
+  const separator = tag.indexOf(':');
+  const prefix = separator >= 0 ? tag.slice(0, separator) : '';
+  const name = separator >= 0 ? tag.slice(separator + 1) : tag;
+  return { ns: namespaces.get(prefix) ?? '', name };
+}
+
+// Inner XML of the first DAV: element with this name, or null
+function davElement(xml: string, name: string, namespaces: Map<string, string>): string | null {
+  const pattern = new RegExp(`<([\\w.-]+:)?${name}\\b[^>]*?(/>|>([\\s\\S]*?)</\\1?${name}\\s*>)`, 'g');
+  for (const match of xml.matchAll(pattern)) {
+    const prefix = match[1] ? match[1].slice(0, -1) : '';
+    if ((namespaces.get(prefix) ?? '') === DAV_NS) {
+      return match[2] === '/>' ? '' : match[3] ?? '';
+    }
+  }
+  return null;
+}
+
+/** What a PROPFIND asks for. An empty body means allprop (RFC 4918 §9.1). */
+export function parsePropfindBody(body: string | undefined): PropfindRequest {
+  const xml = body?.trim();
+  if (!xml) return { type: 'allprop' };
+  const namespaces = namespaceMap(xml);
+  if (davElement(xml, 'propname', namespaces) !== null) return { type: 'propname' };
+  const prop = davElement(xml, 'prop', namespaces);
+  if (prop === null) return { type: 'allprop' };
+
+  const props: QualifiedName[] = [];
+  for (const match of prop.matchAll(/<([\w.-]+(?::[\w.-]+)?)([^>]*?)\/?>/g)) {
+    const inline = namespaceMap(match[2]);
+    const scoped = inline.size > 0 ? new Map([...namespaces, ...inline]) : namespaces;
+    props.push(qualify(match[1], scoped));
+  }
+  return { type: 'prop', props };
+}
+
+/** Property names a PROPPATCH tries to set or remove */
+export function parseProppatchBody(body: string | undefined): QualifiedName[] {
+  const xml = body?.trim();
+  if (!xml) return [];
+  const namespaces = namespaceMap(xml);
+  const names: QualifiedName[] = [];
+  for (const block of xml.matchAll(/<([\w.-]+:)?prop\b[^>]*>([\s\S]*?)<\/\1?prop\s*>/g)) {
+    // Only direct children: skip closing tags and anything nested inside a property value
+    let depth = 0;
+    for (const tag of block[2].matchAll(/<(\/?)([\w.-]+(?::[\w.-]+)?)([^>]*?)(\/?)>/g)) {
+      if (tag[1]) {
+        depth--;
+        continue;
+      }
+      if (depth === 0) names.push(qualify(tag[2], namespaces));
+      if (!tag[4]) depth++;
+    }
+  }
+  return names;
+}
+
+/**
+ * Scope and owner of a LOCK request. The owner is kept as text (or the href it wraps)
+ * so it can be echoed back without trusting client XML.
+ */
+export function parseLockBody(body: string | undefined): LockRequest | null {
+  const xml = body?.trim();
+  if (!xml) return null;
+  const namespaces = namespaceMap(xml);
+  const scope = davElement(xml, 'lockscope', namespaces);
+  if (scope === null) return null;
+  const owner = davElement(xml, 'owner', namespaces);
+  const ownerText = owner === null
+    ? null
+    : unescapeXml((davElement(owner, 'href', namespaceMap(xml)) ?? owner).replace(/<[^>]*>/g, '')).trim() || null;
+  return {
+    scope: davElement(scope, 'shared', namespaces) !== null ? 'shared' : 'exclusive',
+    owner: ownerText
+  };
+}
+
+/** Lock tokens submitted in an If header; any tagged or untagged list may carry them */
+export function parseIfHeaderTokens(header: string | undefined): string[] {
+  if (!header) return [];
+  return [...header.matchAll(/<((?:opaquelocktoken|urn:uuid):[^>\s]+)>/gi)].map((match) => match[1]);
+}
+
+/** Seconds requested in a Timeout header, capped; Infinite and absence get the defaults */
+export function parseTimeoutHeader(header: string | undefined, defaultSeconds: number, maxSeconds: number): number {
+  if (!header) return defaultSeconds;
+  for (const part of header.split(',')) {
+    const value = part.trim();
+    if (/^infinite$/i.test(value)) return maxSeconds;
+    const match = /^Second-(\d+)$/i.exec(value);
+    if (match) return Math.min(Math.max(parseInt(match[1], 10), 1), maxSeconds);
+  }
+  return defaultSeconds;
+}
+
+function propTag(name: QualifiedName, inner?: string): string {
+  if (name.ns === DAV_NS) {
+    return inner === undefined || inner === '' ? `<d:${name.name}/>` : `<d:${name.name}>${inner}</d:${name.name}>`;
+  }
+  const ns = escapeXml(name.ns);
+  return inner === undefined || inner === ''
+    ? `<x:${name.name} xmlns:x="${ns}"/>`
+    : `<x:${name.name} xmlns:x="${ns}">${inner}</x:${name.name}>`;
+}
+
+export function renderMultistatus(responses: DavResponse[]): string {
+  const body = responses.map((response) => {
+    const parts = [`<d:href>${escapeXml(response.href)}</d:href>`];
+    if (response.propstats) {
+      for (const propstat of response.propstats) {
+        if (propstat.props.length === 0) continue;
+        parts.push(
+          `<d:propstat><d:prop>${propstat.props.map((prop) => propTag(prop.name, prop.xml)).join('')}</d:prop>` +
+          `<d:status>${statusLine(propstat.status)}</d:status></d:propstat>`
+        );
+      }
+    } else {
+      parts.push(`<d:status>${statusLine(response.status ?? 200)}</d:status>`);
+    }
+    return `<d:response>${parts.join('')}</d:response>`;
+  });
+  return `<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus xmlns:d="DAV:">${body.join('')}</d:multistatus>`;
+}
+
+export function renderActiveLock(lock: ActiveLock, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.round((lock.expiresAt.getTime() - now.getTime()) / 1000));
+  const owner = lock.owner
+    ? `<d:owner>${/^(https?:|mailto:)/i.test(lock.owner) ? `<d:href>${escapeXml(lock.owner)}</d:href>` : escapeXml(lock.owner)}</d:owner>`
+    : '';
+  return '<d:activelock>' +
+    '<d:locktype><d:write/></d:locktype>' +
+    `<d:lockscope><d:${lock.scope}/></d:lockscope>` +
+    `<d:depth>${lock.depth === '0' ? '0' : 'infinity'}</d:depth>` +
+    owner +
+    `<d:timeout>Second-${seconds}</d:timeout>` +
+    `<d:locktoken><d:href>${escapeXml(lock.token)}</d:href></d:locktoken>` +
+    `<d:lockroot><d:href>${escapeXml(lock.root)}</d:href></d:lockroot>` +
+    '</d:activelock>';
+}
+
+export const SUPPORTED_LOCK_XML =
+  '<d:lockentry><d:lockscope><d:exclusive/></d:lockscope><d:locktype><d:write/></d:locktype></d:lockentry>' +
+  '<d:lockentry><d:lockscope><d:shared/></d:lockscope><d:locktype><d:write/></d:locktype></d:lockentry>';
+
+/** Body of a LOCK response */
+export function renderLockDiscovery(locks: ActiveLock[], now: Date = new Date()): string {
+  return `<?xml version="1.0" encoding="utf-8"?>\n<d:prop xmlns:d="DAV:"><d:lockdiscovery>${
+    locks.map((lock) => renderActiveLock(lock, now)).join('')
+  }</d:lockdiscovery></d:prop>`;
+}
+
+/** Body of a 4xx with a DAV: precondition element, e.g. lock-token-submitted */
+export function renderDavError(condition: string, hrefs: string[] = []): string {
+  const inner = hrefs.map((href) => `<d:href>${escapeXml(href)}</d:href>`).join('');
+  return `<?xml version="1.0" encoding="utf-8"?>\n<d:error xmlns:d="DAV:"><d:${condition}>${inner}</d:${condition}></d:error>`;
+}
@@ -0,0 +1,391 @@
+// Minimal document text extraction for search indexing (no external deps)
+// Handles plain text/Markdown/CSV, text operators in PDFs, and the XML parts of
+// zipped Office (docx/xlsx/pptx) and OpenDocument files. Scanned PDFs and fonts
+// without a readable encoding yield little or no text.
+
+import path from 'path';
+import zlib from 'zlib';
+
+export type DocumentKind = 'text' | 'pdf' | 'docx' | 'xlsx' | 'pptx' | 'opendocument';
+
+// Cap per ZIP entry / PDF stream so a crafted file can't inflate without bound
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = new Set(['.txt', '.text', '.md', '.markdown', '.csv', '.tsv']);
+const TEXT_MIME_TYPES = new Set(['application/csv', 'application/x-markdown']);
+
+// XML parts holding a document's text, per format
+const OFFICE_PARTS: Record<Exclude<DocumentKind, 'text' | 'pdf'>, RegExp> = {
+  docx: /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/,
+  xlsx: /^xl\/(sharedStrings|worksheets\/sheet\d+)\.xml$/,
+  pptx: /^ppt\/(slides\/slide\d+|notesSlides\/notesSlide\d+)\.xml$/,
+  opendocument: /^content\.xml$/
+};
+
+export function detectDocumentKind(mimeType: string, fileName: string): DocumentKind | null {
+  const type = (mimeType || '').toLowerCase();
+  const extension = path.extname(fileName || '').toLowerCase();
+
+  if (type === 'application/pdf' || extension === '.pdf') return 'pdf';
+  if (type.includes('wordprocessingml') || extension === '.docx') return 'docx';
+  if (type.includes('spreadsheetml') || extension === '.xlsx') return 'xlsx';
+  if (type.includes('presentationml') || extension === '.pptx') return 'pptx';
+  if (type.startsWith('application/vnd.oasis.opendocument') || ['.odt', '.ods', '.odp'].includes(extension)) {
+    return 'opendocument';
+  }
+  if (type.startsWith('text/') || TEXT_MIME_TYPES.has(type) || TEXT_EXTENSIONS.has(extension)) return 'text';
+  return null;
+}
+
+/**
+ * Plain text of a document, or null when the format isn't supported.
+ * Throws when the file claims a supported format but can't be parsed.
+ */
+export function extractDocumentText(buffer: Buffer, mimeType: string, fileName: string): string | null {
+  const kind = detectDocumentKind(mimeType, fileName);
+  if (!kind) return null;
+
+  let text: string;
+  if (kind === 'text') {
+    text = decodeText(buffer);
+  } else if (kind === 'pdf') {
+    text = extractPdfText(buffer);
+  } else {
+    text = extractOfficeText(buffer, kind);
+  }
+  return normalizeText(text);
+}
+
+/** Collapse runs of spaces and blank lines, and drop control characters */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f\ufffd]/g, ' ')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return buffer.toString('utf16le', 2);
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return decodeUtf16be(buffer.subarray(2));
+  const text = buffer.toString('utf8');
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function decodeUtf16be(bytes: Buffer): string {
+  const swapped = Buffer.from(bytes.subarray(0, bytes.length - (bytes.length % 2)));
+  swapped.swap16();
+  return swapped.toString('utf16le');
+}
+
+// --- ZIP (Office / OpenDocument) ---
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const lowest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let i = buffer.length - 22; i >= lowest; i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) return i;
+  }
+  return -1;
+}
+
+/** Contents of the archive entries whose names pass `accept` (stored or deflated only) */
+export function readZipEntries(buffer: Buffer, accept: (name: string) => boolean): Map<string, Buffer> {
+  const eocd = findEndOfCentralDirectory(buffer);
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) break;
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!accept(name)) continue;
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== 0x04034b50) continue;
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, zlib.inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES }));
+    }
+  }
+  return entries;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, body: string) => {
+    const lower = body.toLowerCase();
+    if (lower === 'lt') return '<';
+    if (lower === 'gt') return '>';
+    if (lower === 'amp') return '&';
+    if (lower === 'quot') return '"';
+    if (lower === 'apos') return '\'';
+    const code = lower.startsWith('#x') ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+    return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+function xmlToText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      // Field codes and tracked deletions aren't visible text
+      .replace(/<w:(instrText|delText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '')
+      .replace(/<(w:tab|text:tab)\/>/g, '\t')
+      .replace(/<(w:br|a:br|text:line-break)\b[^>]*\/>/g, '\n')
+      .replace(/<\/(w:p|a:p|text:p|text:h|si)>/g, '\n')
+      .replace(/<\/(c|table:table-cell)>/g, '\t')
+      .replace(/<\/(row|table:table-row)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+// Worksheet cells reference shared strings by index; only inline strings are text
+function worksheetInlineText(xml: string): string {
+  const strings: string[] = [];
+  for (const match of xml.matchAll(/<is>([\s\S]*?)<\/is>/g)) {
+    strings.push(xmlToText(match[1]));
+  }
+  return strings.join('\n');
+}
+
+function extractOfficeText(buffer: Buffer, kind: Exclude<DocumentKind, 'text' | 'pdf'>): string {
+  const parts = readZipEntries(buffer, (name) => OFFICE_PARTS[kind].test(name));
+  if (parts.size === 0) throw new Error(`No ${kind} content found in archive`);
+
+  // Natural order so slide2 comes before slide10
+  const names = [...parts.keys()].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return names
+    .map((name) => {
+      const xml = parts.get(name)!.toString('utf8');
+      return kind === 'xlsx' && name.includes('worksheets/') ? worksheetInlineText(xml) : xmlToText(xml);
+    })
+    .join('\n\n');
+}
+
+// --- PDF ---
+
+// Streams that never hold page text
+const SKIPPED_STREAM = /\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|ObjStm|Metadata|EmbeddedFile)/;
+
+/** Text shown by the content streams of a PDF, in stream order */
+export function extractPdfText(buffer: Buffer): string {
+  const source = buffer.toString('latin1');
+  if (!source.startsWith('%PDF')) throw new Error('Not a PDF file');
+
+  const chunks: string[] = [];
+  const streamStart = /(?<!end)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamStart.exec(source))) {
+    const dataStart = match.index + match[0].length;
+    const dataEnd = source.indexOf('endstream', dataStart);
+    if (dataEnd < 0) break;
+    streamStart.lastIndex = dataEnd + 'endstream'.length;
+
+    const dictionary = source.slice(Math.max(0, source.lastIndexOf('obj', match.index)), match.index);
+    if (SKIPPED_STREAM.test(dictionary)) continue;
+
+    let data = buffer.subarray(dataStart, dataEnd);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = zlib.inflateSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue; // LZW, ASCII85 and image codecs aren't worth decoding for text
+    }
+
+    const content = data.toString('latin1');
+    if (!content.includes('BT') || content.includes('begincmap')) continue;
+    const text = extractTextOperators(content);
+    if (text.trim()) chunks.push(text);
+  }
+
+  return chunks.join('\n\n');
+}
+
+type PdfOperand = string | number | PdfOperand[] | { name: string };
+
+// Sticky so the tokenizer matches in place instead of slicing the stream per token
+const PDF_NAME = /\/[^\s/[\]()<>{}%]*/y;
+const PDF_TOKEN = /[^\s/[\]()<>{}%]+/y;
+const PDF_LINE_END = /[\r\n]/g;
+const PDF_INLINE_IMAGE_END = /\sEI(\s|$)/g;
+
+function decodePdfBytes(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return decodeUtf16be(Buffer.from(bytes.slice(2)));
+  }
+  // Two-byte codes with a zero high byte are usually Unicode; other two-byte codes are glyph ids we can't map
+  if (bytes.length >= 2 && bytes.length % 2 === 0 && bytes.every((byte, i) => i % 2 === 1 || byte === 0)) {
+    return decodeUtf16be(Buffer.from(bytes));
+  }
+  return Buffer.from(bytes).toString('latin1');
+}
+
+function readLiteralString(content: string, start: number): { value: string; end: number } {
+  const bytes: number[] = [];
+  let depth = 1;
+  let i = start + 1;
+  while (i < content.length && depth > 0) {
+    const ch = content[i];
+    if (ch === '\\') {
+      const next = content[i + 1];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+      if (next in escapes) {
+        bytes.push(escapes[next]);
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4))![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2; // line continuation
+      } else {
+        i += 1;
+      }
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (depth > 0) bytes.push(ch.charCodeAt(0) & 0xff);
+    i++;
+  }
+  return { value: decodePdfBytes(bytes), end: i };
+}
+
+function readHexString(content: string, start: number): { value: string; end: number } {
+  const end = content.indexOf('>', start);
+  const close = end < 0 ? content.length : end;
+  let hex = content.slice(start + 1, close).replace(/[^0-9a-f]/gi, '');
+  if (hex.length % 2) hex += '0';
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  return { value: decodePdfBytes(bytes), end: close + 1 };
+}
+
+/** Follow text-showing operators (Tj, TJ, ', ") and line moves through one content stream */
+export function extractTextOperators(content: string): string {
+  let output = '';
+  const operands: PdfOperand[] = [];
+  const arrays: PdfOperand[][] = [];
+  let lastLineY: number | null = null;
+
+  const push = (operand: PdfOperand) => (arrays.length ? arrays[arrays.length - 1] : operands).push(operand);
+  const newLine = () => {
+    if (output && !output.endsWith('\n')) output += '\n';
+  };
+  const show = (value: PdfOperand | undefined) => {
+    if (typeof value === 'string') output += value;
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '%') {
+      PDF_LINE_END.lastIndex = i;
+      i = PDF_LINE_END.exec(content)?.index ?? content.length;
+    } else if (ch === '(') {
+      const literal = readLiteralString(content, i);
+      push(literal.value);
+      i = literal.end;
+    } else if (ch === '<' && content[i + 1] === '<') {
+      // Inline dictionaries (marked content properties) carry no text
+      const close = content.indexOf('>>', i + 2);
+      i = close < 0 ? content.length : close + 2;
+    } else if (ch === '<') {
+      const hex = readHexString(content, i);
+      push(hex.value);
+      i = hex.end;
+    } else if (ch === '[') {
+      arrays.push([]);
+      i++;
+    } else if (ch === ']') {
+      const array = arrays.pop() ?? [];
+      push(array);
+      i++;
+    } else if (ch === '/') {
+      PDF_NAME.lastIndex = i;
+      const name = PDF_NAME.exec(content)![0];
+      push({ name });
+      i += name.length;
+    } else {
+      PDF_TOKEN.lastIndex = i;
+      const token = PDF_TOKEN.exec(content)?.[0] ?? ch;
+      i += token.length;
+      const number = Number(token);
+      if (token !== '' && !Number.isNaN(number)) {
+        push(number);
+        continue;
+      }
+
+      switch (token) {
+        case 'Tj':
+          show(operands[operands.length - 1]);
+          break;
+        case 'TJ': {
+          const array = operands[operands.length - 1];
+          if (Array.isArray(array)) {
+            for (const item of array) {
+              // Large negative kerning is how many producers encode a word gap
+              if (typeof item === 'number' && item < -250) output += ' ';
+              else show(item);
+            }
+          }
+          break;
+        }
+        case '\'':
+        case '"':
+          newLine();
+          show(operands[operands.length - 1]);
+          break;
+        case 'T*':
+        case 'ET':
+          newLine();
+          lastLineY = null;
+          break;
+        case 'Td':
+        case 'TD': {
+          const ty = operands[operands.length - 1];
+          if (typeof ty === 'number' && ty !== 0) newLine();
+          else if (output && !/\s$/.test(output)) output += ' ';
+          break;
+        }
+        case 'Tm': {
+          const y = operands[operands.length - 1];
+          if (typeof y === 'number') {
+            if (lastLineY !== null && y !== lastLineY) newLine();
+            lastLineY = y;
+          }
+          break;
+        }
+        case 'ID': {
+          // Inline image data is binary; skip to its EI marker
+          PDF_INLINE_IMAGE_END.lastIndex = i;
+          const end = PDF_INLINE_IMAGE_END.exec(content);
+          i = end ? end.index + 3 : content.length;
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+  }
+
+  return output;
+}
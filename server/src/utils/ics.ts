@@ -0,0 +1,17 @@
+// iCalendar (RFC 5545) helpers shared by the invite builders
+
+/**
+ * Escapes a TEXT value (SUMMARY, LOCATION, CN, ...) so it can't end its content line:
+ * line breaks become \n and any other control character is dropped.
+ */
+export function escapeIcsText(value: string): string {
+  return Array.from(
+    value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r\n|\r|\n/g, '\\n')
+  )
+    .filter((char) => char === '\t' || (char >= ' ' && char !== '\u007f'))
+    .join('');
+}
@@ -0,0 +1,223 @@
+// Recurrence expansion for calendar events (RRULE with RDATE/EXDATE), done in the event's
+// own time zone so occurrences keep their local time across DST changes
+
+import { RRule } from 'rrule';
+import { fromWallClock, normalizeTimeZone, toWallClock, zonedTimeToUtc } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurringEvent {
+  startAt: Date;
+  endAt: Date;
+  timezone?: string | null;
+  recurrenceRule: string | null;
+  recurrenceEndAt?: Date | null;
+}
+
+export interface Occurrence {
+  startAt: Date;
+  endAt: Date;
+}
+
+interface DateValue {
+  // Wall-clock time in the event's zone (see toWallClock)
+  wall: Date;
+  // VALUE=DATE entries name a whole day rather than an instant
+  dateOnly: boolean;
+}
+
+export interface ParsedRecurrence {
+  rrule: string | null;
+  rdates: DateValue[];
+  exdates: DateValue[];
+}
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i;
+
+function dayKey(wall: Date): string {
+  return wall.toISOString().slice(0, 10);
+}
+
+function parseDateValue(value: string, params: Record<string, string>, timeZone: string, wallStart: Date): DateValue | null {
+  const match = DATE_VALUE.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const year = Number(y);
+  const month = Number(mo);
+  const day = Number(d);
+
+  if (h === undefined || params.VALUE === 'DATE') {
+    // A date-only RDATE happens at the series' usual local time
+    const wall = new Date(Date.UTC(year, month - 1, day, wallStart.getUTCHours(), wallStart.getUTCMinutes(), wallStart.getUTCSeconds()));
+    return { wall, dateOnly: true };
+  }
+
+  const hour = Number(h);
+  const minute = Number(mi);
+  const second = Number(s);
+  if (utc) {
+    return { wall: toWallClock(new Date(Date.UTC(year, month - 1, day, hour, minute, second)), timeZone), dateOnly: false };
+  }
+  const tzid = params.TZID ? normalizeTimeZone(params.TZID) : timeZone;
+  if (tzid !== timeZone) {
+    const instant = new Date(zonedTimeToUtc(year, month, day, hour, minute, tzid).getTime() + second * 1000);
+    return { wall: toWallClock(instant, timeZone), dateOnly: false };
+  }
+  // Floating or same-zone times are already wall-clock
+  return { wall: new Date(Date.UTC(year, month - 1, day, hour, minute, second)), dateOnly: false };
+}
+
+/**
+ * Splits a stored rule into its RRULE and RDATE/EXDATE parts. Accepts a bare
+ * "FREQ=...;..." rule or iCalendar lines ("RRULE:...", "EXDATE;TZID=...:...").
+ */
+export function parseRecurrence(text: string, timeZone: string, wallStart: Date): ParsedRecurrence {
+  const parsed: ParsedRecurrence = { rrule: null, rdates: [], exdates: [] };
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const nameMatch = /^([A-Z-]+)([;:])/i.exec(line);
+    if (!nameMatch || /^FREQ=/i.test(line)) {
+      parsed.rrule = line;
+      continue;
+    }
+    const name = nameMatch[1].toUpperCase();
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const value = line.slice(colon + 1);
+    if (name === 'RRULE') {
+      parsed.rrule = value;
+      continue;
+    }
+    if (name !== 'RDATE' && name !== 'EXDATE') continue;
+
+    const params: Record<string, string> = {};
+    for (const param of line.slice(name.length, colon).split(';').filter(Boolean)) {
+      const [key, paramValue] = param.split('=');
+      if (key && paramValue) params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+    }
+    const target = name === 'RDATE' ? parsed.rdates : parsed.exdates;
+    for (const item of value.split(',')) {
+      const date = parseDateValue(item, params, timeZone, wallStart);
+      if (date) target.push(date);
+    }
+  }
+  return parsed;
+}
+
+function ruleStarts(rrule: string, wallStart: Date, from: Date, to: Date): Date[] {
+  const options = RRule.parseString(rrule.replace(/^RRULE:/i, ''));
+  if (options.until) {
+    const untilText = /UNTIL=([0-9TZ]+)/i.exec(rrule)?.[1] ?? '';
+    if (/Z$/i.test(untilText)) {
+      // UNTIL is an instant when it ends in Z; the rule below runs on wall-clock times
+      options.until = null;
+    } else if (!/T/i.test(untilText)) {
+      // A date-only UNTIL includes that whole day
+      options.until = new Date(options.until.getTime() + DAY_MS - 1);
+    }
+  }
+  return new RRule({ ...options, dtstart: wallStart, tzid: null }).between(from, to, true);
+}
+
+function utcUntil(rrule: string | null): Date | null {
+  const untilText = rrule ? /UNTIL=(\d{8}T\d{6}Z)/i.exec(rrule)?.[1] : undefined;
+  if (!untilText) return null;
+  const match = DATE_VALUE.exec(untilText)!;
+  return new Date(Date.UTC(
+    Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6])
+  ));
+}
+
+/**
+ * Occurrences of an event that overlap [windowStart, windowEnd), in UTC. Expansion runs on
+ * the event's local wall-clock time, so a 9:00 weekly meeting stays at 9:00 local after a
+ * DST change. DTSTART always counts as the first occurrence. `skipStarts` holds the start
+ * times (ms) of occurrences replaced by exceptions. A rule that can't be parsed yields
+ * just the first occurrence.
+ */
+export function expandOccurrences(
+  event: RecurringEvent,
+  windowStart: Date,
+  windowEnd: Date,
+  skipStarts: Set<number> = new Set()
+): Occurrence[] {
+  const overlaps = (occurrence: Occurrence) => occurrence.startAt < windowEnd && occurrence.endAt > windowStart;
+  const first = { startAt: event.startAt, endAt: event.endAt };
+  if (!event.recurrenceRule) return overlaps(first) ? [first] : [];
+
+  const timeZone = normalizeTimeZone(event.timezone);
+  const wallStart = toWallClock(event.startAt, timeZone);
+  const wallDurationMs = toWallClock(event.endAt, timeZone).getTime() - wallStart.getTime();
+  // Widen the window so occurrences that straddle its edges or sit across a zone offset are found
+  const from = new Date(toWallClock(windowStart, timeZone).getTime() - Math.max(wallDurationMs, 0) - DAY_MS);
+  const to = new Date(toWallClock(windowEnd, timeZone).getTime() + DAY_MS);
+
+  let parsed: ParsedRecurrence;
+  let starts: Date[];
+  try {
+    parsed = parseRecurrence(event.recurrenceRule, timeZone, wallStart);
+    starts = parsed.rrule ? ruleStarts(parsed.rrule, wallStart, from, to) : [];
+  } catch {
+    return overlaps(first) ? [first] : [];
+  }
+
+  const byTime = new Map<number, Date>();
+  for (const wall of [wallStart, ...starts, ...parsed.rdates.map((rdate) => rdate.wall)]) {
+    if (wall >= from && wall <= to) byTime.set(wall.getTime(), wall);
+  }
+  const excludedTimes = new Set(parsed.exdates.filter((exdate) => !exdate.dateOnly).map((exdate) => exdate.wall.getTime()));
+  const excludedDays = new Set(parsed.exdates.filter((exdate) => exdate.dateOnly).map((exdate) => dayKey(exdate.wall)));
+  const until = utcUntil(parsed.rrule);
+
+  return [...byTime.values()]
+    .filter((wall) => !excludedTimes.has(wall.getTime()) && !excludedDays.has(dayKey(wall)))
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map((wall) => ({
+      startAt: fromWallClock(wall, timeZone),
+      endAt: fromWallClock(new Date(wall.getTime() + wallDurationMs), timeZone)
+    }))
+    .filter((occurrence) => occurrence.startAt.getTime() === event.startAt.getTime()
+      || !until || occurrence.startAt <= until)
+    .filter((occurrence) => !event.recurrenceEndAt || occurrence.startAt <= event.recurrenceEndAt)
+    .filter((occurrence) => !skipStarts.has(occurrence.startAt.getTime()))
+    .filter(overlaps);
+}
+
+/**
+ * The rule for the part of a series that starts at `splitAt` when the series is split for a
+ * "this and following" edit: COUNT is reduced by the occurrences before the split, and
+ * RDATE/EXDATE entries before the split are dropped.
+ */
+export function ruleFromSplit(event: RecurringEvent, splitAt: Date): string | null {
+  if (!event.recurrenceRule) return null;
+  const timeZone = normalizeTimeZone(event.timezone);
+  const splitWall = toWallClock(splitAt, timeZone);
+
+  const lines: string[] = [];
+  for (const rawLine of event.recurrenceRule.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (/^(RDATE|EXDATE)[;:]/i.test(line)) {
+      const colon = line.indexOf(':');
+      const head = line.slice(0, colon);
+      const kept = line.slice(colon + 1).split(',').filter((value) => {
+        const parsed = parseRecurrence(`${head}:${value}`, timeZone, splitWall);
+        const date = [...parsed.rdates, ...parsed.exdates][0];
+        return !date || (date.dateOnly ? dayKey(date.wall) >= dayKey(splitWall) : date.wall >= splitWall);
+      });
+      if (kept.length > 0) lines.push(`${head}:${kept.join(',')}`);
+      continue;
+    }
+    const countMatch = /COUNT=(\d+)/i.exec(line);
+    if (countMatch) {
+      // COUNT covers the rule's own instances, excluded ones included
+      const before = expandOccurrences({ ...event, recurrenceRule: line, recurrenceEndAt: null }, event.startAt, splitAt)
+        .filter((occurrence) => occurrence.startAt < splitAt).length;
+      lines.push(line.replace(/COUNT=\d+/i, `COUNT=${Math.max(Number(countMatch[1]) - before, 1)}`));
+      continue;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,102 @@
+// Minimal text-only PDF writer (no external deps)
+// Produces Letter-size pages using the built-in Helvetica fonts.
+
+export interface PdfTextLine {
+  text: string;
+  bold?: boolean;
+  size?: number; // Font size in points (default 10)
+  indent?: number; // Left indent in points
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+
+function escapePdfText(value: string): string {
+  // Helvetica (WinAnsi) only covers Latin-1; replace anything else
+  const latin1 = value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+  return latin1.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function paginate(lines: PdfTextLine[]): PdfTextLine[][] {
+  const pages: PdfTextLine[][] = [];
+  let current: PdfTextLine[] = [];
+  let used = 0;
+  const available = PAGE_HEIGHT - MARGIN * 2;
+
+  for (const line of lines) {
+    const height = (line.size ?? 10) * 1.5;
+    if (used + height > available && current.length > 0) {
+      pages.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(line);
+    used += height;
+  }
+
+  if (current.length > 0 || pages.length === 0) {
+    pages.push(current);
+  }
+  return pages;
+}
+
+function buildContentStream(lines: PdfTextLine[]): string {
+  const ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    y -= size * 1.5;
+    if (line.text.length === 0) {
+      continue;
+    }
+    const font = line.bold ? 'F2' : 'F1';
+    const x = MARGIN + (line.indent ?? 0);
+    ops.push(`BT /${font} ${size} Tf ${x} ${y.toFixed(2)} Td (${escapePdfText(line.text)}) Tj ET`);
+  }
+  return ops.join('\n');
+}
+
+/**
+ * Render text lines into a PDF document buffer.
+ */
+export function renderTextPdf(lines: PdfTextLine[], title?: string): Buffer {
+  const pages = paginate(lines);
+  const objects: string[] = [];
+
+  // Object numbering: 1 catalog, 2 pages, 3 regular font, 4 bold font, 5 info,
+  // then a (page, content) pair per page.
+  const pageObjectIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Producer (Vssyl) /Title (${escapePdfText(title ?? 'Document')}) >>`;
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageObjectIds[index];
+    const contentId = pageId + 1;
+    const stream = buildContentStream(pageLines);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(body, 'latin1');
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
@@ -29,7 +29,7 @@ function formatToParts(date: Date, timeZone: string): DateParts {
     year: Number(map.year),
     month: Number(map.month),
     day: Number(map.day),
-    hour: Number(map.hour),
+    hour: Number(map.hour) % 24, // some ICU builds render midnight as 24
     minute: Number(map.minute),
     second: Number(map.second),
   };
@@ -48,7 +48,19 @@ export function zonedTimeToUtc(year: number, month1: number, day: number, hour:
   // Start with the intended UTC time, then adjust by the tz offset at that instant
   const guess = new Date(Date.UTC(year, month1 - 1, day, hour, minute, 0));
   const offsetMin = getTimeZoneOffsetMinutes(guess, timeZone);
-  return new Date(guess.getTime() - offsetMin * 60000);
+  const first = new Date(guess.getTime() - offsetMin * 60000);
+  // Near a DST change the offset at the result can differ from the one at the guess
+  const correctedMin = getTimeZoneOffsetMinutes(first, timeZone);
+  if (correctedMin === offsetMin) return first;
+  const second = new Date(guess.getTime() - correctedMin * 60000);
+  const matches = (candidate: Date) => {
+    const p = formatToParts(candidate, timeZone);
+    return p.year === year && p.month === month1 && p.day === day && p.hour === hour && p.minute === minute;
+  };
+  if (matches(first)) return first;
+  if (matches(second)) return second;
+  // The local time falls in a spring-forward gap: use the offset from before the change
+  return first.getTime() > second.getTime() ? first : second;
 }
 
 // Convenience function that takes a Date object and timezone
@@ -63,3 +75,32 @@ export function getLocalYmd(dateUtc: Date, timeZone: string): { year: number; mo
   return { year: p.year, month: p.month, day: p.day };
 }
 
+
+// Returns the time zone if Intl knows it, otherwise UTC
+export function normalizeTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+// Wall-clock time in a timeZone, expressed as a Date whose UTC fields hold the local fields
+export function toWallClock(dateUtc: Date, timeZone: string): Date {
+  return new Date(dateUtc.getTime() + getTimeZoneOffsetMinutes(dateUtc, timeZone) * 60000);
+}
+
+// Inverse of toWallClock
+export function fromWallClock(wall: Date, timeZone: string): Date {
+  const utc = zonedTimeToUtc(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth() + 1,
+    wall.getUTCDate(),
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    timeZone
+  );
+  return new Date(utc.getTime() + wall.getUTCSeconds() * 1000 + wall.getUTCMilliseconds());
+}
@@ -123,9 +123,13 @@ export async function validateEmailVerificationToken(token: string) {
   return verificationToken.user;
 }
 
-export async function createRsvpToken(eventId: string, attendeeEmail: string, response: string) {
+export async function createRsvpToken(
+  eventId: string,
+  attendeeEmail: string,
+  response: string,
+  expiresAt: Date = addDays(new Date(), 7) // 7 days for RSVP link validity
+) {
   const token = crypto.randomBytes(32).toString('hex');
-  const expiresAt = addDays(new Date(), 7); // 7 days for RSVP link validity
   
   await prisma.rsvpToken.create({
     data: {
@@ -27,6 +27,7 @@ export interface FileGridItem {
   size?: number;
   createdAt?: string;
   updatedAt?: string;
+  thumbnailUrl?: string; // Server-rendered preview; the type icon is shown without one
   owner?: {
     id: string;
     name: string;
@@ -211,7 +212,13 @@ function FileGridItemDraggable({
           {renderItem ? renderItem(item) : (
             <div className="flex flex-col items-center justify-center p-2 h-28">
               <div className="mb-2">
-                {item.type === 'folder' ? <Folder size={40} className="text-blue-500" /> : <File size={40} className="text-gray-500" />}
+                {item.type === 'folder' ? (
+                  <Folder size={40} className="text-blue-500" />
+                ) : item.thumbnailUrl ? (
+                  <img src={item.thumbnailUrl} alt="" className="h-16 w-16 object-cover rounded" loading="lazy" />
+                ) : (
+                  <File size={40} className="text-gray-500" />
+                )}
               </div>
               <span className="w-full text-center text-sm font-medium text-gray-700 truncate">{item.name}</span>
               {/* Classification Badge */}
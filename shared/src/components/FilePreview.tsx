@@ -12,6 +12,7 @@ export interface FileInfo {
   url: string;
   size?: number;
   lastModified?: string;
+  thumbnailUrl?: string; // Server-rendered preview image (PDF first page, video frame, etc.)
 }
 
 export interface FilePreviewProps {
@@ -24,6 +25,7 @@ export interface FilePreviewProps {
 interface PreviewProps {
   url: string;
   onError: (error: Error) => void;
+  posterUrl?: string;
 }
 
 const getFileType = (type: string, name: string): FileType => {
@@ -110,7 +112,7 @@ const TextPreview: React.FC<PreviewProps> = ({ url, onError }) => {
 // PDF preview has been removed to prevent build issues
 // Users can download PDFs instead of previewing them inline
 
-const VideoPreview: React.FC<PreviewProps> = ({ url, onError }) => {
+const VideoPreview: React.FC<PreviewProps> = ({ url, onError, posterUrl }) => {
   const [loading, setLoading] = useState(true);
   const [thumbnail, setThumbnail] = useState<string | null>(null);
   const videoRef = React.useRef<HTMLVideoElement>(null);
@@ -155,7 +157,7 @@ const VideoPreview: React.FC<PreviewProps> = ({ url, onError }) => {
         src={url}
         className="w-full h-auto"
         controls
-        poster={thumbnail || undefined}
+        poster={posterUrl || thumbnail || undefined}
       />
     </div>
   );
@@ -227,6 +229,15 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
       }
 
       if (!showContent) {
+        if (file.thumbnailUrl) {
+          return (
+            <img
+              src={file.thumbnailUrl}
+              alt={file.name}
+              className={`${sizeClass} object-cover rounded-lg bg-gray-50`}
+            />
+          );
+        }
         return (
           <div className={`flex items-center justify-center ${sizeClass} bg-gray-50 rounded-lg`}>
             <span className="text-4xl">📄</span>
@@ -253,7 +264,15 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
           return (
             <div className="p-4 bg-gray-50 rounded-lg">
               <div className="text-center">
-                <div className="text-gray-500 text-4xl mb-2">📄</div>
+                {file.thumbnailUrl ? (
+                  <img
+                    src={file.thumbnailUrl}
+                    alt={`First page of ${file.name}`}
+                    className="mx-auto mb-3 max-h-96 rounded shadow-sm"
+                  />
+                ) : (
+                  <div className="text-gray-500 text-4xl mb-2">📄</div>
+                )}
                 <p className="text-sm text-gray-600 mb-3">PDF Preview</p>
                 <a 
                   href={file.url} 
@@ -268,7 +287,7 @@ export const FilePreview: React.FC<FilePreviewProps> = ({
         case 'text':
           return <TextPreview url={file.url} onError={handleError} />;
         case 'video':
-          return <VideoPreview url={file.url} onError={handleError} />;
+          return <VideoPreview url={file.url} onError={handleError} posterUrl={file.thumbnailUrl} />;
         case 'audio':
           return <AudioPreview url={file.url} onError={handleError} />;
         default:
@@ -26,6 +26,14 @@ export interface SearchResult {
   permissions: Permission[];
   lastModified: Date;
   relevanceScore?: number;
+  // Matching passage for results found by content rather than title
+  excerpt?: SearchExcerpt;
+}
+
+// Highlights are [start, end) character offsets into text
+export interface SearchExcerpt {
+  text: string;
+  highlights: Array<{ start: number; end: number }>;
 }
 
 export interface SearchSuggestion {
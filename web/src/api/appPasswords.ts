@@ -0,0 +1,42 @@
+import { authenticatedApiCall } from '../lib/apiUtils';
+
+export interface AppPassword {
+  id: string;
+  name: string;
+  tokenHint: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateAppPasswordResponse {
+  appPassword: AppPassword;
+  /** Shown once; only its last characters are kept for display */
+  password: string;
+}
+
+/**
+ * WebDAV address desktop clients connect to with an app password
+ */
+export function getDavUrl(): string {
+  const base = process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || 'https://vssyl-server-235369681725.us-central1.run.app';
+  return `${base.replace(/\/$/, '')}/dav/`;
+}
+
+export const listAppPasswords = async (): Promise<{ appPasswords: AppPassword[] }> => {
+  return authenticatedApiCall<{ appPasswords: AppPassword[] }>('/api/user/app-passwords', {
+    method: 'GET',
+  });
+};
+
+export const createAppPassword = async (name: string): Promise<CreateAppPasswordResponse> => {
+  return authenticatedApiCall<CreateAppPasswordResponse>('/api/user/app-passwords', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+};
+
+export const revokeAppPassword = async (id: string): Promise<{ success: boolean }> => {
+  return authenticatedApiCall<{ success: boolean }>(`/api/user/app-passwords/${id}`, {
+    method: 'DELETE',
+  });
+};
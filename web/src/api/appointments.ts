@@ -0,0 +1,171 @@
+import { authenticatedApiCall } from '../lib/apiUtils';
+import { WorkingHoursRange } from './calendar';
+
+export interface IntakeQuestion {
+  id: string;
+  label: string;
+  required: boolean;
+}
+
+export interface AppointmentType {
+  id: string;
+  contextType: 'PERSONAL' | 'BUSINESS';
+  // User id for personal pages, business id for business pages
+  contextId: string;
+  hostId: string;
+  calendarId: string;
+  name: string;
+  description?: string | null;
+  location?: string | null;
+  durationMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  minNoticeMinutes: number;
+  maxAdvanceDays: number;
+  maxPerDay?: number | null;
+  timezone: string;
+  // Weekly availability as local "HH:MM" ranges in `timezone`
+  availability: WorkingHoursRange[];
+  questions: IntakeQuestion[];
+  isActive: boolean;
+}
+
+export type AppointmentTypeInput = Partial<Omit<AppointmentType, 'id' | 'contextType' | 'contextId'>> & {
+  contextType?: 'PERSONAL' | 'BUSINESS';
+  contextId?: string;
+};
+
+export interface AppointmentBookingSummary {
+  id: string;
+  status: 'CONFIRMED' | 'CANCELED';
+  guestName: string;
+  guestEmail: string;
+  answers: Record<string, string>;
+  eventId: string;
+  startAt: string;
+  endAt: string;
+}
+
+export type PublicAppointmentType = Pick<
+  AppointmentType,
+  'id' | 'name' | 'description' | 'location' | 'durationMinutes' | 'timezone' | 'questions'
+>;
+
+export interface BookingPage {
+  owner: { type: 'user' | 'business'; id: string; name: string | null; logo: string | null };
+  appointmentTypes: PublicAppointmentType[];
+}
+
+export interface OpenSlots {
+  timezone: string;
+  durationMinutes: number;
+  slots: Array<{ startAt: string; endAt: string }>;
+}
+
+export interface PublicBooking {
+  id: string;
+  status: 'CONFIRMED' | 'CANCELED';
+  guestName: string;
+  guestEmail: string;
+  answers: Record<string, string>;
+  startAt: string;
+  endAt: string;
+  appointmentType: PublicAppointmentType;
+}
+
+export interface BookingInput {
+  startAt: string;
+  name: string;
+  email: string;
+  answers: Record<string, string>;
+}
+
+// Path of the public page that lists a user's or business's appointment types
+export const bookingPagePath = (type: Pick<AppointmentType, 'contextType' | 'contextId'>) =>
+  `/book/${type.contextType === 'BUSINESS' ? 'business' : 'user'}/${type.contextId}`;
+
+// ----------------------------------------------------------------------------
+// Appointment type management (authenticated)
+// ----------------------------------------------------------------------------
+
+export const appointmentsAPI = {
+  listTypes: async (contextType: 'PERSONAL' | 'BUSINESS', contextId?: string) => {
+    const query = new URLSearchParams({ contextType });
+    if (contextId) query.append('contextId', contextId);
+    return authenticatedApiCall<{ success: boolean; data: AppointmentType[] }>(`/api/calendar/appointment-types?${query.toString()}`);
+  },
+  createType: async (body: AppointmentTypeInput) => {
+    return authenticatedApiCall<{ success: boolean; data: AppointmentType }>(`/api/calendar/appointment-types`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  },
+  updateType: async (id: string, body: AppointmentTypeInput) => {
+    return authenticatedApiCall<{ success: boolean; data: AppointmentType }>(`/api/calendar/appointment-types/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  },
+  archiveType: async (id: string) => {
+    return authenticatedApiCall<{ success: boolean }>(`/api/calendar/appointment-types/${id}`, { method: 'DELETE' });
+  },
+  listBookings: async (id: string) => {
+    return authenticatedApiCall<{ success: boolean; data: AppointmentBookingSummary[] }>(`/api/calendar/appointment-types/${id}/bookings`);
+  },
+};
+
+// ----------------------------------------------------------------------------
+// Public booking pages (no authentication)
+// ----------------------------------------------------------------------------
+
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => null) as { error?: string } | null;
+  return body?.error || `Request failed (${response.status})`;
+};
+
+async function publicCall<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  const response = await fetch(endpoint, options);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = await response.json() as { data: T };
+  return body.data;
+}
+
+const postJson = (body: unknown): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+const windowQuery = (start: string, end: string) => new URLSearchParams({ start, end }).toString();
+
+export async function getBookingPage(ownerType: string, ownerId: string): Promise<BookingPage> {
+  return publicCall<BookingPage>(`/api/booking/${ownerType}/${ownerId}`);
+}
+
+export async function getOpenSlots(typeId: string, start: string, end: string): Promise<OpenSlots> {
+  return publicCall<OpenSlots>(`/api/booking/types/${typeId}/slots?${windowQuery(start, end)}`);
+}
+
+export async function bookAppointment(typeId: string, input: BookingInput): Promise<{ booking: PublicBooking; manageToken: string }> {
+  return publicCall(`/api/booking/types/${typeId}/book`, postJson(input));
+}
+
+export async function getManagedBooking(token: string): Promise<PublicBooking> {
+  return publicCall<PublicBooking>(`/api/booking/manage/${token}`);
+}
+
+export async function getRescheduleSlots(token: string, start: string, end: string): Promise<OpenSlots> {
+  return publicCall<OpenSlots>(`/api/booking/manage/${token}/slots?${windowQuery(start, end)}`);
+}
+
+export async function rescheduleBooking(token: string, startAt: string): Promise<PublicBooking> {
+  return publicCall<PublicBooking>(`/api/booking/manage/${token}/reschedule`, postJson({ startAt }));
+}
+
+export async function cancelBooking(token: string): Promise<PublicBooking> {
+  return publicCall<PublicBooking>(`/api/booking/manage/${token}/cancel`, postJson({}));
+}
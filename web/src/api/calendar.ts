@@ -30,18 +30,164 @@ export interface EventItem {
   recurrenceRule?: string;
   recurrenceEndAt?: string;
   parentEventId?: string;
+  // Original start of the series occurrence this exception replaces
+  recurrenceId?: string;
   createdById?: string;
   reminders?: { minutesBefore: number; method?: 'APP' | 'EMAIL' }[];
   attendees?: Attendee[];
   comments?: EventComment[];
 }
 
+export interface BusyInterval {
+  startAt: string;
+  endAt: string;
+}
+
+// A working period on one weekday (0 = Sunday) as local "HH:MM" times
+export interface WorkingHoursRange {
+  day: number;
+  start: string;
+  end: string;
+}
+
+export interface WorkingHours {
+  timezone: string;
+  hours: WorkingHoursRange[];
+}
+
+export interface FreeBusyPerson {
+  userId: string | null;
+  email: string;
+  // unknown: no account for the email; hidden: not shared with you
+  status: 'ok' | 'unknown' | 'hidden';
+  timezone: string | null;
+  busy: BusyInterval[];
+  // Working time within the range, or null when the person hasn't set working hours
+  workingHours: BusyInterval[] | null;
+}
+
+export interface FreeBusy {
+  start: string;
+  end: string;
+  busy: BusyInterval[];
+  calendars: Array<{ calendarId: string; busy: BusyInterval[] }>;
+  people: FreeBusyPerson[];
+}
+
+export type SlotAttendeeReason =
+  | 'free'
+  | 'busy'
+  | 'back_to_back'
+  | 'outside_working_hours'
+  | 'booking_policy'
+  | 'hidden'
+  | 'unknown';
+
+export interface SlotAttendee {
+  kind: 'person' | 'resource';
+  id: string | null;
+  // Email for people, name for resources
+  label: string;
+  // null when the attendee's calendar can't be checked
+  free: boolean | null;
+  reason: SlotAttendeeReason;
+  detail?: string;
+}
+
+export interface CandidateSlot {
+  startAt: string;
+  endAt: string;
+  preferred: boolean;
+  freeCount: number;
+  unavailableCount: number;
+  attendees: SlotAttendee[];
+}
+
+export interface FindTimeRequest {
+  start: string;
+  end: string;
+  durationMinutes: number;
+  attendeeEmails?: string[];
+  userIds?: string[];
+  resourceIds?: string[];
+  workingHoursOnly?: boolean;
+  avoidBackToBack?: boolean;
+  bufferMinutes?: number;
+  // Local "HH:MM" ranges in `timezone`, applied every day
+  preferredTimes?: Array<{ start: string; end: string }>;
+  timezone?: string;
+  stepMinutes?: number;
+  limit?: number;
+}
+
+export interface FindTimeResult {
+  start: string;
+  end: string;
+  durationMinutes: number;
+  timezone: string;
+  attendees: Array<Pick<SlotAttendee, 'kind' | 'id' | 'label'> & { status: 'ok' | 'hidden' | 'unknown' }>;
+  // Best first
+  slots: CandidateSlot[];
+}
+
+// Which occurrences of a recurring event an edit or delete applies to
+export type EditScope = 'THIS' | 'FOLLOWING' | 'SERIES';
+
 export interface Attendee {
   userId?: string;
   email?: string;
+  // Set when a bookable resource attends; NEEDS_ACTION means awaiting approval
+  resourceId?: string;
   response?: 'NEEDS_ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE';
 }
 
+export type ResourceType = 'ROOM' | 'VEHICLE' | 'EQUIPMENT' | 'SPACE';
+
+export interface CalendarResource {
+  id: string;
+  businessId: string;
+  name: string;
+  type: ResourceType;
+  description?: string | null;
+  location?: string | null;
+  capacity?: number | null;
+  amenities: string[];
+  maxDurationMinutes?: number | null;
+  minLeadMinutes?: number | null;
+  maxAdvanceDays?: number | null;
+  requiresApproval: boolean;
+  isActive: boolean;
+}
+
+export type CalendarResourceInput = Partial<Omit<CalendarResource, 'id' | 'businessId'>>;
+
+export interface ResourceBusySlot {
+  startAt: string;
+  endAt: string;
+  status: 'CONFIRMED' | 'PENDING';
+  // Only included for your own bookings, or for resource managers
+  bookingId?: string;
+  eventId?: string;
+  title?: string;
+}
+
+export interface ResourceAvailability {
+  resourceId: string;
+  busy: ResourceBusySlot[];
+}
+
+export interface ResourceBooking {
+  id: string;
+  status: 'CONFIRMED' | 'PENDING' | 'DECLINED';
+  resource: Pick<CalendarResource, 'id' | 'name' | 'type' | 'location'>;
+  eventId: string;
+  title: string;
+  startAt: string;
+  endAt: string;
+  recurring: boolean;
+  bookedById?: string | null;
+}
+
 export const calendarAPI = {
   listCalendars: async (params?: { contextType?: string; contextId?: string }) => {
     const query = new URLSearchParams();
@@ -49,10 +195,29 @@ export const calendarAPI = {
     if (params?.contextId) query.set('contextId', params.contextId);
     return authenticatedApiCall<{ success: boolean; data: Calendar[] }>(`/api/calendar?${query.toString()}`);
   },
-  freeBusy: async (params: { start: string; end: string; calendarIds: string[] }) => {
+  freeBusy: async (params: { start: string; end: string; calendarIds?: string[]; attendeeEmails?: string[]; userIds?: string[] }) => {
     const query = new URLSearchParams({ start: params.start, end: params.end });
-    params.calendarIds.forEach(id => query.append('calendarIds', id));
-    return authenticatedApiCall<{ success: boolean; data: { startAt: string; endAt: string }[] }>(`/api/calendar/freebusy?${query.toString()}`);
+    params.calendarIds?.forEach(id => query.append('calendarIds', id));
+    params.attendeeEmails?.forEach(email => query.append('attendeeEmails', email));
+    params.userIds?.forEach(id => query.append('userIds', id));
+    return authenticatedApiCall<{ success: boolean; data: FreeBusy }>(`/api/calendar/freebusy?${query.toString()}`);
+  },
+  findTime: async (body: FindTimeRequest) => {
+    return authenticatedApiCall<{ success: boolean; data: FindTimeResult }>(`/api/calendar/find-time`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  },
+  getWorkingHours: async () => {
+    return authenticatedApiCall<{ success: boolean; data: WorkingHours | null }>(`/api/calendar/working-hours`);
+  },
+  updateWorkingHours: async (body: WorkingHours) => {
+    return authenticatedApiCall<{ success: boolean; data: WorkingHours }>(`/api/calendar/working-hours`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
   },
   createCalendar: async (body: { name: string; color?: string; contextType: 'PERSONAL'|'BUSINESS'|'HOUSEHOLD'; contextId: string; isPrimary?: boolean }) => {
     return authenticatedApiCall<{ success: boolean; data: Calendar }>(`/api/calendar`, {
@@ -97,21 +262,21 @@ export const calendarAPI = {
     (params.calendarIds || []).forEach(id => query.append('calendarIds', id));
     return authenticatedApiCall<{ success: boolean; data: { id: string; calendarId: string; title: string; startAt: string; endAt: string; }[] }>(`/api/calendar/events/conflicts?${query.toString()}`);
   },
-  createEvent: async (body: Partial<EventItem> & { calendarId: string; title: string; startAt: string; endAt: string }) => {
+  createEvent: async (body: Partial<EventItem> & { calendarId: string; title: string; startAt: string; endAt: string; resourceIds?: string[] }) => {
     return authenticatedApiCall<{ success: boolean; data: EventItem }>(`/api/calendar/events`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body)
     });
   },
-  updateEvent: async (id: string, body: Partial<EventItem>) => {
+  updateEvent: async (id: string, body: Partial<EventItem> & { resourceIds?: string[]; editMode?: EditScope }) => {
     return authenticatedApiCall<{ success: boolean; data: EventItem }>(`/api/calendar/events/${id}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body)
     });
   },
-  deleteEvent: async (id: string, opts?: { editMode?: 'THIS'|'SERIES'; occurrenceStartAt?: string }) => {
+  deleteEvent: async (id: string, opts?: { editMode?: EditScope; occurrenceStartAt?: string }) => {
     const url = new URL(`/api/calendar/events/${id}`, process.env.NEXT_PUBLIC_API_BASE_URL || process.env.NEXT_PUBLIC_API_URL || 'https://vssyl-server-235369681725.us-central1.run.app');
     if (opts?.editMode) url.searchParams.set('editMode', opts.editMode);
     if (opts?.occurrenceStartAt) url.searchParams.set('occurrenceStartAt', opts.occurrenceStartAt);
@@ -172,6 +337,49 @@ export const calendarAPI = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(params)
     });
+  },
+
+  // Bookable resources
+  listResources: async (businessId: string, opts?: { includeInactive?: boolean }) => {
+    const query = new URLSearchParams({ businessId });
+    if (opts?.includeInactive) query.set('includeInactive', 'true');
+    return authenticatedApiCall<{ success: boolean; data: CalendarResource[] }>(`/api/calendar/resources?${query.toString()}`);
+  },
+  createResource: async (businessId: string, body: CalendarResourceInput & { name: string; type: ResourceType }) => {
+    return authenticatedApiCall<{ success: boolean; data: CalendarResource }>(`/api/calendar/resources`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, businessId })
+    });
+  },
+  updateResource: async (id: string, body: CalendarResourceInput) => {
+    return authenticatedApiCall<{ success: boolean; data: CalendarResource }>(`/api/calendar/resources/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  },
+  archiveResource: async (id: string) => {
+    return authenticatedApiCall<{ success: boolean }>(`/api/calendar/resources/${id}`, { method: 'DELETE' });
+  },
+  resourceAvailability: async (params: { start: string; end: string; businessId?: string; resourceIds?: string[] }) => {
+    const query = new URLSearchParams({ start: params.start, end: params.end });
+    if (params.businessId) query.set('businessId', params.businessId);
+    (params.resourceIds || []).forEach(id => query.append('resourceIds', id));
+    return authenticatedApiCall<{ success: boolean; data: ResourceAvailability[] }>(`/api/calendar/resources/availability?${query.toString()}`);
+  },
+  listResourceBookings: async (businessId: string, scope: 'mine' | 'pending' = 'mine') => {
+    const query = new URLSearchParams({ businessId, scope });
+    return authenticatedApiCall<{ success: boolean; data: ResourceBooking[] }>(`/api/calendar/resources/bookings?${query.toString()}`);
+  },
+  approveResourceBooking: async (bookingId: string) => {
+    return authenticatedApiCall<{ success: boolean; data: ResourceBooking }>(`/api/calendar/resources/bookings/${bookingId}/approve`, { method: 'POST' });
+  },
+  declineResourceBooking: async (bookingId: string) => {
+    return authenticatedApiCall<{ success: boolean; data: ResourceBooking }>(`/api/calendar/resources/bookings/${bookingId}/decline`, { method: 'POST' });
+  },
+  cancelResourceBooking: async (bookingId: string) => {
+    return authenticatedApiCall<{ success: boolean }>(`/api/calendar/resources/bookings/${bookingId}`, { method: 'DELETE' });
   }
 };
 
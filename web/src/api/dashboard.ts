@@ -111,11 +111,20 @@ export interface DashboardMigration {
   errorMessage?: string;
 }
 
+// Archive saved to the main drive when a dashboard is deleted with { type: 'export' }
+export interface DashboardExportResult {
+  fileId: string;
+  fileName: string;
+  downloadUrl: string;
+  exportSize: number;
+  fileCount: number;
+}
+
 export async function deleteDashboardWithFiles(
   token: string, 
   dashboardId: string, 
   fileAction?: FileHandlingAction
-): Promise<{ deleted: number; migration?: DashboardMigration; message: string }> {
+): Promise<{ deleted: number; migration?: DashboardMigration & { exportResult?: DashboardExportResult }; message: string }> {
   const res = await fetch(`${API_BASE}/${dashboardId}`, {
     method: 'DELETE',
     body: JSON.stringify({ fileAction }),
@@ -52,10 +52,11 @@ function authHeaders(token: string, headers: Record<string, string> = {}) {
   return { ...headers, Authorization: `Bearer ${token}` };
 }
 
-export async function listFiles(token: string, folderId?: string, starred?: boolean) {
+export async function listFiles(token: string, folderId?: string, starred?: boolean, sharedDriveId?: string) {
   const params = new URLSearchParams();
   if (folderId) params.append('folderId', folderId);
   if (starred !== undefined) params.append('starred', starred.toString());
+  if (sharedDriveId) params.append('sharedDriveId', sharedDriveId);
   
   const url = `/api/drive/files${params.toString() ? `?${params.toString()}` : ''}`;
   const res = await fetch(url, { headers: authHeaders(token) });
@@ -65,10 +66,11 @@ export async function listFiles(token: string, folderId?: string, starred?: bool
   return Array.isArray(data) ? data : (data.files || []);
 }
 
-export async function listFolders(token: string, parentId?: string, starred?: boolean) {
+export async function listFolders(token: string, parentId?: string, starred?: boolean, sharedDriveId?: string) {
   const params = new URLSearchParams();
   if (parentId) params.append('parentId', parentId);
   if (starred !== undefined) params.append('starred', starred.toString());
+  if (sharedDriveId) params.append('sharedDriveId', sharedDriveId);
   
   const url = `/api/drive/folders${params.toString() ? `?${params.toString()}` : ''}`;
   const res = await fetch(url, { headers: authHeaders(token) });
@@ -83,13 +85,15 @@ export async function uploadFile(
   file: globalThis.File,
   folderId?: string,
   isChatFile?: boolean,
-  dashboardId?: string
+  dashboardId?: string,
+  sharedDriveId?: string
 ): Promise<File> {
   const formData = new FormData();
   formData.append('file', file);
   if (folderId) formData.append('folderId', folderId);
   if (isChatFile) formData.append('chat', 'true');
   if (dashboardId) formData.append('dashboardId', dashboardId);
+  if (sharedDriveId) formData.append('sharedDriveId', sharedDriveId);
   
   console.log('📤 Uploading file:', {
     fileName: file.name,
@@ -122,6 +126,136 @@ export async function uploadFile(
   return data.file;
 }
 
+// Resumable uploads: files above this size are sent in chunks that survive dropped connections
+export const RESUMABLE_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+const CHUNK_RETRY_LIMIT = 5;
+
+export type UploadSession = {
+  id: string;
+  fileName: string;
+  totalSize: number;
+  chunkSize: number;
+  status: 'active' | 'finalizing' | 'completed' | 'failed';
+  receivedBytes: number;
+  receivedRanges: Array<{ start: number; end: number }>;
+  missingOffsets: number[];
+  expiresAt: string;
+  fileId: string | null;
+};
+
+export type ResumableUploadOptions = {
+  folderId?: string;
+  dashboardId?: string;
+  sharedDriveId?: string;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+};
+
+// Same file picked again after a failure resumes its session
+const uploadSessionKey = (file: globalThis.File, folderId?: string) =>
+  `vssyl_upload_${folderId || 'root'}_${file.name}_${file.size}_${file.lastModified}`;
+
+async function uploadRequest(url: string, init: RequestInit, fallback: string): Promise<Response> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    let message = fallback;
+    try {
+      message = (await res.json()).message || fallback;
+    } catch {
+      // keep fallback
+    }
+    throw Object.assign(new Error(message), { status: res.status });
+  }
+  return res;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function findResumableSession(token: string, key: string): Promise<UploadSession | null> {
+  const sessionId = localStorage.getItem(key);
+  if (!sessionId) return null;
+  try {
+    const res = await uploadRequest(`/api/drive/uploads/${sessionId}`, { headers: authHeaders(token) }, 'Upload session not found');
+    const { session } = await res.json();
+    if (session.status === 'active' || session.status === 'completed') return session;
+  } catch {
+    // expired or cleaned up; start over
+  }
+  localStorage.removeItem(key);
+  return null;
+}
+
+/**
+ * Upload a file in chunks. Each chunk is retried with backoff, and picking the same
+ * file again after a failure resumes from the chunks the server already has.
+ */
+export async function uploadFileResumable(token: string, file: globalThis.File, options: ResumableUploadOptions = {}): Promise<File> {
+  const key = uploadSessionKey(file, options.folderId);
+  let session = await findResumableSession(token, key);
+
+  if (!session) {
+    const res = await uploadRequest('/api/drive/uploads', {
+      method: 'POST',
+      body: JSON.stringify({
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        folderId: options.folderId,
+        dashboardId: options.dashboardId,
+        sharedDriveId: options.sharedDriveId,
+      }),
+      headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+      signal: options.signal,
+    }, 'Failed to start upload');
+    session = (await res.json()).session as UploadSession;
+    localStorage.setItem(key, session.id);
+  }
+
+  const sessionId = session.id;
+  let uploaded = session.receivedBytes;
+  options.onProgress?.(uploaded, file.size);
+
+  for (const offset of session.status === 'active' ? session.missingOffsets : []) {
+    const chunk = await file.slice(offset, offset + session.chunkSize).arrayBuffer();
+    const checksum = await sha256Hex(chunk);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await uploadRequest(`/api/drive/uploads/${sessionId}/chunks?offset=${offset}`, {
+          method: 'PUT',
+          body: chunk,
+          headers: authHeaders(token, { 'Content-Type': 'application/octet-stream', 'X-Chunk-Checksum': checksum }),
+          signal: options.signal,
+        }, 'Failed to upload chunk');
+        break;
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        // Client errors other than a corrupted chunk will not go away on retry
+        const retryable = status === undefined || status >= 500 || status === 422;
+        if (options.signal?.aborted || !retryable || attempt >= CHUNK_RETRY_LIMIT) throw error;
+        await delay(Math.min(30000, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+
+    uploaded += chunk.byteLength;
+    options.onProgress?.(uploaded, file.size);
+  }
+
+  const res = await uploadRequest(`/api/drive/uploads/${sessionId}/complete`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+    signal: options.signal,
+  }, 'Failed to finalize upload');
+  localStorage.removeItem(key);
+  return (await res.json()).file;
+}
+
 export async function renameFile(token: string, id: string, name: string) {
   const res = await fetch(`/api/drive/files/${id}`, {
     method: 'PUT',
@@ -133,6 +267,130 @@ export async function renameFile(token: string, id: string, name: string) {
   return data.file;
 }
 
+export type FileVersionEntry = {
+  id: string | null; // null for the current content
+  versionNumber: number;
+  name: string;
+  type: string;
+  size: number;
+  checksum: string | null;
+  uploadedBy: { id: string; name: string | null; email: string } | null;
+  uploadedAt: string;
+  isCurrent: boolean;
+  changes: {
+    sizeDelta: number;
+    contentChanged: boolean;
+    nameChanged: boolean;
+    typeChanged: boolean;
+  } | null;
+};
+
+export type FileVersionHistory = {
+  retention: { keepLast: number; keepDays: number };
+  versions: FileVersionEntry[];
+};
+
+// Overwrite a file's content; the previous content is kept as a version
+export async function uploadFileVersion(token: string, id: string, file: globalThis.File): Promise<File> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const res = await fetch(`/api/drive/files/${id}`, {
+    method: 'PUT',
+    body: formData,
+    headers: authHeaders(token),
+  });
+  if (!res.ok) throw new Error('Failed to upload new version');
+  const data = await res.json();
+  return data.file;
+}
+
+export async function listFileVersions(token: string, id: string): Promise<FileVersionHistory> {
+  const res = await fetch(`/api/drive/files/${id}/versions`, { headers: authHeaders(token) });
+  if (!res.ok) throw new Error('Failed to fetch file versions');
+  return res.json();
+}
+
+export async function restoreFileVersion(token: string, id: string, versionId: string): Promise<File> {
+  const res = await fetch(`/api/drive/files/${id}/versions/${versionId}/restore`, {
+    method: 'POST',
+    headers: authHeaders(token),
+  });
+  if (!res.ok) throw new Error('Failed to restore version');
+  const data = await res.json();
+  return data.file;
+}
+
+export async function deleteFileVersion(token: string, id: string, versionId: string) {
+  const res = await fetch(`/api/drive/files/${id}/versions/${versionId}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  });
+  if (!res.ok) throw new Error('Failed to delete version');
+  return true;
+}
+
+// keepLast / keepDays of null fall back to the server defaults, 0 disables the limit
+export async function updateFileVersionRetention(
+  token: string,
+  id: string,
+  keepLast: number | null,
+  keepDays: number | null
+): Promise<FileVersionHistory> {
+  const res = await fetch(`/api/drive/files/${id}/versions/retention`, {
+    method: 'PUT',
+    body: JSON.stringify({ keepLast, keepDays }),
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+  });
+  if (!res.ok) throw new Error('Failed to update version retention');
+  return res.json();
+}
+
+export async function downloadFileVersion(token: string, id: string, version: FileVersionEntry): Promise<void> {
+  const res = await fetch(`/api/drive/files/${id}/versions/${version.id}/download`, {
+    headers: authHeaders(token),
+  });
+  if (!res.ok) throw new Error('Failed to download version');
+  const blob = await res.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = version.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+export type StorageBreakdown = {
+  drive: number;
+  trash: number;
+  versions: number;
+  chat: number;
+  taskAttachments: number;
+  profilePhotos: number;
+};
+
+export type StorageUsage = {
+  scope: { userId: string; businessId: string | null };
+  tier: string;
+  breakdown: StorageBreakdown;
+  usedBytes: number;
+  limitBytes: number | null; // null = unlimited
+  remainingBytes: number | null;
+  percentageUsed: number;
+};
+
+// Personal quota usage, plus the business's when businessId is given
+export async function getStorageUsage(
+  token: string,
+  businessId?: string | null
+): Promise<{ personal: StorageUsage; business: StorageUsage | null }> {
+  const params = businessId ? `?businessId=${encodeURIComponent(businessId)}` : '';
+  const res = await fetch(`/api/drive/storage${params}`, { headers: authHeaders(token) });
+  if (!res.ok) throw new Error('Failed to fetch storage usage');
+  return res.json();
+}
+
 export async function deleteFile(token: string, id: string) {
   const res = await fetch(`/api/drive/files/${id}`, {
     method: 'DELETE',
@@ -142,10 +400,10 @@ export async function deleteFile(token: string, id: string) {
   return true;
 }
 
-export async function createFolder(token: string, name: string, parentId?: string) {
+export async function createFolder(token: string, name: string, parentId?: string, sharedDriveId?: string) {
   const res = await fetch('/api/drive/folders', {
     method: 'POST',
-    body: JSON.stringify({ name, parentId }),
+    body: JSON.stringify({ name, parentId, sharedDriveId }),
     headers: authHeaders(token, { 'Content-Type': 'application/json' }),
   });
   if (!res.ok) throw new Error('Failed to create folder');
@@ -237,8 +495,111 @@ export const downloadFile = async (token: string, fileId: string): Promise<void>
   }
 };
 
+// Save a ZIP response under the name from its Content-Disposition header
+async function saveArchiveResponse(res: Response, fallbackName: string): Promise<void> {
+  const disposition = res.headers.get('Content-Disposition') || '';
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+  const plain = disposition.match(/filename="([^"]*)"/i);
+  const filename = encoded ? decodeURIComponent(encoded[1]) : plain?.[1] || fallbackName;
+
+  const blob = await res.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+async function archiveErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json();
+    return data.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Download a folder, including its subfolders, as a ZIP
+export async function downloadFolder(token: string, folderId: string): Promise<void> {
+  const res = await fetch(`/api/drive/folders/${folderId}/download`, { headers: authHeaders(token) });
+  if (!res.ok) throw new Error(await archiveErrorMessage(res, 'Failed to download folder'));
+  await saveArchiveResponse(res, 'folder.zip');
+}
+
+// Download several files and folders as one ZIP; items the user can't read are left out
+export async function downloadItems(
+  token: string,
+  items: { fileIds: string[]; folderIds: string[] },
+  name?: string
+): Promise<{ skipped: number }> {
+  const res = await fetch('/api/drive/download', {
+    method: 'POST',
+    body: JSON.stringify({ ...items, name }),
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+  });
+  if (!res.ok) throw new Error(await archiveErrorMessage(res, 'Failed to download items'));
+  await saveArchiveResponse(res, 'Drive download.zip');
+  return { skipped: Number(res.headers.get('X-Archive-Skipped')) || 0 };
+}
+
+// Data loss prevention: sharing classified content outside the organization is blocked,
+// or needs the user to acknowledge a warning and retry with acknowledgeDlpWarning
+export class DlpPolicyError extends Error {
+  constructor(message: string, readonly code: 'dlp_blocked' | 'dlp_warning', readonly sensitivity?: string) {
+    super(message);
+  }
+}
+
+function toDlpError(data: { message?: string; code?: string; sensitivity?: string }): DlpPolicyError | null {
+  if (data.code !== 'dlp_blocked' && data.code !== 'dlp_warning') return null;
+  return new DlpPolicyError(data.message || 'Sharing is restricted by policy', data.code, data.sensitivity);
+}
+
+async function permissionError(response: Response, fallback: string): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  return toDlpError(data) ?? new Error(fallback);
+}
+
+export type ShareOptions = { acknowledgeDlpWarning?: boolean };
+
+/**
+ * Run a share, asking the user to confirm when the DLP policy warns about it.
+ * Resolves to null if they decline; blocked shares reject with the DlpPolicyError.
+ */
+export async function shareWithDlpConfirmation<T>(share: (options: ShareOptions) => Promise<T>): Promise<T | null> {
+  try {
+    return await share({});
+  } catch (error) {
+    if (!(error instanceof DlpPolicyError) || error.code !== 'dlp_warning') throw error;
+    if (!window.confirm(error.message)) return null;
+    return share({ acknowledgeDlpWarning: true });
+  }
+}
+
+export type DlpScan = {
+  scan: {
+    sensitivity: string | null;
+    matches: Array<{ ruleId: string; ruleName: string; sensitivity: string; count: number }>;
+  };
+  classification: { sensitivity: string; classifiedBy: string; notes: string | null } | null;
+};
+
+// Rescan a file against the organization's classification rules
+export async function scanFileForDlp(token: string, fileId: string): Promise<DlpScan> {
+  const res = await fetch(`/api/drive/files/${fileId}/dlp-scan`, {
+    method: 'POST',
+    headers: authHeaders(token),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.message || 'Failed to scan file');
+  return data;
+}
+
 // Share file by email (finds user by email and grants permission, or returns share link)
-export const shareItemByEmail = async (token: string, fileId: string, email: string, permission: 'view' | 'edit'): Promise<{ success: boolean; shareLink?: string; message: string }> => {
+export const shareItemByEmail = async (token: string, fileId: string, email: string, permission: 'view' | 'edit', options: ShareOptions = {}): Promise<{ success: boolean; shareLink?: string; message: string }> => {
   // First, try to find the user by email
   try {
     const userSearchResponse = await fetch(`/api/member/users/search?query=${encodeURIComponent(email)}&limit=1`, {
@@ -254,12 +615,13 @@ export const shareItemByEmail = async (token: string, fileId: string, email: str
         const userId = users[0].id;
         const canRead = true;
         const canWrite = permission === 'edit';
-        await grantFilePermission(token, fileId, userId, canRead, canWrite);
+        await grantFilePermission(token, fileId, userId, canRead, canWrite, options);
         return { success: true, message: `File shared with ${email}` };
       }
     }
     // If response is not ok (404, etc.) or no users found, continue to generate share link
   } catch (error) {
+    if (error instanceof DlpPolicyError) throw error;
     // Search failed, continue to handle as non-user
     console.error('User search failed:', error);
   }
@@ -273,20 +635,138 @@ export const shareItemByEmail = async (token: string, fileId: string, email: str
   };
 };
 
-export const getShareLink = async (token: string, itemId: string): Promise<string> => {
+export type ShareLinkSettings = {
+  password?: string | null; // null or '' removes the password
+  allowedDomains?: string[];
+  allowDownload?: boolean;
+  maxDownloads?: number | null;
+  trackViews?: boolean;
+  expiresAt?: string | null;
+  acknowledgeDlpWarning?: boolean;
+};
+
+export type DriveShareLink = {
+  id: string;
+  token: string;
+  url: string;
+  fileId: string | null;
+  folderId: string | null;
+  hasPassword: boolean;
+  allowedDomains: string[];
+  allowDownload: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  viewCount: number;
+  trackViews: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastAccessedAt: string | null;
+  createdAt: string;
+  createdBy?: { id: string; name: string | null; email: string };
+};
+
+async function shareLinkError(response: Response, fallback: string): Promise<Error> {
+  try {
+    const data = await response.json();
+    return toDlpError(data) ?? new Error(data.message || fallback);
+  } catch {
+    return new Error(fallback);
+  }
+}
+
+export const getShareLink = async (token: string, itemId: string, settings: ShareLinkSettings = {}): Promise<string> => {
+  const shareLink = await createShareLink(token, itemId, settings);
+  return shareLink.url;
+};
+
+export async function createShareLink(token: string, itemId: string, settings: ShareLinkSettings = {}): Promise<DriveShareLink> {
   const response = await fetch(`/api/drive/items/${itemId}/share-link`, {
     method: 'POST',
+    body: JSON.stringify(settings),
     headers: authHeaders(token, { 'Content-Type': 'application/json' }),
   });
+  if (!response.ok) throw await shareLinkError(response, 'Failed to create share link');
+  const data = await response.json();
+  return data.shareLink;
+}
 
-  if (!response.ok) {
-    throw new Error('Failed to get share link');
-  }
+export async function listShareLinks(token: string, itemId: string): Promise<DriveShareLink[]> {
+  const response = await fetch(`/api/drive/items/${itemId}/share-links`, { headers: authHeaders(token) });
+  if (!response.ok) throw await shareLinkError(response, 'Failed to fetch share links');
+  const data = await response.json();
+  return data.links;
+}
 
+export async function updateShareLink(token: string, linkId: string, settings: ShareLinkSettings): Promise<DriveShareLink> {
+  const response = await fetch(`/api/drive/share-links/${linkId}`, {
+    method: 'PUT',
+    body: JSON.stringify(settings),
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+  });
+  if (!response.ok) throw await shareLinkError(response, 'Failed to update share link');
   const data = await response.json();
-  return data.link;
+  return data.shareLink;
+}
+
+export async function revokeShareLink(token: string, linkId: string) {
+  const response = await fetch(`/api/drive/share-links/${linkId}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  });
+  if (!response.ok) throw await shareLinkError(response, 'Failed to revoke share link');
+  return true;
+}
+
+// Public share pages: no session needed, password-protected links send an access token
+
+export type SharedItem = {
+  itemType: 'file' | 'folder';
+  allowDownload: boolean;
+  downloadsRemaining: number | null;
+  expiresAt: string | null;
+  file?: { id: string; name: string; type: string; size: number; updatedAt: string };
+  rootFolder?: { id: string; name: string };
+  folder?: { id: string; name: string; parentId: string | null };
+  folders?: Array<{ id: string; name: string; updatedAt: string }>;
+  files?: Array<{ id: string; name: string; type: string; size: number; updatedAt: string }>;
 };
 
+export class SharedItemError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message);
+  }
+}
+
+export async function getSharedItem(shareToken: string, accessToken?: string, folderId?: string): Promise<SharedItem> {
+  const params = new URLSearchParams();
+  if (folderId) params.append('folderId', folderId);
+  const response = await fetch(`/api/drive-share/${shareToken}${params.toString() ? `?${params.toString()}` : ''}`, {
+    headers: accessToken ? { 'X-Share-Access': accessToken } : {},
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new SharedItemError(data.message || 'Failed to open share link', response.status, data.code);
+  return data;
+}
+
+export async function unlockSharedItem(shareToken: string, password: string): Promise<string> {
+  const response = await fetch(`/api/drive-share/${shareToken}/unlock`, {
+    method: 'POST',
+    body: JSON.stringify({ password }),
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new SharedItemError(data.message || 'Failed to unlock share link', response.status, data.code);
+  return data.accessToken;
+}
+
+export function getSharedFileUrl(shareToken: string, options: { accessToken?: string; fileId?: string; inline?: boolean } = {}): string {
+  const params = new URLSearchParams();
+  if (options.fileId) params.append('fileId', options.fileId);
+  if (options.accessToken) params.append('access', options.accessToken);
+  if (options.inline) params.append('inline', '1');
+  return `/api/drive-share/${shareToken}/download${params.toString() ? `?${params.toString()}` : ''}`;
+}
+
 export const getItemActivity = async (token: string, itemId: string): Promise<Activity[]> => {
   const response = await fetch(`/api/drive/items/${itemId}/activity`, {
     method: 'GET',
@@ -454,13 +934,13 @@ export async function listFilePermissions(token: string, fileId: string) {
 }
 
 // Grant permission to a user for a file
-export async function grantFilePermission(token: string, fileId: string, userId: string, canRead: boolean, canWrite: boolean) {
+export async function grantFilePermission(token: string, fileId: string, userId: string, canRead: boolean, canWrite: boolean, options: ShareOptions = {}) {
   const res = await fetch(`/api/drive/files/${fileId}/permissions`, {
     method: 'POST',
-    body: JSON.stringify({ userId, canRead, canWrite }),
+    body: JSON.stringify({ userId, canRead, canWrite, ...options }),
     headers: authHeaders(token, { 'Content-Type': 'application/json' }),
   });
-  if (!res.ok) throw new Error('Failed to grant file permission');
+  if (!res.ok) throw await permissionError(res, 'Failed to grant file permission');
   return await res.json();
 }
 
@@ -496,13 +976,13 @@ export async function listFolderPermissions(token: string, folderId: string) {
 }
 
 // Grant permission to a user for a folder
-export async function grantFolderPermission(token: string, folderId: string, userId: string, canRead: boolean, canWrite: boolean) {
+export async function grantFolderPermission(token: string, folderId: string, userId: string, canRead: boolean, canWrite: boolean, options: ShareOptions = {}) {
   const res = await fetch(`/api/drive/folders/${folderId}/permissions`, {
     method: 'POST',
-    body: JSON.stringify({ userId, canRead, canWrite }),
+    body: JSON.stringify({ userId, canRead, canWrite, ...options }),
     headers: authHeaders(token, { 'Content-Type': 'application/json' }),
   });
-  if (!res.ok) throw new Error('Failed to grant folder permission');
+  if (!res.ok) throw await permissionError(res, 'Failed to grant folder permission');
   return await res.json();
 }
 
@@ -528,7 +1008,7 @@ export async function revokeFolderPermission(token: string, folderId: string, us
 }
 
 // Share folder by email (finds user by email and grants permission, or returns share link)
-export const shareFolderByEmail = async (token: string, folderId: string, email: string, permission: 'view' | 'edit'): Promise<{ success: boolean; shareLink?: string; message: string }> => {
+export const shareFolderByEmail = async (token: string, folderId: string, email: string, permission: 'view' | 'edit', options: ShareOptions = {}): Promise<{ success: boolean; shareLink?: string; message: string }> => {
   // First, try to find the user by email
   try {
     const userSearchResponse = await fetch(`/api/member/users/search?query=${encodeURIComponent(email)}&limit=1`, {
@@ -544,12 +1024,13 @@ export const shareFolderByEmail = async (token: string, folderId: string, email:
         const userId = users[0].id;
         const canRead = true;
         const canWrite = permission === 'edit';
-        await grantFolderPermission(token, folderId, userId, canRead, canWrite);
+        await grantFolderPermission(token, folderId, userId, canRead, canWrite, options);
         return { success: true, message: `Folder shared with ${email}` };
       }
     }
     // If response is not ok (404, etc.) or no users found, continue to generate share link
   } catch (error) {
+    if (error instanceof DlpPolicyError) throw error;
     // Search failed, continue to handle as non-user
     console.error('User search failed:', error);
   }
@@ -627,6 +1108,115 @@ export async function reorderFolders(token: string, parentId: string, folderIds:
   return data;
 }
 
+// Shared drives: owned by a business, with access by member and department roles
+export type SharedDriveRole = 'VIEWER' | 'CONTRIBUTOR' | 'MANAGER';
+
+export type SharedDrive = {
+  id: string;
+  businessId: string;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+  role: SharedDriveRole;
+  _count?: { members: number; departments: number };
+};
+
+export type SharedDriveMember = {
+  id: string;
+  userId: string;
+  role: SharedDriveRole;
+  user: { id: string; name: string | null; email: string };
+};
+
+export type SharedDriveDepartment = {
+  id: string;
+  departmentId: string;
+  role: SharedDriveRole;
+  department: { id: string; name: string };
+};
+
+export type SharedDriveDetails = SharedDrive & {
+  members: SharedDriveMember[];
+  departments: SharedDriveDepartment[];
+};
+
+async function sharedDriveRequest(url: string, init: RequestInit, fallback: string): Promise<Response> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || fallback);
+  }
+  return res;
+}
+
+export async function listSharedDrives(token: string, businessId: string): Promise<SharedDrive[]> {
+  const res = await sharedDriveRequest(`/api/drive/shared-drives?businessId=${encodeURIComponent(businessId)}`, {
+    headers: authHeaders(token),
+  }, 'Failed to load shared drives');
+  return (await res.json()).drives;
+}
+
+export async function createSharedDrive(token: string, businessId: string, name: string, description?: string): Promise<SharedDrive> {
+  const res = await sharedDriveRequest('/api/drive/shared-drives', {
+    method: 'POST',
+    body: JSON.stringify({ businessId, name, description }),
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+  }, 'Failed to create shared drive');
+  return (await res.json()).drive;
+}
+
+export async function getSharedDrive(token: string, id: string): Promise<SharedDriveDetails> {
+  const res = await sharedDriveRequest(`/api/drive/shared-drives/${id}`, {
+    headers: authHeaders(token),
+  }, 'Failed to load shared drive');
+  return (await res.json()).drive;
+}
+
+export async function deleteSharedDrive(token: string, id: string) {
+  await sharedDriveRequest(`/api/drive/shared-drives/${id}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  }, 'Failed to delete shared drive');
+}
+
+export async function setSharedDriveMember(token: string, id: string, userId: string, role: SharedDriveRole): Promise<SharedDriveMember> {
+  const res = await sharedDriveRequest(`/api/drive/shared-drives/${id}/members`, {
+    method: 'PUT',
+    body: JSON.stringify({ userId, role }),
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+  }, 'Failed to update member');
+  return (await res.json()).member;
+}
+
+export async function removeSharedDriveMember(token: string, id: string, userId: string) {
+  await sharedDriveRequest(`/api/drive/shared-drives/${id}/members/${userId}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  }, 'Failed to remove member');
+}
+
+export async function setSharedDriveDepartment(
+  token: string,
+  id: string,
+  departmentId: string,
+  role: SharedDriveRole
+): Promise<SharedDriveDepartment> {
+  const res = await sharedDriveRequest(`/api/drive/shared-drives/${id}/departments`, {
+    method: 'PUT',
+    body: JSON.stringify({ departmentId, role }),
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+  }, 'Failed to update department access');
+  return (await res.json()).department;
+}
+
+export async function removeSharedDriveDepartment(token: string, id: string, departmentId: string) {
+  await sharedDriveRequest(`/api/drive/shared-drives/${id}/departments/${departmentId}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  }, 'Failed to remove department access');
+}
+
 // Search users for sharing
 export async function searchUsers(token: string, query: string): Promise<Array<{
   id: string;
@@ -0,0 +1,234 @@
+import { getSession } from 'next-auth/react';
+import { authenticatedApiCall } from '@/lib/apiUtils';
+
+export type KioskPunchDirection = 'IN' | 'OUT';
+export type KioskPunchStatus = 'ACCEPTED' | 'REJECTED';
+
+export interface KioskDevice {
+  id: string;
+  name: string;
+  tokenHint: string;
+  jobLocationId: string | null;
+  jobLocation: { id: string; name: string } | null;
+  requirePhoto: boolean;
+  active: boolean;
+  lockedUntil: string | null;
+  lastSeenAt: string | null;
+  createdAt: string;
+}
+
+export interface KioskDeviceInput {
+  name: string;
+  jobLocationId?: string | null;
+  requirePhoto?: boolean;
+  active?: boolean;
+}
+
+export interface KioskCredentialEmployee {
+  id: string;
+  user: { id: string; name: string | null; email: string };
+  position: { id: string; title: string };
+  hasPin: boolean;
+  badgeNumber: string | null;
+  updatedAt: string | null;
+}
+
+export interface KioskPunchLog {
+  id: string;
+  clientPunchId: string;
+  direction: KioskPunchDirection | null;
+  status: KioskPunchStatus;
+  occurredAt: string;
+  receivedAt: string;
+  offline: boolean;
+  error: string | null;
+  device: { id: string; name: string };
+  employeePosition: { id: string; user: { id: string; name: string | null } } | null;
+  photoFile: { id: string; name: string } | null;
+}
+
+export interface KioskSession {
+  device: { id: string; name: string; requirePhoto: boolean; jobLocation: { id: string; name: string } | null };
+  business: { id: string; name: string };
+  serverTime: string;
+  maxOfflineHours: number;
+}
+
+export interface KioskPunch {
+  clientPunchId: string;
+  pin?: string;
+  badgeNumber?: string;
+  occurredAt: string;
+  offline?: boolean;
+  photo?: Blob | null;
+}
+
+export interface KioskPunchResult {
+  clientPunchId: string;
+  status: KioskPunchStatus;
+  direction: KioskPunchDirection | null;
+  employeeName: string | null;
+  occurredAt: string;
+  error: string | null;
+}
+
+const buildQuery = (businessId: string, extra?: Record<string, string | undefined>) => {
+  const params = new URLSearchParams();
+  params.append('businessId', businessId);
+  Object.entries(extra ?? {}).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+  return params.toString();
+};
+
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => null) as { error?: string } | null;
+  return body?.error || `Request failed (${response.status})`;
+};
+
+export async function listKioskDevices(businessId: string): Promise<KioskDevice[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ devices: KioskDevice[] }>(
+    `/api/hr/admin/attendance/kiosks?${query}`,
+    { method: 'GET' }
+  );
+  return response.devices;
+}
+
+export async function createKioskDevice(
+  businessId: string,
+  payload: KioskDeviceInput
+): Promise<{ device: KioskDevice; token: string }> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<{ device: KioskDevice; token: string }>(`/api/hr/admin/attendance/kiosks?${query}`, {
+    method: 'POST',
+    body: JSON.stringify(payload)
+  });
+}
+
+export async function updateKioskDevice(businessId: string, deviceId: string, payload: KioskDeviceInput): Promise<KioskDevice> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ device: KioskDevice }>(
+    `/api/hr/admin/attendance/kiosks/${deviceId}?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.device;
+}
+
+export async function rotateKioskToken(businessId: string, deviceId: string): Promise<{ device: KioskDevice; token: string }> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<{ device: KioskDevice; token: string }>(
+    `/api/hr/admin/attendance/kiosks/${deviceId}/rotate-token?${query}`,
+    { method: 'POST' }
+  );
+}
+
+export async function deactivateKioskDevice(businessId: string, deviceId: string): Promise<KioskDevice> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ device: KioskDevice }>(
+    `/api/hr/admin/attendance/kiosks/${deviceId}?${query}`,
+    { method: 'DELETE' }
+  );
+  return response.device;
+}
+
+export async function listKioskCredentials(businessId: string): Promise<KioskCredentialEmployee[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ employees: KioskCredentialEmployee[] }>(
+    `/api/hr/admin/attendance/kiosk-credentials?${query}`,
+    { method: 'GET' }
+  );
+  return response.employees;
+}
+
+export async function updateKioskCredential(
+  businessId: string,
+  employeePositionId: string,
+  payload: { pin?: string | null; badgeNumber?: string | null }
+): Promise<{ employeePositionId: string; hasPin: boolean; badgeNumber: string | null }> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ credential: { employeePositionId: string; hasPin: boolean; badgeNumber: string | null } }>(
+    `/api/hr/admin/attendance/kiosk-credentials/${employeePositionId}?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.credential;
+}
+
+export async function listKioskPunches(businessId: string, options: { deviceId?: string; limit?: number } = {}): Promise<KioskPunchLog[]> {
+  const query = buildQuery(businessId, { deviceId: options.deviceId, limit: options.limit?.toString() });
+  const response = await authenticatedApiCall<{ punches: KioskPunchLog[] }>(
+    `/api/hr/admin/attendance/kiosk-punches?${query}`,
+    { method: 'GET' }
+  );
+  return response.punches;
+}
+
+/**
+ * Fetch a kiosk punch photo and open it in a new tab.
+ */
+export async function openKioskPunchPhoto(businessId: string, punchId: string): Promise<void> {
+  const session = await getSession();
+  if (!session?.accessToken) {
+    throw new Error('No authentication token available');
+  }
+
+  const query = buildQuery(businessId);
+  const response = await fetch(`/api/hr/admin/attendance/kiosk-punches/${punchId}/photo?${query}`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${session.accessToken}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Photo download failed (${response.status})`);
+  }
+
+  const url = window.URL.createObjectURL(await response.blob());
+  window.open(url, '_blank', 'noopener');
+  // Give the new tab time to load the image before releasing it
+  window.setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+}
+
+export async function setMyKioskPin(businessId: string, pin: string): Promise<void> {
+  const query = buildQuery(businessId);
+  await authenticatedApiCall<{ success: boolean }>(`/api/hr/me/attendance/kiosk-pin?${query}`, {
+    method: 'PUT',
+    body: JSON.stringify({ pin })
+  });
+}
+
+// Kiosk device calls authenticate with the device token, not a user session
+
+export async function getKioskSession(token: string): Promise<KioskSession> {
+  const response = await fetch('/api/attendance-kiosk/session', { headers: { 'X-Kiosk-Token': token } });
+  if (!response.ok) {
+    throw Object.assign(new Error(await readError(response)), { status: response.status });
+  }
+  return response.json() as Promise<KioskSession>;
+}
+
+export async function submitKioskPunches(token: string, punches: KioskPunch[]): Promise<KioskPunchResult[]> {
+  const form = new FormData();
+  form.append(
+    'punches',
+    JSON.stringify(punches.map(({ photo: _photo, ...punch }) => punch))
+  );
+  punches.forEach((punch) => {
+    if (punch.photo) form.append(`photo:${punch.clientPunchId}`, punch.photo, `${punch.clientPunchId}.jpg`);
+  });
+
+  const response = await fetch('/api/attendance-kiosk/punches', {
+    method: 'POST',
+    headers: { 'X-Kiosk-Token': token },
+    body: form
+  });
+  if (!response.ok) {
+    throw Object.assign(new Error(await readError(response)), { status: response.status });
+  }
+  const body = await response.json() as { results: KioskPunchResult[] };
+  return body.results;
+}
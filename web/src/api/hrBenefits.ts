@@ -0,0 +1,406 @@
+import { getSession } from 'next-auth/react';
+import { authenticatedApiCall } from '@/lib/apiUtils';
+
+export type BenefitPlanType = 'MEDICAL' | 'DENTAL' | 'VISION' | 'RETIREMENT' | 'LIFE' | 'DISABILITY' | 'CUSTOM';
+export type BenefitCoverageLevel = 'EMPLOYEE_ONLY' | 'EMPLOYEE_SPOUSE' | 'EMPLOYEE_CHILDREN' | 'FAMILY';
+export type BenefitEnrollmentStatus = 'ACTIVE' | 'WAIVED' | 'ENDED';
+export type BenefitLifeEventType =
+  | 'NEW_HIRE'
+  | 'MARRIAGE'
+  | 'DIVORCE'
+  | 'BIRTH_ADOPTION'
+  | 'DEATH_OF_DEPENDENT'
+  | 'LOSS_OF_COVERAGE'
+  | 'EMPLOYMENT_CHANGE'
+  | 'OTHER';
+export type BenefitLifeEventStatus = 'PENDING' | 'APPROVED' | 'DENIED';
+export type BenefitDependentRelationship = 'SPOUSE' | 'DOMESTIC_PARTNER' | 'CHILD' | 'OTHER';
+export type BenefitBeneficiaryDesignation = 'PRIMARY' | 'CONTINGENT';
+export type EmployeeType = 'FULL_TIME' | 'PART_TIME' | 'CONTRACT' | 'INTERN' | 'TEMPORARY' | 'SEASONAL';
+
+export type CoverageCosts = Partial<Record<BenefitCoverageLevel, { employee: number; employer: number }>>;
+
+export interface BenefitPlan {
+  id: string;
+  name: string;
+  type: BenefitPlanType;
+  carrier: string | null;
+  planCode: string | null;
+  description: string | null;
+  eligibleEmployeeTypes: EmployeeType[];
+  waitingPeriodDays: number;
+  coverageCosts: CoverageCosts | null;
+  minContributionPercent: number | null;
+  maxContributionPercent: number | null;
+  employerMatchPercent: number | null;
+  employerMatchLimitPercent: number | null;
+  allowsDependents: boolean;
+  requiresBeneficiary: boolean;
+  deductionCode: string;
+  deductionCategory: 'PRE_TAX_DEDUCTION' | 'POST_TAX_DEDUCTION';
+  isActive: boolean;
+  _count?: { enrollments: number };
+}
+
+export type BenefitPlanInput = Omit<BenefitPlan, 'id' | '_count'>;
+
+export interface EnrollmentWindow {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  coverageStartDate: string;
+  notes: string | null;
+  _count?: { enrollments: number };
+}
+
+export interface EnrollmentWindowInput {
+  name: string;
+  startDate: string;
+  endDate: string;
+  coverageStartDate: string;
+  notes?: string | null;
+}
+
+interface EmployeeRef {
+  id: string;
+  employeeType?: EmployeeType | null;
+  employeePosition: { user: { id: string; name: string | null; email: string } };
+}
+
+export interface LifeEvent {
+  id: string;
+  type: BenefitLifeEventType;
+  eventDate: string;
+  description: string | null;
+  status: BenefitLifeEventStatus;
+  enrollmentDeadline: string;
+  coverageStartDate: string;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  employeeHrProfile: EmployeeRef;
+}
+
+export interface Dependent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  relationship: BenefitDependentRelationship;
+  dateOfBirth: string | null;
+  gender: string | null;
+}
+
+export interface DependentInput {
+  firstName: string;
+  lastName: string;
+  relationship: BenefitDependentRelationship;
+  dateOfBirth?: string | null;
+  gender?: string | null;
+}
+
+export interface Beneficiary {
+  id: string;
+  planId: string | null;
+  plan: { id: string; name: string; type: BenefitPlanType } | null;
+  dependentId: string | null;
+  name: string;
+  relationship: string;
+  designation: BenefitBeneficiaryDesignation;
+  percentage: number;
+}
+
+export interface BeneficiaryInput {
+  name: string;
+  relationship: string;
+  designation: BenefitBeneficiaryDesignation;
+  percentage: number;
+  dependentId?: string | null;
+}
+
+export interface BenefitEnrollment {
+  id: string;
+  planId: string;
+  plan: { id: string; name: string; type: BenefitPlanType; carrier: string | null; planCode: string | null };
+  status: BenefitEnrollmentStatus;
+  coverageLevel: BenefitCoverageLevel | null;
+  contributionPercent: number | null;
+  employeeCost: number;
+  employerCost: number;
+  coverageStart: string;
+  coverageEnd: string | null;
+  dependents: Array<{ id: string; dependent: Dependent }>;
+  employeeHrProfile?: EmployeeRef;
+}
+
+export interface ElectionInput {
+  planId: string;
+  waive?: boolean;
+  coverageLevel?: BenefitCoverageLevel | null;
+  dependentIds?: string[];
+  contributionPercent?: number | null;
+}
+
+export interface EnrollmentPeriod {
+  source: 'WINDOW' | 'LIFE_EVENT';
+  windowId?: string;
+  lifeEventId?: string;
+  name: string;
+  closesOn: string;
+  coverageStart: string;
+}
+
+export interface EmployeeBenefitPlan extends BenefitPlan {
+  coverageStart: string | null;
+}
+
+export interface MyBenefits {
+  enrollmentPeriod: EnrollmentPeriod | null;
+  plans: EmployeeBenefitPlan[];
+  enrollments: BenefitEnrollment[];
+  dependents: Dependent[];
+  beneficiaries: Beneficiary[];
+  lifeEvents: LifeEvent[];
+}
+
+export interface BenefitsDashboard {
+  plans: Array<{
+    id: string;
+    name: string;
+    type: BenefitPlanType;
+    typeLabel: string;
+    enrolled: number;
+    employeeCostPerPeriod: number;
+    employerCostPerPeriod: number;
+  }>;
+  activeEnrollments: number;
+  employerCostPerPeriod: number;
+  employeeCostPerPeriod: number;
+  nextWindow: EnrollmentWindow | null;
+  pendingLifeEvents: number;
+}
+
+const buildQuery = (businessId: string, extra?: Record<string, string | undefined>) => {
+  const params = new URLSearchParams();
+  params.append('businessId', businessId);
+  Object.entries(extra ?? {}).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+  return params.toString();
+};
+
+// ----------------------------------------------------------------------------
+// Admin
+// ----------------------------------------------------------------------------
+
+export async function getBenefitsDashboard(businessId: string): Promise<BenefitsDashboard> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<BenefitsDashboard>(`/api/hr/admin/benefits?${query}`, { method: 'GET' });
+}
+
+export async function listBenefitPlans(businessId: string, includeInactive = false): Promise<BenefitPlan[]> {
+  const query = buildQuery(businessId, { includeInactive: includeInactive ? 'true' : undefined });
+  const response = await authenticatedApiCall<{ plans: BenefitPlan[] }>(
+    `/api/hr/admin/benefits/plans?${query}`,
+    { method: 'GET' }
+  );
+  return response.plans;
+}
+
+export async function saveBenefitPlan(businessId: string, payload: BenefitPlanInput, planId?: string): Promise<BenefitPlan> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ plan: BenefitPlan }>(
+    planId ? `/api/hr/admin/benefits/plans/${planId}?${query}` : `/api/hr/admin/benefits/plans?${query}`,
+    {
+      method: planId ? 'PUT' : 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.plan;
+}
+
+export async function archiveBenefitPlan(businessId: string, planId: string): Promise<void> {
+  const query = buildQuery(businessId);
+  await authenticatedApiCall<{ success: boolean }>(`/api/hr/admin/benefits/plans/${planId}?${query}`, {
+    method: 'DELETE'
+  });
+}
+
+export async function listEnrollmentWindows(businessId: string): Promise<EnrollmentWindow[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ windows: EnrollmentWindow[] }>(
+    `/api/hr/admin/benefits/windows?${query}`,
+    { method: 'GET' }
+  );
+  return response.windows;
+}
+
+export async function saveEnrollmentWindow(
+  businessId: string,
+  payload: EnrollmentWindowInput,
+  windowId?: string
+): Promise<EnrollmentWindow> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ window: EnrollmentWindow }>(
+    windowId ? `/api/hr/admin/benefits/windows/${windowId}?${query}` : `/api/hr/admin/benefits/windows?${query}`,
+    {
+      method: windowId ? 'PUT' : 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.window;
+}
+
+export async function listBenefitEnrollments(
+  businessId: string,
+  filters: { planId?: string; status?: BenefitEnrollmentStatus; current?: boolean } = {}
+): Promise<BenefitEnrollment[]> {
+  const query = buildQuery(businessId, {
+    planId: filters.planId,
+    status: filters.status,
+    current: filters.current ? 'true' : undefined
+  });
+  const response = await authenticatedApiCall<{ enrollments: BenefitEnrollment[] }>(
+    `/api/hr/admin/benefits/enrollments?${query}`,
+    { method: 'GET' }
+  );
+  return response.enrollments;
+}
+
+export async function endBenefitEnrollment(businessId: string, enrollmentId: string, endDate: string): Promise<BenefitEnrollment> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ enrollment: BenefitEnrollment }>(
+    `/api/hr/admin/benefits/enrollments/${enrollmentId}/end?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ endDate })
+    }
+  );
+  return response.enrollment;
+}
+
+export async function listLifeEvents(businessId: string, status?: BenefitLifeEventStatus): Promise<LifeEvent[]> {
+  const query = buildQuery(businessId, { status });
+  const response = await authenticatedApiCall<{ lifeEvents: LifeEvent[] }>(
+    `/api/hr/admin/benefits/life-events?${query}`,
+    { method: 'GET' }
+  );
+  return response.lifeEvents;
+}
+
+export async function reviewLifeEvent(
+  businessId: string,
+  lifeEventId: string,
+  decision: 'APPROVED' | 'DENIED',
+  reviewNote?: string | null
+): Promise<LifeEvent> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ lifeEvent: LifeEvent }>(
+    `/api/hr/admin/benefits/life-events/${lifeEventId}/review?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ decision, reviewNote })
+    }
+  );
+  return response.lifeEvent;
+}
+
+/**
+ * Download the carrier census CSV and hand it to the browser as a file.
+ */
+export async function downloadBenefitsCensus(businessId: string, options: { planId?: string; asOf?: string } = {}): Promise<void> {
+  const session = await getSession();
+  if (!session?.accessToken) {
+    throw new Error('No authentication token available');
+  }
+
+  const query = buildQuery(businessId, options);
+  const response = await fetch(`/api/hr/admin/benefits/census/export?${query}`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${session.accessToken}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Export failed (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `benefits-census-${options.asOf ?? new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+// ----------------------------------------------------------------------------
+// Employee self-service
+// ----------------------------------------------------------------------------
+
+export async function getMyBenefits(businessId: string): Promise<MyBenefits> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<MyBenefits>(`/api/hr/me/benefits?${query}`, { method: 'GET' });
+}
+
+export async function submitMyElections(businessId: string, elections: ElectionInput[]): Promise<BenefitEnrollment[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ enrollments: BenefitEnrollment[] }>(
+    `/api/hr/me/benefits/elections?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ elections })
+    }
+  );
+  return response.enrollments;
+}
+
+export async function saveMyDependent(businessId: string, payload: DependentInput, dependentId?: string): Promise<Dependent> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ dependent: Dependent }>(
+    dependentId ? `/api/hr/me/benefits/dependents/${dependentId}?${query}` : `/api/hr/me/benefits/dependents?${query}`,
+    {
+      method: dependentId ? 'PUT' : 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.dependent;
+}
+
+export async function removeMyDependent(businessId: string, dependentId: string): Promise<void> {
+  const query = buildQuery(businessId);
+  await authenticatedApiCall<{ success: boolean }>(`/api/hr/me/benefits/dependents/${dependentId}?${query}`, {
+    method: 'DELETE'
+  });
+}
+
+export async function saveMyBeneficiaries(
+  businessId: string,
+  planId: string | null,
+  beneficiaries: BeneficiaryInput[]
+): Promise<Beneficiary[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ beneficiaries: Beneficiary[] }>(
+    `/api/hr/me/benefits/beneficiaries?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ planId, beneficiaries })
+    }
+  );
+  return response.beneficiaries;
+}
+
+export async function reportMyLifeEvent(
+  businessId: string,
+  payload: { type: BenefitLifeEventType; eventDate: string; description?: string | null }
+): Promise<LifeEvent> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ lifeEvent: LifeEvent }>(
+    `/api/hr/me/benefits/life-events?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.lifeEvent;
+}
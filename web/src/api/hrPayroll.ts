@@ -0,0 +1,336 @@
+import { getSession } from 'next-auth/react';
+import { authenticatedApiCall } from '@/lib/apiUtils';
+
+export type PayType = 'HOURLY' | 'SALARY';
+export type PayrollLineCategory = 'EARNING' | 'PRE_TAX_DEDUCTION' | 'TAX' | 'POST_TAX_DEDUCTION';
+export type PayrollLineCalculation = 'FLAT' | 'PERCENT_OF_GROSS' | 'PER_HOUR';
+export type PayPeriodStatus = 'OPEN' | 'PROCESSING' | 'CLOSED';
+export type PayRunStatus = 'DRAFT' | 'CALCULATED' | 'FINALIZED' | 'VOID';
+export type PayPeriodFrequency = 'WEEKLY' | 'BIWEEKLY' | 'SEMIMONTHLY' | 'MONTHLY';
+
+export interface PayrollSettings {
+  payPeriod: PayPeriodFrequency;
+  payDateOffsetDays: number;
+  hoursSource: 'ATTENDANCE' | 'SCHEDULE' | 'ATTENDANCE_WITH_SCHEDULE_FALLBACK';
+  overtimeThresholdHours: number;
+  overtimeMultiplier: number;
+  standardHoursPerDay: number;
+  workingDaysPerWeek: number;
+  currency: string;
+}
+
+export interface PayrollLine {
+  id: string;
+  businessId: string;
+  name: string;
+  code: string;
+  category: PayrollLineCategory;
+  calculation: PayrollLineCalculation;
+  amount: number;
+  employeeTypes: string[];
+  employeeHrProfileId: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpsertPayrollLineInput {
+  name: string;
+  code: string;
+  category: PayrollLineCategory;
+  calculation?: PayrollLineCalculation;
+  amount: number;
+  employeeTypes?: string[];
+  employeeHrProfileId?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface PayRunSummary {
+  id: string;
+  status: PayRunStatus;
+  employeeCount: number;
+  totalGross: number;
+  totalNet: number;
+  finalizedAt: string | null;
+}
+
+export interface PayPeriod {
+  id: string;
+  businessId: string;
+  startDate: string;
+  endDate: string;
+  payDate: string;
+  status: PayPeriodStatus;
+  createdAt: string;
+  payRuns?: PayRunSummary[];
+}
+
+export interface PayLine {
+  code: string;
+  name: string;
+  category: PayrollLineCategory;
+  hours?: number;
+  rate?: number;
+  amount: number;
+}
+
+export interface PayRunEntry {
+  id: string;
+  employeeHrProfileId: string;
+  regularHours: number;
+  overtimeHours: number;
+  paidTimeOffHours: number;
+  unpaidTimeOffHours: number;
+  grossPay: number;
+  totalDeductions: number;
+  netPay: number;
+  earnings: PayLine[];
+  deductions: PayLine[];
+  warnings: string[] | null;
+  sourceSummary: { attendanceRecords: number; scheduledShifts: number; timeOffRequests: number } | null;
+  employeeHrProfile: {
+    id: string;
+    payType: PayType | null;
+    payRate: number | null;
+    employeeType: string | null;
+    employeePosition: {
+      user: { id: string; name: string | null; email: string };
+      position: { id: string; title: string };
+    };
+  };
+}
+
+export interface PayRun {
+  id: string;
+  businessId: string;
+  payPeriodId: string;
+  status: PayRunStatus;
+  currency: string;
+  employeeCount: number;
+  totalGross: number;
+  totalDeductions: number;
+  totalNet: number;
+  calculatedAt: string | null;
+  finalizedAt: string | null;
+  voidedAt: string | null;
+  notes: string | null;
+  createdAt: string;
+  payPeriod: PayPeriod;
+  entries?: PayRunEntry[];
+}
+
+export interface PayRunCalculationResult {
+  payRun: PayRun;
+  skippedEmployeeHrProfileIds: string[];
+}
+
+export interface PayrollDashboard {
+  settings: PayrollSettings;
+  periods: PayPeriod[];
+  runs: PayRun[];
+  employeesWithoutCompensation: number;
+  activeLines: number;
+}
+
+export interface PayStubSummary {
+  id: string;
+  stubNumber: string;
+  periodStart: string;
+  periodEnd: string;
+  payDate: string;
+  currency: string;
+  grossPay: number;
+  totalDeductions: number;
+  netPay: number;
+  issuedAt: string;
+}
+
+export interface PayStub extends PayStubSummary {
+  payType: PayType;
+  payRate: number;
+  regularHours: number;
+  overtimeHours: number;
+  paidTimeOffHours: number;
+  unpaidTimeOffHours: number;
+  earnings: PayLine[];
+  deductions: PayLine[];
+  yearToDate: { grossPay: number; totalDeductions: number; netPay: number };
+  employeeSnapshot: Record<string, unknown>;
+  employerSnapshot: Record<string, unknown>;
+  checksum: string;
+}
+
+const buildQuery = (businessId: string) => {
+  const params = new URLSearchParams();
+  params.append('businessId', businessId);
+  return params.toString();
+};
+
+export async function getPayrollDashboard(businessId: string): Promise<PayrollDashboard> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<PayrollDashboard>(`/api/hr/admin/payroll?${query}`, { method: 'GET' });
+}
+
+export async function listPayrollLines(businessId: string): Promise<PayrollLine[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ lines: PayrollLine[] }>(
+    `/api/hr/admin/payroll/lines?${query}`,
+    { method: 'GET' }
+  );
+  return response.lines;
+}
+
+export async function createPayrollLine(
+  businessId: string,
+  payload: UpsertPayrollLineInput
+): Promise<PayrollLine> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ line: PayrollLine }>(
+    `/api/hr/admin/payroll/lines?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.line;
+}
+
+export async function updatePayrollLine(
+  businessId: string,
+  lineId: string,
+  payload: UpsertPayrollLineInput
+): Promise<PayrollLine> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ line: PayrollLine }>(
+    `/api/hr/admin/payroll/lines/${lineId}?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.line;
+}
+
+export async function archivePayrollLine(businessId: string, lineId: string): Promise<void> {
+  const query = buildQuery(businessId);
+  await authenticatedApiCall<{ success: boolean }>(
+    `/api/hr/admin/payroll/lines/${lineId}?${query}`,
+    { method: 'DELETE' }
+  );
+}
+
+/**
+ * Create a pay period. Omit dates to generate the next period from the
+ * business pay frequency.
+ */
+export async function createPayPeriod(
+  businessId: string,
+  payload: { startDate?: string; endDate?: string; payDate?: string } = {}
+): Promise<PayPeriod> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ period: PayPeriod }>(
+    `/api/hr/admin/payroll/periods?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.period;
+}
+
+export async function getPayRun(businessId: string, payRunId: string): Promise<PayRun> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ payRun: PayRun }>(
+    `/api/hr/admin/payroll/runs/${payRunId}?${query}`,
+    { method: 'GET' }
+  );
+  return response.payRun;
+}
+
+export async function createPayRun(
+  businessId: string,
+  payPeriodId: string,
+  notes?: string
+): Promise<PayRunCalculationResult> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<PayRunCalculationResult>(`/api/hr/admin/payroll/runs?${query}`, {
+    method: 'POST',
+    body: JSON.stringify({ payPeriodId, notes })
+  });
+}
+
+export async function calculatePayRun(businessId: string, payRunId: string): Promise<PayRunCalculationResult> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<PayRunCalculationResult>(
+    `/api/hr/admin/payroll/runs/${payRunId}/calculate?${query}`,
+    { method: 'POST' }
+  );
+}
+
+export async function finalizePayRun(businessId: string, payRunId: string): Promise<PayRun> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ payRun: PayRun }>(
+    `/api/hr/admin/payroll/runs/${payRunId}/finalize?${query}`,
+    { method: 'POST' }
+  );
+  return response.payRun;
+}
+
+export async function voidPayRun(businessId: string, payRunId: string): Promise<PayRun> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ payRun: PayRun }>(
+    `/api/hr/admin/payroll/runs/${payRunId}/void?${query}`,
+    { method: 'POST' }
+  );
+  return response.payRun;
+}
+
+export async function listMyPayStubs(businessId: string): Promise<PayStubSummary[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ payStubs: PayStubSummary[] }>(
+    `/api/hr/me/pay-stubs?${query}`,
+    { method: 'GET' }
+  );
+  return response.payStubs;
+}
+
+export async function getMyPayStub(businessId: string, payStubId: string): Promise<PayStub> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ payStub: PayStub }>(
+    `/api/hr/me/pay-stubs/${payStubId}?${query}`,
+    { method: 'GET' }
+  );
+  return response.payStub;
+}
+
+/**
+ * Download a pay stub PDF and hand it to the browser as a file.
+ */
+export async function downloadMyPayStubPdf(businessId: string, payStub: PayStubSummary): Promise<void> {
+  const session = await getSession();
+  if (!session?.accessToken) {
+    throw new Error('No authentication token available');
+  }
+
+  const query = buildQuery(businessId);
+  const response = await fetch(`/api/hr/me/pay-stubs/${payStub.id}/pdf?${query}`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${session.accessToken}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `pay-stub-${payStub.stubNumber}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
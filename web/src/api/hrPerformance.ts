@@ -0,0 +1,532 @@
+import { authenticatedApiCall } from '@/lib/apiUtils';
+
+export type PerformanceCycleStatus = 'DRAFT' | 'ACTIVE' | 'CLOSED';
+export type PerformanceReviewStatus = 'IN_PROGRESS' | 'AWAITING_CALIBRATION' | 'COMPLETED' | 'INCOMPLETE';
+export type PerformanceReviewerType = 'SELF' | 'MANAGER' | 'PEER';
+export type PerformanceSubmissionStatus = 'PENDING' | 'DRAFT' | 'SUBMITTED' | 'EXPIRED';
+export type PerformanceGoalType = 'GOAL' | 'OBJECTIVE' | 'KEY_RESULT';
+export type PerformanceGoalStatus = 'NOT_STARTED' | 'ON_TRACK' | 'AT_RISK' | 'OFF_TRACK' | 'COMPLETED' | 'CANCELLED';
+export type CalibrationGroupBy = 'department' | 'tier';
+
+export interface RatingScaleLevel {
+  value: number;
+  label: string;
+  description?: string;
+}
+
+export interface RatingScale {
+  id: string;
+  name: string;
+  description: string | null;
+  levels: RatingScaleLevel[];
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+export interface PerformanceQuestion {
+  id: string;
+  prompt: string;
+  type: 'RATING' | 'TEXT';
+  required: boolean;
+  reviewerTypes?: PerformanceReviewerType[];
+}
+
+export interface Questionnaire {
+  id: string;
+  name: string;
+  description: string | null;
+  ratingScaleId: string;
+  ratingScale: RatingScale;
+  questions: PerformanceQuestion[];
+  isActive: boolean;
+}
+
+export interface ReviewCycle {
+  id: string;
+  name: string;
+  description: string | null;
+  questionnaireId: string;
+  questionnaire?: { id: string; name: string };
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  includeSelfReview: boolean;
+  includeManagerReview: boolean;
+  includePeerReview: boolean;
+  peerReviewerCount: number;
+  departmentIds: string[];
+  tierIds: string[];
+  status: PerformanceCycleStatus;
+  launchedAt: string | null;
+  closedAt: string | null;
+  reviewCounts?: Record<PerformanceReviewStatus, number>;
+}
+
+export interface ReviewCycleInput {
+  name: string;
+  description?: string | null;
+  questionnaireId: string;
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  includeSelfReview?: boolean;
+  includeManagerReview?: boolean;
+  includePeerReview?: boolean;
+  peerReviewerCount?: number;
+  departmentIds?: string[];
+  tierIds?: string[];
+}
+
+export interface ReviewEmployee {
+  id: string;
+  employeePosition: {
+    id: string;
+    user: { id: string; name: string | null; email: string; image?: string | null };
+    position: {
+      id: string;
+      title: string;
+      department: { id: string; name: string } | null;
+      tier: { id: string; name: string; level: number } | null;
+    };
+  };
+}
+
+export type SubmissionAnswers = Record<string, { rating?: number; text?: string }>;
+
+export interface ReviewSubmissionSummary {
+  id: string;
+  reviewerUserId: string | null;
+  reviewerType: PerformanceReviewerType;
+  status?: PerformanceSubmissionStatus;
+  overallRating?: number | null;
+  submittedAt: string | null;
+  answers?: SubmissionAnswers | null;
+  comments?: string | null;
+  reviewer?: { id: string; name: string | null; email: string } | null;
+}
+
+export interface PerformanceReview {
+  id: string;
+  cycleId: string;
+  status: PerformanceReviewStatus;
+  proposedRating: number | null;
+  calibratedRating: number | null;
+  finalRating: number | null;
+  calibrationNote: string | null;
+  summary: string | null;
+  completedAt: string | null;
+  employeeHrProfile: ReviewEmployee;
+  submissions: ReviewSubmissionSummary[];
+}
+
+export interface ReviewerTask {
+  id: string;
+  reviewerType: PerformanceReviewerType;
+  status: PerformanceSubmissionStatus;
+  review: {
+    id: string;
+    employeeHrProfile: ReviewEmployee;
+    cycle: { id: string; name: string; dueDate: string; periodStart: string; periodEnd: string };
+  };
+}
+
+export interface ReviewerSubmission extends ReviewerTask {
+  answers: SubmissionAnswers | null;
+  overallRating: number | null;
+  comments: string | null;
+  questions: PerformanceQuestion[];
+  ratingLevels: RatingScaleLevel[];
+}
+
+export interface CompletedReview {
+  id: string;
+  cycle: { id: string; name: string; periodStart: string; periodEnd: string };
+  questions: PerformanceQuestion[];
+  ratingLevels: RatingScaleLevel[];
+  finalRating: number | null;
+  summary: string | null;
+  completedAt: string | null;
+  submissions: ReviewSubmissionSummary[];
+}
+
+export interface TeamReviewStatus {
+  id: string;
+  status: PerformanceReviewStatus;
+  proposedRating: number | null;
+  finalRating: number | null;
+  completedAt: string | null;
+  cycle: { id: string; name: string; dueDate: string; status: PerformanceCycleStatus };
+  employeeHrProfile: ReviewEmployee;
+  submissions: Array<{ id: string; reviewerType: PerformanceReviewerType; status: PerformanceSubmissionStatus; submittedAt: string | null }>;
+}
+
+export interface PerformanceGoal {
+  id: string;
+  employeeHrProfileId: string;
+  cycleId: string | null;
+  parentGoalId: string | null;
+  type: PerformanceGoalType;
+  title: string;
+  description: string | null;
+  status: PerformanceGoalStatus;
+  progress: number;
+  startValue: number | null;
+  targetValue: number | null;
+  currentValue: number | null;
+  unit: string | null;
+  startDate: string | null;
+  dueDate: string | null;
+  completedAt: string | null;
+  keyResults?: PerformanceGoal[];
+  cycle?: { id: string; name: string } | null;
+  employeeHrProfile?: ReviewEmployee;
+}
+
+export interface GoalInput {
+  type?: PerformanceGoalType;
+  title?: string;
+  description?: string | null;
+  status?: PerformanceGoalStatus;
+  progress?: number;
+  startValue?: number | null;
+  targetValue?: number | null;
+  currentValue?: number | null;
+  unit?: string | null;
+  startDate?: string | null;
+  dueDate?: string | null;
+  cycleId?: string | null;
+  parentGoalId?: string | null;
+}
+
+export interface CalibrationGroup {
+  groupId: string | null;
+  name: string;
+  level: number | null;
+  reviewCount: number;
+  completedCount: number;
+  calibratedCount: number;
+  averageProposedRating: number | null;
+  averageRating: number | null;
+  distribution: Array<{ value: number; label: string; count: number }>;
+  reviews: Array<{
+    reviewId: string;
+    status: PerformanceReviewStatus;
+    proposedRating: number | null;
+    calibratedRating: number | null;
+    finalRating: number | null;
+    employee: { name: string | null; email: string };
+    positionTitle: string;
+  }>;
+}
+
+export interface CalibrationReport {
+  cycle: { id: string; name: string; status: PerformanceCycleStatus };
+  groupBy: CalibrationGroupBy;
+  ratingLevels: RatingScaleLevel[];
+  overall: Omit<CalibrationGroup, 'name' | 'level' | 'reviews'> | null;
+  groups: CalibrationGroup[];
+}
+
+export interface PerformanceDashboard {
+  activeCycles: ReviewCycle[];
+  draftCycles: number;
+  closedCycles: number;
+  pendingSubmissions: number;
+  goalsByStatus: Partial<Record<PerformanceGoalStatus, number>>;
+}
+
+const buildQuery = (businessId: string, extra?: Record<string, string | undefined>) => {
+  const params = new URLSearchParams();
+  params.append('businessId', businessId);
+  Object.entries(extra ?? {}).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+  return params.toString();
+};
+
+// ----------------------------------------------------------------------------
+// Admin
+// ----------------------------------------------------------------------------
+
+export async function getPerformanceDashboard(businessId: string): Promise<PerformanceDashboard> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<PerformanceDashboard>(`/api/hr/admin/performance?${query}`, { method: 'GET' });
+}
+
+export async function listRatingScales(businessId: string): Promise<RatingScale[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ ratingScales: RatingScale[] }>(
+    `/api/hr/admin/performance/rating-scales?${query}`,
+    { method: 'GET' }
+  );
+  return response.ratingScales;
+}
+
+export async function saveRatingScale(
+  businessId: string,
+  payload: { name: string; description?: string | null; levels: RatingScaleLevel[]; isDefault?: boolean; isActive?: boolean },
+  ratingScaleId?: string
+): Promise<RatingScale> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ ratingScale: RatingScale }>(
+    ratingScaleId
+      ? `/api/hr/admin/performance/rating-scales/${ratingScaleId}?${query}`
+      : `/api/hr/admin/performance/rating-scales?${query}`,
+    {
+      method: ratingScaleId ? 'PUT' : 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.ratingScale;
+}
+
+export async function listQuestionnaires(businessId: string): Promise<Questionnaire[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ questionnaires: Questionnaire[] }>(
+    `/api/hr/admin/performance/questionnaires?${query}`,
+    { method: 'GET' }
+  );
+  return response.questionnaires;
+}
+
+export async function saveQuestionnaire(
+  businessId: string,
+  payload: { name: string; description?: string | null; ratingScaleId: string; questions: PerformanceQuestion[]; isActive?: boolean },
+  questionnaireId?: string
+): Promise<Questionnaire> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ questionnaire: Questionnaire }>(
+    questionnaireId
+      ? `/api/hr/admin/performance/questionnaires/${questionnaireId}?${query}`
+      : `/api/hr/admin/performance/questionnaires?${query}`,
+    {
+      method: questionnaireId ? 'PUT' : 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.questionnaire;
+}
+
+export async function listReviewCycles(businessId: string): Promise<ReviewCycle[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ cycles: ReviewCycle[] }>(
+    `/api/hr/admin/performance/cycles?${query}`,
+    { method: 'GET' }
+  );
+  return response.cycles;
+}
+
+export async function getReviewCycle(
+  businessId: string,
+  cycleId: string,
+  filters: { status?: PerformanceReviewStatus; departmentId?: string } = {}
+): Promise<{ cycle: ReviewCycle; reviews: PerformanceReview[] }> {
+  const query = buildQuery(businessId, filters);
+  return authenticatedApiCall<{ cycle: ReviewCycle; reviews: PerformanceReview[] }>(
+    `/api/hr/admin/performance/cycles/${cycleId}?${query}`,
+    { method: 'GET' }
+  );
+}
+
+export async function saveReviewCycle(businessId: string, payload: ReviewCycleInput, cycleId?: string): Promise<ReviewCycle> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ cycle: ReviewCycle }>(
+    cycleId
+      ? `/api/hr/admin/performance/cycles/${cycleId}?${query}`
+      : `/api/hr/admin/performance/cycles?${query}`,
+    {
+      method: cycleId ? 'PUT' : 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.cycle;
+}
+
+export async function launchReviewCycle(businessId: string, cycleId: string): Promise<ReviewCycle> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ cycle: ReviewCycle }>(
+    `/api/hr/admin/performance/cycles/${cycleId}/launch?${query}`,
+    { method: 'POST' }
+  );
+  return response.cycle;
+}
+
+export async function closeReviewCycle(businessId: string, cycleId: string): Promise<ReviewCycle> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ cycle: ReviewCycle }>(
+    `/api/hr/admin/performance/cycles/${cycleId}/close?${query}`,
+    { method: 'POST' }
+  );
+  return response.cycle;
+}
+
+export async function getCalibrationReport(
+  businessId: string,
+  cycleId: string,
+  groupBy: CalibrationGroupBy
+): Promise<CalibrationReport> {
+  const query = buildQuery(businessId, { groupBy });
+  return authenticatedApiCall<CalibrationReport>(
+    `/api/hr/admin/performance/cycles/${cycleId}/calibration?${query}`,
+    { method: 'GET' }
+  );
+}
+
+export async function getPerformanceReview(businessId: string, reviewId: string): Promise<PerformanceReview> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ review: PerformanceReview }>(
+    `/api/hr/admin/performance/reviews/${reviewId}?${query}`,
+    { method: 'GET' }
+  );
+  return response.review;
+}
+
+export async function addPeerReviewers(businessId: string, reviewId: string, userIds: string[]): Promise<PerformanceReview> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ review: PerformanceReview }>(
+    `/api/hr/admin/performance/reviews/${reviewId}/peers?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ userIds })
+    }
+  );
+  return response.review;
+}
+
+export async function calibrateReview(
+  businessId: string,
+  reviewId: string,
+  payload: { calibratedRating: number; calibrationNote?: string | null }
+): Promise<PerformanceReview> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ review: PerformanceReview }>(
+    `/api/hr/admin/performance/reviews/${reviewId}/calibrate?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.review;
+}
+
+export async function finalizeReview(businessId: string, reviewId: string, summary?: string | null): Promise<PerformanceReview> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ review: PerformanceReview }>(
+    `/api/hr/admin/performance/reviews/${reviewId}/finalize?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ summary })
+    }
+  );
+  return response.review;
+}
+
+export async function getEmployeePerformance(
+  businessId: string,
+  employeePositionId: string
+): Promise<{ employeeHrProfileId: string; reviews: CompletedReview[]; goals: PerformanceGoal[] }> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall(`/api/hr/admin/employees/${employeePositionId}/performance?${query}`, { method: 'GET' });
+}
+
+// ----------------------------------------------------------------------------
+// Manager
+// ----------------------------------------------------------------------------
+
+export async function getTeamPerformanceReviews(
+  businessId: string,
+  cycleId?: string
+): Promise<{ reviews: TeamReviewStatus[]; tasks: ReviewerTask[] }> {
+  const query = buildQuery(businessId, { cycleId });
+  return authenticatedApiCall<{ reviews: TeamReviewStatus[]; tasks: ReviewerTask[] }>(
+    `/api/hr/team/performance/reviews?${query}`,
+    { method: 'GET' }
+  );
+}
+
+export async function getTeamPerformanceGoals(businessId: string): Promise<PerformanceGoal[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ goals: PerformanceGoal[] }>(
+    `/api/hr/team/performance/goals?${query}`,
+    { method: 'GET' }
+  );
+  return response.goals;
+}
+
+// ----------------------------------------------------------------------------
+// Self-service
+// ----------------------------------------------------------------------------
+
+export async function getMyPerformanceReviews(businessId: string): Promise<CompletedReview[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ reviews: CompletedReview[] }>(
+    `/api/hr/me/performance/reviews?${query}`,
+    { method: 'GET' }
+  );
+  return response.reviews;
+}
+
+export async function getMyReviewTasks(businessId: string): Promise<ReviewerTask[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ tasks: ReviewerTask[] }>(
+    `/api/hr/me/performance/tasks?${query}`,
+    { method: 'GET' }
+  );
+  return response.tasks;
+}
+
+export async function getMyReviewSubmission(businessId: string, submissionId: string): Promise<ReviewerSubmission> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ submission: ReviewerSubmission }>(
+    `/api/hr/me/performance/submissions/${submissionId}?${query}`,
+    { method: 'GET' }
+  );
+  return response.submission;
+}
+
+export async function saveMyReviewSubmission(
+  businessId: string,
+  submissionId: string,
+  payload: { answers?: SubmissionAnswers; overallRating?: number | null; comments?: string | null; submit?: boolean }
+): Promise<ReviewerSubmission> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ submission: ReviewerSubmission }>(
+    `/api/hr/me/performance/submissions/${submissionId}?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.submission;
+}
+
+export async function getMyGoals(businessId: string): Promise<PerformanceGoal[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ goals: PerformanceGoal[] }>(
+    `/api/hr/me/performance/goals?${query}`,
+    { method: 'GET' }
+  );
+  return response.goals;
+}
+
+export async function saveMyGoal(businessId: string, payload: GoalInput, goalId?: string): Promise<PerformanceGoal> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ goal: PerformanceGoal }>(
+    goalId
+      ? `/api/hr/me/performance/goals/${goalId}?${query}`
+      : `/api/hr/me/performance/goals?${query}`,
+    {
+      method: goalId ? 'PUT' : 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.goal;
+}
+
+export async function deleteMyGoal(businessId: string, goalId: string): Promise<void> {
+  const query = buildQuery(businessId);
+  await authenticatedApiCall<{ success: boolean }>(
+    `/api/hr/me/performance/goals/${goalId}?${query}`,
+    { method: 'DELETE' }
+  );
+}
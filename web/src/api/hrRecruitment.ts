@@ -0,0 +1,479 @@
+import { getSession } from 'next-auth/react';
+import { authenticatedApiCall } from '@/lib/apiUtils';
+import type { PayType } from './hrPayroll';
+
+export type EmployeeType = 'FULL_TIME' | 'PART_TIME' | 'CONTRACT' | 'INTERN' | 'TEMPORARY' | 'SEASONAL';
+export type JobRequisitionStatus = 'DRAFT' | 'OPEN' | 'ON_HOLD' | 'CLOSED' | 'FILLED';
+export type RecruitmentStageType = 'APPLIED' | 'SCREENING' | 'INTERVIEW' | 'OFFER' | 'HIRED' | 'REJECTED';
+export type JobApplicationStatus = 'ACTIVE' | 'HIRED' | 'REJECTED' | 'WITHDRAWN';
+export type InterviewStatus = 'SCHEDULED' | 'COMPLETED' | 'CANCELLED';
+
+export interface RecruitmentStage {
+  id: string;
+  businessId: string;
+  name: string;
+  type: RecruitmentStageType;
+  order: number;
+  isActive: boolean;
+}
+
+export interface JobRequisition {
+  id: string;
+  businessId: string;
+  positionId: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  employmentType: EmployeeType;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string;
+  openings: number;
+  status: JobRequisitionStatus;
+  isPublic: boolean;
+  publishedAt: string | null;
+  closedAt: string | null;
+  hiringManagerId: string | null;
+  createdById: string;
+  createdAt: string;
+  updatedAt: string;
+  position: {
+    id: string;
+    title: string;
+    department: { id: string; name: string } | null;
+  };
+  _count: { applications: number };
+}
+
+export interface JobRequisitionInput {
+  positionId: string;
+  title?: string;
+  description?: string | null;
+  location?: string | null;
+  employmentType?: EmployeeType;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string;
+  openings?: number;
+  status?: JobRequisitionStatus;
+  isPublic?: boolean;
+  hiringManagerId?: string | null;
+}
+
+export interface Candidate {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  linkedinUrl: string | null;
+  userId: string | null;
+}
+
+export interface Interview {
+  id: string;
+  applicationId: string;
+  title: string;
+  startAt: string;
+  endAt: string;
+  timezone: string;
+  location: string | null;
+  meetingLink: string | null;
+  interviewerIds: string[];
+  calendarEventId: string | null;
+  status: InterviewStatus;
+  rating: number | null;
+  feedback: string | null;
+}
+
+export interface JobApplication {
+  id: string;
+  businessId: string;
+  requisitionId: string;
+  candidateId: string;
+  stageId: string | null;
+  status: JobApplicationStatus;
+  source: string | null;
+  coverLetter: string | null;
+  rejectedAt: string | null;
+  rejectionReason: string | null;
+  hiredAt: string | null;
+  employeeHrProfileId: string | null;
+  onboardingJourneyId: string | null;
+  createdAt: string;
+  candidate: Candidate;
+  stage: RecruitmentStage | null;
+  requisition: { id: string; title: string; positionId: string; status: JobRequisitionStatus };
+  resumeFile: { id: string; name: string; type: string; size: number; url: string } | null;
+  interviews: Interview[];
+}
+
+export interface ApplicationFormInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  linkedinUrl?: string;
+  coverLetter?: string;
+  resume?: File | null;
+}
+
+export interface ScheduleInterviewInput {
+  title?: string;
+  startAt: string;
+  endAt: string;
+  timezone?: string;
+  location?: string | null;
+  meetingLink?: string | null;
+  interviewerIds?: string[];
+}
+
+export interface HireCandidateInput {
+  startDate?: string;
+  employeeType?: EmployeeType;
+  workLocation?: string;
+  payType?: PayType | null;
+  payRate?: number | null;
+  payCurrency?: string;
+  overtimeExempt?: boolean;
+  onboardingTemplateId?: string;
+}
+
+export interface HireCandidateResult {
+  application: JobApplication;
+  hrProfile: { id: string };
+  onboardingJourney: { id: string } | null;
+  warnings: string[];
+}
+
+export interface RecruitmentDashboard {
+  requisitionCounts: Partial<Record<JobRequisitionStatus, number>>;
+  pipeline: Array<{
+    stageId: string;
+    name: string;
+    type: RecruitmentStageType;
+    activeApplications: number;
+  }>;
+  upcomingInterviews: Array<Interview & {
+    application: {
+      id: string;
+      candidate: { firstName: string; lastName: string };
+      requisition: { title: string };
+    };
+  }>;
+  hiresLast30Days: number;
+}
+
+export interface PublicJobPosting {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  employmentType: EmployeeType;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string;
+  publishedAt: string | null;
+  position: { title: string; department: { name: string } | null };
+}
+
+export interface PublicJobPostings {
+  business: { id: string; name: string; logo: string | null };
+  postings: PublicJobPosting[];
+}
+
+const buildQuery = (businessId: string, extra?: Record<string, string | undefined>) => {
+  const params = new URLSearchParams();
+  params.append('businessId', businessId);
+  Object.entries(extra ?? {}).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+  return params.toString();
+};
+
+const toApplicationFormData = (input: ApplicationFormInput, extra: Record<string, string> = {}) => {
+  const form = new FormData();
+  form.append('firstName', input.firstName);
+  form.append('lastName', input.lastName);
+  form.append('email', input.email);
+  if (input.phone) form.append('phone', input.phone);
+  if (input.linkedinUrl) form.append('linkedinUrl', input.linkedinUrl);
+  if (input.coverLetter) form.append('coverLetter', input.coverLetter);
+  if (input.resume) form.append('resume', input.resume);
+  Object.entries(extra).forEach(([key, value]) => form.append(key, value));
+  return form;
+};
+
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => null) as { error?: string } | null;
+  return body?.error || `Request failed (${response.status})`;
+};
+
+export async function getRecruitmentDashboard(businessId: string): Promise<RecruitmentDashboard> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<RecruitmentDashboard>(`/api/hr/admin/recruitment?${query}`, { method: 'GET' });
+}
+
+export async function listRecruitmentStages(businessId: string): Promise<RecruitmentStage[]> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ stages: RecruitmentStage[] }>(
+    `/api/hr/admin/recruitment/stages?${query}`,
+    { method: 'GET' }
+  );
+  return response.stages;
+}
+
+export async function createRecruitmentStage(
+  businessId: string,
+  payload: { name: string; type: RecruitmentStageType; order?: number }
+): Promise<RecruitmentStage> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ stage: RecruitmentStage }>(
+    `/api/hr/admin/recruitment/stages?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.stage;
+}
+
+export async function updateRecruitmentStage(
+  businessId: string,
+  stageId: string,
+  payload: { name: string; type: RecruitmentStageType; order?: number; isActive?: boolean }
+): Promise<RecruitmentStage> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ stage: RecruitmentStage }>(
+    `/api/hr/admin/recruitment/stages/${stageId}?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.stage;
+}
+
+export async function archiveRecruitmentStage(businessId: string, stageId: string): Promise<void> {
+  const query = buildQuery(businessId);
+  await authenticatedApiCall<{ success: boolean }>(
+    `/api/hr/admin/recruitment/stages/${stageId}?${query}`,
+    { method: 'DELETE' }
+  );
+}
+
+export async function listJobRequisitions(
+  businessId: string,
+  status?: JobRequisitionStatus
+): Promise<JobRequisition[]> {
+  const query = buildQuery(businessId, { status });
+  const response = await authenticatedApiCall<{ requisitions: JobRequisition[] }>(
+    `/api/hr/admin/recruitment/requisitions?${query}`,
+    { method: 'GET' }
+  );
+  return response.requisitions;
+}
+
+export async function createJobRequisition(
+  businessId: string,
+  payload: JobRequisitionInput
+): Promise<JobRequisition> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ requisition: JobRequisition }>(
+    `/api/hr/admin/recruitment/requisitions?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.requisition;
+}
+
+export async function updateJobRequisition(
+  businessId: string,
+  requisitionId: string,
+  payload: JobRequisitionInput
+): Promise<JobRequisition> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ requisition: JobRequisition }>(
+    `/api/hr/admin/recruitment/requisitions/${requisitionId}?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.requisition;
+}
+
+export async function listJobApplications(
+  businessId: string,
+  filters: { requisitionId?: string; stageId?: string; status?: JobApplicationStatus } = {}
+): Promise<JobApplication[]> {
+  const query = buildQuery(businessId, filters);
+  const response = await authenticatedApiCall<{ applications: JobApplication[] }>(
+    `/api/hr/admin/recruitment/applications?${query}`,
+    { method: 'GET' }
+  );
+  return response.applications;
+}
+
+/**
+ * Add a candidate manually. Sent as multipart so a resume can be attached.
+ */
+export async function createJobApplication(
+  businessId: string,
+  requisitionId: string,
+  input: ApplicationFormInput,
+  source = 'manual'
+): Promise<JobApplication> {
+  const session = await getSession();
+  if (!session?.accessToken) {
+    throw new Error('No authentication token available');
+  }
+
+  const query = buildQuery(businessId);
+  const response = await fetch(`/api/hr/admin/recruitment/applications?${query}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.accessToken}` },
+    body: toApplicationFormData(input, { requisitionId, source })
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const data = await response.json() as { application: JobApplication };
+  return data.application;
+}
+
+/**
+ * Download an applicant's resume and hand it to the browser as a file.
+ */
+export async function downloadApplicationResume(businessId: string, application: JobApplication): Promise<void> {
+  const session = await getSession();
+  if (!session?.accessToken) {
+    throw new Error('No authentication token available');
+  }
+
+  const query = buildQuery(businessId);
+  const response = await fetch(`/api/hr/admin/recruitment/applications/${application.id}/resume?${query}`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${session.accessToken}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = application.resumeFile?.name ?? 'resume';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+export async function moveJobApplicationStage(
+  businessId: string,
+  applicationId: string,
+  stageId: string
+): Promise<JobApplication> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ application: JobApplication }>(
+    `/api/hr/admin/recruitment/applications/${applicationId}/stage?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ stageId })
+    }
+  );
+  return response.application;
+}
+
+export async function rejectJobApplication(
+  businessId: string,
+  applicationId: string,
+  reason?: string
+): Promise<JobApplication> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ application: JobApplication }>(
+    `/api/hr/admin/recruitment/applications/${applicationId}/reject?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ reason })
+    }
+  );
+  return response.application;
+}
+
+export async function scheduleInterview(
+  businessId: string,
+  applicationId: string,
+  payload: ScheduleInterviewInput
+): Promise<Interview> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ interview: Interview }>(
+    `/api/hr/admin/recruitment/applications/${applicationId}/interviews?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.interview;
+}
+
+export async function updateInterview(
+  businessId: string,
+  interviewId: string,
+  payload: { status?: InterviewStatus; rating?: number | null; feedback?: string | null }
+): Promise<Interview> {
+  const query = buildQuery(businessId);
+  const response = await authenticatedApiCall<{ interview: Interview }>(
+    `/api/hr/admin/recruitment/interviews/${interviewId}?${query}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(payload)
+    }
+  );
+  return response.interview;
+}
+
+export async function hireCandidate(
+  businessId: string,
+  applicationId: string,
+  payload: HireCandidateInput = {}
+): Promise<HireCandidateResult> {
+  const query = buildQuery(businessId);
+  return authenticatedApiCall<HireCandidateResult>(
+    `/api/hr/admin/recruitment/applications/${applicationId}/hire?${query}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Public careers page (no authentication)
+// ----------------------------------------------------------------------------
+
+export async function getPublicJobPostings(businessId: string): Promise<PublicJobPostings> {
+  const response = await fetch(`/api/careers/${businessId}/jobs`);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json() as Promise<PublicJobPostings>;
+}
+
+export async function submitPublicJobApplication(
+  businessId: string,
+  requisitionId: string,
+  input: ApplicationFormInput
+): Promise<void> {
+  const response = await fetch(`/api/careers/${businessId}/jobs/${requisitionId}/apply`, {
+    method: 'POST',
+    body: toApplicationFormData(input)
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+}
@@ -62,6 +62,7 @@ export interface ScheduleShift {
     title: string;
   };
   shiftTemplateId?: string;
+  title?: string;
   startTime: string;
   endTime: string;
   breakMinutes: number;
@@ -85,18 +86,55 @@ export interface ShiftTemplate {
   id: string;
   businessId: string;
   name: string;
-  description?: string;
-  defaultDurationMinutes: number;
-  defaultBreakMinutes: number;
-  defaultPositionId?: string;
-  daysOfWeek: string[];
+  description?: string | null;
+  defaultStartTime: string; // HH:mm
+  defaultEndTime: string; // HH:mm, at or before the start for overnight shifts
+  defaultBreakMinutes?: number | null;
+  daysOfWeek: string[]; // "MONDAY", "TUESDAY", ...; empty = every day
+  departmentId?: string | null;
+  positionId?: string | null;
+  stationId?: string | null;
+  locationId?: string | null;
+  requiredHeadcount: number;
+  color?: string | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
   position?: {
     id: string;
     title: string;
-  };
+  } | null;
+  station?: {
+    id: string;
+    name: string;
+    stationType: string;
+    color?: string | null;
+  } | null;
+  location?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+export interface ShiftTemplateInput {
+  name?: string;
+  description?: string | null;
+  defaultStartTime?: string;
+  defaultEndTime?: string;
+  defaultBreakMinutes?: number | null;
+  daysOfWeek?: string[];
+  positionId?: string | null;
+  stationId?: string | null;
+  locationId?: string | null;
+  requiredHeadcount?: number;
+  color?: string | null;
+  isActive?: boolean;
+}
+
+export interface GenerateWeekFromTemplatesResult {
+  schedule: Schedule;
+  created: number;
+  skipped: number;
 }
 
 export interface EmployeeAvailability {
@@ -365,15 +403,20 @@ export const deleteShift = async (businessId: string, shiftId: string, token?: s
 };
 
 // Shift Templates
-export const getShiftTemplates = async (businessId: string, token?: string): Promise<ShiftTemplate[]> => {
+export const getShiftTemplates = async (
+  businessId: string,
+  token?: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<ShiftTemplate[]> => {
   if (!token) throw new Error('Authentication required');
-  const res = await fetch(`/api/scheduling/admin/templates?businessId=${businessId}`, {
+  const query = options.includeInactive ? '&includeInactive=true' : '';
+  const res = await fetch(`/api/scheduling/admin/templates?businessId=${businessId}${query}`, {
     headers: authHeaders(token),
   });
   if (!res.ok) {
     const errorData = await res.json().catch(() => ({}));
     console.error('Failed to fetch templates:', { status: res.status, error: errorData });
-    throw new Error(errorData.message || 'Failed to fetch templates');
+    throw new Error(errorData.message || errorData.error || 'Failed to fetch templates');
   }
   const data = await res.json();
   return data.templates || data;
@@ -381,15 +424,7 @@ export const getShiftTemplates = async (businessId: string, token?: string): Pro
 
 export const createShiftTemplate = async (
   businessId: string,
-  templateData: {
-    name: string;
-    description?: string;
-    defaultDurationMinutes: number;
-    defaultBreakMinutes?: number;
-    defaultPositionId?: string;
-    daysOfWeek?: string[];
-    isActive?: boolean;
-  },
+  templateData: ShiftTemplateInput & { name: string; defaultStartTime: string; defaultEndTime: string },
   token?: string
 ): Promise<ShiftTemplate> => {
   if (!token) throw new Error('Authentication required');
@@ -398,7 +433,61 @@ export const createShiftTemplate = async (
     headers: authHeaders(token, { 'Content-Type': 'application/json' }),
     body: JSON.stringify({ businessId, ...templateData }),
   });
-  if (!res.ok) throw new Error('Failed to create template');
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || 'Failed to create template');
+  }
+  const data = await res.json();
+  return data.template;
+};
+
+export const updateShiftTemplate = async (
+  templateId: string,
+  businessId: string,
+  templateData: ShiftTemplateInput,
+  token?: string
+): Promise<ShiftTemplate> => {
+  if (!token) throw new Error('Authentication required');
+  const res = await fetch(`/api/scheduling/admin/templates/${templateId}`, {
+    method: 'PUT',
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ businessId, ...templateData }),
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || 'Failed to update template');
+  }
+  const data = await res.json();
+  return data.template;
+};
+
+export const deleteShiftTemplate = async (templateId: string, businessId: string, token?: string): Promise<void> => {
+  if (!token) throw new Error('Authentication required');
+  const res = await fetch(`/api/scheduling/admin/templates/${templateId}?businessId=${businessId}`, {
+    method: 'DELETE',
+    headers: authHeaders(token),
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || 'Failed to delete template');
+  }
+};
+
+export const generateWeekFromTemplates = async (
+  businessId: string,
+  params: { weekStart: string; scheduleId?: string; templateIds?: string[]; name?: string; timezone?: string },
+  token?: string
+): Promise<GenerateWeekFromTemplatesResult> => {
+  if (!token) throw new Error('Authentication required');
+  const res = await fetch('/api/scheduling/admin/templates/generate-week', {
+    method: 'POST',
+    headers: authHeaders(token, { 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ businessId, ...params }),
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || 'Failed to generate shifts from templates');
+  }
   return res.json();
 };
 
@@ -594,8 +683,47 @@ export const assignEmployeeToShift = async (
     headers: authHeaders(token, { 'Content-Type': 'application/json' }),
     body: JSON.stringify({ employeePositionId }),
   });
-  if (!res.ok) throw new Error('Failed to assign employee');
-  return res.json();
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || errorData.message || 'Failed to assign employee');
+  }
+  const data = await res.json();
+  return data.shift || data;
+};
+
+export const publishTeamSchedule = async (businessId: string, scheduleId: string, token?: string): Promise<Schedule> => {
+  if (!token) throw new Error('Authentication required');
+  const res = await fetch(`/api/scheduling/team/schedules/${scheduleId}/publish?businessId=${businessId}`, {
+    method: 'POST',
+    headers: authHeaders(token),
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || errorData.message || 'Failed to publish schedule');
+  }
+  const data = await res.json();
+  return data.schedule || data;
+};
+
+export interface TeamMemberAvailability {
+  employeePositionId: string;
+  user: { id: string; name: string | null; email: string };
+  position: { id: string; title: string };
+  availability: EmployeeAvailability[];
+  timeOff: Array<{ id: string; type: string; startDate: string; endDate: string }>;
+}
+
+export const getTeamAvailability = async (businessId: string, token?: string): Promise<TeamMemberAvailability[]> => {
+  if (!token) throw new Error('Authentication required');
+  const res = await fetch(`/api/scheduling/team/availability?businessId=${businessId}`, {
+    headers: authHeaders(token),
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || errorData.message || 'Failed to fetch team availability');
+  }
+  const data = await res.json();
+  return data.team || [];
 };
 
 export const getPendingShiftSwapRequestsForTeam = async (businessId: string, token?: string): Promise<ShiftSwapRequest[]> => {
@@ -835,7 +963,9 @@ export const getSchedulingRecommendations = async (
 
 export interface GenerateAIScheduleRequest {
   businessId: string;
-  scheduleId: string;
+  scheduleId?: string;
+  /** AUTO_GENERATE only: create a new draft for this week (YYYY-MM-DD) from shift templates */
+  weekStart?: string;
   strategy?: 'AVAILABILITY_FIRST' | 'BUDGET_FIRST' | 'COMPLIANCE_FIRST' | 'TEMPLATE_BASED' | 'AUTO_GENERATE';
   constraints?: {
     budgetLimit?: number;
@@ -845,12 +975,44 @@ export interface GenerateAIScheduleRequest {
   };
 }
 
+export interface AutoScheduleAssignment {
+  slotId: string;
+  employeePositionId: string;
+  employeeName: string;
+  hours: number;
+  cost: number | null;
+  reasons: string[];
+}
+
+export interface AutoScheduleUnfilledSlot {
+  slotId: string;
+  label?: string;
+  start: string;
+  end: string;
+  rejected: Record<string, number>;
+  reasons: string[];
+}
+
 export interface GenerateAIScheduleResponse {
   success: boolean;
   message: string;
   shifts: ScheduleShift[];
   recommendations: number;
   created: number;
+  // Returned by the AUTO_GENERATE solver
+  schedule?: Schedule;
+  assignments?: AutoScheduleAssignment[];
+  unfilled?: AutoScheduleUnfilledSlot[];
+  summary?: {
+    slots: number;
+    filled: number;
+    unfilled: number;
+    totalHours: number;
+    laborCost: number;
+    budgetLimit: number | null;
+    overBudget: boolean;
+    hoursByEmployee: Record<string, number>;
+  };
 }
 
 export const generateAISchedule = async (
@@ -925,6 +1087,9 @@ export interface BusinessStation {
   isActive: boolean;
   defaultStartTime?: string | null;
   defaultEndTime?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geofenceRadiusMeters?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -960,6 +1125,9 @@ export const createBusinessStation = async (
     priority?: number;
     defaultStartTime?: string;
     defaultEndTime?: string;
+    latitude?: number;
+    longitude?: number;
+    geofenceRadiusMeters?: number;
   },
   token?: string
 ): Promise<{ station: BusinessStation }> => {
@@ -990,6 +1158,9 @@ export const updateBusinessStation = async (
     isActive?: boolean;
     defaultStartTime?: string | null;
     defaultEndTime?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    geofenceRadiusMeters?: number | null;
   },
   token?: string
 ): Promise<{ station: BusinessStation }> => {
@@ -1036,6 +1207,9 @@ export interface JobLocation {
   phone?: string | null;
   email?: string | null;
   notes?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geofenceRadiusMeters?: number | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -1069,6 +1243,9 @@ export const createBusinessJobLocation = async (
     phone?: string;
     email?: string;
     notes?: string;
+    latitude?: number;
+    longitude?: number;
+    geofenceRadiusMeters?: number;
   },
   token?: string
 ): Promise<{ location: JobLocation }> => {
@@ -1094,6 +1271,9 @@ export const updateBusinessJobLocation = async (
     phone?: string;
     email?: string;
     notes?: string;
+    latitude?: number | null;
+    longitude?: number | null;
+    geofenceRadiusMeters?: number | null;
     isActive?: boolean;
   },
   token?: string
@@ -1126,3 +1306,134 @@ export const deleteBusinessJobLocation = async (
   }
   return res.json();
 };
+
+// ============================================================================
+// ANALYTICS & COMPLIANCE
+// ============================================================================
+
+export type SchedulingAnalyticsParams = {
+  startDate: string;
+  endDate: string;
+  scheduleId?: string;
+  timezone?: string;
+  stationName?: string;
+};
+
+export interface LaborCostRow {
+  key: string;
+  scheduledHours: number;
+  scheduledCost: number;
+  actualHours: number;
+  actualCost: number;
+  varianceCost: number;
+}
+
+export interface LaborCostAnalytics {
+  startDate: string;
+  endDate: string;
+  timezone: string;
+  totals: Omit<LaborCostRow, 'key'>;
+  byDay: LaborCostRow[];
+  byStation: LaborCostRow[];
+  byDepartment: LaborCostRow[];
+  unmatchedRecords: number;
+  employeesWithoutRate: number;
+}
+
+export interface CoverageAnalytics {
+  timezone: string;
+  dates: string[];
+  cells: Array<{ date: string; hour: number; required: number; scheduled: number; gap: number }>;
+  understaffedHours: number;
+  overstaffedHours: number;
+}
+
+export type ComplianceIssueType = 'OVERTIME' | 'SPLIT_SHIFT' | 'MISSED_BREAK' | 'SHORT_NOTICE';
+
+export interface ComplianceIssue {
+  type: ComplianceIssueType;
+  source: 'SCHEDULED' | 'ACTUAL';
+  employeePositionId: string;
+  employeeName: string;
+  date: string;
+  detail: string;
+  shiftId?: string;
+  attendanceRecordId?: string;
+}
+
+export interface ComplianceReport {
+  startDate: string;
+  endDate: string;
+  timezone: string;
+  rules: {
+    weeklyOvertimeHours: number;
+    dailyOvertimeHours?: number | null;
+    splitShiftGapHours: number;
+    breakAfterHours: number;
+    minBreakMinutes: number;
+    noticeDays: number;
+  };
+  counts: Record<ComplianceIssueType, number>;
+  issues: ComplianceIssue[];
+}
+
+export type SchedulingAnalyticsReport = 'labor-cost' | 'coverage' | 'compliance';
+
+const analyticsQuery = (
+  businessId: string,
+  params: SchedulingAnalyticsParams & Record<string, string | number | undefined>,
+  csv = false
+) => {
+  const query = new URLSearchParams({ businessId });
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  }
+  if (csv) query.set('format', 'csv');
+  return query.toString();
+};
+
+const fetchAnalytics = async <T>(
+  report: SchedulingAnalyticsReport,
+  businessId: string,
+  params: SchedulingAnalyticsParams & Record<string, string | number | undefined>,
+  token?: string
+): Promise<T> => {
+  if (!token) throw new Error('Authentication required');
+  const res = await fetch(`/api/scheduling/admin/analytics/${report}?${analyticsQuery(businessId, params)}`, {
+    headers: authHeaders(token),
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || `Failed to load ${report} analytics`);
+  }
+  return res.json();
+};
+
+export const getLaborCostAnalytics = (businessId: string, params: SchedulingAnalyticsParams, token?: string) =>
+  fetchAnalytics<LaborCostAnalytics>('labor-cost', businessId, params, token);
+
+export const getCoverageAnalytics = (businessId: string, params: SchedulingAnalyticsParams, token?: string) =>
+  fetchAnalytics<CoverageAnalytics>('coverage', businessId, params, token);
+
+export const getComplianceReport = (
+  businessId: string,
+  params: SchedulingAnalyticsParams & { noticeDays?: number; weeklyOvertimeHours?: number; dailyOvertimeHours?: number },
+  token?: string
+) => fetchAnalytics<ComplianceReport>('compliance', businessId, params, token);
+
+export const exportSchedulingAnalyticsCsv = async (
+  report: SchedulingAnalyticsReport,
+  businessId: string,
+  params: SchedulingAnalyticsParams & Record<string, string | number | undefined>,
+  token?: string
+): Promise<Blob> => {
+  if (!token) throw new Error('Authentication required');
+  const res = await fetch(`/api/scheduling/admin/analytics/${report}?${analyticsQuery(businessId, params, true)}`, {
+    headers: authHeaders(token),
+  });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || 'Failed to export report');
+  }
+  return res.blob();
+};
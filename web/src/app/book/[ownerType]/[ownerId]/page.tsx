@@ -0,0 +1,260 @@
+'use client';
+
+export const dynamic = "force-dynamic";
+
+import React, { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { Spinner, Alert, EmptyState } from 'shared/components';
+import { Clock, MapPin, ArrowLeft } from 'lucide-react';
+import BookingSlotPicker from '@/components/calendar/BookingSlotPicker';
+import {
+  bookAppointment,
+  getBookingPage,
+  getOpenSlots,
+  BookingPage,
+  OpenSlots
+} from '@/api/appointments';
+
+type Slot = OpenSlots['slots'][number];
+
+const EMPTY_GUEST = { name: '', email: '', answers: {} as Record<string, string> };
+
+const formatSlot = (slot: { startAt: string }) =>
+  new Date(slot.startAt).toLocaleString(undefined, { weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+function BookingPageContent() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const ownerType = params?.ownerType as string;
+  const ownerId = params?.ownerId as string;
+
+  const [page, setPage] = useState<BookingPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(searchParams?.get('type') ?? null);
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [guest, setGuest] = useState(EMPTY_GUEST);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [manageToken, setManageToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!ownerType || !ownerId) return;
+    setLoading(true);
+    getBookingPage(ownerType, ownerId)
+      .then((result) => {
+        setPage(result);
+        setError(null);
+        // A single appointment type needs no picking
+        if (result.appointmentTypes.length === 1) setSelectedId(result.appointmentTypes[0].id);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load booking page'))
+      .finally(() => setLoading(false));
+  }, [ownerType, ownerId]);
+
+  const selected = page?.appointmentTypes.find((type) => type.id === selectedId) ?? null;
+  const selectedTypeId = selected?.id;
+
+  const loadSlots = useCallback(
+    (start: string, end: string) => getOpenSlots(selectedTypeId as string, start, end),
+    [selectedTypeId]
+  );
+
+  const selectType = (id: string | null) => {
+    setSelectedId(id);
+    setSlot(null);
+    setGuest(EMPTY_GUEST);
+    setSubmitError(null);
+    setManageToken(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selected || !slot) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const result = await bookAppointment(selected.id, { startAt: slot.startAt, ...guest });
+      setManageToken(result.manageToken);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to book appointment');
+      // The slot may have just been taken; let the guest pick again
+      setSlot(null);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    );
+  }
+
+  if (error || !page) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16">
+        <Alert type="error" title="Booking page unavailable">
+          {error || 'This booking page could not be found.'}
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex items-center gap-4">
+          {page.owner.logo && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={page.owner.logo} alt={page.owner.name || ''} className="h-12 w-12 rounded object-contain" />
+          )}
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Book time with {page.owner.name || 'us'}</h1>
+            <p className="text-gray-600 mt-1">Pick an appointment type and a time that works for you.</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!selected ? (
+          page.appointmentTypes.length === 0 ? (
+            <div className="bg-white border rounded-lg">
+              <EmptyState icon="📅" title="Nothing to book" description="There are no appointment types right now." />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {page.appointmentTypes.map((type) => (
+                <button
+                  key={type.id}
+                  type="button"
+                  onClick={() => selectType(type.id)}
+                  className="w-full text-left bg-white border border-gray-200 rounded-lg p-5 hover:border-blue-300 hover:shadow-sm transition"
+                >
+                  <h2 className="text-lg font-semibold text-gray-900">{type.name}</h2>
+                  <div className="flex flex-wrap items-center gap-3 mt-1 text-sm text-gray-500">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      {type.durationMinutes} min
+                    </span>
+                    {type.location && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="w-4 h-4" />
+                        {type.location}
+                      </span>
+                    )}
+                  </div>
+                  {type.description && <p className="mt-2 text-sm text-gray-600 line-clamp-2">{type.description}</p>}
+                </button>
+              ))}
+            </div>
+          )
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-5">
+            <section className="lg:col-span-3 bg-white border rounded-lg p-6">
+              {page.appointmentTypes.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => selectType(null)}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  All appointment types
+                </button>
+              )}
+              <h2 className="text-2xl font-bold text-gray-900">{selected.name}</h2>
+              <div className="flex flex-wrap items-center gap-3 mt-2 mb-6 text-sm text-gray-500">
+                <span>{selected.durationMinutes} min</span>
+                {selected.location && <span>{selected.location}</span>}
+              </div>
+              {selected.description && <p className="mb-6 text-gray-700 whitespace-pre-line">{selected.description}</p>}
+              {!manageToken && <BookingSlotPicker loadSlots={loadSlots} selected={slot} onSelect={setSlot} />}
+            </section>
+
+            <section className="lg:col-span-2 bg-white border rounded-lg p-6">
+              {manageToken && slot ? (
+                <Alert type="success" title="You're booked">
+                  <p>{formatSlot(slot)}. A confirmation with a calendar invite is on its way to {guest.email}.</p>
+                  <p className="mt-2">
+                    Need to change it? <Link href={`/book/manage/${manageToken}`} className="underline">Reschedule or cancel</Link>
+                  </p>
+                </Alert>
+              ) : (
+                <>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Your details</h3>
+                  {submitError && (
+                    <div className="mb-3">
+                      <Alert type="error" title="Could not book this time">
+                        {submitError}
+                      </Alert>
+                    </div>
+                  )}
+                  {!slot ? (
+                    <p className="text-sm text-gray-500">Pick a time to continue.</p>
+                  ) : (
+                    <form onSubmit={handleSubmit} className="space-y-3">
+                      <p className="text-sm font-medium text-gray-900">{formatSlot(slot)}</p>
+                      <input
+                        required
+                        placeholder="Name"
+                        value={guest.name}
+                        onChange={(e) => setGuest({ ...guest, name: e.target.value })}
+                        className="w-full border rounded px-3 py-2 text-sm"
+                      />
+                      <input
+                        required
+                        type="email"
+                        placeholder="Email"
+                        value={guest.email}
+                        onChange={(e) => setGuest({ ...guest, email: e.target.value })}
+                        className="w-full border rounded px-3 py-2 text-sm"
+                      />
+                      {selected.questions.map((question) => (
+                        <label key={question.id} className="block text-sm text-gray-700">
+                          {question.label}{question.required ? '' : ' (optional)'}
+                          <textarea
+                            required={question.required}
+                            rows={2}
+                            value={guest.answers[question.id] || ''}
+                            onChange={(e) => setGuest({ ...guest, answers: { ...guest.answers, [question.id]: e.target.value } })}
+                            className="mt-1 w-full border rounded px-3 py-2 text-sm"
+                          />
+                        </label>
+                      ))}
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="w-full px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {submitting ? 'Booking…' : 'Confirm booking'}
+                      </button>
+                    </form>
+                  )}
+                </>
+              )}
+            </section>
+          </div>
+        )}
+
+        <p className="text-center text-xs text-gray-400 mt-10">
+          Powered by <Link href="/" className="hover:underline">Vssyl</Link>
+        </p>
+      </main>
+    </div>
+  );
+}
+
+export default function PublicBookingPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    }>
+      <BookingPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+export const dynamic = "force-dynamic";
+
+import React, { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Spinner, Alert } from 'shared/components';
+import BookingSlotPicker from '@/components/calendar/BookingSlotPicker';
+import {
+  cancelBooking,
+  getManagedBooking,
+  getRescheduleSlots,
+  rescheduleBooking,
+  OpenSlots,
+  PublicBooking
+} from '@/api/appointments';
+
+type Slot = OpenSlots['slots'][number];
+
+const formatSlot = (slot: { startAt: string }) =>
+  new Date(slot.startAt).toLocaleString(undefined, { weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+function ManageBookingContent() {
+  const params = useParams();
+  const token = params?.token as string;
+
+  const [booking, setBooking] = useState<PublicBooking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [working, setWorking] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    setLoading(true);
+    getManagedBooking(token)
+      .then((result) => {
+        setBooking(result);
+        setError(null);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load booking'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const loadSlots = useCallback((start: string, end: string) => getRescheduleSlots(token, start, end), [token]);
+
+  const run = async (action: () => Promise<PublicBooking>, message: string) => {
+    setWorking(true);
+    setActionError(null);
+    try {
+      setBooking(await action());
+      setNotice(message);
+      setRescheduling(false);
+      setSlot(null);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReschedule = () => {
+    if (!slot) return;
+    run(() => rescheduleBooking(token, slot.startAt), 'Your booking has been moved. An updated invite is on its way.');
+  };
+
+  const handleCancel = () => {
+    if (!confirm('Cancel this booking?')) return;
+    run(() => cancelBooking(token), 'Your booking has been canceled.');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    );
+  }
+
+  if (error || !booking) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16">
+        <Alert type="error" title="Booking unavailable">
+          {error || 'This booking link is invalid or has expired.'}
+        </Alert>
+      </div>
+    );
+  }
+
+  const canceled = booking.status === 'CANCELED';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+        <section className="bg-white border rounded-lg p-6">
+          <h1 className="text-2xl font-bold text-gray-900">{booking.appointmentType.name}</h1>
+          <p className={`mt-2 text-gray-700 ${canceled ? 'line-through' : ''}`}>{formatSlot(booking)}</p>
+          <div className="mt-1 text-sm text-gray-500">
+            {booking.appointmentType.durationMinutes} min
+            {booking.appointmentType.location ? ` · ${booking.appointmentType.location}` : ''}
+          </div>
+          <p className="mt-1 text-sm text-gray-500">Booked for {booking.guestName} ({booking.guestEmail})</p>
+
+          {notice && (
+            <div className="mt-4">
+              <Alert type="success" title={canceled ? 'Canceled' : 'Updated'}>{notice}</Alert>
+            </div>
+          )}
+          {actionError && (
+            <div className="mt-4">
+              <Alert type="error" title="Could not update booking">{actionError}</Alert>
+            </div>
+          )}
+
+          {!canceled && !rescheduling && (
+            <div className="mt-6 flex gap-3">
+              <button
+                type="button"
+                onClick={() => { setRescheduling(true); setNotice(null); }}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+              >
+                Reschedule
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                disabled={working}
+                className="px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+              >
+                Cancel booking
+              </button>
+            </div>
+          )}
+        </section>
+
+        {rescheduling && (
+          <section className="bg-white border rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Pick a new time</h2>
+            <BookingSlotPicker loadSlots={loadSlots} selected={slot} onSelect={setSlot} />
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => { setRescheduling(false); setSlot(null); }}
+                className="px-4 py-2 border rounded-md text-sm"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleReschedule}
+                disabled={!slot || working}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                {working ? 'Saving…' : slot ? `Move to ${formatSlot(slot)}` : 'Move booking'}
+              </button>
+            </div>
+          </section>
+        )}
+
+        <p className="text-center text-xs text-gray-400">
+          Powered by <Link href="/" className="hover:underline">Vssyl</Link>
+        </p>
+      </main>
+    </div>
+  );
+}
+
+export default function ManageBookingPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    }>
+      <ManageBookingContent />
+    </Suspense>
+  );
+}
@@ -7,6 +7,8 @@ import { toast } from 'react-hot-toast';
 import { useBusinessConfiguration } from '@/contexts/BusinessConfigurationContext';
 import { useHRFeatures } from '@/hooks/useHRFeatures';
 import HRPageLayout from '@/components/hr/HRPageLayout';
+import KioskDevicesPanel from '@/components/hr/attendance/KioskDevicesPanel';
+import KioskCredentialsPanel from '@/components/hr/attendance/KioskCredentialsPanel';
 
 type AttendanceOverview = {
   activeEmployees: number;
@@ -530,6 +532,27 @@ export default function HRAttendancePage() {
         )}
       </section>
 
+      {/* Kiosk Time Clocks */}
+      {hrFeatures.attendance.clockInOut && (
+        <section className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold">Kiosk Time Clocks</h2>
+            <p className="text-gray-600 text-sm">
+              Shared devices where employees clock in with a PIN or badge instead of signing in.
+              Punches made while a kiosk is offline are synced when it reconnects.
+            </p>
+          </div>
+          <KioskDevicesPanel businessId={businessId} />
+          <div className="pt-2">
+            <h3 className="text-base font-semibold">Employee PINs and Badges</h3>
+            <p className="text-gray-600 text-sm">
+              Employees can also set their own PIN from their HR self-service page.
+            </p>
+          </div>
+          <KioskCredentialsPanel businessId={businessId} />
+        </section>
+      )}
+
       {/* Drawer / Modal */}
       {isFormOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
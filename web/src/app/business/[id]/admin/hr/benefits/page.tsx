@@ -0,0 +1,1023 @@
+'use client';
+
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import { Spinner, Alert, EmptyState, Badge } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { useBusinessConfiguration } from '@/contexts/BusinessConfigurationContext';
+import { useHRFeatures } from '@/hooks/useHRFeatures';
+import HRPageLayout from '@/components/hr/HRPageLayout';
+import {
+  archiveBenefitPlan,
+  downloadBenefitsCensus,
+  endBenefitEnrollment,
+  getBenefitsDashboard,
+  listBenefitEnrollments,
+  listBenefitPlans,
+  listEnrollmentWindows,
+  listLifeEvents,
+  reviewLifeEvent,
+  saveBenefitPlan,
+  saveEnrollmentWindow,
+  BenefitCoverageLevel,
+  BenefitEnrollment,
+  BenefitLifeEventType,
+  BenefitPlan,
+  BenefitPlanInput,
+  BenefitPlanType,
+  BenefitsDashboard,
+  CoverageCosts,
+  EmployeeType,
+  EnrollmentWindow,
+  LifeEvent
+} from '@/api/hrBenefits';
+
+const PLAN_TYPE_LABELS: Record<BenefitPlanType, string> = {
+  MEDICAL: 'Medical',
+  DENTAL: 'Dental',
+  VISION: 'Vision',
+  RETIREMENT: 'Retirement',
+  LIFE: 'Life',
+  DISABILITY: 'Disability',
+  CUSTOM: 'Custom'
+};
+
+const COVERAGE_LEVEL_LABELS: Record<BenefitCoverageLevel, string> = {
+  EMPLOYEE_ONLY: 'Employee only',
+  EMPLOYEE_SPOUSE: 'Employee + spouse',
+  EMPLOYEE_CHILDREN: 'Employee + children',
+  FAMILY: 'Family'
+};
+
+const EMPLOYEE_TYPE_LABELS: Record<EmployeeType, string> = {
+  FULL_TIME: 'Full-time',
+  PART_TIME: 'Part-time',
+  CONTRACT: 'Contract',
+  INTERN: 'Intern',
+  TEMPORARY: 'Temporary',
+  SEASONAL: 'Seasonal'
+};
+
+const LIFE_EVENT_LABELS: Record<BenefitLifeEventType, string> = {
+  NEW_HIRE: 'New hire',
+  MARRIAGE: 'Marriage',
+  DIVORCE: 'Divorce',
+  BIRTH_ADOPTION: 'Birth / adoption',
+  DEATH_OF_DEPENDENT: 'Death of dependent',
+  LOSS_OF_COVERAGE: 'Loss of coverage',
+  EMPLOYMENT_CHANGE: 'Employment change',
+  OTHER: 'Other'
+};
+
+const COVERAGE_LEVELS = Object.keys(COVERAGE_LEVEL_LABELS) as BenefitCoverageLevel[];
+
+type CostDraft = Record<BenefitCoverageLevel, { employee: string; employer: string }>;
+
+type PlanForm = {
+  name: string;
+  type: BenefitPlanType;
+  carrier: string;
+  planCode: string;
+  description: string;
+  eligibleEmployeeTypes: EmployeeType[];
+  waitingPeriodDays: string;
+  costs: CostDraft;
+  minContributionPercent: string;
+  maxContributionPercent: string;
+  employerMatchPercent: string;
+  employerMatchLimitPercent: string;
+  allowsDependents: boolean;
+  requiresBeneficiary: boolean;
+  deductionCode: string;
+  deductionCategory: 'PRE_TAX_DEDUCTION' | 'POST_TAX_DEDUCTION';
+};
+
+const EMPTY_COSTS = COVERAGE_LEVELS.reduce(
+  (acc, level) => ({ ...acc, [level]: { employee: '', employer: '' } }),
+  {} as CostDraft
+);
+
+const DEFAULT_PLAN_FORM: PlanForm = {
+  name: '',
+  type: 'MEDICAL',
+  carrier: '',
+  planCode: '',
+  description: '',
+  eligibleEmployeeTypes: [],
+  waitingPeriodDays: '0',
+  costs: EMPTY_COSTS,
+  minContributionPercent: '1',
+  maxContributionPercent: '50',
+  employerMatchPercent: '',
+  employerMatchLimitPercent: '',
+  allowsDependents: true,
+  requiresBeneficiary: false,
+  deductionCode: '',
+  deductionCategory: 'PRE_TAX_DEDUCTION'
+};
+
+const DEFAULT_WINDOW_FORM = { name: '', startDate: '', endDate: '', coverageStartDate: '', notes: '' };
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' }) : '—';
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const employeeName = (enrollment: { employeeHrProfile?: LifeEvent['employeeHrProfile'] }) => {
+  const user = enrollment.employeeHrProfile?.employeePosition.user;
+  return user ? user.name || user.email : '—';
+};
+
+const planToForm = (plan: BenefitPlan): PlanForm => ({
+  name: plan.name,
+  type: plan.type,
+  carrier: plan.carrier ?? '',
+  planCode: plan.planCode ?? '',
+  description: plan.description ?? '',
+  eligibleEmployeeTypes: plan.eligibleEmployeeTypes,
+  waitingPeriodDays: String(plan.waitingPeriodDays),
+  costs: COVERAGE_LEVELS.reduce((acc, level) => {
+    const cost = plan.coverageCosts?.[level];
+    return { ...acc, [level]: { employee: cost ? String(cost.employee) : '', employer: cost ? String(cost.employer) : '' } };
+  }, {} as CostDraft),
+  minContributionPercent: plan.minContributionPercent?.toString() ?? '',
+  maxContributionPercent: plan.maxContributionPercent?.toString() ?? '',
+  employerMatchPercent: plan.employerMatchPercent?.toString() ?? '',
+  employerMatchLimitPercent: plan.employerMatchLimitPercent?.toString() ?? '',
+  allowsDependents: plan.allowsDependents,
+  requiresBeneficiary: plan.requiresBeneficiary,
+  deductionCode: plan.deductionCode,
+  deductionCategory: plan.deductionCategory
+});
+
+export default function HRBenefitsPage() {
+  const params = useParams();
+  const businessId = (params?.id as string) || '';
+  const { businessTier } = useBusinessConfiguration();
+  const hrFeatures = useHRFeatures(businessTier || undefined);
+
+  const [dashboard, setDashboard] = useState<BenefitsDashboard | null>(null);
+  const [plans, setPlans] = useState<BenefitPlan[]>([]);
+  const [windows, setWindows] = useState<EnrollmentWindow[]>([]);
+  const [lifeEvents, setLifeEvents] = useState<LifeEvent[]>([]);
+  const [enrollments, setEnrollments] = useState<BenefitEnrollment[]>([]);
+  const [enrollmentPlanId, setEnrollmentPlanId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const [planForm, setPlanForm] = useState<PlanForm>(DEFAULT_PLAN_FORM);
+  const [planFormOpen, setPlanFormOpen] = useState(false);
+  const [editingPlanId, setEditingPlanId] = useState<string | null>(null);
+  const [windowForm, setWindowForm] = useState(DEFAULT_WINDOW_FORM);
+  const [windowFormOpen, setWindowFormOpen] = useState(false);
+  const [census, setCensus] = useState({ planId: '', asOf: today() });
+
+  const loadData = useCallback(async () => {
+    if (!businessId) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setLoadError(null);
+      const [dashboardData, planData, windowData, lifeEventData] = await Promise.all([
+        getBenefitsDashboard(businessId),
+        listBenefitPlans(businessId, true),
+        listEnrollmentWindows(businessId),
+        listLifeEvents(businessId, 'PENDING')
+      ]);
+      setDashboard(dashboardData);
+      setPlans(planData);
+      setWindows(windowData);
+      setLifeEvents(lifeEventData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to load benefits administration';
+      setLoadError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  const loadEnrollments = useCallback(async () => {
+    if (!businessId) {
+      return;
+    }
+    try {
+      setEnrollments(await listBenefitEnrollments(businessId, { planId: enrollmentPlanId || undefined, current: true }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to load enrollments');
+    }
+  }, [businessId, enrollmentPlanId]);
+
+  useEffect(() => {
+    if (hrFeatures.benefits) {
+      loadData();
+    }
+  }, [loadData, hrFeatures.benefits]);
+
+  useEffect(() => {
+    if (hrFeatures.benefits) {
+      loadEnrollments();
+    }
+  }, [loadEnrollments, hrFeatures.benefits]);
+
+  const runAction = async (key: string, action: () => Promise<void>, successMessage: string) => {
+    try {
+      setBusyAction(key);
+      await action();
+      toast.success(successMessage);
+      await loadData();
+      await loadEnrollments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Benefits action failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const openPlanForm = (plan?: BenefitPlan) => {
+    setEditingPlanId(plan?.id ?? null);
+    setPlanForm(plan ? planToForm(plan) : DEFAULT_PLAN_FORM);
+    setPlanFormOpen(true);
+  };
+
+  const handleSavePlan = async () => {
+    if (!planForm.name.trim() || !planForm.deductionCode.trim()) {
+      toast.error('Plan name and deduction code are required');
+      return;
+    }
+    const isRetirement = planForm.type === 'RETIREMENT';
+    const coverageCosts: CoverageCosts = {};
+    COVERAGE_LEVELS.forEach((level) => {
+      const draft = planForm.costs[level];
+      if (draft.employee.trim() !== '' || draft.employer.trim() !== '') {
+        coverageCosts[level] = { employee: Number(draft.employee || 0), employer: Number(draft.employer || 0) };
+      }
+    });
+    if (!isRetirement && Object.keys(coverageCosts).length === 0) {
+      toast.error('Enter costs for at least one coverage level');
+      return;
+    }
+
+    const payload: BenefitPlanInput = {
+      name: planForm.name.trim(),
+      type: planForm.type,
+      carrier: planForm.carrier.trim() || null,
+      planCode: planForm.planCode.trim() || null,
+      description: planForm.description.trim() || null,
+      eligibleEmployeeTypes: planForm.eligibleEmployeeTypes,
+      waitingPeriodDays: Number(planForm.waitingPeriodDays) || 0,
+      coverageCosts: isRetirement ? null : coverageCosts,
+      minContributionPercent: isRetirement ? toNumberOrNull(planForm.minContributionPercent) : null,
+      maxContributionPercent: isRetirement ? toNumberOrNull(planForm.maxContributionPercent) : null,
+      employerMatchPercent: isRetirement ? toNumberOrNull(planForm.employerMatchPercent) : null,
+      employerMatchLimitPercent: isRetirement ? toNumberOrNull(planForm.employerMatchLimitPercent) : null,
+      allowsDependents: !isRetirement && planForm.allowsDependents,
+      requiresBeneficiary: planForm.requiresBeneficiary,
+      deductionCode: planForm.deductionCode.trim(),
+      deductionCategory: planForm.deductionCategory,
+      isActive: true
+    };
+
+    await runAction('plan', async () => {
+      await saveBenefitPlan(businessId, payload, editingPlanId ?? undefined);
+      setPlanFormOpen(false);
+      setEditingPlanId(null);
+      setPlanForm(DEFAULT_PLAN_FORM);
+    }, editingPlanId ? 'Benefit plan updated' : 'Benefit plan created');
+  };
+
+  const handleArchivePlan = (plan: BenefitPlan) => {
+    if (!window.confirm(`Archive "${plan.name}"? Current elections stay in place, but employees can no longer choose it.`)) {
+      return;
+    }
+    return runAction(`archive-${plan.id}`, () => archiveBenefitPlan(businessId, plan.id), 'Benefit plan archived');
+  };
+
+  const handleCreateWindow = async () => {
+    if (!windowForm.name.trim() || !windowForm.startDate || !windowForm.endDate || !windowForm.coverageStartDate) {
+      toast.error('Name, enrollment dates and coverage start are required');
+      return;
+    }
+    await runAction('window', async () => {
+      await saveEnrollmentWindow(businessId, {
+        name: windowForm.name.trim(),
+        startDate: windowForm.startDate,
+        endDate: windowForm.endDate,
+        coverageStartDate: windowForm.coverageStartDate,
+        notes: windowForm.notes.trim() || null
+      });
+      setWindowForm(DEFAULT_WINDOW_FORM);
+      setWindowFormOpen(false);
+    }, 'Open enrollment scheduled; employees have been notified');
+  };
+
+  const handleReviewLifeEvent = (event: LifeEvent, decision: 'APPROVED' | 'DENIED') => {
+    const note = decision === 'DENIED' ? window.prompt('Reason (shared with the employee)', '') : null;
+    if (decision === 'DENIED' && note === null) {
+      return;
+    }
+    return runAction(
+      `life-event-${event.id}`,
+      async () => {
+        await reviewLifeEvent(businessId, event.id, decision, note?.trim() || null);
+      },
+      decision === 'APPROVED' ? 'Life event approved' : 'Life event denied'
+    );
+  };
+
+  const handleEndEnrollment = (enrollment: BenefitEnrollment) => {
+    const endDate = window.prompt(`Last day of coverage for ${employeeName(enrollment)} (YYYY-MM-DD)`, today());
+    if (!endDate) {
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+      toast.error('Enter the date as YYYY-MM-DD');
+      return;
+    }
+    return runAction(`end-${enrollment.id}`, async () => {
+      await endBenefitEnrollment(businessId, enrollment.id, endDate);
+    }, 'Enrollment ended');
+  };
+
+  const handleExportCensus = async () => {
+    try {
+      setBusyAction('census');
+      await downloadBenefitsCensus(businessId, { planId: census.planId || undefined, asOf: census.asOf || undefined });
+      toast.success('Census exported');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Census export failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const toggleEmployeeType = (type: EmployeeType) =>
+    setPlanForm((prev) => ({
+      ...prev,
+      eligibleEmployeeTypes: prev.eligibleEmployeeTypes.includes(type)
+        ? prev.eligibleEmployeeTypes.filter((value) => value !== type)
+        : [...prev.eligibleEmployeeTypes, type]
+    }));
+
+  const setCost = (level: BenefitCoverageLevel, side: 'employee' | 'employer', value: string) =>
+    setPlanForm((prev) => ({ ...prev, costs: { ...prev.costs, [level]: { ...prev.costs[level], [side]: value } } }));
+
+  if (!businessId) {
+    return (
+      <div className="p-6">
+        <Alert type="error" title="Business Not Found">
+          A valid business identifier is required to view benefits administration.
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!hrFeatures.benefits) {
+    return (
+      <HRPageLayout businessId={businessId} currentView="benefits">
+        <div className="p-6">
+          <Alert type="warning" title="Benefits Administration Not Available">
+            {hrFeatures.getFeatureUpgradeMessage('benefits') ?? 'Benefits administration is available on the Enterprise tier.'}
+          </Alert>
+        </div>
+      </HRPageLayout>
+    );
+  }
+
+  const activePlans = plans.filter((plan) => plan.isActive);
+
+  return (
+    <HRPageLayout businessId={businessId} currentView="benefits">
+      <div className="p-6 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold">Benefits</h1>
+          <p className="text-gray-600 mt-2">
+            Define benefit plans and eligibility, run open enrollment, review life events and export carrier census files. Elections
+            become payroll deductions automatically.
+          </p>
+        </div>
+
+        {loadError && (
+          <Alert type="error" title="Unable to load benefits administration">
+            {loadError}
+          </Alert>
+        )}
+
+        {loading && !dashboard ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size={28} />
+          </div>
+        ) : dashboard ? (
+          <>
+            <section className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+              <SummaryCard title="Active Plans" value={String(dashboard.plans.length)} />
+              <SummaryCard title="Active Enrollments" value={String(dashboard.activeEnrollments)} />
+              <SummaryCard title="Employer Cost / Period" value={formatCurrency(dashboard.employerCostPerPeriod)} />
+              <SummaryCard title="Pending Life Events" value={String(dashboard.pendingLifeEvents)} />
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Plans</h2>
+                <button
+                  type="button"
+                  onClick={() => (planFormOpen ? setPlanFormOpen(false) : openPlanForm())}
+                  className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-500"
+                >
+                  {planFormOpen ? 'Cancel' : '+ New Plan'}
+                </button>
+              </div>
+
+              {planFormOpen && (
+                <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-6">
+                  <input
+                    type="text"
+                    placeholder="Plan name, e.g. PPO Medical"
+                    value={planForm.name}
+                    onChange={(event) => setPlanForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-2"
+                  />
+                  <select
+                    value={planForm.type}
+                    onChange={(event) => setPlanForm((prev) => ({ ...prev, type: event.target.value as BenefitPlanType }))}
+                    className="rounded border px-3 py-2"
+                  >
+                    {Object.entries(PLAN_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Carrier"
+                    value={planForm.carrier}
+                    onChange={(event) => setPlanForm((prev) => ({ ...prev, carrier: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Carrier plan / group #"
+                    value={planForm.planCode}
+                    onChange={(event) => setPlanForm((prev) => ({ ...prev, planCode: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Stub code, e.g. MED"
+                    value={planForm.deductionCode}
+                    onChange={(event) => setPlanForm((prev) => ({ ...prev, deductionCode: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <textarea
+                    rows={2}
+                    placeholder="Description shown to employees"
+                    value={planForm.description}
+                    onChange={(event) => setPlanForm((prev) => ({ ...prev, description: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-4"
+                  />
+                  <label className="text-sm text-gray-700">
+                    Deduction
+                    <select
+                      value={planForm.deductionCategory}
+                      onChange={(event) =>
+                        setPlanForm((prev) => ({ ...prev, deductionCategory: event.target.value as PlanForm['deductionCategory'] }))
+                      }
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    >
+                      <option value="PRE_TAX_DEDUCTION">Pre-tax</option>
+                      <option value="POST_TAX_DEDUCTION">Post-tax</option>
+                    </select>
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Waiting period (days)
+                    <input
+                      type="number"
+                      min={0}
+                      value={planForm.waitingPeriodDays}
+                      onChange={(event) => setPlanForm((prev) => ({ ...prev, waitingPeriodDays: event.target.value }))}
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    />
+                  </label>
+
+                  <div className="text-sm text-gray-700 md:col-span-2">
+                    <div className="font-medium">Eligible employee types (none = all)</div>
+                    <div className="mt-1 grid grid-cols-2 gap-1 rounded border p-2">
+                      {(Object.keys(EMPLOYEE_TYPE_LABELS) as EmployeeType[]).map((type) => (
+                        <label key={type} className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={planForm.eligibleEmployeeTypes.includes(type)}
+                            onChange={() => toggleEmployeeType(type)}
+                          />
+                          {EMPLOYEE_TYPE_LABELS[type]}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  {planForm.type === 'RETIREMENT' ? (
+                    <div className="grid grid-cols-2 gap-3 text-sm text-gray-700 md:col-span-4">
+                      <label>
+                        Min contribution %
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={planForm.minContributionPercent}
+                          onChange={(event) => setPlanForm((prev) => ({ ...prev, minContributionPercent: event.target.value }))}
+                          className="mt-1 w-full rounded border px-3 py-2"
+                        />
+                      </label>
+                      <label>
+                        Max contribution %
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={planForm.maxContributionPercent}
+                          onChange={(event) => setPlanForm((prev) => ({ ...prev, maxContributionPercent: event.target.value }))}
+                          className="mt-1 w-full rounded border px-3 py-2"
+                        />
+                      </label>
+                      <label>
+                        Employer match (% of contribution)
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={planForm.employerMatchPercent}
+                          onChange={(event) => setPlanForm((prev) => ({ ...prev, employerMatchPercent: event.target.value }))}
+                          className="mt-1 w-full rounded border px-3 py-2"
+                        />
+                      </label>
+                      <label>
+                        Match limit (% of gross)
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={planForm.employerMatchLimitPercent}
+                          onChange={(event) => setPlanForm((prev) => ({ ...prev, employerMatchLimitPercent: event.target.value }))}
+                          className="mt-1 w-full rounded border px-3 py-2"
+                        />
+                      </label>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-700 md:col-span-4">
+                      <div className="font-medium">Cost per pay period (leave blank if a level is not offered)</div>
+                      <div className="mt-1 space-y-2 rounded border p-2">
+                        {COVERAGE_LEVELS.map((level) => (
+                          <div key={level} className="grid grid-cols-3 items-center gap-2">
+                            <span>{COVERAGE_LEVEL_LABELS[level]}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              placeholder="Employee"
+                              value={planForm.costs[level].employee}
+                              onChange={(event) => setCost(level, 'employee', event.target.value)}
+                              className="rounded border px-2 py-1"
+                            />
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              placeholder="Employer"
+                              value={planForm.costs[level].employer}
+                              onChange={(event) => setCost(level, 'employer', event.target.value)}
+                              className="rounded border px-2 py-1"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2 text-sm text-gray-700 md:col-span-4">
+                    {planForm.type !== 'RETIREMENT' && (
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={planForm.allowsDependents}
+                          onChange={(event) => setPlanForm((prev) => ({ ...prev, allowsDependents: event.target.checked }))}
+                        />
+                        Dependents can be covered
+                      </label>
+                    )}
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={planForm.requiresBeneficiary}
+                        onChange={(event) => setPlanForm((prev) => ({ ...prev, requiresBeneficiary: event.target.checked }))}
+                      />
+                      Employees designate beneficiaries
+                    </label>
+                  </div>
+                  <div className="flex items-end justify-end md:col-span-2">
+                    <button
+                      type="button"
+                      onClick={handleSavePlan}
+                      disabled={busyAction !== null}
+                      className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                    >
+                      {editingPlanId ? 'Save Plan' : 'Create Plan'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {plans.length === 0 ? (
+                <div className="rounded-lg border bg-white p-6">
+                  <EmptyState
+                    icon="🩺"
+                    title="No benefit plans"
+                    description="Add medical, dental, retirement or custom plans, then open enrollment for employees."
+                  />
+                </div>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Plan</Th>
+                        <Th>Eligibility</Th>
+                        <Th>Employee cost</Th>
+                        <Th>Enrolled</Th>
+                        <Th>Status</Th>
+                        <Th className="text-right" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {plans.map((plan) => {
+                        const costs = Object.values(plan.coverageCosts ?? {}).map((cost) => cost.employee);
+                        return (
+                          <tr key={plan.id}>
+                            <Td>
+                              <div className="font-medium text-gray-900">{plan.name}</div>
+                              <div className="text-xs text-gray-500">
+                                {PLAN_TYPE_LABELS[plan.type]}
+                                {plan.carrier ? ` · ${plan.carrier}` : ''} · {plan.deductionCode}
+                              </div>
+                            </Td>
+                            <Td>
+                              {plan.eligibleEmployeeTypes.length === 0
+                                ? 'All employees'
+                                : plan.eligibleEmployeeTypes.map((type) => EMPLOYEE_TYPE_LABELS[type]).join(', ')}
+                              {plan.waitingPeriodDays > 0 && (
+                                <div className="text-xs text-gray-500">{plan.waitingPeriodDays}-day waiting period</div>
+                              )}
+                            </Td>
+                            <Td>
+                              {plan.type === 'RETIREMENT'
+                                ? `${plan.minContributionPercent ?? 0}–${plan.maxContributionPercent ?? 100}% of gross`
+                                : costs.length > 0
+                                  ? `${formatCurrency(Math.min(...costs))} – ${formatCurrency(Math.max(...costs))}`
+                                  : '—'}
+                            </Td>
+                            <Td>{plan._count?.enrollments ?? 0}</Td>
+                            <Td>
+                              <Badge color={plan.isActive ? 'green' : 'gray'}>{plan.isActive ? 'Active' : 'Archived'}</Badge>
+                            </Td>
+                            <Td className="text-right whitespace-nowrap space-x-3">
+                              <button
+                                type="button"
+                                onClick={() => openPlanForm(plan)}
+                                className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                              >
+                                Edit
+                              </button>
+                              {plan.isActive && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleArchivePlan(plan)}
+                                  disabled={busyAction !== null}
+                                  className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                                >
+                                  Archive
+                                </button>
+                              )}
+                            </Td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Open Enrollment</h2>
+                <button
+                  type="button"
+                  onClick={() => setWindowFormOpen((open) => !open)}
+                  className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-500"
+                >
+                  {windowFormOpen ? 'Cancel' : '+ Schedule Enrollment'}
+                </button>
+              </div>
+
+              {windowFormOpen && (
+                <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-6">
+                  <input
+                    type="text"
+                    placeholder="Name, e.g. 2027 Open Enrollment"
+                    value={windowForm.name}
+                    onChange={(event) => setWindowForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-3"
+                  />
+                  <label className="text-sm text-gray-700">
+                    Opens
+                    <input
+                      type="date"
+                      value={windowForm.startDate}
+                      onChange={(event) => setWindowForm((prev) => ({ ...prev, startDate: event.target.value }))}
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Closes
+                    <input
+                      type="date"
+                      value={windowForm.endDate}
+                      onChange={(event) => setWindowForm((prev) => ({ ...prev, endDate: event.target.value }))}
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Coverage starts
+                    <input
+                      type="date"
+                      value={windowForm.coverageStartDate}
+                      onChange={(event) => setWindowForm((prev) => ({ ...prev, coverageStartDate: event.target.value }))}
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    />
+                  </label>
+                  <textarea
+                    rows={2}
+                    placeholder="Notes for employees (optional)"
+                    value={windowForm.notes}
+                    onChange={(event) => setWindowForm((prev) => ({ ...prev, notes: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-5"
+                  />
+                  <div className="flex items-end justify-end">
+                    <button
+                      type="button"
+                      onClick={handleCreateWindow}
+                      disabled={busyAction !== null}
+                      className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                    >
+                      Schedule
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {windows.length === 0 ? (
+                <p className="text-sm text-gray-500">No enrollment windows yet. Employees can only change elections after a life event.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Window</Th>
+                        <Th>Enrollment</Th>
+                        <Th>Coverage starts</Th>
+                        <Th>Elections</Th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {windows.map((item) => (
+                        <tr key={item.id}>
+                          <Td>
+                            <div className="font-medium text-gray-900">{item.name}</div>
+                            {item.notes && <div className="text-xs text-gray-500">{item.notes}</div>}
+                          </Td>
+                          <Td>{formatDate(item.startDate)} – {formatDate(item.endDate)}</Td>
+                          <Td>{formatDate(item.coverageStartDate)}</Td>
+                          <Td>{item._count?.enrollments ?? 0}</Td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-4">
+              <h2 className="text-xl font-semibold">Life Events Awaiting Review</h2>
+              {lifeEvents.length === 0 ? (
+                <p className="text-sm text-gray-500">No life events are waiting for review.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Employee</Th>
+                        <Th>Event</Th>
+                        <Th>Date</Th>
+                        <Th>Change window</Th>
+                        <Th className="text-right" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {lifeEvents.map((event) => (
+                        <tr key={event.id}>
+                          <Td>{employeeName(event)}</Td>
+                          <Td>
+                            <div>{LIFE_EVENT_LABELS[event.type]}</div>
+                            {event.description && <div className="text-xs text-gray-500">{event.description}</div>}
+                          </Td>
+                          <Td>{formatDate(event.eventDate)}</Td>
+                          <Td>
+                            Until {formatDate(event.enrollmentDeadline)}
+                            <div className="text-xs text-gray-500">Coverage from {formatDate(event.coverageStartDate)}</div>
+                          </Td>
+                          <Td className="text-right whitespace-nowrap space-x-3">
+                            <button
+                              type="button"
+                              onClick={() => handleReviewLifeEvent(event, 'APPROVED')}
+                              disabled={busyAction !== null}
+                              className="text-sm font-medium text-green-700 hover:text-green-600 disabled:opacity-50"
+                            >
+                              Approve
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleReviewLifeEvent(event, 'DENIED')}
+                              disabled={busyAction !== null}
+                              className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                            >
+                              Deny
+                            </button>
+                          </Td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-xl font-semibold">Current Enrollments</h2>
+                <select
+                  value={enrollmentPlanId}
+                  onChange={(event) => setEnrollmentPlanId(event.target.value)}
+                  className="rounded border px-3 py-2 text-sm"
+                >
+                  <option value="">All plans</option>
+                  {plans.map((plan) => (
+                    <option key={plan.id} value={plan.id}>
+                      {plan.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {enrollments.length === 0 ? (
+                <p className="text-sm text-gray-500">No current enrollments.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Employee</Th>
+                        <Th>Plan</Th>
+                        <Th>Election</Th>
+                        <Th>Coverage</Th>
+                        <Th>Per period</Th>
+                        <Th className="text-right" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {enrollments.map((enrollment) => (
+                        <tr key={enrollment.id}>
+                          <Td>{employeeName(enrollment)}</Td>
+                          <Td>{enrollment.plan.name}</Td>
+                          <Td>
+                            {enrollment.status === 'WAIVED' ? (
+                              <Badge color="gray">Waived</Badge>
+                            ) : enrollment.coverageLevel ? (
+                              COVERAGE_LEVEL_LABELS[enrollment.coverageLevel]
+                            ) : (
+                              `${enrollment.contributionPercent ?? 0}% contribution`
+                            )}
+                            {enrollment.dependents.length > 0 && (
+                              <div className="text-xs text-gray-500">
+                                {enrollment.dependents.length} dependent{enrollment.dependents.length === 1 ? '' : 's'}
+                              </div>
+                            )}
+                          </Td>
+                          <Td>
+                            {formatDate(enrollment.coverageStart)}
+                            {enrollment.coverageEnd ? ` – ${formatDate(enrollment.coverageEnd)}` : ' onward'}
+                          </Td>
+                          <Td>
+                            {enrollment.status === 'ACTIVE' && enrollment.coverageLevel
+                              ? `${formatCurrency(enrollment.employeeCost)} / ${formatCurrency(enrollment.employerCost)} employer`
+                              : '—'}
+                          </Td>
+                          <Td className="text-right whitespace-nowrap">
+                            {enrollment.status === 'ACTIVE' && !enrollment.coverageEnd && (
+                              <button
+                                type="button"
+                                onClick={() => handleEndEnrollment(enrollment)}
+                                disabled={busyAction !== null}
+                                className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                              >
+                                End coverage
+                              </button>
+                            )}
+                          </Td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-4">
+              <h2 className="text-xl font-semibold">Carrier Census</h2>
+              <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+                <label className="text-sm text-gray-700">
+                  Plan
+                  <select
+                    value={census.planId}
+                    onChange={(event) => setCensus((prev) => ({ ...prev, planId: event.target.value }))}
+                    className="mt-1 block rounded border px-3 py-2"
+                  >
+                    <option value="">All plans</option>
+                    {activePlans.map((plan) => (
+                      <option key={plan.id} value={plan.id}>
+                        {plan.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  Covered as of
+                  <input
+                    type="date"
+                    value={census.asOf}
+                    onChange={(event) => setCensus((prev) => ({ ...prev, asOf: event.target.value }))}
+                    className="mt-1 block rounded border px-3 py-2"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={handleExportCensus}
+                  disabled={busyAction !== null}
+                  className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Export CSV
+                </button>
+                <p className="w-full text-xs text-gray-500">
+                  One row per covered employee and dependent, with plan, coverage level and per-period costs.
+                </p>
+              </div>
+            </section>
+          </>
+        ) : null}
+      </div>
+    </HRPageLayout>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-4 shadow-sm">
+      <div className="text-sm font-medium text-gray-500">{title}</div>
+      <div className="mt-2 text-2xl font-semibold text-gray-900">{value}</div>
+    </div>
+  );
+}
+
+function Th({ children, className }: { children?: ReactNode; className?: string }) {
+  return (
+    <th
+      scope="col"
+      className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500 ${className ?? ''}`.trim()}
+    >
+      {children ?? <span aria-hidden="true"> </span>}
+    </th>
+  );
+}
+
+function Td({ children, className }: { children?: ReactNode; className?: string }) {
+  return (
+    <td className={`px-4 py-3 align-top text-sm text-gray-700 ${className ?? ''}`.trim()}>
+      {children}
+    </td>
+  );
+}
@@ -126,16 +126,39 @@ export default function HREmployeesPage() {
   }, [businessId, statusParam, page, pageSize, q, departmentId, positionId, sortBy, sortOrder]);
 
   const [terminating, setTerminating] = useState<string | null>(null);
+  // Where a terminated employee's business Drive files go: '' keeps them, 'manager', or a shared drive id
+  const [driveHandover, setDriveHandover] = useState<string>('');
+  const [sharedDrives, setSharedDrives] = useState<Array<{ id: string; name: string }>>([]);
+
+  useEffect(() => {
+    async function loadSharedDrives() {
+      try {
+        const res = await fetch(`/api/drive/shared-drives?businessId=${encodeURIComponent(businessId)}`);
+        if (res.ok) {
+          const data = await res.json();
+          setSharedDrives(data.drives || []);
+        }
+      } catch (e) {
+        console.error('[HR/employees] Failed to load shared drives:', e);
+      }
+    }
+    if (businessId) loadSharedDrives();
+  }, [businessId]);
   
   const handleTerminate = async (employeePositionId: string) => {
     if (!confirm('Terminate this employee and vacate the position? This action cannot be undone.')) return;
     
     setTerminating(employeePositionId);
     try {
+      const driveTransfer = driveHandover === ''
+        ? undefined
+        : driveHandover === 'manager'
+          ? { target: 'manager' }
+          : { target: 'shared_drive', sharedDriveId: driveHandover };
       const res = await fetch(`/api/hr/admin/employees/${encodeURIComponent(employeePositionId)}/terminate?businessId=${encodeURIComponent(businessId)}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ date: new Date().toISOString() })
+        body: JSON.stringify({ date: new Date().toISOString(), driveTransfer })
       });
       
       if (!res.ok) {
@@ -149,7 +172,12 @@ export default function HREmployeesPage() {
         setActiveData((prev) => ({ ...prev, items: next, count: Math.max(0, prev.count - 1) }));
       }
       
-      toast.success('Employee terminated successfully. Position is now vacant.');
+      const result = await res.json().catch(() => ({}));
+      if (result.driveTransfer?.error) {
+        toast.error(`Employee terminated, but ${result.driveTransfer.error.toLowerCase()}.`);
+      } else {
+        toast.success('Employee terminated successfully. Position is now vacant.');
+      }
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Termination failed';
       toast.error(errorMsg);
@@ -404,6 +432,20 @@ export default function HREmployeesPage() {
               Clear Filters
             </button>
           )}
+          {active && (
+            <select
+              value={driveHandover}
+              onChange={(e) => setDriveHandover(e.target.value)}
+              className="border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Where business Drive files go when an employee is terminated"
+            >
+              <option value="">On termination: keep Drive files</option>
+              <option value="manager">On termination: give Drive files to manager</option>
+              {sharedDrives.map((drive) => (
+                <option key={drive.id} value={drive.id}>On termination: move Drive files to {drive.name}</option>
+              ))}
+            </select>
+          )}
           <button
             onClick={handleExport}
             className="px-3 py-2 bg-green-600 text-white rounded hover:bg-green-700 text-sm"
@@ -0,0 +1,634 @@
+'use client';
+
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import { Spinner, Alert, EmptyState } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { useBusinessConfiguration } from '@/contexts/BusinessConfigurationContext';
+import { useHRFeatures } from '@/hooks/useHRFeatures';
+import HRPageLayout from '@/components/hr/HRPageLayout';
+import {
+  archivePayrollLine,
+  calculatePayRun,
+  createPayPeriod,
+  createPayRun,
+  createPayrollLine,
+  finalizePayRun,
+  getPayrollDashboard,
+  getPayRun,
+  listPayrollLines,
+  voidPayRun,
+  PayPeriod,
+  PayRun,
+  PayrollDashboard,
+  PayrollLine,
+  PayrollLineCalculation,
+  PayrollLineCategory
+} from '@/api/hrPayroll';
+
+const CATEGORY_LABELS: Record<PayrollLineCategory, string> = {
+  EARNING: 'Earning',
+  PRE_TAX_DEDUCTION: 'Pre-tax deduction',
+  TAX: 'Tax',
+  POST_TAX_DEDUCTION: 'Post-tax deduction'
+};
+
+const CALCULATION_LABELS: Record<PayrollLineCalculation, string> = {
+  FLAT: 'Flat amount',
+  PERCENT_OF_GROSS: '% of gross',
+  PER_HOUR: 'Per hour'
+};
+
+type LineForm = {
+  name: string;
+  code: string;
+  category: PayrollLineCategory;
+  calculation: PayrollLineCalculation;
+  amount: string;
+};
+
+const DEFAULT_LINE_FORM: LineForm = {
+  name: '',
+  code: '',
+  category: 'TAX',
+  calculation: 'PERCENT_OF_GROSS',
+  amount: ''
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const formatMoney = (value: number, currency = 'USD') =>
+  value.toLocaleString(undefined, { style: 'currency', currency });
+
+export default function HRPayrollPage() {
+  const params = useParams();
+  const businessId = (params?.id as string) || '';
+  const { businessTier } = useBusinessConfiguration();
+  const hrFeatures = useHRFeatures(businessTier || undefined);
+
+  const [dashboard, setDashboard] = useState<PayrollDashboard | null>(null);
+  const [lines, setLines] = useState<PayrollLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [selectedRun, setSelectedRun] = useState<PayRun | null>(null);
+  const [runLoading, setRunLoading] = useState(false);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const [lineForm, setLineForm] = useState<LineForm>(DEFAULT_LINE_FORM);
+  const [lineFormOpen, setLineFormOpen] = useState(false);
+
+  const currency = dashboard?.settings.currency ?? 'USD';
+
+  const loadData = useCallback(async () => {
+    if (!businessId) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setLoadError(null);
+      const [dashboardData, lineData] = await Promise.all([
+        getPayrollDashboard(businessId),
+        listPayrollLines(businessId)
+      ]);
+      setDashboard(dashboardData);
+      setLines(lineData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to load payroll';
+      setLoadError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (hrFeatures.payroll) {
+      loadData();
+    }
+  }, [loadData, hrFeatures.payroll]);
+
+  const openRun = async (payRunId: string) => {
+    try {
+      setRunLoading(true);
+      setSelectedRun(await getPayRun(businessId, payRunId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to load pay run');
+    } finally {
+      setRunLoading(false);
+    }
+  };
+
+  const runAction = async (key: string, action: () => Promise<void>, successMessage: string) => {
+    try {
+      setBusyAction(key);
+      await action();
+      toast.success(successMessage);
+      await loadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Payroll action failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleGeneratePeriod = () =>
+    runAction('period', async () => {
+      await createPayPeriod(businessId);
+    }, 'Pay period created');
+
+  const handleStartRun = (period: PayPeriod) =>
+    runAction(`start-${period.id}`, async () => {
+      const result = await createPayRun(businessId, period.id);
+      setSelectedRun(result.payRun);
+      if (result.skippedEmployeeHrProfileIds.length > 0) {
+        toast(`${result.skippedEmployeeHrProfileIds.length} employee(s) skipped: no pay rate configured`);
+      }
+    }, 'Pay run calculated');
+
+  const handleRecalculate = (run: PayRun) =>
+    runAction(`calculate-${run.id}`, async () => {
+      const result = await calculatePayRun(businessId, run.id);
+      setSelectedRun(result.payRun);
+    }, 'Pay run recalculated');
+
+  const handleFinalize = (run: PayRun) => {
+    if (!window.confirm('Finalize this pay run? Pay stubs will be issued and can no longer be changed.')) {
+      return;
+    }
+    return runAction(`finalize-${run.id}`, async () => {
+      setSelectedRun(await finalizePayRun(businessId, run.id));
+    }, 'Pay run finalized and pay stubs issued');
+  };
+
+  const handleVoid = (run: PayRun) =>
+    runAction(`void-${run.id}`, async () => {
+      setSelectedRun(await voidPayRun(businessId, run.id));
+    }, 'Pay run voided');
+
+  const handleCreateLine = async () => {
+    const amount = Number(lineForm.amount);
+    if (!lineForm.name.trim() || !lineForm.code.trim() || Number.isNaN(amount)) {
+      toast.error('Name, code and a numeric amount are required');
+      return;
+    }
+    await runAction('line', async () => {
+      await createPayrollLine(businessId, {
+        name: lineForm.name.trim(),
+        code: lineForm.code.trim(),
+        category: lineForm.category,
+        calculation: lineForm.calculation,
+        amount
+      });
+      setLineForm(DEFAULT_LINE_FORM);
+      setLineFormOpen(false);
+    }, 'Payroll line created');
+  };
+
+  const handleArchiveLine = (line: PayrollLine) =>
+    runAction(`archive-${line.id}`, async () => {
+      await archivePayrollLine(businessId, line.id);
+    }, 'Payroll line archived');
+
+  if (!businessId) {
+    return (
+      <div className="p-6">
+        <Alert type="error" title="Business Not Found">
+          A valid business identifier is required to view payroll.
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!hrFeatures.payroll) {
+    return (
+      <HRPageLayout businessId={businessId} currentView="payroll">
+        <div className="p-6">
+          <Alert type="warning" title="Payroll Not Available">
+            {hrFeatures.getFeatureUpgradeMessage('payroll') ?? 'Payroll is available on the Enterprise tier.'}
+          </Alert>
+        </div>
+      </HRPageLayout>
+    );
+  }
+
+  return (
+    <HRPageLayout businessId={businessId} currentView="payroll">
+      <div className="p-6 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold">Payroll</h1>
+          <p className="text-gray-600 mt-2">
+            Run payroll from attendance, schedules and approved time off, then issue pay stubs.
+          </p>
+        </div>
+
+        {loadError && (
+          <Alert type="error" title="Unable to load payroll">
+            {loadError}
+          </Alert>
+        )}
+
+        {loading && !dashboard ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size={28} />
+          </div>
+        ) : dashboard ? (
+          <>
+            <section className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+              <SummaryCard title="Pay Frequency" value={dashboard.settings.payPeriod} />
+              <SummaryCard
+                title="Overtime"
+                value={`${dashboard.settings.overtimeMultiplier}x after ${dashboard.settings.overtimeThresholdHours}h/week`}
+              />
+              <SummaryCard title="Active Lines" value={String(dashboard.activeLines)} />
+              <SummaryCard
+                title="Missing Pay Rates"
+                value={String(dashboard.employeesWithoutCompensation)}
+                warning={dashboard.employeesWithoutCompensation > 0}
+              />
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Pay Periods</h2>
+                <button
+                  type="button"
+                  onClick={handleGeneratePeriod}
+                  disabled={busyAction !== null}
+                  className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-500 disabled:opacity-50"
+                >
+                  + Next Pay Period
+                </button>
+              </div>
+              {dashboard.periods.length === 0 ? (
+                <div className="border rounded-lg bg-white">
+                  <EmptyState
+                    icon="📅"
+                    title="No Pay Periods"
+                    description="Generate the first pay period to start running payroll."
+                  />
+                </div>
+              ) : (
+                <div className="overflow-hidden rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Period</Th>
+                        <Th>Pay Date</Th>
+                        <Th>Status</Th>
+                        <Th>Latest Run</Th>
+                        <Th className="text-right">
+                          <span className="sr-only">Actions</span>
+                        </Th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {dashboard.periods.map((period) => {
+                        const latestRun = period.payRuns?.[0];
+                        const hasActiveRun = period.payRuns?.some((run) => run.status !== 'VOID');
+                        return (
+                          <tr key={period.id} className="hover:bg-gray-50">
+                            <Td>
+                              {formatDate(period.startDate)} – {formatDate(period.endDate)}
+                            </Td>
+                            <Td>{formatDate(period.payDate)}</Td>
+                            <Td>{period.status}</Td>
+                            <Td>
+                              {latestRun ? (
+                                <button
+                                  type="button"
+                                  onClick={() => openRun(latestRun.id)}
+                                  className="text-blue-600 hover:text-blue-500"
+                                >
+                                  {latestRun.status} · {formatMoney(latestRun.totalNet, currency)} net
+                                </button>
+                              ) : (
+                                '—'
+                              )}
+                            </Td>
+                            <Td className="text-right">
+                              {period.status !== 'CLOSED' && !hasActiveRun && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleStartRun(period)}
+                                  disabled={busyAction !== null}
+                                  className="text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                                >
+                                  Run Payroll
+                                </button>
+                              )}
+                            </Td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            {(runLoading || selectedRun) && (
+              <section className="space-y-4">
+                {runLoading || !selectedRun ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Spinner size={24} />
+                  </div>
+                ) : (
+                  <PayRunDetail
+                    run={selectedRun}
+                    busy={busyAction !== null}
+                    onRecalculate={() => handleRecalculate(selectedRun)}
+                    onFinalize={() => handleFinalize(selectedRun)}
+                    onVoid={() => handleVoid(selectedRun)}
+                    onClose={() => setSelectedRun(null)}
+                  />
+                )}
+              </section>
+            )}
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-xl font-semibold">Earnings &amp; Deductions</h2>
+                  <p className="text-gray-600 text-sm">
+                    Lines apply to every employee unless restricted by employee type.
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setLineFormOpen((open) => !open)}
+                  className="inline-flex items-center gap-2 rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  {lineFormOpen ? 'Cancel' : '+ New Line'}
+                </button>
+              </div>
+
+              {lineFormOpen && (
+                <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-6">
+                  <input
+                    type="text"
+                    placeholder="Name"
+                    value={lineForm.name}
+                    onChange={(event) => setLineForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-2"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Code"
+                    value={lineForm.code}
+                    onChange={(event) => setLineForm((prev) => ({ ...prev, code: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <select
+                    value={lineForm.category}
+                    onChange={(event) =>
+                      setLineForm((prev) => ({ ...prev, category: event.target.value as PayrollLineCategory }))
+                    }
+                    className="rounded border px-3 py-2"
+                  >
+                    {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={lineForm.calculation}
+                    onChange={(event) =>
+                      setLineForm((prev) => ({ ...prev, calculation: event.target.value as PayrollLineCalculation }))
+                    }
+                    className="rounded border px-3 py-2"
+                  >
+                    {Object.entries(CALCULATION_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      placeholder="Amount"
+                      value={lineForm.amount}
+                      onChange={(event) => setLineForm((prev) => ({ ...prev, amount: event.target.value }))}
+                      className="w-full rounded border px-3 py-2"
+                      min={0}
+                      step="0.01"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleCreateLine}
+                      disabled={busyAction !== null}
+                      className="rounded-md bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {lines.length === 0 ? (
+                <div className="border rounded-lg bg-white">
+                  <EmptyState
+                    icon="🧾"
+                    title="No Payroll Lines"
+                    description="Add taxes, benefits deductions or allowances to apply during pay runs."
+                  />
+                </div>
+              ) : (
+                <div className="overflow-hidden rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Name</Th>
+                        <Th>Category</Th>
+                        <Th>Calculation</Th>
+                        <Th>Amount</Th>
+                        <Th className="text-right">
+                          <span className="sr-only">Actions</span>
+                        </Th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {lines.map((line) => (
+                        <tr key={line.id} className="hover:bg-gray-50">
+                          <Td>
+                            <div className="font-medium text-gray-900">{line.name}</div>
+                            <div className="text-xs text-gray-500">{line.code}</div>
+                          </Td>
+                          <Td>{CATEGORY_LABELS[line.category]}</Td>
+                          <Td>{CALCULATION_LABELS[line.calculation]}</Td>
+                          <Td>
+                            {line.calculation === 'PERCENT_OF_GROSS'
+                              ? `${line.amount}%`
+                              : formatMoney(line.amount, currency)}
+                          </Td>
+                          <Td className="text-right">
+                            <button
+                              type="button"
+                              onClick={() => handleArchiveLine(line)}
+                              disabled={busyAction !== null}
+                              className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                            >
+                              Archive
+                            </button>
+                          </Td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          </>
+        ) : null}
+      </div>
+    </HRPageLayout>
+  );
+}
+
+function PayRunDetail({
+  run,
+  busy,
+  onRecalculate,
+  onFinalize,
+  onVoid,
+  onClose
+}: {
+  run: PayRun;
+  busy: boolean;
+  onRecalculate: () => void;
+  onFinalize: () => void;
+  onVoid: () => void;
+  onClose: () => void;
+}) {
+  const editable = run.status === 'DRAFT' || run.status === 'CALCULATED';
+
+  return (
+    <div className="rounded-lg border bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-4 border-b px-4 py-3">
+        <div>
+          <h2 className="text-lg font-semibold">
+            Pay Run · {formatDate(run.payPeriod.startDate)} – {formatDate(run.payPeriod.endDate)}
+          </h2>
+          <p className="text-sm text-gray-500">
+            {run.status} · {run.employeeCount} employees · Gross {formatMoney(run.totalGross, run.currency)} · Net{' '}
+            {formatMoney(run.totalNet, run.currency)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {editable && (
+            <>
+              <button
+                type="button"
+                onClick={onRecalculate}
+                disabled={busy}
+                className="rounded-md border px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Recalculate
+              </button>
+              <button
+                type="button"
+                onClick={onVoid}
+                disabled={busy}
+                className="rounded-md border px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                Void
+              </button>
+              <button
+                type="button"
+                onClick={onFinalize}
+                disabled={busy || run.status !== 'CALCULATED'}
+                className="rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-500 disabled:opacity-50"
+              >
+                Finalize &amp; Issue Stubs
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full p-2 text-gray-500 hover:bg-gray-100"
+            aria-label="Close"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+      {!run.entries || run.entries.length === 0 ? (
+        <div className="p-6 text-sm text-gray-500">No employees with pay rates were found for this period.</div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <Th>Employee</Th>
+              <Th>Regular</Th>
+              <Th>Overtime</Th>
+              <Th>Time Off</Th>
+              <Th>Gross</Th>
+              <Th>Deductions</Th>
+              <Th>Net</Th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {run.entries.map((entry) => (
+              <tr key={entry.id}>
+                <Td>
+                  <div className="font-medium text-gray-900">
+                    {entry.employeeHrProfile.employeePosition.user.name ??
+                      entry.employeeHrProfile.employeePosition.user.email}
+                  </div>
+                  <div className="text-xs text-gray-500">{entry.employeeHrProfile.employeePosition.position.title}</div>
+                  {entry.warnings?.map((warning) => (
+                    <div key={warning} className="text-xs text-amber-600">
+                      {warning}
+                    </div>
+                  ))}
+                </Td>
+                <Td>{entry.regularHours.toFixed(2)}h</Td>
+                <Td>{entry.overtimeHours.toFixed(2)}h</Td>
+                <Td>
+                  {(entry.paidTimeOffHours + entry.unpaidTimeOffHours).toFixed(2)}h
+                  {entry.unpaidTimeOffHours > 0 && (
+                    <span className="text-xs text-gray-500"> ({entry.unpaidTimeOffHours}h unpaid)</span>
+                  )}
+                </Td>
+                <Td>{formatMoney(entry.grossPay, run.currency)}</Td>
+                <Td>{formatMoney(entry.totalDeductions, run.currency)}</Td>
+                <Td className="font-medium">{formatMoney(entry.netPay, run.currency)}</Td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value, warning }: { title: string; value: string; warning?: boolean }) {
+  return (
+    <div className="rounded-lg border bg-white p-4 shadow-sm">
+      <div className="text-sm font-medium text-gray-500">{title}</div>
+      <div className={`mt-2 text-2xl font-semibold ${warning ? 'text-amber-600' : 'text-gray-900'}`}>{value}</div>
+    </div>
+  );
+}
+
+function Th({ children, className }: { children?: ReactNode; className?: string }) {
+  return (
+    <th
+      scope="col"
+      className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500 ${className ?? ''}`.trim()}
+    >
+      {children ?? <span aria-hidden="true"> </span>}
+    </th>
+  );
+}
+
+function Td({ children, className }: { children: ReactNode; className?: string }) {
+  return (
+    <td className={`px-4 py-3 align-top text-sm text-gray-700 ${className ?? ''}`.trim()}>
+      {children}
+    </td>
+  );
+}
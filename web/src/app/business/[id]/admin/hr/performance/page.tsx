@@ -0,0 +1,944 @@
+'use client';
+
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Spinner, Alert, EmptyState } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { useBusinessConfiguration } from '@/contexts/BusinessConfigurationContext';
+import { useHRFeatures } from '@/hooks/useHRFeatures';
+import HRPageLayout from '@/components/hr/HRPageLayout';
+import { getDepartments, getOrganizationalTiers, Department, OrganizationalTier } from '@/api/orgChart';
+import {
+  calibrateReview,
+  closeReviewCycle,
+  finalizeReview,
+  getCalibrationReport,
+  getPerformanceDashboard,
+  getReviewCycle,
+  launchReviewCycle,
+  listQuestionnaires,
+  listRatingScales,
+  listReviewCycles,
+  saveQuestionnaire,
+  saveRatingScale,
+  saveReviewCycle,
+  CalibrationGroupBy,
+  CalibrationReport,
+  PerformanceCycleStatus,
+  PerformanceDashboard,
+  PerformanceQuestion,
+  PerformanceReview,
+  PerformanceReviewStatus,
+  PerformanceReviewerType,
+  Questionnaire,
+  RatingScale,
+  RatingScaleLevel,
+  ReviewCycle
+} from '@/api/hrPerformance';
+
+const CYCLE_STATUS_LABELS: Record<PerformanceCycleStatus, string> = {
+  DRAFT: 'Draft',
+  ACTIVE: 'Active',
+  CLOSED: 'Closed'
+};
+
+const REVIEW_STATUS_LABELS: Record<PerformanceReviewStatus, string> = {
+  IN_PROGRESS: 'In progress',
+  AWAITING_CALIBRATION: 'Awaiting calibration',
+  COMPLETED: 'Completed',
+  INCOMPLETE: 'Incomplete'
+};
+
+const REVIEWER_TYPE_LABELS: Record<PerformanceReviewerType, string> = {
+  SELF: 'Self',
+  MANAGER: 'Manager',
+  PEER: 'Peer'
+};
+
+type CycleForm = {
+  name: string;
+  questionnaireId: string;
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  includeSelfReview: boolean;
+  includeManagerReview: boolean;
+  includePeerReview: boolean;
+  peerReviewerCount: string;
+  departmentIds: string[];
+  tierIds: string[];
+};
+
+const DEFAULT_CYCLE_FORM: CycleForm = {
+  name: '',
+  questionnaireId: '',
+  periodStart: '',
+  periodEnd: '',
+  dueDate: '',
+  includeSelfReview: true,
+  includeManagerReview: true,
+  includePeerReview: false,
+  peerReviewerCount: '2',
+  departmentIds: [],
+  tierIds: []
+};
+
+type QuestionDraft = { prompt: string; type: 'RATING' | 'TEXT'; required: boolean; managerOnly: boolean };
+
+const EMPTY_QUESTION: QuestionDraft = { prompt: '', type: 'RATING', required: true, managerOnly: false };
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' }) : '—';
+
+const formatRating = (value: number | null | undefined) => (value == null ? '—' : value.toFixed(1));
+
+const employeeName = (review: PerformanceReview) => {
+  const { user } = review.employeeHrProfile.employeePosition;
+  return user.name || user.email;
+};
+
+// "3 | Meets expectations" per line
+const parseLevelsInput = (value: string): RatingScaleLevel[] =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [rawValue, ...rest] = line.split('|');
+      return { value: Number(rawValue.trim()), label: rest.join('|').trim() };
+    });
+
+const slugify = (value: string, index: number) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 40) || `question_${index + 1}`;
+
+export default function HRPerformancePage() {
+  const params = useParams();
+  const businessId = (params?.id as string) || '';
+  const { data: session } = useSession();
+  const { businessTier } = useBusinessConfiguration();
+  const hrFeatures = useHRFeatures(businessTier || undefined);
+
+  const [dashboard, setDashboard] = useState<PerformanceDashboard | null>(null);
+  const [cycles, setCycles] = useState<ReviewCycle[]>([]);
+  const [ratingScales, setRatingScales] = useState<RatingScale[]>([]);
+  const [questionnaires, setQuestionnaires] = useState<Questionnaire[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [tiers, setTiers] = useState<OrganizationalTier[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const [cycleForm, setCycleForm] = useState<CycleForm>(DEFAULT_CYCLE_FORM);
+  const [cycleFormOpen, setCycleFormOpen] = useState(false);
+  const [selectedCycleId, setSelectedCycleId] = useState<string | null>(null);
+  const [cycleReviews, setCycleReviews] = useState<PerformanceReview[]>([]);
+  const [reviewsLoading, setReviewsLoading] = useState(false);
+  const [groupBy, setGroupBy] = useState<CalibrationGroupBy>('department');
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+
+  const [scaleForm, setScaleForm] = useState({ name: '', levels: '' });
+  const [questionnaireForm, setQuestionnaireForm] = useState<{ name: string; ratingScaleId: string; questions: QuestionDraft[] }>({
+    name: '',
+    ratingScaleId: '',
+    questions: [EMPTY_QUESTION]
+  });
+
+  const loadData = useCallback(async () => {
+    if (!businessId) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setLoadError(null);
+      // Rating scales first: listing them seeds the default scale and questionnaire
+      const scaleData = await listRatingScales(businessId);
+      const [dashboardData, cycleData, questionnaireData] = await Promise.all([
+        getPerformanceDashboard(businessId),
+        listReviewCycles(businessId),
+        listQuestionnaires(businessId)
+      ]);
+      setRatingScales(scaleData);
+      setDashboard(dashboardData);
+      setCycles(cycleData);
+      setQuestionnaires(questionnaireData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to load performance management';
+      setLoadError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  const loadCycleDetail = useCallback(async () => {
+    if (!businessId || !selectedCycleId) {
+      setCycleReviews([]);
+      setReport(null);
+      return;
+    }
+    try {
+      setReviewsLoading(true);
+      const [detail, reportData] = await Promise.all([
+        getReviewCycle(businessId, selectedCycleId),
+        getCalibrationReport(businessId, selectedCycleId, groupBy)
+      ]);
+      setCycleReviews(detail.reviews);
+      setReport(reportData);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to load cycle reviews');
+    } finally {
+      setReviewsLoading(false);
+    }
+  }, [businessId, selectedCycleId, groupBy]);
+
+  useEffect(() => {
+    if (hrFeatures.performance) {
+      loadData();
+    }
+  }, [loadData, hrFeatures.performance]);
+
+  useEffect(() => {
+    if (hrFeatures.performance) {
+      loadCycleDetail();
+    }
+  }, [loadCycleDetail, hrFeatures.performance]);
+
+  // Departments and tiers only scope new cycles; failures here are not fatal
+  useEffect(() => {
+    if (!hrFeatures.performance || !businessId || !session?.accessToken) {
+      return;
+    }
+    getDepartments(businessId, session.accessToken)
+      .then((response) => setDepartments(response.data ?? []))
+      .catch(() => setDepartments([]));
+    getOrganizationalTiers(businessId, session.accessToken)
+      .then((response) => setTiers(response.data ?? []))
+      .catch(() => setTiers([]));
+  }, [businessId, session?.accessToken, hrFeatures.performance]);
+
+  const runAction = async (key: string, action: () => Promise<void>, successMessage: string) => {
+    try {
+      setBusyAction(key);
+      await action();
+      toast.success(successMessage);
+      await loadData();
+      await loadCycleDetail();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Performance action failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleCreateCycle = async () => {
+    const peerReviewerCount = Number(cycleForm.peerReviewerCount);
+    if (!cycleForm.name.trim() || !cycleForm.questionnaireId || !cycleForm.periodStart || !cycleForm.periodEnd || !cycleForm.dueDate) {
+      toast.error('Name, questionnaire, review period and due date are required');
+      return;
+    }
+    if (!Number.isInteger(peerReviewerCount) || peerReviewerCount < 0) {
+      toast.error('Enter a valid number of peer reviewers');
+      return;
+    }
+    await runAction('cycle', async () => {
+      const cycle = await saveReviewCycle(businessId, {
+        name: cycleForm.name.trim(),
+        questionnaireId: cycleForm.questionnaireId,
+        periodStart: cycleForm.periodStart,
+        periodEnd: cycleForm.periodEnd,
+        dueDate: cycleForm.dueDate,
+        includeSelfReview: cycleForm.includeSelfReview,
+        includeManagerReview: cycleForm.includeManagerReview,
+        includePeerReview: cycleForm.includePeerReview,
+        peerReviewerCount,
+        departmentIds: cycleForm.departmentIds,
+        tierIds: cycleForm.tierIds
+      });
+      setCycleForm(DEFAULT_CYCLE_FORM);
+      setCycleFormOpen(false);
+      setSelectedCycleId(cycle.id);
+    }, 'Review cycle created');
+  };
+
+  const handleLaunch = (cycle: ReviewCycle) => {
+    if (!window.confirm(`Launch "${cycle.name}"? Reviews are created for every employee in scope and reviewers are notified.`)) {
+      return;
+    }
+    return runAction(`launch-${cycle.id}`, async () => {
+      await launchReviewCycle(businessId, cycle.id);
+      setSelectedCycleId(cycle.id);
+    }, 'Review cycle launched');
+  };
+
+  const handleClose = (cycle: ReviewCycle) => {
+    if (!window.confirm(`Close "${cycle.name}"? Reviews with a submitted manager review are finalized; the rest are marked incomplete.`)) {
+      return;
+    }
+    return runAction(`close-${cycle.id}`, async () => {
+      await closeReviewCycle(businessId, cycle.id);
+    }, 'Review cycle closed');
+  };
+
+  const handleCalibrate = (review: PerformanceReview, levels: RatingScaleLevel[]) => {
+    const options = levels.map((level) => `${level.value} = ${level.label}`).join(', ');
+    const input = window.prompt(
+      `Calibrated rating for ${employeeName(review)} (${options})`,
+      String(review.calibratedRating ?? review.proposedRating ?? '')
+    );
+    if (input === null) {
+      return;
+    }
+    const calibratedRating = Number(input);
+    if (!levels.some((level) => level.value === calibratedRating)) {
+      toast.error('Choose one of the rating scale values');
+      return;
+    }
+    const note = window.prompt('Calibration note (optional)', review.calibrationNote ?? '');
+    return runAction(`calibrate-${review.id}`, async () => {
+      await calibrateReview(businessId, review.id, { calibratedRating, calibrationNote: note?.trim() || null });
+    }, 'Rating calibrated');
+  };
+
+  const handleFinalize = (review: PerformanceReview) => {
+    const summary = window.prompt(`Finalize the review for ${employeeName(review)}? Optional summary for their HR record:`, review.summary ?? '');
+    if (summary === null) {
+      return;
+    }
+    return runAction(`finalize-${review.id}`, async () => {
+      await finalizeReview(businessId, review.id, summary.trim() || null);
+    }, 'Review finalized');
+  };
+
+  const handleCreateScale = async () => {
+    const levels = parseLevelsInput(scaleForm.levels);
+    if (!scaleForm.name.trim() || levels.length < 2 || levels.some((level) => Number.isNaN(level.value) || !level.label)) {
+      toast.error('Enter a name and at least two "value | label" lines');
+      return;
+    }
+    await runAction('scale', async () => {
+      await saveRatingScale(businessId, { name: scaleForm.name.trim(), levels });
+      setScaleForm({ name: '', levels: '' });
+    }, 'Rating scale saved');
+  };
+
+  const handleCreateQuestionnaire = async () => {
+    const questions: PerformanceQuestion[] = questionnaireForm.questions
+      .filter((question) => question.prompt.trim())
+      .map((question, index) => ({
+        id: slugify(question.prompt, index),
+        prompt: question.prompt.trim(),
+        type: question.type,
+        required: question.required,
+        ...(question.managerOnly ? { reviewerTypes: ['MANAGER' as PerformanceReviewerType] } : {})
+      }));
+    if (!questionnaireForm.name.trim() || !questionnaireForm.ratingScaleId || questions.length === 0) {
+      toast.error('Enter a name, rating scale and at least one question');
+      return;
+    }
+    await runAction('questionnaire', async () => {
+      await saveQuestionnaire(businessId, {
+        name: questionnaireForm.name.trim(),
+        ratingScaleId: questionnaireForm.ratingScaleId,
+        questions
+      });
+      setQuestionnaireForm({ name: '', ratingScaleId: '', questions: [EMPTY_QUESTION] });
+    }, 'Questionnaire saved');
+  };
+
+  const updateQuestion = (index: number, patch: Partial<QuestionDraft>) =>
+    setQuestionnaireForm((prev) => ({
+      ...prev,
+      questions: prev.questions.map((question, i) => (i === index ? { ...question, ...patch } : question))
+    }));
+
+  const toggleScope = (key: 'departmentIds' | 'tierIds', id: string) =>
+    setCycleForm((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter((value) => value !== id) : [...prev[key], id]
+    }));
+
+  if (!businessId) {
+    return (
+      <div className="p-6">
+        <Alert type="error" title="Business Not Found">
+          A valid business identifier is required to view performance management.
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!hrFeatures.performance) {
+    return (
+      <HRPageLayout businessId={businessId} currentView="performance">
+        <div className="p-6">
+          <Alert type="warning" title="Performance Management Not Available">
+            {hrFeatures.getFeatureUpgradeMessage('performance') ?? 'Performance management is available on the Enterprise tier.'}
+          </Alert>
+        </div>
+      </HRPageLayout>
+    );
+  }
+
+  const selectedCycle = cycles.find((cycle) => cycle.id === selectedCycleId) ?? null;
+  const onTrackGoals = dashboard?.goalsByStatus.ON_TRACK ?? 0;
+  const atRiskGoals = (dashboard?.goalsByStatus.AT_RISK ?? 0) + (dashboard?.goalsByStatus.OFF_TRACK ?? 0);
+
+  return (
+    <HRPageLayout businessId={businessId} currentView="performance">
+      <div className="p-6 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold">Performance</h1>
+          <p className="text-gray-600 mt-2">
+            Run review cycles with self, manager and peer reviews, calibrate ratings across departments and tiers, and follow goals and OKRs.
+          </p>
+        </div>
+
+        {loadError && (
+          <Alert type="error" title="Unable to load performance management">
+            {loadError}
+          </Alert>
+        )}
+
+        {loading && !dashboard ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size={28} />
+          </div>
+        ) : dashboard ? (
+          <>
+            <section className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+              <SummaryCard title="Active Cycles" value={String(dashboard.activeCycles.length)} />
+              <SummaryCard title="Pending Reviews" value={String(dashboard.pendingSubmissions)} />
+              <SummaryCard title="Goals On Track" value={String(onTrackGoals)} />
+              <SummaryCard title="Goals At Risk" value={String(atRiskGoals)} />
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Review Cycles</h2>
+                <button
+                  type="button"
+                  onClick={() => setCycleFormOpen((open) => !open)}
+                  className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-500"
+                >
+                  {cycleFormOpen ? 'Cancel' : '+ New Cycle'}
+                </button>
+              </div>
+
+              {cycleFormOpen && (
+                <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-6">
+                  <input
+                    type="text"
+                    placeholder="Cycle name, e.g. 2026 Mid-year review"
+                    value={cycleForm.name}
+                    onChange={(event) => setCycleForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-3"
+                  />
+                  <select
+                    value={cycleForm.questionnaireId}
+                    onChange={(event) => setCycleForm((prev) => ({ ...prev, questionnaireId: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-3"
+                  >
+                    <option value="">Select questionnaire…</option>
+                    {questionnaires.filter((questionnaire) => questionnaire.isActive).map((questionnaire) => (
+                      <option key={questionnaire.id} value={questionnaire.id}>
+                        {questionnaire.name} ({questionnaire.ratingScale.name})
+                      </option>
+                    ))}
+                  </select>
+                  <label className="text-sm text-gray-700 md:col-span-2">
+                    Period start
+                    <input
+                      type="date"
+                      value={cycleForm.periodStart}
+                      onChange={(event) => setCycleForm((prev) => ({ ...prev, periodStart: event.target.value }))}
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700 md:col-span-2">
+                    Period end
+                    <input
+                      type="date"
+                      value={cycleForm.periodEnd}
+                      onChange={(event) => setCycleForm((prev) => ({ ...prev, periodEnd: event.target.value }))}
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700 md:col-span-2">
+                    Reviews due
+                    <input
+                      type="date"
+                      value={cycleForm.dueDate}
+                      onChange={(event) => setCycleForm((prev) => ({ ...prev, dueDate: event.target.value }))}
+                      className="mt-1 w-full rounded border px-3 py-2"
+                    />
+                  </label>
+                  <div className="space-y-2 text-sm text-gray-700 md:col-span-2">
+                    <div className="font-medium">Reviewers</div>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={cycleForm.includeSelfReview}
+                        onChange={(event) => setCycleForm((prev) => ({ ...prev, includeSelfReview: event.target.checked }))}
+                      />
+                      Self review
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={cycleForm.includeManagerReview}
+                        onChange={(event) => setCycleForm((prev) => ({ ...prev, includeManagerReview: event.target.checked }))}
+                      />
+                      Manager review (approval hierarchy)
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={cycleForm.includePeerReview}
+                        onChange={(event) => setCycleForm((prev) => ({ ...prev, includePeerReview: event.target.checked }))}
+                      />
+                      Peer reviews
+                      <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        disabled={!cycleForm.includePeerReview}
+                        value={cycleForm.peerReviewerCount}
+                        onChange={(event) => setCycleForm((prev) => ({ ...prev, peerReviewerCount: event.target.value }))}
+                        className="w-16 rounded border px-2 py-1 disabled:opacity-50"
+                      />
+                    </label>
+                  </div>
+                  <ScopePicker
+                    title="Departments (none = all)"
+                    options={departments.map((department) => ({ id: department.id, label: department.name }))}
+                    selected={cycleForm.departmentIds}
+                    onToggle={(id) => toggleScope('departmentIds', id)}
+                  />
+                  <ScopePicker
+                    title="Tiers (none = all)"
+                    options={tiers.map((tier) => ({ id: tier.id, label: tier.name }))}
+                    selected={cycleForm.tierIds}
+                    onToggle={(id) => toggleScope('tierIds', id)}
+                  />
+                  <div className="md:col-span-6 flex justify-end">
+                    <button
+                      type="button"
+                      onClick={handleCreateCycle}
+                      disabled={busyAction !== null}
+                      className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                    >
+                      Save Draft
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {cycles.length === 0 ? (
+                <div className="rounded-lg border bg-white">
+                  <EmptyState
+                    icon="📈"
+                    title="No review cycles"
+                    description="Create a cycle, choose who reviews whom, then launch it to notify reviewers."
+                  />
+                </div>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Cycle</Th>
+                        <Th>Period</Th>
+                        <Th>Due</Th>
+                        <Th>Status</Th>
+                        <Th>Reviews</Th>
+                        <Th className="text-right" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {cycles.map((cycle) => {
+                        const counts = cycle.reviewCounts;
+                        const total = counts ? Object.values(counts).reduce((sum, value) => sum + value, 0) : 0;
+                        return (
+                          <tr key={cycle.id} className={cycle.id === selectedCycleId ? 'bg-blue-50' : undefined}>
+                            <Td>
+                              <div className="font-medium text-gray-900">{cycle.name}</div>
+                              <div className="text-xs text-gray-500">{cycle.questionnaire?.name}</div>
+                            </Td>
+                            <Td>{formatDate(cycle.periodStart)} – {formatDate(cycle.periodEnd)}</Td>
+                            <Td>{formatDate(cycle.dueDate)}</Td>
+                            <Td>{CYCLE_STATUS_LABELS[cycle.status]}</Td>
+                            <Td>{total > 0 ? `${counts?.COMPLETED ?? 0} / ${total} completed` : '—'}</Td>
+                            <Td className="text-right whitespace-nowrap space-x-3">
+                              {cycle.status === 'DRAFT' && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleLaunch(cycle)}
+                                  disabled={busyAction !== null}
+                                  className="text-sm font-medium text-green-700 hover:text-green-600 disabled:opacity-50"
+                                >
+                                  Launch
+                                </button>
+                              )}
+                              {cycle.status === 'ACTIVE' && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleClose(cycle)}
+                                  disabled={busyAction !== null}
+                                  className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                                >
+                                  Close
+                                </button>
+                              )}
+                              {cycle.status !== 'DRAFT' && (
+                                <button
+                                  type="button"
+                                  onClick={() => setSelectedCycleId(cycle.id === selectedCycleId ? null : cycle.id)}
+                                  className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                                >
+                                  {cycle.id === selectedCycleId ? 'Hide reviews' : 'Reviews'}
+                                </button>
+                              )}
+                            </Td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            {selectedCycle && (
+              <section className="space-y-4">
+                <h2 className="text-xl font-semibold">{selectedCycle.name}: Reviews</h2>
+                {reviewsLoading && cycleReviews.length === 0 ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Spinner size={24} />
+                  </div>
+                ) : cycleReviews.length === 0 ? (
+                  <p className="text-sm text-gray-500">No employees matched this cycle&apos;s scope.</p>
+                ) : (
+                  <div className="overflow-x-auto rounded-lg border bg-white">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <Th>Employee</Th>
+                          <Th>Status</Th>
+                          <Th>Submissions</Th>
+                          <Th>Proposed</Th>
+                          <Th>Calibrated</Th>
+                          <Th>Final</Th>
+                          <Th className="text-right" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {cycleReviews.map((review) => {
+                          const { position } = review.employeeHrProfile.employeePosition;
+                          const canCalibrate = selectedCycle.status === 'ACTIVE' && review.status === 'AWAITING_CALIBRATION';
+                          return (
+                            <tr key={review.id}>
+                              <Td>
+                                <div className="font-medium text-gray-900">{employeeName(review)}</div>
+                                <div className="text-xs text-gray-500">
+                                  {position.title}
+                                  {position.department ? ` · ${position.department.name}` : ''}
+                                </div>
+                              </Td>
+                              <Td>{REVIEW_STATUS_LABELS[review.status]}</Td>
+                              <Td>
+                                <div className="space-y-0.5 text-xs">
+                                  {review.submissions.map((submission) => (
+                                    <div key={submission.id}>
+                                      {REVIEWER_TYPE_LABELS[submission.reviewerType]}:{' '}
+                                      <span className={submission.status === 'SUBMITTED' ? 'text-green-700' : 'text-gray-500'}>
+                                        {submission.status?.toLowerCase()}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </Td>
+                              <Td>{formatRating(review.proposedRating)}</Td>
+                              <Td>{formatRating(review.calibratedRating)}</Td>
+                              <Td>{formatRating(review.finalRating)}</Td>
+                              <Td className="text-right whitespace-nowrap space-x-3">
+                                {canCalibrate && report && (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleCalibrate(review, report.ratingLevels)}
+                                    disabled={busyAction !== null}
+                                    className="text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                                  >
+                                    Calibrate
+                                  </button>
+                                )}
+                                {canCalibrate && (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleFinalize(review)}
+                                    disabled={busyAction !== null}
+                                    className="text-sm font-medium text-green-700 hover:text-green-600 disabled:opacity-50"
+                                  >
+                                    Finalize
+                                  </button>
+                                )}
+                              </Td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {report && (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-lg font-semibold">Calibration</h3>
+                      <div className="inline-flex rounded-md border bg-white text-sm">
+                        {(['department', 'tier'] as CalibrationGroupBy[]).map((option) => (
+                          <button
+                            key={option}
+                            type="button"
+                            onClick={() => setGroupBy(option)}
+                            className={`px-3 py-1.5 ${groupBy === option ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                          >
+                            By {option}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {report.overall && (
+                      <p className="text-sm text-gray-600">
+                        {report.overall.reviewCount} reviews · average rating {formatRating(report.overall.averageRating)}
+                        {' '}(proposed {formatRating(report.overall.averageProposedRating)}) · {report.overall.calibratedCount} calibrated
+                      </p>
+                    )}
+                    <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                      {report.groups.map((group) => {
+                        const maxCount = Math.max(1, ...group.distribution.map((level) => level.count));
+                        return (
+                          <div key={group.groupId ?? 'none'} className="rounded-lg border bg-white p-4">
+                            <div className="flex items-baseline justify-between">
+                              <div className="font-medium text-gray-900">
+                                {group.name}
+                                {group.level != null && <span className="ml-2 text-xs text-gray-500">Level {group.level}</span>}
+                              </div>
+                              <div className="text-sm text-gray-600">
+                                avg {formatRating(group.averageRating)} · {group.completedCount}/{group.reviewCount} completed
+                              </div>
+                            </div>
+                            <div className="mt-3 space-y-1">
+                              {group.distribution.map((level) => (
+                                <div key={level.value} className="flex items-center gap-2 text-xs">
+                                  <span className="w-40 truncate text-gray-600">{level.value} · {level.label}</span>
+                                  <div className="h-2 flex-1 rounded bg-gray-100">
+                                    <div
+                                      className="h-2 rounded bg-blue-500"
+                                      style={{ width: `${(level.count / maxCount) * 100}%` }}
+                                    />
+                                  </div>
+                                  <span className="w-6 text-right text-gray-700">{level.count}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              </section>
+            )}
+
+            <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div className="space-y-3 rounded-lg border bg-white p-4">
+                <h2 className="text-lg font-semibold">Rating Scales</h2>
+                <ul className="divide-y text-sm">
+                  {ratingScales.map((scale) => (
+                    <li key={scale.id} className="py-2">
+                      <div className="font-medium text-gray-900">
+                        {scale.name}
+                        {scale.isDefault && <span className="ml-2 text-xs text-gray-500">Default</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {scale.levels.map((level) => `${level.value} ${level.label}`).join(' · ')}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                <input
+                  type="text"
+                  placeholder="Scale name"
+                  value={scaleForm.name}
+                  onChange={(event) => setScaleForm((prev) => ({ ...prev, name: event.target.value }))}
+                  className="w-full rounded border px-3 py-2 text-sm"
+                />
+                <textarea
+                  rows={4}
+                  placeholder={'One level per line, e.g.\n1 | Below expectations\n2 | Meets expectations\n3 | Exceeds expectations'}
+                  value={scaleForm.levels}
+                  onChange={(event) => setScaleForm((prev) => ({ ...prev, levels: event.target.value }))}
+                  className="w-full rounded border px-3 py-2 text-sm font-mono"
+                />
+                <button
+                  type="button"
+                  onClick={handleCreateScale}
+                  disabled={busyAction !== null}
+                  className="rounded-md border px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Add Scale
+                </button>
+              </div>
+
+              <div className="space-y-3 rounded-lg border bg-white p-4">
+                <h2 className="text-lg font-semibold">Questionnaires</h2>
+                <ul className="divide-y text-sm">
+                  {questionnaires.map((questionnaire) => (
+                    <li key={questionnaire.id} className="py-2">
+                      <div className="font-medium text-gray-900">{questionnaire.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {questionnaire.questions.length} questions · {questionnaire.ratingScale.name}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    placeholder="Questionnaire name"
+                    value={questionnaireForm.name}
+                    onChange={(event) => setQuestionnaireForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="rounded border px-3 py-2 text-sm"
+                  />
+                  <select
+                    value={questionnaireForm.ratingScaleId}
+                    onChange={(event) => setQuestionnaireForm((prev) => ({ ...prev, ratingScaleId: event.target.value }))}
+                    className="rounded border px-3 py-2 text-sm"
+                  >
+                    <option value="">Rating scale…</option>
+                    {ratingScales.filter((scale) => scale.isActive).map((scale) => (
+                      <option key={scale.id} value={scale.id}>
+                        {scale.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {questionnaireForm.questions.map((question, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                      type="text"
+                      placeholder={`Question ${index + 1}`}
+                      value={question.prompt}
+                      onChange={(event) => updateQuestion(index, { prompt: event.target.value })}
+                      className="min-w-0 flex-1 rounded border px-3 py-1.5"
+                    />
+                    <select
+                      value={question.type}
+                      onChange={(event) => updateQuestion(index, { type: event.target.value as QuestionDraft['type'] })}
+                      className="rounded border px-2 py-1.5"
+                    >
+                      <option value="RATING">Rating</option>
+                      <option value="TEXT">Text</option>
+                    </select>
+                    <label className="flex items-center gap-1 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={question.required}
+                        onChange={(event) => updateQuestion(index, { required: event.target.checked })}
+                      />
+                      Required
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={question.managerOnly}
+                        onChange={(event) => updateQuestion(index, { managerOnly: event.target.checked })}
+                      />
+                      Manager only
+                    </label>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setQuestionnaireForm((prev) => ({ ...prev, questions: [...prev.questions, EMPTY_QUESTION] }))}
+                    className="rounded-md border px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    + Question
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCreateQuestionnaire}
+                    disabled={busyAction !== null}
+                    className="rounded-md border px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Add Questionnaire
+                  </button>
+                </div>
+              </div>
+            </section>
+          </>
+        ) : null}
+      </div>
+    </HRPageLayout>
+  );
+}
+
+function ScopePicker({
+  title,
+  options,
+  selected,
+  onToggle
+}: {
+  title: string;
+  options: Array<{ id: string; label: string }>;
+  selected: string[];
+  onToggle: (id: string) => void;
+}) {
+  return (
+    <div className="text-sm text-gray-700 md:col-span-2">
+      <div className="font-medium">{title}</div>
+      <div className="mt-1 max-h-32 space-y-1 overflow-y-auto rounded border p-2">
+        {options.length === 0 ? (
+          <span className="text-xs text-gray-500">None defined</span>
+        ) : (
+          options.map((option) => (
+            <label key={option.id} className="flex items-center gap-2">
+              <input type="checkbox" checked={selected.includes(option.id)} onChange={() => onToggle(option.id)} />
+              {option.label}
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-4 shadow-sm">
+      <div className="text-sm font-medium text-gray-500">{title}</div>
+      <div className="mt-2 text-2xl font-semibold text-gray-900">{value}</div>
+    </div>
+  );
+}
+
+function Th({ children, className }: { children?: ReactNode; className?: string }) {
+  return (
+    <th
+      scope="col"
+      className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500 ${className ?? ''}`.trim()}
+    >
+      {children ?? <span aria-hidden="true"> </span>}
+    </th>
+  );
+}
+
+function Td({ children, className }: { children: ReactNode; className?: string }) {
+  return (
+    <td className={`px-4 py-3 align-top text-sm text-gray-700 ${className ?? ''}`.trim()}>
+      {children}
+    </td>
+  );
+}
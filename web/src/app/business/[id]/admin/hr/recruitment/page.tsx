@@ -0,0 +1,911 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { Spinner, Alert, EmptyState } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { useBusinessConfiguration } from '@/contexts/BusinessConfigurationContext';
+import { useHRFeatures } from '@/hooks/useHRFeatures';
+import HRPageLayout from '@/components/hr/HRPageLayout';
+import { businessAPI } from '@/api/business';
+import { getPositions, Position } from '@/api/orgChart';
+import {
+  createJobApplication,
+  createJobRequisition,
+  createRecruitmentStage,
+  archiveRecruitmentStage,
+  downloadApplicationResume,
+  getRecruitmentDashboard,
+  hireCandidate,
+  listJobApplications,
+  listJobRequisitions,
+  listRecruitmentStages,
+  moveJobApplicationStage,
+  rejectJobApplication,
+  scheduleInterview,
+  updateJobRequisition,
+  EmployeeType,
+  JobApplication,
+  JobRequisition,
+  JobRequisitionStatus,
+  RecruitmentDashboard,
+  RecruitmentStage,
+  RecruitmentStageType
+} from '@/api/hrRecruitment';
+
+const STATUS_LABELS: Record<JobRequisitionStatus, string> = {
+  DRAFT: 'Draft',
+  OPEN: 'Open',
+  ON_HOLD: 'On hold',
+  CLOSED: 'Closed',
+  FILLED: 'Filled'
+};
+
+const EMPLOYMENT_TYPE_LABELS: Record<EmployeeType, string> = {
+  FULL_TIME: 'Full-time',
+  PART_TIME: 'Part-time',
+  CONTRACT: 'Contract',
+  INTERN: 'Intern',
+  TEMPORARY: 'Temporary',
+  SEASONAL: 'Seasonal'
+};
+
+const STAGE_TYPE_LABELS: Record<RecruitmentStageType, string> = {
+  APPLIED: 'Applied',
+  SCREENING: 'Screening',
+  INTERVIEW: 'Interview',
+  OFFER: 'Offer',
+  HIRED: 'Hired',
+  REJECTED: 'Rejected'
+};
+
+type RequisitionForm = {
+  positionId: string;
+  title: string;
+  location: string;
+  employmentType: EmployeeType;
+  openings: string;
+  description: string;
+  isPublic: boolean;
+};
+
+const DEFAULT_REQUISITION_FORM: RequisitionForm = {
+  positionId: '',
+  title: '',
+  location: '',
+  employmentType: 'FULL_TIME',
+  openings: '1',
+  description: '',
+  isPublic: true
+};
+
+type CandidateForm = { firstName: string; lastName: string; email: string; phone: string; resume: File | null };
+
+const DEFAULT_CANDIDATE_FORM: CandidateForm = { firstName: '', lastName: '', email: '', phone: '', resume: null };
+
+type InterviewForm = { start: string; durationMinutes: string; location: string; meetingLink: string; interviewerIds: string[] };
+
+const DEFAULT_INTERVIEW_FORM: InterviewForm = {
+  start: '',
+  durationMinutes: '45',
+  location: '',
+  meetingLink: '',
+  interviewerIds: []
+};
+
+type Member = { userId: string; name: string };
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const candidateName = (application: JobApplication) =>
+  `${application.candidate.firstName} ${application.candidate.lastName}`;
+
+export default function HRRecruitmentPage() {
+  const params = useParams();
+  const businessId = (params?.id as string) || '';
+  const { data: session } = useSession();
+  const { businessTier } = useBusinessConfiguration();
+  const hrFeatures = useHRFeatures(businessTier || undefined);
+
+  const [dashboard, setDashboard] = useState<RecruitmentDashboard | null>(null);
+  const [requisitions, setRequisitions] = useState<JobRequisition[]>([]);
+  const [stages, setStages] = useState<RecruitmentStage[]>([]);
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  // The org chart API returns the Prisma `title` column even though the client type names it `name`
+  const [positions, setPositions] = useState<Array<Position & { title?: string }>>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const [requisitionFilter, setRequisitionFilter] = useState<string>('');
+  const [requisitionForm, setRequisitionForm] = useState<RequisitionForm>(DEFAULT_REQUISITION_FORM);
+  const [requisitionFormOpen, setRequisitionFormOpen] = useState(false);
+  const [candidateForm, setCandidateForm] = useState<CandidateForm>(DEFAULT_CANDIDATE_FORM);
+  const [candidateFormOpen, setCandidateFormOpen] = useState(false);
+  const [interviewTarget, setInterviewTarget] = useState<JobApplication | null>(null);
+  const [interviewForm, setInterviewForm] = useState<InterviewForm>(DEFAULT_INTERVIEW_FORM);
+  const [stageForm, setStageForm] = useState<{ name: string; type: RecruitmentStageType }>({ name: '', type: 'SCREENING' });
+
+  const loadData = useCallback(async () => {
+    if (!businessId) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setLoadError(null);
+      const [dashboardData, requisitionData, stageData, applicationData] = await Promise.all([
+        getRecruitmentDashboard(businessId),
+        listJobRequisitions(businessId),
+        listRecruitmentStages(businessId),
+        listJobApplications(businessId, { requisitionId: requisitionFilter || undefined })
+      ]);
+      setDashboard(dashboardData);
+      setRequisitions(requisitionData);
+      setStages(stageData);
+      setApplications(applicationData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to load recruitment';
+      setLoadError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, requisitionFilter]);
+
+  useEffect(() => {
+    if (hrFeatures.recruitment) {
+      loadData();
+    }
+  }, [loadData, hrFeatures.recruitment]);
+
+  // Positions and members only feed the forms; failures here are not fatal
+  useEffect(() => {
+    if (!hrFeatures.recruitment || !businessId || !session?.accessToken) {
+      return;
+    }
+    getPositions(businessId, session.accessToken)
+      .then((response) => setPositions(response.data ?? []))
+      .catch(() => setPositions([]));
+    businessAPI.getBusiness(businessId)
+      .then((response) => {
+        const business = response.data as unknown as { members?: Array<{ user: { id: string; name?: string; email: string } }> };
+        setMembers((business?.members ?? []).map((member) => ({
+          userId: member.user.id,
+          name: member.user.name || member.user.email
+        })));
+      })
+      .catch(() => setMembers([]));
+  }, [businessId, session?.accessToken, hrFeatures.recruitment]);
+
+  const applicationsByStage = useMemo(() => {
+    const grouped = new Map<string, JobApplication[]>();
+    applications.forEach((application) => {
+      const key = application.stageId ?? 'unstaged';
+      grouped.set(key, [...(grouped.get(key) ?? []), application]);
+    });
+    return grouped;
+  }, [applications]);
+
+  const runAction = async (key: string, action: () => Promise<void>, successMessage: string) => {
+    try {
+      setBusyAction(key);
+      await action();
+      toast.success(successMessage);
+      await loadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Recruitment action failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleCreateRequisition = async () => {
+    const openings = Number(requisitionForm.openings);
+    if (!requisitionForm.positionId || !Number.isInteger(openings) || openings < 1) {
+      toast.error('Select a position and enter the number of openings');
+      return;
+    }
+    await runAction('requisition', async () => {
+      await createJobRequisition(businessId, {
+        positionId: requisitionForm.positionId,
+        title: requisitionForm.title.trim() || undefined,
+        location: requisitionForm.location.trim() || null,
+        employmentType: requisitionForm.employmentType,
+        openings,
+        description: requisitionForm.description.trim() || null,
+        isPublic: requisitionForm.isPublic,
+        status: 'DRAFT'
+      });
+      setRequisitionForm(DEFAULT_REQUISITION_FORM);
+      setRequisitionFormOpen(false);
+    }, 'Requisition created');
+  };
+
+  const handleRequisitionStatus = (requisition: JobRequisition, status: JobRequisitionStatus) =>
+    runAction(`status-${requisition.id}`, async () => {
+      await updateJobRequisition(businessId, requisition.id, { positionId: requisition.positionId, status });
+    }, `Requisition ${STATUS_LABELS[status].toLowerCase()}`);
+
+  const handleAddCandidate = async () => {
+    if (!requisitionFilter) {
+      toast.error('Select a requisition first');
+      return;
+    }
+    if (!candidateForm.firstName.trim() || !candidateForm.lastName.trim() || !candidateForm.email.trim()) {
+      toast.error('Name and email are required');
+      return;
+    }
+    await runAction('candidate', async () => {
+      await createJobApplication(businessId, requisitionFilter, {
+        firstName: candidateForm.firstName.trim(),
+        lastName: candidateForm.lastName.trim(),
+        email: candidateForm.email.trim(),
+        phone: candidateForm.phone.trim() || undefined,
+        resume: candidateForm.resume
+      });
+      setCandidateForm(DEFAULT_CANDIDATE_FORM);
+      setCandidateFormOpen(false);
+    }, 'Candidate added');
+  };
+
+  const handleMoveStage = (application: JobApplication, stageId: string) =>
+    runAction(`move-${application.id}`, async () => {
+      await moveJobApplicationStage(businessId, application.id, stageId);
+    }, 'Candidate moved');
+
+  const handleReject = (application: JobApplication) => {
+    const reason = window.prompt(`Reject ${candidateName(application)}? Optional reason:`);
+    if (reason === null) {
+      return;
+    }
+    return runAction(`reject-${application.id}`, async () => {
+      await rejectJobApplication(businessId, application.id, reason.trim() || undefined);
+    }, 'Candidate rejected');
+  };
+
+  const handleHire = (application: JobApplication) => {
+    if (!window.confirm(`Hire ${candidateName(application)} for ${application.requisition.title}? This creates their employee record and starts onboarding.`)) {
+      return;
+    }
+    return runAction(`hire-${application.id}`, async () => {
+      const result = await hireCandidate(businessId, application.id);
+      result.warnings.forEach((warning) => toast(warning));
+    }, 'Candidate hired');
+  };
+
+  const handleScheduleInterview = async () => {
+    if (!interviewTarget) {
+      return;
+    }
+    const start = new Date(interviewForm.start);
+    const duration = Number(interviewForm.durationMinutes);
+    if (Number.isNaN(start.getTime()) || !Number.isFinite(duration) || duration <= 0) {
+      toast.error('Enter a start time and duration');
+      return;
+    }
+    await runAction('interview', async () => {
+      await scheduleInterview(businessId, interviewTarget.id, {
+        startAt: start.toISOString(),
+        endAt: new Date(start.getTime() + duration * 60_000).toISOString(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        location: interviewForm.location.trim() || null,
+        meetingLink: interviewForm.meetingLink.trim() || null,
+        interviewerIds: interviewForm.interviewerIds
+      });
+      setInterviewTarget(null);
+      setInterviewForm(DEFAULT_INTERVIEW_FORM);
+    }, 'Interview scheduled and invites sent');
+  };
+
+  const handleAddStage = async () => {
+    if (!stageForm.name.trim()) {
+      toast.error('Stage name is required');
+      return;
+    }
+    await runAction('stage', async () => {
+      await createRecruitmentStage(businessId, { name: stageForm.name.trim(), type: stageForm.type });
+      setStageForm({ name: '', type: 'SCREENING' });
+    }, 'Stage added');
+  };
+
+  const handleArchiveStage = (stage: RecruitmentStage) =>
+    runAction(`archive-${stage.id}`, async () => {
+      await archiveRecruitmentStage(businessId, stage.id);
+    }, 'Stage archived');
+
+  if (!businessId) {
+    return (
+      <div className="p-6">
+        <Alert type="error" title="Business Not Found">
+          A valid business identifier is required to view recruitment.
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!hrFeatures.recruitment) {
+    return (
+      <HRPageLayout businessId={businessId} currentView="recruitment">
+        <div className="p-6">
+          <Alert type="warning" title="Recruitment Not Available">
+            {hrFeatures.getFeatureUpgradeMessage('recruitment') ?? 'Recruitment is available on the Enterprise tier.'}
+          </Alert>
+        </div>
+      </HRPageLayout>
+    );
+  }
+
+  const activeApplicants = dashboard?.pipeline.reduce((sum, stage) => sum + stage.activeApplications, 0) ?? 0;
+
+  return (
+    <HRPageLayout businessId={businessId} currentView="recruitment">
+      <div className="p-6 space-y-8">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Recruitment</h1>
+            <p className="text-gray-600 mt-2">
+              Open requisitions for org chart positions, track applicants through your pipeline and hire straight into onboarding.
+            </p>
+          </div>
+          <Link
+            href={`/careers/${businessId}`}
+            target="_blank"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500 whitespace-nowrap"
+          >
+            View careers page ↗
+          </Link>
+        </div>
+
+        {loadError && (
+          <Alert type="error" title="Unable to load recruitment">
+            {loadError}
+          </Alert>
+        )}
+
+        {loading && !dashboard ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size={28} />
+          </div>
+        ) : dashboard ? (
+          <>
+            <section className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+              <SummaryCard title="Open Requisitions" value={String(dashboard.requisitionCounts.OPEN ?? 0)} />
+              <SummaryCard title="Active Applicants" value={String(activeApplicants)} />
+              <SummaryCard title="Upcoming Interviews" value={String(dashboard.upcomingInterviews.length)} />
+              <SummaryCard title="Hires (30 days)" value={String(dashboard.hiresLast30Days)} />
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Requisitions</h2>
+                <button
+                  type="button"
+                  onClick={() => setRequisitionFormOpen((open) => !open)}
+                  className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-500"
+                >
+                  {requisitionFormOpen ? 'Cancel' : '+ New Requisition'}
+                </button>
+              </div>
+
+              {requisitionFormOpen && (
+                <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-6">
+                  <select
+                    value={requisitionForm.positionId}
+                    onChange={(event) => setRequisitionForm((prev) => ({ ...prev, positionId: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-2"
+                  >
+                    <option value="">Select position…</option>
+                    {positions.map((position) => (
+                      <option key={position.id} value={position.id}>
+                        {position.title || position.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Posting title (defaults to position)"
+                    value={requisitionForm.title}
+                    onChange={(event) => setRequisitionForm((prev) => ({ ...prev, title: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-2"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Location"
+                    value={requisitionForm.location}
+                    onChange={(event) => setRequisitionForm((prev) => ({ ...prev, location: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <select
+                    value={requisitionForm.employmentType}
+                    onChange={(event) =>
+                      setRequisitionForm((prev) => ({ ...prev, employmentType: event.target.value as EmployeeType }))
+                    }
+                    className="rounded border px-3 py-2"
+                  >
+                    {Object.entries(EMPLOYMENT_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <textarea
+                    placeholder="Job description"
+                    value={requisitionForm.description}
+                    onChange={(event) => setRequisitionForm((prev) => ({ ...prev, description: event.target.value }))}
+                    className="rounded border px-3 py-2 md:col-span-4"
+                    rows={4}
+                  />
+                  <div className="space-y-3 md:col-span-2">
+                    <label className="block text-sm text-gray-700">
+                      Openings
+                      <input
+                        type="number"
+                        min={1}
+                        value={requisitionForm.openings}
+                        onChange={(event) => setRequisitionForm((prev) => ({ ...prev, openings: event.target.value }))}
+                        className="mt-1 w-full rounded border px-3 py-2"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={requisitionForm.isPublic}
+                        onChange={(event) => setRequisitionForm((prev) => ({ ...prev, isPublic: event.target.checked }))}
+                      />
+                      List on the public careers page when open
+                    </label>
+                    <button
+                      type="button"
+                      onClick={handleCreateRequisition}
+                      disabled={busyAction !== null}
+                      className="w-full rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                    >
+                      Save Draft
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {requisitions.length === 0 ? (
+                <div className="border rounded-lg bg-white">
+                  <EmptyState
+                    icon="📢"
+                    title="No Requisitions"
+                    description="Create a requisition for an org chart position to start hiring."
+                  />
+                </div>
+              ) : (
+                <div className="overflow-hidden rounded-lg border bg-white">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <Th>Title</Th>
+                        <Th>Position</Th>
+                        <Th>Type</Th>
+                        <Th>Applicants</Th>
+                        <Th>Status</Th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {requisitions.map((requisition) => (
+                        <tr key={requisition.id} className="hover:bg-gray-50">
+                          <Td>
+                            <button
+                              type="button"
+                              onClick={() => setRequisitionFilter(requisition.id)}
+                              className="font-medium text-blue-600 hover:text-blue-500"
+                            >
+                              {requisition.title}
+                            </button>
+                            <div className="text-xs text-gray-500">
+                              {requisition.location ?? 'No location'} · {requisition.openings} opening(s)
+                              {!requisition.isPublic && ' · Internal'}
+                            </div>
+                          </Td>
+                          <Td>
+                            {requisition.position.title}
+                            {requisition.position.department && (
+                              <div className="text-xs text-gray-500">{requisition.position.department.name}</div>
+                            )}
+                          </Td>
+                          <Td>{EMPLOYMENT_TYPE_LABELS[requisition.employmentType]}</Td>
+                          <Td>{requisition._count.applications}</Td>
+                          <Td>
+                            <select
+                              value={requisition.status}
+                              disabled={busyAction !== null || requisition.status === 'FILLED'}
+                              onChange={(event) =>
+                                handleRequisitionStatus(requisition, event.target.value as JobRequisitionStatus)
+                              }
+                              className="rounded border px-2 py-1 text-sm"
+                            >
+                              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>
+                                  {label}
+                                </option>
+                              ))}
+                            </select>
+                          </Td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-xl font-semibold">Pipeline</h2>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={requisitionFilter}
+                    onChange={(event) => setRequisitionFilter(event.target.value)}
+                    className="rounded border px-3 py-2 text-sm"
+                  >
+                    <option value="">All requisitions</option>
+                    {requisitions.map((requisition) => (
+                      <option key={requisition.id} value={requisition.id}>
+                        {requisition.title}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setCandidateFormOpen((open) => !open)}
+                    disabled={!requisitionFilter}
+                    title={requisitionFilter ? undefined : 'Select a requisition to add a candidate'}
+                    className="inline-flex items-center gap-2 rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {candidateFormOpen ? 'Cancel' : '+ Add Candidate'}
+                  </button>
+                </div>
+              </div>
+
+              {candidateFormOpen && requisitionFilter && (
+                <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-6">
+                  <input
+                    type="text"
+                    placeholder="First name"
+                    value={candidateForm.firstName}
+                    onChange={(event) => setCandidateForm((prev) => ({ ...prev, firstName: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Last name"
+                    value={candidateForm.lastName}
+                    onChange={(event) => setCandidateForm((prev) => ({ ...prev, lastName: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <input
+                    type="email"
+                    placeholder="Email"
+                    value={candidateForm.email}
+                    onChange={(event) => setCandidateForm((prev) => ({ ...prev, email: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <input
+                    type="tel"
+                    placeholder="Phone"
+                    value={candidateForm.phone}
+                    onChange={(event) => setCandidateForm((prev) => ({ ...prev, phone: event.target.value }))}
+                    className="rounded border px-3 py-2"
+                  />
+                  <input
+                    type="file"
+                    accept=".pdf,.doc,.docx,.odt,.rtf,.txt"
+                    onChange={(event) => setCandidateForm((prev) => ({ ...prev, resume: event.target.files?.[0] ?? null }))}
+                    className="text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleAddCandidate}
+                    disabled={busyAction !== null}
+                    className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+              )}
+
+              {interviewTarget && (
+                <div className="space-y-4 rounded-lg border border-blue-200 bg-blue-50 p-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-gray-900">
+                      Schedule interview · {candidateName(interviewTarget)}
+                    </h3>
+                    <button
+                      type="button"
+                      onClick={() => setInterviewTarget(null)}
+                      className="text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+                    <input
+                      type="datetime-local"
+                      value={interviewForm.start}
+                      onChange={(event) => setInterviewForm((prev) => ({ ...prev, start: event.target.value }))}
+                      className="rounded border px-3 py-2"
+                    />
+                    <select
+                      value={interviewForm.durationMinutes}
+                      onChange={(event) => setInterviewForm((prev) => ({ ...prev, durationMinutes: event.target.value }))}
+                      className="rounded border px-3 py-2"
+                    >
+                      {['30', '45', '60', '90'].map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {minutes} minutes
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      placeholder="Location"
+                      value={interviewForm.location}
+                      onChange={(event) => setInterviewForm((prev) => ({ ...prev, location: event.target.value }))}
+                      className="rounded border px-3 py-2"
+                    />
+                    <input
+                      type="url"
+                      placeholder="Meeting link"
+                      value={interviewForm.meetingLink}
+                      onChange={(event) => setInterviewForm((prev) => ({ ...prev, meetingLink: event.target.value }))}
+                      className="rounded border px-3 py-2"
+                    />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-gray-700">Interviewers</div>
+                    <p className="text-xs text-gray-500">Defaults to the hiring manager when none are selected.</p>
+                    <div className="mt-2 flex flex-wrap gap-3">
+                      {members.map((member) => (
+                        <label key={member.userId} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={interviewForm.interviewerIds.includes(member.userId)}
+                            onChange={(event) =>
+                              setInterviewForm((prev) => ({
+                                ...prev,
+                                interviewerIds: event.target.checked
+                                  ? [...prev.interviewerIds, member.userId]
+                                  : prev.interviewerIds.filter((id) => id !== member.userId)
+                              }))
+                            }
+                          />
+                          {member.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleScheduleInterview}
+                    disabled={busyAction !== null}
+                    className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                  >
+                    Schedule &amp; Send Invites
+                  </button>
+                </div>
+              )}
+
+              <div className="flex gap-4 overflow-x-auto pb-2">
+                {stages.map((stage) => (
+                  <div key={stage.id} className="w-72 flex-shrink-0 rounded-lg border bg-gray-50">
+                    <div className="flex items-center justify-between border-b px-3 py-2">
+                      <span className="text-sm font-semibold text-gray-800">{stage.name}</span>
+                      <span className="text-xs text-gray-500">{applicationsByStage.get(stage.id)?.length ?? 0}</span>
+                    </div>
+                    <div className="space-y-2 p-2">
+                      {(applicationsByStage.get(stage.id) ?? []).map((application) => (
+                        <ApplicationCard
+                          key={application.id}
+                          application={application}
+                          stages={stages}
+                          busy={busyAction !== null}
+                          onMove={(stageId) => handleMoveStage(application, stageId)}
+                          onSchedule={() => {
+                            setInterviewTarget(application);
+                            setInterviewForm(DEFAULT_INTERVIEW_FORM);
+                          }}
+                          onReject={() => handleReject(application)}
+                          onHire={() => handleHire(application)}
+                          onDownloadResume={() =>
+                            downloadApplicationResume(businessId, application).catch((error) =>
+                              toast.error(error instanceof Error ? error.message : 'Unable to download resume')
+                            )
+                          }
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div className="space-y-3">
+                <h2 className="text-xl font-semibold">Upcoming Interviews</h2>
+                {dashboard.upcomingInterviews.length === 0 ? (
+                  <p className="text-sm text-gray-500">No interviews scheduled.</p>
+                ) : (
+                  <ul className="divide-y rounded-lg border bg-white">
+                    {dashboard.upcomingInterviews.map((interview) => (
+                      <li key={interview.id} className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">
+                          {interview.application.candidate.firstName} {interview.application.candidate.lastName}
+                        </div>
+                        <div className="text-gray-600">
+                          {interview.application.requisition.title} · {formatDateTime(interview.startAt)}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <h2 className="text-xl font-semibold">Pipeline Stages</h2>
+                <ul className="divide-y rounded-lg border bg-white">
+                  {stages.map((stage) => (
+                    <li key={stage.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <span>
+                        {stage.name} <span className="text-xs text-gray-500">({STAGE_TYPE_LABELS[stage.type]})</span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleArchiveStage(stage)}
+                        disabled={busyAction !== null}
+                        className="text-xs text-red-600 hover:text-red-500 disabled:opacity-50"
+                      >
+                        Archive
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="New stage name"
+                    value={stageForm.name}
+                    onChange={(event) => setStageForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="flex-1 rounded border px-3 py-2 text-sm"
+                  />
+                  <select
+                    value={stageForm.type}
+                    onChange={(event) => setStageForm((prev) => ({ ...prev, type: event.target.value as RecruitmentStageType }))}
+                    className="rounded border px-3 py-2 text-sm"
+                  >
+                    {Object.entries(STAGE_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleAddStage}
+                    disabled={busyAction !== null}
+                    className="rounded-md border px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            </section>
+          </>
+        ) : null}
+      </div>
+    </HRPageLayout>
+  );
+}
+
+function ApplicationCard({
+  application,
+  stages,
+  busy,
+  onMove,
+  onSchedule,
+  onReject,
+  onHire,
+  onDownloadResume
+}: {
+  application: JobApplication;
+  stages: RecruitmentStage[];
+  busy: boolean;
+  onMove: (stageId: string) => void;
+  onSchedule: () => void;
+  onReject: () => void;
+  onHire: () => void;
+  onDownloadResume: () => void;
+}) {
+  const isActive = application.status === 'ACTIVE';
+  const nextInterview = application.interviews.find(
+    (interview) => interview.status === 'SCHEDULED' && new Date(interview.startAt) > new Date()
+  );
+
+  return (
+    <div className="space-y-2 rounded-md border bg-white p-3 text-sm shadow-sm">
+      <div>
+        <div className="font-medium text-gray-900">{candidateName(application)}</div>
+        <div className="text-xs text-gray-500">{application.requisition.title}</div>
+        <div className="text-xs text-gray-500">{application.candidate.email}</div>
+      </div>
+      {application.resumeFile && (
+        <button
+          type="button"
+          onClick={onDownloadResume}
+          className="block text-left text-xs text-blue-600 hover:text-blue-500"
+        >
+          📄 {application.resumeFile.name}
+        </button>
+      )}
+      {nextInterview && (
+        <div className="text-xs text-gray-600">Interview {formatDateTime(nextInterview.startAt)}</div>
+      )}
+      {application.status === 'HIRED' && <div className="text-xs font-medium text-green-700">Hired</div>}
+      {isActive && (
+        <div className="space-y-2">
+          <select
+            value={application.stageId ?? ''}
+            disabled={busy}
+            onChange={(event) => onMove(event.target.value)}
+            className="w-full rounded border px-2 py-1 text-xs"
+          >
+            {stages
+              .filter((stage) => stage.type !== 'HIRED')
+              .map((stage) => (
+                <option key={stage.id} value={stage.id}>
+                  {stage.name}
+                </option>
+              ))}
+          </select>
+          <div className="flex flex-wrap gap-3 text-xs font-medium">
+            <button type="button" onClick={onSchedule} disabled={busy} className="text-blue-600 hover:text-blue-500 disabled:opacity-50">
+              Interview
+            </button>
+            <button type="button" onClick={onHire} disabled={busy} className="text-green-700 hover:text-green-600 disabled:opacity-50">
+              Hire
+            </button>
+            <button type="button" onClick={onReject} disabled={busy} className="text-red-600 hover:text-red-500 disabled:opacity-50">
+              Reject
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-4 shadow-sm">
+      <div className="text-sm font-medium text-gray-500">{title}</div>
+      <div className="mt-2 text-2xl font-semibold text-gray-900">{value}</div>
+    </div>
+  );
+}
+
+function Th({ children, className }: { children?: ReactNode; className?: string }) {
+  return (
+    <th
+      scope="col"
+      className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500 ${className ?? ''}`.trim()}
+    >
+      {children ?? <span aria-hidden="true"> </span>}
+    </th>
+  );
+}
+
+function Td({ children, className }: { children: ReactNode; className?: string }) {
+  return (
+    <td className={`px-4 py-3 align-top text-sm text-gray-700 ${className ?? ''}`.trim()}>
+      {children}
+    </td>
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * Employee Benefits Page
+ *
+ * Benefit elections during open enrollment or after an approved life event,
+ * dependents, beneficiaries and life event reporting
+ * Access: All business employees (Enterprise tier)
+ * Location: /business/[id]/workspace/hr/benefits
+ */
+
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import { useHRFeatures } from '@/hooks/useHRFeatures';
+import { useBusinessConfiguration } from '@/contexts/BusinessConfigurationContext';
+import { Spinner, Alert, Badge, EmptyState } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import HRPageLayout from '@/components/hr/HRPageLayout';
+import {
+  getMyBenefits,
+  removeMyDependent,
+  reportMyLifeEvent,
+  saveMyBeneficiaries,
+  saveMyDependent,
+  submitMyElections,
+  type BeneficiaryInput,
+  type BenefitEnrollment,
+  type BenefitLifeEventStatus,
+  type BenefitLifeEventType,
+  type Dependent,
+  type DependentInput,
+  type ElectionInput,
+  type MyBenefits,
+} from '@/api/hrBenefits';
+import PlanElectionCard from '@/components/hr/benefits/PlanElectionCard';
+import DependentsPanel from '@/components/hr/benefits/DependentsPanel';
+import BeneficiariesEditor from '@/components/hr/benefits/BeneficiariesEditor';
+
+const LIFE_EVENT_LABELS: Record<BenefitLifeEventType, string> = {
+  NEW_HIRE: 'New hire',
+  MARRIAGE: 'Marriage',
+  DIVORCE: 'Divorce',
+  BIRTH_ADOPTION: 'Birth or adoption',
+  DEATH_OF_DEPENDENT: 'Death of a dependent',
+  LOSS_OF_COVERAGE: 'Loss of other coverage',
+  EMPLOYMENT_CHANGE: 'Employment change',
+  OTHER: 'Other',
+};
+
+const LIFE_EVENT_STATUS_COLORS: Record<BenefitLifeEventStatus, 'yellow' | 'green' | 'red'> = {
+  PENDING: 'yellow',
+  APPROVED: 'green',
+  DENIED: 'red',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' });
+
+// Future-dated changes are shown ahead of the election they replace
+const latestEnrollment = (enrollments: BenefitEnrollment[], planId: string) =>
+  enrollments
+    .filter((enrollment) => enrollment.planId === planId)
+    .sort((a, b) => b.coverageStart.localeCompare(a.coverageStart))[0] ?? null;
+
+export default function MyBenefitsPage() {
+  const params = useParams();
+  const businessId = (params?.id as string) || '';
+
+  const { businessTier } = useBusinessConfiguration();
+  const hrFeatures = useHRFeatures(businessTier || undefined);
+
+  const [benefits, setBenefits] = useState<MyBenefits | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [lifeEventForm, setLifeEventForm] = useState<{ type: BenefitLifeEventType; eventDate: string; description: string }>({
+    type: 'MARRIAGE',
+    eventDate: '',
+    description: '',
+  });
+
+  const load = useCallback(async () => {
+    if (!businessId || !hrFeatures.benefits) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      setBenefits(await getMyBenefits(businessId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load benefits');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, hrFeatures.benefits]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>, successMessage: string, failureMessage: string) => {
+    try {
+      setSaving(true);
+      await action();
+      toast.success(successMessage);
+      setBenefits(await getMyBenefits(businessId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : failureMessage);
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleElection = (election: ElectionInput) =>
+    run(() => submitMyElections(businessId, [election]), election.waive ? 'Coverage waived' : 'Election saved', 'Failed to save election');
+
+  const handleSaveDependent = (payload: DependentInput, dependentId?: string) =>
+    run(() => saveMyDependent(businessId, payload, dependentId), 'Dependent saved', 'Failed to save dependent');
+
+  const handleRemoveDependent = async (dependent: Dependent) => {
+    if (!window.confirm(`Remove ${dependent.firstName} ${dependent.lastName}?`)) return;
+    await run(() => removeMyDependent(businessId, dependent.id), 'Dependent removed', 'Failed to remove dependent').catch(() => undefined);
+  };
+
+  const handleSaveBeneficiaries = (planId: string | null, beneficiaries: BeneficiaryInput[]) =>
+    run(() => saveMyBeneficiaries(businessId, planId, beneficiaries), 'Beneficiaries saved', 'Failed to save beneficiaries').catch(
+      () => undefined
+    );
+
+  const handleReportLifeEvent = async () => {
+    if (!lifeEventForm.eventDate) return;
+    await run(
+      () =>
+        reportMyLifeEvent(businessId, {
+          type: lifeEventForm.type,
+          eventDate: lifeEventForm.eventDate,
+          description: lifeEventForm.description.trim() || null,
+        }),
+      'Life event sent to HR for review',
+      'Failed to report life event'
+    )
+      .then(() => setLifeEventForm({ type: 'MARRIAGE', eventDate: '', description: '' }))
+      .catch(() => undefined);
+  };
+
+  if (!hrFeatures.benefits) {
+    return (
+      <HRPageLayout businessId={businessId} currentView="my-benefits">
+        <div className="p-6">
+          <Alert type="warning" title="Benefits Not Available">
+            {hrFeatures.getFeatureUpgradeMessage('benefits') ?? 'Benefits administration is available on the Enterprise tier.'}
+          </Alert>
+        </div>
+      </HRPageLayout>
+    );
+  }
+
+  const period = benefits?.enrollmentPeriod ?? null;
+  const beneficiaryPlans = benefits?.plans.filter((plan) => plan.requiresBeneficiary) ?? [];
+
+  return (
+    <HRPageLayout businessId={businessId} currentView="my-benefits">
+      <div className="p-6 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold">My Benefits</h1>
+          <p className="text-gray-600 mt-2">Choose your coverage, manage dependents and beneficiaries, and report life events.</p>
+        </div>
+
+        {error && (
+          <Alert type="error" title="Unable to load benefits">
+            {error}
+          </Alert>
+        )}
+
+        {loading && !benefits ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size={28} />
+          </div>
+        ) : benefits ? (
+          <>
+            {period ? (
+              <Alert type="info" title={period.source === 'WINDOW' ? `${period.name} is open` : `${period.name}: you can change your elections`}>
+                Make changes until {formatDate(period.closesOn)}. New elections take effect {formatDate(period.coverageStart)}.
+              </Alert>
+            ) : (
+              <Alert type="info" title="Enrollment is closed">
+                You can change elections during open enrollment, or within 30 days of a qualifying life event once HR approves it.
+              </Alert>
+            )}
+
+            <section className="space-y-4">
+              <h2 className="text-lg font-semibold">Plans</h2>
+              {benefits.plans.length === 0 ? (
+                <EmptyState icon="🩺" title="No plans available" description="There are no benefit plans you are eligible for yet." />
+              ) : (
+                <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                  {benefits.plans.map((plan) => (
+                    <PlanElectionCard
+                      key={plan.id}
+                      plan={plan}
+                      enrollment={latestEnrollment(benefits.enrollments, plan.id)}
+                      dependents={benefits.dependents}
+                      canEdit={Boolean(period)}
+                      saving={saving}
+                      onSubmit={handleElection}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section className="border rounded-lg p-6 bg-white">
+              <h2 className="text-lg font-semibold mb-4">Dependents</h2>
+              <DependentsPanel
+                dependents={benefits.dependents}
+                saving={saving}
+                onSave={handleSaveDependent}
+                onRemove={handleRemoveDependent}
+              />
+            </section>
+
+            {beneficiaryPlans.length > 0 && (
+              <section className="space-y-4">
+                <h2 className="text-lg font-semibold">Beneficiaries</h2>
+                {beneficiaryPlans.map((plan) => (
+                  <BeneficiariesEditor
+                    key={plan.id}
+                    planId={plan.id}
+                    title={plan.name}
+                    beneficiaries={benefits.beneficiaries.filter((beneficiary) => beneficiary.planId === plan.id)}
+                    dependents={benefits.dependents}
+                    saving={saving}
+                    onSave={handleSaveBeneficiaries}
+                  />
+                ))}
+              </section>
+            )}
+
+            <section className="border rounded-lg p-6 bg-white space-y-4">
+              <h2 className="text-lg font-semibold">Life Events</h2>
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+                <select
+                  value={lifeEventForm.type}
+                  onChange={(event) => setLifeEventForm((prev) => ({ ...prev, type: event.target.value as BenefitLifeEventType }))}
+                  className="rounded border px-3 py-2 text-sm"
+                >
+                  {Object.entries(LIFE_EVENT_LABELS)
+                    .filter(([value]) => value !== 'NEW_HIRE')
+                    .map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                </select>
+                <input
+                  type="date"
+                  value={lifeEventForm.eventDate}
+                  onChange={(event) => setLifeEventForm((prev) => ({ ...prev, eventDate: event.target.value }))}
+                  className="rounded border px-3 py-2 text-sm"
+                />
+                <input
+                  type="text"
+                  placeholder="Details (optional)"
+                  value={lifeEventForm.description}
+                  onChange={(event) => setLifeEventForm((prev) => ({ ...prev, description: event.target.value }))}
+                  className="rounded border px-3 py-2 text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={handleReportLifeEvent}
+                  disabled={saving || !lifeEventForm.eventDate}
+                  className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                >
+                  Report life event
+                </button>
+              </div>
+              {benefits.lifeEvents.length > 0 && (
+                <div className="divide-y">
+                  {benefits.lifeEvents.map((event) => (
+                    <div key={event.id} className="flex items-center justify-between py-3 text-sm">
+                      <div>
+                        <div className="font-medium">{LIFE_EVENT_LABELS[event.type]}</div>
+                        <div className="text-gray-500">
+                          {formatDate(event.eventDate)}
+                          {event.status === 'APPROVED' && ` · changes allowed until ${formatDate(event.enrollmentDeadline)}`}
+                          {event.status === 'DENIED' && event.reviewNote && ` · ${event.reviewNote}`}
+                        </div>
+                      </div>
+                      <Badge color={LIFE_EVENT_STATUS_COLORS[event.status]}>{event.status.toLowerCase()}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        ) : null}
+      </div>
+    </HRPageLayout>
+  );
+}
@@ -26,6 +26,8 @@ import {
   type OnboardingTaskStatus,
 } from '@/api/hrOnboarding';
 import EmployeeOnboardingJourneyView from '@/components/hr/onboarding/EmployeeOnboardingJourneyView';
+import { downloadMyPayStubPdf, listMyPayStubs, type PayStubSummary } from '@/api/hrPayroll';
+import { setMyKioskPin } from '@/api/hrAttendance';
 
 interface EmployeeData {
   id: string;
@@ -68,6 +70,26 @@ interface AttendanceRecord {
   clockOutMethod?: string | null;
 }
 
+// Best effort: attendance policies that require geolocation reject punches without it,
+// so the server reports the problem rather than the browser
+const getPunchLocation = () =>
+  new Promise<{ latitude: number; longitude: number; accuracy: number } | null>((resolve) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+
 export default function EmployeeSelfService() {
   const params = useParams();
   const { data: session } = useSession();
@@ -95,11 +117,18 @@ export default function EmployeeSelfService() {
   const [attendanceLoading, setAttendanceLoading] = useState(false);
   const [attendanceError, setAttendanceError] = useState<string | null>(null);
   const [punching, setPunching] = useState(false);
+  const [kioskPin, setKioskPin] = useState('');
+  const [savingKioskPin, setSavingKioskPin] = useState(false);
   const [onboardingLoading, setOnboardingLoading] = useState(false);
   const [onboardingError, setOnboardingError] = useState<string | null>(null);
   const [onboardingJourneys, setOnboardingJourneys] = useState<EmployeeOnboardingJourney[]>([]);
   const [completingTaskId, setCompletingTaskId] = useState<string | null>(null);
+  const [payStubs, setPayStubs] = useState<PayStubSummary[]>([]);
+  const [payStubsLoading, setPayStubsLoading] = useState(false);
+  const [payStubsError, setPayStubsError] = useState<string | null>(null);
+  const [downloadingStubId, setDownloadingStubId] = useState<string | null>(null);
   const clockInOutEnabled = Boolean(hrFeatures.attendance?.clockInOut);
+  const geolocationEnabled = Boolean(hrFeatures.attendance?.geolocation);
   const activeAttendanceRecord = useMemo(
     () => attendanceRecords.find((record) => record.status === 'IN_PROGRESS') ?? null,
     [attendanceRecords]
@@ -157,6 +186,32 @@ export default function EmployeeSelfService() {
     }
   }, [businessId, onboardingFeatureEnabled]);
 
+  const fetchPayStubs = useCallback(async () => {
+    if (!businessId) {
+      return;
+    }
+    try {
+      setPayStubsLoading(true);
+      setPayStubsError(null);
+      setPayStubs(await listMyPayStubs(businessId));
+    } catch (error) {
+      setPayStubsError(error instanceof Error ? error.message : 'Failed to load pay stubs');
+    } finally {
+      setPayStubsLoading(false);
+    }
+  }, [businessId]);
+
+  const handleDownloadPayStub = async (stub: PayStubSummary) => {
+    try {
+      setDownloadingStubId(stub.id);
+      await downloadMyPayStubPdf(businessId, stub);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download pay stub');
+    } finally {
+      setDownloadingStubId(null);
+    }
+  };
+
   const handlePunch = useCallback(
     async (action: 'in' | 'out') => {
       if (!businessId) {
@@ -184,6 +239,13 @@ export default function EmployeeSelfService() {
           body.recordId = activeAttendanceRecord.id;
         }
 
+        if (geolocationEnabled) {
+          const location = await getPunchLocation();
+          if (location) {
+            body.location = location;
+          }
+        }
+
         const res = await fetch(endpoint, {
           method: 'POST',
           headers: {
@@ -207,9 +269,22 @@ export default function EmployeeSelfService() {
         setPunching(false);
       }
     },
-    [businessId, clockInOutEnabled, activeAttendanceRecord, fetchAttendanceRecords]
+    [businessId, clockInOutEnabled, geolocationEnabled, activeAttendanceRecord, fetchAttendanceRecords]
   );
 
+  const handleSaveKioskPin = async () => {
+    try {
+      setSavingKioskPin(true);
+      await setMyKioskPin(businessId, kioskPin);
+      setKioskPin('');
+      toast.success('Kiosk PIN saved');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to save kiosk PIN');
+    } finally {
+      setSavingKioskPin(false);
+    }
+  };
+
   const handleCompleteOnboardingTask = useCallback(
     async (
       taskId: string,
@@ -334,6 +409,10 @@ export default function EmployeeSelfService() {
       setOnboardingJourneys([]);
     }
   }, [onboardingFeatureEnabled, fetchOnboardingJourneys]);
+
+  useEffect(() => {
+    void fetchPayStubs();
+  }, [fetchPayStubs]);
   
   const submitRequest = async () => {
     if (!reqForm.type || !reqForm.startDate || !reqForm.endDate) {
@@ -656,6 +735,28 @@ export default function EmployeeSelfService() {
               haven&apos;t clocked out yet.
             </div>
           )}
+          {clockInOutEnabled && (
+            <div className="mt-4 flex flex-wrap items-center gap-2 border-t pt-4 text-sm">
+              <span className="text-gray-700">Kiosk PIN</span>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                placeholder="4–8 digits"
+                value={kioskPin}
+                onChange={(e) => setKioskPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                className="w-32 rounded border px-2 py-1"
+              />
+              <button
+                onClick={handleSaveKioskPin}
+                disabled={savingKioskPin || kioskPin.length < 4}
+                className="px-3 py-1 rounded border text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {savingKioskPin ? 'Saving...' : 'Set PIN'}
+              </button>
+              <span className="text-xs text-gray-500">Used to clock in at shared time clock kiosks.</span>
+            </div>
+          )}
         </div>
 
         {/* Time Off */}
@@ -741,9 +842,35 @@ export default function EmployeeSelfService() {
           <p className="text-gray-600 text-sm mb-4">
             View your pay history and download pay stubs
           </p>
-          <p className="text-sm text-gray-500">
-            Feature coming soon
-          </p>
+          {payStubsLoading ? (
+            <Spinner size={20} />
+          ) : payStubsError ? (
+            <p className="text-sm text-red-600">{payStubsError}</p>
+          ) : payStubs.length === 0 ? (
+            <p className="text-sm text-gray-500">No pay stubs issued yet</p>
+          ) : (
+            <div className="space-y-2">
+              {payStubs.slice(0, 6).map((stub) => (
+                <div key={stub.id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <div className="font-medium">
+                      {new Date(stub.payDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Net {stub.netPay.toLocaleString(undefined, { style: 'currency', currency: stub.currency })}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDownloadPayStub(stub)}
+                    disabled={downloadingStubId === stub.id}
+                    className="text-blue-600 hover:text-blue-800 text-xs disabled:opacity-50"
+                  >
+                    {downloadingStubId === stub.id ? 'Downloading...' : 'PDF'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
         
         {/* Benefits */}
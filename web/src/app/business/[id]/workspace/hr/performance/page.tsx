@@ -0,0 +1,310 @@
+/**
+ * Employee Performance Page
+ *
+ * Review tasks (self, manager and peer reviews), goals / OKRs and
+ * completed reviews from the employee's HR record
+ * Access: All business employees (Enterprise tier)
+ * Location: /business/[id]/workspace/hr/performance
+ */
+
+'use client';
+
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useState, useEffect, useCallback } from 'react';
+import { useHRFeatures } from '@/hooks/useHRFeatures';
+import { useBusinessConfiguration } from '@/contexts/BusinessConfigurationContext';
+import { Spinner, Alert, EmptyState } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import HRPageLayout from '@/components/hr/HRPageLayout';
+import {
+  deleteMyGoal,
+  getMyGoals,
+  getMyPerformanceReviews,
+  getMyReviewSubmission,
+  getMyReviewTasks,
+  saveMyGoal,
+  saveMyReviewSubmission,
+  type CompletedReview,
+  type GoalInput,
+  type PerformanceGoal,
+  type ReviewerSubmission,
+  type ReviewerTask,
+  type SubmissionAnswers,
+} from '@/api/hrPerformance';
+import ReviewSubmissionForm from '@/components/hr/performance/ReviewSubmissionForm';
+import GoalsPanel from '@/components/hr/performance/GoalsPanel';
+
+const REVIEWER_LABELS = {
+  SELF: 'Self review',
+  MANAGER: 'Manager review',
+  PEER: 'Peer review',
+} as const;
+
+function MyPerformanceContent() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const businessId = (params?.id as string) || '';
+  const submissionId = searchParams?.get('submission') ?? null;
+
+  const { businessTier } = useBusinessConfiguration();
+  const hrFeatures = useHRFeatures(businessTier || undefined);
+
+  const [tasks, setTasks] = useState<ReviewerTask[]>([]);
+  const [goals, setGoals] = useState<PerformanceGoal[]>([]);
+  const [reviews, setReviews] = useState<CompletedReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submission, setSubmission] = useState<ReviewerSubmission | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [expandedReviewId, setExpandedReviewId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!businessId || !hrFeatures.performance) {
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      const [taskData, goalData, reviewData] = await Promise.all([
+        getMyReviewTasks(businessId),
+        getMyGoals(businessId),
+        getMyPerformanceReviews(businessId),
+      ]);
+      setTasks(taskData);
+      setGoals(goalData);
+      setReviews(reviewData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load performance data');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, hrFeatures.performance]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!businessId || !submissionId || !hrFeatures.performance) {
+      setSubmission(null);
+      return;
+    }
+    getMyReviewSubmission(businessId, submissionId)
+      .then(setSubmission)
+      .catch((err: unknown) => {
+        toast.error(err instanceof Error ? err.message : 'Failed to load review');
+        setSubmission(null);
+      });
+  }, [businessId, submissionId, hrFeatures.performance]);
+
+  const openSubmission = (id: string | null) => {
+    const base = `/business/${businessId}/workspace/hr/performance`;
+    router.push(id ? `${base}?submission=${id}` : base);
+  };
+
+  const handleSaveSubmission = async (payload: {
+    answers: SubmissionAnswers;
+    overallRating: number | null;
+    comments: string | null;
+    submit: boolean;
+  }) => {
+    if (!submission) return;
+    try {
+      setSaving(true);
+      const updated = await saveMyReviewSubmission(businessId, submission.id, payload);
+      if (payload.submit) {
+        toast.success('Review submitted');
+        openSubmission(null);
+        await load();
+      } else {
+        setSubmission(updated);
+        toast.success('Draft saved');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveGoal = async (payload: GoalInput, goalId?: string) => {
+    try {
+      setSaving(true);
+      await saveMyGoal(businessId, payload, goalId);
+      setGoals(await getMyGoals(businessId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save goal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteGoal = async (goal: PerformanceGoal) => {
+    if (!window.confirm(`Delete "${goal.title}"?`)) return;
+    try {
+      setSaving(true);
+      await deleteMyGoal(businessId, goal.id);
+      setGoals(await getMyGoals(businessId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete goal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!hrFeatures.performance) {
+    return (
+      <HRPageLayout businessId={businessId} currentView="my-performance">
+        <div className="p-6">
+          <Alert type="warning" title="Performance Not Available">
+            {hrFeatures.getFeatureUpgradeMessage('performance') ?? 'Performance management is available on the Enterprise tier.'}
+          </Alert>
+        </div>
+      </HRPageLayout>
+    );
+  }
+
+  return (
+    <HRPageLayout businessId={businessId} currentView="my-performance">
+      <div className="p-6 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold">My Performance</h1>
+          <p className="text-gray-600 mt-2">Complete your reviews, track your goals and see past review results.</p>
+        </div>
+
+        {error && (
+          <Alert type="error" title="Unable to load performance">
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size={28} />
+          </div>
+        ) : submission ? (
+          <section className="border rounded-lg p-6 bg-white">
+            <ReviewSubmissionForm
+              submission={submission}
+              saving={saving}
+              onSave={handleSaveSubmission}
+              onCancel={() => openSubmission(null)}
+            />
+          </section>
+        ) : (
+          <>
+            <section className="border rounded-lg p-6 bg-white">
+              <h2 className="text-lg font-semibold mb-4">Reviews To Complete</h2>
+              {tasks.length === 0 ? (
+                <EmptyState icon="✅" title="All caught up" description="You have no open reviews to complete." />
+              ) : (
+                <div className="divide-y">
+                  {tasks.map((task) => {
+                    const { user } = task.review.employeeHrProfile.employeePosition;
+                    return (
+                      <div key={task.id} className="flex items-center justify-between py-3 text-sm">
+                        <div>
+                          <div className="font-medium">
+                            {REVIEWER_LABELS[task.reviewerType]}
+                            {task.reviewerType !== 'SELF' && `: ${user.name || user.email}`}
+                          </div>
+                          <div className="text-gray-500">
+                            {task.review.cycle.name} · due{' '}
+                            {new Date(task.review.cycle.dueDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                            {task.status === 'DRAFT' && ' · draft saved'}
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => openSubmission(task.id)}
+                          className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-500"
+                        >
+                          {task.status === 'DRAFT' ? 'Continue' : 'Start'}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            <section className="border rounded-lg p-6 bg-white">
+              <h2 className="text-lg font-semibold mb-4">Goals &amp; OKRs</h2>
+              <GoalsPanel goals={goals} saving={saving} onSave={handleSaveGoal} onDelete={handleDeleteGoal} />
+            </section>
+
+            <section className="border rounded-lg p-6 bg-white">
+              <h2 className="text-lg font-semibold mb-4">Completed Reviews</h2>
+              {reviews.length === 0 ? (
+                <EmptyState icon="📈" title="No completed reviews" description="Finalized reviews are kept here on your HR record." />
+              ) : (
+                <div className="divide-y">
+                  {reviews.map((review) => {
+                    const levelLabel = review.ratingLevels.find((level) => level.value === review.finalRating)?.label;
+                    const expanded = expandedReviewId === review.id;
+                    return (
+                      <div key={review.id} className="py-3 text-sm">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="font-medium">{review.cycle.name}</div>
+                            <div className="text-gray-500">
+                              Final rating: {review.finalRating ?? '—'}
+                              {levelLabel ? ` (${levelLabel})` : ''}
+                            </div>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setExpandedReviewId(expanded ? null : review.id)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {expanded ? 'Hide' : 'View'}
+                          </button>
+                        </div>
+                        {expanded && (
+                          <div className="mt-3 space-y-4 rounded bg-gray-50 p-4">
+                            {review.summary && <p className="text-gray-700 whitespace-pre-line">{review.summary}</p>}
+                            {review.submissions.map((entry) => (
+                              <div key={entry.id}>
+                                <div className="font-medium text-gray-800">
+                                  {REVIEWER_LABELS[entry.reviewerType]}
+                                  {entry.overallRating != null && ` · ${entry.overallRating}`}
+                                </div>
+                                <ul className="mt-1 space-y-1 text-gray-600">
+                                  {review.questions
+                                    .filter((question) => entry.answers?.[question.id])
+                                    .map((question) => {
+                                      const answer = entry.answers?.[question.id];
+                                      return (
+                                        <li key={question.id}>
+                                          <span className="text-gray-500">{question.prompt}:</span>{' '}
+                                          {answer?.rating ?? answer?.text}
+                                        </li>
+                                      );
+                                    })}
+                                </ul>
+                                {entry.comments && <p className="mt-1 text-gray-600 italic">{entry.comments}</p>}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </HRPageLayout>
+  );
+}
+
+export default function MyPerformancePage() {
+  return (
+    <Suspense fallback={<div className="flex items-center justify-center py-12"><Spinner size={28} /></div>}>
+      <MyPerformanceContent />
+    </Suspense>
+  );
+}
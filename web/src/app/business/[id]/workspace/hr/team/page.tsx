@@ -28,6 +28,12 @@ import {
 } from '@/api/hrOnboarding';
 import ManagerOnboardingDashboard from '@/components/hr/onboarding/ManagerOnboardingDashboard';
 import TeamOnboardingTaskList from '@/components/hr/onboarding/TeamOnboardingTaskList';
+import {
+  getTeamPerformanceReviews,
+  type ReviewerTask,
+  type TeamReviewStatus,
+} from '@/api/hrPerformance';
+import TeamPerformanceReviews from '@/components/hr/performance/TeamPerformanceReviews';
 
 interface TeamMember {
   id: string;
@@ -93,6 +99,7 @@ export default function ManagerTeamView() {
   const { businessTier } = useBusinessConfiguration();
   const hrFeatures = useHRFeatures(businessTier || undefined);
   const onboardingManagerFeatureEnabled = Boolean(hrFeatures.onboarding?.enabled);
+  const performanceFeatureEnabled = hrFeatures.performance;
   
   const [loading, setLoading] = useState(true);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
@@ -111,6 +118,10 @@ export default function ManagerTeamView() {
   const [onboardingTasksError, setOnboardingTasksError] = useState<string | null>(null);
   const [onboardingTasks, setOnboardingTasks] = useState<TeamOnboardingTask[]>([]);
   const [completingOnboardingTaskId, setCompletingOnboardingTaskId] = useState<string | null>(null);
+  const [performanceLoading, setPerformanceLoading] = useState(false);
+  const [performanceError, setPerformanceError] = useState<string | null>(null);
+  const [performanceReviews, setPerformanceReviews] = useState<TeamReviewStatus[]>([]);
+  const [performanceTasks, setPerformanceTasks] = useState<ReviewerTask[]>([]);
   const openExceptionCount = exceptionsMeta.total;
 
   const fetchOnboardingTasks = useCallback(async () => {
@@ -131,6 +142,25 @@ export default function ManagerTeamView() {
       setOnboardingTasksLoading(false);
     }
   }, [businessId, onboardingManagerFeatureEnabled]);
+
+  const fetchPerformanceReviews = useCallback(async () => {
+    if (!businessId || !performanceFeatureEnabled) {
+      return;
+    }
+    try {
+      setPerformanceLoading(true);
+      setPerformanceError(null);
+      const data = await getTeamPerformanceReviews(businessId);
+      setPerformanceReviews(data.reviews);
+      setPerformanceTasks(data.tasks);
+    } catch (error) {
+      setPerformanceError(error instanceof Error ? error.message : 'Failed to load performance reviews');
+      setPerformanceReviews([]);
+      setPerformanceTasks([]);
+    } finally {
+      setPerformanceLoading(false);
+    }
+  }, [businessId, performanceFeatureEnabled]);
   
   useEffect(() => {
     const load = async () => {
@@ -196,6 +226,10 @@ export default function ManagerTeamView() {
     }
   }, [onboardingManagerFeatureEnabled, fetchOnboardingTasks]);
 
+  useEffect(() => {
+    void fetchPerformanceReviews();
+  }, [fetchPerformanceReviews]);
+
   const actOn = async (id: string, decision: 'APPROVE' | 'DENY') => {
     setApproving(id);
     try {
@@ -469,6 +503,39 @@ export default function ManagerTeamView() {
           </div>
         )}
 
+        {performanceFeatureEnabled && (
+          <div className="border rounded-lg p-6 bg-white md:col-span-2 xl:col-span-3">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold">Performance Reviews</h3>
+                <p className="text-sm text-gray-600">
+                  Review progress for your direct reports in active review cycles.
+                </p>
+              </div>
+              {performanceLoading && <Spinner size={20} />}
+            </div>
+            {performanceError ? (
+              <Alert type="error" title="Unable to load performance reviews">
+                {performanceError}
+              </Alert>
+            ) : performanceReviews.length === 0 ? (
+              !performanceLoading && (
+                <EmptyState
+                  icon="📈"
+                  title="No active reviews"
+                  description="Your team's reviews will appear here when HR launches a review cycle."
+                />
+              )
+            ) : (
+              <TeamPerformanceReviews
+                businessId={businessId}
+                reviews={performanceReviews}
+                tasks={performanceTasks}
+              />
+            )}
+          </div>
+        )}
+
         {/* Team Members */}
         <div className="border rounded-lg p-6 bg-white">
           <div className="text-3xl mb-3">👥</div>
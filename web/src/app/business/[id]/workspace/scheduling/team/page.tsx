@@ -17,6 +17,8 @@ export default function ManagerTeamSchedulingPage() {
     if (businessId) {
       const viewMap: Record<string, string> = {
         schedules: 'team',
+        'open-shifts': 'team-open-shifts',
+        availability: 'team-availability',
         swaps: 'swaps',
       };
       const view = viewMap[activeTab] || 'team';
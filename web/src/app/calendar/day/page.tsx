@@ -127,7 +127,7 @@ function DayInner() {
       if (calendarIds.length === 0) { setBusy([]); return; }
       try {
         const resp = await calendarAPI.freeBusy({ start: start.toISOString(), end: end.toISOString(), calendarIds });
-        if ((resp as any)?.success) setBusy((resp as any).data);
+        if (resp?.success) setBusy(resp.data.busy);
       } catch {}
     })();
   }, [showAvailability, viewDate, visibleCalendarIds, events]);
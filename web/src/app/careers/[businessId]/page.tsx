@@ -0,0 +1,293 @@
+'use client';
+
+export const dynamic = "force-dynamic";
+
+import React, { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { Spinner, Alert, EmptyState } from 'shared/components';
+import { MapPin, Briefcase, ArrowLeft } from 'lucide-react';
+import {
+  getPublicJobPostings,
+  submitPublicJobApplication,
+  ApplicationFormInput,
+  PublicJobPosting,
+  PublicJobPostings
+} from '@/api/hrRecruitment';
+
+const EMPTY_FORM: ApplicationFormInput = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  linkedinUrl: '',
+  coverLetter: '',
+  resume: null
+};
+
+const formatSalary = (posting: PublicJobPosting) => {
+  if (posting.salaryMin == null && posting.salaryMax == null) return null;
+  const format = (value: number) =>
+    value.toLocaleString(undefined, { style: 'currency', currency: posting.salaryCurrency, maximumFractionDigits: 0 });
+  if (posting.salaryMin != null && posting.salaryMax != null) {
+    return `${format(posting.salaryMin)} – ${format(posting.salaryMax)}`;
+  }
+  return format((posting.salaryMin ?? posting.salaryMax) as number);
+};
+
+const formatEmploymentType = (type: string) =>
+  type.replace('_', ' ').toLowerCase().replace(/^\w/, (c) => c.toUpperCase());
+
+function BusinessCareersContent() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const businessId = params?.businessId as string;
+
+  const [data, setData] = useState<PublicJobPostings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(searchParams?.get('job') ?? null);
+  const [form, setForm] = useState<ApplicationFormInput>(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    if (!businessId) return;
+    setLoading(true);
+    getPublicJobPostings(businessId)
+      .then((result) => {
+        setData(result);
+        setError(null);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load job postings'))
+      .finally(() => setLoading(false));
+  }, [businessId]);
+
+  const selected = data?.postings.find((posting) => posting.id === selectedId) ?? null;
+
+  const selectPosting = (id: string | null) => {
+    setSelectedId(id);
+    setForm(EMPTY_FORM);
+    setSubmitError(null);
+    setSubmitted(false);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selected) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      await submitPublicJobApplication(businessId, selected.id, form);
+      setSubmitted(true);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to submit application');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16">
+        <Alert type="error" title="Careers page unavailable">
+          {error || 'This careers page could not be found.'}
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex items-center gap-4">
+          {data.business.logo && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={data.business.logo} alt={data.business.name} className="h-12 w-12 rounded object-contain" />
+          )}
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Careers at {data.business.name}</h1>
+            <p className="text-gray-600 mt-1">
+              {data.postings.length === 1 ? '1 open position' : `${data.postings.length} open positions`}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!selected ? (
+          data.postings.length === 0 ? (
+            <div className="bg-white border rounded-lg">
+              <EmptyState
+                icon="💼"
+                title="No open positions"
+                description="There are no openings right now. Check back soon."
+              />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {data.postings.map((posting) => (
+                <button
+                  key={posting.id}
+                  type="button"
+                  onClick={() => selectPosting(posting.id)}
+                  className="w-full text-left bg-white border border-gray-200 rounded-lg p-5 hover:border-blue-300 hover:shadow-sm transition"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">{posting.title}</h2>
+                      <div className="flex flex-wrap items-center gap-3 mt-1 text-sm text-gray-500">
+                        {posting.position.department && <span>{posting.position.department.name}</span>}
+                        <span className="flex items-center gap-1">
+                          <Briefcase className="w-4 h-4" />
+                          {formatEmploymentType(posting.employmentType)}
+                        </span>
+                        {posting.location && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="w-4 h-4" />
+                            {posting.location}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    {formatSalary(posting) && (
+                      <span className="text-sm text-gray-700 whitespace-nowrap">{formatSalary(posting)}</span>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-5">
+            <section className="lg:col-span-3 bg-white border rounded-lg p-6">
+              <button
+                type="button"
+                onClick={() => selectPosting(null)}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                All openings
+              </button>
+              <h2 className="text-2xl font-bold text-gray-900">{selected.title}</h2>
+              <div className="flex flex-wrap items-center gap-3 mt-2 text-sm text-gray-500">
+                {selected.position.department && <span>{selected.position.department.name}</span>}
+                <span>{formatEmploymentType(selected.employmentType)}</span>
+                {selected.location && <span>{selected.location}</span>}
+                {formatSalary(selected) && <span>{formatSalary(selected)}</span>}
+              </div>
+              {selected.description ? (
+                <div className="mt-6 text-gray-700 whitespace-pre-line">{selected.description}</div>
+              ) : (
+                <p className="mt-6 text-gray-500">No description provided.</p>
+              )}
+            </section>
+
+            <section className="lg:col-span-2 bg-white border rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Apply for this position</h3>
+              {submitted ? (
+                <Alert type="success" title="Application submitted">
+                  Thanks for applying! The hiring team will be in touch.
+                </Alert>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-3">
+                  {submitError && (
+                    <Alert type="error" title="Could not submit application">
+                      {submitError}
+                    </Alert>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <input
+                      required
+                      placeholder="First name"
+                      value={form.firstName}
+                      onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+                      className="border rounded px-3 py-2 text-sm"
+                    />
+                    <input
+                      required
+                      placeholder="Last name"
+                      value={form.lastName}
+                      onChange={(e) => setForm({ ...form, lastName: e.target.value })}
+                      className="border rounded px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <input
+                    required
+                    type="email"
+                    placeholder="Email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    className="w-full border rounded px-3 py-2 text-sm"
+                  />
+                  <input
+                    placeholder="Phone (optional)"
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                    className="w-full border rounded px-3 py-2 text-sm"
+                  />
+                  <input
+                    type="url"
+                    placeholder="LinkedIn profile (optional)"
+                    value={form.linkedinUrl}
+                    onChange={(e) => setForm({ ...form, linkedinUrl: e.target.value })}
+                    className="w-full border rounded px-3 py-2 text-sm"
+                  />
+                  <textarea
+                    rows={5}
+                    placeholder="Cover letter (optional)"
+                    value={form.coverLetter}
+                    onChange={(e) => setForm({ ...form, coverLetter: e.target.value })}
+                    className="w-full border rounded px-3 py-2 text-sm"
+                  />
+                  <label className="block text-sm text-gray-700">
+                    Resume (PDF, DOC, DOCX, ODT, RTF or TXT, max 10MB)
+                    <input
+                      required
+                      type="file"
+                      accept=".pdf,.doc,.docx,.odt,.rtf,.txt"
+                      onChange={(e) => setForm({ ...form, resume: e.target.files?.[0] ?? null })}
+                      className="mt-1 block w-full text-sm"
+                    />
+                  </label>
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {submitting ? 'Submitting…' : 'Submit application'}
+                  </button>
+                </form>
+              )}
+            </section>
+          </div>
+        )}
+
+        <p className="text-center text-xs text-gray-400 mt-10">
+          Powered by <Link href="/" className="hover:underline">Vssyl</Link>
+        </p>
+      </main>
+    </div>
+  );
+}
+
+export default function BusinessCareersPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    }>
+      <BusinessCareersContent />
+    </Suspense>
+  );
+}
@@ -9,7 +9,8 @@ import {
   PlusIcon, 
   ArrowUpTrayIcon,
   BriefcaseIcon,
-  AcademicCapIcon
+  AcademicCapIcon,
+  ServerStackIcon
 } from '@heroicons/react/24/outline';
 import { Pin, Download } from 'lucide-react';
 import Link from 'next/link';
@@ -18,6 +19,7 @@ import { useDashboard } from '../../contexts/DashboardContext';
 import FolderTree from '../../components/drive/FolderTree';
 import { useDroppable } from '@dnd-kit/core';
 import { useDriveWebSocket } from '../../hooks/useDriveWebSocket';
+import { getStorageUsage, StorageUsage } from '../../api/drive';
 
 interface DriveSidebarProps {
   onNewFolder: () => void;
@@ -73,6 +75,7 @@ interface StyleProps {
 // Utility folders (always present)
 const utilityFolders: UtilityFolder[] = [
   { icon: UserGroupIcon, label: 'Shared with me', href: '/drive/shared' },
+  { icon: ServerStackIcon, label: 'Shared drives', href: '/drive/shared-drives' },
   { icon: ClockIcon, label: 'Recent', href: '/drive/recent' },
   { icon: Pin, label: 'Pinned', href: '/drive/starred' },
   { icon: TrashIcon, label: 'Trash', href: '/drive/trash', isTrash: true },
@@ -223,7 +226,6 @@ export default function DriveSidebar({
   // Get dashboard context
   const { 
     allDashboards,
-    dashboards,
     currentDashboard, 
     getDashboardType, 
     getDashboardDisplayName 
@@ -284,64 +286,30 @@ export default function DriveSidebar({
     disabled: false,
   });
 
-  // Storage usage state (only for personal drives)
-  const [storageUsage, setStorageUsage] = useState({ used: 0, total: 10 * 1024 * 1024 * 1024 }); // 10GB default
+  // Quota usage for the current drive: the business's quota in business drives, otherwise the user's own
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [isLoadingStorage, setIsLoadingStorage] = useState(false);
 
-  // Calculate total storage across all personal dashboards
-  const loadPersonalStorage = useCallback(async () => {
-    if (!session?.accessToken) return;
-    
-    // Only calculate for personal drives
-    // Check if current dashboard is personal (not business/enterprise/educational/household)
-    const dashboardType = currentDashboard ? getDashboardType(currentDashboard) : 'personal';
-    const isPersonalDrive = dashboardType === 'personal';
-    
-    if (!isPersonalDrive) {
-      setStorageUsage({ used: 0, total: 10 * 1024 * 1024 * 1024 });
-      return;
-    }
+  const storageBusinessId = currentDashboard && getDashboardType(currentDashboard) === 'business'
+    ? (currentDashboard as { business?: { id: string } }).business?.id ?? null
+    : null;
 
+  const loadStorageUsage = useCallback(async () => {
+    if (!session?.accessToken) return;
     try {
       setIsLoadingStorage(true);
-      
-      // Get all personal dashboard IDs
-      const personalDashboardIds = dashboards?.personal?.map((d: any) => d.id) || [];
-      
-      if (personalDashboardIds.length === 0) {
-        setStorageUsage({ used: 0, total: 10 * 1024 * 1024 * 1024 });
-        return;
-      }
-
-      // Fetch files from all personal dashboards
-      const filePromises = personalDashboardIds.map(async (dashboardId: string) => {
-        const response = await fetch(`/api/drive/files?dashboardId=${dashboardId}`, {
-          headers: {
-            'Authorization': `Bearer ${session.accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        if (!response.ok) return [];
-        const files = await response.json();
-        return files;
-      });
-
-      const allFilesArrays = await Promise.all(filePromises);
-      const allFiles = allFilesArrays.flat();
-      
-      // Calculate total size across all personal dashboards
-      const totalSize = allFiles.reduce((sum: number, file: any) => sum + (file.size || 0), 0);
-      setStorageUsage({ used: totalSize, total: 10 * 1024 * 1024 * 1024 });
+      const summary = await getStorageUsage(session.accessToken, storageBusinessId);
+      setStorageUsage(summary.business ?? summary.personal);
     } catch (error) {
       console.error('Failed to load storage usage:', error);
     } finally {
       setIsLoadingStorage(false);
     }
-  }, [session?.accessToken, dashboards, currentDashboard, getDashboardType]);
+  }, [session?.accessToken, storageBusinessId]);
 
   useEffect(() => {
-    loadPersonalStorage();
-  }, [loadPersonalStorage]);
+    loadStorageUsage();
+  }, [loadStorageUsage]);
 
   // Format file size helper
   const formatFileSize = (bytes: number): string => {
@@ -534,6 +502,7 @@ export default function DriveSidebar({
         if (dashboardId && (!folderId || folderTrees[dashboardId]?.some(f => f.id === folderId))) {
           await loadRootFolders(dashboardId);
         }
+        loadStorageUsage();
       },
       onItemUpdated: async (data: Record<string, unknown>) => {
         const dashboardId = data.dashboardId as string | undefined;
@@ -546,6 +515,7 @@ export default function DriveSidebar({
         if (dashboardId && folderTrees[dashboardId]) {
           await loadRootFolders(dashboardId);
         }
+        loadStorageUsage();
       },
       onItemMoved: async (data: Record<string, unknown>) => {
         const dashboardId = data.dashboardId as string | undefined;
@@ -753,27 +723,39 @@ export default function DriveSidebar({
         ))}
       </section>
 
-      {/* Storage Usage - Only show for personal drives, at the bottom */}
-      {currentDashboard && getDashboardType(currentDashboard) === 'personal' && (
-        <div style={{
-          padding: '12px',
-          background: '#f8fafc',
-          borderRadius: '8px',
-          marginTop: 'auto',
-          border: '1px solid #e5e7eb'
-        }}>
+      {/* Storage usage against the current drive's quota, at the bottom */}
+      {storageUsage && (
+        <div
+          style={{
+            padding: '12px',
+            background: '#f8fafc',
+            borderRadius: '8px',
+            marginTop: 'auto',
+            border: '1px solid #e5e7eb'
+          }}
+          title={[
+            `Files: ${formatFileSize(storageUsage.breakdown.drive)}`,
+            `Trash: ${formatFileSize(storageUsage.breakdown.trash)}`,
+            `Previous versions: ${formatFileSize(storageUsage.breakdown.versions)}`,
+            `Chat uploads: ${formatFileSize(storageUsage.breakdown.chat)}`,
+            `Task attachments: ${formatFileSize(storageUsage.breakdown.taskAttachments)}`,
+            `Profile photos: ${formatFileSize(storageUsage.breakdown.profilePhotos)}`
+          ].join('\n')}
+        >
           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
               <Download style={{ width: 16, height: 16, color: '#6b7280' }} />
-              <span style={{ fontSize: '12px', fontWeight: 600, color: '#374151' }}>Storage</span>
+              <span style={{ fontSize: '12px', fontWeight: 600, color: '#374151' }}>
+                {storageUsage.scope.businessId ? 'Business storage' : 'Storage'}
+              </span>
             </div>
             {!isLoadingStorage && (
               <span style={{ fontSize: '11px', color: '#6b7280' }}>
-                {formatFileSize(storageUsage.used)} / {formatFileSize(storageUsage.total)}
+                {formatFileSize(storageUsage.usedBytes)} / {storageUsage.limitBytes === null ? 'Unlimited' : formatFileSize(storageUsage.limitBytes)}
               </span>
             )}
           </div>
-          {!isLoadingStorage && (
+          {storageUsage.limitBytes !== null && (
             <>
               <div style={{
                 width: '100%',
@@ -784,17 +766,17 @@ export default function DriveSidebar({
               }}>
                 <div
                   style={{
-                    background: '#2563eb',
+                    background: storageUsage.percentageUsed >= 90 ? '#dc2626' : storageUsage.percentageUsed >= 75 ? '#d97706' : '#2563eb',
                     height: '100%',
                     borderRadius: '4px',
                     transition: 'width 0.3s',
-                    width: `${Math.min((storageUsage.used / storageUsage.total) * 100, 100)}%`
+                    width: `${storageUsage.percentageUsed}%`
                   }}
                 />
               </div>
               <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: '#9ca3af', marginTop: '4px' }}>
-                <span>{((storageUsage.used / storageUsage.total) * 100).toFixed(1)}% used</span>
-                <span>{formatFileSize(storageUsage.total - storageUsage.used)} available</span>
+                <span>{storageUsage.percentageUsed.toFixed(1)}% used</span>
+                <span>{formatFileSize(storageUsage.remainingBytes ?? 0)} available</span>
               </div>
             </>
           )}
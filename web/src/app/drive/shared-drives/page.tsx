@@ -0,0 +1,469 @@
+'use client';
+
+export const dynamic = "force-dynamic";
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useDashboard } from '@/contexts/DashboardContext';
+import {
+  File,
+  Folder,
+  SharedDrive,
+  SharedDriveDetails,
+  SharedDriveRole,
+  listSharedDrives,
+  createSharedDrive,
+  getSharedDrive,
+  deleteSharedDrive,
+  setSharedDriveMember,
+  removeSharedDriveMember,
+  setSharedDriveDepartment,
+  removeSharedDriveDepartment,
+  listFiles,
+  listFolders,
+  createFolder,
+  uploadFile,
+  downloadFile,
+  getBusinessMembers
+} from '@/api/drive';
+import { getDepartments, Department } from '@/api/orgChart';
+import { LoadingOverlay } from 'shared/components/LoadingOverlay';
+import { Alert } from 'shared/components/Alert';
+import { Button } from 'shared/components';
+import { formatFileSize, formatDate } from 'shared/utils/format';
+import { ServerStackIcon, FolderIcon, DocumentIcon, ArrowDownTrayIcon, ArrowLeftIcon, PlusIcon } from '@heroicons/react/24/outline';
+import DriveSidebar from '../DriveSidebar';
+
+const ROLES: SharedDriveRole[] = ['VIEWER', 'CONTRIBUTOR', 'MANAGER'];
+const ROLE_LABELS: Record<SharedDriveRole, string> = {
+  VIEWER: 'Viewer',
+  CONTRIBUTOR: 'Contributor',
+  MANAGER: 'Manager',
+};
+
+type BusinessMemberOption = { id: string; name: string | null; email: string };
+
+const SharedDrivesPage = () => {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const { currentDashboard, navigateToDashboard } = useDashboard();
+  const businessId = (currentDashboard as { business?: { id: string } } | null)?.business?.id ?? null;
+  const token = session?.accessToken as string | undefined;
+
+  const [drives, setDrives] = useState<SharedDrive[]>([]);
+  const [drive, setDrive] = useState<SharedDriveDetails | null>(null);
+  const [folderPath, setFolderPath] = useState<Array<{ id: string; name: string }>>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [members, setMembers] = useState<BusinessMemberOption[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentFolderId = folderPath.length > 0 ? folderPath[folderPath.length - 1].id : undefined;
+  const canContribute = drive?.role === 'CONTRIBUTOR' || drive?.role === 'MANAGER';
+  const canManage = drive?.role === 'MANAGER';
+
+  const loadDrives = useCallback(async () => {
+    if (!token || !businessId) return;
+    try {
+      setDrives(await listSharedDrives(token, businessId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load shared drives');
+    }
+  }, [token, businessId]);
+
+  const loadContents = useCallback(async () => {
+    if (!token || !drive) return;
+    try {
+      const [nextFiles, nextFolders] = await Promise.all([
+        listFiles(token, currentFolderId, undefined, drive.id),
+        listFolders(token, currentFolderId, undefined, drive.id),
+      ]);
+      setFiles(nextFiles);
+      setFolders(nextFolders);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load drive contents');
+    }
+  }, [token, drive, currentFolderId]);
+
+  useEffect(() => {
+    if (status !== 'authenticated') {
+      if (status === 'unauthenticated') setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    setDrive(null);
+    loadDrives().finally(() => setLoading(false));
+  }, [status, loadDrives]);
+
+  useEffect(() => {
+    loadContents();
+  }, [loadContents]);
+
+  // Member and department pickers are only needed by drive managers
+  useEffect(() => {
+    if (!token || !businessId || !canManage) return;
+    getBusinessMembers(token, businessId)
+      .then((rows) => setMembers(rows.map((row) => row.user)))
+      .catch(() => setMembers([]));
+    getDepartments(businessId, token)
+      .then((result) => setDepartments(result.data || []))
+      .catch(() => setDepartments([]));
+  }, [token, businessId, canManage]);
+
+  const openDrive = async (id: string) => {
+    if (!token) return;
+    try {
+      setError(null);
+      setFolderPath([]);
+      setDrive(await getSharedDrive(token, id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open shared drive');
+    }
+  };
+
+  const refreshDrive = async () => {
+    if (token && drive) setDrive(await getSharedDrive(token, drive.id));
+  };
+
+  // Run a change and surface its error, then reload what it touched
+  const runAction = async (action: () => Promise<unknown>, reload: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleCreateDrive = async () => {
+    if (!token || !businessId) return;
+    const name = prompt('Shared drive name:');
+    if (!name) return;
+    await runAction(() => createSharedDrive(token, businessId, name), loadDrives);
+  };
+
+  const handleDeleteDrive = async () => {
+    if (!token || !drive) return;
+    if (!confirm(`Delete the shared drive "${drive.name}"? Only empty drives can be deleted.`)) return;
+    await runAction(() => deleteSharedDrive(token, drive.id), async () => {
+      setDrive(null);
+      await loadDrives();
+    });
+  };
+
+  const handleCreateFolder = useCallback(async () => {
+    if (!token || !drive || !canContribute) return;
+    const name = prompt('Enter folder name:');
+    if (!name) return;
+    await runAction(() => createFolder(token, name, currentFolderId, drive.id), loadContents);
+  }, [token, drive, canContribute, currentFolderId, loadContents]);
+
+  const handleFileUpload = useCallback(() => {
+    if (!token || !drive || !canContribute) return;
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.onchange = async (e) => {
+      const selected = (e.target as HTMLInputElement).files;
+      if (!selected) return;
+      await runAction(async () => {
+        for (const file of Array.from(selected)) {
+          await uploadFile(token, file, currentFolderId, false, undefined, drive.id);
+        }
+      }, loadContents);
+    };
+    input.click();
+  }, [token, drive, canContribute, currentFolderId, loadContents]);
+
+  const handleContextSwitch = useCallback(async (dashboardId: string) => {
+    await navigateToDashboard(dashboardId);
+    router.push(`/drive?dashboard=${dashboardId}`);
+  }, [navigateToDashboard, router]);
+
+  const handleFolderSelect = useCallback((folderId: string | null) => {
+    const dashboardId = currentDashboard?.id;
+    const query = new URLSearchParams();
+    if (dashboardId) query.set('dashboard', dashboardId);
+    if (folderId) query.set('folder', folderId);
+    router.push(`/drive${query.toString() ? `?${query.toString()}` : ''}`);
+  }, [currentDashboard, router]);
+
+  const handleDownload = async (file: File) => {
+    if (!token) return;
+    try {
+      await downloadFile(token, file.id);
+    } catch {
+      setError('Failed to download file');
+    }
+  };
+
+  const renderAccess = (details: SharedDriveDetails) => {
+    const memberIds = new Set(details.members.map((member) => member.userId));
+    const grantedDepartments = new Set(details.departments.map((grant) => grant.departmentId));
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Members</h2>
+          <ul className="divide-y divide-gray-100">
+            {details.members.map((member) => (
+              <li key={member.id} className="py-2 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{member.user.name || member.user.email}</p>
+                  <p className="text-xs text-gray-500 truncate">{member.user.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    className="text-sm border border-gray-300 rounded px-2 py-1"
+                    value={member.role}
+                    onChange={(e) => token && runAction(
+                      () => setSharedDriveMember(token, details.id, member.userId, e.target.value as SharedDriveRole),
+                      refreshDrive
+                    )}
+                  >
+                    {ROLES.map((role) => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                  <button
+                    className="text-sm text-red-600 hover:underline"
+                    onClick={() => token && runAction(() => removeSharedDriveMember(token, details.id, member.userId), refreshDrive)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <select
+            className="mt-3 w-full text-sm border border-gray-300 rounded px-2 py-1"
+            value=""
+            onChange={(e) => token && e.target.value && runAction(
+              () => setSharedDriveMember(token, details.id, e.target.value, 'CONTRIBUTOR'),
+              refreshDrive
+            )}
+          >
+            <option value="">Add a member…</option>
+            {members.filter((member) => !memberIds.has(member.id)).map((member) => (
+              <option key={member.id} value={member.id}>{member.name || member.email}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Departments</h2>
+          <p className="text-xs text-gray-500 mb-3">Everyone in a department and its sub-departments gets its role.</p>
+          <ul className="divide-y divide-gray-100">
+            {details.departments.map((grant) => (
+              <li key={grant.id} className="py-2 flex items-center justify-between gap-3">
+                <p className="text-sm font-medium text-gray-900 truncate">{grant.department.name}</p>
+                <div className="flex items-center gap-2">
+                  <select
+                    className="text-sm border border-gray-300 rounded px-2 py-1"
+                    value={grant.role}
+                    onChange={(e) => token && runAction(
+                      () => setSharedDriveDepartment(token, details.id, grant.departmentId, e.target.value as SharedDriveRole),
+                      refreshDrive
+                    )}
+                  >
+                    {ROLES.map((role) => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                  <button
+                    className="text-sm text-red-600 hover:underline"
+                    onClick={() => token && runAction(() => removeSharedDriveDepartment(token, details.id, grant.departmentId), refreshDrive)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <select
+            className="mt-3 w-full text-sm border border-gray-300 rounded px-2 py-1"
+            value=""
+            onChange={(e) => token && e.target.value && runAction(
+              () => setSharedDriveDepartment(token, details.id, e.target.value, 'VIEWER'),
+              refreshDrive
+            )}
+          >
+            <option value="">Add a department…</option>
+            {departments.filter((department) => !grantedDepartments.has(department.id)).map((department) => (
+              <option key={department.id} value={department.id}>{department.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <Button onClick={handleDeleteDrive} variant="secondary" size="sm">
+          Delete shared drive
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <DriveSidebar
+        onNewFolder={handleCreateFolder}
+        onFileUpload={handleFileUpload}
+        onFolderUpload={handleFileUpload}
+        onContextSwitch={handleContextSwitch}
+        onFolderSelect={handleFolderSelect}
+      />
+
+      <div className="flex-1 overflow-auto">
+        {status === 'loading' || loading ? (
+          <div className="flex items-center justify-center h-full">
+            <LoadingOverlay message="Loading shared drives..." />
+          </div>
+        ) : !businessId ? (
+          <div className="p-6">
+            <Alert type="info" title="Shared drives">
+              Shared drives belong to a business. Switch to a business dashboard to see its shared drives.
+            </Alert>
+          </div>
+        ) : drive ? (
+          <div className="p-6 space-y-6">
+            <div>
+              <Button onClick={() => setDrive(null)} variant="ghost" size="sm" className="mb-4">
+                <ArrowLeftIcon className="w-4 h-4 mr-2" />
+                All shared drives
+              </Button>
+              <h1 className="text-3xl font-bold text-gray-900 mb-1">{drive.name}</h1>
+              <p className="text-gray-600">
+                {drive.description || 'Shared drive'} · You are a {ROLE_LABELS[drive.role].toLowerCase()}
+              </p>
+            </div>
+
+            {error && <Alert type="error" title="Error">{error}</Alert>}
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="xl:col-span-2 space-y-4">
+                <div className="flex items-center justify-between">
+                  <nav className="flex items-center gap-1 text-sm text-gray-600">
+                    <button className="hover:underline" onClick={() => setFolderPath([])}>{drive.name}</button>
+                    {folderPath.map((folder, index) => (
+                      <React.Fragment key={folder.id}>
+                        <span>/</span>
+                        <button className="hover:underline" onClick={() => setFolderPath(folderPath.slice(0, index + 1))}>
+                          {folder.name}
+                        </button>
+                      </React.Fragment>
+                    ))}
+                  </nav>
+                  {canContribute && (
+                    <div className="flex gap-2">
+                      <Button onClick={handleCreateFolder} variant="secondary" size="sm">New folder</Button>
+                      <Button onClick={handleFileUpload} variant="primary" size="sm">Upload</Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                  {folders.length === 0 && files.length === 0 ? (
+                    <p className="p-6 text-sm text-gray-500 text-center">This folder is empty.</p>
+                  ) : (
+                    <table className="w-full text-left">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th className="p-4 text-sm font-semibold text-gray-600">Name</th>
+                          <th className="p-4 text-sm font-semibold text-gray-600">Size</th>
+                          <th className="p-4 text-sm font-semibold text-gray-600">Modified</th>
+                          <th className="p-4" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {folders.map((folder) => (
+                          <tr
+                            key={folder.id}
+                            className="border-b border-gray-200 last:border-b-0 hover:bg-gray-50 cursor-pointer"
+                            onClick={() => setFolderPath([...folderPath, { id: folder.id, name: folder.name }])}
+                          >
+                            <td className="p-4 font-medium text-gray-800 flex items-center gap-2">
+                              <FolderIcon className="w-5 h-5 text-yellow-500" />
+                              {folder.name}
+                            </td>
+                            <td className="p-4 text-gray-600">-</td>
+                            <td className="p-4 text-gray-600">{formatDate(folder.updatedAt)}</td>
+                            <td className="p-4" />
+                          </tr>
+                        ))}
+                        {files.map((file) => (
+                          <tr key={file.id} className="border-b border-gray-200 last:border-b-0 hover:bg-gray-50">
+                            <td className="p-4 font-medium text-gray-800 flex items-center gap-2">
+                              <DocumentIcon className="w-5 h-5 text-blue-500" />
+                              {file.name}
+                            </td>
+                            <td className="p-4 text-gray-600">{formatFileSize(file.size)}</td>
+                            <td className="p-4 text-gray-600">{formatDate(file.updatedAt)}</td>
+                            <td className="p-4 text-right">
+                              <button
+                                className="text-gray-500 hover:text-gray-700"
+                                onClick={() => handleDownload(file)}
+                                aria-label={`Download ${file.name}`}
+                              >
+                                <ArrowDownTrayIcon className="w-5 h-5" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+
+              {canManage && renderAccess(drive)}
+            </div>
+          </div>
+        ) : (
+          <div className="p-6">
+            <div className="mb-8 flex items-start justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Shared drives</h1>
+                <p className="text-gray-600">Business-owned drives whose files stay with the team when members leave</p>
+              </div>
+              <Button onClick={handleCreateDrive} variant="primary" size="md">
+                <PlusIcon className="w-4 h-4 mr-2" />
+                New shared drive
+              </Button>
+            </div>
+
+            {error && <div className="mb-6"><Alert type="error" title="Error">{error}</Alert></div>}
+
+            {drives.length === 0 ? (
+              <div className="text-center py-12">
+                <ServerStackIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No shared drives</h3>
+                <p className="text-gray-600">Shared drives you are a member of will appear here.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                {drives.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => openDrive(item.id)}
+                    className="text-left bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow duration-200"
+                  >
+                    <div className="flex items-start justify-between mb-3">
+                      <ServerStackIcon className="w-8 h-8 text-indigo-500 flex-shrink-0" />
+                      <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">{ROLE_LABELS[item.role]}</span>
+                    </div>
+                    <h3 className="font-medium text-gray-900 mb-1 truncate">{item.name}</h3>
+                    {item.description && <p className="text-sm text-gray-500 mb-2 line-clamp-2">{item.description}</p>}
+                    <p className="text-xs text-gray-400">
+                      {item._count?.members ?? 0} members · {item._count?.departments ?? 0} departments
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedDrivesPage;
@@ -0,0 +1,487 @@
+/**
+ * Attendance Kiosk Page
+ *
+ * Shared time clock for a tablet or PC at a work site. The device is paired
+ * once with a kiosk token issued from HR > Attendance; employees then punch
+ * in and out with their PIN or badge, without signing in. Punches made while
+ * offline are kept on the device and synced when the connection returns.
+ * Access: Paired kiosk devices (no user session)
+ * Location: /kiosk/attendance
+ */
+
+'use client';
+
+export const dynamic = "force-dynamic";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Spinner, Alert } from 'shared/components';
+import {
+  getKioskSession,
+  submitKioskPunches,
+  type KioskPunch,
+  type KioskPunchResult,
+  type KioskSession
+} from '@/api/hrAttendance';
+
+const TOKEN_STORAGE_KEY = 'attendanceKiosk.token';
+const SESSION_STORAGE_KEY = 'attendanceKiosk.session';
+const QUEUE_STORAGE_KEY = 'attendanceKiosk.queue';
+const SYNC_INTERVAL_MS = 60000;
+const MESSAGE_DURATION_MS = 5000;
+
+// Queued punches keep their photo as a data URL so the queue survives a reload
+type QueuedPunch = Omit<KioskPunch, 'photo'> & { photoDataUrl?: string | null };
+
+type PunchMessage = { tone: 'success' | 'error' | 'info'; title: string; detail?: string };
+
+const readQueue = (): QueuedPunch[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_STORAGE_KEY) ?? '[]') as QueuedPunch[];
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedPunch[]) => {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+};
+
+const newPunchId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const statusOf = (error: unknown) => (error as { status?: number } | null)?.status;
+
+// Network failures (as opposed to the server rejecting the request) mean the punch should be queued
+const isNetworkError = (error: unknown) =>
+  error instanceof TypeError ||
+  (statusOf(error) ?? 0) >= 502 ||
+  (typeof navigator !== 'undefined' && !navigator.onLine);
+
+const formatTime = (value: string | Date) =>
+  new Date(value).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+export default function AttendanceKioskPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [session, setSession] = useState<KioskSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pairingToken, setPairingToken] = useState('');
+  const [pairingError, setPairingError] = useState<string | null>(null);
+
+  const [mode, setMode] = useState<'pin' | 'badge'>('pin');
+  const [pin, setPin] = useState('');
+  const [badge, setBadge] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<PunchMessage | null>(null);
+  const [queueSize, setQueueSize] = useState(0);
+  const [online, setOnline] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // The preview unmounts while a punch message is shown, so reattach the stream on every mount
+  const attachVideo = useCallback((node: HTMLVideoElement | null) => {
+    videoRef.current = node;
+    if (node && streamRef.current) {
+      node.srcObject = streamRef.current;
+    }
+  }, []);
+  const badgeInputRef = useRef<HTMLInputElement | null>(null);
+  const syncingRef = useRef(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  const requirePhoto = Boolean(session?.device.requirePhoto);
+
+  const showMessage = useCallback((next: PunchMessage) => {
+    setMessage(next);
+    window.setTimeout(() => setMessage((current) => (current === next ? null : current)), MESSAGE_DURATION_MS);
+  }, []);
+
+  const unpair = useCallback(() => {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setToken(null);
+    setSession(null);
+  }, []);
+
+  // Load the paired token and session. A kiosk that boots offline uses the last session it saw.
+  useEffect(() => {
+    const stored = localStorage.getItem(TOKEN_STORAGE_KEY);
+    setToken(stored);
+    try {
+      setSession(JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? 'null') as KioskSession | null);
+    } catch {
+      setSession(null);
+    }
+    setQueueSize(readQueue().length);
+    setOnline(navigator.onLine);
+    if (!stored) {
+      setLoading(false);
+      return;
+    }
+    getKioskSession(stored)
+      .then((result) => {
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(result));
+        setSession(result);
+      })
+      .catch((error) => {
+        if (statusOf(error) === 401) {
+          unpair();
+          setPairingError('This kiosk was deactivated or its token was replaced. Pair it again.');
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [unpair]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const syncQueue = useCallback(async () => {
+    if (!token || syncingRef.current) return;
+    const queue = readQueue();
+    if (queue.length === 0) return;
+
+    syncingRef.current = true;
+    try {
+      const punches: KioskPunch[] = await Promise.all(
+        queue.map(async ({ photoDataUrl, ...punch }) => ({
+          ...punch,
+          photo: photoDataUrl ? await dataUrlToBlob(photoDataUrl) : null
+        }))
+      );
+      const results = await submitKioskPunches(token, punches);
+      // Every returned punch is settled (accepted or rejected); anything else stays queued
+      const settled = new Set(results.map((result) => result.clientPunchId));
+      const remaining = readQueue().filter((punch) => !settled.has(punch.clientPunchId));
+      writeQueue(remaining);
+      setQueueSize(remaining.length);
+      setOnline(true);
+
+      const rejected = results.filter((result) => result.status === 'REJECTED').length;
+      if (rejected > 0) {
+        showMessage({
+          tone: 'error',
+          title: `${rejected} offline punch${rejected === 1 ? '' : 'es'} could not be recorded`,
+          detail: 'Ask a manager to review kiosk punches in HR.'
+        });
+      }
+    } catch (error) {
+      if (statusOf(error) === 401) {
+        unpair();
+      } else if (isNetworkError(error)) {
+        setOnline(false);
+      }
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [token, showMessage, unpair]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      void syncQueue();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const timer = window.setInterval(() => void syncQueue(), SYNC_INTERVAL_MS);
+    void syncQueue();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(timer);
+    };
+  }, [syncQueue]);
+
+  // Camera preview for kiosks that require a photo with each punch
+  useEffect(() => {
+    if (!requirePhoto) return;
+    let cancelled = false;
+    navigator.mediaDevices
+      ?.getUserMedia({ video: { facingMode: 'user', width: 320, height: 240 }, audio: false })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        attachVideo(videoRef.current);
+      })
+      .catch(() => setCameraError('Camera unavailable. Allow camera access to punch at this kiosk.'));
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    };
+  }, [requirePhoto, attachVideo]);
+
+  useEffect(() => {
+    if (mode === 'badge') badgeInputRef.current?.focus();
+  }, [mode, message]);
+
+  const capturePhoto = async (): Promise<Blob | null> => {
+    const video = videoRef.current;
+    if (!video || !streamRef.current || video.videoWidth === 0) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+  };
+
+  const queuePunch = async (punch: KioskPunch) => {
+    const { photo, ...rest } = punch;
+    const queued: QueuedPunch = {
+      ...rest,
+      offline: true,
+      photoDataUrl: photo ? await blobToDataUrl(photo) : null
+    };
+    const queue = [...readQueue(), queued];
+    writeQueue(queue);
+    setQueueSize(queue.length);
+  };
+
+  const describeResult = (result: KioskPunchResult): PunchMessage =>
+    result.status === 'ACCEPTED'
+      ? {
+          tone: 'success',
+          title: `${result.direction === 'IN' ? 'Welcome' : 'Goodbye'}, ${result.employeeName ?? 'there'}`,
+          detail: `Clocked ${result.direction === 'IN' ? 'in' : 'out'} at ${formatTime(result.occurredAt)}`
+        }
+      : { tone: 'error', title: 'Punch not recorded', detail: result.error ?? undefined };
+
+  const submitPunch = async () => {
+    if (!token || submitting) return;
+    const credential = mode === 'pin' ? { pin } : { badgeNumber: badge.trim() };
+    if (mode === 'pin' ? pin.length < 4 : !badge.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const photo = requirePhoto ? await capturePhoto() : null;
+      if (requirePhoto && !photo) {
+        showMessage({ tone: 'error', title: 'Photo required', detail: cameraError ?? 'Look at the camera and try again.' });
+        return;
+      }
+
+      const punch: KioskPunch = {
+        clientPunchId: newPunchId(),
+        ...credential,
+        occurredAt: new Date().toISOString(),
+        photo
+      };
+
+      if (!navigator.onLine) {
+        await queuePunch(punch);
+        showMessage({ tone: 'info', title: 'Punch saved', detail: 'This kiosk is offline. It will sync when the connection returns.' });
+        return;
+      }
+
+      try {
+        const [result] = await submitKioskPunches(token, [punch]);
+        showMessage(describeResult(result));
+      } catch (error) {
+        if (isNetworkError(error)) {
+          setOnline(false);
+          await queuePunch(punch);
+          showMessage({ tone: 'info', title: 'Punch saved', detail: 'This kiosk is offline. It will sync when the connection returns.' });
+        } else if (statusOf(error) === 401) {
+          unpair();
+        } else {
+          showMessage({ tone: 'error', title: 'Punch not recorded', detail: error instanceof Error ? error.message : undefined });
+        }
+      }
+    } finally {
+      setPin('');
+      setBadge('');
+      setSubmitting(false);
+    }
+  };
+
+  const handlePair = async () => {
+    const value = pairingToken.trim();
+    if (!value) return;
+    try {
+      setLoading(true);
+      setPairingError(null);
+      const result = await getKioskSession(value);
+      localStorage.setItem(TOKEN_STORAGE_KEY, value);
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(result));
+      setToken(value);
+      setSession(result);
+      setPairingToken('');
+    } catch (error) {
+      setPairingError(error instanceof Error ? error.message : 'Unable to pair this kiosk');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-900">
+        <Spinner size={32} />
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-900 px-4">
+        <div className="w-full max-w-md space-y-4 rounded-xl bg-white p-8 shadow-xl">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Pair this kiosk</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              An HR admin can register this device under HR &gt; Attendance &gt; Kiosk Time Clocks and paste its token here.
+            </p>
+          </div>
+          {pairingError && (
+            <Alert type="error" title="Pairing failed">
+              {pairingError}
+            </Alert>
+          )}
+          <input
+            type="password"
+            autoComplete="off"
+            placeholder="kiosk_…"
+            value={pairingToken}
+            onChange={(event) => setPairingToken(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && handlePair()}
+            className="w-full rounded border px-3 py-2 font-mono text-sm"
+          />
+          <button
+            type="button"
+            onClick={handlePair}
+            disabled={!pairingToken.trim()}
+            className="w-full rounded-md bg-blue-600 px-4 py-2 font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+          >
+            Pair kiosk
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const messageStyles: Record<PunchMessage['tone'], string> = {
+    success: 'bg-green-600',
+    error: 'bg-red-600',
+    info: 'bg-blue-600'
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gray-900 text-white">
+      <header className="flex items-center justify-between px-6 py-4">
+        <div>
+          <div className="text-lg font-semibold">{session?.business.name ?? 'Time Clock'}</div>
+          <div className="text-sm text-gray-400">
+            {session?.device.name ?? 'Kiosk'}
+            {session?.device.jobLocation ? ` · ${session.device.jobLocation.name}` : ''}
+          </div>
+        </div>
+        <div className="text-right text-sm">
+          <div className={online ? 'text-green-400' : 'text-yellow-400'}>{online ? 'Online' : 'Offline'}</div>
+          {queueSize > 0 && <div className="text-gray-400">{queueSize} punch{queueSize === 1 ? '' : 'es'} waiting to sync</div>}
+        </div>
+      </header>
+
+      <main className="flex flex-1 flex-col items-center justify-center gap-6 px-4 pb-10">
+        <div className="text-center">
+          <div className="text-6xl font-light tabular-nums">
+            {now.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', second: '2-digit' })}
+          </div>
+          <div className="mt-1 text-gray-400">{now.toLocaleDateString(undefined, { dateStyle: 'full' })}</div>
+        </div>
+
+        {message ? (
+          <div className={`w-full max-w-sm rounded-xl px-6 py-8 text-center ${messageStyles[message.tone]}`}>
+            <div className="text-2xl font-semibold">{message.title}</div>
+            {message.detail && <div className="mt-2 text-white/90">{message.detail}</div>}
+          </div>
+        ) : (
+          <div className="w-full max-w-sm space-y-4">
+            {requirePhoto && (
+              <div className="overflow-hidden rounded-xl bg-black">
+                {cameraError ? (
+                  <div className="px-4 py-8 text-center text-sm text-yellow-300">{cameraError}</div>
+                ) : (
+                  <video ref={attachVideo} autoPlay muted playsInline className="mx-auto h-48 w-full object-cover" />
+                )}
+              </div>
+            )}
+
+            <div className="flex rounded-lg bg-gray-800 p-1 text-sm">
+              {(['pin', 'badge'] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={`flex-1 rounded-md py-2 font-medium ${mode === value ? 'bg-white text-gray-900' : 'text-gray-300'}`}
+                >
+                  {value === 'pin' ? 'PIN' : 'Badge'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'pin' ? (
+              <>
+                <div className="flex h-14 items-center justify-center rounded-lg bg-gray-800 text-3xl tracking-[0.5em]">
+                  {'•'.repeat(pin.length) || <span className="text-base tracking-normal text-gray-500">Enter your PIN</span>}
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  {['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'].map((key) => (
+                    <button
+                      key={key}
+                      type="button"
+                      disabled={submitting}
+                      onClick={() =>
+                        setPin((prev) =>
+                          key === 'clear' ? '' : key === 'back' ? prev.slice(0, -1) : prev.length < 8 ? prev + key : prev
+                        )
+                      }
+                      className="h-16 rounded-lg bg-gray-700 text-2xl font-medium hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      {key === 'clear' ? 'C' : key === 'back' ? '⌫' : key}
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <input
+                ref={badgeInputRef}
+                type="text"
+                autoComplete="off"
+                placeholder="Scan or type your badge number"
+                value={badge}
+                onChange={(event) => setBadge(event.target.value)}
+                // Badge scanners type the number followed by Enter
+                onKeyDown={(event) => event.key === 'Enter' && submitPunch()}
+                className="h-14 w-full rounded-lg bg-gray-800 px-4 text-center text-xl text-white placeholder:text-gray-500"
+              />
+            )}
+
+            <button
+              type="button"
+              onClick={submitPunch}
+              disabled={submitting || (mode === 'pin' ? pin.length < 4 : !badge.trim())}
+              className="h-16 w-full rounded-lg bg-blue-600 text-xl font-semibold hover:bg-blue-500 disabled:opacity-50"
+            >
+              {submitting ? 'Recording…' : 'Clock in / out'}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
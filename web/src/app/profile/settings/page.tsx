@@ -17,6 +17,7 @@ import { Button, Alert } from 'shared/components';
 import { toast } from 'react-hot-toast';
 import { getUserLocation } from '@/api/location';
 import ProfilePhotoManager from '@/components/ProfilePhotoManager';
+import AppPasswordManager from '@/components/AppPasswordManager';
 
 interface Location {
   country: {
@@ -225,6 +226,11 @@ export default function SettingsPage() {
           <ProfilePhotoManager />
         </div>
 
+        {/* Desktop Access Section */}
+        <div className="mt-8">
+          <AppPasswordManager email={session.user.email || ''} />
+        </div>
+
         {/* Additional Settings Sections */}
         <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Account Settings */}
@@ -0,0 +1,254 @@
+'use client';
+
+export const dynamic = "force-dynamic";
+
+import React, { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Spinner, Alert, EmptyState } from 'shared/components';
+import { Download, File as FileIcon, Folder, Lock, ArrowLeft } from 'lucide-react';
+import {
+  getSharedItem,
+  unlockSharedItem,
+  getSharedFileUrl,
+  SharedItem,
+  SharedItemError
+} from '@/api/drive';
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+// Types the server will serve inline; previewing anything else would use up a download
+const PREVIEW_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif'];
+
+const accessTokenKey = (shareToken: string) => `vssyl_share_access_${shareToken}`;
+
+function SharedItemContent() {
+  const params = useParams();
+  const shareToken = params?.token as string;
+
+  const [item, setItem] = useState<SharedItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<SharedItemError | null>(null);
+  const [accessToken, setAccessToken] = useState<string | undefined>(undefined);
+  const [password, setPassword] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [folderTrail, setFolderTrail] = useState<Array<{ id: string; name: string }>>([]);
+
+  const load = useCallback(async (token: string | undefined, folderId?: string) => {
+    setLoading(true);
+    try {
+      setItem(await getSharedItem(shareToken, token, folderId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof SharedItemError ? err : new SharedItemError('Failed to open share link', 500));
+    } finally {
+      setLoading(false);
+    }
+  }, [shareToken]);
+
+  useEffect(() => {
+    if (!shareToken) return;
+    const stored = sessionStorage.getItem(accessTokenKey(shareToken)) || undefined;
+    setAccessToken(stored);
+    load(stored);
+  }, [shareToken, load]);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setUnlockError(null);
+    try {
+      const token = await unlockSharedItem(shareToken, password);
+      sessionStorage.setItem(accessTokenKey(shareToken), token);
+      setAccessToken(token);
+      setPassword('');
+      await load(token);
+    } catch (err) {
+      setUnlockError(err instanceof Error ? err.message : 'Failed to unlock');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const openFolder = (folder: { id: string; name: string }) => {
+    const trail = [...folderTrail, folder];
+    setFolderTrail(trail);
+    load(accessToken, folder.id);
+  };
+
+  const goUp = () => {
+    const trail = folderTrail.slice(0, -1);
+    setFolderTrail(trail);
+    load(accessToken, trail.length > 0 ? trail[trail.length - 1].id : undefined);
+  };
+
+  if (loading && !item && !error) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    );
+  }
+
+  if (error?.code === 'password_required') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <form onSubmit={handleUnlock} className="bg-white border rounded-lg p-6 w-full max-w-sm space-y-4">
+          <div className="flex items-center gap-2">
+            <Lock className="w-5 h-5 text-gray-600" />
+            <h1 className="text-lg font-semibold text-gray-900">Password required</h1>
+          </div>
+          <p className="text-sm text-gray-600">Enter the password you were given to open this shared item.</p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            autoFocus
+            required
+          />
+          {unlockError && <p className="text-sm text-red-600">{unlockError}</p>}
+          <button
+            type="submit"
+            disabled={unlocking || !password}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {unlocking ? 'Unlocking…' : 'Open'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (error || !item) {
+    const title = error?.code === 'sign_in_required' ? 'Sign in required'
+      : error?.code === 'domain_not_allowed' ? 'Access restricted'
+      : 'Link unavailable';
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 space-y-4">
+        <Alert type="error" title={title}>
+          {error?.message || 'This share link could not be found.'}
+        </Alert>
+        {error?.code === 'sign_in_required' && (
+          <Link href={`/auth/login?returnUrl=${encodeURIComponent(`/share/${shareToken}`)}`} className="text-sm text-blue-600 hover:underline">
+            Sign in to continue
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  const downloadButton = (fileId?: string) => item.allowDownload && item.downloadsRemaining !== 0 ? (
+    <a
+      href={getSharedFileUrl(shareToken, { accessToken, fileId })}
+      className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+    >
+      <Download className="w-4 h-4 mr-1" />
+      Download
+    </a>
+  ) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        {item.file ? (
+          <div className="bg-white border rounded-lg p-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-center gap-3 min-w-0">
+                <FileIcon className="w-8 h-8 text-gray-500 flex-shrink-0" />
+                <div className="min-w-0">
+                  <h1 className="text-xl font-semibold text-gray-900 break-words">{item.file.name}</h1>
+                  <p className="text-sm text-gray-500">{formatFileSize(item.file.size)} · {item.file.type}</p>
+                </div>
+              </div>
+              {downloadButton()}
+            </div>
+            {PREVIEW_IMAGE_TYPES.includes(item.file.type) && item.downloadsRemaining !== 0 && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={getSharedFileUrl(shareToken, { accessToken, inline: true })}
+                alt={item.file.name}
+                className="mt-6 max-h-[70vh] mx-auto rounded"
+              />
+            )}
+            {item.file.type === 'application/pdf' && item.downloadsRemaining !== 0 && (
+              <object
+                data={getSharedFileUrl(shareToken, { accessToken, inline: true })}
+                type="application/pdf"
+                className="mt-6 w-full h-[70vh] rounded"
+                aria-label={item.file.name}
+              />
+            )}
+          </div>
+        ) : (
+          <div className="bg-white border rounded-lg">
+            <div className="flex items-center gap-3 px-6 py-4 border-b">
+              {folderTrail.length > 0 && (
+                <button onClick={goUp} className="p-1 text-gray-500 hover:text-gray-700" aria-label="Back">
+                  <ArrowLeft className="w-4 h-4" />
+                </button>
+              )}
+              <Folder className="w-6 h-6 text-blue-500" />
+              <h1 className="text-xl font-semibold text-gray-900">
+                {[item.rootFolder?.name, ...folderTrail.map((folder) => folder.name)].join(' / ')}
+              </h1>
+            </div>
+            {loading ? (
+              <div className="flex justify-center py-10"><Spinner size={24} /></div>
+            ) : (item.folders?.length ?? 0) + (item.files?.length ?? 0) === 0 ? (
+              <EmptyState icon="📁" title="This folder is empty" description="There is nothing shared here yet." />
+            ) : (
+              <ul className="divide-y">
+                {item.folders?.map((folder) => (
+                  <li key={folder.id}>
+                    <button
+                      onClick={() => openFolder(folder)}
+                      className="w-full flex items-center gap-3 px-6 py-3 text-left hover:bg-gray-50"
+                    >
+                      <Folder className="w-5 h-5 text-blue-500" />
+                      <span className="text-sm text-gray-900">{folder.name}</span>
+                    </button>
+                  </li>
+                ))}
+                {item.files?.map((file) => (
+                  <li key={file.id} className="flex items-center justify-between gap-3 px-6 py-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <FileIcon className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                      <span className="text-sm text-gray-900 truncate">{file.name}</span>
+                      <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                    </div>
+                    {downloadButton(file.id)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <p className="text-center text-xs text-gray-400 mt-10">
+          {item.expiresAt && <>Link expires {new Date(item.expiresAt).toLocaleDateString()} · </>}
+          Shared with <Link href="/" className="hover:underline">Vssyl</Link>
+        </p>
+      </main>
+    </div>
+  );
+}
+
+export default function SharedItemPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-screen">
+        <Spinner size={32} />
+      </div>
+    }>
+      <SharedItemContent />
+    </Suspense>
+  );
+}
@@ -5,7 +5,7 @@ import { createPortal } from 'react-dom';
 import { Search, X, Command, Brain, Send, Sparkles, Bot, User, Lightbulb } from 'lucide-react';
 import { useSession } from 'next-auth/react';
 import { useGlobalSearch } from '../contexts/GlobalSearchContext';
-import { SearchResult, SearchSuggestion } from 'shared/types/search';
+import { SearchExcerpt, SearchResult } from 'shared/types/search';
 import { Button, Badge, Spinner } from 'shared/components';
 import { authenticatedApiCall } from '../lib/apiUtils';
 import ErrorBoundary from './ErrorBoundary';
@@ -100,6 +100,19 @@ function highlightText(text: string, query: string) {
   );
 }
 
+// Utility: render a content excerpt with its server-side highlights
+function renderExcerpt(excerpt: SearchExcerpt) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  excerpt.highlights.forEach(({ start, end }, i) => {
+    if (start > cursor) parts.push(excerpt.text.slice(cursor, start));
+    parts.push(<span key={i} className="bg-yellow-200 font-semibold">{excerpt.text.slice(start, end)}</span>);
+    cursor = end;
+  });
+  parts.push(excerpt.text.slice(cursor));
+  return parts;
+}
+
 // Group results by module
 function groupResultsByModule(results: SearchResult[]) {
   const groups: { [key: string]: SearchResult[] } = {};
@@ -546,6 +559,11 @@ export default function AIEnhancedSearchBar({
                           <p className="text-xs text-gray-600">
                             {highlightText(result.description || '', inputValue)}
                           </p>
+                          {result.excerpt && (
+                            <p className="text-xs text-gray-600 line-clamp-2">
+                              {renderExcerpt(result.excerpt)}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button, Input, Spinner } from 'shared/components';
+import { Copy, KeyRound, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  AppPassword,
+  createAppPassword,
+  getDavUrl,
+  listAppPasswords,
+  revokeAppPassword,
+} from '../api/appPasswords';
+
+interface AppPasswordManagerProps {
+  email: string;
+}
+
+// App passwords let desktop WebDAV clients (Finder, Explorer, rclone) mount Drive
+export default function AppPasswordManager({ email }: AppPasswordManagerProps) {
+  const [loading, setLoading] = useState(true);
+  const [appPasswords, setAppPasswords] = useState<AppPassword[]>([]);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newPassword, setNewPassword] = useState<string | null>(null);
+  const davUrl = getDavUrl();
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await listAppPasswords();
+      setAppPasswords(res.appPasswords);
+    } catch (e) {
+      console.error(e);
+      toast.error('Failed to load app passwords');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const copy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error('Copy failed');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCreating(true);
+    try {
+      const res = await createAppPassword(name.trim());
+      setNewPassword(res.password);
+      setName('');
+      await load();
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : 'Failed to create app password');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (appPassword: AppPassword) => {
+    if (!window.confirm(`Revoke "${appPassword.name}"? Clients using it will be signed out.`)) return;
+    try {
+      await revokeAppPassword(appPassword.id);
+      toast.success('App password revoked');
+      await load();
+    } catch (e) {
+      console.error(e);
+      toast.error('Failed to revoke app password');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <KeyRound className="w-6 h-6 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Desktop Access (WebDAV)</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Connect Drive as a network drive in Finder, Windows Explorer or any WebDAV client.
+        Sign in with your email and an app password; your account password won&apos;t work there.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Server address</label>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 bg-gray-50 rounded px-3 py-2 text-sm text-gray-900 break-all">{davUrl}</code>
+            <Button variant="ghost" size="sm" onClick={() => copy(davUrl, 'Address')} title="Copy address">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+          <code className="block bg-gray-50 rounded px-3 py-2 text-sm text-gray-900 break-all">{email}</code>
+        </div>
+      </div>
+
+      {newPassword && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+          <p className="text-sm font-medium text-green-800 mb-2">
+            Copy your new app password now. It won&apos;t be shown again.
+          </p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 bg-white rounded px-3 py-2 text-sm text-gray-900 break-all">{newPassword}</code>
+            <Button variant="secondary" size="sm" onClick={() => copy(newPassword, 'App password')}>
+              Copy
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setNewPassword(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex items-center space-x-2 mb-6">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. Work laptop"
+          maxLength={80}
+          className="flex-1"
+        />
+        <Button type="submit" disabled={creating || !name.trim()}>
+          {creating ? 'Creating...' : 'Create app password'}
+        </Button>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Spinner size={24} />
+        </div>
+      ) : appPasswords.length === 0 ? (
+        <p className="text-sm text-gray-500">No app passwords yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {appPasswords.map((appPassword) => (
+            <li key={appPassword.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{appPassword.name}</p>
+                <p className="text-xs text-gray-500">
+                  Ends in {appPassword.tokenHint} · Created {new Date(appPassword.createdAt).toLocaleDateString()} ·{' '}
+                  {appPassword.lastUsedAt
+                    ? `Last used ${new Date(appPassword.lastUsedAt).toLocaleString()}`
+                    : 'Never used'}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleRevoke(appPassword)} title="Revoke">
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
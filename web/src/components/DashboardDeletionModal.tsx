@@ -252,7 +252,7 @@ export default function DashboardDeletionModal({
                       <span className="font-medium text-gray-900">Export & Download</span>
                     </div>
                     <p className="text-sm text-gray-600 mt-1">
-                      Download a ZIP file of all content before deletion
+                      Download a ZIP file of all content before deletion; a copy is kept in your main drive
                     </p>
                   </div>
                 </label>
@@ -49,7 +49,7 @@ export default function DashboardManagementDemo() {
         } else if (fileAction?.type === 'move-to-trash') {
           toast.success(`Dashboard deleted. ${result.migration.filesProcessed || 0} files moved to trash`);
         } else if (fileAction?.type === 'export') {
-          toast.success(`Dashboard deleted. Export will be available for download shortly`);
+          toast.success(`Dashboard deleted. ${result.migration.exportResult?.fileName ?? 'Export'} was saved to your drive`);
         }
       } else {
         toast.success('Dashboard deleted successfully');
@@ -4,7 +4,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { Search, X, Command, ArrowUp, ArrowDown } from 'lucide-react';
 import { useGlobalSearch } from '../contexts/GlobalSearchContext';
-import { SearchResult, SearchSuggestion } from 'shared/types/search';
+import { SearchExcerpt, SearchResult, SearchSuggestion } from 'shared/types/search';
 import { Button, Badge } from 'shared/components';
 
 interface GlobalSearchBarProps {
@@ -20,6 +20,19 @@ function highlightText(text: string, query: string) {
   );
 }
 
+// Utility: render a content excerpt with its server-side highlights
+function renderExcerpt(excerpt: SearchExcerpt) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  excerpt.highlights.forEach(({ start, end }, i) => {
+    if (start > cursor) parts.push(excerpt.text.slice(cursor, start));
+    parts.push(<span key={i} className="bg-yellow-200 font-semibold">{excerpt.text.slice(start, end)}</span>);
+    cursor = end;
+  });
+  parts.push(excerpt.text.slice(cursor));
+  return parts;
+}
+
 // Group results by module
 function groupResultsByModule(results: SearchResult[]) {
   const groups: { [key: string]: SearchResult[] } = {};
@@ -307,6 +320,11 @@ export default function GlobalSearchBar({ className = '' }: GlobalSearchBarProps
                       <div className="text-xs text-gray-500 truncate">
                         {highlightText(item.description || '', inputValue || '')}
                       </div>
+                      {item.excerpt && (
+                        <div className="text-xs text-gray-600 line-clamp-2">
+                          {renderExcerpt(item.excerpt)}
+                        </div>
+                      )}
                     </div>
                     {/* Quick action: open */}
                     <button
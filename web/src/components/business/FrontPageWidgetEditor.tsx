@@ -51,6 +51,8 @@ const WIDGET_TYPES = [
   { value: 'personal-stats', label: '👤 Personal Statistics', description: 'Individual employee metrics' },
   { value: 'announcements', label: '📢 Announcements', description: 'Company announcements and news' },
   { value: 'quick-actions', label: '⚡ Quick Actions', description: 'Common action shortcuts' },
+  { value: 'job-openings', label: '💼 Job Openings', description: 'Open positions from HR Recruitment' },
+  { value: 'booking-links', label: '📆 Book an Appointment', description: 'Appointment types guests can book online' },
   { value: 'recent-activity', label: '📋 Recent Activity', description: 'Latest activity feed' },
   { value: 'upcoming-events', label: '📅 Upcoming Events', description: 'Calendar events' },
   { value: 'team-highlights', label: '⭐ Team Highlights', description: 'Team achievements' },
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Clock } from 'lucide-react';
+import { WidgetProps, WidgetContainer, WidgetLoading, WidgetError, WidgetEmpty } from './WidgetRegistry';
+import { getBookingPage, PublicAppointmentType } from '@/api/appointments';
+
+export default function BookingLinksWidget({ businessId, settings, theme }: WidgetProps) {
+  const [types, setTypes] = useState<PublicAppointmentType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const maxItems = typeof settings?.maxItems === 'number' ? settings.maxItems : 5;
+
+  const loadTypes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await getBookingPage('business', businessId);
+      setTypes(data.appointmentTypes);
+      setLoading(false);
+    } catch (err) {
+      // Businesses without appointment types have no booking page
+      if (err instanceof Error && err.message === 'Booking page not found') {
+        setTypes([]);
+      } else {
+        setError('Failed to load appointment types');
+      }
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    loadTypes();
+  }, [loadTypes]);
+
+  if (loading) {
+    return (
+      <WidgetContainer title="Book an Appointment" icon="📆" theme={theme}>
+        <WidgetLoading message="Loading appointment types..." />
+      </WidgetContainer>
+    );
+  }
+
+  if (error) {
+    return (
+      <WidgetContainer title="Book an Appointment" icon="📆" theme={theme}>
+        <WidgetError message={error} onRetry={loadTypes} />
+      </WidgetContainer>
+    );
+  }
+
+  if (types.length === 0) {
+    return (
+      <WidgetContainer title="Book an Appointment" icon="📆" theme={theme}>
+        <WidgetEmpty message="No appointments are open for booking" icon="📭" />
+      </WidgetContainer>
+    );
+  }
+
+  return (
+    <WidgetContainer
+      title={(settings?.title as string) || 'Book an Appointment'}
+      icon="📆"
+      description={(settings?.description as string) || undefined}
+      theme={theme}
+    >
+      <div className="space-y-3 max-h-[400px] overflow-y-auto">
+        {types.slice(0, maxItems).map((type) => (
+          <Link
+            key={type.id}
+            href={`/book/business/${businessId}?type=${type.id}`}
+            className="block p-3 rounded-lg border border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-colors"
+          >
+            <div className="flex items-start justify-between">
+              <h4 className="font-semibold text-gray-900">{type.name}</h4>
+              <span className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-gray-100 text-gray-700">
+                <Clock className="w-3 h-3" />
+                {type.durationMinutes} min
+              </span>
+            </div>
+            {type.description && <p className="mt-1 text-xs text-gray-500 line-clamp-2">{type.description}</p>}
+          </Link>
+        ))}
+      </div>
+
+      <Link
+        href={`/book/business/${businessId}`}
+        className="block mt-4 text-sm text-center font-medium"
+        style={{ color: theme?.primaryColor || '#3b82f6' }}
+      >
+        See all appointment types ({types.length})
+      </Link>
+    </WidgetContainer>
+  );
+}
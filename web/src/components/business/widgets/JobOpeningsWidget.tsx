@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { MapPin } from 'lucide-react';
+import { WidgetProps, WidgetContainer, WidgetLoading, WidgetError, WidgetEmpty } from './WidgetRegistry';
+import { getPublicJobPostings, PublicJobPosting } from '@/api/hrRecruitment';
+
+export default function JobOpeningsWidget({ businessId, settings, theme }: WidgetProps) {
+  const [postings, setPostings] = useState<PublicJobPosting[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const maxItems = typeof settings?.maxItems === 'number' ? settings.maxItems : 5;
+
+  const loadPostings = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await getPublicJobPostings(businessId);
+      setPostings(data.postings);
+      setLoading(false);
+    } catch {
+      setError('Failed to load job openings');
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    loadPostings();
+  }, [loadPostings]);
+
+  if (loading) {
+    return (
+      <WidgetContainer title="Job Openings" icon="💼" theme={theme}>
+        <WidgetLoading message="Loading job openings..." />
+      </WidgetContainer>
+    );
+  }
+
+  if (error) {
+    return (
+      <WidgetContainer title="Job Openings" icon="💼" theme={theme}>
+        <WidgetError message={error} onRetry={loadPostings} />
+      </WidgetContainer>
+    );
+  }
+
+  if (postings.length === 0) {
+    return (
+      <WidgetContainer title="Job Openings" icon="💼" theme={theme}>
+        <WidgetEmpty message="No open positions right now" icon="📭" />
+      </WidgetContainer>
+    );
+  }
+
+  return (
+    <WidgetContainer
+      title={(settings?.title as string) || 'Job Openings'}
+      icon="💼"
+      description={(settings?.description as string) || undefined}
+      theme={theme}
+    >
+      <div className="space-y-3 max-h-[400px] overflow-y-auto">
+        {postings.slice(0, maxItems).map((posting) => (
+          <Link
+            key={posting.id}
+            href={`/careers/${businessId}?job=${posting.id}`}
+            className="block p-3 rounded-lg border border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-colors"
+          >
+            <div className="flex items-start justify-between">
+              <h4 className="font-semibold text-gray-900">{posting.title}</h4>
+              <span className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700">
+                {posting.employmentType.replace('_', ' ').toLowerCase()}
+              </span>
+            </div>
+            <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+              {posting.position.department && <span>{posting.position.department.name}</span>}
+              {posting.location && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="w-3 h-3" />
+                  {posting.location}
+                </span>
+              )}
+            </div>
+          </Link>
+        ))}
+      </div>
+
+      <Link
+        href={`/careers/${businessId}`}
+        className="block mt-4 text-sm text-center font-medium"
+        style={{ color: theme?.primaryColor || '#3b82f6' }}
+      >
+        View all openings ({postings.length})
+      </Link>
+    </WidgetContainer>
+  );
+}
@@ -13,6 +13,8 @@ import CompanyStatsWidget from './CompanyStatsWidget';
 import PersonalStatsWidget from './PersonalStatsWidget';
 import AnnouncementsWidget from './AnnouncementsWidget';
 import QuickActionsWidget from './QuickActionsWidget';
+import JobOpeningsWidget from './JobOpeningsWidget';
+import BookingLinksWidget from './BookingLinksWidget';
 
 // ============================================================================
 // WIDGET REGISTRATION
@@ -92,6 +94,32 @@ export function registerAllWidgets() {
     },
   });
 
+  // Job Openings Widget (public postings from HR Recruitment)
+  WidgetRegistry.register({
+    id: 'job-openings',
+    name: 'Job Openings',
+    description: 'Open positions from HR Recruitment',
+    icon: '💼',
+    component: JobOpeningsWidget,
+    defaultSettings: {
+      title: 'Job Openings',
+      maxItems: 5,
+    },
+  });
+
+  // Booking Links Widget (public appointment types from the calendar)
+  WidgetRegistry.register({
+    id: 'booking-links',
+    name: 'Book an Appointment',
+    description: 'Appointment types guests can book online',
+    icon: '📆',
+    component: BookingLinksWidget,
+    defaultSettings: {
+      title: 'Book an Appointment',
+      maxItems: 5,
+    },
+  });
+
   // Recent Activity Widget (placeholder for future implementation)
   WidgetRegistry.register({
     id: 'recent-activity',
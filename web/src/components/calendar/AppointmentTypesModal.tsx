@@ -0,0 +1,363 @@
+'use client';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Modal, Spinner } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { WorkingHoursRange } from '../../api/calendar';
+import {
+  appointmentsAPI,
+  AppointmentBookingSummary,
+  AppointmentType,
+  AppointmentTypeInput,
+  IntakeQuestion,
+  bookingPagePath
+} from '../../api/appointments';
+
+interface AppointmentTypesModalProps {
+  open: boolean;
+  onClose: () => void;
+  contextType: 'PERSONAL' | 'BUSINESS';
+  // Business id for business pages; personal pages always belong to the signed-in user
+  contextId?: string;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type Draft = Required<Pick<AppointmentTypeInput,
+  'name' | 'description' | 'location' | 'durationMinutes' | 'bufferBeforeMinutes' | 'bufferAfterMinutes' |
+  'minNoticeMinutes' | 'maxAdvanceDays' | 'timezone' | 'availability' | 'questions'>> & { maxPerDay: string };
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+const emptyDraft = (): Draft => ({
+  name: '',
+  description: '',
+  location: '',
+  durationMinutes: 30,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+  minNoticeMinutes: 240,
+  maxAdvanceDays: 60,
+  maxPerDay: '',
+  timezone: browserTimeZone(),
+  availability: [1, 2, 3, 4, 5].map(day => ({ day, start: '09:00', end: '17:00' })),
+  questions: []
+});
+
+const draftFrom = (type: AppointmentType): Draft => ({
+  name: type.name,
+  description: type.description || '',
+  location: type.location || '',
+  durationMinutes: type.durationMinutes,
+  bufferBeforeMinutes: type.bufferBeforeMinutes,
+  bufferAfterMinutes: type.bufferAfterMinutes,
+  minNoticeMinutes: type.minNoticeMinutes,
+  maxAdvanceDays: type.maxAdvanceDays,
+  maxPerDay: type.maxPerDay ? String(type.maxPerDay) : '',
+  timezone: type.timezone,
+  availability: type.availability,
+  questions: type.questions
+});
+
+const publicUrl = (type: AppointmentType) =>
+  `${typeof window !== 'undefined' ? window.location.origin : ''}${bookingPagePath(type)}?type=${type.id}`;
+
+// Appointment types behind the public booking page (/book/user/:id or /book/business/:id)
+export default function AppointmentTypesModal({ open, onClose, contextType, contextId }: AppointmentTypesModalProps) {
+  const [types, setTypes] = useState<AppointmentType[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<AppointmentType | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [bookings, setBookings] = useState<AppointmentBookingSummary[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadTypes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const resp = await appointmentsAPI.listTypes(contextType, contextType === 'BUSINESS' ? contextId : undefined);
+      if (resp?.success) setTypes(resp.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load appointment types');
+    } finally {
+      setLoading(false);
+    }
+  }, [contextType, contextId]);
+
+  useEffect(() => {
+    if (!open) return;
+    setEditing(null);
+    loadTypes();
+  }, [open, loadTypes]);
+
+  const startEdit = async (type: AppointmentType | 'new') => {
+    setEditing(type);
+    setDraft(type === 'new' ? emptyDraft() : draftFrom(type));
+    setBookings([]);
+    if (type === 'new') return;
+    try {
+      const resp = await appointmentsAPI.listBookings(type.id);
+      if (resp?.success) setBookings(resp.data.filter(booking => booking.status === 'CONFIRMED'));
+    } catch {
+      // The form is still usable without the booking list
+    }
+  };
+
+  const rangeFor = (day: number) => draft.availability.find(range => range.day === day);
+
+  const updateDay = (day: number, changes: Partial<WorkingHoursRange> | null) => {
+    setDraft(prev => {
+      const others = prev.availability.filter(range => range.day !== day);
+      if (!changes) return { ...prev, availability: others };
+      const current = prev.availability.find(range => range.day === day) || { day, start: '09:00', end: '17:00' };
+      return { ...prev, availability: [...others, { ...current, ...changes }].sort((a, b) => a.day - b.day) };
+    });
+  };
+
+  const updateQuestion = (index: number, changes: Partial<IntakeQuestion> | null) => {
+    setDraft(prev => ({
+      ...prev,
+      questions: changes
+        ? prev.questions.map((question, i) => (i === index ? { ...question, ...changes } : question))
+        : prev.questions.filter((_question, i) => i !== index)
+    }));
+  };
+
+  const addQuestion = () => {
+    // Ids stay stable across edits so earlier answers still line up with their question
+    const id = `q${Date.now().toString(36)}`;
+    setDraft(prev => ({ ...prev, questions: [...prev.questions, { id, label: '', required: false }] }));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    const body: AppointmentTypeInput = {
+      ...draft,
+      timezone: draft.timezone.trim(),
+      maxPerDay: draft.maxPerDay ? Number(draft.maxPerDay) : null
+    };
+    try {
+      const resp = editing === 'new'
+        ? await appointmentsAPI.createType({ ...body, contextType, contextId: contextType === 'BUSINESS' ? contextId : undefined })
+        : await appointmentsAPI.updateType(editing.id, body);
+      if (resp?.success) {
+        toast.success('Appointment type saved');
+        setEditing(null);
+        await loadTypes();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save appointment type');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (type: AppointmentType) => {
+    if (!confirm(`Archive "${type.name}"? Its booking link stops working; existing bookings are kept.`)) return;
+    try {
+      await appointmentsAPI.archiveType(type.id);
+      toast.success('Appointment type archived');
+      await loadTypes();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to archive appointment type');
+    }
+  };
+
+  const copyLink = async (type: AppointmentType) => {
+    try {
+      await navigator.clipboard.writeText(publicUrl(type));
+      toast.success('Booking link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const numberField = (label: string, field: keyof Draft, min: number) => (
+    <label className="block text-sm">
+      {label}
+      <input
+        type="number"
+        min={min}
+        value={draft[field] as number}
+        onChange={e => setDraft(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+        className="mt-1 w-full border rounded px-2 py-1"
+      />
+    </label>
+  );
+
+  const renderForm = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm mb-1">Name</label>
+        <input
+          value={draft.name}
+          onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          className="w-full border rounded px-2 py-1"
+          placeholder="e.g., 30 minute intro call"
+        />
+      </div>
+      <div>
+        <label className="block text-sm mb-1">Description</label>
+        <textarea
+          rows={2}
+          value={draft.description || ''}
+          onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+          className="w-full border rounded px-2 py-1"
+        />
+      </div>
+      <div>
+        <label className="block text-sm mb-1">Location</label>
+        <input
+          value={draft.location || ''}
+          onChange={e => setDraft(prev => ({ ...prev, location: e.target.value }))}
+          className="w-full border rounded px-2 py-1"
+          placeholder="Address, phone number or meeting link"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {numberField('Duration (min)', 'durationMinutes', 5)}
+        {numberField('Buffer before (min)', 'bufferBeforeMinutes', 0)}
+        {numberField('Buffer after (min)', 'bufferAfterMinutes', 0)}
+        {numberField('Minimum notice (min)', 'minNoticeMinutes', 0)}
+        {numberField('Book up to (days ahead)', 'maxAdvanceDays', 1)}
+        <label className="block text-sm">
+          Max per day
+          <input
+            type="number"
+            min={1}
+            value={draft.maxPerDay}
+            onChange={e => setDraft(prev => ({ ...prev, maxPerDay: e.target.value }))}
+            className="mt-1 w-full border rounded px-2 py-1"
+            placeholder="No limit"
+          />
+        </label>
+      </div>
+      <div>
+        <label className="block text-sm mb-1">Time zone</label>
+        <input
+          value={draft.timezone}
+          onChange={e => setDraft(prev => ({ ...prev, timezone: e.target.value }))}
+          className="w-full border rounded px-2 py-1"
+          placeholder="e.g., Europe/Berlin"
+        />
+      </div>
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Availability</div>
+        {DAY_NAMES.map((name, day) => {
+          const range = rangeFor(day);
+          return (
+            <div key={day} className="flex items-center gap-3 text-sm">
+              <label className="inline-flex items-center gap-2 w-32">
+                <input
+                  type="checkbox"
+                  checked={Boolean(range)}
+                  onChange={e => updateDay(day, e.target.checked ? {} : null)}
+                />
+                {name}
+              </label>
+              {range ? (
+                <>
+                  <input type="time" value={range.start} onChange={e => updateDay(day, { start: e.target.value })} className="border rounded px-2 py-1" />
+                  <span>to</span>
+                  <input type="time" value={range.end} onChange={e => updateDay(day, { end: e.target.value })} className="border rounded px-2 py-1" />
+                </>
+              ) : (
+                <span className="text-gray-400">Unavailable</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Intake questions</span>
+          <button type="button" onClick={addQuestion} className="text-sm text-blue-600 hover:underline">Add question</button>
+        </div>
+        {draft.questions.length === 0 && <p className="text-sm text-gray-400">Guests are only asked for their name and email.</p>}
+        {draft.questions.map((question, index) => (
+          <div key={question.id} className="flex items-center gap-2 text-sm">
+            <input
+              value={question.label}
+              onChange={e => updateQuestion(index, { label: e.target.value })}
+              className="flex-1 border rounded px-2 py-1"
+              placeholder="Question"
+            />
+            <label className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={question.required}
+                onChange={e => updateQuestion(index, { required: e.target.checked })}
+              />
+              Required
+            </label>
+            <button type="button" onClick={() => updateQuestion(index, null)} className="text-red-600 hover:underline">Remove</button>
+          </div>
+        ))}
+      </div>
+      {bookings.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-sm font-medium">Upcoming bookings</div>
+          {bookings.map(booking => (
+            <div key={booking.id} className="text-sm text-gray-600">
+              {new Date(booking.startAt).toLocaleString()} · {booking.guestName} ({booking.guestEmail})
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={() => setEditing(null)}>Back</Button>
+        <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving…' : 'Save'}</Button>
+      </div>
+    </div>
+  );
+
+  const renderList = () => (
+    <div className="space-y-3">
+      {types.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Create an appointment type to get a public page where anyone can book time with you.
+        </p>
+      ) : (
+        types.map(type => (
+          <div key={type.id} className={`border rounded p-3 ${type.isActive ? '' : 'opacity-60'}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="font-medium">{type.name}</div>
+                <div className="text-xs text-gray-500">
+                  {type.durationMinutes} min · {type.timezone}
+                  {type.maxPerDay ? ` · up to ${type.maxPerDay} per day` : ''}
+                  {type.isActive ? '' : ' · archived'}
+                </div>
+              </div>
+              <div className="flex gap-3 text-sm">
+                {type.isActive && (
+                  <>
+                    <button type="button" onClick={() => copyLink(type)} className="text-blue-600 hover:underline">Copy link</button>
+                    <a href={bookingPagePath(type)} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">Open</a>
+                  </>
+                )}
+                <button type="button" onClick={() => startEdit(type)} className="text-blue-600 hover:underline">Edit</button>
+                {type.isActive && (
+                  <button type="button" onClick={() => handleArchive(type)} className="text-red-600 hover:underline">Archive</button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onClose}>Close</Button>
+        <Button onClick={() => startEdit('new')}>New appointment type</Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal open={open} onClose={onClose} title="Booking pages" size="large">
+      {loading ? (
+        <div className="flex justify-center py-8"><Spinner /></div>
+      ) : editing ? renderForm() : renderList()}
+    </Modal>
+  );
+}
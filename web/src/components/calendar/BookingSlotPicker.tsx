@@ -0,0 +1,116 @@
+'use client';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Spinner } from 'shared/components';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { OpenSlots } from '../../api/appointments';
+
+type Slot = OpenSlots['slots'][number];
+
+interface BookingSlotPickerProps {
+  // Loads open slots for [start, end); the picker asks for one week at a time
+  loadSlots: (start: string, end: string) => Promise<OpenSlots>;
+  selected: Slot | null;
+  onSelect: (slot: Slot) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+// Week-at-a-time list of open slots, shown in the guest's own time zone
+export default function BookingSlotPicker({ loadSlots, selected, onSelect }: BookingSlotPickerProps) {
+  const [weekStart, setWeekStart] = useState(startOfToday);
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    loadSlots(weekStart.toISOString(), new Date(weekStart.getTime() + 7 * DAY_MS).toISOString())
+      .then((result) => { if (!cancelled) setSlots(result.slots); })
+      .catch((err: unknown) => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load available times'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [loadSlots, weekStart]);
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, Slot[]>();
+    for (const slot of slots) {
+      const key = new Date(slot.startAt).toDateString();
+      byDay.set(key, [...(byDay.get(key) || []), slot]);
+    }
+    return Array.from(byDay.entries());
+  }, [slots]);
+
+  const shiftWeek = (weeks: number) => setWeekStart(prev => new Date(prev.getTime() + weeks * 7 * DAY_MS));
+  const isFirstWeek = weekStart.getTime() <= startOfToday().getTime();
+  const weekEnd = new Date(weekStart.getTime() + 6 * DAY_MS);
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <button
+          type="button"
+          onClick={() => shiftWeek(-1)}
+          disabled={isFirstWeek}
+          className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+          aria-label="Previous week"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="text-sm font-medium text-gray-700">
+          {weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – {weekEnd.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+        </span>
+        <button
+          type="button"
+          onClick={() => shiftWeek(1)}
+          className="p-1 rounded hover:bg-gray-100"
+          aria-label="Next week"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-8"><Spinner size={24} /></div>
+      ) : error ? (
+        <p className="text-sm text-red-600 py-4">{error}</p>
+      ) : days.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">No open times this week.</p>
+      ) : (
+        <div className="space-y-4">
+          {days.map(([day, daySlots]) => (
+            <div key={day}>
+              <div className="text-sm font-semibold text-gray-900 mb-2">
+                {new Date(daySlots[0].startAt).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+              </div>
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {daySlots.map((slot) => (
+                  <button
+                    key={slot.startAt}
+                    type="button"
+                    onClick={() => onSelect(slot)}
+                    className={`px-2 py-1.5 text-sm rounded border transition ${
+                      selected?.startAt === slot.startAt
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-blue-200 text-blue-700 hover:border-blue-500'
+                    }`}
+                  >
+                    {new Date(slot.startAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-400 mt-4">Times are shown in {timeZone}.</p>
+    </div>
+  );
+}
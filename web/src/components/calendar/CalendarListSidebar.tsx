@@ -3,6 +3,8 @@ import { useEffect, useMemo, useState } from 'react';
 import { calendarAPI, Calendar } from '../../api/calendar';
 import { useDashboard } from '../../contexts/DashboardContext';
 import { useCalendarContext } from '../../contexts/CalendarContext';
+import WorkingHoursModal from './WorkingHoursModal';
+import AppointmentTypesModal from './AppointmentTypesModal';
 import { Dashboard } from 'shared/types/dashboard';
 import { DashboardWidget } from 'shared/types/dashboard';
 import { 
@@ -10,8 +12,10 @@ import {
   ClockIcon, 
   ShareIcon, 
   BellIcon,
+  BriefcaseIcon,
   PlusIcon,
-  ChevronRightIcon
+  ChevronRightIcon,
+  LinkIcon
 } from '@heroicons/react/24/outline';
 
 interface ExtendedDashboard extends Dashboard {
@@ -35,6 +39,8 @@ export default function CalendarListSidebar({ contextType, contextId }: Calendar
   const [calendars, setCalendars] = useState<Calendar[]>([]);
   const [loading, setLoading] = useState(false);
   const [masterCalendarActive, setMasterCalendarActive] = useState(true);
+  const [showWorkingHours, setShowWorkingHours] = useState(false);
+  const [showBookingPages, setShowBookingPages] = useState(false);
   const isContextLocked = Boolean(contextType && contextId);
   const shouldFilterBusinessCalendars = useMemo(() => {
     if (isContextLocked || !currentDashboard) {
@@ -359,8 +365,33 @@ export default function CalendarListSidebar({ contextType, contextId }: Calendar
             <ShareIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
             <span className="text-gray-700 dark:text-gray-300">Shared Calendars</span>
           </button>
+          <button
+            onClick={() => setShowWorkingHours(true)}
+            className="w-full px-3 py-2 rounded-lg hover:bg-white dark:hover:bg-gray-800 transition-colors flex items-center space-x-3 text-sm"
+          >
+            <BriefcaseIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            <span className="text-gray-700 dark:text-gray-300">Working Hours</span>
+          </button>
+          {(contextQuery.contextType === 'PERSONAL' || contextQuery.contextType === 'BUSINESS') && (
+            <button
+              onClick={() => setShowBookingPages(true)}
+              className="w-full px-3 py-2 rounded-lg hover:bg-white dark:hover:bg-gray-800 transition-colors flex items-center space-x-3 text-sm"
+            >
+              <LinkIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              <span className="text-gray-700 dark:text-gray-300">Booking Pages</span>
+            </button>
+          )}
         </div>
       </div>
+      <WorkingHoursModal open={showWorkingHours} onClose={() => setShowWorkingHours(false)} />
+      {(contextQuery.contextType === 'PERSONAL' || contextQuery.contextType === 'BUSINESS') && (
+        <AppointmentTypesModal
+          open={showBookingPages}
+          onClose={() => setShowBookingPages(false)}
+          contextType={contextQuery.contextType}
+          contextId={contextQuery.contextId}
+        />
+      )}
     </aside>
   );
 }
@@ -1,10 +1,10 @@
 'use client';
 import React, { useState, useEffect, useMemo } from 'react';
-import { calendarAPI, Calendar, EventItem, Attendee, EventComment } from '../../api/calendar';
-import { useCalendarContext } from '../../contexts/CalendarContext';
+import { calendarAPI, Calendar, EventItem, Attendee, EventComment, EditScope, CandidateSlot } from '../../api/calendar';
 import { useDashboard } from '../../contexts/DashboardContext';
 import { useGlobalTrash } from '../../contexts/GlobalTrashContext';
 import { toast } from 'react-hot-toast';
+import MeetingTimeFinder from './MeetingTimeFinder';
 
 interface EventPayload {
   calendarId: string;
@@ -17,12 +17,29 @@ interface EventPayload {
   allDay: boolean;
   timezone: string;
   attendees: Attendee[];
+  resourceIds?: string[];
   recurrenceRule?: string;
   recurrenceEndAt?: string;
-  editMode?: 'THIS';
+  editMode?: EditScope;
   occurrenceStartAt?: string;
 }
 
+const EDIT_SCOPE_LABELS: Record<EditScope, string> = {
+  THIS: 'This event only',
+  FOLLOWING: 'This and following events',
+  SERIES: 'Entire series',
+};
+
+// New events default to the browser's zone so recurrences keep their local time across DST
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Value for a datetime-local input in the browser's zone
+function toLocalInput(d: Date): string {
+  return new Date(d.getTime() - d.getTimezoneOffset()*60000).toISOString().slice(0,16);
+}
+
 interface ConflictData {
   success: boolean;
   data: Array<{ id: string; calendarId: string; title: string; startAt: string; endAt: string; }>;
@@ -56,7 +73,7 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
   const [startAt, setStartAt] = useState<string>('');
   const [endAt, setEndAt] = useState<string>('');
   const [allDay, setAllDay] = useState(false);
-  const [timezone, setTimezone] = useState('UTC');
+  const [timezone, setTimezone] = useState(browserTimeZone);
   const [calendarId, setCalendarId] = useState<string>('');
   const [calendars, setCalendars] = useState<Calendar[]>([]);
   const [saving, setSaving] = useState(false);
@@ -73,23 +90,27 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
   const [isRecurring, setIsRecurring] = useState(false);
   const [recurrenceRule, setRecurrenceRule] = useState(''); // e.g., FREQ=WEEKLY;BYDAY=MO
   const [recurrenceEnd, setRecurrenceEnd] = useState<string>('');
-  const [editSeriesMode, setEditSeriesMode] = useState<'THIS'|'SERIES'>('SERIES');
+  const [editSeriesMode, setEditSeriesMode] = useState<EditScope>('SERIES');
   const [ruleError, setRuleError] = useState<string>('');
+  const [showFinder, setShowFinder] = useState(false);
 
   useEffect(() => {
     if (!isOpen) return;
-    const toLocalInput = (d: Date) => new Date(d.getTime() - d.getTimezoneOffset()*60000).toISOString().slice(0,16);
+    setShowFinder(false);
     if (eventToEdit) {
       setTitle(eventToEdit.title);
       setCalendarId(eventToEdit.calendarId);
       setAllDay(eventToEdit.allDay);
       setTimezone(eventToEdit.timezone || 'UTC');
-      setStartAt(toLocalInput(new Date(eventToEdit.startAt)));
-      setEndAt(toLocalInput(new Date(eventToEdit.endAt)));
+      // Recurring events open on the occurrence that was clicked
+      setStartAt(toLocalInput(new Date(eventToEdit.occurrenceStartAt || eventToEdit.startAt)));
+      setEndAt(toLocalInput(new Date(eventToEdit.occurrenceEndAt || eventToEdit.endAt)));
+      setEditSeriesMode('SERIES');
       setDescription(eventToEdit.description || '');
       setLocation(eventToEdit.location || '');
       setOnlineLink(eventToEdit.onlineMeetingLink || '');
-      setAttendees(eventToEdit.attendees || []);
+      // Resources are booked separately and kept by the server when attendees are replaced
+      setAttendees((eventToEdit.attendees || []).filter(a => !a.resourceId));
       // Load recurrence when available in payload
       if (eventToEdit.recurrenceRule) {
         setIsRecurring(true);
@@ -109,6 +130,7 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
       const end = defaultEnd || new Date(start.getTime() + 60 * 60 * 1000);
       setStartAt(toLocalInput(start));
       setEndAt(toLocalInput(end));
+      setTimezone(browserTimeZone());
       setTitle('');
       setDescription('');
       setLocation('');
@@ -143,8 +165,13 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
     })();
   }, [isOpen, listParams]);
 
-  const handleSave = async () => {
-    if (!title || !startAt || !endAt || !calendarId) return;
+  const selectedCalendar = calendars.find(c => c.id === calendarId);
+
+  // Times (and resources) picked in the meeting finder are saved straight away
+  const handleSave = async (picked?: { startAt: string; endAt: string; resourceIds: string[] }) => {
+    const start = picked?.startAt ?? startAt;
+    const end = picked?.endAt ?? endAt;
+    if (!title || !start || !end || !calendarId) return;
     setSaving(true);
     try {
       // Basic RRULE validation
@@ -160,8 +187,8 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
       // Check conflicts before save (best effort)
       try {
         const conflicts = await calendarAPI.checkConflicts({
-          start: new Date(startAt).toISOString(),
-          end: new Date(endAt).toISOString(),
+          start: new Date(start).toISOString(),
+          end: new Date(end).toISOString(),
           calendarIds: [calendarId]
         });
         if ((conflicts as ConflictData)?.success && (conflicts as ConflictData).data?.length > 0) {
@@ -175,18 +202,19 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
         description,
         location,
         onlineMeetingLink: onlineLink,
-        startAt: new Date(startAt).toISOString(),
-        endAt: new Date(endAt).toISOString(),
+        startAt: new Date(start).toISOString(),
+        endAt: new Date(end).toISOString(),
         allDay,
         timezone,
         attendees,
+        resourceIds: picked?.resourceIds.length ? picked.resourceIds : undefined,
         recurrenceRule: isRecurring && recurrenceRule ? recurrenceRule : undefined,
         recurrenceEndAt: isRecurring && recurrenceEnd ? new Date(recurrenceEnd).toISOString() : undefined,
       };
       if (eventToEdit?.id) {
-        // If editing a recurring event and user chose THIS, pass editMode and occurrenceStartAt
-        if (eventToEdit.recurrenceRule && editSeriesMode === 'THIS') {
-          payload.editMode = 'THIS';
+        // Recurring edits name the occurrence they were made from; the server applies the scope
+        if (eventToEdit.recurrenceRule) {
+          payload.editMode = editSeriesMode;
           payload.occurrenceStartAt = eventToEdit.occurrenceStartAt || eventToEdit.startAt;
         }
         const resp = await calendarAPI.updateEvent(eventToEdit.id, payload);
@@ -206,6 +234,16 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
     }
   };
 
+  const handlePickSlot = (slot: CandidateSlot, resourceIds: string[]) => {
+    if (!title) {
+      toast.error('Add a title before booking a time');
+      return;
+    }
+    setStartAt(toLocalInput(new Date(slot.startAt)));
+    setEndAt(toLocalInput(new Date(slot.endAt)));
+    handleSave({ startAt: slot.startAt, endAt: slot.endAt, resourceIds });
+  };
+
   return (
     <div className={`fixed inset-0 z-40 ${isOpen ? '' : 'pointer-events-none'}`}>
       {/* Backdrop */}
@@ -243,87 +281,26 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
             </div>
           </div>
           
-          {/* Find time button */}
-          {attendees.length > 0 && (
-            <div className="flex justify-center">
-              <button
-                onClick={async () => {
-                  try {
-                    // Get free-busy for attendees and visible calendars
-                    const attendeeEmails = attendees.map(a => a.email).filter(Boolean);
-                    const visibleCalendarIds = Array.from(useCalendarContext().visibleCalendarIds);
-                    
-                    if (attendeeEmails.length === 0 && visibleCalendarIds.length === 0) return;
-                    
-                    // Get free-busy for next 7 days
-                    const now = new Date();
-                    const weekStart = new Date(now);
-                    weekStart.setHours(0, 0, 0, 0);
-                    const weekEnd = new Date(weekStart);
-                    weekEnd.setDate(weekEnd.getDate() + 7);
-                    
-                    const freeBusyResp = await calendarAPI.freeBusy({
-                      start: weekStart.toISOString(),
-                      end: weekEnd.toISOString(),
-                      calendarIds: visibleCalendarIds
-                    });
-                    
-                    if (freeBusyResp?.success) {
-                      // Find open slots (simplified: look for 1-hour gaps)
-                      const openSlots = [];
-                      const busyTimes = freeBusyResp.data || [];
-                      
-                      // Group busy times by day and find gaps
-                      for (let day = 0; day < 7; day++) {
-                        const currentDay = new Date(weekStart);
-                        currentDay.setDate(currentDay.getDate() + day);
-                        
-                        // Check each hour from 9 AM to 6 PM
-                        for (let hour = 9; hour < 18; hour++) {
-                          const slotStart = new Date(currentDay);
-                          slotStart.setHours(hour, 0, 0, 0);
-                          const slotEnd = new Date(slotStart);
-                          slotEnd.setHours(hour + 1, 0, 0, 0);
-                          
-                          // Check if this slot conflicts with any busy time
-                          const hasConflict = busyTimes.some((busy: { startAt: string; endAt: string }) => {
-                            const busyStart = new Date(busy.startAt);
-                            const busyEnd = new Date(busy.endAt);
-                            return slotStart < busyEnd && slotEnd > busyStart;
-                          });
-                          
-                          if (!hasConflict) {
-                            openSlots.push({ start: slotStart, end: slotEnd });
-                          }
-                        }
-                      }
-                      
-                      // Show suggestions (limit to 5)
-                      if (openSlots.length > 0) {
-                        const suggestions = openSlots.slice(0, 5);
-                        const selectedSlot = suggestions[0]; // Use first suggestion
-                        
-                        if (confirm(`Found ${openSlots.length} open slots this week. Use the first available slot (${selectedSlot.start.toLocaleString()} - ${selectedSlot.end.toLocaleString()})?`)) {
-                          setStartAt(selectedSlot.start.toISOString().slice(0, 16));
-                          setEndAt(selectedSlot.end.toISOString().slice(0, 16));
-                        }
-                      } else {
-                        alert('No open slots found in the next week. Try a different time range.');
-                      }
-                    }
-                  } catch (error) {
-                    console.error('Error finding available time:', error);
-                    alert('Unable to find available time. Please check your calendar settings.');
-                  }
-                }}
-                className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
-                title="Find available time slots for all attendees"
-              >
-                🕐 Find Time
-              </button>
-            </div>
+          <div className="flex justify-center">
+            <button
+              onClick={() => setShowFinder(prev => !prev)}
+              className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+              title="Find a time that works for the attendees and resources"
+            >
+              🕐 Find Time
+            </button>
+          </div>
+          {showFinder && (
+            <MeetingTimeFinder
+              attendeeEmails={attendees.map(a => a.email).filter((email): email is string => Boolean(email))}
+              businessId={selectedCalendar?.contextType === 'BUSINESS' ? selectedCalendar.contextId : undefined}
+              durationMinutes={startAt && endAt ? Math.round((new Date(endAt).getTime() - new Date(startAt).getTime()) / 60000) : 60}
+              timezone={timezone}
+              booking={saving}
+              onPick={handlePickSlot}
+            />
           )}
-          
+
           {/* ICS Import */}
           <div className="flex justify-center">
             <div className="text-center">
@@ -427,16 +404,14 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
           </div>
           {/* Edit scope for recurring series */}
           {eventToEdit?.recurrenceRule && (
-            <div className="flex items-center gap-3 text-sm">
-              <span>Edit:</span>
-              <label className="inline-flex items-center gap-1">
-                <input type="radio" name="editScope" checked={editSeriesMode==='THIS'} onChange={() => setEditSeriesMode('THIS')} />
-                This event only
-              </label>
-              <label className="inline-flex items-center gap-1">
-                <input type="radio" name="editScope" checked={editSeriesMode==='SERIES'} onChange={() => setEditSeriesMode('SERIES')} />
-                Entire series
-              </label>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span>Apply to:</span>
+              {(Object.keys(EDIT_SCOPE_LABELS) as EditScope[]).map(scope => (
+                <label key={scope} className="inline-flex items-center gap-1">
+                  <input type="radio" name="editScope" checked={editSeriesMode===scope} onChange={() => setEditSeriesMode(scope)} />
+                  {EDIT_SCOPE_LABELS[scope]}
+                </label>
+              ))}
             </div>
           )}
           {/* Recurrence (MVP) */}
@@ -499,11 +474,11 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
                   setSaving(true);
                   try {
                     if (eventToEdit.recurrenceRule) {
-                      const thisOnly = confirm('Delete this occurrence only? Press Cancel to delete the entire series.');
-                      if (thisOnly) {
-                        // For single occurrence, use API (creates exception)
-                        await calendarAPI.deleteEvent(eventToEdit.id, { editMode: 'THIS', occurrenceStartAt: eventToEdit.occurrenceStartAt || eventToEdit.startAt });
-                        toast.success('Occurrence deleted');
+                      if (!confirm(`Delete ${EDIT_SCOPE_LABELS[editSeriesMode].toLowerCase()}?`)) return;
+                      if (editSeriesMode !== 'SERIES') {
+                        // A single occurrence becomes a canceled exception; following ones end the series
+                        await calendarAPI.deleteEvent(eventToEdit.id, { editMode: editSeriesMode, occurrenceStartAt: eventToEdit.occurrenceStartAt || eventToEdit.startAt });
+                        toast.success(editSeriesMode === 'THIS' ? 'Occurrence deleted' : 'Following occurrences deleted');
                       } else {
                         // For entire series, use global trash
                         await trashItem({
@@ -571,7 +546,7 @@ export default function EventDrawer({ isOpen, onClose, onCreated, onUpdated, con
               </button>
             )}
             <button onClick={onClose} className="px-3 py-1 border rounded">Cancel</button>
-            <button onClick={handleSave} disabled={saving || !title} className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-50">{saving ? 'Saving…' : (eventToEdit ? 'Save' : 'Create')}</button>
+            <button onClick={() => handleSave()} disabled={saving || !title} className="px-3 py-1 bg-blue-600 text-white rounded disabled:opacity-50">{saving ? 'Saving…' : (eventToEdit ? 'Save' : 'Create')}</button>
           </div>
           {/* Comments */}
           {eventToEdit?.id && (
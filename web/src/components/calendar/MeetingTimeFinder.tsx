@@ -0,0 +1,168 @@
+'use client';
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { calendarAPI, CalendarResource, CandidateSlot, SlotAttendeeReason } from '../../api/calendar';
+
+interface MeetingTimeFinderProps {
+  attendeeEmails: string[];
+  // Resources of this business can be added to the search
+  businessId?: string;
+  durationMinutes: number;
+  timezone: string;
+  booking: boolean;
+  onPick: (slot: CandidateSlot, resourceIds: string[]) => void;
+}
+
+const REASON_LABELS: Record<SlotAttendeeReason, string> = {
+  free: 'Free',
+  busy: 'Busy',
+  back_to_back: 'Back-to-back',
+  outside_working_hours: 'Outside working hours',
+  booking_policy: 'Not bookable',
+  hidden: 'Calendar not shared',
+  unknown: 'Unknown',
+};
+
+const PREFERRED_TIMES: Record<string, Array<{ start: string; end: string }>> = {
+  any: [],
+  morning: [{ start: '09:00', end: '12:00' }],
+  afternoon: [{ start: '13:00', end: '17:00' }],
+};
+
+const SEARCH_DAYS = 7;
+
+// Ranks meeting slots for the attendees and resources; picking one books the event
+export default function MeetingTimeFinder({ attendeeEmails, businessId, durationMinutes, timezone, booking, onPick }: MeetingTimeFinderProps) {
+  const [resources, setResources] = useState<CalendarResource[]>([]);
+  const [resourceIds, setResourceIds] = useState<string[]>([]);
+  const [workingHoursOnly, setWorkingHoursOnly] = useState(true);
+  const [avoidBackToBack, setAvoidBackToBack] = useState(false);
+  const [preferred, setPreferred] = useState<keyof typeof PREFERRED_TIMES>('any');
+  const [slots, setSlots] = useState<CandidateSlot[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    setResourceIds([]);
+    if (!businessId) {
+      setResources([]);
+      return;
+    }
+    (async () => {
+      try {
+        const resp = await calendarAPI.listResources(businessId);
+        if (resp?.success) setResources(resp.data);
+      } catch {
+        setResources([]);
+      }
+    })();
+  }, [businessId]);
+
+  const toggleResource = (id: string) => {
+    setResourceIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const search = async () => {
+    setSearching(true);
+    try {
+      const start = new Date();
+      const end = new Date(start.getTime() + SEARCH_DAYS * 24 * 60 * 60 * 1000);
+      const resp = await calendarAPI.findTime({
+        start: start.toISOString(),
+        end: end.toISOString(),
+        durationMinutes,
+        attendeeEmails,
+        resourceIds,
+        workingHoursOnly,
+        avoidBackToBack,
+        preferredTimes: PREFERRED_TIMES[preferred],
+        timezone,
+      });
+      if (resp?.success) setSlots(resp.data.slots);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to find available times');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const formatSlot = (slot: CandidateSlot) => {
+    const start = new Date(slot.startAt);
+    const end = new Date(slot.endAt);
+    return `${start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })} ${start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} – ${end.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
+  return (
+    <div className="border rounded p-3 space-y-3 text-sm">
+      <div className="font-medium">Find a time ({durationMinutes} min, next {SEARCH_DAYS} days)</div>
+      {resources.length > 0 && (
+        <div>
+          <div className="text-gray-600 mb-1">Resources</div>
+          <div className="flex flex-wrap gap-2">
+            {resources.map(resource => (
+              <label key={resource.id} className="inline-flex items-center gap-1">
+                <input type="checkbox" checked={resourceIds.includes(resource.id)} onChange={() => toggleResource(resource.id)} />
+                {resource.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="inline-flex items-center gap-1">
+          <input type="checkbox" checked={workingHoursOnly} onChange={e => setWorkingHoursOnly(e.target.checked)} />
+          Working hours only
+        </label>
+        <label className="inline-flex items-center gap-1">
+          <input type="checkbox" checked={avoidBackToBack} onChange={e => setAvoidBackToBack(e.target.checked)} />
+          No back-to-back
+        </label>
+        <select value={preferred} onChange={e => setPreferred(e.target.value)} className="border rounded px-1 py-0.5">
+          <option value="any">Any time</option>
+          <option value="morning">Prefer mornings</option>
+          <option value="afternoon">Prefer afternoons</option>
+        </select>
+      </div>
+      <button
+        onClick={search}
+        disabled={searching || durationMinutes <= 0}
+        className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+      >
+        {searching ? 'Searching…' : 'Suggest times'}
+      </button>
+      {slots && slots.length === 0 && (
+        <div className="text-gray-500">No times fit in the next {SEARCH_DAYS} days.</div>
+      )}
+      {slots && slots.length > 0 && (
+        <ul className="space-y-2">
+          {slots.map(slot => (
+            <li key={slot.startAt} className="border rounded p-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">{formatSlot(slot)}</div>
+                  <div className="text-xs text-gray-500">
+                    {slot.unavailableCount === 0 ? 'Everyone is free' : `${slot.unavailableCount} can't make it`}
+                    {slot.preferred ? ' · preferred time' : ''}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onPick(slot, resourceIds)}
+                  disabled={booking}
+                  className="px-2 py-1 border rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Book
+                </button>
+              </div>
+              <ul className="mt-1 text-xs">
+                {slot.attendees.map(attendee => (
+                  <li key={`${attendee.kind}-${attendee.id ?? attendee.label}`} className={attendee.free === false ? 'text-red-600' : attendee.free ? 'text-green-700' : 'text-gray-500'}>
+                    {attendee.label}: {attendee.detail || REASON_LABELS[attendee.reason]}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
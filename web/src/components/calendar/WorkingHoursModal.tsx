@@ -0,0 +1,122 @@
+'use client';
+import React, { useEffect, useState } from 'react';
+import { Button, Modal, Spinner } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { calendarAPI, WorkingHoursRange } from '../../api/calendar';
+
+interface WorkingHoursModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DEFAULT_HOURS: WorkingHoursRange[] = [1, 2, 3, 4, 5].map(day => ({ day, start: '09:00', end: '17:00' }));
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// One working period per weekday; free/busy and the meeting time finder use these hours
+export default function WorkingHoursModal({ open, onClose }: WorkingHoursModalProps) {
+  const [timezone, setTimezone] = useState(browserTimeZone);
+  const [hours, setHours] = useState<WorkingHoursRange[]>(DEFAULT_HOURS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      setLoading(true);
+      try {
+        const resp = await calendarAPI.getWorkingHours();
+        if (resp?.success && resp.data) {
+          setTimezone(resp.data.timezone);
+          setHours(resp.data.hours);
+        } else {
+          setTimezone(browserTimeZone());
+          setHours(DEFAULT_HOURS);
+        }
+      } catch {
+        toast.error('Failed to load working hours');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [open]);
+
+  const rangeFor = (day: number) => hours.find(range => range.day === day);
+
+  const updateDay = (day: number, changes: Partial<WorkingHoursRange> | null) => {
+    setHours(prev => {
+      const others = prev.filter(range => range.day !== day);
+      if (!changes) return others;
+      const current = prev.find(range => range.day === day) || { day, start: '09:00', end: '17:00' };
+      return [...others, { ...current, ...changes }].sort((a, b) => a.day - b.day);
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const resp = await calendarAPI.updateWorkingHours({ timezone: timezone.trim(), hours });
+      if (resp?.success) {
+        toast.success('Working hours saved');
+        onClose();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save working hours');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Working hours" size="medium">
+      {loading ? (
+        <div className="flex justify-center py-8"><Spinner /></div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm mb-1">Time zone</label>
+            <input
+              value={timezone}
+              onChange={e => setTimezone(e.target.value)}
+              className="w-full border rounded px-2 py-1"
+              placeholder="e.g., Europe/Berlin"
+            />
+          </div>
+          <div className="space-y-2">
+            {DAY_NAMES.map((name, day) => {
+              const range = rangeFor(day);
+              return (
+                <div key={day} className="flex items-center gap-3 text-sm">
+                  <label className="inline-flex items-center gap-2 w-32">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(range)}
+                      onChange={e => updateDay(day, e.target.checked ? {} : null)}
+                    />
+                    {name}
+                  </label>
+                  {range ? (
+                    <>
+                      <input type="time" value={range.start} onChange={e => updateDay(day, { start: e.target.value })} className="border rounded px-2 py-1" />
+                      <span>to</span>
+                      <input type="time" value={range.end} onChange={e => updateDay(day, { end: e.target.value })} className="border rounded px-2 py-1" />
+                    </>
+                  ) : (
+                    <span className="text-gray-400">Unavailable</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving…' : 'Save'}</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -1,18 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Card, Button, Input, Switch, Badge } from 'shared/components';
+import { Card, Button, Input, Switch, Badge, Modal } from 'shared/components';
 import { useFeatureGating } from '../../../hooks/useFeatureGating';
 import { FeatureGate } from '../../FeatureGate';
-import { 
-  MapPin, 
-  Monitor, 
-  Car, 
-  Wifi, 
-  Coffee, 
-  Users, 
-  Clock, 
-  Calendar, 
-  Search, 
-  Filter,
+import {
+  MapPin,
+  Monitor,
+  Car,
+  Users,
+  Clock,
+  Calendar,
+  Search,
   Plus,
   Settings,
   CheckCircle,
@@ -24,66 +21,20 @@ import {
   Trash2
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import {
+  calendarAPI,
+  CalendarResource,
+  CalendarResourceInput,
+  ResourceBooking,
+  ResourceBusySlot,
+  ResourceType
+} from '../../../api/calendar';
 
 interface ResourceBookingPanelProps {
   businessId?: string;
-  eventId?: string;
   className?: string;
 }
 
-interface Resource {
-  id: string;
-  name: string;
-  type: 'room' | 'equipment' | 'vehicle' | 'space';
-  category: string;
-  capacity?: number;
-  location: string;
-  amenities: string[];
-  hourlyRate?: number;
-  description: string;
-  availability: 'available' | 'busy' | 'maintenance' | 'offline';
-  features: {
-    wifi: boolean;
-    projector: boolean;
-    whiteboard: boolean;
-    videoConf: boolean;
-    catering: boolean;
-    accessibility: boolean;
-  };
-  images: string[];
-  policies: {
-    advanceBookingDays: number;
-    maxBookingHours: number;
-    requiresApproval: boolean;
-    cancellationPolicy: string;
-  };
-  bookings: ResourceBooking[];
-  maintenanceSchedule?: Array<{
-    date: Date;
-    duration: number;
-    description: string;
-  }>;
-}
-
-interface ResourceBooking {
-  id: string;
-  resourceId: string;
-  userId: string;
-  userName: string;
-  userEmail: string;
-  title: string;
-  startTime: Date;
-  endTime: Date;
-  status: 'confirmed' | 'pending' | 'cancelled' | 'completed';
-  attendeeCount: number;
-  setup: string;
-  specialRequests?: string;
-  cost?: number;
-  approvedBy?: string;
-  createdAt: Date;
-  notes?: string;
-}
-
 interface AvailabilitySlot {
   startTime: Date;
   endTime: Date;
@@ -91,204 +42,164 @@ interface AvailabilitySlot {
   conflictReason?: string;
 }
 
-const RESOURCE_TYPES = [
-  { value: 'room', label: 'Meeting Rooms', icon: <Users className="w-4 h-4" /> },
-  { value: 'equipment', label: 'Equipment', icon: <Monitor className="w-4 h-4" /> },
-  { value: 'vehicle', label: 'Vehicles', icon: <Car className="w-4 h-4" /> },
-  { value: 'space', label: 'Spaces', icon: <MapPin className="w-4 h-4" /> }
-];
+interface ResourceForm {
+  name: string;
+  type: ResourceType;
+  location: string;
+  capacity: string;
+  amenities: string;
+  description: string;
+  maxDurationMinutes: string;
+  minLeadMinutes: string;
+  maxAdvanceDays: string;
+  requiresApproval: boolean;
+}
 
-const AMENITIES = [
-  { id: 'wifi', label: 'WiFi', icon: <Wifi className="w-4 h-4" /> },
-  { id: 'projector', label: 'Projector', icon: <Monitor className="w-4 h-4" /> },
-  { id: 'whiteboard', label: 'Whiteboard', icon: <Edit className="w-4 h-4" /> },
-  { id: 'videoConf', label: 'Video Conference', icon: <Monitor className="w-4 h-4" /> },
-  { id: 'catering', label: 'Catering', icon: <Coffee className="w-4 h-4" /> },
-  { id: 'accessibility', label: 'Accessible', icon: <Users className="w-4 h-4" /> }
+const RESOURCE_TYPES: Array<{ value: ResourceType; label: string; icon: React.ReactNode }> = [
+  { value: 'ROOM', label: 'Meeting Rooms', icon: <Users className="w-4 h-4" /> },
+  { value: 'EQUIPMENT', label: 'Equipment', icon: <Monitor className="w-4 h-4" /> },
+  { value: 'VEHICLE', label: 'Vehicles', icon: <Car className="w-4 h-4" /> },
+  { value: 'SPACE', label: 'Spaces', icon: <MapPin className="w-4 h-4" /> }
 ];
 
+const EMPTY_FORM: ResourceForm = {
+  name: '',
+  type: 'ROOM',
+  location: '',
+  capacity: '',
+  amenities: '',
+  description: '',
+  maxDurationMinutes: '',
+  minLeadMinutes: '',
+  maxAdvanceDays: '',
+  requiresApproval: false
+};
+
+// Day view shown in resource details
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 18;
+
+// datetime-local inputs work in local time, so don't go through toISOString
+const toLocalInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const nextHalfHour = () => {
+  const date = new Date();
+  date.setMinutes(date.getMinutes() < 30 ? 30 : 60, 0, 0);
+  return date;
+};
+
+const overlapsSlot = (slot: ResourceBusySlot, start: Date, end: Date) =>
+  new Date(slot.startAt) < end && new Date(slot.endAt) > start;
+
+const getDaySlots = (busy: ResourceBusySlot[], day: Date): AvailabilitySlot[] => {
+  const slots: AvailabilitySlot[] = [];
+  for (let hour = DAY_START_HOUR; hour < DAY_END_HOUR; hour++) {
+    const startTime = new Date(day);
+    startTime.setHours(hour, 0, 0, 0);
+    const endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
+    const conflict = busy.find(slot => overlapsSlot(slot, startTime, endTime));
+    slots.push({
+      startTime,
+      endTime,
+      available: !conflict,
+      conflictReason: conflict ? conflict.title || (conflict.status === 'PENDING' ? 'Pending approval' : 'Booked') : undefined
+    });
+  }
+  return slots;
+};
+
+const formFromResource = (resource: CalendarResource): ResourceForm => ({
+  name: resource.name,
+  type: resource.type,
+  location: resource.location || '',
+  capacity: resource.capacity ? String(resource.capacity) : '',
+  amenities: resource.amenities.join(', '),
+  description: resource.description || '',
+  maxDurationMinutes: resource.maxDurationMinutes ? String(resource.maxDurationMinutes) : '',
+  minLeadMinutes: resource.minLeadMinutes ? String(resource.minLeadMinutes) : '',
+  maxAdvanceDays: resource.maxAdvanceDays ? String(resource.maxAdvanceDays) : '',
+  requiresApproval: resource.requiresApproval
+});
+
+const inputFromForm = (form: ResourceForm): CalendarResourceInput & { name: string; type: ResourceType } => ({
+  name: form.name.trim(),
+  type: form.type,
+  location: form.location.trim() || null,
+  capacity: form.capacity ? Number(form.capacity) : null,
+  amenities: form.amenities.split(',').map(a => a.trim()).filter(Boolean),
+  description: form.description.trim() || null,
+  maxDurationMinutes: form.maxDurationMinutes ? Number(form.maxDurationMinutes) : null,
+  minLeadMinutes: form.minLeadMinutes ? Number(form.minLeadMinutes) : null,
+  maxAdvanceDays: form.maxAdvanceDays ? Number(form.maxAdvanceDays) : null,
+  requiresApproval: form.requiresApproval
+});
+
 export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
   businessId,
-  eventId,
   className = ''
 }) => {
   const { recordUsage } = useFeatureGating(businessId);
   const [activeTab, setActiveTab] = useState<'browse' | 'bookings' | 'manage'>('browse');
-  const [resources, setResources] = useState<Resource[]>([]);
+  const [resources, setResources] = useState<CalendarResource[]>([]);
+  const [busyByResource, setBusyByResource] = useState<Record<string, ResourceBusySlot[]>>({});
   const [bookings, setBookings] = useState<ResourceBooking[]>([]);
+  const [pendingBookings, setPendingBookings] = useState<ResourceBooking[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [calendarId, setCalendarId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedResourceType, setSelectedResourceType] = useState<string>('');
-  const [selectedResource, setSelectedResource] = useState<Resource | null>(null);
+  const [selectedResource, setSelectedResource] = useState<CalendarResource | null>(null);
   const [showBookingModal, setShowBookingModal] = useState(false);
-  const [bookingDate, setBookingDate] = useState(new Date());
+  const [bookingDate, setBookingDate] = useState(nextHalfHour());
   const [bookingDuration, setBookingDuration] = useState(1);
+  const [bookingTitle, setBookingTitle] = useState('');
+  const [booking, setBooking] = useState(false);
   const [attendeeCount, setAttendeeCount] = useState(1);
   const [selectedAmenities, setSelectedAmenities] = useState<string[]>([]);
+  const [editingResourceId, setEditingResourceId] = useState<string | 'new' | null>(null);
+  const [resourceForm, setResourceForm] = useState<ResourceForm>(EMPTY_FORM);
+  const [savingResource, setSavingResource] = useState(false);
+
+  const bookingEnd = new Date(bookingDate.getTime() + bookingDuration * 60 * 60 * 1000);
+  const bookingDayKey = bookingDate.toDateString();
 
   useEffect(() => {
     loadResourceData();
   }, [businessId]);
 
+  useEffect(() => {
+    loadAvailability();
+  }, [businessId, bookingDayKey]);
+
   const loadResourceData = async () => {
+    if (!businessId) {
+      setLoading(false);
+      return;
+    }
     try {
       setLoading(true);
-      
-      // Mock resources
-      const mockResources: Resource[] = [
-        {
-          id: '1',
-          name: 'Executive Boardroom',
-          type: 'room',
-          category: 'Conference Room',
-          capacity: 16,
-          location: 'Floor 10, East Wing',
-          amenities: ['WiFi', 'Projector', 'Video Conference', 'Catering'],
-          hourlyRate: 150,
-          description: 'Premium boardroom with city views, perfect for executive meetings and presentations.',
-          availability: 'available',
-          features: {
-            wifi: true,
-            projector: true,
-            whiteboard: true,
-            videoConf: true,
-            catering: true,
-            accessibility: true
-          },
-          images: ['/resources/boardroom1.jpg', '/resources/boardroom2.jpg'],
-          policies: {
-            advanceBookingDays: 30,
-            maxBookingHours: 8,
-            requiresApproval: true,
-            cancellationPolicy: '24 hours notice required'
-          },
-          bookings: []
-        },
-        {
-          id: '2',
-          name: 'Collaboration Hub A',
-          type: 'room',
-          category: 'Team Room',
-          capacity: 8,
-          location: 'Floor 5, Central',
-          amenities: ['WiFi', 'Whiteboard', 'Monitor'],
-          hourlyRate: 75,
-          description: 'Modern collaboration space with flexible seating and digital whiteboards.',
-          availability: 'available',
-          features: {
-            wifi: true,
-            projector: false,
-            whiteboard: true,
-            videoConf: false,
-            catering: false,
-            accessibility: true
-          },
-          images: ['/resources/collab1.jpg'],
-          policies: {
-            advanceBookingDays: 14,
-            maxBookingHours: 4,
-            requiresApproval: false,
-            cancellationPolicy: '2 hours notice required'
-          },
-          bookings: []
-        },
-        {
-          id: '3',
-          name: '4K Projector System',
-          type: 'equipment',
-          category: 'AV Equipment',
-          location: 'AV Storage, Floor 3',
-          amenities: ['4K Display', 'HDMI', 'Wireless Casting'],
-          hourlyRate: 50,
-          description: 'Professional-grade 4K projector with wireless presentation capabilities.',
-          availability: 'available',
-          features: {
-            wifi: true,
-            projector: true,
-            whiteboard: false,
-            videoConf: false,
-            catering: false,
-            accessibility: true
-          },
-          images: ['/resources/projector1.jpg'],
-          policies: {
-            advanceBookingDays: 7,
-            maxBookingHours: 12,
-            requiresApproval: false,
-            cancellationPolicy: '4 hours notice required'
-          },
-          bookings: []
-        },
-        {
-          id: '4',
-          name: 'Company Vehicle - Tesla Model S',
-          type: 'vehicle',
-          category: 'Executive Transport',
-          location: 'Parking Garage Level B1',
-          amenities: ['Electric', 'GPS', 'Autopilot'],
-          hourlyRate: 25,
-          description: 'Executive vehicle for client meetings and business travel.',
-          availability: 'available',
-          features: {
-            wifi: true,
-            projector: false,
-            whiteboard: false,
-            videoConf: false,
-            catering: false,
-            accessibility: false
-          },
-          images: ['/resources/tesla1.jpg'],
-          policies: {
-            advanceBookingDays: 3,
-            maxBookingHours: 24,
-            requiresApproval: true,
-            cancellationPolicy: '12 hours notice required'
-          },
-          bookings: []
-        }
-      ];
-
-      // Mock bookings
-      const mockBookings: ResourceBooking[] = [
-        {
-          id: '1',
-          resourceId: '1',
-          userId: 'user1',
-          userName: 'John Doe',
-          userEmail: 'john.doe@company.com',
-          title: 'Board Meeting Q4 Review',
-          startTime: new Date(Date.now() + 2 * 60 * 60 * 1000),
-          endTime: new Date(Date.now() + 4 * 60 * 60 * 1000),
-          status: 'confirmed',
-          attendeeCount: 12,
-          setup: 'Boardroom style with presentation screen',
-          cost: 300,
-          approvedBy: 'admin@company.com',
-          createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000)
-        },
-        {
-          id: '2',
-          resourceId: '2',
-          userId: 'user2',
-          userName: 'Jane Smith',
-          userEmail: 'jane.smith@company.com',
-          title: 'Team Standup',
-          startTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
-          endTime: new Date(Date.now() + 25 * 60 * 60 * 1000),
-          status: 'confirmed',
-          attendeeCount: 6,
-          setup: 'Casual seating circle',
-          cost: 75,
-          createdAt: new Date(Date.now() - 12 * 60 * 60 * 1000)
-        }
-      ];
-
-      setResources(mockResources);
-      setBookings(mockBookings);
-      
-      // Record usage
-      await recordUsage('calendar_resource_booking', 1);
-      
+
+      // Only managers can list pending approvals; a refusal just means a regular member
+      const pendingRequest = calendarAPI.listResourceBookings(businessId, 'pending')
+        .then(res => ({ ok: true, data: res.data }))
+        .catch(() => ({ ok: false, data: [] as ResourceBooking[] }));
+      const [resourcesRes, bookingsRes, calendarsRes] = await Promise.all([
+        calendarAPI.listResources(businessId, { includeInactive: true }),
+        calendarAPI.listResourceBookings(businessId, 'mine'),
+        calendarAPI.listCalendars({ contextType: 'BUSINESS', contextId: businessId })
+      ]);
+      const pending = await pendingRequest;
+
+      setResources(resourcesRes.data);
+      setBookings(bookingsRes.data);
+      setCanManage(pending.ok);
+      setPendingBookings(pending.data);
+      const calendars = calendarsRes.data || [];
+      setCalendarId((calendars.find(c => c.isPrimary) || calendars[0])?.id || null);
     } catch (error) {
       console.error('Failed to load resource data:', error);
       toast.error('Failed to load resource data');
@@ -297,94 +208,173 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
     }
   };
 
-  const handleBookResource = async (resourceId: string) => {
+  const loadAvailability = async () => {
+    if (!businessId) return;
+    const dayStart = new Date(bookingDate);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+    try {
+      const res = await calendarAPI.resourceAvailability({
+        businessId,
+        start: dayStart.toISOString(),
+        end: dayEnd.toISOString()
+      });
+      setBusyByResource(Object.fromEntries(res.data.map(entry => [entry.resourceId, entry.busy])));
+    } catch (error) {
+      console.error('Failed to load resource availability:', error);
+    }
+  };
+
+  const isBusy = (resource: CalendarResource) =>
+    (busyByResource[resource.id] || []).some(slot => overlapsSlot(slot, bookingDate, bookingEnd));
+
+  const closeBookingModal = () => {
+    setShowBookingModal(false);
+    setSelectedResource(null);
+  };
+
+  const handleBookResource = async (resource: CalendarResource) => {
+    if (!calendarId) {
+      toast.error('No business calendar is available to book into');
+      return;
+    }
     try {
-      const resource = resources.find(r => r.id === resourceId);
-      if (!resource) return;
-
-      const newBooking: ResourceBooking = {
-        id: Date.now().toString(),
-        resourceId,
-        userId: 'current-user',
-        userName: 'Current User',
-        userEmail: 'user@company.com',
-        title: `Resource Booking - ${resource.name}`,
-        startTime: bookingDate,
-        endTime: new Date(bookingDate.getTime() + bookingDuration * 60 * 60 * 1000),
-        status: resource.policies.requiresApproval ? 'pending' : 'confirmed',
-        attendeeCount,
-        setup: 'Standard setup',
-        cost: (resource.hourlyRate || 0) * bookingDuration,
-        createdAt: new Date()
-      };
-
-      setBookings(prev => [...prev, newBooking]);
-      setShowBookingModal(false);
-      
-      toast.success(`${resource.name} ${resource.policies.requiresApproval ? 'booking requested' : 'booked successfully'}`);
-      
-      // Record usage
+      setBooking(true);
+      await calendarAPI.createEvent({
+        calendarId,
+        title: bookingTitle.trim() || resource.name,
+        location: resource.location || undefined,
+        startAt: bookingDate.toISOString(),
+        endAt: bookingEnd.toISOString(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        resourceIds: [resource.id]
+      });
+      closeBookingModal();
+      setBookingTitle('');
+      toast.success(`${resource.name} ${resource.requiresApproval && !canManage ? 'booking requested' : 'booked successfully'}`);
+
       await recordUsage('calendar_resource_booking', 1);
-      
+      await Promise.all([loadResourceData(), loadAvailability()]);
     } catch (error) {
       console.error('Failed to book resource:', error);
-      toast.error('Failed to book resource');
+      toast.error(error instanceof Error ? error.message : 'Failed to book resource');
+    } finally {
+      setBooking(false);
     }
   };
 
   const handleCancelBooking = async (bookingId: string) => {
     try {
-      setBookings(prev => prev.map(booking => 
-        booking.id === bookingId 
-          ? { ...booking, status: 'cancelled' as const }
-          : booking
-      ));
-      
+      await calendarAPI.cancelResourceBooking(bookingId);
+      setBookings(prev => prev.filter(b => b.id !== bookingId));
       toast.success('Booking cancelled successfully');
-      
+      await loadAvailability();
     } catch (error) {
       console.error('Failed to cancel booking:', error);
       toast.error('Failed to cancel booking');
     }
   };
 
-  const getAvailabilityIndicator = (resource: Resource) => {
-    switch (resource.availability) {
-      case 'available':
-        return <CheckCircle className="w-4 h-4 text-green-600" />;
-      case 'busy':
-        return <Clock className="w-4 h-4 text-orange-600" />;
-      case 'maintenance':
-        return <AlertTriangle className="w-4 h-4 text-yellow-600" />;
-      case 'offline':
-        return <XCircle className="w-4 h-4 text-red-600" />;
-      default:
-        return <Clock className="w-4 h-4 text-gray-600" />;
+  const handleDecision = async (bookingId: string, approve: boolean) => {
+    try {
+      if (approve) {
+        await calendarAPI.approveResourceBooking(bookingId);
+      } else {
+        await calendarAPI.declineResourceBooking(bookingId);
+      }
+      setPendingBookings(prev => prev.filter(b => b.id !== bookingId));
+      toast.success(approve ? 'Booking approved' : 'Booking declined');
+      await loadAvailability();
+    } catch (error) {
+      console.error('Failed to decide booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update booking');
+    }
+  };
+
+  const startEditing = (resource: CalendarResource | null) => {
+    setEditingResourceId(resource ? resource.id : 'new');
+    setResourceForm(resource ? formFromResource(resource) : EMPTY_FORM);
+  };
+
+  const handleSaveResource = async () => {
+    if (!businessId || !resourceForm.name.trim()) return;
+    try {
+      setSavingResource(true);
+      if (editingResourceId === 'new') {
+        await calendarAPI.createResource(businessId, inputFromForm(resourceForm));
+        toast.success('Resource added');
+      } else if (editingResourceId) {
+        await calendarAPI.updateResource(editingResourceId, inputFromForm(resourceForm));
+        toast.success('Resource updated');
+      }
+      setEditingResourceId(null);
+      await loadResourceData();
+    } catch (error) {
+      console.error('Failed to save resource:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save resource');
+    } finally {
+      setSavingResource(false);
     }
   };
 
+  const handleArchiveResource = async (resource: CalendarResource) => {
+    if (!window.confirm(`Retire "${resource.name}"? Existing bookings stay, but it can't be booked again.`)) return;
+    try {
+      await calendarAPI.archiveResource(resource.id);
+      toast.success('Resource retired');
+      await loadResourceData();
+    } catch (error) {
+      console.error('Failed to retire resource:', error);
+      toast.error('Failed to retire resource');
+    }
+  };
+
+  const getAvailabilityIndicator = (resource: CalendarResource) => {
+    if (!resource.isActive) {
+      return <XCircle className="w-4 h-4 text-red-600" />;
+    }
+    if (isBusy(resource)) {
+      return <Clock className="w-4 h-4 text-orange-600" />;
+    }
+    return <CheckCircle className="w-4 h-4 text-green-600" />;
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'confirmed': return 'bg-green-100 text-green-800 border-green-200';
-      case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
-      case 'completed': return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'CONFIRMED': return 'bg-green-100 text-green-800 border-green-200';
+      case 'PENDING': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'DECLINED': return 'bg-red-100 text-red-800 border-red-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
 
+  const describePolicies = (resource: CalendarResource) => {
+    const policies: string[] = [];
+    if (resource.maxDurationMinutes) policies.push(`Max ${resource.maxDurationMinutes} min`);
+    if (resource.minLeadMinutes) policies.push(`Book ${resource.minLeadMinutes} min ahead`);
+    if (resource.maxAdvanceDays) policies.push(`Up to ${resource.maxAdvanceDays} days out`);
+    if (resource.requiresApproval) policies.push('Requires approval');
+    return policies;
+  };
+
+  const allAmenities = Array.from(new Set(resources.flatMap(r => r.amenities))).sort();
+
   const filteredResources = resources.filter(resource => {
+    if (!resource.isActive) {
+      return false;
+    }
     if (searchQuery && !resource.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
-        !resource.location.toLowerCase().includes(searchQuery.toLowerCase())) {
+        !(resource.location || '').toLowerCase().includes(searchQuery.toLowerCase())) {
       return false;
     }
     if (selectedResourceType && resource.type !== selectedResourceType) {
       return false;
     }
+    if (attendeeCount > 1 && resource.capacity && resource.capacity < attendeeCount) {
+      return false;
+    }
     if (selectedAmenities.length > 0) {
-      const hasAmenities = selectedAmenities.every(amenity => 
-        resource.amenities.some(a => a.toLowerCase().includes(amenity.toLowerCase()))
-      );
+      const hasAmenities = selectedAmenities.every(amenity => resource.amenities.includes(amenity));
       if (!hasAmenities) return false;
     }
     return true;
@@ -401,6 +391,20 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
     );
   }
 
+  if (!businessId) {
+    return (
+      <Card className={`p-6 ${className}`}>
+        <p className="text-center text-gray-600">Resource booking is available in business workspaces.</p>
+      </Card>
+    );
+  }
+
+  const tabs = [
+    { id: 'browse', label: 'Browse Resources', icon: Search },
+    { id: 'bookings', label: 'My Bookings', icon: Calendar },
+    ...(canManage ? [{ id: 'manage', label: 'Manage Resources', icon: Settings }] : [])
+  ];
+
   return (
     <FeatureGate feature="calendar_resource_booking" businessId={businessId}>
       <Card className={`${className}`}>
@@ -416,35 +420,31 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
                 <p className="text-gray-600">Book conference rooms, equipment, and shared resources</p>
               </div>
             </div>
-            
+
             <div className="flex items-center gap-3">
               <Button
                 variant="secondary"
-                onClick={() => loadResourceData()}
+                onClick={() => Promise.all([loadResourceData(), loadAvailability()])}
                 disabled={loading}
               >
                 <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
               {activeTab === 'manage' && (
-                <Button>
+                <Button onClick={() => startEditing(null)}>
                   <Plus className="w-4 h-4 mr-2" />
                   Add Resource
                 </Button>
               )}
             </div>
           </div>
-          
+
           {/* Tabs */}
           <div className="flex space-x-1 mt-6">
-            {[
-              { id: 'browse', label: 'Browse Resources', icon: Search },
-              { id: 'bookings', label: 'My Bookings', icon: Calendar },
-              { id: 'manage', label: 'Manage Resources', icon: Settings }
-            ].map(tab => (
+            {tabs.map(tab => (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id as any)}
+                onClick={() => setActiveTab(tab.id as 'browse' | 'bookings' | 'manage')}
                 className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                   activeTab === tab.id
                     ? 'bg-blue-100 text-blue-700'
@@ -453,6 +453,11 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
               >
                 <tab.icon className="w-4 h-4 mr-2" />
                 {tab.label}
+                {tab.id === 'manage' && pendingBookings.length > 0 && (
+                  <span className="ml-2 px-1.5 text-xs bg-yellow-200 text-yellow-800 rounded-full">
+                    {pendingBookings.length}
+                  </span>
+                )}
               </button>
             ))}
           </div>
@@ -463,7 +468,7 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
           {activeTab === 'browse' && (
             <div className="space-y-6">
               {/* Filters */}
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
                   <Input
@@ -473,7 +478,7 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
                     className="pl-10"
                   />
                 </div>
-                
+
                 <select
                   value={selectedResourceType}
                   onChange={(e) => setSelectedResourceType(e.target.value)}
@@ -484,51 +489,66 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
                     <option key={type.value} value={type.value}>{type.label}</option>
                   ))}
                 </select>
-                
+
                 <select
                   value={attendeeCount}
                   onChange={(e) => setAttendeeCount(Number(e.target.value))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value={1}>1 person</option>
-                  <option value={5}>2-5 people</option>
-                  <option value={10}>6-10 people</option>
-                  <option value={20}>11-20 people</option>
-                  <option value={50}>20+ people</option>
+                  <option value={1}>Any size</option>
+                  <option value={5}>5+ people</option>
+                  <option value={10}>10+ people</option>
+                  <option value={20}>20+ people</option>
+                  <option value={50}>50+ people</option>
                 </select>
-                
+
                 <input
                   type="datetime-local"
-                  value={bookingDate.toISOString().slice(0, 16)}
-                  onChange={(e) => setBookingDate(new Date(e.target.value))}
+                  value={toLocalInputValue(bookingDate)}
+                  onChange={(e) => e.target.value && setBookingDate(new Date(e.target.value))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
+
+                <select
+                  value={bookingDuration}
+                  onChange={(e) => setBookingDuration(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {[0.5, 1, 1.5, 2, 3, 4, 8].map(hours => (
+                    <option key={hours} value={hours}>{hours < 1 ? '30 min' : `${hours} hour${hours > 1 ? 's' : ''}`}</option>
+                  ))}
+                </select>
               </div>
 
               {/* Amenities Filter */}
-              <div className="flex flex-wrap gap-2">
-                <span className="text-sm font-medium text-gray-700 mr-2">Amenities:</span>
-                {AMENITIES.map(amenity => (
-                  <label key={amenity.id} className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={selectedAmenities.includes(amenity.id)}
-                      onChange={(e) => {
-                        if (e.target.checked) {
-                          setSelectedAmenities(prev => [...prev, amenity.id]);
-                        } else {
-                          setSelectedAmenities(prev => prev.filter(a => a !== amenity.id));
-                        }
-                      }}
-                      className="rounded border-gray-300"
-                    />
-                    <span className="text-sm text-gray-600 flex items-center gap-1">
-                      {amenity.icon}
-                      {amenity.label}
-                    </span>
-                  </label>
-                ))}
-              </div>
+              {allAmenities.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  <span className="text-sm font-medium text-gray-700 mr-2">Amenities:</span>
+                  {allAmenities.map(amenity => (
+                    <label key={amenity} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedAmenities.includes(amenity)}
+                        onChange={(e) => {
+                          if (e.target.checked) {
+                            setSelectedAmenities(prev => [...prev, amenity]);
+                          } else {
+                            setSelectedAmenities(prev => prev.filter(a => a !== amenity));
+                          }
+                        }}
+                        className="rounded border-gray-300"
+                      />
+                      <span className="text-sm text-gray-600">{amenity}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {filteredResources.length === 0 && (
+                <p className="text-center text-gray-500 py-8">
+                  {resources.length === 0 ? 'No resources have been set up yet.' : 'No resources match your filters.'}
+                </p>
+              )}
 
               {/* Resources Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -541,33 +561,35 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
                       </div>
                       <div className="flex items-center gap-1">
                         {getAvailabilityIndicator(resource)}
-                        <span className="text-xs text-gray-500 capitalize">
-                          {resource.availability}
+                        <span className="text-xs text-gray-500">
+                          {isBusy(resource) ? 'Busy' : 'Available'}
                         </span>
                       </div>
                     </div>
-                    
-                    <p className="text-sm text-gray-600 mb-3">{resource.description}</p>
-                    
+
+                    {resource.description && <p className="text-sm text-gray-600 mb-3">{resource.description}</p>}
+
                     <div className="space-y-2 mb-4">
-                      <div className="flex items-center gap-2 text-sm">
-                        <MapPin className="w-4 h-4 text-gray-400" />
-                        <span className="text-gray-600">{resource.location}</span>
-                      </div>
+                      {resource.location && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <MapPin className="w-4 h-4 text-gray-400" />
+                          <span className="text-gray-600">{resource.location}</span>
+                        </div>
+                      )}
                       {resource.capacity && (
                         <div className="flex items-center gap-2 text-sm">
                           <Users className="w-4 h-4 text-gray-400" />
                           <span className="text-gray-600">Capacity: {resource.capacity}</span>
                         </div>
                       )}
-                      {resource.hourlyRate && (
+                      {describePolicies(resource).length > 0 && (
                         <div className="flex items-center gap-2 text-sm">
-                          <Clock className="w-4 h-4 text-gray-400" />
-                          <span className="text-gray-600">${resource.hourlyRate}/hour</span>
+                          <AlertTriangle className="w-4 h-4 text-gray-400" />
+                          <span className="text-gray-600">{describePolicies(resource).join(' · ')}</span>
                         </div>
                       )}
                     </div>
-                    
+
                     {/* Amenities */}
                     <div className="flex flex-wrap gap-1 mb-4">
                       {resource.amenities.slice(0, 3).map((amenity, index) => (
@@ -581,7 +603,7 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
                         </Badge>
                       )}
                     </div>
-                    
+
                     <div className="flex gap-2">
                       <Button
                         variant="secondary"
@@ -599,7 +621,7 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
                           setSelectedResource(resource);
                           setShowBookingModal(true);
                         }}
-                        disabled={resource.availability !== 'available'}
+                        disabled={isBusy(resource)}
                       >
                         <Calendar className="w-4 h-4 mr-1" />
                         Book
@@ -614,78 +636,286 @@ export const ResourceBookingPanel: React.FC<ResourceBookingPanelProps> = ({
           {/* My Bookings Tab */}
           {activeTab === 'bookings' && (
             <div className="space-y-4">
-              {bookings.map(booking => {
-                const resource = resources.find(r => r.id === booking.resourceId);
-                return (
-                  <Card key={booking.id} className="p-4 border border-gray-200">
-                    <div className="flex items-center justify-between mb-3">
+              {bookings.length === 0 && (
+                <p className="text-center text-gray-500 py-8">You have no upcoming bookings.</p>
+              )}
+              {bookings.map(b => (
+                <Card key={b.id} className="p-4 border border-gray-200">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-3">
+                      {RESOURCE_TYPES.find(t => t.value === b.resource.type)?.icon}
+                      <div>
+                        <h3 className="font-medium text-gray-900">{b.title}</h3>
+                        <p className="text-sm text-gray-600">{b.resource.name}</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Badge className={`px-2 py-1 text-xs border rounded-full ${getStatusColor(b.status)}`}>
+                        {b.status}
+                      </Badge>
+                      {b.status !== 'DECLINED' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancelBooking(b.id)}
+                          title="Cancel booking"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-500 mb-1">Date & Time</div>
+                      <div className="text-gray-900">
+                        {new Date(b.startAt).toLocaleDateString()}<br />
+                        {new Date(b.startAt).toLocaleTimeString()} - {new Date(b.endAt).toLocaleTimeString()}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500 mb-1">Location</div>
+                      <div className="text-gray-900">{b.resource.location || '—'}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500 mb-1">Repeats</div>
+                      <div className="text-gray-900">{b.recurring ? 'Recurring' : 'Once'}</div>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Manage Resources Tab */}
+          {activeTab === 'manage' && canManage && (
+            <div className="space-y-6">
+              {pendingBookings.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-3">Awaiting approval</h3>
+                  <div className="space-y-2">
+                    {pendingBookings.map(b => (
+                      <div key={b.id} className="flex items-center justify-between p-3 border border-yellow-200 bg-yellow-50 rounded-lg">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{b.resource.name} · {b.title}</p>
+                          <p className="text-xs text-gray-600">
+                            {new Date(b.startAt).toLocaleString()} - {new Date(b.endAt).toLocaleTimeString()}
+                            {b.recurring ? ' · recurring' : ''}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => handleDecision(b.id, true)}>
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button variant="secondary" size="sm" onClick={() => handleDecision(b.id, false)}>
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Decline
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {editingResourceId && (
+                <Card className="p-4 border border-gray-200 space-y-4">
+                  <h3 className="font-medium text-gray-900">
+                    {editingResourceId === 'new' ? 'New resource' : 'Edit resource'}
+                  </h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Input
+                      placeholder="Name"
+                      value={resourceForm.name}
+                      onChange={(e) => setResourceForm(f => ({ ...f, name: e.target.value }))}
+                    />
+                    <select
+                      value={resourceForm.type}
+                      onChange={(e) => setResourceForm(f => ({ ...f, type: e.target.value as ResourceType }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {RESOURCE_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                    <Input
+                      placeholder="Location"
+                      value={resourceForm.location}
+                      onChange={(e) => setResourceForm(f => ({ ...f, location: e.target.value }))}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Capacity"
+                      value={resourceForm.capacity}
+                      onChange={(e) => setResourceForm(f => ({ ...f, capacity: e.target.value }))}
+                    />
+                    <Input
+                      placeholder="Amenities, comma separated"
+                      value={resourceForm.amenities}
+                      onChange={(e) => setResourceForm(f => ({ ...f, amenities: e.target.value }))}
+                    />
+                    <Input
+                      placeholder="Description"
+                      value={resourceForm.description}
+                      onChange={(e) => setResourceForm(f => ({ ...f, description: e.target.value }))}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Max booking length (minutes)"
+                      value={resourceForm.maxDurationMinutes}
+                      onChange={(e) => setResourceForm(f => ({ ...f, maxDurationMinutes: e.target.value }))}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Minimum notice (minutes)"
+                      value={resourceForm.minLeadMinutes}
+                      onChange={(e) => setResourceForm(f => ({ ...f, minLeadMinutes: e.target.value }))}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Bookable up to (days ahead)"
+                      value={resourceForm.maxAdvanceDays}
+                      onChange={(e) => setResourceForm(f => ({ ...f, maxAdvanceDays: e.target.value }))}
+                    />
+                    <Switch
+                      label="Requires approval"
+                      checked={resourceForm.requiresApproval}
+                      onChange={(checked) => setResourceForm(f => ({ ...f, requiresApproval: checked }))}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="secondary" onClick={() => setEditingResourceId(null)}>Cancel</Button>
+                    <Button onClick={handleSaveResource} disabled={savingResource || !resourceForm.name.trim()}>
+                      {savingResource ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </Card>
+              )}
+
+              {resources.length === 0 && !editingResourceId ? (
+                <div className="text-center py-8">
+                  <Settings className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">Resource Management</h3>
+                  <p className="text-gray-600 mb-4">Add rooms, vehicles and equipment your team can book</p>
+                  <Button onClick={() => startEditing(null)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add New Resource
+                  </Button>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {resources.map(resource => (
+                    <div key={resource.id} className="flex items-center justify-between py-3">
                       <div className="flex items-center gap-3">
-                        {resource && RESOURCE_TYPES.find(t => t.value === resource.type)?.icon}
+                        {RESOURCE_TYPES.find(t => t.value === resource.type)?.icon}
                         <div>
-                          <h3 className="font-medium text-gray-900">{booking.title}</h3>
-                          <p className="text-sm text-gray-600">{resource?.name}</p>
+                          <p className={`text-sm font-medium ${resource.isActive ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                            {resource.name}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {[resource.location, resource.capacity ? `${resource.capacity} people` : null, ...describePolicies(resource)]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </p>
                         </div>
                       </div>
-                      
-                      <div className="flex items-center gap-2">
-                        <Badge className={`px-2 py-1 text-xs border rounded-full ${getStatusColor(booking.status)}`}>
-                          {booking.status.toUpperCase()}
-                        </Badge>
-                        {booking.status === 'confirmed' || booking.status === 'pending' ? (
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(resource)} title="Edit">
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        {resource.isActive ? (
+                          <Button variant="ghost" size="sm" onClick={() => handleArchiveResource(resource)} title="Retire">
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        ) : (
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleCancelBooking(booking.id)}
+                            onClick={async () => {
+                              await calendarAPI.updateResource(resource.id, { isActive: true });
+                              await loadResourceData();
+                            }}
+                            title="Reactivate"
                           >
-                            <Trash2 className="w-4 h-4" />
+                            <RefreshCw className="w-4 h-4" />
                           </Button>
-                        ) : null}
+                        )}
                       </div>
                     </div>
-                    
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                      <div>
-                        <div className="text-gray-500 mb-1">Date & Time</div>
-                        <div className="text-gray-900">
-                          {booking.startTime.toLocaleDateString()}<br />
-                          {booking.startTime.toLocaleTimeString()} - {booking.endTime.toLocaleTimeString()}
-                        </div>
-                      </div>
-                      <div>
-                        <div className="text-gray-500 mb-1">Attendees</div>
-                        <div className="text-gray-900">{booking.attendeeCount} people</div>
-                      </div>
-                      <div>
-                        <div className="text-gray-500 mb-1">Setup</div>
-                        <div className="text-gray-900">{booking.setup}</div>
-                      </div>
-                      <div>
-                        <div className="text-gray-500 mb-1">Cost</div>
-                        <div className="text-gray-900">${booking.cost || 0}</div>
-                      </div>
-                    </div>
-                  </Card>
-                );
-              })}
+                  ))}
+                </div>
+              )}
             </div>
           )}
+        </div>
+      </Card>
 
-          {/* Manage Resources Tab */}
-          {activeTab === 'manage' && (
-            <div className="space-y-4">
-              <div className="text-center py-8">
-                <Settings className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-lg font-medium text-gray-900 mb-2">Resource Management</h3>
-                <p className="text-gray-600 mb-4">Manage resource inventory, policies, and availability</p>
-                <Button>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add New Resource
-                </Button>
+      {/* Resource details with the day's availability */}
+      <Modal
+        open={Boolean(selectedResource) && !showBookingModal}
+        onClose={() => setSelectedResource(null)}
+        title={selectedResource?.name}
+      >
+        {selectedResource && (
+          <div className="space-y-4">
+            {selectedResource.description && <p className="text-sm text-gray-600">{selectedResource.description}</p>}
+            {describePolicies(selectedResource).length > 0 && (
+              <p className="text-sm text-gray-600">{describePolicies(selectedResource).join(' · ')}</p>
+            )}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">{bookingDate.toLocaleDateString()}</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {getDaySlots(busyByResource[selectedResource.id] || [], bookingDate).map(slot => (
+                  <div
+                    key={slot.startTime.toISOString()}
+                    className={`px-3 py-2 rounded text-xs ${slot.available ? 'bg-green-50 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                  >
+                    {slot.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {' '}
+                    {slot.available ? 'Free' : slot.conflictReason}
+                  </div>
+                ))}
               </div>
             </div>
-          )}
-        </div>
-      </Card>
+          </div>
+        )}
+      </Modal>
+
+      {/* Booking confirmation */}
+      <Modal
+        open={showBookingModal && Boolean(selectedResource)}
+        onClose={closeBookingModal}
+        title={selectedResource ? `Book ${selectedResource.name}` : undefined}
+      >
+        {selectedResource && (
+          <div className="space-y-4">
+            <Input
+              placeholder={`Title (defaults to ${selectedResource.name})`}
+              value={bookingTitle}
+              onChange={(e) => setBookingTitle(e.target.value)}
+            />
+            <p className="text-sm text-gray-600">
+              {bookingDate.toLocaleString()} - {bookingEnd.toLocaleTimeString()}
+            </p>
+            {selectedResource.requiresApproval && !canManage && (
+              <p className="text-sm text-yellow-700">This resource requires approval; your booking stays pending until a manager approves it.</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={closeBookingModal}>Cancel</Button>
+              <Button onClick={() => handleBookResource(selectedResource)} disabled={booking}>
+                {booking ? 'Booking...' : 'Confirm booking'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </FeatureGate>
   );
 };
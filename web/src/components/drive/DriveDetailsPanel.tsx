@@ -3,6 +3,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from 'shared/components';
 import { Download, Share, Edit, Move, Trash2, X, ChevronRight, ChevronLeft, ZoomIn, ZoomOut, Maximize2, RotateCw } from 'lucide-react';
+import DriveVersionHistory from './DriveVersionHistory';
 // DriveItem interface - matches DriveModule.tsx
 interface DriveItem {
   id: string;
@@ -31,6 +32,7 @@ interface DriveDetailsPanelProps {
   onRename?: (id: string) => void;
   onMove?: (id: string) => void;
   onDelete?: (id: string) => void;
+  onVersionChanged?: (id: string) => void;
   getFileIcon?: (item: DriveItem) => React.ReactNode;
   formatFileSize?: (size: number) => string;
   formatDate?: (date: string) => string;
@@ -67,6 +69,7 @@ export default function DriveDetailsPanel({
   onRename,
   onMove,
   onDelete,
+  onVersionChanged,
   getFileIcon,
   formatFileSize: formatFileSizeProp,
   formatDate: formatDateProp
@@ -464,6 +467,16 @@ export default function DriveDetailsPanel({
             </div>
           </div>
 
+          {/* Version History */}
+          {item.type === 'file' && !isTempUploadId(item.id) && (
+            <DriveVersionHistory
+              fileId={item.id}
+              formatSize={formatSize}
+              formatDate={formatDateStr}
+              onVersionChanged={onVersionChanged ? () => onVersionChanged(item.id) : undefined}
+            />
+          )}
+
           {/* Actions */}
           <div className="mb-6">
             <h3 className="text-sm font-medium text-gray-900 mb-4">Actions</h3>
@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import { Button } from 'shared/components';
+import { Download, History, RotateCcw, Trash2, Upload } from 'lucide-react';
+import {
+  FileVersionHistory,
+  FileVersionEntry,
+  listFileVersions,
+  uploadFileVersion,
+  restoreFileVersion,
+  deleteFileVersion,
+  downloadFileVersion,
+  updateFileVersionRetention,
+} from '../../api/drive';
+
+interface DriveVersionHistoryProps {
+  fileId: string;
+  formatSize: (size: number) => string;
+  formatDate: (date: string) => string;
+  onVersionChanged?: () => void;
+}
+
+const describeChange = (entry: FileVersionEntry, formatSize: (size: number) => string): string | null => {
+  if (!entry.changes) return null;
+  const parts: string[] = [];
+  const { sizeDelta, contentChanged, nameChanged, typeChanged } = entry.changes;
+  if (sizeDelta !== 0) parts.push(`${sizeDelta > 0 ? '+' : '-'}${formatSize(Math.abs(sizeDelta))}`);
+  if (!contentChanged) parts.push('same content');
+  if (nameChanged) parts.push('renamed');
+  if (typeChanged) parts.push('type changed');
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+export default function DriveVersionHistory({ fileId, formatSize, formatDate, onVersionChanged }: DriveVersionHistoryProps) {
+  const { data: session } = useSession();
+  const [history, setHistory] = useState<FileVersionHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingRetention, setEditingRetention] = useState(false);
+  const [keepLast, setKeepLast] = useState('');
+  const [keepDays, setKeepDays] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!session?.accessToken) return;
+    setLoading(true);
+    try {
+      const data = await listFileVersions(session.accessToken, fileId);
+      setHistory(data);
+      setKeepLast(String(data.retention.keepLast));
+      setKeepDays(String(data.retention.keepDays));
+    } catch (error) {
+      console.error('Failed to load file versions:', error);
+      setHistory(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [session?.accessToken, fileId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const runAction = async (key: string, action: () => Promise<unknown>, successMessage: string) => {
+    setBusyId(key);
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadHistory();
+      onVersionChanged?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected || !session?.accessToken) return;
+    const token = session.accessToken;
+    runAction('upload', () => uploadFileVersion(token, fileId, selected), 'New version uploaded');
+  };
+
+  const handleRestore = (entry: FileVersionEntry) => {
+    if (!entry.id || !session?.accessToken) return;
+    const token = session.accessToken;
+    const versionId = entry.id;
+    runAction(versionId, () => restoreFileVersion(token, fileId, versionId), `Restored version ${entry.versionNumber}`);
+  };
+
+  const handleDelete = (entry: FileVersionEntry) => {
+    if (!entry.id || !session?.accessToken) return;
+    if (!window.confirm(`Permanently delete version ${entry.versionNumber}?`)) return;
+    const token = session.accessToken;
+    const versionId = entry.id;
+    runAction(versionId, () => deleteFileVersion(token, fileId, versionId), `Deleted version ${entry.versionNumber}`);
+  };
+
+  const handleDownload = async (entry: FileVersionEntry) => {
+    if (!session?.accessToken) return;
+    try {
+      await downloadFileVersion(session.accessToken, fileId, entry);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download version');
+    }
+  };
+
+  const handleSaveRetention = () => {
+    if (!session?.accessToken) return;
+    const token = session.accessToken;
+    const parsedLast = keepLast.trim() === '' ? null : parseInt(keepLast, 10);
+    const parsedDays = keepDays.trim() === '' ? null : parseInt(keepDays, 10);
+    runAction(
+      'retention',
+      async () => {
+        setHistory(await updateFileVersionRetention(token, fileId, parsedLast, parsedDays));
+        setEditingRetention(false);
+      },
+      'Version retention updated'
+    );
+  };
+
+  const retentionSummary = (retention: FileVersionHistory['retention']) => {
+    const last = retention.keepLast > 0 ? `last ${retention.keepLast} versions` : 'all versions';
+    const days = retention.keepDays > 0 ? ` for ${retention.keepDays} days` : '';
+    return `Keeping ${last}${days}`;
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-900 flex items-center">
+          <History className="w-4 h-4 mr-2" />
+          Version history
+        </h3>
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleUpload} />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busyId !== null}
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          New version
+        </Button>
+      </div>
+
+      {loading && !history ? (
+        <div className="flex items-center justify-center py-4">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+        </div>
+      ) : !history ? (
+        <p className="text-xs text-gray-500">Version history is unavailable.</p>
+      ) : (
+        <>
+          <ul className="space-y-2">
+            {history.versions.map((entry) => {
+              const change = describeChange(entry, formatSize);
+              return (
+                <li key={entry.id ?? 'current'} className="rounded-lg border border-gray-200 p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">
+                      Version {entry.versionNumber}
+                      {entry.isCurrent && (
+                        <span className="ml-2 text-xs font-normal text-blue-700 bg-blue-50 rounded px-1.5 py-0.5">Current</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-gray-500">{formatSize(entry.size)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {entry.uploadedBy?.name || entry.uploadedBy?.email || 'Unknown'} · {formatDate(entry.uploadedAt)}
+                  </p>
+                  {change && <p className="text-xs text-gray-400 mt-0.5">{change}</p>}
+                  {!entry.isCurrent && (
+                    <div className="flex gap-1 mt-2">
+                      <button
+                        onClick={() => handleDownload(entry)}
+                        className="p-1.5 text-gray-500 hover:text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                        aria-label={`Download version ${entry.versionNumber}`}
+                        title="Download"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRestore(entry)}
+                        disabled={busyId !== null}
+                        className="p-1.5 text-gray-500 hover:text-blue-700 rounded hover:bg-blue-50 transition-colors disabled:opacity-50"
+                        aria-label={`Restore version ${entry.versionNumber}`}
+                        title="Restore"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        disabled={busyId !== null}
+                        className="p-1.5 text-gray-500 hover:text-red-700 rounded hover:bg-red-50 transition-colors disabled:opacity-50"
+                        aria-label={`Delete version ${entry.versionNumber}`}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {/* Retention */}
+          <div className="mt-3">
+            {editingRetention ? (
+              <div className="space-y-2">
+                <label className="flex items-center justify-between text-xs text-gray-600">
+                  Keep last versions
+                  <input
+                    type="number"
+                    min={0}
+                    value={keepLast}
+                    onChange={(e) => setKeepLast(e.target.value)}
+                    className="w-20 rounded border border-gray-300 px-2 py-1 text-xs"
+                  />
+                </label>
+                <label className="flex items-center justify-between text-xs text-gray-600">
+                  Keep for days
+                  <input
+                    type="number"
+                    min={0}
+                    value={keepDays}
+                    onChange={(e) => setKeepDays(e.target.value)}
+                    className="w-20 rounded border border-gray-300 px-2 py-1 text-xs"
+                  />
+                </label>
+                <p className="text-xs text-gray-400">0 keeps everything. Prior versions count toward your storage.</p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleSaveRetention} disabled={busyId !== null}>
+                    Save
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => setEditingRetention(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setEditingRetention(true)}
+                className="text-xs text-gray-500 hover:text-gray-700 underline"
+              >
+                {retentionSummary(history.retention)}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
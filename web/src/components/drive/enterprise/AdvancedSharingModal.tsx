@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
 import { Modal, Button, Input, Switch } from 'shared/components';
 import { useFeatureGating } from '../../../hooks/useFeatureGating';
 import { FeatureGate } from '../../FeatureGate';
@@ -16,9 +17,11 @@ import {
   Shield,
   Clock,
   UserCheck,
-  AlertTriangle
+  AlertTriangle,
+  Copy
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { DriveShareLink, createShareLink, listShareLinks, revokeShareLink, shareWithDlpConfirmation } from '../../../api/drive';
 
 interface AdvancedSharingModalProps {
   isOpen: boolean;
@@ -48,6 +51,7 @@ interface LinkShareSettings {
   requirePassword: boolean;
   password?: string;
   allowedDomains: string[];
+  allowDownload: boolean;
   maxDownloads?: number;
   trackViews: boolean;
   expiresAt?: Date;
@@ -59,30 +63,40 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
   file,
   businessId
 }) => {
+  const { data: session } = useSession();
   const { recordUsage } = useFeatureGating(businessId);
   const [permissions, setPermissions] = useState<SharePermission[]>([]);
+  const [shareLinks, setShareLinks] = useState<DriveShareLink[]>([]);
   const [linkSettings, setLinkSettings] = useState<LinkShareSettings>({
     isPublic: false,
     requirePassword: false,
     allowedDomains: [],
+    allowDownload: true,
     trackViews: true
   });
+  const [allowedDomainsInput, setAllowedDomainsInput] = useState('');
   const [newShareEmail, setNewShareEmail] = useState('');
   const [newShareRole, setNewShareRole] = useState<'viewer' | 'editor' | 'commenter'>('viewer');
   const [loading, setLoading] = useState(false);
-  const [shareAnalytics, setShareAnalytics] = useState({
-    totalViews: 0,
-    uniqueViewers: 0,
-    lastAccessed: null as Date | null,
-    downloadCount: 0
-  });
+  const activeLinks = shareLinks.filter(link => !link.revokedAt);
+  const lastAccessed = shareLinks.reduce<Date | null>((latest, link) => {
+    if (!link.lastAccessedAt) return latest;
+    const accessed = new Date(link.lastAccessedAt);
+    return !latest || accessed > latest ? accessed : latest;
+  }, null);
+  const shareAnalytics = {
+    totalViews: shareLinks.reduce((sum, link) => sum + link.viewCount, 0),
+    activeLinks: activeLinks.length,
+    lastAccessed,
+    downloadCount: shareLinks.reduce((sum, link) => sum + link.downloadCount, 0)
+  };
 
   // Load existing sharing permissions
   useEffect(() => {
     if (file && isOpen) {
       loadSharingData();
     }
-  }, [file, isOpen]);
+  }, [file, isOpen, session?.accessToken]);
 
   const loadSharingData = async () => {
     if (!file) return;
@@ -98,25 +112,13 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
           canDownload: true,
           canShare: false,
           note: 'Project collaborator'
-        },
-        {
-          id: '2',
-          type: 'link',
-          target: 'public',
-          role: 'viewer',
-          canDownload: false,
-          canShare: false,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
         }
       ];
       
       setPermissions(mockPermissions);
-      setShareAnalytics({
-        totalViews: 23,
-        uniqueViewers: 8,
-        lastAccessed: new Date(Date.now() - 2 * 60 * 60 * 1000),
-        downloadCount: 5
-      });
+      if (session?.accessToken) {
+        setShareLinks(await listShareLinks(session.accessToken, file.id));
+      }
     } catch (error) {
       console.error('Failed to load sharing data:', error);
       toast.error('Failed to load sharing permissions');
@@ -183,26 +185,37 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
   };
 
   const handleCreateShareLink = async () => {
+    if (!file || !session?.accessToken) return;
+    if (linkSettings.requirePassword && !linkSettings.password) {
+      toast.error('Please enter a password for the link');
+      return;
+    }
+    if (linkSettings.requirePassword && (linkSettings.password || '').length < 8) {
+      toast.error('Link passwords must be at least 8 characters');
+      return;
+    }
+    
     try {
       setLoading(true);
       
-      const linkPermission: SharePermission = {
-        id: Date.now().toString(),
-        type: 'link',
-        target: 'public',
-        role: 'viewer',
-        canDownload: !linkSettings.requirePassword,
-        canShare: false,
+      const accessToken = session.accessToken;
+      const shareLink = await shareWithDlpConfirmation((options) => createShareLink(accessToken, file.id, {
+        ...options,
+        password: linkSettings.requirePassword ? linkSettings.password : null,
+        allowedDomains: allowedDomainsInput.split(',').map(domain => domain.trim()).filter(Boolean),
+        allowDownload: linkSettings.allowDownload,
+        maxDownloads: linkSettings.maxDownloads ?? null,
+        trackViews: linkSettings.trackViews,
+        // End of the chosen day, so the link works through the expiry date
         expiresAt: linkSettings.expiresAt
-      };
-      
-      setPermissions(prev => [...prev, linkPermission]);
-      
-      // Generate shareable link
-      const shareLink = `${window.location.origin}/share/${file?.id}?token=abc123`;
+          ? new Date(linkSettings.expiresAt.getTime() + 24 * 60 * 60 * 1000 - 1).toISOString()
+          : null
+      }));
+      if (!shareLink) return;
+      setShareLinks(prev => [shareLink, ...prev]);
       
       // Copy to clipboard
-      await navigator.clipboard.writeText(shareLink);
+      await navigator.clipboard.writeText(shareLink.url);
       toast.success('Share link created and copied to clipboard');
       
       // Record usage
@@ -210,12 +223,36 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
       
     } catch (error) {
       console.error('Failed to create share link:', error);
-      toast.error('Failed to create share link');
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleCopyShareLink = async (link: DriveShareLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast.success('Link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleRevokeShareLink = async (linkId: string) => {
+    if (!session?.accessToken) return;
+    try {
+      await revokeShareLink(session.accessToken, linkId);
+      setShareLinks(prev => prev.map(link =>
+        link.id === linkId ? { ...link, revokedAt: new Date().toISOString() } : link
+      ));
+      toast.success('Share link revoked');
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke share link');
+    }
+  };
+
   const getRoleIcon = (role: string) => {
     switch (role) {
       case 'owner': return <Shield className="w-4 h-4 text-purple-600" />;
@@ -260,8 +297,8 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
               <div className="text-sm text-gray-600">Total Views</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-gray-900">{shareAnalytics.uniqueViewers}</div>
-              <div className="text-sm text-gray-600">Unique Viewers</div>
+              <div className="text-2xl font-bold text-gray-900">{shareAnalytics.activeLinks}</div>
+              <div className="text-sm text-gray-600">Active Links</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-gray-900">{shareAnalytics.downloadCount}</div>
@@ -270,7 +307,7 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
             <div className="text-center">
               <div className="text-sm font-medium text-gray-900">
                 {shareAnalytics.lastAccessed ? 
-                  shareAnalytics.lastAccessed.toLocaleTimeString() : 
+                  shareAnalytics.lastAccessed.toLocaleString() : 
                   'Never'
                 }
               </div>
@@ -361,6 +398,60 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
                   </div>
                 </div>
               ))}
+              {activeLinks.map((link) => (
+                <div key={link.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
+                      {link.hasPassword ? <Lock className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
+                    </div>
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {link.allowedDomains.length > 0
+                          ? `Anyone at ${link.allowedDomains.join(', ')} with the link`
+                          : 'Anyone with the link'}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {link.viewCount} views · {link.downloadCount}
+                        {link.maxDownloads !== null ? ` of ${link.maxDownloads}` : ''} downloads
+                        {link.hasPassword ? ' · Password protected' : ''}
+                      </div>
+                      {link.expiresAt && (
+                        <div className="text-sm text-orange-600 flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          Expires {new Date(link.expiresAt).toLocaleDateString()}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  
+                  <div className="flex items-center gap-3">
+                    <div className={`px-3 py-1 rounded-lg border text-sm font-medium flex items-center gap-1 ${getRoleColor('viewer')}`}>
+                      {getRoleIcon('viewer')}
+                      <span className="capitalize">viewer</span>
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      {link.allowDownload ? (
+                        <Download className="w-4 h-4 text-green-600" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 text-orange-600" />
+                      )}
+                    </div>
+                    
+                    <Button variant="ghost" size="sm" onClick={() => handleCopyShareLink(link)}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevokeShareLink(link.id)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
 
@@ -383,12 +474,49 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
               {linkSettings.requirePassword && (
                 <Input
                   type="password"
-                  placeholder="Enter password"
+                  placeholder="Enter password (at least 8 characters)"
                   value={linkSettings.password || ''}
                   onChange={(e) => setLinkSettings(prev => ({ ...prev, password: e.target.value }))}
                 />
               )}
               
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">Allow Downloads</div>
+                  <div className="text-sm text-gray-600">Let visitors download the file</div>
+                </div>
+                <Switch
+                  checked={linkSettings.allowDownload}
+                  onChange={(checked) => setLinkSettings(prev => ({ ...prev, allowDownload: checked }))}
+                />
+              </div>
+              
+              {linkSettings.allowDownload && (
+                <div>
+                  <label className="block font-medium text-gray-900 mb-2">Download Limit</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Unlimited"
+                    value={linkSettings.maxDownloads?.toString() ?? ''}
+                    onChange={(e) => setLinkSettings(prev => ({
+                      ...prev,
+                      maxDownloads: e.target.value ? parseInt(e.target.value, 10) : undefined
+                    }))}
+                  />
+                </div>
+              )}
+              
+              <div>
+                <label className="block font-medium text-gray-900 mb-2">Restrict to Domains</label>
+                <Input
+                  placeholder="e.g. company.com, partner.org"
+                  value={allowedDomainsInput}
+                  onChange={(e) => setAllowedDomainsInput(e.target.value)}
+                />
+                <div className="text-sm text-gray-600 mt-1">Visitors must sign in with an email at one of these domains</div>
+              </div>
+              
               <div className="flex items-center justify-between">
                 <div>
                   <div className="font-medium text-gray-900">Track Views</div>
@@ -411,7 +539,7 @@ export const AdvancedSharingModal: React.FC<AdvancedSharingModalProps> = ({
                 />
               </div>
               
-              <Button onClick={handleCreateShareLink} disabled={loading} className="w-full">
+              <Button onClick={handleCreateShareLink} disabled={loading || !session?.accessToken} className="w-full">
                 <Globe className="w-4 h-4 mr-2" />
                 Create Share Link
               </Button>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
 import { Modal, Button, Input, Switch, Badge } from 'shared/components';
 import { useFeatureGating } from '../../../hooks/useFeatureGating';
 import { FeatureGate } from '../../FeatureGate';
@@ -19,6 +20,7 @@ import {
   Info
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { scanFileForDlp } from '../../../api/drive';
 
 interface DataClassificationModalProps {
   isOpen: boolean;
@@ -148,6 +150,7 @@ export const DataClassificationModal: React.FC<DataClassificationModalProps> = (
   files,
   businessId
 }) => {
+  const { data: session } = useSession();
   const { recordUsage } = useFeatureGating(businessId);
   const [scanResults, setScanResults] = useState<ScanResult[]>([]);
   const [scanning, setScanning] = useState(false);
@@ -161,48 +164,48 @@ export const DataClassificationModal: React.FC<DataClassificationModalProps> = (
     if (isOpen && files.length > 0) {
       scanFiles();
     }
-  }, [isOpen, files]);
+  }, [isOpen, files, session?.accessToken]);
 
   const scanFiles = async () => {
-    if (!autoScanEnabled) return;
+    if (!autoScanEnabled || !session?.accessToken) return;
+    const accessToken = session.accessToken;
+    const scannable = files.filter(file => file.type === 'file');
     
     try {
       setScanning(true);
       
-      // Simulate AI-powered content scanning
-      const results: ScanResult[] = files.map(file => {
-        // Mock scanning logic
-        const mockPatterns = DETECTION_RULES.filter(() => Math.random() > 0.7);
-        const confidence = mockPatterns.length > 0 ? 
-          Math.max(...mockPatterns.map(p => p.confidence)) : 0.5;
-        
-        let suggestedClassification = 'internal';
-        if (mockPatterns.some(p => p.classificationId === 'restricted')) {
-          suggestedClassification = 'restricted';
-        } else if (mockPatterns.some(p => p.classificationId === 'confidential')) {
-          suggestedClassification = 'confidential';
-        }
-        
-        return {
-          fileId: file.id,
-          fileName: file.name,
-          suggestedClassification,
-          confidence,
-          detectedPatterns: mockPatterns.map(p => ({
-            type: p.name,
-            pattern: p.pattern,
-            matches: Math.floor(Math.random() * 5) + 1
+      // Rules are matched server-side; files it can't read as text are left out
+      const settled = await Promise.allSettled(scannable.map(file => scanFileForDlp(accessToken, file.id)));
+      const results: ScanResult[] = [];
+      settled.forEach((outcome, index) => {
+        if (outcome.status !== 'fulfilled') return;
+        const { scan, classification } = outcome.value;
+        results.push({
+          fileId: scannable[index].id,
+          fileName: scannable[index].name,
+          suggestedClassification: (scan.sensitivity ?? 'internal').toLowerCase(),
+          // Rule matches are exact, so a hit is certain and no hit is a guess
+          confidence: scan.matches.length > 0 ? 1 : 0.5,
+          detectedPatterns: scan.matches.map(match => ({
+            type: match.ruleName,
+            pattern: match.ruleId,
+            matches: match.count
           })),
-          currentClassification: 'internal' // Mock current classification
-        };
+          currentClassification: classification?.sensitivity.toLowerCase()
+        });
       });
       
       setScanResults(results);
       
       // Record usage
-      await recordUsage('drive_dlp', files.length);
+      await recordUsage('drive_dlp', results.length);
       
-      toast.success(`Scanned ${files.length} files for sensitive content`);
+      const failed = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+      if (results.length === 0 && failed) {
+        toast.error(failed.reason instanceof Error ? failed.reason.message : 'Failed to scan files');
+      } else {
+        toast.success(`Scanned ${results.length} files for sensitive content`);
+      }
       
     } catch (error) {
       console.error('Failed to scan files:', error);
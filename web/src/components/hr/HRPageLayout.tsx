@@ -55,10 +55,16 @@ export default function HRPageLayout({
       if (currentPath.includes('/admin/hr/employees')) return 'employees';
       if (currentPath.includes('/admin/hr/analytics')) return 'analytics';
       if (currentPath.includes('/admin/hr/attendance')) return 'attendance';
+      if (currentPath.includes('/admin/hr/payroll')) return 'payroll';
+      if (currentPath.includes('/admin/hr/recruitment')) return 'recruitment';
+      if (currentPath.includes('/admin/hr/performance')) return 'performance';
+      if (currentPath.includes('/admin/hr/benefits')) return 'benefits';
       if (currentPath.includes('/admin/hr/onboarding/templates')) return 'onboarding-templates';
       if (currentPath.includes('/admin/hr/onboarding/journeys')) return 'onboarding-journeys';
       if (currentPath.includes('/workspace/hr/team')) return 'team';
       if (currentPath.includes('/workspace/hr/me')) return 'my-profile';
+      if (currentPath.includes('/workspace/hr/performance')) return 'my-performance';
+      if (currentPath.includes('/workspace/hr/benefits')) return 'my-benefits';
       if (currentPath.includes('/workspace/hr')) {
         const urlParams = new URLSearchParams(window.location.search);
         return urlParams.get('view') || 'dashboard';
@@ -118,10 +124,16 @@ export default function HRPageLayout({
       'dashboard': `/business/${businessId}/workspace/hr`,
       'employees': `/business/${businessId}/admin/hr/employees`,
       'attendance': `/business/${businessId}/admin/hr/attendance`,
+      'payroll': `/business/${businessId}/admin/hr/payroll`,
+      'recruitment': `/business/${businessId}/admin/hr/recruitment`,
+      'performance': `/business/${businessId}/admin/hr/performance`,
+      'benefits': `/business/${businessId}/admin/hr/benefits`,
       'team': `/business/${businessId}/workspace/hr/team`,
       'my-profile': `/business/${businessId}/workspace/hr/me`,
       'my-time-off': `/business/${businessId}/workspace/hr/me?tab=time-off`,
       'my-attendance': `/business/${businessId}/workspace/hr/me?tab=attendance`,
+      'my-performance': `/business/${businessId}/workspace/hr/performance`,
+      'my-benefits': `/business/${businessId}/workspace/hr/benefits`,
       'time-off': `/business/${businessId}/workspace/hr/team?tab=time-off`,
       'approvals': `/business/${businessId}/workspace/hr/team?tab=approvals`,
     };
@@ -14,6 +14,12 @@ import {
   AlertCircle,
   ClipboardList,
   BookOpen,
+  DollarSign,
+  Briefcase,
+  Target,
+  Award,
+  HeartPulse,
+  HeartHandshake,
 } from 'lucide-react';
 import { Badge } from 'shared/components';
 
@@ -84,6 +90,34 @@ const navItems: NavItem[] = [
     roles: ['ADMIN'],
     section: 'admin',
   },
+  {
+    id: 'payroll',
+    label: 'Payroll',
+    icon: DollarSign,
+    roles: ['ADMIN'],
+    section: 'admin',
+  },
+  {
+    id: 'recruitment',
+    label: 'Recruitment',
+    icon: Briefcase,
+    roles: ['ADMIN'],
+    section: 'admin',
+  },
+  {
+    id: 'performance',
+    label: 'Performance',
+    icon: Award,
+    roles: ['ADMIN'],
+    section: 'admin',
+  },
+  {
+    id: 'benefits',
+    label: 'Benefits',
+    icon: HeartPulse,
+    roles: ['ADMIN'],
+    section: 'admin',
+  },
   // Manager/Admin team views
   {
     id: 'time-off',
@@ -135,6 +169,20 @@ const navItems: NavItem[] = [
     roles: ['ADMIN', 'MANAGER', 'EMPLOYEE'],
     section: 'personal',
   },
+  {
+    id: 'my-performance',
+    label: 'My Performance',
+    icon: Target,
+    roles: ['ADMIN', 'MANAGER', 'EMPLOYEE'],
+    section: 'personal',
+  },
+  {
+    id: 'my-benefits',
+    label: 'My Benefits',
+    icon: HeartHandshake,
+    roles: ['ADMIN', 'MANAGER', 'EMPLOYEE'],
+    section: 'personal',
+  },
 ];
 
 export default function HRSidebar({
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Badge, EmptyState, Spinner } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { listKioskCredentials, updateKioskCredential, type KioskCredentialEmployee } from '@/api/hrAttendance';
+
+interface KioskCredentialsPanelProps {
+  businessId: string;
+}
+
+export default function KioskCredentialsPanel({ businessId }: KioskCredentialsPanelProps) {
+  const [employees, setEmployees] = useState<KioskCredentialEmployee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ pin: string; badgeNumber: string }>({ pin: '', badgeNumber: '' });
+  const [search, setSearch] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEmployees(await listKioskCredentials(businessId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load employees');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const startEdit = (employee: KioskCredentialEmployee) => {
+    setEditingId(employee.id);
+    setDraft({ pin: '', badgeNumber: employee.badgeNumber ?? '' });
+  };
+
+  const save = async (employee: KioskCredentialEmployee, payload: { pin?: string | null; badgeNumber?: string | null }) => {
+    try {
+      setSavingId(employee.id);
+      const credential = await updateKioskCredential(businessId, employee.id, payload);
+      setEmployees((prev) =>
+        prev.map((item) =>
+          item.id === employee.id ? { ...item, hasPin: credential.hasPin, badgeNumber: credential.badgeNumber } : item
+        )
+      );
+      setEditingId(null);
+      toast.success('Kiosk access updated');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update kiosk access');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleSave = (employee: KioskCredentialEmployee) => {
+    const badgeNumber = draft.badgeNumber.trim();
+    void save(employee, {
+      // A blank PIN field keeps the current PIN
+      ...(draft.pin.trim() ? { pin: draft.pin.trim() } : {}),
+      badgeNumber: badgeNumber || null
+    });
+  };
+
+  const handleClearPin = (employee: KioskCredentialEmployee) => {
+    if (!window.confirm(`Remove the kiosk PIN for ${employee.user.name ?? employee.user.email}?`)) return;
+    void save(employee, { pin: null });
+  };
+
+  if (loading && employees.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size={28} />
+      </div>
+    );
+  }
+
+  const term = search.trim().toLowerCase();
+  const visible = term
+    ? employees.filter((employee) =>
+        [employee.user.name, employee.user.email, employee.position.title, employee.badgeNumber]
+          .filter(Boolean)
+          .some((value) => value!.toLowerCase().includes(term))
+      )
+    : employees;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert type="error" title="Unable to load employees">
+          {error}
+        </Alert>
+      )}
+
+      <input
+        type="search"
+        placeholder="Search employees"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        className="w-full rounded border px-3 py-2 text-sm md:w-72"
+      />
+
+      {visible.length === 0 ? (
+        <div className="rounded-lg border bg-white">
+          <EmptyState icon="🪪" title="No employees" description="Active employees appear here once they hold a position." />
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border bg-white">
+          {visible.map((employee) => (
+            <div key={employee.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+              <div>
+                <div className="font-medium text-gray-900">{employee.user.name ?? employee.user.email}</div>
+                <div className="text-gray-500">{employee.position.title}</div>
+              </div>
+
+              {editingId === employee.id ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    placeholder={employee.hasPin ? 'New PIN (optional)' : 'PIN (4–8 digits)'}
+                    value={draft.pin}
+                    onChange={(event) => setDraft((prev) => ({ ...prev, pin: event.target.value.replace(/\D/g, '').slice(0, 8) }))}
+                    className="w-40 rounded border px-3 py-1.5"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Badge number"
+                    value={draft.badgeNumber}
+                    onChange={(event) => setDraft((prev) => ({ ...prev, badgeNumber: event.target.value }))}
+                    className="w-40 rounded border px-3 py-1.5"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="rounded-md border px-3 py-1.5 text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSave(employee)}
+                    disabled={savingId === employee.id || (draft.pin.length > 0 && draft.pin.length < 4)}
+                    className="rounded-md bg-blue-600 px-3 py-1.5 font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <Badge color={employee.hasPin ? 'green' : 'gray'}>{employee.hasPin ? 'PIN set' : 'No PIN'}</Badge>
+                  <span className="text-gray-600">{employee.badgeNumber ? `Badge ${employee.badgeNumber}` : 'No badge'}</span>
+                  <button type="button" onClick={() => startEdit(employee)} className="text-blue-600 hover:underline">
+                    Edit
+                  </button>
+                  {employee.hasPin && (
+                    <button
+                      type="button"
+                      onClick={() => handleClearPin(employee)}
+                      disabled={savingId === employee.id}
+                      className="text-red-600 hover:text-red-500 disabled:opacity-50"
+                    >
+                      Remove PIN
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
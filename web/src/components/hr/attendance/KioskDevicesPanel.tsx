@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Alert, Badge, EmptyState, Spinner } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { getBusinessJobLocations } from '@/api/scheduling';
+import {
+  createKioskDevice,
+  deactivateKioskDevice,
+  listKioskDevices,
+  listKioskPunches,
+  openKioskPunchPhoto,
+  rotateKioskToken,
+  updateKioskDevice,
+  type KioskDevice,
+  type KioskPunchLog
+} from '@/api/hrAttendance';
+
+interface KioskDevicesPanelProps {
+  businessId: string;
+}
+
+type DeviceForm = { name: string; jobLocationId: string; requirePhoto: boolean };
+
+const EMPTY_FORM: DeviceForm = { name: '', jobLocationId: '', requirePhoto: false };
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : 'Never';
+
+export default function KioskDevicesPanel({ businessId }: KioskDevicesPanelProps) {
+  const { data: session } = useSession();
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [punches, setPunches] = useState<KioskPunchLog[]>([]);
+  const [jobLocations, setJobLocations] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DeviceForm>(EMPTY_FORM);
+  // Tokens are only returned on create/rotate, so keep the latest one on screen until dismissed
+  const [issuedToken, setIssuedToken] = useState<{ deviceName: string; token: string } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [deviceList, punchList] = await Promise.all([
+        listKioskDevices(businessId),
+        listKioskPunches(businessId, { limit: 25 })
+      ]);
+      setDevices(deviceList);
+      setPunches(punchList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load kiosks');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!session?.accessToken) return;
+    getBusinessJobLocations(businessId, session.accessToken)
+      .then((response) =>
+        setJobLocations(
+          response.jobLocations.filter((location) => location.isActive).map((location) => ({ id: location.id, name: location.name }))
+        )
+      )
+      .catch(() => setJobLocations([]));
+  }, [businessId, session?.accessToken]);
+
+  const openForm = (device?: KioskDevice) => {
+    setEditingId(device?.id ?? null);
+    setForm(
+      device
+        ? { name: device.name, jobLocationId: device.jobLocationId ?? '', requirePhoto: device.requirePhoto }
+        : EMPTY_FORM
+    );
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return;
+    const payload = { name: form.name.trim(), jobLocationId: form.jobLocationId || null, requirePhoto: form.requirePhoto };
+    try {
+      setSaving(true);
+      if (editingId) {
+        const device = await updateKioskDevice(businessId, editingId, payload);
+        setDevices((prev) => prev.map((item) => (item.id === device.id ? device : item)));
+        toast.success('Kiosk updated');
+      } else {
+        const { device, token } = await createKioskDevice(businessId, payload);
+        setDevices((prev) => [device, ...prev]);
+        setIssuedToken({ deviceName: device.name, token });
+        toast.success('Kiosk registered');
+      }
+      closeForm();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save kiosk');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotate = async (device: KioskDevice) => {
+    if (!window.confirm(`Issue a new token for ${device.name}? The kiosk will need to be paired again.`)) return;
+    try {
+      setSaving(true);
+      const result = await rotateKioskToken(businessId, device.id);
+      setDevices((prev) => prev.map((item) => (item.id === result.device.id ? result.device : item)));
+      setIssuedToken({ deviceName: result.device.name, token: result.token });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to rotate token');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (device: KioskDevice) => {
+    try {
+      setSaving(true);
+      const updated = device.active
+        ? await deactivateKioskDevice(businessId, device.id)
+        : await updateKioskDevice(businessId, device.id, { name: device.name, jobLocationId: device.jobLocationId, active: true });
+      setDevices((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      toast.success(updated.active ? 'Kiosk reactivated' : 'Kiosk deactivated');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update kiosk');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!issuedToken) return;
+    try {
+      await navigator.clipboard.writeText(issuedToken.token);
+      toast.success('Token copied');
+    } catch {
+      toast.error('Copy failed; select the token and copy it manually');
+    }
+  };
+
+  if (loading && devices.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size={28} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert type="error" title="Unable to load kiosks">
+          {error}
+        </Alert>
+      )}
+
+      {issuedToken && (
+        <Alert type="success" title={`Pair ${issuedToken.deviceName}`}>
+          <p>
+            Open <span className="font-mono">/kiosk/attendance</span> on the device and enter this token. It will not be
+            shown again.
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <code className="break-all rounded bg-white px-2 py-1 text-xs text-gray-900">{issuedToken.token}</code>
+            <button type="button" onClick={copyToken} className="text-sm font-medium text-blue-600 hover:underline">
+              Copy
+            </button>
+            <button type="button" onClick={() => setIssuedToken(null)} className="text-sm text-gray-600 hover:underline">
+              Done
+            </button>
+          </div>
+        </Alert>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => (formOpen ? closeForm() : openForm())}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500"
+        >
+          {formOpen ? 'Cancel' : '+ Register Kiosk'}
+        </button>
+      </div>
+
+      {formOpen && (
+        <div className="grid grid-cols-1 items-center gap-3 rounded-lg border bg-gray-50 p-4 md:grid-cols-4">
+          <input
+            type="text"
+            placeholder="Kiosk name (e.g. Front counter)"
+            value={form.name}
+            onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm"
+          />
+          <select
+            value={form.jobLocationId}
+            onChange={(event) => setForm((prev) => ({ ...prev, jobLocationId: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm"
+          >
+            <option value="">No location</option>
+            {jobLocations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.requirePhoto}
+              onChange={(event) => setForm((prev) => ({ ...prev, requirePhoto: event.target.checked }))}
+            />
+            Require a photo with each punch
+          </label>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !form.name.trim()}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+          >
+            {editingId ? 'Save' : 'Register'}
+          </button>
+        </div>
+      )}
+
+      {devices.length === 0 ? (
+        <div className="rounded-lg border bg-white">
+          <EmptyState
+            icon="🕒"
+            title="No kiosks registered"
+            description="Register a shared tablet or time clock so hourly staff can punch in with a PIN or badge."
+          />
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border bg-white">
+          {devices.map((device) => {
+            const locked = device.lockedUntil && new Date(device.lockedUntil) > new Date();
+            return (
+              <div key={device.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+                <div>
+                  <div className="flex items-center gap-2 font-medium text-gray-900">
+                    {device.name}
+                    {!device.active && <Badge color="gray">Inactive</Badge>}
+                    {locked && <Badge color="red">Locked</Badge>}
+                    {device.requirePhoto && <Badge color="blue">Photo</Badge>}
+                  </div>
+                  <div className="text-gray-500">
+                    {device.jobLocation?.name ?? 'No location'} · token …{device.tokenHint} · last seen{' '}
+                    {formatDateTime(device.lastSeenAt)}
+                  </div>
+                </div>
+                <div className="space-x-3">
+                  <button type="button" onClick={() => openForm(device)} className="text-blue-600 hover:underline">
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRotate(device)}
+                    disabled={saving || !device.active}
+                    className="text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    New token
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleToggleActive(device)}
+                    disabled={saving}
+                    className={`${device.active ? 'text-red-600 hover:text-red-500' : 'text-green-700 hover:underline'} disabled:opacity-50`}
+                  >
+                    {device.active ? 'Deactivate' : 'Reactivate'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {punches.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-700">Recent kiosk punches</h3>
+          <div className="divide-y rounded-lg border bg-white">
+            {punches.map((punch) => (
+              <div key={punch.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{punch.employeePosition?.user.name ?? 'Unknown employee'}</span>
+                  <span className="text-gray-500">
+                    {' '}· {punch.device.name} · {formatDateTime(punch.occurredAt)}
+                    {punch.offline && ' · synced offline'}
+                  </span>
+                  {punch.error && <div className="text-xs text-red-600">{punch.error}</div>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {punch.photoFile && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        openKioskPunchPhoto(businessId, punch.id).catch((err) =>
+                          toast.error(err instanceof Error ? err.message : 'Failed to open photo')
+                        )
+                      }
+                      className="text-blue-600 hover:underline"
+                    >
+                      Photo
+                    </button>
+                  )}
+                  {punch.status === 'ACCEPTED' ? (
+                    <Badge color="green">{punch.direction === 'IN' ? 'Clock in' : 'Clock out'}</Badge>
+                  ) : (
+                    <Badge color="red">Rejected</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { Beneficiary, BeneficiaryInput, BenefitBeneficiaryDesignation, Dependent } from '@/api/hrBenefits';
+import { RELATIONSHIP_LABELS } from './DependentsPanel';
+
+interface BeneficiariesEditorProps {
+  planId: string | null;
+  title: string;
+  beneficiaries: Beneficiary[];
+  dependents: Dependent[];
+  saving: boolean;
+  onSave: (planId: string | null, beneficiaries: BeneficiaryInput[]) => Promise<void>;
+}
+
+type Row = { name: string; relationship: string; designation: BenefitBeneficiaryDesignation; percentage: string; dependentId: string };
+
+const EMPTY_ROW: Row = { name: '', relationship: '', designation: 'PRIMARY', percentage: '100', dependentId: '' };
+
+const toRows = (beneficiaries: Beneficiary[]): Row[] =>
+  beneficiaries.map((beneficiary) => ({
+    name: beneficiary.name,
+    relationship: beneficiary.relationship,
+    designation: beneficiary.designation,
+    percentage: String(beneficiary.percentage),
+    dependentId: beneficiary.dependentId ?? ''
+  }));
+
+export default function BeneficiariesEditor({ planId, title, beneficiaries, dependents, saving, onSave }: BeneficiariesEditorProps) {
+  const [rows, setRows] = useState<Row[]>(toRows(beneficiaries));
+
+  useEffect(() => {
+    setRows(toRows(beneficiaries));
+  }, [beneficiaries]);
+
+  const updateRow = (index: number, patch: Partial<Row>) =>
+    setRows((prev) => prev.map((row, rowIndex) => (rowIndex === index ? { ...row, ...patch } : row)));
+
+  const pickDependent = (index: number, dependentId: string) => {
+    const dependent = dependents.find((item) => item.id === dependentId);
+    updateRow(
+      index,
+      dependent
+        ? { dependentId, name: `${dependent.firstName} ${dependent.lastName}`, relationship: RELATIONSHIP_LABELS[dependent.relationship] }
+        : { dependentId: '' }
+    );
+  };
+
+  const totals = rows.reduce<Record<BenefitBeneficiaryDesignation, number>>(
+    (acc, row) => ({ ...acc, [row.designation]: acc[row.designation] + (Number(row.percentage) || 0) }),
+    { PRIMARY: 0, CONTINGENT: 0 }
+  );
+
+  const save = () =>
+    onSave(
+      planId,
+      rows
+        .filter((row) => row.name.trim())
+        .map((row) => ({
+          name: row.name.trim(),
+          relationship: row.relationship.trim(),
+          designation: row.designation,
+          percentage: Number(row.percentage),
+          dependentId: row.dependentId || null
+        }))
+    );
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-white p-4 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="font-medium text-gray-900">{title}</div>
+        <div className="text-xs text-gray-500">
+          Primary {totals.PRIMARY}%{totals.CONTINGENT > 0 ? ` · Contingent ${totals.CONTINGENT}%` : ''}
+        </div>
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-1 gap-2 md:grid-cols-6">
+          <select
+            value={row.dependentId}
+            onChange={(event) => pickDependent(index, event.target.value)}
+            className="rounded border px-2 py-1"
+          >
+            <option value="">Someone else…</option>
+            {dependents.map((dependent) => (
+              <option key={dependent.id} value={dependent.id}>
+                {dependent.firstName} {dependent.lastName}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Full name"
+            value={row.name}
+            onChange={(event) => updateRow(index, { name: event.target.value })}
+            className="rounded border px-2 py-1 md:col-span-2"
+          />
+          <input
+            type="text"
+            placeholder="Relationship"
+            value={row.relationship}
+            onChange={(event) => updateRow(index, { relationship: event.target.value })}
+            className="rounded border px-2 py-1"
+          />
+          <select
+            value={row.designation}
+            onChange={(event) => updateRow(index, { designation: event.target.value as BenefitBeneficiaryDesignation })}
+            className="rounded border px-2 py-1"
+          >
+            <option value="PRIMARY">Primary</option>
+            <option value="CONTINGENT">Contingent</option>
+          </select>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={row.percentage}
+              onChange={(event) => updateRow(index, { percentage: event.target.value })}
+              className="w-16 rounded border px-2 py-1"
+            />
+            %
+            <button
+              type="button"
+              onClick={() => setRows((prev) => prev.filter((_, rowIndex) => rowIndex !== index))}
+              className="text-xs text-red-600 hover:text-red-500"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <button type="button" onClick={() => setRows((prev) => [...prev, EMPTY_ROW])} className="text-blue-600 hover:underline">
+          + Beneficiary
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving}
+          className="rounded-md bg-blue-600 px-3 py-1.5 font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+        >
+          Save beneficiaries
+        </button>
+      </div>
+    </div>
+  );
+}
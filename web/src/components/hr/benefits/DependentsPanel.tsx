@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useState } from 'react';
+import { EmptyState } from 'shared/components';
+import type { BenefitDependentRelationship, Dependent, DependentInput } from '@/api/hrBenefits';
+
+interface DependentsPanelProps {
+  dependents: Dependent[];
+  saving: boolean;
+  onSave: (payload: DependentInput, dependentId?: string) => Promise<void>;
+  onRemove: (dependent: Dependent) => Promise<void>;
+}
+
+export const RELATIONSHIP_LABELS: Record<BenefitDependentRelationship, string> = {
+  SPOUSE: 'Spouse',
+  DOMESTIC_PARTNER: 'Domestic partner',
+  CHILD: 'Child',
+  OTHER: 'Other dependent'
+};
+
+type DependentForm = { firstName: string; lastName: string; relationship: BenefitDependentRelationship; dateOfBirth: string; gender: string };
+
+const EMPTY_FORM: DependentForm = { firstName: '', lastName: '', relationship: 'CHILD', dateOfBirth: '', gender: '' };
+
+export default function DependentsPanel({ dependents, saving, onSave, onRemove }: DependentsPanelProps) {
+  const [form, setForm] = useState<DependentForm>(EMPTY_FORM);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const openForm = (dependent?: Dependent) => {
+    setEditingId(dependent?.id ?? null);
+    setForm(
+      dependent
+        ? {
+            firstName: dependent.firstName,
+            lastName: dependent.lastName,
+            relationship: dependent.relationship,
+            dateOfBirth: dependent.dateOfBirth?.split('T')[0] ?? '',
+            gender: dependent.gender ?? ''
+          }
+        : EMPTY_FORM
+    );
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.firstName.trim() || !form.lastName.trim()) return;
+    try {
+      await onSave(
+        {
+          firstName: form.firstName.trim(),
+          lastName: form.lastName.trim(),
+          relationship: form.relationship,
+          dateOfBirth: form.dateOfBirth || null,
+          gender: form.gender.trim() || null
+        },
+        editingId ?? undefined
+      );
+    } catch {
+      return;
+    }
+    setForm(EMPTY_FORM);
+    setFormOpen(false);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => (formOpen ? setFormOpen(false) : openForm())}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500"
+        >
+          {formOpen ? 'Cancel' : '+ Add Dependent'}
+        </button>
+      </div>
+
+      {formOpen && (
+        <div className="grid grid-cols-1 gap-3 rounded-lg border bg-gray-50 p-4 md:grid-cols-5">
+          <input
+            type="text"
+            placeholder="First name"
+            value={form.firstName}
+            onChange={(event) => setForm((prev) => ({ ...prev, firstName: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Last name"
+            value={form.lastName}
+            onChange={(event) => setForm((prev) => ({ ...prev, lastName: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm"
+          />
+          <select
+            value={form.relationship}
+            onChange={(event) => setForm((prev) => ({ ...prev, relationship: event.target.value as BenefitDependentRelationship }))}
+            className="rounded border px-3 py-2 text-sm"
+          >
+            {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={form.dateOfBirth}
+            onChange={(event) => setForm((prev) => ({ ...prev, dateOfBirth: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !form.firstName.trim() || !form.lastName.trim()}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      {dependents.length === 0 ? (
+        <EmptyState icon="👪" title="No dependents" description="Add a spouse, partner or children to cover them on your plans." />
+      ) : (
+        <div className="divide-y rounded-lg border bg-white">
+          {dependents.map((dependent) => (
+            <div key={dependent.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <div className="font-medium text-gray-900">
+                  {dependent.firstName} {dependent.lastName}
+                </div>
+                <div className="text-gray-500">
+                  {RELATIONSHIP_LABELS[dependent.relationship]}
+                  {dependent.dateOfBirth &&
+                    ` · born ${new Date(dependent.dateOfBirth).toLocaleDateString(undefined, { timeZone: 'UTC' })}`}
+                </div>
+              </div>
+              <div className="space-x-3">
+                <button type="button" onClick={() => openForm(dependent)} className="text-blue-600 hover:underline">
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(dependent)}
+                  disabled={saving}
+                  className="text-red-600 hover:text-red-500 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Badge } from 'shared/components';
+import type {
+  BenefitCoverageLevel,
+  BenefitEnrollment,
+  Dependent,
+  ElectionInput,
+  EmployeeBenefitPlan
+} from '@/api/hrBenefits';
+
+interface PlanElectionCardProps {
+  plan: EmployeeBenefitPlan;
+  // Latest election for the plan (a future-dated change wins over the current one)
+  enrollment: BenefitEnrollment | null;
+  dependents: Dependent[];
+  canEdit: boolean;
+  saving: boolean;
+  onSubmit: (election: ElectionInput) => Promise<void>;
+}
+
+export const COVERAGE_LEVEL_LABELS: Record<BenefitCoverageLevel, string> = {
+  EMPLOYEE_ONLY: 'Employee only',
+  EMPLOYEE_SPOUSE: 'Employee + spouse',
+  EMPLOYEE_CHILDREN: 'Employee + children',
+  FAMILY: 'Family'
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' }) : '—';
+
+export default function PlanElectionCard({ plan, enrollment, dependents, canEdit, saving, onSubmit }: PlanElectionCardProps) {
+  const isRetirement = plan.type === 'RETIREMENT';
+  const levels = Object.keys(plan.coverageCosts ?? {}) as BenefitCoverageLevel[];
+
+  const [editing, setEditing] = useState(false);
+  const [coverageLevel, setCoverageLevel] = useState<BenefitCoverageLevel | ''>('');
+  const [dependentIds, setDependentIds] = useState<string[]>([]);
+  const [contribution, setContribution] = useState('');
+
+  useEffect(() => {
+    setCoverageLevel(enrollment?.coverageLevel ?? levels[0] ?? '');
+    setDependentIds(enrollment?.dependents.map((item) => item.dependent.id) ?? []);
+    setContribution(enrollment?.contributionPercent?.toString() ?? plan.minContributionPercent?.toString() ?? '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enrollment, plan.id]);
+
+  const toggleDependent = (id: string) =>
+    setDependentIds((prev) => (prev.includes(id) ? prev.filter((value) => value !== id) : [...prev, id]));
+
+  const submit = async (waive: boolean) => {
+    try {
+      await onSubmit(
+        waive
+          ? { planId: plan.id, waive: true }
+          : isRetirement
+            ? { planId: plan.id, contributionPercent: Number(contribution) }
+            : { planId: plan.id, coverageLevel: coverageLevel || null, dependentIds: coverageLevel === 'EMPLOYEE_ONLY' ? [] : dependentIds }
+      );
+      setEditing(false);
+    } catch {
+      // Keep the form open; the page reports the error
+    }
+  };
+
+  const selectedCost = coverageLevel ? plan.coverageCosts?.[coverageLevel] : undefined;
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-white p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium text-gray-900">{plan.name}</div>
+          <div className="text-xs text-gray-500">
+            {plan.carrier ?? 'Self-funded'}
+            {plan.waitingPeriodDays > 0 ? ` · ${plan.waitingPeriodDays}-day waiting period` : ''}
+          </div>
+          {plan.description && <p className="mt-1 text-sm text-gray-600">{plan.description}</p>}
+        </div>
+        {enrollment ? (
+          <Badge color={enrollment.status === 'WAIVED' ? 'gray' : 'green'}>
+            {enrollment.status === 'WAIVED' ? 'Waived' : 'Enrolled'}
+          </Badge>
+        ) : (
+          <Badge color="yellow">No election</Badge>
+        )}
+      </div>
+
+      {enrollment && enrollment.status === 'ACTIVE' && (
+        <div className="text-sm text-gray-700">
+          {enrollment.coverageLevel
+            ? `${COVERAGE_LEVEL_LABELS[enrollment.coverageLevel]} · ${formatCurrency(enrollment.employeeCost)} per pay period`
+            : `${enrollment.contributionPercent ?? 0}% of gross pay`}
+          {enrollment.dependents.length > 0 && (
+            <span className="text-gray-500">
+              {' '}· covers {enrollment.dependents.map((item) => item.dependent.firstName).join(', ')}
+            </span>
+          )}
+          <div className="text-xs text-gray-500">Coverage from {formatDate(enrollment.coverageStart)}</div>
+        </div>
+      )}
+
+      {canEdit && !editing && (
+        <button type="button" onClick={() => setEditing(true)} className="text-sm font-medium text-blue-600 hover:underline">
+          {enrollment ? 'Change election' : 'Make election'}
+        </button>
+      )}
+
+      {canEdit && editing && (
+        <div className="space-y-3 rounded bg-gray-50 p-3 text-sm">
+          {isRetirement ? (
+            <label className="flex items-center gap-2 text-gray-700">
+              Contribute
+              <input
+                type="number"
+                min={plan.minContributionPercent ?? 0}
+                max={plan.maxContributionPercent ?? 100}
+                step="0.5"
+                value={contribution}
+                onChange={(event) => setContribution(event.target.value)}
+                className="w-20 rounded border px-2 py-1"
+              />
+              % of gross pay ({plan.minContributionPercent ?? 0}–{plan.maxContributionPercent ?? 100}%)
+            </label>
+          ) : (
+            <>
+              <div className="space-y-1">
+                {levels.map((level) => (
+                  <label key={level} className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="radio"
+                      name={`coverage-${plan.id}`}
+                      checked={coverageLevel === level}
+                      onChange={() => setCoverageLevel(level)}
+                    />
+                    {COVERAGE_LEVEL_LABELS[level]} · {formatCurrency(plan.coverageCosts?.[level]?.employee ?? 0)} per pay period
+                  </label>
+                ))}
+              </div>
+              {coverageLevel && coverageLevel !== 'EMPLOYEE_ONLY' && (
+                <div>
+                  <div className="font-medium text-gray-700">Covered dependents</div>
+                  {dependents.length === 0 ? (
+                    <p className="text-xs text-gray-500">Add dependents below before choosing this coverage level.</p>
+                  ) : (
+                    dependents.map((dependent) => (
+                      <label key={dependent.id} className="flex items-center gap-2 text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={dependentIds.includes(dependent.id)}
+                          onChange={() => toggleDependent(dependent.id)}
+                        />
+                        {dependent.firstName} {dependent.lastName}
+                      </label>
+                    ))
+                  )}
+                </div>
+              )}
+              {selectedCost && selectedCost.employer > 0 && (
+                <p className="text-xs text-gray-500">Your employer contributes {formatCurrency(selectedCost.employer)} per pay period.</p>
+              )}
+            </>
+          )}
+          {plan.coverageStart && (
+            <p className="text-xs text-gray-500">Changes take effect {formatDate(plan.coverageStart)}.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="rounded-md border px-3 py-1.5 text-gray-700 hover:bg-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => submit(true)}
+              disabled={saving}
+              className="rounded-md border px-3 py-1.5 text-gray-700 hover:bg-white disabled:opacity-50"
+            >
+              Waive
+            </button>
+            <button
+              type="button"
+              onClick={() => submit(false)}
+              disabled={saving || (isRetirement ? contribution.trim() === '' : !coverageLevel)}
+              className="rounded-md bg-blue-600 px-3 py-1.5 font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+            >
+              Enroll
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Badge, EmptyState } from 'shared/components';
+import type { GoalInput, PerformanceGoal, PerformanceGoalStatus } from '@/api/hrPerformance';
+
+interface GoalsPanelProps {
+  goals: PerformanceGoal[];
+  saving: boolean;
+  onSave: (payload: GoalInput, goalId?: string) => Promise<void>;
+  onDelete: (goal: PerformanceGoal) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<PerformanceGoalStatus, string> = {
+  NOT_STARTED: 'Not started',
+  ON_TRACK: 'On track',
+  AT_RISK: 'At risk',
+  OFF_TRACK: 'Off track',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled'
+};
+
+const STATUS_COLORS: Record<PerformanceGoalStatus, 'gray' | 'blue' | 'green' | 'yellow' | 'red'> = {
+  NOT_STARTED: 'gray',
+  ON_TRACK: 'blue',
+  AT_RISK: 'yellow',
+  OFF_TRACK: 'red',
+  COMPLETED: 'green',
+  CANCELLED: 'gray'
+};
+
+type NewGoalForm = { type: 'GOAL' | 'OBJECTIVE'; title: string; description: string; dueDate: string };
+type KeyResultForm = { title: string; startValue: string; targetValue: string; unit: string };
+
+const EMPTY_GOAL: NewGoalForm = { type: 'GOAL', title: '', description: '', dueDate: '' };
+const EMPTY_KEY_RESULT: KeyResultForm = { title: '', startValue: '0', targetValue: '', unit: '' };
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function GoalsPanel({ goals, saving, onSave, onDelete }: GoalsPanelProps) {
+  const [goalForm, setGoalForm] = useState<NewGoalForm>(EMPTY_GOAL);
+  const [goalFormOpen, setGoalFormOpen] = useState(false);
+  const [keyResultTarget, setKeyResultTarget] = useState<string | null>(null);
+  const [keyResultForm, setKeyResultForm] = useState<KeyResultForm>(EMPTY_KEY_RESULT);
+
+  const handleCreateGoal = async () => {
+    if (!goalForm.title.trim()) return;
+    await onSave({
+      type: goalForm.type,
+      title: goalForm.title.trim(),
+      description: goalForm.description.trim() || null,
+      dueDate: goalForm.dueDate || null
+    });
+    setGoalForm(EMPTY_GOAL);
+    setGoalFormOpen(false);
+  };
+
+  const handleAddKeyResult = async (objective: PerformanceGoal) => {
+    if (!keyResultForm.title.trim()) return;
+    await onSave({
+      type: 'KEY_RESULT',
+      parentGoalId: objective.id,
+      title: keyResultForm.title.trim(),
+      startValue: toNumberOrNull(keyResultForm.startValue),
+      targetValue: toNumberOrNull(keyResultForm.targetValue),
+      currentValue: toNumberOrNull(keyResultForm.startValue),
+      unit: keyResultForm.unit.trim() || null,
+      status: 'ON_TRACK'
+    });
+    setKeyResultForm(EMPTY_KEY_RESULT);
+    setKeyResultTarget(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => setGoalFormOpen((open) => !open)}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500"
+        >
+          {goalFormOpen ? 'Cancel' : '+ New Goal'}
+        </button>
+      </div>
+
+      {goalFormOpen && (
+        <div className="grid grid-cols-1 gap-3 rounded-lg border bg-gray-50 p-4 md:grid-cols-4">
+          <select
+            value={goalForm.type}
+            onChange={(event) => setGoalForm((prev) => ({ ...prev, type: event.target.value as NewGoalForm['type'] }))}
+            className="rounded border px-3 py-2 text-sm"
+          >
+            <option value="GOAL">Goal</option>
+            <option value="OBJECTIVE">Objective (OKR)</option>
+          </select>
+          <input
+            type="text"
+            placeholder="Title"
+            value={goalForm.title}
+            onChange={(event) => setGoalForm((prev) => ({ ...prev, title: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm md:col-span-2"
+          />
+          <input
+            type="date"
+            value={goalForm.dueDate}
+            onChange={(event) => setGoalForm((prev) => ({ ...prev, dueDate: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm"
+          />
+          <textarea
+            rows={2}
+            placeholder="Description (optional)"
+            value={goalForm.description}
+            onChange={(event) => setGoalForm((prev) => ({ ...prev, description: event.target.value }))}
+            className="rounded border px-3 py-2 text-sm md:col-span-3"
+          />
+          <button
+            type="button"
+            onClick={handleCreateGoal}
+            disabled={saving || !goalForm.title.trim()}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      {goals.length === 0 ? (
+        <EmptyState icon="🎯" title="No goals yet" description="Add goals or OKRs to track what you are working towards." />
+      ) : (
+        goals.map((goal) => (
+          <div key={goal.id} className="space-y-3 rounded-lg border bg-white p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{goal.title}</span>
+                  {goal.type === 'OBJECTIVE' && <Badge color="blue">OKR</Badge>}
+                  <Badge color={STATUS_COLORS[goal.status]}>{STATUS_LABELS[goal.status]}</Badge>
+                </div>
+                {goal.description && <p className="mt-1 text-sm text-gray-600">{goal.description}</p>}
+                {goal.dueDate && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Due {new Date(goal.dueDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={goal.status}
+                  disabled={saving}
+                  onChange={(event) => onSave({ status: event.target.value as PerformanceGoalStatus }, goal.id)}
+                  className="rounded border px-2 py-1 text-sm"
+                >
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => onDelete(goal)}
+                  disabled={saving}
+                  className="text-sm text-red-600 hover:text-red-500 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            <ProgressBar
+              progress={goal.progress}
+              editable={goal.type === 'GOAL' && !saving}
+              onChange={(progress) => onSave({ progress }, goal.id)}
+            />
+
+            {goal.type === 'OBJECTIVE' && (
+              <div className="space-y-2 border-l-2 border-blue-100 pl-4">
+                {(goal.keyResults ?? []).map((keyResult) => (
+                  <div key={keyResult.id} className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="min-w-0 flex-1 text-gray-800">{keyResult.title}</span>
+                    {keyResult.targetValue != null ? (
+                      <label className="flex items-center gap-1 text-xs text-gray-600">
+                        <input
+                          type="number"
+                          defaultValue={keyResult.currentValue ?? ''}
+                          disabled={saving}
+                          onBlur={(event) => {
+                            const currentValue = toNumberOrNull(event.target.value);
+                            if (currentValue !== keyResult.currentValue) {
+                              void onSave({ currentValue }, keyResult.id);
+                            }
+                          }}
+                          className="w-20 rounded border px-2 py-1"
+                        />
+                        / {keyResult.targetValue} {keyResult.unit}
+                      </label>
+                    ) : null}
+                    <span className="w-12 text-right text-xs text-gray-600">{keyResult.progress}%</span>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(keyResult)}
+                      disabled={saving}
+                      className="text-xs text-red-600 hover:text-red-500 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+
+                {keyResultTarget === goal.id ? (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                      type="text"
+                      placeholder="Key result"
+                      value={keyResultForm.title}
+                      onChange={(event) => setKeyResultForm((prev) => ({ ...prev, title: event.target.value }))}
+                      className="min-w-0 flex-1 rounded border px-2 py-1"
+                    />
+                    <input
+                      type="number"
+                      placeholder="Start"
+                      value={keyResultForm.startValue}
+                      onChange={(event) => setKeyResultForm((prev) => ({ ...prev, startValue: event.target.value }))}
+                      className="w-20 rounded border px-2 py-1"
+                    />
+                    <input
+                      type="number"
+                      placeholder="Target"
+                      value={keyResultForm.targetValue}
+                      onChange={(event) => setKeyResultForm((prev) => ({ ...prev, targetValue: event.target.value }))}
+                      className="w-20 rounded border px-2 py-1"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Unit"
+                      value={keyResultForm.unit}
+                      onChange={(event) => setKeyResultForm((prev) => ({ ...prev, unit: event.target.value }))}
+                      className="w-20 rounded border px-2 py-1"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleAddKeyResult(goal)}
+                      disabled={saving || !keyResultForm.title.trim()}
+                      className="text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                    <button type="button" onClick={() => setKeyResultTarget(null)} className="text-gray-500 hover:underline">
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setKeyResultForm(EMPTY_KEY_RESULT);
+                      setKeyResultTarget(goal.id);
+                    }}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    + Key result
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+function ProgressBar({
+  progress,
+  editable,
+  onChange
+}: {
+  progress: number;
+  editable: boolean;
+  onChange: (progress: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-3">
+      <div className="h-2 flex-1 rounded bg-gray-100">
+        <div className="h-2 rounded bg-blue-500" style={{ width: `${progress}%` }} />
+      </div>
+      {editable ? (
+        <input
+          type="number"
+          min={0}
+          max={100}
+          defaultValue={progress}
+          onBlur={(event) => {
+            const value = Math.max(0, Math.min(100, Math.round(Number(event.target.value))));
+            if (!Number.isNaN(value) && value !== progress) {
+              onChange(value);
+            }
+          }}
+          className="w-16 rounded border px-2 py-1 text-xs"
+        />
+      ) : (
+        <span className="w-16 text-right text-xs text-gray-600">{progress}%</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { ReviewerSubmission, SubmissionAnswers } from '@/api/hrPerformance';
+
+interface ReviewSubmissionFormProps {
+  submission: ReviewerSubmission;
+  saving: boolean;
+  onSave: (payload: { answers: SubmissionAnswers; overallRating: number | null; comments: string | null; submit: boolean }) => Promise<void>;
+  onCancel: () => void;
+}
+
+const REVIEWER_HEADINGS = {
+  SELF: 'Self review',
+  MANAGER: 'Manager review',
+  PEER: 'Peer review'
+} as const;
+
+export default function ReviewSubmissionForm({ submission, saving, onSave, onCancel }: ReviewSubmissionFormProps) {
+  const [answers, setAnswers] = useState<SubmissionAnswers>(submission.answers ?? {});
+  const [overallRating, setOverallRating] = useState<number | null>(submission.overallRating);
+  const [comments, setComments] = useState(submission.comments ?? '');
+
+  useEffect(() => {
+    setAnswers(submission.answers ?? {});
+    setOverallRating(submission.overallRating);
+    setComments(submission.comments ?? '');
+  }, [submission]);
+
+  const { user, position } = submission.review.employeeHrProfile.employeePosition;
+  const subject = submission.reviewerType === 'SELF' ? 'yourself' : user.name || user.email;
+
+  const setAnswer = (questionId: string, patch: { rating?: number; text?: string }) =>
+    setAnswers((prev) => ({ ...prev, [questionId]: { ...prev[questionId], ...patch } }));
+
+  const save = (submit: boolean) =>
+    onSave({ answers, overallRating, comments: comments.trim() || null, submit });
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">
+          {REVIEWER_HEADINGS[submission.reviewerType]}: {subject}
+        </h3>
+        <p className="text-sm text-gray-500">
+          {submission.review.cycle.name} · {position.title} · due{' '}
+          {new Date(submission.review.cycle.dueDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+        </p>
+      </div>
+
+      {submission.questions.map((question) => (
+        <div key={question.id} className="space-y-2">
+          <label className="block text-sm font-medium text-gray-800">
+            {question.prompt}
+            {question.required && <span className="text-red-500"> *</span>}
+          </label>
+          {question.type === 'RATING' ? (
+            <RatingPicker
+              levels={submission.ratingLevels}
+              value={answers[question.id]?.rating ?? null}
+              onChange={(rating) => setAnswer(question.id, { rating })}
+            />
+          ) : (
+            <textarea
+              rows={3}
+              value={answers[question.id]?.text ?? ''}
+              onChange={(event) => setAnswer(question.id, { text: event.target.value })}
+              className="w-full rounded border px-3 py-2 text-sm"
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="space-y-2 border-t pt-4">
+        <label className="block text-sm font-medium text-gray-800">
+          Overall rating<span className="text-red-500"> *</span>
+        </label>
+        <RatingPicker levels={submission.ratingLevels} value={overallRating} onChange={setOverallRating} />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-800">Additional comments</label>
+        <textarea
+          rows={3}
+          value={comments}
+          onChange={(event) => setComments(event.target.value)}
+          className="w-full rounded border px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => save(false)}
+          disabled={saving}
+          className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Save draft
+        </button>
+        <button
+          type="button"
+          onClick={() => save(true)}
+          disabled={saving}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50"
+        >
+          Submit review
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RatingPicker({
+  levels,
+  value,
+  onChange
+}: {
+  levels: ReviewerSubmission['ratingLevels'];
+  value: number | null;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {levels.map((level) => (
+        <button
+          key={level.value}
+          type="button"
+          title={level.description}
+          onClick={() => onChange(level.value)}
+          className={`rounded-md border px-3 py-1.5 text-sm ${
+            value === level.value ? 'border-blue-600 bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {level.value} · {level.label}
+        </button>
+      ))}
+    </div>
+  );
+}
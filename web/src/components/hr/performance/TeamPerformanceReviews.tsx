@@ -0,0 +1,87 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Badge } from 'shared/components';
+import type {
+  PerformanceReviewStatus,
+  PerformanceReviewerType,
+  ReviewerTask,
+  TeamReviewStatus
+} from '@/api/hrPerformance';
+
+interface TeamPerformanceReviewsProps {
+  businessId: string;
+  reviews: TeamReviewStatus[];
+  tasks: ReviewerTask[];
+}
+
+const STATUS_BADGE: Record<PerformanceReviewStatus, { label: string; color: 'gray' | 'blue' | 'green' | 'yellow' | 'red' }> = {
+  IN_PROGRESS: { label: 'In progress', color: 'blue' },
+  AWAITING_CALIBRATION: { label: 'Awaiting calibration', color: 'yellow' },
+  COMPLETED: { label: 'Completed', color: 'green' },
+  INCOMPLETE: { label: 'Incomplete', color: 'red' }
+};
+
+const REVIEWER_LABELS: Record<PerformanceReviewerType, string> = {
+  SELF: 'Self',
+  MANAGER: 'Manager',
+  PEER: 'Peers'
+};
+
+export default function TeamPerformanceReviews({ businessId, reviews, tasks }: TeamPerformanceReviewsProps) {
+  // Manager tasks keyed by review so each row can link straight to the form
+  const taskByReview = new Map(tasks.map((task) => [task.review.id, task]));
+
+  return (
+    <div className="border rounded">
+      <div className="grid grid-cols-12 bg-gray-50 px-3 py-2 text-sm font-medium">
+        <div className="col-span-3">Employee</div>
+        <div className="col-span-3">Cycle</div>
+        <div className="col-span-3">Submissions</div>
+        <div className="col-span-2">Status</div>
+        <div className="col-span-1 text-right" />
+      </div>
+      {reviews.map((review) => {
+        const { user, position } = review.employeeHrProfile.employeePosition;
+        const badge = STATUS_BADGE[review.status];
+        const task = taskByReview.get(review.id);
+        const byType = (['SELF', 'MANAGER', 'PEER'] as PerformanceReviewerType[])
+          .map((type) => {
+            const submissions = review.submissions.filter((submission) => submission.reviewerType === type);
+            if (submissions.length === 0) return null;
+            const submitted = submissions.filter((submission) => submission.status === 'SUBMITTED').length;
+            return `${REVIEWER_LABELS[type]} ${submitted}/${submissions.length}`;
+          })
+          .filter(Boolean);
+
+        return (
+          <div key={review.id} className="grid grid-cols-12 items-center px-3 py-2 text-sm border-t">
+            <div className="col-span-3">
+              <div className="font-medium">{user.name || user.email}</div>
+              <div className="text-xs text-gray-500">{position.title}</div>
+            </div>
+            <div className="col-span-3">
+              <div>{review.cycle.name}</div>
+              <div className="text-xs text-gray-500">Due {new Date(review.cycle.dueDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}</div>
+            </div>
+            <div className="col-span-3 text-xs text-gray-600">{byType.join(' · ')}</div>
+            <div className="col-span-2">
+              <Badge color={badge.color}>{badge.label}</Badge>
+            </div>
+            <div className="col-span-1 text-right">
+              {task && (
+                <Link
+                  href={`/business/${businessId}/workspace/hr/performance?submission=${task.id}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  Review
+                </Link>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -47,6 +47,10 @@ import {
   File as DriveFile,
   Folder as DriveFolder,
   downloadFile,
+  downloadFolder,
+  downloadItems,
+  uploadFileResumable,
+  RESUMABLE_UPLOAD_THRESHOLD,
   shareItemByEmail,
   listFilePermissions,
   grantFilePermission,
@@ -57,6 +61,8 @@ import {
   updateFolderPermission,
   revokeFolderPermission,
   shareFolderByEmail,
+  shareWithDlpConfirmation,
+  DlpPolicyError,
   searchUsers,
   getBusinessMembers,
   moveFile,
@@ -95,7 +101,12 @@ const EMPTY_IMAGE_DATA_URL = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org
 
 function getFileThumbnailUrl(item: DriveItem): string {
   if (isTempUploadId(item.id)) return EMPTY_IMAGE_DATA_URL;
-  return `/api/drive/files/${item.id}/download`;
+  return item.thumbnail || `/api/drive/files/${item.id}/download`;
+}
+
+// Images always have a preview; other types only when the server can render one
+function hasThumbnail(item: DriveItem): boolean {
+  return Boolean(item.thumbnail) || Boolean(item.mimeType?.startsWith('image/'));
 }
 
 // Root drop zone component for moving items back to root
@@ -281,8 +292,8 @@ const DraggableItem = React.memo(function DraggableItem({
           )}
           
           <div className="flex items-center space-x-4">
-            <div className={`flex-shrink-0 ${item.mimeType?.startsWith('image/') ? 'w-16 h-16' : ''}`}>
-              {item.mimeType?.startsWith('image/') ? (
+            <div className={`flex-shrink-0 ${hasThumbnail(item) ? 'w-16 h-16' : ''}`}>
+              {hasThumbnail(item) ? (
                 <div className="relative w-16 h-16 bg-gray-100 rounded-lg overflow-hidden border border-gray-200">
                   <img
                     src={getFileThumbnailUrl(item)}
@@ -336,18 +347,17 @@ const DraggableItem = React.memo(function DraggableItem({
                 >
                   <Share className="w-4 h-4 text-gray-400" />
                 </Button>
-                {item.type === 'file' && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDownload(item.id);
-                    }}
-                  >
-                    <Download className="w-4 h-4 text-gray-400" />
-                  </Button>
-                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDownload(item.id);
+                  }}
+                  title={item.type === 'folder' ? 'Download as ZIP' : 'Download'}
+                >
+                  <Download className="w-4 h-4 text-gray-400" />
+                </Button>
               </div>
             </div>
           </div>
@@ -721,7 +731,7 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
         starred: file.starred || false, // Read starred status from API
         shared: false,
         url: normalizeFileUrl(file.url), // Normalize file URL (remove localhost URLs)
-        thumbnail: normalizeFileUrl(file.url) // Use normalized URL as thumbnail
+        thumbnail: file.thumbnailUrl || undefined // Server-rendered preview; absent for types without one
       }));
 
       // Map folders to DriveItem format
@@ -811,6 +821,41 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
     }
   }, [contextMenu]);
 
+  // Small files go up in one request; larger ones in resumable chunks with progress
+  const uploadDriveFile = useCallback(async (file: globalThis.File, accessToken: string) => {
+    if (file.size > RESUMABLE_UPLOAD_THRESHOLD) {
+      const toastId = toast.loading(`Uploading ${file.name}… 0%`);
+      try {
+        await uploadFileResumable(accessToken, file, {
+          folderId: currentFolder || undefined,
+          dashboardId: effectiveDashboardId || undefined,
+          onProgress: (uploaded, total) => {
+            const percent = total > 0 ? Math.floor((uploaded / total) * 100) : 100;
+            toast.loading(`Uploading ${file.name}… ${percent}%`, { id: toastId });
+          },
+        });
+      } finally {
+        toast.dismiss(toastId);
+      }
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (effectiveDashboardId) formData.append('dashboardId', effectiveDashboardId);
+    if (currentFolder) formData.append('folderId', currentFolder);
+
+    const response = await fetch('/api/drive/files', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Upload failed: ${response.status}`);
+    }
+  }, [currentFolder, effectiveDashboardId]);
+
   // File upload handler
   const handleFileUpload = () => {
     const input = document.createElement('input');
@@ -841,22 +886,7 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
       setLoading(true);
 
       try {
-        const uploadPromises = Array.from(files).map(async (file, index) => {
-          const formData = new FormData();
-          formData.append('file', file);
-          if (effectiveDashboardId) formData.append('dashboardId', effectiveDashboardId);
-          if (currentFolder) formData.append('folderId', currentFolder);
-
-          const response = await fetch('/api/drive/files', {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${session.accessToken}` },
-            body: formData,
-          });
-
-          if (!response.ok) {
-            throw new Error(`Upload failed: ${response.status}`);
-          }
-        });
+        const uploadPromises = Array.from(files).map((file) => uploadDriveFile(file, session.accessToken));
 
         await Promise.all(uploadPromises);
         toast.success('Files uploaded successfully');
@@ -935,8 +965,8 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
 
     const mimeType = item.mimeType || '';
     
-    // For images, show actual thumbnail using download endpoint
-    if (mimeType.startsWith('image/')) {
+    // Show the server-rendered thumbnail (images, PDF first pages, video frames, documents)
+    if (hasThumbnail(item)) {
       return (
         <div className="relative w-full h-32 bg-gray-100 rounded-lg overflow-hidden border border-gray-200">
           <img
@@ -1139,17 +1169,20 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
     }
 
     const item = items.find(i => i.id === itemId);
-    if (!item || item.type !== 'file') {
-      toast.error('Only files can be downloaded');
-      return;
-    }
+    if (!item) return;
 
     try {
+      if (item.type === 'folder') {
+        toast.loading('Preparing ZIP…', { id: `download-${itemId}` });
+        await downloadFolder(session.accessToken, itemId);
+        toast.success('Download started', { id: `download-${itemId}` });
+        return;
+      }
       await downloadFile(session.accessToken, itemId);
       toast.success('Download started');
     } catch (error) {
       console.error('Download failed:', error);
-      toast.error('Failed to download file');
+      toast.error(item.type === 'folder' ? 'Failed to download folder' : 'Failed to download file', { id: `download-${itemId}` });
     }
   }, [session, items]);
 
@@ -1256,22 +1289,36 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
   const handleBulkDownload = useCallback(async () => {
     if (!session?.accessToken || selectedItems.size === 0) return;
 
-      const selectedItemsArray = Array.from(selectedItems);
-    const filesToDownload = items.filter(
-      item => selectedItemsArray.includes(item.id) && item.type === 'file'
-    );
+    const selectedItemsArray = items.filter(item => selectedItems.has(item.id));
+    if (selectedItemsArray.length === 0) return;
 
-    if (filesToDownload.length === 0) {
-      toast.error('Only files can be downloaded');
+    // A single file downloads as itself; anything else is bundled into one ZIP
+    if (selectedItemsArray.length === 1 && selectedItemsArray[0].type === 'file') {
+      try {
+        await downloadFile(session.accessToken, selectedItemsArray[0].id);
+        toast.success('Download started');
+      } catch (error) {
+        console.error('Download failed:', error);
+        toast.error('Failed to download file');
+      }
       return;
     }
 
+    toast.loading('Preparing ZIP…', { id: 'bulk-download' });
     try {
-      await Promise.all(filesToDownload.map(file => downloadFile(session.accessToken!, file.id)));
-      toast.success(`Download started for ${filesToDownload.length} file(s)`);
+      const { skipped } = await downloadItems(session.accessToken, {
+        fileIds: selectedItemsArray.filter(item => item.type === 'file').map(item => item.id),
+        folderIds: selectedItemsArray.filter(item => item.type === 'folder').map(item => item.id),
+      });
+      toast.success(
+        skipped > 0
+          ? `Download started. ${skipped} item(s) you don't have access to were left out`
+          : `Download started for ${selectedItemsArray.length} item(s)`,
+        { id: 'bulk-download' }
+      );
     } catch (error) {
       console.error('Download failed:', error);
-      toast.error('Failed to download files');
+      toast.error(error instanceof Error ? error.message : 'Failed to download items', { id: 'bulk-download' });
     }
   }, [session, selectedItems, items]);
 
@@ -1542,21 +1589,12 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
     try {
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
-        const formData = new FormData();
-        formData.append('file', file);
-        if (effectiveDashboardId) formData.append('dashboardId', effectiveDashboardId);
-        if (currentFolder) formData.append('folderId', currentFolder);
-
-        const response = await fetch('/api/drive/files', {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${session.accessToken}` },
-          body: formData,
-        });
-
-        if (!response.ok) {
-          toast.error(`Failed to upload ${file.name}`);
-        } else {
+        try {
+          await uploadDriveFile(file, session.accessToken);
           toast.success(`Uploaded ${file.name}`);
+        } catch (error) {
+          console.error(`Upload of ${file.name} failed:`, error);
+          toast.error(`Failed to upload ${file.name}`);
         }
       }
       
@@ -1566,7 +1604,7 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
       console.error('Drop upload failed:', error);
       toast.error('Failed to upload files');
     }
-  }, [session, currentDashboard, currentFolder, loadFilesAndFolders]);
+  }, [session, uploadDriveFile, loadFilesAndFolders]);
 
   // Filter and sort items - Memoized for performance
   const filteredItems = useMemo(() => {
@@ -1767,8 +1805,7 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
                 variant="secondary"
                 size="sm"
                 onClick={handleBulkDownload}
-                disabled={!items.some(item => selectedItems.has(item.id) && item.type === 'file')}
-                title="Download selected files"
+                title="Download selected items"
               >
                 <Download className="w-4 h-4 mr-2" />
                 Download
@@ -2152,6 +2189,7 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
           onDownload={handleDownload}
           onShare={handleShare}
           onDelete={handleDelete}
+          onVersionChanged={() => loadFilesAndFolders()}
           getFileIcon={getFileIcon}
           formatFileSize={formatFileSize}
           formatDate={formatDate}
@@ -2267,12 +2305,12 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
           }}
           onShare={async (email: string, permission: 'view' | 'edit') => {
             try {
-              let result;
-              if (shareItem.type === 'file') {
-                result = await shareItemByEmail(session.accessToken!, shareItem.id, email, permission);
-              } else {
-                result = await shareFolderByEmail(session.accessToken!, shareItem.id, email, permission);
-              }
+              const result = await shareWithDlpConfirmation((options) =>
+                shareItem.type === 'file'
+                  ? shareItemByEmail(session.accessToken!, shareItem.id, email, permission, options)
+                  : shareFolderByEmail(session.accessToken!, shareItem.id, email, permission, options)
+              );
+              if (!result) return;
               
               if (result.shareLink) {
                 // User doesn't exist - show share link modal
@@ -2302,8 +2340,13 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
             try {
               const canRead = true;
               const canWrite = permission === 'edit';
+              const granted = await shareWithDlpConfirmation((options) =>
+                shareItem.type === 'file'
+                  ? grantFilePermission(session.accessToken!, shareItem.id, userId, canRead, canWrite, options)
+                  : grantFolderPermission(session.accessToken!, shareItem.id, userId, canRead, canWrite, options)
+              );
+              if (!granted) return;
               if (shareItem.type === 'file') {
-                await grantFilePermission(session.accessToken!, shareItem.id, userId, canRead, canWrite);
                 toast.success(
                   (t) => (
                     <div className="flex items-center space-x-2">
@@ -2322,7 +2365,6 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
                   { duration: 5000 }
                 );
               } else {
-                await grantFolderPermission(session.accessToken!, shareItem.id, userId, canRead, canWrite);
                 toast.success(
                   (t) => (
                     <div className="flex items-center space-x-2">
@@ -2346,7 +2388,7 @@ export default function DriveModule({ dashboardId, className = '', refreshTrigge
             } catch (error) {
               console.error('Share failed:', error);
               const itemType = shareItem.type === 'file' ? 'file' : 'folder';
-              toast.error(`Failed to share ${itemType}`);
+              toast.error(error instanceof DlpPolicyError ? error.message : `Failed to share ${itemType}`);
               throw error;
             }
           }}
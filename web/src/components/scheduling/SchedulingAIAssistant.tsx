@@ -114,6 +114,8 @@ export default function SchedulingAIAssistant({
         strategy = 'AVAILABILITY_FIRST';
       } else if (lowerPrompt.includes('compliance') || lowerPrompt.includes('legal')) {
         strategy = 'COMPLIANCE_FIRST';
+      } else if (lowerPrompt.includes('optimi') || lowerPrompt.includes('auto')) {
+        strategy = 'AUTO_GENERATE';
       }
 
       // Call the AI schedule generation endpoint
@@ -127,7 +129,16 @@ export default function SchedulingAIAssistant({
         const aiMessage: Message = {
           id: `msg-${Date.now() + 1}`,
           type: 'ai',
-          content: `✅ ${response.message}\n\nI've generated ${response.created} shifts based on employee availability and your business's scheduling strategy. The schedule has been updated and you can see the changes in the calendar view.`,
+          content: response.summary
+            ? `✅ ${response.message}\n\n${
+                response.unfilled && response.unfilled.length > 0
+                  ? `${response.unfilled.length} shifts are still open:\n${response.unfilled
+                      .slice(0, 5)
+                      .map((gap) => `• ${gap.label ?? 'Shift'} ${new Date(gap.start).toLocaleString()}: ${gap.reasons.join(', ')}`)
+                      .join('\n')}`
+                  : 'Every open shift was filled.'
+              }\n\nEstimated labor cost: ${response.summary.laborCost.toFixed(2)}${response.summary.overBudget ? ' (over budget)' : ''}.`
+            : `✅ ${response.message}\n\nI've generated ${response.created} shifts based on employee availability and your business's scheduling strategy. The schedule has been updated and you can see the changes in the calendar view.`,
           timestamp: new Date(),
           metadata: {
             action: 'generate_schedule',
@@ -11,6 +11,8 @@ import { useGlobalTrash } from '@/contexts/GlobalTrashContext';
 import ScheduleBuilderVisual from './ScheduleBuilderVisual';
 import ScheduleBuilderSidebar, { ScheduleFilters } from './ScheduleBuilderSidebar';
 import TemplateBuilderVisual from './TemplateBuilderVisual';
+import ShiftTemplatesPanel from './ShiftTemplatesPanel';
+import SchedulingAnalyticsReports from './SchedulingAnalyticsReports';
 import SchedulingConfiguration from '../business/SchedulingConfiguration';
 import { getBusinessEmployees, getPositions } from '@/api/orgChart';
 import { getBusinessStations } from '@/api/scheduling';
@@ -1779,6 +1781,15 @@ export default function SchedulingAdminContent({
           </Button>
         </div>
 
+        <ShiftTemplatesPanel
+          businessId={businessId}
+          onScheduleGenerated={async (schedule) => {
+            await refresh();
+            await handleSelectSchedule(schedule);
+            onViewChange?.('builder');
+          }}
+        />
+
         {/* Existing Templates */}
         {templates.length > 0 && (
           <div className="mb-8">
@@ -2409,6 +2420,8 @@ export default function SchedulingAdminContent({
             </div>
           </Card>
         </div>
+
+        <SchedulingAnalyticsReports businessId={businessId} />
         </div>
         {/* Modals */}
         {renderModals()}
@@ -0,0 +1,323 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import { format, subDays } from 'date-fns';
+import { AlertTriangle, DollarSign, Download, Grid3X3 } from 'lucide-react';
+import { Badge, Button, Card, Spinner } from 'shared/components';
+import {
+  ComplianceIssueType,
+  ComplianceReport,
+  CoverageAnalytics,
+  LaborCostAnalytics,
+  LaborCostRow,
+  SchedulingAnalyticsReport,
+  exportSchedulingAnalyticsCsv,
+  getComplianceReport,
+  getCoverageAnalytics,
+  getLaborCostAnalytics,
+} from '@/api/scheduling';
+
+interface SchedulingAnalyticsReportsProps {
+  businessId: string;
+}
+
+const TABS: Array<{ value: SchedulingAnalyticsReport; label: string }> = [
+  { value: 'labor-cost', label: 'Labor Cost' },
+  { value: 'coverage', label: 'Coverage' },
+  { value: 'compliance', label: 'Compliance' },
+];
+
+const ISSUE_LABELS: Record<ComplianceIssueType, string> = {
+  OVERTIME: 'Overtime',
+  SPLIT_SHIFT: 'Split shift',
+  MISSED_BREAK: 'Missed break',
+  SHORT_NOTICE: 'Short notice',
+};
+
+const money = (value: number) => value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+const cellColor = (gap: number, required: number) => {
+  if (required === 0 && gap === 0) return 'bg-gray-50';
+  if (gap < 0) return gap <= -2 ? 'bg-red-400 text-white' : 'bg-red-200';
+  if (gap > 0) return 'bg-blue-200';
+  return 'bg-green-200';
+};
+
+function LaborCostTable({ title, rows }: { title: string; rows: LaborCostRow[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase text-gray-500">
+            <th className="py-1">{title.replace('By ', '')}</th>
+            <th className="py-1 text-right">Scheduled</th>
+            <th className="py-1 text-right">Actual</th>
+            <th className="py-1 text-right">Variance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t border-gray-100">
+              <td className="py-1">{row.key}</td>
+              <td className="py-1 text-right">{money(row.scheduledCost)}</td>
+              <td className="py-1 text-right">{money(row.actualCost)}</td>
+              <td className={`py-1 text-right ${row.varianceCost > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {money(row.varianceCost)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function SchedulingAnalyticsReports({ businessId }: SchedulingAnalyticsReportsProps) {
+  const { data: session } = useSession();
+  const token = session?.accessToken;
+  const [tab, setTab] = useState<SchedulingAnalyticsReport>('labor-cost');
+  const [startDate, setStartDate] = useState(() => format(subDays(new Date(), 13), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [noticeDays, setNoticeDays] = useState('14');
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [laborCost, setLaborCost] = useState<LaborCostAnalytics | null>(null);
+  const [coverage, setCoverage] = useState<CoverageAnalytics | null>(null);
+  const [compliance, setCompliance] = useState<ComplianceReport | null>(null);
+
+  const params = useMemo(
+    () => ({ startDate, endDate, ...(tab === 'compliance' && noticeDays ? { noticeDays: Number(noticeDays) } : {}) }),
+    [startDate, endDate, tab, noticeDays]
+  );
+
+  const load = useCallback(async () => {
+    if (!token || !startDate || !endDate) return;
+    try {
+      setLoading(true);
+      if (tab === 'labor-cost') setLaborCost(await getLaborCostAnalytics(businessId, params, token));
+      if (tab === 'coverage') setCoverage(await getCoverageAnalytics(businessId, params, token));
+      if (tab === 'compliance') setCompliance(await getComplianceReport(businessId, params, token));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, token, tab, params, startDate, endDate]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const blob = await exportSchedulingAnalyticsCsv(tab, businessId, params, token);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `scheduling-${tab}-${startDate}-to-${endDate}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const coverageByDate = useMemo(() => {
+    const byDate = new Map<string, CoverageAnalytics['cells']>();
+    for (const cell of coverage?.cells ?? []) {
+      byDate.set(cell.date, [...(byDate.get(cell.date) ?? []), cell]);
+    }
+    return byDate;
+  }, [coverage]);
+
+  return (
+    <Card className="p-6 mt-6">
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Labor & Compliance Reports</h3>
+          <p className="text-sm text-gray-600">Scheduled versus actual cost, staffing coverage and labor law checks.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={startDate}
+            onChange={(event) => setStartDate(event.target.value)}
+            className="rounded border px-3 py-2 text-sm"
+            aria-label="Start date"
+          />
+          <input
+            type="date"
+            value={endDate}
+            onChange={(event) => setEndDate(event.target.value)}
+            className="rounded border px-3 py-2 text-sm"
+            aria-label="End date"
+          />
+          {tab === 'compliance' && (
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              Notice days
+              <input
+                type="number"
+                min={0}
+                value={noticeDays}
+                onChange={(event) => setNoticeDays(event.target.value)}
+                className="w-16 rounded border px-2 py-2 text-sm"
+              />
+            </label>
+          )}
+          <Button variant="secondary" size="sm" onClick={handleExport} disabled={exporting} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            {exporting ? 'Exporting…' : 'Export CSV'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-4 flex gap-2 border-b border-gray-200">
+        {TABS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setTab(option.value)}
+            className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+              tab === option.value ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : (
+        <>
+          {tab === 'labor-cost' && laborCost && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="rounded border p-3">
+                  <p className="text-xs uppercase text-gray-500">Scheduled</p>
+                  <p className="text-xl font-semibold">{money(laborCost.totals.scheduledCost)}</p>
+                  <p className="text-xs text-gray-500">{laborCost.totals.scheduledHours.toFixed(1)} hours</p>
+                </div>
+                <div className="rounded border p-3">
+                  <p className="text-xs uppercase text-gray-500">Actual</p>
+                  <p className="text-xl font-semibold">{money(laborCost.totals.actualCost)}</p>
+                  <p className="text-xs text-gray-500">{laborCost.totals.actualHours.toFixed(1)} hours</p>
+                </div>
+                <div className="rounded border p-3">
+                  <p className="text-xs uppercase text-gray-500 flex items-center gap-1">
+                    <DollarSign className="h-3 w-3" />
+                    Variance
+                  </p>
+                  <p className={`text-xl font-semibold ${laborCost.totals.varianceCost > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {money(laborCost.totals.varianceCost)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {laborCost.unmatchedRecords} unscheduled punches · {laborCost.employeesWithoutRate} without pay rate
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <LaborCostTable title="By Day" rows={laborCost.byDay} />
+                <LaborCostTable title="By Station" rows={laborCost.byStation} />
+                <LaborCostTable title="By Department" rows={laborCost.byDepartment} />
+              </div>
+            </div>
+          )}
+
+          {tab === 'coverage' && coverage && (
+            <div className="overflow-x-auto">
+              <p className="mb-3 text-sm text-gray-600 flex items-center gap-2">
+                <Grid3X3 className="h-4 w-4" />
+                {coverage.understaffedHours} understaffed and {coverage.overstaffedHours} overstaffed hours ({coverage.timezone})
+              </p>
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th className="pr-2 text-left text-gray-500">Date</th>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <th key={hour} className="w-8 text-center font-normal text-gray-500">
+                        {hour}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {coverage.dates.map((date) => (
+                    <tr key={date}>
+                      <td className="pr-2 whitespace-nowrap text-gray-700">{date}</td>
+                      {Array.from({ length: 24 }, (_, hour) => {
+                        const cell = coverageByDate.get(date)?.find((entry) => entry.hour === hour);
+                        return (
+                          <td
+                            key={hour}
+                            title={cell ? `${cell.scheduled} scheduled / ${cell.required} required` : undefined}
+                            className={`h-7 w-8 border border-white text-center ${cell ? cellColor(cell.gap, cell.required) : 'bg-gray-50'}`}
+                          >
+                            {cell && cell.required > 0 ? `${cell.scheduled}/${cell.required}` : ''}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {tab === 'compliance' && compliance && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(ISSUE_LABELS) as ComplianceIssueType[]).map((type) => (
+                  <Badge key={type} color={compliance.counts[type] > 0 ? 'red' : 'green'}>
+                    {ISSUE_LABELS[type]}: {compliance.counts[type]}
+                  </Badge>
+                ))}
+              </div>
+              {compliance.issues.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-500">No compliance issues in this period</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase text-gray-500">
+                      <th className="py-1">Date</th>
+                      <th className="py-1">Employee</th>
+                      <th className="py-1">Issue</th>
+                      <th className="py-1">Source</th>
+                      <th className="py-1">Detail</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {compliance.issues.map((issue, index) => (
+                      <tr key={`${issue.type}-${issue.shiftId ?? issue.attendanceRecordId ?? index}-${issue.date}`} className="border-t border-gray-100">
+                        <td className="py-1 whitespace-nowrap">{issue.date}</td>
+                        <td className="py-1">{issue.employeeName}</td>
+                        <td className="py-1">
+                          <span className="flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3 text-amber-500" />
+                            {ISSUE_LABELS[issue.type]}
+                          </span>
+                        </td>
+                        <td className="py-1 text-gray-600">{issue.source === 'ACTUAL' ? 'Time clock' : 'Schedule'}</td>
+                        <td className="py-1 text-gray-700">{issue.detail}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
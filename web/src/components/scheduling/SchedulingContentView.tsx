@@ -52,7 +52,7 @@ export default function SchedulingContentView({
         />
       );
     }
-    if (view === 'team' || view === 'swaps') {
+    if (view === 'team' || view === 'team-open-shifts' || view === 'team-availability' || view === 'swaps') {
       return (
         <SchedulingTeamContent
           businessId={businessId}
@@ -72,7 +72,7 @@ export default function SchedulingContentView({
 
   // Manager views
   if (userRole === 'MANAGER') {
-    if (view === 'team' || view === 'swaps') {
+    if (view === 'team' || view === 'team-open-shifts' || view === 'team-availability' || view === 'swaps') {
       return (
         <SchedulingTeamContent
           businessId={businessId}
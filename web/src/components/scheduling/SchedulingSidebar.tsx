@@ -75,6 +75,18 @@ const navItems: NavItem[] = [
     icon: Users,
     roles: ['ADMIN', 'MANAGER'],
   },
+  {
+    id: 'team-open-shifts',
+    label: 'Fill Open Shifts',
+    icon: AlertCircle,
+    roles: ['ADMIN', 'MANAGER'],
+  },
+  {
+    id: 'team-availability',
+    label: 'Team Availability',
+    icon: Clock,
+    roles: ['ADMIN', 'MANAGER'],
+  },
   {
     id: 'swaps',
     label: 'Swap Approvals',
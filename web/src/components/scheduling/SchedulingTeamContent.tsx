@@ -1,11 +1,19 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useScheduling } from '@/hooks/useScheduling';
-import { ScheduleShift } from '@/api/scheduling';
+import {
+  ScheduleShift,
+  TeamMemberAvailability,
+  assignEmployeeToShift,
+  getOpenShiftsForTeam,
+  getTeamAvailability,
+  publishTeamSchedule,
+} from '@/api/scheduling';
 import { getBusiness } from '@/api/business';
 import { useSession } from 'next-auth/react';
-import { Button, Card } from 'shared/components';
+import { toast } from 'react-hot-toast';
+import { Badge, Button, Card } from 'shared/components';
 import {
   Calendar,
   Users,
@@ -13,6 +21,8 @@ import {
   AlertCircle,
   CheckCircle2,
   XCircle,
+  Send,
+  UserPlus,
 } from 'lucide-react';
 import { format, parseISO, startOfWeek, addDays, isSameDay } from 'date-fns';
 import ScheduleCalendarGrid from './ScheduleCalendarGrid';
@@ -41,6 +51,32 @@ export default function SchedulingTeamContent({
   const [currentWeekStart, setCurrentWeekStart] = useState<Date>(startOfWeek(new Date(), { weekStartsOn: 1 }));
   const [employees, setEmployees] = useState<Array<{ id: string; name: string; position?: string; userId?: string }>>([]);
   const [positions, setPositions] = useState<Array<{ id: string; name: string; title?: string }>>([]);
+  const [openShifts, setOpenShifts] = useState<ScheduleShift[]>([]);
+  const [teamAvailability, setTeamAvailability] = useState<TeamMemberAvailability[]>([]);
+  const [assignees, setAssignees] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const token = session?.accessToken as string | undefined;
+
+  const loadTeamData = useCallback(async () => {
+    if (!businessId || !token) return;
+    try {
+      const [shifts, team] = await Promise.all([
+        view === 'team-open-shifts' ? getOpenShiftsForTeam(businessId, token) : Promise.resolve([]),
+        getTeamAvailability(businessId, token),
+      ]);
+      setOpenShifts(shifts);
+      setTeamAvailability(team);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load team data');
+    }
+  }, [businessId, token, view]);
+
+  useEffect(() => {
+    if (view === 'team-open-shifts' || view === 'team-availability') {
+      void loadTeamData();
+    }
+  }, [view, loadTeamData]);
 
   // Load business config, employees, and positions
   useEffect(() => {
@@ -120,6 +156,8 @@ export default function SchedulingTeamContent({
     allShiftsCount: allShifts.length
   });
 
+  const draftSchedules = schedules.filter(s => s.status === 'DRAFT');
+
   // Get pending swap requests
   const pendingSwaps = swapRequests.filter(sr => sr.status === 'PENDING');
 
@@ -181,6 +219,41 @@ export default function SchedulingTeamContent({
     await refresh();
   };
 
+  const handlePublish = async (scheduleId: string) => {
+    try {
+      setBusyId(scheduleId);
+      await publishTeamSchedule(businessId, scheduleId, token);
+      toast.success('Schedule published');
+      await refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to publish schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAssign = async (shiftId: string) => {
+    const employeePositionId = assignees[shiftId];
+    if (!employeePositionId) {
+      toast.error('Choose a team member first');
+      return;
+    }
+    try {
+      setBusyId(shiftId);
+      await assignEmployeeToShift(businessId, shiftId, employeePositionId, token);
+      toast.success('Shift assigned');
+      await Promise.all([loadTeamData(), refresh()]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to assign shift');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Only offer team members whose position fits the shift
+  const eligibleMembers = (shift: ScheduleShift) =>
+    teamAvailability.filter((member) => !shift.positionId || member.position.id === shift.positionId);
+
   if (loading && schedules.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -257,6 +330,35 @@ export default function SchedulingTeamContent({
           </Card>
         </div>
 
+        {/* Draft schedules the manager can publish for their team */}
+        {draftSchedules.length > 0 && (
+          <Card className="mb-6 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Draft Schedules</h2>
+            <div className="divide-y divide-gray-100">
+              {draftSchedules.map((schedule) => (
+                <div key={schedule.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{schedule.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {safeFormatDate(schedule.startDate, 'MMM d')} – {safeFormatDate(schedule.endDate, 'MMM d, yyyy')} ·{' '}
+                      {schedule.shifts?.length || 0} shifts
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handlePublish(schedule.id)}
+                    disabled={busyId === schedule.id}
+                    className="flex items-center"
+                  >
+                    <Send className="h-4 w-4 mr-1" />
+                    {busyId === schedule.id ? 'Publishing…' : 'Publish'}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Week Calendar View */}
         <Card className="mb-6">
           <div className="p-6">
@@ -306,6 +408,126 @@ export default function SchedulingTeamContent({
     );
   }
 
+  // Open shifts the manager can fill from their team
+  if (view === 'team-open-shifts') {
+    return (
+      <div className="h-full overflow-y-auto p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Fill Open Shifts</h2>
+        {openShifts.length === 0 ? (
+          <Card className="p-6 text-center">
+            <CheckCircle2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No open shifts need your team</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {openShifts.map((shift) => (
+              <Card key={shift.id} className="p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {shift.title}
+                      {getShiftPositionTitle(shift) && (
+                        <span className="text-sm font-normal text-gray-600"> · {getShiftPositionTitle(shift)}</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {safeFormatDate(shift.startTime, 'EEE, MMM d HH:mm', '--')} – {safeFormatDate(shift.endTime, 'HH:mm', '--')}
+                      {shift.stationName ? ` · ${shift.stationName}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={assignees[shift.id] || ''}
+                      onChange={(event) => setAssignees({ ...assignees, [shift.id]: event.target.value })}
+                      className="rounded border px-3 py-2 text-sm"
+                      aria-label="Team member"
+                    >
+                      <option value="">Choose team member…</option>
+                      {eligibleMembers(shift).map((member) => (
+                        <option key={member.employeePositionId} value={member.employeePositionId}>
+                          {member.user.name || member.user.email}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      size="sm"
+                      onClick={() => handleAssign(shift.id)}
+                      disabled={busyId === shift.id}
+                      className="flex items-center"
+                    >
+                      <UserPlus className="h-4 w-4 mr-1" />
+                      Assign
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Team availability and approved time off
+  if (view === 'team-availability') {
+    return (
+      <div className="h-full overflow-y-auto p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Team Availability</h2>
+        {teamAvailability.length === 0 ? (
+          <Card className="p-6 text-center">
+            <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No team members found</p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {teamAvailability.map((member) => (
+              <Card key={member.employeePositionId} className="p-4">
+                <p className="font-medium text-gray-900">{member.user.name || member.user.email}</p>
+                <p className="text-sm text-gray-600 mb-3">{member.position.title}</p>
+                {member.availability.length === 0 ? (
+                  <p className="text-sm text-gray-500">No availability on file (treated as available)</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {member.availability.map((entry) => (
+                      <li key={entry.id} className="flex items-center justify-between">
+                        <span className="capitalize">{entry.dayOfWeek.toLowerCase()}</span>
+                        <span className="flex items-center gap-2">
+                          {entry.startTime}–{entry.endTime}
+                          <Badge
+                            size="sm"
+                            color={
+                              entry.availabilityType === 'UNAVAILABLE'
+                                ? 'red'
+                                : entry.availabilityType === 'PREFERRED'
+                                  ? 'blue'
+                                  : 'green'
+                            }
+                          >
+                            {entry.availabilityType.toLowerCase()}
+                          </Badge>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {member.timeOff.length > 0 && (
+                  <div className="mt-3 border-t border-gray-100 pt-2 text-sm text-gray-700">
+                    <p className="font-medium mb-1">Approved time off</p>
+                    {member.timeOff.map((entry) => (
+                      <p key={entry.id}>
+                        {safeFormatDate(entry.startDate, 'MMM d')} – {safeFormatDate(entry.endDate, 'MMM d, yyyy')}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // Swap Approvals View
   if (view === 'swaps') {
     return (
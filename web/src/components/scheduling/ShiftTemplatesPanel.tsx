@@ -0,0 +1,422 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { toast } from 'react-hot-toast';
+import { format, nextMonday } from 'date-fns';
+import { Edit, Plus, Trash2, Users, CalendarPlus } from 'lucide-react';
+import { Button, Card } from 'shared/components';
+import {
+  Schedule,
+  ShiftTemplate,
+  ShiftTemplateInput,
+  createShiftTemplate,
+  deleteShiftTemplate,
+  generateWeekFromTemplates,
+  getBusinessJobLocations,
+  getBusinessStations,
+  getShiftTemplates,
+  updateShiftTemplate,
+} from '@/api/scheduling';
+import { getPositions } from '@/api/orgChart';
+
+interface ShiftTemplatesPanelProps {
+  businessId: string;
+  onScheduleGenerated?: (schedule: Schedule) => void;
+}
+
+const DAYS = [
+  { value: 'MONDAY', label: 'Mon' },
+  { value: 'TUESDAY', label: 'Tue' },
+  { value: 'WEDNESDAY', label: 'Wed' },
+  { value: 'THURSDAY', label: 'Thu' },
+  { value: 'FRIDAY', label: 'Fri' },
+  { value: 'SATURDAY', label: 'Sat' },
+  { value: 'SUNDAY', label: 'Sun' },
+];
+
+type TemplateForm = {
+  name: string;
+  defaultStartTime: string;
+  defaultEndTime: string;
+  defaultBreakMinutes: string;
+  daysOfWeek: string[];
+  positionId: string;
+  stationId: string;
+  locationId: string;
+  requiredHeadcount: string;
+  color: string;
+};
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  defaultStartTime: '09:00',
+  defaultEndTime: '17:00',
+  defaultBreakMinutes: '',
+  daysOfWeek: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'],
+  positionId: '',
+  stationId: '',
+  locationId: '',
+  requiredHeadcount: '1',
+  color: '',
+};
+
+const describeDays = (days: string[]) =>
+  days.length === 0 || days.length === 7
+    ? 'Every day'
+    : DAYS.filter((day) => days.includes(day.value)).map((day) => day.label).join(', ');
+
+export default function ShiftTemplatesPanel({ businessId, onScheduleGenerated }: ShiftTemplatesPanelProps) {
+  const { data: session } = useSession();
+  const token = session?.accessToken;
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [positions, setPositions] = useState<Array<{ id: string; title: string }>>([]);
+  const [stations, setStations] = useState<Array<{ id: string; name: string }>>([]);
+  const [locations, setLocations] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [weekStart, setWeekStart] = useState(() => format(nextMonday(new Date()), 'yyyy-MM-dd'));
+  const [generating, setGenerating] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    try {
+      setLoading(true);
+      const [templateList, positionsResponse, stationsResponse, locationsResponse] = await Promise.all([
+        getShiftTemplates(businessId, token, { includeInactive: true }),
+        getPositions(businessId, token).catch(() => ({ success: false, data: [] })),
+        getBusinessStations(businessId, token).catch(() => ({ stations: [] })),
+        getBusinessJobLocations(businessId, token).catch(() => ({ jobLocations: [] })),
+      ]);
+      setTemplates(templateList);
+      // The API returns the position title even though the shared type calls it name
+      setPositions(
+        positionsResponse.data.map((position) => ({
+          id: position.id,
+          title: (position as { title?: string }).title || position.name,
+        }))
+      );
+      setStations(stationsResponse.stations.filter((station) => station.isActive).map(({ id, name }) => ({ id, name })));
+      setLocations(locationsResponse.jobLocations.filter((location) => location.isActive).map(({ id, name }) => ({ id, name })));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load shift templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, token]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const openForm = (template?: ShiftTemplate) => {
+    setEditingId(template?.id ?? null);
+    setForm(
+      template
+        ? {
+            name: template.name,
+            defaultStartTime: template.defaultStartTime,
+            defaultEndTime: template.defaultEndTime,
+            defaultBreakMinutes: template.defaultBreakMinutes?.toString() ?? '',
+            daysOfWeek: template.daysOfWeek,
+            positionId: template.positionId ?? '',
+            stationId: template.stationId ?? '',
+            locationId: template.locationId ?? '',
+            requiredHeadcount: template.requiredHeadcount.toString(),
+            color: template.color ?? '',
+          }
+        : EMPTY_FORM
+    );
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const toggleDay = (day: string) => {
+    setForm((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((value) => value !== day)
+        : [...prev.daysOfWeek, day],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!token || !form.name.trim()) return;
+    const payload: ShiftTemplateInput & { name: string; defaultStartTime: string; defaultEndTime: string } = {
+      name: form.name.trim(),
+      defaultStartTime: form.defaultStartTime,
+      defaultEndTime: form.defaultEndTime,
+      defaultBreakMinutes: form.defaultBreakMinutes ? Number(form.defaultBreakMinutes) : null,
+      daysOfWeek: form.daysOfWeek,
+      positionId: form.positionId || null,
+      stationId: form.stationId || null,
+      locationId: form.locationId || null,
+      requiredHeadcount: Number(form.requiredHeadcount) || 1,
+      color: form.color || null,
+    };
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        const template = await updateShiftTemplate(editingId, businessId, payload, token);
+        setTemplates((prev) => prev.map((item) => (item.id === template.id ? template : item)));
+        toast.success('Shift template updated');
+      } else {
+        const template = await createShiftTemplate(businessId, payload, token);
+        setTemplates((prev) => [...prev, template]);
+        toast.success('Shift template created');
+      }
+      closeForm();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save shift template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: ShiftTemplate) => {
+    if (!token) return;
+    try {
+      const updated = await updateShiftTemplate(template.id, businessId, { isActive: !template.isActive }, token);
+      setTemplates((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update shift template');
+    }
+  };
+
+  const handleDelete = async (template: ShiftTemplate) => {
+    if (!token) return;
+    if (!window.confirm(`Delete the "${template.name}" shift template? Shifts already generated from it are kept.`)) return;
+    try {
+      await deleteShiftTemplate(template.id, businessId, token);
+      setTemplates((prev) => prev.filter((item) => item.id !== template.id));
+      toast.success('Shift template deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete shift template');
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!token || !weekStart) return;
+    try {
+      setGenerating(true);
+      const result = await generateWeekFromTemplates(businessId, { weekStart }, token);
+      toast.success(
+        result.created > 0
+          ? `Created ${result.created} open shift${result.created === 1 ? '' : 's'} in ${result.schedule.name}`
+          : 'Every template shift already exists for that week'
+      );
+      onScheduleGenerated?.(result.schedule);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to generate shifts');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const activeCount = templates.filter((template) => template.isActive).length;
+
+  return (
+    <div className="mb-8">
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Recurring Shift Templates</h3>
+          <p className="text-sm text-gray-600">
+            Define the shifts you staff every week, then generate a draft schedule of open shifts from them.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={weekStart}
+            onChange={(event) => setWeekStart(event.target.value)}
+            className="rounded border px-3 py-2 text-sm"
+            aria-label="Week starting"
+          />
+          <Button
+            variant="secondary"
+            onClick={handleGenerate}
+            disabled={generating || activeCount === 0}
+            className="flex items-center"
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            {generating ? 'Generating…' : 'Generate Week'}
+          </Button>
+          <Button onClick={() => (formOpen ? closeForm() : openForm())} className="flex items-center">
+            <Plus className="h-4 w-4 mr-2" />
+            {formOpen ? 'Cancel' : 'Add Shift Template'}
+          </Button>
+        </div>
+      </div>
+
+      {formOpen && (
+        <Card className="mb-4 space-y-3 p-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <input
+              type="text"
+              placeholder="Template name (e.g. Morning line)"
+              value={form.name}
+              onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+              className="rounded border px-3 py-2 text-sm md:col-span-2"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Start
+              <input
+                type="time"
+                value={form.defaultStartTime}
+                onChange={(event) => setForm((prev) => ({ ...prev, defaultStartTime: event.target.value }))}
+                className="flex-1 rounded border px-3 py-2"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              End
+              <input
+                type="time"
+                value={form.defaultEndTime}
+                onChange={(event) => setForm((prev) => ({ ...prev, defaultEndTime: event.target.value }))}
+                className="flex-1 rounded border px-3 py-2"
+              />
+            </label>
+            <select
+              value={form.positionId}
+              onChange={(event) => setForm((prev) => ({ ...prev, positionId: event.target.value }))}
+              className="rounded border px-3 py-2 text-sm"
+            >
+              <option value="">Any position</option>
+              {positions.map((position) => (
+                <option key={position.id} value={position.id}>
+                  {position.title}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.stationId}
+              onChange={(event) => setForm((prev) => ({ ...prev, stationId: event.target.value }))}
+              className="rounded border px-3 py-2 text-sm"
+            >
+              <option value="">No station</option>
+              {stations.map((station) => (
+                <option key={station.id} value={station.id}>
+                  {station.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.locationId}
+              onChange={(event) => setForm((prev) => ({ ...prev, locationId: event.target.value }))}
+              className="rounded border px-3 py-2 text-sm"
+            >
+              <option value="">Schedule location</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <label className="flex flex-1 items-center gap-2 text-sm text-gray-700">
+                Staff
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={form.requiredHeadcount}
+                  onChange={(event) => setForm((prev) => ({ ...prev, requiredHeadcount: event.target.value }))}
+                  className="w-full rounded border px-3 py-2"
+                />
+              </label>
+              <label className="flex flex-1 items-center gap-2 text-sm text-gray-700">
+                Break
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="min"
+                  value={form.defaultBreakMinutes}
+                  onChange={(event) => setForm((prev) => ({ ...prev, defaultBreakMinutes: event.target.value }))}
+                  className="w-full rounded border px-3 py-2"
+                />
+              </label>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-1">
+              {DAYS.map((day) => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleDay(day.value)}
+                  className={`rounded-md border px-3 py-1 text-sm ${
+                    form.daysOfWeek.includes(day.value)
+                      ? 'border-blue-600 bg-blue-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+              {editingId ? 'Save Template' : 'Create Template'}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {loading && templates.length === 0 ? (
+        <div className="py-6 text-sm text-gray-500">Loading shift templates…</div>
+      ) : templates.length === 0 ? (
+        <Card className="p-6 text-center text-sm text-gray-600">
+          No shift templates yet. Add the shifts you run each week, such as &quot;Opening cashier, Mon–Fri 7:00–15:00, 2 staff&quot;.
+        </Card>
+      ) : (
+        <div className="divide-y rounded-lg border bg-white">
+          {templates.map((template) => (
+            <div key={template.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+              <div className="flex items-center gap-3">
+                <span
+                  className="h-8 w-1.5 rounded"
+                  style={{ backgroundColor: template.color || template.station?.color || '#9CA3AF' }}
+                />
+                <div>
+                  <div className={`font-medium ${template.isActive ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {template.name}
+                    {!template.isActive && <span className="ml-2 text-xs font-normal">(inactive)</span>}
+                  </div>
+                  <div className="text-gray-500">
+                    {template.defaultStartTime}–{template.defaultEndTime} · {describeDays(template.daysOfWeek)}
+                    {template.position && ` · ${template.position.title}`}
+                    {template.station && ` · ${template.station.name}`}
+                    {template.location && ` · ${template.location.name}`}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="flex items-center text-gray-600">
+                  <Users className="h-4 w-4 mr-1" />
+                  {template.requiredHeadcount}
+                </span>
+                <button type="button" onClick={() => handleToggleActive(template)} className="text-gray-600 hover:underline">
+                  {template.isActive ? 'Pause' : 'Resume'}
+                </button>
+                <button type="button" onClick={() => openForm(template)} className="text-blue-600 hover:text-blue-500" aria-label="Edit">
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button type="button" onClick={() => handleDelete(template)} className="text-red-600 hover:text-red-500" aria-label="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
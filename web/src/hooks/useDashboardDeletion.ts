@@ -6,6 +6,7 @@ import {
   DashboardFileSummary, 
   FileHandlingAction 
 } from '../api/dashboard';
+import { downloadFile } from '../api/drive';
 
 interface Dashboard {
   id: string;
@@ -63,6 +64,16 @@ export function useDashboardDeletion() {
       );
       
       console.log('Dashboard deletion result:', result);
+
+      // The export is kept in the main drive; start its download right away
+      const exportResult = result.migration?.exportResult;
+      if (exportResult) {
+        try {
+          await downloadFile(session.accessToken, exportResult.fileId);
+        } catch (downloadError) {
+          console.error('Error downloading dashboard export:', downloadError);
+        }
+      }
       return result;
     } catch (err) {
       console.error('Error deleting dashboard:', err);